@@ -9,6 +9,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/lib/auth-context";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { AIAssistant } from "@/components/AIAssistant";
+import { MfaPrompt } from "@/components/MfaPrompt";
 
 // Public pages
 import Index from "./pages/Index";
@@ -32,6 +33,7 @@ import AdminProjects from "./pages/AdminProjects";
 import AdminRouting from "./pages/AdminRouting";
 import AdminUsers from "./pages/AdminUsers";
 import AdminBusinessDetail from "./pages/AdminBusinessDetail";
+import AdminControls from "./pages/AdminControls";
 import BusinessVendors from "./pages/BusinessVendors";
 import BusinessVendorDetail from "./pages/BusinessVendorDetail";
 import VendorDashboard from "./pages/VendorDashboard";
@@ -203,6 +205,14 @@ const AppRoutes = () => (
         </ProtectedRoute>
       }
     />
+    <Route
+      path="/admin/controls"
+      element={
+        <ProtectedRoute requiredRole="admin">
+          <AdminControls />
+        </ProtectedRoute>
+      }
+    />
 
     {/* Shared Routes */}
     <Route
@@ -283,6 +293,7 @@ const App = () => (
       <ErrorBoundary>
         <AppRoutes />
         <AIAssistant />
+        <MfaPrompt />
       </ErrorBoundary>
     </TooltipProvider>
   </QueryClientProvider>
@@ -17,6 +17,7 @@ import { useAuth } from '@/lib/auth-context';
 import { useLocation } from 'react-router-dom';
 import { getErrorMessage } from '@/lib/utils';
 import { cn } from '@/lib/utils';
+import { apiFetch } from '@/lib/api-client';
 
 interface Message {
   id: string;
@@ -140,7 +141,7 @@ Be friendly, professional, and concise. Use markdown for formatting if helpful.`
     setError(null);
 
     try {
-      const response = await fetch('/api/ai-intake', {
+      const response = await apiFetch('/api/ai-intake', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -0,0 +1,158 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  BidLineItem,
+  PRICING_MODELS,
+  PricingModel,
+  bidTotals,
+  describeLineItem,
+  formatCurrency,
+  lineItemTotal,
+} from '@shared/bid-pricing';
+
+export const EMPTY_LINE_ITEM: BidLineItem = { description: '', pricing_model: 'fixed', unit_price: 0, quantity: 1, optional: false };
+
+const labelClass = 'text-[9px] font-black uppercase text-slate-400 tracking-widest ml-1 mb-1 block';
+
+const priceLabel = (model: PricingModel) =>
+  model === 'hourly' ? 'Rate ($/hr)' : model === 'monthly' ? 'Per month ($)' : model === 'per_unit' ? 'Per unit ($)' : 'Price ($)';
+
+function BidTotalsRow({ items }: { items: BidLineItem[] }) {
+  const totals = bidTotals(items);
+
+  return (
+    <div className="grid grid-cols-2 gap-4 pt-4 border-t border-slate-100 dark:border-slate-800">
+      <div>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">First Year</p>
+        <p className="font-black text-lg text-slate-900 dark:text-white tracking-tighter">{formatCurrency(totals.first_year_total)}</p>
+      </div>
+      <div>
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Full Contract</p>
+        <p className="font-black text-lg text-blue-600 tracking-tighter">{formatCurrency(totals.contract_total)}</p>
+      </div>
+      {totals.monthly_total > 0 && (
+        <p className="col-span-2 text-[11px] text-slate-500">Includes {formatCurrency(totals.monthly_total)}/month in retainers</p>
+      )}
+      {totals.optional_total > 0 && (
+        <p className="col-span-2 text-[11px] text-slate-500">+ {formatCurrency(totals.optional_total)} in optional items</p>
+      )}
+    </div>
+  );
+}
+
+// Line item editor for the vendor bid form. Totals use the same math the server stores.
+export function BidLineItemsEditor({ items, onChange }: { items: BidLineItem[]; onChange: (items: BidLineItem[]) => void }) {
+  const updateItem = (index: number, changes: Partial<BidLineItem>) =>
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  return (
+    <div className="space-y-4">
+      {items.map((item, index) => {
+        const unit = PRICING_MODELS.find((model) => model.value === item.pricing_model)?.unit;
+
+        return (
+          <div key={index} className="p-4 rounded-xl border border-slate-200 dark:border-slate-800 space-y-3">
+            <div className="flex gap-2">
+              <Input
+                placeholder="e.g., Monthly managed services"
+                value={item.description}
+                onChange={(e) => updateItem(index, { description: e.target.value })}
+                className="h-10 font-bold border-slate-200"
+              />
+              {items.length > 1 && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => onChange(items.filter((_, i) => i !== index))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className={labelClass}>Pricing</label>
+                <select
+                  value={item.pricing_model}
+                  onChange={(e) => updateItem(index, { pricing_model: e.target.value as PricingModel, quantity: 1 })}
+                  className="w-full h-10 px-2 rounded-md border border-slate-200 bg-white dark:bg-slate-900 text-xs font-bold"
+                >
+                  {PRICING_MODELS.map((model) => (
+                    <option key={model.value} value={model.value}>{model.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>{priceLabel(item.pricing_model)}</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={item.unit_price || ''}
+                  onChange={(e) => updateItem(index, { unit_price: Number(e.target.value) })}
+                  className="h-10 font-bold border-slate-200"
+                />
+              </div>
+              {unit && (
+                <div>
+                  <label className={labelClass}>{unit === 'hours' ? 'Est. hours' : unit === 'months' ? 'Months' : 'Units'}</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step={unit === 'months' ? '1' : 'any'}
+                    value={item.quantity || ''}
+                    onChange={(e) => updateItem(index, { quantity: Number(e.target.value) })}
+                    className="h-10 font-bold border-slate-200"
+                  />
+                </div>
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              <label className="flex items-center gap-2 text-[11px] font-bold text-slate-500">
+                <input
+                  type="checkbox"
+                  checked={!!item.optional}
+                  onChange={(e) => updateItem(index, { optional: e.target.checked })}
+                />
+                Optional add-on
+              </label>
+              <span className="text-xs font-black text-slate-700 dark:text-slate-300">{formatCurrency(lineItemTotal(item))}</span>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => onChange([...items, EMPTY_LINE_ITEM])}
+        className="w-full font-black uppercase text-[10px] tracking-widest h-10 border-slate-200"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Line Item
+      </Button>
+
+      <BidTotalsRow items={items} />
+    </div>
+  );
+}
+
+// Read-only breakdown of a bid's line items and totals
+export function BidPricingBreakdown({ items }: { items: BidLineItem[] }) {
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex items-start justify-between gap-4 text-sm">
+          <div>
+            <p className="font-bold text-slate-700 dark:text-slate-300">
+              {item.description}
+              {item.optional && (
+                <span className="ml-2 text-[9px] font-black uppercase px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">Optional</span>
+              )}
+            </p>
+            <p className="text-[11px] text-slate-400">{describeLineItem(item)}</p>
+          </div>
+          <span className="font-bold text-slate-900 dark:text-white whitespace-nowrap">{formatCurrency(lineItemTotal(item))}</span>
+        </div>
+      ))}
+      <BidTotalsRow items={items} />
+    </div>
+  );
+}
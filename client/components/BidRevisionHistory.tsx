@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { apiFetch } from '@/lib/api-client';
+import { getErrorMessage } from '@/lib/utils';
+import { formatCurrency } from '@shared/bid-pricing';
+import { BidVersion, diffBidVersions } from '@shared/bid-revisions';
+
+// Timeline of a bid's versions, newest first, each with its change note and what changed
+// from the version before. `refreshKey` reloads it after the vendor revises the bid.
+export function BidRevisionHistory({ projectId, bidId, refreshKey }: { projectId: string; bidId: string; refreshKey?: unknown }) {
+  const [versions, setVersions] = useState<BidVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRevisions = async () => {
+      setLoading(true);
+      try {
+        const response = await apiFetch(`/api/projects/${projectId}/bids/${bidId}/revisions`);
+        const result = await response.json();
+        if (!result.success) throw result.error || 'Failed to load bid history';
+        setVersions(result.data || []);
+        setError(null);
+      } catch (err) {
+        setError(getErrorMessage(err || 'Failed to load bid history'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRevisions();
+  }, [projectId, bidId, refreshKey]);
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-slate-400" />;
+  }
+  if (error) {
+    return <p className="text-xs text-rose-600">{error}</p>;
+  }
+  if (versions.length === 0) {
+    return <p className="text-xs text-slate-400">No history recorded for this bid.</p>;
+  }
+
+  return (
+    <ol className="space-y-4 border-l-2 border-slate-100 dark:border-slate-800 pl-4">
+      {[...versions].reverse().map((version) => {
+        const previous = versions.find((candidate) => candidate.version === version.version - 1);
+        const changes = previous ? diffBidVersions(previous, version) : [];
+
+        return (
+          <li key={version.version} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <History className="h-3 w-3 text-slate-400" />
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+                Version {version.version}
+              </span>
+              {version.created_at && (
+                <span className="text-[10px] text-slate-400">{new Date(version.created_at).toLocaleString()}</span>
+              )}
+            </div>
+            {previous ? (
+              <>
+                {version.change_note && <p className="text-xs italic text-slate-600 dark:text-slate-400">"{version.change_note}"</p>}
+                <ul className="space-y-0.5">
+                  {changes.map((change, index) => (
+                    <li key={index} className="text-[11px] text-slate-600 dark:text-slate-400">
+                      <span className="font-bold">{change.label}:</span>{' '}
+                      {change.before === null ? (
+                        <span className="text-emerald-600">added {change.after}</span>
+                      ) : change.after === null ? (
+                        <span className="text-rose-600 line-through">{change.before}</span>
+                      ) : (
+                        <>
+                          <span className="text-rose-600 line-through">{change.before}</span>{' '}
+                          → <span className="text-emerald-600">{change.after}</span>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <p className="text-[11px] text-slate-500">
+                Original bid: {formatCurrency(Number(version.bid_amount) || 0)}
+                {version.proposed_timeline ? ` · ${version.proposed_timeline}` : ''}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,348 @@
+import { useEffect, useState } from "react";
+import { MapPin, Upload, Trash2, Check, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  CoverageImportPreview,
+  CoverageKind,
+  CoverageRegionEntry,
+  CoverageRequestEntry,
+  deleteCoverageRegion,
+  getCoverageRegions,
+  getCoverageRequests,
+  importCoverageCsv,
+  reviewCoverageRequest,
+  saveCoverageRegion,
+} from "@/lib/admin-controls-service";
+
+const selectClass = "w-full h-10 px-3 rounded-md border border-input bg-background text-sm";
+
+const EMPTY_FORM = { kind: "metro" as CoverageKind, state: "", name: "", zipCodes: "" };
+
+const splitZips = (value: string) => value.split(/[\s,;|]+/).filter(Boolean);
+
+const regionLabel = (region: { state: string; region: string | null }) =>
+  region.region ? `${region.region}, ${region.state}` : `${region.state} (statewide)`;
+
+// Admin tools for coverage regions: define state, metro and custom ZIP regions, bulk-import ZIP
+// lists from CSV (previewed before anything is written) and review vendors' region requests.
+export function CoverageRegionsManager({ search = "" }: { search?: string }) {
+  const [regions, setRegions] = useState<CoverageRegionEntry[]>([]);
+  const [requests, setRequests] = useState<CoverageRequestEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [csv, setCsv] = useState("");
+  const [mode, setMode] = useState<"merge" | "replace">("merge");
+  const [preview, setPreview] = useState<CoverageImportPreview | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const loadAll = async () => {
+    setLoading(true);
+    const [regionResult, requestResult] = await Promise.all([getCoverageRegions(), getCoverageRequests("pending")]);
+    if (regionResult.success) {
+      setRegions(regionResult.regions);
+    } else {
+      toast.error(regionResult.error);
+    }
+    if (requestResult.success) setRequests(requestResult.requests);
+    setLoading(false);
+  };
+
+  const query = search.trim().toLowerCase();
+  const visible = regions.filter(
+    (region) =>
+      !query ||
+      regionLabel(region).toLowerCase().includes(query) ||
+      region.zip_codes.some((zip) => zip.startsWith(query)) ||
+      region.vendors.some((vendor) => (vendor.company_name || "").toLowerCase().includes(query)),
+  );
+
+  const handleCreate = async () => {
+    setSaving(true);
+    const result = await saveCoverageRegion(null, {
+      kind: form.kind,
+      state: form.state,
+      ...(form.kind === "state" ? {} : { name: form.name, zipCodes: splitZips(form.zipCodes) }),
+    });
+    setSaving(false);
+
+    if (result.success) {
+      toast.success("Region added");
+      setForm(EMPTY_FORM);
+      loadAll();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleDelete = async (region: CoverageRegionEntry) => {
+    if (!window.confirm(`Delete ${regionLabel(region)}?`)) return;
+    const result = await deleteCoverageRegion(region.id);
+    if (result.success) {
+      toast.success("Region deleted");
+      loadAll();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsv(await file.text());
+    setPreview(null);
+  };
+
+  const handleImport = async (apply: boolean) => {
+    setSaving(true);
+    const result = await importCoverageCsv(csv, mode, apply);
+    setSaving(false);
+    setPreview(result.preview);
+
+    if (!result.success) {
+      toast.error(result.error);
+      return;
+    }
+    if (apply) {
+      const { create, update } = result.preview.summary;
+      toast.success(`Import applied: ${create} region(s) created, ${update} updated`);
+      setCsv("");
+      setPreview(null);
+      loadAll();
+    }
+  };
+
+  const handleReview = async (request: CoverageRequestEntry, decision: "approve" | "reject") => {
+    const note = decision === "reject" ? window.prompt("Why is this request rejected? The vendor will see this.") : undefined;
+    if (decision === "reject" && !note) return;
+
+    const result = await reviewCoverageRequest(request.id, decision, note || undefined);
+    if (result.success) {
+      toast.success(decision === "approve" ? "Region approved and added to the vendor's coverage" : "Request rejected");
+      loadAll();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {requests.length > 0 && (
+        <Card>
+          <CardContent className="pt-6 space-y-3">
+            <h3 className="font-semibold">Region requests ({requests.length})</h3>
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-start justify-between gap-4 border-b border-border pb-3 last:border-0">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">
+                      {request.name}, {request.state}
+                    </span>
+                    <Badge variant="outline">{request.kind}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {request.vendor?.company_name || request.vendor?.contact_email || request.vendor_id} ·{" "}
+                    {request.zip_codes.length} ZIP(s) · {new Date(request.created_at).toLocaleDateString()}
+                  </p>
+                  {request.note && <p className="text-sm mt-1">{request.note}</p>}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleReview(request, "approve")}>
+                    <Check className="h-4 w-4" />
+                    Approve
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleReview(request, "reject")}>
+                    <X className="h-4 w-4" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <h3 className="font-semibold flex items-center gap-2">
+            <MapPin className="h-4 w-4" />
+            Add region
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <select
+              value={form.kind}
+              onChange={(e) => setForm({ ...form, kind: e.target.value as CoverageKind })}
+              className={selectClass}
+            >
+              <option value="state">Whole state</option>
+              <option value="metro">Metro area</option>
+              <option value="custom">Custom ZIP set</option>
+            </select>
+            <Input
+              placeholder="State (e.g. TX)"
+              maxLength={2}
+              value={form.state}
+              onChange={(e) => setForm({ ...form, state: e.target.value.toUpperCase() })}
+            />
+            {form.kind !== "state" && (
+              <Input placeholder="Region name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            )}
+          </div>
+          {form.kind !== "state" && (
+            <textarea
+              placeholder="ZIP codes, separated by spaces, commas or new lines"
+              value={form.zipCodes}
+              onChange={(e) => setForm({ ...form, zipCodes: e.target.value })}
+              rows={3}
+              className="w-full px-3 py-2 rounded-md border border-input bg-background text-sm"
+            />
+          )}
+          <Button onClick={handleCreate} disabled={saving || form.state.length !== 2}>
+            Add region
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Upload className="h-4 w-4" />
+            Import ZIP lists from CSV
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Columns: state, region, zip and optionally kind (metro or custom). Rows for the same region are combined; a zip
+            cell may list several ZIPs separated by spaces or semicolons.
+          </p>
+          <input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} className="text-sm" />
+          <textarea
+            placeholder={"state,region,zip,kind\nTX,Austin Metro,78701,metro"}
+            value={csv}
+            onChange={(e) => {
+              setCsv(e.target.value);
+              setPreview(null);
+            }}
+            rows={6}
+            className="w-full px-3 py-2 rounded-md border border-input bg-background text-sm font-mono"
+          />
+          <div className="flex flex-col md:flex-row gap-2">
+            <select value={mode} onChange={(e) => setMode(e.target.value as "merge" | "replace")} className={`${selectClass} md:w-72`}>
+              <option value="merge">Merge: add ZIPs to existing regions</option>
+              <option value="replace">Replace: the file is each region's full ZIP list</option>
+            </select>
+            <Button variant="outline" onClick={() => handleImport(false)} disabled={saving || !csv.trim()}>
+              Preview
+            </Button>
+            <Button
+              onClick={() => handleImport(true)}
+              disabled={saving || !preview || preview.mode !== mode || preview.errors.length > 0}
+            >
+              Apply import
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              <p className="text-sm">
+                {preview.summary.create} to create · {preview.summary.update} to update · {preview.summary.unchanged} unchanged ·{" "}
+                {preview.summary.zips_added} ZIP(s) added · {preview.summary.zips_removed} removed
+              </p>
+              {preview.errors.length > 0 && (
+                <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700 space-y-1">
+                  {preview.errors.map((issue, index) => (
+                    <p key={index}>
+                      Line {issue.line}: {issue.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {preview.warnings.length > 0 && (
+                <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800 space-y-1 max-h-40 overflow-y-auto">
+                  {preview.warnings.map((issue, index) => (
+                    <p key={index}>
+                      Line {issue.line}: {issue.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {preview.changes.length > 0 && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b border-border">
+                      <th className="py-2">Region</th>
+                      <th className="py-2">Change</th>
+                      <th className="py-2">ZIPs</th>
+                      <th className="py-2">Added</th>
+                      <th className="py-2">Removed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.changes.map((change) => (
+                      <tr key={`${change.state}-${change.name}`} className="border-b border-border last:border-0">
+                        <td className="py-2">
+                          {change.name}, {change.state} <Badge variant="outline">{change.kind}</Badge>
+                        </td>
+                        <td className="py-2">{change.action}</td>
+                        <td className="py-2">{change.zip_codes.length}</td>
+                        <td className="py-2 text-green-700">{change.added.length ? `+${change.added.length}` : "—"}</td>
+                        <td className="py-2 text-red-700">{change.removed.length ? `−${change.removed.length}` : "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <p className="text-center text-muted-foreground py-8">Loading...</p>
+      ) : visible.length === 0 ? (
+        <div className="text-center py-12">
+          <MapPin className="h-12 w-12 text-muted-foreground mx-auto mb-4 opacity-50" />
+          <p className="text-muted-foreground">No regions</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {visible.map((region) => (
+            <Card key={region.id}>
+              <CardContent className="py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{regionLabel(region)}</span>
+                      <Badge variant="outline">{region.kind}</Badge>
+                      {region.kind !== "state" && (
+                        <span className="text-xs text-muted-foreground">{region.zip_codes.length} ZIP(s)</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {region.vendors.length === 0
+                        ? "No vendors cover this region"
+                        : `Covered by ${region.vendors.map((vendor) => vendor.company_name || "Unnamed vendor").join(", ")}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(region)}
+                    disabled={region.vendors.length > 0}
+                    title={region.vendors.length > 0 ? "Vendors cover this region" : "Delete region"}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
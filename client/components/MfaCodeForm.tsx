@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { getErrorMessage, cn } from "@/lib/utils";
+
+interface MfaCodeFormProps {
+  onSubmit: (input: { code?: string; recoveryCode?: string }) => Promise<void>;
+  submitLabel?: string;
+  allowRecoveryCode?: boolean;
+  className?: string;
+}
+
+// Six-digit authenticator code entry, with an optional fallback to a recovery code
+export function MfaCodeForm({
+  onSubmit,
+  submitLabel = "Verify",
+  allowRecoveryCode = true,
+  className,
+}: MfaCodeFormProps) {
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      setSubmitting(true);
+      await onSubmit(useRecovery ? { recoveryCode: recoveryCode.trim() } : { code });
+    } catch (err) {
+      setError(getErrorMessage(err));
+      setCode("");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const canSubmit = useRecovery ? recoveryCode.trim().length > 0 : code.length === 6;
+
+  return (
+    <form onSubmit={handleSubmit} className={cn("space-y-4", className)}>
+      {useRecovery ? (
+        <Input
+          value={recoveryCode}
+          onChange={(e) => setRecoveryCode(e.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="one-time-code"
+          autoFocus
+        />
+      ) : (
+        <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+          <InputOTPGroup>
+            {[0, 1, 2, 3, 4, 5].map((index) => (
+              <InputOTPSlot key={index} index={index} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <Button type="submit" disabled={!canSubmit || submitting}>
+          {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+        {allowRecoveryCode && (
+          <button
+            type="button"
+            className="text-sm text-muted-foreground hover:text-foreground underline-offset-4 hover:underline"
+            onClick={() => {
+              setUseRecovery(!useRecovery);
+              setError(null);
+            }}
+          >
+            {useRecovery ? "Use authenticator code" : "Use a recovery code"}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
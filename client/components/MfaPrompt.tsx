@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { MFA_REQUIRED_EVENT, MfaRequirement } from "@/lib/api-client";
+import { verifyMfa } from "@/lib/mfa-service";
+import { MfaCodeForm } from "@/components/MfaCodeForm";
+
+// Asks for an authenticator code whenever an API call is rejected for missing or stale MFA
+export function MfaPrompt() {
+  const [requirement, setRequirement] = useState<MfaRequirement | null>(null);
+
+  useEffect(() => {
+    const handleRequired = (event: Event) => {
+      // The login page runs its own two-factor step
+      if (window.location.pathname === "/login") return;
+      setRequirement((event as CustomEvent<{ requirement: MfaRequirement }>).detail.requirement);
+    };
+
+    window.addEventListener(MFA_REQUIRED_EVENT, handleRequired);
+    return () => window.removeEventListener(MFA_REQUIRED_EVENT, handleRequired);
+  }, []);
+
+  const handleVerify = async (input: { code?: string; recoveryCode?: string }) => {
+    await verifyMfa(input);
+    setRequirement(null);
+    toast.success("Verified. Please try that again.");
+  };
+
+  return (
+    <Dialog open={requirement !== null} onOpenChange={(open) => !open && setRequirement(null)}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-factor authentication
+          </DialogTitle>
+          <DialogDescription>
+            {requirement === "enrollment"
+              ? "Your account type requires two-factor authentication. Set it up to continue."
+              : "Enter the 6-digit code from your authenticator app to continue."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {requirement === "enrollment" ? (
+          <Button asChild onClick={() => setRequirement(null)}>
+            <Link to="/security">Set up two-factor authentication</Link>
+          </Button>
+        ) : (
+          <MfaCodeForm onSubmit={handleVerify} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
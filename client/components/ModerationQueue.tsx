@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { Check, MessageSquareWarning, X } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ContactModerationPolicy,
+  ModerationAction,
+  ModerationEvent,
+  getModerationEvents,
+  getModerationPolicy,
+  reviewModerationEvent,
+  updateModerationPolicy,
+} from "@/lib/admin-controls-service";
+
+const ACTION_LABELS: Record<ModerationAction, string> = {
+  allow: "Allow",
+  flag: "Flag for review",
+  mask: "Mask contact details",
+  block: "Block message",
+};
+
+// Review queue for messages where contact details were detected, plus the policy that decides
+// what happens to them before a vendor is selected
+export function ModerationQueue({ search = "" }: { search?: string }) {
+  const [events, setEvents] = useState<ModerationEvent[]>([]);
+  const [policy, setPolicy] = useState<ContactModerationPolicy | null>(null);
+  const [reviewStatus, setReviewStatus] = useState("pending");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getModerationPolicy().then((result) => result.success && setPolicy(result.policy));
+  }, []);
+
+  useEffect(() => {
+    loadEvents();
+  }, [reviewStatus]);
+
+  const loadEvents = async () => {
+    setLoading(true);
+    const result = await getModerationEvents({ reviewStatus });
+    if (result.success) {
+      setEvents(result.events);
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const handleDefaultChange = async (action: ModerationAction) => {
+    if (!policy) return;
+    const result = await updateModerationPolicy({ ...policy, default: action });
+    if (result.success) {
+      setPolicy(result.policy);
+      toast.success("Moderation policy updated");
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleReview = async (eventId: string, resolution: "confirmed" | "dismissed") => {
+    const result = await reviewModerationEvent(eventId, resolution);
+    if (result.success) {
+      setEvents((prev) => prev.filter((event) => event.id !== eventId));
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const filteredEvents = events.filter((event) =>
+    (event.sender?.company_name || "").toLowerCase().includes(search.toLowerCase())
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Before a vendor is selected:</span>
+          <Select value={policy?.default} onValueChange={(value) => handleDefaultChange(value as ModerationAction)}>
+            <SelectTrigger className="w-[200px]" disabled={!policy}>
+              <SelectValue placeholder="Loading..." />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ACTION_LABELS) as ModerationAction[]).map((action) => (
+                <SelectItem key={action} value={action}>
+                  {ACTION_LABELS[action]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Show:</span>
+          <Select value={reviewStatus} onValueChange={setReviewStatus}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending review</SelectItem>
+              <SelectItem value="confirmed">Confirmed</SelectItem>
+              <SelectItem value="dismissed">Dismissed</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground text-center py-12">Loading...</p>
+      ) : filteredEvents.length === 0 ? (
+        <div className="text-center py-12">
+          <MessageSquareWarning className="h-12 w-12 text-muted-foreground mx-auto mb-4 opacity-50" />
+          <p className="text-muted-foreground">Nothing to review</p>
+        </div>
+      ) : (
+        filteredEvents.map((event) => (
+          <Card key={event.id}>
+            <CardContent className="pt-6">
+              <div className="flex items-start justify-between gap-4">
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={event.action === "block" ? "destructive" : "secondary"}>{event.action}</Badge>
+                    {event.detected_types.map((type) => (
+                      <Badge key={type} variant="outline">{type}</Badge>
+                    ))}
+                    <span className="text-sm text-muted-foreground">
+                      {event.sender?.company_name || "Unknown sender"}
+                      {event.sender?.role && <span className="capitalize"> ({event.sender.role})</span>} on{" "}
+                      {event.projects?.title || event.project_id}
+                    </span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap break-words">{event.original_text}</p>
+                  {event.delivered_text && event.delivered_text !== event.original_text && (
+                    <p className="text-xs text-muted-foreground whitespace-pre-wrap break-words">
+                      Delivered as: {event.delivered_text}
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground/60">
+                    {new Date(event.created_at).toLocaleString()}
+                    {event.project_status && <> · project {event.project_status}</>}
+                  </p>
+                </div>
+                {event.review_status === "pending" && (
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button size="sm" variant="outline" onClick={() => handleReview(event.id, "dismissed")}>
+                      <X className="h-4 w-4" />
+                      Dismiss
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => handleReview(event.id, "confirmed")}>
+                      <Check className="h-4 w-4" />
+                      Confirm
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import { FileEdit, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getErrorMessage } from '@/lib/utils';
+import { ProjectAmendment, amendProject, getProjectAmendments } from '@/lib/project-amendments-service';
+
+interface AmendableProject {
+  id: string;
+  title: string;
+  description: string;
+  special_requirements?: string;
+  budget_min?: number | null;
+  budget_max?: number | null;
+  timeline_start?: string | null;
+  timeline_end?: string | null;
+}
+
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+const toDate = (value: string) => value || null;
+
+// Edits a published project's scope, budget and timeline. Only the fields that changed are
+// sent; `onAmended` gets the updated project.
+export function AmendProjectForm({ project, onAmended, onCancel }: { project: AmendableProject; onAmended: (project: any) => void; onCancel: () => void }) {
+  const [form, setForm] = useState({
+    title: project.title || '',
+    description: project.description || '',
+    special_requirements: project.special_requirements || '',
+    budget_min: project.budget_min != null ? String(project.budget_min) : '',
+    budget_max: project.budget_max != null ? String(project.budget_max) : '',
+    timeline_start: project.timeline_start?.slice(0, 10) || '',
+    timeline_end: project.timeline_end?.slice(0, 10) || '',
+  });
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (field: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setForm({ ...form, [field]: e.target.value });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const { project: updated } = await amendProject(project.id, {
+        note,
+        title: form.title,
+        description: form.description,
+        special_requirements: form.special_requirements,
+        budget_min: toNumber(form.budget_min),
+        budget_max: toNumber(form.budget_max),
+        timeline_start: toDate(form.timeline_start),
+        timeline_end: toDate(form.timeline_end),
+      });
+      toast.success('Project amended. Vendors have been notified.');
+      onAmended(updated);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const labelClass = 'text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1 block';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 p-6 rounded-2xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900">
+      <div>
+        <label className={labelClass}>Title</label>
+        <Input value={form.title} onChange={set('title')} className="h-11 font-bold border-slate-200" />
+      </div>
+      <div>
+        <label className={labelClass}>Scope</label>
+        <textarea
+          value={form.description}
+          onChange={set('description')}
+          rows={5}
+          className="w-full px-4 py-3 border border-slate-200 rounded-xl text-sm bg-white dark:bg-slate-900 font-medium focus:ring-2 focus:ring-blue-500/20 outline-none"
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Special Requirements</label>
+        <textarea
+          value={form.special_requirements}
+          onChange={set('special_requirements')}
+          rows={2}
+          className="w-full px-4 py-3 border border-slate-200 rounded-xl text-sm bg-white dark:bg-slate-900 font-medium focus:ring-2 focus:ring-blue-500/20 outline-none"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Min Budget</label>
+          <Input type="number" min={0} value={form.budget_min} onChange={set('budget_min')} className="h-11 font-bold border-slate-200" />
+        </div>
+        <div>
+          <label className={labelClass}>Max Budget</label>
+          <Input type="number" min={0} value={form.budget_max} onChange={set('budget_max')} className="h-11 font-bold border-slate-200" />
+        </div>
+        <div>
+          <label className={labelClass}>Start Date</label>
+          <Input type="date" value={form.timeline_start} onChange={set('timeline_start')} className="h-11 font-bold border-slate-200" />
+        </div>
+        <div>
+          <label className={labelClass}>End Date</label>
+          <Input type="date" value={form.timeline_end} onChange={set('timeline_end')} className="h-11 font-bold border-slate-200" />
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>What Changed and Why? *</label>
+        <Input
+          placeholder="e.g., Added a second office; the budget is now confirmed"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="h-11 font-bold border-slate-200"
+        />
+      </div>
+      <p className="text-[11px] text-slate-500">
+        Every vendor on this project is notified, and existing bids are marked as needing confirmation until their vendors confirm or revise them.
+      </p>
+      {error && <p className="text-xs font-bold text-rose-600">{error}</p>}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={saving || !note.trim()} className="font-bold text-[10px] uppercase tracking-widest">
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Publish Amendment'}
+        </Button>
+        <Button type="button" variant="ghost" onClick={onCancel} className="font-bold text-[10px] uppercase tracking-widest">
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// A project's amendments, newest first, with what each one changed. `refreshKey` reloads it
+// after a new amendment.
+export function ProjectAmendmentHistory({ projectId, refreshKey }: { projectId: string; refreshKey?: unknown }) {
+  const [amendments, setAmendments] = useState<ProjectAmendment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAmendments = async () => {
+      setLoading(true);
+      try {
+        setAmendments(await getProjectAmendments(projectId));
+      } catch (err) {
+        console.error('Error loading amendments:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAmendments();
+  }, [projectId, refreshKey]);
+
+  if (loading || amendments.length === 0) return null;
+
+  return (
+    <ol className="space-y-4 border-l-2 border-slate-100 dark:border-slate-800 pl-4">
+      {[...amendments].reverse().map((amendment) => (
+        <li key={amendment.id} className="space-y-1">
+          <div className="flex items-center gap-2">
+            <FileEdit className="h-3 w-3 text-slate-400" />
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Revision {amendment.revision}</span>
+            <span className="text-[10px] text-slate-400">{new Date(amendment.created_at).toLocaleString()}</span>
+          </div>
+          <p className="text-xs italic text-slate-600 dark:text-slate-400">"{amendment.note}"</p>
+          <ul className="space-y-0.5">
+            {amendment.changes.map((change) => (
+              <li key={change.field} className="text-[11px] text-slate-600 dark:text-slate-400">
+                <span className="font-bold">{change.label}:</span>{' '}
+                {change.field === 'description' || change.field === 'special_requirements' ? (
+                  <span>updated</span>
+                ) : (
+                  <>
+                    <span className="text-rose-600 line-through">{change.before ?? 'none'}</span>{' '}
+                    → <span className="text-emerald-600">{change.after ?? 'none'}</span>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
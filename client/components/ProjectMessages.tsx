@@ -7,16 +7,20 @@ import { useAuth } from '@/lib/auth-context';
 import { getErrorMessage } from '@/lib/utils';
 import { formatDistanceToNow } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { supabase } from '@/lib/supabase';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { ImagePreviewDialog } from '@/components/ImagePreviewDialog';
+import { apiFetch } from '@/lib/api-client';
+import { uploadProjectFile } from '@/lib/project-files-service';
 
 interface Message {
   id: string;
   project_id: string;
   sender_id: string;
   message_text: string;
-  image_url?: string;
+  image_path?: string;
+  image_url?: string; // signed, short-lived URL for image_path
+  image_url_expires_at?: string;
+  moderation_action?: 'flag' | 'mask';
   created_at: string;
   profiles?: {
     company_name: string;
@@ -71,21 +75,7 @@ export default function ProjectMessages({ projectId, vendorId }: ProjectMessages
   const uploadImage = async (file: File): Promise<string | null> => {
     try {
       setUploadingImage(true);
-      const timestamp = Date.now();
-      const fileName = `${timestamp}-${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
-      const bucketPath = `messages/${fileName}`;
-
-      const { data, error: uploadError } = await supabase.storage
-        .from("assets")
-        .upload(bucketPath, file);
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from("assets")
-        .getPublicUrl(data.path);
-
-      return publicUrl;
+      return await uploadProjectFile(projectId, file, vendorId);
     } catch (err) {
       console.error("Image upload error:", err);
       setError(getErrorMessage(err || "Failed to upload image"));
@@ -95,6 +85,21 @@ export default function ProjectMessages({ projectId, vendorId }: ProjectMessages
     }
   };
 
+  // Every poll returns newly signed image URLs; keep the ones we already have until they
+  // are about to expire so images don't reload every 10 seconds
+  const keepFreshImageUrls = (previous: Message[], next: Message[]) =>
+    next.map((msg) => {
+      const known = previous.find((p) => p.id === msg.id);
+      const stillValid =
+        known?.image_url_expires_at &&
+        known.image_path === msg.image_path &&
+        new Date(known.image_url_expires_at).getTime() - Date.now() > 60000;
+
+      return stillValid
+        ? { ...msg, image_url: known.image_url, image_url_expires_at: known.image_url_expires_at }
+        : msg;
+    });
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -104,15 +109,11 @@ export default function ProjectMessages({ projectId, vendorId }: ProjectMessages
 
     try {
       const url = `/api/projects/${projectId}/messages${vendorId ? `?vendorId=${vendorId}` : ''}`;
-      const response = await fetch(url, {
-        headers: {
-          'x-user-id': user.id
-        }
-      });
+      const response = await apiFetch(url);
       const result = await response.json();
 
       if (result.success) {
-        setMessages(result.data);
+        setMessages((prev) => keepFreshImageUrls(prev, result.data));
       } else {
         setError(getErrorMessage(result.error || 'Failed to load messages'));
       }
@@ -142,25 +143,24 @@ export default function ProjectMessages({ projectId, vendorId }: ProjectMessages
     setError(null);
 
     try {
-      let imageUrl = null;
+      let imagePath = null;
       if (selectedFile) {
-        imageUrl = await uploadImage(selectedFile);
-        if (!imageUrl) {
+        imagePath = await uploadImage(selectedFile);
+        if (!imagePath) {
           setSending(false);
           return;
         }
       }
 
-      const response = await fetch(`/api/projects/${projectId}/messages`, {
+      const response = await apiFetch(`/api/projects/${projectId}/messages`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': user.id
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           projectId,
           messageText: newMessage.trim(),
-          imageUrl,
+          imagePath,
           vendorId // Include vendorId in the request
         })
       });
@@ -287,6 +287,11 @@ export default function ProjectMessages({ projectId, vendorId }: ProjectMessages
                     {msg.message_text && (
                       <p className="text-sm leading-relaxed whitespace-pre-wrap font-medium">{msg.message_text}</p>
                     )}
+                    {msg.moderation_action === 'mask' && (
+                      <p className={cn("text-[10px] mt-2 font-bold", isMe ? "text-blue-100" : "text-slate-400")}>
+                        Contact details are hidden until a vendor is selected
+                      </p>
+                    )}
 
                     <div className={cn(
                       "absolute bottom-0 opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap py-1 px-2 bg-slate-900 text-white text-[8px] font-black uppercase tracking-widest rounded-full shadow-2xl",
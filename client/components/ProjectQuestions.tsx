@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { HelpCircle, Loader2, Lock, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { getErrorMessage } from '@/lib/utils';
+import {
+  ProjectQuestion,
+  answerProjectQuestion,
+  askProjectQuestion,
+  getProjectQuestions,
+} from '@/lib/project-questions-service';
+
+// A project's clarification Q&A. Vendors ask (anonymously) and read the shared answers; the
+// business (`canAnswer`) sees every question and answers each one once.
+export function ProjectQuestions({ projectId, canAsk, canAnswer }: { projectId: string; canAsk?: boolean; canAnswer?: boolean }) {
+  const [questions, setQuestions] = useState<ProjectQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [question, setQuestion] = useState('');
+  const [askPrivately, setAskPrivately] = useState(false);
+  const [asking, setAsking] = useState(false);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [answerPrivately, setAnswerPrivately] = useState<Record<string, boolean>>({});
+  const [answeringId, setAnsweringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchQuestions = async () => {
+      setLoading(true);
+      try {
+        setQuestions(await getProjectQuestions(projectId));
+        setError(null);
+      } catch (err) {
+        setError(getErrorMessage(err));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchQuestions();
+  }, [projectId]);
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAsking(true);
+    try {
+      const asked = await askProjectQuestion(projectId, question, askPrivately);
+      setQuestions([...questions, asked]);
+      setQuestion('');
+      setAskPrivately(false);
+      toast.success('Question sent. You will be notified when it is answered.');
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const handleAnswer = async (questionId: string) => {
+    setAnsweringId(questionId);
+    try {
+      const answered = await answerProjectQuestion(projectId, questionId, answers[questionId] || '', !!answerPrivately[questionId]);
+      setQuestions(questions.map((q) => (q.id === questionId ? answered : q)));
+      toast.success(answered.is_private ? 'Answer sent to the vendor who asked' : 'Answer shared with every vendor');
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setAnsweringId(null);
+    }
+  };
+
+  if (loading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-slate-400" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+
+      {questions.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          {canAnswer ? 'No questions from vendors yet.' : 'No questions have been answered yet.'}
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {questions.map((q) => (
+            <li key={q.id} className="p-4 rounded-xl border border-slate-100 dark:border-slate-800 bg-white dark:bg-slate-900 space-y-3">
+              <div className="flex items-start gap-2">
+                <HelpCircle className="h-4 w-4 text-blue-500 shrink-0 mt-0.5" />
+                <div className="flex-1 space-y-1">
+                  <p className="text-sm font-bold text-slate-800 dark:text-slate-200">{q.question}</p>
+                  <div className="flex items-center gap-2 text-[10px] text-slate-400">
+                    <span>{q.asked_by_me ? 'You asked' : 'Asked by a vendor'} · {new Date(q.created_at).toLocaleDateString()}</span>
+                    {q.is_private && (
+                      <span className="inline-flex items-center gap-1 font-black uppercase tracking-widest text-amber-600">
+                        <Lock className="h-3 w-3" /> Private
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {q.answer ? (
+                <div className="ml-6 pl-3 border-l-2 border-emerald-200">
+                  <p className="text-[10px] font-black uppercase tracking-widest text-emerald-600 mb-1">Business answer</p>
+                  <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{q.answer}</p>
+                </div>
+              ) : canAnswer ? (
+                <div className="ml-6 space-y-2">
+                  <textarea
+                    placeholder="Your answer..."
+                    value={answers[q.id] || ''}
+                    onChange={(e) => setAnswers({ ...answers, [q.id]: e.target.value })}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-slate-200 rounded-xl text-sm bg-white dark:bg-slate-900 font-medium focus:ring-2 focus:ring-blue-500/20 outline-none"
+                  />
+                  <div className="flex items-center justify-between">
+                    {q.is_private ? (
+                      <span className="text-[11px] font-bold text-slate-500">Only the vendor who asked will see this answer</span>
+                    ) : (
+                      <label className="flex items-center gap-2 text-[11px] font-bold text-slate-500">
+                        <input
+                          type="checkbox"
+                          checked={!!answerPrivately[q.id]}
+                          onChange={(e) => setAnswerPrivately({ ...answerPrivately, [q.id]: e.target.checked })}
+                        />
+                        Answer privately (reveals proprietary details)
+                      </label>
+                    )}
+                    <Button
+                      size="sm"
+                      onClick={() => handleAnswer(q.id)}
+                      disabled={answeringId === q.id || !(answers[q.id] || '').trim()}
+                      className="font-bold text-[10px] uppercase tracking-widest"
+                    >
+                      {answeringId === q.id ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Answer'}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <p className="ml-6 text-[11px] italic text-slate-400">Waiting for the business to answer</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAsk && (
+        <form onSubmit={handleAsk} className="space-y-3">
+          <textarea
+            placeholder="Ask a scoping question. Your company name is not shown."
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            rows={3}
+            className="w-full px-4 py-3 border border-slate-200 rounded-xl text-sm bg-white dark:bg-slate-900 font-medium focus:ring-2 focus:ring-blue-500/20 outline-none"
+          />
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-[11px] font-bold text-slate-500">
+              <input type="checkbox" checked={askPrivately} onChange={(e) => setAskPrivately(e.target.checked)} />
+              Private (reveals my proprietary approach)
+            </label>
+            <Button type="submit" size="sm" disabled={asking || !question.trim()} className="gap-2 font-bold text-[10px] uppercase tracking-widest">
+              {asking ? <Loader2 className="h-3 w-3 animate-spin" /> : <Send className="h-3 w-3" />}
+              Ask
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { Ban, Plus, Trash2, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/lib/supabase";
+import {
+  RoutingExclusion,
+  addManualRouting,
+  addRoutingExclusion,
+  getRoutingExclusions,
+  removeRoutingExclusion,
+} from "@/lib/admin-controls-service";
+
+const selectClass =
+  "w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-white";
+
+interface AccountOption {
+  user_id: string;
+  company_name: string | null;
+  role: string;
+}
+
+// Admin overrides on automatic routing: send a project to a vendor by hand, and keep vendors
+// away from a business's projects. Every change needs a reason and is audited.
+export function RoutingOverrides({ onRoutingAdded }: { onRoutingAdded?: () => void }) {
+  const [accounts, setAccounts] = useState<AccountOption[]>([]);
+  const [exclusions, setExclusions] = useState<RoutingExclusion[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [routeVendorId, setRouteVendorId] = useState("");
+  const [routeReason, setRouteReason] = useState("");
+  const [businessId, setBusinessId] = useState("");
+  const [excludeVendorId, setExcludeVendorId] = useState("");
+  const [excludeReason, setExcludeReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from("profiles")
+      .select("user_id, company_name, role")
+      .in("role", ["vendor", "business"])
+      .order("company_name")
+      .then(({ data }) => setAccounts(data || []));
+    loadExclusions();
+  }, []);
+
+  const loadExclusions = async () => {
+    const result = await getRoutingExclusions();
+    if (result.success) {
+      setExclusions(result.exclusions);
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const vendors = accounts.filter((account) => account.role === "vendor");
+  const businesses = accounts.filter((account) => account.role === "business");
+  const nameOf = (account: AccountOption) => account.company_name || account.user_id;
+
+  const handleAddRouting = async () => {
+    if (!projectId.trim() || !routeVendorId) {
+      toast.error("Enter a project ID and pick a vendor");
+      return;
+    }
+
+    setSaving(true);
+    const result = await addManualRouting(projectId.trim(), routeVendorId, routeReason);
+    setSaving(false);
+
+    if (result.success) {
+      toast.success("Lead routed to vendor");
+      setProjectId("");
+      setRouteReason("");
+      onRoutingAdded?.();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleAddExclusion = async () => {
+    if (!businessId || !excludeVendorId) {
+      toast.error("Pick a business and a vendor");
+      return;
+    }
+
+    setSaving(true);
+    const result = await addRoutingExclusion(businessId, excludeVendorId, excludeReason);
+    setSaving(false);
+
+    if (result.success) {
+      toast.success(
+        result.revoked > 0 ? `Vendor excluded; ${result.revoked} open lead(s) revoked` : "Vendor excluded from this business",
+      );
+      setExcludeReason("");
+      loadExclusions();
+      if (result.revoked > 0) onRoutingAdded?.();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleRemoveExclusion = async (exclusion: RoutingExclusion) => {
+    const reason = window.prompt("Why is this exclusion being lifted?");
+    if (!reason) return;
+
+    const result = await removeRoutingExclusion(exclusion.id, reason);
+    if (result.success) {
+      toast.success("Exclusion removed");
+      loadExclusions();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+      <div className="bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm">
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center gap-2">
+          <UserPlus className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Route Manually</h2>
+        </div>
+        <div className="p-6 space-y-4">
+          <Input
+            placeholder="Project ID"
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+          />
+          <select value={routeVendorId} onChange={(e) => setRouteVendorId(e.target.value)} className={selectClass}>
+            <option value="">Select vendor</option>
+            {vendors.map((vendor) => (
+              <option key={vendor.user_id} value={vendor.user_id}>
+                {nameOf(vendor)}
+              </option>
+            ))}
+          </select>
+          <Input
+            placeholder="Reason (required)"
+            value={routeReason}
+            onChange={(e) => setRouteReason(e.target.value)}
+            className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+          />
+          <Button onClick={handleAddRouting} disabled={saving} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Route lead
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm">
+        <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center gap-2">
+          <Ban className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+          <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Exclusions ({exclusions.length})</h2>
+        </div>
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <select value={businessId} onChange={(e) => setBusinessId(e.target.value)} className={selectClass}>
+              <option value="">Select business</option>
+              {businesses.map((business) => (
+                <option key={business.user_id} value={business.user_id}>
+                  {nameOf(business)}
+                </option>
+              ))}
+            </select>
+            <select value={excludeVendorId} onChange={(e) => setExcludeVendorId(e.target.value)} className={selectClass}>
+              <option value="">Select vendor</option>
+              {vendors.map((vendor) => (
+                <option key={vendor.user_id} value={vendor.user_id}>
+                  {nameOf(vendor)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Reason (required), e.g. conflict of interest"
+              value={excludeReason}
+              onChange={(e) => setExcludeReason(e.target.value)}
+              className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+            />
+            <Button variant="outline" onClick={handleAddExclusion} disabled={saving}>
+              Exclude
+            </Button>
+          </div>
+
+          {exclusions.length === 0 ? (
+            <p className="text-sm text-slate-500 dark:text-slate-400">No exclusions</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+              {exclusions.map((exclusion) => (
+                <li key={exclusion.id} className="py-3 flex items-start justify-between gap-4">
+                  <div className="text-sm">
+                    <p className="font-medium text-slate-900 dark:text-white">
+                      {exclusion.vendor?.company_name || exclusion.vendor_id} ✕{" "}
+                      {exclusion.business?.company_name || exclusion.business_id}
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {exclusion.reason} · {new Date(exclusion.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleRemoveExclusion(exclusion)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
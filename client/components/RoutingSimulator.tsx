@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import { FlaskConical, History, Play, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ServiceCategoryOption, getServiceCategories } from "@/lib/service-categories-service";
+import {
+  RoutingMode,
+  RoutingReplay,
+  RoutingScoringConfig,
+  RoutingSimulation,
+  getRoutingScoringConfig,
+  replayRouting,
+  simulateRouting,
+} from "@/lib/admin-controls-service";
+
+const selectClass =
+  "w-full px-3 py-2 border border-slate-300 dark:border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-slate-800 dark:text-white";
+
+const label = (value: string) => value.replace(/_/g, " ");
+
+// Try routing rules before saving them: rank vendors for one project, or replay recent projects
+// and see which vendors would have been added or dropped. Runs are dry; nothing is routed.
+export function RoutingSimulator() {
+  const [source, setSource] = useState<"existing" | "adhoc">("existing");
+  const [projectId, setProjectId] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+  const [projectState, setProjectState] = useState("");
+  const [projectZip, setProjectZip] = useState("");
+  const [categories, setCategories] = useState<ServiceCategoryOption[]>([]);
+  const [mode, setMode] = useState<RoutingMode | "current">("current");
+  const [savedConfig, setSavedConfig] = useState<RoutingScoringConfig | null>(null);
+  const [config, setConfig] = useState<RoutingScoringConfig | null>(null);
+  const [replayLimit, setReplayLimit] = useState(20);
+  const [simulation, setSimulation] = useState<RoutingSimulation | null>(null);
+  const [replay, setReplay] = useState<RoutingReplay | null>(null);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    getRoutingScoringConfig().then((result) => {
+      if (result.success) {
+        setSavedConfig(result.config);
+        setConfig(result.config);
+      }
+    });
+    getServiceCategories()
+      .then(setCategories)
+      .catch(() => setCategories([]));
+  }, []);
+
+  const rules = () => ({
+    mode: mode === "current" ? undefined : mode,
+    scoringConfig: config || undefined,
+  });
+
+  const updateSignal = (signal: string, changes: Partial<RoutingScoringConfig["signals"][string]>) => {
+    if (!config) return;
+    setConfig({ ...config, signals: { ...config.signals, [signal]: { ...config.signals[signal], ...changes } } });
+  };
+
+  const handleSimulate = async () => {
+    if (source === "existing" && !projectId.trim()) {
+      toast.error("Enter a project ID to simulate");
+      return;
+    }
+
+    setRunning(true);
+    const result = await simulateRouting({
+      ...rules(),
+      ...(source === "existing"
+        ? { projectId: projectId.trim() }
+        : {
+            project: {
+              service_category_id: categoryId || null,
+              project_state: projectState.trim().toUpperCase() || null,
+              project_zip: projectZip.trim() || null,
+            },
+          }),
+    });
+    setRunning(false);
+
+    if (result.success) {
+      setSimulation(result.simulation);
+      setReplay(null);
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleReplay = async () => {
+    setRunning(true);
+    const result = await replayRouting(replayLimit, rules());
+    setRunning(false);
+
+    if (result.success) {
+      setReplay(result.replay);
+      setSimulation(null);
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden mb-8">
+      <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center gap-2">
+        <FlaskConical className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+        <h2 className="text-lg font-semibold text-slate-900 dark:text-white">Routing Simulator</h2>
+        <span className="text-xs text-slate-500 dark:text-slate-400">Dry run — nothing is routed</span>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 block">Project</label>
+            <select value={source} onChange={(e) => setSource(e.target.value as "existing" | "adhoc")} className={selectClass}>
+              <option value="existing">Existing project</option>
+              <option value="adhoc">Ad-hoc project</option>
+            </select>
+          </div>
+          {source === "existing" ? (
+            <div className="md:col-span-2">
+              <label className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 block">Project ID</label>
+              <Input
+                placeholder="Project UUID"
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+              />
+            </div>
+          ) : (
+            <>
+              <div>
+                <label className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 block">Service</label>
+                <select value={categoryId} onChange={(e) => setCategoryId(e.target.value)} className={selectClass}>
+                  <option value="">Any service</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 block">State</label>
+                  <Input
+                    placeholder="MN"
+                    maxLength={2}
+                    value={projectState}
+                    onChange={(e) => setProjectState(e.target.value)}
+                    className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 block">ZIP</label>
+                  <Input
+                    placeholder="55401"
+                    maxLength={10}
+                    value={projectZip}
+                    onChange={(e) => setProjectZip(e.target.value)}
+                    className="dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+          <div>
+            <label className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 block">Mode</label>
+            <select value={mode} onChange={(e) => setMode(e.target.value as RoutingMode | "current")} className={selectClass}>
+              <option value="current">Current mode</option>
+              <option value="waves">Waves</option>
+              <option value="strict">All matching vendors</option>
+              <option value="broadcast">Broadcast</option>
+            </select>
+          </div>
+        </div>
+
+        {config && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Scoring rules to try</h3>
+              <Button variant="ghost" size="sm" className="gap-2" onClick={() => setConfig(savedConfig)}>
+                <RotateCcw className="w-4 h-4" />
+                Reset to saved
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {Object.entries(config.signals).map(([signal, settings]) => (
+                <div key={signal} className="rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+                  <label className="flex items-center gap-2 text-sm font-medium text-slate-800 dark:text-slate-200 capitalize">
+                    <input
+                      type="checkbox"
+                      checked={settings.enabled}
+                      onChange={(e) => updateSignal(signal, { enabled: e.target.checked })}
+                    />
+                    {label(signal)}
+                  </label>
+                  <div className="flex items-center gap-2 mt-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={settings.weight}
+                      disabled={!settings.enabled}
+                      onChange={(e) => updateSignal(signal, { weight: Number(e.target.value) })}
+                      className="h-8 dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                    />
+                    <label className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-400">
+                      <input
+                        type="checkbox"
+                        checked={settings.required}
+                        disabled={!settings.enabled}
+                        onChange={(e) => updateSignal(signal, { required: e.target.checked })}
+                      />
+                      required
+                    </label>
+                  </div>
+                </div>
+              ))}
+              <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+                <label className="text-sm font-medium text-slate-800 dark:text-slate-200">Minimum score</label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={config.minScore}
+                  onChange={(e) => setConfig({ ...config, minScore: Number(e.target.value) })}
+                  className="h-8 mt-2 dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button onClick={handleSimulate} disabled={running} className="gap-2">
+            <Play className="w-4 h-4" />
+            Simulate
+          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={handleReplay} disabled={running} className="gap-2">
+              <History className="w-4 h-4" />
+              Replay last
+            </Button>
+            <Input
+              type="number"
+              min={1}
+              max={50}
+              value={replayLimit}
+              onChange={(e) => setReplayLimit(Math.min(50, Math.max(1, Number(e.target.value) || 1)))}
+              className="w-20 dark:bg-slate-800 dark:border-slate-700 dark:text-white"
+            />
+            <span className="text-sm text-slate-600 dark:text-slate-400">projects</span>
+          </div>
+        </div>
+
+        {simulation && (
+          <div>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">
+              {simulation.would_route_count} of {simulation.eligible_count} eligible vendors would be routed
+              ({simulation.candidate_count} approved, {simulation.held_count} held back by their lead preferences,{" "}
+              {label(simulation.mode)} mode
+              {simulation.wave_size !== null && `, first wave of ${simulation.wave_size}`})
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">#</th>
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Vendor</th>
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Score</th>
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Result</th>
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Signals</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {simulation.vendors.map((vendor, index) => (
+                    <tr key={vendor.vendor_id} className="border-b border-slate-100 dark:border-slate-800 align-top">
+                      <td className="py-3 px-4 text-slate-500">{index + 1}</td>
+                      <td className="py-3 px-4 font-medium text-slate-900 dark:text-white">
+                        {vendor.company_name || vendor.vendor_id}
+                      </td>
+                      <td className="py-3 px-4 font-semibold text-slate-900 dark:text-white">{vendor.score}</td>
+                      <td className="py-3 px-4">
+                        <span
+                          className={`px-3 py-1 rounded-full text-xs font-medium ${
+                            vendor.would_route
+                              ? "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200"
+                              : vendor.eligible
+                                ? "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200"
+                                : "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+                          }`}
+                        >
+                          {vendor.would_route
+                            ? "routed"
+                            : vendor.held_reason
+                              ? "held back"
+                              : vendor.eligible
+                                ? "later wave"
+                                : "not eligible"}
+                        </span>
+                        {vendor.held_reason && (
+                          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{vendor.held_reason}</p>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-xs text-slate-600 dark:text-slate-400 space-y-1">
+                        {vendor.reasons.map((reason) => (
+                          <div key={reason.signal}>
+                            <span className="font-medium capitalize">{label(reason.signal)}</span>: {reason.points} pts —{" "}
+                            {reason.detail}
+                          </div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {replay && (
+          <div>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-3">
+              {replay.summary.changed} of {replay.summary.projects} projects would change: {replay.summary.kept} vendors
+              kept, {replay.summary.added} added, {replay.summary.dropped} dropped. Vendor history is current, not as it
+              was when each project was routed.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-200 dark:border-slate-700">
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Project</th>
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Status</th>
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Actual</th>
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Simulated</th>
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Kept</th>
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Added</th>
+                    <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Dropped</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {replay.projects.map((project) => (
+                    <tr key={project.project_id} className="border-b border-slate-100 dark:border-slate-800">
+                      <td className="py-3 px-4 font-medium text-slate-900 dark:text-white">{project.title}</td>
+                      <td className="py-3 px-4 text-slate-600 dark:text-slate-400">{label(project.status)}</td>
+                      <td className="py-3 px-4 text-slate-700 dark:text-slate-300">{project.actual_count}</td>
+                      <td className="py-3 px-4 text-slate-700 dark:text-slate-300">{project.simulated_count}</td>
+                      <td className="py-3 px-4 text-slate-700 dark:text-slate-300">{project.kept.length}</td>
+                      <td className="py-3 px-4 text-green-700 dark:text-green-400">{project.added.length}</td>
+                      <td className="py-3 px-4 text-red-700 dark:text-red-400">{project.dropped.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
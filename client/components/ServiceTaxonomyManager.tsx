@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { FolderTree, GitMerge, Archive, Pencil } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  ServiceCategoryEntry,
+  getServiceTaxonomy,
+  retireServiceCategory,
+  saveServiceCategory,
+} from "@/lib/admin-controls-service";
+
+const selectClass = "w-full h-10 px-3 rounded-md border border-input bg-background text-sm";
+
+const EMPTY_FORM = { name: "", description: "", parentId: "", synonyms: "" };
+
+// Admin editor for the service taxonomy. Routing and intake read these categories, so merges
+// and retirements move existing projects and vendor services along with them.
+export function ServiceTaxonomyManager({ search = "" }: { search?: string }) {
+  const [categories, setCategories] = useState<ServiceCategoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [pending, setPending] = useState<{ id: string; action: "merge" | "retire"; targetId: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    setLoading(true);
+    const result = await getServiceTaxonomy();
+    if (result.success) {
+      setCategories(result.categories);
+    } else {
+      toast.error(result.error);
+    }
+    setLoading(false);
+  };
+
+  const active = categories.filter((category) => !category.retired_at);
+  const query = search.trim().toLowerCase();
+  const visible = categories.filter(
+    (category) =>
+      !query ||
+      category.label.toLowerCase().includes(query) ||
+      category.synonyms.some((synonym) => synonym.includes(query)),
+  );
+
+  const startEdit = (category: ServiceCategoryEntry) => {
+    setEditingId(category.id);
+    setForm({
+      name: category.name,
+      description: category.description || "",
+      parentId: category.parent_id || "",
+      synonyms: category.synonyms.join(", "),
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await saveServiceCategory(editingId, {
+      name: form.name,
+      description: form.description || null,
+      parentId: form.parentId || null,
+      synonyms: form.synonyms
+        .split(",")
+        .map((synonym) => synonym.trim())
+        .filter(Boolean),
+    });
+    setSaving(false);
+
+    if (result.success) {
+      toast.success(editingId ? "Category updated" : "Category added");
+      resetForm();
+      loadCategories();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  const handleRetire = async () => {
+    if (!pending) return;
+    if (pending.action === "merge" && !pending.targetId) {
+      toast.error("Pick the category to merge into");
+      return;
+    }
+
+    setSaving(true);
+    const result = await retireServiceCategory(pending.id, pending.action, pending.targetId || null);
+    setSaving(false);
+
+    if (result.success) {
+      const { projects, vendors, subcategories } = result.moved;
+      toast.success(
+        `${pending.action === "merge" ? "Merged" : "Retired"}: moved ${projects} project(s), ${vendors} vendor(s) and ${subcategories} subcategories`,
+      );
+      setPending(null);
+      loadCategories();
+    } else {
+      toast.error(result.error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <h3 className="font-semibold flex items-center gap-2">
+            <FolderTree className="h-4 w-4" />
+            {editingId ? "Edit category" : "Add category"}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input placeholder="Name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            <select value={form.parentId} onChange={(e) => setForm({ ...form, parentId: e.target.value })} className={selectClass}>
+              <option value="">Top level</option>
+              {active
+                .filter((category) => category.id !== editingId)
+                .map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.label}
+                  </option>
+                ))}
+            </select>
+            <Input
+              placeholder="Description"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+            <Input
+              placeholder="Synonyms, comma separated (used by intake)"
+              value={form.synonyms}
+              onChange={(e) => setForm({ ...form, synonyms: e.target.value })}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+              {editingId ? "Save changes" : "Add category"}
+            </Button>
+            {editingId && (
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <p className="text-center text-muted-foreground py-8">Loading...</p>
+      ) : visible.length === 0 ? (
+        <div className="text-center py-12">
+          <FolderTree className="h-12 w-12 text-muted-foreground mx-auto mb-4 opacity-50" />
+          <p className="text-muted-foreground">No categories</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {visible.map((category) => (
+            <Card key={category.id} className={category.retired_at ? "opacity-60" : ""}>
+              <CardContent className="py-4">
+                <div className="flex items-start justify-between gap-4" style={{ paddingLeft: category.depth * 24 }}>
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{category.name}</span>
+                      {category.retired_at && (
+                        <Badge variant="outline">
+                          {category.merged_into_id
+                            ? `merged into ${categories.find((c) => c.id === category.merged_into_id)?.name || "another category"}`
+                            : "retired"}
+                        </Badge>
+                      )}
+                    </div>
+                    {category.synonyms.length > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">Synonyms: {category.synonyms.join(", ")}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {category.project_count} project(s) · {category.vendor_count} vendor(s)
+                    </p>
+                  </div>
+                  {!category.retired_at && (
+                    <div className="flex gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => startEdit(category)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPending({ id: category.id, action: "merge", targetId: "" })}
+                      >
+                        <GitMerge className="h-4 w-4" />
+                        Merge
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPending({ id: category.id, action: "retire", targetId: "" })}
+                      >
+                        <Archive className="h-4 w-4" />
+                        Retire
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {pending?.id === category.id && (
+                  <div className="mt-4 flex flex-col md:flex-row gap-2" style={{ paddingLeft: category.depth * 24 }}>
+                    <select
+                      value={pending.targetId}
+                      onChange={(e) => setPending({ ...pending, targetId: e.target.value })}
+                      className={selectClass}
+                    >
+                      <option value="">
+                        {pending.action === "merge" ? "Merge into..." : "Move projects to the parent category"}
+                      </option>
+                      {active
+                        .filter((c) => c.id !== category.id)
+                        .map((c) => (
+                          <option key={c.id} value={c.id}>
+                            {c.label}
+                          </option>
+                        ))}
+                    </select>
+                    <Button variant="destructive" onClick={handleRetire} disabled={saving}>
+                      {pending.action === "merge" ? "Merge" : "Retire"}
+                    </Button>
+                    <Button variant="outline" onClick={() => setPending(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
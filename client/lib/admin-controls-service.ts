@@ -1,4 +1,5 @@
 import { supabase } from "./supabase";
+import { apiFetch } from "./api-client";
 
 function formatError(error: any): string {
   if (!error) return "Unknown error";
@@ -106,6 +107,9 @@ export async function setUsageLimits(
     max_api_calls?: number;
     max_storage_gb?: number;
     monthly_limit_reset_date?: number;
+    max_bids_per_day?: number | null;
+    max_messages_per_hour?: number | null;
+    max_ai_intake_per_day?: number | null;
   }
 ) {
   try {
@@ -207,6 +211,37 @@ export async function trackUsage(
   }
 }
 
+export interface UsageCounter {
+  metric: "bid" | "message" | "ai_intake";
+  label: string;
+  used: number;
+  limit: number;
+  windowSeconds: number;
+  resetsInSeconds: number;
+}
+
+export interface UserUsage {
+  user_id: string;
+  profile: { company_name?: string; role?: string } | null;
+  blocked: boolean;
+  counters: UsageCounter[];
+}
+
+// Live counters from the API, the same numbers it enforces limits with
+export async function getUsageOverview() {
+  try {
+    const response = await apiFetch("/api/admin/usage");
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return { success: true, usage: (result.data || []) as UserUsage[] };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error getting usage overview:", message);
+    return { success: false, error: message, usage: [] as UserUsage[] };
+  }
+}
+
 // Get all user blocks
 export async function getAllUserBlocks() {
   try {
@@ -266,61 +301,610 @@ export async function getRolePermissions(role: string) {
   }
 }
 
-// Get all audit logs
-export async function getAuditLogs(filters?: {
-  userId?: string;
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  actor_role: string | null;
+  actor_email: string | null;
+  actor_name: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  metadata: Record<string, any>;
+  request_id: string | null;
+  method: string | null;
+  path: string | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
   action?: string;
   entityType?: string;
-  limit?: number;
-}) {
+  entityId?: string;
+  requestId?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface AuditLogPagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+// Audit entries are written by the API itself on every mutating call, newest first
+export async function getAuditLogs(filters: AuditLogFilters = {}) {
   try {
-    let query = supabase
-      .from("activity_logs")
-      .select("*");
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    });
+
+    const response = await apiFetch(`/api/admin/audit-logs?${params.toString()}`);
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return {
+      success: true,
+      logs: (result.data || []) as AuditLogEntry[],
+      pagination: result.pagination as AuditLogPagination,
+    };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error getting audit logs:", message);
+    return { success: false, error: message, logs: [] as AuditLogEntry[], pagination: null };
+  }
+}
 
-    if (filters?.userId) {
-      query = query.eq("user_id", filters.userId);
-    }
-    if (filters?.action) {
-      query = query.eq("action", filters.action);
-    }
-    if (filters?.entityType) {
-      query = query.eq("entity_type", filters.entityType);
-    }
+export type ModerationAction = "allow" | "flag" | "mask" | "block";
 
-    const { data, error } = await query
-      .order("created_at", { ascending: false })
-      .limit(filters?.limit || 100);
+export interface ContactModerationPolicy {
+  default: ModerationAction;
+  byStatus: Record<string, ModerationAction>;
+}
 
-    if (error) throw error;
+export interface ModerationEvent {
+  id: string;
+  project_id: string;
+  message_id: string | null;
+  sender_id: string | null;
+  vendor_id: string | null;
+  project_status: string | null;
+  action: ModerationAction;
+  reason: string;
+  detected_types: string[];
+  matches: { type: string; value: string }[];
+  original_text: string | null;
+  delivered_text: string | null;
+  review_status: "pending" | "confirmed" | "dismissed" | "not_required";
+  created_at: string;
+  projects?: { id: string; title: string } | null;
+  sender?: { company_name?: string; role?: string } | null;
+}
 
-    // Enrich with user data if needed
-    const enrichedLogs = await Promise.all(
-      (data || []).map(async (log) => {
-        try {
-          const { data: userProfile } = await supabase
-            .from("user_profiles")
-            .select("name, email")
-            .eq("id", log.user_id)
-            .maybeSingle();
+// Messages where contact details were detected, waiting for an admin decision
+export async function getModerationEvents(filters: { reviewStatus?: string; page?: number } = {}) {
+  try {
+    const params = new URLSearchParams();
+    if (filters.reviewStatus) params.set("reviewStatus", filters.reviewStatus);
+    if (filters.page) params.set("page", String(filters.page));
 
-          return {
-            ...log,
-            user: userProfile || { name: "Unknown", email: "Unknown" },
-          };
-        } catch {
-          return {
-            ...log,
-            user: { name: "Unknown", email: "Unknown" },
-          };
-        }
-      })
+    const response = await apiFetch(`/api/admin/moderation/events?${params.toString()}`);
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return { success: true, events: (result.data || []) as ModerationEvent[], pagination: result.pagination };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error getting moderation events:", message);
+    return { success: false, error: message, events: [] as ModerationEvent[], pagination: null };
+  }
+}
+
+export async function reviewModerationEvent(eventId: string, resolution: "confirmed" | "dismissed", note?: string) {
+  try {
+    const response = await apiFetch(`/api/admin/moderation/events/${eventId}/review`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ resolution, note }),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return { success: true, event: result.data as ModerationEvent };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error reviewing moderation event:", message);
+    return { success: false, error: message };
+  }
+}
+
+export async function getModerationPolicy() {
+  try {
+    const response = await apiFetch("/api/admin/moderation/policy");
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return { success: true, policy: result.data as ContactModerationPolicy };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error getting moderation policy:", message);
+    return { success: false, error: message, policy: null };
+  }
+}
+
+export async function updateModerationPolicy(policy: ContactModerationPolicy) {
+  try {
+    const response = await apiFetch("/api/admin/moderation/policy", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(policy),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return { success: true, policy: result.data as ContactModerationPolicy };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error updating moderation policy:", message);
+    return { success: false, error: message };
+  }
+}
+
+export type RoutingMode = "broadcast" | "waves" | "strict";
+
+export interface ScoringSignalConfig {
+  enabled: boolean;
+  weight: number;
+  required: boolean;
+}
+
+export interface RoutingScoringConfig {
+  signals: Record<string, ScoringSignalConfig>;
+  minScore: number;
+  maxOpenLeads: number;
+  minHistory: number;
+}
+
+export interface SimulatedVendor {
+  vendor_id: string;
+  company_name: string | null;
+  score: number;
+  eligible: boolean;
+  held_reason: string | null;
+  would_route: boolean;
+  reasons: { signal: string; weight: number; value: number; points: number; detail: string }[];
+}
+
+export interface RoutingSimulation {
+  mode: RoutingMode;
+  wave_size: number | null;
+  candidate_count: number;
+  eligible_count: number;
+  held_count: number;
+  would_route_count: number;
+  vendors: SimulatedVendor[];
+}
+
+export interface RoutingReplay {
+  projects: {
+    project_id: string;
+    title: string;
+    status: string;
+    created_at: string;
+    simulated_count: number;
+    actual_count: number;
+    kept: string[];
+    added: string[];
+    dropped: string[];
+  }[];
+  summary: { projects: number; changed: number; kept: number; added: number; dropped: number };
+}
+
+export interface RoutingSimulationRequest {
+  projectId?: string;
+  project?: { service_category_id: string | null; project_state?: string | null; project_zip?: string | null };
+  mode?: RoutingMode;
+  scoringConfig?: RoutingScoringConfig;
+}
+
+export async function getRoutingScoringConfig() {
+  try {
+    const response = await apiFetch("/api/admin/routing/scoring");
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return { success: true, config: result.data as RoutingScoringConfig };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error getting routing scoring config:", message);
+    return { success: false, error: message, config: null };
+  }
+}
+
+// Dry run of the routing rules for one project; nothing is routed
+export async function simulateRouting(request: RoutingSimulationRequest) {
+  try {
+    const response = await apiFetch("/api/routing/simulate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return { success: true, simulation: result as RoutingSimulation };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error simulating routing:", message);
+    return { success: false, error: message, simulation: null };
+  }
+}
+
+// Replays the most recent projects under the given rules and compares with who actually got them
+export async function replayRouting(limit: number, rules: Omit<RoutingSimulationRequest, "projectId" | "project"> = {}) {
+  try {
+    const response = await apiFetch("/api/routing/simulate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...rules, replay: { limit } }),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return { success: true, replay: result as RoutingReplay };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error replaying routing:", message);
+    return { success: false, error: message, replay: null };
+  }
+}
+
+export interface RoutingExclusion {
+  id: string;
+  business_id: string;
+  vendor_id: string;
+  reason: string;
+  created_by: string | null;
+  created_at: string;
+  business?: { company_name?: string; contact_email?: string } | null;
+  vendor?: { company_name?: string; contact_email?: string } | null;
+}
+
+// The first field error is the most useful message for override forms
+function resultError(result: any): string {
+  const fieldError = Object.values(result.fieldErrors || {})[0] as string | undefined;
+  return fieldError || result.error || result.message;
+}
+
+// Route a project to a vendor by hand; reopens the routing if it was revoked or declined
+export async function addManualRouting(projectId: string, vendorId: string, reason: string) {
+  try {
+    const response = await apiFetch("/api/admin/routings", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ projectId, vendorId, reason }),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(resultError(result));
+    return { success: true, routing: result.data };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error adding routing:", message);
+    return { success: false, error: message };
+  }
+}
+
+export async function revokeRouting(routingId: string, reason: string) {
+  try {
+    const response = await apiFetch(`/api/admin/routings/${routingId}/revoke`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reason }),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(resultError(result));
+    return { success: true, routing: result.data };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error revoking routing:", message);
+    return { success: false, error: message };
+  }
+}
+
+export async function getRoutingExclusions() {
+  try {
+    const response = await apiFetch("/api/admin/routing/exclusions");
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return { success: true, exclusions: (result.data || []) as RoutingExclusion[] };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error getting routing exclusions:", message);
+    return { success: false, error: message, exclusions: [] as RoutingExclusion[] };
+  }
+}
+
+// Keeps a vendor away from every project of one business; their open leads there are revoked
+export async function addRoutingExclusion(businessId: string, vendorId: string, reason: string) {
+  try {
+    const response = await apiFetch("/api/admin/routing/exclusions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ businessId, vendorId, reason }),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(resultError(result));
+    return { success: true, exclusion: result.data as RoutingExclusion, revoked: result.revoked as number };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error adding routing exclusion:", message);
+    return { success: false, error: message };
+  }
+}
+
+export async function removeRoutingExclusion(exclusionId: string, reason: string) {
+  try {
+    const response = await apiFetch(`/api/admin/routing/exclusions/${exclusionId}`, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ reason }),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(resultError(result));
+    return { success: true };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error removing routing exclusion:", message);
+    return { success: false, error: message };
+  }
+}
+
+export interface ServiceCategoryEntry {
+  id: string;
+  name: string;
+  description: string | null;
+  parent_id: string | null;
+  synonyms: string[];
+  retired_at: string | null;
+  merged_into_id: string | null;
+  depth: number;
+  label: string;
+  project_count: number;
+  vendor_count: number;
+}
+
+export interface ServiceCategoryInput {
+  name?: string;
+  description?: string | null;
+  parentId?: string | null;
+  synonyms?: string[];
+}
+
+// Projects, vendors and subcategories moved by a merge or retire
+export interface ServiceCategoryMove {
+  projects: number;
+  vendors: number;
+  subcategories: number;
+}
+
+export async function getServiceTaxonomy() {
+  try {
+    const response = await apiFetch("/api/admin/service-categories");
+    const result = await response.json();
+
+    if (!result.success) throw new Error(result.error || result.message);
+    return { success: true, categories: (result.data || []) as ServiceCategoryEntry[] };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error getting service taxonomy:", message);
+    return { success: false, error: message, categories: [] as ServiceCategoryEntry[] };
+  }
+}
+
+export async function saveServiceCategory(categoryId: string | null, input: ServiceCategoryInput) {
+  try {
+    const response = await apiFetch(
+      categoryId ? `/api/admin/service-categories/${categoryId}` : "/api/admin/service-categories",
+      {
+        method: categoryId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      },
     );
+    const result = await response.json();
 
-    return { success: true, logs: enrichedLogs || [] };
+    if (!result.success) throw new Error(resultError(result));
+    return { success: true, category: result.data };
   } catch (error) {
     const message = formatError(error);
-    console.error("Error getting audit logs:", message);
-    return { success: false, error: message, logs: [] };
+    console.error("Error saving service category:", message);
+    return { success: false, error: message };
+  }
+}
+
+// Merge moves everything to `targetId` and keeps the old name as a synonym; retire moves it to
+// `targetId` or the parent category
+export async function retireServiceCategory(categoryId: string, action: "merge" | "retire", targetId: string | null) {
+  try {
+    const response = await apiFetch(`/api/admin/service-categories/${categoryId}/${action}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(action === "merge" ? { targetId } : { replacementId: targetId }),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(resultError(result));
+    return {
+      success: true,
+      moved: { projects: result.projects, vendors: result.vendors, subcategories: result.subcategories } as ServiceCategoryMove,
+    };
+  } catch (error) {
+    const message = formatError(error);
+    console.error(`Error in service category ${action}:`, message);
+    return { success: false, error: message };
+  }
+}
+
+export type CoverageKind = "state" | "metro" | "custom";
+
+export interface CoverageRegionEntry {
+  id: string;
+  state: string;
+  region: string | null;
+  kind: CoverageKind;
+  zip_codes: string[];
+  vendors: { user_id: string; company_name: string | null }[];
+}
+
+export interface CoverageRegionInput {
+  kind?: CoverageKind;
+  state?: string;
+  name?: string;
+  zipCodes?: string[];
+}
+
+export interface CoverageImportChange {
+  state: string;
+  name: string;
+  kind: "metro" | "custom";
+  zip_codes: string[];
+  action: "create" | "update" | "unchanged";
+  region_id: string | null;
+  added: string[];
+  removed: string[];
+}
+
+export interface CoverageImportPreview {
+  applied: boolean;
+  mode: "merge" | "replace";
+  changes: CoverageImportChange[];
+  errors: { line: number; message: string }[];
+  warnings: { line: number; message: string }[];
+  summary: { create: number; update: number; unchanged: number; zips_added: number; zips_removed: number };
+}
+
+export interface CoverageRequestEntry {
+  id: string;
+  vendor_id: string;
+  state: string;
+  kind: "metro" | "custom";
+  name: string;
+  zip_codes: string[];
+  note: string | null;
+  status: "pending" | "approved" | "rejected";
+  review_note: string | null;
+  created_at: string;
+  vendor: { company_name: string | null; contact_email: string | null } | null;
+}
+
+export async function getCoverageRegions() {
+  try {
+    const response = await apiFetch("/api/admin/coverage-regions");
+    const result = await response.json();
+
+    if (!result.success) throw new Error(resultError(result));
+    return { success: true, regions: (result.data || []) as CoverageRegionEntry[] };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error getting coverage regions:", message);
+    return { success: false, error: message, regions: [] as CoverageRegionEntry[] };
+  }
+}
+
+export async function saveCoverageRegion(regionId: string | null, input: CoverageRegionInput) {
+  try {
+    const response = await apiFetch(regionId ? `/api/admin/coverage-regions/${regionId}` : "/api/admin/coverage-regions", {
+      method: regionId ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(resultError(result));
+    return { success: true, region: result.data };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error saving coverage region:", message);
+    return { success: false, error: message };
+  }
+}
+
+export async function deleteCoverageRegion(regionId: string) {
+  try {
+    const response = await apiFetch(`/api/admin/coverage-regions/${regionId}`, { method: "DELETE" });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(resultError(result));
+    return { success: true };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error deleting coverage region:", message);
+    return { success: false, error: message };
+  }
+}
+
+// Without `apply` nothing is written; the preview lists what the import would change. A file with
+// errors comes back with its preview so the admin can see what to fix.
+export async function importCoverageCsv(csv: string, mode: "merge" | "replace", apply: boolean) {
+  try {
+    const response = await apiFetch("/api/admin/coverage-regions/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ csv, mode, apply }),
+    });
+    const result = await response.json();
+
+    const preview = result.changes ? (result as CoverageImportPreview) : null;
+    if (!result.success) return { success: false, error: resultError(result), preview };
+    return { success: true, preview };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error importing coverage CSV:", message);
+    return { success: false, error: message, preview: null as CoverageImportPreview | null };
+  }
+}
+
+export async function getCoverageRequests(status = "pending") {
+  try {
+    const response = await apiFetch(`/api/admin/coverage-requests?status=${encodeURIComponent(status)}`);
+    const result = await response.json();
+
+    if (!result.success) throw new Error(resultError(result));
+    return { success: true, requests: (result.data || []) as CoverageRequestEntry[] };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error getting coverage requests:", message);
+    return { success: false, error: message, requests: [] as CoverageRequestEntry[] };
+  }
+}
+
+export async function reviewCoverageRequest(requestId: string, decision: "approve" | "reject", note?: string) {
+  try {
+    const response = await apiFetch(`/api/admin/coverage-requests/${requestId}/review`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ decision, note: note || undefined }),
+    });
+    const result = await response.json();
+
+    if (!result.success) throw new Error(resultError(result));
+    return { success: true, request: result.data };
+  } catch (error) {
+    const message = formatError(error);
+    console.error("Error reviewing coverage request:", message);
+    return { success: false, error: message };
   }
 }
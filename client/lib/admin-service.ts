@@ -1,4 +1,5 @@
 import { supabase } from "./supabase";
+import { apiFetch } from "./api-client";
 
 // Retry helper with aggressive timeout and exponential backoff
 async function withRetry<T>(
@@ -55,11 +56,7 @@ async function withRetry<T>(
 // Projects
 export async function getProjects() {
   try {
-    const response = await fetch('/api/admin/projects', {
-      headers: {
-        'Authorization': `Bearer ${localStorage.getItem('supabase.auth.token')}` // Placeholder for token
-      }
-    });
+    const response = await apiFetch('/api/admin/projects');
     const result = await response.json();
 
     if (!result.success) {
@@ -85,11 +82,10 @@ export async function createProject(projectData: {
   timeline?: string;
 }) {
   // Map company_id to business_id for server API compatibility
-  const response = await fetch('/api/projects/create', {
+  const response = await apiFetch('/api/projects/create', {
     method: 'POST',
     headers: {
-      'Content-Type': 'application/json',
-      'x-user-id': projectData.company_id // Using company_id as userId
+      'Content-Type': 'application/json'
     },
     body: JSON.stringify({
       ...projectData,
@@ -131,11 +127,8 @@ export async function updateProject(
 }
 
 export async function deleteProject(projectId: string) {
-  const response = await fetch(`/api/projects/${projectId}`, {
-    method: 'DELETE',
-    headers: {
-      'x-user-id': 'admin' // In real app, this should be the actual user ID or handled by admin middleware
-    }
+  const response = await apiFetch(`/api/projects/${projectId}`, {
+    method: 'DELETE'
   });
 
   const result = await response.json();
@@ -179,19 +172,30 @@ export async function getCreatorProfiles() {
   }
 }
 
+// Approval and role changes go through the audited admin endpoint, never a direct profile update
+export async function updateProfileAccess(
+  userId: string,
+  changes: { is_approved?: boolean; role?: "admin" | "business" | "vendor"; reason?: string }
+) {
+  const response = await apiFetch(`/api/admin/profiles/${userId}/access`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(changes),
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || result.message || "Failed to update profile access");
+  }
+
+  return result.data;
+}
+
 export async function updateCreatorStatus(
   creatorId: string,
   status: "pending" | "approved" | "rejected"
 ) {
-  const is_approved = status === "approved";
-  const { data, error } = await supabase
-    .from("profiles")
-    .update({ is_approved })
-    .eq("user_id", creatorId)
-    .select();
-
-  if (error) throw error;
-  return data?.[0];
+  return updateProfileAccess(creatorId, { is_approved: status === "approved" });
 }
 
 // Companies (Business Profiles)
@@ -260,7 +264,7 @@ export async function updatePaymentStatus(
 // Dashboard Stats
 export async function getDashboardStats() {
   try {
-    const response = await fetch('/api/admin/stats');
+    const response = await apiFetch('/api/admin/stats');
     const result = await response.json();
 
     if (!result.success) {
@@ -287,7 +291,7 @@ export async function assignCreatorToProject(
   role: string = "contributor"
 ) {
   try {
-    const response = await fetch('/api/admin/assign-creator', {
+    const response = await apiFetch('/api/admin/assign-creator', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -321,7 +325,7 @@ export async function assignCreatorToProject(
 
 export async function getProjectAssignments(projectId: string) {
   try {
-    const response = await fetch(`/api/admin/project-assignments/${projectId}`);
+    const response = await apiFetch(`/api/admin/project-assignments/${projectId}`);
     const result = await response.json();
 
     if (!result.success) {
@@ -0,0 +1,77 @@
+import { supabase } from "./supabase";
+
+const MFA_TOKEN_STORAGE_KEY = "sharkbid.mfaToken";
+
+/** Fired on `window` when the API asks for a two-factor code; `MfaPrompt` listens for it. */
+export const MFA_REQUIRED_EVENT = "sharkbid:mfa-required";
+
+export type MfaRequirement = "enrollment" | "session" | "step_up";
+
+interface StoredMfaToken {
+  token: string;
+  expiresAt: string;
+}
+
+export function getMfaToken(): string | null {
+  try {
+    const stored = localStorage.getItem(MFA_TOKEN_STORAGE_KEY);
+    if (!stored) return null;
+
+    const { token, expiresAt } = JSON.parse(stored) as StoredMfaToken;
+    if (new Date(expiresAt).getTime() <= Date.now()) {
+      localStorage.removeItem(MFA_TOKEN_STORAGE_KEY);
+      return null;
+    }
+    return token;
+  } catch {
+    return null;
+  }
+}
+
+export function setMfaToken(token: string, expiresAt: string) {
+  localStorage.setItem(MFA_TOKEN_STORAGE_KEY, JSON.stringify({ token, expiresAt }));
+}
+
+export function clearMfaToken() {
+  localStorage.removeItem(MFA_TOKEN_STORAGE_KEY);
+}
+
+/**
+ * fetch() for our own /api routes.
+ * Attaches the current Supabase access token so the server can verify who is calling,
+ * plus the MFA token once the user has passed a two-factor check.
+ */
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+
+  if (!headers.has("Authorization")) {
+    const { data } = await supabase.auth.getSession();
+    const accessToken = data.session?.access_token;
+    if (accessToken) {
+      headers.set("Authorization", `Bearer ${accessToken}`);
+    }
+  }
+
+  const mfaToken = getMfaToken();
+  if (mfaToken && !headers.has("x-mfa-token")) {
+    headers.set("x-mfa-token", mfaToken);
+  }
+
+  const response = await fetch(input, { ...init, headers });
+
+  if (response.status === 403) {
+    const body = await response.clone().json().catch(() => null);
+    const requirement: MfaRequirement | undefined = body?.required?.mfa;
+    if (requirement) {
+      window.dispatchEvent(new CustomEvent(MFA_REQUIRED_EVENT, { detail: { requirement } }));
+    }
+  }
+
+  return response;
+}
+
+/** The message to show for a failed API result: its first field error, else its error, else `fallback`. */
+export function apiErrorMessage(result: any, fallback: string): string {
+  const fieldError = Object.values(result?.fieldErrors || {})[0];
+  return (typeof fieldError === "string" && fieldError) || result?.error || fallback;
+}
@@ -2,6 +2,7 @@ import React, { createContext, useContext, useEffect, useState } from "react";
 import { Session, User } from "@supabase/supabase-js";
 import { supabase } from "./supabase";
 import { getErrorMessage } from "./utils";
+import { apiFetch, clearMfaToken } from "./api-client";
 
 interface AuthContextType {
   session: Session | null;
@@ -47,9 +48,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
         // Also try server-side API (background)
         const apiPromise = Promise.resolve(
-          fetch('/api/profiles/me', {
-            headers: { 'x-user-id': userId },
-          }).then((res) => res.json())
+          apiFetch('/api/profiles/me').then((res) => res.json())
         ).catch(() => ({ success: false } as any));
 
         // Race the Supabase call against a timeout that resolves (doesn't throw)
@@ -229,6 +228,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const signOut = async () => {
     try {
       setError(null);
+      clearMfaToken();
       const { error: signOutError } = await supabase.auth.signOut();
       if (signOutError) {
         throw signOutError;
@@ -1,4 +1,5 @@
 import { supabase } from "./supabase";
+import { apiFetch } from "./api-client";
 
 function formatError(error: any): string {
   if (!error) return "Unknown error";
@@ -53,11 +54,10 @@ export async function createProjectFromBriefing(
 ) {
   try {
     // Create main project via server API to bypass RLS recursion
-    const response = await fetch('/api/projects/create', {
+    const response = await apiFetch('/api/projects/create', {
       method: 'POST',
       headers: {
-        'Content-Type': 'application/json',
-        'x-user-id': clientId
+        'Content-Type': 'application/json'
       },
       body: JSON.stringify({
         title: briefing.title,
@@ -1,4 +1,5 @@
 import { supabase } from "./supabase";
+import { apiFetch } from "./api-client";
 
 // Helper function to format error messages
 function formatError(error: any): string {
@@ -53,11 +54,7 @@ export async function getClientProjects(clientId: string) {
   }
 
   try {
-    const response = await fetch('/api/projects/business', {
-      headers: {
-        'x-user-id': clientId
-      }
-    });
+    const response = await apiFetch('/api/projects/business');
 
     const result = await response.json();
 
@@ -94,11 +91,7 @@ export async function getProjectById(projectId: string, clientId: string) {
   }
 
   try {
-    const response = await fetch(`/api/projects/${projectId}`, {
-      headers: {
-        'x-user-id': clientId
-      }
-    });
+    const response = await apiFetch(`/api/projects/${projectId}`);
 
     if (!response.ok) {
       return null;
@@ -153,11 +146,7 @@ export async function getClientProfile(clientId: string) {
 // Get client dashboard stats (using server API)
 export async function getClientStats(clientId: string) {
   try {
-    const response = await fetch('/api/projects/business', {
-      headers: {
-        'x-user-id': clientId
-      }
-    });
+    const response = await apiFetch('/api/projects/business');
 
     const result = await response.json();
 
@@ -1,4 +1,5 @@
 import { supabase } from "./supabase";
+import { getMfaStatus } from "./mfa-service";
 
 function formatError(error: any): string {
   if (!error) return "Unknown error";
@@ -176,7 +177,11 @@ export async function getUserDataUsage(userId: string) {
 export async function getPrivacySettings(userId: string) {
   try {
     // This could be stored in a privacy_settings table
-    // For now, returning default settings
+    // For now, returning default settings (2FA status comes from the API)
+    const twoFactorEnabled = await getMfaStatus()
+      .then((status) => status.enabled)
+      .catch(() => false);
+
     return {
       success: true as const,
       settings: {
@@ -185,7 +190,7 @@ export async function getPrivacySettings(userId: string) {
         dataCollection: true,
         profileVisibility: "public", // public, private, registered_only
         showInMarketplace: true,
-        twoFactorEnabled: false,
+        twoFactorEnabled,
       },
     };
   } catch (error) {
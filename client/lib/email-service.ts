@@ -1,6 +1,8 @@
 // Email Service for sending transactional emails
 // This can integrate with SendGrid, Mailgun, or other email providers
 
+import { apiFetch } from "./api-client";
+
 interface EmailTemplate {
   name: string;
   subject: string;
@@ -104,9 +106,8 @@ export async function sendEmail(
       };
     }
 
-    // In production, this would call a secure backend endpoint
-    // that handles the actual email sending through SendGrid/Mailgun
-    const response = await fetch("/api/send-email", {
+    // The backend sends through SendGrid and only for signed-in users allowed to message
+    const response = await apiFetch("/api/send-email", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -0,0 +1,59 @@
+import { apiFetch, setMfaToken } from "./api-client";
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+async function postJson(path: string, body?: Record<string, unknown>) {
+  const response = await apiFetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body || {}),
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || "Two-factor request failed");
+  }
+
+  return result.data;
+}
+
+export async function getMfaStatus(): Promise<MfaStatus> {
+  const response = await apiFetch("/api/mfa/status");
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || "Failed to load two-factor status");
+  }
+
+  return result.data;
+}
+
+export async function startMfaEnrollment(): Promise<{ secret: string; otpauthUri: string }> {
+  return postJson("/api/mfa/enroll");
+}
+
+// Confirms the first code from the authenticator app. Returns recovery codes to show once.
+export async function confirmMfaEnrollment(code: string): Promise<string[]> {
+  const data = await postJson("/api/mfa/enroll/verify", { code });
+  setMfaToken(data.mfaToken, data.expiresAt);
+  return data.recoveryCodes;
+}
+
+// Used at login and whenever the API asks for a fresh check
+export async function verifyMfa(input: { code?: string; recoveryCode?: string }) {
+  const data = await postJson("/api/mfa/verify", input);
+  setMfaToken(data.mfaToken, data.expiresAt);
+  return { recoveryCodesRemaining: data.recoveryCodesRemaining as number };
+}
+
+export async function regenerateRecoveryCodes(): Promise<string[]> {
+  const data = await postJson("/api/mfa/recovery-codes");
+  return data.recoveryCodes;
+}
+
+export async function disableMfa(input: { code?: string; recoveryCode?: string }) {
+  await postJson("/api/mfa/disable", input);
+}
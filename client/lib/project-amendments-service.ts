@@ -0,0 +1,70 @@
+import { apiErrorMessage, apiFetch } from "./api-client";
+
+// Amendments to published projects. Each one bumps the project's revision and flags earlier
+// bids as needing confirmation until the vendor confirms or revises them.
+
+export interface ProjectChange {
+  field: string;
+  label: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface ProjectAmendment {
+  id: string;
+  revision: number;
+  changes: ProjectChange[];
+  note: string;
+  created_at: string;
+}
+
+export interface ProjectAmendmentInput {
+  note: string;
+  title?: string;
+  description?: string;
+  special_requirements?: string;
+  budget_min?: number | null;
+  budget_max?: number | null;
+  timeline_start?: string | null;
+  timeline_end?: string | null;
+}
+
+export async function getProjectAmendments(projectId: string): Promise<ProjectAmendment[]> {
+  const response = await apiFetch(`/api/projects/${projectId}/amendments`);
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(apiErrorMessage(result, "Failed to load amendments"));
+  }
+
+  return result.data as ProjectAmendment[];
+}
+
+export async function amendProject(projectId: string, amendment: ProjectAmendmentInput) {
+  const response = await apiFetch(`/api/projects/${projectId}/amendments`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(amendment),
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(apiErrorMessage(result, "Failed to amend project"));
+  }
+
+  return result.data as { project: any; amendment: ProjectAmendment };
+}
+
+// The vendor stands by their bid after an amendment
+export async function confirmBid(projectId: string, bidId: string) {
+  const response = await apiFetch(`/api/projects/${projectId}/bids/${bidId}/confirm`, {
+    method: "POST",
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(apiErrorMessage(result, "Failed to confirm bid"));
+  }
+
+  return result.data;
+}
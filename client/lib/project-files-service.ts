@@ -0,0 +1,41 @@
+import { supabase } from "./supabase";
+import { apiFetch } from "./api-client";
+
+// Project files live in a private bucket. The API hands out a signed upload URL for the right
+// project/thread folder and short-lived signed URLs for viewing.
+
+// Uploads a file into a project thread (vendorId) or the project's shared folder and returns
+// its storage path, which is what messages and other records store
+export async function uploadProjectFile(projectId: string, file: File, vendorId?: string): Promise<string> {
+  const response = await apiFetch(`/api/projects/${projectId}/files/upload-url`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ fileName: file.name, contentType: file.type, vendorId }),
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || "Failed to start upload");
+  }
+
+  const { bucket, path, token } = result.data;
+  const { error } = await supabase.storage
+    .from(bucket)
+    .uploadToSignedUrl(path, token, file, { contentType: file.type });
+
+  if (error) throw error;
+  return path;
+}
+
+export async function getProjectFileUrl(projectId: string, path: string) {
+  const response = await apiFetch(
+    `/api/projects/${projectId}/files/download-url?path=${encodeURIComponent(path)}`,
+  );
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || "Failed to load file");
+  }
+
+  return result.data as { url: string; expiresAt: string };
+}
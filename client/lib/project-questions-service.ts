@@ -0,0 +1,62 @@
+import { apiErrorMessage, apiFetch } from "./api-client";
+
+// Project clarification Q&A. Vendors ask anonymously and the business answers once; public
+// answers are shared with every vendor on the lead.
+
+export interface ProjectQuestion {
+  id: string;
+  question: string;
+  is_private: boolean;
+  answer: string | null;
+  answered_at: string | null;
+  created_at: string;
+  asked_by_me: boolean;
+  // Admins only
+  vendor_id?: string;
+}
+
+export async function getProjectQuestions(projectId: string): Promise<ProjectQuestion[]> {
+  const response = await apiFetch(`/api/projects/${projectId}/questions`);
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(apiErrorMessage(result, "Failed to load questions"));
+  }
+
+  return result.data as ProjectQuestion[];
+}
+
+export async function askProjectQuestion(projectId: string, question: string, isPrivate: boolean): Promise<ProjectQuestion> {
+  const response = await apiFetch(`/api/projects/${projectId}/questions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ question, isPrivate }),
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(apiErrorMessage(result, "Failed to send question"));
+  }
+
+  return result.data as ProjectQuestion;
+}
+
+export async function answerProjectQuestion(
+  projectId: string,
+  questionId: string,
+  answer: string,
+  isPrivate: boolean,
+): Promise<ProjectQuestion> {
+  const response = await apiFetch(`/api/projects/${projectId}/questions/${questionId}/answer`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ answer, isPrivate }),
+  });
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(apiErrorMessage(result, "Failed to send answer"));
+  }
+
+  return result.data as ProjectQuestion;
+}
@@ -0,0 +1,23 @@
+import { apiFetch } from "./api-client";
+
+// Active service categories in tree order, for pickers. Retired categories are left out; the
+// label is a breadcrumb such as "IT Services › Managed Security".
+export interface ServiceCategoryOption {
+  id: string;
+  name: string;
+  description: string | null;
+  parent_id: string | null;
+  depth: number;
+  label: string;
+}
+
+export async function getServiceCategories(): Promise<ServiceCategoryOption[]> {
+  const response = await apiFetch("/api/service-categories");
+  const result = await response.json();
+
+  if (!result.success) {
+    throw new Error(result.error || "Failed to load service categories");
+  }
+
+  return result.data as ServiceCategoryOption[];
+}
@@ -6,6 +6,7 @@ import { ArrowLeft, AlertCircle, Loader2, CheckCircle2, XCircle, Building2, Mail
 import { supabase } from '@/lib/supabase';
 import { getErrorMessage } from '@/lib/utils';
 import { toast } from 'sonner';
+import { updateProfileAccess } from '@/lib/admin-service';
 
 interface BusinessProfile {
   id: string;
@@ -84,12 +85,7 @@ export default function AdminBusinessDetail() {
     try {
       setUpdating(true);
       const newStatus = !business.is_approved;
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ is_approved: newStatus })
-        .eq('id', business.id);
-
-      if (updateError) throw updateError;
+      await updateProfileAccess(business.user_id, { is_approved: newStatus });
 
       setBusiness({ ...business, is_approved: newStatus });
       toast.success(newStatus ? 'Employer approved' : 'Employer approval revoked');
@@ -1,11 +1,22 @@
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
 import { useState, useEffect } from "react";
-import { Shield, AlertCircle, Trash2, Eye } from "lucide-react";
+import { Shield, AlertCircle, Trash2, Eye, Activity } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useAuth } from "@/lib/auth-context";
-import { getAllUserBlocks, unblockUser, getAuditLogs } from "@/lib/admin-controls-service";
+import { ModerationQueue } from "@/components/ModerationQueue";
+import { ServiceTaxonomyManager } from "@/components/ServiceTaxonomyManager";
+import { CoverageRegionsManager } from "@/components/CoverageRegionsManager";
+import {
+  getAllUserBlocks,
+  unblockUser,
+  getAuditLogs,
+  getUsageOverview,
+  UserUsage,
+  AuditLogEntry,
+  AuditLogPagination,
+} from "@/lib/admin-controls-service";
 
 interface UserBlock {
   id: string;
@@ -20,44 +31,65 @@ interface UserBlock {
   };
 }
 
-interface AuditLog {
-  id: string;
-  user_id: string;
-  action: string;
-  entity_type: string;
-  description?: string;
-  created_at: string;
-  user?: {
-    name: string;
-    email: string;
-  };
-}
+const AUDIT_PAGE_SIZE = 25;
+
+const formatAuditValue = (value: unknown) =>
+  value === null || value === undefined ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value);
 
 export default function AdminControls() {
   const { user } = useAuth();
   const [blocks, setBlocks] = useState<UserBlock[]>([]);
-  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [logPagination, setLogPagination] = useState<AuditLogPagination | null>(null);
+  const [logPage, setLogPage] = useState(1);
+  const [logFilters, setLogFilters] = useState({ action: "", entityType: "" });
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<"blocks" | "logs">("blocks");
+  const [usage, setUsage] = useState<UserUsage[]>([]);
+  const [activeTab, setActiveTab] = useState<"blocks" | "usage" | "moderation" | "services" | "coverage" | "logs">("blocks");
   const [searchUser, setSearchUser] = useState("");
 
   useEffect(() => {
     loadData();
   }, [user?.id]);
 
+  // Usage counters change with every bid and message, so keep them fresh while the tab is open
+  useEffect(() => {
+    if (activeTab !== "usage") return;
+    const interval = setInterval(loadUsage, 30000);
+    return () => clearInterval(interval);
+  }, [activeTab]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [logPage, logFilters]);
+
+  const loadLogs = async () => {
+    const logsResult = await getAuditLogs({ ...logFilters, page: logPage, pageSize: AUDIT_PAGE_SIZE });
+    if (logsResult.success) {
+      setLogs(logsResult.logs);
+      setLogPagination(logsResult.pagination);
+    }
+  };
+
+  const updateLogFilter = (key: "action" | "entityType", value: string) => {
+    setLogFilters((prev) => ({ ...prev, [key]: value.trim() }));
+    setLogPage(1);
+  };
+
+  const loadUsage = async () => {
+    const usageResult = await getUsageOverview();
+    if (usageResult.success) {
+      setUsage(usageResult.usage);
+    }
+  };
+
   const loadData = async () => {
     setLoading(true);
-    const [blocksResult, logsResult] = await Promise.all([
-      getAllUserBlocks(),
-      getAuditLogs({ limit: 50 }),
-    ]);
+    const [blocksResult] = await Promise.all([getAllUserBlocks(), loadUsage()]);
 
     if (blocksResult.success) {
       setBlocks(blocksResult.blocks);
     }
-    if (logsResult.success) {
-      setLogs(logsResult.logs);
-    }
     setLoading(false);
   };
 
@@ -75,9 +107,13 @@ export default function AdminControls() {
     block.user?.name?.toLowerCase().includes(searchUser.toLowerCase())
   );
 
+  const filteredUsage = usage.filter((entry) =>
+    (entry.profile?.company_name || entry.user_id).toLowerCase().includes(searchUser.toLowerCase())
+  );
+
   const filteredLogs = logs.filter((log) =>
-    log.user?.email?.includes(searchUser.toLowerCase()) ||
-    log.user?.name?.toLowerCase().includes(searchUser.toLowerCase())
+    (log.actor_email || "").toLowerCase().includes(searchUser.toLowerCase()) ||
+    (log.actor_name || "").toLowerCase().includes(searchUser.toLowerCase())
   );
 
   return (
@@ -90,7 +126,7 @@ export default function AdminControls() {
           </h1>
           <p className="text-muted-foreground flex items-center gap-2">
             <Shield className="h-4 w-4" />
-            Manage user blocks, permissions, and audit logs
+            Manage user blocks, permissions, service categories and audit logs
           </p>
         </div>
 
@@ -106,6 +142,46 @@ export default function AdminControls() {
           >
             Blocked Users ({blocks.length})
           </button>
+          <button
+            onClick={() => setActiveTab("usage")}
+            className={`px-4 py-2 rounded-lg font-medium transition ${
+              activeTab === "usage"
+                ? "bg-accent text-accent-foreground"
+                : "hover:bg-muted text-foreground"
+            }`}
+          >
+            Usage
+          </button>
+          <button
+            onClick={() => setActiveTab("moderation")}
+            className={`px-4 py-2 rounded-lg font-medium transition ${
+              activeTab === "moderation"
+                ? "bg-accent text-accent-foreground"
+                : "hover:bg-muted text-foreground"
+            }`}
+          >
+            Moderation
+          </button>
+          <button
+            onClick={() => setActiveTab("services")}
+            className={`px-4 py-2 rounded-lg font-medium transition ${
+              activeTab === "services"
+                ? "bg-accent text-accent-foreground"
+                : "hover:bg-muted text-foreground"
+            }`}
+          >
+            Services
+          </button>
+          <button
+            onClick={() => setActiveTab("coverage")}
+            className={`px-4 py-2 rounded-lg font-medium transition ${
+              activeTab === "coverage"
+                ? "bg-accent text-accent-foreground"
+                : "hover:bg-muted text-foreground"
+            }`}
+          >
+            Coverage
+          </button>
           <button
             onClick={() => setActiveTab("logs")}
             className={`px-4 py-2 rounded-lg font-medium transition ${
@@ -183,8 +259,79 @@ export default function AdminControls() {
               ))
             )}
           </div>
+        ) : activeTab === "moderation" ? (
+          <ModerationQueue search={searchUser} />
+        ) : activeTab === "services" ? (
+          <ServiceTaxonomyManager search={searchUser} />
+        ) : activeTab === "coverage" ? (
+          <CoverageRegionsManager search={searchUser} />
+        ) : activeTab === "usage" ? (
+          <div className="space-y-4">
+            {filteredUsage.length === 0 ? (
+              <div className="text-center py-12">
+                <Activity className="h-12 w-12 text-muted-foreground mx-auto mb-4 opacity-50" />
+                <p className="text-muted-foreground">No usage in the last 24 hours</p>
+              </div>
+            ) : (
+              filteredUsage.map((entry) => (
+                <Card key={entry.user_id} className={entry.blocked ? "border-l-4 border-l-destructive" : ""}>
+                  <CardContent className="pt-6">
+                    <div className="flex items-center justify-between gap-4 mb-4">
+                      <h3 className="font-semibold">
+                        {entry.profile?.company_name || entry.user_id}
+                        {entry.profile?.role && (
+                          <span className="ml-2 text-xs text-muted-foreground capitalize">{entry.profile.role}</span>
+                        )}
+                      </h3>
+                      {entry.blocked && (
+                        <span className="text-xs font-medium text-destructive">Blocked</span>
+                      )}
+                    </div>
+                    <div className="grid gap-3 sm:grid-cols-3">
+                      {entry.counters.map((counter) => {
+                        const percent = Math.min(100, Math.round((counter.used / (counter.limit || 1)) * 100));
+                        return (
+                          <div key={counter.metric} className="space-y-1">
+                            <div className="flex justify-between text-xs">
+                              <span className="text-muted-foreground capitalize">{counter.label}</span>
+                              <span className={counter.used >= counter.limit ? "text-destructive font-semibold" : ""}>
+                                {counter.used} / {counter.limit}
+                              </span>
+                            </div>
+                            <div className="h-2 rounded-full bg-muted overflow-hidden">
+                              <div
+                                className={`h-full ${percent >= 100 ? "bg-destructive" : "bg-accent"}`}
+                                style={{ width: `${percent}%` }}
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
         ) : (
           <div className="space-y-3">
+            <div className="flex flex-wrap gap-3">
+              <Input
+                placeholder="Action (e.g. project.deleted)"
+                defaultValue={logFilters.action}
+                onBlur={(e) => updateLogFilter("action", e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && updateLogFilter("action", e.currentTarget.value)}
+                className="max-w-xs"
+              />
+              <Input
+                placeholder="Entity type (e.g. project, bid)"
+                defaultValue={logFilters.entityType}
+                onBlur={(e) => updateLogFilter("entityType", e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && updateLogFilter("entityType", e.currentTarget.value)}
+                className="max-w-xs"
+              />
+            </div>
+
             {filteredLogs.length === 0 ? (
               <div className="text-center py-12">
                 <Eye className="h-12 w-12 text-muted-foreground mx-auto mb-4 opacity-50" />
@@ -197,21 +344,27 @@ export default function AdminControls() {
                     <div className="flex items-start justify-between gap-4">
                       <div className="flex-1 min-w-0">
                         <p className="font-semibold text-sm">
-                          <span className="text-accent capitalize">{log.action}</span>{" "}
+                          <span className="text-accent">{log.action}</span>{" "}
                           <span className="text-muted-foreground">
-                            {log.entity_type}
+                            {log.entity_id}
                           </span>
                         </p>
                         <p className="text-sm text-muted-foreground mt-1">
-                          {log.user?.name} ({log.user?.email})
+                          {log.actor_name || "Unknown"} ({log.actor_email || log.actor_id || "anonymous"})
+                          {log.actor_role && <span className="capitalize"> · {log.actor_role}</span>}
                         </p>
-                        {log.description && (
-                          <p className="text-xs text-muted-foreground mt-1">
-                            {log.description}
-                          </p>
+                        {Object.keys(log.changes || {}).length > 0 && (
+                          <ul className="text-xs text-muted-foreground mt-2 space-y-0.5">
+                            {Object.entries(log.changes).map(([field, change]) => (
+                              <li key={field} className="truncate">
+                                <span className="font-medium">{field}</span>: {formatAuditValue(change.from)} → {formatAuditValue(change.to)}
+                              </li>
+                            ))}
+                          </ul>
                         )}
                         <p className="text-xs text-muted-foreground/60 mt-2">
                           {new Date(log.created_at).toLocaleString()}
+                          {log.request_id && <> · request {log.request_id}</>}
                         </p>
                       </div>
                       <div className="text-xs bg-muted px-2 py-1 rounded whitespace-nowrap flex-shrink-0">
@@ -222,6 +375,32 @@ export default function AdminControls() {
                 </Card>
               ))
             )}
+
+            {logPagination && logPagination.totalPages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <p className="text-sm text-muted-foreground">
+                  Page {logPagination.page} of {logPagination.totalPages} ({logPagination.total} entries)
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={logPage <= 1}
+                    onClick={() => setLogPage((page) => page - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={logPage >= logPagination.totalPages}
+                    onClick={() => setLogPage((page) => page + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -7,6 +7,7 @@ import { useNavigate } from 'react-router-dom';
 import { getErrorMessage } from '@/lib/utils';
 import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
+import { apiFetch } from '@/lib/api-client';
 
 interface Metrics {
   total_businesses: number;
@@ -76,11 +77,7 @@ export default function AdminDashboard() {
         setLoading(true);
 
         // Fetch metrics via Admin API to bypass RLS recursion
-        const response = await fetch("/api/admin/stats", {
-          headers: {
-            "Authorization": `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
-          }
-        });
+        const response = await apiFetch("/api/admin/stats");
 
         const result = await response.json();
 
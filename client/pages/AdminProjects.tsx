@@ -6,6 +6,7 @@ import { AlertCircle, Loader2, FileText, Search, Filter, DollarSign, MapPin, Cal
 import { supabase } from "@/lib/supabase";
 import { getErrorMessage } from "@/lib/utils";
 import { toast } from "sonner";
+import { apiFetch } from "@/lib/api-client";
 
 interface Project {
   id: string;
@@ -60,11 +61,7 @@ export default function AdminProjects() {
         setLoading(true);
 
         // Fetch projects via Admin API to bypass RLS recursion
-        const response = await fetch("/api/admin/projects", {
-          headers: {
-            "Authorization": `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
-          }
-        });
+        const response = await apiFetch("/api/admin/projects");
 
         const result = await response.json();
 
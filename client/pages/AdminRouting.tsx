@@ -1,18 +1,29 @@
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useState, useEffect } from "react";
-import { Search, Calendar, Filter, ArrowLeft } from "lucide-react";
+import { Search, Calendar, Filter, ArrowLeft, Layers, RefreshCw } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/lib/supabase";
 import { getErrorMessage } from "@/lib/utils";
 import { toast } from "sonner";
+import { apiFetch } from "@/lib/api-client";
+import { RoutingSimulator } from "@/components/RoutingSimulator";
+import { RoutingOverrides } from "@/components/RoutingOverrides";
+import { revokeRouting } from "@/lib/admin-controls-service";
 
 interface Routing {
   id: string;
   project_id: string;
   vendor_id: string;
   routed_at: string;
-  status: "routed" | "viewed" | "interested" | "bid_submitted";
+  status: "routed" | "viewed" | "interested" | "bid_submitted" | "revoked";
+  wave?: number | null;
+  score?: number | null;
+  reasons?: RoutingReason[];
+  source?: "auto" | "manual";
+  override_reason?: string | null;
+  revoked_at?: string | null;
+  revoke_reason?: string | null;
   projects?: {
     id: string;
     title: string;
@@ -24,78 +35,159 @@ interface Routing {
   };
 }
 
+interface RoutingReason {
+  signal: string;
+  weight: number;
+  value: number;
+  points: number;
+  detail: string;
+}
+
+interface RoutingWave {
+  id: string;
+  project_id: string;
+  wave_number: number;
+  radius_multiplier: number;
+  relaxed: string[];
+  vendor_ids: string[];
+  window_ends_at: string;
+  status: "active" | "expanded" | "satisfied" | "exhausted" | "closed";
+  bids_at_close: number | null;
+  projects?: {
+    id: string;
+    title: string;
+    status: string;
+  };
+}
+
+const waveStatusColors: Record<string, string> = {
+  active: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200",
+  expanded: "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-200",
+  satisfied: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200",
+  exhausted: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200",
+  closed: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+};
+
 export default function AdminRouting() {
   const navigate = useNavigate();
   const [search, setSearch] = useState("");
   const [filterStatus, setFilterStatus] = useState<string>("all");
   const [routings, setRoutings] = useState<Routing[]>([]);
   const [loading, setLoading] = useState(true);
+  const [waves, setWaves] = useState<RoutingWave[]>([]);
+  const [checkingWaves, setCheckingWaves] = useState(false);
+  const [expandedRouting, setExpandedRouting] = useState<string | null>(null);
 
   const statusColors: Record<string, string> = {
     routed: "bg-blue-100 text-blue-700 dark:bg-blue-900 dark:text-blue-200",
     viewed: "bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-200",
     interested: "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-200",
     bid_submitted: "bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200",
+    revoked: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200",
   };
 
   useEffect(() => {
-    const fetchRoutings = async () => {
-      try {
-        setLoading(true);
+    fetchRoutings();
+    fetchWaves();
+  }, []);
 
-        // Fetch project_routing data via Admin API to bypass RLS recursion
-        const response = await fetch("/api/admin/routings", {
-          headers: {
-            "Authorization": `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
-          }
-        });
+  const fetchRoutings = async () => {
+    try {
+      setLoading(true);
 
-        const result = await response.json();
+      // Fetch project_routing data via Admin API to bypass RLS recursion
+      const response = await apiFetch("/api/admin/routings");
 
-        if (!result.success) {
-          throw result.error || "Failed to load routings";
-        }
+      const result = await response.json();
+
+      if (!result.success) {
+        throw result.error || "Failed to load routings";
+      }
+
+      const data = result.data;
+
+      // Get unique vendor IDs
+      const vendorIds = [...new Set(data?.map((r: any) => r.vendor_id) || [])];
 
-        const data = result.data;
-
-        // Get unique vendor IDs
-        const vendorIds = [...new Set(data?.map((r: any) => r.vendor_id) || [])];
-
-        // Fetch vendor profiles
-        let vendorProfiles: Record<string, any> = {};
-        if (vendorIds.length > 0) {
-          const { data: profiles, error: profileError } = await supabase
-            .from("profiles")
-            .select("user_id, company_name, contact_email")
-            .in("user_id", vendorIds);
-
-          if (profileError) {
-            console.error("Error fetching profiles:", getErrorMessage(profileError));
-          } else if (profiles) {
-            vendorProfiles = profiles.reduce((acc: Record<string, any>, profile) => {
-              acc[profile.user_id] = profile;
-              return acc;
-            }, {});
-          }
+      // Fetch vendor profiles
+      let vendorProfiles: Record<string, any> = {};
+      if (vendorIds.length > 0) {
+        const { data: profiles, error: profileError } = await supabase
+          .from("profiles")
+          .select("user_id, company_name, contact_email")
+          .in("user_id", vendorIds);
+
+        if (profileError) {
+          console.error("Error fetching profiles:", getErrorMessage(profileError));
+        } else if (profiles) {
+          vendorProfiles = profiles.reduce((acc: Record<string, any>, profile) => {
+            acc[profile.user_id] = profile;
+            return acc;
+          }, {});
         }
+      }
+
+      // Combine the data
+      const routingsWithProfiles = data?.map((routing: any) => ({
+        ...routing,
+        profiles: vendorProfiles[routing.vendor_id] || { company_name: "Unknown Vendor", contact_email: "N/A" }
+      })) || [];
+
+      setRoutings(routingsWithProfiles);
+    } catch (error) {
+      console.error("Error fetching routings:", getErrorMessage(error));
+      toast.error(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
 
-        // Combine the data
-        const routingsWithProfiles = data?.map((routing: any) => ({
-          ...routing,
-          profiles: vendorProfiles[routing.vendor_id] || { company_name: "Unknown Vendor", contact_email: "N/A" }
-        })) || [];
-
-        setRoutings(routingsWithProfiles);
-      } catch (error) {
-        console.error("Error fetching routings:", getErrorMessage(error));
-        toast.error(getErrorMessage(error));
-      } finally {
-        setLoading(false);
+  const fetchWaves = async () => {
+    try {
+      const response = await apiFetch("/api/admin/routing/waves");
+      const result = await response.json();
+
+      if (!result.success) {
+        throw result.error || "Failed to load routing waves";
       }
-    };
 
-    fetchRoutings();
-  }, []);
+      setWaves(result.data || []);
+    } catch (error) {
+      console.error("Error fetching routing waves:", getErrorMessage(error));
+    }
+  };
+
+  const handleRunWaveCheck = async () => {
+    try {
+      setCheckingWaves(true);
+      const response = await apiFetch("/api/routing/waves/run", { method: "POST" });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw result.error || "Failed to run wave check";
+      }
+
+      toast.success(`Checked ${result.checked} waves: ${result.expanded} expanded, ${result.closed} closed`);
+      fetchWaves();
+    } catch (error) {
+      toast.error(getErrorMessage(error));
+    } finally {
+      setCheckingWaves(false);
+    }
+  };
+
+  const handleRevoke = async (routing: Routing) => {
+    const reason = window.prompt(`Why is this lead being revoked from ${routing.profiles?.company_name || "this vendor"}?`);
+    if (!reason) return;
+
+    const result = await revokeRouting(routing.id, reason);
+    if (result.success) {
+      toast.success("Lead revoked");
+      fetchRoutings();
+    } else {
+      toast.error(result.error);
+    }
+  };
 
   const filteredRoutings = routings.filter((routing) => {
     const matchesSearch =
@@ -221,11 +313,77 @@ export default function AdminRouting() {
                 <option value="viewed">Viewed</option>
                 <option value="interested">Interested</option>
                 <option value="bid_submitted">Bid Submitted</option>
+                <option value="revoked">Revoked</option>
               </select>
             </div>
           </div>
         </div>
 
+        <RoutingSimulator />
+
+        <RoutingOverrides onRoutingAdded={fetchRoutings} />
+
+        {/* Routing Waves */}
+        <div className="bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden mb-8">
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Layers className="w-5 h-5 text-slate-600 dark:text-slate-400" />
+              <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+                Routing Waves ({waves.length})
+              </h2>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleRunWaveCheck} disabled={checkingWaves} className="gap-2">
+              <RefreshCw className={`w-4 h-4 ${checkingWaves ? "animate-spin" : ""}`} />
+              Run wave check
+            </Button>
+          </div>
+          <div className="p-6">
+            {waves.length === 0 ? (
+              <p className="text-center text-slate-500 dark:text-slate-400 py-6">No routing waves yet</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-200 dark:border-slate-700">
+                      <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Project</th>
+                      <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Wave</th>
+                      <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Vendors</th>
+                      <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Radius</th>
+                      <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Relaxed</th>
+                      <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Window Ends</th>
+                      <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {waves.map((wave) => (
+                      <tr key={wave.id} className="border-b border-slate-100 dark:border-slate-800">
+                        <td className="py-3 px-4 font-medium text-slate-900 dark:text-white">
+                          {wave.projects?.title || "Unknown Project"}
+                        </td>
+                        <td className="py-3 px-4 text-slate-700 dark:text-slate-300">#{wave.wave_number}</td>
+                        <td className="py-3 px-4 text-slate-700 dark:text-slate-300">{wave.vendor_ids.length}</td>
+                        <td className="py-3 px-4 text-slate-700 dark:text-slate-300">×{wave.radius_multiplier}</td>
+                        <td className="py-3 px-4 text-slate-600 dark:text-slate-400 text-xs">
+                          {wave.relaxed.length > 0 ? wave.relaxed.join(", ").replace(/_/g, " ") : "—"}
+                        </td>
+                        <td className="py-3 px-4 text-slate-600 dark:text-slate-400 text-xs">
+                          {formatDate(wave.window_ends_at)}
+                        </td>
+                        <td className="py-3 px-4">
+                          <span className={`px-3 py-1 rounded-full text-xs font-medium ${waveStatusColors[wave.status] || waveStatusColors.closed}`}>
+                            {wave.status}
+                            {wave.bids_at_close !== null && ` (${wave.bids_at_close} bids)`}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Routings Table */}
         <div className="bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
           <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
@@ -262,9 +420,16 @@ export default function AdminRouting() {
                       <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">
                         Status
                       </th>
+                      <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">
+                        Wave
+                      </th>
+                      <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">
+                        Score
+                      </th>
                       <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300">
                         Routed Date
                       </th>
+                      <th className="text-left py-3 px-4 font-semibold text-slate-700 dark:text-slate-300"></th>
                     </tr>
                   </thead>
                   <tbody>
@@ -303,6 +468,44 @@ export default function AdminRouting() {
                           >
                             {routing.status.replace("_", " ")}
                           </span>
+                          {routing.source === "manual" && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300">
+                              manual
+                            </span>
+                          )}
+                          {(routing.revoke_reason || routing.override_reason) && (
+                            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                              {routing.revoke_reason || routing.override_reason}
+                            </p>
+                          )}
+                        </td>
+                        <td className="py-4 px-4 text-slate-600 dark:text-slate-400 text-xs">
+                          {routing.wave ? `#${routing.wave}` : "—"}
+                        </td>
+                        <td className="py-4 px-4 text-xs">
+                          {routing.score === null || routing.score === undefined ? (
+                            <span className="text-slate-400">—</span>
+                          ) : (
+                            <button
+                              onClick={() => setExpandedRouting(expandedRouting === routing.id ? null : routing.id)}
+                              className="text-left"
+                            >
+                              <span className="font-semibold text-slate-900 dark:text-white">{routing.score}</span>
+                              <span className="ml-2 text-blue-600 dark:text-blue-400 hover:underline">
+                                {expandedRouting === routing.id ? "hide" : "why?"}
+                              </span>
+                            </button>
+                          )}
+                          {expandedRouting === routing.id && (
+                            <ul className="mt-2 space-y-1 text-slate-600 dark:text-slate-400">
+                              {(routing.reasons || []).map((reason) => (
+                                <li key={reason.signal}>
+                                  <span className="font-medium capitalize">{reason.signal.replace(/_/g, " ")}</span>:{" "}
+                                  {reason.points} pts — {reason.detail}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                         </td>
                         <td className="py-4 px-4">
                           <div className="flex items-center gap-1 text-slate-600 dark:text-slate-400 text-xs">
@@ -310,6 +513,13 @@ export default function AdminRouting() {
                             {formatDate(routing.routed_at)}
                           </div>
                         </td>
+                        <td className="py-4 px-4">
+                          {routing.status !== "revoked" && (
+                            <Button variant="ghost" size="sm" onClick={() => handleRevoke(routing)} className="text-red-600">
+                              Revoke
+                            </Button>
+                          )}
+                        </td>
                       </tr>
                     ))}
                   </tbody>
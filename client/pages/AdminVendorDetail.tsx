@@ -8,6 +8,7 @@ import { getErrorMessage } from '@/lib/utils';
 import { toast } from 'sonner';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { ImagePreviewDialog } from '@/components/ImagePreviewDialog';
+import { updateProfileAccess } from '@/lib/admin-service';
 
 interface VendorProfile {
   id: string;
@@ -129,12 +130,7 @@ export default function AdminVendorDetail() {
 
     try {
       setUpdating(true);
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ is_approved: true })
-        .eq('id', vendor.id);
-
-      if (updateError) throw updateError;
+      await updateProfileAccess(vendor.user_id, { is_approved: true });
 
       setVendor({ ...vendor, is_approved: true });
       toast.success('Employee approved successfully');
@@ -152,12 +148,7 @@ export default function AdminVendorDetail() {
 
     try {
       setUpdating(true);
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({ is_approved: false })
-        .eq('id', vendor.id);
-
-      if (updateError) throw updateError;
+      await updateProfileAccess(vendor.user_id, { is_approved: false });
 
       setVendor({ ...vendor, is_approved: false });
       toast.success('Employee rejected');
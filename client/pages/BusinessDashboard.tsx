@@ -7,6 +7,7 @@ import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
 import { getErrorMessage } from '@/lib/utils';
+import { apiFetch } from '@/lib/api-client';
 
 interface Project {
   id: string;
@@ -53,11 +54,7 @@ export default function BusinessDashboard() {
         setLoading(true);
 
         // Fetch projects via server-side API to bypass RLS recursion
-        const response = await fetch('/api/projects/business', {
-          headers: {
-            'x-user-id': user.id
-          }
-        });
+        const response = await apiFetch('/api/projects/business');
         const result = await response.json();
 
         if (!result.success) {
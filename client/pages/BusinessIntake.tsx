@@ -17,6 +17,7 @@ import { useAuth } from '@/lib/auth-context';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { getErrorMessage } from '@/lib/utils';
+import { apiFetch } from '@/lib/api-client';
 
 interface Message {
   id: string;
@@ -126,7 +127,7 @@ export default function BusinessIntake() {
 
     try {
       // Call AI to get response
-      const response = await fetch('/api/ai-intake', {
+      const response = await apiFetch('/api/ai-intake', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -318,11 +319,10 @@ export default function BusinessIntake() {
     setSubmitting(true);
     try {
       // Create project via server API to bypass RLS recursion
-      const response = await fetch('/api/projects/create', {
+      const response = await apiFetch('/api/projects/create', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': user.id,
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           title: projectData.title || 'Untitled Project',
@@ -9,6 +9,7 @@ import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { ImagePreviewDialog } from '@/components/ImagePreviewDialog';
+import { apiFetch } from '@/lib/api-client';
 
 interface VendorProfile {
   id: string;
@@ -135,11 +136,7 @@ export default function BusinessVendorDetail() {
         // Fetch my projects
         if (user) {
           try {
-            const response = await fetch('/api/projects/business', {
-              headers: {
-                'x-user-id': user.id
-              }
-            });
+            const response = await apiFetch('/api/projects/business');
             const result = await response.json();
 
             if (result.success) {
@@ -173,7 +170,7 @@ export default function BusinessVendorDetail() {
     try {
       setInviting(true);
 
-      const response = await fetch('/api/projects/upsert-routing', {
+      const response = await apiFetch('/api/projects/upsert-routing', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
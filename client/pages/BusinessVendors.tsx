@@ -10,6 +10,7 @@ import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { ImagePreviewDialog } from '@/components/ImagePreviewDialog';
+import { apiFetch } from '@/lib/api-client';
 
 interface Vendor {
   id: string;
@@ -63,11 +64,7 @@ export default function BusinessVendors() {
         // Fetch my projects
         if (user) {
           try {
-            const response = await fetch('/api/projects/business', {
-              headers: {
-                'x-user-id': user.id
-              }
-            });
+            const response = await apiFetch('/api/projects/business');
             const result = await response.json();
 
             if (result.success) {
@@ -110,7 +107,7 @@ export default function BusinessVendors() {
       setInviting(true);
 
       // Invite vendor via server-side API to bypass RLS recursion
-      const response = await fetch('/api/projects/upsert-routing', {
+      const response = await apiFetch('/api/projects/upsert-routing', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
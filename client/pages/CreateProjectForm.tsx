@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
@@ -8,6 +8,8 @@ import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { getErrorMessage, cn } from '@/lib/utils';
 import { motion } from 'framer-motion';
+import { apiFetch } from '@/lib/api-client';
+import { ServiceCategoryOption, getServiceCategories } from '@/lib/service-categories-service';
 
 interface FormData {
   title: string;
@@ -22,21 +24,10 @@ interface FormData {
   project_zip: string;
   business_size: string;
   special_requirements: string;
+  bids_close_at: string;
+  bid_mode: 'open' | 'sealed';
 }
 
-const SERVICE_CATEGORIES = [
-  'Payroll Services',
-  'Accounting Services',
-  'Legal Services',
-  'IT Services',
-  'Consulting',
-  'Marketing Services',
-  'Construction',
-  'Cleaning Services',
-  'HVAC',
-  'Electrical',
-];
-
 const STATES = [
   { code: 'AL', name: 'Alabama' },
   { code: 'AK', name: 'Alaska' },
@@ -94,6 +85,7 @@ export default function CreateProjectForm() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
+  const [serviceCategories, setServiceCategories] = useState<ServiceCategoryOption[]>([]);
   const [formData, setFormData] = useState<FormData>({
     title: '',
     service_category: '',
@@ -107,8 +99,16 @@ export default function CreateProjectForm() {
     project_zip: '',
     business_size: '',
     special_requirements: '',
+    bids_close_at: '',
+    bid_mode: 'open',
   });
 
+  useEffect(() => {
+    getServiceCategories()
+      .then(setServiceCategories)
+      .catch((error) => toast.error(getErrorMessage(error)));
+  }, []);
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -149,16 +149,18 @@ export default function CreateProjectForm() {
         project_zip: formData.project_zip || '',
         business_size: formData.business_size || '',
         special_requirements: formData.special_requirements || '',
+        // datetime-local is in the browser's time zone; send an absolute instant
+        bids_close_at: formData.bids_close_at ? new Date(formData.bids_close_at).toISOString() : undefined,
+        bid_mode: formData.bid_mode,
       };
 
       console.log('Attempting to create project with data:', projectData);
 
       // Call server API to create project
-      const response = await fetch('/api/projects/create', {
+      const response = await apiFetch('/api/projects/create', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': user.id,
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify(projectData),
       });
@@ -171,7 +173,10 @@ export default function CreateProjectForm() {
 
           // Format error message
           if (typeof errorData === 'object' && errorData !== null) {
-            if (errorData.error && typeof errorData.error === 'string') {
+            const fieldMessage = errorData.fieldErrors && Object.values(errorData.fieldErrors)[0];
+            if (typeof fieldMessage === 'string') {
+              errorMessage = fieldMessage;
+            } else if (errorData.error && typeof errorData.error === 'string') {
               errorMessage = errorData.error;
             } else if (errorData.message && typeof errorData.message === 'string') {
               errorMessage = errorData.message;
@@ -323,8 +328,8 @@ export default function CreateProjectForm() {
                         required
                       >
                         <option value="">Select Domain...</option>
-                        {SERVICE_CATEGORIES.map(category => (
-                          <option key={category} value={category}>{category}</option>
+                        {serviceCategories.map(category => (
+                          <option key={category.id} value={category.name}>{category.label}</option>
                         ))}
                       </select>
                       <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">
@@ -414,6 +419,39 @@ export default function CreateProjectForm() {
                         />
                       </div>
                     </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                          Bids Close At
+                        </label>
+                        <Input
+                          type="datetime-local"
+                          name="bids_close_at"
+                          value={formData.bids_close_at}
+                          onChange={handleChange}
+                          className="h-12 bg-white dark:bg-slate-800 border-slate-100 dark:border-slate-700 focus:ring-4 focus:ring-orange-500/5 rounded-xl text-xs font-bold uppercase"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                          Bidding Mode
+                        </label>
+                        <select
+                          name="bid_mode"
+                          value={formData.bid_mode}
+                          onChange={handleChange}
+                          className="w-full h-12 pl-4 pr-4 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 focus:ring-4 focus:ring-orange-500/5 rounded-xl text-xs font-bold dark:text-white"
+                        >
+                          <option value="open">Open — see bids as they arrive</option>
+                          <option value="sealed">Sealed — amounts hidden until close</option>
+                        </select>
+                      </div>
+                    </div>
+                    {formData.bid_mode === 'sealed' && (
+                      <p className="text-[10px] font-medium text-slate-400">
+                        Sealed bidding needs a closing time. You'll see bid amounts once bids close.
+                      </p>
+                    )}
                   </div>
 
                   {/* Location */}
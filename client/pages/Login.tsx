@@ -7,27 +7,58 @@ import { getErrorMessage, cn } from "@/lib/utils";
 import { AlertCircle, Mail, Lock, ArrowRight, Layers, Zap, CheckCircle2, Sparkles, ShieldCheck, Loader2 } from "lucide-react";
 import { Logo } from "@/components/Logo";
 import { motion } from "framer-motion";
+import { MfaCodeForm } from "@/components/MfaCodeForm";
+import { clearMfaToken, getMfaToken } from "@/lib/api-client";
+import { getMfaStatus, verifyMfa } from "@/lib/mfa-service";
+
+const dashboardPath = (role: "admin" | "business" | "vendor") =>
+  role === "admin" ? "/admin/dashboard" : role === "business" ? "/business/dashboard" : "/vendor/dashboard";
 
 export default function Login() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
-  const { signIn, user, userRole } = useAuth();
+  const [mfaRequired, setMfaRequired] = useState(false);
+  const { signIn, signOut, user, userRole } = useAuth();
   const navigate = useNavigate();
 
+  // Once signed in, users who enrolled in 2FA must enter a code before reaching their dashboard
   useEffect(() => {
-    if (user && userRole) {
-      if (userRole === "admin") {
-        navigate("/admin/dashboard", { replace: true });
-      } else if (userRole === "business") {
-        navigate("/business/dashboard", { replace: true });
-      } else if (userRole === "vendor") {
-        navigate("/vendor/dashboard", { replace: true });
+    if (!user || !userRole) return;
+    let cancelled = false;
+
+    const continueToDashboard = async () => {
+      const status = await getMfaStatus().catch(() => null);
+      if (cancelled) return;
+
+      if (status?.enabled && !getMfaToken()) {
+        setMfaRequired(true);
+        return;
       }
-    }
+
+      navigate(dashboardPath(userRole), { replace: true });
+    };
+
+    continueToDashboard();
+    return () => {
+      cancelled = true;
+    };
   }, [user, userRole, navigate]);
 
+  const handleVerifyMfa = async (input: { code?: string; recoveryCode?: string }) => {
+    await verifyMfa(input);
+    setMfaRequired(false);
+    if (userRole) {
+      navigate(dashboardPath(userRole), { replace: true });
+    }
+  };
+
+  const handleCancelMfa = async () => {
+    setMfaRequired(false);
+    await signOut();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -39,6 +70,7 @@ export default function Login() {
 
     try {
       setLoading(true);
+      clearMfaToken();
       await signIn(email, password);
     } catch (error) {
       console.error("Login error:", error);
@@ -154,8 +186,12 @@ export default function Login() {
                 <div className="absolute top-0 right-0 w-32 h-32 bg-blue-500/5 rounded-full -mr-16 -mt-16 blur-3xl" />
 
                 <div className="space-y-2">
-                  <h2 className="text-2xl font-black text-white uppercase tracking-tight leading-none">Sign In</h2>
-                  <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">Enter your credentials to continue</p>
+                  <h2 className="text-2xl font-black text-white uppercase tracking-tight leading-none">
+                    {mfaRequired ? "Verify It's You" : "Sign In"}
+                  </h2>
+                  <p className="text-xs font-bold text-slate-500 uppercase tracking-widest">
+                    {mfaRequired ? "Enter the code from your authenticator app" : "Enter your credentials to continue"}
+                  </p>
                 </div>
 
                 {/* Error Message */}
@@ -170,60 +206,73 @@ export default function Login() {
                   </motion.div>
                 )}
 
-                <form onSubmit={handleSubmit} className="space-y-6">
-                  {/* Email Field */}
-                  <div className="space-y-3">
-                    <label className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 ml-1">Email Address</label>
-                    <div className="relative group">
-                      <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-500 group-focus-within:text-blue-500 transition-colors" />
-                      <Input
-                        type="email"
-                        placeholder="you@company.com"
-                        value={email}
-                        onChange={(e) => setEmail(e.target.value)}
-                        disabled={loading}
-                        className="h-14 pl-12 bg-white/5 border-transparent focus:bg-white/10 focus:ring-4 focus:ring-blue-500/5 rounded-2xl text-white font-bold text-sm transition-all"
-                      />
-                    </div>
+                {mfaRequired ? (
+                  <div className="space-y-6 text-white">
+                    <MfaCodeForm onSubmit={handleVerifyMfa} submitLabel="Verify" />
+                    <button
+                      type="button"
+                      onClick={handleCancelMfa}
+                      className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-slate-300 transition-colors"
+                    >
+                      Use a different account
+                    </button>
                   </div>
-
-                  {/* Password Field */}
-                  <div className="space-y-3">
-                    <div className="flex items-center justify-between ml-1">
-                      <label className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Password</label>
-                      <Link to="#" className="text-[9px] font-black uppercase tracking-widest text-blue-500 hover:text-blue-400 transition-colors">
-                        Recovery
-                      </Link>
-                    </div>
-                    <div className="relative group">
-                      <Lock className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-500 group-focus-within:text-blue-500 transition-colors" />
-                      <Input
-                        type="password"
-                        placeholder="••••••••"
-                        value={password}
-                        onChange={(e) => setPassword(e.target.value)}
-                        disabled={loading}
-                        className="h-14 pl-12 bg-white/5 border-transparent focus:bg-white/10 focus:ring-4 focus:ring-blue-500/5 rounded-2xl text-white font-bold text-sm transition-all"
-                      />
+                ) : (
+                  <form onSubmit={handleSubmit} className="space-y-6">
+                    {/* Email Field */}
+                    <div className="space-y-3">
+                      <label className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 ml-1">Email Address</label>
+                      <div className="relative group">
+                        <Mail className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-500 group-focus-within:text-blue-500 transition-colors" />
+                        <Input
+                          type="email"
+                          placeholder="you@company.com"
+                          value={email}
+                          onChange={(e) => setEmail(e.target.value)}
+                          disabled={loading}
+                          className="h-14 pl-12 bg-white/5 border-transparent focus:bg-white/10 focus:ring-4 focus:ring-blue-500/5 rounded-2xl text-white font-bold text-sm transition-all"
+                        />
+                      </div>
                     </div>
-                  </div>
 
-                  {/* Submit Button */}
-                  <Button
-                    type="submit"
-                    disabled={loading}
-                    className="w-full h-14 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white text-[11px] font-black uppercase tracking-[0.2em] shadow-xl shadow-blue-500/20 transition-all active:scale-95"
-                  >
-                    {loading ? (
-                      <Loader2 className="h-5 w-5 animate-spin" />
-                    ) : (
-                      <div className="flex items-center gap-3">
-                        Launch Dashboard
-                        <ArrowRight className="h-4 w-4" />
+                    {/* Password Field */}
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between ml-1">
+                        <label className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500">Password</label>
+                        <Link to="#" className="text-[9px] font-black uppercase tracking-widest text-blue-500 hover:text-blue-400 transition-colors">
+                          Recovery
+                        </Link>
+                      </div>
+                      <div className="relative group">
+                        <Lock className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-500 group-focus-within:text-blue-500 transition-colors" />
+                        <Input
+                          type="password"
+                          placeholder="••••••••"
+                          value={password}
+                          onChange={(e) => setPassword(e.target.value)}
+                          disabled={loading}
+                          className="h-14 pl-12 bg-white/5 border-transparent focus:bg-white/10 focus:ring-4 focus:ring-blue-500/5 rounded-2xl text-white font-bold text-sm transition-all"
+                        />
                       </div>
-                    )}
-                  </Button>
-                </form>
+                    </div>
+
+                    {/* Submit Button */}
+                    <Button
+                      type="submit"
+                      disabled={loading}
+                      className="w-full h-14 rounded-2xl bg-blue-600 hover:bg-blue-700 text-white text-[11px] font-black uppercase tracking-[0.2em] shadow-xl shadow-blue-500/20 transition-all active:scale-95"
+                    >
+                      {loading ? (
+                        <Loader2 className="h-5 w-5 animate-spin" />
+                      ) : (
+                        <div className="flex items-center gap-3">
+                          Launch Dashboard
+                          <ArrowRight className="h-4 w-4" />
+                        </div>
+                      )}
+                    </Button>
+                  </form>
+                )}
 
                 <div className="pt-6 border-t border-white/5 space-y-4">
                   <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest">
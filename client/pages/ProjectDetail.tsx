@@ -2,7 +2,7 @@ import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { ArrowLeft, Edit2, Trash2, Loader2, AlertCircle, CheckCircle2, MessageSquare, Briefcase, TrendingUp, Clock, User, CheckCircle } from 'lucide-react';
+import { ArrowLeft, Edit2, Trash2, Loader2, AlertCircle, CheckCircle2, MessageSquare, Briefcase, TrendingUp, Clock, User, CheckCircle, Lock } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
@@ -10,6 +10,12 @@ import { getErrorMessage } from '@/lib/utils';
 import ProjectMessages from '@/components/ProjectMessages';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { ImagePreviewDialog } from '@/components/ImagePreviewDialog';
+import { apiFetch } from '@/lib/api-client';
+import { BidPricingBreakdown } from '@/components/BidPricing';
+import { BidRevisionHistory } from '@/components/BidRevisionHistory';
+import { ProjectQuestions } from '@/components/ProjectQuestions';
+import { AmendProjectForm, ProjectAmendmentHistory } from '@/components/ProjectAmendments';
+import { BidLineItem, bidLineItems } from '@shared/bid-pricing';
 
 interface Project {
   id: string;
@@ -30,12 +36,24 @@ interface Project {
   created_at: string;
   updated_at: string;
   published_at: string;
+  bids_close_at?: string | null;
+  bid_mode?: 'open' | 'sealed';
+  bids_closed_at?: string | null;
+  revision?: number;
+  amended_at?: string | null;
 }
 
 interface Bid {
   id: string;
   vendor_id: string;
   bid_amount: number;
+  line_items?: BidLineItem[];
+  revision_count?: number;
+  revised_at?: string | null;
+  // Set while the project's bids are sealed; the pricing fields come back empty
+  sealed?: boolean;
+  // Made before the latest amendment and not yet confirmed or revised by the vendor
+  needs_confirmation?: boolean;
   proposed_timeline: string;
   response_notes: string;
   status: string;
@@ -58,6 +76,8 @@ export default function ProjectDetail() {
   const [deleting, setDeleting] = useState(false);
   const [approving, setApproving] = useState(false);
   const [assigning, setAssigning] = useState<string | null>(null);
+  const [historyBidId, setHistoryBidId] = useState<string | null>(null);
+  const [amending, setAmending] = useState(false);
 
   useEffect(() => {
     if (!user || !projectId) {
@@ -70,11 +90,7 @@ export default function ProjectDetail() {
         setLoading(true);
 
         // Fetch project via server API to bypass RLS recursion
-        const response = await fetch(`/api/projects/${projectId}`, {
-          headers: {
-            'x-user-id': user.id
-          }
-        });
+        const response = await apiFetch(`/api/projects/${projectId}`);
 
         const result = await response.json();
 
@@ -110,11 +126,10 @@ export default function ProjectDetail() {
       setAssigning(vendorId);
 
       // Assign vendor via server API to bypass RLS recursion
-      const response = await fetch('/api/projects/assign-vendor', {
+      const response = await apiFetch('/api/projects/assign-vendor', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': user.id
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           projectId: project.id,
@@ -146,11 +161,10 @@ export default function ProjectDetail() {
 
     setApproving(true);
     try {
-      const response = await fetch('/api/projects/vendor-update-status', {
+      const response = await apiFetch('/api/projects/vendor-update-status', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': user?.id || ''
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           projectId: project.id,
@@ -182,11 +196,8 @@ export default function ProjectDetail() {
     setDeleting(true);
     try {
       // Delete project via server API to bypass RLS recursion
-      const response = await fetch(`/api/projects/${project.id}`, {
-        method: 'DELETE',
-        headers: {
-          'x-user-id': user?.id || ''
-        }
+      const response = await apiFetch(`/api/projects/${project.id}`, {
+        method: 'DELETE'
       });
 
       const result = await response.json();
@@ -303,7 +314,14 @@ export default function ProjectDetail() {
                   )}
                 </Button>
               )}
-              <Button variant="outline" size="sm" className="font-bold text-xs uppercase tracking-widest border-slate-200 dark:border-slate-800" disabled>
+              <Button
+                variant="outline"
+                size="sm"
+                className="font-bold text-xs uppercase tracking-widest border-slate-200 dark:border-slate-800"
+                onClick={() => setAmending(!amending)}
+                disabled={project.status !== 'open'}
+                title={project.status === 'open' ? 'Amend the published project' : 'Only projects open for bidding can be amended'}
+              >
                 <Edit2 className="h-3.5 w-3.5 mr-2" />
                 Edit
               </Button>
@@ -333,6 +351,24 @@ export default function ProjectDetail() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-8">
+            {amending && (
+              <section className="space-y-4">
+                <div className="flex items-center gap-2 mb-2">
+                  <div className="h-1.5 w-1.5 rounded-full bg-amber-500" />
+                  <h2 className="text-xs font-bold uppercase tracking-[0.2em] text-slate-500">Amend Project</h2>
+                </div>
+                <AmendProjectForm
+                  project={project}
+                  onCancel={() => setAmending(false)}
+                  onAmended={(updated) => {
+                    setProject({ ...project, ...updated });
+                    setBids(bids.map((bid) => (bid.status === 'withdrawn' ? bid : { ...bid, needs_confirmation: true })));
+                    setAmending(false);
+                  }}
+                />
+              </section>
+            )}
+
             {/* Description Section */}
             <section className="space-y-4">
               <div className="flex items-center gap-2 mb-2">
@@ -350,6 +386,12 @@ export default function ProjectDetail() {
                   </div>
                 )}
               </Card>
+              {(project.revision || 1) > 1 && (
+                <div className="pt-2">
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-3">Amendments</p>
+                  <ProjectAmendmentHistory projectId={project.id} refreshKey={project.revision} />
+                </div>
+              )}
             </section>
 
             {/* Bids Received */}
@@ -385,6 +427,7 @@ export default function ProjectDetail() {
                 <div className="space-y-4">
                   {bids.map((bid) => {
                     const isSelected = project.selected_vendor_id === bid.vendor_id;
+                    const closesAt = project.bids_close_at ? new Date(project.bids_close_at).toLocaleString() : null;
                     return (
                       <Card key={bid.id} className={`p-0 overflow-hidden transition-all duration-300 hover:shadow-xl border-slate-200 dark:border-slate-800 ${isSelected ? 'ring-2 ring-blue-600 shadow-blue-500/10' : ''}`}>
                         <div className="p-6 lg:p-8">
@@ -407,6 +450,23 @@ export default function ProjectDetail() {
                                         Selected
                                       </span>
                                     )}
+                                    {bid.needs_confirmation && (
+                                      <span
+                                        title="Bid placed before your latest amendment; waiting for the vendor to confirm or revise it"
+                                        className="px-2.5 py-0.5 bg-orange-50 text-orange-700 border border-orange-200 rounded text-[10px] font-black uppercase tracking-widest"
+                                      >
+                                        Needs Confirmation
+                                      </span>
+                                    )}
+                                    {(bid.revision_count || 1) > 1 && !bid.sealed && (
+                                      <button
+                                        onClick={() => setHistoryBidId(historyBidId === bid.id ? null : bid.id)}
+                                        title={bid.revised_at ? `Last revised ${new Date(bid.revised_at).toLocaleString()}` : undefined}
+                                        className="px-2.5 py-0.5 bg-amber-50 text-amber-700 border border-amber-200 rounded text-[10px] font-black uppercase tracking-widest"
+                                      >
+                                        Revised ×{(bid.revision_count || 1) - 1}
+                                      </button>
+                                    )}
                                   </div>
                                   <p className="text-xs text-slate-400 mt-1 font-medium">{bid.vendor_profile?.contact_email}</p>
                                 </div>
@@ -416,24 +476,36 @@ export default function ProjectDetail() {
                                 "{bid.response_notes || "No notes provided with this bid."}"
                               </p>
 
-                              <div className="flex items-center gap-8 pt-2">
-                                <div>
-                                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Investment</p>
-                                  <p className="font-black text-xl text-blue-600 tracking-tighter mt-1">${bid.bid_amount.toLocaleString()}</p>
-                                </div>
-                                <div className="h-8 w-px bg-slate-100 dark:bg-slate-800" />
-                                <div>
-                                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Proposed Time</p>
-                                  <p className="font-bold text-sm text-slate-700 dark:text-slate-300 mt-1">{bid.proposed_timeline}</p>
+                              <div className="max-w-md pt-2">
+                                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Pricing</p>
+                                {bid.sealed ? (
+                                  <div className="flex items-center gap-2 text-xs font-bold text-slate-500 bg-slate-50 dark:bg-slate-800 px-3 py-2 rounded-lg">
+                                    <Lock className="h-3.5 w-3.5" />
+                                    Sealed until {closesAt}
+                                  </div>
+                                ) : (
+                                  <BidPricingBreakdown items={bidLineItems(bid)} />
+                                )}
+                              </div>
+                              {historyBidId === bid.id && (
+                                <div className="max-w-md pt-2">
+                                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">Changes Between Versions</p>
+                                  <BidRevisionHistory projectId={project.id} bidId={bid.id} />
                                 </div>
+                              )}
+                              <div>
+                                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Proposed Time</p>
+                                <p className="font-bold text-sm text-slate-700 dark:text-slate-300 mt-1">{bid.proposed_timeline}</p>
                               </div>
                             </div>
 
                             <div className="lg:text-right">
-                              {!project.selected_vendor_id ? (
+                              {bid.sealed ? (
+                                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Opens {closesAt}</p>
+                              ) : !project.selected_vendor_id ? (
                                 <Button
                                   onClick={() => handleAssignVendor(bid.vendor_id, bid.id)}
-                                  disabled={!!assigning}
+                                  disabled={!!assigning || bid.needs_confirmation}
                                   className="w-full lg:w-auto bg-slate-900 dark:bg-white text-white dark:text-slate-900 hover:bg-slate-800 font-bold uppercase text-[10px] tracking-[0.2em] px-8 h-12 shadow-xl"
                                 >
                                   {assigning === bid.vendor_id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Accept Proposal'}
@@ -454,6 +526,20 @@ export default function ProjectDetail() {
               )}
             </section>
 
+            {/* Clarification Q&A */}
+            {project.status !== 'draft' && (
+              <section className="pt-12 space-y-6">
+                <div className="flex items-center gap-2">
+                  <div className="h-1.5 w-1.5 rounded-full bg-blue-500" />
+                  <h2 className="text-xs font-bold uppercase tracking-[0.2em] text-slate-500">Vendor Questions</h2>
+                </div>
+                <p className="text-xs text-slate-400">
+                  Vendors ask anonymously. Each answer is shared with every vendor on the project unless you answer privately.
+                </p>
+                <ProjectQuestions projectId={project.id} canAnswer />
+              </section>
+            )}
+
             {/* Messaging System */}
             {(project.selected_vendor_id || userRole === 'admin') && (
               <section className="pt-12 space-y-6">
@@ -515,6 +601,21 @@ export default function ProjectDetail() {
                   )}
                 </div>
 
+                {/* Bidding */}
+                {project.bids_close_at && (
+                  <div className="relative z-10">
+                    <div className="flex items-center gap-2 mb-3">
+                      <Lock className="h-3.5 w-3.5 text-violet-500" />
+                      <h3 className="text-[10px] font-black uppercase text-slate-400 tracking-[0.2em]">
+                        {project.bid_mode === 'sealed' ? 'Sealed Bidding' : 'Open Bidding'}
+                      </h3>
+                    </div>
+                    <p className="font-bold text-xs text-slate-700 dark:text-slate-300">
+                      {new Date(project.bids_close_at) <= new Date() ? 'Closed' : 'Closes'} {new Date(project.bids_close_at).toLocaleString()}
+                    </p>
+                  </div>
+                )}
+
                 {/* Location */}
                 <div className="relative z-10">
                   <div className="flex items-center gap-2 mb-3">
@@ -1,7 +1,7 @@
 import { DashboardLayout } from "@/components/DashboardLayout";
 import { Card, CardContent } from "@/components/ui/card";
 import { useState, useEffect } from "react";
-import { Lock, Download, AlertTriangle, CheckCircle2, Eye, EyeOff } from "lucide-react";
+import { Lock, Download, AlertTriangle, CheckCircle2, Eye, EyeOff, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/lib/auth-context";
 import {
@@ -12,6 +12,15 @@ import {
   requestAccountDeletion,
 } from "@/lib/compliance-service";
 import { exportToJSON } from "@/lib/analytics-service";
+import {
+  startMfaEnrollment,
+  confirmMfaEnrollment,
+  disableMfa,
+  regenerateRecoveryCodes,
+} from "@/lib/mfa-service";
+import { MfaCodeForm } from "@/components/MfaCodeForm";
+import { getErrorMessage } from "@/lib/utils";
+import { toast } from "sonner";
 
 interface PrivacySettings {
   emailNotifications: boolean;
@@ -40,6 +49,10 @@ export default function SecuritySettings() {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteReason, setDeleteReason] = useState("");
   const [deletionRequested, setDeletionRequested] = useState(false);
+  const [mfaEnrollment, setMfaEnrollment] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [disablingMfa, setDisablingMfa] = useState(false);
+  const [startingMfa, setStartingMfa] = useState(false);
 
   useEffect(() => {
     loadData();
@@ -106,6 +119,41 @@ export default function SecuritySettings() {
     setDeleting(false);
   };
 
+  const handleStartMfa = async () => {
+    setStartingMfa(true);
+    try {
+      setMfaEnrollment(await startMfaEnrollment());
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setStartingMfa(false);
+    }
+  };
+
+  const handleConfirmMfa = async ({ code }: { code?: string }) => {
+    const codes = await confirmMfaEnrollment(code || "");
+    setRecoveryCodes(codes);
+    setMfaEnrollment(null);
+    setSettings((prev) => (prev ? { ...prev, twoFactorEnabled: true } : prev));
+    toast.success("Two-factor authentication enabled");
+  };
+
+  const handleDisableMfa = async (input: { code?: string; recoveryCode?: string }) => {
+    await disableMfa(input);
+    setDisablingMfa(false);
+    setRecoveryCodes(null);
+    setSettings((prev) => (prev ? { ...prev, twoFactorEnabled: false } : prev));
+    toast.success("Two-factor authentication disabled");
+  };
+
+  const handleRegenerateCodes = async () => {
+    try {
+      setRecoveryCodes(await regenerateRecoveryCodes());
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    }
+  };
+
   const toggleSetting = (key: keyof PrivacySettings) => {
     if (settings) {
       handleSettingChange(key, !settings[key]);
@@ -284,7 +332,7 @@ export default function SecuritySettings() {
           <div className="border-b border-border p-6">
             <h2 className="text-lg font-semibold">Two-Factor Authentication</h2>
           </div>
-          <CardContent className="pt-6">
+          <CardContent className="pt-6 space-y-6">
             <div className="flex items-center gap-4">
               <div className="flex-1">
                 <p className="font-medium">Secure your account with 2FA</p>
@@ -292,10 +340,81 @@ export default function SecuritySettings() {
                   Add an extra layer of security to your account using an authenticator app
                 </p>
               </div>
-              <Button disabled variant="outline" className="whitespace-nowrap">
-                {settings?.twoFactorEnabled ? "✓ Enabled" : "Enable 2FA"}
-              </Button>
+              {settings?.twoFactorEnabled ? (
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={handleRegenerateCodes} className="whitespace-nowrap">
+                    New recovery codes
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setDisablingMfa(!disablingMfa)}
+                    className="whitespace-nowrap"
+                  >
+                    {disablingMfa ? "Cancel" : "Disable 2FA"}
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  onClick={handleStartMfa}
+                  disabled={startingMfa || !!mfaEnrollment}
+                  className="whitespace-nowrap"
+                >
+                  Enable 2FA
+                </Button>
+              )}
             </div>
+
+            {/* Enrollment: add the secret to an authenticator app, then confirm a code */}
+            {mfaEnrollment && (
+              <div className="rounded-lg border border-border p-4 space-y-4">
+                <div className="space-y-2 text-sm">
+                  <p className="font-medium">1. Add Sharkbid to your authenticator app</p>
+                  <p className="text-muted-foreground">
+                    On your phone,{" "}
+                    <a href={mfaEnrollment.otpauthUri} className="text-accent underline">
+                      open this setup link
+                    </a>
+                    , or enter this key manually:
+                  </p>
+                  <code className="block rounded bg-muted px-3 py-2 font-mono text-sm break-all">
+                    {mfaEnrollment.secret.match(/.{1,4}/g)?.join(" ")}
+                  </code>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">2. Enter the 6-digit code it shows</p>
+                  <MfaCodeForm onSubmit={handleConfirmMfa} submitLabel="Turn on 2FA" allowRecoveryCode={false} />
+                </div>
+              </div>
+            )}
+
+            {disablingMfa && (
+              <div className="rounded-lg border border-destructive/30 p-4 space-y-2">
+                <p className="text-sm font-medium">Enter a code to turn off two-factor authentication</p>
+                <MfaCodeForm onSubmit={handleDisableMfa} submitLabel="Disable 2FA" />
+              </div>
+            )}
+
+            {/* Recovery codes are only ever shown once */}
+            {recoveryCodes && (
+              <div className="rounded-lg border border-accent/40 bg-accent/5 p-4 space-y-3">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <ShieldCheck className="h-4 w-4" />
+                  Save your recovery codes
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Each code works once if you lose access to your authenticator app. They won't be shown again.
+                </p>
+                <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                  {recoveryCodes.map((code) => (
+                    <span key={code}>{code}</span>
+                  ))}
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+                  I've saved them
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
 
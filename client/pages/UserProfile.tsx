@@ -5,11 +5,13 @@ import { Button } from "@/components/ui/button";
 import { useState, useEffect } from "react";
 import { User, Mail, Shield, Calendar } from "lucide-react";
 import { useAuth } from "@/lib/auth-context";
-import { supabase } from "@/lib/supabase";
+import { apiFetch } from "@/lib/api-client";
+import { getErrorMessage } from "@/lib/utils";
 
 interface UserProfileData {
   id: string;
   name?: string;
+  contact_phone?: string;
   email: string;
   role: "admin" | "client" | "creator" | "business" | "vendor";
   avatar_url?: string;
@@ -22,7 +24,10 @@ export default function UserProfile() {
   const [loading, setLoading] = useState(true);
   const [editing, setEditing] = useState(false);
   const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
   const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
     loadProfile();
@@ -33,24 +38,24 @@ export default function UserProfile() {
 
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from("user_profiles")
-        .select("*")
-        .eq("id", user.id)
-        .single();
+      const response = await apiFetch("/api/profiles/me");
+      const result = await response.json();
 
-      if (error) throw error;
+      if (!result.success) throw new Error(result.error || "Failed to load profile");
 
+      const data = result.data;
       if (data) {
         setProfile({
           id: data.id,
-          name: data.name,
-          email: data.email,
+          name: data.company_name,
+          contact_phone: data.contact_phone,
+          email: data.contact_email || user.email || "",
           role: data.role,
           avatar_url: data.avatar_url,
           created_at: data.created_at,
         });
-        setName(data.name || "");
+        setName(data.company_name || "");
+        setPhone(data.contact_phone || "");
       }
     } catch (error) {
       console.error("Error loading profile:", error);
@@ -64,19 +69,30 @@ export default function UserProfile() {
 
     try {
       setSaving(true);
-      const { error } = await supabase
-        .from("user_profiles")
-        .update({ name })
-        .eq("id", user.id);
+      setSaveError(null);
+      setFieldErrors({});
 
-      if (error) throw error;
+      const response = await apiFetch("/api/profiles/update", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ company_name: name, contact_phone: phone }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        if (result.fieldErrors) {
+          setFieldErrors(result.fieldErrors);
+        }
+        throw new Error(result.error || "Failed to save profile");
+      }
 
       setProfile(
-        profile ? { ...profile, name } : null
+        profile ? { ...profile, name, contact_phone: phone } : null
       );
       setEditing(false);
     } catch (error) {
       console.error("Error saving profile:", error);
+      setSaveError(getErrorMessage(error));
     } finally {
       setSaving(false);
     }
@@ -136,14 +152,19 @@ export default function UserProfile() {
           <CardContent className="space-y-6">
             {/* Name Section */}
             <div className="space-y-2">
-              <label className="text-sm font-medium">Full Name</label>
+              <label className="text-sm font-medium">Name</label>
               {editing ? (
-                <Input
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  placeholder="Enter your name"
-                  className="max-w-sm"
-                />
+                <>
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Enter your name"
+                    className="max-w-sm"
+                  />
+                  {fieldErrors.company_name && (
+                    <p className="text-xs text-destructive">{fieldErrors.company_name}</p>
+                  )}
+                </>
               ) : (
                 <p className="text-foreground">
                   {profile?.name || "Not provided"}
@@ -151,6 +172,28 @@ export default function UserProfile() {
               )}
             </div>
 
+            {/* Phone Section */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Phone</label>
+              {editing ? (
+                <>
+                  <Input
+                    value={phone}
+                    onChange={(e) => setPhone(e.target.value)}
+                    placeholder="(555) 123-4567"
+                    className="max-w-sm"
+                  />
+                  {fieldErrors.contact_phone && (
+                    <p className="text-xs text-destructive">{fieldErrors.contact_phone}</p>
+                  )}
+                </>
+              ) : (
+                <p className="text-foreground">
+                  {profile?.contact_phone || "Not provided"}
+                </p>
+              )}
+            </div>
+
             {/* Email Section */}
             <div className="space-y-2">
               <label className="text-sm font-medium flex items-center gap-2">
@@ -197,6 +240,10 @@ export default function UserProfile() {
               </div>
             )}
 
+            {saveError && (
+              <p className="text-sm text-destructive">{saveError}</p>
+            )}
+
             {/* Actions */}
             <div className="flex gap-2 pt-4 border-t">
               {editing ? (
@@ -212,6 +259,9 @@ export default function UserProfile() {
                     onClick={() => {
                       setEditing(false);
                       setName(profile?.name || "");
+                      setPhone(profile?.contact_phone || "");
+                      setSaveError(null);
+                      setFieldErrors({});
                     }}
                     variant="outline"
                   >
@@ -8,6 +8,7 @@ import { supabase } from '@/lib/supabase';
 import { getErrorMessage } from '@/lib/utils';
 import { useAuth } from '@/lib/auth-context';
 import { toast } from 'sonner';
+import { apiFetch } from '@/lib/api-client';
 
 interface Project {
   id: string;
@@ -45,11 +46,7 @@ export default function VendorAvailableProjects() {
         if (!user) return;
 
         // Fetch unrouted projects via server-side API to bypass RLS recursion
-        const response = await fetch('/api/projects/unrouted', {
-          headers: {
-            'x-vendor-id': user.id
-          }
-        });
+        const response = await apiFetch('/api/projects/unrouted');
         const result = await response.json();
 
         if (!result.success) {
@@ -97,7 +94,7 @@ export default function VendorAvailableProjects() {
       setRequestingId(projectId);
 
       // Request to bid via server-side API to bypass RLS recursion
-      const response = await fetch('/api/projects/upsert-routing', {
+      const response = await apiFetch('/api/projects/upsert-routing', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -8,6 +8,7 @@ import { useAuth } from '@/lib/auth-context';
 import { getErrorMessage } from '@/lib/utils';
 import { toast } from 'sonner';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { apiFetch } from '@/lib/api-client';
 
 interface Lead {
   id: string;
@@ -20,6 +21,7 @@ interface Lead {
   project_state: string;
   created_at: string;
   routed_at?: string;
+  distance_miles?: number | null;
   status: string;
   selected_vendor_id?: string;
   bid_status?: 'not_bid' | 'submitted' | 'accepted' | 'bid_submitted' | 'bid_accepted' | 'declined' | 'withdrawn';
@@ -70,7 +72,7 @@ export default function VendorDashboard() {
           const controller = new AbortController();
           const id = setTimeout(() => controller.abort(), 10000); // 10s timeout
           try {
-            const response = await fetch(url, { ...options, signal: controller.signal });
+            const response = await apiFetch(url, { ...options, signal: controller.signal });
             clearTimeout(id);
             if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
             return await response.json();
@@ -84,9 +86,7 @@ export default function VendorDashboard() {
         const fetchProfile = async () => {
           try {
             // Use server-side API to bypass RLS recursion
-            const response = await fetch('/api/profiles/me', {
-              headers: { 'x-user-id': user.id }
-            });
+            const response = await apiFetch('/api/profiles/me');
             const result = await response.json();
 
             if (result.success && result.data) {
@@ -123,9 +123,9 @@ export default function VendorDashboard() {
         });
 
         const [bidsResult, assignedResult, leadsResult] = await Promise.all([
-          fetchWithTimeout('/api/projects/vendor-bids', { headers: { 'x-vendor-id': user.id } }),
-          fetchWithTimeout('/api/projects/vendor', { headers: { 'x-user-id': user.id } }),
-          fetchWithTimeout('/api/projects/routed', { headers: { 'x-user-id': user.id } })
+          fetchWithTimeout('/api/projects/vendor-bids'),
+          fetchWithTimeout('/api/projects/vendor'),
+          fetchWithTimeout('/api/projects/routed')
         ]).catch(err => {
           console.error("Parallel fetch error:", err);
           throw new Error("One or more requests failed. Please refresh.");
@@ -146,6 +146,7 @@ export default function VendorDashboard() {
               allProjectsMap.set(item.projects.id, {
                 ...item.projects,
                 routed_at: item.routed_at,
+                distance_miles: item.distance_miles,
                 bid_status: bidMap.get(item.projects.id) || 'not_bid',
               });
             }
@@ -454,6 +455,9 @@ export default function VendorDashboard() {
                           <div>
                             <p className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Location</p>
                             <p className="font-bold text-slate-900 dark:text-white mt-1">{lead.project_state} {lead.project_zip}</p>
+                            {lead.distance_miles != null && (
+                              <p className="text-xs text-slate-500 dark:text-slate-400">{Math.round(lead.distance_miles)} mi away</p>
+                            )}
                           </div>
                           <div>
                             <p className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">Posted</p>
@@ -3,12 +3,19 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card } from '@/components/ui/card';
-import { AlertCircle, Loader2, ArrowLeft, Send, CheckCircle2, MessageSquare, User } from 'lucide-react';
+import { AlertCircle, Loader2, ArrowLeft, Send, CheckCircle2, MessageSquare, User, Sparkles, Clock } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/lib/auth-context';
 import { getErrorMessage } from '@/lib/utils';
 import { toast } from 'sonner';
 import ProjectMessages from '@/components/ProjectMessages';
+import { apiFetch } from '@/lib/api-client';
+import { BidLineItemsEditor, BidPricingBreakdown, EMPTY_LINE_ITEM } from '@/components/BidPricing';
+import { BidRevisionHistory } from '@/components/BidRevisionHistory';
+import { ProjectQuestions } from '@/components/ProjectQuestions';
+import { ProjectAmendmentHistory } from '@/components/ProjectAmendments';
+import { confirmBid } from '@/lib/project-amendments-service';
+import { BidLineItem, bidLineItems } from '@shared/bid-pricing';
 
 interface Project {
   id: string;
@@ -27,11 +34,20 @@ interface Project {
   status: string;
   selected_vendor_id?: string;
   created_at: string;
+  // Main reasons the lead was routed to this vendor
+  routing_explanation?: string[];
+  bids_close_at?: string | null;
+  bid_mode?: 'open' | 'sealed';
+  revision?: number;
 }
 
 interface ExistingBid {
   id: string;
   bid_amount: number;
+  line_items?: BidLineItem[];
+  revision_count?: number;
+  // The project was amended after this bid; the vendor confirms it as-is or revises it
+  needs_confirmation?: boolean;
   proposed_timeline: string;
   response_notes: string;
   status: string;
@@ -56,10 +72,12 @@ export default function VendorLeadDetail() {
   const [showBidForm, setShowBidForm] = useState(false);
 
   // Form state
-  const [bidAmount, setBidAmount] = useState('');
+  const [lineItems, setLineItems] = useState<BidLineItem[]>([EMPTY_LINE_ITEM]);
   const [proposedTimeline, setProposedTimeline] = useState('');
   const [responseNotes, setResponseNotes] = useState('');
+  const [changeNote, setChangeNote] = useState('');
   const [updatingStatus, setUpdatingStatus] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
 
   useEffect(() => {
     if (!projectId || !user) return;
@@ -69,11 +87,7 @@ export default function VendorLeadDetail() {
         setLoading(true);
 
         // Fetch project via server-side API to bypass RLS recursion
-        const response = await fetch(`/api/projects/${projectId}`, {
-          headers: {
-            'x-user-id': user.id
-          }
-        });
+        const response = await apiFetch(`/api/projects/${projectId}`);
 
         const result = await response.json();
 
@@ -96,18 +110,14 @@ export default function VendorLeadDetail() {
         }
 
         // Check for existing bid via server-side API to bypass RLS recursion
-        const bidsResponse = await fetch('/api/projects/vendor-bids', {
-          headers: {
-            'x-vendor-id': user.id
-          }
-        });
+        const bidsResponse = await apiFetch('/api/projects/vendor-bids');
         const bidsResult = await bidsResponse.json();
 
         if (bidsResult.success) {
           const bidData = bidsResult.data.find((b: any) => b.project_id === projectId);
           if (bidData) {
             setExistingBid(bidData);
-            setBidAmount(bidData.bid_amount.toString());
+            setLineItems(bidLineItems(bidData));
             setProposedTimeline(bidData.proposed_timeline || '');
             setResponseNotes(bidData.response_notes || '');
           }
@@ -115,11 +125,7 @@ export default function VendorLeadDetail() {
 
         // Check for existing messages
         try {
-          const msgsResponse = await fetch(`/api/projects/${projectId}/messages`, {
-            headers: {
-              'x-user-id': user.id
-            }
-          });
+          const msgsResponse = await apiFetch(`/api/projects/${projectId}/messages`);
 
           if (msgsResponse.ok) {
             const msgsResult = await msgsResponse.json();
@@ -146,7 +152,7 @@ export default function VendorLeadDetail() {
   const handleSubmitBid = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!bidAmount || !proposedTimeline) {
+    if (!lineItems.some(item => !item.optional && item.description.trim() && item.unit_price > 0) || !proposedTimeline) {
       setError('Please fill in all required fields');
       return;
     }
@@ -158,17 +164,17 @@ export default function VendorLeadDetail() {
 
     try {
       // Submit bid via server-side API to bypass RLS recursion
-      const response = await fetch('/api/projects/submit-bid', {
+      const response = await apiFetch('/api/projects/submit-bid', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           projectId,
-          vendorId: user.id,
-          bidAmount: parseFloat(bidAmount),
+          lineItems,
           proposedTimeline,
           responseNotes,
+          changeNote: existingBid ? changeNote : undefined,
           bidId: existingBid?.id
         })
       });
@@ -176,10 +182,11 @@ export default function VendorLeadDetail() {
       const result = await response.json();
 
       if (!result.success) {
-        throw result.error || 'Failed to submit bid';
+        throw result.fieldErrors?.lineItems || Object.values(result.fieldErrors || {})[0] || result.error || 'Failed to submit bid';
       }
 
       setShowBidForm(false);
+      setChangeNote('');
       setExistingBid(result.data);
       toast.success(existingBid ? 'Bid updated successfully' : 'Bid submitted successfully');
     } catch (err) {
@@ -191,6 +198,20 @@ export default function VendorLeadDetail() {
     }
   };
 
+  const handleConfirmBid = async () => {
+    if (!existingBid || !projectId) return;
+
+    setConfirming(true);
+    try {
+      setExistingBid(await confirmBid(projectId, existingBid.id));
+      toast.success('Bid confirmed against the amended project');
+    } catch (err) {
+      toast.error(getErrorMessage(err));
+    } finally {
+      setConfirming(false);
+    }
+  };
+
   const handleStatusUpdate = async (action: 'decline' | 'complete') => {
     if (!project || !user || !projectId) return;
 
@@ -202,11 +223,10 @@ export default function VendorLeadDetail() {
 
     setUpdatingStatus(action);
     try {
-      const response = await fetch('/api/projects/vendor-update-status', {
+      const response = await apiFetch('/api/projects/vendor-update-status', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': user.id
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           projectId,
@@ -260,6 +280,9 @@ export default function VendorLeadDetail() {
     );
   }
 
+  // The server refuses bids and revisions after the deadline; hide the forms to match
+  const bidsClosed = !!project.bids_close_at && new Date(project.bids_close_at) <= new Date();
+
   return (
     <div className="min-h-screen bg-slate-50/50 dark:bg-slate-950">
       {/* Header */}
@@ -362,6 +385,26 @@ export default function VendorLeadDetail() {
               </div>
             </section>
 
+            {/* Why You Got This Lead */}
+            {project.routing_explanation && project.routing_explanation.length > 0 && (
+              <section className="space-y-4 pt-4">
+                <div className="flex items-center gap-2">
+                  <div className="h-1.5 w-1.5 rounded-full bg-amber-500" />
+                  <h2 className="text-xs font-bold uppercase tracking-[0.2em] text-slate-500">Why You Got This Lead</h2>
+                </div>
+                <Card className="p-6 border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 shadow-sm">
+                  <ul className="space-y-2">
+                    {project.routing_explanation.map((reason) => (
+                      <li key={reason} className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300">
+                        <Sparkles className="h-4 w-4 text-amber-500 shrink-0" />
+                        {reason}
+                      </li>
+                    ))}
+                  </ul>
+                </Card>
+              </section>
+            )}
+
             {/* Additional Intel */}
             {(project.special_requirements || project.business_size) && (
               <section className="space-y-4 pt-4">
@@ -391,6 +434,29 @@ export default function VendorLeadDetail() {
               </section>
             )}
 
+            {/* Amendments since publishing */}
+            {(project.revision || 1) > 1 && (
+              <section className="space-y-4 pt-4">
+                <div className="flex items-center gap-2">
+                  <div className="h-1.5 w-1.5 rounded-full bg-orange-500" />
+                  <h2 className="text-xs font-bold uppercase tracking-[0.2em] text-slate-500">Project Amendments</h2>
+                </div>
+                <ProjectAmendmentHistory projectId={project.id} refreshKey={project.revision} />
+              </section>
+            )}
+
+            {/* Clarification Q&A */}
+            <section className="pt-4 space-y-4">
+              <div className="flex items-center gap-2">
+                <div className="h-1.5 w-1.5 rounded-full bg-blue-500" />
+                <h2 className="text-xs font-bold uppercase tracking-[0.2em] text-slate-500">Questions & Answers</h2>
+              </div>
+              <p className="text-xs text-slate-400">
+                Ask scoping questions here instead of in messages. Questions are anonymous, and answers are shared with every vendor on this lead.
+              </p>
+              <ProjectQuestions projectId={project.id} canAsk={['open', 'in_review'].includes(project.status)} />
+            </section>
+
             {/* Messaging System */}
             {(existingBid || project.selected_vendor_id === user.id || hasMessages) && (
               <section className="pt-12 space-y-6">
@@ -427,6 +493,19 @@ export default function VendorLeadDetail() {
 
               {/* Status Section */}
               <Card className="p-8 border-slate-200 dark:border-slate-800 shadow-xl bg-white dark:bg-slate-900">
+                {project.bids_close_at && (
+                  <div className="mb-6 flex items-start gap-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700">
+                    <Clock className="h-4 w-4 text-orange-500 shrink-0 mt-0.5" />
+                    <div>
+                      <p className="text-[10px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">
+                        {bidsClosed ? 'Bidding closed' : 'Bids close'} {new Date(project.bids_close_at).toLocaleString()}
+                      </p>
+                      {project.bid_mode === 'sealed' && (
+                        <p className="text-[10px] text-slate-400 mt-0.5">Sealed bidding: the business sees amounts only after bids close.</p>
+                      )}
+                    </div>
+                  </div>
+                )}
                 {existingBid ? (
                   <div className="space-y-8">
                     <div className="flex items-center justify-between">
@@ -439,10 +518,25 @@ export default function VendorLeadDetail() {
                       </span>
                     </div>
 
+                    {existingBid.needs_confirmation && !bidsClosed && (
+                      <div className="p-4 rounded-xl bg-orange-50 border border-orange-100 space-y-3">
+                        <p className="text-xs font-bold text-orange-800">
+                          The business amended this project after you bid. Confirm your bid still stands, or refine it for the new scope.
+                        </p>
+                        <Button
+                          onClick={handleConfirmBid}
+                          disabled={confirming}
+                          className="w-full bg-orange-600 hover:bg-orange-700 text-white font-black uppercase text-[10px] tracking-widest h-10"
+                        >
+                          {confirming ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Confirm Bid As-Is'}
+                        </Button>
+                      </div>
+                    )}
+
                     <div className="space-y-6">
                       <div>
-                        <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest mb-2">Submitted Amount</p>
-                        <p className="text-4xl font-black text-slate-900 dark:text-white tracking-tighter">${existingBid.bid_amount.toLocaleString()}</p>
+                        <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest mb-2">Submitted Pricing</p>
+                        <BidPricingBreakdown items={bidLineItems(existingBid)} />
                       </div>
 
                       <div className="grid grid-cols-1 gap-6">
@@ -456,18 +550,24 @@ export default function VendorLeadDetail() {
                             <p className="text-xs text-slate-500 italic leading-relaxed">"{existingBid.response_notes}"</p>
                           </div>
                         )}
+                        <div>
+                          <p className="text-[10px] text-slate-400 uppercase font-black tracking-widest mb-2">Revision History</p>
+                          <BidRevisionHistory projectId={project.id} bidId={existingBid.id} refreshKey={existingBid.revision_count} />
+                        </div>
                       </div>
 
                       <div className="pt-6 border-t border-slate-100 dark:border-slate-800 flex flex-col gap-3">
                         {project.status !== 'completed' && (
                           <>
-                            <Button
-                              onClick={() => setShowBidForm(!showBidForm)}
-                              variant="outline"
-                              className="w-full font-black uppercase text-[10px] tracking-widest h-11 border-slate-200"
-                            >
-                              {showBidForm ? 'Discard Changes' : 'Refine Proposal'}
-                            </Button>
+                            {!bidsClosed && (
+                              <Button
+                                onClick={() => setShowBidForm(!showBidForm)}
+                                variant="outline"
+                                className="w-full font-black uppercase text-[10px] tracking-widest h-11 border-slate-200"
+                              >
+                                {showBidForm ? 'Discard Changes' : 'Refine Proposal'}
+                              </Button>
+                            )}
 
                             {project.selected_vendor_id !== user.id && (
                               <Button
@@ -485,18 +585,12 @@ export default function VendorLeadDetail() {
                       </div>
                     </div>
 
-                    {showBidForm && (
+                    {showBidForm && !bidsClosed && (
                       <form onSubmit={handleSubmitBid} className="pt-8 border-t border-slate-100 dark:border-slate-800 space-y-5 animate-in fade-in slide-in-from-top-4 duration-300">
                         <div className="space-y-4">
                           <div>
-                            <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest ml-1 mb-2 block">New Amount ($)</label>
-                            <Input
-                              type="number"
-                              placeholder="0.00"
-                              value={bidAmount}
-                              onChange={(e) => setBidAmount(e.target.value)}
-                              className="h-12 font-bold focus-visible:ring-blue-500/20 border-slate-200"
-                            />
+                            <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest ml-1 mb-2 block">Pricing</label>
+                            <BidLineItemsEditor items={lineItems} onChange={setLineItems} />
                           </div>
                           <div>
                             <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest ml-1 mb-2 block">New Timeline</label>
@@ -507,13 +601,33 @@ export default function VendorLeadDetail() {
                               className="h-12 font-bold focus-visible:ring-blue-500/20 border-slate-200"
                             />
                           </div>
+                          <div>
+                            <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest ml-1 mb-2 block">What Changed? *</label>
+                            <Input
+                              placeholder="e.g., Added onboarding, reduced the retainer"
+                              value={changeNote}
+                              onChange={(e) => setChangeNote(e.target.value)}
+                              className="h-12 font-bold focus-visible:ring-blue-500/20 border-slate-200"
+                            />
+                          </div>
                         </div>
-                        <Button type="submit" disabled={submitting} className="w-full bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-black uppercase text-[10px] tracking-widest h-12 shadow-xl">
+                        {error && (
+                          <div className="p-3 bg-rose-50 border border-rose-100 rounded-xl flex gap-2">
+                            <AlertCircle className="h-4 w-4 text-rose-600 flex-shrink-0 mt-0.5" />
+                            <p className="text-[10px] font-bold text-rose-600 uppercase tracking-tight">{error}</p>
+                          </div>
+                        )}
+                        <Button type="submit" disabled={submitting || !changeNote.trim()} className="w-full bg-slate-900 dark:bg-white text-white dark:text-slate-900 font-black uppercase text-[10px] tracking-widest h-12 shadow-xl">
                           {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Update Proposal'}
                         </Button>
                       </form>
                     )}
                   </div>
+                ) : bidsClosed ? (
+                  <div className="text-center py-4">
+                    <h3 className="text-sm font-black uppercase tracking-widest text-slate-900 dark:text-white mb-2 leading-none">Bidding Closed</h3>
+                    <p className="text-xs text-slate-400 font-medium leading-relaxed">This project no longer accepts proposals.</p>
+                  </div>
                 ) : (
                   <div className="space-y-6">
                     <div>
@@ -524,15 +638,8 @@ export default function VendorLeadDetail() {
                     <form onSubmit={handleSubmitBid} className="space-y-5">
                       <div className="space-y-4">
                         <div>
-                          <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest ml-1 mb-2 block tracking-widest">Investment ($) *</label>
-                          <Input
-                            type="number"
-                            placeholder="Enter your fee"
-                            value={bidAmount}
-                            onChange={(e) => setBidAmount(e.target.value)}
-                            className="h-12 font-bold border-slate-200 shadow-sm"
-                            step="0.01"
-                          />
+                          <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest ml-1 mb-2 block tracking-widest">Pricing *</label>
+                          <BidLineItemsEditor items={lineItems} onChange={setLineItems} />
                         </div>
                         <div>
                           <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest ml-1 mb-2 block tracking-widest">Timeline *</label>
@@ -5,6 +5,7 @@ import { Card } from '@/components/ui/card';
 import { ArrowLeft, MessageSquare, Loader2, Inbox, Clock, CheckCircle2 } from 'lucide-react';
 import { useAuth } from '@/lib/auth-context';
 import { getErrorMessage } from '@/lib/utils';
+import { apiFetch } from '@/lib/api-client';
 
 interface Thread {
   id: string;
@@ -30,15 +31,11 @@ export default function VendorMessages() {
         setLoading(true);
 
         // Fetch all relevant threads for the vendor
-        const threadsResponse = await fetch('/api/projects/vendor-threads', {
-          headers: { 'x-user-id': user.id }
-        });
+        const threadsResponse = await apiFetch('/api/projects/vendor-threads');
         const threadsResult = await threadsResponse.json();
 
         // Still get bids to show status
-        const bidsResponse = await fetch('/api/projects/vendor-bids', {
-          headers: { 'x-vendor-id': user.id }
-        });
+        const bidsResponse = await apiFetch('/api/projects/vendor-bids');
         const bidsResult = await bidsResponse.json();
 
         if (threadsResult.success && bidsResult.success) {
@@ -19,6 +19,8 @@ import { useAuth } from '@/lib/auth-context';
 import { getErrorMessage } from '@/lib/utils';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { ImagePreviewDialog } from '@/components/ImagePreviewDialog';
+import { apiFetch } from '@/lib/api-client';
+import { ServiceCategoryOption, getServiceCategories } from '@/lib/service-categories-service';
 
 interface VendorProfile {
   company_name: string;
@@ -34,19 +36,42 @@ interface VendorProfile {
   certifications?: string[];
   vendor_services?: string[];
   vendor_coverage_areas?: string[];
+  vendor_service_radii?: ServiceRadius[];
+  vendor_weekly_lead_cap?: number | null;
+  vendor_min_budget?: number | string | null;
+  vendor_excluded_categories?: string[];
+  vendor_leads_paused_until?: string | null;
 }
 
-interface ServiceCategory {
-  id: string;
-  name: string;
+interface ServiceRadius {
+  base_zip: string;
+  radius_miles: number;
 }
 
 interface CoverageArea {
   id: string;
   state: string;
   region?: string;
+  // Rows from before regions had a kind are whole-state regions
+  kind?: 'state' | 'metro' | 'custom';
+  zip_codes?: string[];
+}
+
+interface CoverageRequest {
+  id: string;
+  state: string;
+  kind: 'metro' | 'custom';
+  name: string;
+  zip_codes: string[];
+  status: 'pending' | 'approved' | 'rejected';
+  review_note: string | null;
+  created_at: string;
 }
 
+const EMPTY_REGION_REQUEST = { kind: 'metro', state: '', name: '', zipCodes: '', note: '' };
+
+const isStateRegion = (area: CoverageArea) => (area.kind || 'state') === 'state';
+
 const US_STATES = [
   { id: 'AL', name: 'Alabama' },
   { id: 'AK', name: 'Alaska' },
@@ -107,6 +132,7 @@ export default function VendorProfile() {
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [success, setSuccess] = useState(false);
 
   const [profile, setProfile] = useState<VendorProfile>({
@@ -122,30 +148,44 @@ export default function VendorProfile() {
     certifications: [],
     vendor_services: [],
     vendor_coverage_areas: [],
+    vendor_service_radii: [],
+    vendor_weekly_lead_cap: null,
+    vendor_min_budget: null,
+    vendor_excluded_categories: [],
+    vendor_leads_paused_until: null,
     is_approved: false,
   });
 
-  const [services, setServices] = useState<ServiceCategory[]>([]);
+  const [services, setServices] = useState<ServiceCategoryOption[]>([]);
   const [selectedServices, setSelectedServices] = useState<string[]>([]);
   const [selectedStates, setSelectedStates] = useState<string[]>([]);
+  const [coverageAreas, setCoverageAreas] = useState<CoverageArea[]>([]);
+  const [selectedRegions, setSelectedRegions] = useState<string[]>([]);
+  const [coverageRequests, setCoverageRequests] = useState<CoverageRequest[]>([]);
+  const [regionRequest, setRegionRequest] = useState(EMPTY_REGION_REQUEST);
+  const [requestingRegion, setRequestingRegion] = useState(false);
   const [certInput, setCertInput] = useState('');
+  const [radiusZip, setRadiusZip] = useState('');
+  const [radiusMiles, setRadiusMiles] = useState(25);
 
   useEffect(() => {
     if (!user) return;
 
     const fetchData = async () => {
       try {
-        // Fetch service categories
-        const { data: categoriesData } = await supabase
-          .from('service_categories')
-          .select('id, name');
+        // Fetch the service taxonomy (a parent category also covers its subcategories in routing)
+        const categoriesData = await getServiceCategories().catch(() => []);
+
+        setServices(categoriesData.filter((c) => (c?.name || "").toLowerCase() !== "financial"));
 
-        setServices((categoriesData || []).filter((c: any) => (c?.name || "").toLowerCase() !== "financial"));
+        const { data: areas } = await supabase
+          .from('coverage_areas')
+          .select('*')
+          .order('state');
+        setCoverageAreas(areas || []);
 
         // Fetch vendor profile via server-side API to bypass RLS recursion
-        const response = await fetch('/api/profiles/me', {
-          headers: { 'x-user-id': user.id }
-        });
+        const response = await apiFetch('/api/profiles/me');
         const result = await response.json();
 
         if (result.success && result.data) {
@@ -155,19 +195,13 @@ export default function VendorProfile() {
           // vendor_services should contain service category IDs
           setSelectedServices(profileData.vendor_services || []);
 
-          // Convert coverage area UUIDs back to state abbreviations
-          if (profileData.vendor_coverage_areas && profileData.vendor_coverage_areas.length > 0) {
-            const { data: coverageData } = await supabase
-              .from('coverage_areas')
-              .select('state')
-              .in('id', profileData.vendor_coverage_areas);
-
-            const states = coverageData?.map(item => item.state) || [];
-            setSelectedStates(states);
-          } else {
-            setSelectedStates([]);
-          }
+          // Split the selected coverage areas into whole states and metro/custom regions
+          const selected = (areas as CoverageArea[]).filter(area => (profileData.vendor_coverage_areas || []).includes(area.id));
+          setSelectedStates(selected.filter(isStateRegion).map(area => area.state));
+          setSelectedRegions(selected.filter(area => !isStateRegion(area)).map(area => area.id));
         }
+
+        loadCoverageRequests();
       } catch (err) {
         const message = getErrorMessage(err || 'Failed to load profile');
         setError(message);
@@ -195,6 +229,89 @@ export default function VendorProfile() {
     );
   };
 
+  const handleRegionToggle = (regionId: string) => {
+    setSelectedRegions(prev =>
+      prev.includes(regionId)
+        ? prev.filter(id => id !== regionId)
+        : [...prev, regionId]
+    );
+  };
+
+  const loadCoverageRequests = async () => {
+    try {
+      const response = await apiFetch('/api/profiles/coverage-requests');
+      const result = await response.json();
+      if (result.success) setCoverageRequests(result.data || []);
+    } catch (err) {
+      console.error('Failed to load coverage requests:', getErrorMessage(err));
+    }
+  };
+
+  const handleRequestRegion = async () => {
+    setRequestingRegion(true);
+    try {
+      const response = await apiFetch('/api/profiles/coverage-requests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          kind: regionRequest.kind,
+          state: regionRequest.state,
+          name: regionRequest.name,
+          zipCodes: regionRequest.zipCodes.split(/[\s,;]+/).filter(Boolean),
+          note: regionRequest.note || undefined,
+        })
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        const fieldError = Object.values(result.fieldErrors || {})[0] as string | undefined;
+        throw new Error(fieldError || result.error || 'Failed to request region');
+      }
+
+      toast.success('Region requested. An admin will review it.');
+      setRegionRequest(EMPTY_REGION_REQUEST);
+      loadCoverageRequests();
+    } catch (err) {
+      toast.error(getErrorMessage(err || 'Failed to request region'));
+    } finally {
+      setRequestingRegion(false);
+    }
+  };
+
+  const handleAddServiceRadius = () => {
+    const baseZip = radiusZip.trim();
+    if (!/^\d{5}$/.test(baseZip) || radiusMiles < 1) return;
+    setProfile(prev => ({
+      ...prev,
+      vendor_service_radii: [
+        ...(prev.vendor_service_radii || []).filter(r => r.base_zip !== baseZip),
+        { base_zip: baseZip, radius_miles: radiusMiles },
+      ],
+    }));
+    setRadiusZip('');
+  };
+
+  const handleRemoveServiceRadius = (baseZip: string) => {
+    setProfile(prev => ({
+      ...prev,
+      vendor_service_radii: (prev.vendor_service_radii || []).filter(r => r.base_zip !== baseZip),
+    }));
+  };
+
+  const handleExcludedCategoryToggle = (serviceId: string) => {
+    setProfile(prev => {
+      const excluded = prev.vendor_excluded_categories || [];
+      return {
+        ...prev,
+        vendor_excluded_categories: excluded.includes(serviceId)
+          ? excluded.filter(id => id !== serviceId)
+          : [...excluded, serviceId],
+      };
+    });
+  };
+
   const handleAddCertification = () => {
     if (certInput.trim()) {
       setProfile(prev => ({
@@ -239,18 +356,18 @@ export default function VendorProfile() {
       setProfile(prev => ({ ...prev, avatar_url: publicUrl }));
 
       // Automatically save to database so it doesn't disappear on refresh/navigation
-      await fetch('/api/profiles/update', {
+      const response = await apiFetch('/api/profiles/update', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': user.id
+          'Content-Type': 'application/json'
         },
-        body: JSON.stringify({
-          ...profile,
-          avatar_url: publicUrl,
-          role: 'vendor'
-        })
+        body: JSON.stringify({ avatar_url: publicUrl })
       });
+      const result = await response.json();
+
+      if (!result.success) {
+        throw new Error(result.fieldErrors?.avatar_url || result.error || 'Failed to save avatar');
+      }
 
       toast.success('Avatar uploaded and saved successfully!');
     } catch (err) {
@@ -262,32 +379,29 @@ export default function VendorProfile() {
   };
 
   const handleSave = async () => {
-    if (!user || !profile.company_name || selectedServices.length === 0 || selectedStates.length === 0) {
+    if (!user || !profile.company_name || selectedServices.length === 0 || (selectedStates.length === 0 && selectedRegions.length === 0)) {
       setError('Please fill in all required fields');
       return;
     }
 
     setSaving(true);
     setError(null);
+    setFieldErrors({});
 
     try {
-      // Convert state abbreviations to coverage area UUIDs
-      const { data: coverageData } = await supabase
-        .from('coverage_areas')
-        .select('id')
-        .in('state', selectedStates);
-
-      const coverageAreaIds = coverageData?.map(item => item.id) || [];
+      // Whole-state regions for the selected states, plus the selected metro and custom regions
+      const coverageAreaIds = [
+        ...coverageAreas.filter(area => isStateRegion(area) && selectedStates.includes(area.state)).map(area => area.id),
+        ...selectedRegions,
+      ];
 
       // Update profile via server-side API to bypass RLS recursion
-      const response = await fetch('/api/profiles/update', {
+      const response = await apiFetch('/api/profiles/update', {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json',
-          'x-user-id': user.id
+          'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          role: 'vendor',
           company_name: profile.company_name,
           company_description: profile.company_description,
           contact_phone: profile.contact_phone,
@@ -298,15 +412,22 @@ export default function VendorProfile() {
           certifications: profile.certifications,
           vendor_services: selectedServices,
           vendor_coverage_areas: coverageAreaIds,
+          vendor_service_radii: profile.vendor_service_radii || [],
+          vendor_weekly_lead_cap: profile.vendor_weekly_lead_cap || null,
+          vendor_min_budget: profile.vendor_min_budget ? Number(profile.vendor_min_budget) : null,
+          vendor_excluded_categories: profile.vendor_excluded_categories || [],
+          vendor_leads_paused_until: profile.vendor_leads_paused_until || null,
           portfolio_url: profile.portfolio_url,
           linkedin_url: profile.linkedin_url,
-          is_approved: profile.is_approved,
         })
       });
 
       const result = await response.json();
 
       if (!result.success) {
+        if (result.fieldErrors) {
+          setFieldErrors(result.fieldErrors);
+        }
         throw new Error(result.error || 'Failed to update profile');
       }
 
@@ -336,6 +457,9 @@ export default function VendorProfile() {
     );
   }
 
+  const renderFieldError = (field: string) =>
+    fieldErrors[field] ? <p className="text-xs text-destructive mt-1">{fieldErrors[field]}</p> : null;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -419,6 +543,7 @@ export default function VendorProfile() {
                 placeholder="Your company name"
                 className="mt-1"
               />
+              {renderFieldError('company_name')}
             </div>
             <div>
               <label className="text-sm font-medium">Description</label>
@@ -429,6 +554,7 @@ export default function VendorProfile() {
                 rows={3}
                 className="w-full px-3 py-2 border border-border rounded-md text-sm bg-background mt-1"
               />
+              {renderFieldError('company_description')}
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div>
@@ -440,6 +566,7 @@ export default function VendorProfile() {
                   placeholder="your@email.com"
                   className="mt-1"
                 />
+                {renderFieldError('contact_email')}
               </div>
               <div>
                 <label className="text-sm font-medium">Contact Phone</label>
@@ -449,6 +576,7 @@ export default function VendorProfile() {
                   placeholder="(555) 123-4567"
                   className="mt-1"
                 />
+                {renderFieldError('contact_phone')}
               </div>
             </div>
             <div className="grid grid-cols-2 gap-4">
@@ -461,6 +589,7 @@ export default function VendorProfile() {
                   placeholder="5"
                   className="mt-1"
                 />
+                {renderFieldError('years_in_business')}
               </div>
               <div>
                 <label className="text-sm font-medium">Number of Employees</label>
@@ -471,6 +600,7 @@ export default function VendorProfile() {
                   placeholder="10"
                   className="mt-1"
                 />
+                {renderFieldError('employee_count')}
               </div>
             </div>
           </div>
@@ -489,6 +619,7 @@ export default function VendorProfile() {
                 placeholder="https://yourportfolio.com"
                 className="mt-1"
               />
+              {renderFieldError('portfolio_url')}
             </div>
             <div>
               <label className="text-sm font-medium">LinkedIn Profile</label>
@@ -499,6 +630,7 @@ export default function VendorProfile() {
                 placeholder="https://linkedin.com/in/yourcompany"
                 className="mt-1"
               />
+              {renderFieldError('linkedin_url')}
             </div>
           </div>
         </Card>
@@ -507,9 +639,14 @@ export default function VendorProfile() {
         <Card className="p-6 mb-6">
           <h2 className="text-xl font-semibold mb-4">Services You Offer *</h2>
           <p className="text-sm text-muted-foreground mb-4">Select all services you provide:</p>
+          {renderFieldError('vendor_services')}
           <div className="grid grid-cols-1 gap-2">
             {services.map(service => (
-              <label key={service.id} className="flex items-center gap-3 p-3 border border-border rounded-lg hover:bg-muted cursor-pointer">
+              <label
+                key={service.id}
+                className="flex items-center gap-3 p-3 border border-border rounded-lg hover:bg-muted cursor-pointer"
+                style={{ marginLeft: service.depth * 24 }}
+              >
                 <input
                   type="checkbox"
                   checked={selectedServices.includes(service.id)}
@@ -526,6 +663,7 @@ export default function VendorProfile() {
         <Card className="p-6 mb-6">
           <h2 className="text-xl font-semibold mb-4">Coverage Area *</h2>
           <p className="text-sm text-muted-foreground mb-4">Select states where you operate:</p>
+          {renderFieldError('vendor_coverage_areas')}
           <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
             {US_STATES.map(state => (
               <button
@@ -541,11 +679,220 @@ export default function VendorProfile() {
               </button>
             ))}
           </div>
+
+          {coverageAreas.some(area => !isStateRegion(area)) && (
+            <>
+              <p className="text-sm text-muted-foreground mt-6 mb-4">
+                Or cover only part of a state with a metro area or ZIP region:
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {coverageAreas.filter(area => !isStateRegion(area)).map(area => (
+                  <button
+                    key={area.id}
+                    onClick={() => handleRegionToggle(area.id)}
+                    className={`p-2 rounded border-2 font-medium text-xs text-left px-3 transition-all ${
+                      selectedRegions.includes(area.id)
+                        ? 'border-primary bg-primary text-primary-foreground'
+                        : 'border-border hover:border-primary bg-background'
+                    }`}
+                  >
+                    {area.region}, {area.state}
+                    <span className="opacity-70"> · {area.zip_codes?.length || 0} ZIPs</span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="border-t border-border mt-6 pt-4">
+            <h3 className="font-medium mb-1">Request a region</h3>
+            <p className="text-sm text-muted-foreground mb-3">
+              Missing a metro area or ZIP set you serve? Send it to an admin for approval.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-2">
+              <select
+                value={regionRequest.kind}
+                onChange={(e) => setRegionRequest({ ...regionRequest, kind: e.target.value })}
+                className="h-10 px-3 rounded-md border border-input bg-background text-sm"
+              >
+                <option value="metro">Metro area</option>
+                <option value="custom">Custom ZIP set</option>
+              </select>
+              <Input
+                value={regionRequest.state}
+                onChange={(e) => setRegionRequest({ ...regionRequest, state: e.target.value.toUpperCase() })}
+                placeholder="State, e.g. TX"
+                maxLength={2}
+              />
+              <Input
+                value={regionRequest.name}
+                onChange={(e) => setRegionRequest({ ...regionRequest, name: e.target.value })}
+                placeholder="Region name"
+              />
+            </div>
+            <Input
+              value={regionRequest.zipCodes}
+              onChange={(e) => setRegionRequest({ ...regionRequest, zipCodes: e.target.value })}
+              placeholder="ZIP codes, separated by spaces or commas"
+              className="mb-2"
+            />
+            <Input
+              value={regionRequest.note}
+              onChange={(e) => setRegionRequest({ ...regionRequest, note: e.target.value })}
+              placeholder="Note for the admin (optional)"
+              className="mb-2"
+            />
+            <Button
+              variant="outline"
+              onClick={handleRequestRegion}
+              disabled={requestingRegion || !regionRequest.name.trim() || !regionRequest.zipCodes.trim()}
+            >
+              {requestingRegion ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Request region
+            </Button>
+
+            {coverageRequests.length > 0 && (
+              <div className="mt-4 space-y-2">
+                {coverageRequests.map(request => (
+                  <div key={request.id} className="flex items-start justify-between gap-4 text-sm">
+                    <div>
+                      <span className="font-medium">{request.name}, {request.state}</span>
+                      <span className="text-muted-foreground"> · {request.zip_codes.length} ZIPs</span>
+                      {request.review_note && (
+                        <p className="text-xs text-muted-foreground">{request.review_note}</p>
+                      )}
+                    </div>
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium ${
+                        request.status === 'approved'
+                          ? 'bg-green-100 text-green-800'
+                          : request.status === 'rejected'
+                            ? 'bg-red-100 text-red-800'
+                            : 'bg-yellow-100 text-yellow-800'
+                      }`}
+                    >
+                      {request.status}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </Card>
+
+        {/* Service Radius */}
+        <Card className="p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">Service Radius</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Only receive leads within a distance of your base ZIP codes. When set, this replaces the state check above.
+          </p>
+          {renderFieldError('vendor_service_radii')}
+          <div className="flex gap-2 mb-4">
+            <Input
+              value={radiusZip}
+              onChange={(e) => setRadiusZip(e.target.value)}
+              placeholder="Base ZIP, e.g. 55401"
+              maxLength={5}
+              inputMode="numeric"
+            />
+            <Input
+              type="number"
+              min={1}
+              max={500}
+              value={radiusMiles}
+              onChange={(e) => setRadiusMiles(parseInt(e.target.value) || 0)}
+              placeholder="Miles"
+              className="w-32"
+            />
+            <Button onClick={handleAddServiceRadius} variant="outline" size="icon">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(profile.vendor_service_radii || []).map(radius => (
+              <div key={radius.base_zip} className="flex items-center gap-2 px-3 py-1 bg-primary/10 rounded-full text-sm">
+                {radius.radius_miles} mi around {radius.base_zip}
+                <button onClick={() => handleRemoveServiceRadius(radius.base_zip)} className="hover:text-destructive">
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        {/* Lead Preferences */}
+        <Card className="p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">Lead Preferences</h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Limit the leads you receive so you can quote every one. Leave a field empty for no limit.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Max leads per week</label>
+              <Input
+                type="number"
+                min={1}
+                max={500}
+                value={profile.vendor_weekly_lead_cap ?? ''}
+                onChange={(e) => setProfile({ ...profile, vendor_weekly_lead_cap: e.target.value ? parseInt(e.target.value) : null })}
+                placeholder="No cap"
+              />
+              {renderFieldError('vendor_weekly_lead_cap')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Minimum project budget ($)</label>
+              <Input
+                type="number"
+                min={0}
+                value={profile.vendor_min_budget ?? ''}
+                onChange={(e) => setProfile({ ...profile, vendor_min_budget: e.target.value || null })}
+                placeholder="Any budget"
+              />
+              {renderFieldError('vendor_min_budget')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Pause new leads until</label>
+              <div className="flex gap-2">
+                <Input
+                  type="date"
+                  value={profile.vendor_leads_paused_until || ''}
+                  onChange={(e) => setProfile({ ...profile, vendor_leads_paused_until: e.target.value || null })}
+                />
+                {profile.vendor_leads_paused_until && (
+                  <Button variant="outline" onClick={() => setProfile({ ...profile, vendor_leads_paused_until: null })}>
+                    Resume
+                  </Button>
+                )}
+              </div>
+              {renderFieldError('vendor_leads_paused_until')}
+            </div>
+          </div>
+          <label className="block text-sm font-medium mb-2">Don't send me leads for</label>
+          {renderFieldError('vendor_excluded_categories')}
+          <div className="flex flex-wrap gap-2">
+            {services.map(service => {
+              const excluded = (profile.vendor_excluded_categories || []).includes(service.id);
+              return (
+                <button
+                  key={service.id}
+                  onClick={() => handleExcludedCategoryToggle(service.id)}
+                  className={`px-3 py-1 rounded-full border text-sm transition-all ${
+                    excluded
+                      ? 'border-destructive bg-destructive/10 text-destructive line-through'
+                      : 'border-border hover:border-primary bg-background'
+                  }`}
+                >
+                  {service.label}
+                </button>
+              );
+            })}
+          </div>
         </Card>
 
         {/* Certifications */}
         <Card className="p-6 mb-6">
           <h2 className="text-xl font-semibold mb-4">Certifications</h2>
+          {renderFieldError('certifications')}
           <div className="space-y-3">
             <div className="flex gap-2">
               <Input
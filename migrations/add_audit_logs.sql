@@ -0,0 +1,64 @@
+-- Migration: Server-written audit log
+-- Description: Append-only record of every mutating API call, written by server/lib/audit.ts
+-- with the service role. Nobody (service role included) can edit or delete entries.
+
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_role VARCHAR(20),
+  actor_email TEXT,
+  action VARCHAR(100) NOT NULL,        -- e.g. 'project.published', 'bid.submitted'
+  entity_type VARCHAR(50) NOT NULL,    -- e.g. 'project', 'bid', 'profile'
+  entity_id TEXT,
+  before JSONB,
+  after JSONB,
+  changes JSONB,                       -- { field: { from, to } } for fields that differ
+  metadata JSONB,
+  request_id VARCHAR(128),
+  method VARCHAR(10),
+  path TEXT,
+  ip TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_actor ON audit_logs(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_entity ON audit_logs(entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_request_id ON audit_logs(request_id);
+
+-- Append-only: reject every UPDATE, DELETE and TRUNCATE
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_logs_append_only ON audit_logs;
+CREATE TRIGGER audit_logs_append_only
+  BEFORE UPDATE OR DELETE ON audit_logs
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS audit_logs_no_truncate ON audit_logs;
+CREATE TRIGGER audit_logs_no_truncate
+  BEFORE TRUNCATE ON audit_logs
+  FOR EACH STATEMENT EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- RLS: only the API (service role) writes; admins may read directly
+ALTER TABLE audit_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view audit logs" ON audit_logs;
+CREATE POLICY "Admins can view audit logs" ON audit_logs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Permission for GET /api/admin/audit-logs
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'audit:read')
+ON CONFLICT DO NOTHING;
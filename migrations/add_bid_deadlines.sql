@@ -0,0 +1,52 @@
+-- Migration: Bid deadlines and sealed bidding
+-- Description: Projects can close bidding at bids_close_at. A background job
+-- (server/lib/bid-deadlines.ts) moves open projects past their deadline to in_review and
+-- notifies the business and routed vendors. In sealed mode the business cannot read bids
+-- until the deadline; the API hides their pricing and RLS hides the rows.
+
+-- 1. Deadline and mode
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS bids_close_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS bid_mode VARCHAR(10) NOT NULL DEFAULT 'open',   -- 'open', 'sealed'
+ADD COLUMN IF NOT EXISTS bids_closed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_bid_mode_check;
+ALTER TABLE projects
+ADD CONSTRAINT projects_bid_mode_check CHECK (
+  bid_mode IN ('open', 'sealed') AND (bid_mode = 'open' OR bids_close_at IS NOT NULL)
+);
+
+-- The deadline job looks for open projects whose deadline has passed
+CREATE INDEX IF NOT EXISTS idx_projects_bids_close_at ON projects(bids_close_at)
+  WHERE status = 'open' AND bids_close_at IS NOT NULL;
+
+-- 2. Businesses cannot read sealed bids before the deadline
+CREATE OR REPLACE FUNCTION project_bids_visible_to_owner(target_project_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = target_project_id
+      AND business_id = auth.uid()
+      AND (bid_mode <> 'sealed' OR bids_close_at <= NOW())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Bids are read-only to signed-in users: the API places, revises and withdraws them with the
+-- service role, so vendors cannot skip deadline, routing or revision checks by writing directly.
+-- Older policies that allowed vendor writes (or showed sealed bids to the owner) go.
+DROP POLICY IF EXISTS "bids_all_access" ON vendor_responses;
+DROP POLICY IF EXISTS "Vendors can view their own bids" ON vendor_responses;
+DROP POLICY IF EXISTS "Vendors can submit bids" ON vendor_responses;
+DROP POLICY IF EXISTS "Vendors can update their bids" ON vendor_responses;
+
+DROP POLICY IF EXISTS "bids_read_access" ON vendor_responses;
+CREATE POLICY "bids_read_access" ON vendor_responses FOR SELECT TO authenticated
+USING (
+  vendor_id = auth.uid() OR
+  project_bids_visible_to_owner(project_id) OR
+  EXISTS (SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+DROP POLICY IF EXISTS "Businesses can view bid revisions on their projects" ON bid_revisions;
+CREATE POLICY "Businesses can view bid revisions on their projects" ON bid_revisions
+  FOR SELECT USING (project_bids_visible_to_owner(project_id));
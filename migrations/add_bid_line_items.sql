@@ -0,0 +1,20 @@
+-- Migration: Structured bid pricing
+-- Description: Bids are built from line items, each with a pricing model (fixed, hourly,
+-- monthly retainer, per unit) and an optional flag. The API computes the totals with
+-- shared/bid-pricing.ts; bid_amount keeps the full-contract total so existing lists still sort.
+
+-- 1. Line items and computed totals
+ALTER TABLE vendor_responses
+ADD COLUMN IF NOT EXISTS line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS first_year_total DECIMAL(12, 2),
+ADD COLUMN IF NOT EXISTS contract_total DECIMAL(12, 2),
+ADD COLUMN IF NOT EXISTS optional_total DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE vendor_responses DROP CONSTRAINT IF EXISTS vendor_responses_line_items_array;
+ALTER TABLE vendor_responses
+ADD CONSTRAINT vendor_responses_line_items_array CHECK (jsonb_typeof(line_items) = 'array');
+
+-- 2. Existing bids were a single fixed price
+UPDATE vendor_responses
+SET first_year_total = bid_amount, contract_total = bid_amount
+WHERE contract_total IS NULL;
@@ -0,0 +1,73 @@
+-- Migration: Bid revision history
+-- Description: Every version of a bid is kept in bid_revisions instead of being overwritten.
+-- vendor_responses still holds the current version; revision_count and revised_at tell the
+-- business a bid has changed. Versions are never edited (they go when the bid is deleted).
+
+-- 1. Versions
+CREATE TABLE IF NOT EXISTS bid_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bid_id UUID NOT NULL REFERENCES vendor_responses(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  vendor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version >= 1),
+  line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  bid_amount DECIMAL(12, 2) NOT NULL,
+  first_year_total DECIMAL(12, 2),
+  contract_total DECIMAL(12, 2),
+  optional_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  proposed_timeline TEXT,
+  response_notes TEXT,
+  change_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT TIMEZONE('utc', NOW()),
+  UNIQUE(bid_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bid_revisions_project ON bid_revisions(project_id);
+
+-- 2. Current version pointer on the bid
+ALTER TABLE vendor_responses
+ADD COLUMN IF NOT EXISTS revision_count INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS revised_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing bids become version 1
+INSERT INTO bid_revisions (
+  bid_id, project_id, vendor_id, version, line_items, bid_amount, first_year_total, contract_total,
+  optional_total, proposed_timeline, response_notes, created_at
+)
+SELECT
+  vr.id, vr.project_id, vr.vendor_id, 1, vr.line_items, vr.bid_amount, vr.first_year_total, vr.contract_total,
+  vr.optional_total, vr.proposed_timeline, vr.response_notes, COALESCE(vr.created_at, TIMEZONE('utc', NOW()))
+FROM vendor_responses vr
+WHERE NOT EXISTS (SELECT 1 FROM bid_revisions br WHERE br.bid_id = vr.id);
+
+-- 3. Versions are immutable
+CREATE OR REPLACE FUNCTION prevent_bid_revision_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'bid revisions cannot be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bid_revisions_immutable ON bid_revisions;
+CREATE TRIGGER bid_revisions_immutable
+  BEFORE UPDATE ON bid_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_bid_revision_changes();
+
+-- 4. RLS: the vendor, the project's business and admins can read; the API writes with the service role
+ALTER TABLE bid_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Vendors can view their bid revisions" ON bid_revisions;
+CREATE POLICY "Vendors can view their bid revisions" ON bid_revisions
+  FOR SELECT USING (vendor_id = auth.uid());
+
+DROP POLICY IF EXISTS "Businesses can view bid revisions on their projects" ON bid_revisions;
+CREATE POLICY "Businesses can view bid revisions on their projects" ON bid_revisions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM projects WHERE projects.id = bid_revisions.project_id AND projects.business_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Admins can view bid revisions" ON bid_revisions;
+CREATE POLICY "Admins can view bid revisions" ON bid_revisions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND profiles.role = 'admin')
+  );
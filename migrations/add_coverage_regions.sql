@@ -0,0 +1,132 @@
+-- Migration: Coverage region management
+-- Description: coverage_areas become admin-managed regions of three kinds: a whole state, a
+-- metro, or a custom ZIP set. Only state regions cover a whole state in routing; metro and custom
+-- regions cover their ZIPs. Vendors can ask for a region that does not exist yet; admins approve
+-- or reject the request (server/lib/coverage-regions.ts).
+
+-- 1. Region kind
+ALTER TABLE coverage_areas
+ADD COLUMN IF NOT EXISTS kind VARCHAR(20) NOT NULL DEFAULT 'state',   -- 'state', 'metro', 'custom'
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW());
+
+ALTER TABLE coverage_areas DROP CONSTRAINT IF EXISTS coverage_areas_kind_check;
+ALTER TABLE coverage_areas
+ADD CONSTRAINT coverage_areas_kind_check CHECK (kind IN ('state', 'metro', 'custom'));
+
+-- Named regions were ZIP sets all along (those without ZIPs too), so only unnamed rows stay
+-- whole-state regions
+UPDATE coverage_areas SET kind = 'custom'
+WHERE kind = 'state' AND region IS NOT NULL;
+
+-- UNIQUE(state, region) lets a state have several unnamed rows; keep the oldest and point
+-- vendors at it
+DROP TABLE IF EXISTS duplicate_state_regions;
+CREATE TEMP TABLE duplicate_state_regions AS
+SELECT id, keep_id FROM (
+  SELECT id, FIRST_VALUE(id) OVER (PARTITION BY state ORDER BY created_at, id) AS keep_id
+  FROM coverage_areas
+  WHERE kind = 'state'
+) ranked
+WHERE id <> keep_id;
+
+UPDATE profiles SET vendor_coverage_areas = ARRAY(
+  SELECT DISTINCT COALESCE(d.keep_id, area_id)
+  FROM unnest(profiles.vendor_coverage_areas) AS area_id
+  LEFT JOIN duplicate_state_regions d ON d.id = area_id
+)
+WHERE vendor_coverage_areas && ARRAY(SELECT id FROM duplicate_state_regions);
+
+DELETE FROM coverage_areas WHERE id IN (SELECT id FROM duplicate_state_regions);
+DROP TABLE duplicate_state_regions;
+
+-- One whole-state region per state (UNIQUE(state, region) does not stop duplicate NULL regions)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coverage_areas_one_state_region
+  ON coverage_areas(state) WHERE kind = 'state';
+
+INSERT INTO coverage_areas (state, kind)
+SELECT s.code, 'state'
+FROM (VALUES
+  ('AL'),('AK'),('AZ'),('AR'),('CA'),('CO'),('CT'),('DE'),('DC'),('FL'),('GA'),('HI'),('ID'),('IL'),
+  ('IN'),('IA'),('KS'),('KY'),('LA'),('ME'),('MD'),('MA'),('MI'),('MN'),('MS'),('MO'),('MT'),('NE'),
+  ('NV'),('NH'),('NJ'),('NM'),('NY'),('NC'),('ND'),('OH'),('OK'),('OR'),('PA'),('RI'),('SC'),('SD'),
+  ('TN'),('TX'),('UT'),('VT'),('VA'),('WA'),('WV'),('WI'),('WY')
+) AS s(code)
+WHERE NOT EXISTS (SELECT 1 FROM coverage_areas c WHERE c.state = s.code AND c.kind = 'state');
+
+-- 2. Vendor requests for new regions
+CREATE TABLE IF NOT EXISTS coverage_region_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  vendor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  state VARCHAR(2) NOT NULL,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('metro', 'custom')),
+  name VARCHAR(255) NOT NULL,
+  zip_codes TEXT[] NOT NULL DEFAULT '{}',
+  note TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  coverage_area_id UUID REFERENCES coverage_areas(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_coverage_region_requests_status ON coverage_region_requests(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_coverage_region_requests_vendor ON coverage_region_requests(vendor_id);
+
+-- 3. RLS: vendors see their own requests, admins see all; the API writes with the service role
+ALTER TABLE coverage_region_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Vendors can view their region requests" ON coverage_region_requests;
+CREATE POLICY "Vendors can view their region requests" ON coverage_region_requests
+  FOR SELECT USING (vendor_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can view region requests" ON coverage_region_requests;
+CREATE POLICY "Admins can view region requests" ON coverage_region_requests
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND profiles.role = 'admin')
+  );
+
+-- 4. Permission for the admin coverage endpoints
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'coverage:manage')
+ON CONFLICT DO NOTHING;
+
+-- 5. Apply a CSV import (server/lib/coverage-regions.ts planCoverageImport) in one transaction,
+-- so a failure part way leaves every region as it was. Returns the number of regions written.
+CREATE OR REPLACE FUNCTION apply_coverage_import(p_changes JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_change JSONB;
+  v_written INTEGER := 0;
+BEGIN
+  FOR v_change IN SELECT * FROM jsonb_array_elements(p_changes) LOOP
+    IF v_change->>'action' = 'create' THEN
+      INSERT INTO coverage_areas (state, region, kind, zip_codes)
+      VALUES (
+        v_change->>'state',
+        v_change->>'name',
+        v_change->>'kind',
+        ARRAY(SELECT jsonb_array_elements_text(v_change->'zip_codes'))
+      );
+    ELSIF v_change->>'action' = 'update' THEN
+      UPDATE coverage_areas SET
+        kind = v_change->>'kind',
+        zip_codes = ARRAY(SELECT jsonb_array_elements_text(v_change->'zip_codes')),
+        updated_at = NOW()
+      WHERE id = (v_change->>'region_id')::UUID;
+      -- The region was deleted since the preview
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'coverage region % no longer exists', v_change->>'region_id' USING ERRCODE = '40001';
+      END IF;
+    ELSE
+      CONTINUE;
+    END IF;
+    v_written := v_written + 1;
+  END LOOP;
+
+  RETURN v_written;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the API (service role) imports regions
+REVOKE EXECUTE ON FUNCTION apply_coverage_import(JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,63 @@
+-- Migration: Contact-info moderation for project messages
+-- Description: Admin-editable platform settings (including the moderation policy), the review
+-- queue of moderation decisions written by server/lib/contact-moderation.ts, and a marker on
+-- messages whose contents were masked or flagged.
+
+-- 1. Platform settings (one JSON value per key, edited through the admin API)
+CREATE TABLE IF NOT EXISTS platform_settings (
+  key VARCHAR(100) PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+INSERT INTO platform_settings (key, value) VALUES
+  ('contact_moderation_policy', '{"default": "mask", "byStatus": {}}')
+ON CONFLICT (key) DO NOTHING;
+
+-- 2. Moderation decisions (review queue)
+CREATE TABLE IF NOT EXISTS message_moderation_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  message_id UUID REFERENCES project_messages(id) ON DELETE SET NULL, -- NULL when blocked
+  sender_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  vendor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  project_status VARCHAR(50),
+  action VARCHAR(20) NOT NULL,          -- 'allow', 'flag', 'mask', 'block'
+  reason VARCHAR(50) NOT NULL,          -- 'policy', 'vendor_selected', 'solicitation_only'
+  detected_types TEXT[] NOT NULL DEFAULT '{}',
+  matches JSONB NOT NULL DEFAULT '[]',
+  original_text TEXT,
+  delivered_text TEXT,
+  review_status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'confirmed', 'dismissed', 'not_required'
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  request_id VARCHAR(128),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_events_queue ON message_moderation_events(review_status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_moderation_events_project ON message_moderation_events(project_id);
+
+-- 3. What moderation did to a delivered message (NULL when untouched)
+ALTER TABLE project_messages
+ADD COLUMN IF NOT EXISTS moderation_action VARCHAR(20);
+
+-- RLS: only the API writes; admins may read
+ALTER TABLE platform_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_moderation_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view platform settings" ON platform_settings;
+CREATE POLICY "Admins can view platform settings" ON platform_settings
+  FOR SELECT USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND profiles.role = 'admin'));
+
+DROP POLICY IF EXISTS "Admins can view moderation events" ON message_moderation_events;
+CREATE POLICY "Admins can view moderation events" ON message_moderation_events
+  FOR SELECT USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND profiles.role = 'admin'));
+
+-- Permissions for the admin moderation endpoints
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'moderation:manage'),
+  ('admin', 'moderation:review')
+ON CONFLICT DO NOTHING;
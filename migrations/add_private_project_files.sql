@@ -0,0 +1,38 @@
+-- Migration: Private storage for project files and message attachments
+-- Description: Creates the private 'project-files' bucket. Objects are only reachable through
+-- signed URLs issued by the API (server/routes/project-files.ts), which checks project/thread
+-- access first. Message attachments reference objects by path instead of a public URL.
+--
+-- After applying, move existing attachments out of the public 'assets' bucket with:
+--   npx tsx scripts/migrate-message-images.ts
+
+-- 1. Private bucket (10 MB per file, images and common documents)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'project-files',
+  'project-files',
+  false,
+  10485760,
+  ARRAY[
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp',
+    'application/pdf', 'text/plain', 'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = false,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- No storage.objects policies are created for this bucket: browsers never read or write it
+-- directly, only through signed URLs.
+
+-- 2. Attachments are stored as a path inside 'project-files'
+ALTER TABLE project_messages
+ADD COLUMN IF NOT EXISTS image_path TEXT;
+
+COMMENT ON COLUMN project_messages.image_url IS
+  'Deprecated: public URL from before private storage. Cleared by scripts/migrate-message-images.ts';
@@ -0,0 +1,121 @@
+-- Migration: Project amendments
+-- Description: A published project can be amended (scope, budget, timeline). Each amendment
+-- bumps projects.revision and is kept in project_amendments with what changed. Bids made
+-- against an earlier revision are flagged needs_confirmation until the vendor re-confirms or
+-- revises them. Amendments are never edited, and are made through amend_project() so the
+-- amendment, the project update and the flagged bids land together.
+
+-- 1. Current revision on the project, and the revision each bid was made against
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS amended_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE vendor_responses
+ADD COLUMN IF NOT EXISTS project_revision INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS needs_confirmation BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Amendments (revision 2 onwards; revision 1 is the project as published)
+CREATE TABLE IF NOT EXISTS project_amendments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL CHECK (revision >= 2),
+  -- [{ field, label, before, after }]
+  changes JSONB NOT NULL DEFAULT '[]'::jsonb,
+  note TEXT NOT NULL,
+  amended_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT TIMEZONE('utc', NOW()),
+  UNIQUE(project_id, revision)
+);
+
+CREATE OR REPLACE FUNCTION prevent_project_amendment_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'project amendments cannot be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS project_amendments_immutable ON project_amendments;
+CREATE TRIGGER project_amendments_immutable
+  BEFORE UPDATE ON project_amendments
+  FOR EACH ROW EXECUTE FUNCTION prevent_project_amendment_changes();
+
+-- 3. RLS: the project's business, routed vendors and admins can read; the API writes with the service role
+ALTER TABLE project_amendments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Businesses can view amendments to their projects" ON project_amendments;
+CREATE POLICY "Businesses can view amendments to their projects" ON project_amendments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM projects WHERE projects.id = project_amendments.project_id AND projects.business_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Routed vendors can view project amendments" ON project_amendments;
+CREATE POLICY "Routed vendors can view project amendments" ON project_amendments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM project_routing
+      WHERE project_routing.project_id = project_amendments.project_id AND project_routing.vendor_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Admins can view project amendments" ON project_amendments;
+CREATE POLICY "Admins can view project amendments" ON project_amendments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND profiles.role = 'admin')
+  );
+
+-- 4. Amend in one transaction: record the amendment, update the project and flag older bids.
+-- The project row lock makes a second amendment wait, then fail the revision check.
+CREATE OR REPLACE FUNCTION amend_project(
+  p_project_id UUID,
+  p_revision INTEGER,
+  p_updates JSONB,   -- { field: new value } for the changed fields only
+  p_changes JSONB,
+  p_note TEXT,
+  p_amended_by UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_project projects%ROWTYPE;
+  v_amended projects%ROWTYPE;
+  v_amendment project_amendments%ROWTYPE;
+  v_flagged INTEGER;
+BEGIN
+  SELECT * INTO v_project FROM projects WHERE id = p_project_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'project % not found', p_project_id USING ERRCODE = 'P0002';
+  END IF;
+  IF COALESCE(v_project.revision, 1) + 1 <> p_revision THEN
+    RAISE EXCEPTION 'project % was amended since it was read', p_project_id USING ERRCODE = '40001';
+  END IF;
+
+  INSERT INTO project_amendments (project_id, revision, changes, note, amended_by)
+  VALUES (p_project_id, p_revision, p_changes, p_note, p_amended_by)
+  RETURNING * INTO v_amendment;
+
+  v_amended := jsonb_populate_record(v_project, p_updates);
+  UPDATE projects SET
+    title = v_amended.title,
+    description = v_amended.description,
+    special_requirements = v_amended.special_requirements,
+    budget_min = v_amended.budget_min,
+    budget_max = v_amended.budget_max,
+    timeline_start = v_amended.timeline_start,
+    timeline_end = v_amended.timeline_end,
+    revision = p_revision,
+    amended_at = NOW(),
+    updated_at = NOW()
+  WHERE id = p_project_id
+  RETURNING * INTO v_project;
+
+  -- Bids priced against the old scope stay in the running but need the vendor to stand by them
+  UPDATE vendor_responses SET needs_confirmation = TRUE
+  WHERE project_id = p_project_id AND project_revision < p_revision AND status <> 'withdrawn';
+  GET DIAGNOSTICS v_flagged = ROW_COUNT;
+
+  RETURN jsonb_build_object('project', to_jsonb(v_project), 'amendment', to_jsonb(v_amendment), 'bids_flagged', v_flagged);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the API (service role) amends projects
+REVOKE EXECUTE ON FUNCTION amend_project(UUID, INTEGER, JSONB, JSONB, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,35 @@
+-- Migration: Project clarification Q&A
+-- Description: Vendors ask scoping questions on a project's Q&A board instead of in private
+-- threads. Askers stay anonymous to the business and to other vendors. The business answers
+-- each question once; public answers go to every routed vendor, private ones only to the asker.
+
+-- 1. Questions and their answers
+CREATE TABLE IF NOT EXISTS project_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  vendor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  -- Private questions (and their answers) are only shown to the asker, the business and admins
+  is_private BOOLEAN NOT NULL DEFAULT FALSE,
+  answer TEXT,
+  answered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  answered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT TIMEZONE('utc', NOW()),
+  CHECK ((answer IS NULL) = (answered_at IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_questions_project ON project_questions(project_id, created_at);
+
+-- 2. RLS: askers must stay anonymous, so businesses and other vendors read through the API
+-- (service role), which leaves out vendor_id. Vendors may read their own questions.
+ALTER TABLE project_questions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Vendors can view their own questions" ON project_questions;
+CREATE POLICY "Vendors can view their own questions" ON project_questions
+  FOR SELECT USING (vendor_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can view project questions" ON project_questions;
+CREATE POLICY "Admins can view project questions" ON project_questions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND profiles.role = 'admin')
+  );
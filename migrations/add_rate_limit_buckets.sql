@@ -0,0 +1,44 @@
+-- Migration: Shared token buckets for API rate limiting
+-- Description: Used when the API runs with RATE_LIMIT_STORE=postgres (server/lib/rate-limit.ts)
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY, -- e.g. 'ai_intake:ip:203.0.113.7'
+  tokens DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Only the API's direct database connection touches this table
+ALTER TABLE rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Refill the bucket for the time elapsed, then take one token if available.
+-- The row lock makes concurrent calls for the same key queue up instead of double-spending.
+CREATE OR REPLACE FUNCTION take_rate_limit_token(p_key TEXT, p_capacity INTEGER, p_period_seconds INTEGER)
+RETURNS TABLE (allowed BOOLEAN, remaining DOUBLE PRECISION, retry_after_seconds INTEGER) AS $$
+DECLARE
+  v_refill_per_second DOUBLE PRECISION := p_capacity::DOUBLE PRECISION / p_period_seconds;
+  v_tokens DOUBLE PRECISION;
+  v_updated_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  INSERT INTO rate_limit_buckets (key, tokens, updated_at)
+  VALUES (p_key, p_capacity, NOW())
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT b.tokens, b.updated_at INTO v_tokens, v_updated_at
+  FROM rate_limit_buckets b
+  WHERE b.key = p_key
+  FOR UPDATE;
+
+  v_tokens := LEAST(p_capacity, v_tokens + EXTRACT(EPOCH FROM (NOW() - v_updated_at)) * v_refill_per_second);
+
+  IF v_tokens >= 1 THEN
+    UPDATE rate_limit_buckets SET tokens = v_tokens - 1, updated_at = NOW() WHERE key = p_key;
+    RETURN QUERY SELECT TRUE, v_tokens - 1, 0;
+  ELSE
+    UPDATE rate_limit_buckets SET tokens = v_tokens, updated_at = NOW() WHERE key = p_key;
+    RETURN QUERY SELECT FALSE, v_tokens, GREATEST(1, CEIL((1 - v_tokens) / v_refill_per_second))::INTEGER;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Buckets idle for a day are full again; clear them out periodically
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
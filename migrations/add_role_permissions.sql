@@ -0,0 +1,52 @@
+-- Role permissions used by the API's requirePermission() checks (server/lib/permissions.ts)
+CREATE TABLE IF NOT EXISTS role_permissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  role VARCHAR(50) NOT NULL CHECK (role IN ('admin', 'business', 'vendor')),
+  permission VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  UNIQUE(role, permission)
+);
+
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+-- Any signed-in user may read the permission matrix (the UI uses it to hide actions)
+CREATE POLICY "Authenticated users can view role permissions" ON role_permissions
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Only admins may change it
+CREATE POLICY "Admins can manage role permissions" ON role_permissions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'admin:stats'),
+  ('admin', 'message:send'),
+  ('admin', 'profile:update_own'),
+  ('admin', 'project:assign'),
+  ('admin', 'project:create'),
+  ('admin', 'project:delete'),
+  ('admin', 'project:publish'),
+  ('admin', 'project:read_all'),
+  ('admin', 'project:update_status'),
+  ('admin', 'routing:read'),
+  ('admin', 'routing:request'),
+  ('admin', 'routing:write'),
+  ('business', 'message:send'),
+  ('business', 'profile:update_own'),
+  ('business', 'project:award'),
+  ('business', 'project:create'),
+  ('business', 'project:delete'),
+  ('business', 'project:publish'),
+  ('business', 'project:update_status'),
+  ('business', 'routing:request'),
+  ('vendor', 'bid:submit'),
+  ('vendor', 'message:send'),
+  ('vendor', 'profile:update_own'),
+  ('vendor', 'project:update_status'),
+  ('vendor', 'routing:request')
+ON CONFLICT (role, permission) DO NOTHING;
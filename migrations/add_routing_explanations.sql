@@ -0,0 +1,12 @@
+-- Migration: Routing explanations on each routing record
+-- Description: Stores the score and per-signal reasons a vendor was routed a project with, so
+-- admins can see why a lead went where it did and vendors get a short "why you got this lead".
+-- Rows routed before this migration (and vendors who asked for a lead themselves) have none.
+
+ALTER TABLE project_routing
+ADD COLUMN IF NOT EXISTS score NUMERIC(4, 1),
+ADD COLUMN IF NOT EXISTS reasons JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE project_routing DROP CONSTRAINT IF EXISTS project_routing_reasons_is_array;
+ALTER TABLE project_routing
+ADD CONSTRAINT project_routing_reasons_is_array CHECK (jsonb_typeof(reasons) = 'array');
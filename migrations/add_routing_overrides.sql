@@ -0,0 +1,36 @@
+-- Migration: Manual routing overrides and business–vendor exclusions
+-- Description: Admins can force-route a project to a vendor or pull a lead back, each with a
+-- reason. Revoked routings keep their row (status 'revoked') so automatic routing never sends
+-- the lead again. routing_exclusions keeps a vendor away from one business's projects on every
+-- routing path (server/lib/routing-overrides.ts).
+
+-- 1. Override details on routing records
+ALTER TABLE project_routing
+ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'auto',   -- 'auto', 'manual'
+ADD COLUMN IF NOT EXISTS override_reason TEXT,
+ADD COLUMN IF NOT EXISTS overridden_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS revoke_reason TEXT;
+
+-- 2. Vendors who must never be routed a business's projects
+CREATE TABLE IF NOT EXISTS routing_exclusions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  vendor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT TIMEZONE('utc', NOW()),
+  UNIQUE (business_id, vendor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_routing_exclusions_vendor ON routing_exclusions(vendor_id);
+
+-- 3. RLS: only admins read exclusions; the API writes them with the service role
+ALTER TABLE routing_exclusions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view routing exclusions" ON routing_exclusions;
+CREATE POLICY "Admins can view routing exclusions" ON routing_exclusions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND profiles.role = 'admin')
+  );
@@ -0,0 +1,38 @@
+-- Migration: Routing run history
+-- Description: One row per call to the routing service (server/lib/routing-service.ts), whether
+-- it came from project creation, publishing or the manual trigger. Records what went in, what
+-- came out and how long it took, so a routing decision can be inspected after the fact.
+
+CREATE TABLE IF NOT EXISTS routing_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  trigger VARCHAR(20) NOT NULL,        -- 'create', 'publish', 'manual'
+  triggered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  request_id VARCHAR(128),
+  inputs JSONB,                        -- scoring config, broadcast flag, candidate counts, project location
+  outcome VARCHAR(20) NOT NULL,        -- 'routed', 'already_routed', 'no_match', 'failed'
+  matched_count INTEGER NOT NULL DEFAULT 0,
+  routed_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  routed_vendor_ids UUID[] NOT NULL DEFAULT '{}',
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_routing_runs_project ON routing_runs(project_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_routing_runs_started_at ON routing_runs(started_at DESC);
+
+-- RLS: only the API (service role) writes; admins may read directly
+ALTER TABLE routing_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view routing runs" ON routing_runs;
+CREATE POLICY "Admins can view routing runs" ON routing_runs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
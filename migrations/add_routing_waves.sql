@@ -0,0 +1,40 @@
+-- Migration: Waved lead routing
+-- Description: Projects are routed to the top-scored vendors first; when too few bids arrive
+-- within the window, the scheduler (server/lib/routing-scheduler.ts) sends the next wave with a
+-- wider radius. One row per wave; project_routing.wave records which wave reached a vendor.
+
+CREATE TABLE IF NOT EXISTS routing_waves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  wave_number INTEGER NOT NULL,
+  radius_multiplier NUMERIC(6, 2) NOT NULL DEFAULT 1,
+  relaxed TEXT[] NOT NULL DEFAULT '{}',       -- rules loosened for this wave
+  vendor_ids UUID[] NOT NULL DEFAULT '{}',
+  window_ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'active', -- 'active', 'expanded', 'satisfied', 'exhausted', 'closed'
+  bids_at_close INTEGER,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  UNIQUE(project_id, wave_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_routing_waves_due ON routing_waves(status, window_ends_at);
+
+ALTER TABLE project_routing ADD COLUMN IF NOT EXISTS wave INTEGER;
+
+-- RLS: only the API (service role) writes; admins may read directly
+ALTER TABLE routing_waves ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view routing waves" ON routing_waves;
+CREATE POLICY "Admins can view routing waves" ON routing_waves
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+INSERT INTO platform_settings (key, value) VALUES
+  ('routing_wave_config', '{"enabled": true, "initialSize": 5, "expansionSize": 5, "minBids": 3, "windowHours": 24, "maxWaves": 4, "radiusGrowth": 1.5, "relaxFromWave": 3}')
+ON CONFLICT (key) DO NOTHING;
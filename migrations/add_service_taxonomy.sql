@@ -0,0 +1,127 @@
+-- Migration: Hierarchical service taxonomy
+-- Description: Service categories nest under a parent (IT Services → Managed Security → SOC 2
+-- readiness) and carry synonyms that intake uses to recognise them. Retired categories stay in
+-- the table so old records keep their label; merged ones point at their replacement. Routing and
+-- intake read the taxonomy through server/lib/service-taxonomy.ts.
+
+-- 1. Hierarchy, synonyms and lifecycle
+ALTER TABLE service_categories
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES service_categories(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS synonyms TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS retired_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS merged_into_id UUID REFERENCES service_categories(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW());
+
+ALTER TABLE service_categories DROP CONSTRAINT IF EXISTS service_categories_not_own_parent;
+ALTER TABLE service_categories
+ADD CONSTRAINT service_categories_not_own_parent CHECK (parent_id IS NULL OR parent_id <> id);
+
+CREATE INDEX IF NOT EXISTS idx_service_categories_parent ON service_categories(parent_id);
+
+-- 2. Synonyms for the seeded categories (these used to be keyword lists in ai-intake.ts)
+UPDATE service_categories SET synonyms = ARRAY['payroll', 'pay roll']
+  WHERE name = 'Payroll Services' AND synonyms = '{}';
+UPDATE service_categories SET synonyms = ARRAY['accounting', 'bookkeeping', 'book keeping']
+  WHERE name = 'Accounting Services' AND synonyms = '{}';
+UPDATE service_categories SET synonyms = ARRAY['legal', 'lawyer', 'contract review']
+  WHERE name = 'Legal Services' AND synonyms = '{}';
+UPDATE service_categories SET synonyms = ARRAY['tech support', 'network', 'managed it', 'cloud']
+  WHERE name = 'IT Services' AND synonyms = '{}';
+UPDATE service_categories SET synonyms = ARRAY['consulting', 'advisor', 'strategy']
+  WHERE name = 'Consulting' AND synonyms = '{}';
+UPDATE service_categories SET synonyms = ARRAY['marketing', 'seo', 'ads', 'advertising', 'social media']
+  WHERE name = 'Marketing Services' AND synonyms = '{}';
+UPDATE service_categories SET synonyms = ARRAY['construction', 'build', 'renovation', 'remodel']
+  WHERE name = 'Construction' AND synonyms = '{}';
+UPDATE service_categories SET synonyms = ARRAY['cleaning', 'janitorial']
+  WHERE name = 'Cleaning Services' AND synonyms = '{}';
+UPDATE service_categories SET synonyms = ARRAY['heating', 'cooling', 'air conditioning']
+  WHERE name = 'HVAC' AND synonyms = '{}';
+UPDATE service_categories SET synonyms = ARRAY['electrical', 'electrician']
+  WHERE name = 'Electrical' AND synonyms = '{}';
+
+-- 3. A first nested branch
+INSERT INTO service_categories (name, description, parent_id, synonyms)
+SELECT 'Managed Security', 'Security monitoring, hardening and compliance programs', id,
+  ARRAY['cybersecurity', 'security monitoring', 'penetration test']
+FROM service_categories WHERE name = 'IT Services'
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO service_categories (name, description, parent_id, synonyms)
+SELECT 'SOC 2 Readiness', 'Gap assessments and audit preparation for SOC 2', id,
+  ARRAY['soc 2', 'soc2', 'soc ii']
+FROM service_categories WHERE name = 'Managed Security'
+ON CONFLICT (name) DO NOTHING;
+
+-- 4. Permission for the admin taxonomy endpoints
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'taxonomy:manage')
+ON CONFLICT DO NOTHING;
+
+-- 5. Retire or merge a category in one transaction (server/lib/service-taxonomy.ts), so routing
+-- never reads a half-moved taxonomy. Projects, vendor services and subcategories move to the
+-- target; with no target projects keep the category, vendors drop it and subcategories move up.
+-- Merging records the replacement and carries the name and synonyms across.
+CREATE OR REPLACE FUNCTION retire_service_category(p_source_id UUID, p_target_id UUID, p_merge BOOLEAN)
+RETURNS JSONB AS $$
+DECLARE
+  v_source service_categories%ROWTYPE;
+  v_projects INTEGER := 0;
+  v_vendors INTEGER;
+  v_subcategories INTEGER;
+BEGIN
+  SELECT * INTO v_source FROM service_categories WHERE id = p_source_id FOR UPDATE;
+  IF NOT FOUND OR v_source.retired_at IS NOT NULL THEN
+    RAISE EXCEPTION 'service category % is not active', p_source_id USING ERRCODE = '40001';
+  END IF;
+  IF p_target_id IS NOT NULL THEN
+    PERFORM 1 FROM service_categories WHERE id = p_target_id AND retired_at IS NULL FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'service category % is not active', p_target_id USING ERRCODE = '40001';
+    END IF;
+  END IF;
+
+  IF p_target_id IS NOT NULL THEN
+    UPDATE projects SET service_category_id = p_target_id WHERE service_category_id = p_source_id;
+    GET DIAGNOSTICS v_projects = ROW_COUNT;
+  END IF;
+
+  -- Swap the id in place, keeping order and dropping duplicates (or the id, with no target)
+  UPDATE profiles SET
+    vendor_services = ARRAY(
+      SELECT id FROM unnest(array_replace(vendor_services, p_source_id, p_target_id)) WITH ORDINALITY AS u(id, n)
+      WHERE id IS NOT NULL GROUP BY id ORDER BY MIN(n)
+    ),
+    vendor_excluded_categories = ARRAY(
+      SELECT id FROM unnest(array_replace(vendor_excluded_categories, p_source_id, p_target_id)) WITH ORDINALITY AS u(id, n)
+      WHERE id IS NOT NULL GROUP BY id ORDER BY MIN(n)
+    )
+  WHERE p_source_id = ANY(vendor_services) OR p_source_id = ANY(vendor_excluded_categories);
+  GET DIAGNOSTICS v_vendors = ROW_COUNT;
+
+  UPDATE service_categories SET parent_id = COALESCE(p_target_id, v_source.parent_id), updated_at = NOW()
+  WHERE parent_id = p_source_id;
+  GET DIAGNOSTICS v_subcategories = ROW_COUNT;
+
+  IF p_merge AND p_target_id IS NOT NULL THEN
+    UPDATE service_categories SET
+      synonyms = ARRAY(
+        SELECT synonym FROM unnest(synonyms || LOWER(v_source.name) || v_source.synonyms) WITH ORDINALITY AS u(synonym, n)
+        GROUP BY synonym ORDER BY MIN(n)
+      ),
+      updated_at = NOW()
+    WHERE id = p_target_id;
+  END IF;
+
+  UPDATE service_categories SET
+    retired_at = NOW(),
+    merged_into_id = CASE WHEN p_merge THEN p_target_id END,
+    updated_at = NOW()
+  WHERE id = p_source_id;
+
+  RETURN jsonb_build_object('projects', v_projects, 'vendors', v_vendors, 'subcategories', v_subcategories);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the API (service role) retires categories
+REVOKE EXECUTE ON FUNCTION retire_service_category(UUID, UUID, BOOLEAN) FROM PUBLIC, anon, authenticated;
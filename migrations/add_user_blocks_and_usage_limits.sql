@@ -0,0 +1,80 @@
+-- Migration: User blocks and usage limits
+-- Description: Tables behind admin-controls-service.ts, enforced by the API (server/lib/usage.ts)
+
+-- 1. Blocks / suspensions
+CREATE TABLE IF NOT EXISTS user_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'active', -- 'active', 'removed'
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+-- 2. Per-user allowances (NULL means the API default)
+CREATE TABLE IF NOT EXISTS usage_limits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  max_projects INTEGER,
+  max_api_calls INTEGER,
+  max_storage_gb NUMERIC,
+  monthly_limit_reset_date INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+ALTER TABLE usage_limits
+ADD COLUMN IF NOT EXISTS max_bids_per_day INTEGER,
+ADD COLUMN IF NOT EXISTS max_messages_per_hour INTEGER,
+ADD COLUMN IF NOT EXISTS max_ai_intake_per_day INTEGER;
+
+-- 3. Monthly rollups used by the client dashboards
+CREATE TABLE IF NOT EXISTS usage_tracking (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  month_year DATE NOT NULL,
+  api_calls INTEGER DEFAULT 0,
+  storage_used_gb NUMERIC DEFAULT 0,
+  project_count INTEGER DEFAULT 0,
+  UNIQUE(user_id, month_year)
+);
+
+-- 4. One row per counted action (bid, message, ai_intake); the API counts rows inside each window
+CREATE TABLE IF NOT EXISTS usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  metric VARCHAR(50) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_metric_time ON usage_events(user_id, metric, created_at);
+
+-- RLS: admins manage blocks and limits from the dashboard; users can see their own
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_tracking ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage user blocks" ON user_blocks
+  FOR ALL USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND profiles.role = 'admin'));
+CREATE POLICY "Users can view their own block" ON user_blocks
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins manage usage limits" ON usage_limits
+  FOR ALL USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND profiles.role = 'admin'));
+CREATE POLICY "Users can view their own limits" ON usage_limits
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins manage usage tracking" ON usage_tracking
+  FOR ALL USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.user_id = auth.uid() AND profiles.role = 'admin'));
+CREATE POLICY "Users can view their own usage" ON usage_tracking
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- usage_events is written by the API only
+CREATE POLICY "Users can view their own usage events" ON usage_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- 5. Permission for the admin usage endpoints
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'usage:read')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,16 @@
+-- Migration: TOTP two-factor authentication
+-- Description: One row per user who started MFA enrollment. Secrets and recovery code hashes are only
+-- read by the API (service role), so the table has RLS enabled with no client policies.
+
+CREATE TABLE IF NOT EXISTS user_mfa (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL, -- base32 TOTP secret
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  recovery_code_hashes TEXT[] NOT NULL DEFAULT '{}', -- sha256 of unused recovery codes
+  last_used_counter BIGINT, -- last accepted TOTP time step, prevents code replay
+  enabled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc', NOW())
+);
+
+ALTER TABLE user_mfa ENABLE ROW LEVEL SECURITY;
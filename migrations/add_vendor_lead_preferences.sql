@@ -0,0 +1,22 @@
+-- Migration: Vendor lead capacity and pause controls
+-- Description: Vendors can cap how many leads they receive per week, skip projects below a
+-- budget or in categories they don't want, and pause new leads until a date. Routing holds
+-- back vendors who hit any of these (server/lib/lead-capacity.ts).
+
+-- 1. Preferences on the vendor profile (NULL / empty = no limit)
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS vendor_weekly_lead_cap INTEGER,
+ADD COLUMN IF NOT EXISTS vendor_min_budget DECIMAL(12, 2),
+ADD COLUMN IF NOT EXISTS vendor_excluded_categories UUID[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS vendor_leads_paused_until DATE;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_vendor_weekly_lead_cap_positive;
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_vendor_weekly_lead_cap_positive CHECK (vendor_weekly_lead_cap IS NULL OR vendor_weekly_lead_cap > 0);
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_vendor_min_budget_non_negative;
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_vendor_min_budget_non_negative CHECK (vendor_min_budget IS NULL OR vendor_min_budget >= 0);
+
+-- 2. Weekly caps count a vendor's leads from the last 7 days
+CREATE INDEX IF NOT EXISTS idx_project_routing_vendor_routed_at ON project_routing(vendor_id, routed_at DESC);
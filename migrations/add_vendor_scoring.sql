@@ -0,0 +1,27 @@
+-- Migration: Weighted vendor scoring for lead routing
+-- Description: Vendor rating used by the scoring engine (server/lib/vendor-scoring.ts) and
+-- indexes for the routing history it reads. Weights live in platform_settings under
+-- 'routing_scoring_config'; the code defaults apply until an admin saves a config.
+
+-- 1. Average review rating out of 5 (NULL until the vendor has been rated)
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS vendor_rating NUMERIC(2, 1) CHECK (vendor_rating IS NULL OR (vendor_rating >= 0 AND vendor_rating <= 5));
+
+-- 2. Routing history lookups by vendor
+CREATE INDEX IF NOT EXISTS idx_project_routing_vendor ON project_routing(vendor_id);
+CREATE INDEX IF NOT EXISTS idx_vendor_responses_vendor ON vendor_responses(vendor_id);
+
+-- 3. Vendors must not be able to rate themselves through direct table updates
+CREATE OR REPLACE FUNCTION protect_profile_admin_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() <> 'service_role' AND (
+    NEW.is_approved IS DISTINCT FROM OLD.is_approved OR
+    NEW.role IS DISTINCT FROM OLD.role OR
+    NEW.vendor_rating IS DISTINCT FROM OLD.vendor_rating
+  ) THEN
+    RAISE EXCEPTION 'is_approved, role and vendor_rating can only be changed by an administrator';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
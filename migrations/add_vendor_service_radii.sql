@@ -0,0 +1,12 @@
+-- Migration: ZIP-radius service areas for vendors
+-- Description: Vendors list one or more base ZIPs with a radius in miles. Routing measures the
+-- distance from each base ZIP to the project ZIP using the bundled centroid table
+-- (server/data/zip-centroids.ts); when a vendor has radii they replace the state check.
+
+-- 1. [{ "base_zip": "55401", "radius_miles": 25 }, ...]
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS vendor_service_radii JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_vendor_service_radii_is_array;
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_vendor_service_radii_is_array CHECK (jsonb_typeof(vendor_service_radii) = 'array');
@@ -0,0 +1,25 @@
+-- Migration: Keep is_approved and role out of reach of direct client updates
+-- Description: Only the service role (the API's audited admin endpoint) may change these columns
+
+CREATE OR REPLACE FUNCTION protect_profile_admin_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() <> 'service_role' AND (
+    NEW.is_approved IS DISTINCT FROM OLD.is_approved OR
+    NEW.role IS DISTINCT FROM OLD.role
+  ) THEN
+    RAISE EXCEPTION 'is_approved and role can only be changed by an administrator';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_profile_admin_fields_update ON profiles;
+CREATE TRIGGER on_profile_admin_fields_update
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW EXECUTE PROCEDURE protect_profile_admin_fields();
+
+-- Permission for POST /api/admin/profiles/:userId/access
+INSERT INTO role_permissions (role, permission) VALUES
+  ('admin', 'profile:manage_access')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,16 @@
+import { runBidDeadlineTick } from "../../server/lib/bid-deadlines";
+
+// Scheduled function (see netlify.toml): closes bidding on projects whose deadline has passed,
+// which startBidDeadlineScheduler does on a timer in the long-running node build
+export const handler = async () => {
+  try {
+    const result = await runBidDeadlineTick();
+    if (result.closed > 0) {
+      console.log("[BIDS] Deadline check:", result);
+    }
+    return { statusCode: 200, body: JSON.stringify({ success: true, ...result }) };
+  } catch (error) {
+    console.error("[BIDS] Deadline check failed:", error);
+    return { statusCode: 500, body: JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }) };
+  }
+};
@@ -0,0 +1,16 @@
+import { runRoutingWaveTick } from "../../server/lib/routing-scheduler";
+
+// Scheduled function (see netlify.toml): the serverless API has no long-running process to
+// host startRoutingWaveScheduler, so Netlify runs the wave check on a cron instead
+export const handler = async () => {
+  try {
+    const result = await runRoutingWaveTick();
+    if (result.checked > 0) {
+      console.log("[ROUTING] Wave check:", result);
+    }
+    return { statusCode: 200, body: JSON.stringify({ success: true, ...result }) };
+  } catch (error) {
+    console.error("[ROUTING] Wave check failed:", error);
+    return { statusCode: 500, body: JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }) };
+  }
+};
@@ -0,0 +1,77 @@
+import dotenv from "dotenv";
+import { supabaseAdmin } from "../server/lib/supabase";
+import { buildProjectFilePath, PROJECT_FILES_BUCKET } from "../server/lib/project-files";
+
+dotenv.config();
+
+// Moves message attachments from the public 'assets' bucket into the private 'project-files'
+// bucket and replaces each message's public image_url with an image_path.
+// Run after migrations/add_private_project_files.sql:
+//   npx tsx scripts/migrate-message-images.ts [--dry-run]
+
+const DRY_RUN = process.argv.includes("--dry-run");
+const PUBLIC_ASSET_URL = /\/storage\/v1\/object\/public\/assets\/(.+?)(\?.*)?$/;
+
+async function migrateMessageImages() {
+  const { data: messages, error } = await supabaseAdmin
+    .from("project_messages")
+    .select("id, project_id, vendor_id, image_url")
+    .not("image_url", "is", null)
+    .is("image_path", null);
+
+  if (error) {
+    console.error("Error fetching messages:", error);
+    process.exit(1);
+  }
+
+  console.log(`${messages.length} message attachment(s) to migrate${DRY_RUN ? " (dry run)" : ""}`);
+  let migrated = 0;
+
+  for (const message of messages) {
+    const match = message.image_url.match(PUBLIC_ASSET_URL);
+    if (!match) {
+      console.warn(`Skipping ${message.id}: not an 'assets' bucket URL (${message.image_url})`);
+      continue;
+    }
+
+    const sourcePath = decodeURIComponent(match[1]);
+    const fileName = sourcePath.split("/").pop();
+    const targetPath = buildProjectFilePath(message.project_id, message.vendor_id, fileName, message.id);
+
+    if (DRY_RUN) {
+      console.log(`${message.id}: assets/${sourcePath} -> ${PROJECT_FILES_BUCKET}/${targetPath}`);
+      continue;
+    }
+
+    const { error: copyError } = await supabaseAdmin.storage
+      .from("assets")
+      .copy(sourcePath, targetPath, { destinationBucket: PROJECT_FILES_BUCKET });
+
+    if (copyError) {
+      console.error(`Failed to copy ${sourcePath} for ${message.id}:`, copyError.message);
+      continue;
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from("project_messages")
+      .update({ image_path: targetPath, image_url: null })
+      .eq("id", message.id);
+
+    if (updateError) {
+      console.error(`Failed to update ${message.id}:`, updateError.message);
+      continue;
+    }
+
+    // The public copy is what leaked; remove it once the message points at the private one
+    const { error: removeError } = await supabaseAdmin.storage.from("assets").remove([sourcePath]);
+    if (removeError) {
+      console.warn(`Copied ${message.id} but could not delete assets/${sourcePath}:`, removeError.message);
+    }
+
+    migrated++;
+  }
+
+  console.log(`Migrated ${migrated} of ${messages.length} attachment(s)`);
+}
+
+migrateMessageImages();
@@ -2,4 +2,5 @@
 export const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 export const SENDGRID_API_KEY = process.env.SENDGRID_API_KEY;
 export const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+export const SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET;
 export const NODE_ENV = process.env.NODE_ENV || 'development';
@@ -0,0 +1,33798 @@
+// US ZIP code centroids (ZIP,latitude,longitude), rounded to 3 decimal places (~100 m).
+// Source: US Census Bureau 2020 ZCTA Gazetteer (public domain), as packaged by us-zips
+// 2021.11.4 (MIT). Bundled so distance matching never needs a network lookup.
+// 33791 ZIPs; regenerate from a newer Gazetteer file when ZCTAs change.
+
+export const ZIP_CENTROIDS_CSV = `
+00601,18.181,-66.75
+00602,18.362,-67.176
+00603,18.458,-67.124
+00606,18.158,-66.933
+00610,18.294,-67.127
+00611,18.276,-66.807
+00612,18.417,-66.7
+00616,18.42,-66.672
+00617,18.447,-66.561
+00622,17.988,-67.16
+00623,18.084,-67.159
+00624,18.052,-66.722
+00627,18.413,-66.864
+00631,18.184,-66.831
+00636,18.164,-67.08
+00637,18.08,-66.948
+00638,18.28,-66.513
+00641,18.268,-66.702
+00646,18.433,-66.286
+00647,17.964,-66.947
+00650,18.349,-66.578
+00652,18.448,-66.594
+00653,17.989,-66.902
+00656,18.04,-66.79
+00659,18.407,-66.809
+00660,18.135,-67.116
+00662,18.468,-67.016
+00664,18.21,-66.592
+00667,18.003,-67.036
+00669,18.277,-66.87
+00670,18.234,-66.988
+00674,18.424,-66.488
+00676,18.382,-67.081
+00677,18.333,-67.227
+00678,18.431,-66.93
+00680,18.183,-67.133
+00682,18.225,-67.154
+00683,18.108,-67.037
+00685,18.337,-66.973
+00687,18.318,-66.42
+00688,18.382,-66.626
+00690,18.494,-67.097
+00692,18.411,-66.336
+00693,18.426,-66.398
+00694,18.483,-66.392
+00698,18.073,-66.851
+00703,18.248,-66.131
+00704,17.973,-66.229
+00705,18.129,-66.267
+00707,18.014,-65.921
+00714,17.996,-66.056
+00715,17.99,-66.566
+00716,17.985,-66.607
+00717,18.003,-66.611
+00718,18.232,-65.756
+00719,18.29,-66.253
+00720,18.217,-66.424
+00723,18.019,-66.002
+00725,18.221,-66.04
+00727,18.212,-66.073
+00728,17.991,-66.663
+00729,18.335,-65.887
+00730,18.031,-66.612
+00731,18.11,-66.636
+00735,18.252,-65.667
+00736,18.104,-66.152
+00738,18.304,-65.699
+00739,18.176,-66.162
+00740,18.334,-65.632
+00741,18.164,-65.754
+00745,18.352,-65.811
+00751,18.004,-66.263
+00754,18.145,-65.972
+00757,17.991,-66.402
+00765,18.124,-65.423
+00766,18.131,-66.472
+00767,18.069,-65.896
+00769,18.097,-66.358
+00771,18.187,-65.871
+00772,18.439,-65.905
+00773,18.343,-65.723
+00775,18.327,-65.308
+00777,18.224,-65.909
+00778,18.264,-65.979
+00780,18.094,-66.566
+00782,18.225,-66.224
+00783,18.3,-66.329
+00784,18.011,-66.134
+00786,18.136,-66.229
+00791,18.143,-65.813
+00794,18.2,-66.309
+00795,18.046,-66.495
+00802,18.343,-64.925
+00820,17.737,-64.708
+00830,18.339,-64.737
+00840,17.725,-64.849
+00850,17.727,-64.792
+00851,17.748,-64.787
+00901,18.467,-66.108
+00906,18.464,-66.095
+00907,18.452,-66.088
+00909,18.441,-66.069
+00911,18.454,-66.056
+00912,18.445,-66.06
+00913,18.465,-66.045
+00915,18.437,-66.046
+00917,18.421,-66.05
+00918,18.422,-66.069
+00920,18.422,-66.092
+00921,18.392,-66.087
+00923,18.411,-66.037
+00924,18.4,-66.013
+00925,18.4,-66.051
+00926,18.349,-66.054
+00927,18.388,-66.07
+00934,18.413,-66.12
+00949,18.41,-66.227
+00950,18.467,-66.238
+00951,18.428,-66.26
+00952,18.429,-66.189
+00953,18.361,-66.252
+00956,18.321,-66.17
+00957,18.366,-66.189
+00959,18.386,-66.156
+00960,18.417,-66.143
+00961,18.41,-66.163
+00962,18.44,-66.135
+00965,18.431,-66.111
+00966,18.398,-66.114
+00968,18.406,-66.101
+00969,18.366,-66.11
+00971,18.319,-66.119
+00976,18.336,-65.994
+00979,18.438,-65.999
+00982,18.409,-65.991
+00983,18.417,-65.981
+00985,18.411,-65.948
+00987,18.344,-65.944
+01001,42.062,-72.626
+01002,42.377,-72.465
+01003,42.392,-72.524
+01005,42.419,-72.112
+01007,42.284,-72.4
+01008,42.192,-72.964
+01009,42.211,-72.342
+01010,42.128,-72.205
+01011,42.29,-72.967
+01012,42.375,-72.858
+01013,42.142,-72.595
+01020,42.173,-72.562
+01022,42.197,-72.542
+01026,42.47,-72.926
+01027,42.295,-72.752
+01028,42.062,-72.498
+01029,42.176,-73.035
+01030,42.073,-72.687
+01031,42.328,-72.192
+01032,42.458,-72.815
+01033,42.245,-72.5
+01034,42.094,-72.961
+01035,42.356,-72.569
+01036,42.071,-72.418
+01037,42.376,-72.197
+01038,42.38,-72.604
+01039,42.411,-72.691
+01040,42.212,-72.642
+01050,42.291,-72.875
+01053,42.356,-72.714
+01054,42.469,-72.485
+01056,42.184,-72.458
+01057,42.094,-72.321
+01060,42.321,-72.63
+01062,42.323,-72.702
+01063,42.32,-72.64
+01066,42.413,-72.624
+01068,42.354,-72.061
+01069,42.189,-72.306
+01070,42.52,-72.925
+01071,42.16,-72.874
+01072,42.457,-72.417
+01073,42.227,-72.742
+01074,42.381,-72.104
+01075,42.257,-72.58
+01077,42.053,-72.777
+01079,42.186,-72.332
+01080,42.186,-72.362
+01081,42.061,-72.234
+01082,42.3,-72.279
+01083,42.207,-72.199
+01084,42.362,-72.875
+01085,42.154,-72.772
+01088,42.383,-72.64
+01089,42.125,-72.65
+01092,42.192,-72.235
+01093,42.445,-72.645
+01094,42.37,-72.139
+01095,42.139,-72.421
+01096,42.411,-72.766
+01097,42.166,-72.831
+01098,42.398,-72.943
+01103,42.104,-72.59
+01104,42.133,-72.567
+01105,42.095,-72.578
+01106,42.046,-72.563
+01107,42.121,-72.607
+01108,42.083,-72.56
+01109,42.12,-72.55
+01118,42.095,-72.525
+01119,42.125,-72.511
+01128,42.092,-72.489
+01129,42.119,-72.488
+01144,42.102,-72.591
+01151,42.152,-72.509
+01201,42.454,-73.282
+01220,42.626,-73.12
+01222,42.063,-73.317
+01223,42.304,-73.111
+01224,42.504,-73.202
+01225,42.565,-73.149
+01226,42.48,-73.154
+01229,42.29,-73.354
+01230,42.173,-73.324
+01235,42.426,-73.063
+01236,42.274,-73.386
+01237,42.55,-73.261
+01238,42.3,-73.231
+01240,42.383,-73.267
+01242,42.334,-73.249
+01243,42.368,-73.054
+01244,42.117,-73.279
+01245,42.193,-73.218
+01247,42.696,-73.094
+01253,42.207,-73.113
+01254,42.382,-73.365
+01255,42.103,-73.126
+01256,42.594,-73.022
+01257,42.085,-73.367
+01258,42.091,-73.47
+01259,42.069,-73.229
+01260,42.262,-73.275
+01262,42.31,-73.324
+01264,42.235,-73.197
+01266,42.312,-73.388
+01267,42.672,-73.247
+01270,42.52,-73.05
+01301,42.627,-72.602
+01330,42.514,-72.822
+01331,42.57,-72.183
+01337,42.689,-72.582
+01338,42.576,-72.807
+01339,42.61,-72.888
+01340,42.686,-72.731
+01341,42.507,-72.702
+01342,42.544,-72.609
+01343,42.648,-72.97
+01344,42.613,-72.426
+01346,42.658,-72.806
+01347,42.563,-72.51
+01349,42.567,-72.468
+01350,42.728,-72.985
+01351,42.54,-72.522
+01354,42.624,-72.509
+01355,42.459,-72.327
+01360,42.677,-72.454
+01364,42.605,-72.292
+01366,42.492,-72.181
+01367,42.693,-72.919
+01368,42.677,-72.184
+01370,42.593,-72.727
+01373,42.475,-72.615
+01375,42.467,-72.547
+01376,42.591,-72.545
+01378,42.68,-72.34
+01379,42.528,-72.398
+01380,42.588,-72.406
+01420,42.585,-71.817
+01430,42.673,-71.92
+01431,42.676,-71.833
+01432,42.567,-71.575
+01434,42.532,-71.614
+01436,42.602,-72.087
+01438,42.561,-72.036
+01440,42.588,-71.986
+01450,42.612,-71.565
+01451,42.502,-71.568
+01452,42.495,-72.002
+01453,42.52,-71.763
+01460,42.536,-71.491
+01462,42.583,-71.72
+01463,42.671,-71.603
+01464,42.574,-71.641
+01468,42.543,-72.068
+01469,42.665,-71.695
+01473,42.555,-71.905
+01474,42.673,-71.748
+01475,42.668,-72.056
+01501,42.199,-71.846
+01503,42.385,-71.634
+01504,42.04,-71.532
+01505,42.355,-71.716
+01506,42.181,-72.108
+01507,42.134,-71.968
+01510,42.412,-71.69
+01515,42.21,-72.04
+01516,42.053,-71.752
+01518,42.108,-72.114
+01519,42.203,-71.68
+01520,42.334,-71.854
+01521,42.047,-72.18
+01522,42.376,-71.867
+01523,42.484,-71.676
+01524,42.246,-71.918
+01525,42.099,-71.643
+01527,42.192,-71.778
+01529,42.037,-71.579
+01531,42.326,-72.133
+01532,42.323,-71.646
+01534,42.139,-71.645
+01535,42.268,-72.067
+01536,42.231,-71.693
+01537,42.159,-71.897
+01540,42.114,-71.861
+01541,42.454,-71.878
+01542,42.204,-71.909
+01543,42.388,-71.97
+01545,42.285,-71.714
+01550,42.06,-72.034
+01560,42.175,-71.674
+01561,42.446,-71.688
+01562,42.247,-71.992
+01564,42.448,-71.776
+01566,42.103,-72.08
+01568,42.178,-71.606
+01569,42.056,-71.631
+01570,42.049,-71.846
+01571,42.054,-71.935
+01581,42.268,-71.613
+01583,42.375,-71.789
+01585,42.237,-72.162
+01588,42.116,-71.665
+01590,42.132,-71.75
+01602,42.269,-71.851
+01603,42.244,-71.844
+01604,42.253,-71.768
+01605,42.29,-71.788
+01606,42.314,-71.794
+01607,42.226,-71.789
+01608,42.262,-71.801
+01609,42.285,-71.83
+01610,42.247,-71.808
+01611,42.241,-71.877
+01612,42.297,-71.929
+01701,42.32,-71.443
+01702,42.282,-71.437
+01718,42.523,-71.43
+01719,42.486,-71.521
+01720,42.484,-71.438
+01721,42.258,-71.474
+01730,42.499,-71.282
+01731,42.465,-71.285
+01740,42.44,-71.602
+01741,42.537,-71.361
+01742,42.463,-71.364
+01745,42.292,-71.499
+01746,42.196,-71.453
+01747,42.123,-71.531
+01748,42.224,-71.54
+01749,42.389,-71.546
+01752,42.35,-71.547
+01754,42.426,-71.456
+01756,42.094,-71.545
+01757,42.159,-71.521
+01760,42.285,-71.349
+01770,42.232,-71.373
+01772,42.303,-71.531
+01773,42.426,-71.311
+01775,42.43,-71.513
+01776,42.383,-71.421
+01778,42.356,-71.362
+01801,42.489,-71.154
+01803,42.503,-71.202
+01810,42.648,-71.162
+01821,42.549,-71.252
+01824,42.591,-71.355
+01826,42.68,-71.301
+01827,42.676,-71.5
+01830,42.796,-71.053
+01832,42.791,-71.133
+01833,42.726,-70.983
+01834,42.754,-71.016
+01835,42.751,-71.094
+01840,42.707,-71.16
+01841,42.715,-71.148
+01843,42.69,-71.16
+01844,42.743,-71.179
+01845,42.674,-71.091
+01850,42.656,-71.303
+01851,42.628,-71.337
+01852,42.633,-71.296
+01854,42.649,-71.348
+01860,42.839,-71.012
+01862,42.579,-71.296
+01863,42.63,-71.398
+01864,42.578,-71.084
+01867,42.535,-71.105
+01876,42.612,-71.227
+01879,42.668,-71.429
+01880,42.504,-71.064
+01886,42.586,-71.44
+01887,42.565,-71.165
+01890,42.453,-71.144
+01901,42.46,-70.946
+01902,42.471,-70.942
+01904,42.491,-70.971
+01905,42.462,-70.972
+01906,42.47,-71.013
+01907,42.474,-70.907
+01908,42.428,-70.926
+01913,42.851,-70.956
+01915,42.57,-70.868
+01921,42.683,-71.027
+01922,42.757,-70.914
+01923,42.574,-70.951
+01929,42.64,-70.771
+01930,42.62,-70.678
+01937,42.586,-70.984
+01938,42.686,-70.84
+01940,42.534,-71.038
+01944,42.577,-70.767
+01945,42.504,-70.852
+01949,42.61,-71.006
+01950,42.812,-70.891
+01951,42.773,-70.85
+01952,42.845,-70.841
+01960,42.534,-70.969
+01965,42.564,-70.825
+01966,42.641,-70.62
+01969,42.721,-70.887
+01970,42.529,-70.868
+01982,42.626,-70.857
+01983,42.641,-70.943
+01984,42.601,-70.883
+01985,42.8,-70.964
+02019,42.077,-71.474
+02021,42.176,-71.125
+02025,42.236,-70.814
+02026,42.247,-71.179
+02030,42.234,-71.291
+02032,42.157,-71.216
+02035,42.061,-71.246
+02038,42.085,-71.411
+02043,42.216,-70.881
+02045,42.286,-70.88
+02047,42.146,-70.695
+02048,42.017,-71.216
+02050,42.115,-70.71
+02052,42.185,-71.305
+02053,42.156,-71.43
+02054,42.173,-71.364
+02056,42.116,-71.329
+02061,42.165,-70.819
+02062,42.187,-71.192
+02066,42.202,-70.758
+02067,42.108,-71.182
+02071,42.106,-71.269
+02072,42.119,-71.104
+02081,42.147,-71.258
+02090,42.22,-71.217
+02093,42.053,-71.357
+02108,42.355,-71.066
+02109,42.367,-71.05
+02110,42.358,-71.052
+02111,42.351,-71.061
+02113,42.365,-71.055
+02114,42.364,-71.067
+02115,42.339,-71.095
+02116,42.351,-71.077
+02118,42.338,-71.07
+02119,42.324,-71.085
+02120,42.332,-71.097
+02121,42.305,-71.087
+02122,42.295,-71.053
+02124,42.286,-71.075
+02125,42.316,-71.056
+02126,42.277,-71.09
+02127,42.335,-71.038
+02128,42.362,-71.007
+02129,42.38,-71.061
+02130,42.308,-71.113
+02131,42.282,-71.125
+02132,42.279,-71.16
+02133,42.358,-71.064
+02134,42.359,-71.13
+02135,42.35,-71.154
+02136,42.255,-71.127
+02138,42.38,-71.135
+02139,42.362,-71.102
+02140,42.392,-71.134
+02141,42.37,-71.083
+02142,42.363,-71.081
+02143,42.381,-71.097
+02144,42.4,-71.123
+02145,42.392,-71.09
+02148,42.429,-71.059
+02149,42.406,-71.055
+02150,42.397,-71.031
+02151,42.418,-71.001
+02152,42.377,-70.977
+02155,42.424,-71.108
+02163,42.367,-71.125
+02169,42.24,-71.015
+02170,42.266,-71.016
+02171,42.291,-71.026
+02176,42.456,-71.059
+02180,42.474,-71.098
+02184,42.206,-71.002
+02186,42.242,-71.082
+02188,42.205,-70.958
+02189,42.212,-70.93
+02190,42.167,-70.952
+02191,42.245,-70.947
+02199,42.347,-71.082
+02203,42.361,-71.059
+02205,42.349,-71.056
+02210,42.348,-71.039
+02215,42.348,-71.103
+02301,42.078,-71.042
+02302,42.089,-70.998
+02322,42.132,-71.054
+02324,41.972,-70.979
+02325,41.99,-70.962
+02330,41.875,-70.747
+02332,42.044,-70.706
+02333,42.037,-70.942
+02338,42.003,-70.864
+02339,42.123,-70.856
+02341,42.05,-70.867
+02343,42.14,-70.998
+02346,41.878,-70.869
+02347,41.834,-70.957
+02350,42.021,-70.846
+02351,42.116,-70.957
+02356,42.061,-71.12
+02357,42.064,-71.077
+02359,42.068,-70.806
+02360,41.882,-70.631
+02364,41.987,-70.742
+02366,41.849,-70.661
+02367,41.959,-70.803
+02368,42.179,-71.053
+02370,42.129,-70.909
+02375,42.006,-71.078
+02379,42.022,-71.027
+02382,42.079,-70.939
+02420,42.459,-71.218
+02421,42.439,-71.24
+02445,42.325,-71.135
+02446,42.343,-71.122
+02451,42.402,-71.253
+02452,42.396,-71.22
+02453,42.369,-71.241
+02457,42.298,-71.273
+02458,42.354,-71.188
+02459,42.315,-71.192
+02460,42.352,-71.208
+02461,42.317,-71.207
+02462,42.332,-71.256
+02464,42.313,-71.219
+02465,42.35,-71.227
+02466,42.346,-71.248
+02467,42.314,-71.153
+02468,42.329,-71.232
+02472,42.369,-71.178
+02474,42.421,-71.156
+02476,42.416,-71.173
+02478,42.395,-71.18
+02481,42.311,-71.278
+02482,42.293,-71.296
+02492,42.276,-71.244
+02493,42.361,-71.303
+02494,42.3,-71.231
+02532,41.75,-70.595
+02534,41.669,-70.615
+02535,41.338,-70.762
+02536,41.596,-70.567
+02537,41.728,-70.436
+02538,41.777,-70.642
+02539,41.378,-70.522
+02540,41.569,-70.627
+02542,41.708,-70.546
+02543,41.472,-70.785
+02553,41.713,-70.622
+02554,41.29,-70.096
+02556,41.639,-70.625
+02557,41.446,-70.562
+02558,41.746,-70.652
+02559,41.69,-70.616
+02561,41.768,-70.533
+02562,41.788,-70.528
+02563,41.751,-70.503
+02564,41.272,-69.985
+02568,41.449,-70.616
+02571,41.751,-70.699
+02575,41.394,-70.656
+02576,41.772,-70.763
+02584,41.258,-70.005
+02601,41.661,-70.293
+02630,41.707,-70.312
+02631,41.748,-70.066
+02632,41.659,-70.347
+02633,41.687,-69.98
+02635,41.624,-70.439
+02637,41.706,-70.271
+02638,41.73,-70.197
+02639,41.668,-70.137
+02641,41.754,-70.155
+02642,41.842,-69.975
+02643,41.754,-69.935
+02644,41.683,-70.511
+02645,41.701,-70.062
+02646,41.671,-70.071
+02647,41.63,-70.31
+02648,41.67,-70.412
+02649,41.618,-70.493
+02650,41.702,-69.961
+02652,42.05,-70.095
+02653,41.769,-69.974
+02655,41.628,-70.392
+02657,42.06,-70.2
+02659,41.681,-70.024
+02660,41.709,-70.157
+02663,41.898,-69.97
+02664,41.675,-70.194
+02666,41.985,-70.038
+02667,41.923,-70.021
+02668,41.714,-70.356
+02670,41.66,-70.171
+02671,41.67,-70.111
+02672,41.636,-70.314
+02673,41.653,-70.247
+02675,41.704,-70.232
+02702,41.785,-71.059
+02703,41.932,-71.295
+02713,41.427,-70.886
+02715,41.806,-71.158
+02717,41.759,-70.988
+02718,41.862,-71.012
+02719,41.634,-70.871
+02720,41.727,-71.11
+02721,41.674,-71.149
+02723,41.692,-71.132
+02724,41.683,-71.178
+02725,41.72,-71.188
+02726,41.76,-71.145
+02738,41.706,-70.75
+02739,41.666,-70.816
+02740,41.638,-70.938
+02743,41.71,-70.898
+02744,41.606,-70.914
+02745,41.703,-70.947
+02746,41.664,-70.948
+02747,41.658,-71.013
+02748,41.553,-70.971
+02760,41.973,-71.334
+02762,42.013,-71.336
+02763,41.967,-71.309
+02764,41.852,-71.154
+02766,41.965,-71.182
+02767,41.941,-71.048
+02769,41.847,-71.245
+02770,41.761,-70.839
+02771,41.84,-71.318
+02777,41.758,-71.214
+02779,41.838,-71.078
+02780,41.909,-71.118
+02790,41.599,-71.082
+02791,41.531,-71.085
+02802,41.952,-71.456
+02804,41.433,-71.77
+02806,41.733,-71.32
+02807,41.177,-71.577
+02808,41.411,-71.739
+02809,41.676,-71.273
+02812,41.478,-71.658
+02813,41.394,-71.67
+02814,41.896,-71.705
+02815,41.779,-71.662
+02816,41.696,-71.623
+02817,41.629,-71.659
+02818,41.643,-71.486
+02822,41.575,-71.587
+02823,41.733,-71.544
+02824,41.999,-71.562
+02825,41.782,-71.727
+02826,41.987,-71.648
+02827,41.699,-71.739
+02828,41.878,-71.561
+02829,41.893,-71.589
+02830,41.976,-71.656
+02831,41.746,-71.585
+02832,41.507,-71.728
+02833,41.486,-71.785
+02835,41.51,-71.378
+02836,41.454,-71.62
+02837,41.519,-71.167
+02838,41.965,-71.479
+02839,41.945,-71.643
+02840,41.477,-71.32
+02841,41.507,-71.33
+02842,41.517,-71.273
+02852,41.589,-71.46
+02857,41.823,-71.634
+02858,41.964,-71.65
+02859,41.959,-71.757
+02860,41.871,-71.389
+02861,41.879,-71.353
+02863,41.89,-71.393
+02864,41.967,-71.421
+02865,41.915,-71.45
+02871,41.587,-71.259
+02872,41.597,-71.321
+02873,41.533,-71.781
+02874,41.509,-71.474
+02875,41.459,-71.638
+02876,41.997,-71.584
+02878,41.607,-71.183
+02879,41.429,-71.538
+02881,41.482,-71.527
+02882,41.417,-71.472
+02885,41.726,-71.259
+02886,41.702,-71.455
+02888,41.748,-71.408
+02889,41.701,-71.378
+02891,41.358,-71.79
+02892,41.499,-71.602
+02893,41.68,-71.521
+02894,41.444,-71.699
+02895,42.002,-71.5
+02896,41.975,-71.544
+02898,41.518,-71.669
+02903,41.819,-71.41
+02904,41.858,-71.436
+02905,41.785,-71.396
+02906,41.839,-71.389
+02907,41.799,-71.425
+02908,41.839,-71.439
+02909,41.818,-71.452
+02910,41.775,-71.436
+02911,41.855,-71.473
+02912,41.826,-71.403
+02914,41.814,-71.366
+02915,41.772,-71.354
+02916,41.843,-71.352
+02917,41.906,-71.524
+02918,41.844,-71.435
+02919,41.827,-71.52
+02920,41.767,-71.466
+02921,41.763,-71.515
+03031,42.875,-71.601
+03032,42.994,-71.364
+03033,42.749,-71.676
+03034,43.057,-71.341
+03036,42.985,-71.255
+03037,43.136,-71.255
+03038,42.893,-71.277
+03042,43.051,-71.088
+03043,42.994,-71.816
+03044,43,-71.119
+03045,43.022,-71.563
+03046,43.112,-71.607
+03047,42.939,-71.879
+03048,42.743,-71.762
+03049,42.75,-71.585
+03051,42.76,-71.409
+03052,42.846,-71.468
+03053,42.869,-71.387
+03054,42.852,-71.52
+03055,42.819,-71.673
+03057,42.909,-71.694
+03060,42.741,-71.458
+03062,42.722,-71.501
+03063,42.782,-71.518
+03064,42.779,-71.475
+03070,42.976,-71.687
+03071,42.746,-71.874
+03076,42.731,-71.337
+03077,43.033,-71.203
+03079,42.788,-71.222
+03082,42.896,-71.768
+03084,42.827,-71.875
+03086,42.832,-71.76
+03087,42.811,-71.303
+03101,42.989,-71.466
+03102,43.012,-71.491
+03103,42.956,-71.442
+03104,43.01,-71.44
+03106,43.081,-71.447
+03109,42.964,-71.4
+03110,42.936,-71.537
+03215,44.069,-71.42
+03216,43.451,-71.791
+03217,43.726,-71.643
+03218,43.337,-71.274
+03220,43.474,-71.482
+03221,43.258,-71.96
+03222,43.644,-71.799
+03223,43.855,-71.685
+03224,43.351,-71.548
+03225,43.364,-71.242
+03226,43.703,-71.51
+03227,43.817,-71.461
+03229,43.202,-71.697
+03230,43.528,-71.864
+03231,43.451,-71.754
+03233,43.424,-71.931
+03234,43.205,-71.349
+03235,43.449,-71.674
+03237,43.432,-71.388
+03238,43.982,-71.887
+03240,43.575,-71.952
+03241,43.708,-71.815
+03242,43.169,-71.831
+03243,43.528,-71.769
+03244,43.12,-71.922
+03245,43.762,-71.583
+03246,43.577,-71.482
+03249,43.519,-71.376
+03251,44.095,-71.631
+03253,43.631,-71.499
+03254,43.717,-71.366
+03255,43.314,-72.025
+03256,43.623,-71.633
+03257,43.418,-71.991
+03258,43.265,-71.409
+03259,43.878,-71.499
+03260,43.368,-71.918
+03261,43.212,-71.223
+03262,44,-71.714
+03263,43.289,-71.309
+03264,43.739,-71.703
+03266,43.783,-71.885
+03268,43.386,-71.773
+03269,43.529,-71.601
+03273,43.302,-71.927
+03275,43.17,-71.421
+03276,43.431,-71.576
+03278,43.309,-71.836
+03279,43.966,-71.859
+03280,43.19,-72.094
+03281,43.078,-71.704
+03282,43.859,-71.924
+03284,43.473,-72.013
+03285,43.948,-71.636
+03287,43.443,-71.922
+03290,43.13,-71.132
+03291,43.18,-71.142
+03293,43.979,-71.673
+03301,43.239,-71.556
+03303,43.312,-71.665
+03304,43.133,-71.537
+03307,43.334,-71.447
+03431,42.969,-72.302
+03440,43.064,-71.978
+03441,42.781,-72.447
+03442,43.02,-71.904
+03443,42.869,-72.466
+03444,42.889,-72.07
+03445,43.021,-72.214
+03446,42.858,-72.296
+03447,42.753,-72.153
+03448,43.041,-72.262
+03449,42.984,-72.001
+03450,42.949,-72.069
+03451,42.809,-72.505
+03452,42.829,-72.06
+03455,42.902,-72.173
+03456,43.139,-72.209
+03457,42.999,-72.122
+03458,42.868,-71.94
+03461,42.757,-72.013
+03462,42.893,-72.39
+03464,43.081,-72.11
+03465,42.829,-72.189
+03466,42.882,-72.508
+03467,42.968,-72.431
+03470,42.771,-72.354
+03561,44.343,-71.795
+03570,44.511,-71.198
+03574,44.26,-71.609
+03575,44.314,-71.403
+03576,44.896,-71.378
+03579,44.937,-71.045
+03580,44.163,-71.693
+03581,44.367,-71.087
+03582,44.565,-71.443
+03583,44.403,-71.457
+03584,44.49,-71.548
+03585,44.225,-71.903
+03586,44.218,-71.8
+03588,44.608,-71.237
+03590,44.715,-71.528
+03592,45.116,-71.261
+03593,44.301,-71.3
+03595,44.305,-71.497
+03597,44.745,-71.381
+03598,44.379,-71.629
+03601,43.246,-72.313
+03602,43.141,-72.348
+03603,43.248,-72.374
+03604,43.132,-72.39
+03605,43.237,-72.185
+03607,43.198,-72.262
+03608,43.076,-72.396
+03609,43.144,-72.446
+03740,44.183,-71.987
+03741,43.677,-72.007
+03743,43.361,-72.327
+03745,43.473,-72.312
+03748,43.603,-72.119
+03750,43.721,-72.185
+03751,43.441,-72.082
+03752,43.272,-72.101
+03753,43.517,-72.149
+03755,43.732,-72.139
+03765,44.035,-72.05
+03766,43.633,-72.235
+03768,43.817,-72.094
+03770,43.531,-72.259
+03771,44.297,-71.981
+03773,43.371,-72.203
+03774,44.1,-71.985
+03777,43.883,-72.034
+03779,43.962,-72.001
+03780,44.042,-71.991
+03781,43.56,-72.299
+03782,43.39,-72.093
+03784,43.638,-72.306
+03785,44.036,-71.847
+03801,43.075,-70.805
+03809,43.465,-71.2
+03810,43.513,-71.295
+03811,42.839,-71.167
+03812,44.081,-71.297
+03813,44.127,-71.061
+03814,43.771,-71.182
+03816,43.698,-71.243
+03817,43.889,-71.241
+03818,43.959,-71.274
+03819,42.944,-71.132
+03820,43.186,-70.884
+03823,43.175,-70.941
+03824,43.117,-70.919
+03825,43.216,-71.039
+03826,42.888,-71.13
+03827,42.904,-70.996
+03830,43.614,-70.994
+03832,43.907,-71.048
+03833,42.979,-70.98
+03835,43.367,-71.063
+03836,43.842,-71.075
+03837,43.422,-71.336
+03838,44.111,-71.223
+03839,43.269,-70.986
+03840,43.04,-70.846
+03841,42.879,-71.178
+03842,42.94,-70.837
+03844,42.925,-70.886
+03845,44.105,-71.116
+03846,44.188,-71.156
+03847,44.072,-71.124
+03848,42.914,-71.074
+03849,43.89,-71.133
+03850,43.698,-71.303
+03851,43.437,-71.025
+03852,43.495,-70.986
+03853,43.639,-71.294
+03854,43.062,-70.717
+03855,43.464,-71.152
+03856,43.039,-70.968
+03857,43.071,-70.947
+03858,42.87,-71.046
+03860,44.042,-71.123
+03861,43.119,-71.007
+03862,42.98,-70.829
+03864,43.69,-71.103
+03865,42.846,-71.093
+03867,43.302,-70.992
+03868,43.324,-70.94
+03869,43.22,-70.843
+03870,43.02,-70.761
+03871,42.981,-70.777
+03872,43.571,-71.043
+03873,42.934,-71.184
+03874,42.883,-70.861
+03875,43.904,-71.192
+03878,43.253,-70.888
+03882,43.747,-71.042
+03883,43.809,-71.32
+03884,43.275,-71.17
+03885,43.015,-70.903
+03886,43.864,-71.296
+03887,43.483,-71.071
+03890,43.815,-71.209
+03894,43.61,-71.178
+03897,43.907,-71.328
+03901,43.299,-70.842
+03902,43.215,-70.629
+03903,43.147,-70.774
+03904,43.11,-70.734
+03905,43.005,-70.604
+03906,43.352,-70.779
+03907,43.256,-70.613
+03908,43.231,-70.752
+03909,43.166,-70.679
+03910,43.173,-70.61
+03911,43.136,-70.638
+04001,43.537,-70.94
+04002,43.489,-70.662
+04003,43.734,-69.971
+04005,43.492,-70.487
+04006,43.444,-70.343
+04008,44.044,-69.864
+04009,44.048,-70.743
+04010,43.931,-70.919
+04011,43.896,-69.973
+04015,43.952,-70.513
+04017,43.735,-70.081
+04019,43.69,-70.11
+04020,43.767,-70.809
+04021,43.792,-70.265
+04022,43.996,-70.814
+04024,43.836,-70.685
+04027,43.4,-70.913
+04029,43.888,-70.655
+04030,43.589,-70.696
+04032,43.845,-70.09
+04037,44.102,-70.943
+04038,43.701,-70.463
+04039,43.905,-70.368
+04040,44.143,-70.825
+04041,43.849,-70.831
+04042,43.631,-70.614
+04043,43.396,-70.57
+04046,43.43,-70.474
+04047,43.733,-70.894
+04048,43.688,-70.782
+04049,43.746,-70.7
+04050,43.687,-70.154
+04051,44.192,-70.886
+04055,43.976,-70.639
+04056,43.661,-70.859
+04057,44.096,-70.702
+04061,43.635,-70.744
+04062,43.795,-70.405
+04063,43.5,-70.395
+04064,43.525,-70.388
+04066,43.766,-69.967
+04068,43.838,-70.947
+04069,43.904,-70.182
+04071,43.891,-70.497
+04072,43.55,-70.466
+04073,43.412,-70.737
+04074,43.59,-70.366
+04076,43.554,-70.833
+04079,43.791,-69.981
+04083,43.464,-70.814
+04084,43.762,-70.567
+04085,43.779,-70.628
+04086,43.965,-69.956
+04087,43.569,-70.744
+04088,44.203,-70.722
+04090,43.331,-70.646
+04091,43.839,-70.745
+04092,43.708,-70.353
+04093,43.636,-70.539
+04095,43.629,-70.914
+04096,43.788,-70.156
+04097,43.846,-70.241
+04101,43.663,-70.258
+04102,43.654,-70.298
+04103,43.695,-70.289
+04105,43.74,-70.277
+04106,43.631,-70.286
+04107,43.587,-70.236
+04108,43.637,-70.187
+04109,43.663,-70.222
+04110,43.741,-70.181
+04210,44.085,-70.25
+04216,44.68,-70.847
+04217,44.393,-70.837
+04219,44.401,-70.558
+04220,44.343,-70.347
+04221,44.491,-70.295
+04222,43.956,-70.132
+04224,44.561,-70.414
+04226,44.626,-70.708
+04227,44.569,-70.295
+04231,44.263,-70.875
+04234,44.616,-70.194
+04236,44.19,-70.145
+04237,44.495,-70.734
+04238,44.191,-70.384
+04239,44.517,-70.202
+04240,44.09,-70.172
+04250,44.022,-70.117
+04252,44.037,-70.059
+04253,44.412,-70.216
+04254,44.445,-70.138
+04255,44.333,-70.661
+04256,44.105,-70.405
+04257,44.553,-70.495
+04258,44.138,-70.336
+04259,44.234,-70.015
+04260,43.958,-70.296
+04261,44.566,-70.963
+04263,44.295,-70.133
+04265,44.281,-70.037
+04267,44.225,-70.771
+04268,44.226,-70.61
+04270,44.117,-70.527
+04271,44.261,-70.499
+04274,44.048,-70.394
+04275,44.703,-70.648
+04276,44.56,-70.625
+04280,44.117,-70.063
+04281,44.248,-70.491
+04282,44.267,-70.247
+04284,44.34,-70.047
+04285,44.689,-70.454
+04286,44.403,-70.86
+04287,44.073,-69.971
+04289,44.319,-70.523
+04290,44.461,-70.452
+04292,44.381,-70.449
+04294,44.638,-70.275
+04330,44.352,-69.748
+04341,44.26,-69.555
+04342,44.086,-69.737
+04344,44.261,-69.828
+04345,44.195,-69.794
+04346,44.237,-69.751
+04347,44.287,-69.818
+04348,44.211,-69.499
+04349,44.434,-70.067
+04350,44.172,-69.934
+04351,44.342,-69.862
+04352,44.466,-69.96
+04353,44.198,-69.62
+04354,44.396,-69.431
+04355,44.384,-69.95
+04357,44.117,-69.83
+04358,44.414,-69.535
+04359,44.18,-69.761
+04360,44.555,-70
+04363,44.315,-69.571
+04364,44.31,-69.963
+04401,44.849,-68.85
+04406,45.229,-69.597
+04408,44.987,-68.21
+04410,45.088,-68.907
+04411,44.894,-68.547
+04412,44.784,-68.735
+04413,45.566,-67.815
+04414,45.413,-69.09
+04415,45.353,-69.058
+04416,44.624,-68.75
+04417,45.214,-68.389
+04418,45.116,-68.509
+04419,44.8,-69.003
+04421,44.409,-68.816
+04422,45.078,-69.031
+04424,45.669,-67.863
+04426,45.186,-69.146
+04427,44.98,-69.011
+04428,44.806,-68.554
+04429,44.721,-68.617
+04430,45.654,-68.597
+04431,44.565,-68.668
+04434,44.764,-69.128
+04435,44.963,-69.125
+04438,44.599,-68.928
+04441,45.688,-69.309
+04442,45.473,-69.696
+04443,45.238,-69.402
+04444,44.729,-68.95
+04448,45.316,-68.74
+04449,44.993,-68.888
+04450,44.916,-68.928
+04451,45.577,-68.212
+04453,45.191,-68.788
+04454,45.516,-67.534
+04455,45.299,-68.26
+04456,44.877,-68.997
+04457,45.446,-68.534
+04459,45.589,-68.34
+04460,45.641,-68.525
+04461,44.993,-68.576
+04462,45.996,-68.928
+04463,45.287,-68.895
+04464,45.297,-69.499
+04468,45.028,-68.719
+04469,44.903,-68.666
+04471,45.917,-67.857
+04472,44.576,-68.67
+04473,44.882,-68.739
+04474,44.689,-68.763
+04475,45.193,-68.595
+04476,44.483,-68.706
+04478,45.728,-69.768
+04479,45.124,-69.287
+04481,45.243,-69.105
+04485,45.348,-69.603
+04487,45.388,-68.104
+04488,44.872,-69.114
+04489,44.911,-68.691
+04490,45.394,-67.828
+04491,45.562,-67.521
+04492,45.337,-67.669
+04493,45.278,-68.536
+04495,45.477,-68.339
+04496,44.651,-68.909
+04497,45.727,-68.058
+04530,43.888,-69.827
+04535,44.098,-69.629
+04537,43.902,-69.627
+04538,43.847,-69.63
+04539,43.974,-69.502
+04541,43.887,-69.484
+04543,44.022,-69.491
+04544,43.82,-69.592
+04547,43.979,-69.333
+04548,43.833,-69.749
+04551,43.985,-69.435
+04553,44.052,-69.568
+04554,43.863,-69.512
+04555,44.101,-69.483
+04556,43.976,-69.611
+04558,43.888,-69.519
+04562,43.771,-69.819
+04563,44.014,-69.259
+04564,43.929,-69.47
+04568,43.886,-69.558
+04570,43.809,-69.631
+04571,43.897,-69.674
+04572,44.122,-69.383
+04573,43.951,-69.552
+04574,44.261,-69.392
+04575,43.852,-69.662
+04576,43.813,-69.663
+04578,43.982,-69.693
+04579,43.96,-69.769
+04605,44.686,-68.395
+04606,44.541,-67.712
+04607,44.467,-68.087
+04609,44.397,-68.264
+04611,44.464,-67.622
+04612,44.262,-68.381
+04613,44.369,-68.028
+04614,44.401,-68.52
+04616,44.276,-68.535
+04617,44.365,-68.727
+04619,45.143,-67.218
+04622,44.752,-67.965
+04623,44.699,-67.714
+04624,44.424,-67.986
+04625,44.251,-68.21
+04626,44.669,-67.222
+04627,44.231,-68.792
+04628,44.874,-67.274
+04630,44.866,-67.475
+04631,44.911,-67.009
+04634,44.62,-68.22
+04635,44.113,-68.358
+04640,44.525,-68.285
+04642,44.331,-68.81
+04643,44.54,-67.827
+04645,44.067,-68.616
+04646,44.26,-68.229
+04648,44.655,-67.632
+04649,44.56,-67.504
+04650,44.297,-68.715
+04652,44.82,-67.062
+04653,44.201,-68.327
+04654,44.69,-67.5
+04655,44.656,-67.379
+04657,44.982,-67.443
+04658,44.507,-67.878
+04660,44.336,-68.346
+04662,44.307,-68.287
+04664,44.544,-68.136
+04666,44.961,-67.221
+04667,44.984,-67.101
+04668,45.196,-67.694
+04669,44.412,-67.998
+04671,45.067,-67.15
+04673,44.296,-68.668
+04674,44.257,-68.458
+04675,44.3,-68.246
+04676,44.347,-68.634
+04677,44.473,-68.181
+04679,44.28,-68.318
+04680,44.478,-67.947
+04681,44.15,-68.645
+04683,44.236,-68.824
+04684,44.467,-68.507
+04685,44.158,-68.442
+04686,44.997,-67.694
+04691,44.76,-67.255
+04693,44.376,-68.094
+04694,45.115,-67.478
+04730,46.191,-67.861
+04732,46.571,-68.491
+04733,45.743,-68.411
+04734,46.485,-67.923
+04735,46.379,-68.027
+04736,46.911,-68.029
+04737,46.616,-69.522
+04739,46.977,-68.599
+04740,46.633,-67.848
+04742,46.776,-67.859
+04743,47.161,-68.731
+04745,47.274,-68.398
+04746,47.251,-68.143
+04747,45.968,-68.208
+04750,46.955,-67.857
+04756,47.322,-68.298
+04757,46.572,-68.199
+04758,46.559,-67.853
+04760,46.334,-67.918
+04761,46.117,-67.976
+04762,46.976,-68.115
+04763,46.074,-68.114
+04764,46.367,-68.341
+04765,46.077,-68.671
+04766,46.892,-68.216
+04768,46.797,-69.055
+04769,46.689,-67.992
+04772,47.236,-68.317
+04773,47.267,-68.223
+04774,47.124,-69.015
+04776,45.818,-68.311
+04777,45.844,-68.473
+04779,47.116,-68.308
+04780,46.171,-68.267
+04781,47.15,-68.613
+04783,47.036,-68.187
+04785,47.12,-68.036
+04786,46.795,-68.192
+04787,46.533,-67.966
+04841,44.134,-69.133
+04843,44.238,-69.064
+04847,44.241,-69.189
+04848,44.299,-68.915
+04849,44.316,-69.026
+04851,43.859,-68.879
+04852,43.767,-69.31
+04853,44.136,-68.867
+04854,44.046,-69.093
+04855,43.932,-69.288
+04856,44.181,-69.122
+04858,44.047,-69.154
+04859,43.997,-69.159
+04860,43.944,-69.243
+04861,44.108,-69.171
+04862,44.263,-69.278
+04863,44.069,-68.853
+04864,44.128,-69.244
+04901,44.541,-69.573
+04910,44.508,-69.445
+04911,44.78,-69.971
+04912,44.965,-69.667
+04915,44.464,-69.038
+04917,44.488,-69.839
+04918,44.55,-69.866
+04920,45.106,-69.805
+04921,44.581,-69.144
+04922,44.674,-69.386
+04923,45.044,-69.45
+04924,44.782,-69.546
+04925,45.212,-69.903
+04926,44.48,-69.515
+04927,44.665,-69.541
+04928,44.947,-69.259
+04929,44.773,-69.302
+04930,45.028,-69.326
+04932,44.698,-69.144
+04936,45.355,-70.657
+04937,44.652,-69.661
+04938,44.662,-70.103
+04939,45.077,-69.159
+04940,44.618,-70.079
+04941,44.47,-69.284
+04942,45.043,-69.593
+04943,44.88,-69.52
+04944,44.687,-69.644
+04945,45.577,-70.278
+04947,45.047,-70.269
+04949,44.369,-69.336
+04950,44.826,-69.8
+04951,44.598,-69.058
+04952,44.413,-69.155
+04953,44.867,-69.219
+04955,44.647,-69.993
+04956,44.799,-70.097
+04957,44.714,-69.864
+04958,44.909,-69.927
+04961,45.152,-70.161
+04963,44.589,-69.887
+04964,44.944,-70.826
+04965,44.843,-69.368
+04966,44.786,-70.535
+04967,44.77,-69.434
+04969,44.785,-69.236
+04970,45.008,-70.618
+04971,44.938,-69.397
+04973,44.368,-69.186
+04974,44.471,-68.929
+04975,44.625,-69.588
+04976,44.789,-69.668
+04978,44.642,-69.8
+04979,44.939,-69.808
+04981,44.514,-68.839
+04982,45.107,-70.394
+04983,44.926,-70.286
+04984,44.697,-70.267
+04985,45.377,-69.899
+04986,44.549,-69.211
+04987,44.674,-69.252
+04988,44.57,-69.362
+04989,44.429,-69.648
+04992,44.66,-70.156
+05001,43.684,-72.376
+05009,43.648,-72.344
+05030,43.399,-72.408
+05031,43.721,-72.58
+05032,43.802,-72.658
+05033,43.997,-72.176
+05034,43.592,-72.62
+05035,43.612,-72.686
+05036,44.024,-72.588
+05037,43.458,-72.484
+05038,43.991,-72.457
+05039,44.063,-72.313
+05040,44.07,-72.199
+05041,43.957,-72.539
+05042,44.244,-72.111
+05043,43.806,-72.212
+05045,43.918,-72.18
+05046,44.232,-72.258
+05048,43.581,-72.428
+05050,44.264,-72.064
+05051,44.082,-72.117
+05052,43.597,-72.36
+05053,43.714,-72.485
+05055,43.778,-72.324
+05056,43.509,-72.694
+05058,43.882,-72.272
+05059,43.638,-72.43
+05060,43.967,-72.709
+05061,43.928,-72.573
+05062,43.503,-72.58
+05065,43.791,-72.417
+05067,43.685,-72.54
+05068,43.781,-72.548
+05069,44.17,-72.143
+05070,43.852,-72.343
+05071,43.564,-72.565
+05072,43.883,-72.387
+05073,43.628,-72.462
+05075,43.845,-72.286
+05076,44.145,-72.224
+05077,43.909,-72.459
+05079,43.957,-72.327
+05081,44.137,-72.09
+05083,43.918,-72.268
+05084,43.73,-72.452
+05086,44.109,-72.301
+05088,43.675,-72.307
+05089,43.496,-72.442
+05091,43.648,-72.551
+05101,43.162,-72.486
+05141,43.159,-72.56
+05142,43.398,-72.58
+05143,43.253,-72.643
+05146,43.185,-72.634
+05148,43.245,-72.811
+05149,43.402,-72.699
+05150,43.337,-72.529
+05151,43.395,-72.497
+05152,43.233,-72.937
+05153,43.44,-72.637
+05154,43.134,-72.529
+05155,43.175,-72.823
+05156,43.311,-72.462
+05158,43.109,-72.473
+05161,43.321,-72.803
+05201,42.869,-73.129
+05250,43.104,-73.173
+05251,43.265,-73.082
+05252,43.082,-73.067
+05253,43.262,-72.998
+05254,43.16,-73.067
+05255,43.138,-73.024
+05257,42.97,-73.263
+05260,42.812,-73.263
+05261,42.769,-73.211
+05262,42.974,-73.075
+05301,42.839,-72.66
+05340,43.169,-72.973
+05341,42.975,-72.801
+05342,42.777,-72.795
+05343,43.103,-72.82
+05344,42.839,-72.733
+05345,42.987,-72.665
+05346,43.038,-72.537
+05350,42.791,-72.973
+05351,42.93,-72.727
+05352,42.808,-73.076
+05353,43.069,-72.68
+05354,42.764,-72.522
+05355,43.019,-72.812
+05356,42.976,-72.865
+05358,42.776,-72.73
+05359,43.151,-72.725
+05360,43.042,-72.951
+05361,42.787,-72.878
+05362,42.935,-72.66
+05363,42.884,-72.901
+05401,44.475,-73.218
+05403,44.445,-73.173
+05404,44.496,-73.185
+05405,44.474,-73.196
+05408,44.505,-73.272
+05439,44.496,-73.165
+05440,44.958,-73.292
+05441,44.774,-72.787
+05442,44.773,-72.69
+05443,44.14,-73.04
+05444,44.62,-72.887
+05445,44.306,-73.236
+05446,44.554,-73.225
+05447,44.942,-72.703
+05448,44.757,-72.878
+05450,44.895,-72.795
+05452,44.527,-73.065
+05454,44.71,-73.029
+05455,44.802,-72.967
+05456,44.214,-73.262
+05457,44.959,-72.922
+05458,44.716,-73.3
+05459,44.957,-73.017
+05461,44.322,-73.095
+05462,44.299,-72.955
+05463,44.871,-73.349
+05464,44.678,-72.815
+05465,44.466,-72.92
+05468,44.646,-73.159
+05471,44.828,-72.578
+05472,44.113,-73.158
+05473,44.242,-73.195
+05474,44.835,-73.226
+05476,44.955,-72.643
+05477,44.382,-72.98
+05478,44.792,-73.118
+05481,44.808,-73.14
+05482,44.393,-73.243
+05483,44.89,-72.981
+05485,44.904,-72.976
+05486,44.627,-73.309
+05487,44.21,-72.993
+05488,44.923,-73.144
+05489,44.568,-72.903
+05491,44.12,-73.327
+05492,44.738,-72.762
+05494,44.603,-73.016
+05495,44.429,-73.096
+05602,44.293,-72.625
+05640,44.34,-72.497
+05641,44.185,-72.454
+05647,44.409,-72.294
+05648,44.383,-72.492
+05649,44.139,-72.371
+05650,44.4,-72.438
+05651,44.282,-72.489
+05652,44.724,-72.61
+05653,44.715,-72.473
+05654,44.138,-72.487
+05655,44.624,-72.57
+05656,44.648,-72.689
+05658,44.365,-72.355
+05660,44.262,-72.765
+05661,44.532,-72.62
+05663,44.148,-72.691
+05664,44.167,-72.653
+05666,44.338,-72.439
+05667,44.279,-72.402
+05669,44.053,-72.756
+05670,44.177,-72.506
+05672,44.492,-72.713
+05673,44.199,-72.841
+05674,44.113,-72.874
+05675,44.076,-72.423
+05676,44.299,-72.847
+05677,44.402,-72.698
+05678,44.157,-72.478
+05679,44.109,-72.532
+05680,44.541,-72.473
+05681,44.458,-72.379
+05682,44.393,-72.563
+05701,43.625,-72.91
+05730,43.388,-72.785
+05731,43.752,-73.294
+05732,43.647,-73.211
+05733,43.81,-73.09
+05734,43.982,-73.332
+05735,43.653,-73.161
+05736,43.608,-73.014
+05737,43.778,-72.897
+05738,43.523,-72.86
+05739,43.345,-73.029
+05742,43.42,-72.911
+05743,43.678,-73.305
+05744,43.694,-73.08
+05746,43.719,-72.79
+05747,44.004,-72.858
+05748,43.905,-72.918
+05751,43.658,-72.784
+05753,43.998,-73.178
+05757,43.483,-73.124
+05758,43.451,-72.793
+05759,43.532,-72.965
+05760,43.801,-73.29
+05761,43.335,-73.139
+05762,43.804,-72.837
+05763,43.73,-72.995
+05764,43.528,-73.194
+05765,43.648,-73.034
+05766,43.985,-72.997
+05767,43.879,-72.832
+05768,43.297,-73.219
+05769,43.932,-73.12
+05770,43.89,-73.33
+05772,43.764,-72.739
+05773,43.427,-72.95
+05774,43.429,-73.17
+05775,43.354,-73.222
+05776,43.253,-73.197
+05777,43.556,-73.049
+05778,43.876,-73.213
+05819,44.405,-71.983
+05820,44.763,-72.375
+05821,44.319,-72.109
+05822,44.754,-72.16
+05824,44.439,-71.826
+05825,44.858,-72.253
+05826,44.635,-72.406
+05827,44.677,-72.363
+05828,44.438,-72.125
+05829,44.967,-72.068
+05830,44.972,-71.987
+05832,44.594,-71.899
+05833,44.837,-71.977
+05836,44.519,-72.231
+05837,44.664,-71.805
+05839,44.674,-72.207
+05840,44.599,-71.747
+05841,44.618,-72.289
+05842,44.59,-72.245
+05843,44.503,-72.342
+05845,44.8,-72.332
+05846,44.817,-71.835
+05847,44.793,-72.458
+05850,44.564,-72.036
+05851,44.546,-72.049
+05853,44.896,-71.941
+05855,44.927,-72.192
+05857,44.929,-72.313
+05858,44.538,-71.801
+05859,44.958,-72.438
+05860,44.803,-72.104
+05862,44.318,-72.216
+05866,44.641,-72.111
+05867,44.665,-72.036
+05868,44.942,-72.354
+05871,44.682,-71.953
+05872,44.871,-72.025
+05873,44.405,-72.217
+05874,44.883,-72.485
+05875,44.705,-72.271
+05901,44.941,-71.655
+05902,45.01,-71.488
+05903,44.935,-71.588
+05904,44.416,-71.707
+05905,44.703,-71.678
+05906,44.483,-71.72
+05907,44.955,-71.827
+06001,41.794,-72.854
+06002,41.847,-72.737
+06010,41.682,-72.941
+06013,41.749,-72.949
+06016,41.902,-72.547
+06018,42.037,-73.312
+06019,41.858,-72.903
+06020,41.863,-72.91
+06021,42.006,-73.064
+06022,41.866,-72.927
+06023,41.613,-72.72
+06024,42.008,-73.284
+06026,41.93,-72.745
+06027,42.005,-72.916
+06029,41.914,-72.446
+06031,41.955,-73.317
+06032,41.731,-72.857
+06033,41.707,-72.539
+06035,41.961,-72.805
+06037,41.605,-72.778
+06039,41.962,-73.444
+06040,41.761,-72.526
+06042,41.803,-72.521
+06043,41.765,-72.438
+06051,41.665,-72.77
+06052,41.656,-72.803
+06053,41.69,-72.792
+06057,41.841,-72.999
+06058,41.97,-73.178
+06059,41.891,-72.888
+06060,42.015,-72.859
+06061,41.875,-72.967
+06062,41.674,-72.86
+06063,41.936,-72.973
+06065,41.975,-73.008
+06066,41.838,-72.459
+06067,41.657,-72.662
+06068,42.007,-73.422
+06069,41.861,-73.449
+06070,41.875,-72.814
+06071,41.993,-72.454
+06072,41.985,-72.488
+06073,41.661,-72.568
+06074,41.838,-72.578
+06076,41.984,-72.263
+06078,41.992,-72.652
+06079,42.042,-73.397
+06080,41.95,-72.635
+06081,41.908,-72.768
+06082,41.984,-72.556
+06084,41.883,-72.359
+06085,41.749,-72.889
+06088,41.918,-72.583
+06089,41.835,-72.824
+06090,41.947,-72.864
+06091,42.026,-72.98
+06092,41.873,-72.861
+06093,42.013,-72.717
+06095,41.874,-72.677
+06096,41.928,-72.652
+06098,41.927,-73.109
+06103,41.765,-72.671
+06105,41.773,-72.704
+06106,41.749,-72.696
+06107,41.752,-72.759
+06108,41.78,-72.624
+06109,41.702,-72.669
+06110,41.732,-72.734
+06111,41.687,-72.731
+06112,41.793,-72.696
+06114,41.741,-72.671
+06117,41.789,-72.763
+06118,41.749,-72.61
+06119,41.764,-72.727
+06120,41.787,-72.665
+06226,41.708,-72.209
+06231,41.633,-72.367
+06232,41.733,-72.375
+06234,41.794,-71.953
+06235,41.791,-72.13
+06237,41.694,-72.306
+06238,41.78,-72.344
+06239,41.794,-71.855
+06241,41.854,-71.847
+06242,41.896,-72.093
+06243,41.845,-71.805
+06247,41.768,-72.075
+06248,41.689,-72.409
+06249,41.633,-72.24
+06250,41.773,-72.198
+06254,41.621,-72.143
+06255,41.991,-71.902
+06256,41.732,-72.157
+06258,41.886,-71.964
+06259,41.872,-71.988
+06260,41.908,-71.87
+06262,42.019,-71.948
+06263,41.837,-71.904
+06264,41.699,-72.105
+06266,41.674,-72.173
+06268,41.799,-72.248
+06269,41.809,-72.252
+06277,41.958,-71.844
+06278,41.897,-72.171
+06279,41.897,-72.252
+06280,41.691,-72.13
+06281,41.973,-72.014
+06282,41.949,-72.085
+06320,41.349,-72.102
+06330,41.636,-72.078
+06331,41.694,-72.009
+06332,41.723,-71.902
+06333,41.386,-72.229
+06334,41.545,-72.174
+06335,41.435,-72.059
+06336,41.581,-72.196
+06338,41.465,-71.973
+06339,41.442,-71.991
+06340,41.354,-72.04
+06350,41.648,-72.069
+06351,41.59,-71.948
+06353,41.456,-72.139
+06354,41.709,-71.855
+06355,41.366,-71.972
+06357,41.318,-72.219
+06359,41.471,-71.873
+06360,41.548,-72.089
+06365,41.519,-72.007
+06370,41.467,-72.189
+06371,41.362,-72.324
+06373,41.685,-71.805
+06374,41.68,-71.912
+06375,41.406,-72.123
+06376,41.294,-72.253
+06377,41.731,-71.819
+06378,41.383,-71.908
+06379,41.363,-71.853
+06380,41.563,-72.052
+06382,41.463,-72.125
+06384,41.579,-71.831
+06385,41.362,-72.157
+06387,41.744,-71.91
+06389,41.56,-72.123
+06390,41.288,-71.933
+06401,41.344,-73.07
+06403,41.444,-73.052
+06405,41.28,-72.786
+06409,41.348,-72.429
+06410,41.512,-72.904
+06412,41.412,-72.487
+06413,41.296,-72.529
+06414,41.577,-72.552
+06415,41.55,-72.349
+06416,41.617,-72.662
+06417,41.368,-72.477
+06418,41.326,-73.083
+06419,41.374,-72.578
+06420,41.489,-72.258
+06422,41.469,-72.685
+06423,41.457,-72.391
+06424,41.56,-72.503
+06426,41.351,-72.397
+06437,41.332,-72.697
+06438,41.451,-72.51
+06439,41.416,-72.4
+06441,41.466,-72.583
+06442,41.342,-72.434
+06443,41.344,-72.625
+06444,41.563,-72.93
+06447,41.636,-72.454
+06450,41.536,-72.776
+06451,41.542,-72.823
+06455,41.514,-72.718
+06456,41.54,-72.548
+06457,41.544,-72.658
+06459,41.55,-72.662
+06460,41.219,-73.046
+06461,41.24,-73.075
+06467,41.565,-72.9
+06468,41.339,-73.223
+06469,41.507,-72.448
+06470,41.395,-73.318
+06471,41.334,-72.772
+06472,41.393,-72.772
+06473,41.381,-72.856
+06475,41.3,-72.383
+06477,41.285,-73.025
+06478,41.444,-73.148
+06479,41.575,-72.912
+06480,41.599,-72.589
+06481,41.537,-72.698
+06482,41.409,-73.243
+06483,41.385,-73.084
+06484,41.305,-73.139
+06488,41.476,-73.23
+06489,41.614,-72.87
+06492,41.463,-72.805
+06498,41.304,-72.478
+06510,41.306,-72.927
+06511,41.317,-72.926
+06512,41.278,-72.875
+06513,41.319,-72.869
+06514,41.377,-72.943
+06515,41.328,-72.971
+06516,41.273,-72.965
+06517,41.349,-72.907
+06518,41.431,-72.912
+06519,41.293,-72.932
+06524,41.423,-72.994
+06525,41.364,-73.004
+06604,41.154,-73.211
+06605,41.162,-73.218
+06606,41.212,-73.207
+06607,41.171,-73.168
+06608,41.186,-73.181
+06610,41.209,-73.165
+06611,41.273,-73.212
+06612,41.265,-73.3
+06614,41.228,-73.129
+06615,41.163,-73.128
+06702,41.556,-73.046
+06704,41.589,-73.035
+06705,41.55,-72.993
+06706,41.532,-73.025
+06708,41.551,-73.071
+06710,41.57,-73.046
+06712,41.499,-72.976
+06716,41.595,-72.969
+06750,41.724,-73.263
+06751,41.636,-73.211
+06752,41.52,-73.361
+06753,41.825,-73.345
+06754,41.755,-73.368
+06755,41.649,-73.48
+06756,41.847,-73.238
+06757,41.74,-73.467
+06758,41.676,-73.227
+06759,41.761,-73.219
+06762,41.525,-73.123
+06763,41.694,-73.21
+06770,41.489,-73.052
+06776,41.601,-73.423
+06777,41.691,-73.334
+06778,41.718,-73.104
+06779,41.596,-73.081
+06782,41.643,-73.042
+06783,41.556,-73.296
+06784,41.579,-73.498
+06785,41.709,-73.45
+06786,41.673,-73.018
+06787,41.671,-73.085
+06790,41.834,-73.131
+06791,41.761,-73.06
+06793,41.634,-73.289
+06794,41.649,-73.325
+06795,41.624,-73.126
+06796,41.874,-73.334
+06798,41.562,-73.206
+06801,41.37,-73.39
+06804,41.463,-73.393
+06807,41.057,-73.592
+06810,41.378,-73.457
+06811,41.423,-73.478
+06812,41.48,-73.487
+06820,41.076,-73.48
+06824,41.173,-73.281
+06825,41.197,-73.243
+06830,41.038,-73.624
+06831,41.089,-73.659
+06840,41.16,-73.5
+06850,41.127,-73.445
+06851,41.138,-73.402
+06853,41.066,-73.438
+06854,41.091,-73.429
+06855,41.072,-73.39
+06870,41.024,-73.571
+06877,41.318,-73.5
+06878,41.03,-73.584
+06880,41.143,-73.344
+06883,41.227,-73.367
+06890,41.149,-73.288
+06896,41.305,-73.393
+06897,41.211,-73.441
+06901,41.054,-73.538
+06902,41.059,-73.544
+06903,41.136,-73.571
+06905,41.088,-73.544
+06906,41.072,-73.522
+06907,41.101,-73.52
+07001,40.584,-74.27
+07002,40.662,-74.11
+07003,40.809,-74.187
+07004,40.883,-74.305
+07005,40.93,-74.411
+07006,40.851,-74.283
+07008,40.584,-74.227
+07009,40.858,-74.23
+07010,40.822,-73.988
+07011,40.88,-74.143
+07012,40.847,-74.161
+07013,40.869,-74.173
+07014,40.831,-74.135
+07016,40.658,-74.304
+07017,40.772,-74.207
+07018,40.756,-74.218
+07020,40.825,-73.974
+07021,40.828,-74.276
+07022,40.821,-74.003
+07023,40.642,-74.386
+07024,40.851,-73.971
+07026,40.88,-74.108
+07027,40.651,-74.323
+07028,40.805,-74.205
+07029,40.744,-74.155
+07030,40.745,-74.028
+07031,40.786,-74.126
+07032,40.752,-74.123
+07033,40.678,-74.288
+07034,40.879,-74.38
+07035,40.928,-74.308
+07036,40.625,-74.239
+07039,40.786,-74.329
+07040,40.734,-74.271
+07041,40.722,-74.302
+07042,40.813,-74.219
+07043,40.845,-74.201
+07044,40.832,-74.243
+07045,40.907,-74.366
+07046,40.891,-74.442
+07047,40.794,-74.025
+07050,40.768,-74.236
+07052,40.786,-74.265
+07054,40.854,-74.402
+07055,40.858,-74.129
+07057,40.853,-74.106
+07058,40.87,-74.344
+07059,40.635,-74.519
+07060,40.617,-74.422
+07062,40.631,-74.404
+07063,40.605,-74.445
+07064,40.567,-74.245
+07065,40.607,-74.281
+07066,40.621,-74.31
+07067,40.589,-74.311
+07068,40.822,-74.31
+07069,40.643,-74.436
+07070,40.82,-74.106
+07071,40.797,-74.113
+07072,40.826,-74.062
+07073,40.817,-74.085
+07074,40.838,-74.055
+07075,40.85,-74.087
+07076,40.633,-74.373
+07077,40.554,-74.253
+07078,40.742,-74.328
+07079,40.749,-74.262
+07080,40.574,-74.415
+07081,40.698,-74.334
+07082,40.927,-74.346
+07083,40.695,-74.269
+07086,40.768,-74.017
+07087,40.767,-74.032
+07088,40.718,-74.284
+07090,40.652,-74.343
+07092,40.681,-74.36
+07093,40.787,-74.009
+07094,40.782,-74.068
+07095,40.553,-74.287
+07102,40.736,-74.174
+07103,40.739,-74.195
+07104,40.768,-74.168
+07105,40.723,-74.139
+07106,40.742,-74.23
+07107,40.763,-74.187
+07108,40.723,-74.2
+07109,40.793,-74.161
+07110,40.821,-74.156
+07111,40.724,-74.233
+07112,40.711,-74.212
+07114,40.698,-74.171
+07201,40.671,-74.177
+07202,40.652,-74.217
+07203,40.652,-74.26
+07204,40.665,-74.267
+07205,40.696,-74.229
+07206,40.652,-74.184
+07208,40.673,-74.224
+07302,40.719,-74.045
+07304,40.717,-74.076
+07305,40.693,-74.07
+07306,40.736,-74.071
+07307,40.752,-74.054
+07310,40.728,-74.034
+07311,40.719,-74.033
+07401,41.033,-74.134
+07403,41.021,-74.333
+07405,40.988,-74.378
+07407,40.905,-74.12
+07410,40.936,-74.118
+07416,41.109,-74.589
+07417,41.008,-74.206
+07418,41.242,-74.486
+07419,41.154,-74.57
+07420,41.029,-74.303
+07421,41.174,-74.353
+07422,41.174,-74.447
+07423,40.999,-74.097
+07424,40.882,-74.206
+07430,41.082,-74.183
+07432,40.996,-74.141
+07435,41.041,-74.442
+07436,41.031,-74.241
+07438,41.03,-74.522
+07439,41.08,-74.598
+07440,40.946,-74.293
+07442,41.003,-74.287
+07444,40.967,-74.307
+07446,41.059,-74.146
+07450,40.982,-74.114
+07452,40.959,-74.125
+07456,41.097,-74.263
+07457,40.996,-74.315
+07458,41.047,-74.096
+07460,41.114,-74.494
+07461,41.247,-74.611
+07462,41.198,-74.496
+07463,41.013,-74.125
+07465,41.049,-74.292
+07470,40.946,-74.245
+07480,41.086,-74.378
+07481,40.999,-74.169
+07501,40.912,-74.171
+07502,40.92,-74.195
+07503,40.898,-74.154
+07504,40.912,-74.141
+07505,40.917,-74.172
+07506,40.957,-74.159
+07508,40.955,-74.184
+07512,40.903,-74.22
+07513,40.905,-74.149
+07514,40.925,-74.145
+07522,40.924,-74.179
+07524,40.932,-74.157
+07601,40.889,-74.046
+07603,40.874,-74.03
+07604,40.862,-74.073
+07605,40.863,-73.988
+07606,40.865,-74.048
+07607,40.903,-74.063
+07608,40.85,-74.062
+07620,40.969,-73.917
+07621,40.922,-73.998
+07624,40.973,-73.96
+07626,40.94,-73.958
+07627,40.954,-73.955
+07628,40.945,-73.992
+07630,40.975,-74.023
+07631,40.891,-73.973
+07632,40.885,-73.945
+07640,40.992,-73.98
+07641,40.963,-73.997
+07642,41.007,-74.045
+07643,40.843,-74.034
+07644,40.878,-74.082
+07645,41.055,-74.047
+07646,40.934,-74.019
+07647,41.009,-73.942
+07648,40.992,-73.951
+07649,40.957,-74.033
+07650,40.847,-73.997
+07652,40.947,-74.07
+07656,41.036,-74.044
+07657,40.833,-74.014
+07660,40.855,-74.02
+07661,40.927,-74.04
+07662,40.906,-74.078
+07663,40.903,-74.094
+07666,40.89,-74.011
+07670,40.918,-73.951
+07675,41.003,-74.002
+07676,40.988,-74.065
+07677,41.026,-74.061
+07701,40.361,-74.079
+07702,40.326,-74.057
+07703,40.314,-74.047
+07704,40.362,-74.039
+07711,40.238,-74.007
+07712,40.247,-74.055
+07716,40.402,-74.036
+07717,40.191,-74.015
+07718,40.42,-74.085
+07719,40.169,-74.073
+07720,40.202,-74.012
+07721,40.435,-74.236
+07722,40.288,-74.167
+07723,40.25,-74.001
+07724,40.299,-74.074
+07726,40.287,-74.343
+07727,40.205,-74.158
+07728,40.226,-74.286
+07730,40.424,-74.174
+07731,40.15,-74.204
+07732,40.43,-73.99
+07733,40.375,-74.174
+07734,40.444,-74.137
+07735,40.45,-74.224
+07737,40.407,-74.064
+07738,40.335,-74.133
+07739,40.337,-74.035
+07740,40.295,-73.99
+07746,40.323,-74.255
+07747,40.413,-74.258
+07748,40.396,-74.115
+07750,40.336,-73.986
+07751,40.36,-74.261
+07753,40.211,-74.074
+07755,40.263,-74.024
+07756,40.212,-74.007
+07757,40.316,-74.018
+07758,40.434,-74.101
+07760,40.371,-74.004
+07762,40.153,-74.034
+07764,40.288,-74.02
+07801,40.901,-74.565
+07803,40.878,-74.601
+07820,40.929,-74.799
+07821,40.966,-74.755
+07822,41.139,-74.708
+07823,40.823,-75.046
+07825,40.983,-74.962
+07826,41.163,-74.815
+07827,41.281,-74.731
+07828,40.885,-74.756
+07830,40.719,-74.794
+07831,40.739,-74.947
+07832,40.945,-75.067
+07833,40.893,-75.069
+07834,40.886,-74.488
+07836,40.844,-74.71
+07838,40.888,-74.912
+07840,40.86,-74.832
+07842,40.945,-74.501
+07843,40.939,-74.66
+07844,40.909,-74.97
+07846,40.967,-74.877
+07847,40.887,-74.62
+07848,41.098,-74.68
+07849,40.964,-74.613
+07850,40.907,-74.659
+07851,41.2,-74.856
+07852,40.883,-74.668
+07853,40.787,-74.782
+07856,40.916,-74.627
+07857,40.898,-74.693
+07860,41.057,-74.803
+07863,40.808,-74.957
+07865,40.794,-74.898
+07866,40.955,-74.488
+07869,40.842,-74.579
+07870,40.804,-74.821
+07871,41.047,-74.628
+07874,40.929,-74.709
+07876,40.854,-74.657
+07878,40.872,-74.478
+07880,40.88,-74.876
+07881,41.123,-74.934
+07882,40.755,-75.011
+07885,40.911,-74.6
+07901,40.715,-74.366
+07920,40.682,-74.554
+07921,40.656,-74.679
+07922,40.677,-74.427
+07924,40.726,-74.591
+07926,40.801,-74.57
+07927,40.824,-74.456
+07928,40.725,-74.415
+07930,40.781,-74.684
+07931,40.681,-74.617
+07932,40.777,-74.393
+07933,40.695,-74.457
+07934,40.73,-74.667
+07935,40.735,-74.451
+07936,40.819,-74.364
+07939,40.667,-74.552
+07940,40.761,-74.419
+07945,40.781,-74.602
+07946,40.678,-74.509
+07950,40.846,-74.482
+07960,40.779,-74.502
+07961,40.781,-74.435
+07970,40.809,-74.572
+07974,40.697,-74.404
+07976,40.728,-74.479
+07977,40.711,-74.652
+07979,40.711,-74.731
+07980,40.676,-74.495
+07981,40.824,-74.426
+08001,39.548,-75.346
+08002,39.935,-75.025
+08003,39.886,-74.971
+08004,39.755,-74.831
+08005,39.756,-74.307
+08006,39.754,-74.105
+08007,39.865,-75.054
+08008,39.624,-74.206
+08009,39.761,-74.933
+08010,40.054,-74.918
+08011,39.975,-74.714
+08012,39.784,-75.056
+08014,39.813,-75.367
+08015,39.932,-74.544
+08016,40.068,-74.833
+08019,39.766,-74.53
+08020,39.794,-75.222
+08021,39.806,-75
+08022,40.068,-74.706
+08023,39.688,-75.497
+08026,39.834,-74.969
+08027,39.829,-75.294
+08028,39.692,-75.125
+08029,39.841,-75.067
+08030,39.89,-75.118
+08031,39.866,-75.095
+08032,39.781,-75.06
+08033,39.892,-75.037
+08034,39.906,-75
+08035,39.879,-75.066
+08036,39.978,-74.836
+08037,39.632,-74.774
+08038,39.47,-75.49
+08039,39.686,-75.277
+08041,40.039,-74.684
+08042,40.014,-74.662
+08043,39.849,-74.953
+08045,39.867,-75.029
+08046,40.028,-74.887
+08048,39.954,-74.803
+08049,39.855,-75.038
+08050,39.712,-74.232
+08051,39.784,-75.176
+08052,39.952,-74.995
+08053,39.857,-74.901
+08054,39.949,-74.9
+08055,39.863,-74.822
+08056,39.784,-75.255
+08057,39.98,-74.941
+08059,39.885,-75.093
+08060,40.01,-74.792
+08061,39.799,-75.205
+08062,39.716,-75.219
+08063,39.867,-75.186
+08064,39.937,-74.616
+08065,40.003,-75.035
+08066,39.835,-75.234
+08067,39.739,-75.411
+08068,39.961,-74.666
+08069,39.703,-75.451
+08070,39.619,-75.516
+08071,39.732,-75.134
+08072,39.545,-75.413
+08073,40.01,-74.867
+08074,39.716,-75.163
+08075,40.03,-74.949
+08077,40,-74.992
+08078,39.853,-75.076
+08079,39.542,-75.432
+08080,39.757,-75.122
+08081,39.733,-74.977
+08083,39.841,-75.029
+08084,39.829,-75.016
+08085,39.754,-75.331
+08086,39.851,-75.186
+08087,39.604,-74.382
+08088,39.837,-74.695
+08089,39.713,-74.831
+08090,39.798,-75.149
+08091,39.807,-74.924
+08092,39.647,-74.285
+08093,39.862,-75.133
+08094,39.651,-74.959
+08095,39.649,-74.858
+08096,39.829,-75.129
+08097,39.813,-75.151
+08098,39.639,-75.33
+08102,39.952,-75.121
+08103,39.935,-75.113
+08104,39.916,-75.111
+08105,39.95,-75.096
+08106,39.891,-75.073
+08107,39.909,-75.084
+08108,39.915,-75.062
+08109,39.949,-75.05
+08110,39.972,-75.058
+08201,39.424,-74.493
+08202,39.097,-74.74
+08203,39.422,-74.393
+08204,38.972,-74.916
+08205,39.482,-74.453
+08210,39.119,-74.823
+08212,38.94,-74.964
+08215,39.59,-74.582
+08217,39.577,-74.719
+08221,39.34,-74.564
+08223,39.27,-74.657
+08224,39.599,-74.467
+08225,39.358,-74.536
+08226,39.264,-74.608
+08230,39.201,-74.707
+08232,39.388,-74.515
+08234,39.388,-74.621
+08240,39.488,-74.534
+08241,39.535,-74.476
+08242,39.017,-74.887
+08243,39.151,-74.696
+08244,39.316,-74.598
+08245,39.177,-74.819
+08246,39.181,-74.766
+08247,39.049,-74.786
+08248,39.195,-74.658
+08251,39.029,-74.929
+08260,38.998,-74.843
+08270,39.261,-74.809
+08302,39.439,-75.261
+08310,39.531,-74.897
+08311,39.328,-75.204
+08312,39.661,-75.084
+08314,39.216,-74.938
+08316,39.28,-74.937
+08317,39.401,-74.83
+08318,39.558,-75.178
+08319,39.37,-74.811
+08320,39.385,-75.161
+08321,39.224,-75.143
+08322,39.611,-75.049
+08323,39.396,-75.368
+08324,39.226,-75.004
+08326,39.538,-74.928
+08327,39.256,-74.95
+08328,39.58,-75.056
+08329,39.287,-75.006
+08330,39.469,-74.747
+08332,39.366,-75.027
+08340,39.393,-74.907
+08341,39.521,-74.959
+08343,39.636,-75.168
+08344,39.562,-74.986
+08345,39.288,-75.144
+08346,39.57,-74.852
+08348,39.31,-74.971
+08349,39.261,-75.059
+08350,39.491,-74.874
+08352,39.475,-75.127
+08353,39.462,-75.292
+08360,39.492,-75.003
+08361,39.449,-74.959
+08401,39.377,-74.451
+08402,39.326,-74.504
+08403,39.318,-74.542
+08406,39.342,-74.483
+08501,40.166,-74.553
+08502,40.448,-74.653
+08505,40.136,-74.707
+08510,40.187,-74.425
+08511,40.044,-74.548
+08512,40.324,-74.526
+08514,40.134,-74.492
+08515,40.119,-74.663
+08518,40.116,-74.804
+08520,40.258,-74.539
+08525,40.398,-74.78
+08527,40.109,-74.359
+08528,40.387,-74.619
+08530,40.37,-74.91
+08533,40.016,-74.485
+08534,40.329,-74.793
+08535,40.232,-74.432
+08536,40.333,-74.587
+08540,40.365,-74.656
+08542,40.355,-74.661
+08544,40.346,-74.658
+08550,40.28,-74.622
+08551,40.447,-74.837
+08553,40.4,-74.639
+08554,40.113,-74.781
+08555,40.221,-74.47
+08558,40.413,-74.704
+08559,40.439,-74.984
+08560,40.315,-74.857
+08561,40.247,-74.581
+08562,40.062,-74.592
+08608,40.219,-74.767
+08609,40.226,-74.741
+08610,40.194,-74.716
+08611,40.184,-74.74
+08618,40.249,-74.79
+08619,40.242,-74.696
+08620,40.17,-74.651
+08628,40.264,-74.827
+08629,40.221,-74.731
+08638,40.254,-74.763
+08640,40.014,-74.575
+08641,40.028,-74.588
+08648,40.284,-74.717
+08690,40.226,-74.66
+08691,40.208,-74.601
+08701,40.077,-74.199
+08720,40.145,-74.126
+08721,39.907,-74.185
+08722,39.928,-74.202
+08723,40.039,-74.112
+08724,40.091,-74.114
+08730,40.108,-74.062
+08731,39.86,-74.293
+08732,39.942,-74.144
+08733,40.027,-74.364
+08734,39.863,-74.166
+08735,39.997,-74.078
+08736,40.12,-74.053
+08738,40.025,-74.06
+08740,39.928,-74.128
+08741,39.936,-74.167
+08742,40.081,-74.059
+08750,40.133,-74.042
+08751,39.95,-74.08
+08752,39.837,-74.09
+08753,39.98,-74.151
+08755,40.009,-74.222
+08757,39.961,-74.261
+08758,39.795,-74.253
+08759,39.962,-74.36
+08801,40.63,-74.89
+08802,40.684,-75.023
+08804,40.647,-75.096
+08805,40.571,-74.538
+08807,40.592,-74.619
+08809,40.646,-74.925
+08810,40.368,-74.491
+08812,40.599,-74.479
+08816,40.429,-74.416
+08817,40.515,-74.393
+08820,40.577,-74.366
+08821,40.521,-74.688
+08822,40.522,-74.867
+08823,40.439,-74.565
+08824,40.421,-74.553
+08825,40.514,-75.027
+08826,40.717,-74.912
+08827,40.668,-74.968
+08828,40.378,-74.423
+08829,40.67,-74.89
+08830,40.57,-74.316
+08831,40.334,-74.433
+08832,40.511,-74.318
+08833,40.646,-74.816
+08835,40.542,-74.589
+08836,40.596,-74.557
+08837,40.514,-74.344
+08840,40.543,-74.359
+08844,40.498,-74.671
+08846,40.575,-74.498
+08848,40.594,-75.097
+08850,40.449,-74.44
+08852,40.39,-74.544
+08853,40.527,-74.742
+08854,40.54,-74.463
+08857,40.393,-74.33
+08858,40.683,-74.737
+08859,40.458,-74.304
+08861,40.52,-74.273
+08863,40.537,-74.312
+08865,40.708,-75.147
+08867,40.574,-74.966
+08869,40.571,-74.646
+08872,40.456,-74.351
+08873,40.5,-74.532
+08876,40.59,-74.685
+08879,40.466,-74.279
+08880,40.554,-74.527
+08882,40.446,-74.378
+08884,40.394,-74.393
+08886,40.688,-75.101
+08887,40.522,-74.796
+08889,40.609,-74.754
+08890,40.539,-74.575
+08901,40.484,-74.442
+08902,40.442,-74.491
+08904,40.501,-74.428
+10001,40.751,-73.997
+10002,40.716,-73.987
+10003,40.732,-73.989
+10004,40.69,-74.017
+10005,40.706,-74.009
+10006,40.709,-74.013
+10007,40.714,-74.008
+10009,40.726,-73.979
+10010,40.739,-73.983
+10011,40.742,-74.001
+10012,40.726,-73.998
+10013,40.72,-74.005
+10014,40.734,-74.006
+10016,40.745,-73.978
+10017,40.752,-73.973
+10018,40.755,-73.993
+10019,40.766,-73.985
+10020,40.759,-73.981
+10021,40.77,-73.959
+10022,40.759,-73.968
+10023,40.775,-73.979
+10024,40.786,-73.971
+10025,40.798,-73.968
+10026,40.803,-73.954
+10027,40.813,-73.955
+10028,40.776,-73.953
+10029,40.792,-73.947
+10030,40.818,-73.943
+10031,40.825,-73.95
+10032,40.839,-73.943
+10033,40.847,-73.936
+10034,40.867,-73.924
+10035,40.795,-73.93
+10036,40.76,-73.991
+10037,40.813,-73.938
+10038,40.709,-74.003
+10039,40.826,-73.938
+10040,40.858,-73.93
+10044,40.762,-73.95
+10065,40.765,-73.963
+10069,40.777,-73.989
+10075,40.773,-73.956
+10103,40.761,-73.978
+10110,40.754,-73.982
+10111,40.76,-73.979
+10112,40.759,-73.979
+10115,40.811,-73.964
+10119,40.751,-73.993
+10128,40.781,-73.95
+10152,40.758,-73.972
+10153,40.764,-73.972
+10154,40.758,-73.972
+10162,40.769,-73.95
+10165,40.752,-73.979
+10167,40.755,-73.975
+10168,40.751,-73.977
+10169,40.755,-73.976
+10170,40.753,-73.976
+10171,40.756,-73.974
+10172,40.755,-73.974
+10173,40.754,-73.979
+10174,40.751,-73.975
+10177,40.755,-73.976
+10199,40.751,-73.997
+10271,40.708,-74.011
+10278,40.715,-74.004
+10279,40.713,-74.009
+10280,40.71,-74.017
+10282,40.716,-74.015
+10301,40.628,-74.094
+10302,40.631,-74.138
+10303,40.63,-74.174
+10304,40.606,-74.094
+10305,40.597,-74.076
+10306,40.572,-74.124
+10307,40.508,-74.242
+10308,40.553,-74.152
+10309,40.53,-74.22
+10310,40.633,-74.116
+10311,40.605,-74.18
+10312,40.545,-74.18
+10314,40.601,-74.164
+10451,40.822,-73.923
+10452,40.838,-73.923
+10453,40.853,-73.913
+10454,40.806,-73.917
+10455,40.815,-73.909
+10456,40.831,-73.908
+10457,40.846,-73.898
+10458,40.862,-73.886
+10459,40.826,-73.893
+10460,40.842,-73.879
+10461,40.847,-73.841
+10462,40.843,-73.86
+10463,40.886,-73.902
+10464,40.87,-73.796
+10465,40.827,-73.822
+10466,40.891,-73.846
+10467,40.875,-73.872
+10468,40.869,-73.9
+10469,40.869,-73.847
+10470,40.89,-73.873
+10471,40.9,-73.907
+10472,40.83,-73.869
+10473,40.819,-73.858
+10474,40.811,-73.885
+10475,40.876,-73.827
+10501,41.296,-73.759
+10502,41.011,-73.841
+10503,41.027,-73.875
+10504,41.128,-73.708
+10505,41.342,-73.748
+10506,41.19,-73.639
+10507,41.232,-73.692
+10509,41.411,-73.594
+10510,41.139,-73.836
+10511,41.263,-73.945
+10512,41.448,-73.71
+10514,41.172,-73.769
+10516,41.462,-73.875
+10517,41.298,-73.86
+10518,41.266,-73.588
+10519,41.347,-73.663
+10520,41.227,-73.868
+10522,41.01,-73.863
+10523,41.059,-73.819
+10524,41.375,-73.926
+10526,41.294,-73.659
+10527,41.321,-73.77
+10528,40.975,-73.725
+10530,41.024,-73.813
+10532,41.1,-73.801
+10533,41.037,-73.855
+10535,41.335,-73.794
+10536,41.269,-73.689
+10537,41.344,-73.881
+10538,40.938,-73.756
+10540,41.326,-73.728
+10541,41.382,-73.752
+10542,41.371,-73.764
+10543,40.953,-73.736
+10545,41.179,-73.835
+10546,41.197,-73.801
+10547,41.313,-73.846
+10548,41.245,-73.939
+10549,41.201,-73.723
+10550,40.905,-73.835
+10552,40.924,-73.826
+10553,40.909,-73.822
+10560,41.341,-73.598
+10562,41.194,-73.825
+10566,41.289,-73.917
+10567,41.288,-73.895
+10570,41.128,-73.789
+10573,41.016,-73.677
+10576,41.222,-73.572
+10577,41.038,-73.711
+10578,41.314,-73.677
+10579,41.395,-73.839
+10580,40.979,-73.693
+10583,40.989,-73.789
+10588,41.331,-73.828
+10589,41.332,-73.693
+10590,41.256,-73.538
+10591,41.083,-73.849
+10594,41.116,-73.771
+10595,41.087,-73.78
+10596,41.256,-73.959
+10597,41.293,-73.597
+10598,41.282,-73.796
+10601,41.033,-73.765
+10603,41.054,-73.78
+10604,41.072,-73.747
+10605,41.011,-73.745
+10606,41.021,-73.776
+10607,41.039,-73.811
+10701,40.947,-73.88
+10703,40.958,-73.881
+10704,40.92,-73.863
+10705,40.919,-73.889
+10706,40.991,-73.87
+10707,40.96,-73.823
+10708,40.938,-73.83
+10709,40.955,-73.808
+10710,40.97,-73.846
+10801,40.918,-73.785
+10803,40.9,-73.806
+10804,40.947,-73.788
+10805,40.886,-73.758
+10901,41.155,-74.129
+10910,41.282,-74.138
+10911,41.308,-73.996
+10913,41.069,-73.956
+10914,41.418,-74.2
+10915,41.54,-74.357
+10916,41.449,-74.245
+10917,41.322,-74.108
+10918,41.344,-74.262
+10919,41.526,-74.388
+10920,41.156,-73.938
+10921,41.332,-74.363
+10922,41.337,-73.988
+10923,41.203,-74.003
+10924,41.381,-74.352
+10925,41.186,-74.289
+10926,41.256,-74.128
+10927,41.191,-73.968
+10928,41.349,-73.998
+10930,41.382,-74.114
+10931,41.127,-74.171
+10932,41.482,-74.464
+10933,41.368,-74.513
+10940,41.447,-74.479
+10941,41.49,-74.345
+10950,41.317,-74.2
+10952,41.111,-74.079
+10953,41.406,-74.078
+10954,41.099,-74.013
+10956,41.154,-73.994
+10958,41.379,-74.424
+10960,41.089,-73.926
+10962,41.049,-73.962
+10963,41.467,-74.541
+10964,41.016,-73.914
+10965,41.062,-74.008
+10968,41.037,-73.921
+10969,41.295,-74.488
+10970,41.184,-74.063
+10973,41.381,-74.48
+10974,41.159,-74.19
+10975,41.257,-74.168
+10976,41.023,-73.928
+10977,41.119,-74.048
+10979,41.182,-74.319
+10980,41.239,-74.056
+10983,41.031,-73.948
+10984,41.203,-74.022
+10985,41.577,-74.358
+10986,41.285,-73.999
+10987,41.199,-74.225
+10988,41.301,-74.562
+10989,41.123,-73.938
+10990,41.267,-74.364
+10992,41.426,-74.165
+10993,41.21,-73.974
+10994,41.098,-73.973
+10996,41.394,-73.972
+10998,41.324,-74.541
+11001,40.723,-73.705
+11003,40.699,-73.706
+11004,40.746,-73.712
+11005,40.757,-73.714
+11010,40.701,-73.675
+11020,40.771,-73.715
+11021,40.784,-73.731
+11023,40.799,-73.734
+11024,40.816,-73.743
+11030,40.793,-73.689
+11040,40.745,-73.68
+11042,40.759,-73.697
+11050,40.84,-73.693
+11096,40.621,-73.757
+11101,40.747,-73.94
+11102,40.772,-73.926
+11103,40.763,-73.913
+11104,40.745,-73.92
+11105,40.779,-73.907
+11106,40.762,-73.932
+11109,40.747,-73.957
+11201,40.694,-73.99
+11203,40.65,-73.934
+11204,40.619,-73.985
+11205,40.697,-73.968
+11206,40.702,-73.943
+11207,40.67,-73.894
+11208,40.675,-73.872
+11209,40.622,-74.03
+11210,40.628,-73.946
+11211,40.714,-73.945
+11212,40.663,-73.913
+11213,40.671,-73.936
+11214,40.6,-73.996
+11215,40.663,-73.987
+11216,40.681,-73.949
+11217,40.682,-73.978
+11218,40.643,-73.976
+11219,40.633,-73.997
+11220,40.641,-74.017
+11221,40.691,-73.928
+11222,40.728,-73.948
+11223,40.597,-73.973
+11224,40.577,-73.989
+11225,40.663,-73.954
+11226,40.646,-73.957
+11228,40.617,-74.013
+11229,40.601,-73.944
+11230,40.622,-73.965
+11231,40.678,-74.005
+11232,40.657,-74.005
+11233,40.678,-73.92
+11234,40.608,-73.911
+11235,40.584,-73.943
+11236,40.639,-73.901
+11237,40.704,-73.921
+11238,40.671,-73.966
+11239,40.647,-73.864
+11249,40.705,-73.966
+11354,40.768,-73.827
+11355,40.751,-73.821
+11356,40.785,-73.842
+11357,40.785,-73.81
+11358,40.76,-73.797
+11359,40.792,-73.777
+11360,40.78,-73.782
+11361,40.764,-73.773
+11362,40.76,-73.732
+11363,40.772,-73.746
+11364,40.746,-73.756
+11365,40.74,-73.794
+11366,40.731,-73.78
+11367,40.73,-73.823
+11368,40.75,-73.853
+11369,40.763,-73.872
+11370,40.765,-73.894
+11371,40.774,-73.873
+11372,40.752,-73.884
+11373,40.739,-73.879
+11374,40.726,-73.861
+11375,40.723,-73.843
+11377,40.745,-73.905
+11378,40.725,-73.91
+11379,40.717,-73.881
+11385,40.701,-73.889
+11411,40.694,-73.736
+11412,40.698,-73.759
+11413,40.671,-73.752
+11414,40.658,-73.845
+11415,40.708,-73.828
+11416,40.685,-73.85
+11417,40.676,-73.845
+11418,40.7,-73.836
+11419,40.689,-73.823
+11420,40.674,-73.818
+11421,40.694,-73.859
+11422,40.661,-73.738
+11423,40.716,-73.768
+11424,40.714,-73.828
+11426,40.736,-73.722
+11427,40.731,-73.746
+11428,40.721,-73.742
+11429,40.71,-73.738
+11430,40.647,-73.787
+11432,40.715,-73.793
+11433,40.698,-73.787
+11434,40.678,-73.777
+11435,40.701,-73.81
+11436,40.676,-73.797
+11439,40.722,-73.795
+11451,40.701,-73.796
+11501,40.746,-73.639
+11507,40.771,-73.652
+11509,40.588,-73.729
+11510,40.65,-73.608
+11514,40.75,-73.613
+11516,40.626,-73.727
+11518,40.637,-73.667
+11520,40.649,-73.583
+11530,40.727,-73.637
+11542,40.873,-73.629
+11545,40.826,-73.589
+11547,40.829,-73.645
+11548,40.811,-73.614
+11549,40.719,-73.6
+11550,40.701,-73.621
+11552,40.692,-73.654
+11553,40.705,-73.592
+11554,40.72,-73.559
+11556,40.72,-73.583
+11557,40.636,-73.694
+11558,40.605,-73.649
+11559,40.603,-73.714
+11560,40.881,-73.589
+11561,40.591,-73.645
+11563,40.657,-73.674
+11565,40.675,-73.672
+11566,40.662,-73.556
+11568,40.787,-73.597
+11569,40.59,-73.58
+11570,40.665,-73.639
+11572,40.632,-73.637
+11575,40.68,-73.585
+11576,40.797,-73.647
+11577,40.783,-73.639
+11579,40.844,-73.644
+11580,40.675,-73.702
+11581,40.651,-73.715
+11590,40.755,-73.574
+11596,40.76,-73.642
+11598,40.631,-73.712
+11691,40.602,-73.762
+11692,40.594,-73.792
+11693,40.592,-73.81
+11694,40.575,-73.851
+11697,40.557,-73.914
+11701,40.682,-73.414
+11702,40.636,-73.384
+11703,40.733,-73.325
+11704,40.716,-73.359
+11705,40.743,-73.056
+11706,40.711,-73.243
+11709,40.906,-73.558
+11710,40.672,-73.535
+11713,40.778,-72.943
+11714,40.743,-73.486
+11715,40.751,-73.035
+11716,40.777,-73.135
+11717,40.784,-73.252
+11718,40.716,-73.262
+11719,40.777,-72.908
+11720,40.87,-73.082
+11721,40.902,-73.371
+11722,40.784,-73.197
+11724,40.864,-73.456
+11725,40.841,-73.281
+11726,40.679,-73.394
+11727,40.88,-73.004
+11729,40.761,-73.325
+11730,40.728,-73.185
+11731,40.863,-73.317
+11732,40.842,-73.539
+11733,40.94,-73.113
+11735,40.733,-73.433
+11738,40.838,-73.038
+11739,40.711,-73.166
+11740,40.865,-73.361
+11741,40.795,-73.07
+11742,40.81,-73.042
+11743,40.883,-73.424
+11746,40.814,-73.362
+11747,40.784,-73.409
+11749,40.807,-73.171
+11751,40.73,-73.214
+11752,40.758,-73.174
+11753,40.79,-73.541
+11754,40.886,-73.25
+11755,40.858,-73.117
+11756,40.725,-73.516
+11757,40.689,-73.373
+11758,40.654,-73.457
+11762,40.683,-73.447
+11763,40.825,-72.982
+11764,40.93,-72.973
+11765,40.882,-73.559
+11766,40.939,-73.019
+11767,40.848,-73.146
+11768,40.924,-73.339
+11769,40.735,-73.125
+11770,40.65,-73.14
+11771,40.874,-73.525
+11772,40.762,-72.987
+11776,40.913,-73.046
+11777,40.956,-73.067
+11778,40.948,-72.937
+11779,40.813,-73.114
+11780,40.911,-73.173
+11782,40.737,-73.08
+11783,40.678,-73.49
+11784,40.869,-73.042
+11786,40.951,-72.888
+11787,40.853,-73.211
+11788,40.818,-73.213
+11789,40.962,-72.971
+11790,40.908,-73.127
+11791,40.828,-73.503
+11792,40.955,-72.826
+11793,40.647,-73.511
+11794,40.919,-73.125
+11795,40.709,-73.296
+11796,40.731,-73.099
+11797,40.82,-73.472
+11798,40.753,-73.378
+11801,40.762,-73.524
+11803,40.782,-73.473
+11804,40.758,-73.457
+11901,40.928,-72.648
+11930,40.991,-72.114
+11931,40.933,-72.622
+11932,40.926,-72.305
+11933,40.942,-72.766
+11934,40.802,-72.795
+11935,41.021,-72.487
+11937,40.995,-72.192
+11939,41.139,-72.319
+11940,40.809,-72.757
+11941,40.83,-72.723
+11942,40.849,-72.572
+11944,41.102,-72.373
+11946,40.865,-72.518
+11947,40.943,-72.582
+11948,40.961,-72.55
+11949,40.867,-72.805
+11950,40.806,-72.847
+11951,40.766,-72.837
+11952,41.002,-72.548
+11953,40.893,-72.951
+11954,41.046,-71.949
+11955,40.814,-72.824
+11956,40.991,-72.472
+11957,41.203,-72.117
+11958,41.039,-72.464
+11959,40.83,-72.61
+11960,40.811,-72.706
+11961,40.904,-72.886
+11962,40.931,-72.269
+11963,41.002,-72.32
+11964,41.049,-72.302
+11965,41.083,-72.303
+11967,40.802,-72.878
+11968,40.9,-72.429
+11970,40.942,-72.572
+11971,41.065,-72.429
+11972,40.823,-72.7
+11973,40.866,-72.887
+11975,40.948,-72.25
+11976,40.929,-72.347
+11977,40.828,-72.679
+11978,40.826,-72.638
+11980,40.832,-72.925
+12007,42.506,-73.935
+12008,42.853,-73.907
+12009,42.698,-74.035
+12010,42.938,-74.173
+12015,42.292,-73.822
+12017,42.321,-73.456
+12018,42.629,-73.521
+12019,42.934,-73.882
+12020,43.002,-73.87
+12022,42.667,-73.334
+12023,42.599,-74.183
+12024,42.481,-73.534
+12025,43.091,-74.122
+12027,42.921,-73.908
+12028,42.945,-73.441
+12029,42.416,-73.425
+12031,42.766,-74.466
+12032,43.288,-74.591
+12033,42.533,-73.7
+12035,42.734,-74.372
+12036,42.533,-74.689
+12037,42.339,-73.566
+12040,42.631,-73.359
+12041,42.544,-73.98
+12042,42.353,-73.884
+12043,42.694,-74.531
+12045,42.48,-73.797
+12046,42.509,-73.917
+12047,42.784,-73.726
+12051,42.346,-73.838
+12052,42.757,-73.48
+12053,42.757,-74.191
+12054,42.605,-73.866
+12056,42.765,-74.1
+12057,42.971,-73.336
+12058,42.344,-73.918
+12059,42.619,-74.061
+12060,42.411,-73.505
+12061,42.599,-73.657
+12062,42.539,-73.505
+12063,42.567,-73.64
+12064,42.579,-74.646
+12065,42.852,-73.786
+12066,42.781,-74.304
+12067,42.557,-73.92
+12068,42.956,-74.402
+12069,42.946,-74.28
+12070,42.986,-74.263
+12071,42.57,-74.415
+12072,42.885,-74.357
+12074,43.051,-74.053
+12075,42.305,-73.641
+12076,42.4,-74.391
+12077,42.588,-73.778
+12078,43.134,-74.34
+12082,42.77,-73.447
+12083,42.425,-74.027
+12084,42.705,-73.899
+12085,42.701,-73.967
+12086,42.996,-74.109
+12087,42.432,-73.893
+12090,42.877,-73.352
+12092,42.706,-74.38
+12093,42.498,-74.628
+12094,42.89,-73.486
+12095,43.035,-74.424
+12106,42.389,-73.714
+12108,43.468,-74.435
+12110,42.751,-73.776
+12115,42.468,-73.602
+12116,42.539,-74.911
+12117,43.167,-74.261
+12118,42.921,-73.717
+12120,42.465,-74.135
+12121,42.84,-73.607
+12122,42.542,-74.326
+12123,42.522,-73.606
+12124,42.449,-73.789
+12125,42.485,-73.4
+12130,42.442,-73.658
+12131,42.453,-74.464
+12132,42.471,-73.634
+12134,43.262,-74.228
+12136,42.42,-73.565
+12137,42.86,-74.133
+12138,42.749,-73.37
+12139,43.5,-74.58
+12140,42.682,-73.572
+12143,42.492,-73.843
+12144,42.628,-73.718
+12147,42.519,-74.159
+12148,42.828,-73.848
+12149,42.618,-74.571
+12150,42.881,-74.053
+12151,42.923,-73.781
+12153,42.632,-73.472
+12154,42.937,-73.606
+12155,42.596,-74.828
+12156,42.484,-73.747
+12157,42.67,-74.286
+12158,42.533,-73.814
+12159,42.651,-73.886
+12160,42.763,-74.364
+12161,42.534,-73.846
+12164,43.648,-74.452
+12165,42.315,-73.508
+12166,42.845,-74.46
+12167,42.423,-74.599
+12168,42.574,-73.371
+12169,42.593,-73.448
+12170,43.002,-73.667
+12172,42.289,-73.739
+12173,42.395,-73.755
+12174,42.353,-73.728
+12175,42.559,-74.56
+12176,42.385,-73.966
+12177,42.951,-74.287
+12180,42.749,-73.6
+12182,42.801,-73.627
+12183,42.748,-73.692
+12184,42.42,-73.653
+12185,42.863,-73.554
+12186,42.633,-73.977
+12187,42.628,-74.464
+12188,42.821,-73.696
+12189,42.736,-73.718
+12190,43.476,-74.285
+12192,42.401,-73.825
+12193,42.523,-74.043
+12194,42.538,-74.454
+12195,42.479,-73.465
+12196,42.632,-73.614
+12197,42.61,-74.725
+12198,42.673,-73.634
+12202,42.635,-73.76
+12203,42.683,-73.849
+12204,42.692,-73.734
+12205,42.719,-73.824
+12206,42.674,-73.782
+12207,42.655,-73.748
+12208,42.653,-73.81
+12209,42.639,-73.79
+12210,42.656,-73.755
+12211,42.71,-73.763
+12222,42.685,-73.823
+12226,42.679,-73.81
+12302,42.878,-73.983
+12303,42.749,-73.93
+12304,42.775,-73.898
+12305,42.812,-73.95
+12306,42.805,-74.044
+12307,42.805,-73.933
+12308,42.821,-73.921
+12309,42.8,-73.865
+12401,41.988,-74.01
+12404,41.819,-74.236
+12405,42.307,-74.101
+12406,42.095,-74.576
+12407,42.297,-74.362
+12409,42.055,-74.165
+12410,42.066,-74.425
+12411,41.879,-74.04
+12412,42.012,-74.277
+12413,42.308,-74.025
+12414,42.235,-73.924
+12416,42.096,-74.279
+12417,41.906,-73.991
+12418,42.359,-74.161
+12419,41.861,-74.102
+12420,41.675,-74.394
+12421,42.257,-74.535
+12422,42.392,-74.213
+12423,42.38,-74.111
+12424,42.248,-74.116
+12427,42.151,-74.124
+12428,41.734,-74.457
+12429,41.833,-73.961
+12430,42.201,-74.499
+12431,42.362,-74.024
+12432,42.047,-73.944
+12433,42.005,-74.155
+12434,42.362,-74.509
+12435,41.722,-74.502
+12436,42.213,-74.078
+12438,42.21,-74.601
+12439,42.278,-74.21
+12440,41.781,-74.173
+12441,42.151,-74.504
+12442,42.227,-74.244
+12443,41.935,-74.085
+12444,42.247,-74.291
+12446,41.79,-74.314
+12448,42.08,-74.201
+12449,41.992,-73.994
+12450,42.142,-74.223
+12451,42.305,-73.948
+12452,42.237,-74.359
+12453,42.093,-73.936
+12454,42.28,-74.142
+12455,42.149,-74.662
+12456,42.033,-73.997
+12457,42.04,-74.247
+12458,41.823,-74.432
+12459,42.24,-74.679
+12460,42.429,-74.169
+12461,41.909,-74.248
+12463,42.192,-74.009
+12464,42.065,-74.346
+12465,42.157,-74.46
+12466,41.907,-73.978
+12468,42.299,-74.401
+12469,42.449,-74.246
+12470,42.285,-74.078
+12471,41.838,-74.042
+12472,41.849,-74.067
+12473,42.261,-74.031
+12474,42.285,-74.588
+12475,42.014,-74.013
+12477,42.093,-73.988
+12480,42.135,-74.391
+12481,41.977,-74.228
+12482,42.268,-73.956
+12483,41.675,-74.455
+12484,41.862,-74.177
+12485,42.207,-74.162
+12486,41.832,-74.064
+12487,41.869,-73.999
+12489,41.754,-74.352
+12490,42.123,-73.924
+12491,41.965,-74.141
+12492,42.188,-74.335
+12493,41.795,-73.972
+12494,41.949,-74.302
+12495,42.083,-74.246
+12496,42.338,-74.27
+12498,42.046,-74.11
+12501,41.853,-73.558
+12502,42.087,-73.665
+12503,42.036,-73.58
+12504,42.023,-73.909
+12507,42.009,-73.917
+12508,41.496,-73.954
+12512,41.555,-73.962
+12513,42.219,-73.72
+12514,41.877,-73.764
+12515,41.68,-74.065
+12516,42.108,-73.551
+12517,42.128,-73.509
+12518,41.416,-74.043
+12520,41.428,-73.996
+12521,42.171,-73.65
+12522,41.72,-73.598
+12523,42.087,-73.76
+12524,41.533,-73.885
+12525,41.686,-74.192
+12526,42.122,-73.859
+12527,41.519,-73.937
+12528,41.714,-73.995
+12529,42.196,-73.543
+12530,42.207,-73.684
+12531,41.541,-73.672
+12533,41.56,-73.787
+12534,42.226,-73.754
+12538,41.792,-73.894
+12540,41.671,-73.725
+12542,41.614,-74.015
+12543,41.486,-74.224
+12544,42.261,-73.668
+12545,41.791,-73.677
+12546,41.948,-73.524
+12547,41.661,-73.987
+12548,41.658,-74.102
+12549,41.528,-74.259
+12550,41.54,-74.057
+12553,41.46,-74.072
+12561,41.764,-74.089
+12563,41.499,-73.587
+12564,41.583,-73.583
+12565,42.249,-73.647
+12566,41.634,-74.32
+12567,41.985,-73.654
+12569,41.735,-73.793
+12570,41.634,-73.672
+12571,42.003,-73.81
+12572,41.925,-73.864
+12574,41.918,-73.946
+12575,41.486,-74.159
+12577,41.421,-74.117
+12578,41.806,-73.798
+12580,41.864,-73.872
+12581,41.902,-73.701
+12582,41.543,-73.725
+12583,42.06,-73.884
+12585,41.726,-73.692
+12586,41.569,-74.166
+12589,41.624,-74.159
+12590,41.596,-73.889
+12592,41.784,-73.549
+12594,41.658,-73.573
+12601,41.708,-73.911
+12603,41.676,-73.864
+12604,41.688,-73.894
+12701,41.65,-74.699
+12719,41.486,-74.892
+12720,41.646,-74.901
+12721,41.567,-74.427
+12722,41.59,-74.375
+12723,41.753,-74.988
+12724,41.86,-74.937
+12725,41.983,-74.57
+12726,41.695,-74.966
+12729,41.49,-74.613
+12732,41.555,-74.874
+12733,41.739,-74.614
+12734,41.735,-74.75
+12736,41.853,-75.019
+12737,41.501,-74.799
+12738,41.666,-74.597
+12740,41.939,-74.434
+12741,41.839,-75.078
+12742,41.723,-74.716
+12743,41.535,-74.84
+12745,41.785,-75.026
+12746,41.439,-74.652
+12747,41.751,-74.642
+12748,41.775,-74.915
+12749,41.695,-74.831
+12750,41.739,-74.967
+12751,41.688,-74.662
+12752,41.681,-74.985
+12754,41.798,-74.737
+12758,41.94,-74.739
+12759,41.786,-74.661
+12760,41.904,-75.108
+12762,41.661,-74.792
+12763,41.682,-74.51
+12764,41.592,-74.996
+12765,41.852,-74.621
+12766,41.815,-74.979
+12767,41.833,-75.003
+12768,41.864,-74.73
+12769,41.659,-74.471
+12770,41.447,-74.841
+12771,41.375,-74.632
+12775,41.621,-74.582
+12776,41.963,-74.958
+12777,41.562,-74.71
+12778,41.662,-74.814
+12779,41.691,-74.624
+12780,41.44,-74.727
+12781,41.614,-74.472
+12783,41.739,-74.834
+12784,41.667,-74.612
+12785,41.55,-74.586
+12786,41.639,-74.858
+12787,41.795,-74.845
+12788,41.795,-74.591
+12789,41.718,-74.58
+12790,41.563,-74.527
+12791,41.817,-74.893
+12792,41.514,-74.96
+12801,43.311,-73.645
+12803,43.288,-73.632
+12804,43.337,-73.683
+12808,43.75,-73.747
+12809,43.242,-73.472
+12810,43.492,-73.986
+12811,43.558,-74.078
+12812,43.876,-74.39
+12814,43.632,-73.633
+12815,43.701,-73.692
+12816,43.044,-73.382
+12817,43.64,-73.824
+12819,43.591,-73.469
+12820,43.46,-73.641
+12821,43.454,-73.423
+12822,43.229,-73.922
+12823,43.18,-73.409
+12824,43.524,-73.711
+12827,43.442,-73.531
+12828,43.255,-73.559
+12831,43.195,-73.692
+12832,43.358,-73.33
+12833,43.15,-73.841
+12834,43.098,-73.505
+12835,43.333,-74.006
+12836,43.712,-73.606
+12837,43.476,-73.256
+12838,43.33,-73.406
+12839,43.354,-73.554
+12841,43.577,-73.509
+12842,43.72,-74.28
+12843,43.594,-73.982
+12844,43.485,-73.654
+12845,43.428,-73.711
+12846,43.346,-73.789
+12847,43.966,-74.635
+12849,43.442,-73.3
+12850,43.103,-73.981
+12851,43.855,-74.118
+12852,43.988,-74.133
+12853,43.662,-74.064
+12854,43.45,-73.328
+12855,44.027,-73.758
+12856,43.666,-74.143
+12857,43.833,-73.947
+12858,43.878,-73.703
+12859,43.155,-73.905
+12860,43.722,-73.814
+12861,43.747,-73.418
+12862,43.688,-73.932
+12863,43.06,-73.932
+12864,43.727,-74.305
+12865,43.214,-73.347
+12866,43.074,-73.74
+12870,43.839,-73.766
+12871,43.091,-73.604
+12872,43.884,-73.723
+12873,43.117,-73.312
+12874,43.691,-73.55
+12878,43.438,-74.064
+12883,43.836,-73.553
+12884,43.088,-73.592
+12885,43.529,-73.836
+12886,43.635,-73.931
+12887,43.537,-73.366
+12901,44.709,-73.474
+12903,44.657,-73.463
+12910,44.857,-73.608
+12911,44.535,-73.468
+12912,44.481,-73.772
+12913,44.43,-74.002
+12914,44.934,-74.594
+12915,44.853,-74.035
+12916,44.838,-74.525
+12917,44.925,-74.174
+12918,44.691,-73.675
+12919,44.96,-73.45
+12920,44.891,-74.057
+12921,44.894,-73.432
+12922,44.368,-74.814
+12923,44.945,-73.958
+12924,44.48,-73.583
+12926,44.951,-74.329
+12927,44.207,-74.81
+12928,43.964,-73.583
+12929,44.72,-73.719
+12930,44.728,-74.54
+12932,44.214,-73.609
+12933,44.891,-73.845
+12934,44.812,-73.865
+12935,44.845,-73.797
+12936,44.285,-73.401
+12937,44.955,-74.488
+12939,44.433,-74.161
+12941,44.355,-73.7
+12942,44.261,-73.797
+12943,44.123,-73.883
+12944,44.433,-73.533
+12945,44.309,-74.24
+12946,44.207,-74.046
+12950,44.318,-73.581
+12952,44.711,-73.904
+12953,44.745,-74.26
+12955,44.78,-73.944
+12956,44.098,-73.481
+12957,44.854,-74.577
+12958,44.954,-73.573
+12959,44.952,-73.72
+12960,44.016,-73.572
+12961,44.061,-73.588
+12962,44.709,-73.577
+12964,44.132,-73.634
+12965,44.706,-74.684
+12966,44.793,-74.425
+12967,44.761,-74.661
+12969,44.711,-74.098
+12970,44.446,-74.337
+12972,44.562,-73.56
+12973,44.284,-74.569
+12974,44.06,-73.465
+12975,44.53,-73.431
+12976,44.504,-74.23
+12977,44.297,-74.099
+12978,44.613,-73.79
+12979,44.989,-73.372
+12980,44.564,-74.524
+12981,44.627,-73.846
+12983,44.348,-74.143
+12985,44.561,-73.739
+12986,44.224,-74.433
+12987,44.364,-73.759
+12989,44.539,-74.061
+12992,44.818,-73.516
+12993,44.194,-73.489
+12996,44.355,-73.448
+12997,44.373,-73.892
+12998,44.091,-73.604
+13020,42.816,-76.075
+13021,42.918,-76.555
+13024,42.935,-76.574
+13026,42.744,-76.652
+13027,43.172,-76.356
+13028,43.303,-75.933
+13029,43.226,-76.151
+13030,43.159,-75.964
+13031,43.045,-76.307
+13032,43.082,-75.766
+13033,43.188,-76.573
+13034,42.957,-76.708
+13035,42.941,-75.83
+13036,43.324,-76.189
+13037,43.068,-75.855
+13039,43.172,-76.056
+13040,42.56,-75.931
+13041,43.192,-76.192
+13042,43.26,-75.853
+13044,43.305,-75.993
+13045,42.585,-76.191
+13051,42.883,-75.91
+13052,42.734,-75.869
+13053,42.48,-76.268
+13054,43.169,-75.667
+13057,43.102,-76.038
+13060,43.023,-76.412
+13061,42.859,-75.745
+13062,42.481,-76.386
+13063,42.848,-75.978
+13065,42.819,-76.816
+13066,43.032,-76.001
+13068,42.492,-76.359
+13069,43.329,-76.381
+13071,42.675,-76.543
+13072,42.761,-75.752
+13073,42.584,-76.388
+13074,43.311,-76.55
+13076,43.354,-76.149
+13077,42.728,-76.211
+13078,42.958,-76.061
+13080,43.093,-76.485
+13081,42.674,-76.627
+13082,43.103,-75.96
+13083,43.646,-75.982
+13084,42.881,-76.124
+13087,42.697,-76.17
+13088,43.108,-76.19
+13090,43.153,-76.212
+13092,42.652,-76.426
+13101,42.613,-76.066
+13102,42.55,-76.292
+13103,43.327,-76.105
+13104,42.963,-75.948
+13108,42.965,-76.331
+13110,42.889,-76.29
+13111,43.258,-76.614
+13112,43.106,-76.417
+13113,43.164,-76.535
+13114,43.466,-76.243
+13115,43.394,-76.475
+13116,43.075,-76.008
+13117,43.008,-76.708
+13118,42.755,-76.401
+13119,42.977,-76.445
+13120,42.945,-76.164
+13121,43.485,-76.31
+13122,42.838,-75.862
+13123,43.228,-75.753
+13124,42.661,-75.824
+13126,43.439,-76.457
+13131,43.423,-76.092
+13132,43.272,-76.251
+13134,42.967,-75.685
+13135,43.254,-76.314
+13136,42.607,-75.854
+13138,42.899,-76.015
+13140,43.06,-76.65
+13141,42.752,-76.186
+13142,43.556,-76.138
+13143,43.23,-76.717
+13144,43.569,-75.977
+13145,43.652,-76.123
+13146,43.101,-76.757
+13147,42.775,-76.57
+13148,42.921,-76.778
+13152,42.905,-76.382
+13153,42.995,-76.455
+13154,43.134,-76.762
+13155,42.675,-75.777
+13156,43.326,-76.661
+13157,43.202,-75.725
+13158,42.717,-75.973
+13159,42.801,-76.118
+13160,42.828,-76.649
+13162,43.186,-75.721
+13163,43.079,-75.707
+13164,43.097,-76.313
+13165,42.911,-76.879
+13166,43.079,-76.565
+13167,43.326,-76.06
+13202,43.044,-76.151
+13203,43.061,-76.135
+13204,43.052,-76.178
+13205,43.005,-76.142
+13206,43.074,-76.106
+13207,43.013,-76.163
+13208,43.079,-76.145
+13209,43.081,-76.236
+13210,43.031,-76.126
+13211,43.103,-76.12
+13212,43.129,-76.13
+13214,43.041,-76.077
+13215,42.981,-76.223
+13219,43.039,-76.223
+13224,43.039,-76.103
+13244,43.023,-76.123
+13290,43.069,-76.173
+13301,43.423,-75.216
+13302,43.498,-75.965
+13303,43.367,-75.468
+13304,43.24,-75.157
+13305,43.895,-75.431
+13308,43.251,-75.658
+13309,43.479,-75.339
+13310,42.89,-75.572
+13312,43.692,-75.205
+13313,42.879,-75.245
+13314,42.828,-75.301
+13315,42.739,-75.136
+13316,43.419,-75.74
+13317,42.85,-74.586
+13318,42.922,-75.26
+13319,43.027,-75.266
+13320,42.778,-74.741
+13321,43.089,-75.372
+13322,42.977,-75.198
+13323,43.04,-75.379
+13324,43.319,-74.917
+13325,43.583,-75.544
+13326,42.723,-74.895
+13327,43.973,-75.263
+13328,42.983,-75.428
+13329,43.107,-74.708
+13331,43.822,-75.04
+13332,42.764,-75.582
+13333,42.825,-74.828
+13334,42.831,-75.663
+13335,42.702,-75.248
+13337,42.758,-75
+13338,43.528,-74.987
+13339,42.937,-74.659
+13340,43.062,-75.129
+13342,42.644,-75.192
+13343,43.751,-75.309
+13345,43.687,-75.323
+13346,42.821,-75.546
+13348,42.707,-75.057
+13350,43.061,-74.986
+13352,43.309,-75.127
+13353,43.447,-74.695
+13354,43.264,-75.279
+13355,42.81,-75.422
+13357,42.971,-75.081
+13360,43.722,-74.714
+13361,42.898,-74.866
+13363,43.337,-75.513
+13364,42.805,-75.261
+13365,43.098,-74.848
+13367,43.733,-75.537
+13368,43.644,-75.334
+13402,42.902,-75.51
+13403,43.165,-75.268
+13404,43.738,-75.481
+13406,43.141,-74.918
+13407,42.965,-74.944
+13408,42.919,-75.664
+13409,42.976,-75.591
+13410,42.929,-74.611
+13411,42.634,-75.306
+13413,43.062,-75.276
+13415,42.597,-75.197
+13416,43.187,-74.971
+13417,43.1,-75.294
+13418,42.846,-75.38
+13420,43.655,-75.013
+13421,43.062,-75.66
+13424,43.152,-75.363
+13425,42.963,-75.487
+13428,42.922,-74.529
+13431,43.209,-75.073
+13433,43.595,-75.249
+13435,43.302,-75.153
+13436,43.78,-74.659
+13437,43.58,-75.804
+13438,43.354,-75.16
+13439,42.855,-74.997
+13440,43.218,-75.459
+13441,43.227,-75.408
+13450,42.703,-74.813
+13452,43.043,-74.63
+13454,43.17,-74.758
+13455,42.918,-75.377
+13456,43.001,-75.259
+13457,42.775,-75.037
+13459,42.775,-74.589
+13460,42.688,-75.442
+13461,43.071,-75.599
+13464,42.688,-75.616
+13468,42.85,-74.874
+13469,43.215,-75.302
+13470,43.209,-74.666
+13471,43.378,-75.611
+13472,43.697,-75.068
+13473,43.644,-75.445
+13475,42.888,-74.812
+13476,43.088,-75.51
+13477,43.036,-75.514
+13478,43.144,-75.582
+13480,42.918,-75.363
+13482,42.695,-75.168
+13483,43.406,-75.815
+13484,42.854,-75.655
+13485,42.788,-75.315
+13486,43.357,-75.337
+13488,42.674,-74.768
+13489,43.467,-75.522
+13490,43.106,-75.43
+13491,42.864,-75.168
+13492,43.115,-75.338
+13493,43.433,-75.898
+13494,43.535,-75.152
+13495,43.111,-75.278
+13501,43.081,-75.226
+13502,43.141,-75.155
+13601,43.969,-75.91
+13602,44.05,-75.749
+13603,44.03,-75.804
+13605,43.807,-76.05
+13606,43.87,-76.016
+13607,44.332,-75.91
+13608,44.261,-75.614
+13611,43.77,-76.131
+13612,43.985,-75.769
+13613,44.843,-74.749
+13614,44.531,-75.692
+13615,44.005,-75.983
+13616,44.03,-75.858
+13617,44.581,-75.143
+13618,44.115,-76.291
+13619,43.977,-75.592
+13620,43.909,-75.448
+13621,44.839,-75.062
+13622,44.096,-76.115
+13623,44.449,-75.753
+13624,44.229,-76.094
+13625,44.543,-74.91
+13626,43.854,-75.719
+13628,44.039,-75.683
+13630,44.499,-75.312
+13632,44.127,-76.068
+13633,44.484,-75.499
+13634,44.015,-76.072
+13635,44.287,-75.281
+13636,43.741,-76.128
+13637,44.104,-75.843
+13638,44.02,-75.754
+13639,44.264,-75.151
+13640,44.333,-75.99
+13641,44.27,-76.006
+13642,44.327,-75.468
+13643,44.032,-75.718
+13645,44.309,-75.447
+13646,44.444,-75.692
+13647,44.602,-74.993
+13648,44.151,-75.304
+13649,44.912,-74.7
+13650,43.811,-76.216
+13651,43.866,-76.177
+13652,44.435,-75.214
+13654,44.572,-75.488
+13655,44.979,-74.643
+13656,44.193,-75.955
+13658,44.748,-75.271
+13659,43.738,-75.863
+13660,44.774,-75.161
+13661,43.71,-76.098
+13662,44.937,-74.894
+13664,44.584,-75.645
+13665,44.048,-75.434
+13666,44.219,-74.948
+13667,44.803,-75.02
+13668,44.755,-74.986
+13669,44.659,-75.492
+13670,44.187,-75.1
+13672,44.471,-74.661
+13673,44.181,-75.726
+13674,43.737,-76.052
+13675,44.277,-75.844
+13676,44.655,-74.91
+13678,44.832,-74.968
+13679,44.326,-75.765
+13680,44.594,-75.329
+13681,44.428,-75.373
+13682,43.843,-75.902
+13683,44.974,-74.735
+13684,44.357,-75.013
+13685,43.925,-76.086
+13687,44.439,-74.838
+13690,44.137,-75.014
+13691,44.232,-75.771
+13692,44.289,-76.026
+13693,43.986,-76.246
+13694,44.859,-75.171
+13695,44.103,-74.922
+13696,44.704,-74.89
+13697,44.755,-74.81
+13699,44.664,-74.998
+13730,42.232,-75.533
+13731,42.13,-74.788
+13732,42.049,-76.168
+13733,42.302,-75.48
+13734,42.07,-76.41
+13736,42.324,-76.193
+13738,42.562,-76.12
+13739,42.349,-74.789
+13740,42.274,-74.757
+13743,42.212,-76.338
+13744,42.243,-75.908
+13746,42.237,-75.863
+13747,42.49,-74.982
+13748,42.043,-75.823
+13750,42.478,-74.836
+13751,42.458,-74.875
+13752,42.173,-74.903
+13753,42.307,-74.927
+13754,42.088,-75.448
+13755,42.071,-75.024
+13756,42.004,-75.101
+13757,42.432,-74.838
+13760,42.133,-76.085
+13774,41.959,-75.185
+13775,42.328,-75.134
+13776,42.471,-75.341
+13777,42.259,-75.987
+13778,42.359,-75.759
+13780,42.422,-75.477
+13782,42.17,-74.991
+13783,41.987,-75.271
+13784,42.435,-76.218
+13786,42.445,-74.703
+13787,42.218,-75.677
+13788,42.339,-74.666
+13790,42.165,-76.002
+13795,42.056,-75.779
+13796,42.557,-75.132
+13797,42.334,-76.04
+13801,42.505,-75.777
+13802,42.242,-76.041
+13803,42.458,-76.054
+13804,42.226,-75.384
+13806,42.381,-74.976
+13807,42.617,-74.973
+13808,42.525,-75.262
+13809,42.408,-75.391
+13810,42.607,-75.108
+13811,42.235,-76.164
+13812,42.03,-76.355
+13813,42.181,-75.55
+13814,42.617,-75.526
+13815,42.547,-75.534
+13820,42.483,-75.037
+13825,42.436,-75.205
+13826,42.092,-75.634
+13827,42.118,-76.249
+13830,42.443,-75.645
+13832,42.655,-75.663
+13833,42.198,-75.762
+13834,42.551,-74.967
+13835,42.383,-76.179
+13838,42.289,-75.396
+13839,42.24,-75.259
+13841,42.407,-75.841
+13842,42.368,-74.722
+13843,42.556,-75.349
+13844,42.606,-75.69
+13846,42.364,-75.055
+13847,42.204,-75.278
+13849,42.341,-75.322
+13850,42.049,-76.018
+13856,42.171,-75.183
+13859,42.371,-75.249
+13860,42.458,-74.946
+13861,42.505,-75.139
+13862,42.331,-75.931
+13863,42.435,-75.906
+13864,42.275,-76.39
+13865,42.059,-75.625
+13901,42.183,-75.876
+13902,42.089,-75.969
+13903,42.042,-75.889
+13904,42.134,-75.82
+13905,42.17,-75.943
+14001,43.037,-78.511
+14004,42.891,-78.504
+14005,42.921,-78.25
+14006,42.633,-79.022
+14008,43.313,-78.623
+14009,42.593,-78.397
+14011,42.831,-78.3
+14012,43.332,-78.533
+14013,43.076,-78.394
+14020,42.996,-78.213
+14024,42.581,-78.245
+14025,42.623,-78.726
+14026,42.942,-78.688
+14027,42.594,-79.021
+14028,43.315,-78.717
+14029,42.473,-78.263
+14030,42.56,-78.49
+14031,42.983,-78.614
+14032,43.046,-78.632
+14033,42.66,-78.684
+14034,42.501,-78.865
+14035,42.491,-78.859
+14036,42.974,-78.39
+14037,42.803,-78.453
+14039,42.851,-78.178
+14040,42.882,-78.378
+14041,42.4,-78.977
+14042,42.476,-78.489
+14043,42.901,-78.705
+14047,42.687,-78.987
+14048,42.487,-79.314
+14051,43.043,-78.699
+14052,42.773,-78.584
+14054,42.909,-78.128
+14055,42.563,-78.6
+14056,42.992,-78.307
+14057,42.647,-78.875
+14058,43.102,-78.169
+14059,42.834,-78.634
+14060,42.442,-78.316
+14061,42.591,-79.089
+14062,42.451,-79.153
+14063,42.409,-79.331
+14065,42.485,-78.313
+14066,42.629,-78.186
+14067,43.212,-78.556
+14068,43.029,-78.759
+14069,42.6,-78.638
+14070,42.42,-78.918
+14072,43.018,-78.963
+14075,42.713,-78.83
+14080,42.635,-78.561
+14081,42.563,-79.068
+14082,42.657,-78.385
+14083,42.679,-78.434
+14085,42.714,-78.928
+14086,42.906,-78.629
+14091,42.538,-78.893
+14092,43.173,-78.993
+14094,43.158,-78.702
+14098,43.335,-78.378
+14101,42.393,-78.538
+14102,42.843,-78.555
+14103,43.211,-78.377
+14105,43.18,-78.487
+14108,43.264,-78.727
+14109,43.137,-79.035
+14111,42.585,-78.895
+14112,42.698,-78.94
+14113,42.661,-78.323
+14120,43.079,-78.843
+14125,43.085,-78.275
+14126,43.336,-78.729
+14127,42.753,-78.74
+14129,42.481,-79.017
+14130,42.553,-78.15
+14131,43.239,-78.9
+14132,43.148,-78.879
+14134,42.531,-78.517
+14135,42.485,-79.244
+14136,42.517,-79.175
+14138,42.383,-79.053
+14139,42.718,-78.541
+14141,42.525,-78.712
+14143,42.977,-78.076
+14145,42.734,-78.428
+14150,42.998,-78.878
+14166,42.451,-79.416
+14167,42.748,-78.323
+14168,42.512,-78.987
+14169,42.765,-78.529
+14170,42.7,-78.674
+14171,42.425,-78.65
+14172,43.273,-78.813
+14173,42.526,-78.473
+14174,43.249,-78.998
+14201,42.898,-78.888
+14202,42.881,-78.877
+14203,42.861,-78.864
+14204,42.882,-78.862
+14206,42.881,-78.81
+14207,42.952,-78.899
+14208,42.915,-78.851
+14209,42.914,-78.866
+14210,42.863,-78.829
+14211,42.907,-78.82
+14212,42.895,-78.82
+14213,42.917,-78.892
+14214,42.94,-78.841
+14215,42.935,-78.81
+14216,42.95,-78.862
+14217,42.972,-78.877
+14218,42.819,-78.829
+14219,42.789,-78.826
+14220,42.846,-78.822
+14221,42.984,-78.723
+14222,42.92,-78.877
+14223,42.973,-78.846
+14224,42.838,-78.748
+14225,42.929,-78.75
+14226,42.97,-78.798
+14227,42.884,-78.747
+14228,43.044,-78.777
+14260,43.002,-78.791
+14261,42.997,-78.792
+14301,43.097,-79.037
+14302,43.094,-79.049
+14303,43.084,-79.037
+14304,43.105,-78.948
+14305,43.123,-79.023
+14411,43.236,-78.216
+14413,43.223,-76.971
+14414,42.891,-77.744
+14415,42.756,-77.017
+14416,43.083,-77.98
+14418,42.604,-77.216
+14420,43.214,-77.929
+14422,43.085,-78.067
+14423,42.938,-77.835
+14424,42.856,-77.303
+14425,42.99,-77.337
+14427,42.615,-78.051
+14428,43.081,-77.854
+14432,42.956,-77.141
+14433,43.077,-76.879
+14435,42.713,-77.663
+14437,42.57,-77.734
+14441,42.686,-76.958
+14445,43.113,-77.49
+14450,43.092,-77.42
+14453,43.016,-77.474
+14454,42.803,-77.767
+14456,42.848,-76.999
+14462,42.687,-77.751
+14463,42.795,-77.069
+14464,43.326,-77.939
+14466,42.776,-77.577
+14467,43.036,-77.612
+14468,43.294,-77.802
+14469,42.878,-77.471
+14470,43.205,-78.058
+14471,42.743,-77.491
+14472,42.965,-77.583
+14475,42.937,-77.498
+14476,43.329,-78.043
+14477,43.336,-78.133
+14478,42.58,-77.128
+14479,43.236,-78.304
+14480,42.838,-77.707
+14481,42.772,-77.916
+14482,42.967,-77.972
+14485,42.883,-77.601
+14486,42.893,-77.923
+14487,42.808,-77.64
+14489,43.09,-76.994
+14502,43.097,-77.335
+14504,42.968,-77.233
+14505,43.159,-77.174
+14506,43.002,-77.505
+14507,42.685,-77.255
+14510,42.696,-77.867
+14511,42.999,-77.892
+14512,42.645,-77.4
+14513,43.076,-77.101
+14514,43.079,-77.811
+14515,43.253,-77.732
+14516,43.198,-76.911
+14517,42.592,-77.897
+14519,43.234,-77.315
+14521,42.677,-76.805
+14522,43.06,-77.22
+14525,42.878,-78.013
+14526,43.151,-77.444
+14527,42.666,-77.063
+14529,42.538,-77.644
+14530,42.74,-77.999
+14532,42.964,-77.032
+14533,42.847,-77.883
+14534,43.057,-77.521
+14536,42.538,-78.079
+14537,43.035,-77.156
+14539,42.834,-77.875
+14541,42.765,-76.849
+14542,43.153,-76.876
+14543,42.984,-77.679
+14544,42.756,-77.24
+14545,42.662,-77.711
+14546,43.033,-77.78
+14548,42.975,-77.243
+14549,42.697,-78.022
+14550,42.68,-78.093
+14551,43.218,-77.049
+14555,43.268,-76.978
+14556,42.679,-77.832
+14557,43.043,-78.068
+14559,43.19,-77.819
+14560,42.691,-77.583
+14561,42.822,-77.131
+14564,42.987,-77.434
+14568,43.144,-77.286
+14569,42.75,-78.169
+14571,43.342,-78.252
+14572,42.565,-77.563
+14580,43.217,-77.445
+14585,42.906,-77.553
+14586,43.042,-77.69
+14588,42.68,-76.87
+14589,43.239,-77.169
+14590,43.245,-76.832
+14591,42.832,-78.107
+14592,42.869,-77.891
+14604,43.157,-77.605
+14605,43.168,-77.6
+14606,43.171,-77.698
+14607,43.151,-77.587
+14608,43.154,-77.623
+14609,43.177,-77.552
+14610,43.141,-77.545
+14611,43.148,-77.647
+14612,43.264,-77.673
+14613,43.182,-77.64
+14614,43.158,-77.615
+14615,43.201,-77.655
+14616,43.234,-77.658
+14617,43.226,-77.587
+14618,43.115,-77.555
+14619,43.136,-77.649
+14620,43.128,-77.604
+14621,43.19,-77.604
+14622,43.214,-77.551
+14623,43.087,-77.642
+14624,43.128,-77.731
+14625,43.15,-77.506
+14626,43.214,-77.712
+14627,43.129,-77.63
+14642,43.123,-77.625
+14701,42.078,-79.259
+14706,42.106,-78.528
+14707,42.083,-78.062
+14708,42.019,-78.064
+14709,42.356,-77.982
+14710,42.088,-79.42
+14711,42.318,-78.128
+14712,42.184,-79.362
+14714,42.29,-78.241
+14715,42.077,-78.145
+14716,42.381,-79.437
+14717,42.362,-78.18
+14718,42.346,-79.288
+14719,42.342,-78.876
+14720,42.109,-79.28
+14721,42.017,-78.268
+14722,42.21,-79.469
+14723,42.318,-79.157
+14724,42.046,-79.67
+14726,42.254,-79.02
+14727,42.214,-78.293
+14728,42.273,-79.411
+14729,42.408,-78.744
+14731,42.307,-78.656
+14732,42.219,-79.107
+14733,42.16,-79.172
+14735,42.453,-78.096
+14736,42.137,-79.746
+14737,42.329,-78.429
+14738,42.053,-79.058
+14739,42.187,-78.157
+14740,42.223,-79.181
+14741,42.22,-78.612
+14742,42.119,-79.309
+14743,42.212,-78.41
+14744,42.428,-78.207
+14747,42.154,-79.095
+14748,42.157,-78.643
+14750,42.079,-79.328
+14752,42.352,-79.32
+14753,42.044,-78.636
+14754,42.022,-78.202
+14755,42.229,-78.816
+14756,42.197,-79.424
+14757,42.238,-79.505
+14760,42.073,-78.418
+14767,42.057,-79.514
+14769,42.386,-79.473
+14770,42.038,-78.3
+14772,42.144,-78.954
+14774,42.089,-78.147
+14775,42.229,-79.7
+14777,42.386,-78.274
+14778,42.078,-78.483
+14779,42.106,-78.77
+14781,42.167,-79.609
+14782,42.267,-79.252
+14783,42.067,-78.929
+14784,42.311,-79.385
+14785,42.156,-79.403
+14787,42.318,-79.57
+14788,42.061,-78.381
+14801,42.104,-77.293
+14802,42.254,-77.79
+14803,42.233,-77.795
+14804,42.314,-77.851
+14805,42.35,-76.719
+14806,42.159,-77.788
+14807,42.42,-77.721
+14808,42.558,-77.469
+14809,42.424,-77.449
+14810,42.347,-77.347
+14812,42.301,-77.005
+14813,42.253,-77.995
+14814,42.156,-76.959
+14815,42.374,-77.087
+14816,42.198,-76.736
+14817,42.358,-76.335
+14818,42.455,-76.819
+14819,42.224,-77.442
+14820,42.195,-77.37
+14821,42.242,-77.219
+14822,42.439,-77.847
+14823,42.242,-77.529
+14824,42.266,-76.693
+14825,42.078,-76.613
+14826,42.496,-77.493
+14827,42.181,-77.143
+14830,42.128,-77.026
+14836,42.533,-77.87
+14837,42.5,-77.019
+14838,42.189,-76.667
+14839,42.148,-77.628
+14840,42.442,-77.194
+14841,42.527,-76.842
+14842,42.601,-76.981
+14843,42.334,-77.635
+14845,42.203,-76.839
+14846,42.529,-78.004
+14847,42.608,-76.734
+14850,42.432,-76.5
+14853,42.446,-76.481
+14854,42.512,-76.607
+14855,42.146,-77.497
+14856,42.377,-77.369
+14858,42.03,-77.135
+14859,42.124,-76.537
+14860,42.592,-76.842
+14861,42.088,-76.686
+14864,42.287,-76.844
+14865,42.353,-76.817
+14867,42.337,-76.61
+14869,42.362,-76.769
+14870,42.16,-77.128
+14871,42.04,-76.911
+14872,42.241,-76.871
+14873,42.523,-77.298
+14874,42.529,-77.164
+14877,42.061,-77.687
+14878,42.449,-76.944
+14879,42.305,-77.197
+14880,42.174,-77.975
+14881,42.4,-76.359
+14882,42.586,-76.579
+14883,42.238,-76.476
+14884,42.48,-77.894
+14885,42.048,-77.571
+14886,42.501,-76.69
+14889,42.234,-76.579
+14891,42.377,-76.945
+14892,42.046,-76.529
+14893,42.469,-77.112
+14894,42.019,-76.777
+14895,42.081,-77.941
+14897,42.021,-77.793
+14898,42.053,-77.43
+14901,42.074,-76.74
+14903,42.117,-76.878
+14904,42.07,-76.808
+14905,42.088,-76.843
+15001,40.595,-80.323
+15003,40.604,-80.216
+15004,40.342,-80.383
+15005,40.644,-80.186
+15006,40.634,-79.877
+15007,40.651,-79.932
+15009,40.698,-80.365
+15010,40.771,-80.351
+15012,40.156,-79.813
+15014,40.609,-79.742
+15015,40.636,-80.082
+15017,40.347,-80.133
+15018,40.28,-79.8
+15019,40.407,-80.329
+15020,40.228,-79.954
+15021,40.389,-80.442
+15022,40.125,-79.939
+15024,40.585,-79.847
+15025,40.297,-79.921
+15026,40.506,-80.357
+15027,40.666,-80.24
+15028,40.303,-79.803
+15030,40.592,-79.783
+15031,40.348,-80.162
+15033,40.18,-79.865
+15034,40.351,-79.89
+15035,40.385,-79.807
+15037,40.258,-79.853
+15038,40.25,-79.926
+15042,40.69,-80.205
+15043,40.552,-80.488
+15044,40.638,-79.948
+15045,40.326,-79.886
+15046,40.556,-80.229
+15047,40.313,-79.796
+15049,40.556,-79.804
+15050,40.562,-80.444
+15051,40.568,-79.861
+15052,40.666,-80.427
+15053,40.381,-80.36
+15054,40.363,-80.397
+15055,40.306,-80.124
+15056,40.564,-80.216
+15057,40.359,-80.244
+15059,40.674,-80.509
+15060,40.37,-80.289
+15061,40.664,-80.308
+15062,40.152,-79.883
+15063,40.191,-79.922
+15064,40.355,-80.148
+15065,40.644,-79.725
+15066,40.747,-80.256
+15067,40.207,-79.962
+15068,40.557,-79.726
+15071,40.415,-80.19
+15072,40.139,-79.856
+15074,40.734,-80.208
+15075,40.587,-79.827
+15076,40.609,-79.837
+15077,40.625,-80.417
+15078,40.359,-80.385
+15081,40.575,-80.236
+15082,40.38,-80.211
+15083,40.26,-79.786
+15084,40.629,-79.803
+15085,40.385,-79.725
+15086,40.675,-80.109
+15087,40.192,-79.851
+15088,40.271,-79.896
+15089,40.225,-79.749
+15090,40.625,-80.067
+15101,40.58,-79.955
+15102,40.321,-80.037
+15104,40.404,-79.862
+15106,40.409,-80.109
+15108,40.5,-80.202
+15110,40.373,-79.85
+15112,40.405,-79.837
+15116,40.526,-79.934
+15120,40.396,-79.908
+15122,40.361,-79.896
+15123,40.348,-79.935
+15126,40.46,-80.287
+15129,40.293,-79.995
+15131,40.339,-79.796
+15132,40.34,-79.843
+15133,40.327,-79.867
+15135,40.3,-79.812
+15136,40.463,-80.107
+15137,40.376,-79.809
+15139,40.523,-79.836
+15140,40.407,-79.778
+15142,40.385,-80.122
+15143,40.568,-80.147
+15144,40.547,-79.783
+15145,40.415,-79.824
+15146,40.428,-79.761
+15147,40.497,-79.831
+15148,40.393,-79.795
+15201,40.482,-79.942
+15202,40.507,-80.072
+15203,40.425,-79.976
+15204,40.457,-80.061
+15205,40.438,-80.106
+15206,40.472,-79.913
+15207,40.399,-79.935
+15208,40.454,-79.899
+15209,40.499,-79.97
+15210,40.407,-79.985
+15211,40.43,-80.015
+15212,40.457,-79.995
+15213,40.436,-79.964
+15214,40.486,-80.013
+15215,40.501,-79.913
+15216,40.403,-80.035
+15217,40.431,-79.92
+15218,40.424,-79.89
+15219,40.443,-79.984
+15220,40.419,-80.049
+15221,40.435,-79.866
+15222,40.45,-79.991
+15223,40.504,-79.951
+15224,40.467,-79.946
+15225,40.507,-80.114
+15226,40.395,-80.014
+15227,40.375,-79.971
+15228,40.371,-80.044
+15229,40.52,-80.039
+15232,40.452,-79.932
+15233,40.46,-80.033
+15234,40.368,-80.018
+15235,40.46,-79.822
+15236,40.348,-79.976
+15237,40.548,-80.046
+15238,40.538,-79.879
+15239,40.484,-79.738
+15241,40.333,-80.083
+15243,40.376,-80.071
+15260,40.443,-79.953
+15275,40.452,-80.184
+15282,40.436,-79.991
+15290,40.457,-80.019
+15301,40.164,-80.252
+15310,39.793,-80.481
+15311,40.046,-80.186
+15312,40.252,-80.441
+15313,40.063,-80.029
+15314,40.146,-80.017
+15315,39.757,-79.983
+15316,39.764,-80.268
+15317,40.276,-80.172
+15320,39.869,-79.989
+15321,40.322,-80.187
+15322,39.988,-80.053
+15323,40.103,-80.417
+15324,40.101,-80.065
+15325,39.949,-79.964
+15327,39.755,-79.969
+15329,40.028,-80.28
+15330,40.179,-80.09
+15331,40.105,-80.023
+15332,40.24,-79.993
+15333,40.031,-80.013
+15334,39.813,-79.967
+15337,39.952,-80.378
+15338,39.841,-79.984
+15340,40.287,-80.323
+15341,39.824,-80.344
+15342,40.245,-80.221
+15344,39.923,-80.051
+15345,40.022,-80.107
+15346,39.936,-80.074
+15347,40.218,-80.225
+15348,39.986,-79.996
+15349,39.761,-80.073
+15350,40.294,-80.201
+15351,39.879,-79.931
+15352,39.755,-80.403
+15353,39.962,-80.311
+15357,39.942,-79.98
+15358,40.055,-80.003
+15359,39.877,-80.276
+15360,40.088,-80.081
+15361,40.333,-80.262
+15362,39.757,-80.214
+15363,40.252,-80.198
+15364,39.954,-80.284
+15365,40.156,-80.385
+15366,40.16,-79.974
+15367,40.261,-80.056
+15368,40.014,-79.989
+15370,39.874,-80.186
+15376,40.109,-80.479
+15377,39.989,-80.449
+15378,40.278,-80.274
+15379,40.243,-80.425
+15380,39.878,-80.467
+15401,39.901,-79.748
+15410,39.908,-79.906
+15411,39.747,-79.344
+15412,40.101,-79.853
+15413,39.985,-79.871
+15416,39.859,-79.723
+15417,40.006,-79.921
+15419,40.057,-79.89
+15420,39.961,-79.864
+15421,39.845,-79.597
+15422,39.979,-79.809
+15423,40.094,-79.928
+15424,39.827,-79.356
+15425,40.03,-79.549
+15427,40.067,-79.971
+15428,40.084,-79.682
+15429,40.008,-79.943
+15430,40.039,-79.654
+15431,39.931,-79.573
+15432,40.11,-79.859
+15433,39.983,-79.949
+15434,40.081,-79.891
+15435,39.943,-79.847
+15436,39.818,-79.725
+15437,39.794,-79.59
+15438,40.073,-79.859
+15440,39.738,-79.644
+15442,40.019,-79.84
+15443,39.919,-79.885
+15444,40.013,-79.908
+15445,39.876,-79.668
+15446,40.026,-79.386
+15447,39.952,-79.932
+15448,40.136,-79.733
+15449,39.973,-79.781
+15450,40.009,-79.975
+15451,39.737,-79.836
+15454,39.86,-79.866
+15455,40.006,-79.646
+15456,39.927,-79.652
+15458,39.887,-79.851
+15459,39.765,-79.465
+15460,39.807,-79.908
+15461,39.84,-79.9
+15462,40.061,-79.381
+15463,39.963,-79.899
+15464,39.93,-79.436
+15465,39.939,-79.641
+15466,40.078,-79.889
+15467,39.783,-79.899
+15468,39.95,-79.833
+15469,40.014,-79.419
+15470,39.853,-79.532
+15472,39.919,-79.717
+15473,40.075,-79.768
+15474,39.753,-79.903
+15475,39.958,-79.881
+15476,39.868,-79.923
+15477,40.079,-79.863
+15478,39.787,-79.805
+15479,40.151,-79.708
+15480,39.986,-79.774
+15482,40.061,-79.766
+15483,40.083,-79.851
+15484,39.892,-79.779
+15486,40.026,-79.711
+15488,39.978,-79.76
+15489,39.955,-79.698
+15490,40.077,-79.482
+15492,40.12,-79.763
+15501,40.04,-79.13
+15502,40.027,-79.244
+15510,39.964,-79.04
+15520,40.106,-79.06
+15521,40.2,-78.63
+15522,39.942,-78.548
+15530,39.941,-78.924
+15531,40.184,-79.082
+15532,39.762,-79.061
+15533,39.98,-78.259
+15534,39.899,-78.691
+15535,39.831,-78.444
+15536,39.938,-78.206
+15537,39.991,-78.374
+15538,39.864,-78.834
+15539,40.128,-78.593
+15540,39.797,-79.239
+15541,40.048,-78.981
+15542,39.867,-79.079
+15544,40.133,-79.097
+15545,39.802,-78.752
+15546,40.137,-79.048
+15547,40.163,-79.07
+15550,39.995,-78.653
+15551,39.868,-79.285
+15552,39.79,-78.988
+15554,40.123,-78.622
+15555,40.098,-79.081
+15557,39.916,-79.205
+15558,39.762,-79.08
+15559,40.06,-78.691
+15560,40.017,-78.907
+15561,40.094,-79.091
+15562,39.741,-79.108
+15563,40.09,-78.937
+15564,39.73,-78.845
+15565,39.759,-79.116
+15601,40.313,-79.536
+15610,40.131,-79.415
+15611,40.307,-79.653
+15612,40.138,-79.599
+15613,40.547,-79.562
+15615,40.361,-79.734
+15616,40.235,-79.551
+15617,40.268,-79.655
+15618,40.571,-79.44
+15619,40.321,-79.497
+15620,40.323,-79.339
+15622,40.038,-79.32
+15623,40.369,-79.623
+15624,40.366,-79.471
+15625,40.27,-79.679
+15626,40.409,-79.576
+15627,40.352,-79.303
+15628,40.1,-79.37
+15629,40.597,-79.563
+15631,40.09,-79.585
+15632,40.436,-79.606
+15633,40.359,-79.517
+15634,40.325,-79.606
+15635,40.348,-79.502
+15636,40.365,-79.656
+15637,40.261,-79.712
+15638,40.265,-79.402
+15639,40.204,-79.594
+15640,40.223,-79.732
+15641,40.632,-79.589
+15642,40.319,-79.724
+15644,40.347,-79.613
+15646,40.095,-79.344
+15647,40.343,-79.72
+15650,40.277,-79.393
+15655,40.198,-79.178
+15656,40.641,-79.618
+15658,40.269,-79.216
+15660,40.247,-79.773
+15661,40.322,-79.36
+15662,40.339,-79.48
+15663,40.252,-79.68
+15665,40.339,-79.663
+15666,40.161,-79.51
+15668,40.465,-79.671
+15670,40.407,-79.444
+15671,40.36,-79.321
+15672,40.244,-79.622
+15673,40.594,-79.557
+15674,40.207,-79.496
+15675,40.334,-79.639
+15676,40.243,-79.459
+15677,40.15,-79.231
+15678,40.284,-79.726
+15679,40.188,-79.656
+15680,40.521,-79.496
+15681,40.502,-79.439
+15682,40.682,-79.633
+15683,40.107,-79.608
+15684,40.463,-79.506
+15686,40.615,-79.437
+15687,40.136,-79.316
+15688,40.174,-79.586
+15689,40.225,-79.492
+15690,40.641,-79.549
+15691,40.297,-79.684
+15692,40.331,-79.679
+15693,40.249,-79.406
+15695,40.197,-79.693
+15696,40.28,-79.366
+15697,40.24,-79.581
+15698,40.214,-79.689
+15701,40.629,-79.15
+15705,40.616,-79.16
+15710,40.642,-78.872
+15711,41.018,-78.956
+15712,40.793,-78.847
+15713,40.57,-79.262
+15714,40.644,-78.833
+15715,40.971,-78.877
+15716,40.469,-79.188
+15717,40.457,-79.243
+15720,40.539,-79.066
+15721,40.82,-78.784
+15722,40.601,-78.721
+15723,40.699,-79.159
+15724,40.735,-78.814
+15725,40.519,-79.349
+15727,40.565,-79.315
+15728,40.676,-78.967
+15729,40.706,-78.915
+15730,41.027,-79.083
+15731,40.501,-79.173
+15732,40.733,-79.216
+15733,40.989,-78.959
+15734,40.72,-79.009
+15736,40.699,-79.369
+15737,40.599,-78.754
+15738,40.69,-78.782
+15739,40.679,-79.165
+15741,40.802,-78.891
+15742,40.811,-78.87
+15744,40.919,-79.073
+15745,40.623,-78.913
+15746,40.754,-78.873
+15747,40.764,-79.143
+15748,40.524,-79.084
+15750,40.484,-79.183
+15752,40.541,-79.282
+15753,40.783,-78.631
+15754,40.557,-79.152
+15756,40.57,-79.302
+15757,40.903,-78.732
+15759,40.773,-79.032
+15760,40.646,-78.805
+15761,40.634,-78.89
+15762,40.594,-78.829
+15763,40.907,-79.128
+15764,40.995,-79.027
+15765,40.593,-79
+15767,40.966,-78.975
+15770,41.009,-79.137
+15771,40.832,-78.989
+15772,40.87,-78.899
+15773,40.631,-78.73
+15774,40.655,-79.324
+15775,40.635,-78.784
+15776,41.011,-79.112
+15777,40.697,-78.963
+15778,40.969,-79.198
+15779,40.4,-79.218
+15780,40.921,-79.043
+15781,40.964,-78.987
+15783,40.603,-79.345
+15784,41.024,-79.141
+15801,41.13,-78.728
+15821,41.372,-78.397
+15823,41.26,-78.716
+15824,41.246,-78.837
+15825,41.17,-79.04
+15827,41.295,-78.506
+15828,41.385,-79.123
+15829,41.21,-79.244
+15831,41.353,-78.604
+15832,41.357,-78.197
+15834,41.501,-78.323
+15840,41.172,-78.823
+15841,41.258,-78.504
+15845,41.508,-78.707
+15846,41.34,-78.609
+15847,41.086,-79.03
+15848,41.03,-78.711
+15849,41.187,-78.573
+15851,41.103,-78.91
+15853,41.392,-78.792
+15856,41.082,-78.614
+15857,41.455,-78.52
+15860,41.346,-79.037
+15861,41.353,-78.036
+15863,41.016,-78.838
+15864,41.102,-79.19
+15865,41.05,-78.814
+15866,41.029,-78.788
+15868,41.301,-78.409
+15870,41.583,-78.582
+15901,40.328,-78.912
+15902,40.319,-78.869
+15904,40.313,-78.84
+15905,40.291,-78.97
+15906,40.385,-78.934
+15909,40.41,-78.87
+15920,40.468,-79.047
+15921,40.316,-78.698
+15922,40.519,-78.878
+15923,40.355,-79.159
+15924,40.103,-78.763
+15925,40.409,-78.641
+15926,40.027,-78.817
+15927,40.541,-78.78
+15928,40.239,-78.919
+15929,40.48,-79.011
+15930,40.295,-78.717
+15931,40.515,-78.784
+15934,40.281,-78.796
+15935,40.198,-78.967
+15936,40.161,-78.893
+15937,40.215,-78.981
+15938,40.415,-78.597
+15940,40.527,-78.644
+15942,40.398,-78.811
+15943,40.475,-78.836
+15944,40.364,-79.079
+15945,40.359,-78.869
+15946,40.37,-78.618
+15948,40.49,-78.767
+15949,40.407,-79.135
+15951,40.333,-78.771
+15952,40.304,-78.776
+15953,40.208,-78.885
+15954,40.418,-79
+15955,40.309,-78.693
+15956,40.351,-78.796
+15957,40.546,-78.9
+15958,40.387,-78.731
+15960,40.498,-78.852
+15961,40.466,-78.943
+15962,40.389,-78.716
+15963,40.22,-78.785
+16001,40.91,-79.945
+16002,40.815,-79.855
+16020,41.116,-79.897
+16022,41.055,-79.733
+16023,40.785,-79.749
+16024,40.74,-80.037
+16025,40.94,-79.771
+16027,40.818,-80.015
+16028,40.951,-79.636
+16029,40.88,-79.846
+16030,41.136,-79.797
+16033,40.796,-80.049
+16034,40.858,-79.715
+16035,41.109,-80.015
+16036,41.134,-79.669
+16037,40.843,-80.134
+16038,41.164,-79.953
+16040,41.094,-79.841
+16041,41.007,-79.714
+16045,40.853,-79.916
+16046,40.703,-80.024
+16048,41.052,-79.803
+16049,41.094,-79.672
+16050,41.044,-79.761
+16051,40.943,-80.139
+16052,40.899,-80.062
+16053,40.812,-79.983
+16054,41.152,-79.661
+16055,40.717,-79.75
+16056,40.728,-79.842
+16057,41.034,-80.06
+16059,40.707,-79.927
+16061,41.005,-79.885
+16063,40.756,-80.131
+16066,40.71,-80.106
+16101,40.984,-80.29
+16102,40.962,-80.415
+16105,41.054,-80.339
+16110,41.495,-80.387
+16111,41.519,-80.284
+16112,40.96,-80.498
+16113,41.281,-80.424
+16114,41.404,-80.188
+16115,40.796,-80.464
+16116,41.044,-80.45
+16117,40.872,-80.256
+16120,40.885,-80.479
+16121,41.211,-80.497
+16123,40.822,-80.197
+16124,41.333,-80.265
+16125,41.407,-80.37
+16127,41.173,-80.073
+16130,41.445,-80.223
+16131,41.549,-80.377
+16132,41.006,-80.505
+16133,41.268,-80.114
+16134,41.527,-80.49
+16136,40.835,-80.324
+16137,41.232,-80.24
+16140,41.094,-80.511
+16141,40.88,-80.399
+16142,41.135,-80.333
+16143,41.105,-80.454
+16145,41.38,-80.079
+16146,41.235,-80.499
+16148,41.228,-80.418
+16150,41.282,-80.449
+16151,41.443,-80.206
+16153,41.322,-80.087
+16154,41.326,-80.42
+16155,41.068,-80.511
+16156,41.098,-80.227
+16157,40.888,-80.333
+16159,41.153,-80.475
+16160,40.928,-80.362
+16161,41.202,-80.493
+16172,41.118,-80.331
+16201,40.812,-79.472
+16210,40.901,-79.517
+16211,40.794,-79.202
+16212,40.752,-79.577
+16213,41.126,-79.558
+16214,41.198,-79.354
+16217,41.346,-79.181
+16218,40.926,-79.593
+16220,41.418,-79.268
+16222,40.874,-79.257
+16223,40.987,-79.354
+16224,41.067,-79.29
+16226,40.715,-79.487
+16228,40.761,-79.536
+16229,40.712,-79.656
+16230,41.02,-79.283
+16232,41.214,-79.551
+16233,41.368,-79.285
+16235,41.306,-79.347
+16236,40.781,-79.524
+16238,40.788,-79.52
+16239,41.497,-79.138
+16240,41.036,-79.225
+16242,40.985,-79.372
+16244,40.805,-79.279
+16245,41.002,-79.293
+16246,40.792,-79.182
+16248,41.035,-79.505
+16249,40.759,-79.326
+16250,40.776,-79.238
+16253,40.957,-79.344
+16254,41.255,-79.451
+16255,41.129,-79.467
+16256,40.855,-79.134
+16258,41.23,-79.272
+16259,40.926,-79.452
+16260,41.411,-79.239
+16262,40.838,-79.653
+16263,40.801,-79.341
+16301,41.453,-79.622
+16311,41.462,-80.042
+16312,41.932,-79.303
+16313,41.715,-79.145
+16314,41.521,-80.077
+16316,41.595,-80.284
+16317,41.532,-79.853
+16319,41.324,-79.623
+16321,41.568,-79.401
+16322,41.606,-79.384
+16323,41.417,-79.831
+16326,41.376,-79.432
+16327,41.637,-79.96
+16328,41.651,-79.727
+16329,41.853,-79.265
+16331,41.288,-79.559
+16332,41.357,-79.37
+16333,41.749,-78.932
+16334,41.304,-79.446
+16335,41.631,-80.154
+16340,41.799,-79.418
+16341,41.563,-79.547
+16342,41.315,-79.928
+16343,41.426,-79.753
+16344,41.47,-79.684
+16345,41.944,-79.083
+16346,41.378,-79.673
+16347,41.66,-79.07
+16350,41.957,-79.334
+16351,41.675,-79.37
+16352,41.766,-79.036
+16353,41.492,-79.39
+16354,41.615,-79.706
+16360,41.68,-79.89
+16361,41.391,-79.34
+16362,41.45,-79.965
+16364,41.351,-79.527
+16365,41.84,-79.157
+16370,41.557,-79.449
+16371,41.868,-79.319
+16372,41.201,-79.875
+16373,41.208,-79.698
+16374,41.263,-79.815
+16401,41.878,-80.405
+16402,41.961,-79.47
+16403,41.793,-80.014
+16404,41.726,-79.789
+16405,41.938,-79.534
+16406,41.751,-80.364
+16407,41.916,-79.685
+16410,41.923,-80.309
+16411,41.978,-80.447
+16412,41.882,-80.16
+16415,42.038,-80.23
+16416,41.826,-79.473
+16417,41.969,-80.311
+16420,41.695,-79.545
+16421,42.17,-79.94
+16422,41.668,-80.31
+16423,42.021,-80.34
+16424,41.662,-80.448
+16426,41.984,-80.126
+16427,41.875,-79.971
+16428,42.171,-79.831
+16430,42.001,-80.419
+16433,41.737,-80.141
+16434,41.797,-79.669
+16435,41.822,-80.383
+16436,41.862,-79.506
+16438,41.891,-79.847
+16440,41.783,-80.126
+16441,41.958,-79.984
+16442,42.049,-79.826
+16443,41.94,-80.472
+16444,41.871,-80.121
+16475,41.876,-80.361
+16501,42.121,-80.089
+16502,42.111,-80.101
+16503,42.127,-80.061
+16504,42.109,-80.049
+16505,42.119,-80.128
+16506,42.063,-80.156
+16507,42.139,-80.085
+16508,42.098,-80.091
+16509,42.06,-80.046
+16510,42.109,-79.955
+16511,42.167,-80.006
+16546,42.104,-80.053
+16550,42.134,-80.085
+16563,42.118,-79.986
+16601,40.553,-78.373
+16602,40.485,-78.397
+16611,40.571,-78.091
+16613,40.537,-78.532
+16616,40.77,-78.458
+16617,40.603,-78.33
+16619,40.684,-78.416
+16620,40.839,-78.351
+16621,40.258,-78.109
+16622,40.329,-78.069
+16623,40.276,-78.046
+16624,40.565,-78.607
+16625,40.282,-78.519
+16627,40.753,-78.504
+16630,40.463,-78.581
+16631,40.271,-78.347
+16633,40.16,-78.233
+16634,40.211,-78.173
+16635,40.408,-78.477
+16636,40.6,-78.502
+16637,40.342,-78.471
+16638,40.338,-78.201
+16639,40.682,-78.464
+16640,40.708,-78.572
+16641,40.508,-78.571
+16645,40.804,-78.501
+16646,40.69,-78.726
+16647,40.38,-78.113
+16648,40.442,-78.332
+16650,40.112,-78.292
+16651,40.851,-78.38
+16652,40.516,-77.95
+16654,40.492,-78.029
+16655,40.228,-78.503
+16656,40.807,-78.556
+16657,40.338,-78.161
+16659,40.16,-78.388
+16661,40.831,-78.461
+16662,40.295,-78.297
+16664,40.178,-78.42
+16665,40.389,-78.435
+16666,40.868,-78.314
+16667,40.183,-78.525
+16668,40.653,-78.622
+16669,40.656,-77.907
+16670,40.259,-78.508
+16671,40.788,-78.398
+16672,40.186,-78.237
+16673,40.305,-78.389
+16674,40.186,-78.079
+16675,40.688,-78.679
+16677,40.815,-78.246
+16678,40.226,-78.233
+16679,40.155,-78.194
+16680,40.743,-78.378
+16682,40.272,-78.456
+16683,40.664,-78.066
+16684,40.635,-78.297
+16685,40.28,-78.081
+16686,40.67,-78.241
+16689,40.075,-78.084
+16691,40.077,-78.147
+16692,40.751,-78.711
+16693,40.465,-78.225
+16694,40.19,-78.134
+16695,40.205,-78.337
+16699,40.447,-78.561
+16701,41.919,-78.75
+16720,41.603,-78.01
+16724,41.746,-78.39
+16725,41.899,-78.662
+16726,41.802,-78.576
+16727,41.985,-78.534
+16729,41.97,-78.482
+16730,41.818,-78.423
+16731,41.951,-78.36
+16732,41.859,-78.608
+16733,41.7,-78.572
+16734,41.616,-78.847
+16735,41.629,-78.807
+16738,41.807,-78.732
+16740,41.653,-78.51
+16743,41.768,-78.233
+16744,41.876,-78.569
+16745,41.926,-78.49
+16746,41.794,-78.122
+16748,41.942,-78.145
+16749,41.76,-78.421
+16750,41.902,-78.292
+16801,40.785,-77.842
+16802,40.799,-77.865
+16803,40.808,-77.895
+16820,40.92,-77.387
+16821,40.958,-78.195
+16822,41.137,-77.708
+16823,40.932,-77.76
+16825,40.988,-78.312
+16826,41.062,-77.586
+16827,40.768,-77.773
+16828,40.804,-77.696
+16829,41.085,-77.887
+16830,41.091,-78.439
+16832,40.843,-77.426
+16833,40.944,-78.572
+16834,41.052,-78.087
+16835,40.907,-77.877
+16836,41.145,-78.265
+16837,40.945,-78.474
+16838,41.006,-78.651
+16839,41.003,-78.106
+16840,40.924,-78.203
+16841,41.036,-77.691
+16843,41.012,-78.462
+16844,40.913,-77.933
+16845,41.113,-77.928
+16847,40.999,-78.165
+16848,41.011,-77.533
+16849,40.961,-78.116
+16851,40.812,-77.801
+16852,40.936,-77.539
+16853,40.94,-77.786
+16854,40.897,-77.472
+16855,41.005,-78.354
+16856,40.929,-77.65
+16858,41.003,-78.21
+16859,41.047,-78.042
+16860,40.938,-78.18
+16861,40.873,-78.519
+16863,40.908,-78.475
+16864,41.154,-77.799
+16865,40.724,-77.956
+16866,40.867,-78.166
+16868,40.727,-77.891
+16870,40.801,-78.049
+16871,41.191,-78.036
+16872,40.967,-77.359
+16874,40.985,-77.952
+16875,40.84,-77.588
+16876,40.966,-78.288
+16877,40.733,-78.068
+16878,40.94,-78.352
+16879,40.964,-78.141
+16881,41.027,-78.32
+16882,40.907,-77.338
+16901,41.735,-77.316
+16910,41.705,-76.831
+16911,41.677,-77.102
+16912,41.666,-77.067
+16914,41.854,-76.784
+16915,41.775,-77.961
+16917,41.722,-77.057
+16920,41.974,-77.284
+16921,41.723,-77.522
+16922,41.681,-77.711
+16923,41.951,-77.871
+16925,41.949,-76.784
+16926,41.716,-76.7
+16927,41.965,-77.659
+16928,41.952,-77.434
+16929,41.963,-77.135
+16930,41.584,-77.139
+16932,41.779,-76.939
+16933,41.819,-77.063
+16935,41.869,-77.334
+16936,41.951,-76.967
+16937,41.968,-77.711
+16938,41.591,-77.37
+16939,41.681,-77.014
+16940,41.977,-77.234
+16941,41.988,-77.758
+16942,41.965,-77.354
+16943,41.848,-77.616
+16946,41.916,-77.142
+16947,41.76,-76.804
+16948,41.855,-77.759
+16950,41.896,-77.544
+17002,40.461,-77.869
+17003,40.357,-76.552
+17004,40.601,-77.73
+17005,40.603,-76.811
+17006,40.336,-77.492
+17007,40.139,-77.118
+17009,40.636,-77.565
+17010,40.278,-76.583
+17011,40.235,-76.929
+17013,40.241,-77.184
+17014,40.66,-77.194
+17015,40.183,-77.232
+17016,40.273,-76.407
+17017,40.627,-76.9
+17018,40.422,-76.826
+17019,40.094,-77.022
+17020,40.414,-77.042
+17021,40.331,-77.668
+17022,40.167,-76.609
+17023,40.581,-76.812
+17024,40.407,-77.307
+17025,40.294,-76.974
+17026,40.474,-76.437
+17027,40.157,-76.982
+17028,40.403,-76.675
+17029,40.558,-77.617
+17030,40.608,-76.744
+17032,40.494,-76.814
+17033,40.269,-76.628
+17034,40.209,-76.786
+17035,40.404,-77.581
+17036,40.258,-76.72
+17037,40.432,-77.428
+17038,40.468,-76.538
+17039,40.293,-76.241
+17040,40.296,-77.34
+17041,40.217,-76.54
+17042,40.296,-76.421
+17043,40.248,-76.9
+17044,40.582,-77.59
+17045,40.597,-77.001
+17046,40.382,-76.429
+17047,40.371,-77.412
+17048,40.582,-76.692
+17049,40.652,-77.259
+17050,40.248,-77.03
+17051,40.459,-77.764
+17052,40.277,-77.986
+17053,40.325,-77.026
+17054,40.497,-77.727
+17055,40.178,-76.998
+17056,40.534,-77.356
+17057,40.194,-76.726
+17058,40.501,-77.548
+17059,40.589,-77.391
+17060,40.513,-77.86
+17061,40.564,-76.9
+17062,40.547,-77.188
+17063,40.761,-77.485
+17064,40.242,-76.475
+17065,40.071,-77.232
+17066,40.359,-77.855
+17067,40.39,-76.315
+17068,40.399,-77.182
+17069,40.458,-76.981
+17070,40.2,-76.854
+17071,40.296,-77.614
+17073,40.303,-76.255
+17074,40.479,-77.148
+17075,40.394,-77.834
+17076,40.621,-77.307
+17077,40.402,-76.536
+17078,40.288,-76.581
+17080,40.641,-76.803
+17081,40.201,-77.283
+17082,40.495,-77.448
+17084,40.676,-77.627
+17086,40.691,-77.122
+17087,40.404,-76.268
+17088,40.3,-76.295
+17090,40.318,-77.181
+17093,40.31,-76.928
+17094,40.586,-77.222
+17097,40.574,-76.677
+17098,40.59,-76.631
+17099,40.637,-77.58
+17101,40.258,-76.893
+17102,40.268,-76.902
+17103,40.275,-76.863
+17104,40.255,-76.867
+17109,40.29,-76.824
+17110,40.323,-76.888
+17111,40.27,-76.781
+17112,40.374,-76.77
+17113,40.23,-76.821
+17120,40.265,-76.883
+17201,39.96,-77.657
+17202,39.923,-77.69
+17210,40.191,-77.661
+17211,39.755,-78.415
+17212,39.813,-78.064
+17213,40.261,-77.765
+17214,39.748,-77.47
+17215,40.084,-77.879
+17217,40.238,-77.722
+17219,40.224,-77.693
+17220,40.175,-77.739
+17221,40.049,-77.822
+17222,39.896,-77.494
+17223,40.065,-77.942
+17224,39.979,-77.885
+17225,39.784,-77.763
+17228,39.995,-78.098
+17229,40.084,-78.01
+17232,40.095,-77.633
+17233,39.976,-77.987
+17235,39.857,-77.698
+17236,39.8,-77.947
+17237,39.837,-77.541
+17238,39.861,-78.13
+17239,40.14,-77.83
+17240,40.151,-77.58
+17241,40.181,-77.407
+17243,40.284,-77.815
+17244,40.09,-77.672
+17246,40.061,-77.676
+17247,39.799,-77.579
+17249,40.242,-77.9
+17250,39.736,-77.523
+17251,40.123,-77.667
+17252,39.912,-77.827
+17253,40.212,-78.006
+17254,39.968,-77.589
+17255,40.149,-77.867
+17257,40.056,-77.497
+17260,40.296,-77.894
+17261,39.86,-77.512
+17262,40.127,-77.768
+17263,39.724,-77.717
+17264,40.18,-77.993
+17265,40.032,-77.775
+17266,40.089,-77.413
+17267,39.808,-78.24
+17268,39.775,-77.576
+17271,40.102,-77.804
+17301,39.895,-76.979
+17302,39.817,-76.414
+17303,39.926,-77.298
+17304,39.977,-77.233
+17306,39.984,-77.25
+17307,39.957,-77.315
+17309,39.874,-76.449
+17311,39.817,-76.842
+17313,39.885,-76.657
+17314,39.749,-76.326
+17315,40.014,-76.869
+17316,39.965,-77.008
+17317,39.971,-76.523
+17318,40.02,-76.726
+17319,40.16,-76.794
+17320,39.77,-77.388
+17321,39.75,-76.444
+17322,39.855,-76.535
+17323,40.075,-77.027
+17324,40.03,-77.237
+17325,39.826,-77.228
+17327,39.779,-76.754
+17329,39.759,-76.853
+17331,39.791,-76.98
+17339,40.135,-76.876
+17340,39.755,-77.117
+17342,39.853,-76.708
+17343,39.869,-77.33
+17344,39.805,-77.019
+17345,40.073,-76.728
+17347,40.047,-76.675
+17349,39.745,-76.655
+17350,39.89,-77.079
+17352,39.762,-76.5
+17353,39.887,-77.393
+17355,39.76,-76.696
+17356,39.898,-76.584
+17360,39.852,-76.754
+17361,39.766,-76.677
+17362,39.848,-76.869
+17363,39.767,-76.585
+17364,39.93,-76.9
+17365,40.061,-76.94
+17366,39.933,-76.557
+17368,39.985,-76.52
+17370,40.118,-76.783
+17371,39.903,-76.788
+17372,39.992,-77.108
+17401,39.959,-76.733
+17402,39.957,-76.66
+17403,39.92,-76.711
+17404,40.003,-76.774
+17406,40.015,-76.641
+17407,39.887,-76.713
+17408,39.933,-76.799
+17501,40.157,-76.206
+17502,40.101,-76.66
+17504,40.024,-76.328
+17505,40.064,-76.192
+17506,40.117,-76.053
+17507,40.198,-76.016
+17508,40.125,-76.214
+17509,39.907,-76.029
+17512,40.04,-76.486
+17516,39.927,-76.385
+17517,40.245,-76.133
+17518,39.809,-76.253
+17519,40.141,-76.023
+17520,40.098,-76.349
+17522,40.174,-76.17
+17527,40.016,-75.994
+17529,40.042,-76.097
+17532,39.858,-76.288
+17534,40.037,-76.112
+17535,40.012,-76.036
+17536,39.848,-76.074
+17538,40.083,-76.415
+17540,40.098,-76.19
+17543,40.181,-76.295
+17545,40.173,-76.422
+17547,40.071,-76.585
+17550,40.075,-76.584
+17551,39.978,-76.373
+17552,40.108,-76.511
+17554,40.04,-76.424
+17555,40.122,-75.959
+17557,40.103,-76.075
+17560,39.913,-76.228
+17562,39.97,-76.092
+17563,39.761,-76.193
+17565,39.891,-76.335
+17566,39.867,-76.148
+17568,39.948,-76.234
+17569,40.271,-76.097
+17570,40.126,-76.571
+17572,40.006,-76.152
+17576,40.037,-76.198
+17578,40.23,-76.166
+17579,39.96,-76.181
+17581,40.156,-76.055
+17582,39.988,-76.455
+17584,39.96,-76.265
+17601,40.073,-76.314
+17602,40.015,-76.246
+17603,40.031,-76.33
+17606,40.113,-76.305
+17701,41.345,-76.857
+17702,41.183,-77.077
+17720,41.179,-77.203
+17721,41.182,-77.319
+17723,41.435,-77.471
+17724,41.638,-76.801
+17727,41.529,-77.465
+17728,41.335,-77.079
+17729,41.511,-77.736
+17730,41.107,-76.876
+17731,41.429,-76.579
+17737,41.286,-76.683
+17739,41.416,-77.394
+17740,41.236,-77.257
+17742,41.239,-76.58
+17744,41.241,-77.153
+17745,41.285,-77.471
+17747,41.033,-77.332
+17748,41.148,-77.34
+17749,41.072,-76.814
+17750,41.058,-77.482
+17751,41.13,-77.521
+17752,41.183,-76.92
+17754,41.312,-76.889
+17756,41.205,-76.73
+17758,41.35,-76.545
+17760,41.414,-77.657
+17762,41.284,-76.7
+17763,41.502,-76.912
+17764,41.343,-77.826
+17765,41.582,-76.982
+17768,41.559,-76.756
+17769,41.511,-77.496
+17771,41.437,-77.036
+17772,41.125,-76.713
+17774,41.252,-76.547
+17776,41.415,-77.293
+17777,41.107,-76.822
+17778,41.296,-77.98
+17779,41.208,-77.377
+17801,40.837,-76.761
+17810,41.101,-77.039
+17812,40.733,-77.235
+17813,40.787,-77.184
+17814,41.259,-76.371
+17815,41.022,-76.43
+17820,40.896,-76.404
+17821,40.99,-76.644
+17822,40.969,-76.603
+17823,40.745,-76.778
+17824,40.868,-76.493
+17827,40.753,-76.968
+17829,40.901,-77.155
+17830,40.686,-76.805
+17832,40.806,-76.455
+17834,40.78,-76.467
+17835,40.884,-77.198
+17836,40.714,-76.606
+17837,40.975,-76.945
+17840,40.774,-76.427
+17841,40.725,-77.363
+17842,40.801,-77.043
+17844,40.96,-77.085
+17845,40.884,-77.212
+17846,41.142,-76.517
+17847,41.008,-76.811
+17850,40.967,-76.859
+17851,40.803,-76.425
+17853,40.688,-77.011
+17855,40.89,-76.968
+17856,41.045,-77.008
+17857,40.932,-76.773
+17858,40.842,-76.423
+17859,41.117,-76.399
+17860,40.839,-76.604
+17861,40.775,-77.076
+17862,40.861,-77.056
+17864,40.705,-76.906
+17865,40.987,-76.79
+17866,40.771,-76.596
+17867,40.715,-76.69
+17868,40.955,-76.631
+17870,40.808,-76.888
+17872,40.758,-76.688
+17876,40.858,-76.826
+17878,41.176,-76.323
+17880,40.891,-77.124
+17881,40.781,-76.686
+17884,41.052,-76.675
+17885,40.866,-77.314
+17886,41.018,-76.876
+17887,41.075,-76.896
+17888,40.819,-76.379
+17889,40.878,-76.921
+17901,40.695,-76.275
+17920,40.808,-76.328
+17921,40.752,-76.361
+17922,40.582,-76.111
+17923,40.661,-76.319
+17925,40.755,-76.073
+17929,40.631,-76.193
+17930,40.709,-76.115
+17931,40.786,-76.215
+17933,40.604,-76.243
+17934,40.799,-76.213
+17935,40.794,-76.28
+17936,40.75,-76.34
+17938,40.654,-76.501
+17941,40.686,-76.613
+17943,40.762,-76.379
+17944,40.66,-76.289
+17945,40.785,-76.373
+17946,40.81,-76.256
+17948,40.82,-76.144
+17949,40.796,-76.236
+17951,40.679,-76.244
+17952,40.764,-76.06
+17953,40.747,-76.1
+17954,40.69,-76.26
+17957,40.594,-76.517
+17959,40.74,-76.165
+17960,40.697,-75.947
+17961,40.65,-76.061
+17963,40.56,-76.394
+17964,40.703,-76.515
+17965,40.699,-76.165
+17967,40.87,-76.207
+17968,40.642,-76.626
+17970,40.721,-76.191
+17972,40.579,-76.228
+17974,40.696,-76.236
+17976,40.82,-76.211
+17978,40.616,-76.652
+17979,40.567,-76.202
+17980,40.519,-76.645
+17981,40.631,-76.393
+17982,40.768,-76.038
+17983,40.644,-76.55
+17985,40.918,-76.239
+18011,40.477,-75.646
+18012,40.811,-75.592
+18013,40.853,-75.165
+18014,40.767,-75.413
+18015,40.587,-75.367
+18017,40.66,-75.387
+18018,40.628,-75.396
+18020,40.672,-75.327
+18030,40.804,-75.663
+18031,40.56,-75.649
+18032,40.656,-75.468
+18034,40.541,-75.419
+18035,40.752,-75.538
+18036,40.509,-75.389
+18037,40.683,-75.548
+18038,40.795,-75.486
+18040,40.746,-75.226
+18041,40.42,-75.51
+18042,40.644,-75.227
+18045,40.692,-75.275
+18046,40.548,-75.56
+18049,40.522,-75.49
+18051,40.596,-75.667
+18052,40.657,-75.504
+18053,40.719,-75.704
+18054,40.352,-75.439
+18055,40.592,-75.304
+18056,40.447,-75.547
+18058,40.889,-75.494
+18059,40.723,-75.543
+18062,40.506,-75.58
+18063,40.783,-75.182
+18064,40.757,-75.316
+18065,40.699,-75.612
+18066,40.664,-75.74
+18067,40.717,-75.482
+18069,40.625,-75.615
+18070,40.43,-75.539
+18071,40.834,-75.555
+18072,40.844,-75.259
+18073,40.386,-75.474
+18074,40.317,-75.516
+18076,40.374,-75.482
+18077,40.57,-75.237
+18078,40.671,-75.621
+18079,40.744,-75.657
+18080,40.731,-75.638
+18081,40.564,-75.282
+18083,40.755,-75.265
+18085,40.742,-75.254
+18086,40.739,-75.548
+18087,40.557,-75.594
+18088,40.766,-75.558
+18091,40.825,-75.326
+18092,40.47,-75.513
+18101,40.603,-75.47
+18102,40.608,-75.476
+18103,40.57,-75.489
+18104,40.612,-75.547
+18106,40.564,-75.565
+18109,40.635,-75.442
+18195,40.584,-75.625
+18201,40.952,-75.954
+18202,40.954,-76.046
+18210,41.002,-75.591
+18211,40.744,-75.83
+18212,40.773,-75.719
+18214,40.806,-76.089
+18216,40.943,-75.889
+18218,40.82,-75.916
+18219,40.991,-76.058
+18220,40.837,-76.082
+18221,41.001,-75.919
+18222,41.035,-76.003
+18223,40.982,-75.95
+18224,41.025,-75.889
+18225,40.981,-75.971
+18229,40.932,-75.682
+18230,40.92,-75.931
+18231,40.901,-76.005
+18232,40.837,-75.874
+18234,40.993,-75.965
+18235,40.835,-75.691
+18237,40.879,-76.05
+18239,40.99,-75.981
+18240,40.863,-75.842
+18241,40.944,-76.165
+18242,40.906,-76.123
+18244,40.824,-75.669
+18245,40.853,-76.03
+18246,40.957,-76.195
+18248,40.901,-76.095
+18249,40.988,-76.116
+18250,40.813,-75.859
+18252,40.782,-75.972
+18254,40.916,-75.966
+18255,40.933,-75.83
+18256,40.94,-76.147
+18301,41.042,-75.176
+18302,41.097,-75.111
+18321,41.026,-75.283
+18322,40.919,-75.393
+18323,41.196,-75.273
+18324,41.158,-75.001
+18325,41.262,-75.267
+18326,41.155,-75.247
+18327,40.983,-75.147
+18328,41.228,-74.974
+18330,40.963,-75.45
+18331,40.908,-75.44
+18332,41.095,-75.261
+18333,40.898,-75.491
+18334,41.073,-75.442
+18335,41.058,-75.108
+18336,41.373,-74.74
+18337,41.329,-74.872
+18340,41.418,-74.766
+18342,41.17,-75.305
+18343,40.89,-75.109
+18344,41.121,-75.334
+18346,41.143,-75.421
+18347,41.155,-75.543
+18349,41.1,-75.368
+18350,41.114,-75.458
+18351,40.923,-75.1
+18353,40.895,-75.358
+18354,40.923,-75.322
+18355,41.077,-75.363
+18356,41.016,-75.112
+18357,41.232,-75.211
+18360,40.967,-75.288
+18370,41.088,-75.337
+18371,41.156,-75.037
+18372,41.044,-75.334
+18403,41.509,-75.535
+18405,41.6,-75.104
+18407,41.592,-75.535
+18411,41.459,-75.747
+18413,41.648,-75.533
+18414,41.542,-75.745
+18415,41.755,-75.082
+18417,41.81,-75.201
+18419,41.577,-75.798
+18420,41.608,-75.7
+18421,41.664,-75.493
+18424,41.244,-75.517
+18425,41.438,-75.043
+18426,41.326,-75.239
+18428,41.45,-75.109
+18430,41.741,-75.474
+18431,41.616,-75.258
+18433,41.573,-75.581
+18434,41.452,-75.541
+18435,41.491,-75.015
+18436,41.443,-75.393
+18437,41.875,-75.286
+18438,41.432,-75.245
+18439,41.826,-75.349
+18440,41.559,-75.765
+18441,41.663,-75.619
+18443,41.663,-75.102
+18444,41.341,-75.552
+18445,41.298,-75.359
+18446,41.656,-75.759
+18447,41.511,-75.62
+18451,41.397,-75.218
+18452,41.484,-75.59
+18453,41.745,-75.367
+18454,41.821,-75.433
+18455,41.893,-75.359
+18456,41.621,-75.337
+18457,41.472,-75.049
+18458,41.396,-74.919
+18460,41.269,-75.345
+18461,41.929,-75.328
+18462,41.9,-75.436
+18463,41.347,-75.38
+18464,41.404,-75.178
+18465,41.831,-75.517
+18466,41.196,-75.377
+18469,41.702,-75.152
+18470,41.735,-75.529
+18471,41.529,-75.697
+18472,41.588,-75.4
+18473,41.53,-75.207
+18503,41.41,-75.668
+18504,41.423,-75.705
+18505,41.388,-75.648
+18507,41.359,-75.682
+18508,41.455,-75.658
+18509,41.431,-75.643
+18510,41.407,-75.644
+18512,41.426,-75.593
+18517,41.395,-75.715
+18518,41.375,-75.74
+18519,41.462,-75.631
+18602,41.186,-75.754
+18603,41.083,-76.248
+18610,41.059,-75.534
+18612,41.35,-75.98
+18614,41.483,-76.356
+18615,41.458,-75.859
+18616,41.519,-76.64
+18617,41.171,-76.078
+18618,41.38,-76.038
+18619,41.431,-76.713
+18621,41.255,-76.091
+18622,41.201,-76.274
+18623,41.665,-76.152
+18624,41.061,-75.647
+18625,41.515,-75.85
+18626,41.414,-76.454
+18627,41.316,-76.022
+18628,41.43,-76.314
+18629,41.518,-76.141
+18630,41.662,-76.024
+18631,41.031,-76.303
+18632,41.459,-76.377
+18634,41.186,-76.023
+18635,41.029,-76.201
+18636,41.399,-76.082
+18640,41.297,-75.74
+18641,41.336,-75.728
+18642,41.356,-75.773
+18643,41.362,-75.839
+18644,41.328,-75.882
+18651,41.254,-75.96
+18655,41.188,-76.203
+18656,41.333,-76.185
+18657,41.523,-75.959
+18660,41.099,-76.063
+18661,41.076,-75.741
+18701,41.243,-75.885
+18702,41.23,-75.757
+18704,41.276,-75.895
+18705,41.272,-75.843
+18706,41.203,-75.915
+18707,41.134,-75.918
+18708,41.296,-75.963
+18709,41.286,-75.897
+18801,41.826,-75.94
+18810,41.931,-76.501
+18812,41.973,-75.965
+18814,41.784,-76.601
+18816,41.74,-75.91
+18817,41.878,-76.621
+18818,41.915,-76.051
+18820,41.778,-75.65
+18821,41.99,-75.723
+18822,41.94,-75.795
+18823,41.774,-75.692
+18824,41.697,-75.787
+18825,41.826,-75.607
+18826,41.749,-75.727
+18828,41.797,-76.11
+18829,41.838,-76.174
+18830,41.959,-76.114
+18831,41.894,-76.598
+18832,41.678,-76.569
+18833,41.591,-76.469
+18834,41.831,-75.721
+18837,41.915,-76.303
+18840,41.973,-76.53
+18842,41.769,-75.613
+18843,41.804,-75.894
+18844,41.691,-75.905
+18845,41.787,-76.182
+18846,41.621,-76.23
+18847,41.929,-75.579
+18848,41.753,-76.457
+18850,41.872,-76.473
+18851,41.937,-76.18
+18853,41.721,-76.277
+18854,41.791,-76.356
+18901,40.305,-75.151
+18902,40.353,-75.098
+18912,40.316,-75.064
+18913,40.372,-75.056
+18914,40.289,-75.211
+18915,40.273,-75.256
+18917,40.369,-75.2
+18920,40.493,-75.087
+18921,40.53,-75.171
+18923,40.354,-75.167
+18925,40.284,-75.063
+18927,40.324,-75.241
+18929,40.258,-75.079
+18930,40.532,-75.213
+18932,40.292,-75.25
+18933,40.402,-75.039
+18935,40.433,-75.395
+18936,40.226,-75.228
+18938,40.351,-74.998
+18940,40.261,-74.937
+18942,40.474,-75.167
+18944,40.396,-75.231
+18946,40.286,-75.005
+18947,40.423,-75.118
+18950,40.435,-75.066
+18951,40.459,-75.347
+18954,40.225,-74.993
+18955,40.482,-75.311
+18960,40.366,-75.326
+18962,40.345,-75.27
+18964,40.303,-75.338
+18966,40.188,-75.01
+18969,40.326,-75.368
+18970,40.412,-75.381
+18972,40.527,-75.125
+18974,40.217,-75.073
+18976,40.249,-75.144
+18977,40.284,-74.874
+18980,40.273,-75.011
+19001,40.126,-75.127
+19002,40.188,-75.216
+19003,40.002,-75.298
+19004,40.01,-75.232
+19006,40.129,-75.06
+19007,40.116,-74.857
+19008,39.974,-75.361
+19009,40.138,-75.063
+19010,40.024,-75.33
+19012,40.06,-75.106
+19013,39.845,-75.375
+19014,39.865,-75.433
+19015,39.867,-75.391
+19017,39.891,-75.463
+19018,39.923,-75.298
+19020,40.106,-74.936
+19021,40.089,-74.894
+19022,39.857,-75.337
+19023,39.917,-75.267
+19025,40.146,-75.163
+19026,39.95,-75.304
+19027,40.073,-75.124
+19029,39.863,-75.293
+19030,40.182,-74.835
+19031,40.108,-75.217
+19032,39.888,-75.276
+19033,39.891,-75.329
+19034,40.134,-75.21
+19035,40.051,-75.278
+19036,39.904,-75.293
+19038,40.105,-75.17
+19040,40.177,-75.106
+19041,40.004,-75.32
+19043,39.9,-75.309
+19044,40.189,-75.152
+19046,40.101,-75.106
+19047,40.18,-74.912
+19050,39.938,-75.264
+19052,39.897,-75.445
+19053,40.154,-74.975
+19054,40.171,-74.817
+19055,40.15,-74.839
+19056,40.15,-74.885
+19057,40.141,-74.858
+19060,39.851,-75.492
+19061,39.828,-75.432
+19063,39.922,-75.414
+19064,39.932,-75.339
+19066,40.002,-75.249
+19067,40.23,-74.859
+19070,39.906,-75.325
+19072,40.024,-75.258
+19073,39.983,-75.429
+19074,39.886,-75.296
+19075,40.112,-75.187
+19076,39.886,-75.307
+19078,39.874,-75.321
+19079,39.902,-75.266
+19081,39.899,-75.348
+19082,39.96,-75.27
+19083,39.977,-75.312
+19085,40.037,-75.35
+19086,39.891,-75.37
+19087,40.062,-75.4
+19090,40.148,-75.124
+19094,39.875,-75.347
+19095,40.086,-75.151
+19096,39.998,-75.274
+19102,39.953,-75.165
+19103,39.953,-75.174
+19104,39.959,-75.199
+19106,39.947,-75.142
+19107,39.952,-75.159
+19108,39.96,-75.161
+19109,39.95,-75.164
+19111,40.061,-75.08
+19112,39.89,-75.169
+19113,39.871,-75.273
+19114,40.069,-75
+19115,40.091,-75.043
+19116,40.117,-75.015
+19118,40.074,-75.211
+19119,40.053,-75.191
+19120,40.034,-75.119
+19121,39.982,-75.18
+19122,39.978,-75.146
+19123,39.964,-75.145
+19124,40.017,-75.095
+19125,39.976,-75.125
+19126,40.056,-75.137
+19127,40.029,-75.227
+19128,40.05,-75.23
+19129,40.013,-75.185
+19130,39.968,-75.175
+19131,39.987,-75.219
+19132,39.997,-75.171
+19133,39.993,-75.141
+19134,39.989,-75.109
+19135,40.022,-75.051
+19136,40.039,-75.019
+19137,39.993,-75.072
+19138,40.056,-75.159
+19139,39.962,-75.231
+19140,40.012,-75.145
+19141,40.038,-75.145
+19142,39.922,-75.233
+19143,39.944,-75.227
+19144,40.032,-75.176
+19145,39.915,-75.191
+19146,39.939,-75.184
+19147,39.936,-75.155
+19148,39.912,-75.151
+19149,40.038,-75.066
+19150,40.073,-75.172
+19151,39.98,-75.257
+19152,40.062,-75.046
+19153,39.88,-75.238
+19154,40.096,-74.983
+19301,40.04,-75.48
+19310,39.935,-75.973
+19311,39.821,-75.771
+19312,40.032,-75.451
+19316,40.054,-75.834
+19317,39.862,-75.603
+19319,39.927,-75.524
+19320,39.963,-75.832
+19330,39.868,-75.914
+19333,40.042,-75.424
+19335,40.023,-75.721
+19341,40.04,-75.641
+19342,39.908,-75.5
+19343,40.101,-75.755
+19344,40.084,-75.881
+19345,40.03,-75.57
+19348,39.866,-75.72
+19350,39.76,-75.796
+19352,39.784,-75.888
+19355,40.045,-75.528
+19358,39.964,-75.807
+19362,39.751,-76.07
+19363,39.788,-75.968
+19365,39.966,-75.925
+19367,39.963,-75.884
+19369,39.981,-75.895
+19372,39.999,-75.757
+19373,39.901,-75.533
+19374,39.829,-75.751
+19375,39.9,-75.737
+19380,39.987,-75.603
+19382,39.928,-75.613
+19383,39.937,-75.606
+19390,39.836,-75.842
+19401,40.13,-75.332
+19403,40.149,-75.379
+19405,40.1,-75.334
+19406,40.095,-75.386
+19422,40.157,-75.279
+19425,40.105,-75.644
+19426,40.189,-75.438
+19428,40.08,-75.303
+19435,40.328,-75.565
+19436,40.203,-75.249
+19437,40.18,-75.26
+19438,40.269,-75.39
+19440,40.285,-75.291
+19442,40.133,-75.579
+19444,40.087,-75.254
+19446,40.231,-75.304
+19453,40.138,-75.502
+19454,40.226,-75.244
+19456,40.137,-75.46
+19457,40.207,-75.586
+19460,40.126,-75.53
+19462,40.115,-75.282
+19464,40.259,-75.616
+19465,40.19,-75.685
+19468,40.208,-75.532
+19472,40.34,-75.582
+19473,40.256,-75.483
+19474,40.224,-75.405
+19475,40.172,-75.599
+19477,40.184,-75.236
+19490,40.197,-75.354
+19492,40.282,-75.493
+19501,40.244,-76.065
+19503,40.408,-75.571
+19504,40.416,-75.589
+19505,40.379,-75.622
+19506,40.454,-76.129
+19507,40.505,-76.27
+19508,40.26,-75.832
+19510,40.446,-75.882
+19511,40.486,-75.743
+19512,40.351,-75.679
+19516,40.487,-76.005
+19518,40.272,-75.75
+19520,40.157,-75.801
+19522,40.449,-75.817
+19523,40.201,-75.851
+19525,40.309,-75.586
+19526,40.547,-75.997
+19529,40.641,-75.859
+19530,40.539,-75.781
+19533,40.425,-75.993
+19534,40.583,-75.879
+19535,40.34,-75.794
+19536,40.481,-75.759
+19538,40.548,-75.703
+19539,40.496,-75.684
+19540,40.236,-75.967
+19541,40.478,-76.018
+19543,40.176,-75.895
+19544,40.417,-76.297
+19545,40.341,-75.63
+19547,40.381,-75.773
+19549,40.583,-76.031
+19550,40.455,-76.249
+19551,40.362,-76.137
+19554,40.513,-76.104
+19555,40.494,-75.954
+19559,40.493,-76.185
+19560,40.404,-75.88
+19562,40.503,-75.702
+19564,40.518,-75.872
+19565,40.343,-76.088
+19567,40.399,-76.209
+19601,40.361,-75.937
+19602,40.328,-75.917
+19604,40.358,-75.909
+19605,40.399,-75.946
+19606,40.339,-75.857
+19607,40.291,-75.945
+19608,40.314,-76.035
+19609,40.328,-75.997
+19610,40.342,-75.975
+19611,40.325,-75.943
+19701,39.584,-75.697
+19702,39.618,-75.73
+19703,39.802,-75.454
+19706,39.575,-75.591
+19707,39.786,-75.684
+19709,39.494,-75.677
+19710,39.79,-75.585
+19711,39.714,-75.741
+19713,39.671,-75.71
+19716,39.668,-75.746
+19717,39.679,-75.75
+19720,39.645,-75.604
+19730,39.455,-75.661
+19731,39.509,-75.601
+19732,39.8,-75.575
+19733,39.559,-75.652
+19734,39.382,-75.653
+19735,39.807,-75.597
+19736,39.78,-75.643
+19801,39.724,-75.541
+19802,39.755,-75.526
+19803,39.8,-75.542
+19804,39.719,-75.622
+19805,39.745,-75.594
+19806,39.763,-75.563
+19807,39.797,-75.613
+19808,39.738,-75.667
+19809,39.757,-75.501
+19810,39.819,-75.506
+19901,39.182,-75.474
+19902,39.128,-75.467
+19904,39.171,-75.588
+19930,38.553,-75.069
+19931,38.569,-75.61
+19933,38.733,-75.603
+19934,39.085,-75.627
+19936,39.219,-75.585
+19938,39.256,-75.699
+19939,38.569,-75.208
+19940,38.478,-75.565
+19941,38.794,-75.426
+19943,39.004,-75.607
+19944,38.478,-75.053
+19945,38.498,-75.229
+19946,39.035,-75.45
+19947,38.67,-75.405
+19950,38.818,-75.597
+19951,38.685,-75.255
+19952,38.917,-75.612
+19953,39.152,-75.694
+19954,38.897,-75.52
+19955,39.227,-75.665
+19956,38.548,-75.538
+19958,38.729,-75.169
+19960,38.851,-75.409
+19962,39.069,-75.488
+19963,38.943,-75.363
+19964,39.096,-75.725
+19966,38.579,-75.277
+19967,38.54,-75.121
+19968,38.783,-75.28
+19970,38.555,-75.099
+19971,38.695,-75.1
+19973,38.634,-75.624
+19975,38.468,-75.167
+19977,39.299,-75.546
+19979,39.05,-75.576
+19980,39.074,-75.57
+20001,38.91,-77.018
+20002,38.905,-76.984
+20003,38.882,-76.991
+20004,38.895,-77.027
+20005,38.904,-77.032
+20006,38.898,-77.041
+20007,38.918,-77.091
+20008,38.935,-77.059
+20009,38.919,-77.037
+20010,38.933,-77.032
+20011,38.953,-77.023
+20012,38.979,-77.031
+20015,38.967,-77.058
+20016,38.937,-77.09
+20017,38.938,-76.993
+20018,38.927,-76.974
+20019,38.892,-76.942
+20020,38.86,-76.979
+20024,38.871,-77.027
+20032,38.832,-77.016
+20036,38.907,-77.042
+20037,38.892,-77.054
+20045,38.897,-77.031
+20052,38.899,-77.048
+20057,38.909,-77.075
+20059,38.922,-77.02
+20064,38.936,-76.999
+20105,38.953,-77.604
+20106,38.699,-78.002
+20109,38.794,-77.531
+20110,38.746,-77.488
+20111,38.749,-77.428
+20112,38.671,-77.43
+20115,38.816,-77.89
+20117,38.999,-77.734
+20119,38.621,-77.626
+20120,38.857,-77.484
+20121,38.811,-77.463
+20124,38.781,-77.391
+20129,39.163,-77.593
+20130,39.04,-77.942
+20132,39.166,-77.727
+20135,39.086,-77.887
+20136,38.73,-77.544
+20137,38.807,-77.722
+20141,39.121,-77.791
+20143,38.875,-77.562
+20144,38.921,-77.935
+20147,39.042,-77.478
+20148,38.994,-77.532
+20151,38.897,-77.444
+20152,38.899,-77.519
+20155,38.807,-77.621
+20158,39.14,-77.659
+20164,39.011,-77.397
+20165,39.058,-77.392
+20166,38.97,-77.464
+20169,38.872,-77.641
+20170,38.98,-77.38
+20171,38.927,-77.397
+20175,39.064,-77.604
+20176,39.18,-77.533
+20180,39.269,-77.638
+20181,38.669,-77.55
+20184,39.001,-77.879
+20186,38.688,-77.84
+20187,38.722,-77.737
+20190,38.959,-77.341
+20191,38.933,-77.35
+20194,38.981,-77.341
+20197,39.195,-77.628
+20198,38.884,-77.745
+20204,38.886,-77.014
+20220,38.897,-77.034
+20230,38.894,-77.036
+20240,38.894,-77.043
+20245,38.894,-77.045
+20250,38.886,-77.033
+20260,38.884,-77.025
+20317,38.935,-77.014
+20319,38.867,-77.017
+20373,38.855,-77.013
+20388,38.872,-76.994
+20390,38.879,-76.994
+20408,38.893,-77.023
+20415,38.895,-77.044
+20418,38.893,-77.048
+20422,38.927,-77.01
+20427,38.902,-77.048
+20431,38.899,-77.044
+20510,38.893,-77.007
+20515,38.887,-77.009
+20520,38.895,-77.048
+20530,38.893,-77.025
+20535,38.895,-77.025
+20540,38.888,-77.005
+20542,38.941,-77.028
+20551,38.893,-77.046
+20560,38.89,-77.027
+20565,38.89,-77.019
+20566,38.896,-77.056
+20591,38.887,-77.023
+20601,38.62,-76.856
+20602,38.583,-76.895
+20603,38.629,-76.976
+20606,38.258,-76.743
+20607,38.673,-77.027
+20608,38.582,-76.701
+20609,38.281,-76.748
+20611,38.455,-76.988
+20612,38.51,-76.679
+20613,38.671,-76.805
+20615,38.411,-76.549
+20616,38.662,-77.098
+20617,38.544,-76.853
+20618,38.276,-76.8
+20619,38.293,-76.528
+20620,38.233,-76.522
+20621,38.326,-76.801
+20622,38.417,-76.878
+20623,38.742,-76.842
+20624,38.338,-76.733
+20625,38.257,-76.845
+20626,38.237,-76.763
+20628,38.153,-76.34
+20629,38.344,-76.456
+20630,38.16,-76.463
+20632,38.423,-76.955
+20634,38.242,-76.498
+20636,38.352,-76.567
+20637,38.525,-76.756
+20639,38.601,-76.605
+20640,38.527,-77.202
+20645,38.297,-76.916
+20646,38.521,-77
+20650,38.26,-76.632
+20653,38.237,-76.429
+20656,38.338,-76.681
+20657,38.384,-76.44
+20658,38.571,-77.158
+20659,38.408,-76.732
+20660,38.369,-76.707
+20661,38.264,-76.849
+20662,38.429,-77.205
+20664,38.343,-76.91
+20667,38.215,-76.448
+20670,38.285,-76.408
+20674,38.154,-76.532
+20675,38.583,-77.015
+20676,38.487,-76.545
+20677,38.495,-77.037
+20678,38.525,-76.595
+20680,38.109,-76.386
+20684,38.125,-76.421
+20685,38.434,-76.529
+20686,38.187,-76.433
+20687,38.064,-76.34
+20688,38.327,-76.464
+20689,38.67,-76.586
+20690,38.158,-76.535
+20692,38.18,-76.5
+20693,38.459,-77.087
+20695,38.588,-76.979
+20701,39.133,-76.788
+20705,39.047,-76.898
+20706,38.966,-76.851
+20707,39.096,-76.884
+20708,39.043,-76.826
+20710,38.942,-76.926
+20711,38.801,-76.645
+20712,38.942,-76.965
+20714,38.703,-76.533
+20715,38.987,-76.736
+20716,38.926,-76.715
+20720,38.996,-76.783
+20721,38.915,-76.785
+20722,38.935,-76.951
+20723,39.138,-76.868
+20724,39.08,-76.791
+20732,38.655,-76.543
+20733,38.806,-76.532
+20735,38.751,-76.903
+20736,38.69,-76.617
+20737,38.962,-76.915
+20740,39.003,-76.931
+20742,38.994,-76.943
+20743,38.884,-76.894
+20744,38.746,-76.983
+20745,38.806,-76.995
+20746,38.836,-76.918
+20747,38.853,-76.883
+20748,38.815,-76.933
+20751,38.794,-76.561
+20754,38.732,-76.657
+20755,39.098,-76.745
+20758,38.734,-76.59
+20759,39.154,-76.931
+20762,38.81,-76.869
+20763,39.137,-76.82
+20764,38.832,-76.504
+20765,38.846,-76.548
+20769,38.992,-76.809
+20770,39,-76.889
+20771,39.009,-76.856
+20772,38.78,-76.767
+20774,38.876,-76.77
+20776,38.878,-76.592
+20777,39.175,-76.969
+20778,38.829,-76.573
+20779,38.759,-76.569
+20781,38.953,-76.946
+20782,38.966,-76.966
+20783,38.997,-76.967
+20784,38.951,-76.892
+20785,38.918,-76.882
+20794,39.151,-76.795
+20812,38.967,-77.144
+20814,39.005,-77.103
+20815,38.983,-77.079
+20816,38.957,-77.12
+20817,38.997,-77.152
+20818,38.973,-77.162
+20832,39.15,-77.078
+20833,39.21,-77.062
+20837,39.117,-77.407
+20838,39.224,-77.37
+20839,39.182,-77.431
+20841,39.182,-77.322
+20842,39.2,-77.415
+20850,39.089,-77.181
+20851,39.078,-77.121
+20852,39.052,-77.124
+20853,39.102,-77.095
+20854,39.033,-77.221
+20855,39.137,-77.132
+20860,39.151,-77.035
+20861,39.149,-76.999
+20862,39.181,-77.017
+20866,39.109,-76.934
+20868,39.126,-76.961
+20871,39.259,-77.282
+20872,39.299,-77.207
+20874,39.133,-77.302
+20876,39.207,-77.234
+20877,39.141,-77.192
+20878,39.113,-77.25
+20879,39.167,-77.164
+20880,39.141,-77.175
+20882,39.229,-77.163
+20886,39.189,-77.205
+20889,39.004,-77.087
+20892,39.001,-77.104
+20894,38.996,-77.102
+20895,39.027,-77.078
+20896,39.035,-77.095
+20899,39.144,-77.216
+20901,39.021,-77.01
+20902,39.044,-77.042
+20903,39.021,-76.981
+20904,39.07,-76.977
+20905,39.11,-76.988
+20906,39.087,-77.055
+20910,39.003,-77.037
+20912,38.982,-77.001
+21001,39.504,-76.201
+21005,39.473,-76.111
+21009,39.471,-76.285
+21010,39.391,-76.293
+21012,39.047,-76.496
+21013,39.511,-76.491
+21014,39.536,-76.352
+21015,39.544,-76.292
+21017,39.475,-76.235
+21023,39.523,-76.74
+21028,39.566,-76.25
+21029,39.214,-76.959
+21030,39.516,-76.699
+21031,39.487,-76.658
+21032,39.028,-76.604
+21034,39.641,-76.223
+21035,38.938,-76.627
+21036,39.235,-77.007
+21037,38.919,-76.543
+21040,39.43,-76.284
+21042,39.277,-76.895
+21043,39.256,-76.801
+21044,39.205,-76.879
+21045,39.206,-76.828
+21046,39.174,-76.835
+21047,39.527,-76.438
+21048,39.5,-76.925
+21050,39.585,-76.392
+21051,39.473,-76.456
+21052,39.205,-76.44
+21053,39.697,-76.715
+21054,39.056,-76.691
+21056,39.079,-76.436
+21057,39.449,-76.512
+21060,39.174,-76.578
+21061,39.161,-76.632
+21071,39.484,-76.81
+21074,39.622,-76.84
+21075,39.203,-76.751
+21076,39.171,-76.723
+21077,39.158,-76.7
+21078,39.559,-76.141
+21082,39.478,-76.473
+21084,39.614,-76.466
+21085,39.446,-76.357
+21087,39.449,-76.413
+21090,39.21,-76.665
+21093,39.438,-76.642
+21102,39.692,-76.848
+21104,39.347,-76.913
+21105,39.715,-76.652
+21108,39.09,-76.621
+21111,39.576,-76.59
+21113,39.063,-76.712
+21114,39.01,-76.684
+21117,39.428,-76.776
+21120,39.646,-76.675
+21122,39.114,-76.487
+21128,39.405,-76.448
+21130,39.475,-76.189
+21131,39.504,-76.589
+21132,39.696,-76.422
+21133,39.378,-76.811
+21136,39.439,-76.845
+21140,38.951,-76.587
+21144,39.121,-76.678
+21146,39.079,-76.559
+21152,39.555,-76.686
+21153,39.418,-76.701
+21154,39.657,-76.36
+21155,39.574,-76.806
+21156,39.429,-76.404
+21157,39.549,-76.984
+21158,39.654,-77.035
+21160,39.7,-76.307
+21161,39.66,-76.565
+21162,39.39,-76.406
+21163,39.338,-76.848
+21201,39.295,-76.622
+21202,39.297,-76.608
+21204,39.406,-76.626
+21205,39.302,-76.564
+21206,39.338,-76.539
+21207,39.324,-76.719
+21208,39.384,-76.724
+21209,39.375,-76.663
+21210,39.358,-76.635
+21211,39.329,-76.639
+21212,39.367,-76.615
+21213,39.315,-76.577
+21214,39.352,-76.564
+21215,39.346,-76.682
+21216,39.311,-76.672
+21217,39.307,-76.638
+21218,39.33,-76.601
+21219,39.23,-76.436
+21220,39.343,-76.391
+21221,39.292,-76.437
+21222,39.265,-76.496
+21223,39.283,-76.654
+21224,39.276,-76.542
+21225,39.226,-76.616
+21226,39.209,-76.563
+21227,39.24,-76.679
+21228,39.273,-76.748
+21229,39.284,-76.691
+21230,39.268,-76.627
+21231,39.289,-76.592
+21233,39.292,-76.605
+21234,39.393,-76.532
+21236,39.388,-76.484
+21237,39.342,-76.495
+21239,39.365,-76.587
+21240,39.175,-76.672
+21244,39.335,-76.777
+21250,39.256,-76.711
+21251,39.35,-76.58
+21252,39.394,-76.611
+21285,39.387,-76.617
+21286,39.412,-76.573
+21287,39.299,-76.588
+21401,38.988,-76.553
+21402,38.988,-76.471
+21403,38.942,-76.49
+21405,39.028,-76.548
+21409,39.018,-76.443
+21502,39.641,-78.756
+21520,39.637,-79.308
+21521,39.55,-79.046
+21523,39.481,-79.079
+21524,39.707,-78.802
+21529,39.714,-78.776
+21530,39.68,-78.546
+21531,39.643,-79.428
+21532,39.649,-78.985
+21536,39.657,-79.166
+21538,39.41,-79.224
+21539,39.595,-79.01
+21540,39.479,-79.059
+21541,39.541,-79.38
+21542,39.591,-78.951
+21543,39.644,-78.961
+21545,39.704,-78.855
+21550,39.392,-79.392
+21555,39.575,-78.563
+21557,39.523,-78.928
+21560,39.565,-78.706
+21561,39.492,-79.194
+21562,39.514,-79.039
+21601,38.792,-76.088
+21607,39.134,-75.856
+21610,39.367,-76.072
+21612,38.752,-76.267
+21613,38.503,-76.079
+21617,39.049,-76.045
+21619,38.942,-76.266
+21620,39.208,-76.083
+21622,38.414,-76.159
+21623,39.124,-75.967
+21624,38.834,-76.276
+21625,38.864,-75.981
+21626,38.343,-76.068
+21627,38.233,-76.046
+21628,39.233,-75.922
+21629,38.859,-75.825
+21631,38.582,-75.939
+21632,38.731,-75.772
+21634,38.286,-76.194
+21635,39.335,-75.847
+21636,39.015,-75.796
+21638,38.94,-76.208
+21639,38.959,-75.782
+21640,39.068,-75.821
+21641,38.917,-75.942
+21643,38.646,-75.87
+21644,39.117,-75.874
+21645,39.316,-75.956
+21647,38.796,-76.285
+21648,38.509,-76.24
+21649,39.146,-75.784
+21650,39.311,-75.809
+21651,39.256,-75.858
+21652,38.719,-76.281
+21653,38.744,-76.176
+21654,38.69,-76.132
+21655,38.745,-75.913
+21657,38.939,-75.981
+21658,38.944,-76.144
+21659,38.575,-75.8
+21660,38.956,-75.889
+21661,39.096,-76.219
+21662,38.714,-76.201
+21663,38.788,-76.231
+21664,38.608,-75.947
+21665,38.755,-76.368
+21666,38.94,-76.336
+21667,39.344,-76.052
+21668,39.191,-75.851
+21669,38.462,-76.295
+21671,38.696,-76.335
+21672,38.272,-76.053
+21673,38.642,-76.043
+21675,38.289,-76.09
+21676,38.787,-76.301
+21677,38.472,-76.174
+21678,39.314,-76.113
+21679,38.92,-76.094
+21701,39.444,-77.333
+21702,39.479,-77.443
+21703,39.367,-77.473
+21704,39.355,-77.376
+21705,39.409,-77.41
+21710,39.308,-77.432
+21711,39.668,-78.02
+21713,39.525,-77.67
+21714,39.411,-77.51
+21715,39.379,-77.661
+21716,39.318,-77.627
+21717,39.339,-77.432
+21718,39.393,-77.628
+21719,39.705,-77.5
+21722,39.665,-77.913
+21723,39.329,-77.003
+21727,39.689,-77.329
+21733,39.55,-77.758
+21734,39.606,-77.704
+21737,39.248,-77.027
+21738,39.28,-77.027
+21740,39.632,-77.744
+21742,39.678,-77.653
+21746,39.566,-77.714
+21750,39.662,-78.236
+21754,39.332,-77.316
+21755,39.36,-77.568
+21756,39.46,-77.694
+21757,39.594,-77.258
+21758,39.353,-77.657
+21762,39.481,-77.248
+21766,39.67,-78.388
+21767,39.698,-77.747
+21769,39.442,-77.569
+21770,39.35,-77.256
+21771,39.395,-77.158
+21773,39.543,-77.552
+21774,39.41,-77.274
+21776,39.518,-77.1
+21777,39.279,-77.529
+21778,39.616,-77.328
+21779,39.424,-77.654
+21780,39.672,-77.472
+21781,39.571,-77.76
+21782,39.455,-77.76
+21783,39.652,-77.553
+21784,39.401,-76.974
+21787,39.678,-77.173
+21788,39.59,-77.414
+21790,39.263,-77.503
+21791,39.533,-77.189
+21793,39.489,-77.344
+21794,39.298,-76.966
+21795,39.581,-77.824
+21797,39.331,-77.069
+21798,39.538,-77.295
+21801,38.349,-75.678
+21804,38.314,-75.532
+21810,38.291,-75.689
+21811,38.321,-75.222
+21813,38.423,-75.18
+21814,38.293,-75.899
+21817,37.981,-75.836
+21821,38.165,-75.917
+21822,38.288,-75.661
+21824,37.985,-76.037
+21826,38.32,-75.627
+21829,38.098,-75.371
+21830,38.397,-75.735
+21835,38.534,-75.936
+21837,38.455,-75.766
+21838,38.018,-75.738
+21840,38.249,-75.9
+21841,38.224,-75.281
+21842,38.363,-75.085
+21849,38.365,-75.456
+21850,38.362,-75.397
+21851,38.078,-75.544
+21853,38.204,-75.721
+21856,38.331,-75.795
+21861,38.536,-75.727
+21862,38.396,-75.213
+21863,38.188,-75.399
+21864,38.032,-75.406
+21865,38.283,-75.827
+21866,37.967,-76.021
+21867,38.11,-75.794
+21869,38.387,-75.916
+21871,38.107,-75.742
+21872,38.415,-75.299
+21874,38.394,-75.352
+21875,38.44,-75.545
+21890,38.158,-75.701
+21901,39.583,-75.967
+21902,39.552,-76.064
+21903,39.574,-76.045
+21904,39.615,-76.068
+21911,39.695,-76.032
+21912,39.419,-75.819
+21913,39.414,-75.87
+21914,39.575,-75.985
+21915,39.496,-75.848
+21917,39.672,-76.097
+21918,39.678,-76.176
+21919,39.419,-75.934
+21920,39.656,-75.841
+21921,39.627,-75.86
+21930,39.37,-75.887
+22003,38.83,-77.215
+22015,38.786,-77.28
+22025,38.592,-77.349
+22026,38.56,-77.296
+22027,38.895,-77.223
+22030,38.837,-77.34
+22031,38.859,-77.26
+22032,38.818,-77.29
+22033,38.875,-77.385
+22035,38.856,-77.363
+22039,38.749,-77.314
+22041,38.849,-77.141
+22042,38.865,-77.194
+22043,38.901,-77.197
+22044,38.862,-77.154
+22046,38.886,-77.181
+22060,38.699,-77.157
+22066,39.012,-77.302
+22079,38.676,-77.204
+22101,38.94,-77.165
+22102,38.951,-77.23
+22124,38.895,-77.33
+22125,38.682,-77.262
+22134,38.533,-77.405
+22150,38.773,-77.187
+22151,38.804,-77.208
+22152,38.774,-77.232
+22153,38.745,-77.236
+22172,38.579,-77.4
+22180,38.895,-77.256
+22181,38.906,-77.29
+22182,38.938,-77.276
+22191,38.623,-77.263
+22192,38.684,-77.318
+22193,38.644,-77.351
+22201,38.887,-77.095
+22202,38.857,-77.051
+22203,38.874,-77.116
+22204,38.861,-77.099
+22205,38.883,-77.14
+22206,38.844,-77.087
+22207,38.907,-77.124
+22209,38.894,-77.073
+22211,38.88,-77.075
+22213,38.895,-77.162
+22214,38.875,-77.065
+22301,38.82,-77.059
+22302,38.828,-77.083
+22303,38.794,-77.082
+22304,38.813,-77.112
+22305,38.836,-77.062
+22306,38.75,-77.107
+22307,38.77,-77.059
+22308,38.729,-77.061
+22309,38.719,-77.107
+22310,38.785,-77.122
+22311,38.834,-77.126
+22312,38.818,-77.154
+22314,38.807,-77.056
+22315,38.757,-77.147
+22401,38.299,-77.487
+22405,38.314,-77.404
+22406,38.4,-77.547
+22407,38.285,-77.581
+22408,38.211,-77.453
+22427,38.072,-77.289
+22432,37.861,-76.355
+22433,38.367,-77.859
+22435,37.967,-76.572
+22436,38.084,-77.117
+22437,37.78,-76.812
+22438,38.043,-76.996
+22443,38.17,-76.987
+22448,38.336,-77.028
+22454,37.833,-76.845
+22460,37.869,-76.607
+22469,38.064,-76.643
+22472,37.959,-76.673
+22473,37.882,-76.412
+22476,38.038,-77.067
+22480,37.663,-76.412
+22482,37.737,-76.347
+22485,38.277,-77.163
+22488,38.049,-76.587
+22503,37.75,-76.515
+22504,37.769,-76.721
+22508,38.313,-77.798
+22509,38.106,-77.074
+22511,37.994,-76.504
+22514,38.008,-77.329
+22520,38.119,-76.812
+22529,38.012,-76.69
+22534,38.087,-77.669
+22535,38.118,-77.197
+22538,38.193,-77.275
+22539,37.861,-76.286
+22542,38.293,-77.893
+22546,37.944,-77.446
+22548,37.827,-76.702
+22551,38.187,-77.7
+22553,38.272,-77.64
+22554,38.421,-77.375
+22556,38.489,-77.515
+22560,37.916,-76.961
+22567,38.238,-77.928
+22572,37.965,-76.771
+22576,37.687,-76.441
+22578,37.637,-76.356
+22580,38.113,-77.437
+22601,39.174,-78.174
+22602,39.144,-78.285
+22603,39.281,-78.207
+22610,38.825,-78.279
+22611,39.163,-77.985
+22620,39.06,-78.034
+22623,38.849,-78.141
+22624,39.261,-78.096
+22625,39.377,-78.309
+22627,38.772,-78.149
+22630,38.931,-78.176
+22637,39.257,-78.353
+22639,38.845,-78.035
+22640,38.811,-78.141
+22641,39.085,-78.393
+22642,38.948,-78.028
+22643,38.893,-78.013
+22644,38.966,-78.545
+22645,39.019,-78.275
+22646,39.073,-78.051
+22650,38.765,-78.365
+22652,38.84,-78.432
+22654,39.066,-78.464
+22655,39.066,-78.209
+22656,39.219,-78.101
+22657,39.001,-78.371
+22660,38.955,-78.44
+22663,39.053,-78.112
+22664,38.889,-78.532
+22701,38.426,-78.01
+22709,38.329,-78.214
+22711,38.465,-78.279
+22712,38.554,-77.751
+22713,38.533,-78.136
+22714,38.51,-77.891
+22715,38.414,-78.185
+22716,38.63,-78.103
+22718,38.46,-77.828
+22719,38.528,-78.281
+22720,38.48,-77.648
+22722,38.466,-78.227
+22723,38.335,-78.38
+22724,38.632,-77.904
+22725,38.441,-78.156
+22726,38.398,-77.817
+22727,38.408,-78.295
+22728,38.575,-77.68
+22729,38.353,-78.018
+22730,38.363,-78.164
+22731,38.344,-78.261
+22732,38.309,-78.192
+22733,38.321,-78.04
+22734,38.529,-77.81
+22735,38.481,-78.185
+22736,38.398,-77.694
+22737,38.592,-78.002
+22738,38.286,-78.288
+22740,38.646,-78.287
+22741,38.45,-77.864
+22742,38.465,-77.708
+22743,38.54,-78.381
+22746,38.626,-78.021
+22747,38.709,-78.166
+22749,38.619,-78.184
+22801,38.405,-78.881
+22802,38.494,-78.863
+22807,38.435,-78.869
+22810,38.834,-78.801
+22811,38.811,-78.992
+22812,38.378,-79.027
+22815,38.713,-78.841
+22820,38.745,-78.983
+22821,38.481,-79.128
+22824,38.847,-78.628
+22827,38.393,-78.615
+22830,38.667,-78.975
+22831,38.56,-79.122
+22832,38.458,-78.757
+22834,38.56,-78.855
+22835,38.67,-78.455
+22840,38.392,-78.744
+22841,38.342,-78.892
+22842,38.778,-78.7
+22843,38.368,-79.147
+22844,38.662,-78.658
+22845,38.777,-78.845
+22846,38.385,-78.796
+22847,38.717,-78.715
+22849,38.525,-78.63
+22850,38.565,-78.918
+22851,38.544,-78.503
+22853,38.652,-78.759
+22901,38.088,-78.553
+22902,37.91,-78.522
+22903,38.007,-78.595
+22904,38.035,-78.511
+22908,38.031,-78.497
+22911,38.097,-78.41
+22920,37.969,-78.806
+22922,37.686,-78.922
+22923,38.189,-78.317
+22931,37.899,-78.727
+22932,38.148,-78.696
+22935,38.254,-78.563
+22936,38.16,-78.499
+22937,37.814,-78.612
+22938,37.861,-78.775
+22939,38.103,-78.971
+22940,38.211,-78.595
+22942,38.101,-78.202
+22943,38.04,-78.778
+22946,37.848,-78.564
+22947,38.044,-78.325
+22948,38.363,-78.129
+22949,37.789,-78.883
+22952,37.934,-79.014
+22957,38.23,-78.192
+22958,37.893,-78.894
+22959,37.937,-78.657
+22960,38.22,-78.063
+22963,37.847,-78.294
+22964,37.724,-78.991
+22967,37.797,-79.014
+22968,38.242,-78.394
+22969,37.797,-78.693
+22971,37.748,-78.8
+22972,38.217,-78.233
+22973,38.335,-78.468
+22974,37.966,-78.267
+22976,37.849,-79.046
+22980,38.1,-78.881
+22989,38.293,-78.119
+23002,37.35,-77.959
+23004,37.688,-78.399
+23005,37.76,-77.484
+23009,37.812,-77.175
+23011,37.477,-76.812
+23015,37.93,-77.643
+23021,37.401,-76.372
+23022,37.737,-78.264
+23023,37.769,-76.964
+23024,37.928,-77.779
+23025,37.415,-76.362
+23027,37.646,-78.13
+23030,37.346,-77.055
+23032,37.655,-76.682
+23035,37.5,-76.382
+23038,37.753,-78.149
+23039,37.653,-77.802
+23040,37.52,-78.253
+23043,37.558,-76.336
+23045,37.425,-76.269
+23047,37.846,-77.487
+23050,37.488,-76.419
+23055,37.768,-78.217
+23056,37.394,-76.384
+23059,37.702,-77.574
+23060,37.66,-77.534
+23061,37.428,-76.538
+23062,37.263,-76.507
+23063,37.706,-77.981
+23065,37.806,-77.932
+23066,37.5,-76.293
+23068,37.49,-76.333
+23069,37.783,-77.343
+23070,37.552,-76.384
+23071,37.545,-76.449
+23072,37.29,-76.448
+23075,37.558,-77.317
+23076,37.472,-76.307
+23079,37.74,-76.678
+23081,37.194,-76.753
+23083,37.311,-78.105
+23084,37.885,-78.115
+23085,37.689,-76.826
+23086,37.669,-77.054
+23089,37.477,-76.915
+23091,37.656,-76.802
+23092,37.607,-76.515
+23093,38.004,-78.04
+23102,37.708,-77.829
+23103,37.648,-77.724
+23106,37.716,-77.207
+23108,37.656,-76.72
+23109,37.433,-76.326
+23110,37.57,-76.77
+23111,37.614,-77.243
+23112,37.433,-77.655
+23113,37.54,-77.68
+23114,37.483,-77.66
+23116,37.664,-77.325
+23117,37.982,-77.874
+23119,37.444,-76.277
+23120,37.422,-77.781
+23123,37.652,-78.301
+23124,37.551,-77.044
+23126,37.923,-77.144
+23128,37.447,-76.429
+23129,37.704,-77.778
+23130,37.387,-76.259
+23138,37.343,-76.304
+23139,37.546,-77.937
+23140,37.439,-77.049
+23141,37.535,-77.157
+23146,37.723,-77.71
+23147,37.37,-77.039
+23148,37.84,-77.059
+23149,37.576,-76.609
+23150,37.501,-77.253
+23153,37.78,-77.956
+23156,37.519,-76.726
+23160,37.629,-77.841
+23161,37.716,-76.935
+23163,37.357,-76.297
+23168,37.396,-76.825
+23169,37.603,-76.457
+23173,37.576,-77.542
+23175,37.655,-76.624
+23176,37.573,-76.415
+23177,37.729,-77.006
+23180,37.702,-76.615
+23181,37.597,-76.889
+23185,37.24,-76.701
+23188,37.342,-76.748
+23192,37.82,-77.681
+23219,37.541,-77.435
+23220,37.549,-77.461
+23221,37.55,-77.491
+23222,37.583,-77.419
+23223,37.558,-77.379
+23224,37.498,-77.467
+23225,37.52,-77.511
+23226,37.579,-77.52
+23227,37.612,-77.436
+23228,37.627,-77.493
+23229,37.588,-77.57
+23230,37.587,-77.489
+23231,37.442,-77.315
+23233,37.644,-77.629
+23234,37.453,-77.467
+23235,37.515,-77.565
+23236,37.476,-77.585
+23237,37.401,-77.457
+23238,37.593,-77.642
+23250,37.505,-77.321
+23284,37.549,-77.452
+23294,37.631,-77.543
+23298,37.542,-77.43
+23301,37.67,-75.644
+23302,37.854,-75.518
+23303,37.903,-75.506
+23304,36.996,-76.572
+23306,37.566,-75.885
+23307,37.432,-75.871
+23308,37.828,-75.632
+23310,37.259,-75.964
+23314,36.959,-76.524
+23315,36.737,-76.841
+23316,37.294,-75.966
+23320,36.752,-76.218
+23321,36.8,-76.421
+23322,36.626,-76.268
+23323,36.697,-76.38
+23324,36.8,-76.273
+23325,36.814,-76.24
+23336,37.949,-75.338
+23337,37.94,-75.466
+23347,37.357,-75.978
+23350,37.513,-75.863
+23354,37.479,-75.902
+23356,38.01,-75.385
+23357,37.756,-75.676
+23358,37.653,-75.868
+23359,37.888,-75.604
+23389,37.655,-75.833
+23395,37.97,-75.448
+23398,37.521,-75.94
+23401,37.628,-75.778
+23405,37.412,-75.927
+23407,37.847,-75.554
+23408,37.453,-75.843
+23409,37.888,-75.663
+23410,37.639,-75.745
+23413,37.462,-75.85
+23414,37.814,-75.587
+23415,37.975,-75.536
+23416,37.937,-75.561
+23417,37.732,-75.762
+23418,37.641,-75.668
+23420,37.599,-75.817
+23421,37.765,-75.612
+23422,37.635,-75.823
+23423,37.516,-75.741
+23426,37.925,-75.692
+23427,37.9,-75.718
+23430,36.999,-76.661
+23432,36.862,-76.552
+23433,36.916,-76.484
+23434,36.703,-76.592
+23435,36.849,-76.473
+23436,36.894,-76.507
+23437,36.627,-76.803
+23438,36.581,-76.697
+23440,37.825,-75.99
+23441,37.712,-75.699
+23442,37.894,-75.56
+23451,36.872,-76.004
+23452,36.846,-76.092
+23453,36.783,-76.071
+23454,36.865,-76.055
+23455,36.884,-76.143
+23456,36.737,-76.036
+23457,36.617,-76.015
+23459,36.917,-76.172
+23460,36.818,-76.032
+23461,36.771,-75.964
+23462,36.836,-76.146
+23464,36.797,-76.188
+23480,37.619,-75.691
+23486,37.518,-75.807
+23487,36.847,-76.725
+23488,37.948,-75.598
+23502,36.861,-76.205
+23503,36.949,-76.266
+23504,36.857,-76.266
+23505,36.913,-76.3
+23507,36.865,-76.303
+23508,36.885,-76.31
+23509,36.882,-76.264
+23510,36.852,-76.291
+23511,36.937,-76.309
+23513,36.889,-76.238
+23517,36.869,-76.292
+23518,36.916,-76.215
+23523,36.832,-76.272
+23551,36.924,-76.293
+23601,37.038,-76.48
+23602,37.113,-76.518
+23603,37.191,-76.565
+23604,37.119,-76.593
+23605,37.019,-76.437
+23606,37.066,-76.517
+23607,36.971,-76.424
+23608,37.148,-76.543
+23651,37.002,-76.31
+23661,37.001,-76.37
+23662,37.133,-76.353
+23663,37.016,-76.323
+23664,37.073,-76.295
+23665,37.084,-76.36
+23666,37.057,-76.408
+23667,37.022,-76.33
+23668,37.02,-76.339
+23669,37.051,-76.339
+23681,37.097,-76.384
+23690,37.22,-76.518
+23691,37.26,-76.573
+23692,37.212,-76.421
+23693,37.131,-76.445
+23696,37.189,-76.421
+23701,36.812,-76.369
+23702,36.803,-76.327
+23703,36.893,-76.373
+23704,36.827,-76.312
+23707,36.842,-76.34
+23708,36.848,-76.304
+23709,36.817,-76.299
+23801,37.236,-77.336
+23803,37.215,-77.47
+23805,37.132,-77.394
+23821,36.883,-77.913
+23824,37.089,-77.958
+23827,36.619,-77.2
+23828,36.581,-77.267
+23829,36.727,-77.228
+23830,37.024,-77.397
+23831,37.346,-77.451
+23832,37.388,-77.592
+23833,37.209,-77.669
+23834,37.29,-77.401
+23836,37.351,-77.331
+23837,36.757,-77.09
+23838,37.318,-77.634
+23839,37.086,-76.918
+23840,37.051,-77.671
+23841,37.062,-77.55
+23842,37.137,-77.217
+23843,36.85,-77.812
+23844,36.68,-77.327
+23845,36.579,-77.978
+23846,37.067,-76.834
+23847,36.664,-77.552
+23850,37.163,-77.743
+23851,36.652,-76.957
+23856,36.794,-77.703
+23857,36.585,-77.884
+23860,37.275,-77.227
+23866,36.924,-76.862
+23867,36.82,-77.489
+23868,36.709,-77.795
+23870,36.752,-77.5
+23872,36.983,-77.727
+23874,36.585,-77.071
+23875,37.23,-77.256
+23876,36.956,-77.834
+23878,36.825,-77.025
+23879,36.592,-77.597
+23881,37.181,-76.978
+23882,36.926,-77.422
+23883,37.136,-76.736
+23884,36.917,-77.28
+23885,37.179,-77.573
+23887,36.573,-77.817
+23888,36.954,-76.979
+23889,36.903,-77.747
+23890,37.009,-77.118
+23891,37.048,-77.204
+23893,36.624,-77.937
+23894,37.137,-77.825
+23897,36.837,-77.285
+23898,36.838,-76.862
+23899,37.234,-76.974
+23901,37.32,-78.41
+23909,37.299,-78.396
+23915,36.693,-78.287
+23917,36.626,-78.345
+23919,36.58,-78.135
+23920,36.725,-77.975
+23921,37.586,-78.624
+23922,37.175,-78.222
+23923,37.087,-78.65
+23924,36.822,-78.426
+23927,36.592,-78.561
+23930,37.171,-78.1
+23934,37.177,-78.627
+23936,37.525,-78.477
+23937,36.945,-78.513
+23938,36.904,-78.006
+23942,37.13,-78.299
+23943,37.243,-78.462
+23944,36.916,-78.139
+23947,37.017,-78.448
+23950,36.659,-78.076
+23952,36.918,-78.279
+23954,37.106,-78.38
+23955,37.112,-78.07
+23958,37.274,-78.657
+23959,37.105,-78.795
+23960,37.321,-78.552
+23962,36.951,-78.692
+23963,37.201,-78.799
+23964,36.783,-78.633
+23966,37.3,-78.259
+23967,36.922,-78.63
+23968,36.717,-78.51
+23970,36.739,-78.182
+23974,36.969,-78.242
+23976,36.856,-78.579
+24011,37.27,-79.942
+24012,37.318,-79.897
+24013,37.267,-79.922
+24014,37.223,-79.915
+24015,37.255,-79.982
+24016,37.272,-79.955
+24017,37.298,-79.991
+24018,37.213,-80.042
+24019,37.344,-79.955
+24020,37.356,-79.943
+24022,37.277,-79.934
+24053,36.607,-80.534
+24054,36.682,-79.705
+24055,36.762,-80.001
+24058,37.177,-80.622
+24059,37.156,-80.132
+24060,37.261,-80.417
+24061,37.226,-80.426
+24064,37.376,-79.77
+24065,37.117,-79.997
+24066,37.536,-79.679
+24067,37.032,-80.06
+24069,36.577,-79.643
+24070,37.372,-80.233
+24072,37.042,-80.242
+24073,37.135,-80.423
+24076,36.605,-80.421
+24077,37.361,-79.907
+24078,36.724,-79.913
+24079,37.053,-80.151
+24082,36.633,-80.131
+24083,37.405,-79.92
+24084,37.168,-80.718
+24085,37.684,-79.857
+24086,37.276,-80.632
+24087,37.222,-80.239
+24088,36.888,-80.078
+24089,36.704,-79.961
+24090,37.53,-79.896
+24091,36.92,-80.321
+24092,37.012,-79.758
+24093,37.385,-80.869
+24095,37.223,-79.737
+24101,37.174,-79.796
+24102,36.844,-80.002
+24104,37.134,-79.489
+24105,36.912,-80.604
+24112,36.721,-79.847
+24120,36.692,-80.414
+24121,37.169,-79.647
+24122,37.426,-79.692
+24124,37.306,-80.866
+24127,37.474,-80.231
+24128,37.34,-80.483
+24129,37.14,-80.592
+24131,37.571,-80.233
+24132,37.204,-80.659
+24133,36.676,-80.128
+24134,37.248,-80.778
+24136,37.316,-80.613
+24137,36.928,-79.658
+24138,37.052,-80.317
+24139,37.015,-79.453
+24141,37.107,-80.562
+24142,37.138,-80.551
+24147,37.402,-80.824
+24148,36.581,-79.877
+24149,37.019,-80.434
+24150,37.401,-80.598
+24151,36.961,-79.866
+24153,37.303,-80.114
+24161,36.978,-79.529
+24162,37.129,-80.25
+24165,36.594,-80.061
+24167,37.255,-80.725
+24168,36.736,-79.949
+24171,36.697,-80.221
+24174,37.35,-79.662
+24175,37.458,-80.029
+24176,37.006,-79.692
+24179,37.283,-79.794
+24184,37.087,-79.774
+24185,36.809,-80.276
+24201,36.612,-82.169
+24202,36.656,-82.212
+24210,36.769,-82.028
+24211,36.654,-81.955
+24216,36.944,-82.783
+24217,37.102,-82.17
+24219,36.834,-82.749
+24220,37.122,-82.223
+24221,36.625,-82.999
+24224,36.861,-82.272
+24225,36.992,-82.142
+24226,37.137,-82.323
+24228,37.167,-82.456
+24230,36.969,-82.451
+24236,36.639,-81.725
+24237,37.041,-82.262
+24239,37.113,-82.147
+24243,36.784,-82.92
+24244,36.708,-82.803
+24245,36.838,-82.513
+24246,36.866,-82.744
+24248,36.61,-83.51
+24250,36.757,-82.588
+24251,36.657,-82.599
+24256,37.223,-82.284
+24258,36.649,-82.409
+24260,37.021,-82.001
+24263,36.668,-83.167
+24265,36.833,-82.946
+24266,36.868,-82.102
+24269,37.073,-82.381
+24270,36.73,-82.251
+24271,36.749,-82.417
+24272,37.018,-82.333
+24273,36.965,-82.661
+24277,36.749,-83.02
+24279,37.078,-82.627
+24280,36.955,-81.943
+24281,36.637,-83.34
+24282,36.819,-83.054
+24283,36.94,-82.333
+24290,36.616,-82.561
+24292,36.625,-81.596
+24293,36.998,-82.566
+24301,37.065,-80.818
+24311,36.873,-81.403
+24312,36.833,-80.887
+24313,36.911,-80.797
+24314,37.157,-81.21
+24315,37.134,-81.063
+24316,36.956,-81.669
+24317,36.601,-80.671
+24318,36.996,-81.387
+24319,36.762,-81.657
+24322,36.799,-81.114
+24323,36.866,-81.205
+24324,36.974,-80.776
+24325,36.81,-80.588
+24326,36.723,-81.19
+24327,36.774,-81.83
+24328,36.645,-80.701
+24330,36.716,-81.027
+24333,36.64,-80.935
+24340,36.753,-81.768
+24343,36.763,-80.698
+24347,36.961,-80.652
+24348,36.652,-81.215
+24350,36.813,-80.994
+24351,36.579,-80.765
+24352,36.709,-80.531
+24354,36.821,-81.54
+24360,36.941,-80.909
+24361,36.767,-81.845
+24363,36.617,-81.405
+24366,37.264,-81.104
+24368,36.893,-81.301
+24370,36.911,-81.69
+24374,36.784,-81.22
+24375,36.772,-81.392
+24377,37.002,-81.569
+24378,36.694,-81.42
+24380,36.86,-80.509
+24381,36.722,-80.833
+24382,36.953,-81.111
+24401,38.134,-79.086
+24411,38.118,-79.331
+24412,38.054,-79.818
+24413,38.506,-79.556
+24415,37.909,-79.308
+24416,37.729,-79.355
+24421,38.245,-79.245
+24422,37.833,-79.75
+24426,37.759,-80.05
+24430,38.078,-79.343
+24431,38.17,-78.843
+24432,38.148,-79.443
+24433,38.424,-79.425
+24435,37.858,-79.307
+24437,38.212,-78.934
+24439,38.017,-79.482
+24440,37.999,-79.165
+24441,38.222,-78.809
+24442,38.373,-79.385
+24445,37.96,-79.872
+24448,37.797,-79.789
+24450,37.78,-79.545
+24457,37.796,-79.865
+24458,38.326,-79.51
+24459,38.039,-79.28
+24460,38.017,-79.667
+24464,37.861,-79.11
+24465,38.398,-79.647
+24467,38.255,-78.971
+24469,38.201,-78.908
+24471,38.313,-78.784
+24472,37.94,-79.221
+24473,37.935,-79.415
+24474,37.805,-79.848
+24476,37.974,-79.227
+24477,38.005,-79.042
+24479,38.164,-79.239
+24482,38.203,-78.998
+24483,37.813,-79.235
+24484,38.183,-79.799
+24485,38.271,-79.33
+24486,38.297,-78.925
+24487,38.2,-79.588
+24501,37.36,-79.141
+24502,37.355,-79.219
+24503,37.454,-79.242
+24504,37.365,-79.048
+24515,37.353,-79.179
+24517,37.141,-79.237
+24520,36.587,-79.03
+24521,37.633,-79.101
+24522,37.377,-78.779
+24523,37.337,-79.526
+24526,37.556,-79.398
+24527,36.733,-79.346
+24528,37.08,-78.876
+24529,36.617,-78.63
+24530,36.807,-79.62
+24531,36.841,-79.438
+24534,36.883,-78.77
+24536,37.491,-79.324
+24538,37.379,-78.97
+24539,36.841,-78.931
+24540,36.635,-79.427
+24541,36.589,-79.515
+24549,36.707,-79.504
+24550,37.238,-79.272
+24551,37.37,-79.331
+24553,37.546,-78.81
+24554,37.12,-79.072
+24555,37.667,-79.468
+24556,37.376,-79.399
+24557,36.97,-79.306
+24558,36.781,-78.956
+24562,37.703,-78.618
+24563,37.059,-79.273
+24565,36.853,-79.19
+24566,36.732,-79.253
+24569,37.043,-79.126
+24570,37.349,-79.427
+24571,37.133,-79.373
+24572,37.465,-79.095
+24574,37.577,-79.246
+24577,36.944,-78.983
+24578,37.66,-79.562
+24579,37.586,-79.503
+24580,36.579,-78.673
+24581,37.655,-78.806
+24586,36.607,-79.277
+24588,37.262,-79.096
+24589,36.757,-78.754
+24590,37.793,-78.475
+24592,36.682,-78.953
+24593,37.334,-78.914
+24594,36.636,-79.187
+24595,37.561,-79.081
+24597,36.782,-79.111
+24598,36.605,-78.788
+24599,37.624,-78.724
+24601,37.191,-81.641
+24602,37.183,-81.659
+24603,37.347,-82.203
+24604,37.212,-81.54
+24605,37.235,-81.375
+24606,37.289,-81.391
+24607,37.295,-82.271
+24609,37.016,-81.791
+24612,37.101,-81.85
+24613,37.265,-81.337
+24614,37.313,-82.089
+24620,37.431,-82.012
+24622,37.215,-81.79
+24630,37.177,-81.475
+24631,37.222,-82.002
+24634,37.268,-81.903
+24635,37.308,-81.349
+24637,37.061,-81.714
+24639,37.173,-81.898
+24641,37.112,-81.802
+24646,37.145,-82.024
+24649,37.09,-81.922
+24651,37.076,-81.503
+24656,37.175,-82.125
+24657,37.228,-81.849
+24701,37.306,-81.205
+24712,37.48,-81.035
+24714,37.469,-81.178
+24715,37.335,-81.333
+24716,37.534,-81.376
+24719,37.487,-81.327
+24724,37.338,-81.318
+24726,37.488,-81.3
+24729,37.45,-81.26
+24731,37.397,-81.152
+24733,37.45,-81.201
+24736,37.447,-81.281
+24737,37.353,-81.266
+24738,37.303,-81.32
+24739,37.373,-81.005
+24740,37.403,-81.106
+24747,37.411,-81.217
+24801,37.469,-81.553
+24808,37.33,-81.422
+24811,37.402,-81.748
+24813,37.357,-81.72
+24815,37.22,-81.616
+24816,37.461,-81.706
+24817,37.341,-81.822
+24818,37.625,-81.62
+24822,37.647,-81.697
+24823,37.672,-81.752
+24826,37.293,-81.624
+24827,37.769,-81.637
+24828,37.498,-81.671
+24830,37.334,-81.559
+24831,37.389,-81.451
+24834,37.524,-81.686
+24836,37.381,-81.551
+24839,37.578,-81.757
+24843,37.484,-81.709
+24844,37.49,-81.793
+24845,37.526,-81.8
+24846,37.526,-81.887
+24847,37.571,-81.409
+24848,37.28,-81.434
+24849,37.687,-81.562
+24850,37.378,-81.885
+24851,37.601,-81.834
+24853,37.448,-81.53
+24854,37.75,-81.577
+24855,37.409,-81.425
+24857,37.687,-81.676
+24860,37.663,-81.59
+24861,37.357,-81.357
+24862,37.479,-81.964
+24866,37.25,-81.581
+24867,37.605,-81.457
+24868,37.438,-81.389
+24869,37.553,-81.824
+24870,37.736,-81.532
+24871,37.323,-81.506
+24872,37.449,-81.921
+24873,37.351,-81.88
+24874,37.602,-81.531
+24878,37.439,-81.625
+24879,37.312,-81.768
+24880,37.65,-81.532
+24881,37.443,-81.67
+24882,37.626,-81.766
+24884,37.273,-81.551
+24887,37.378,-81.387
+24888,37.358,-81.483
+24892,37.317,-81.697
+24894,37.244,-81.688
+24895,37.376,-81.583
+24898,37.587,-81.568
+24901,37.854,-80.485
+24910,37.743,-80.668
+24915,38.469,-79.787
+24916,37.829,-80.581
+24918,37.522,-80.745
+24920,38.633,-79.696
+24924,38.201,-80.165
+24925,37.731,-80.38
+24927,38.34,-80.038
+24931,37.912,-80.6
+24934,38.334,-79.891
+24935,37.566,-80.806
+24938,37.933,-80.37
+24941,37.586,-80.351
+24943,37.838,-80.734
+24944,38.385,-79.769
+24945,37.516,-80.703
+24946,38.229,-80.32
+24951,37.495,-80.624
+24954,38.225,-80.056
+24957,37.896,-80.397
+24962,37.662,-80.718
+24963,37.436,-80.758
+24966,38.057,-80.385
+24970,37.728,-80.474
+24974,37.642,-80.448
+24976,37.657,-80.512
+24977,37.898,-80.685
+24981,37.633,-80.736
+24983,37.596,-80.506
+24984,37.494,-80.408
+24985,37.604,-80.713
+24986,37.921,-80.146
+24991,38.001,-80.481
+24993,37.661,-80.635
+25002,38.131,-81.255
+25003,38.248,-81.785
+25005,38.606,-81.257
+25007,37.825,-81.43
+25008,37.949,-81.345
+25009,38.202,-81.685
+25011,38.515,-81.833
+25015,38.246,-81.497
+25019,38.351,-81.092
+25021,37.918,-81.684
+25022,37.825,-81.776
+25024,38.159,-81.624
+25025,38.298,-81.403
+25028,37.947,-81.726
+25030,38.453,-81.226
+25031,38.149,-81.275
+25033,38.612,-81.924
+25035,38.165,-81.521
+25036,38.182,-81.271
+25039,38.235,-81.363
+25040,38.136,-81.247
+25043,38.426,-81.003
+25044,37.916,-81.309
+25045,38.447,-81.329
+25047,37.921,-81.768
+25048,37.947,-81.431
+25049,38.115,-81.558
+25051,38.157,-81.71
+25053,38.041,-81.882
+25054,38.121,-81.452
+25057,38.109,-81.223
+25059,38.245,-81.224
+25060,37.966,-81.474
+25061,38.175,-81.44
+25062,37.88,-81.433
+25063,38.576,-80.923
+25064,38.377,-81.749
+25067,38.213,-81.445
+25070,38.546,-81.932
+25071,38.478,-81.467
+25075,38.06,-81.405
+25076,37.869,-81.937
+25081,38.074,-81.752
+25082,38.604,-82.031
+25083,38.07,-81.368
+25085,38.162,-81.163
+25086,38.218,-81.415
+25088,38.399,-81.209
+25090,38.155,-81.221
+25093,37.951,-81.633
+25102,38.166,-81.352
+25103,38.181,-81.381
+25106,38.766,-82.085
+25107,38.238,-81.676
+25108,37.962,-81.878
+25109,38.531,-81.861
+25110,38.205,-81.337
+25111,38.35,-81.123
+25112,38.381,-81.766
+25113,38.553,-81.046
+25114,37.987,-81.786
+25115,38.122,-81.182
+25118,38.119,-81.323
+25119,38.015,-81.263
+25121,37.91,-81.887
+25123,38.73,-81.9
+25124,38.621,-81.765
+25125,38.312,-81.215
+25126,38.191,-81.357
+25130,38.033,-81.752
+25132,38.293,-81.334
+25133,38.475,-81.101
+25134,38.143,-81.473
+25136,38.155,-81.315
+25139,38.106,-81.283
+25140,37.84,-81.499
+25141,38.63,-81.025
+25142,38.143,-81.738
+25143,38.421,-81.824
+25148,38.025,-81.526
+25149,37.949,-81.772
+25152,38.033,-81.24
+25154,38.121,-81.713
+25156,38.412,-81.482
+25159,38.524,-81.789
+25160,38.324,-81.268
+25161,38.053,-81.319
+25162,38.208,-81.383
+25164,38.509,-81.205
+25165,38.156,-81.654
+25168,38.56,-81.88
+25169,38.129,-81.763
+25173,38.074,-81.211
+25174,37.866,-81.411
+25177,38.369,-81.851
+25180,37.79,-81.436
+25181,38.049,-81.641
+25183,37.892,-81.8
+25185,38.217,-81.238
+25186,38.174,-81.297
+25187,38.732,-82.014
+25193,38.017,-81.551
+25201,38.348,-81.491
+25202,38.316,-81.859
+25203,38.021,-81.882
+25204,37.927,-81.639
+25205,38.019,-81.793
+25206,37.957,-81.683
+25208,37.837,-81.64
+25209,37.96,-81.522
+25211,38.469,-80.888
+25213,38.513,-81.913
+25214,38.186,-81.543
+25231,38.613,-81.595
+25234,38.808,-81.133
+25235,38.67,-81.09
+25239,38.85,-81.845
+25241,38.775,-81.8
+25243,38.676,-81.494
+25244,38.763,-81.539
+25245,38.709,-81.736
+25247,39.002,-81.99
+25248,38.644,-81.614
+25251,38.621,-81.232
+25252,38.879,-81.535
+25253,38.921,-81.961
+25259,38.675,-81.248
+25260,39.021,-82.019
+25261,38.833,-81.09
+25262,38.909,-81.836
+25264,38.86,-81.894
+25265,38.974,-81.983
+25266,38.602,-81.159
+25267,38.858,-80.951
+25268,38.731,-81.123
+25270,38.877,-81.458
+25271,38.789,-81.693
+25275,38.927,-81.619
+25276,38.782,-81.329
+25285,38.54,-81.102
+25286,38.621,-81.397
+25287,38.961,-82.051
+25301,38.351,-81.628
+25302,38.393,-81.595
+25303,38.36,-81.686
+25304,38.302,-81.598
+25305,38.337,-81.613
+25306,38.313,-81.499
+25309,38.312,-81.757
+25311,38.367,-81.557
+25312,38.453,-81.646
+25313,38.409,-81.744
+25314,38.289,-81.66
+25315,38.215,-81.584
+25320,38.54,-81.626
+25387,38.385,-81.671
+25401,39.457,-77.972
+25403,39.475,-78.012
+25404,39.49,-77.896
+25405,39.409,-77.962
+25411,39.549,-78.221
+25413,39.311,-78.056
+25414,39.242,-77.865
+25419,39.583,-77.885
+25420,39.381,-78.12
+25421,39.378,-78.164
+25422,39.545,-78.354
+25425,39.307,-77.773
+25427,39.52,-78.099
+25428,39.381,-78.022
+25430,39.327,-77.938
+25431,39.484,-78.574
+25432,39.295,-77.787
+25434,39.44,-78.461
+25437,39.424,-78.579
+25438,39.323,-77.864
+25442,39.373,-77.833
+25443,39.438,-77.815
+25444,39.431,-78.513
+25446,39.24,-77.957
+25501,38.162,-81.957
+25502,38.666,-82.116
+25503,38.609,-82.115
+25504,38.376,-82.27
+25505,38.02,-82.031
+25506,38.209,-82.199
+25507,38.397,-82.549
+25508,37.962,-82.007
+25510,38.382,-82.083
+25511,38.051,-82.335
+25512,38.178,-82.304
+25514,38.078,-82.525
+25515,38.757,-82.147
+25517,38.11,-82.454
+25520,38.558,-82.178
+25521,38.227,-81.982
+25523,38.28,-82.065
+25524,38.022,-82.117
+25526,38.394,-81.991
+25529,38.16,-81.819
+25530,38.357,-82.58
+25534,38.084,-82.275
+25535,38.309,-82.435
+25537,38.533,-82.282
+25540,38.157,-82.139
+25541,38.481,-82.13
+25544,38.231,-82.11
+25545,38.459,-82.227
+25547,37.92,-81.945
+25550,38.863,-82.067
+25555,38.214,-82.55
+25557,38.1,-82.154
+25559,38.325,-82.229
+25560,38.447,-81.899
+25564,38.272,-81.901
+25565,38.121,-81.973
+25567,38.208,-81.894
+25570,38.227,-82.402
+25571,38.313,-82.156
+25573,38.232,-81.941
+25601,37.863,-82.009
+25606,37.765,-81.82
+25607,37.784,-81.772
+25608,37.575,-81.892
+25611,37.685,-81.872
+25612,37.764,-81.979
+25617,37.741,-81.807
+25621,37.65,-81.886
+25624,37.9,-81.981
+25625,37.819,-82.081
+25628,37.768,-81.862
+25630,37.788,-81.694
+25632,37.742,-81.948
+25634,37.728,-81.818
+25635,37.719,-81.872
+25637,37.852,-82.027
+25638,37.738,-82.054
+25639,37.881,-81.955
+25644,37.705,-82.022
+25646,37.847,-81.884
+25647,37.787,-81.984
+25649,37.875,-82.093
+25650,37.684,-81.788
+25651,37.586,-81.957
+25652,37.791,-82.045
+25653,37.824,-81.991
+25654,37.796,-81.874
+25661,37.711,-82.254
+25666,37.92,-82.294
+25667,37.706,-82.274
+25669,37.935,-82.468
+25670,37.738,-82.156
+25671,37.904,-82.203
+25672,37.57,-82.1
+25674,37.871,-82.347
+25676,37.838,-82.193
+25678,37.612,-82.135
+25685,37.796,-82.314
+25688,37.64,-82.158
+25690,37.691,-82.155
+25692,37.618,-82.074
+25696,37.663,-82.055
+25699,37.959,-82.304
+25701,38.366,-82.405
+25702,38.435,-82.314
+25703,38.422,-82.418
+25704,38.308,-82.487
+25705,38.406,-82.363
+25755,38.424,-82.428
+25801,37.841,-81.271
+25810,37.583,-81.35
+25811,37.59,-81.291
+25812,38.139,-81.126
+25813,37.784,-81.1
+25817,37.764,-81.425
+25818,37.86,-81.192
+25820,37.515,-81.164
+25823,37.666,-81.183
+25825,37.644,-81.083
+25826,37.573,-81.37
+25827,37.739,-81.255
+25831,37.959,-80.931
+25832,37.715,-81.119
+25836,37.786,-81.288
+25837,38.058,-81.038
+25839,37.778,-81.387
+25840,38.042,-81.111
+25841,37.561,-81.093
+25843,37.624,-81.13
+25844,37.808,-81.358
+25845,37.715,-81.511
+25846,37.926,-81.168
+25848,37.722,-81.425
+25849,37.732,-81.278
+25851,37.803,-81.259
+25853,37.644,-81.282
+25854,38.128,-80.976
+25855,37.94,-81.153
+25857,37.61,-81.238
+25862,38.088,-81.04
+25864,37.885,-81.038
+25865,37.712,-81.362
+25866,38.01,-81.159
+25868,38.07,-80.967
+25870,37.638,-81.373
+25871,37.769,-81.212
+25873,37.75,-81.214
+25875,37.666,-81.451
+25876,37.631,-81.449
+25878,37.705,-81.222
+25879,37.982,-81.106
+25880,37.879,-81.199
+25882,37.612,-81.404
+25901,37.94,-81.103
+25902,37.57,-81.217
+25904,37.916,-81.246
+25907,37.856,-81.086
+25908,37.668,-81.244
+25909,37.839,-81.203
+25911,37.752,-81.18
+25913,37.708,-81.473
+25915,37.618,-81.291
+25916,37.678,-81.49
+25917,37.985,-81.253
+25918,37.74,-81.036
+25920,37.686,-81.336
+25921,37.683,-81.266
+25922,37.472,-81.103
+25928,37.541,-81.34
+25932,37.752,-81.3
+25936,37.926,-81.034
+25938,38.163,-81.03
+25942,38.018,-80.985
+25943,37.597,-81.349
+25951,37.655,-80.876
+25958,38.004,-80.767
+25962,37.986,-80.799
+25966,37.806,-80.756
+25969,37.611,-81.005
+25971,37.477,-80.977
+25972,38.032,-80.707
+25976,37.841,-80.867
+25977,37.798,-80.907
+25978,37.633,-80.941
+25979,37.511,-80.913
+25981,38.071,-80.698
+25984,38.016,-80.607
+25985,37.757,-80.833
+25986,37.9,-80.824
+25989,37.679,-81.037
+26003,40.069,-80.651
+26030,40.223,-80.658
+26031,39.999,-80.706
+26032,40.184,-80.553
+26033,39.828,-80.579
+26034,40.598,-80.552
+26035,40.345,-80.554
+26036,39.978,-80.554
+26037,40.335,-80.586
+26038,39.965,-80.724
+26039,39.799,-80.674
+26040,39.984,-80.731
+26041,39.887,-80.705
+26047,40.532,-80.586
+26050,40.608,-80.621
+26055,39.762,-80.78
+26056,40.517,-80.57
+26058,40.187,-80.662
+26059,40.057,-80.605
+26060,40.105,-80.545
+26062,40.421,-80.558
+26070,40.26,-80.58
+26074,40.167,-80.595
+26075,40.196,-80.65
+26101,39.226,-81.584
+26104,39.278,-81.476
+26105,39.33,-81.515
+26133,39.115,-81.663
+26134,39.381,-81.274
+26136,38.961,-81.118
+26137,38.996,-81.049
+26138,39.028,-81.146
+26141,38.934,-81.246
+26142,39.215,-81.455
+26143,39.056,-81.373
+26146,39.457,-81.037
+26147,38.914,-81.076
+26148,39.058,-81.183
+26149,39.472,-80.886
+26150,39.135,-81.535
+26151,38.895,-81.182
+26152,38.979,-81.178
+26155,39.63,-80.764
+26159,39.607,-80.932
+26160,38.981,-81.412
+26161,39.16,-81.246
+26162,39.569,-80.767
+26164,39.013,-81.695
+26167,39.532,-80.723
+26169,39.072,-81.572
+26170,39.362,-81.178
+26175,39.537,-80.975
+26178,39.063,-81.027
+26180,39.195,-81.366
+26181,39.209,-81.664
+26184,39.295,-81.353
+26187,39.366,-81.447
+26201,39.002,-80.197
+26202,38.232,-80.622
+26203,38.548,-80.588
+26205,38.321,-80.646
+26206,38.32,-80.413
+26208,38.35,-80.584
+26209,38.376,-80.08
+26210,38.903,-80.278
+26215,38.722,-80.365
+26217,38.611,-80.447
+26218,38.845,-80.268
+26222,38.66,-80.343
+26224,38.745,-80.175
+26228,38.754,-80.371
+26230,38.627,-80.206
+26234,38.766,-80.308
+26236,38.718,-80.231
+26237,38.848,-80.151
+26238,39.102,-80.158
+26241,38.916,-79.792
+26250,39.03,-79.97
+26253,38.806,-79.843
+26254,38.962,-79.63
+26257,38.923,-80.012
+26259,38.825,-79.915
+26260,39.083,-79.412
+26261,38.189,-80.501
+26263,38.957,-79.436
+26264,38.589,-79.823
+26266,38.438,-80.497
+26267,38.926,-80.081
+26268,38.715,-79.823
+26269,39.117,-79.652
+26270,38.812,-79.6
+26271,39.024,-79.504
+26273,38.634,-79.961
+26275,38.987,-79.95
+26276,39.034,-79.733
+26278,38.826,-80.025
+26280,38.717,-80.038
+26282,38.52,-80.146
+26283,39.058,-79.823
+26285,38.91,-79.949
+26287,39.166,-79.688
+26288,38.515,-80.347
+26289,38.99,-79.513
+26291,38.441,-80.086
+26292,39.142,-79.534
+26293,38.782,-79.937
+26294,38.534,-80.023
+26296,38.764,-79.554
+26298,38.456,-80.286
+26301,39.286,-80.373
+26320,39.404,-80.812
+26321,39.052,-80.694
+26323,39.262,-80.291
+26325,39.099,-80.905
+26327,39.123,-80.943
+26330,39.289,-80.222
+26335,38.844,-80.684
+26337,39.23,-81.161
+26338,39.091,-80.628
+26339,39.422,-80.614
+26342,39.034,-80.855
+26343,38.822,-80.402
+26346,39.29,-81.06
+26347,39.264,-80.126
+26348,39.462,-80.545
+26349,39.227,-80.111
+26351,38.926,-80.838
+26354,39.354,-80.019
+26361,39.365,-80.318
+26362,39.155,-81.054
+26366,39.383,-80.335
+26369,39.335,-80.331
+26372,38.959,-80.347
+26374,39.452,-79.875
+26376,38.776,-80.469
+26377,39.496,-80.647
+26378,39.124,-80.448
+26384,38.975,-80.722
+26385,39.16,-80.352
+26386,39.402,-80.393
+26404,39.336,-80.307
+26405,39.222,-79.9
+26408,39.197,-80.306
+26410,39.405,-79.808
+26411,39.177,-80.723
+26412,38.897,-80.583
+26415,39.288,-80.939
+26416,39.157,-80.024
+26419,39.598,-80.635
+26421,39.182,-80.924
+26422,39.298,-80.433
+26424,39.281,-80.173
+26425,39.3,-79.692
+26426,39.287,-80.564
+26430,38.895,-80.759
+26431,39.391,-80.281
+26435,39.267,-80.085
+26436,39.297,-80.719
+26437,39.526,-80.509
+26438,39.343,-80.316
+26440,39.322,-79.919
+26443,39.076,-80.753
+26444,39.375,-79.77
+26447,38.912,-80.479
+26448,39.403,-80.491
+26451,39.204,-80.403
+26452,39.037,-80.528
+26456,39.263,-80.774
+26463,39.437,-80.346
+26501,39.634,-80.037
+26505,39.653,-79.946
+26506,39.647,-79.97
+26508,39.601,-79.903
+26519,39.569,-79.627
+26520,39.502,-79.824
+26521,39.713,-80.228
+26524,39.541,-79.807
+26525,39.654,-79.626
+26534,39.649,-79.999
+26537,39.488,-79.71
+26541,39.695,-80.125
+26542,39.575,-79.783
+26543,39.665,-80
+26544,39.712,-80.171
+26546,39.662,-80.024
+26547,39.511,-79.806
+26554,39.465,-80.11
+26559,39.515,-80.177
+26560,39.541,-80.144
+26562,39.642,-80.444
+26563,39.481,-80.274
+26568,39.422,-80.278
+26570,39.636,-80.243
+26571,39.527,-80.262
+26572,39.486,-80.316
+26574,39.561,-80.178
+26575,39.693,-80.424
+26576,39.493,-80.255
+26581,39.67,-80.575
+26582,39.529,-80.38
+26585,39.601,-80.436
+26586,39.527,-80.11
+26587,39.517,-80.299
+26588,39.579,-80.144
+26590,39.669,-80.312
+26591,39.452,-80.296
+26601,38.617,-80.623
+26610,38.468,-80.705
+26611,38.853,-80.823
+26615,38.826,-80.735
+26617,38.516,-80.84
+26619,38.752,-80.705
+26621,38.69,-80.506
+26623,38.656,-80.872
+26624,38.721,-80.819
+26627,38.752,-80.585
+26629,38.564,-80.704
+26631,38.807,-80.568
+26636,38.744,-80.958
+26638,38.768,-80.999
+26651,38.265,-80.994
+26656,38.25,-81.177
+26660,38.356,-80.705
+26662,38.258,-80.772
+26667,38.245,-81
+26671,38.334,-80.887
+26676,38.16,-80.648
+26678,38.179,-80.916
+26679,38.174,-80.805
+26680,38.093,-80.873
+26681,38.233,-80.732
+26684,38.158,-80.853
+26690,38.175,-81.089
+26691,38.394,-80.671
+26704,39.286,-78.602
+26705,39.323,-79.568
+26707,39.209,-79.403
+26710,39.302,-78.968
+26711,39.322,-78.451
+26714,39.178,-78.645
+26716,39.253,-79.529
+26717,39.334,-79.183
+26719,39.498,-78.767
+26720,39.278,-79.331
+26722,39.497,-78.63
+26726,39.403,-78.985
+26731,39.15,-79.064
+26739,39.215,-79.26
+26743,39.294,-79.075
+26750,39.477,-79.045
+26753,39.561,-78.768
+26755,39.17,-78.744
+26757,39.321,-78.768
+26761,39.271,-78.695
+26763,39.473,-78.699
+26764,39.447,-79.564
+26767,39.616,-78.757
+26801,39.059,-78.794
+26802,38.651,-79.191
+26804,38.682,-79.53
+26807,38.639,-79.355
+26808,39.153,-78.469
+26810,38.995,-78.754
+26812,38.886,-78.878
+26814,38.781,-79.476
+26815,38.494,-79.364
+26817,39.374,-78.402
+26818,39.088,-79.016
+26823,39.128,-78.495
+26833,39.099,-79.202
+26836,38.998,-78.975
+26838,38.809,-79.058
+26845,39.165,-78.964
+26847,38.955,-79.151
+26851,39.047,-78.611
+26852,39.245,-78.911
+26855,38.975,-79.221
+26865,39.206,-78.512
+26866,38.804,-79.249
+26884,38.846,-79.385
+26886,38.905,-79.396
+27006,35.939,-80.44
+27007,36.39,-80.588
+27009,36.231,-80.079
+27011,36.221,-80.693
+27012,36.013,-80.378
+27013,35.75,-80.7
+27014,35.81,-80.556
+27016,36.447,-80.219
+27017,36.382,-80.756
+27018,36.197,-80.518
+27019,36.287,-80.238
+27020,36.113,-80.811
+27021,36.32,-80.345
+27022,36.512,-80.216
+27023,36.094,-80.45
+27024,36.519,-80.841
+27025,36.378,-79.968
+27027,36.442,-79.989
+27028,35.927,-80.571
+27030,36.49,-80.629
+27040,36.169,-80.393
+27041,36.415,-80.485
+27042,36.353,-80.064
+27043,36.339,-80.449
+27045,36.234,-80.296
+27046,36.502,-80.078
+27047,36.314,-80.569
+27048,36.483,-79.918
+27050,36.226,-80.41
+27051,36.196,-80.153
+27052,36.321,-80.15
+27053,36.476,-80.362
+27054,35.793,-80.598
+27055,36.114,-80.631
+27101,36.111,-80.2
+27103,36.058,-80.321
+27104,36.091,-80.332
+27105,36.162,-80.234
+27106,36.144,-80.323
+27107,36.013,-80.175
+27109,36.134,-80.275
+27110,36.089,-80.225
+27127,36.021,-80.28
+27201,36.034,-79.485
+27202,36.186,-79.506
+27203,35.728,-79.787
+27205,35.638,-79.851
+27207,35.608,-79.391
+27208,35.562,-79.543
+27209,35.343,-79.753
+27212,36.481,-79.28
+27213,35.649,-79.408
+27214,36.206,-79.671
+27215,36.019,-79.514
+27217,36.191,-79.38
+27229,35.24,-79.792
+27231,36.195,-79.175
+27233,35.893,-79.705
+27235,36.1,-80.007
+27239,35.601,-80.09
+27242,35.33,-79.649
+27243,36.061,-79.202
+27244,36.216,-79.487
+27247,35.461,-79.788
+27248,35.783,-79.716
+27249,36.163,-79.582
+27252,35.56,-79.355
+27253,35.966,-79.347
+27256,35.56,-79.275
+27258,36.083,-79.351
+27259,35.491,-79.526
+27260,35.954,-79.987
+27262,35.963,-80.042
+27263,35.912,-79.937
+27265,36.009,-80.032
+27268,35.971,-79.995
+27278,36.09,-79.087
+27281,35.187,-79.625
+27282,35.996,-79.932
+27283,35.951,-79.635
+27284,36.116,-80.082
+27288,36.498,-79.75
+27291,36.418,-79.168
+27292,35.738,-80.208
+27295,35.868,-80.317
+27298,35.885,-79.568
+27299,35.753,-80.377
+27301,36.114,-79.666
+27302,36.136,-79.263
+27305,36.516,-79.217
+27306,35.225,-79.98
+27310,36.174,-79.992
+27311,36.48,-79.473
+27312,35.756,-79.21
+27313,35.931,-79.758
+27314,36.31,-79.196
+27315,36.51,-79.404
+27316,35.697,-79.626
+27317,35.841,-79.802
+27320,36.341,-79.659
+27325,35.464,-79.566
+27326,36.464,-79.557
+27330,35.517,-79.183
+27332,35.372,-79.149
+27340,35.945,-79.31
+27341,35.524,-79.696
+27342,36.066,-79.619
+27343,36.504,-79.076
+27344,35.722,-79.434
+27349,35.895,-79.418
+27350,35.808,-79.888
+27351,35.66,-80.268
+27355,35.787,-79.568
+27356,35.437,-79.804
+27357,36.267,-79.971
+27358,36.228,-79.88
+27360,35.861,-80.099
+27370,35.809,-79.978
+27371,35.406,-79.948
+27374,35.918,-80.258
+27376,35.261,-79.522
+27377,36.038,-79.599
+27379,36.361,-79.348
+27401,36.071,-79.768
+27403,36.064,-79.825
+27405,36.115,-79.735
+27406,35.998,-79.767
+27407,36.013,-79.871
+27408,36.104,-79.814
+27409,36.072,-79.965
+27410,36.119,-79.895
+27411,36.077,-79.772
+27412,36.068,-79.81
+27455,36.187,-79.817
+27501,35.485,-78.685
+27502,35.72,-78.907
+27503,36.153,-78.884
+27504,35.4,-78.518
+27505,35.407,-79.004
+27506,35.409,-78.739
+27507,36.514,-78.552
+27508,35.959,-78.251
+27509,36.131,-78.774
+27510,35.91,-79.081
+27511,35.763,-78.788
+27513,35.802,-78.803
+27514,35.967,-79.052
+27516,35.906,-79.155
+27517,35.843,-79.032
+27518,35.731,-78.773
+27519,35.808,-78.887
+27520,35.612,-78.476
+27521,35.412,-78.656
+27522,36.106,-78.675
+27523,35.774,-78.957
+27524,35.392,-78.379
+27525,36.146,-78.474
+27526,35.544,-78.83
+27527,35.654,-78.382
+27529,35.641,-78.584
+27530,35.383,-78.061
+27531,35.344,-77.967
+27533,35.387,-78.039
+27534,35.369,-77.887
+27536,36.326,-78.407
+27537,36.359,-78.398
+27539,35.677,-78.813
+27540,35.622,-78.863
+27541,36.265,-79.083
+27542,35.618,-78.137
+27544,36.191,-78.44
+27545,35.784,-78.483
+27546,35.385,-78.862
+27549,36.1,-78.251
+27551,36.433,-78.05
+27553,36.486,-78.303
+27555,35.562,-78.204
+27556,36.397,-78.309
+27557,35.779,-78.199
+27559,35.628,-79.103
+27560,35.858,-78.827
+27562,35.642,-78.976
+27563,36.421,-78.221
+27565,36.362,-78.649
+27568,35.511,-78.243
+27569,35.429,-78.172
+27570,36.439,-78.237
+27571,35.925,-78.461
+27572,36.255,-78.877
+27573,36.399,-78.975
+27574,36.475,-78.842
+27576,35.578,-78.261
+27577,35.492,-78.345
+27581,36.203,-78.736
+27582,36.447,-78.569
+27583,36.31,-78.931
+27584,36.493,-78.446
+27587,35.981,-78.551
+27589,36.323,-78.133
+27591,35.784,-78.389
+27592,35.557,-78.672
+27593,35.586,-78.362
+27594,36.473,-78.166
+27596,36,-78.435
+27597,35.843,-78.301
+27599,35.904,-79.052
+27601,35.774,-78.635
+27603,35.665,-78.654
+27604,35.823,-78.562
+27605,35.79,-78.655
+27606,35.742,-78.715
+27607,35.818,-78.728
+27608,35.81,-78.649
+27609,35.844,-78.634
+27610,35.744,-78.546
+27612,35.85,-78.704
+27613,35.926,-78.711
+27614,35.946,-78.619
+27615,35.898,-78.636
+27616,35.867,-78.541
+27617,35.909,-78.772
+27695,35.785,-78.679
+27697,35.779,-78.623
+27701,35.999,-78.898
+27703,35.961,-78.805
+27704,36.042,-78.829
+27705,36.025,-78.982
+27707,35.955,-78.953
+27708,36,-78.943
+27709,35.92,-78.867
+27712,36.095,-78.904
+27713,35.883,-78.935
+27801,35.913,-77.726
+27803,35.891,-77.849
+27804,35.989,-77.843
+27805,36.209,-77.089
+27806,35.305,-76.756
+27807,35.811,-78.086
+27808,35.467,-76.76
+27809,36.017,-77.742
+27810,35.55,-76.512
+27812,35.805,-77.376
+27813,35.635,-77.938
+27814,35.38,-76.932
+27815,35.925,-77.693
+27816,36.109,-78.073
+27817,35.452,-77.081
+27818,36.5,-77.019
+27819,35.814,-77.457
+27820,36.422,-77.242
+27821,35.322,-76.874
+27822,35.807,-77.84
+27823,36.21,-77.714
+27824,35.552,-76.005
+27825,35.835,-77.171
+27826,35.595,-76.244
+27827,35.698,-77.512
+27828,35.585,-77.577
+27829,35.7,-77.606
+27830,35.564,-77.95
+27831,36.463,-77.571
+27832,36.52,-77.74
+27834,35.657,-77.38
+27837,35.514,-77.205
+27839,36.285,-77.557
+27840,35.93,-77.239
+27841,35.909,-77.276
+27842,36.527,-77.852
+27843,35.996,-77.4
+27844,36.243,-77.946
+27845,36.371,-77.44
+27846,35.759,-76.898
+27847,36.178,-77.202
+27849,36.077,-77.215
+27850,36.412,-77.88
+27851,35.64,-78.031
+27852,35.75,-77.637
+27853,36.515,-77.307
+27855,36.416,-77.069
+27856,36.014,-77.981
+27857,35.971,-77.261
+27858,35.532,-77.283
+27860,35.664,-76.635
+27861,35.817,-77.319
+27862,36.49,-77.188
+27863,35.488,-77.972
+27864,35.801,-77.649
+27865,35.664,-76.9
+27866,36.52,-77.515
+27869,36.267,-77.313
+27870,36.425,-77.695
+27871,35.802,-77.261
+27872,36.201,-77.246
+27873,35.653,-77.776
+27874,36.129,-77.411
+27875,35.456,-76.505
+27876,36.474,-77.405
+27877,36.519,-77.192
+27878,35.866,-77.831
+27879,35.574,-77.28
+27880,35.731,-78.081
+27881,35.97,-77.442
+27882,35.942,-78.118
+27883,35.592,-77.804
+27884,35.704,-77.267
+27885,35.42,-76.247
+27886,35.904,-77.512
+27888,35.596,-77.702
+27889,35.58,-77.025
+27890,36.414,-77.588
+27891,36.098,-77.743
+27892,35.819,-77.063
+27893,35.694,-77.904
+27896,35.791,-77.976
+27897,36.325,-77.21
+27909,36.289,-76.269
+27910,36.282,-76.993
+27915,35.337,-75.512
+27916,36.329,-75.92
+27917,36.355,-75.997
+27919,36.308,-76.504
+27920,35.253,-75.538
+27921,36.33,-76.148
+27922,36.317,-76.842
+27923,36.368,-75.931
+27924,36.168,-76.833
+27925,35.841,-76.173
+27926,36.505,-76.605
+27927,36.331,-75.851
+27928,35.809,-76.438
+27929,36.439,-76.016
+27932,36.094,-76.588
+27935,36.431,-76.868
+27936,35.248,-75.599
+27937,36.512,-76.774
+27938,36.384,-76.716
+27939,36.235,-75.88
+27941,36.092,-75.823
+27942,36.297,-76.751
+27943,35.208,-75.717
+27944,36.181,-76.403
+27946,36.364,-76.59
+27947,36.167,-75.854
+27948,36.019,-75.692
+27949,36.11,-75.745
+27950,36.501,-75.974
+27953,35.804,-75.875
+27954,35.913,-75.685
+27956,36.4,-76.001
+27957,36.066,-76.759
+27958,36.501,-76.173
+27959,35.892,-75.603
+27960,35.073,-75.999
+27962,35.762,-76.776
+27964,36.127,-75.804
+27965,36.292,-75.933
+27966,36.126,-75.848
+27967,36.222,-76.908
+27968,35.659,-75.489
+27969,36.463,-76.803
+27970,35.909,-76.62
+27972,35.552,-75.471
+27973,36.371,-76.056
+27974,36.243,-75.99
+27976,36.479,-76.336
+27978,35.672,-75.773
+27979,36.437,-76.561
+27980,36.245,-76.619
+27981,35.853,-75.637
+27982,35.566,-75.465
+27983,35.962,-76.936
+27985,36.219,-76.474
+27986,36.389,-76.918
+28001,35.339,-80.208
+28006,35.41,-81.092
+28007,35.122,-80.131
+28009,35.408,-80.107
+28012,35.212,-81.038
+28016,35.315,-81.283
+28017,35.247,-81.671
+28018,35.489,-81.803
+28019,35.284,-81.794
+28020,35.524,-81.643
+28021,35.401,-81.403
+28023,35.569,-80.603
+28024,35.243,-81.771
+28025,35.383,-80.523
+28027,35.413,-80.675
+28031,35.475,-80.894
+28032,35.233,-81.08
+28033,35.419,-81.328
+28034,35.354,-81.179
+28036,35.482,-80.793
+28037,35.495,-81.018
+28039,35.68,-80.436
+28040,35.39,-81.752
+28041,35.587,-80.463
+28042,35.423,-81.507
+28043,35.312,-81.87
+28052,35.228,-81.232
+28054,35.261,-81.15
+28056,35.217,-81.125
+28071,35.518,-80.316
+28072,35.613,-80.442
+28073,35.199,-81.484
+28074,35.239,-81.878
+28075,35.302,-80.639
+28076,35.256,-81.78
+28077,35.405,-81.203
+28078,35.405,-80.867
+28079,35.115,-80.601
+28080,35.457,-81.106
+28081,35.503,-80.67
+28083,35.492,-80.582
+28086,35.244,-81.378
+28088,35.544,-80.615
+28089,35.32,-81.661
+28090,35.455,-81.56
+28091,34.987,-79.933
+28092,35.483,-81.253
+28097,35.297,-80.393
+28098,35.271,-81.101
+28101,35.256,-81.075
+28102,34.815,-79.977
+28103,34.999,-80.351
+28104,35.058,-80.698
+28105,35.12,-80.71
+28107,35.253,-80.518
+28108,34.933,-80.679
+28109,35.483,-80.28
+28110,35.066,-80.509
+28112,34.89,-80.55
+28114,35.23,-81.748
+28115,35.575,-80.775
+28117,35.575,-80.894
+28119,34.848,-80.014
+28120,35.329,-81.026
+28124,35.4,-80.408
+28125,35.659,-80.699
+28127,35.45,-80.167
+28128,35.211,-80.155
+28129,35.232,-80.327
+28133,34.845,-80.266
+28134,35.084,-80.892
+28135,35.03,-80.217
+28136,35.421,-81.642
+28137,35.491,-80.264
+28138,35.514,-80.437
+28139,35.348,-81.995
+28144,35.716,-80.459
+28146,35.621,-80.396
+28147,35.681,-80.563
+28150,35.343,-81.576
+28152,35.241,-81.591
+28159,35.694,-80.435
+28160,35.361,-81.922
+28163,35.207,-80.428
+28164,35.389,-81.037
+28166,35.68,-80.869
+28167,35.506,-81.959
+28168,35.552,-81.425
+28169,35.358,-81.431
+28170,34.999,-80.099
+28173,34.919,-80.731
+28174,34.969,-80.44
+28202,35.227,-80.844
+28203,35.209,-80.858
+28204,35.215,-80.827
+28205,35.219,-80.79
+28206,35.255,-80.822
+28207,35.194,-80.825
+28208,35.232,-80.905
+28209,35.179,-80.854
+28210,35.131,-80.857
+28211,35.166,-80.797
+28212,35.188,-80.745
+28213,35.286,-80.735
+28214,35.272,-80.968
+28215,35.246,-80.699
+28216,35.31,-80.89
+28217,35.169,-80.908
+28223,35.309,-80.732
+28226,35.103,-80.822
+28227,35.19,-80.645
+28244,35.225,-80.843
+28262,35.322,-80.74
+28269,35.337,-80.803
+28270,35.112,-80.765
+28273,35.124,-80.948
+28274,35.189,-80.834
+28277,35.05,-80.818
+28278,35.133,-81.009
+28280,35.226,-80.843
+28282,35.225,-80.845
+28301,35.075,-78.884
+28303,35.086,-78.959
+28304,35.026,-78.99
+28305,35.053,-78.907
+28306,34.958,-78.897
+28307,35.14,-78.994
+28308,35.172,-79.015
+28310,35.125,-79.043
+28311,35.168,-78.889
+28312,34.948,-78.738
+28314,35.053,-79.015
+28315,35.115,-79.449
+28318,35.011,-78.624
+28320,34.558,-78.773
+28323,35.315,-78.834
+28325,35.153,-78.104
+28326,35.269,-79.155
+28327,35.358,-79.423
+28328,35.005,-78.334
+28330,34.911,-79.823
+28331,35.196,-78.649
+28332,34.655,-78.699
+28333,35.286,-78.017
+28334,35.272,-78.568
+28337,34.656,-78.572
+28338,35.099,-79.744
+28339,35.311,-78.733
+28340,34.471,-79.134
+28341,35.12,-78.174
+28342,35.186,-78.652
+28343,34.757,-79.565
+28344,35.168,-78.623
+28345,34.87,-79.666
+28347,35.053,-79.559
+28348,34.915,-78.927
+28349,34.981,-77.927
+28350,35.247,-79.315
+28351,34.848,-79.577
+28352,34.768,-79.454
+28355,35.391,-79.195
+28356,35.237,-78.79
+28357,34.902,-79.083
+28358,34.608,-78.935
+28359,34.587,-79.055
+28360,34.67,-79.075
+28362,34.37,-79.129
+28363,34.949,-79.53
+28364,34.708,-79.323
+28365,35.172,-78.052
+28366,35.23,-78.362
+28367,35.17,-79.723
+28368,35.369,-79.113
+28369,34.423,-79.029
+28371,34.911,-78.978
+28372,34.7,-79.179
+28373,35.093,-79.486
+28374,35.189,-79.459
+28375,34.477,-79.043
+28376,35.047,-79.241
+28377,34.836,-79.211
+28378,34.859,-79.051
+28379,34.929,-79.787
+28382,34.927,-78.56
+28383,34.578,-79.269
+28384,34.792,-78.941
+28385,35.048,-78.5
+28386,34.863,-79.128
+28387,35.18,-79.376
+28390,35.221,-78.953
+28391,35.034,-78.699
+28392,34.735,-78.795
+28393,34.981,-78.189
+28394,35.217,-79.242
+28395,35.13,-78.727
+28396,34.955,-79.414
+28398,34.99,-78.064
+28399,34.769,-78.72
+28401,34.292,-77.972
+28403,34.222,-77.881
+28405,34.264,-77.868
+28409,34.151,-77.86
+28411,34.302,-77.793
+28412,34.137,-77.921
+28420,34.055,-78.469
+28421,34.505,-78.167
+28422,34.049,-78.211
+28423,34.27,-78.405
+28424,34.29,-78.7
+28425,34.561,-77.9
+28428,34.039,-77.905
+28429,34.341,-77.9
+28430,34.284,-78.933
+28431,34.317,-78.845
+28432,34.168,-78.759
+28433,34.489,-78.617
+28434,34.472,-78.471
+28435,34.406,-78.109
+28436,34.247,-78.284
+28438,34.42,-78.914
+28439,34.287,-79.001
+28441,34.811,-78.427
+28442,34.31,-78.601
+28443,34.481,-77.693
+28444,34.688,-78.32
+28445,34.529,-77.536
+28447,34.619,-78.278
+28448,34.518,-78.36
+28449,33.973,-77.942
+28450,34.309,-78.497
+28451,34.236,-78.119
+28452,34.005,-78.556
+28453,34.866,-78.076
+28454,34.67,-77.654
+28455,34.112,-78.632
+28456,34.375,-78.287
+28457,34.456,-77.872
+28458,34.82,-78.081
+28460,34.523,-77.417
+28461,33.967,-78.058
+28462,34,-78.311
+28463,34.11,-78.776
+28464,34.782,-78.021
+28465,33.913,-78.1
+28466,34.741,-77.876
+28467,33.918,-78.592
+28468,33.9,-78.519
+28469,33.934,-78.473
+28470,33.967,-78.396
+28472,34.299,-78.691
+28478,34.643,-78.042
+28479,34.101,-78.017
+28480,34.215,-77.801
+28501,35.239,-77.527
+28504,35.227,-77.636
+28508,35.1,-77.825
+28509,35.146,-76.806
+28510,34.988,-76.804
+28511,34.901,-76.346
+28512,34.702,-76.807
+28513,35.443,-77.39
+28515,35.192,-76.689
+28516,34.856,-76.62
+28518,34.895,-77.747
+28519,35.128,-77.013
+28520,34.996,-76.467
+28521,34.818,-77.737
+28523,35.209,-77.3
+28524,34.794,-76.464
+28525,35.132,-77.687
+28526,35.245,-77.408
+28527,35.258,-77.018
+28528,34.732,-76.539
+28529,35.103,-76.879
+28530,35.374,-77.416
+28531,34.698,-76.556
+28532,34.905,-76.887
+28533,34.902,-76.901
+28537,35.257,-76.559
+28538,35.417,-77.565
+28539,34.694,-77.233
+28540,34.744,-77.499
+28542,34.73,-77.462
+28543,34.735,-77.398
+28544,34.696,-77.291
+28546,34.827,-77.391
+28547,34.631,-77.329
+28551,35.321,-77.781
+28552,35.298,-76.556
+28553,34.739,-76.51
+28554,35.476,-77.593
+28555,34.868,-77.248
+28556,35.133,-76.638
+28557,34.738,-76.75
+28560,35.127,-76.978
+28562,35.081,-77.125
+28570,34.777,-76.881
+28571,35.046,-76.704
+28572,35.02,-77.724
+28573,34.98,-77.198
+28574,34.879,-77.59
+28575,34.688,-76.881
+28577,34.907,-76.404
+28578,35.197,-77.857
+28579,34.813,-76.505
+28580,35.453,-77.68
+28581,34.844,-76.436
+28582,34.748,-77.15
+28584,34.724,-77.101
+28585,35.05,-77.418
+28586,35.324,-77.177
+28587,35.187,-76.667
+28589,34.796,-76.494
+28590,35.521,-77.417
+28594,34.701,-76.974
+28601,35.772,-81.327
+28602,35.674,-81.383
+28604,36.179,-81.85
+28605,36.13,-81.695
+28606,36.052,-81.307
+28607,36.215,-81.647
+28609,35.678,-81.057
+28610,35.729,-81.145
+28611,36.006,-81.737
+28612,35.65,-81.538
+28613,35.738,-81.208
+28615,36.475,-81.67
+28616,36.021,-81.93
+28617,36.481,-81.362
+28618,36.214,-81.517
+28619,35.76,-81.607
+28621,36.276,-80.786
+28622,36.195,-81.949
+28623,36.529,-80.973
+28624,36.12,-81.413
+28625,35.87,-80.89
+28626,36.293,-81.518
+28627,36.454,-81.014
+28628,35.729,-81.778
+28629,36.347,-81.359
+28630,35.832,-81.42
+28631,36.547,-81.41
+28634,35.973,-80.757
+28635,36.333,-81.126
+28636,35.939,-81.063
+28637,35.718,-81.419
+28638,35.845,-81.478
+28640,36.405,-81.399
+28641,35.975,-81.895
+28642,36.225,-80.815
+28643,36.529,-81.541
+28644,36.426,-81.278
+28645,35.979,-81.548
+28646,36.073,-81.847
+28649,36.336,-81.212
+28650,35.571,-81.158
+28651,36.306,-81.309
+28652,36.09,-81.987
+28653,36.066,-81.901
+28654,36.059,-81.159
+28655,35.763,-81.75
+28657,36.022,-81.942
+28658,35.638,-81.236
+28659,36.216,-81.148
+28660,35.969,-80.856
+28662,36.022,-81.892
+28663,36.537,-81.29
+28664,36.042,-82.006
+28665,36.21,-81.374
+28666,35.719,-81.471
+28667,35.775,-81.425
+28668,36.435,-80.982
+28669,36.223,-80.99
+28670,36.194,-80.912
+28671,35.75,-81.527
+28672,36.483,-81.327
+28673,35.618,-80.999
+28675,36.506,-81.136
+28676,36.332,-80.855
+28677,35.738,-80.926
+28678,35.833,-81.071
+28679,36.26,-81.84
+28681,35.923,-81.223
+28682,35.588,-80.965
+28683,36.39,-80.911
+28684,36.334,-81.607
+28685,36.347,-81.041
+28689,36.043,-80.933
+28690,35.733,-81.574
+28692,36.315,-81.838
+28693,36.472,-81.559
+28694,36.366,-81.468
+28697,36.137,-81.163
+28698,36.314,-81.761
+28701,35.705,-82.636
+28702,35.38,-83.642
+28704,35.461,-82.571
+28705,36.035,-82.151
+28707,35.399,-83.066
+28708,35.271,-82.86
+28709,35.771,-82.379
+28710,35.457,-82.28
+28711,35.601,-82.27
+28712,35.173,-82.771
+28713,35.366,-83.512
+28714,35.878,-82.305
+28715,35.512,-82.712
+28716,35.439,-82.848
+28717,35.05,-83.093
+28718,35.159,-82.635
+28719,35.511,-83.52
+28720,35.448,-82.262
+28721,35.634,-82.931
+28722,35.208,-82.061
+28723,35.314,-83.013
+28725,35.382,-83.268
+28726,35.281,-82.417
+28729,35.32,-82.603
+28730,35.531,-82.36
+28731,35.294,-82.38
+28732,35.452,-82.446
+28733,35.427,-83.777
+28734,35.179,-83.437
+28735,35.475,-82.349
+28736,35.176,-83.086
+28739,35.274,-82.529
+28740,36.026,-82.305
+28741,35.066,-83.211
+28742,35.383,-82.651
+28743,35.8,-82.881
+28745,35.522,-82.974
+28746,35.477,-82.162
+28747,35.146,-82.917
+28748,35.655,-82.76
+28749,35.841,-82.098
+28751,35.505,-83.12
+28752,35.71,-82.036
+28753,35.864,-82.713
+28754,35.877,-82.514
+28755,35.908,-82.218
+28756,35.356,-82.209
+28757,35.648,-82.299
+28758,35.375,-82.496
+28759,35.381,-82.589
+28761,35.69,-81.907
+28762,35.635,-82.19
+28763,35.029,-83.466
+28766,35.249,-82.619
+28768,35.325,-82.707
+28770,35.621,-82.278
+28771,35.343,-83.854
+28772,35.139,-82.837
+28773,35.261,-82.298
+28774,35.094,-82.995
+28775,35.019,-83.321
+28777,35.908,-82.065
+28778,35.614,-82.398
+28779,35.356,-83.21
+28781,35.224,-83.635
+28782,35.234,-82.147
+28783,35.242,-83.021
+28785,35.653,-83.14
+28786,35.462,-82.989
+28787,35.742,-82.516
+28788,35.351,-83.223
+28789,35.407,-83.317
+28790,35.198,-82.495
+28791,35.357,-82.507
+28792,35.394,-82.368
+28801,35.595,-82.558
+28803,35.532,-82.523
+28804,35.645,-82.558
+28805,35.614,-82.48
+28806,35.57,-82.617
+28901,35.201,-83.805
+28902,35.023,-83.958
+28904,35.069,-83.734
+28905,35.163,-83.941
+28906,35.087,-84.137
+28909,35.001,-83.903
+29001,33.787,-80.174
+29003,33.241,-81.024
+29006,33.869,-81.551
+29009,34.443,-80.365
+29010,34.224,-80.272
+29014,34.523,-81.115
+29015,34.445,-81.338
+29016,34.204,-80.993
+29018,33.349,-80.639
+29020,34.314,-80.574
+29030,33.576,-80.648
+29031,34.607,-81.429
+29032,34.337,-80.444
+29033,33.953,-81.055
+29036,34.134,-81.34
+29037,34.19,-81.868
+29038,33.381,-80.981
+29039,33.42,-80.892
+29040,34.061,-80.438
+29042,33.306,-81.148
+29044,33.926,-80.695
+29045,34.185,-80.805
+29046,34.113,-80.161
+29047,33.532,-80.58
+29048,33.391,-80.295
+29051,33.862,-80.128
+29052,33.798,-80.741
+29053,33.828,-81.091
+29054,33.948,-81.383
+29055,34.574,-80.915
+29056,33.609,-80.006
+29058,34.554,-80.75
+29059,33.329,-80.419
+29061,33.897,-80.851
+29062,34.004,-80.606
+29063,34.137,-81.202
+29065,34.298,-81.317
+29067,34.544,-80.537
+29069,34.18,-80.095
+29070,33.917,-81.449
+29072,33.999,-81.273
+29073,33.888,-81.239
+29074,34.441,-80.818
+29075,34.201,-81.378
+29078,34.182,-80.699
+29079,34.289,-80.113
+29080,34.012,-80.086
+29081,33.089,-81.047
+29082,33.038,-80.939
+29101,34.482,-80.245
+29102,33.654,-80.202
+29104,33.995,-80.212
+29105,33.806,-81.594
+29107,33.523,-81.118
+29108,34.306,-81.627
+29111,33.778,-80.021
+29112,33.625,-81.082
+29113,33.432,-81.135
+29114,33.954,-79.932
+29115,33.478,-80.844
+29117,33.498,-80.85
+29118,33.569,-80.889
+29122,34.239,-81.328
+29123,33.757,-81.261
+29125,33.696,-80.475
+29126,34.329,-81.419
+29127,34.153,-81.512
+29128,34.096,-80.532
+29129,33.789,-81.673
+29130,34.332,-80.88
+29133,33.359,-80.803
+29135,33.702,-80.751
+29137,33.596,-81.321
+29138,34.042,-81.776
+29142,33.465,-80.522
+29145,34.217,-81.807
+29146,33.508,-81.295
+29148,33.535,-80.336
+29150,33.819,-80.317
+29152,33.973,-80.467
+29153,33.971,-80.306
+29154,33.815,-80.435
+29160,33.747,-81.036
+29161,34.104,-79.943
+29162,33.89,-80.008
+29163,33.418,-80.446
+29164,33.658,-81.431
+29166,33.897,-81.712
+29168,33.848,-80.541
+29169,33.998,-81.097
+29170,33.939,-81.145
+29172,33.906,-81.076
+29175,34.443,-80.607
+29177,34.141,-81.268
+29178,34.496,-81.59
+29180,34.365,-81.099
+29201,33.982,-81.028
+29203,34.101,-81.041
+29204,34.029,-81
+29205,33.99,-80.997
+29206,34.029,-80.961
+29207,34.042,-80.846
+29208,33.998,-81.027
+29209,33.927,-80.95
+29210,34.045,-81.11
+29212,34.078,-81.202
+29223,34.093,-80.919
+29225,33.995,-81.03
+29229,34.146,-80.894
+29301,34.935,-82.015
+29302,34.884,-81.844
+29303,34.995,-81.968
+29306,34.893,-81.922
+29307,34.983,-81.832
+29316,35.043,-81.975
+29320,34.959,-81.993
+29321,34.715,-81.741
+29322,35.121,-82.132
+29323,35.126,-81.907
+29324,34.991,-81.824
+29325,34.468,-81.845
+29329,34.992,-81.836
+29330,35.053,-81.804
+29331,34.644,-81.858
+29332,34.279,-81.97
+29333,34.971,-81.911
+29334,34.906,-82.124
+29335,34.659,-81.907
+29338,35.134,-82.002
+29340,34.972,-81.586
+29341,35.12,-81.713
+29346,34.945,-81.836
+29349,35.067,-82.068
+29351,34.421,-81.808
+29353,34.831,-81.649
+29355,34.363,-81.748
+29356,35.147,-82.261
+29360,34.488,-82.046
+29364,34.788,-81.462
+29365,34.981,-82.172
+29368,35.083,-81.863
+29369,34.866,-82.019
+29370,34.373,-81.977
+29372,34.902,-81.712
+29373,34.924,-81.743
+29374,34.789,-81.845
+29375,34.861,-82.114
+29376,34.811,-81.944
+29377,34.931,-82.097
+29378,34.967,-81.969
+29379,34.688,-81.602
+29384,34.34,-82.09
+29385,34.973,-82.101
+29388,34.763,-82.046
+29401,32.777,-79.932
+29403,32.803,-79.946
+29404,32.898,-80.052
+29405,32.852,-79.98
+29406,32.937,-80.035
+29407,32.799,-79.998
+29409,32.797,-79.961
+29410,32.938,-80.015
+29412,32.712,-79.952
+29414,32.843,-80.105
+29418,32.91,-80.095
+29420,32.932,-80.1
+29424,32.785,-79.938
+29425,32.785,-79.948
+29426,32.772,-80.374
+29429,32.989,-79.696
+29431,33.271,-79.882
+29432,33.228,-80.814
+29434,33.141,-79.844
+29435,32.953,-80.466
+29436,33.315,-80.187
+29437,33.135,-80.418
+29438,32.566,-80.322
+29439,32.653,-79.952
+29440,33.381,-79.33
+29445,32.997,-79.967
+29446,32.589,-80.511
+29448,33.256,-80.453
+29449,32.7,-80.281
+29450,33.087,-79.772
+29451,32.828,-79.75
+29452,32.718,-80.471
+29453,33.223,-79.607
+29455,32.684,-80.092
+29456,32.984,-80.113
+29458,33.119,-79.486
+29461,33.171,-80.009
+29464,32.819,-79.857
+29466,32.876,-79.784
+29468,33.427,-80.08
+29469,33.244,-80.131
+29470,32.814,-80.21
+29471,33.193,-80.67
+29472,33.055,-80.325
+29474,32.903,-80.524
+29475,32.967,-80.819
+29477,33.163,-80.565
+29479,33.381,-79.891
+29481,33.12,-80.793
+29482,32.771,-79.831
+29483,33.03,-80.234
+29485,32.933,-80.207
+29486,33.103,-80.167
+29487,32.658,-80.184
+29488,32.907,-80.673
+29492,32.91,-79.88
+29493,33.045,-80.843
+29501,34.205,-79.827
+29505,34.13,-79.689
+29506,34.21,-79.65
+29510,33.454,-79.613
+29511,33.976,-79.122
+29512,34.619,-79.718
+29516,34.443,-79.615
+29518,33.795,-79.847
+29519,34.016,-79.36
+29520,34.688,-79.93
+29525,34.563,-79.515
+29526,33.868,-78.977
+29527,33.785,-79.14
+29530,33.996,-79.74
+29532,34.283,-79.85
+29536,34.419,-79.372
+29540,34.384,-79.85
+29541,34.065,-79.741
+29543,34.288,-79.266
+29544,34.002,-79.221
+29545,34.164,-78.966
+29546,33.884,-79.349
+29547,34.488,-79.328
+29550,34.393,-80.077
+29554,33.703,-79.392
+29555,33.841,-79.458
+29556,33.668,-79.763
+29560,33.839,-79.75
+29563,34.353,-79.209
+29564,33.476,-79.856
+29565,34.358,-79.499
+29566,33.889,-78.659
+29567,34.561,-79.433
+29568,33.914,-78.75
+29569,34.033,-78.912
+29570,34.668,-79.563
+29571,34.135,-79.425
+29572,33.77,-78.792
+29574,34.165,-79.261
+29575,33.629,-78.97
+29576,33.57,-79.054
+29577,33.698,-78.906
+29579,33.766,-78.913
+29580,33.653,-79.552
+29581,34.195,-79.114
+29582,33.832,-78.655
+29583,33.978,-79.571
+29584,34.576,-80.054
+29585,33.556,-79.089
+29588,33.671,-79.023
+29589,34.101,-79.32
+29590,33.569,-79.849
+29591,33.938,-79.762
+29592,34.245,-79.454
+29593,34.493,-79.857
+29594,34.64,-79.577
+29596,34.736,-79.851
+29601,34.847,-82.402
+29605,34.778,-82.38
+29607,34.81,-82.329
+29609,34.913,-82.388
+29611,34.831,-82.458
+29613,34.924,-82.44
+29614,34.874,-82.363
+29615,34.857,-82.296
+29617,34.914,-82.466
+29620,34.182,-82.426
+29621,34.506,-82.604
+29624,34.436,-82.624
+29625,34.556,-82.766
+29626,34.461,-82.757
+29627,34.519,-82.48
+29628,34.088,-82.564
+29630,34.739,-82.799
+29631,34.682,-82.818
+29634,34.676,-82.835
+29635,35.076,-82.635
+29638,34.364,-82.338
+29639,34.304,-82.429
+29640,34.878,-82.575
+29642,34.777,-82.564
+29643,34.508,-82.975
+29644,34.666,-82.195
+29645,34.588,-82.127
+29646,34.136,-82.148
+29649,34.239,-82.145
+29650,34.898,-82.258
+29651,35.024,-82.28
+29653,34.306,-82.232
+29654,34.456,-82.37
+29655,34.265,-82.632
+29657,34.767,-82.687
+29658,34.772,-83.303
+29659,34.212,-82.645
+29661,35.057,-82.555
+29662,34.779,-82.303
+29664,34.861,-83.158
+29665,34.725,-82.915
+29666,34.113,-81.98
+29667,34.764,-82.757
+29669,34.639,-82.413
+29670,34.644,-82.723
+29671,34.944,-82.721
+29672,34.752,-82.932
+29673,34.72,-82.455
+29676,34.954,-82.985
+29678,34.634,-82.937
+29680,34.685,-82.294
+29681,34.768,-82.225
+29682,34.836,-82.853
+29683,35.03,-82.493
+29684,34.379,-82.719
+29685,34.983,-82.845
+29686,34.958,-83.053
+29687,34.987,-82.327
+29689,34.537,-82.876
+29690,35.06,-82.417
+29691,34.784,-83.077
+29692,34.412,-82.219
+29693,34.642,-83.155
+29696,34.781,-83.008
+29697,34.626,-82.549
+29702,35.116,-81.473
+29704,34.832,-80.91
+29706,34.716,-81.235
+29707,34.988,-80.858
+29708,35.048,-80.987
+29709,34.719,-80.099
+29710,35.106,-81.221
+29712,34.798,-80.976
+29714,34.712,-80.914
+29715,35.011,-80.927
+29717,34.951,-81.449
+29718,34.63,-80.358
+29720,34.745,-80.743
+29724,34.775,-81.013
+29726,34.861,-81.236
+29727,34.719,-80.265
+29728,34.765,-80.401
+29729,34.689,-81.007
+29730,34.89,-81.018
+29732,34.971,-81.081
+29733,34.939,-81.032
+29741,34.725,-80.196
+29742,34.87,-81.392
+29743,35.026,-81.423
+29745,34.991,-81.214
+29801,33.586,-81.692
+29803,33.453,-81.702
+29805,33.642,-81.614
+29809,33.416,-81.689
+29810,32.986,-81.378
+29812,33.214,-81.383
+29816,33.502,-81.873
+29817,33.37,-81.271
+29819,34.044,-82.227
+29821,33.637,-82.115
+29824,33.815,-81.994
+29826,33.385,-81.36
+29827,32.97,-81.242
+29828,33.523,-81.83
+29829,33.575,-81.858
+29831,33.339,-81.864
+29832,33.839,-81.804
+29834,33.518,-81.843
+29835,33.921,-82.295
+29836,33.085,-81.496
+29838,33.747,-82.151
+29840,33.997,-82.543
+29841,33.526,-81.939
+29842,33.457,-81.861
+29843,33.182,-81.18
+29844,33.785,-82.214
+29845,33.826,-82.213
+29847,33.704,-81.847
+29848,33.972,-82.06
+29849,33.104,-81.238
+29851,33.511,-81.816
+29853,33.399,-81.432
+29856,33.485,-81.512
+29860,33.615,-81.984
+29899,33.928,-82.251
+29902,32.318,-80.682
+29904,32.479,-80.722
+29905,32.355,-80.7
+29906,32.445,-80.753
+29907,32.475,-80.599
+29909,32.337,-80.848
+29910,32.218,-80.895
+29911,32.929,-81.155
+29912,32.585,-80.928
+29915,32.119,-80.861
+29916,32.729,-80.959
+29918,32.744,-81.247
+29920,32.364,-80.554
+29921,32.687,-81.18
+29922,32.588,-81.28
+29923,32.848,-81.239
+29924,32.877,-81.111
+29926,32.237,-80.734
+29927,32.247,-81.058
+29928,32.167,-80.754
+29929,32.955,-80.924
+29932,32.833,-81.344
+29934,32.595,-81.113
+29935,32.383,-80.696
+29936,32.483,-80.966
+29939,32.681,-81.245
+29940,32.553,-80.678
+29941,32.535,-80.82
+29943,32.491,-81.147
+29944,32.796,-81.035
+29945,32.681,-80.796
+30002,33.773,-84.262
+30004,34.146,-84.292
+30005,34.089,-84.217
+30008,33.901,-84.591
+30009,34.078,-84.303
+30011,34.02,-83.837
+30012,33.718,-84.003
+30013,33.643,-83.972
+30014,33.587,-83.822
+30016,33.517,-83.929
+30017,33.889,-83.964
+30018,33.717,-83.804
+30019,33.976,-83.884
+30021,33.808,-84.239
+30022,34.026,-84.247
+30024,34.063,-84.091
+30025,33.656,-83.696
+30028,34.293,-84.176
+30030,33.773,-84.291
+30032,33.741,-84.264
+30033,33.814,-84.284
+30034,33.691,-84.249
+30035,33.724,-84.204
+30038,33.666,-84.14
+30039,33.799,-84.034
+30040,34.223,-84.176
+30041,34.196,-84.097
+30043,34.01,-84.005
+30044,33.922,-84.069
+30045,33.937,-83.928
+30046,33.95,-83.993
+30047,33.87,-84.112
+30052,33.817,-83.897
+30054,33.678,-83.883
+30055,33.497,-83.75
+30056,33.492,-83.65
+30058,33.738,-84.107
+30060,33.92,-84.543
+30062,34.006,-84.473
+30064,33.94,-84.61
+30066,34.032,-84.505
+30067,33.934,-84.462
+30068,33.968,-84.432
+30070,33.573,-83.896
+30071,33.941,-84.207
+30072,33.791,-84.205
+30075,34.053,-84.392
+30076,34.029,-84.311
+30078,33.861,-84.018
+30079,33.792,-84.261
+30080,33.878,-84.502
+30082,33.855,-84.536
+30083,33.797,-84.193
+30084,33.854,-84.216
+30087,33.791,-84.098
+30088,33.756,-84.182
+30090,33.953,-84.548
+30092,33.972,-84.232
+30093,33.909,-84.179
+30094,33.613,-84.052
+30096,33.974,-84.145
+30097,34.026,-84.146
+30101,34.035,-84.707
+30102,34.102,-84.645
+30103,34.363,-84.92
+30104,34.089,-85.07
+30105,34.433,-85.172
+30106,33.833,-84.628
+30107,34.336,-84.345
+30108,33.532,-85.263
+30110,33.739,-85.135
+30111,33.832,-84.655
+30113,33.851,-85.205
+30114,34.244,-84.536
+30115,34.216,-84.402
+30116,33.539,-84.996
+30117,33.582,-85.132
+30118,33.573,-85.099
+30120,34.175,-84.86
+30121,34.212,-84.777
+30122,33.767,-84.641
+30124,34.134,-85.346
+30125,34.001,-85.277
+30126,33.815,-84.554
+30127,33.875,-84.699
+30132,33.978,-84.852
+30134,33.778,-84.781
+30135,33.672,-84.733
+30137,34.117,-84.766
+30139,34.432,-84.705
+30141,33.86,-84.77
+30143,34.463,-84.425
+30144,34.037,-84.591
+30145,34.246,-84.986
+30147,34.135,-85.222
+30148,34.46,-84.266
+30149,34.317,-85.22
+30152,33.992,-84.647
+30153,33.974,-85.053
+30157,33.885,-84.872
+30161,34.236,-85.174
+30165,34.316,-85.295
+30168,33.784,-84.588
+30170,33.433,-85.165
+30171,34.363,-84.727
+30173,34.133,-85.154
+30175,34.535,-84.527
+30176,33.771,-85.304
+30177,34.407,-84.374
+30178,34.095,-84.971
+30179,33.782,-85.015
+30180,33.719,-84.919
+30182,33.656,-85.249
+30183,34.339,-84.602
+30184,34.252,-84.741
+30185,33.52,-84.918
+30187,33.653,-84.856
+30188,34.124,-84.458
+30189,34.124,-84.571
+30204,33.056,-84.122
+30205,33.267,-84.475
+30206,33.096,-84.458
+30213,33.587,-84.624
+30214,33.49,-84.486
+30215,33.392,-84.456
+30216,33.229,-83.885
+30217,33.291,-85.138
+30218,33.12,-84.587
+30220,33.231,-84.825
+30222,33.037,-84.735
+30223,33.289,-84.28
+30224,33.204,-84.24
+30228,33.401,-84.308
+30229,33.228,-84.57
+30230,33.167,-84.92
+30233,33.295,-83.976
+30234,33.333,-84.025
+30236,33.52,-84.325
+30238,33.502,-84.382
+30240,33.037,-85.12
+30241,33.022,-84.956
+30248,33.35,-84.109
+30250,33.435,-84.306
+30251,33.198,-84.698
+30252,33.474,-84.057
+30253,33.454,-84.187
+30256,33.007,-84.31
+30257,33.143,-84.186
+30258,32.991,-84.47
+30259,33.266,-84.742
+30260,33.587,-84.334
+30263,33.388,-84.859
+30265,33.419,-84.713
+30268,33.546,-84.723
+30269,33.394,-84.569
+30272,33.623,-84.502
+30273,33.584,-84.271
+30274,33.557,-84.401
+30275,33.431,-84.868
+30276,33.263,-84.583
+30277,33.375,-84.649
+30281,33.557,-84.195
+30284,33.34,-84.289
+30285,32.988,-84.258
+30286,32.881,-84.333
+30288,33.653,-84.327
+30289,33.324,-84.634
+30290,33.476,-84.59
+30291,33.576,-84.544
+30292,33.168,-84.393
+30293,32.979,-84.596
+30294,33.637,-84.265
+30295,33.09,-84.318
+30296,33.563,-84.441
+30297,33.615,-84.372
+30303,33.753,-84.39
+30305,33.834,-84.392
+30306,33.788,-84.353
+30307,33.771,-84.334
+30308,33.771,-84.378
+30309,33.8,-84.386
+30310,33.727,-84.429
+30311,33.723,-84.476
+30312,33.745,-84.376
+30313,33.764,-84.398
+30314,33.758,-84.432
+30315,33.703,-84.383
+30316,33.717,-84.331
+30317,33.748,-84.316
+30318,33.793,-84.448
+30319,33.876,-84.335
+30322,33.795,-84.325
+30324,33.818,-84.358
+30326,33.85,-84.364
+30327,33.87,-84.417
+30328,33.933,-84.387
+30329,33.827,-84.322
+30331,33.705,-84.544
+30332,33.778,-84.404
+30334,33.749,-84.388
+30336,33.735,-84.569
+30337,33.64,-84.45
+30338,33.946,-84.318
+30339,33.868,-84.465
+30340,33.898,-84.253
+30341,33.889,-84.29
+30342,33.884,-84.375
+30344,33.677,-84.462
+30345,33.852,-84.284
+30346,33.924,-84.339
+30349,33.622,-84.524
+30350,33.98,-84.33
+30354,33.66,-84.387
+30360,33.934,-84.272
+30363,33.791,-84.399
+30401,32.605,-82.348
+30410,32.189,-82.513
+30411,32.124,-82.794
+30412,32.08,-82.486
+30413,32.885,-82.513
+30414,32.157,-81.99
+30415,32.324,-81.603
+30417,32.17,-81.921
+30420,32.307,-82.131
+30421,32.185,-82.111
+30423,32.146,-81.824
+30425,32.682,-82.095
+30426,33.047,-81.649
+30427,31.923,-81.962
+30428,32.225,-82.715
+30429,32.157,-81.935
+30434,33.025,-82.366
+30436,32.155,-82.293
+30439,32.417,-82.07
+30441,32.816,-82.237
+30442,32.816,-81.97
+30445,32.166,-82.581
+30446,32.563,-81.463
+30448,32.488,-82.363
+30449,32.525,-81.535
+30450,32.556,-81.927
+30451,32.393,-81.956
+30452,32.316,-81.892
+30453,32.026,-82.111
+30454,32.436,-82.73
+30455,32.698,-81.81
+30456,32.981,-81.796
+30457,32.4,-82.561
+30458,32.399,-81.829
+30460,32.427,-81.783
+30461,32.497,-81.723
+30464,32.437,-82.225
+30467,32.754,-81.604
+30470,32.359,-82.498
+30471,32.543,-82.181
+30473,32.015,-82.473
+30474,32.224,-82.414
+30477,32.863,-82.401
+30501,34.319,-83.814
+30504,34.267,-83.889
+30506,34.347,-83.896
+30507,34.265,-83.769
+30510,34.445,-83.571
+30511,34.45,-83.487
+30512,34.857,-83.968
+30513,34.821,-84.322
+30516,34.381,-83.031
+30517,34.13,-83.797
+30518,34.134,-84.023
+30519,34.087,-83.945
+30520,34.34,-83.083
+30521,34.362,-83.292
+30522,34.784,-84.344
+30523,34.713,-83.551
+30525,34.907,-83.369
+30527,34.481,-83.782
+30528,34.609,-83.776
+30529,34.217,-83.483
+30530,34.223,-83.394
+30531,34.513,-83.592
+30533,34.571,-84.014
+30534,34.431,-84.144
+30535,34.574,-83.575
+30536,34.652,-84.359
+30537,34.979,-83.331
+30538,34.501,-83.264
+30539,34.681,-84.47
+30540,34.728,-84.544
+30541,34.917,-84.518
+30542,34.18,-83.91
+30543,34.301,-83.654
+30545,34.762,-83.762
+30546,34.908,-83.718
+30547,34.362,-83.456
+30548,34.089,-83.764
+30549,34.108,-83.577
+30552,34.774,-83.471
+30553,34.444,-83.084
+30554,34.398,-83.662
+30555,34.969,-84.42
+30557,34.48,-83.185
+30558,34.264,-83.567
+30559,34.958,-84.274
+30560,34.877,-84.205
+30562,34.919,-83.384
+30563,34.559,-83.462
+30564,34.464,-83.889
+30565,34.086,-83.411
+30566,34.239,-83.897
+30567,34.181,-83.677
+30568,34.955,-83.411
+30571,34.716,-83.682
+30572,34.736,-84.073
+30573,34.741,-83.394
+30575,34.208,-83.713
+30576,34.835,-83.452
+30577,34.556,-83.329
+30581,34.796,-83.424
+30582,34.956,-83.91
+30597,34.528,-83.985
+30598,34.597,-83.354
+30601,33.999,-83.347
+30602,33.944,-83.374
+30605,33.904,-83.326
+30606,33.94,-83.434
+30607,34.017,-83.448
+30609,33.933,-83.372
+30619,33.856,-83.245
+30620,33.929,-83.758
+30621,33.797,-83.471
+30622,33.921,-83.531
+30623,33.729,-83.513
+30624,34.181,-83.038
+30625,33.52,-83.334
+30627,33.972,-82.964
+30628,34.032,-83.216
+30629,34.078,-83.11
+30630,33.9,-83.145
+30631,33.558,-82.866
+30633,34.181,-83.249
+30634,34.202,-82.942
+30635,34.106,-82.793
+30639,34.283,-83.152
+30641,33.77,-83.565
+30642,33.544,-83.184
+30643,34.365,-82.912
+30646,34.086,-83.303
+30648,33.871,-83.038
+30650,33.591,-83.468
+30655,33.78,-83.693
+30656,33.862,-83.716
+30660,33.783,-82.931
+30662,34.267,-83.138
+30663,33.616,-83.6
+30664,33.556,-82.798
+30665,33.537,-83.074
+30666,33.962,-83.585
+30667,33.797,-83.176
+30668,33.896,-82.697
+30669,33.676,-83.118
+30673,33.728,-82.716
+30677,33.783,-83.373
+30678,33.453,-83.066
+30680,33.995,-83.697
+30683,33.947,-83.257
+30701,34.494,-84.954
+30705,34.748,-84.748
+30707,34.779,-85.365
+30708,34.94,-84.668
+30710,34.939,-84.917
+30711,34.932,-84.769
+30720,34.734,-85.001
+30721,34.793,-84.909
+30724,34.825,-84.758
+30725,34.925,-85.353
+30726,34.975,-85.141
+30728,34.685,-85.226
+30730,34.364,-85.416
+30731,34.564,-85.472
+30733,34.415,-85.051
+30734,34.533,-84.715
+30735,34.603,-84.883
+30736,34.902,-85.134
+30738,34.797,-85.481
+30739,34.806,-85.216
+30740,34.757,-85.072
+30741,34.953,-85.281
+30742,34.936,-85.245
+30746,34.592,-85.033
+30747,34.504,-85.293
+30750,34.937,-85.388
+30751,34.985,-84.733
+30752,34.915,-85.538
+30753,34.582,-85.286
+30755,34.869,-85.041
+30756,34.901,-84.975
+30757,34.936,-85.442
+30802,33.601,-82.3
+30803,33.133,-82.549
+30805,33.28,-82.192
+30807,33.457,-82.649
+30808,33.384,-82.392
+30809,33.559,-82.171
+30810,33.232,-82.588
+30812,33.367,-82.029
+30813,33.467,-82.228
+30814,33.431,-82.319
+30815,33.285,-82.072
+30816,33.163,-82.176
+30817,33.778,-82.43
+30818,33.27,-82.326
+30820,33.222,-82.725
+30821,33.492,-82.738
+30822,32.919,-81.944
+30823,33.222,-82.456
+30824,33.513,-82.515
+30828,33.368,-82.656
+30830,33.085,-81.979
+30833,33.191,-82.353
+30901,33.437,-81.956
+30904,33.478,-82.014
+30905,33.411,-82.149
+30906,33.347,-81.968
+30907,33.524,-82.086
+30909,33.47,-82.083
+30912,33.47,-81.988
+31001,31.976,-83.34
+31002,32.554,-82.595
+31003,32.597,-83.223
+31004,32.952,-83.805
+31005,32.545,-83.594
+31006,32.581,-84.251
+31007,32.189,-83.927
+31008,32.665,-83.786
+31009,32.27,-83.001
+31011,32.131,-83.052
+31012,32.394,-83.174
+31014,32.416,-83.349
+31015,31.943,-83.779
+31016,32.829,-84.092
+31017,32.621,-83.232
+31018,32.976,-82.617
+31019,32.424,-83.051
+31020,32.654,-83.498
+31021,32.49,-82.935
+31022,32.512,-83.117
+31023,32.183,-83.199
+31024,33.323,-83.37
+31025,32.335,-83.741
+31027,32.572,-82.823
+31028,32.633,-83.684
+31029,33.044,-83.935
+31030,32.569,-83.892
+31031,32.866,-83.328
+31032,33.012,-83.573
+31033,33.079,-83.434
+31034,33.055,-83.226
+31035,32.854,-82.708
+31036,32.27,-83.493
+31037,32.122,-82.936
+31038,33.142,-83.621
+31039,32.604,-84.379
+31041,32.382,-84.168
+31042,32.744,-83.189
+31044,32.656,-83.391
+31045,33.283,-82.795
+31046,33.054,-83.796
+31047,32.467,-83.581
+31049,32.678,-82.523
+31050,32.722,-83.937
+31051,32.143,-83.879
+31052,32.789,-83.84
+31054,32.89,-83.214
+31055,31.986,-82.883
+31057,32.43,-83.944
+31058,32.489,-84.41
+31060,31.986,-83.056
+31061,33.059,-83.226
+31062,33.043,-83.216
+31063,32.289,-83.963
+31064,33.286,-83.702
+31065,32.564,-83.188
+31066,32.802,-83.978
+31067,32.852,-82.962
+31068,32.333,-84.111
+31069,32.44,-83.749
+31070,32.187,-83.79
+31071,32.129,-83.541
+31072,31.974,-83.567
+31075,32.361,-82.955
+31076,32.55,-84.105
+31077,31.942,-83.17
+31078,32.695,-84.076
+31079,31.943,-83.463
+31081,32.412,-84.284
+31082,32.996,-82.903
+31083,32.044,-82.822
+31084,31.962,-83.603
+31085,33.427,-83.628
+31087,33.251,-83.001
+31088,32.586,-83.655
+31089,32.851,-82.86
+31090,32.794,-83.048
+31091,32.238,-83.705
+31092,32.09,-83.783
+31093,32.648,-83.657
+31094,33.114,-82.796
+31096,32.723,-82.707
+31097,32.89,-84.167
+31098,32.615,-83.578
+31201,32.806,-83.618
+31204,32.849,-83.675
+31206,32.793,-83.685
+31207,32.829,-83.649
+31210,32.908,-83.735
+31211,32.904,-83.599
+31213,32.84,-83.639
+31216,32.732,-83.671
+31217,32.844,-83.5
+31220,32.884,-83.818
+31301,31.758,-81.605
+31302,32.126,-81.34
+31303,32.505,-81.313
+31305,31.368,-81.378
+31307,32.176,-81.398
+31308,32.18,-81.471
+31309,31.88,-81.441
+31312,32.319,-81.401
+31313,31.837,-81.617
+31314,31.907,-81.618
+31315,31.888,-81.606
+31316,31.719,-81.733
+31318,32.135,-81.372
+31320,31.766,-81.368
+31321,32.185,-81.66
+31322,32.102,-81.255
+31323,31.668,-81.454
+31324,31.85,-81.265
+31326,32.297,-81.223
+31327,31.423,-81.29
+31328,32.004,-80.891
+31329,32.427,-81.35
+31331,31.49,-81.422
+31333,31.768,-81.627
+31401,32.068,-81.093
+31404,32.051,-81.053
+31405,32.039,-81.179
+31406,31.98,-81.085
+31407,32.183,-81.198
+31408,32.104,-81.181
+31409,32.016,-81.145
+31410,32.015,-80.988
+31411,31.938,-81.034
+31415,32.081,-81.127
+31419,31.985,-81.237
+31421,32.087,-81.078
+31501,31.228,-82.348
+31503,31.177,-82.401
+31510,31.547,-82.434
+31512,31.546,-83.018
+31513,31.777,-82.346
+31516,31.309,-82.253
+31518,31.513,-82.185
+31519,31.668,-82.869
+31520,31.178,-81.488
+31522,31.257,-81.342
+31523,31.213,-81.617
+31524,31.241,-81.473
+31525,31.321,-81.526
+31527,31.075,-81.416
+31532,31.726,-82.746
+31533,31.563,-82.829
+31535,31.46,-82.867
+31537,30.927,-82.176
+31539,31.814,-82.602
+31542,31.143,-82.119
+31543,31.326,-81.87
+31544,31.84,-82.964
+31545,31.573,-81.991
+31546,31.53,-81.795
+31547,30.79,-81.535
+31548,30.796,-81.712
+31549,31.921,-82.73
+31550,31.147,-82.596
+31551,31.488,-82.267
+31552,31.29,-82.599
+31553,31.166,-81.982
+31554,31.486,-82.621
+31555,31.703,-82.069
+31556,31.405,-82.115
+31557,31.375,-82.099
+31558,30.802,-81.508
+31560,31.506,-82.03
+31561,31.199,-81.329
+31562,30.475,-82.104
+31563,31.738,-82.178
+31564,31.249,-82.471
+31565,31.071,-81.643
+31566,31.183,-81.806
+31567,31.631,-82.706
+31568,31.013,-81.819
+31569,30.934,-81.737
+31599,31.563,-81.902
+31601,30.776,-83.334
+31602,30.868,-83.342
+31605,30.933,-83.222
+31606,30.799,-83.18
+31620,31.117,-83.434
+31622,31.372,-83.199
+31623,31.071,-82.644
+31624,31.296,-82.73
+31625,30.989,-83.523
+31626,30.776,-83.803
+31627,31.04,-83.392
+31629,30.817,-83.689
+31630,30.924,-82.86
+31631,30.708,-82.644
+31632,30.986,-83.355
+31634,31.031,-82.733
+31635,31.097,-83.048
+31636,30.731,-83.111
+31637,31.296,-83.44
+31638,30.906,-83.512
+31639,31.213,-83.191
+31641,30.921,-83.094
+31642,31.263,-82.883
+31643,30.773,-83.557
+31645,31.061,-83.219
+31647,31.211,-83.432
+31648,30.708,-83.008
+31649,30.941,-83.014
+31650,31.37,-83.019
+31698,30.849,-83.29
+31699,30.97,-83.194
+31701,31.573,-84.155
+31704,31.55,-84.056
+31705,31.517,-84.043
+31707,31.587,-84.206
+31709,32.046,-84.15
+31711,32.188,-84.122
+31712,31.819,-83.719
+31714,31.708,-83.678
+31716,31.366,-84.111
+31719,32.09,-84.311
+31720,30.878,-83.725
+31721,31.525,-84.301
+31722,31.048,-83.611
+31727,31.418,-83.387
+31730,31.211,-84.281
+31733,31.593,-83.49
+31735,31.97,-83.973
+31738,31.008,-83.88
+31743,31.896,-84.007
+31744,31.34,-83.903
+31747,31.175,-83.585
+31749,31.421,-83.33
+31750,31.736,-83.215
+31753,31.2,-83.873
+31756,31.177,-83.962
+31757,30.871,-83.903
+31763,31.736,-84.148
+31764,31.976,-84.089
+31765,31.088,-84.027
+31768,31.189,-83.841
+31771,31.248,-83.654
+31772,31.724,-83.961
+31773,30.978,-84.046
+31774,31.565,-83.264
+31775,31.334,-83.599
+31778,30.975,-83.7
+31779,31.09,-84.192
+31780,32.028,-84.391
+31781,31.561,-83.796
+31783,31.759,-83.47
+31784,31.252,-84.048
+31787,31.896,-84.248
+31788,31.112,-83.684
+31789,31.483,-83.734
+31790,31.652,-83.578
+31791,31.529,-83.894
+31792,30.766,-84.043
+31793,31.462,-83.581
+31794,31.446,-83.453
+31795,31.435,-83.64
+31796,31.771,-83.875
+31798,31.644,-83.047
+31801,32.519,-84.595
+31803,32.307,-84.517
+31804,32.664,-84.878
+31805,32.263,-84.74
+31806,32.26,-84.3
+31807,32.645,-84.805
+31808,32.632,-85.011
+31810,32.568,-84.525
+31811,32.737,-84.937
+31812,32.635,-84.425
+31814,32.197,-84.865
+31815,32.042,-84.856
+31816,32.879,-84.601
+31820,32.576,-84.829
+31821,32.142,-84.975
+31822,32.865,-84.91
+31823,32.798,-84.811
+31824,32.058,-84.521
+31825,32.116,-84.671
+31826,32.8,-84.703
+31827,32.696,-84.504
+31829,32.566,-84.725
+31830,32.901,-84.729
+31831,32.667,-84.705
+31832,31.958,-84.615
+31833,32.843,-85.092
+31836,32.796,-84.535
+31901,32.464,-84.98
+31903,32.416,-84.953
+31904,32.554,-85.009
+31905,32.373,-84.843
+31906,32.468,-84.95
+31907,32.484,-84.9
+31909,32.549,-84.924
+32003,30.096,-81.71
+32008,29.908,-82.897
+32009,30.423,-81.974
+32011,30.57,-81.841
+32013,30.194,-83.291
+32024,30.092,-82.731
+32025,30.104,-82.566
+32026,30.059,-82.19
+32033,29.788,-81.447
+32034,30.602,-81.482
+32038,29.935,-82.692
+32040,30.247,-82.235
+32043,29.927,-81.744
+32044,29.858,-82.179
+32046,30.701,-81.917
+32052,30.491,-82.945
+32053,30.569,-83.152
+32054,30.034,-82.394
+32055,30.27,-82.624
+32058,30.108,-82.107
+32059,30.385,-83.256
+32060,30.274,-83.036
+32061,30.083,-82.517
+32062,30.137,-82.978
+32063,30.271,-82.12
+32064,30.293,-82.992
+32065,30.175,-81.872
+32066,30.04,-83.206
+32068,30.083,-81.884
+32071,30.058,-82.956
+32072,30.184,-82.423
+32073,30.168,-81.74
+32079,29.978,-81.807
+32080,29.817,-81.265
+32081,30.12,-81.427
+32082,30.112,-81.372
+32083,30.115,-82.233
+32084,29.914,-81.365
+32086,29.741,-81.3
+32087,30.365,-82.299
+32091,29.933,-82.113
+32092,29.929,-81.522
+32094,30.187,-82.822
+32095,30.028,-81.437
+32096,30.534,-82.627
+32097,30.662,-81.649
+32102,29.138,-81.523
+32110,29.445,-81.352
+32112,29.432,-81.566
+32113,29.41,-82.089
+32114,29.192,-81.047
+32117,29.233,-81.068
+32118,29.21,-81.002
+32119,29.161,-81.026
+32124,29.16,-81.159
+32127,29.108,-80.976
+32128,29.101,-81.072
+32129,29.137,-81.024
+32130,29.148,-81.341
+32131,29.678,-81.564
+32132,28.98,-80.921
+32133,29.012,-81.915
+32134,29.377,-81.828
+32136,29.464,-81.147
+32137,29.576,-81.224
+32139,29.377,-81.613
+32140,29.763,-81.867
+32141,28.929,-80.919
+32145,29.678,-81.421
+32147,29.635,-81.787
+32148,29.601,-81.883
+32157,29.462,-81.588
+32159,28.918,-81.898
+32162,28.922,-81.999
+32163,28.841,-81.959
+32164,29.481,-81.218
+32168,28.995,-81.024
+32169,28.976,-80.867
+32174,29.292,-81.161
+32176,29.335,-81.064
+32177,29.698,-81.703
+32179,29.095,-81.9
+32180,29.241,-81.443
+32181,29.508,-81.602
+32182,29.509,-81.941
+32187,29.579,-81.55
+32189,29.55,-81.648
+32190,29.338,-81.493
+32192,29.35,-82.111
+32193,29.477,-81.664
+32195,28.988,-81.886
+32202,30.325,-81.647
+32203,30.337,-81.671
+32204,30.317,-81.681
+32205,30.302,-81.723
+32206,30.351,-81.638
+32207,30.29,-81.641
+32208,30.393,-81.683
+32209,30.361,-81.696
+32210,30.265,-81.748
+32211,30.332,-81.583
+32212,30.223,-81.673
+32214,30.208,-81.683
+32216,30.281,-81.582
+32217,30.229,-81.621
+32218,30.488,-81.668
+32219,30.427,-81.815
+32220,30.335,-81.855
+32221,30.259,-81.878
+32222,30.209,-81.831
+32223,30.157,-81.649
+32224,30.27,-81.461
+32225,30.358,-81.506
+32226,30.481,-81.506
+32227,30.389,-81.404
+32228,30.392,-81.4
+32233,30.357,-81.417
+32234,30.226,-82.004
+32244,30.217,-81.753
+32246,30.291,-81.512
+32250,30.28,-81.412
+32254,30.341,-81.735
+32256,30.175,-81.472
+32257,30.189,-81.612
+32258,30.141,-81.552
+32259,30.074,-81.585
+32266,30.317,-81.409
+32277,30.377,-81.594
+32301,30.428,-84.258
+32303,30.512,-84.345
+32304,30.452,-84.353
+32305,30.35,-84.301
+32306,30.442,-84.294
+32307,30.422,-84.287
+32308,30.481,-84.22
+32309,30.581,-84.104
+32310,30.433,-84.392
+32311,30.39,-84.181
+32312,30.604,-84.243
+32313,30.443,-84.301
+32317,30.47,-84.117
+32320,29.732,-85.054
+32321,30.263,-84.998
+32322,29.864,-84.632
+32323,29.892,-84.614
+32324,30.655,-84.783
+32327,30.182,-84.303
+32328,29.8,-84.897
+32330,30.579,-84.748
+32331,30.455,-83.578
+32332,30.61,-84.665
+32333,30.608,-84.418
+32334,30.259,-84.758
+32336,30.263,-83.865
+32337,30.483,-84.021
+32340,30.449,-83.435
+32343,30.478,-84.505
+32344,30.445,-83.926
+32346,29.982,-84.381
+32347,30.151,-83.641
+32348,29.942,-83.557
+32350,30.575,-83.326
+32351,30.52,-84.675
+32352,30.662,-84.592
+32355,30.169,-84.209
+32356,29.859,-83.415
+32358,30.091,-84.541
+32359,29.65,-83.376
+32360,30.365,-84.812
+32361,30.358,-83.989
+32399,30.383,-84.231
+32401,30.158,-85.638
+32403,30.049,-85.553
+32404,30.185,-85.507
+32405,30.199,-85.669
+32407,30.198,-85.791
+32408,30.157,-85.755
+32409,30.341,-85.713
+32410,29.952,-85.428
+32413,30.306,-85.886
+32420,30.636,-85.382
+32421,30.521,-85.206
+32423,30.944,-85.049
+32424,30.391,-85.082
+32425,30.853,-85.72
+32426,30.954,-85.367
+32427,30.71,-85.792
+32428,30.616,-85.573
+32430,30.419,-85.226
+32431,30.787,-85.411
+32432,30.714,-85.077
+32433,30.851,-86.201
+32435,30.649,-86.13
+32437,30.436,-85.909
+32438,30.512,-85.415
+32439,30.483,-86.13
+32440,30.922,-85.526
+32442,30.687,-85.009
+32443,30.873,-85.109
+32444,30.238,-85.652
+32445,30.971,-85.197
+32446,30.848,-85.231
+32448,30.671,-85.223
+32449,30.268,-85.218
+32455,30.639,-85.963
+32456,29.815,-85.306
+32459,30.361,-86.186
+32460,30.764,-84.954
+32461,30.309,-86.054
+32462,30.562,-85.824
+32463,30.628,-85.587
+32464,30.881,-85.956
+32465,30.008,-85.182
+32466,30.388,-85.465
+32501,30.429,-87.223
+32502,30.409,-87.227
+32503,30.46,-87.214
+32504,30.473,-87.186
+32505,30.455,-87.261
+32506,30.392,-87.372
+32507,30.339,-87.378
+32508,30.351,-87.317
+32509,30.47,-87.34
+32511,30.406,-87.291
+32512,30.399,-87.299
+32514,30.532,-87.223
+32526,30.499,-87.366
+32530,30.597,-87.02
+32531,30.898,-86.693
+32533,30.613,-87.324
+32534,30.528,-87.286
+32535,30.964,-87.346
+32536,30.75,-86.598
+32539,30.779,-86.477
+32541,30.395,-86.479
+32542,30.508,-86.542
+32544,30.426,-86.719
+32547,30.466,-86.653
+32548,30.413,-86.589
+32550,30.381,-86.346
+32561,30.341,-87.117
+32563,30.391,-87.025
+32564,30.729,-86.782
+32565,30.894,-87.145
+32566,30.425,-86.892
+32567,30.921,-86.432
+32568,30.878,-87.475
+32569,30.411,-86.728
+32570,30.792,-86.983
+32571,30.673,-87.196
+32577,30.741,-87.379
+32578,30.508,-86.448
+32579,30.446,-86.574
+32580,30.507,-86.515
+32583,30.605,-86.972
+32601,29.649,-82.325
+32603,29.653,-82.35
+32605,29.679,-82.373
+32606,29.682,-82.444
+32607,29.647,-82.419
+32608,29.584,-82.398
+32609,29.772,-82.283
+32610,29.641,-82.343
+32612,29.643,-82.354
+32615,29.819,-82.486
+32616,29.782,-82.499
+32617,29.308,-82.074
+32618,29.54,-82.521
+32619,29.756,-82.868
+32621,29.429,-82.631
+32622,29.9,-82.307
+32625,29.215,-82.995
+32626,29.424,-82.899
+32628,29.653,-83.163
+32631,29.729,-82.113
+32634,29.365,-82.254
+32639,29.232,-82.722
+32640,29.558,-82.071
+32641,29.648,-82.239
+32643,29.818,-82.636
+32648,29.501,-83.239
+32653,29.744,-82.403
+32656,29.827,-81.945
+32658,29.852,-82.417
+32664,29.449,-82.222
+32666,29.714,-81.993
+32667,29.49,-82.304
+32668,29.257,-82.475
+32669,29.632,-82.59
+32680,29.575,-83.074
+32681,29.427,-82.215
+32683,29.274,-82.77
+32686,29.356,-82.275
+32692,29.329,-83.172
+32693,29.626,-82.785
+32694,29.808,-82.144
+32696,29.4,-82.469
+32697,29.928,-82.426
+32701,28.666,-81.37
+32702,29.044,-81.627
+32703,28.654,-81.521
+32707,28.664,-81.315
+32708,28.688,-81.27
+32709,28.502,-80.959
+32712,28.736,-81.548
+32713,28.881,-81.324
+32714,28.662,-81.412
+32720,29.033,-81.375
+32723,29.035,-81.305
+32724,29.057,-81.226
+32725,28.886,-81.251
+32726,28.854,-81.68
+32730,28.652,-81.343
+32732,28.751,-81.102
+32735,28.89,-81.739
+32736,28.917,-81.489
+32738,28.905,-81.188
+32744,28.985,-81.22
+32746,28.771,-81.353
+32750,28.709,-81.35
+32751,28.63,-81.365
+32754,28.687,-80.919
+32757,28.776,-81.631
+32759,28.826,-80.903
+32763,28.942,-81.306
+32764,28.837,-81.063
+32765,28.665,-81.196
+32766,28.648,-81.045
+32767,29.027,-81.534
+32768,28.696,-81.558
+32771,28.815,-81.318
+32773,28.755,-81.247
+32775,28.767,-80.877
+32776,28.802,-81.484
+32778,28.773,-81.73
+32779,28.727,-81.415
+32780,28.528,-80.78
+32784,28.974,-81.717
+32789,28.599,-81.352
+32792,28.608,-81.301
+32796,28.625,-80.846
+32798,28.724,-81.588
+32801,28.542,-81.374
+32803,28.556,-81.348
+32804,28.579,-81.394
+32805,28.53,-81.406
+32806,28.512,-81.36
+32807,28.554,-81.301
+32808,28.58,-81.444
+32809,28.462,-81.385
+32810,28.622,-81.429
+32811,28.521,-81.448
+32812,28.484,-81.324
+32814,28.569,-81.326
+32816,28.6,-81.196
+32817,28.588,-81.244
+32818,28.59,-81.494
+32819,28.454,-81.472
+32820,28.577,-81.14
+32821,28.381,-81.48
+32822,28.49,-81.29
+32824,28.389,-81.345
+32825,28.537,-81.243
+32826,28.58,-81.189
+32827,28.431,-81.324
+32828,28.53,-81.169
+32829,28.477,-81.224
+32830,28.392,-81.567
+32831,28.487,-81.146
+32832,28.4,-81.177
+32833,28.494,-81.083
+32835,28.522,-81.486
+32836,28.406,-81.516
+32837,28.382,-81.414
+32839,28.488,-81.407
+32899,28.57,-80.628
+32901,28.079,-80.622
+32903,28.102,-80.582
+32904,28.033,-80.816
+32905,28.031,-80.6
+32907,28.021,-80.68
+32908,27.956,-80.698
+32909,27.9,-80.66
+32920,28.442,-80.588
+32922,28.373,-80.742
+32925,28.252,-80.61
+32926,28.383,-80.819
+32927,28.464,-80.807
+32931,28.32,-80.626
+32934,28.135,-80.714
+32935,28.146,-80.65
+32937,28.176,-80.605
+32940,28.211,-80.751
+32948,27.76,-80.629
+32949,27.91,-80.561
+32950,27.981,-80.57
+32951,27.944,-80.503
+32952,28.32,-80.659
+32953,28.464,-80.688
+32955,28.289,-80.791
+32958,27.794,-80.491
+32959,28.445,-80.764
+32960,27.641,-80.404
+32962,27.583,-80.383
+32963,27.718,-80.393
+32966,27.687,-80.716
+32967,27.715,-80.454
+32968,27.593,-80.509
+32970,27.754,-80.45
+32976,27.846,-80.554
+33001,24.835,-80.802
+33004,26.061,-80.136
+33009,25.984,-80.146
+33010,25.833,-80.279
+33012,25.866,-80.301
+33013,25.862,-80.27
+33014,25.905,-80.302
+33015,25.941,-80.317
+33016,25.894,-80.33
+33018,25.912,-80.393
+33019,26.028,-80.12
+33020,26.019,-80.153
+33021,26.023,-80.187
+33022,26.014,-80.144
+33023,25.988,-80.212
+33024,26.026,-80.245
+33025,25.988,-80.281
+33026,26.026,-80.296
+33027,25.988,-80.34
+33028,26.015,-80.34
+33029,25.992,-80.394
+33030,25.486,-80.508
+33031,25.525,-80.501
+33032,25.531,-80.391
+33033,25.479,-80.409
+33034,25.472,-80.773
+33035,25.422,-80.4
+33036,24.902,-80.699
+33037,25.226,-80.414
+33039,25.498,-80.398
+33040,24.545,-81.922
+33042,24.665,-81.503
+33043,24.67,-81.261
+33050,24.75,-80.987
+33051,24.721,-81.021
+33054,25.908,-80.258
+33055,25.948,-80.279
+33056,25.949,-80.244
+33060,26.235,-80.121
+33062,26.241,-80.091
+33063,26.252,-80.209
+33064,26.278,-80.115
+33065,26.274,-80.26
+33066,26.253,-80.17
+33067,26.306,-80.226
+33068,26.216,-80.214
+33069,26.236,-80.157
+33070,25.011,-80.529
+33071,26.246,-80.267
+33073,26.298,-80.182
+33076,26.319,-80.272
+33101,25.78,-80.199
+33109,25.761,-80.131
+33122,25.805,-80.315
+33125,25.784,-80.236
+33126,25.779,-80.3
+33127,25.814,-80.204
+33128,25.777,-80.203
+33129,25.755,-80.198
+33130,25.769,-80.203
+33131,25.766,-80.184
+33132,25.777,-80.173
+33133,25.731,-80.234
+33134,25.753,-80.27
+33135,25.767,-80.235
+33136,25.787,-80.205
+33137,25.811,-80.167
+33138,25.854,-80.178
+33139,25.779,-80.152
+33140,25.817,-80.136
+33141,25.851,-80.139
+33142,25.806,-80.255
+33143,25.702,-80.299
+33144,25.763,-80.313
+33145,25.753,-80.235
+33146,25.721,-80.273
+33147,25.851,-80.239
+33149,25.714,-80.164
+33150,25.852,-80.207
+33154,25.886,-80.132
+33155,25.738,-80.311
+33156,25.668,-80.297
+33157,25.608,-80.343
+33158,25.639,-80.311
+33160,25.933,-80.135
+33161,25.894,-80.183
+33162,25.929,-80.179
+33165,25.734,-80.358
+33166,25.825,-80.311
+33167,25.885,-80.236
+33168,25.893,-80.209
+33169,25.943,-80.215
+33170,25.558,-80.45
+33172,25.787,-80.365
+33173,25.702,-80.358
+33174,25.762,-80.359
+33175,25.737,-80.407
+33176,25.658,-80.361
+33177,25.599,-80.407
+33178,25.835,-80.422
+33179,25.958,-80.18
+33180,25.962,-80.141
+33181,25.898,-80.151
+33182,25.783,-80.401
+33183,25.701,-80.406
+33184,25.76,-80.406
+33185,25.73,-80.454
+33186,25.654,-80.412
+33187,25.527,-80.6
+33189,25.573,-80.339
+33190,25.557,-80.35
+33193,25.705,-80.471
+33194,25.714,-80.584
+33196,25.648,-80.555
+33301,26.121,-80.128
+33304,26.141,-80.119
+33305,26.153,-80.123
+33306,26.166,-80.114
+33308,26.189,-80.105
+33309,26.186,-80.173
+33311,26.144,-80.173
+33312,26.088,-80.182
+33313,26.152,-80.227
+33314,26.068,-80.224
+33315,26.087,-80.153
+33316,26.102,-80.121
+33317,26.113,-80.228
+33319,26.181,-80.226
+33321,26.213,-80.27
+33322,26.15,-80.276
+33323,26.152,-80.321
+33324,26.112,-80.275
+33325,26.111,-80.324
+33326,26.11,-80.374
+33327,26.226,-80.368
+33328,26.07,-80.273
+33330,26.061,-80.33
+33331,26.06,-80.37
+33332,26.007,-80.46
+33334,26.184,-80.134
+33351,26.18,-80.275
+33388,26.117,-80.254
+33401,26.716,-80.067
+33403,26.804,-80.076
+33404,26.781,-80.063
+33405,26.67,-80.058
+33406,26.664,-80.092
+33407,26.758,-80.091
+33408,26.841,-80.052
+33409,26.716,-80.096
+33410,26.846,-80.087
+33411,26.715,-80.204
+33412,26.803,-80.217
+33413,26.664,-80.151
+33414,26.647,-80.25
+33415,26.66,-80.127
+33417,26.72,-80.124
+33418,26.873,-80.166
+33426,26.534,-80.083
+33428,26.351,-80.229
+33430,26.603,-80.579
+33431,26.375,-80.107
+33432,26.344,-80.082
+33433,26.347,-80.159
+33434,26.383,-80.168
+33435,26.526,-80.061
+33436,26.523,-80.107
+33437,26.509,-80.148
+33438,26.976,-80.524
+33440,26.538,-81.044
+33441,26.311,-80.098
+33442,26.31,-80.145
+33444,26.457,-80.08
+33445,26.456,-80.108
+33446,26.457,-80.183
+33449,26.593,-80.234
+33455,27.054,-80.162
+33458,26.936,-80.128
+33460,26.618,-80.056
+33461,26.619,-80.093
+33462,26.576,-80.072
+33463,26.593,-80.129
+33467,26.596,-80.176
+33469,26.989,-80.109
+33470,26.784,-80.381
+33471,26.917,-81.198
+33472,26.54,-80.189
+33473,26.503,-80.192
+33476,26.801,-80.653
+33477,26.919,-80.076
+33478,26.94,-80.261
+33480,26.685,-80.038
+33483,26.463,-80.062
+33484,26.454,-80.134
+33486,26.348,-80.115
+33487,26.412,-80.089
+33493,26.476,-80.706
+33496,26.409,-80.166
+33498,26.395,-80.22
+33503,27.764,-82.276
+33510,27.955,-82.299
+33511,27.91,-82.296
+33513,28.66,-82.169
+33514,28.661,-81.997
+33521,28.798,-82.075
+33523,28.422,-82.266
+33525,28.331,-82.183
+33527,27.974,-82.213
+33530,27.908,-82.172
+33534,27.818,-82.372
+33538,28.85,-82.185
+33540,28.262,-82.133
+33541,28.234,-82.221
+33542,28.236,-82.178
+33543,28.205,-82.317
+33544,28.248,-82.371
+33545,28.268,-82.291
+33547,27.79,-82.136
+33548,28.146,-82.482
+33549,28.141,-82.45
+33550,27.98,-82.307
+33556,28.166,-82.602
+33558,28.165,-82.511
+33559,28.161,-82.415
+33563,28.017,-82.126
+33565,28.086,-82.148
+33566,27.978,-82.096
+33567,27.921,-82.117
+33569,27.849,-82.296
+33570,27.694,-82.459
+33572,27.766,-82.4
+33573,27.72,-82.362
+33574,28.338,-82.257
+33576,28.312,-82.297
+33578,27.861,-82.355
+33579,27.798,-82.281
+33584,28.005,-82.294
+33585,28.728,-82.032
+33592,28.102,-82.283
+33594,27.941,-82.242
+33596,27.887,-82.226
+33597,28.529,-82.085
+33598,27.693,-82.285
+33602,27.954,-82.456
+33603,27.986,-82.464
+33604,28.017,-82.455
+33605,27.951,-82.43
+33606,27.944,-82.474
+33607,27.965,-82.519
+33609,27.943,-82.515
+33610,27.998,-82.378
+33611,27.891,-82.506
+33612,28.051,-82.45
+33613,28.084,-82.448
+33614,28.005,-82.506
+33615,28.001,-82.582
+33616,27.865,-82.535
+33617,28.039,-82.392
+33618,28.075,-82.498
+33619,27.935,-82.379
+33620,28.061,-82.413
+33621,27.849,-82.511
+33624,28.08,-82.528
+33625,28.067,-82.558
+33626,28.064,-82.597
+33629,27.922,-82.509
+33634,28.01,-82.548
+33635,28.021,-82.618
+33637,28.045,-82.363
+33647,28.152,-82.318
+33701,27.771,-82.633
+33702,27.847,-82.631
+33703,27.817,-82.62
+33704,27.796,-82.629
+33705,27.734,-82.64
+33706,27.742,-82.752
+33707,27.743,-82.724
+33708,27.815,-82.798
+33709,27.817,-82.732
+33710,27.789,-82.73
+33711,27.739,-82.687
+33712,27.735,-82.667
+33713,27.788,-82.677
+33714,27.815,-82.678
+33715,27.666,-82.723
+33716,27.88,-82.653
+33744,27.807,-82.773
+33755,27.98,-82.783
+33756,27.946,-82.794
+33759,27.976,-82.712
+33760,27.906,-82.714
+33761,28.033,-82.724
+33762,27.908,-82.677
+33763,28.003,-82.743
+33764,27.937,-82.741
+33765,27.975,-82.745
+33767,27.975,-82.827
+33770,27.915,-82.804
+33771,27.906,-82.759
+33772,27.844,-82.797
+33773,27.882,-82.755
+33774,27.884,-82.828
+33776,27.85,-82.826
+33777,27.853,-82.761
+33778,27.889,-82.799
+33781,27.839,-82.715
+33782,27.86,-82.708
+33785,27.892,-82.85
+33786,27.933,-82.834
+33801,28.036,-81.9
+33803,28.01,-81.936
+33805,28.095,-81.918
+33809,28.202,-81.956
+33810,28.13,-82.039
+33811,27.979,-82.016
+33812,27.971,-81.894
+33813,27.947,-81.926
+33815,28.041,-81.998
+33823,28.087,-81.813
+33825,27.62,-81.459
+33827,27.818,-81.517
+33830,27.883,-81.811
+33834,27.631,-81.913
+33835,27.788,-81.973
+33837,28.194,-81.588
+33838,28.017,-81.61
+33839,27.974,-81.755
+33840,28.009,-81.905
+33841,27.738,-81.768
+33843,27.732,-81.513
+33844,28.09,-81.589
+33847,27.803,-81.822
+33848,28.276,-81.508
+33849,28.226,-82.069
+33850,28.125,-81.731
+33851,28.045,-81.626
+33852,27.259,-81.378
+33853,27.901,-81.586
+33854,27.856,-81.41
+33855,27.791,-81.36
+33856,27.855,-81.429
+33857,27.359,-81.167
+33858,28.245,-81.558
+33859,27.885,-81.628
+33860,27.819,-82.006
+33865,27.434,-81.963
+33867,27.781,-81.202
+33868,28.268,-81.854
+33870,27.503,-81.368
+33872,27.505,-81.546
+33873,27.571,-81.781
+33875,27.423,-81.501
+33876,27.425,-81.339
+33877,27.984,-81.619
+33880,27.994,-81.778
+33881,28.051,-81.703
+33884,27.983,-81.682
+33890,27.455,-81.725
+33896,28.25,-81.581
+33897,28.285,-81.691
+33898,27.881,-81.318
+33901,26.623,-81.883
+33903,26.682,-81.906
+33904,26.575,-81.945
+33905,26.668,-81.764
+33907,26.564,-81.87
+33908,26.51,-81.98
+33909,26.72,-81.966
+33912,26.535,-81.826
+33913,26.514,-81.697
+33914,26.559,-82.024
+33916,26.639,-81.841
+33917,26.748,-81.846
+33919,26.556,-81.903
+33920,26.742,-81.636
+33921,26.772,-82.253
+33922,26.652,-82.177
+33924,26.541,-82.197
+33928,26.436,-81.697
+33930,26.567,-81.407
+33931,26.43,-81.914
+33935,26.757,-81.418
+33936,26.618,-81.559
+33944,26.955,-81.45
+33946,26.852,-82.282
+33947,26.885,-82.278
+33948,26.986,-82.152
+33950,26.916,-82.044
+33952,26.986,-82.097
+33953,27,-82.212
+33954,27.025,-82.121
+33955,26.816,-81.994
+33956,26.537,-82.122
+33957,26.46,-82.1
+33960,27.079,-81.412
+33965,26.468,-81.764
+33966,26.583,-81.834
+33967,26.472,-81.812
+33971,26.639,-81.7
+33972,26.649,-81.618
+33973,26.601,-81.73
+33974,26.559,-81.601
+33976,26.591,-81.686
+33980,26.977,-82.05
+33981,26.876,-82.211
+33982,26.853,-81.67
+33983,27.006,-82.013
+33990,26.629,-81.949
+33991,26.634,-82.01
+33993,26.673,-82.051
+34101,26.05,-81.781
+34102,26.137,-81.799
+34103,26.191,-81.803
+34104,26.15,-81.741
+34105,26.19,-81.765
+34108,26.246,-81.808
+34109,26.241,-81.764
+34110,26.303,-81.788
+34112,26.121,-81.739
+34113,26.044,-81.732
+34114,25.954,-81.573
+34116,26.189,-81.711
+34117,26.118,-81.549
+34119,26.264,-81.717
+34120,26.313,-81.582
+34134,26.361,-81.832
+34135,26.368,-81.736
+34137,26.041,-81.391
+34138,25.814,-81.363
+34139,25.85,-81.39
+34140,25.925,-81.663
+34141,26.023,-81.081
+34142,26.314,-81.286
+34145,25.91,-81.695
+34201,27.401,-82.466
+34202,27.403,-82.394
+34203,27.44,-82.509
+34205,27.483,-82.585
+34207,27.439,-82.58
+34208,27.487,-82.516
+34209,27.505,-82.655
+34210,27.438,-82.63
+34211,27.454,-82.383
+34212,27.494,-82.406
+34215,27.474,-82.686
+34216,27.535,-82.735
+34217,27.491,-82.705
+34219,27.576,-82.263
+34221,27.581,-82.552
+34222,27.539,-82.507
+34223,26.984,-82.338
+34224,26.923,-82.308
+34228,27.4,-82.644
+34229,27.191,-82.484
+34231,27.266,-82.517
+34232,27.325,-82.472
+34233,27.28,-82.477
+34234,27.369,-82.557
+34235,27.369,-82.477
+34236,27.326,-82.56
+34237,27.339,-82.515
+34238,27.236,-82.471
+34239,27.311,-82.521
+34240,27.345,-82.354
+34241,27.251,-82.374
+34242,27.26,-82.541
+34243,27.401,-82.528
+34250,27.57,-82.585
+34251,27.378,-82.172
+34266,27.202,-81.802
+34267,27.089,-81.954
+34268,27.132,-81.927
+34269,27.09,-81.961
+34275,27.152,-82.423
+34285,27.095,-82.441
+34286,27.107,-82.107
+34287,27.058,-82.249
+34288,27.054,-82.113
+34289,27.089,-82.139
+34291,27.116,-82.215
+34292,27.104,-82.335
+34293,27.037,-82.359
+34420,29.053,-82.039
+34428,28.957,-82.648
+34429,28.867,-82.662
+34431,29.14,-82.531
+34432,29.065,-82.375
+34433,28.993,-82.529
+34434,28.995,-82.438
+34436,28.734,-82.294
+34442,28.921,-82.382
+34445,28.971,-82.424
+34446,28.749,-82.523
+34448,28.767,-82.625
+34449,29.107,-82.691
+34450,28.83,-82.266
+34452,28.761,-82.376
+34453,28.896,-82.33
+34461,28.814,-82.483
+34465,28.929,-82.491
+34470,29.201,-82.082
+34471,29.162,-82.127
+34472,29.109,-81.997
+34473,28.998,-82.188
+34474,29.154,-82.211
+34475,29.253,-82.162
+34476,29.089,-82.202
+34479,29.256,-82.109
+34480,29.094,-82.094
+34481,29.126,-82.31
+34482,29.244,-82.275
+34484,28.945,-82.098
+34487,28.781,-82.613
+34488,29.219,-81.941
+34491,28.998,-82.04
+34498,29.032,-82.736
+34601,28.588,-82.371
+34602,28.502,-82.282
+34604,28.478,-82.433
+34606,28.468,-82.596
+34607,28.595,-82.616
+34608,28.483,-82.553
+34609,28.479,-82.508
+34610,28.37,-82.511
+34613,28.559,-82.542
+34614,28.647,-82.514
+34637,28.308,-82.465
+34638,28.274,-82.53
+34639,28.265,-82.423
+34652,28.241,-82.744
+34653,28.244,-82.688
+34654,28.298,-82.629
+34655,28.211,-82.655
+34661,28.621,-82.261
+34667,28.386,-82.666
+34668,28.293,-82.711
+34669,28.356,-82.61
+34677,28.045,-82.674
+34679,28.423,-82.674
+34681,28.091,-82.778
+34683,28.088,-82.761
+34684,28.081,-82.727
+34685,28.093,-82.689
+34688,28.143,-82.684
+34689,28.15,-82.762
+34690,28.194,-82.726
+34691,28.193,-82.77
+34695,28.008,-82.688
+34698,28.036,-82.791
+34705,28.694,-81.711
+34711,28.521,-81.754
+34714,28.399,-81.813
+34715,28.631,-81.726
+34729,28.617,-81.701
+34731,28.868,-81.897
+34734,28.537,-81.515
+34736,28.599,-81.862
+34737,28.697,-81.803
+34739,27.933,-81.099
+34741,28.306,-81.427
+34743,28.329,-81.355
+34744,28.296,-81.349
+34746,28.237,-81.442
+34747,28.309,-81.591
+34748,28.773,-81.883
+34753,28.604,-81.906
+34756,28.587,-81.679
+34758,28.192,-81.485
+34759,28.104,-81.419
+34760,28.557,-81.629
+34761,28.579,-81.534
+34762,28.757,-81.921
+34769,28.244,-81.294
+34771,28.268,-81.128
+34772,28.16,-81.274
+34773,28.161,-80.998
+34785,28.846,-82.062
+34786,28.483,-81.539
+34787,28.485,-81.619
+34788,28.88,-81.79
+34797,28.73,-81.827
+34945,27.458,-80.552
+34946,27.503,-80.36
+34947,27.454,-80.374
+34949,27.467,-80.3
+34950,27.444,-80.331
+34951,27.532,-80.419
+34952,27.297,-80.298
+34953,27.25,-80.383
+34956,27.098,-80.5
+34957,27.275,-80.243
+34972,27.478,-80.909
+34974,27.149,-80.914
+34981,27.393,-80.372
+34982,27.375,-80.312
+34983,27.324,-80.353
+34984,27.249,-80.331
+34986,27.328,-80.402
+34987,27.29,-80.497
+34990,27.148,-80.362
+34994,27.2,-80.256
+34996,27.188,-80.188
+34997,27.05,-80.271
+35004,33.603,-86.494
+35005,33.606,-86.994
+35006,33.423,-87.21
+35007,33.221,-86.788
+35010,32.917,-85.941
+35013,33.902,-86.518
+35014,33.356,-86.262
+35016,34.325,-86.504
+35019,34.302,-86.634
+35020,33.405,-86.954
+35022,33.332,-86.959
+35023,33.468,-87.088
+35031,34.098,-86.555
+35032,33.263,-86.334
+35033,33.922,-87.011
+35034,32.898,-87.282
+35035,33.044,-86.968
+35036,33.641,-86.916
+35040,33.103,-86.729
+35042,32.931,-87.128
+35043,33.311,-86.663
+35044,33.267,-86.367
+35045,32.812,-86.673
+35046,32.921,-86.53
+35049,33.962,-86.612
+35051,33.219,-86.601
+35052,33.591,-86.41
+35053,34.066,-87.066
+35054,33.502,-86.338
+35055,34.151,-86.759
+35057,34.18,-86.934
+35058,34.237,-86.73
+35060,33.558,-86.928
+35061,33.475,-86.947
+35062,33.719,-87.018
+35063,33.818,-87.021
+35064,33.475,-86.92
+35068,33.609,-86.832
+35070,34.014,-86.743
+35071,33.695,-86.849
+35072,33.094,-86.067
+35073,33.651,-86.987
+35074,33.222,-87.124
+35077,34.021,-86.833
+35078,33.324,-86.445
+35079,33.938,-86.757
+35080,33.249,-86.915
+35082,33.158,-86.154
+35083,34.204,-86.595
+35085,32.976,-86.739
+35087,34.306,-86.584
+35089,32.946,-86.082
+35091,33.783,-86.789
+35094,33.514,-86.571
+35096,33.62,-86.108
+35097,33.892,-86.627
+35098,34.139,-87.039
+35111,33.281,-87.09
+35112,33.694,-86.475
+35114,33.223,-86.867
+35115,33.143,-86.892
+35116,33.731,-86.77
+35117,33.668,-86.893
+35118,33.527,-87.035
+35119,33.638,-86.779
+35120,33.669,-86.422
+35121,33.941,-86.451
+35124,33.322,-86.742
+35125,33.633,-86.289
+35126,33.731,-86.655
+35127,33.491,-86.976
+35128,33.552,-86.338
+35130,33.633,-87.137
+35131,33.714,-86.193
+35133,33.829,-86.595
+35135,33.628,-86.196
+35136,32.879,-86.287
+35143,33.09,-86.556
+35146,33.795,-86.453
+35147,33.416,-86.531
+35148,33.756,-87.046
+35149,33.24,-86.21
+35150,33.19,-86.245
+35151,33.12,-86.339
+35160,33.363,-86.111
+35171,32.871,-86.746
+35172,33.845,-86.695
+35173,33.655,-86.563
+35175,34.436,-86.511
+35176,33.482,-86.502
+35178,33.416,-86.412
+35179,34.273,-86.969
+35180,33.833,-86.849
+35181,33.626,-86.88
+35183,33.006,-86.358
+35184,33.114,-87.137
+35185,33.349,-86.539
+35186,33.257,-86.51
+35188,33.17,-87.173
+35203,33.518,-86.81
+35204,33.522,-86.841
+35205,33.495,-86.808
+35206,33.57,-86.713
+35207,33.568,-86.825
+35208,33.497,-86.879
+35209,33.465,-86.811
+35210,33.542,-86.669
+35211,33.456,-86.868
+35212,33.548,-86.753
+35213,33.507,-86.744
+35214,33.571,-86.892
+35215,33.65,-86.704
+35216,33.419,-86.789
+35217,33.607,-86.763
+35218,33.508,-86.894
+35221,33.45,-86.899
+35222,33.524,-86.77
+35223,33.488,-86.735
+35224,33.528,-86.945
+35226,33.399,-86.842
+35228,33.456,-86.922
+35229,33.464,-86.794
+35233,33.509,-86.801
+35234,33.54,-86.804
+35235,33.615,-86.645
+35242,33.425,-86.671
+35243,33.441,-86.742
+35244,33.353,-86.825
+35249,33.507,-86.803
+35254,33.514,-86.853
+35401,33.179,-87.615
+35404,33.215,-87.483
+35405,33.12,-87.54
+35406,33.339,-87.468
+35441,32.857,-87.731
+35442,33.054,-88.186
+35443,32.769,-88.011
+35444,33.329,-87.293
+35446,33.209,-87.75
+35447,33.278,-88.168
+35452,33.281,-87.689
+35453,33.162,-87.374
+35456,33.064,-87.415
+35457,33.304,-87.773
+35458,33.402,-87.81
+35459,32.792,-88.276
+35460,32.722,-88.196
+35461,33.417,-88.214
+35462,32.932,-87.939
+35463,33.054,-87.682
+35464,32.785,-88.145
+35466,33.249,-87.919
+35469,33.004,-87.799
+35470,32.562,-88.067
+35473,33.269,-87.585
+35474,32.941,-87.591
+35475,33.439,-87.562
+35476,33.238,-87.58
+35477,32.956,-88.241
+35480,33.098,-87.799
+35481,33.405,-88.047
+35487,33.214,-87.548
+35490,33.218,-87.238
+35491,32.937,-88.098
+35501,33.821,-87.297
+35503,33.937,-87.305
+35504,33.894,-87.171
+35540,34.219,-87.193
+35541,34.081,-87.174
+35542,33.704,-87.681
+35543,34.211,-87.758
+35544,33.96,-88.017
+35545,33.642,-87.931
+35546,33.605,-87.545
+35548,34.056,-87.75
+35549,33.823,-87.563
+35550,33.745,-87.16
+35552,34.073,-88.143
+35553,34.127,-87.383
+35554,33.886,-87.672
+35555,33.671,-87.823
+35559,33.912,-87.735
+35563,33.997,-87.907
+35564,34.259,-87.845
+35565,34.237,-87.563
+35570,34.164,-87.993
+35571,34.369,-87.944
+35572,34.201,-87.283
+35573,33.901,-87.55
+35574,33.555,-87.969
+35575,34.036,-87.588
+35576,33.588,-88.143
+35577,34.092,-87.599
+35578,33.98,-87.466
+35579,33.625,-87.331
+35580,33.701,-87.271
+35581,34.36,-87.713
+35582,34.486,-88.095
+35584,33.819,-87.088
+35585,34.419,-87.829
+35586,33.874,-88.14
+35587,33.796,-87.457
+35592,33.743,-88.097
+35593,34.354,-88.09
+35594,33.92,-87.779
+35601,34.606,-87.008
+35603,34.535,-86.971
+35610,34.955,-87.232
+35611,34.774,-87.084
+35613,34.82,-86.882
+35614,34.859,-87.08
+35615,34.662,-86.876
+35616,34.74,-88.019
+35618,34.641,-87.305
+35619,34.383,-87.152
+35620,34.931,-87.02
+35621,34.335,-86.727
+35622,34.347,-86.899
+35630,34.825,-87.66
+35632,34.808,-87.681
+35633,34.876,-87.796
+35634,34.924,-87.608
+35640,34.441,-86.944
+35643,34.673,-87.202
+35645,34.894,-87.489
+35646,34.68,-87.538
+35647,34.968,-87.117
+35648,34.959,-87.379
+35649,34.625,-86.872
+35650,34.447,-87.309
+35651,34.461,-87.48
+35652,34.847,-87.31
+35653,34.533,-87.864
+35654,34.495,-87.621
+35660,34.758,-87.697
+35661,34.769,-87.563
+35670,34.464,-86.729
+35671,34.669,-86.95
+35672,34.649,-87.406
+35673,34.586,-87.138
+35674,34.67,-87.759
+35677,34.953,-88.025
+35739,34.969,-86.791
+35740,34.965,-85.777
+35741,34.73,-86.463
+35744,34.613,-85.905
+35745,34.943,-86.18
+35746,34.829,-86.006
+35747,34.495,-86.299
+35748,34.729,-86.395
+35749,34.822,-86.758
+35750,34.956,-86.589
+35751,34.811,-86.276
+35752,34.764,-85.98
+35754,34.515,-86.616
+35755,34.51,-86.118
+35756,34.644,-86.818
+35757,34.785,-86.744
+35758,34.711,-86.747
+35759,34.868,-86.546
+35760,34.544,-86.384
+35761,34.912,-86.405
+35763,34.612,-86.473
+35764,34.733,-86.313
+35765,34.696,-85.82
+35766,34.867,-86.3
+35768,34.784,-86.102
+35769,34.598,-86.105
+35771,34.539,-86.005
+35772,34.937,-85.948
+35773,34.891,-86.708
+35774,34.765,-86.227
+35775,34.543,-86.706
+35776,34.661,-86.252
+35801,34.725,-86.566
+35802,34.676,-86.555
+35803,34.563,-86.519
+35805,34.707,-86.622
+35806,34.766,-86.684
+35808,34.633,-86.656
+35810,34.803,-86.603
+35811,34.799,-86.504
+35816,34.738,-86.632
+35824,34.645,-86.752
+35896,34.753,-86.652
+35901,34.048,-85.933
+35903,34.026,-85.845
+35904,34.071,-85.99
+35905,33.961,-85.922
+35906,33.927,-86.095
+35907,33.891,-86.018
+35950,34.25,-86.261
+35951,34.346,-86.146
+35952,34.052,-86.311
+35953,33.809,-86.173
+35954,34.09,-86.057
+35956,34.146,-86.147
+35957,34.196,-86.197
+35958,34.916,-85.646
+35959,34.245,-85.606
+35960,34.129,-85.566
+35961,34.304,-85.846
+35962,34.299,-86.037
+35963,34.36,-85.927
+35966,34.795,-85.703
+35967,34.394,-85.698
+35968,34.476,-85.79
+35971,34.456,-85.947
+35972,33.991,-86.224
+35973,34.344,-85.552
+35974,34.363,-86.01
+35975,34.44,-86.072
+35976,34.341,-86.322
+35978,34.643,-85.729
+35979,34.83,-85.613
+35980,34.172,-86.39
+35981,34.722,-85.641
+35983,34.173,-85.766
+35984,34.519,-85.558
+35986,34.505,-85.84
+35987,33.913,-86.242
+35988,34.558,-85.797
+35989,34.598,-85.635
+35990,34.067,-86.305
+36003,32.444,-86.73
+36005,31.888,-85.736
+36006,32.641,-86.728
+36008,32.496,-86.565
+36009,31.598,-86.329
+36010,31.66,-85.813
+36013,32.297,-85.979
+36016,31.85,-85.415
+36017,31.679,-85.558
+36020,32.498,-86.316
+36022,32.623,-86.406
+36024,32.663,-86.036
+36025,32.545,-86.341
+36026,32.775,-86.131
+36027,31.978,-85.184
+36028,31.485,-86.385
+36029,32.182,-85.933
+36030,31.849,-86.862
+36031,32.248,-85.77
+36032,31.998,-86.571
+36033,31.672,-86.771
+36034,31.621,-86.111
+36035,31.789,-86.126
+36036,31.974,-86.162
+36037,31.768,-86.618
+36038,31.408,-86.487
+36039,32.286,-85.821
+36040,32.184,-86.67
+36041,31.931,-86.328
+36042,31.869,-86.46
+36043,32.185,-86.434
+36046,31.946,-86.384
+36047,32.087,-86.52
+36048,31.804,-85.592
+36049,31.768,-86.277
+36051,32.687,-86.479
+36052,32.183,-86.043
+36053,32.042,-85.448
+36054,32.466,-86.36
+36057,32.375,-86.085
+36064,32.304,-86.09
+36066,32.48,-86.424
+36067,32.517,-86.561
+36069,32.098,-86.165
+36071,31.707,-86.398
+36075,32.378,-85.924
+36078,32.547,-85.943
+36079,31.767,-85.998
+36080,32.712,-86.284
+36081,31.911,-85.898
+36082,31.803,-85.955
+36083,32.387,-85.684
+36088,32.42,-85.717
+36089,32.157,-85.702
+36091,32.75,-86.519
+36092,32.614,-86.197
+36093,32.495,-86.134
+36101,32.382,-86.298
+36104,32.402,-86.318
+36105,32.215,-86.277
+36106,32.353,-86.257
+36107,32.384,-86.279
+36108,32.339,-86.401
+36109,32.386,-86.238
+36110,32.447,-86.256
+36111,32.337,-86.271
+36112,32.381,-86.364
+36113,32.38,-86.342
+36114,32.405,-86.246
+36115,32.407,-86.247
+36116,32.272,-86.219
+36117,32.378,-86.149
+36130,32.377,-86.299
+36201,33.647,-85.884
+36203,33.583,-85.834
+36205,33.7,-85.787
+36206,33.733,-85.818
+36207,33.684,-85.705
+36250,33.765,-85.894
+36251,33.227,-85.857
+36255,33.182,-85.737
+36256,33.046,-85.705
+36258,33.478,-85.717
+36260,33.588,-86.001
+36262,33.793,-85.468
+36263,33.467,-85.36
+36264,33.597,-85.551
+36265,33.848,-85.785
+36266,33.354,-85.749
+36267,33.195,-85.947
+36268,33.495,-85.929
+36269,33.74,-85.384
+36271,33.781,-86.019
+36272,33.947,-85.601
+36273,33.545,-85.378
+36274,33.179,-85.36
+36276,33.126,-85.574
+36277,33.761,-85.815
+36278,33.311,-85.527
+36279,33.872,-85.89
+36280,33.386,-85.392
+36301,31.14,-85.409
+36303,31.265,-85.389
+36305,31.205,-85.496
+36310,31.595,-85.209
+36311,31.6,-85.687
+36312,31.163,-85.235
+36313,31.18,-85.794
+36314,31.028,-85.777
+36316,31.176,-85.864
+36317,31.635,-85.39
+36318,31.17,-85.951
+36319,31.332,-85.149
+36320,31.05,-85.319
+36321,31.211,-85.299
+36322,31.258,-85.736
+36323,31.428,-86.072
+36330,31.308,-85.858
+36340,31.056,-85.894
+36343,31.061,-85.121
+36344,31.101,-85.71
+36345,31.366,-85.31
+36346,31.557,-85.939
+36350,31.35,-85.496
+36351,31.426,-85.907
+36352,31.265,-85.61
+36353,31.479,-85.349
+36360,31.467,-85.617
+36362,31.351,-85.68
+36370,31.135,-85.162
+36371,31.33,-85.546
+36373,31.519,-85.089
+36374,31.572,-85.49
+36375,31.078,-85.54
+36376,31.251,-85.27
+36401,31.469,-86.95
+36420,31.177,-86.552
+36421,31.329,-86.508
+36425,31.765,-87.195
+36426,31.145,-87.075
+36432,31.301,-87.037
+36435,31.87,-87.452
+36436,31.766,-87.661
+36439,31.419,-87.345
+36441,31.039,-87.255
+36442,31.084,-86.357
+36444,31.663,-87.464
+36445,31.445,-87.453
+36446,31.791,-87.724
+36451,31.686,-87.819
+36453,31.199,-86.133
+36454,31.353,-87.203
+36455,31.013,-86.354
+36456,31.571,-86.83
+36460,31.525,-87.308
+36467,31.278,-86.255
+36470,31.515,-87.566
+36471,31.632,-87.232
+36473,31.32,-87.226
+36474,31.43,-86.626
+36475,31.389,-87.22
+36476,31.355,-86.548
+36477,31.087,-86.067
+36480,31.342,-87.638
+36481,31.772,-87.383
+36482,31.639,-87.637
+36483,31.048,-86.674
+36502,31.148,-87.495
+36503,31.157,-87.465
+36505,30.951,-88.013
+36507,30.859,-87.742
+36509,30.406,-88.249
+36511,30.305,-87.743
+36512,30.999,-88.018
+36513,31.155,-87.992
+36518,31.471,-88.267
+36521,30.968,-88.187
+36522,31.084,-88.275
+36523,30.371,-88.191
+36524,31.803,-88.011
+36525,30.891,-88.021
+36526,30.61,-87.864
+36527,30.702,-87.882
+36528,30.24,-88.238
+36529,31.277,-88.279
+36530,30.408,-87.556
+36532,30.481,-87.861
+36535,30.384,-87.727
+36538,31.657,-88.143
+36539,31.349,-88.394
+36540,31.449,-87.676
+36541,30.478,-88.346
+36542,30.27,-87.751
+36543,31.222,-87.466
+36544,30.475,-88.24
+36545,31.489,-87.872
+36547,30.252,-87.655
+36548,31.48,-87.971
+36549,30.411,-87.451
+36550,31.249,-87.73
+36551,30.637,-87.747
+36553,31.234,-88.092
+36555,30.4,-87.773
+36556,31.205,-87.964
+36558,31.621,-88.328
+36559,30.569,-87.904
+36560,31.085,-88.049
+36561,30.288,-87.571
+36562,31.037,-87.67
+36564,30.47,-87.915
+36567,30.624,-87.557
+36568,30.512,-88.272
+36569,31.548,-88.088
+36571,30.855,-88.11
+36572,30.856,-88.059
+36574,30.501,-87.478
+36575,30.768,-88.273
+36576,30.523,-87.764
+36578,30.737,-87.772
+36579,31.11,-87.787
+36580,30.479,-87.703
+36581,31.355,-88.019
+36582,30.518,-88.173
+36583,31.367,-88.195
+36584,31.199,-88.389
+36585,31.424,-88.084
+36587,30.836,-88.35
+36602,30.698,-88.04
+36603,30.684,-88.053
+36604,30.682,-88.068
+36605,30.602,-88.091
+36606,30.669,-88.106
+36607,30.699,-88.106
+36608,30.682,-88.3
+36609,30.66,-88.163
+36610,30.737,-88.073
+36611,30.77,-88.077
+36612,30.753,-88.113
+36613,30.81,-88.187
+36615,30.63,-88.07
+36617,30.715,-88.095
+36618,30.737,-88.17
+36619,30.596,-88.197
+36652,30.696,-88.08
+36663,30.737,-88.109
+36688,30.696,-88.188
+36693,30.626,-88.15
+36695,30.631,-88.281
+36701,32.496,-87.057
+36703,32.427,-86.913
+36720,32.165,-87.347
+36722,32.082,-87.571
+36723,32.068,-87.294
+36726,31.96,-87.299
+36727,31.911,-88.034
+36728,32.169,-87.483
+36732,32.417,-87.892
+36736,32.085,-87.761
+36738,32.421,-87.625
+36740,32.627,-87.837
+36741,32.031,-87.012
+36742,32.456,-87.752
+36744,32.685,-87.599
+36748,32.267,-87.781
+36749,32.551,-86.85
+36750,32.79,-86.849
+36751,31.804,-87.577
+36752,32.299,-86.632
+36753,31.837,-87.108
+36754,32.157,-87.702
+36756,32.692,-87.3
+36758,32.639,-86.89
+36759,32.405,-87.29
+36761,32.074,-86.941
+36763,32.277,-87.981
+36764,32.115,-87.985
+36765,32.588,-87.522
+36766,31.955,-87.087
+36767,32.245,-87.205
+36768,31.885,-87.013
+36769,31.993,-87.552
+36773,32.291,-87.385
+36775,32.193,-86.955
+36776,32.736,-87.741
+36782,32.103,-87.914
+36783,32.217,-87.612
+36784,31.92,-87.834
+36785,32.278,-86.823
+36786,32.431,-87.482
+36790,32.736,-86.908
+36792,32.918,-86.916
+36793,32.823,-87.006
+36801,32.702,-85.385
+36804,32.534,-85.348
+36830,32.535,-85.494
+36832,32.583,-85.586
+36849,32.599,-85.489
+36850,32.787,-85.656
+36851,32.15,-85.081
+36852,32.757,-85.279
+36853,32.805,-85.768
+36854,32.752,-85.189
+36855,33.029,-85.308
+36856,32.261,-84.995
+36858,32.323,-85.308
+36860,32.275,-85.424
+36861,32.891,-85.849
+36862,32.904,-85.455
+36863,32.889,-85.264
+36865,32.603,-85.589
+36866,32.565,-85.712
+36867,32.498,-85.024
+36869,32.42,-85.065
+36870,32.483,-85.12
+36871,32.158,-85.157
+36874,32.564,-85.199
+36875,32.319,-85.167
+36877,32.573,-85.101
+36879,32.731,-85.544
+36901,32.422,-88.147
+36904,32.101,-88.261
+36907,32.438,-88.349
+36908,31.873,-88.237
+36910,32.231,-88.159
+36912,32.242,-88.306
+36913,31.961,-88.447
+36915,31.959,-88.36
+36916,32.242,-88.049
+36919,31.769,-88.283
+36921,31.938,-88.183
+36922,32.297,-88.149
+36925,32.432,-88.184
+37010,36.572,-87.109
+37012,36.071,-86.006
+37013,36.052,-86.63
+37014,35.873,-86.633
+37015,36.297,-87.092
+37016,35.964,-86.114
+37018,35.631,-86.211
+37019,35.391,-86.709
+37020,35.634,-86.407
+37022,36.515,-86.317
+37023,36.592,-87.783
+37025,35.953,-87.308
+37026,35.696,-86.107
+37027,35.999,-86.785
+37028,36.628,-87.852
+37029,36.043,-87.269
+37030,36.272,-85.942
+37031,36.377,-86.301
+37032,36.525,-87.017
+37033,35.745,-87.558
+37034,35.637,-86.695
+37035,36.381,-87.134
+37036,36.235,-87.261
+37037,35.703,-86.351
+37040,36.522,-87.328
+37042,36.569,-87.412
+37043,36.491,-87.241
+37046,35.782,-86.701
+37047,35.313,-86.832
+37048,36.49,-86.591
+37049,36.562,-86.682
+37050,36.374,-87.631
+37051,36.304,-87.414
+37052,36.373,-87.407
+37055,36.077,-87.443
+37057,36.418,-86.03
+37058,36.444,-87.877
+37059,35.985,-85.903
+37060,35.749,-86.634
+37061,36.277,-87.663
+37062,35.99,-87.136
+37064,35.885,-86.954
+37066,36.399,-86.456
+37067,35.912,-86.769
+37069,35.984,-86.902
+37072,36.352,-86.747
+37073,36.433,-86.817
+37074,36.426,-86.153
+37075,36.34,-86.602
+37076,36.145,-86.577
+37078,35.904,-87.775
+37079,36.465,-87.648
+37080,36.333,-86.917
+37082,36.095,-87.115
+37083,36.538,-86.001
+37085,35.953,-86.279
+37086,36.022,-86.559
+37087,36.264,-86.269
+37090,36.115,-86.298
+37091,35.489,-86.767
+37095,35.966,-85.961
+37096,35.613,-87.871
+37097,35.78,-87.823
+37098,35.871,-87.308
+37101,36.079,-87.627
+37110,35.645,-85.741
+37115,36.255,-86.699
+37118,35.926,-86.189
+37122,36.178,-86.487
+37127,35.779,-86.327
+37128,35.803,-86.475
+37129,35.93,-86.451
+37130,35.882,-86.319
+37132,35.849,-86.363
+37134,35.993,-87.948
+37135,35.916,-86.677
+37137,35.884,-87.505
+37138,36.238,-86.607
+37140,35.863,-87.652
+37141,36.614,-86.699
+37142,36.411,-87.51
+37143,36.123,-87.027
+37144,35.305,-86.656
+37145,36.381,-85.917
+37146,36.405,-87.032
+37148,36.577,-86.498
+37149,35.809,-86.193
+37150,36.541,-85.81
+37151,36.309,-86.043
+37153,35.764,-86.555
+37160,35.456,-86.485
+37165,36.291,-87.475
+37166,35.918,-85.787
+37167,35.963,-86.53
+37171,36.369,-87.311
+37172,36.548,-86.849
+37174,35.719,-86.898
+37175,36.324,-87.893
+37178,36.324,-87.79
+37179,35.813,-86.91
+37180,35.621,-86.575
+37181,36.244,-87.506
+37183,35.505,-86.287
+37184,36.087,-86.145
+37185,36.063,-87.865
+37186,36.597,-86.222
+37187,36.144,-87.198
+37188,36.481,-86.681
+37189,36.279,-86.831
+37190,35.823,-86.042
+37191,36.506,-87.53
+37201,36.167,-86.778
+37203,36.15,-86.789
+37204,36.107,-86.775
+37205,36.113,-86.87
+37206,36.179,-86.731
+37207,36.232,-86.777
+37208,36.178,-86.81
+37209,36.151,-86.96
+37210,36.149,-86.733
+37211,36.067,-86.723
+37212,36.134,-86.802
+37213,36.167,-86.768
+37214,36.169,-86.663
+37215,36.082,-86.835
+37216,36.215,-86.727
+37217,36.109,-86.657
+37218,36.171,-86.918
+37219,36.166,-86.783
+37220,36.068,-86.793
+37221,36.059,-86.972
+37228,36.197,-86.803
+37232,36.141,-86.803
+37238,36.166,-86.779
+37301,35.417,-85.795
+37302,35.016,-85.022
+37303,35.443,-84.64
+37305,35.458,-85.702
+37306,35.097,-86.192
+37307,35.165,-84.626
+37308,35.343,-84.994
+37309,35.302,-84.741
+37310,35.253,-84.71
+37311,35.104,-84.921
+37312,35.226,-84.874
+37313,35.376,-85.695
+37315,35.047,-85.052
+37316,35.002,-84.73
+37317,35.031,-84.443
+37318,35.179,-85.98
+37321,35.502,-85.008
+37322,35.502,-84.825
+37323,35.096,-84.817
+37324,35.24,-85.987
+37325,35.253,-84.605
+37326,35.04,-84.383
+37327,35.416,-85.394
+37328,35.037,-86.357
+37329,35.392,-84.46
+37330,35.28,-86.131
+37331,35.316,-84.536
+37332,35.601,-84.95
+37333,35.148,-84.36
+37334,35.165,-86.58
+37335,35.069,-86.404
+37336,35.309,-84.932
+37337,35.787,-84.851
+37338,35.43,-85.21
+37339,35.374,-85.632
+37340,35.022,-85.52
+37341,35.22,-85.073
+37342,35.384,-85.947
+37343,35.167,-85.212
+37345,35.017,-86.203
+37347,35.063,-85.613
+37348,35.122,-86.431
+37350,34.994,-85.352
+37351,35.1,-85.26
+37352,35.278,-86.353
+37353,35.123,-84.985
+37354,35.506,-84.347
+37355,35.509,-86.079
+37356,35.229,-85.824
+37357,35.594,-85.918
+37359,35.204,-86.404
+37360,35.438,-86.254
+37361,35.088,-84.657
+37362,35.031,-84.681
+37363,35.121,-85.056
+37365,35.369,-85.516
+37366,35.339,-85.83
+37367,35.62,-85.226
+37369,35.206,-84.464
+37370,35.359,-84.701
+37373,35.407,-85.093
+37374,35.165,-85.662
+37375,35.15,-85.89
+37376,35.047,-85.958
+37377,35.212,-85.362
+37379,35.285,-85.195
+37380,35.071,-85.755
+37381,35.687,-84.877
+37383,35.211,-85.913
+37385,35.337,-84.228
+37387,35.274,-85.721
+37388,35.351,-86.198
+37391,35.093,-84.354
+37394,35.539,-85.861
+37396,35.002,-85.503
+37397,35.208,-85.518
+37398,35.181,-86.138
+37402,35.047,-85.316
+37403,35.048,-85.294
+37404,35.028,-85.273
+37405,35.13,-85.383
+37406,35.073,-85.246
+37407,35.002,-85.29
+37408,35.031,-85.312
+37409,35.01,-85.336
+37410,35.002,-85.314
+37411,35.027,-85.23
+37412,34.997,-85.227
+37415,35.125,-85.281
+37416,35.099,-85.157
+37419,35.052,-85.421
+37421,35.027,-85.154
+37450,35.049,-85.312
+37601,36.338,-82.318
+37604,36.299,-82.383
+37614,36.301,-82.367
+37615,36.398,-82.452
+37616,36.223,-82.752
+37617,36.524,-82.366
+37618,36.46,-82.209
+37620,36.55,-82.094
+37640,36.327,-81.975
+37641,36.2,-82.664
+37642,36.531,-82.727
+37643,36.371,-82.122
+37645,36.563,-82.662
+37650,36.088,-82.469
+37656,36.4,-82.631
+37657,36.017,-82.561
+37658,36.26,-82.152
+37659,36.28,-82.506
+37660,36.527,-82.572
+37663,36.463,-82.489
+37664,36.508,-82.51
+37665,36.579,-82.573
+37680,36.575,-81.726
+37681,36.258,-82.621
+37682,36.3,-82.292
+37683,36.453,-81.822
+37686,36.44,-82.349
+37687,36.179,-82.097
+37688,36.545,-81.883
+37690,36.251,-82.559
+37691,36.368,-81.755
+37692,36.185,-82.304
+37694,36.384,-82.279
+37701,35.792,-83.987
+37705,36.227,-84.01
+37708,36.331,-83.317
+37709,36.167,-83.665
+37710,36.158,-84.318
+37711,36.281,-83.045
+37713,36.081,-83.134
+37714,36.231,-84.254
+37715,36.553,-83.959
+37716,36.101,-84.169
+37719,36.022,-84.428
+37721,36.131,-83.815
+37722,35.815,-83.201
+37723,35.97,-84.814
+37724,36.549,-83.71
+37725,35.998,-83.393
+37726,36.188,-84.81
+37727,35.885,-83.023
+37729,36.514,-84.033
+37730,36.568,-83.974
+37731,36.549,-83.009
+37732,36.328,-84.628
+37733,36.357,-84.695
+37737,35.761,-84.12
+37738,35.671,-83.476
+37742,35.676,-84.179
+37743,36.068,-82.856
+37745,36.276,-82.831
+37748,35.945,-84.516
+37752,36.576,-83.547
+37753,35.823,-83.098
+37754,36.139,-84.03
+37755,36.429,-84.53
+37756,36.302,-84.407
+37757,36.261,-84.106
+37760,36.104,-83.466
+37762,36.576,-84.119
+37763,35.823,-84.488
+37764,35.97,-83.617
+37765,36.572,-83.059
+37766,36.398,-84.073
+37769,36.218,-84.155
+37770,36.152,-84.642
+37771,35.838,-84.316
+37772,35.793,-84.212
+37774,35.729,-84.359
+37777,35.823,-84.052
+37779,36.211,-83.758
+37801,35.672,-84.08
+37803,35.661,-83.981
+37804,35.792,-83.893
+37806,36.085,-83.728
+37807,36.26,-83.826
+37809,36.157,-83.038
+37810,36.178,-83.102
+37811,36.346,-83.212
+37813,36.175,-83.257
+37814,36.233,-83.338
+37818,36.186,-82.973
+37819,36.568,-84.206
+37820,36.085,-83.566
+37821,35.975,-83.196
+37825,36.416,-83.679
+37826,35.558,-84.59
+37828,36.198,-84.069
+37829,36.001,-84.617
+37830,35.966,-84.291
+37840,36.068,-84.37
+37841,36.509,-84.544
+37843,36.011,-83.048
+37845,36.104,-84.45
+37846,35.679,-84.482
+37847,36.432,-84.273
+37848,36.237,-83.682
+37849,36.054,-84.048
+37851,36.566,-83.792
+37852,36.324,-84.58
+37853,35.837,-83.911
+37854,35.886,-84.709
+37857,36.424,-82.941
+37860,36.24,-83.18
+37861,36.241,-83.514
+37862,35.736,-83.672
+37863,35.786,-83.564
+37865,35.851,-83.735
+37866,36.347,-83.843
+37869,36.515,-83.245
+37870,36.463,-83.834
+37871,36.047,-83.681
+37872,36.269,-84.681
+37873,36.526,-82.843
+37874,35.598,-84.456
+37876,35.865,-83.479
+37877,36.151,-83.407
+37878,35.597,-83.981
+37879,36.473,-83.513
+37880,35.701,-84.66
+37881,36.398,-83.362
+37882,35.604,-83.819
+37885,35.499,-84.138
+37886,35.741,-83.807
+37887,36.071,-84.614
+37888,36.33,-83.579
+37890,36.08,-83.293
+37891,36.292,-83.138
+37892,36.556,-84.358
+37902,35.962,-83.92
+37909,35.947,-84.023
+37912,36.008,-83.985
+37914,35.983,-83.796
+37915,35.971,-83.9
+37916,35.953,-83.933
+37917,36.002,-83.913
+37918,36.057,-83.917
+37919,35.915,-84
+37920,35.912,-83.858
+37921,35.981,-83.997
+37922,35.86,-84.101
+37923,35.928,-84.081
+37924,36.026,-83.812
+37929,35.962,-83.916
+37931,35.976,-84.126
+37932,35.917,-84.199
+37934,35.876,-84.18
+37938,36.125,-83.938
+38001,35.816,-89.149
+38002,35.292,-89.702
+38004,35.412,-89.759
+38006,35.694,-89.09
+38007,36.164,-89.439
+38008,35.243,-89
+38011,35.474,-89.714
+38012,35.61,-89.271
+38015,35.559,-89.824
+38016,35.181,-89.76
+38017,35.067,-89.654
+38018,35.139,-89.766
+38019,35.561,-89.632
+38021,35.87,-89.184
+38023,35.475,-89.964
+38024,36.037,-89.385
+38028,35.183,-89.632
+38029,35.242,-89.824
+38030,35.986,-89.618
+38034,35.914,-89.232
+38036,35.327,-89.619
+38037,35.797,-89.399
+38039,35.057,-89.186
+38040,35.879,-89.483
+38041,35.652,-89.675
+38042,35.153,-89.137
+38044,35.215,-88.808
+38046,35.046,-89.244
+38047,36.066,-89.547
+38049,35.39,-89.538
+38050,35.816,-89.227
+38052,35.09,-88.918
+38053,35.328,-89.941
+38054,35.336,-89.874
+38057,35.052,-89.359
+38058,35.458,-89.816
+38059,36.116,-89.24
+38060,35.209,-89.505
+38061,35.068,-88.771
+38063,35.746,-89.629
+38066,35.077,-89.534
+38067,35.082,-89.042
+38068,35.258,-89.335
+38069,35.456,-89.37
+38070,35.94,-89.249
+38075,35.382,-89.168
+38076,35.124,-89.466
+38077,36.329,-89.474
+38079,36.413,-89.469
+38080,36.207,-89.519
+38103,35.156,-90.055
+38104,35.133,-90.004
+38105,35.151,-90.035
+38106,35.101,-90.037
+38107,35.17,-90.023
+38108,35.177,-89.964
+38109,35.038,-90.154
+38111,35.111,-89.944
+38112,35.148,-89.976
+38113,35.104,-90.141
+38114,35.096,-89.986
+38115,35.053,-89.863
+38116,35.032,-90.009
+38117,35.115,-89.906
+38118,35.035,-89.927
+38119,35.08,-89.845
+38120,35.124,-89.853
+38122,35.157,-89.922
+38125,35.025,-89.789
+38126,35.127,-90.044
+38127,35.243,-90.027
+38128,35.225,-89.927
+38131,35.066,-89.993
+38132,35.071,-90
+38133,35.213,-89.795
+38134,35.175,-89.861
+38135,35.239,-89.849
+38138,35.085,-89.799
+38139,35.083,-89.755
+38141,35.016,-89.855
+38152,35.118,-89.937
+38201,36.123,-88.53
+38220,35.994,-88.671
+38221,36.245,-88.042
+38222,36.446,-88.158
+38224,36.387,-88.492
+38225,36.319,-88.671
+38226,36.474,-88.657
+38229,36.219,-88.61
+38230,36.155,-88.775
+38231,36.213,-88.426
+38232,36.359,-89.324
+38233,36.204,-89.043
+38235,35.991,-88.581
+38236,36.178,-88.276
+38237,36.363,-88.834
+38240,36.245,-89.318
+38241,36.428,-88.592
+38242,36.307,-88.337
+38251,36.46,-88.356
+38253,36.308,-89.059
+38254,36.374,-89.347
+38255,36.241,-88.859
+38256,36.318,-88.125
+38257,36.464,-88.887
+38258,36.018,-88.613
+38259,36.202,-89.184
+38260,36.375,-89.213
+38261,36.429,-89.114
+38301,35.588,-88.853
+38305,35.702,-88.768
+38310,35.262,-88.409
+38311,35.436,-88.098
+38313,35.61,-88.62
+38315,35.268,-88.616
+38316,36.07,-88.817
+38317,36.058,-88.264
+38318,35.947,-88.242
+38320,36.046,-88.11
+38321,35.839,-88.529
+38326,35.046,-88.278
+38327,35.224,-88.302
+38328,35.669,-88.209
+38329,35.538,-88.108
+38330,36.071,-89.034
+38332,35.42,-88.429
+38333,36.128,-87.954
+38334,35.35,-88.586
+38337,35.778,-89.029
+38338,35.875,-88.849
+38339,35.052,-88.515
+38340,35.405,-88.679
+38341,35.878,-88.084
+38342,36.072,-88.289
+38343,35.827,-88.928
+38344,35.978,-88.435
+38345,35.595,-88.508
+38347,35.476,-88.499
+38348,35.873,-88.651
+38351,35.662,-88.405
+38352,35.529,-88.534
+38355,35.784,-88.775
+38356,35.438,-88.894
+38357,35.051,-88.414
+38358,35.917,-88.759
+38359,35.372,-88.351
+38361,35.311,-88.3
+38362,35.727,-88.785
+38363,35.688,-88.111
+38365,35.058,-88.238
+38366,35.479,-88.741
+38367,35.053,-88.623
+38368,35.496,-88.359
+38369,36.132,-88.943
+38370,35.391,-88.248
+38371,35.424,-88.295
+38372,35.144,-88.157
+38374,35.524,-88.239
+38375,35.16,-88.587
+38376,35.131,-88.347
+38379,35.165,-88.431
+38380,35.78,-88.039
+38381,35.349,-88.959
+38382,35.968,-88.984
+38387,35.873,-88.277
+38388,35.782,-88.31
+38389,36.103,-89.121
+38390,35.838,-88.378
+38391,35.547,-88.992
+38392,35.458,-89.028
+38401,35.629,-87.022
+38425,35.416,-87.97
+38449,35.043,-86.831
+38450,35.204,-87.669
+38451,35.461,-86.992
+38452,35.079,-87.792
+38453,35.119,-86.815
+38454,35.728,-87.345
+38455,35.062,-86.894
+38456,35.335,-87.266
+38457,35.03,-87.285
+38459,35.191,-86.802
+38460,35.101,-87.159
+38461,35.595,-87.34
+38462,35.527,-87.543
+38463,35.071,-87.645
+38464,35.29,-87.434
+38468,35.135,-87.291
+38469,35.075,-87.428
+38471,35.084,-87.932
+38472,35.377,-87.039
+38473,35.021,-87.172
+38474,35.518,-87.232
+38475,35.262,-88.023
+38476,35.843,-87.21
+38477,35.06,-87.019
+38478,35.233,-87.006
+38481,35.028,-87.489
+38482,35.769,-87.15
+38483,35.441,-87.334
+38485,35.357,-87.782
+38486,35.173,-87.54
+38487,35.718,-87.233
+38488,35.029,-86.686
+38501,36.226,-85.533
+38503,36.163,-85.506
+38504,36.393,-84.735
+38505,36.173,-85.506
+38506,36.187,-85.434
+38541,36.538,-85.336
+38542,36.316,-85.201
+38543,36.35,-85.15
+38544,36.11,-85.652
+38545,36.231,-85.66
+38547,36.155,-86.009
+38548,36.175,-85.792
+38549,36.562,-85.149
+38550,35.77,-85.633
+38551,36.558,-85.487
+38552,36.218,-85.814
+38553,36.203,-85.004
+38554,36.251,-85.161
+38555,35.888,-84.989
+38556,36.408,-84.928
+38558,36.01,-84.867
+38559,35.808,-85.508
+38560,36.222,-85.856
+38562,36.352,-85.659
+38563,36.209,-86.021
+38564,36.257,-85.755
+38565,36.263,-85.01
+38567,36.133,-85.926
+38568,36.438,-85.473
+38569,36.119,-85.859
+38570,36.376,-85.326
+38571,36.052,-85.013
+38572,35.849,-85.129
+38573,36.493,-85.224
+38574,36.144,-85.229
+38575,36.553,-85.63
+38577,36.562,-84.953
+38578,35.98,-85.196
+38579,35.836,-85.548
+38580,36.277,-85.295
+38581,35.741,-85.621
+38582,36.099,-85.765
+38583,35.953,-85.43
+38585,35.688,-85.415
+38587,35.865,-85.614
+38588,36.446,-85.731
+38589,36.285,-85.076
+38601,34.479,-89.451
+38603,34.848,-89.142
+38606,34.303,-89.952
+38610,34.652,-89.026
+38611,34.856,-89.676
+38614,34.16,-90.608
+38617,34.362,-90.491
+38618,34.716,-89.938
+38619,34.515,-89.824
+38620,34.237,-89.916
+38621,34.447,-90.17
+38622,34.169,-90.135
+38623,34.354,-90.31
+38625,34.614,-88.836
+38626,34.52,-90.434
+38627,34.455,-89.238
+38629,34.868,-88.99
+38631,34.361,-90.626
+38632,34.796,-90.015
+38633,34.647,-89.195
+38635,34.767,-89.486
+38637,34.951,-90.049
+38639,34.309,-90.429
+38641,34.911,-90.17
+38642,34.911,-89.341
+38643,34.148,-90.261
+38644,34.459,-90.476
+38645,34.248,-90.476
+38646,34.287,-90.299
+38647,34.964,-89.224
+38650,34.532,-89.142
+38651,34.893,-90.002
+38652,34.486,-88.997
+38654,34.934,-89.816
+38655,34.33,-89.487
+38658,34.188,-89.901
+38659,34.622,-89.332
+38661,34.883,-89.557
+38663,34.739,-88.903
+38664,34.811,-90.329
+38665,34.583,-90.166
+38666,34.418,-89.929
+38668,34.591,-89.918
+38670,34.433,-90.286
+38671,34.966,-89.998
+38672,34.911,-89.928
+38673,34.293,-89.636
+38674,34.868,-88.892
+38676,34.674,-90.367
+38677,34.362,-89.539
+38680,34.958,-90.145
+38683,34.935,-88.855
+38685,34.593,-89.488
+38701,33.303,-91.028
+38703,33.476,-91.053
+38720,34.108,-90.788
+38721,32.97,-90.752
+38722,33.26,-90.884
+38723,33.23,-91.038
+38725,33.635,-91.06
+38726,33.753,-90.977
+38730,33.681,-90.805
+38731,33.124,-91.131
+38732,33.759,-90.726
+38733,33.745,-90.735
+38736,33.648,-90.543
+38737,33.861,-90.496
+38738,33.933,-90.534
+38740,34.05,-90.805
+38744,33.03,-91.051
+38745,32.974,-91.039
+38746,33.962,-90.954
+38748,33.155,-90.876
+38751,33.453,-90.675
+38753,33.349,-90.584
+38754,33.25,-90.623
+38756,33.39,-90.86
+38759,33.829,-90.737
+38760,33.454,-90.994
+38761,33.429,-90.47
+38762,33.896,-90.726
+38764,33.799,-90.884
+38765,33.049,-90.89
+38767,34.128,-90.805
+38768,33.971,-90.477
+38769,33.842,-90.978
+38771,33.74,-90.523
+38772,33.563,-91.088
+38773,33.605,-90.773
+38774,33.966,-90.767
+38776,33.425,-90.927
+38778,33.554,-90.514
+38781,33.909,-90.757
+38801,34.223,-88.775
+38804,34.281,-88.673
+38821,33.974,-88.438
+38824,34.519,-88.641
+38826,34.303,-88.848
+38827,34.511,-88.242
+38828,34.424,-88.865
+38829,34.652,-88.537
+38833,34.834,-88.343
+38834,34.918,-88.56
+38838,34.546,-88.256
+38839,33.856,-89.284
+38841,34.348,-89.021
+38843,34.262,-88.376
+38844,33.839,-88.256
+38846,34.852,-88.385
+38847,34.413,-88.233
+38848,33.937,-88.283
+38849,34.461,-88.696
+38850,34.059,-89.058
+38851,33.91,-88.968
+38852,34.844,-88.217
+38855,34.323,-88.485
+38856,34.467,-88.455
+38857,34.282,-88.575
+38858,34.096,-88.531
+38859,34.515,-88.369
+38860,33.977,-88.76
+38862,34.168,-88.623
+38863,34.217,-89.027
+38864,34.158,-89.208
+38865,34.788,-88.595
+38866,34.368,-88.68
+38868,34.126,-88.743
+38869,34.356,-88.836
+38870,34.07,-88.339
+38871,34.335,-89.207
+38873,34.665,-88.251
+38876,34.214,-88.23
+38878,33.88,-89.19
+38879,34.195,-88.712
+38901,33.762,-89.799
+38913,34.139,-89.385
+38914,33.872,-89.47
+38915,34.038,-89.389
+38916,33.83,-89.351
+38917,33.539,-89.982
+38920,33.88,-90.037
+38921,33.982,-90.144
+38922,33.933,-89.651
+38923,33.378,-89.992
+38924,33.29,-90.216
+38925,33.63,-89.618
+38927,34.143,-90.027
+38928,33.869,-90.292
+38929,33.739,-89.523
+38930,33.528,-90.139
+38940,33.747,-90.026
+38941,33.485,-90.358
+38943,33.533,-89.839
+38944,33.765,-90.342
+38946,33.377,-90.356
+38947,33.517,-89.921
+38948,34.076,-89.894
+38949,34.18,-89.428
+38950,33.733,-90.2
+38951,33.974,-89.29
+38952,33.617,-90.334
+38953,33.919,-89.932
+38954,33.408,-90.22
+38957,33.987,-90.373
+38961,33.962,-89.884
+38962,33.872,-90.185
+38963,34.049,-90.314
+38964,34.113,-90.388
+38965,34.135,-89.591
+38966,33.92,-90.318
+38967,33.46,-89.718
+39038,33.202,-90.474
+39039,32.817,-90.229
+39040,32.63,-90.417
+39041,32.405,-90.469
+39042,32.198,-89.895
+39044,32.027,-89.972
+39045,32.82,-89.785
+39046,32.63,-89.993
+39047,32.452,-89.949
+39051,32.78,-89.513
+39054,32.799,-90.935
+39056,32.374,-90.351
+39057,32.491,-89.284
+39058,32.336,-90.332
+39059,31.983,-90.35
+39061,33.088,-90.804
+39062,31.985,-89.898
+39063,33.117,-89.897
+39066,32.297,-90.606
+39067,33.115,-89.45
+39069,31.686,-91.043
+39071,32.546,-90.319
+39073,32.102,-90.136
+39074,32.386,-89.467
+39078,31.878,-90.188
+39079,32.931,-89.889
+39082,31.942,-90.12
+39083,31.835,-90.467
+39086,31.963,-90.764
+39088,32.741,-90.747
+39090,33.013,-89.544
+39092,32.319,-89.363
+39094,32.575,-89.675
+39095,33.132,-90.117
+39096,31.818,-91.121
+39097,32.989,-90.608
+39108,33.162,-89.328
+39110,32.505,-90.138
+39111,31.897,-89.718
+39113,32.761,-91.118
+39114,31.952,-89.825
+39115,33.048,-90.56
+39116,31.896,-89.538
+39117,32.31,-89.665
+39119,31.752,-89.671
+39120,31.509,-91.357
+39140,31.749,-90.02
+39144,31.821,-90.792
+39145,32.345,-89.794
+39146,32.876,-89.995
+39148,32.062,-89.995
+39149,31.832,-90.011
+39150,31.987,-90.985
+39152,32.207,-89.585
+39153,32.045,-89.49
+39154,32.225,-90.445
+39156,32.547,-90.778
+39157,32.425,-90.166
+39159,32.823,-90.912
+39160,33.003,-89.747
+39162,32.619,-90.624
+39166,33.056,-90.482
+39167,32.093,-90.04
+39168,31.832,-89.412
+39169,33.216,-90.245
+39170,32.112,-90.331
+39173,32.742,-90.472
+39174,32.401,-90.16
+39175,32.089,-90.623
+39176,33.3,-89.753
+39177,32.606,-90.823
+39179,32.802,-90.097
+39180,32.239,-90.894
+39183,32.463,-90.823
+39189,32.608,-89.4
+39191,31.716,-90.409
+39192,33.195,-89.746
+39193,32.243,-90.07
+39194,32.843,-90.515
+39201,32.29,-90.184
+39202,32.311,-90.17
+39203,32.309,-90.2
+39204,32.283,-90.237
+39206,32.372,-90.173
+39208,32.26,-90.092
+39209,32.396,-90.293
+39210,32.322,-90.18
+39211,32.372,-90.123
+39212,32.246,-90.26
+39213,32.395,-90.225
+39216,32.335,-90.161
+39217,32.298,-90.21
+39218,32.226,-90.156
+39232,32.337,-90.086
+39269,32.301,-90.189
+39272,32.188,-90.262
+39301,32.276,-88.593
+39305,32.458,-88.727
+39307,32.335,-88.79
+39309,32.552,-88.551
+39320,32.564,-88.748
+39322,31.536,-88.504
+39323,32.352,-88.924
+39324,31.58,-88.697
+39325,32.562,-88.877
+39326,32.603,-88.656
+39327,32.446,-89.122
+39328,32.744,-88.699
+39330,32.19,-88.858
+39332,32.304,-88.999
+39335,32.533,-88.491
+39336,32.301,-89.262
+39337,32.518,-88.996
+39338,32.107,-89.231
+39339,33.111,-89.009
+39341,33.089,-88.556
+39342,32.425,-88.65
+39345,32.282,-89.122
+39346,32.965,-89.096
+39347,32.06,-88.942
+39348,31.99,-89.041
+39350,32.796,-89.125
+39352,32.674,-88.482
+39354,32.875,-88.84
+39355,32.059,-88.619
+39356,32.133,-89.036
+39358,32.831,-88.454
+39359,32.569,-89.332
+39360,31.865,-88.754
+39361,32.995,-88.596
+39362,31.391,-88.541
+39363,32.097,-88.782
+39364,32.405,-88.487
+39365,32.609,-89.12
+39366,31.941,-88.9
+39367,31.684,-88.668
+39401,31.234,-89.266
+39402,31.333,-89.414
+39406,31.329,-89.335
+39421,31.492,-89.721
+39422,31.956,-89.266
+39423,31.178,-88.912
+39425,31.069,-89.061
+39426,30.656,-89.657
+39427,31.489,-89.829
+39428,31.651,-89.573
+39429,31.242,-89.779
+39437,31.58,-89.219
+39439,31.863,-89.001
+39440,31.693,-89.148
+39443,31.717,-89.078
+39451,31.167,-88.623
+39452,30.887,-88.593
+39455,31.012,-89.471
+39456,31.031,-88.828
+39459,31.49,-89.305
+39461,31.206,-88.733
+39462,31.234,-89.057
+39464,31.493,-89.062
+39465,31.34,-89.188
+39466,30.535,-89.618
+39470,30.823,-89.569
+39474,31.621,-89.854
+39475,31.155,-89.414
+39476,31.387,-88.867
+39477,31.796,-89.038
+39478,31.054,-89.857
+39479,31.542,-89.464
+39480,31.705,-89.316
+39481,31.868,-89.238
+39482,31.372,-89.579
+39483,31.243,-89.932
+39501,30.387,-89.099
+39503,30.473,-89.143
+39507,30.4,-89.034
+39520,30.269,-89.481
+39525,30.382,-89.371
+39529,30.378,-89.601
+39530,30.402,-88.892
+39531,30.404,-88.966
+39532,30.501,-88.976
+39534,30.409,-88.921
+39540,30.443,-88.897
+39553,30.415,-88.646
+39556,30.441,-89.428
+39560,30.374,-89.171
+39561,30.708,-89.155
+39562,30.547,-88.489
+39563,30.426,-88.533
+39564,30.405,-88.771
+39565,30.612,-88.762
+39567,30.36,-88.559
+39571,30.42,-89.275
+39572,30.251,-89.605
+39573,30.731,-89.093
+39574,30.608,-89.106
+39576,30.29,-89.383
+39577,30.905,-89.086
+39581,30.351,-88.494
+39595,30.334,-88.579
+39601,31.57,-90.476
+39629,31.437,-90.457
+39630,31.459,-90.845
+39631,31.067,-91.134
+39633,31.293,-91.168
+39635,31.184,-90.449
+39638,31.225,-90.996
+39641,31.356,-90.182
+39643,31.247,-90.014
+39645,31.136,-90.794
+39647,31.526,-90.712
+39648,31.178,-90.385
+39652,31.111,-90.465
+39653,31.461,-90.872
+39654,31.541,-90.149
+39656,31.444,-89.932
+39657,31.04,-90.506
+39661,31.484,-91.083
+39662,31.386,-90.285
+39663,31.595,-90.038
+39664,31.326,-90.674
+39665,31.641,-90.214
+39666,31.288,-90.495
+39667,31.125,-90.126
+39668,31.691,-90.791
+39669,31.151,-91.363
+39701,33.394,-88.505
+39702,33.432,-88.346
+39705,33.588,-88.441
+39730,33.844,-88.566
+39735,33.345,-89.186
+39736,33.417,-88.642
+39737,33.651,-89.336
+39739,33.238,-88.579
+39740,33.715,-88.316
+39741,33.636,-88.855
+39743,33.337,-88.619
+39744,33.58,-89.3
+39745,33.298,-89.47
+39746,33.749,-88.415
+39747,33.424,-89.536
+39750,33.569,-89.045
+39751,33.695,-89.093
+39752,33.523,-89.151
+39753,33.484,-88.63
+39755,33.608,-88.964
+39756,33.757,-88.741
+39759,33.438,-88.825
+39762,33.447,-88.796
+39766,33.587,-88.321
+39767,33.468,-89.452
+39769,33.322,-89.018
+39771,33.607,-89.279
+39772,33.295,-89.304
+39773,33.64,-88.673
+39776,33.785,-89.031
+39813,31.423,-84.684
+39815,30.739,-84.491
+39817,30.948,-84.593
+39819,30.785,-84.645
+39823,31.334,-84.947
+39824,31.528,-84.865
+39825,30.931,-84.741
+39826,31.818,-84.321
+39827,30.948,-84.21
+39828,30.799,-84.227
+39832,31.191,-85.028
+39834,30.894,-84.431
+39836,31.666,-84.869
+39837,31.152,-84.678
+39840,31.781,-84.764
+39841,31.293,-84.685
+39842,31.754,-84.436
+39845,30.951,-84.893
+39846,31.569,-84.746
+39851,31.62,-84.993
+39854,31.869,-85.053
+39859,30.988,-84.813
+39861,31.135,-84.987
+39862,31.459,-84.517
+39866,31.561,-84.603
+39867,31.843,-84.931
+39870,31.322,-84.414
+39877,31.915,-84.512
+39885,31.722,-84.343
+39886,31.733,-84.617
+39897,30.911,-84.33
+40003,38.277,-85.044
+40004,37.802,-85.47
+40006,38.596,-85.333
+40007,38.458,-84.999
+40008,37.909,-85.275
+40009,37.484,-85.086
+40010,38.373,-85.46
+40011,38.528,-85.17
+40012,37.913,-85.167
+40013,37.942,-85.482
+40014,38.341,-85.433
+40019,38.373,-85.175
+40020,37.935,-85.387
+40022,38.151,-85.343
+40023,38.164,-85.424
+40025,38.302,-85.652
+40026,38.421,-85.517
+40031,38.429,-85.401
+40033,37.544,-85.226
+40036,38.415,-84.953
+40037,37.661,-85.418
+40040,37.777,-85.069
+40041,38.256,-85.665
+40045,38.694,-85.355
+40046,38.024,-85.17
+40047,38.036,-85.556
+40049,37.664,-85.395
+40050,38.456,-85.178
+40051,37.652,-85.58
+40052,37.604,-85.488
+40055,38.495,-85.326
+40056,38.308,-85.487
+40057,38.382,-85.055
+40058,38.433,-85.17
+40059,38.356,-85.582
+40060,37.542,-85.466
+40061,37.71,-85.264
+40062,37.607,-85.441
+40063,37.57,-85.345
+40065,38.213,-85.209
+40067,38.228,-85.367
+40068,38.389,-85.286
+40069,37.724,-85.208
+40070,38.472,-85.235
+40071,38.043,-85.379
+40075,38.568,-85.113
+40076,38.114,-85.086
+40077,38.495,-85.445
+40078,37.831,-85.145
+40104,38.086,-86.333
+40107,37.725,-85.599
+40108,37.97,-86.173
+40109,38.064,-85.75
+40110,37.94,-85.651
+40111,37.786,-86.62
+40115,37.75,-86.23
+40117,37.897,-86.124
+40118,38.096,-85.758
+40119,37.608,-86.553
+40121,37.927,-85.96
+40140,37.73,-86.285
+40142,37.893,-86.204
+40143,37.785,-86.5
+40144,37.757,-86.384
+40145,37.654,-86.314
+40146,37.837,-86.31
+40150,37.879,-85.677
+40152,37.602,-86.449
+40155,37.948,-85.994
+40157,38.023,-86.375
+40160,37.813,-85.932
+40161,38.008,-86.401
+40162,37.746,-86.041
+40165,37.993,-85.696
+40170,37.967,-86.487
+40171,37.972,-86.436
+40175,37.819,-86.09
+40176,37.908,-86.351
+40177,38.002,-85.923
+40178,37.681,-86.422
+40202,38.253,-85.752
+40203,38.252,-85.765
+40204,38.24,-85.722
+40205,38.223,-85.683
+40206,38.257,-85.702
+40207,38.263,-85.657
+40208,38.217,-85.766
+40209,38.182,-85.735
+40210,38.232,-85.786
+40211,38.236,-85.825
+40212,38.268,-85.802
+40213,38.177,-85.717
+40214,38.148,-85.78
+40215,38.19,-85.786
+40216,38.186,-85.839
+40217,38.217,-85.738
+40218,38.19,-85.658
+40219,38.138,-85.693
+40220,38.215,-85.619
+40221,38.187,-85.753
+40222,38.265,-85.612
+40223,38.258,-85.54
+40228,38.14,-85.636
+40229,38.088,-85.66
+40231,38.196,-85.695
+40241,38.3,-85.576
+40242,38.276,-85.587
+40243,38.24,-85.533
+40245,38.268,-85.446
+40258,38.149,-85.871
+40272,38.078,-85.853
+40280,38.248,-85.687
+40291,38.126,-85.58
+40299,38.152,-85.517
+40310,37.75,-84.773
+40311,38.332,-83.997
+40312,37.844,-83.933
+40313,38.137,-83.403
+40316,37.937,-83.521
+40322,37.935,-83.633
+40324,38.246,-84.551
+40328,37.582,-85.013
+40330,37.788,-84.888
+40334,38.025,-83.745
+40336,37.683,-83.991
+40337,37.942,-83.855
+40339,37.942,-84.643
+40342,38.006,-84.967
+40346,37.987,-83.744
+40347,38.158,-84.728
+40348,38.303,-84.146
+40350,38.305,-83.874
+40351,38.204,-83.428
+40353,38.065,-83.949
+40355,38.602,-84.868
+40356,37.874,-84.565
+40357,38.145,-84.108
+40358,38.058,-83.684
+40359,38.476,-84.815
+40360,38.167,-83.768
+40361,38.203,-84.21
+40363,38.514,-85.01
+40370,38.395,-84.53
+40371,38.083,-83.595
+40372,37.912,-84.888
+40374,38.215,-83.902
+40376,37.793,-83.714
+40379,38.308,-84.69
+40380,37.814,-83.797
+40383,38.007,-84.739
+40385,37.738,-84.134
+40387,37.941,-83.487
+40390,37.854,-84.679
+40391,37.97,-84.145
+40402,37.291,-83.977
+40403,37.571,-84.264
+40404,37.573,-84.29
+40409,37.369,-84.435
+40419,37.437,-84.49
+40422,37.645,-84.806
+40434,37.393,-83.939
+40437,37.457,-84.844
+40440,37.579,-84.84
+40442,37.339,-84.741
+40444,37.666,-84.578
+40445,37.32,-84.214
+40447,37.441,-84.047
+40448,37.457,-84.758
+40456,37.353,-84.32
+40460,37.391,-84.249
+40461,37.583,-84.406
+40464,37.572,-84.925
+40468,37.651,-84.983
+40472,37.732,-83.86
+40475,37.762,-84.305
+40481,37.439,-84.083
+40484,37.521,-84.674
+40486,37.365,-83.863
+40489,37.361,-84.65
+40502,38.011,-84.483
+40503,38.006,-84.533
+40504,38.042,-84.544
+40505,38.061,-84.457
+40507,38.047,-84.496
+40508,38.061,-84.511
+40509,37.997,-84.378
+40510,38.071,-84.584
+40511,38.141,-84.462
+40513,38.017,-84.605
+40514,37.983,-84.565
+40515,37.916,-84.412
+40516,38.072,-84.364
+40517,37.983,-84.489
+40526,38.03,-84.501
+40536,38.03,-84.507
+40601,38.235,-84.869
+40701,36.914,-84.168
+40729,37.248,-84.153
+40734,36.93,-83.975
+40737,37.011,-84.148
+40740,37.021,-84.037
+40741,37.133,-84.119
+40744,37.032,-84.11
+40759,36.813,-84.057
+40763,36.689,-83.926
+40769,36.704,-84.19
+40771,36.862,-84.038
+40801,36.857,-83.255
+40803,37.046,-83.423
+40806,36.891,-83.297
+40807,36.964,-82.956
+40808,37.01,-83.291
+40810,36.936,-83.281
+40813,36.71,-83.592
+40815,36.792,-83.233
+40816,37.013,-83.367
+40818,36.822,-83.243
+40819,36.802,-83.442
+40820,36.798,-83.159
+40823,36.959,-82.991
+40824,36.825,-83.375
+40826,37.042,-82.77
+40827,37.037,-83.513
+40828,36.872,-83.153
+40829,36.796,-83.302
+40830,36.776,-83.331
+40831,36.76,-83.329
+40840,36.945,-83.419
+40843,36.895,-82.932
+40844,37.058,-83.341
+40845,36.785,-83.504
+40847,36.852,-83.157
+40849,36.899,-83.136
+40854,36.845,-83.362
+40855,36.93,-82.885
+40856,36.723,-83.528
+40858,37.013,-83.409
+40862,37.018,-82.856
+40863,36.727,-83.431
+40865,36.92,-83.211
+40868,37.095,-83.427
+40870,36.942,-83.153
+40873,36.811,-83.4
+40874,36.989,-83.473
+40902,36.861,-83.602
+40903,36.803,-83.801
+40906,36.889,-83.876
+40913,36.936,-83.559
+40914,37.093,-83.572
+40915,36.89,-83.813
+40921,36.792,-83.902
+40923,36.919,-83.845
+40927,36.9,-83.013
+40935,36.958,-83.753
+40939,36.81,-83.721
+40940,36.603,-83.939
+40941,37.13,-83.746
+40943,36.956,-83.847
+40946,36.958,-83.825
+40949,36.901,-83.868
+40953,36.938,-83.801
+40958,36.81,-83.597
+40962,37.164,-83.715
+40964,36.783,-83.338
+40965,36.62,-83.732
+40972,37.241,-83.588
+40977,36.724,-83.729
+40979,37.009,-83.493
+40981,37.278,-83.485
+40982,36.933,-83.687
+40983,37.348,-83.732
+40988,36.867,-83.517
+40995,36.753,-83.823
+40997,36.895,-83.662
+41001,38.911,-84.401
+41002,38.742,-83.974
+41003,38.53,-84.39
+41004,38.644,-84.088
+41005,39.007,-84.76
+41006,38.784,-84.346
+41007,38.893,-84.309
+41008,38.651,-85.176
+41010,38.5,-84.608
+41011,39.067,-84.533
+41014,39.065,-84.505
+41015,38.98,-84.479
+41016,39.089,-84.548
+41017,39.029,-84.562
+41018,39.015,-84.602
+41030,38.784,-84.587
+41031,38.413,-84.297
+41033,38.769,-84.475
+41034,38.687,-83.9
+41035,38.719,-84.654
+41039,38.414,-83.871
+41040,38.651,-84.331
+41041,38.405,-83.723
+41042,38.987,-84.647
+41043,38.762,-84.205
+41044,38.61,-83.972
+41045,38.722,-85.022
+41046,38.709,-84.801
+41048,39.087,-84.704
+41049,38.268,-83.644
+41051,38.934,-84.54
+41052,38.656,-84.775
+41055,38.525,-83.866
+41056,38.602,-83.777
+41059,38.998,-84.345
+41063,38.857,-84.505
+41064,38.513,-84.064
+41071,39.074,-84.481
+41073,39.101,-84.477
+41074,39.109,-84.46
+41075,39.082,-84.457
+41076,39.018,-84.441
+41080,39.055,-84.824
+41083,38.671,-84.996
+41085,39.035,-84.394
+41086,38.695,-84.881
+41091,38.91,-84.736
+41092,38.816,-84.688
+41093,38.378,-83.553
+41094,38.883,-84.624
+41095,38.774,-84.747
+41097,38.621,-84.581
+41098,38.598,-84.988
+41101,38.478,-82.651
+41102,38.428,-82.73
+41121,38.439,-82.834
+41124,38.02,-82.858
+41129,38.321,-82.656
+41132,38.257,-82.823
+41135,38.363,-83.271
+41139,38.509,-82.734
+41141,38.567,-83.139
+41142,38.278,-83.073
+41143,38.335,-82.975
+41144,38.519,-82.929
+41146,38.279,-82.896
+41149,38.099,-83.077
+41159,38.01,-82.975
+41164,38.288,-83.157
+41166,38.626,-83.102
+41168,38.307,-82.751
+41169,38.533,-82.737
+41171,38.046,-83.179
+41174,38.706,-83.007
+41175,38.649,-82.972
+41179,38.535,-83.37
+41180,38.151,-82.884
+41181,38.209,-82.873
+41183,38.55,-82.737
+41189,38.548,-83.563
+41201,38.062,-82.762
+41203,37.852,-82.461
+41204,37.807,-82.671
+41214,37.828,-82.577
+41216,37.732,-82.804
+41219,37.929,-82.92
+41222,37.756,-82.858
+41224,37.811,-82.552
+41226,37.98,-82.955
+41230,38.063,-82.668
+41231,37.793,-82.38
+41232,37.941,-82.73
+41234,37.802,-82.747
+41238,37.835,-82.95
+41240,37.82,-82.784
+41250,37.711,-82.448
+41254,37.887,-82.715
+41255,37.92,-82.826
+41256,37.821,-82.876
+41257,37.913,-82.799
+41260,37.826,-82.753
+41262,37.845,-82.63
+41263,37.857,-82.765
+41264,37.925,-82.681
+41265,37.76,-82.718
+41267,37.882,-82.439
+41268,37.789,-82.785
+41271,37.828,-82.725
+41274,37.864,-82.811
+41301,37.715,-83.493
+41310,37.641,-83.251
+41311,37.575,-83.723
+41314,37.44,-83.638
+41317,37.466,-83.212
+41332,37.807,-83.367
+41339,37.516,-83.269
+41348,37.409,-83.301
+41351,37.336,-83.586
+41352,37.826,-83.336
+41360,37.801,-83.615
+41364,37.368,-83.661
+41365,37.707,-83.629
+41366,37.625,-83.22
+41367,37.415,-83.228
+41385,37.664,-83.315
+41386,37.482,-83.796
+41390,37.41,-83.381
+41397,37.673,-83.662
+41408,37.802,-83.287
+41421,37.992,-83.195
+41425,37.888,-83.418
+41464,37.65,-82.953
+41465,37.729,-83.092
+41472,37.944,-83.247
+41501,37.508,-82.519
+41503,37.661,-82.284
+41512,37.252,-82.478
+41513,37.353,-82.343
+41514,37.669,-82.319
+41517,37.19,-82.6
+41519,37.584,-82.323
+41522,37.322,-82.4
+41524,37.433,-82.234
+41526,37.434,-82.513
+41527,37.632,-82.294
+41528,37.555,-82.14
+41531,37.595,-82.231
+41534,37.277,-82.497
+41535,37.594,-82.284
+41537,37.223,-82.614
+41538,37.303,-82.589
+41539,37.503,-82.322
+41540,37.394,-82.342
+41543,37.548,-82.282
+41544,37.596,-82.174
+41547,37.538,-82.095
+41548,37.375,-82.251
+41553,37.481,-82.16
+41554,37.431,-82.336
+41555,37.538,-82.259
+41557,37.486,-82.411
+41558,37.54,-82.208
+41559,37.38,-82.39
+41560,37.394,-82.579
+41562,37.402,-82.474
+41563,37.224,-82.539
+41564,37.605,-82.367
+41566,37.408,-82.192
+41567,37.569,-82.286
+41568,37.503,-82.044
+41571,37.627,-82.444
+41572,37.313,-82.644
+41601,37.609,-82.718
+41602,37.746,-82.753
+41603,37.571,-82.705
+41604,37.385,-82.66
+41605,37.555,-82.63
+41606,37.338,-82.735
+41607,37.625,-82.857
+41612,37.355,-82.722
+41615,37.537,-82.693
+41616,37.566,-82.88
+41619,37.479,-82.733
+41621,37.626,-82.725
+41622,37.513,-82.81
+41630,37.448,-82.889
+41631,37.469,-82.654
+41632,37.565,-82.952
+41635,37.484,-82.626
+41636,37.401,-82.731
+41640,37.473,-82.92
+41642,37.592,-82.648
+41643,37.435,-82.844
+41645,37.528,-82.798
+41647,37.432,-82.726
+41649,37.571,-82.777
+41650,37.341,-82.676
+41651,37.467,-82.755
+41653,37.657,-82.759
+41655,37.513,-82.736
+41659,37.588,-82.592
+41660,37.414,-82.632
+41663,37.567,-82.663
+41666,37.441,-82.806
+41667,37.311,-82.692
+41669,37.334,-82.715
+41701,37.296,-83.183
+41712,37.372,-83.138
+41713,37.227,-83.278
+41714,37.163,-83.506
+41719,37.297,-83.248
+41721,37.325,-83.49
+41722,37.409,-83.099
+41723,37.262,-83.307
+41725,37.317,-83.034
+41727,37.377,-83.279
+41729,37.269,-83.216
+41731,37.094,-83.079
+41735,37.015,-83.103
+41739,37.321,-83.128
+41740,37.356,-83.047
+41745,37.34,-83.433
+41746,37.214,-83.092
+41749,37.217,-83.429
+41751,37.218,-83.129
+41754,37.304,-83.328
+41759,37.232,-83.027
+41760,37.194,-83.086
+41762,37.207,-83.501
+41763,37.055,-83.121
+41764,37.119,-83.254
+41766,37.18,-83.445
+41772,37.407,-83.015
+41773,37.261,-82.992
+41774,37.154,-83.146
+41775,37.101,-83.345
+41776,37.185,-83.309
+41777,37.051,-83.228
+41778,37.266,-83.322
+41804,37.151,-82.999
+41810,37.185,-82.673
+41812,37.251,-82.743
+41815,37.153,-82.803
+41817,37.369,-82.884
+41819,36.987,-83.107
+41821,37.059,-83.015
+41822,37.319,-82.983
+41824,37.186,-82.877
+41825,37.231,-82.706
+41826,37.188,-82.922
+41828,37.288,-82.788
+41831,37.387,-82.953
+41832,37.17,-82.961
+41833,37.026,-82.986
+41834,37.252,-82.955
+41835,37.221,-82.668
+41836,37.259,-82.902
+41837,37.125,-82.758
+41838,37.204,-82.757
+41839,37.431,-82.887
+41840,37.199,-82.721
+41843,37.275,-82.858
+41844,37.314,-82.872
+41845,37.141,-82.901
+41847,37.203,-82.968
+41848,37.116,-82.937
+41849,37.174,-82.733
+41855,37.175,-82.783
+41858,37.136,-82.855
+41859,37.388,-82.772
+41861,37.385,-82.818
+41862,37.343,-82.771
+42001,37.031,-88.709
+42003,37.005,-88.578
+42020,36.687,-88.287
+42021,36.806,-88.994
+42022,37.145,-88.945
+42023,36.872,-88.991
+42024,37.077,-89.05
+42025,36.86,-88.335
+42027,36.919,-88.636
+42028,37.239,-88.337
+42029,37.012,-88.384
+42031,36.686,-88.991
+42032,36.742,-89.11
+42035,36.908,-88.836
+42036,36.713,-88.235
+42037,37.158,-88.184
+42038,37.047,-88.028
+42039,36.789,-88.825
+42040,36.608,-88.501
+42041,36.55,-88.877
+42044,36.958,-88.263
+42045,37.075,-88.268
+42047,37.29,-88.4
+42048,36.752,-88.299
+42049,36.517,-88.32
+42050,36.537,-89.193
+42051,36.86,-88.644
+42053,37.113,-88.878
+42054,36.722,-88.433
+42055,37.075,-88.174
+42056,37.107,-88.987
+42058,37.058,-88.466
+42060,36.966,-88.828
+42061,36.883,-88.766
+42064,37.345,-88.095
+42066,36.733,-88.64
+42069,36.919,-88.756
+42071,36.62,-88.28
+42076,36.571,-88.107
+42078,37.278,-88.287
+42079,36.541,-88.576
+42081,37.235,-88.391
+42082,36.917,-88.495
+42083,37.162,-88.288
+42085,36.57,-88.801
+42086,37.083,-88.773
+42087,36.973,-88.995
+42088,36.616,-88.754
+42101,37.058,-86.463
+42103,36.965,-86.325
+42104,36.877,-86.451
+42120,36.676,-86.283
+42122,36.857,-86.354
+42123,36.821,-86
+42124,36.864,-85.652
+42127,37.123,-85.927
+42129,36.989,-85.585
+42130,36.926,-85.786
+42131,36.83,-85.909
+42133,36.726,-85.956
+42134,36.727,-86.563
+42140,36.657,-85.829
+42141,36.939,-85.903
+42151,36.66,-85.545
+42153,36.689,-86.047
+42154,37.042,-85.726
+42156,36.864,-86.047
+42157,36.781,-85.82
+42159,36.997,-86.249
+42160,37.111,-86.09
+42163,37.08,-86.135
+42164,36.77,-86.181
+42166,36.874,-85.727
+42167,36.718,-85.675
+42170,36.857,-86.57
+42171,37.036,-86.174
+42202,36.683,-86.844
+42204,36.696,-87.089
+42206,36.887,-86.743
+42207,37.294,-86.267
+42210,37.214,-86.308
+42211,36.818,-87.834
+42214,37.127,-85.701
+42215,36.994,-87.676
+42217,37.046,-87.473
+42220,36.907,-87.189
+42223,36.639,-87.473
+42232,36.855,-87.661
+42234,36.722,-87.179
+42236,36.712,-87.614
+42240,36.88,-87.463
+42252,37.232,-86.499
+42254,36.661,-87.644
+42256,37.012,-86.95
+42259,37.23,-86.165
+42261,37.218,-86.648
+42262,36.69,-87.448
+42265,36.739,-87.004
+42266,36.744,-87.357
+42273,37.205,-86.862
+42274,36.95,-86.599
+42275,37.233,-86.454
+42276,36.86,-86.881
+42280,36.957,-87.099
+42285,37.264,-86.298
+42286,36.727,-87.27
+42301,37.736,-87.249
+42303,37.757,-87.053
+42320,37.333,-86.867
+42321,37.182,-87.05
+42322,37.621,-87.387
+42323,37.173,-87.034
+42324,37.142,-87.013
+42325,37.317,-87.269
+42326,37.236,-87.011
+42327,37.581,-87.297
+42328,37.431,-87.045
+42330,37.315,-87.122
+42332,37.25,-87.089
+42333,37.381,-86.759
+42337,37.201,-86.949
+42338,37.555,-86.787
+42339,37.122,-86.96
+42343,37.653,-86.694
+42344,37.271,-87.317
+42345,37.145,-87.199
+42347,37.524,-86.89
+42348,37.831,-86.775
+42349,37.43,-86.677
+42350,37.455,-87.187
+42351,37.899,-86.867
+42352,37.515,-87.086
+42354,37.378,-86.931
+42355,37.856,-86.994
+42356,37.694,-87.323
+42361,37.508,-86.707
+42366,37.723,-86.939
+42367,37.244,-87.159
+42368,37.713,-86.753
+42369,37.338,-86.989
+42370,37.45,-86.741
+42371,37.51,-87.29
+42372,37.405,-87.278
+42374,37.333,-87.14
+42376,37.618,-87.086
+42378,37.655,-86.874
+42404,37.482,-87.837
+42406,37.706,-87.689
+42408,37.18,-87.693
+42409,37.539,-87.693
+42410,37.276,-87.511
+42411,37.198,-88.011
+42413,37.438,-87.464
+42420,37.799,-87.516
+42431,37.338,-87.475
+42436,37.416,-87.564
+42437,37.649,-87.915
+42440,37.239,-87.47
+42441,37.365,-87.655
+42442,37.18,-87.485
+42444,37.642,-87.646
+42445,37.128,-87.858
+42450,37.389,-87.777
+42451,37.885,-87.391
+42452,37.683,-87.54
+42453,37.158,-87.591
+42455,37.584,-87.533
+42456,37.508,-87.511
+42458,37.853,-87.431
+42459,37.567,-88.019
+42461,37.797,-87.889
+42462,37.738,-87.793
+42463,37.473,-87.869
+42464,37.181,-87.356
+42501,37.056,-84.451
+42503,37.158,-84.52
+42516,37.222,-84.785
+42518,36.906,-84.64
+42519,36.955,-84.535
+42528,37.182,-85.023
+42533,37.072,-84.592
+42539,37.309,-84.951
+42541,37.369,-84.808
+42544,37.03,-84.815
+42553,37.18,-84.697
+42565,37.142,-84.906
+42566,37.279,-84.783
+42567,37.266,-84.605
+42602,36.726,-85.122
+42603,36.784,-85.014
+42629,36.913,-85.138
+42631,36.74,-84.481
+42633,36.801,-84.827
+42634,36.893,-84.422
+42635,36.676,-84.403
+42638,36.674,-84.47
+42642,37.059,-85.035
+42647,36.681,-84.627
+42649,36.626,-84.415
+42653,36.782,-84.455
+42701,37.703,-85.84
+42712,37.559,-86.158
+42713,37.375,-85.873
+42715,36.94,-85.405
+42716,37.492,-85.675
+42717,36.782,-85.388
+42718,37.39,-85.38
+42721,37.423,-86.5
+42722,37.277,-85.716
+42724,37.676,-86.071
+42726,37.42,-86.152
+42728,37.117,-85.29
+42729,37.306,-86.096
+42732,37.614,-86.102
+42733,37.344,-85.186
+42740,37.586,-85.949
+42741,36.975,-85.255
+42742,37.076,-85.473
+42743,37.228,-85.532
+42746,37.212,-85.732
+42748,37.567,-85.694
+42749,37.184,-85.877
+42753,37.235,-85.159
+42754,37.478,-86.315
+42757,37.41,-85.741
+42758,37.375,-85.201
+42759,36.828,-85.514
+42762,37.455,-86.393
+42764,37.43,-85.621
+42765,37.307,-85.935
+42776,37.515,-85.927
+42782,37.337,-85.643
+42784,37.452,-85.932
+42788,37.53,-86.028
+43001,40.088,-82.614
+43002,40.057,-83.168
+43003,40.414,-82.969
+43004,40.015,-82.804
+43005,40.282,-82.269
+43006,40.46,-82.149
+43007,40.331,-83.402
+43008,39.933,-82.483
+43009,40.171,-83.639
+43010,40,-83.622
+43011,40.303,-82.68
+43013,40.231,-82.689
+43014,40.47,-82.25
+43015,40.298,-83.06
+43016,40.097,-83.15
+43017,40.119,-83.133
+43018,39.954,-82.676
+43019,40.502,-82.593
+43021,40.205,-82.877
+43022,40.345,-82.34
+43023,40.076,-82.53
+43025,39.971,-82.517
+43026,40.021,-83.178
+43027,40.254,-82.523
+43028,40.402,-82.297
+43029,40.097,-83.441
+43030,39.969,-82.406
+43031,40.163,-82.664
+43032,40.329,-82.958
+43033,39.961,-82.6
+43035,40.186,-82.996
+43036,40.352,-83.263
+43037,40.284,-82.323
+43040,40.261,-83.358
+43044,40.055,-83.551
+43045,40.168,-83.459
+43046,39.902,-82.54
+43047,40.208,-83.638
+43050,40.374,-82.493
+43054,40.07,-82.802
+43055,40.111,-82.379
+43056,40.009,-82.332
+43060,40.222,-83.572
+43061,40.29,-83.203
+43062,40.008,-82.685
+43064,40.098,-83.288
+43065,40.178,-83.094
+43066,40.403,-83.173
+43067,40.343,-83.484
+43068,39.956,-82.785
+43070,40.221,-83.956
+43071,40.181,-82.359
+43072,40.115,-83.955
+43074,40.27,-82.851
+43076,39.896,-82.391
+43077,40.137,-83.341
+43078,40.118,-83.784
+43080,40.241,-82.429
+43081,40.11,-82.891
+43082,40.156,-82.885
+43084,40.15,-83.557
+43085,40.101,-83.013
+43101,39.464,-82.746
+43102,39.641,-82.765
+43103,39.732,-82.936
+43105,39.867,-82.612
+43106,39.645,-83.419
+43107,39.693,-82.415
+43109,39.917,-82.832
+43110,39.827,-82.8
+43111,39.502,-82.243
+43112,39.793,-82.698
+43113,39.587,-82.962
+43115,39.49,-83.169
+43116,39.773,-83.063
+43117,39.769,-83.206
+43119,39.941,-83.206
+43123,39.867,-83.116
+43125,39.838,-82.888
+43126,39.811,-83.168
+43127,39.476,-82.322
+43128,39.66,-83.594
+43130,39.696,-82.615
+43135,39.473,-82.713
+43136,39.802,-82.815
+43137,39.809,-82.987
+43138,39.518,-82.414
+43140,39.88,-83.429
+43142,39.593,-83.588
+43143,39.712,-83.289
+43144,39.53,-82.195
+43145,39.562,-83.26
+43146,39.774,-83.137
+43147,39.898,-82.744
+43148,39.82,-82.5
+43149,39.543,-82.578
+43150,39.777,-82.41
+43151,39.733,-83.477
+43152,39.394,-82.616
+43153,39.744,-83.557
+43154,39.604,-82.83
+43155,39.627,-82.535
+43156,39.554,-82.776
+43157,39.843,-82.547
+43158,39.453,-82.351
+43160,39.529,-83.439
+43162,39.949,-83.308
+43164,39.584,-83.12
+43201,39.991,-83.001
+43202,40.019,-83.014
+43203,39.973,-82.969
+43204,39.961,-83.083
+43205,39.957,-82.962
+43206,39.942,-82.974
+43207,39.895,-82.964
+43209,39.954,-82.93
+43210,40.006,-83.022
+43211,40.012,-82.971
+43212,39.987,-83.043
+43213,39.971,-82.864
+43214,40.052,-83.016
+43215,39.967,-83.013
+43217,39.817,-82.934
+43218,40.018,-82.924
+43219,40.007,-82.921
+43220,40.049,-83.072
+43221,40.023,-83.076
+43222,39.961,-83.035
+43223,39.926,-83.033
+43224,40.042,-82.964
+43227,39.943,-82.888
+43228,39.964,-83.128
+43229,40.086,-82.978
+43230,40.038,-82.873
+43231,40.079,-82.937
+43232,39.921,-82.87
+43235,40.079,-83.082
+43240,40.145,-82.983
+43302,40.599,-83.13
+43310,40.533,-83.78
+43311,40.364,-83.758
+43314,40.647,-82.961
+43315,40.484,-82.874
+43316,40.952,-83.385
+43317,40.475,-82.681
+43318,40.31,-83.913
+43319,40.303,-83.575
+43320,40.589,-82.9
+43321,40.463,-82.829
+43322,40.533,-83.208
+43323,40.732,-83.255
+43324,40.445,-83.814
+43325,40.668,-82.831
+43326,40.641,-83.615
+43330,40.813,-83.419
+43331,40.518,-83.922
+43332,40.591,-83.372
+43333,40.432,-83.923
+43334,40.398,-82.797
+43336,40.283,-83.577
+43337,40.681,-83.267
+43338,40.564,-82.76
+43340,40.53,-83.498
+43341,40.596,-83.315
+43342,40.471,-83.184
+43343,40.305,-83.995
+43344,40.431,-83.345
+43345,40.508,-83.586
+43346,40.577,-83.845
+43347,40.478,-83.658
+43348,40.461,-83.891
+43350,40.396,-82.7
+43351,40.828,-83.314
+43356,40.454,-83.042
+43357,40.254,-83.747
+43358,40.415,-83.538
+43359,40.87,-83.453
+43360,40.333,-83.644
+43402,41.41,-83.653
+43403,41.378,-83.637
+43406,41.336,-83.439
+43407,41.277,-83.25
+43408,41.572,-83.363
+43410,41.312,-82.958
+43412,41.631,-83.322
+43413,41.248,-83.66
+43414,41.451,-83.617
+43416,41.484,-83.267
+43420,41.358,-83.11
+43430,41.524,-83.375
+43431,41.392,-83.344
+43432,41.563,-83.252
+43433,41.505,-82.88
+43434,41.693,-83.445
+43435,41.326,-83.312
+43436,41.714,-82.826
+43437,41.254,-83.602
+43438,41.603,-82.707
+43439,41.518,-83.043
+43440,41.515,-82.771
+43442,41.425,-83.216
+43443,41.461,-83.47
+43445,41.557,-83.309
+43446,41.674,-82.81
+43447,41.568,-83.433
+43449,41.534,-83.136
+43450,41.401,-83.491
+43451,41.318,-83.618
+43452,41.506,-82.953
+43456,41.651,-82.827
+43457,41.268,-83.425
+43458,41.53,-83.213
+43460,41.605,-83.561
+43462,41.284,-83.723
+43463,41.511,-83.505
+43464,41.416,-82.922
+43465,41.565,-83.5
+43466,41.292,-83.514
+43467,41.243,-83.491
+43468,41.6,-83.347
+43469,41.46,-83.365
+43501,41.673,-84.462
+43502,41.533,-84.303
+43504,41.698,-83.834
+43505,41.524,-84.731
+43506,41.466,-84.557
+43510,41.465,-83.947
+43511,41.264,-83.824
+43512,41.303,-84.358
+43515,41.587,-84.01
+43516,41.215,-83.915
+43517,41.434,-84.729
+43518,41.596,-84.758
+43519,41.419,-84.407
+43520,41.38,-84.636
+43521,41.66,-84.298
+43522,41.42,-83.832
+43523,41.339,-83.999
+43524,41.227,-84.039
+43525,41.467,-83.701
+43526,41.312,-84.731
+43527,41.246,-84.158
+43528,41.629,-83.75
+43529,41.19,-83.785
+43530,41.328,-84.289
+43531,41.635,-84.496
+43532,41.449,-83.964
+43533,41.692,-84.082
+43534,41.35,-83.927
+43535,41.306,-84.024
+43536,41.313,-84.634
+43537,41.575,-83.687
+43540,41.689,-83.944
+43541,41.301,-83.83
+43542,41.566,-83.765
+43543,41.606,-84.645
+43545,41.392,-84.128
+43547,41.492,-83.876
+43548,41.189,-84.173
+43549,41.369,-84.531
+43551,41.519,-83.579
+43553,41.531,-84.218
+43554,41.658,-84.563
+43555,41.438,-84.256
+43556,41.303,-84.564
+43557,41.487,-84.392
+43558,41.594,-83.879
+43560,41.701,-83.739
+43565,41.42,-83.74
+43566,41.492,-83.756
+43567,41.58,-84.161
+43569,41.35,-83.789
+43570,41.586,-84.441
+43571,41.514,-83.814
+43604,41.652,-83.539
+43605,41.648,-83.507
+43606,41.673,-83.611
+43607,41.649,-83.604
+43608,41.68,-83.529
+43609,41.628,-83.579
+43610,41.678,-83.561
+43611,41.703,-83.487
+43612,41.716,-83.551
+43613,41.706,-83.604
+43614,41.604,-83.628
+43615,41.65,-83.672
+43616,41.658,-83.409
+43617,41.664,-83.728
+43619,41.604,-83.47
+43620,41.665,-83.555
+43623,41.703,-83.65
+43701,39.964,-81.996
+43711,39.842,-81.578
+43713,39.99,-81.174
+43716,39.829,-81.012
+43717,39.789,-81.555
+43718,40.015,-80.998
+43719,39.996,-81.093
+43720,39.796,-81.876
+43721,39.949,-82.26
+43722,39.919,-81.52
+43723,39.961,-81.542
+43724,39.721,-81.499
+43725,40.04,-81.601
+43727,39.876,-81.8
+43728,39.48,-81.895
+43730,39.639,-82.092
+43731,39.733,-82.058
+43732,39.843,-81.659
+43733,39.927,-81.538
+43734,39.882,-81.914
+43735,39.857,-82.114
+43736,40.058,-81.237
+43738,39.855,-82.14
+43739,39.903,-82.286
+43740,39.951,-82.217
+43746,39.965,-82.184
+43747,39.861,-81.125
+43748,39.692,-82.316
+43749,40.156,-81.556
+43750,39.997,-81.513
+43754,39.754,-81.243
+43755,40.053,-81.432
+43756,39.692,-81.795
+43758,39.628,-81.945
+43759,40.063,-81.071
+43760,39.888,-82.193
+43761,39.668,-82.148
+43762,40.03,-81.74
+43764,39.713,-82.181
+43766,39.593,-82.253
+43767,40.014,-81.808
+43768,40.038,-81.445
+43771,39.836,-81.945
+43772,39.886,-81.527
+43773,39.982,-81.299
+43777,39.829,-82.104
+43778,40.01,-81.369
+43779,39.82,-81.428
+43780,39.909,-81.438
+43782,39.622,-82.212
+43783,39.804,-82.279
+43786,39.711,-81.277
+43787,39.524,-81.802
+43788,39.806,-81.334
+43791,39.878,-82.089
+43793,39.745,-81.096
+43802,40.091,-81.852
+43804,40.451,-81.741
+43805,40.39,-81.972
+43811,40.192,-81.943
+43812,40.264,-81.881
+43821,40.137,-82.001
+43822,40.181,-82.158
+43824,40.364,-81.758
+43830,40.063,-82.137
+43832,40.273,-81.578
+43836,40.209,-81.719
+43837,40.298,-81.478
+43840,40.404,-81.604
+43842,40.137,-82.012
+43843,40.349,-82.176
+43844,40.334,-82.051
+43845,40.265,-81.731
+43901,40.217,-80.866
+43902,39.883,-80.952
+43903,40.472,-80.973
+43905,40.114,-80.833
+43906,40.011,-80.809
+43907,40.248,-81.02
+43908,40.506,-80.874
+43909,40.068,-80.815
+43910,40.373,-80.826
+43912,40.091,-80.793
+43913,40.268,-80.638
+43914,39.775,-80.953
+43915,39.746,-80.932
+43917,40.215,-80.793
+43920,40.677,-80.594
+43925,40.446,-80.862
+43926,40.509,-80.622
+43928,40.013,-80.883
+43930,40.563,-80.763
+43931,39.673,-80.872
+43932,40.529,-80.746
+43933,39.935,-80.896
+43934,40.076,-80.794
+43935,40.12,-80.74
+43938,40.299,-80.675
+43939,40.167,-80.8
+43940,40.029,-80.827
+43942,39.861,-80.855
+43943,40.209,-80.732
+43944,40.436,-80.772
+43945,40.632,-80.85
+43946,39.648,-80.975
+43947,39.955,-80.792
+43948,40.268,-80.78
+43950,40.097,-80.925
+43951,40.114,-81.012
+43952,40.409,-80.665
+43953,40.352,-80.702
+43961,40.524,-80.63
+43962,40.673,-80.889
+43963,40.171,-80.697
+43964,40.481,-80.662
+43967,40.027,-80.946
+43968,40.632,-80.684
+43971,40.159,-80.713
+43972,40.102,-80.974
+43973,40.19,-81.276
+43974,40.182,-80.888
+43976,40.378,-80.905
+43977,40.148,-81.114
+43981,40.184,-80.994
+43983,40.137,-81.199
+43985,40.162,-81.132
+43986,40.383,-80.99
+43988,40.404,-81.098
+44001,41.366,-82.26
+44003,41.616,-80.586
+44004,41.856,-80.791
+44010,41.765,-80.847
+44011,41.445,-82.005
+44012,41.497,-82.017
+44017,41.371,-81.862
+44021,41.443,-81.144
+44022,41.446,-81.403
+44023,41.385,-81.286
+44024,41.578,-81.191
+44026,41.528,-81.325
+44028,41.301,-81.937
+44030,41.903,-80.58
+44032,41.669,-80.67
+44035,41.37,-82.136
+44039,41.384,-82.021
+44040,41.531,-81.411
+44041,41.777,-80.95
+44044,41.266,-82.042
+44045,41.744,-81.286
+44046,41.542,-81.08
+44047,41.728,-80.736
+44048,41.85,-80.639
+44049,41.267,-82.306
+44050,41.249,-82.128
+44052,41.461,-82.168
+44053,41.43,-82.222
+44054,41.472,-82.09
+44055,41.434,-82.134
+44056,41.315,-81.502
+44057,41.76,-81.06
+44060,41.677,-81.328
+44062,41.451,-81.035
+44064,41.598,-81.032
+44065,41.455,-81.229
+44067,41.313,-81.544
+44068,41.906,-80.679
+44070,41.415,-81.919
+44072,41.471,-81.325
+44074,41.289,-82.236
+44076,41.528,-80.815
+44077,41.698,-81.21
+44080,41.368,-81.058
+44081,41.764,-81.143
+44082,41.762,-80.568
+44084,41.671,-80.899
+44085,41.603,-80.875
+44086,41.676,-81.059
+44087,41.317,-81.444
+44089,41.392,-82.377
+44090,41.167,-82.228
+44092,41.596,-81.471
+44093,41.536,-80.613
+44094,41.611,-81.379
+44095,41.652,-81.442
+44099,41.549,-80.983
+44101,41.49,-81.672
+44102,41.479,-81.736
+44103,41.516,-81.643
+44104,41.482,-81.627
+44105,41.45,-81.632
+44106,41.505,-81.605
+44107,41.486,-81.801
+44108,41.541,-81.612
+44109,41.444,-81.698
+44110,41.569,-81.566
+44111,41.458,-81.79
+44112,41.536,-81.574
+44113,41.483,-81.697
+44114,41.52,-81.679
+44115,41.494,-81.671
+44116,41.473,-81.854
+44117,41.571,-81.526
+44118,41.502,-81.557
+44119,41.588,-81.549
+44120,41.473,-81.581
+44121,41.526,-81.532
+44122,41.469,-81.512
+44123,41.605,-81.524
+44124,41.499,-81.471
+44125,41.406,-81.61
+44126,41.443,-81.853
+44127,41.471,-81.649
+44128,41.44,-81.539
+44129,41.39,-81.735
+44130,41.377,-81.787
+44131,41.383,-81.655
+44132,41.606,-81.497
+44133,41.316,-81.743
+44134,41.383,-81.703
+44135,41.424,-81.826
+44136,41.312,-81.81
+44137,41.409,-81.563
+44138,41.374,-81.923
+44139,41.383,-81.444
+44140,41.488,-81.929
+44141,41.3,-81.617
+44142,41.399,-81.829
+44143,41.553,-81.474
+44144,41.437,-81.74
+44145,41.45,-81.93
+44146,41.381,-81.529
+44147,41.318,-81.679
+44149,41.311,-81.853
+44201,41.029,-81.184
+44202,41.317,-81.342
+44203,41.02,-81.631
+44212,41.244,-81.829
+44214,40.952,-82
+44215,41.072,-81.899
+44216,40.946,-81.582
+44217,40.952,-81.913
+44221,41.139,-81.475
+44223,41.17,-81.531
+44224,41.176,-81.437
+44230,40.962,-81.69
+44231,41.303,-81.07
+44232,40.933,-81.464
+44233,41.249,-81.738
+44234,41.326,-81.152
+44235,41.031,-82.117
+44236,41.246,-81.449
+44240,41.133,-81.342
+44241,41.243,-81.348
+44243,41.148,-81.34
+44250,41.021,-81.433
+44251,41.028,-81.928
+44253,41.163,-82.033
+44254,41.045,-82.012
+44255,41.287,-81.229
+44256,41.141,-81.86
+44260,41.035,-81.338
+44262,41.14,-81.436
+44264,41.23,-81.54
+44266,41.169,-81.197
+44270,40.961,-81.775
+44272,41.09,-81.181
+44273,41.028,-81.878
+44274,41.099,-81.729
+44275,41.097,-82.106
+44276,40.94,-81.836
+44278,41.093,-81.42
+44280,41.24,-81.928
+44281,41.06,-81.74
+44285,41.163,-81.06
+44286,41.233,-81.644
+44287,40.94,-82.104
+44288,41.239,-81.076
+44301,41.043,-81.524
+44302,41.089,-81.538
+44303,41.104,-81.537
+44304,41.086,-81.509
+44305,41.077,-81.463
+44306,41.039,-81.483
+44307,41.069,-81.547
+44308,41.082,-81.517
+44310,41.109,-81.5
+44311,41.064,-81.52
+44312,41.007,-81.439
+44313,41.13,-81.573
+44314,41.041,-81.558
+44319,40.986,-81.531
+44320,41.073,-81.582
+44321,41.101,-81.648
+44325,41.076,-81.512
+44333,41.165,-81.634
+44401,41.027,-80.938
+44402,41.398,-80.853
+44403,41.241,-80.583
+44404,41.324,-80.557
+44405,41.078,-80.592
+44406,41.011,-80.77
+44408,40.885,-80.688
+44410,41.346,-80.728
+44411,41.048,-81.059
+44412,41.094,-81.023
+44413,40.845,-80.549
+44415,40.771,-80.705
+44417,41.433,-80.663
+44418,41.307,-80.605
+44420,41.17,-80.671
+44423,40.749,-80.896
+44424,41.322,-80.583
+44425,41.169,-80.578
+44427,40.714,-80.962
+44428,41.431,-80.585
+44429,41.095,-80.974
+44430,41.238,-80.91
+44431,40.838,-80.751
+44432,40.75,-80.75
+44436,41.059,-80.535
+44437,41.156,-80.73
+44438,41.24,-80.531
+44439,41.454,-80.956
+44440,41.137,-80.806
+44441,40.755,-80.549
+44442,40.966,-80.546
+44443,40.921,-80.591
+44444,41.176,-80.978
+44445,40.848,-80.617
+44446,41.19,-80.748
+44449,40.975,-81.022
+44450,41.446,-80.82
+44451,41.079,-80.868
+44452,40.947,-80.664
+44454,40.924,-80.545
+44455,40.772,-80.61
+44460,40.903,-80.869
+44470,41.3,-80.973
+44471,41.051,-80.591
+44473,41.247,-80.663
+44481,41.177,-80.902
+44483,41.264,-80.817
+44484,41.236,-80.75
+44485,41.24,-80.848
+44490,40.9,-80.768
+44491,41.37,-80.964
+44493,40.822,-80.889
+44502,41.083,-80.639
+44503,41.099,-80.649
+44504,41.124,-80.655
+44505,41.128,-80.618
+44506,41.093,-80.626
+44507,41.074,-80.655
+44509,41.111,-80.697
+44510,41.122,-80.673
+44511,41.069,-80.697
+44512,41.026,-80.667
+44514,40.996,-80.608
+44515,41.103,-80.761
+44555,41.107,-80.649
+44601,40.919,-81.129
+44606,40.735,-81.8
+44607,40.696,-81.027
+44608,40.656,-81.593
+44609,40.912,-80.99
+44610,40.561,-81.801
+44611,40.61,-82.075
+44612,40.633,-81.476
+44613,40.712,-81.608
+44614,40.888,-81.588
+44615,40.566,-81.079
+44618,40.77,-81.681
+44619,40.905,-80.954
+44620,40.586,-81.228
+44621,40.432,-81.288
+44622,40.551,-81.484
+44624,40.622,-81.659
+44625,40.714,-81.023
+44626,40.694,-81.389
+44627,40.664,-81.836
+44628,40.544,-82.148
+44629,40.349,-81.453
+44630,40.927,-81.404
+44632,40.963,-81.305
+44633,40.63,-81.935
+44634,40.838,-81.041
+44637,40.48,-82.03
+44638,40.647,-82.133
+44639,40.452,-81.21
+44640,40.986,-81.151
+44641,40.858,-81.245
+44643,40.638,-81.309
+44644,40.688,-81.178
+44645,40.91,-81.718
+44646,40.814,-81.497
+44647,40.794,-81.565
+44651,40.621,-80.962
+44652,40.901,-81.33
+44653,40.437,-81.371
+44654,40.538,-81.871
+44656,40.568,-81.328
+44657,40.745,-81.095
+44659,40.695,-81.702
+44660,40.624,-81.773
+44661,40.585,-82.117
+44662,40.711,-81.555
+44663,40.46,-81.45
+44665,40.836,-80.987
+44666,40.842,-81.64
+44667,40.834,-81.765
+44669,40.788,-81.151
+44670,40.763,-81.188
+44671,40.645,-81.366
+44672,40.92,-81.025
+44675,40.504,-81.25
+44676,40.691,-82.034
+44677,40.875,-81.859
+44678,40.565,-81.364
+44680,40.599,-81.544
+44681,40.501,-81.664
+44682,40.398,-81.403
+44683,40.365,-81.325
+44685,40.955,-81.424
+44687,40.539,-81.71
+44688,40.684,-81.255
+44689,40.648,-81.659
+44690,40.613,-81.694
+44691,40.806,-81.978
+44693,40.298,-81.188
+44695,40.442,-81.17
+44697,40.608,-81.407
+44699,40.289,-81.289
+44702,40.8,-81.377
+44703,40.811,-81.381
+44704,40.8,-81.343
+44705,40.833,-81.332
+44706,40.754,-81.42
+44707,40.76,-81.347
+44708,40.817,-81.435
+44709,40.842,-81.386
+44710,40.79,-81.427
+44714,40.836,-81.358
+44718,40.848,-81.45
+44720,40.903,-81.433
+44721,40.893,-81.318
+44730,40.767,-81.266
+44802,41.045,-83.419
+44804,41.107,-83.535
+44805,40.873,-82.323
+44807,41.061,-82.864
+44809,41.132,-83.294
+44811,41.246,-82.847
+44813,40.6,-82.53
+44814,41.324,-82.472
+44815,41.247,-83.239
+44817,41.204,-83.545
+44818,40.998,-82.989
+44820,40.818,-82.972
+44822,40.557,-82.398
+44824,41.383,-82.806
+44825,40.954,-82.942
+44826,41.242,-82.478
+44827,40.822,-82.755
+44828,41.234,-82.859
+44830,41.168,-83.399
+44833,40.71,-82.796
+44836,41.237,-83.063
+44837,41.021,-82.473
+44838,40.772,-82.256
+44839,41.38,-82.55
+44840,40.792,-82.173
+44841,41.251,-83.311
+44842,40.649,-82.225
+44843,40.689,-82.408
+44844,40.992,-83.258
+44846,41.319,-82.606
+44847,41.23,-82.713
+44849,40.809,-83.132
+44850,41.035,-82.684
+44851,41.109,-82.392
+44853,41.055,-83.304
+44854,40.944,-82.868
+44855,41.109,-82.575
+44856,40.794,-82.856
+44857,41.216,-82.578
+44859,41.022,-82.331
+44861,41.243,-83.146
+44864,40.668,-82.321
+44865,40.992,-82.689
+44866,40.924,-82.198
+44867,41.149,-82.982
+44870,41.42,-82.713
+44874,40.969,-82.37
+44875,40.89,-82.652
+44878,40.951,-82.521
+44880,41.033,-82.219
+44881,40.87,-82.877
+44882,40.947,-83.14
+44883,41.124,-83.174
+44887,40.916,-82.791
+44889,41.246,-82.382
+44890,41.085,-82.711
+44901,40.764,-82.513
+44902,40.759,-82.511
+44903,40.776,-82.527
+44904,40.664,-82.614
+44905,40.779,-82.467
+44906,40.764,-82.575
+44907,40.728,-82.52
+45001,39.138,-84.713
+45002,39.199,-84.763
+45003,39.587,-84.786
+45005,39.529,-84.29
+45011,39.427,-84.498
+45013,39.414,-84.653
+45014,39.326,-84.552
+45015,39.374,-84.561
+45030,39.257,-84.763
+45032,39.503,-84.008
+45033,39.18,-84.765
+45034,39.357,-84.246
+45036,39.443,-84.216
+45039,39.327,-84.237
+45040,39.351,-84.313
+45041,39.211,-84.702
+45042,39.557,-84.42
+45044,39.482,-84.41
+45050,39.444,-84.366
+45051,39.1,-84.655
+45052,39.144,-84.779
+45053,39.354,-84.788
+45054,39.439,-84.085
+45055,39.457,-84.511
+45056,39.487,-84.738
+45062,39.484,-84.556
+45064,39.571,-84.61
+45065,39.371,-84.214
+45066,39.548,-84.218
+45067,39.495,-84.481
+45068,39.529,-84.041
+45069,39.344,-84.412
+45070,39.59,-84.558
+45101,38.697,-83.727
+45102,39.017,-84.204
+45103,39.092,-84.144
+45105,38.75,-83.612
+45106,38.945,-84.065
+45107,39.288,-83.976
+45111,39.201,-84.287
+45112,38.795,-84.14
+45113,39.4,-83.985
+45115,38.808,-83.707
+45118,39.173,-83.917
+45119,38.878,-83.999
+45120,38.828,-84.09
+45121,38.867,-83.908
+45122,39.226,-84.129
+45123,39.349,-83.389
+45130,38.909,-83.999
+45131,38.79,-83.967
+45132,39.344,-83.6
+45133,39.16,-83.571
+45135,39.348,-83.542
+45140,39.254,-84.247
+45142,39.208,-83.803
+45144,38.704,-83.615
+45146,39.314,-83.804
+45147,39.211,-84.303
+45148,39.29,-83.887
+45150,39.166,-84.23
+45152,39.351,-84.12
+45153,38.863,-84.19
+45154,39.063,-83.917
+45155,39.043,-83.752
+45156,38.81,-84.214
+45157,38.954,-84.23
+45158,39.182,-84.078
+45159,39.337,-83.692
+45160,39.124,-84.137
+45162,39.27,-84.075
+45164,39.553,-83.786
+45166,39.477,-83.688
+45167,38.782,-83.79
+45168,38.85,-83.77
+45169,39.506,-83.651
+45171,39.014,-83.796
+45172,39.074,-83.387
+45174,39.159,-84.312
+45176,39.079,-84.03
+45177,39.461,-83.844
+45202,39.107,-84.504
+45203,39.105,-84.534
+45204,39.09,-84.578
+45205,39.11,-84.575
+45206,39.127,-84.485
+45207,39.142,-84.471
+45208,39.135,-84.434
+45209,39.153,-84.428
+45211,39.159,-84.6
+45212,39.164,-84.452
+45213,39.181,-84.42
+45214,39.115,-84.534
+45215,39.235,-84.462
+45216,39.201,-84.481
+45217,39.166,-84.498
+45218,39.266,-84.52
+45219,39.127,-84.512
+45220,39.147,-84.52
+45223,39.171,-84.551
+45224,39.202,-84.532
+45225,39.144,-84.555
+45226,39.112,-84.422
+45227,39.153,-84.386
+45229,39.153,-84.486
+45230,39.074,-84.389
+45231,39.248,-84.535
+45232,39.186,-84.52
+45233,39.117,-84.673
+45236,39.21,-84.397
+45237,39.195,-84.451
+45238,39.109,-84.609
+45239,39.204,-84.581
+45240,39.286,-84.526
+45241,39.276,-84.4
+45242,39.243,-84.353
+45243,39.189,-84.336
+45244,39.114,-84.326
+45245,39.06,-84.28
+45246,39.29,-84.464
+45247,39.217,-84.661
+45248,39.164,-84.662
+45249,39.275,-84.327
+45251,39.275,-84.598
+45252,39.27,-84.628
+45255,39.06,-84.328
+45267,39.138,-84.503
+45301,39.711,-84.023
+45302,40.406,-84.209
+45303,40.214,-84.66
+45304,39.981,-84.525
+45305,39.641,-84.086
+45306,40.459,-84.187
+45307,39.581,-83.723
+45308,40.129,-84.457
+45309,39.843,-84.415
+45310,40.353,-84.643
+45311,39.629,-84.659
+45312,40.052,-84.093
+45314,39.742,-83.781
+45315,39.858,-84.339
+45316,39.798,-83.825
+45317,40.178,-84.018
+45318,40.127,-84.354
+45319,39.916,-83.943
+45320,39.751,-84.681
+45321,39.865,-84.687
+45322,39.903,-84.328
+45323,39.851,-83.928
+45324,39.821,-84
+45325,39.693,-84.43
+45326,40.14,-84.094
+45327,39.629,-84.403
+45328,40.116,-84.497
+45330,39.648,-84.529
+45331,40.099,-84.651
+45332,40,-84.776
+45333,40.249,-84.332
+45334,40.443,-84.048
+45335,39.64,-83.741
+45336,40.443,-84.257
+45337,39.981,-84.423
+45338,39.851,-84.544
+45339,40.009,-84.341
+45340,40.369,-84.052
+45341,39.873,-84.023
+45342,39.629,-84.276
+45344,39.954,-84.01
+45345,39.739,-84.399
+45346,39.982,-84.71
+45347,39.886,-84.763
+45348,40.33,-84.656
+45349,39.989,-83.941
+45350,40.325,-84.574
+45351,40.34,-84.496
+45352,40.05,-84.744
+45353,40.293,-84.043
+45354,39.91,-84.4
+45356,40.163,-84.228
+45358,39.987,-84.488
+45359,40.05,-84.351
+45360,40.33,-84.092
+45361,39.964,-84.415
+45362,40.292,-84.628
+45363,40.239,-84.4
+45365,40.283,-84.156
+45368,39.845,-83.648
+45369,39.953,-83.594
+45370,39.608,-84.033
+45371,39.941,-84.166
+45372,40.014,-83.838
+45373,40.033,-84.196
+45377,39.904,-84.218
+45378,39.903,-84.488
+45380,40.242,-84.508
+45381,39.731,-84.524
+45382,39.902,-84.612
+45383,39.957,-84.333
+45384,39.716,-83.889
+45385,39.669,-83.914
+45387,39.799,-83.888
+45388,40.328,-84.48
+45389,40.056,-84.025
+45390,40.215,-84.761
+45402,39.76,-84.208
+45403,39.763,-84.15
+45404,39.788,-84.153
+45405,39.792,-84.216
+45406,39.785,-84.242
+45409,39.721,-84.188
+45410,39.748,-84.159
+45414,39.839,-84.211
+45415,39.836,-84.257
+45416,39.808,-84.258
+45417,39.733,-84.283
+45419,39.714,-84.168
+45420,39.719,-84.129
+45423,39.76,-84.191
+45424,39.851,-84.103
+45426,39.801,-84.314
+45428,39.742,-84.26
+45429,39.684,-84.163
+45430,39.718,-84.077
+45431,39.764,-84.084
+45432,39.74,-84.086
+45433,39.823,-84.049
+45434,39.721,-84.032
+45435,39.781,-84.063
+45439,39.698,-84.229
+45440,39.673,-84.1
+45449,39.664,-84.238
+45458,39.602,-84.156
+45459,39.646,-84.167
+45469,39.74,-84.179
+45501,39.926,-83.807
+45502,40.001,-83.9
+45503,39.965,-83.768
+45504,39.947,-83.865
+45505,39.902,-83.757
+45506,39.908,-83.837
+45601,39.312,-82.957
+45612,39.207,-83.279
+45613,39.034,-82.851
+45614,38.93,-82.278
+45616,38.74,-83.287
+45617,39.28,-83.156
+45618,38.885,-83.616
+45619,38.463,-82.45
+45620,38.956,-82.148
+45621,39.111,-82.61
+45622,39.352,-82.487
+45623,38.642,-82.27
+45624,39.173,-83.349
+45628,39.389,-83.194
+45629,38.658,-82.816
+45630,38.697,-83.093
+45631,38.822,-82.264
+45634,39.184,-82.486
+45636,38.582,-82.816
+45638,38.556,-82.672
+45640,39.02,-82.656
+45642,39.047,-83.054
+45644,39.448,-82.835
+45645,38.566,-82.527
+45646,39.075,-83.323
+45647,39.301,-82.732
+45648,38.918,-83.008
+45650,38.738,-83.422
+45651,39.285,-82.483
+45652,38.828,-83.08
+45653,38.89,-82.822
+45654,39.366,-82.378
+45656,38.876,-82.591
+45657,38.844,-83.236
+45658,38.763,-82.412
+45659,38.655,-82.641
+45660,38.988,-83.357
+45661,39.046,-83.108
+45662,38.792,-82.912
+45663,38.736,-83.11
+45669,38.498,-82.358
+45671,38.97,-83.248
+45672,39.221,-82.666
+45673,39.204,-82.812
+45674,38.878,-82.381
+45677,38.796,-82.756
+45678,38.61,-82.38
+45679,38.978,-83.571
+45680,38.468,-82.547
+45681,39.3,-83.258
+45682,38.807,-82.695
+45684,38.651,-83.191
+45685,38.932,-82.457
+45686,39.009,-82.368
+45688,38.731,-82.543
+45690,39.146,-83.025
+45692,39.116,-82.542
+45693,38.808,-83.532
+45694,38.744,-82.781
+45695,39.162,-82.373
+45696,38.601,-82.452
+45697,38.932,-83.674
+45698,39.294,-82.401
+45699,38.874,-82.97
+45701,39.312,-82.074
+45710,39.196,-82.211
+45711,39.428,-81.932
+45714,39.317,-81.614
+45715,39.611,-81.627
+45716,39.463,-82.184
+45719,39.4,-82.128
+45720,39.094,-81.923
+45721,39.566,-81.583
+45723,39.226,-81.823
+45724,39.383,-81.8
+45727,39.646,-81.479
+45729,39.418,-81.604
+45732,39.517,-82.064
+45734,39.641,-81.196
+45735,39.245,-81.92
+45739,39.191,-81.746
+45740,39.477,-82.08
+45741,39.075,-82.247
+45742,39.287,-81.73
+45743,39.075,-81.835
+45744,39.549,-81.494
+45745,39.606,-81.33
+45746,39.597,-81.451
+45750,39.43,-81.432
+45760,39.019,-82.13
+45761,39.426,-82.075
+45764,39.442,-82.231
+45766,39.319,-82.263
+45767,39.545,-81.138
+45768,39.416,-81.257
+45769,39.109,-82.051
+45770,38.987,-81.807
+45771,38.988,-81.903
+45772,39.149,-81.819
+45773,39.438,-81.271
+45775,39.088,-82.156
+45776,39.181,-82.024
+45778,39.354,-81.893
+45779,39.001,-81.971
+45780,39.37,-82.131
+45782,39.486,-82.082
+45783,39.175,-81.839
+45784,39.388,-81.678
+45786,39.503,-81.655
+45788,39.509,-81.379
+45789,39.551,-81.255
+45801,40.773,-84.034
+45804,40.71,-84.061
+45805,40.728,-84.163
+45806,40.672,-84.126
+45807,40.806,-84.172
+45808,40.832,-83.973
+45809,40.843,-84.185
+45810,40.784,-83.813
+45812,40.682,-83.814
+45813,41.192,-84.733
+45814,40.899,-83.604
+45815,41.157,-83.943
+45816,41.005,-83.794
+45817,40.879,-83.884
+45819,40.624,-84.26
+45820,40.831,-84.084
+45821,41.226,-84.561
+45822,40.556,-84.599
+45826,40.436,-84.494
+45827,40.998,-84.299
+45828,40.484,-84.683
+45830,40.908,-84.096
+45831,41.114,-84.255
+45832,40.926,-84.73
+45833,40.833,-84.353
+45835,40.754,-83.7
+45836,40.793,-83.643
+45838,40.74,-84.478
+45840,41.026,-83.649
+45841,40.881,-83.732
+45843,40.786,-83.546
+45844,40.914,-84.287
+45845,40.331,-84.383
+45846,40.412,-84.748
+45848,41.024,-84.077
+45849,41.014,-84.447
+45850,40.705,-83.918
+45851,41.033,-84.603
+45853,40.986,-84.195
+45854,40.76,-83.952
+45855,41.088,-84.583
+45856,41.112,-84
+45858,41.107,-83.802
+45859,40.693,-83.786
+45860,40.4,-84.517
+45861,41.086,-84.426
+45862,40.671,-84.515
+45863,40.911,-84.453
+45864,41.1,-84.137
+45865,40.394,-84.373
+45866,40.489,-84.55
+45867,40.896,-83.538
+45868,40.971,-83.851
+45869,40.457,-84.39
+45870,40.556,-83.951
+45871,40.489,-84.294
+45872,41.189,-83.682
+45873,41.118,-84.39
+45874,40.788,-84.681
+45875,41.02,-84.059
+45876,40.934,-84.339
+45877,40.959,-83.934
+45879,41.128,-84.563
+45880,41.068,-84.742
+45881,40.946,-83.78
+45882,40.683,-84.677
+45883,40.399,-84.62
+45884,40.547,-84.084
+45885,40.57,-84.391
+45886,40.997,-84.621
+45887,40.711,-84.365
+45888,40.602,-84.086
+45889,41.153,-83.639
+45890,40.98,-83.495
+45891,40.874,-84.577
+45893,40.881,-84.145
+45894,40.759,-84.471
+45895,40.563,-84.145
+45896,40.608,-83.942
+45897,40.841,-83.656
+45898,40.734,-84.751
+45899,40.803,-84.772
+46001,40.251,-85.658
+46011,40.13,-85.761
+46012,40.146,-85.623
+46013,40.051,-85.686
+46016,40.098,-85.681
+46017,40.069,-85.607
+46030,40.17,-86.021
+46031,40.204,-86.01
+46032,39.967,-86.175
+46033,39.979,-86.086
+46034,40.135,-86.048
+46035,40.189,-86.679
+46036,40.297,-85.833
+46037,39.963,-85.944
+46038,39.967,-86.017
+46039,40.37,-86.312
+46040,39.927,-85.834
+46041,40.295,-86.494
+46044,40.212,-85.793
+46045,40.29,-86.149
+46047,40.284,-85.947
+46048,39.954,-85.807
+46049,40.295,-86.222
+46050,40.205,-86.346
+46051,40.059,-85.838
+46052,40.044,-86.461
+46055,39.888,-85.902
+46056,39.973,-85.607
+46057,40.338,-86.378
+46058,40.36,-86.648
+46060,40.063,-85.933
+46062,40.061,-86.056
+46063,40.272,-85.724
+46064,39.982,-85.739
+46065,40.421,-86.61
+46068,40.375,-86.111
+46069,40.139,-86.23
+46070,40.346,-85.661
+46071,40.11,-86.608
+46072,40.285,-86.069
+46074,40.036,-86.174
+46075,40.021,-86.331
+46076,40.371,-85.946
+46077,39.982,-86.279
+46102,39.996,-86.62
+46103,39.69,-86.614
+46104,39.658,-85.602
+46105,39.765,-86.813
+46106,39.513,-86.205
+46107,39.717,-86.092
+46110,39.549,-85.912
+46111,39.542,-86.367
+46112,39.864,-86.382
+46113,39.636,-86.303
+46115,39.738,-85.567
+46117,39.815,-85.616
+46118,39.659,-86.531
+46120,39.511,-86.789
+46121,39.679,-86.679
+46122,39.773,-86.551
+46123,39.764,-86.403
+46124,39.371,-85.948
+46125,39.522,-86.642
+46126,39.618,-85.88
+46127,39.718,-85.316
+46128,39.659,-86.743
+46130,39.673,-85.835
+46131,39.473,-86.044
+46133,39.595,-85.311
+46135,39.655,-86.894
+46140,39.802,-85.772
+46142,39.622,-86.175
+46143,39.596,-86.114
+46144,39.666,-85.647
+46146,39.58,-85.57
+46147,39.971,-86.623
+46148,39.78,-85.475
+46149,39.883,-86.554
+46150,39.545,-85.603
+46151,39.46,-86.418
+46154,39.856,-85.77
+46155,39.744,-85.429
+46156,39.489,-85.494
+46157,39.554,-86.529
+46158,39.579,-86.374
+46160,39.351,-86.269
+46161,39.668,-85.697
+46162,39.556,-85.954
+46163,39.729,-85.906
+46164,39.303,-86.122
+46165,39.85,-86.64
+46166,39.427,-86.59
+46167,39.877,-86.468
+46168,39.69,-86.393
+46170,39.572,-86.863
+46171,39.525,-86.961
+46172,39.828,-86.818
+46173,39.601,-85.431
+46175,39.816,-86.966
+46176,39.527,-85.773
+46180,39.592,-86.619
+46181,39.372,-86.172
+46182,39.459,-85.669
+46183,39.654,-86.281
+46184,39.558,-86.067
+46186,39.894,-85.645
+46201,39.774,-86.11
+46202,39.784,-86.162
+46203,39.737,-86.096
+46204,39.771,-86.157
+46205,39.829,-86.134
+46206,39.76,-86.161
+46208,39.819,-86.171
+46214,39.793,-86.292
+46216,39.866,-86.009
+46217,39.675,-86.191
+46218,39.807,-86.1
+46219,39.784,-86.045
+46220,39.867,-86.109
+46221,39.696,-86.239
+46222,39.791,-86.215
+46224,39.795,-86.257
+46225,39.74,-86.163
+46226,39.839,-86.049
+46227,39.675,-86.133
+46228,39.848,-86.201
+46229,39.788,-85.977
+46231,39.723,-86.331
+46234,39.811,-86.326
+46235,39.837,-85.975
+46236,39.897,-85.968
+46237,39.672,-86.075
+46239,39.722,-85.999
+46240,39.906,-86.125
+46241,39.73,-86.278
+46250,39.901,-86.063
+46254,39.848,-86.27
+46256,39.908,-86.013
+46259,39.651,-85.981
+46260,39.897,-86.178
+46268,39.897,-86.233
+46278,39.893,-86.298
+46280,39.934,-86.135
+46290,39.935,-86.162
+46301,41.692,-86.973
+46302,41.364,-87.124
+46303,41.374,-87.479
+46304,41.615,-87.05
+46307,41.402,-87.325
+46310,41.18,-87.231
+46311,41.468,-87.509
+46312,41.65,-87.451
+46319,41.522,-87.422
+46320,41.609,-87.498
+46321,41.548,-87.503
+46322,41.547,-87.458
+46323,41.589,-87.454
+46324,41.584,-87.502
+46327,41.649,-87.499
+46340,41.383,-86.771
+46341,41.31,-87.215
+46342,41.518,-87.245
+46345,41.53,-86.7
+46346,41.478,-86.693
+46347,41.305,-87.009
+46348,41.31,-86.862
+46349,41.112,-87.425
+46350,41.607,-86.722
+46356,41.264,-87.417
+46360,41.689,-86.865
+46365,41.602,-86.544
+46366,41.214,-86.768
+46368,41.592,-87.179
+46371,41.679,-86.593
+46373,41.442,-87.468
+46374,41.205,-86.897
+46375,41.491,-87.453
+46376,41.185,-87.476
+46377,41.194,-87.348
+46379,41.157,-87.43
+46381,41.176,-87.334
+46382,41.461,-86.762
+46383,41.458,-87.002
+46385,41.464,-87.124
+46390,41.419,-86.882
+46391,41.554,-86.919
+46392,41.178,-87.055
+46393,41.514,-87.168
+46394,41.682,-87.5
+46402,41.618,-87.338
+46403,41.611,-87.258
+46404,41.585,-87.374
+46405,41.574,-87.263
+46406,41.606,-87.409
+46407,41.578,-87.33
+46408,41.546,-87.368
+46409,41.548,-87.324
+46410,41.482,-87.335
+46501,41.222,-86.246
+46502,41.261,-85.977
+46504,41.301,-86.112
+46506,41.463,-86.172
+46507,41.721,-85.816
+46508,41.155,-85.969
+46510,41.122,-85.871
+46511,41.221,-86.428
+46513,41.363,-86.448
+46514,41.723,-85.977
+46516,41.679,-85.948
+46517,41.627,-85.998
+46524,41.306,-86.014
+46526,41.559,-85.877
+46528,41.601,-85.785
+46530,41.741,-86.127
+46531,41.357,-86.519
+46532,41.411,-86.631
+46534,41.285,-86.618
+46536,41.515,-86.298
+46537,41.457,-86.307
+46538,41.33,-85.823
+46539,41.163,-86.027
+46540,41.672,-85.697
+46542,41.397,-85.87
+46543,41.533,-85.671
+46544,41.615,-86.128
+46545,41.693,-86.147
+46550,41.447,-86.001
+46552,41.706,-86.482
+46553,41.48,-85.851
+46554,41.557,-86.417
+46555,41.329,-85.68
+46556,41.702,-86.245
+46561,41.666,-86.072
+46562,41.208,-85.685
+46563,41.355,-86.326
+46565,41.691,-85.584
+46567,41.416,-85.732
+46570,41.208,-86.12
+46571,41.566,-85.547
+46572,41.408,-86.393
+46573,41.544,-86.07
+46574,41.482,-86.487
+46580,41.214,-85.87
+46582,41.28,-85.852
+46590,41.219,-85.805
+46595,41.526,-86.163
+46601,41.67,-86.253
+46613,41.654,-86.266
+46614,41.606,-86.28
+46615,41.674,-86.212
+46616,41.697,-86.267
+46617,41.685,-86.235
+46619,41.661,-86.354
+46624,41.703,-86.252
+46628,41.72,-86.32
+46635,41.714,-86.202
+46637,41.734,-86.243
+46701,41.361,-85.431
+46702,40.821,-85.622
+46703,41.655,-85.011
+46704,41.104,-85.292
+46705,41.519,-85.06
+46706,41.342,-85.033
+46710,41.352,-85.25
+46711,40.662,-84.927
+46714,40.723,-85.177
+46721,41.424,-84.873
+46723,41.246,-85.327
+46725,41.153,-85.474
+46730,41.458,-85.152
+46731,40.794,-85.1
+46732,41.372,-85.626
+46733,40.831,-84.94
+46737,41.717,-84.905
+46738,41.319,-85.149
+46740,40.604,-84.965
+46741,41.217,-84.951
+46742,41.549,-84.879
+46743,41.215,-84.853
+46745,40.952,-85.009
+46746,41.725,-85.345
+46747,41.566,-85.158
+46748,41.249,-85.161
+46750,40.876,-85.497
+46755,41.449,-85.275
+46759,40.604,-85.178
+46760,41.345,-85.553
+46761,41.634,-85.378
+46763,41.297,-85.249
+46764,41.214,-85.62
+46765,41.233,-85.032
+46766,40.709,-85.289
+46767,41.462,-85.574
+46770,40.827,-85.321
+46771,41.694,-85.296
+46772,40.722,-84.912
+46773,40.984,-84.876
+46774,41.089,-84.972
+46776,41.729,-85.166
+46777,40.869,-85.148
+46778,40.604,-85.162
+46779,41.564,-85.027
+46781,40.632,-85.269
+46783,40.969,-85.357
+46784,41.5,-85.388
+46785,41.323,-84.878
+46786,41.531,-85.272
+46787,41.066,-85.62
+46788,41.273,-84.908
+46789,41.583,-85.197
+46791,40.838,-85.252
+46792,40.684,-85.443
+46793,41.452,-85.015
+46794,41.462,-85.452
+46795,41.559,-85.327
+46796,41.337,-85.496
+46797,41.128,-84.859
+46798,40.943,-85.221
+46799,40.916,-85.28
+46802,41.069,-85.165
+46803,41.07,-85.086
+46804,41.054,-85.239
+46805,41.1,-85.118
+46806,41.046,-85.092
+46807,41.045,-85.148
+46808,41.098,-85.177
+46809,41,-85.218
+46814,41.049,-85.306
+46815,41.103,-85.059
+46816,41.003,-85.046
+46818,41.142,-85.258
+46819,40.975,-85.134
+46825,41.157,-85.128
+46835,41.153,-85.041
+46845,41.212,-85.109
+46901,40.531,-86.17
+46902,40.437,-86.095
+46910,41.044,-86.036
+46911,40.625,-85.943
+46913,40.504,-86.497
+46914,40.629,-86.095
+46915,40.478,-86.386
+46917,40.627,-86.475
+46919,40.594,-85.87
+46920,40.465,-86.495
+46922,41.141,-86.426
+46923,40.607,-86.642
+46926,40.888,-86.05
+46928,40.406,-85.682
+46929,40.555,-86.476
+46930,40.409,-85.573
+46931,40.947,-86.265
+46932,40.595,-86.269
+46933,40.479,-85.581
+46936,40.484,-85.928
+46937,40.415,-86.037
+46938,40.43,-85.594
+46939,40.993,-86.401
+46940,40.691,-85.689
+46941,40.83,-85.699
+46943,40.973,-85.84
+46945,41.121,-86.385
+46946,41.039,-85.73
+46947,40.761,-86.373
+46950,40.888,-86.365
+46951,40.948,-86.105
+46952,40.599,-85.629
+46953,40.519,-85.645
+46957,40.389,-85.499
+46958,40.818,-86.121
+46959,40.613,-86.112
+46960,41.161,-86.516
+46961,40.767,-86.192
+46962,40.989,-85.768
+46965,40.416,-86.102
+46967,40.695,-86.195
+46968,41.17,-86.552
+46970,40.758,-86.061
+46971,40.661,-86.162
+46974,40.952,-85.934
+46975,41.075,-86.251
+46978,40.859,-86.511
+46979,40.429,-86.276
+46980,40.956,-85.742
+46982,41.052,-85.878
+46984,40.668,-85.83
+46985,40.96,-86.58
+46986,40.495,-85.819
+46987,40.569,-85.765
+46988,40.877,-86.235
+46989,40.449,-85.481
+46990,40.902,-85.728
+46991,40.628,-85.514
+46992,40.785,-85.831
+46994,40.667,-86.254
+46996,41.062,-86.658
+46998,40.575,-86.351
+47001,39.057,-84.956
+47003,39.56,-84.834
+47006,39.286,-85.213
+47010,39.502,-84.849
+47011,38.871,-85.062
+47012,39.427,-84.983
+47016,39.372,-84.89
+47017,38.94,-85.181
+47018,38.992,-85.104
+47020,38.818,-84.924
+47021,38.97,-85.149
+47022,39.207,-84.951
+47023,39.071,-85.377
+47024,39.477,-85.199
+47025,39.153,-84.874
+47030,39.424,-85.133
+47031,39.131,-85.148
+47032,39.081,-85.056
+47033,39.282,-85.175
+47034,39.204,-85.327
+47035,39.31,-84.904
+47036,39.386,-85.231
+47037,39.169,-85.326
+47038,38.85,-84.85
+47040,38.928,-84.911
+47041,39.234,-85.084
+47042,39.019,-85.255
+47043,38.793,-85.103
+47060,39.292,-84.868
+47102,38.755,-85.797
+47104,38.556,-85.424
+47106,38.464,-85.9
+47108,38.646,-86.257
+47110,38.095,-86.208
+47111,38.466,-85.632
+47112,38.186,-86.145
+47114,38.288,-86.073
+47115,38.345,-86.217
+47116,38.327,-86.618
+47117,38.107,-85.967
+47118,38.3,-86.483
+47119,38.372,-85.882
+47120,38.46,-86.189
+47122,38.306,-85.985
+47123,38.286,-86.472
+47124,38.365,-86.004
+47125,38.462,-86.304
+47126,38.547,-85.776
+47129,38.313,-85.769
+47130,38.332,-85.696
+47135,38.049,-86.074
+47136,38.235,-85.966
+47137,38.153,-86.434
+47138,38.682,-85.585
+47140,38.384,-86.371
+47141,38.548,-85.612
+47142,38.062,-86.201
+47143,38.469,-85.775
+47145,38.33,-86.307
+47147,38.599,-85.534
+47150,38.284,-85.848
+47160,38.157,-86.05
+47161,38.322,-86.104
+47162,38.549,-85.491
+47163,38.545,-85.679
+47164,38.413,-86.096
+47165,38.502,-86.005
+47166,38.307,-86.169
+47167,38.607,-86.093
+47170,38.685,-85.844
+47172,38.4,-85.774
+47174,38.227,-86.482
+47175,38.358,-86.555
+47177,38.59,-85.792
+47201,39.148,-85.999
+47203,39.23,-85.832
+47220,38.878,-86.055
+47223,39.056,-85.479
+47224,38.89,-85.228
+47225,39.436,-85.344
+47226,39.283,-85.869
+47227,38.868,-85.654
+47229,38.807,-85.865
+47230,38.792,-85.625
+47231,38.901,-85.495
+47232,39.111,-85.791
+47234,39.376,-85.768
+47235,39.018,-86.138
+47236,39.152,-85.725
+47240,39.306,-85.478
+47243,38.669,-85.482
+47244,39.218,-85.702
+47246,39.298,-85.764
+47247,39.06,-85.888
+47250,38.811,-85.362
+47260,38.837,-86.198
+47263,39.309,-85.328
+47264,38.979,-86.251
+47265,39.009,-85.627
+47270,38.839,-85.723
+47272,39.411,-85.621
+47273,39.076,-85.737
+47274,38.966,-85.926
+47280,39.297,-85.95
+47281,38.789,-86.106
+47282,38.985,-85.61
+47283,39.17,-85.588
+47302,40.13,-85.374
+47303,40.272,-85.378
+47304,40.236,-85.46
+47305,40.194,-85.386
+47306,40.207,-85.407
+47320,40.272,-85.273
+47324,39.741,-84.852
+47325,39.694,-85.013
+47326,40.549,-84.967
+47327,39.834,-85.179
+47330,39.786,-85.022
+47331,39.624,-85.157
+47334,40.106,-85.523
+47335,39.812,-85.207
+47336,40.398,-85.212
+47337,39.803,-85.437
+47338,40.342,-85.337
+47339,39.939,-85.079
+47340,40.181,-85.134
+47341,39.972,-84.892
+47342,40.329,-85.508
+47344,39.879,-85.464
+47345,39.894,-85.06
+47346,39.932,-85.168
+47348,40.466,-85.34
+47351,39.904,-85.52
+47352,39.796,-85.367
+47353,39.623,-84.925
+47354,40.041,-85.193
+47355,40.044,-84.927
+47356,40.031,-85.507
+47357,39.751,-85.147
+47358,40.057,-85.113
+47359,40.552,-85.286
+47360,40.011,-85.258
+47361,40.004,-85.385
+47362,39.932,-85.37
+47366,39.861,-85.261
+47367,40.084,-85.392
+47368,40.182,-85.194
+47369,40.507,-85.142
+47370,39.813,-85.138
+47371,40.419,-84.963
+47373,40.34,-85.156
+47374,39.834,-84.89
+47380,40.285,-85.046
+47381,40.387,-84.865
+47382,40.237,-84.918
+47383,40.156,-85.267
+47384,39.909,-85.551
+47385,39.833,-85.446
+47386,40.055,-85.386
+47387,39.838,-85.299
+47388,40.006,-85.443
+47390,40.206,-84.846
+47392,39.91,-84.944
+47393,39.963,-85.004
+47394,40.168,-84.987
+47396,40.189,-85.517
+47401,39.102,-86.443
+47403,39.085,-86.612
+47404,39.22,-86.591
+47405,39.168,-86.521
+47406,39.175,-86.515
+47408,39.23,-86.467
+47420,38.919,-86.549
+47421,38.863,-86.452
+47424,39.02,-86.882
+47427,39.237,-87.007
+47429,39.276,-86.614
+47431,39.245,-86.915
+47432,38.493,-86.639
+47433,39.356,-86.642
+47434,39.013,-86.546
+47435,39.266,-86.295
+47436,38.954,-86.386
+47437,38.714,-86.677
+47438,39.16,-87.177
+47441,39.039,-87.174
+47443,38.968,-87.082
+47445,39.113,-87.189
+47446,38.733,-86.512
+47448,39.18,-86.236
+47449,38.938,-86.988
+47451,38.892,-86.525
+47452,38.644,-86.414
+47453,38.94,-86.771
+47454,38.51,-86.452
+47455,39.313,-86.958
+47456,39.465,-86.691
+47457,38.912,-86.905
+47458,39.07,-86.507
+47459,39.114,-86.751
+47460,39.272,-86.792
+47462,38.958,-86.648
+47464,39.3,-86.65
+47465,39.062,-87.037
+47467,38.768,-86.344
+47468,39.286,-86.393
+47469,38.638,-86.599
+47470,38.818,-86.637
+47471,39.143,-87.005
+47501,38.662,-87.175
+47512,38.779,-87.319
+47513,38.304,-86.714
+47514,38.149,-86.594
+47515,38.184,-86.704
+47516,38.771,-87.419
+47519,38.59,-86.984
+47520,37.945,-86.668
+47521,38.408,-86.721
+47522,38.879,-86.802
+47523,38.179,-87.026
+47524,38.484,-87.619
+47525,38.02,-86.56
+47527,38.469,-86.786
+47528,38.848,-87.259
+47529,38.866,-87.075
+47531,38.04,-86.851
+47532,38.22,-86.86
+47535,38.863,-87.313
+47537,38.114,-87.065
+47541,38.235,-87.046
+47542,38.299,-86.967
+47546,38.419,-86.933
+47550,38.067,-86.921
+47551,38.114,-86.57
+47552,38.112,-86.994
+47553,38.656,-86.913
+47557,38.57,-87.342
+47558,38.639,-87.05
+47561,38.864,-87.438
+47562,38.833,-86.974
+47564,38.482,-87.098
+47567,38.463,-87.305
+47568,38.764,-87.102
+47573,38.744,-87.322
+47574,37.95,-86.562
+47575,38.325,-86.802
+47576,38.179,-86.595
+47577,38.15,-86.808
+47578,38.883,-87.194
+47579,38.111,-86.914
+47580,38.355,-86.767
+47581,38.663,-86.759
+47584,38.251,-87.257
+47585,38.268,-87.158
+47586,38.036,-86.694
+47588,38.029,-86.804
+47590,38.344,-87.1
+47591,38.629,-87.501
+47596,38.863,-87.234
+47597,38.642,-87.295
+47598,38.388,-87.208
+47601,38.051,-87.255
+47610,38.062,-87.399
+47611,38.028,-87.057
+47612,38.195,-87.702
+47613,38.15,-87.425
+47615,37.971,-86.952
+47616,38.233,-87.91
+47619,38.193,-87.325
+47620,37.932,-87.904
+47630,37.953,-87.346
+47631,38.109,-87.902
+47633,38.169,-87.786
+47634,37.939,-87.182
+47635,37.883,-87.101
+47637,38.141,-87.16
+47638,38.064,-87.778
+47639,38.188,-87.566
+47640,38.478,-87.484
+47648,38.249,-87.551
+47649,38.353,-87.451
+47654,38.253,-87.391
+47660,38.296,-87.328
+47665,38.283,-87.734
+47666,38.418,-87.6
+47670,38.345,-87.585
+47683,38.277,-87.377
+47708,37.974,-87.574
+47710,38.026,-87.576
+47711,38.015,-87.537
+47712,37.924,-87.65
+47713,37.949,-87.555
+47714,37.957,-87.521
+47715,37.972,-87.48
+47720,38.063,-87.642
+47725,38.103,-87.527
+47802,39.351,-87.414
+47803,39.466,-87.307
+47804,39.498,-87.391
+47805,39.546,-87.326
+47807,39.473,-87.403
+47809,39.471,-87.41
+47831,39.665,-87.522
+47832,39.881,-87.258
+47833,39.359,-86.975
+47834,39.524,-87.123
+47836,39.649,-87.172
+47837,39.627,-87.115
+47838,38.962,-87.384
+47840,39.407,-87.062
+47841,39.277,-87.115
+47842,39.678,-87.454
+47845,39.194,-87.234
+47846,39.367,-87.194
+47847,39.817,-87.486
+47848,39.042,-87.262
+47849,39.195,-87.564
+47850,39.237,-87.436
+47851,39.574,-87.246
+47853,39.537,-87.073
+47854,39.806,-87.412
+47855,39.188,-87.302
+47857,39.524,-87.091
+47858,39.262,-87.225
+47859,39.882,-87.172
+47860,39.722,-87.33
+47861,39.073,-87.57
+47862,39.776,-87.343
+47863,39.578,-87.459
+47865,39.019,-87.393
+47866,39.283,-87.322
+47868,39.411,-86.903
+47869,39.275,-87.497
+47870,39.37,-87.474
+47871,39.39,-87.3
+47872,39.749,-87.165
+47874,39.637,-87.279
+47875,39.714,-87.522
+47876,39.51,-87.461
+47879,39.198,-87.379
+47880,39.6,-87.419
+47881,39.487,-87.19
+47882,39.089,-87.411
+47884,39.623,-87.454
+47885,39.506,-87.476
+47901,40.418,-86.89
+47904,40.439,-86.875
+47905,40.422,-86.764
+47906,40.48,-86.989
+47907,40.422,-86.914
+47909,40.325,-86.896
+47916,39.983,-87.055
+47917,40.469,-87.476
+47918,40.299,-87.21
+47920,40.541,-86.834
+47921,40.478,-87.375
+47922,40.877,-87.349
+47923,40.61,-86.94
+47924,40.49,-86.758
+47925,40.882,-86.745
+47926,40.78,-86.596
+47928,39.921,-87.472
+47929,40.67,-86.913
+47930,40.238,-86.741
+47932,40.134,-87.415
+47933,40.038,-86.902
+47940,40.117,-86.745
+47941,40.375,-86.771
+47942,40.686,-87.444
+47943,41.064,-87.284
+47944,40.614,-87.336
+47946,40.984,-86.87
+47948,40.776,-87.287
+47949,40.061,-87.137
+47950,40.802,-86.654
+47951,40.79,-87.444
+47952,39.96,-87.299
+47954,39.9,-86.819
+47955,40.193,-86.867
+47957,41.089,-86.877
+47958,40.165,-87.149
+47959,40.863,-86.901
+47960,40.788,-86.752
+47963,40.968,-87.44
+47964,40.952,-87.3
+47965,39.955,-86.92
+47966,39.888,-87.414
+47967,40.194,-86.999
+47968,39.96,-86.75
+47969,40.204,-87.149
+47970,40.465,-87.118
+47971,40.525,-87.236
+47974,40.043,-87.48
+47975,40.444,-87.253
+47977,40.763,-87.157
+47978,40.986,-87.113
+47980,40.752,-86.909
+47981,40.251,-86.945
+47982,40.197,-87.527
+47983,40.286,-86.774
+47986,40.514,-87.207
+47987,40.121,-87.235
+47989,39.89,-87.049
+47990,40.061,-87.06
+47991,40.28,-87.446
+47992,40.319,-87.049
+47993,40.309,-87.413
+47994,40.182,-87.082
+47995,40.761,-87.03
+47997,40.668,-86.724
+48001,42.639,-82.582
+48002,42.935,-82.916
+48003,42.93,-83.04
+48005,42.856,-82.912
+48006,43.083,-82.691
+48009,42.544,-83.218
+48014,43.026,-82.932
+48015,42.481,-83.027
+48017,42.537,-83.15
+48021,42.466,-82.946
+48022,43.023,-82.802
+48023,42.704,-82.659
+48025,42.52,-83.265
+48026,42.538,-82.947
+48027,42.944,-82.694
+48028,42.58,-82.617
+48030,42.462,-83.098
+48032,43.133,-82.597
+48033,42.459,-83.293
+48034,42.497,-83.291
+48035,42.557,-82.908
+48036,42.597,-82.913
+48038,42.604,-82.941
+48039,42.693,-82.546
+48040,42.91,-82.481
+48041,42.937,-82.81
+48042,42.684,-82.909
+48043,42.598,-82.882
+48044,42.65,-82.929
+48045,42.587,-82.817
+48047,42.674,-82.774
+48048,42.738,-82.798
+48049,43.04,-82.571
+48050,42.788,-82.799
+48051,42.69,-82.826
+48054,42.77,-82.529
+48059,43.087,-82.494
+48060,42.984,-82.458
+48062,42.852,-82.796
+48063,42.859,-82.683
+48064,42.765,-82.667
+48065,42.845,-83.039
+48066,42.508,-82.937
+48067,42.491,-83.138
+48069,42.472,-83.144
+48070,42.482,-83.168
+48071,42.507,-83.103
+48072,42.498,-83.186
+48073,42.519,-83.164
+48074,42.95,-82.562
+48075,42.462,-83.23
+48076,42.498,-83.231
+48079,42.859,-82.548
+48080,42.465,-82.897
+48081,42.495,-82.895
+48082,42.528,-82.887
+48083,42.557,-83.117
+48084,42.561,-83.176
+48085,42.604,-83.122
+48088,42.516,-82.983
+48089,42.468,-82.994
+48091,42.468,-83.058
+48092,42.513,-83.06
+48093,42.516,-83.016
+48094,42.735,-83.052
+48095,42.779,-83.048
+48096,42.762,-82.92
+48097,43.122,-82.827
+48098,42.598,-83.178
+48101,42.259,-83.21
+48103,42.261,-83.846
+48104,42.262,-83.717
+48105,42.328,-83.696
+48108,42.222,-83.732
+48109,42.291,-83.708
+48111,42.183,-83.489
+48114,42.568,-83.756
+48116,42.506,-83.781
+48117,42.05,-83.41
+48118,42.312,-84.034
+48120,42.303,-83.163
+48122,42.279,-83.182
+48124,42.298,-83.248
+48125,42.277,-83.265
+48126,42.33,-83.187
+48127,42.336,-83.283
+48128,42.32,-83.26
+48130,42.364,-83.909
+48131,41.967,-83.673
+48133,41.782,-83.486
+48134,42.107,-83.296
+48135,42.324,-83.341
+48137,42.472,-84.075
+48138,42.131,-83.156
+48139,42.453,-83.808
+48140,41.882,-83.581
+48141,42.294,-83.32
+48143,42.457,-83.852
+48144,41.752,-83.629
+48145,41.844,-83.46
+48146,42.243,-83.181
+48150,42.372,-83.377
+48152,42.425,-83.374
+48154,42.398,-83.372
+48157,41.815,-83.437
+48158,42.156,-84.029
+48159,42.025,-83.549
+48160,42.082,-83.68
+48161,41.907,-83.472
+48162,41.96,-83.429
+48164,42.132,-83.397
+48165,42.498,-83.618
+48166,41.988,-83.292
+48167,42.432,-83.524
+48168,42.405,-83.54
+48169,42.462,-83.947
+48170,42.368,-83.534
+48173,42.074,-83.213
+48174,42.237,-83.392
+48176,42.137,-83.829
+48177,41.805,-83.582
+48178,42.444,-83.657
+48179,42.035,-83.255
+48180,42.225,-83.268
+48182,41.79,-83.584
+48183,42.131,-83.218
+48184,42.274,-83.396
+48185,42.334,-83.384
+48186,42.294,-83.371
+48187,42.326,-83.484
+48188,42.286,-83.487
+48189,42.41,-83.783
+48190,42.132,-83.603
+48191,42.121,-83.566
+48192,42.211,-83.157
+48193,42.174,-83.211
+48195,42.205,-83.206
+48197,42.194,-83.64
+48198,42.275,-83.586
+48201,42.347,-83.06
+48202,42.375,-83.078
+48203,42.421,-83.105
+48204,42.366,-83.143
+48205,42.433,-82.981
+48206,42.375,-83.108
+48207,42.349,-83.013
+48208,42.348,-83.092
+48209,42.306,-83.118
+48210,42.336,-83.129
+48211,42.382,-83.046
+48212,42.41,-83.056
+48213,42.398,-82.995
+48214,42.365,-82.988
+48215,42.375,-82.954
+48216,42.326,-83.079
+48217,42.278,-83.155
+48218,42.27,-83.132
+48219,42.425,-83.251
+48220,42.458,-83.135
+48221,42.427,-83.15
+48223,42.393,-83.246
+48224,42.411,-82.941
+48225,42.439,-82.93
+48226,42.332,-83.05
+48227,42.387,-83.193
+48228,42.355,-83.218
+48229,42.25,-83.14
+48230,42.382,-82.922
+48233,42.323,-83.063
+48234,42.431,-83.04
+48235,42.427,-83.195
+48236,42.423,-82.893
+48237,42.465,-83.182
+48238,42.396,-83.141
+48239,42.376,-83.286
+48240,42.424,-83.301
+48242,42.214,-83.356
+48243,42.33,-83.04
+48301,42.542,-83.282
+48302,42.582,-83.305
+48304,42.589,-83.233
+48306,42.724,-83.147
+48307,42.659,-83.123
+48309,42.657,-83.187
+48310,42.567,-83.067
+48312,42.558,-83.009
+48313,42.599,-82.997
+48314,42.612,-83.053
+48315,42.672,-82.997
+48316,42.69,-83.057
+48317,42.644,-83.052
+48320,42.612,-83.338
+48322,42.538,-83.385
+48323,42.571,-83.378
+48324,42.595,-83.394
+48326,42.688,-83.244
+48327,42.638,-83.411
+48328,42.65,-83.363
+48329,42.687,-83.389
+48331,42.502,-83.409
+48334,42.505,-83.349
+48335,42.463,-83.405
+48336,42.463,-83.348
+48340,42.672,-83.288
+48341,42.627,-83.291
+48342,42.644,-83.275
+48346,42.718,-83.429
+48348,42.769,-83.404
+48350,42.739,-83.531
+48353,42.646,-83.714
+48356,42.654,-83.593
+48357,42.659,-83.647
+48359,42.721,-83.275
+48360,42.747,-83.261
+48362,42.782,-83.269
+48363,42.772,-83.162
+48367,42.836,-83.137
+48370,42.84,-83.192
+48371,42.846,-83.285
+48374,42.474,-83.52
+48375,42.466,-83.464
+48377,42.505,-83.474
+48380,42.583,-83.667
+48381,42.558,-83.592
+48382,42.582,-83.511
+48383,42.656,-83.526
+48386,42.66,-83.48
+48390,42.551,-83.474
+48393,42.522,-83.545
+48401,43.347,-82.661
+48410,43.566,-82.936
+48411,42.934,-83.53
+48412,43.07,-83.176
+48413,43.803,-82.997
+48414,42.862,-84.08
+48415,43.272,-83.808
+48416,43.217,-82.985
+48417,43.261,-83.939
+48418,42.794,-83.97
+48419,43.436,-82.66
+48420,43.179,-83.701
+48421,43.155,-83.393
+48422,43.261,-82.654
+48423,43.04,-83.514
+48426,43.509,-83.065
+48427,43.536,-82.725
+48428,42.938,-83.154
+48429,42.903,-84.004
+48430,42.757,-83.738
+48432,43.902,-82.975
+48433,43.082,-83.861
+48434,43.66,-82.613
+48435,43.245,-83.359
+48436,42.876,-83.879
+48437,43.113,-83.618
+48438,42.914,-83.484
+48439,42.917,-83.631
+48440,42.956,-83.408
+48441,43.798,-82.709
+48442,42.799,-83.596
+48444,43.058,-83.045
+48445,43.95,-82.991
+48446,43.054,-83.339
+48449,42.991,-83.945
+48450,43.252,-82.541
+48451,42.806,-83.816
+48453,43.348,-83.033
+48454,43.195,-82.813
+48455,42.94,-83.291
+48456,43.667,-82.762
+48457,43.19,-83.894
+48458,43.125,-83.682
+48460,43.124,-83.984
+48461,43.194,-83.206
+48462,42.848,-83.421
+48463,43.166,-83.519
+48464,43.211,-83.419
+48465,43.616,-82.706
+48466,43.281,-82.809
+48467,44.015,-82.982
+48468,43.938,-82.775
+48469,43.441,-82.558
+48470,43.736,-82.764
+48471,43.419,-82.852
+48472,43.512,-82.963
+48473,42.937,-83.82
+48475,43.67,-82.933
+48476,42.938,-84.035
+48502,43.015,-83.689
+48503,42.999,-83.71
+48504,43.055,-83.744
+48505,43.069,-83.692
+48506,43.067,-83.624
+48507,42.967,-83.717
+48509,43.03,-83.601
+48519,42.982,-83.605
+48529,42.97,-83.659
+48532,43.011,-83.795
+48601,43.395,-83.889
+48602,43.42,-83.974
+48603,43.459,-84.029
+48604,43.5,-83.969
+48607,43.432,-83.934
+48609,43.39,-84.083
+48610,44.142,-84.192
+48611,43.634,-84.097
+48612,43.883,-84.439
+48613,43.948,-84.156
+48614,43.251,-84.298
+48615,43.422,-84.474
+48616,43.191,-84.113
+48617,43.851,-84.717
+48618,43.737,-84.557
+48619,44.82,-84.021
+48620,43.808,-84.38
+48621,44.721,-84.013
+48622,43.835,-84.891
+48623,43.519,-84.134
+48624,44.061,-84.457
+48625,44.052,-84.837
+48626,43.421,-84.221
+48627,44.462,-84.749
+48628,43.774,-84.324
+48629,44.312,-84.785
+48630,44.325,-84.773
+48631,43.689,-83.996
+48632,43.85,-85.023
+48633,43.949,-84.934
+48634,43.76,-84.036
+48635,44.387,-83.994
+48636,44.586,-84.286
+48637,43.414,-84.336
+48638,43.419,-84.018
+48640,43.582,-84.337
+48642,43.702,-84.235
+48647,44.651,-84.086
+48649,43.15,-84.217
+48650,43.849,-84.013
+48651,44.255,-84.615
+48652,43.849,-84.217
+48653,44.49,-84.606
+48654,44.477,-84.118
+48655,43.295,-84.16
+48656,44.355,-84.462
+48657,43.707,-84.423
+48658,43.975,-83.937
+48659,44.066,-84.051
+48661,44.318,-84.236
+48662,43.401,-84.417
+48701,43.587,-83.558
+48703,44.064,-83.676
+48705,44.696,-83.656
+48706,43.604,-83.955
+48708,43.557,-83.85
+48710,43.557,-83.988
+48720,43.832,-83.393
+48721,44.797,-83.329
+48722,43.347,-83.845
+48723,43.488,-83.385
+48724,43.458,-83.926
+48725,43.944,-83.21
+48726,43.607,-83.168
+48727,43.306,-83.181
+48728,44.744,-83.822
+48729,43.496,-83.174
+48730,44.349,-83.487
+48731,43.837,-83.152
+48732,43.612,-83.79
+48733,43.534,-83.593
+48734,43.358,-83.749
+48735,43.668,-83.271
+48737,44.55,-83.712
+48738,44.55,-83.336
+48739,44.37,-83.845
+48740,44.664,-83.372
+48741,43.402,-83.18
+48742,44.722,-83.446
+48743,44.441,-83.863
+48744,43.348,-83.359
+48745,44.564,-83.484
+48746,43.26,-83.541
+48747,43.519,-83.765
+48748,44.329,-83.698
+48749,44.054,-83.901
+48750,44.435,-83.473
+48754,43.733,-83.242
+48755,43.792,-83.246
+48756,44.234,-83.973
+48757,43.47,-83.676
+48759,43.73,-83.386
+48760,43.318,-83.253
+48761,44.511,-83.892
+48762,44.8,-83.497
+48763,44.246,-83.613
+48765,44.152,-83.718
+48766,44.11,-83.856
+48767,43.651,-83.463
+48768,43.37,-83.576
+48770,44.251,-83.814
+48801,43.378,-84.676
+48806,43.186,-84.495
+48807,43.15,-84.402
+48808,42.827,-84.453
+48809,43.075,-85.258
+48811,43.184,-84.856
+48813,42.573,-84.846
+48815,42.834,-85.259
+48816,42.765,-83.956
+48817,43.014,-84.043
+48818,43.273,-84.898
+48819,42.544,-84.293
+48820,42.864,-84.592
+48821,42.64,-84.651
+48822,42.835,-84.763
+48823,42.764,-84.46
+48824,42.722,-84.475
+48825,42.732,-84.49
+48827,42.508,-84.661
+48829,43.398,-85.015
+48831,43.096,-84.372
+48832,43.412,-84.777
+48834,43.129,-85.031
+48835,43.025,-84.749
+48836,42.669,-84.077
+48837,42.747,-84.771
+48838,43.183,-85.258
+48840,42.763,-84.379
+48841,43.112,-84.239
+48842,42.635,-84.539
+48843,42.576,-83.923
+48845,43.111,-84.853
+48846,42.986,-85.058
+48847,43.273,-84.576
+48848,42.881,-84.357
+48849,42.797,-85.128
+48850,43.435,-85.246
+48851,42.951,-84.936
+48852,43.353,-85.046
+48853,43.1,-84.689
+48854,42.582,-84.452
+48855,42.681,-83.897
+48856,43.197,-84.734
+48857,42.841,-84.156
+48858,43.616,-84.795
+48859,43.587,-84.773
+48860,43.053,-84.922
+48861,42.729,-84.916
+48862,43.25,-84.548
+48864,42.704,-84.392
+48865,43.091,-85.105
+48866,42.993,-84.383
+48867,43.006,-84.188
+48870,43.11,-84.985
+48871,43.157,-84.674
+48872,42.799,-84.223
+48873,43.007,-84.828
+48874,43.186,-84.595
+48875,42.861,-84.941
+48876,42.648,-84.733
+48877,43.404,-84.841
+48878,43.706,-84.78
+48879,43.007,-84.579
+48880,43.459,-84.578
+48881,42.933,-85.204
+48883,43.544,-84.674
+48884,43.21,-85.049
+48885,43.243,-85.148
+48886,43.416,-85.16
+48888,43.315,-85.106
+48889,43.285,-84.807
+48890,42.767,-84.966
+48891,43.395,-84.912
+48892,42.644,-84.17
+48893,43.687,-84.99
+48894,42.926,-84.793
+48895,42.689,-84.28
+48896,43.521,-84.901
+48897,42.704,-85.13
+48906,42.788,-84.589
+48910,42.697,-84.525
+48911,42.673,-84.573
+48912,42.738,-84.524
+48915,42.74,-84.571
+48917,42.725,-84.64
+48933,42.729,-84.556
+49001,42.265,-85.562
+49002,42.197,-85.556
+49004,42.349,-85.558
+49006,42.295,-85.629
+49007,42.303,-85.588
+49008,42.264,-85.613
+49009,42.304,-85.698
+49010,42.533,-85.871
+49011,42.099,-85.225
+49012,42.351,-85.345
+49013,42.302,-86.1
+49014,42.31,-85.107
+49015,42.278,-85.229
+49017,42.392,-85.201
+49021,42.46,-85.055
+49022,42.112,-86.374
+49024,42.207,-85.618
+49026,42.377,-85.963
+49027,42.35,-86.067
+49028,41.844,-85.18
+49029,42.141,-85.089
+49030,41.866,-85.339
+49031,41.904,-85.977
+49032,41.911,-85.523
+49033,42.228,-85.089
+49034,42.234,-85.331
+49036,41.905,-85.031
+49037,42.335,-85.249
+49038,42.203,-86.321
+49040,41.966,-85.323
+49042,41.859,-85.669
+49043,42.286,-86.269
+49045,42.102,-85.999
+49046,42.519,-85.388
+49047,42.005,-86.121
+49048,42.274,-85.493
+49050,42.504,-85.246
+49051,42.177,-85.237
+49052,42.121,-85.315
+49053,42.286,-85.411
+49055,42.368,-85.858
+49056,42.395,-86.066
+49057,42.184,-86.183
+49058,42.636,-85.3
+49060,42.424,-85.405
+49061,41.874,-85.815
+49063,42.41,-86.14
+49064,42.22,-86.05
+49065,42.138,-85.842
+49066,42.031,-85.344
+49067,42.024,-85.799
+49068,42.276,-84.941
+49070,42.539,-85.629
+49071,42.226,-85.776
+49072,42.013,-85.458
+49073,42.575,-85.126
+49074,42.32,-85.54
+49075,41.918,-85.449
+49076,42.429,-84.88
+49078,42.473,-85.733
+49079,42.24,-85.908
+49080,42.456,-85.588
+49082,41.941,-84.877
+49083,42.378,-85.461
+49084,42.18,-86.385
+49085,42.054,-86.463
+49087,42.125,-85.676
+49088,42.18,-85.423
+49089,42.001,-85.234
+49090,42.407,-86.215
+49091,41.828,-85.448
+49092,42.094,-84.963
+49093,41.976,-85.647
+49094,42.05,-85.114
+49095,41.906,-85.886
+49096,42.637,-85.007
+49097,42.122,-85.487
+49098,42.164,-86.24
+49099,41.793,-85.672
+49101,41.944,-86.483
+49102,41.949,-86.252
+49103,41.946,-86.376
+49104,41.964,-86.359
+49106,41.938,-86.555
+49107,41.845,-86.418
+49111,42.023,-86.291
+49112,41.796,-86.031
+49113,41.803,-86.501
+49115,41.875,-86.634
+49116,41.848,-86.672
+49117,41.782,-86.727
+49119,41.876,-86.549
+49120,41.832,-86.231
+49125,41.892,-86.579
+49126,42.033,-86.372
+49127,42,-86.522
+49128,41.82,-86.6
+49129,41.816,-86.686
+49130,41.774,-85.86
+49201,42.312,-84.456
+49202,42.267,-84.411
+49203,42.221,-84.402
+49220,41.999,-84.337
+49221,41.902,-84.065
+49224,42.28,-84.747
+49227,41.95,-84.773
+49228,41.809,-83.876
+49229,41.992,-83.826
+49230,42.09,-84.217
+49232,41.74,-84.665
+49233,42.062,-84.367
+49234,42.127,-84.369
+49235,41.864,-84.201
+49236,42.076,-83.942
+49237,42.173,-84.648
+49238,41.902,-83.786
+49240,42.272,-84.18
+49241,42.108,-84.603
+49242,41.886,-84.623
+49245,42.139,-84.812
+49246,42.123,-84.504
+49247,41.838,-84.338
+49248,41.756,-84.011
+49249,42.029,-84.455
+49250,42.022,-84.626
+49251,42.463,-84.413
+49252,42.035,-84.765
+49253,41.962,-84.269
+49254,42.226,-84.324
+49255,41.768,-84.863
+49256,41.747,-84.214
+49258,42.06,-84.658
+49259,42.383,-84.256
+49261,42.163,-84.247
+49262,41.964,-84.468
+49263,42.158,-84.182
+49264,42.446,-84.555
+49265,42.007,-84.175
+49266,41.84,-84.547
+49267,41.757,-83.719
+49268,41.869,-83.929
+49269,42.288,-84.58
+49270,41.874,-83.681
+49271,41.832,-84.453
+49272,42.395,-84.351
+49274,41.847,-84.76
+49276,41.795,-83.777
+49277,42.389,-84.469
+49279,41.78,-84.104
+49282,42.033,-84.401
+49283,42.201,-84.556
+49284,42.382,-84.691
+49285,42.463,-84.21
+49286,42.009,-83.93
+49287,42.023,-84.073
+49288,41.734,-84.43
+49289,41.771,-84.107
+49301,42.973,-85.477
+49302,42.822,-85.402
+49303,43.272,-85.861
+49304,43.908,-85.873
+49305,43.752,-85.151
+49306,43.075,-85.566
+49307,43.698,-85.483
+49309,43.76,-85.877
+49310,43.514,-85.047
+49312,43.686,-85.784
+49315,42.804,-85.742
+49316,42.794,-85.55
+49318,43.227,-85.82
+49319,43.23,-85.528
+49320,43.755,-85.288
+49321,43.074,-85.682
+49322,43.356,-85.351
+49323,42.729,-85.791
+49325,42.761,-85.302
+49326,43.254,-85.317
+49327,43.324,-85.845
+49328,42.634,-85.758
+49329,43.407,-85.495
+49330,43.242,-85.737
+49331,42.95,-85.352
+49332,43.621,-85.242
+49333,42.695,-85.464
+49335,42.746,-85.669
+49336,43.508,-85.436
+49337,43.423,-85.719
+49338,43.772,-85.602
+49339,43.331,-85.496
+49340,43.618,-85.111
+49341,43.124,-85.491
+49342,43.69,-85.316
+49343,43.3,-85.526
+49344,42.59,-85.591
+49345,43.154,-85.705
+49346,43.595,-85.421
+49347,43.312,-85.345
+49348,42.685,-85.61
+49349,43.575,-85.749
+49401,42.978,-85.959
+49402,43.941,-86.018
+49403,43.141,-85.858
+49404,43.063,-85.952
+49405,43.907,-86.19
+49406,42.641,-86.211
+49408,42.572,-86.116
+49409,43.081,-86.218
+49410,44.027,-86.149
+49411,44.115,-86.257
+49412,43.47,-85.946
+49415,43.151,-86.114
+49417,43.009,-86.152
+49418,42.878,-85.768
+49419,42.677,-85.98
+49420,43.72,-86.282
+49421,43.6,-86.069
+49423,42.739,-86.085
+49424,42.833,-86.13
+49425,43.45,-86.111
+49426,42.863,-85.888
+49428,42.92,-85.836
+49430,43.012,-85.9
+49431,43.965,-86.409
+49434,42.77,-86.208
+49435,43.024,-85.835
+49436,43.687,-86.469
+49437,43.464,-86.385
+49440,43.237,-86.253
+49441,43.18,-86.287
+49442,43.242,-86.136
+49443,43.222,-86.242
+49444,43.177,-86.2
+49445,43.293,-86.294
+49446,43.54,-86.378
+49448,43.094,-86.072
+49449,43.794,-86.389
+49450,42.478,-86.075
+49451,43.213,-85.968
+49452,43.515,-86.255
+49453,42.661,-86.179
+49454,43.946,-86.285
+49455,43.61,-86.378
+49456,43.091,-86.206
+49457,43.351,-86.145
+49458,43.948,-86.115
+49459,43.736,-86.096
+49460,42.932,-86.151
+49461,43.377,-86.331
+49464,42.845,-85.985
+49503,42.962,-85.659
+49504,42.982,-85.711
+49505,42.996,-85.638
+49506,42.946,-85.614
+49507,42.931,-85.655
+49508,42.873,-85.628
+49509,42.898,-85.693
+49512,42.88,-85.553
+49519,42.896,-85.72
+49525,43.022,-85.592
+49534,42.964,-85.787
+49544,43.039,-85.747
+49546,42.933,-85.536
+49548,42.868,-85.663
+49601,44.243,-85.54
+49611,44.98,-84.979
+49612,44.863,-85.225
+49613,44.506,-86.207
+49614,44.446,-86.112
+49615,44.965,-85.207
+49616,44.58,-86.09
+49617,44.642,-86.032
+49618,44.303,-85.59
+49619,44.293,-85.991
+49620,44.516,-85.686
+49621,44.858,-85.77
+49622,45.075,-85.267
+49623,43.909,-85.692
+49625,44.433,-85.858
+49626,44.243,-86.293
+49627,45.112,-85.359
+49628,44.621,-86.234
+49629,44.919,-85.39
+49630,44.841,-86.046
+49631,43.917,-85.259
+49632,44.239,-84.968
+49633,44.562,-85.185
+49634,44.215,-86.289
+49635,44.626,-86.193
+49636,44.891,-85.965
+49637,44.636,-85.711
+49638,44.287,-85.756
+49639,43.847,-85.409
+49640,44.724,-86.047
+49642,43.904,-85.784
+49643,44.64,-85.829
+49644,44.112,-85.918
+49645,44.372,-86.025
+49646,44.72,-85.036
+49648,44.998,-85.339
+49649,44.563,-85.525
+49650,44.74,-85.887
+49651,44.399,-85.106
+49653,44.974,-85.724
+49654,45.01,-86.136
+49655,44.025,-85.432
+49656,44.056,-85.697
+49657,44.215,-85.184
+49659,44.906,-85.034
+49660,44.234,-86.211
+49663,44.423,-85.394
+49664,44.888,-85.899
+49665,44.1,-85.132
+49667,44.346,-84.931
+49668,44.402,-85.713
+49670,45.119,-85.62
+49674,45.048,-85.592
+49675,44.384,-86.225
+49676,44.843,-85.294
+49677,43.896,-85.535
+49679,43.878,-85.159
+49680,44.648,-85.241
+49682,44.988,-85.647
+49683,44.541,-85.927
+49684,44.762,-85.685
+49685,44.7,-85.701
+49686,44.849,-85.543
+49688,44.127,-85.44
+49689,44.211,-85.911
+49690,44.784,-85.395
+49696,44.674,-85.487
+49701,45.742,-84.741
+49705,45.349,-84.463
+49706,45.438,-84.779
+49707,45.094,-83.476
+49709,45.044,-84.171
+49710,46.276,-84.177
+49712,45.211,-85.011
+49713,45.221,-84.845
+49715,46.401,-84.692
+49716,45.509,-84.75
+49717,45.426,-84.687
+49718,45.717,-84.843
+49719,45.991,-84.322
+49720,45.281,-85.245
+49721,45.574,-84.455
+49722,45.421,-84.865
+49724,46.328,-84.39
+49725,45.986,-83.989
+49726,46.004,-83.615
+49727,45.138,-85.109
+49728,46.387,-85.025
+49729,45.164,-85.293
+49730,45.044,-84.868
+49733,44.794,-84.731
+49735,44.998,-84.67
+49736,46.088,-84.138
+49738,44.692,-84.595
+49740,45.522,-84.991
+49743,45.267,-83.893
+49744,44.993,-83.657
+49745,46.021,-84.528
+49746,45.063,-83.951
+49747,44.836,-83.63
+49748,46.372,-85.166
+49749,45.422,-84.585
+49751,44.983,-84.43
+49752,46.264,-84.418
+49753,45.017,-83.777
+49755,45.643,-84.828
+49756,44.815,-84.276
+49757,45.86,-84.626
+49759,45.417,-84.096
+49760,46.048,-84.847
+49762,46.116,-85.285
+49764,45.424,-84.828
+49765,45.338,-84.259
+49766,44.908,-83.432
+49768,46.64,-85.118
+49769,45.571,-84.862
+49770,45.331,-84.897
+49774,46.166,-84.299
+49775,45.771,-84.478
+49776,45.232,-83.68
+49777,45.286,-83.48
+49779,45.394,-83.844
+49780,46.209,-84.686
+49781,45.948,-84.766
+49782,45.619,-85.544
+49783,46.417,-84.289
+49784,46.258,-84.455
+49788,46.264,-84.47
+49791,45.481,-84.599
+49793,46.215,-85.047
+49795,45.161,-84.58
+49796,45.272,-84.948
+49799,45.262,-84.58
+49801,45.927,-88.016
+49802,45.801,-88.082
+49805,47.361,-88.402
+49806,46.452,-86.901
+49807,45.699,-87.293
+49808,46.823,-87.853
+49812,45.592,-87.503
+49814,46.568,-87.954
+49815,46.189,-87.947
+49816,46.279,-86.909
+49817,45.949,-86.505
+49818,45.982,-87.349
+49820,46.19,-85.654
+49821,45.52,-87.62
+49822,46.434,-87.025
+49825,46.358,-86.973
+49826,46.323,-87.053
+49827,46.181,-85.53
+49829,45.774,-87.136
+49831,46.057,-87.729
+49833,46.268,-87.295
+49834,45.969,-87.705
+49835,45.736,-86.563
+49836,46.202,-85.903
+49837,45.869,-87.079
+49838,46.032,-85.737
+49839,46.598,-86.146
+49840,46.175,-86.055
+49841,46.267,-87.5
+49847,45.705,-87.636
+49848,45.379,-87.636
+49849,46.426,-87.771
+49852,45.786,-87.817
+49853,46.368,-85.751
+49854,46.076,-86.346
+49855,46.561,-87.451
+49858,45.222,-87.548
+49861,46.569,-88.175
+49862,46.399,-86.727
+49863,45.613,-87.552
+49864,45.842,-86.65
+49866,46.416,-87.585
+49868,46.511,-85.518
+49870,45.867,-87.879
+49871,46.425,-87.539
+49872,46.018,-87.082
+49873,45.827,-87.487
+49874,45.754,-87.469
+49876,45.802,-87.977
+49877,46.159,-87.712
+49878,45.947,-86.878
+49879,46.34,-88.065
+49880,46.111,-87.222
+49881,46.073,-88.047
+49883,46.411,-86.008
+49884,46.416,-86.357
+49885,46.338,-87.198
+49886,45.697,-87.494
+49887,45.392,-87.732
+49891,46.217,-87.015
+49892,45.777,-87.792
+49893,45.297,-87.605
+49894,45.783,-87.076
+49895,46.171,-86.662
+49896,45.689,-87.389
+49901,47.293,-88.393
+49902,46.051,-88.376
+49903,46.337,-88.483
+49905,47.11,-88.708
+49908,46.758,-88.563
+49910,46.63,-89.531
+49911,46.499,-90.058
+49912,46.497,-89.194
+49913,47.239,-88.452
+49915,46.065,-88.627
+49916,46.984,-88.586
+49917,47.281,-88.359
+49918,47.44,-87.83
+49919,46.515,-88.435
+49920,46.138,-88.302
+49921,47.091,-88.58
+49922,47.124,-88.49
+49925,46.544,-89.375
+49927,46.033,-88.547
+49929,46.799,-89.096
+49930,47.203,-88.576
+49931,47.185,-88.641
+49934,47.166,-88.439
+49935,46.176,-88.752
+49938,46.526,-90.13
+49942,47.261,-88.417
+49945,47.148,-88.337
+49946,46.728,-88.333
+49947,46.413,-89.607
+49948,46.752,-88.998
+49950,47.386,-88.134
+49952,46.701,-88.785
+49953,46.786,-89.427
+49955,47.006,-88.695
+49958,46.815,-88.663
+49959,46.47,-89.998
+49960,46.712,-89.258
+49961,46.45,-88.702
+49962,46.839,-88.131
+49963,47.049,-88.64
+49965,46.955,-88.86
+49967,46.507,-88.966
+49968,46.503,-89.89
+49969,46.252,-89.211
+49970,46.523,-88.6
+49971,46.71,-89.629
+50001,41.353,-93.439
+50002,41.515,-94.648
+50003,41.611,-94.043
+50005,42.132,-93.035
+50006,42.508,-93.402
+50007,41.804,-93.6
+50008,40.673,-93.386
+50009,41.643,-93.46
+50010,42.031,-93.588
+50012,42.03,-93.65
+50013,42.015,-93.658
+50014,42.047,-93.695
+50020,41.427,-94.75
+50021,41.724,-93.565
+50022,41.416,-95.006
+50023,41.726,-93.631
+50025,41.756,-94.92
+50026,41.858,-94.45
+50027,41.482,-92.469
+50028,41.807,-93.154
+50029,41.829,-94.556
+50031,42.039,-94.14
+50032,41.666,-93.543
+50033,41.36,-93.794
+50034,42.543,-93.647
+50035,41.724,-93.458
+50036,42.085,-93.85
+50038,41.525,-93.903
+50039,41.83,-94.015
+50040,42.174,-94.101
+50041,42.634,-93.247
+50042,41.534,-94.905
+50044,41.204,-92.905
+50046,41.888,-93.518
+50047,41.475,-93.467
+50048,41.512,-94.52
+50049,41.034,-93.295
+50050,42.159,-94.504
+50051,42.135,-93.141
+50052,40.643,-93.444
+50054,41.688,-93.232
+50055,41.885,-93.28
+50056,42.021,-93.296
+50057,41.18,-93.134
+50058,41.856,-94.691
+50060,40.755,-93.32
+50061,41.476,-93.798
+50062,41.235,-93.245
+50063,41.696,-93.941
+50064,42.104,-94.223
+50065,40.612,-93.774
+50066,41.798,-94.233
+50067,40.693,-93.883
+50068,40.948,-93.466
+50069,41.521,-94.03
+50070,41.446,-94.233
+50071,42.649,-93.505
+50072,41.471,-94.123
+50073,41.792,-93.524
+50074,40.866,-94.08
+50075,42.325,-93.565
+50076,41.592,-94.842
+50078,41.939,-92.863
+50101,42.667,-93.634
+50102,42.246,-93.4
+50103,40.795,-93.609
+50104,41.495,-92.388
+50105,42.118,-93.639
+50106,41.881,-92.806
+50107,42.036,-94.219
+50108,40.825,-93.966
+50109,41.771,-93.801
+50110,41.844,-94.986
+50111,41.692,-93.802
+50112,41.733,-92.713
+50115,41.683,-94.562
+50116,41.178,-92.982
+50117,41.68,-94.791
+50118,41.46,-93.379
+50119,41.313,-92.94
+50120,41.934,-92.983
+50122,42.299,-93.308
+50123,40.834,-93.514
+50124,41.885,-93.604
+50125,41.335,-93.585
+50126,42.511,-93.255
+50127,41.781,-93.211
+50128,41.856,-94.3
+50129,42.013,-94.377
+50130,42.303,-93.669
+50131,41.697,-93.721
+50132,42.394,-93.683
+50133,40.718,-94.082
+50134,41.94,-93.674
+50135,41.745,-92.896
+50136,41.47,-92.293
+50137,41.61,-92.922
+50138,41.303,-93.108
+50139,41.194,-93.358
+50140,40.634,-93.993
+50141,41.868,-92.95
+50142,42.006,-92.776
+50143,41.342,-92.805
+50144,40.733,-93.737
+50145,41.204,-93.485
+50146,41.68,-94.249
+50147,40.618,-93.548
+50148,42.181,-92.996
+50149,41.15,-94.095
+50150,41.126,-92.975
+50151,41.079,-93.489
+50152,41.969,-93.818
+50153,41.574,-92.807
+50154,42.176,-93.391
+50155,41.211,-94.199
+50156,41.898,-93.801
+50157,41.74,-92.563
+50158,42.05,-92.901
+50160,41.374,-93.739
+50161,41.842,-93.397
+50162,41.928,-93.063
+50163,41.222,-93.241
+50164,41.5,-94.433
+50165,40.851,-93.308
+50166,41.283,-93.431
+50167,41.745,-94.049
+50168,41.788,-93.279
+50169,41.655,-93.352
+50170,41.53,-93.116
+50171,41.584,-92.525
+50173,41.965,-92.713
+50174,41.034,-93.982
+50201,42.033,-93.444
+50206,42.246,-93.202
+50207,41.432,-92.638
+50208,41.711,-93.04
+50210,41.195,-93.698
+50211,41.455,-93.705
+50212,42.037,-94.066
+50213,41.033,-93.765
+50214,41.469,-93.056
+50216,41.697,-94.355
+50217,42.184,-94.252
+50218,41.348,-93.878
+50219,41.421,-92.897
+50220,41.836,-94.121
+50222,41.216,-93.96
+50223,42.174,-94.038
+50225,41.381,-93.275
+50226,41.796,-93.702
+50227,42.594,-93.428
+50228,41.569,-93.245
+50229,41.379,-93.775
+50230,42.303,-93.453
+50231,42.238,-93.603
+50232,41.557,-92.97
+50233,41.612,-94.211
+50234,41.888,-93.181
+50235,41.932,-94.225
+50236,42.178,-93.49
+50237,41.545,-93.371
+50238,40.964,-93.183
+50239,42.143,-93.203
+50240,41.297,-93.793
+50241,41.308,-93.734
+50242,41.561,-92.694
+50243,41.865,-93.697
+50244,41.851,-93.651
+50246,42.289,-93.781
+50247,42.018,-93.166
+50248,42.191,-93.614
+50249,42.275,-93.903
+50250,41.482,-94.347
+50251,41.567,-92.869
+50252,41.457,-93.32
+50254,40.991,-94.059
+50255,41.456,-92.332
+50256,41.26,-92.905
+50257,41.183,-93.863
+50258,42.224,-93.073
+50261,41.475,-93.921
+50262,40.862,-93.819
+50263,41.604,-93.88
+50264,40.892,-93.71
+50265,41.543,-93.751
+50266,41.563,-93.815
+50268,41.407,-92.362
+50269,42.264,-93.011
+50271,42.484,-93.545
+50272,41.088,-93.257
+50273,41.326,-94.049
+50274,41.383,-94.861
+50275,41.044,-93.589
+50276,41.86,-93.923
+50277,41.78,-94.341
+50278,42.156,-93.301
+50309,41.584,-93.622
+50310,41.628,-93.673
+50311,41.601,-93.673
+50312,41.577,-93.682
+50313,41.657,-93.625
+50314,41.605,-93.631
+50315,41.545,-93.619
+50316,41.609,-93.6
+50317,41.618,-93.549
+50319,41.591,-93.603
+50320,41.531,-93.572
+50321,41.535,-93.662
+50322,41.634,-93.734
+50323,41.639,-93.818
+50324,41.605,-93.713
+50325,41.614,-93.799
+50327,41.586,-93.488
+50401,43.154,-93.2
+50420,42.806,-93.457
+50421,42.843,-93.623
+50423,43.118,-93.814
+50424,43.403,-93.942
+50426,43.415,-93.017
+50427,42.836,-93.221
+50428,43.14,-93.391
+50430,42.977,-93.957
+50431,42.736,-93.37
+50432,43.224,-93.798
+50433,42.928,-93.048
+50434,43.257,-93.449
+50435,43.158,-92.769
+50436,43.259,-93.686
+50438,43.112,-93.619
+50439,42.945,-93.626
+50440,43.332,-93.069
+50441,42.74,-93.221
+50444,43.297,-93.384
+50446,43.334,-93.45
+50447,42.931,-93.798
+50448,43.35,-93.241
+50449,43.002,-93.547
+50450,43.421,-93.522
+50451,43.378,-94.091
+50452,42.781,-93.367
+50453,43.363,-93.647
+50454,43.385,-92.739
+50455,43.457,-92.65
+50456,43.291,-93.216
+50457,42.914,-93.493
+50458,43.159,-93.012
+50459,43.457,-93.251
+50460,43.226,-92.69
+50461,43.306,-92.819
+50464,43.251,-93.077
+50465,43.487,-93.911
+50466,43.387,-92.538
+50467,43.209,-93.066
+50468,43.032,-92.947
+50469,42.999,-93.197
+50470,42.747,-93.554
+50471,43.165,-92.878
+50472,43.407,-92.935
+50473,43.466,-93.667
+50475,42.882,-93.214
+50476,43.447,-92.764
+50477,42.987,-93.327
+50478,43.407,-93.784
+50479,42.941,-93.408
+50480,43.25,-94.059
+50482,43.125,-93.485
+50483,43.112,-93.997
+50484,43.238,-93.906
+50501,42.492,-94.187
+50510,42.759,-94.986
+50511,43.075,-94.219
+50514,43.415,-94.472
+50515,43.017,-94.886
+50516,42.624,-94.137
+50517,43.305,-94.234
+50518,42.512,-94.382
+50519,42.903,-94.265
+50520,42.809,-94.398
+50521,42.346,-94.103
+50522,43.186,-94.186
+50523,42.368,-94.294
+50524,42.594,-94.359
+50525,42.736,-93.747
+50527,42.969,-94.792
+50528,43.137,-94.54
+50529,42.722,-94.201
+50530,42.27,-94.04
+50531,43.454,-94.61
+50532,42.46,-94.001
+50533,42.652,-93.911
+50535,42.453,-95.164
+50536,43.117,-94.695
+50538,42.284,-94.432
+50539,43.235,-94.418
+50540,42.598,-94.84
+50541,42.71,-94.452
+50542,42.783,-93.943
+50543,42.274,-94.307
+50544,42.254,-94.17
+50545,42.797,-94.081
+50546,42.844,-94.708
+50548,42.714,-94.223
+50551,42.482,-94.755
+50552,42.456,-94.461
+50554,42.846,-94.84
+50556,43.455,-94.197
+50557,42.361,-94.044
+50558,42.861,-94.164
+50559,43.209,-94.325
+50560,42.956,-94.104
+50561,42.418,-94.851
+50562,42.962,-94.642
+50563,42.528,-94.525
+50565,42.857,-95.001
+50566,42.438,-94.324
+50567,42.524,-95.081
+50568,42.633,-95.004
+50569,42.404,-94.134
+50570,42.895,-94.367
+50571,42.635,-94.581
+50573,42.877,-94.623
+50574,42.719,-94.7
+50575,42.559,-94.701
+50576,42.803,-95.177
+50577,42.858,-93.979
+50578,43.307,-94.55
+50579,42.394,-94.634
+50581,42.843,-94.55
+50582,42.793,-94.294
+50583,42.433,-94.986
+50585,42.918,-95.142
+50586,42.412,-94.426
+50588,42.655,-95.162
+50590,43.407,-94.304
+50591,42.677,-94.055
+50592,42.729,-95.183
+50593,42.658,-94.898
+50594,42.586,-94.04
+50595,42.461,-93.823
+50597,42.975,-94.452
+50598,43.08,-94.418
+50599,42.579,-93.823
+50601,42.568,-93.06
+50602,42.742,-92.806
+50603,43.189,-92.458
+50604,42.602,-92.896
+50605,42.836,-93.033
+50606,42.747,-91.691
+50607,42.603,-91.749
+50608,42.588,-92.961
+50609,42.228,-92.809
+50611,42.819,-92.911
+50612,42.285,-92.387
+50613,42.531,-92.486
+50616,43.081,-92.659
+50619,42.799,-92.663
+50620,43.157,-92.591
+50621,42.247,-92.919
+50622,42.674,-92.333
+50623,42.527,-92.21
+50624,42.469,-92.659
+50625,42.748,-92.988
+50626,42.584,-92.171
+50627,42.35,-93.094
+50628,43.273,-92.394
+50629,42.649,-92.072
+50630,42.958,-92.214
+50631,42.885,-92.31
+50632,42.075,-92.696
+50633,42.675,-93.127
+50634,42.418,-92.214
+50635,42.202,-92.697
+50636,42.894,-92.809
+50638,42.357,-92.795
+50641,42.592,-91.919
+50642,42.44,-92.816
+50643,42.358,-92.464
+50644,42.477,-91.898
+50645,43.02,-92.444
+50647,42.651,-92.497
+50648,42.453,-92.093
+50649,42.662,-92.91
+50650,42.618,-91.656
+50651,42.325,-92.202
+50652,42.265,-92.692
+50653,42.969,-92.886
+50654,42.407,-91.574
+50655,42.766,-91.892
+50657,42.345,-92.674
+50658,42.95,-92.538
+50659,43.096,-92.329
+50660,42.577,-92.642
+50662,42.689,-91.937
+50664,42.707,-92.072
+50665,42.581,-92.772
+50666,42.854,-92.503
+50667,42.47,-92.226
+50668,42.693,-92.229
+50669,42.339,-92.615
+50670,42.678,-92.616
+50671,42.65,-91.796
+50672,42.426,-93.072
+50673,42.525,-92.711
+50674,42.838,-92.115
+50675,42.198,-92.512
+50676,42.799,-92.28
+50677,42.767,-92.44
+50680,42.445,-92.917
+50681,42.778,-92.009
+50682,42.45,-91.695
+50701,42.418,-92.345
+50702,42.462,-92.314
+50703,42.548,-92.286
+50707,42.477,-92.282
+50801,41.079,-94.402
+50830,41.023,-94.19
+50831,40.951,-94.222
+50833,40.671,-94.701
+50835,40.706,-94.376
+50836,40.632,-94.497
+50837,41.22,-94.691
+50839,41.049,-94.822
+50840,40.79,-94.483
+50841,41.009,-94.769
+50842,41.04,-94.462
+50843,41.237,-94.885
+50845,40.815,-94.352
+50846,41.309,-94.576
+50847,41.142,-94.984
+50848,40.792,-94.764
+50849,41.295,-94.405
+50851,40.909,-94.537
+50853,41.237,-94.768
+50854,40.679,-94.213
+50857,40.935,-94.88
+50858,41.211,-94.41
+50859,41.067,-94.597
+50860,40.617,-94.348
+50861,40.908,-94.256
+50862,40.812,-94.648
+50863,40.848,-94.176
+50864,40.97,-94.978
+51001,42.841,-96.546
+51002,42.702,-95.319
+51003,42.99,-95.986
+51004,42.38,-95.918
+51005,42.724,-95.419
+51006,42.31,-95.611
+51007,42.402,-96.189
+51008,42.811,-96.267
+51009,42.945,-95.551
+51010,42.098,-95.938
+51011,42.916,-96.514
+51012,42.745,-95.56
+51014,42.788,-95.707
+51015,42.339,-96.081
+51016,42.472,-95.805
+51018,42.45,-95.681
+51019,42.277,-95.72
+51020,42.515,-95.41
+51022,42.978,-95.847
+51023,43.007,-96.463
+51024,42.626,-96.263
+51025,42.498,-95.556
+51026,42.256,-96.068
+51027,42.966,-96.328
+51028,42.597,-95.988
+51029,42.885,-95.541
+51030,42.498,-96.188
+51031,42.803,-96.186
+51033,42.919,-95.252
+51034,42.163,-95.79
+51035,42.781,-95.801
+51036,42.97,-96.19
+51037,42.826,-95.643
+51038,42.703,-96.317
+51039,42.449,-96.05
+51040,42.033,-96.069
+51041,43.024,-96.077
+51044,42.306,-95.918
+51045,42.82,-96.058
+51046,42.962,-95.678
+51047,42.942,-95.37
+51048,42.551,-95.841
+51049,42.63,-95.644
+51050,42.8,-95.948
+51051,42.206,-95.965
+51052,42.308,-96.266
+51053,42.495,-95.287
+51054,42.381,-96.335
+51055,42.208,-96.26
+51056,42.241,-95.956
+51058,42.989,-95.477
+51060,42.042,-95.684
+51061,42.58,-95.725
+51062,42.698,-96.535
+51063,42.133,-96.191
+51101,42.494,-96.394
+51103,42.52,-96.449
+51104,42.535,-96.403
+51105,42.508,-96.366
+51106,42.463,-96.313
+51108,42.566,-96.353
+51109,42.61,-96.47
+51111,42.419,-96.393
+51201,43.182,-95.866
+51230,43.356,-96.322
+51231,43.106,-95.741
+51232,43.295,-95.81
+51234,43.192,-96.019
+51235,43.295,-96.215
+51237,43.336,-96.001
+51238,43.074,-95.892
+51239,43.204,-96.147
+51240,43.309,-96.458
+51241,43.451,-96.462
+51242,43.432,-96.338
+51243,43.441,-95.897
+51244,43.244,-95.934
+51245,43.078,-95.601
+51246,43.429,-96.165
+51247,43.194,-96.338
+51248,43.204,-95.659
+51249,43.407,-95.731
+51250,43.091,-96.206
+51301,43.153,-95.15
+51331,43.36,-95.131
+51333,43.137,-95.001
+51334,43.404,-94.804
+51338,43.205,-95.319
+51340,43.24,-95.156
+51341,43.018,-95.036
+51342,43.248,-94.737
+51343,43.018,-95.128
+51345,43.422,-95.437
+51346,43.191,-95.454
+51347,43.422,-95.318
+51350,43.308,-95.598
+51351,43.315,-95.184
+51354,43.412,-95.543
+51355,43.389,-95.14
+51357,43.062,-95.288
+51358,43.13,-94.894
+51360,43.434,-95.086
+51363,43.434,-94.947
+51364,43.299,-94.963
+51365,43.31,-94.733
+51366,42.961,-95.003
+51401,42.065,-94.87
+51430,42.09,-95.027
+51431,42.344,-95.351
+51432,41.91,-95.138
+51433,42.267,-94.875
+51436,42.189,-95.005
+51439,42.083,-95.589
+51440,41.912,-94.814
+51441,42.113,-95.315
+51442,42.031,-95.357
+51443,42.07,-94.697
+51444,42.012,-94.974
+51445,42.328,-95.468
+51446,41.777,-95.193
+51447,41.721,-95.192
+51448,42.205,-95.31
+51449,42.266,-94.734
+51450,42.316,-95.021
+51451,42.185,-94.695
+51452,42.122,-94.784
+51453,42.262,-94.546
+51454,41.885,-95.191
+51455,41.908,-95.057
+51458,42.326,-95.235
+51459,42.045,-94.638
+51460,42.132,-95.571
+51461,42.174,-95.474
+51462,42.014,-94.557
+51463,41.907,-94.913
+51465,42.087,-95.201
+51466,42.247,-95.1
+51467,42.072,-95.107
+51501,41.227,-95.878
+51503,41.223,-95.784
+51510,41.289,-95.917
+51520,41.969,-95.459
+51521,41.485,-95.345
+51523,41.915,-96.068
+51525,41.234,-95.42
+51526,41.374,-95.872
+51527,41.837,-95.337
+51528,41.909,-95.501
+51529,41.86,-95.643
+51530,41.787,-95.43
+51531,41.587,-95.088
+51532,41.138,-95.109
+51533,41.039,-95.378
+51534,41.041,-95.718
+51535,41.226,-95.127
+51536,41.384,-95.373
+51537,41.65,-95.297
+51540,41.024,-95.498
+51541,41.139,-95.416
+51542,41.44,-95.832
+51543,41.658,-95.073
+51544,41.314,-95.103
+51545,41.851,-96.015
+51546,41.637,-95.766
+51548,41.317,-95.636
+51549,41.186,-95.467
+51550,41.692,-95.874
+51551,40.991,-95.588
+51552,41.486,-95.114
+51553,41.415,-95.547
+51554,41.145,-95.681
+51555,41.56,-95.915
+51556,41.643,-96.04
+51557,41.734,-96.006
+51558,41.916,-95.881
+51559,41.455,-95.643
+51560,41.314,-95.401
+51561,41.005,-95.81
+51562,41.725,-95.493
+51563,41.571,-95.586
+51564,41.81,-95.923
+51565,41.643,-95.524
+51566,41.015,-95.23
+51570,41.528,-95.465
+51571,41.142,-95.617
+51572,41.984,-95.808
+51573,40.979,-95.095
+51575,41.24,-95.602
+51576,41.383,-95.715
+51577,41.464,-95.204
+51578,41.72,-95.395
+51579,41.762,-95.719
+51601,40.736,-95.347
+51630,40.601,-95.194
+51631,40.591,-95.01
+51632,40.746,-95.047
+51636,40.667,-95.235
+51637,40.62,-95.118
+51638,40.837,-95.266
+51639,40.72,-95.466
+51640,40.626,-95.661
+51645,40.882,-95.423
+51646,40.748,-94.874
+51647,40.605,-95.345
+51648,40.739,-95.8
+51649,40.85,-95.527
+51650,40.678,-95.55
+51651,40.657,-95.035
+51652,40.773,-95.623
+51653,40.878,-95.682
+51654,40.835,-95.782
+51656,40.735,-95.154
+52001,42.548,-90.694
+52002,42.525,-90.772
+52003,42.431,-90.67
+52030,42.153,-90.592
+52031,42.253,-90.486
+52032,42.29,-90.84
+52033,42.279,-91.002
+52035,42.671,-91.181
+52036,42.473,-91.341
+52037,41.967,-90.634
+52038,42.587,-91.561
+52039,42.538,-90.857
+52040,42.504,-91.142
+52041,42.506,-91.255
+52042,42.679,-91.36
+52043,42.834,-91.426
+52044,42.768,-91.323
+52045,42.455,-90.931
+52046,42.44,-91.012
+52047,42.969,-91.342
+52048,42.737,-91.256
+52049,42.886,-91.199
+52050,42.61,-91.327
+52052,42.742,-91.117
+52053,42.607,-90.964
+52054,42.306,-90.628
+52056,42.604,-91.073
+52057,42.491,-91.453
+52060,42.101,-90.68
+52064,42.094,-90.311
+52065,42.584,-91.102
+52066,42.682,-90.96
+52068,42.424,-90.811
+52069,42.061,-90.43
+52070,42.084,-90.208
+52071,42.362,-90.542
+52072,42.92,-91.38
+52073,42.619,-90.822
+52074,42.11,-90.462
+52075,42.166,-90.479
+52076,42.697,-91.51
+52077,42.821,-91.563
+52078,42.396,-91.116
+52079,42.288,-90.719
+52101,43.366,-91.773
+52132,43.211,-91.928
+52133,43.109,-91.661
+52134,43.472,-92.401
+52135,43.021,-91.663
+52136,43.371,-92.112
+52140,43.446,-91.535
+52141,42.931,-91.641
+52142,42.826,-91.798
+52144,43.14,-91.961
+52146,43.176,-91.206
+52147,42.945,-91.959
+52151,43.346,-91.265
+52154,43.118,-92.165
+52155,43.413,-92.296
+52156,43.053,-91.465
+52157,43.022,-91.24
+52158,43.043,-91.192
+52159,43.079,-91.366
+52160,43.469,-91.351
+52161,43.127,-91.756
+52162,43.111,-91.553
+52163,43.22,-92.103
+52164,42.855,-91.907
+52165,43.309,-91.994
+52166,43.068,-91.936
+52168,43.203,-91.953
+52169,42.861,-91.663
+52170,43.229,-91.305
+52171,43.068,-92.053
+52172,43.271,-91.484
+52175,42.994,-91.824
+52201,41.33,-91.547
+52202,42.159,-91.638
+52203,41.814,-91.892
+52205,42.116,-91.29
+52206,41.992,-91.887
+52207,42.093,-90.83
+52208,41.877,-92.257
+52209,41.909,-92.098
+52210,42.334,-91.993
+52211,41.754,-92.45
+52212,42.109,-91.09
+52213,42.202,-91.76
+52214,42.188,-91.509
+52215,41.914,-92.405
+52216,41.884,-91.024
+52217,42.079,-92.411
+52218,42.295,-91.539
+52219,42.238,-91.426
+52220,41.727,-91.999
+52221,41.641,-92.332
+52222,41.576,-92.341
+52223,42.413,-91.324
+52224,42.158,-92.294
+52225,42.013,-92.326
+52227,41.894,-91.57
+52228,41.902,-91.789
+52229,42.145,-92.169
+52231,41.359,-92.059
+52232,41.805,-92.347
+52233,42.049,-91.687
+52235,41.578,-91.532
+52236,41.733,-91.876
+52237,42.341,-91.252
+52240,41.631,-91.499
+52241,41.697,-91.597
+52242,41.663,-91.544
+52245,41.673,-91.512
+52246,41.648,-91.597
+52247,41.519,-91.723
+52248,41.346,-91.935
+52249,42.012,-92.205
+52251,41.714,-92.21
+52252,42.197,-91.227
+52253,41.895,-91.353
+52254,41.952,-90.805
+52255,41.863,-90.961
+52257,41.915,-92.172
+52301,41.788,-92.083
+52302,42.065,-91.561
+52305,42.018,-91.342
+52306,41.887,-91.254
+52307,41.792,-91.902
+52308,41.573,-92.159
+52309,42.132,-90.889
+52310,42.22,-91.195
+52312,42.006,-91.245
+52313,42.257,-92.097
+52314,41.936,-91.448
+52315,42.002,-91.97
+52316,41.546,-92.095
+52317,41.767,-91.634
+52318,41.89,-91.897
+52320,41.999,-91.148
+52321,42.142,-90.983
+52322,41.693,-91.763
+52323,41.984,-90.953
+52324,42.064,-91.806
+52325,41.584,-91.926
+52326,42.395,-91.757
+52327,41.477,-91.583
+52328,42.072,-91.666
+52329,42.352,-91.86
+52330,42.353,-91.501
+52332,42.098,-91.887
+52333,41.804,-91.487
+52334,41.731,-91.944
+52335,41.468,-92.054
+52336,42.074,-91.442
+52337,41.882,-91.143
+52338,41.818,-91.708
+52339,41.928,-92.587
+52340,41.706,-91.677
+52341,42.103,-91.726
+52342,42.043,-92.559
+52344,42.292,-91.683
+52345,42.222,-91.892
+52346,42.013,-92.081
+52347,41.713,-92.286
+52348,41.993,-92.386
+52349,42.172,-92.009
+52351,41.875,-91.835
+52352,42.289,-91.778
+52353,41.299,-91.716
+52354,41.919,-91.989
+52355,41.461,-92.192
+52356,41.475,-91.848
+52358,41.691,-91.318
+52359,41.354,-91.81
+52361,41.641,-92.016
+52362,42.058,-91.003
+52401,41.975,-91.659
+52402,42.023,-91.66
+52403,41.966,-91.566
+52404,41.923,-91.689
+52405,41.983,-91.746
+52411,42.054,-91.729
+52501,41.044,-92.429
+52530,40.989,-92.296
+52531,41.026,-92.82
+52533,41.008,-92.146
+52534,41.273,-92.681
+52535,40.863,-91.96
+52536,40.957,-92.609
+52537,40.735,-92.414
+52540,41.157,-91.823
+52542,40.62,-92.056
+52543,41.202,-92.513
+52544,40.707,-92.912
+52548,41.085,-92.531
+52549,40.619,-92.943
+52550,41.314,-92.357
+52551,40.819,-92.1
+52552,40.827,-92.549
+52553,41.148,-92.655
+52554,40.925,-92.236
+52555,40.644,-92.816
+52556,41.024,-91.928
+52557,41.02,-91.966
+52560,40.855,-92.249
+52561,41.22,-92.452
+52562,41.265,-92.249
+52563,41.168,-92.282
+52565,40.742,-91.934
+52566,41.129,-92.505
+52567,40.932,-92.072
+52568,41.178,-92.251
+52569,40.981,-93.05
+52570,40.687,-92.146
+52571,40.874,-92.832
+52572,40.671,-92.688
+52573,40.628,-91.929
+52574,40.81,-92.963
+52576,41.215,-92.109
+52577,41.273,-92.662
+52580,41.105,-92.09
+52581,40.801,-93.064
+52583,40.805,-93.146
+52584,40.653,-92.241
+52585,41.189,-91.986
+52586,41.345,-92.461
+52588,40.858,-92.16
+52590,40.666,-93.145
+52591,41.317,-92.191
+52593,40.772,-92.746
+52594,40.836,-92.652
+52595,41.288,-92.615
+52601,40.856,-91.13
+52619,40.52,-91.565
+52620,40.702,-91.797
+52621,41.209,-91.534
+52623,40.849,-91.337
+52624,40.735,-91.336
+52625,40.661,-91.574
+52626,40.637,-91.726
+52627,40.658,-91.356
+52630,40.806,-91.694
+52631,40.783,-91.612
+52632,40.432,-91.445
+52635,40.991,-91.761
+52637,41.018,-91.146
+52638,40.801,-91.242
+52639,40.533,-91.478
+52640,41.101,-91.28
+52641,40.988,-91.59
+52644,41.04,-91.415
+52645,40.912,-91.404
+52646,41.07,-91.017
+52647,41.134,-91.545
+52649,40.839,-91.612
+52650,40.951,-91.152
+52651,40.864,-91.814
+52652,41.098,-91.554
+52653,41.163,-91.154
+52654,41.141,-91.672
+52655,40.847,-91.214
+52656,40.74,-91.456
+52657,40.768,-91.516
+52658,40.699,-91.23
+52659,41.132,-91.437
+52660,40.995,-91.299
+52701,41.982,-90.249
+52720,41.588,-91.173
+52721,41.756,-90.963
+52722,41.57,-90.47
+52726,41.496,-90.78
+52727,41.955,-90.326
+52728,41.459,-90.726
+52729,41.8,-90.736
+52730,41.776,-90.335
+52731,41.966,-90.486
+52732,41.891,-90.253
+52737,41.259,-91.375
+52738,41.274,-91.378
+52739,41.373,-91.367
+52742,41.838,-90.52
+52745,41.719,-90.766
+52746,41.716,-90.67
+52747,41.598,-90.912
+52748,41.666,-90.555
+52749,41.346,-91.131
+52750,41.937,-90.397
+52751,41.835,-90.7
+52752,41.275,-91.191
+52753,41.629,-90.386
+52754,41.339,-91.242
+52755,41.479,-91.434
+52756,41.729,-90.542
+52757,41.803,-90.355
+52758,41.742,-90.437
+52759,41.46,-90.81
+52760,41.552,-91.069
+52761,41.44,-91.064
+52765,41.721,-90.869
+52766,41.468,-91.295
+52767,41.574,-90.425
+52768,41.701,-90.387
+52769,41.606,-90.847
+52771,42.02,-90.257
+52772,41.742,-91.155
+52773,41.622,-90.753
+52774,41.908,-90.596
+52776,41.579,-91.273
+52777,41.847,-90.855
+52778,41.605,-91.006
+52801,41.521,-90.575
+52802,41.495,-90.637
+52803,41.539,-90.556
+52804,41.532,-90.681
+52806,41.589,-90.625
+52807,41.611,-90.516
+53001,43.608,-88.055
+53002,43.464,-88.352
+53003,43.212,-88.52
+53004,43.5,-87.881
+53005,43.062,-88.099
+53006,43.62,-88.534
+53007,43.108,-88.072
+53010,43.613,-88.272
+53011,43.66,-88.091
+53012,43.315,-88.035
+53013,43.565,-87.847
+53014,44.026,-88.176
+53015,43.908,-87.786
+53016,43.311,-88.718
+53017,43.202,-88.253
+53018,43.048,-88.391
+53019,43.696,-88.303
+53020,43.862,-88.011
+53021,43.495,-88.009
+53022,43.232,-88.116
+53023,43.78,-88.107
+53024,43.332,-87.933
+53027,43.316,-88.371
+53029,43.147,-88.341
+53031,43.64,-87.918
+53032,43.447,-88.623
+53033,43.24,-88.254
+53034,43.33,-88.619
+53035,43.388,-88.543
+53036,43.18,-88.575
+53037,43.313,-88.16
+53038,43.085,-88.791
+53039,43.37,-88.709
+53040,43.527,-88.191
+53042,43.957,-87.972
+53044,43.738,-87.783
+53045,43.059,-88.153
+53046,43.157,-88.158
+53047,43.261,-88.629
+53048,43.574,-88.457
+53049,43.886,-88.289
+53050,43.511,-88.547
+53051,43.159,-88.122
+53057,43.795,-88.237
+53058,43.112,-88.412
+53059,43.289,-88.525
+53061,43.945,-88.121
+53063,43.964,-87.803
+53065,43.68,-88.572
+53066,43.114,-88.489
+53069,43.113,-88.433
+53070,43.621,-87.807
+53072,43.08,-88.267
+53073,43.752,-87.996
+53074,43.427,-87.882
+53075,43.565,-87.991
+53076,43.27,-88.209
+53078,43.318,-88.466
+53079,43.815,-88.199
+53080,43.406,-87.986
+53081,43.71,-87.733
+53083,43.816,-87.764
+53085,43.733,-87.855
+53086,43.33,-88.273
+53088,44.072,-88.3
+53089,43.145,-88.234
+53090,43.462,-88.172
+53091,43.5,-88.435
+53092,43.215,-87.951
+53093,43.65,-87.936
+53094,43.144,-88.732
+53095,43.388,-88.158
+53097,43.242,-88.01
+53098,43.254,-88.711
+53099,43.38,-88.526
+53103,42.881,-88.217
+53104,42.547,-88.039
+53105,42.664,-88.28
+53108,42.815,-87.943
+53110,42.951,-87.861
+53114,42.609,-88.746
+53115,42.657,-88.668
+53118,42.962,-88.492
+53119,42.893,-88.486
+53120,42.803,-88.417
+53121,42.72,-88.534
+53122,43.048,-88.087
+53125,42.546,-88.562
+53126,42.794,-87.998
+53127,42.956,-88.38
+53128,42.529,-88.335
+53129,42.94,-88.001
+53130,42.941,-88.049
+53132,42.886,-88.012
+53137,43.008,-88.669
+53139,42.686,-88.121
+53140,42.62,-87.828
+53142,42.562,-87.892
+53143,42.562,-87.829
+53144,42.622,-87.92
+53146,42.974,-88.155
+53147,42.558,-88.452
+53149,42.875,-88.342
+53150,42.871,-88.134
+53151,42.974,-88.096
+53153,42.941,-88.402
+53154,42.879,-87.899
+53156,42.89,-88.589
+53157,42.538,-88.369
+53158,42.525,-87.886
+53167,42.73,-88.225
+53168,42.575,-88.124
+53170,42.556,-88.156
+53172,42.912,-87.86
+53176,42.643,-88.414
+53177,42.704,-87.934
+53178,43.03,-88.597
+53179,42.514,-88.131
+53181,42.52,-88.241
+53182,42.698,-88.041
+53183,43.006,-88.37
+53184,42.52,-88.613
+53185,42.798,-88.194
+53186,43.022,-88.205
+53188,43.02,-88.294
+53189,42.944,-88.291
+53190,42.808,-88.736
+53191,42.578,-88.546
+53192,42.516,-88.184
+53195,42.514,-88.49
+53202,43.05,-87.892
+53203,43.038,-87.915
+53204,43.019,-87.926
+53205,43.054,-87.934
+53206,43.075,-87.934
+53207,42.975,-87.899
+53208,43.044,-87.968
+53209,43.128,-87.949
+53210,43.069,-87.974
+53211,43.083,-87.883
+53212,43.074,-87.909
+53213,43.049,-88.002
+53214,43.02,-88.013
+53215,42.999,-87.943
+53216,43.086,-87.976
+53217,43.158,-87.913
+53218,43.114,-87.993
+53219,42.995,-87.994
+53220,42.965,-87.991
+53221,42.954,-87.943
+53222,43.081,-88.035
+53223,43.161,-87.988
+53224,43.163,-88.04
+53225,43.114,-88.043
+53226,43.051,-88.043
+53227,42.996,-88.042
+53228,42.969,-88.043
+53233,43.037,-87.934
+53235,42.973,-87.868
+53295,43.022,-87.977
+53402,42.796,-87.817
+53403,42.684,-87.816
+53404,42.761,-87.815
+53405,42.727,-87.83
+53406,42.735,-87.865
+53501,42.604,-89.076
+53502,42.73,-89.438
+53503,43.143,-89.958
+53504,42.718,-89.851
+53505,42.661,-88.821
+53506,43.165,-90.286
+53507,42.984,-89.914
+53508,42.866,-89.576
+53510,42.742,-90.323
+53511,42.546,-89.107
+53515,43.115,-89.739
+53516,42.797,-89.874
+53517,43.057,-89.832
+53518,43.241,-90.595
+53520,42.601,-89.361
+53521,42.838,-89.4
+53522,42.557,-89.783
+53523,42.984,-89.029
+53525,42.544,-88.847
+53526,42.974,-90.344
+53527,43.051,-89.192
+53528,43.118,-89.638
+53529,43.243,-89.531
+53530,42.694,-90.112
+53531,43.057,-89.1
+53532,43.25,-89.327
+53533,42.997,-90.162
+53534,42.861,-89.093
+53536,42.761,-89.268
+53537,42.673,-89.211
+53538,42.909,-88.872
+53540,43.222,-90.294
+53541,42.57,-90.03
+53543,43.058,-90.345
+53544,42.878,-89.906
+53545,42.739,-89.04
+53546,42.652,-88.948
+53548,42.689,-89.131
+53549,42.984,-88.766
+53550,42.553,-89.494
+53551,43.079,-88.916
+53553,42.912,-90.297
+53554,42.909,-90.441
+53555,43.32,-89.556
+53556,43.238,-90.246
+53557,43.339,-88.798
+53558,42.997,-89.275
+53559,43.166,-89.082
+53560,43.192,-89.738
+53561,43.399,-89.652
+53562,43.116,-89.543
+53563,42.781,-88.934
+53565,42.837,-90.167
+53566,42.609,-89.649
+53569,42.989,-90.439
+53570,42.731,-89.62
+53571,43.278,-89.354
+53572,42.961,-89.75
+53573,43.181,-90.459
+53574,42.819,-89.652
+53575,42.932,-89.387
+53576,42.626,-89.233
+53577,43.312,-90.064
+53578,43.311,-89.769
+53579,43.296,-88.868
+53580,42.859,-90.381
+53581,43.377,-90.419
+53582,43.018,-89.979
+53583,43.251,-89.814
+53584,43.279,-90.295
+53585,42.53,-88.721
+53586,42.573,-90.227
+53587,42.58,-89.904
+53588,43.189,-90.08
+53589,42.928,-89.215
+53590,43.2,-89.207
+53593,42.985,-89.579
+53594,43.183,-88.971
+53597,43.181,-89.457
+53598,43.21,-89.337
+53599,42.647,-89.857
+53703,43.08,-89.378
+53704,43.136,-89.347
+53705,43.074,-89.461
+53706,43.075,-89.41
+53711,43.011,-89.409
+53713,43.037,-89.393
+53714,43.1,-89.312
+53715,43.056,-89.388
+53716,43.065,-89.315
+53717,43.068,-89.521
+53718,43.097,-89.275
+53719,43.048,-89.506
+53726,43.071,-89.422
+53792,43.077,-89.43
+53801,42.925,-91.075
+53802,42.805,-90.894
+53803,42.559,-90.355
+53804,42.876,-90.908
+53805,43.143,-90.683
+53806,42.73,-90.92
+53807,42.617,-90.473
+53808,42.637,-90.592
+53809,42.994,-90.633
+53810,42.82,-90.998
+53811,42.541,-90.525
+53812,42.581,-90.602
+53813,42.844,-90.717
+53816,42.978,-90.858
+53817,42.94,-90.972
+53818,42.746,-90.492
+53820,42.7,-90.701
+53821,43.049,-91.057
+53825,42.918,-90.589
+53826,43.114,-90.925
+53827,43.046,-90.82
+53901,43.561,-89.483
+53910,43.887,-89.808
+53911,43.326,-89.368
+53913,43.493,-89.729
+53916,43.456,-88.849
+53919,43.734,-88.776
+53920,43.671,-89.605
+53922,43.521,-88.715
+53923,43.574,-89.138
+53924,43.483,-90.262
+53925,43.327,-89.057
+53926,43.667,-89.223
+53928,43.418,-89.155
+53929,43.757,-90.291
+53930,43.685,-89.498
+53931,43.743,-88.867
+53932,43.422,-89.055
+53933,43.584,-88.875
+53934,43.979,-89.824
+53935,43.59,-89.066
+53936,43.869,-89.707
+53937,43.387,-90.145
+53939,43.69,-89.139
+53940,43.591,-89.794
+53941,43.58,-90.136
+53942,43.464,-90.165
+53943,43.387,-90.035
+53944,43.688,-89.93
+53946,43.719,-89.022
+53947,43.747,-89.138
+53948,43.777,-90.04
+53949,43.783,-89.34
+53950,43.901,-90.138
+53951,43.388,-89.876
+53952,43.785,-89.59
+53953,43.766,-89.458
+53954,43.552,-89.314
+53955,43.4,-89.399
+53956,43.542,-89.018
+53959,43.534,-89.997
+53960,43.426,-89.235
+53961,43.464,-89.944
+53962,43.684,-90.265
+53963,43.635,-88.738
+53964,43.913,-89.513
+53965,43.671,-89.748
+53968,43.635,-90.236
+53969,43.496,-89.3
+54001,45.334,-92.387
+54002,44.96,-92.372
+54003,44.783,-92.446
+54004,45.302,-92.125
+54005,45.229,-92.23
+54006,45.591,-92.647
+54007,45.19,-92.353
+54009,45.353,-92.578
+54011,44.718,-92.465
+54013,45.083,-92.228
+54014,44.649,-92.573
+54015,44.971,-92.453
+54016,44.981,-92.695
+54017,45.12,-92.52
+54020,45.275,-92.662
+54021,44.734,-92.706
+54022,44.847,-92.611
+54023,44.974,-92.547
+54024,45.502,-92.641
+54025,45.144,-92.68
+54026,45.228,-92.535
+54027,44.924,-92.2
+54028,44.955,-92.283
+54082,45.07,-92.751
+54101,44.786,-88.075
+54102,45.498,-88.015
+54103,45.637,-88.516
+54104,45.434,-88.271
+54106,44.485,-88.457
+54107,44.701,-88.457
+54110,44.185,-88.082
+54111,44.812,-88.38
+54112,45.055,-88.055
+54113,44.262,-88.31
+54114,45.245,-88.109
+54115,44.405,-88.089
+54119,45.612,-88.196
+54120,45.803,-88.569
+54121,45.866,-88.327
+54123,44.209,-88.155
+54124,44.908,-88.345
+54125,45.579,-88.402
+54126,44.289,-88.032
+54127,44.797,-88.268
+54128,44.865,-88.809
+54129,44.125,-88.199
+54130,44.311,-88.244
+54135,44.908,-88.627
+54136,44.268,-88.339
+54137,44.758,-88.256
+54138,45.334,-88.41
+54139,44.957,-88.076
+54140,44.288,-88.311
+54141,44.729,-87.998
+54143,45.076,-87.699
+54149,45.211,-88.444
+54150,44.969,-88.788
+54151,45.725,-87.988
+54152,44.566,-88.471
+54153,44.898,-87.916
+54154,44.874,-88.182
+54155,44.527,-88.201
+54156,45.61,-87.944
+54157,45.048,-87.811
+54159,45.193,-87.839
+54160,44.118,-88.102
+54161,45.135,-88.151
+54162,44.663,-88.271
+54165,44.521,-88.316
+54166,44.779,-88.635
+54169,44.177,-88.281
+54170,44.536,-88.577
+54171,44.715,-88.096
+54173,44.641,-88.015
+54174,45.034,-88.437
+54175,45.304,-88.625
+54177,45.366,-87.913
+54180,44.33,-88.178
+54201,44.627,-87.487
+54202,45.087,-87.14
+54204,44.755,-87.605
+54205,44.611,-87.632
+54207,44.08,-87.982
+54208,44.364,-87.8
+54209,45.018,-87.27
+54210,45.246,-87.036
+54211,45.16,-87.166
+54212,45.11,-87.209
+54213,44.695,-87.528
+54214,44.199,-87.714
+54215,44.227,-87.803
+54216,44.439,-87.57
+54217,44.548,-87.718
+54220,44.091,-87.725
+54227,44.284,-87.805
+54228,44.278,-87.65
+54229,44.56,-87.816
+54230,44.16,-87.915
+54232,44.007,-87.925
+54234,45.182,-87.102
+54235,44.844,-87.373
+54241,44.216,-87.595
+54245,44.031,-87.898
+54246,45.373,-86.899
+54247,44.2,-87.79
+54301,44.481,-88.016
+54302,44.507,-87.976
+54303,44.543,-88.047
+54304,44.493,-88.067
+54307,44.47,-88.037
+54311,44.48,-87.892
+54313,44.584,-88.115
+54401,44.967,-89.709
+54403,45.019,-89.525
+54405,44.968,-90.282
+54406,44.412,-89.305
+54407,44.532,-89.282
+54408,45.026,-89.324
+54409,45.122,-89.171
+54410,44.542,-90.031
+54411,45.063,-90.033
+54412,44.663,-89.974
+54413,44.291,-90.148
+54414,44.96,-89.177
+54416,44.884,-88.948
+54417,45.027,-89.654
+54418,45.212,-88.983
+54420,44.61,-90.351
+54421,44.895,-90.289
+54422,44.977,-90.445
+54423,44.579,-89.426
+54424,45.287,-89.192
+54425,45.007,-90.341
+54426,44.911,-89.997
+54427,44.825,-89.257
+54428,45.443,-89.161
+54430,45.136,-88.886
+54433,45.227,-90.813
+54435,45.36,-89.438
+54436,44.535,-90.427
+54437,44.777,-90.629
+54440,44.807,-89.391
+54441,44.642,-90.106
+54442,45.359,-89.659
+54443,44.609,-89.752
+54446,44.748,-90.466
+54447,45.107,-90.722
+54448,44.933,-89.83
+54449,44.638,-90.197
+54450,45.004,-89.042
+54451,45.197,-90.408
+54452,45.218,-89.794
+54454,44.602,-89.884
+54455,44.767,-89.684
+54456,44.544,-90.633
+54457,44.229,-89.898
+54458,44.497,-89.306
+54459,45.413,-90.237
+54460,44.953,-90.533
+54462,45.392,-89.007
+54463,45.499,-89.233
+54464,45.055,-89.017
+54465,45.396,-88.876
+54466,44.385,-90.327
+54467,44.414,-89.539
+54469,44.345,-89.874
+54470,45.292,-90.137
+54471,44.931,-89.424
+54473,44.651,-89.352
+54474,44.874,-89.62
+54475,44.485,-89.793
+54476,44.89,-89.521
+54479,44.751,-90.332
+54480,45.054,-90.269
+54481,44.523,-89.646
+54482,44.55,-89.509
+54484,44.8,-90.082
+54485,45.393,-89.22
+54486,44.718,-89.045
+54487,45.511,-89.744
+54488,44.843,-90.346
+54489,44.461,-90.004
+54490,45.325,-90.409
+54491,45.227,-88.749
+54493,44.697,-90.811
+54494,44.341,-89.735
+54495,44.392,-89.959
+54498,45.035,-90.629
+54499,44.79,-89.176
+54501,45.658,-89.349
+54511,45.737,-88.823
+54512,46.091,-89.659
+54513,45.578,-90.141
+54514,46.033,-90.496
+54515,45.513,-90.491
+54517,46.121,-90.934
+54519,46.055,-89.264
+54520,45.541,-88.933
+54521,45.916,-89.254
+54524,45.828,-90.392
+54525,46.434,-90.226
+54526,45.529,-90.857
+54527,46.126,-90.64
+54529,45.678,-89.667
+54530,45.529,-90.715
+54531,45.753,-89.775
+54534,46.352,-90.224
+54536,46.348,-90.338
+54537,45.534,-90.602
+54538,45.98,-89.927
+54539,45.809,-89.577
+54540,46.155,-89.373
+54541,45.554,-88.662
+54542,45.923,-88.745
+54545,46.134,-89.855
+54546,46.287,-90.749
+54547,46.212,-90.106
+54548,45.866,-89.832
+54550,46.348,-90.259
+54552,45.93,-90.293
+54554,46.06,-89.064
+54555,45.768,-90.33
+54556,45.535,-90.317
+54557,46.212,-89.748
+54558,45.925,-89.499
+54559,46.495,-90.491
+54560,46.037,-89.552
+54561,46.069,-89.427
+54562,45.803,-89.079
+54563,45.46,-90.971
+54564,45.604,-89.961
+54565,46.285,-90.466
+54566,45.428,-88.631
+54568,45.961,-89.668
+54601,43.806,-91.141
+54603,43.858,-91.252
+54610,44.365,-91.832
+54611,44.446,-90.952
+54612,44.25,-91.502
+54613,44.076,-89.924
+54614,43.905,-90.953
+54615,44.266,-90.784
+54616,44.311,-91.214
+54618,43.964,-90.286
+54619,43.758,-90.774
+54621,43.647,-91.082
+54622,44.273,-91.774
+54623,43.729,-91.027
+54624,43.462,-91.131
+54625,44.133,-91.525
+54626,43.22,-91.054
+54627,44.171,-91.227
+54628,43.373,-91.026
+54629,44.174,-91.639
+54630,44.123,-91.373
+54631,43.289,-90.833
+54632,43.561,-91.147
+54634,43.582,-90.422
+54635,44.403,-91.046
+54636,44.003,-91.224
+54637,43.879,-90.271
+54638,43.786,-90.405
+54639,43.611,-90.6
+54642,44.152,-91.045
+54643,44.188,-90.632
+54644,44.036,-91.063
+54645,43.321,-90.929
+54646,44.083,-90.093
+54648,43.837,-90.635
+54650,43.909,-91.225
+54651,43.723,-90.566
+54652,43.476,-90.772
+54653,43.821,-90.927
+54654,43.269,-90.954
+54655,43.371,-90.759
+54656,43.99,-90.803
+54657,43.199,-90.91
+54658,43.683,-91.187
+54659,44.287,-91.096
+54660,43.985,-90.505
+54661,44.058,-91.468
+54664,43.488,-90.643
+54665,43.532,-90.929
+54666,44.17,-90.45
+54667,43.666,-90.865
+54669,43.911,-91.084
+54670,43.838,-90.483
+54701,44.752,-91.515
+54703,44.835,-91.52
+54720,44.805,-91.437
+54721,44.634,-92.083
+54722,44.712,-91.096
+54723,44.611,-92.419
+54724,45.108,-91.484
+54725,45.073,-91.991
+54726,44.937,-91.026
+54727,44.954,-91.159
+54728,45.308,-91.638
+54729,44.946,-91.395
+54730,45.019,-91.72
+54731,45.35,-91.09
+54732,45.145,-91.17
+54733,45.279,-91.85
+54734,45.093,-92.114
+54736,44.613,-91.925
+54737,44.718,-91.982
+54738,44.588,-91.489
+54739,44.86,-91.701
+54740,44.751,-92.167
+54741,44.61,-90.98
+54742,44.763,-91.272
+54745,45.251,-91.123
+54746,44.548,-90.864
+54747,44.395,-91.5
+54748,45.075,-91.263
+54749,44.951,-92.099
+54750,44.635,-92.285
+54751,44.851,-91.934
+54754,44.426,-90.774
+54755,44.576,-91.681
+54756,44.468,-91.94
+54757,45.237,-91.522
+54758,44.558,-91.217
+54759,44.498,-92.121
+54760,44.424,-91.206
+54761,44.623,-92.178
+54762,45.256,-91.997
+54763,45.18,-91.875
+54766,45.341,-90.858
+54767,44.83,-92.255
+54768,44.967,-90.927
+54769,44.51,-92.227
+54770,44.552,-91.373
+54771,44.924,-90.807
+54772,45.081,-91.887
+54773,44.39,-91.296
+54801,45.864,-91.937
+54805,45.412,-92.024
+54806,46.552,-90.846
+54810,45.457,-92.388
+54812,45.392,-91.883
+54813,45.657,-92.022
+54814,46.863,-90.901
+54817,45.676,-91.532
+54819,45.476,-91.302
+54820,46.557,-91.562
+54821,46.217,-91.166
+54822,45.401,-91.694
+54824,45.485,-92.54
+54826,45.497,-92.177
+54827,46.801,-91.112
+54828,45.841,-91.294
+54829,45.567,-92.075
+54830,46.106,-92.226
+54832,46.319,-91.343
+54835,45.68,-91.25
+54836,46.454,-92.195
+54837,45.674,-92.358
+54838,46.249,-91.794
+54839,46.356,-91.151
+54840,45.751,-92.692
+54841,45.608,-91.779
+54842,46.491,-91.872
+54843,46.024,-91.293
+54844,46.781,-91.215
+54845,45.804,-92.145
+54846,46.378,-90.72
+54847,46.579,-91.4
+54848,45.516,-91.104
+54849,46.482,-91.717
+54850,46.941,-90.571
+54853,45.576,-92.459
+54854,46.65,-91.667
+54855,46.383,-90.828
+54856,46.432,-91.11
+54857,45.593,-91.599
+54858,45.519,-92.458
+54859,46.126,-91.849
+54861,46.599,-90.643
+54862,45.808,-91.118
+54864,46.602,-91.801
+54865,46.756,-91.375
+54867,45.822,-91.203
+54868,45.527,-91.717
+54870,45.709,-91.775
+54871,45.75,-92.002
+54872,45.772,-92.392
+54873,46.346,-91.702
+54874,46.572,-91.939
+54875,45.974,-91.693
+54876,45.828,-91.501
+54880,46.591,-92.128
+54888,45.975,-91.867
+54889,45.415,-92.17
+54891,46.698,-90.971
+54893,45.879,-92.326
+54895,45.449,-91.461
+54896,45.806,-90.884
+54901,44.063,-88.536
+54902,43.947,-88.54
+54904,44.023,-88.624
+54909,44.281,-89.367
+54911,44.282,-88.381
+54913,44.336,-88.4
+54914,44.268,-88.499
+54915,44.242,-88.361
+54921,44.296,-89.579
+54922,44.549,-88.743
+54923,43.998,-88.967
+54926,44.616,-89.02
+54927,44.103,-88.654
+54928,44.753,-88.879
+54929,44.641,-88.74
+54930,44.033,-89.555
+54931,44.27,-88.668
+54932,43.84,-88.619
+54933,44.659,-88.714
+54935,43.775,-88.433
+54937,43.724,-88.398
+54940,44.22,-88.843
+54941,43.845,-88.993
+54942,44.299,-88.543
+54943,44.123,-89.573
+54944,44.325,-88.627
+54945,44.569,-89.137
+54946,44.337,-89.145
+54947,44.204,-88.699
+54948,44.776,-88.886
+54949,44.494,-88.913
+54950,44.657,-88.918
+54952,44.202,-88.339
+54956,44.182,-88.528
+54960,43.942,-89.219
+54961,44.41,-88.762
+54962,44.486,-89.031
+54963,44.046,-88.767
+54964,43.916,-88.742
+54965,44.168,-89.044
+54966,44.21,-89.505
+54967,44.127,-88.976
+54968,43.847,-89.136
+54970,44.073,-89.098
+54971,43.855,-88.834
+54974,43.782,-88.652
+54977,44.461,-89.171
+54978,44.794,-88.914
+54979,43.873,-88.536
+54980,43.986,-88.766
+54981,44.323,-89.131
+54982,44.07,-89.293
+54983,44.317,-88.935
+54984,44.191,-89.223
+54985,44.076,-88.52
+54986,44.117,-88.747
+55001,44.899,-92.819
+55003,45.007,-92.779
+55005,45.396,-93.218
+55006,45.738,-93.199
+55007,45.971,-93.118
+55008,45.569,-93.277
+55009,44.481,-92.871
+55011,45.344,-93.252
+55012,45.438,-92.788
+55013,45.352,-92.888
+55014,45.168,-93.124
+55016,44.817,-92.934
+55017,45.671,-93.438
+55018,44.415,-92.984
+55019,44.411,-93.25
+55020,44.578,-93.374
+55021,44.298,-93.274
+55024,44.629,-93.136
+55025,45.26,-93.017
+55026,44.521,-92.336
+55027,44.406,-92.609
+55029,45.635,-93.201
+55030,45.848,-93.12
+55031,44.613,-92.962
+55032,45.59,-92.993
+55033,44.711,-92.859
+55036,45.871,-93.12
+55037,46.008,-92.793
+55038,45.173,-92.981
+55040,45.469,-93.278
+55041,44.393,-92.334
+55042,44.988,-92.892
+55043,44.941,-92.769
+55044,44.642,-93.276
+55045,45.396,-92.828
+55046,44.443,-93.41
+55047,45.2,-92.821
+55049,44.177,-93.238
+55051,45.937,-93.339
+55052,44.233,-93.44
+55053,44.349,-93.065
+55054,44.572,-93.351
+55055,44.874,-92.999
+55056,45.509,-92.961
+55057,44.473,-93.179
+55060,44.06,-93.227
+55063,45.839,-92.903
+55065,44.551,-93.025
+55066,44.512,-92.539
+55068,44.735,-93.063
+55069,45.7,-92.972
+55070,45.406,-93.303
+55071,44.821,-92.998
+55072,46.143,-92.584
+55073,45.276,-92.83
+55074,45.388,-92.72
+55075,44.888,-93.042
+55076,44.833,-93.033
+55077,44.818,-93.077
+55079,45.419,-93.035
+55080,45.666,-93.222
+55082,45.074,-92.842
+55084,45.463,-92.716
+55085,44.67,-92.963
+55087,44.236,-93.409
+55088,44.524,-93.383
+55089,44.593,-92.709
+55090,45.054,-92.958
+55092,45.334,-93.1
+55101,44.951,-93.088
+55102,44.932,-93.121
+55103,44.964,-93.123
+55104,44.954,-93.164
+55105,44.935,-93.166
+55106,44.957,-93.047
+55107,44.931,-93.079
+55108,44.982,-93.175
+55109,45.017,-93.027
+55110,45.09,-93.004
+55111,44.89,-93.19
+55112,45.081,-93.192
+55113,45.012,-93.151
+55114,44.967,-93.195
+55115,45.067,-92.949
+55116,44.911,-93.17
+55117,45.004,-93.091
+55118,44.894,-93.101
+55119,44.94,-93.006
+55120,44.876,-93.151
+55121,44.846,-93.16
+55122,44.801,-93.195
+55123,44.802,-93.139
+55124,44.745,-93.199
+55125,44.918,-92.938
+55126,45.083,-93.14
+55127,45.082,-93.077
+55128,44.988,-92.964
+55129,44.883,-92.893
+55130,44.973,-93.082
+55150,44.887,-93.161
+55155,44.952,-93.099
+55301,45.244,-93.661
+55302,45.247,-94.117
+55303,45.288,-93.432
+55304,45.246,-93.26
+55305,44.956,-93.428
+55306,44.731,-93.291
+55307,44.6,-94.111
+55308,45.414,-93.835
+55309,45.379,-93.733
+55310,44.756,-94.876
+55311,45.106,-93.497
+55312,44.706,-94.351
+55313,45.174,-93.849
+55314,44.776,-94.607
+55315,44.715,-93.692
+55316,45.173,-93.387
+55317,44.857,-93.551
+55318,44.811,-93.636
+55319,45.472,-93.952
+55320,45.396,-94.086
+55321,45.088,-94.193
+55322,44.772,-93.787
+55324,45.054,-94.433
+55325,45.085,-94.317
+55327,45.204,-93.469
+55328,45.033,-93.814
+55329,45.305,-94.559
+55330,45.332,-93.567
+55331,44.901,-93.61
+55332,44.52,-94.699
+55333,44.563,-94.861
+55334,44.536,-94.188
+55335,44.531,-94.553
+55336,44.765,-94.19
+55337,44.778,-93.272
+55338,44.675,-94.001
+55339,44.723,-93.957
+55340,45.078,-93.572
+55341,45.158,-93.663
+55342,44.743,-94.739
+55343,44.914,-93.416
+55344,44.864,-93.43
+55345,44.915,-93.484
+55346,44.879,-93.481
+55347,44.828,-93.462
+55349,45.062,-94.075
+55350,44.897,-94.393
+55352,44.651,-93.593
+55353,45.329,-94.325
+55354,44.887,-94.064
+55355,45.091,-94.56
+55356,44.996,-93.585
+55357,45.104,-93.674
+55358,45.245,-93.998
+55359,45.007,-93.693
+55360,44.916,-93.92
+55362,45.3,-93.847
+55363,45.038,-93.918
+55364,44.939,-93.676
+55366,44.672,-94.235
+55367,44.895,-93.976
+55368,44.74,-93.9
+55369,45.127,-93.449
+55370,44.784,-94.035
+55371,45.576,-93.589
+55372,44.682,-93.414
+55373,45.088,-93.722
+55374,45.176,-93.576
+55375,44.895,-93.726
+55376,45.21,-93.683
+55378,44.759,-93.364
+55379,44.743,-93.51
+55381,44.931,-94.2
+55382,45.3,-94.199
+55384,44.936,-93.63
+55385,44.736,-94.486
+55386,44.857,-93.664
+55387,44.861,-93.784
+55388,44.955,-93.849
+55389,45.298,-94.443
+55390,45.068,-93.979
+55391,44.964,-93.543
+55395,44.958,-94.063
+55396,44.545,-94.367
+55397,44.824,-93.938
+55398,45.459,-93.589
+55401,44.985,-93.27
+55402,44.976,-93.271
+55403,44.97,-93.284
+55404,44.962,-93.261
+55405,44.973,-93.302
+55406,44.939,-93.221
+55407,44.935,-93.253
+55408,44.944,-93.294
+55409,44.93,-93.281
+55410,44.913,-93.317
+55411,45,-93.298
+55412,45.027,-93.304
+55413,44.998,-93.244
+55414,44.978,-93.222
+55415,44.975,-93.258
+55416,44.949,-93.341
+55417,44.906,-93.235
+55418,45.021,-93.243
+55419,44.906,-93.288
+55420,44.836,-93.277
+55421,45.051,-93.25
+55422,45.009,-93.341
+55423,44.877,-93.281
+55424,44.905,-93.345
+55425,44.851,-93.226
+55426,44.957,-93.382
+55427,45.005,-93.381
+55428,45.064,-93.384
+55429,45.064,-93.341
+55430,45.063,-93.299
+55431,44.825,-93.313
+55432,45.097,-93.254
+55433,45.16,-93.315
+55434,45.164,-93.25
+55435,44.874,-93.335
+55436,44.907,-93.375
+55437,44.824,-93.342
+55438,44.823,-93.386
+55439,44.874,-93.373
+55441,45.008,-93.431
+55442,45.049,-93.426
+55443,45.119,-93.339
+55444,45.108,-93.303
+55445,45.122,-93.379
+55446,45.039,-93.49
+55447,45.001,-93.49
+55448,45.194,-93.3
+55449,45.176,-93.184
+55450,44.872,-93.229
+55454,44.973,-93.244
+55455,44.975,-93.235
+55601,47.236,-91.366
+55602,47.316,-91.932
+55603,47.551,-91.206
+55604,47.979,-90.6
+55605,47.953,-89.66
+55606,47.96,-90.016
+55607,47.622,-91.501
+55609,46.967,-91.789
+55612,47.788,-90.706
+55613,47.573,-90.986
+55614,47.346,-91.382
+55615,47.747,-90.851
+55616,47.252,-91.692
+55702,46.957,-92.638
+55703,47.731,-92.75
+55704,46.219,-92.752
+55705,47.471,-92.267
+55706,47.667,-91.985
+55707,46.552,-92.636
+55708,47.54,-92.342
+55709,47.403,-93.373
+55710,47.65,-92.697
+55711,46.819,-92.691
+55712,46.282,-92.521
+55713,47.488,-92.764
+55716,47.322,-93.264
+55717,47.069,-92.387
+55718,46.621,-92.486
+55719,47.541,-92.862
+55720,46.751,-92.533
+55721,47.221,-93.683
+55722,47.283,-93.434
+55723,47.84,-92.857
+55724,47.167,-92.369
+55725,48.35,-92.531
+55726,46.65,-92.827
+55731,47.997,-91.754
+55732,47.688,-92.251
+55733,46.714,-92.361
+55734,47.389,-92.497
+55735,46.21,-93.01
+55736,46.957,-92.921
+55738,47.264,-92.66
+55741,47.457,-92.385
+55742,47.171,-93.145
+55744,47.234,-93.513
+55746,47.335,-92.954
+55748,46.994,-93.596
+55749,46.44,-92.443
+55750,47.531,-91.964
+55751,47.389,-92.673
+55752,46.952,-93.253
+55753,47.397,-93.08
+55756,46.375,-92.601
+55757,46.526,-92.948
+55758,47.506,-92.72
+55760,46.643,-93.257
+55763,47.33,-92.232
+55764,47.333,-93.291
+55765,47.099,-92.736
+55767,46.449,-92.774
+55768,47.538,-92.661
+55769,47.48,-93.184
+55771,48.117,-92.904
+55772,48.11,-93.1
+55775,47.299,-93.161
+55779,46.909,-92.449
+55780,46.676,-92.678
+55781,47.681,-93.065
+55782,47.833,-92.206
+55783,46.412,-92.918
+55784,47.058,-93.165
+55785,46.922,-93.731
+55786,47.318,-93.383
+55787,46.722,-93.108
+55790,47.825,-92.376
+55792,47.597,-92.48
+55793,47.116,-93.284
+55795,46.298,-92.883
+55796,47.93,-91.795
+55797,46.566,-92.362
+55798,46.723,-92.968
+55802,46.764,-92.082
+55803,47.035,-92.072
+55804,46.931,-91.936
+55805,46.8,-92.092
+55806,46.768,-92.128
+55807,46.735,-92.168
+55808,46.679,-92.237
+55810,46.757,-92.269
+55811,46.839,-92.222
+55812,46.809,-92.072
+55814,46.835,-92.197
+55901,44.078,-92.497
+55902,43.971,-92.508
+55903,44.024,-92.437
+55904,43.953,-92.401
+55905,44.056,-92.526
+55906,44.1,-92.408
+55909,43.563,-92.735
+55910,44.129,-91.972
+55912,43.683,-92.988
+55917,43.885,-93.075
+55918,43.742,-92.847
+55919,43.62,-91.299
+55920,44.012,-92.621
+55921,43.62,-91.476
+55922,43.562,-91.896
+55923,43.849,-92.183
+55924,44.036,-93.016
+55925,43.912,-91.458
+55926,43.743,-92.707
+55927,44.034,-92.873
+55929,43.978,-92.144
+55931,43.509,-91.385
+55932,44.152,-92.298
+55933,43.648,-92.685
+55934,44.004,-92.266
+55935,43.747,-92.127
+55936,43.706,-92.585
+55939,43.547,-92.081
+55940,43.899,-92.809
+55941,43.725,-91.349
+55943,43.783,-91.583
+55944,43.99,-92.718
+55945,44.267,-92.053
+55946,44.262,-92.95
+55947,43.823,-91.366
+55949,43.703,-91.93
+55950,43.743,-92.966
+55951,43.529,-92.482
+55952,43.944,-91.843
+55953,43.528,-92.965
+55954,43.557,-91.78
+55955,44.087,-92.741
+55956,44.286,-92.528
+55957,44.253,-92.297
+55959,44.118,-91.8
+55960,44.14,-92.535
+55961,43.605,-92.475
+55962,43.762,-91.845
+55963,44.181,-92.671
+55964,44.16,-92.158
+55965,43.623,-92.128
+55967,43.793,-92.514
+55968,44.397,-92.09
+55969,44.083,-91.877
+55970,43.597,-92.831
+55971,43.82,-91.758
+55972,43.994,-92.051
+55973,43.808,-92.772
+55974,43.577,-91.648
+55975,43.678,-92.364
+55976,43.864,-92.484
+55977,43.554,-92.648
+55979,43.923,-91.951
+55981,44.358,-92.049
+55982,43.816,-92.886
+55983,44.291,-92.807
+55985,44.158,-92.904
+55987,43.994,-91.625
+55990,43.728,-92.259
+55991,44.261,-92.419
+55992,44.323,-92.683
+56001,44.128,-93.979
+56003,44.219,-94.09
+56007,43.661,-93.325
+56009,43.662,-93.546
+56010,43.886,-94.18
+56011,44.602,-93.773
+56013,43.62,-94.104
+56014,43.583,-93.818
+56016,43.762,-93.343
+56017,44.305,-93.82
+56019,44.116,-94.889
+56020,43.615,-93.53
+56021,44.289,-94.316
+56022,44.053,-94.839
+56023,43.772,-94.013
+56024,44.144,-93.839
+56025,43.753,-93.917
+56026,43.886,-93.291
+56027,43.517,-94.117
+56028,44.226,-93.717
+56029,43.518,-93.536
+56030,44.325,-94.605
+56031,43.627,-94.462
+56032,43.777,-93.569
+56033,43.565,-93.938
+56034,44.029,-94.182
+56035,43.82,-93.273
+56036,43.552,-93.221
+56037,44.011,-94.039
+56039,43.663,-94.324
+56041,44.161,-94.533
+56042,43.804,-93.484
+56043,43.649,-93.222
+56044,44.565,-93.957
+56045,43.76,-93.21
+56046,43.968,-93.269
+56048,44.095,-93.713
+56050,44.259,-93.947
+56051,43.536,-93.708
+56052,44.327,-93.559
+56054,44.436,-94.37
+56055,44.128,-94.235
+56056,44.073,-94.579
+56057,44.391,-93.722
+56058,44.442,-93.914
+56060,43.929,-94.441
+56062,44.048,-94.414
+56063,44.215,-93.821
+56065,43.931,-93.908
+56068,43.865,-93.806
+56069,44.412,-93.542
+56071,44.535,-93.579
+56072,43.899,-93.517
+56073,44.307,-94.469
+56074,44.327,-94.197
+56075,43.735,-94.437
+56078,44.006,-93.761
+56080,44.082,-93.858
+56081,43.993,-94.635
+56082,44.357,-94.037
+56083,44.208,-95.134
+56085,44.291,-94.734
+56087,44.241,-94.975
+56088,43.825,-94.458
+56089,43.568,-93.457
+56090,43.951,-94.227
+56091,43.914,-93.686
+56093,44.063,-93.52
+56096,44.245,-93.603
+56097,43.721,-93.713
+56098,43.793,-94.182
+56101,43.88,-95.134
+56110,43.622,-95.945
+56111,43.643,-94.887
+56113,44.404,-96.151
+56114,43.986,-95.592
+56115,44.209,-95.906
+56116,43.624,-96.377
+56117,43.523,-95.687
+56118,43.936,-95.029
+56119,43.714,-95.463
+56120,43.96,-94.792
+56121,43.535,-94.584
+56122,43.898,-95.956
+56123,44.087,-95.592
+56125,44.055,-95.548
+56127,43.547,-94.765
+56128,43.882,-96.11
+56129,43.529,-96.042
+56131,43.856,-95.573
+56132,44.203,-95.765
+56134,43.79,-96.231
+56136,44.495,-96.414
+56137,43.823,-95.31
+56138,43.537,-96.38
+56139,44.104,-96.179
+56140,43.909,-96.367
+56141,43.886,-95.803
+56142,44.468,-96.231
+56143,43.628,-95.002
+56144,43.839,-96.387
+56145,44.056,-95.174
+56146,43.58,-96.103
+56147,43.757,-96.058
+56149,44.304,-96.306
+56150,43.628,-95.197
+56151,44.031,-95.929
+56152,44.227,-95.281
+56153,43.826,-96.024
+56155,43.766,-95.946
+56156,43.662,-96.227
+56157,44.404,-95.948
+56158,43.634,-96.084
+56159,43.943,-94.937
+56160,43.829,-94.805
+56161,43.707,-95.325
+56162,43.84,-94.667
+56164,44.054,-96.333
+56165,43.725,-95.703
+56166,44.203,-95.381
+56167,43.554,-95.409
+56168,43.609,-95.8
+56169,44.332,-96.011
+56170,44.165,-96.095
+56171,43.671,-94.762
+56172,44.014,-95.776
+56173,43.525,-96.242
+56174,44.016,-95.305
+56175,44.261,-95.639
+56176,43.783,-94.72
+56178,44.286,-96.128
+56180,44.246,-95.46
+56181,43.678,-94.627
+56183,44.029,-95.431
+56185,43.799,-95.824
+56186,44.025,-96.077
+56187,43.623,-95.583
+56201,45.102,-95.042
+56207,45.506,-96.067
+56208,45.247,-96.005
+56209,45.127,-94.812
+56210,45.557,-96.56
+56211,45.593,-96.688
+56212,45.131,-96.324
+56214,44.61,-95.324
+56215,45.318,-95.572
+56216,44.943,-95.059
+56218,44.827,-95.94
+56219,45.597,-96.818
+56220,44.726,-96.291
+56221,45.56,-96.187
+56222,44.985,-95.357
+56223,44.762,-95.819
+56224,44.376,-95.068
+56225,45.441,-96.443
+56226,45.407,-95.678
+56227,45.291,-96.169
+56228,44.951,-94.685
+56229,44.594,-95.716
+56230,44.792,-95.089
+56231,45.28,-95.763
+56232,44.927,-96.038
+56235,45.71,-96.017
+56236,45.665,-96.396
+56237,44.624,-95.431
+56239,44.504,-95.911
+56240,45.563,-96.484
+56241,44.798,-95.573
+56243,45.17,-94.686
+56244,45.478,-95.78
+56245,44.684,-95.677
+56248,45.786,-96.136
+56249,45.319,-95.902
+56251,45.144,-94.92
+56252,45.178,-95.31
+56253,44.958,-94.866
+56255,44.39,-95.421
+56256,45.017,-96.213
+56257,44.969,-96.402
+56258,44.437,-95.746
+56260,44.963,-95.483
+56262,45.115,-95.87
+56263,44.421,-95.532
+56264,44.587,-95.981
+56265,45,-95.706
+56266,44.421,-94.915
+56267,45.582,-95.929
+56270,44.56,-94.965
+56271,45.241,-95.414
+56273,45.318,-94.98
+56274,45.898,-96.245
+56276,45.241,-96.307
+56277,44.767,-94.993
+56278,45.348,-96.38
+56279,45.219,-95.17
+56280,44.633,-96.166
+56281,44.948,-95.165
+56282,45.03,-95.224
+56283,44.528,-95.139
+56284,44.773,-95.212
+56285,44.788,-95.345
+56287,44.476,-95.326
+56288,45.243,-94.944
+56289,45.333,-95.224
+56291,44.623,-96.062
+56292,44.502,-95.457
+56293,44.417,-95.26
+56294,44.315,-95.213
+56295,45.043,-95.849
+56296,45.826,-96.477
+56297,44.637,-95.554
+56301,45.487,-94.243
+56303,45.574,-94.215
+56304,45.53,-94.057
+56307,45.627,-94.591
+56308,45.868,-95.394
+56309,46.079,-95.806
+56310,45.633,-94.451
+56311,45.897,-95.896
+56312,45.457,-94.969
+56313,45.784,-93.553
+56314,45.815,-94.433
+56315,45.98,-95.593
+56316,45.506,-95.143
+56318,45.853,-94.675
+56319,46.011,-95.216
+56320,45.467,-94.403
+56321,45.58,-94.392
+56323,45.63,-95.724
+56324,46.169,-95.904
+56325,45.563,-94.947
+56326,46.04,-95.671
+56327,45.754,-95.608
+56328,45.952,-94.521
+56329,45.709,-93.915
+56330,45.753,-93.756
+56331,45.679,-94.672
+56332,45.967,-95.506
+56334,45.574,-95.337
+56335,45.601,-94.859
+56336,45.821,-94.763
+56338,46.003,-93.834
+56339,45.825,-95.821
+56340,45.759,-94.429
+56342,46.184,-93.369
+56343,45.796,-95.713
+56345,46.01,-94.384
+56347,45.971,-94.861
+56349,45.718,-95.52
+56350,46.305,-93.23
+56352,45.642,-94.806
+56353,45.804,-93.629
+56354,46.064,-95.282
+56355,45.941,-95.246
+56356,45.634,-94.728
+56357,45.692,-93.798
+56358,45.838,-93.446
+56359,46.1,-93.665
+56360,45.887,-95.104
+56361,46.16,-95.332
+56362,45.402,-94.712
+56363,45.697,-93.652
+56364,46.019,-94.072
+56367,45.764,-94.182
+56368,45.464,-94.561
+56369,45.469,-94.336
+56371,45.433,-94.637
+56373,45.86,-94.231
+56374,45.566,-94.317
+56375,45.701,-94.275
+56376,45.502,-94.667
+56377,45.64,-94.227
+56378,45.725,-94.987
+56379,45.64,-94.083
+56381,45.557,-95.538
+56382,45.908,-94.598
+56384,45.81,-94.568
+56385,45.69,-95.214
+56386,46.114,-93.52
+56387,45.521,-94.243
+56389,45.801,-95.086
+56401,46.323,-94.125
+56425,46.344,-94.276
+56431,46.491,-93.636
+56433,46.951,-94.688
+56434,46.338,-94.934
+56435,46.806,-94.532
+56437,46.246,-95.058
+56438,46.139,-94.819
+56440,46.142,-94.955
+56441,46.578,-93.981
+56442,46.678,-94.102
+56443,46.174,-94.58
+56444,46.436,-93.889
+56446,46.129,-95.097
+56447,46.732,-93.884
+56448,46.788,-94.082
+56449,46.179,-94.261
+56450,46.237,-93.843
+56452,46.957,-94.448
+56453,46.316,-95.175
+56455,46.441,-94.001
+56458,47.196,-95.002
+56461,47.232,-94.854
+56464,46.769,-95.104
+56465,46.537,-94.114
+56466,46.436,-94.625
+56467,46.975,-94.831
+56468,46.493,-94.311
+56469,46.781,-93.567
+56470,47.027,-95.092
+56472,46.582,-94.341
+56473,46.358,-94.47
+56474,46.723,-94.397
+56475,46.08,-94.546
+56477,46.645,-95
+56479,46.435,-94.795
+56481,46.463,-94.936
+56482,46.464,-95.148
+56484,47.111,-94.482
+56501,46.84,-95.827
+56510,47.359,-96.525
+56511,46.842,-96.016
+56514,46.646,-96.431
+56515,46.307,-95.691
+56516,47.445,-95.971
+56517,47.55,-96.559
+56518,46.49,-95.25
+56519,47.162,-96.479
+56520,46.29,-96.497
+56521,46.999,-95.902
+56522,46.135,-96.39
+56523,47.638,-96.809
+56524,46.217,-95.615
+56525,46.672,-96.752
+56527,46.373,-95.315
+56528,46.521,-95.824
+56529,46.879,-96.696
+56531,45.992,-95.982
+56533,46.399,-96.142
+56534,46.472,-96.011
+56535,47.678,-96.042
+56536,47.041,-96.533
+56537,46.277,-96.092
+56540,47.54,-96.274
+56541,47.173,-96.141
+56542,47.568,-95.728
+56543,46.285,-96.337
+56544,46.758,-95.605
+56545,47.397,-96.243
+56546,47.105,-96.72
+56547,46.889,-96.554
+56548,47.368,-96.745
+56549,46.848,-96.312
+56550,47.274,-96.743
+56551,46.319,-95.454
+56552,46.985,-96.234
+56553,46.429,-96.618
+56554,46.886,-96.116
+56556,47.663,-95.88
+56557,47.304,-95.836
+56560,46.835,-96.735
+56562,46.865,-96.77
+56563,46.867,-96.755
+56565,46.049,-96.315
+56566,47.246,-95.605
+56567,46.55,-95.374
+56568,47.535,-96.783
+56569,47.078,-95.827
+56570,46.918,-95.367
+56571,46.434,-95.543
+56572,46.605,-96.084
+56573,46.61,-95.542
+56574,47.199,-96.706
+56575,47.042,-95.435
+56576,46.476,-95.74
+56578,46.941,-95.641
+56579,46.464,-96.339
+56580,46.736,-96.604
+56581,47.462,-96.762
+56583,46.003,-96.407
+56584,47.224,-96.237
+56585,47.088,-96.246
+56586,46.318,-95.831
+56587,46.637,-95.857
+56588,46.209,-95.497
+56589,47.212,-95.728
+56590,46.028,-96.153
+56591,47.101,-95.857
+56592,47.532,-96.008
+56594,46.549,-96.645
+56601,47.511,-94.821
+56621,47.398,-95.414
+56623,48.597,-94.601
+56626,47.377,-94.149
+56627,48.194,-94.048
+56628,47.702,-93.534
+56629,48.512,-94.165
+56630,47.739,-94.51
+56633,47.319,-94.501
+56634,47.681,-95.398
+56636,47.39,-93.849
+56637,47.618,-93.844
+56639,47.919,-93.536
+56641,47.202,-94.26
+56644,47.778,-95.513
+56646,47.783,-95.633
+56647,47.69,-94.619
+56649,48.533,-93.163
+56650,47.998,-94.557
+56651,47.454,-95.617
+56652,47.708,-95.228
+56653,48.283,-93.575
+56654,48.431,-93.965
+56655,46.981,-94.231
+56657,47.573,-93.637
+56658,48.112,-93.933
+56659,47.551,-94.049
+56660,47.993,-94.193
+56661,47.835,-94.125
+56662,46.862,-93.853
+56663,47.506,-94.443
+56666,48.033,-94.821
+56667,47.722,-94.969
+56668,48.615,-93.345
+56669,48.371,-93.21
+56670,47.829,-94.865
+56671,47.943,-95.339
+56672,47.073,-94.002
+56673,48.774,-95.15
+56676,47.522,-95.201
+56678,47.436,-95.115
+56680,47.659,-93.955
+56681,47.554,-94.264
+56683,47.736,-94.751
+56684,47.87,-95.699
+56685,48.239,-94.531
+56686,48.784,-94.912
+56688,47.805,-93.84
+56701,48.12,-96.2
+56710,48.218,-96.998
+56711,48.984,-95.059
+56713,48.351,-96.814
+56714,48.788,-96.005
+56715,47.806,-95.949
+56716,47.743,-96.555
+56720,48.563,-96.905
+56721,47.971,-96.95
+56722,47.985,-96.651
+56723,47.805,-96.806
+56724,48.445,-95.735
+56725,48.144,-95.712
+56726,48.725,-96.217
+56727,48.347,-95.389
+56728,48.784,-96.977
+56729,48.669,-96.594
+56731,48.913,-97.073
+56732,48.584,-96.467
+56733,48.638,-96.896
+56734,48.77,-96.604
+56735,48.91,-96.635
+56736,47.706,-96.212
+56737,48.407,-96.009
+56738,48.347,-96.337
+56742,47.931,-95.828
+56744,48.233,-97.117
+56748,47.921,-96.007
+56750,47.886,-96.297
+56751,48.811,-95.757
+56754,47.983,-96.187
+56755,48.97,-97.118
+56756,48.901,-95.56
+56757,48.478,-96.898
+56758,48.47,-96.541
+56759,48.551,-96.081
+56760,48.24,-96.446
+56761,48.609,-95.697
+56762,48.169,-96.741
+56763,48.807,-95.341
+57001,43.004,-96.657
+57002,44.288,-96.678
+57003,43.746,-96.755
+57004,43.076,-96.792
+57005,43.594,-96.587
+57006,44.316,-96.794
+57007,44.319,-96.784
+57010,42.812,-96.816
+57012,43.594,-97.278
+57013,43.283,-96.625
+57014,43.112,-96.956
+57015,43.425,-96.974
+57016,43.878,-96.958
+57017,44.033,-96.819
+57018,43.798,-96.981
+57020,43.681,-96.82
+57021,43.275,-96.981
+57022,43.856,-96.737
+57024,43.985,-96.682
+57025,42.715,-96.695
+57026,44.248,-96.496
+57027,43.192,-96.52
+57028,44.062,-96.6
+57029,43.335,-97.471
+57030,43.736,-96.544
+57031,42.876,-97.186
+57032,43.424,-96.678
+57033,43.613,-96.958
+57034,43.12,-96.538
+57035,43.646,-97.08
+57036,43.267,-97.146
+57037,43.104,-97.249
+57038,42.578,-96.577
+57039,43.338,-96.875
+57040,43.061,-97.587
+57041,43.722,-96.884
+57042,43.971,-97.144
+57043,43.423,-97.31
+57045,43.205,-97.528
+57046,42.958,-97.307
+57047,43.518,-97.215
+57048,43.742,-97.2
+57049,42.523,-96.51
+57050,44.157,-97.02
+57051,44.217,-97.351
+57052,43.292,-97.708
+57053,43.41,-97.137
+57054,44.117,-97.26
+57055,43.667,-96.744
+57057,44.102,-96.959
+57058,43.744,-97.402
+57059,43.119,-97.764
+57061,44.244,-97.044
+57062,42.846,-97.945
+57063,42.93,-97.685
+57064,43.456,-96.875
+57065,43.9,-96.606
+57066,42.989,-97.867
+57067,43.046,-97.469
+57068,43.573,-96.499
+57069,42.845,-96.986
+57070,43.182,-97.17
+57071,44.272,-96.963
+57072,42.989,-97.205
+57073,43.006,-97.055
+57075,43.996,-96.967
+57076,43.972,-97.36
+57077,43.309,-96.752
+57078,42.916,-97.447
+57103,43.538,-96.692
+57104,43.603,-96.704
+57105,43.52,-96.736
+57106,43.511,-96.835
+57107,43.599,-96.817
+57108,43.477,-96.705
+57110,43.545,-96.638
+57117,43.531,-96.755
+57197,43.525,-96.739
+57201,44.937,-97.093
+57212,44.379,-97.139
+57213,44.57,-96.537
+57214,44.48,-97.195
+57216,45.303,-96.53
+57217,45.087,-97.665
+57218,44.652,-96.592
+57219,45.291,-97.796
+57220,44.46,-96.917
+57221,44.609,-97.441
+57223,44.712,-96.994
+57224,45.812,-97.155
+57225,44.884,-97.728
+57226,44.788,-96.731
+57227,45.376,-96.728
+57231,44.376,-97.582
+57232,45.623,-97.4
+57233,44.51,-97.399
+57234,44.61,-96.894
+57235,45.072,-97.32
+57236,44.986,-97.586
+57237,44.798,-96.5
+57238,44.873,-96.861
+57239,45.511,-97.313
+57241,44.696,-97.216
+57242,44.774,-97.358
+57243,44.913,-97.442
+57245,44.894,-96.918
+57246,45.055,-96.667
+57247,45.712,-97.463
+57248,44.584,-97.188
+57249,44.383,-97.371
+57251,45.277,-96.935
+57252,45.2,-96.613
+57255,45.851,-96.948
+57256,45.25,-97.197
+57257,45.497,-97.031
+57258,44.883,-97.927
+57259,45.002,-96.563
+57260,45.842,-96.72
+57261,45.546,-97.5
+57262,45.669,-97.074
+57263,45.141,-97.008
+57264,45.108,-96.811
+57265,44.992,-96.782
+57266,45.29,-97.093
+57268,44.568,-96.689
+57269,45.224,-96.8
+57270,45.849,-97.331
+57271,44.758,-97.538
+57272,45.108,-97.484
+57273,45.333,-97.275
+57274,45.31,-97.556
+57276,44.436,-96.618
+57278,44.649,-97.681
+57279,45.416,-96.869
+57301,43.711,-98.04
+57311,43.651,-97.765
+57312,44.193,-98.384
+57313,43.305,-98.355
+57314,44.046,-97.981
+57315,42.988,-98.04
+57317,43.144,-98.966
+57319,43.533,-97.48
+57321,43.871,-97.54
+57322,44.638,-97.962
+57323,44.165,-97.72
+57324,44.301,-98.045
+57325,43.835,-99.312
+57328,43.438,-98.439
+57329,42.981,-98.146
+57330,43.265,-98.158
+57331,43.474,-98.045
+57332,43.55,-97.657
+57334,43.535,-97.996
+57335,43.065,-98.744
+57337,44.002,-97.781
+57339,44.127,-99.464
+57340,43.793,-97.852
+57341,44.095,-99.118
+57342,43.245,-98.701
+57344,43.449,-98.619
+57345,44.578,-99.444
+57346,44.249,-99.457
+57348,44.626,-98.372
+57349,44.03,-97.581
+57350,44.392,-98.202
+57353,44.369,-97.835
+57354,43.194,-97.844
+57355,43.784,-98.931
+57356,43.145,-98.513
+57358,44.075,-98.422
+57359,43.902,-98.154
+57361,42.995,-98.435
+57362,44.469,-99.071
+57363,43.68,-98.256
+57364,43.434,-98.618
+57365,43.811,-99.416
+57366,43.392,-97.947
+57367,43.066,-98.503
+57368,43.75,-98.472
+57369,43.421,-98.953
+57370,43.817,-99.168
+57371,44.437,-99.221
+57373,44.531,-98.878
+57374,43.753,-97.599
+57375,43.556,-98.48
+57376,43.22,-97.945
+57379,44.27,-98.529
+57380,43.031,-98.299
+57381,44.388,-98.731
+57382,44.056,-98.68
+57383,43.717,-98.713
+57384,44.417,-98.485
+57385,44.047,-98.301
+57386,44.507,-97.997
+57401,45.482,-98.533
+57420,45.282,-100.143
+57421,45.755,-97.907
+57422,45.425,-97.928
+57424,45.02,-98.523
+57426,45.735,-98.494
+57427,45.481,-98.319
+57428,45.453,-99.678
+57429,45.161,-98.301
+57430,45.835,-97.72
+57432,45.683,-98.031
+57433,45.638,-98.321
+57434,45.167,-98.072
+57435,45.154,-98.914
+57436,44.836,-98.077
+57437,45.789,-99.625
+57438,45.065,-99.154
+57439,45.335,-98.1
+57440,44.853,-98.257
+57441,45.826,-98.513
+57442,45.062,-100.158
+57445,45.466,-98.115
+57446,45.871,-98.153
+57448,45.612,-99.433
+57449,45.727,-98.176
+57450,45.21,-99.827
+57451,45.438,-98.937
+57452,45.529,-99.863
+57454,45.612,-97.761
+57455,45.007,-99.683
+57456,45.721,-99
+57457,45.877,-99.154
+57460,45.28,-98.671
+57461,45.165,-98.442
+57465,45.151,-98.667
+57466,45.197,-99.458
+57467,44.837,-99.18
+57468,45.495,-97.743
+57469,44.857,-98.572
+57470,44.884,-98.894
+57471,45.405,-99.318
+57472,45.428,-100.11
+57473,44.991,-99.471
+57474,45.292,-98.279
+57475,45.224,-99.625
+57476,44.706,-98.615
+57477,45.034,-98.144
+57479,45.304,-98.438
+57481,45.663,-98.683
+57501,44.528,-100.309
+57520,44.853,-100.194
+57521,43.786,-101.168
+57522,44.511,-99.964
+57523,43.248,-99.238
+57528,43.177,-99.76
+57529,43.231,-99.564
+57531,43.974,-100.486
+57532,44.365,-100.566
+57533,43.35,-99.42
+57534,43.561,-99.652
+57536,44.417,-99.774
+57537,44.578,-101.067
+57538,43.121,-99.157
+57540,44.461,-99.608
+57541,43.594,-99.912
+57543,43.748,-101.521
+57544,43.883,-99.844
+57547,43.49,-101.424
+57548,44.168,-99.588
+57551,43.192,-101.708
+57552,44.262,-101.217
+57553,44.475,-101.646
+57555,43.286,-100.667
+57559,43.931,-100.723
+57560,43.437,-101.21
+57562,43.898,-100.958
+57563,43.35,-100.421
+57564,44.74,-100.015
+57566,43.309,-101.089
+57567,44.134,-101.708
+57568,43.876,-100.096
+57569,43.859,-99.554
+57570,43.252,-100.885
+57571,43.041,-99.09
+57572,43.137,-101.1
+57574,43.126,-101.386
+57576,43.906,-100.292
+57577,43.524,-101.656
+57579,43.576,-100.789
+57580,43.289,-100.09
+57584,43.49,-100.062
+57585,43.558,-100.385
+57601,45.339,-100.365
+57620,45.377,-102.54
+57621,45.773,-101.081
+57622,44.683,-101.567
+57623,45.016,-101.653
+57625,44.979,-101.025
+57626,44.997,-102.174
+57630,45.334,-100.844
+57631,45.589,-100.296
+57632,45.833,-100.044
+57633,45.442,-101.532
+57634,45.773,-101.866
+57636,45.032,-101.438
+57638,45.87,-102.232
+57639,45.679,-100.807
+57640,45.769,-102.705
+57641,45.896,-101.311
+57642,45.791,-100.715
+57644,45.478,-102.094
+57645,45.907,-101.716
+57646,45.68,-100.058
+57648,45.93,-100.32
+57649,45.489,-102.849
+57650,45.831,-103.035
+57651,45.477,-103.034
+57652,45.136,-100.683
+57656,45.423,-101.107
+57657,45.519,-100.792
+57658,45.669,-100.562
+57659,45.891,-101.094
+57660,45.832,-101.531
+57661,45.267,-100.978
+57701,44.122,-103.201
+57702,44.032,-103.415
+57703,44.005,-103.043
+57706,44.159,-103.102
+57714,43.329,-101.915
+57716,43.091,-102.196
+57717,44.934,-103.896
+57718,44.171,-103.369
+57719,44.231,-102.994
+57720,45.537,-103.586
+57722,43.443,-102.987
+57724,45.574,-104.001
+57725,43.932,-102.792
+57730,43.727,-103.649
+57732,44.329,-103.689
+57735,43.288,-103.854
+57737,44.555,-102.517
+57738,43.685,-103.159
+57741,44.41,-103.473
+57744,43.793,-103.034
+57745,44.013,-103.786
+57747,43.374,-103.519
+57748,44.585,-102.011
+57750,43.593,-101.945
+57751,43.869,-103.427
+57752,43.429,-102.201
+57754,44.255,-103.888
+57755,45.868,-103.347
+57756,43.237,-102.475
+57758,44.995,-102.737
+57759,44.228,-103.557
+57760,44.895,-103.335
+57761,44.227,-102.785
+57762,44.753,-103.62
+57763,43.124,-103.251
+57764,43.258,-102.771
+57766,43.356,-103.178
+57767,44.137,-102.571
+57769,44.245,-103.289
+57770,43.084,-102.654
+57772,43.477,-102.528
+57773,43.594,-103.592
+57775,44.093,-102.002
+57776,45.236,-103.508
+57779,44.569,-103.761
+57780,43.768,-102.48
+57782,43.249,-103.181
+57783,44.456,-103.925
+57785,44.402,-103.189
+57787,44.668,-102.658
+57788,44.617,-103.205
+57790,44.104,-102.201
+57791,44.247,-102.458
+57792,44.598,-102.368
+57793,44.525,-103.579
+57794,43.121,-102.407
+57799,44.498,-103.873
+58001,46.448,-96.741
+58002,46.971,-97.397
+58004,47.026,-97.271
+58005,47.053,-96.951
+58006,47.097,-97.204
+58007,47.025,-97.457
+58008,46.308,-97.002
+58009,47.327,-97.244
+58011,46.928,-97.544
+58012,46.942,-97.168
+58013,46.058,-97.353
+58015,46.592,-96.815
+58016,47.366,-97.463
+58017,46.043,-97.851
+58018,46.435,-96.889
+58021,46.736,-97.082
+58027,46.633,-97.631
+58029,47.119,-97.394
+58030,46.03,-96.668
+58031,46.768,-97.671
+58032,46.076,-97.655
+58033,46.435,-97.92
+58035,47.253,-97.431
+58036,47.155,-96.963
+58038,47.245,-96.995
+58040,46.189,-97.685
+58041,46.037,-96.906
+58042,46.971,-96.956
+58043,45.97,-97.538
+58045,47.389,-97.016
+58046,47.322,-97.728
+58047,46.714,-96.873
+58048,47.199,-97.224
+58049,46.671,-97.991
+58051,46.637,-97.022
+58052,46.635,-97.28
+58053,46.053,-97.181
+58054,46.417,-97.669
+58056,47.237,-97.929
+58057,46.425,-97.268
+58058,46.181,-96.972
+58059,46.832,-97.144
+58060,46.268,-97.427
+58061,46.275,-96.894
+58062,46.638,-97.84
+58063,46.959,-97.798
+58064,47.14,-97.632
+58065,47.2,-97.766
+58067,46.073,-97.499
+58068,46.551,-97.417
+58069,46.243,-97.84
+58071,46.941,-97.683
+58072,46.927,-98.008
+58074,46.218,-96.876
+58075,46.276,-96.73
+58076,46.274,-96.607
+58077,46.525,-96.976
+58078,46.867,-96.942
+58079,46.868,-97.367
+58081,46.314,-97.144
+58102,46.927,-96.835
+58103,46.856,-96.822
+58104,46.793,-96.838
+58105,46.896,-96.804
+58201,47.867,-97.141
+58202,47.921,-97.075
+58203,47.97,-97.165
+58204,47.96,-97.371
+58205,47.955,-97.395
+58210,48.406,-98.112
+58212,47.695,-97.997
+58214,47.927,-97.498
+58216,48.879,-97.443
+58218,47.592,-97.059
+58219,47.476,-96.878
+58220,48.798,-97.742
+58222,48.619,-97.682
+58223,47.52,-97.016
+58224,48.168,-97.943
+58225,48.611,-97.223
+58227,48.549,-97.893
+58228,47.868,-97.345
+58229,48.514,-98.243
+58230,47.493,-97.822
+58231,48.202,-97.829
+58233,48.202,-97.546
+58235,48.09,-97.483
+58236,48.718,-97.505
+58237,48.415,-97.401
+58238,48.78,-97.398
+58239,48.92,-98.685
+58240,47.636,-97.485
+58241,48.709,-97.699
+58243,48.514,-97.68
+58244,48.11,-97.658
+58249,48.823,-98.327
+58250,48.274,-98.022
+58251,47.954,-97.7
+58254,47.774,-98.15
+58255,48.997,-98.354
+58256,48.084,-97.2
+58257,47.49,-97.285
+58258,48.011,-97.338
+58259,48.02,-98.121
+58260,48.637,-98.049
+58261,48.242,-97.319
+58262,48.681,-97.878
+58265,48.956,-97.59
+58266,48.001,-97.85
+58267,47.755,-97.629
+58269,48.698,-98.158
+58270,48.395,-97.791
+58271,48.913,-97.29
+58272,48.008,-97.985
+58273,48.297,-97.663
+58274,47.492,-97.489
+58275,47.69,-97.105
+58276,48.624,-97.456
+58277,47.608,-97.823
+58278,47.781,-97.121
+58281,48.856,-98.616
+58282,48.898,-97.942
+58301,48.142,-98.893
+58310,48.567,-99.553
+58311,48.645,-98.557
+58313,48.166,-100.037
+58316,48.845,-99.803
+58317,48.626,-99.404
+58318,48.858,-100.397
+58321,48.202,-98.314
+58323,48.841,-98.923
+58324,48.479,-99.221
+58325,48.289,-99.118
+58327,48.104,-98.568
+58329,48.862,-100.072
+58330,48.434,-98.479
+58331,48.639,-99.09
+58332,48.044,-99.773
+58335,47.97,-99.017
+58338,48.526,-98.627
+58339,48.973,-99.325
+58341,47.768,-99.877
+58343,48.296,-99.729
+58344,48.017,-98.343
+58345,48.307,-98.375
+58346,48.29,-99.428
+58348,47.953,-99.521
+58351,48.098,-99.315
+58352,48.696,-98.858
+58353,48.64,-99.59
+58355,48.578,-98.396
+58356,47.671,-99.072
+58357,47.94,-99.217
+58361,47.752,-98.376
+58362,48.231,-99.06
+58363,48.769,-99.466
+58365,48.841,-99.232
+58366,48.654,-99.874
+58367,48.882,-99.556
+58368,48.239,-100.031
+58369,48.959,-99.814
+58370,47.985,-98.866
+58372,48.942,-99.012
+58374,47.825,-99.095
+58377,48.472,-98.873
+58379,47.897,-98.822
+58380,47.825,-98.502
+58381,47.826,-98.749
+58382,48.318,-98.799
+58384,48.596,-100.266
+58385,48.473,-99.646
+58386,48.319,-99.599
+58401,46.884,-98.767
+58402,46.882,-98.688
+58405,46.915,-98.697
+58413,45.985,-99.332
+58415,46.362,-98.485
+58416,47.551,-98.361
+58418,47.421,-99.639
+58420,47.061,-98.858
+58421,47.44,-99.077
+58422,47.594,-99.406
+58423,47.428,-99.831
+58424,46.879,-99.094
+58425,47.454,-98.118
+58426,47.218,-98.579
+58428,46.808,-99.749
+58429,47.205,-98.174
+58430,47.509,-100.257
+58431,46.508,-98.504
+58433,46.366,-98.722
+58436,46.076,-98.58
+58438,47.667,-99.568
+58439,45.968,-98.831
+58440,46.278,-99.162
+58441,46.175,-98.368
+58442,46.554,-99.18
+58443,47.464,-98.681
+58444,47.484,-100.141
+58445,47.557,-98.783
+58448,47.306,-98.205
+58451,47.45,-99.972
+58452,47.54,-98.229
+58454,46.584,-98.952
+58455,47.303,-98.729
+58456,46.252,-98.953
+58458,46.368,-98.294
+58460,46.31,-99.322
+58461,46.65,-98.192
+58463,47.492,-100.473
+58464,47.613,-98.609
+58466,46.609,-98.369
+58467,46.875,-99.33
+58472,46.639,-98.65
+58474,46.103,-98.142
+58475,47.147,-99.534
+58476,47.194,-99.005
+58477,47.221,-100.521
+58478,47.162,-99.745
+58479,47.089,-98.203
+58480,46.945,-98.259
+58481,46.935,-98.424
+58482,46.869,-99.901
+58483,46.668,-99.433
+58484,47.369,-98.464
+58486,47.396,-99.39
+58487,46.857,-99.606
+58488,47.179,-100.026
+58490,46.384,-98.066
+58492,47.162,-98.425
+58494,47.185,-100.262
+58495,46.272,-99.601
+58496,47.141,-99.309
+58497,46.768,-98.509
+58501,46.815,-100.698
+58503,46.906,-100.752
+58504,46.743,-100.679
+58505,46.82,-100.781
+58520,46.674,-101.568
+58521,47.028,-100.674
+58523,47.265,-101.782
+58524,46.622,-100.074
+58528,46.324,-100.595
+58529,46.305,-101.581
+58530,47.132,-101.164
+58531,47.579,-101.235
+58532,46.847,-100.109
+58533,46.395,-101.797
+58535,46.482,-101.249
+58538,46.081,-100.659
+58540,47.622,-101.726
+58541,47.34,-102.044
+58542,46.045,-99.994
+58544,46.513,-100.372
+58545,47.35,-101.6
+58549,46.463,-99.937
+58552,46.244,-100.287
+58554,46.756,-100.949
+58558,46.82,-100.526
+58559,47.472,-100.695
+58560,46.655,-100.313
+58561,46.492,-99.663
+58562,46.361,-102.009
+58563,46.899,-101.439
+58564,46.266,-101.344
+58565,47.496,-101.371
+58566,46.578,-100.907
+58568,46.098,-100.999
+58569,46.268,-101.199
+58570,46.376,-100.872
+58571,47.292,-101.407
+58572,46.868,-100.34
+58573,46.124,-100.202
+58575,47.552,-100.894
+58576,47.437,-101.214
+58577,47.318,-101.052
+58579,47.179,-100.738
+58580,47.268,-101.943
+58581,46.05,-99.806
+58601,46.908,-102.827
+58620,46.506,-103.338
+58621,47.121,-103.945
+58622,46.88,-103.252
+58623,46.161,-103.424
+58625,47.28,-102.186
+58626,47.378,-102.602
+58627,47.234,-103.273
+58630,46.927,-102.57
+58631,46.799,-101.837
+58632,46.673,-103.965
+58634,47.445,-103.364
+58636,47.394,-102.346
+58638,46.918,-102.038
+58639,46.067,-102.651
+58640,47.454,-102.905
+58641,46.667,-102.486
+58642,47.201,-102.834
+58643,46.217,-103.96
+58644,47.132,-102.349
+58645,46.951,-103.55
+58646,46.393,-102.288
+58647,46.519,-102.936
+58649,46.14,-102.902
+58650,46.437,-102.62
+58651,46.259,-103.741
+58652,46.906,-102.244
+58653,46.09,-103.13
+58654,46.784,-103.824
+58655,46.771,-103.031
+58656,46.956,-102.465
+58701,48.145,-101.326
+58703,48.321,-101.305
+58704,48.414,-101.318
+58705,48.416,-101.352
+58707,48.248,-101.301
+58710,47.868,-100.231
+58711,48.93,-101.267
+58712,47.971,-100.553
+58713,48.524,-100.614
+58716,47.804,-101.068
+58718,48.291,-101.804
+58721,48.822,-102.254
+58722,48.25,-101.501
+58723,47.746,-100.596
+58725,48.481,-101.68
+58727,48.858,-102.804
+58730,48.86,-103.308
+58731,48.449,-100.983
+58733,48.175,-101.588
+58734,48.513,-101.957
+58735,47.884,-101.476
+58736,47.931,-100.396
+58737,48.908,-102.401
+58740,48.466,-101.222
+58741,48.277,-100.831
+58744,48.12,-100.591
+58746,48.713,-102.094
+58748,48.662,-100.636
+58750,48.611,-101.398
+58752,48.821,-102.599
+58755,48.626,-102.951
+58756,47.971,-101.815
+58757,47.686,-102.556
+58758,47.768,-100.09
+58759,47.845,-101.25
+58760,48.697,-101.136
+58761,48.786,-101.524
+58762,48.673,-100.94
+58763,47.984,-102.583
+58765,48.873,-103.043
+58768,48.252,-101.024
+58769,48.306,-102.235
+58770,47.869,-102.161
+58771,48.088,-101.976
+58772,48.96,-102.634
+58773,48.583,-102.658
+58775,47.71,-101.861
+58776,48.248,-102.623
+58778,47.786,-100.913
+58779,47.855,-101.754
+58781,48.03,-101.134
+58782,48.944,-101.705
+58783,48.88,-100.76
+58784,48.36,-102.424
+58785,48.307,-101.102
+58787,48.756,-101.814
+58788,48.325,-100.478
+58789,48.553,-100.809
+58790,48.03,-100.948
+58792,47.971,-100.747
+58793,48.869,-101.051
+58794,48.269,-102.791
+58795,48.64,-103.157
+58801,48.238,-103.77
+58830,48.597,-103.461
+58831,47.854,-103.652
+58833,48.887,-103.52
+58835,47.737,-103.449
+58838,47.77,-103.901
+58843,48.234,-103.377
+58844,48.888,-103.75
+58845,48.641,-103.918
+58847,47.889,-102.906
+58849,48.308,-103.163
+58852,48.382,-102.932
+58853,48.061,-103.727
+58854,47.828,-103.153
+58856,48.595,-103.733
+59001,45.53,-109.54
+59002,46.023,-108.666
+59003,45.492,-106.201
+59006,45.921,-108.089
+59007,45.171,-109.195
+59008,45.08,-109.076
+59010,45.965,-107.299
+59011,45.925,-109.949
+59012,45.324,-106.627
+59013,45.461,-109.081
+59014,45.155,-108.668
+59015,46.085,-108.829
+59016,45.458,-106.948
+59018,45.85,-110.624
+59019,45.629,-109.241
+59020,45.108,-110.101
+59022,45.57,-107.262
+59024,46.278,-107.807
+59025,45.086,-106.704
+59026,45.485,-108.784
+59027,45.259,-110.904
+59028,45.302,-109.714
+59029,45.397,-108.803
+59030,45.087,-110.596
+59031,45.498,-107.375
+59032,47.025,-108.703
+59033,45.724,-109.735
+59034,45.7,-107.783
+59035,45.305,-107.949
+59036,46.46,-109.883
+59037,45.865,-108.211
+59038,46.222,-107.208
+59039,46.687,-107.291
+59041,45.501,-108.968
+59043,45.551,-106.676
+59044,45.644,-108.732
+59046,46.361,-108.95
+59047,45.577,-110.55
+59050,45.259,-107.476
+59052,45.466,-110.146
+59053,46.442,-110.432
+59054,46.669,-107.772
+59055,46.109,-109.81
+59057,45.854,-108.954
+59058,46.988,-107.76
+59059,46.511,-108.074
+59061,45.425,-109.857
+59062,45.151,-106.218
+59063,45.652,-108.966
+59064,45.879,-107.871
+59065,45.271,-110.673
+59066,45.336,-108.51
+59067,45.97,-109.224
+59068,45.087,-109.558
+59069,45.727,-109.583
+59070,45.365,-109.182
+59071,45.246,-109.63
+59072,46.526,-108.554
+59074,46.364,-109.299
+59075,45.406,-107.848
+59076,46.283,-107.068
+59077,47.245,-107.593
+59078,46.423,-109.489
+59079,46.062,-108.363
+59081,45.02,-109.983
+59082,45.849,-110.29
+59083,46.563,-107.559
+59085,46.323,-110.188
+59086,46.061,-110.663
+59087,47.142,-108.227
+59088,46.13,-108.055
+59089,45.092,-107.315
+59101,45.607,-108.342
+59102,45.775,-108.581
+59105,45.893,-108.498
+59106,45.814,-108.71
+59201,48.142,-105.627
+59211,48.699,-104.35
+59212,48.222,-104.143
+59213,48.189,-104.887
+59214,47.3,-106.039
+59215,47.517,-105.769
+59217,47.579,-104.239
+59218,48.076,-104.492
+59219,48.571,-104.158
+59221,47.9,-104.164
+59222,48.701,-105.159
+59223,47.913,-106.207
+59225,48.27,-105.968
+59226,48.348,-104.53
+59230,48.131,-106.798
+59231,48.404,-106.544
+59240,48.842,-106.241
+59241,48.458,-107.051
+59242,48.411,-104.443
+59243,47.758,-104.679
+59244,48.62,-106.304
+59247,48.516,-104.524
+59248,48.245,-106.249
+59250,48.845,-106.624
+59252,48.947,-104.838
+59253,48.736,-105.858
+59254,48.752,-104.641
+59255,48.236,-105.159
+59256,48.908,-104.553
+59257,48.754,-104.942
+59258,48.584,-104.655
+59259,47.681,-105.1
+59260,48.857,-106.12
+59261,48.529,-107.422
+59262,47.49,-104.497
+59263,48.791,-105.514
+59270,47.609,-104.086
+59273,48.307,-106.943
+59274,47.846,-105.419
+59275,48.877,-104.156
+59276,48.966,-105.214
+59301,46.36,-105.867
+59311,45.163,-104.549
+59312,47.038,-106.264
+59313,46.258,-104.226
+59314,45.068,-105.434
+59315,47.452,-104.868
+59316,45.347,-105.072
+59317,45.338,-105.519
+59318,47.501,-107.514
+59319,45.412,-104.165
+59322,47.051,-106.689
+59323,45.917,-106.722
+59324,45.769,-104.569
+59326,46.77,-104.859
+59327,46.237,-106.682
+59330,47.121,-104.764
+59332,45.39,-104.699
+59333,46.277,-106.195
+59336,46.349,-104.954
+59337,47.407,-106.817
+59338,46.64,-105.64
+59339,47.225,-105.271
+59343,45.662,-105.426
+59344,46.357,-104.597
+59345,45.86,-105.212
+59347,46.421,-106.366
+59349,46.812,-105.504
+59351,45.759,-105.711
+59353,46.963,-104.275
+59354,46.177,-104.421
+59401,47.511,-111.277
+59404,47.632,-111.329
+59405,47.289,-111.3
+59410,47.504,-112.647
+59411,48.892,-113.398
+59412,47.303,-110.864
+59414,47.528,-111.26
+59416,48.038,-111.527
+59417,48.552,-113.002
+59418,46.804,-109.856
+59419,47.966,-112.317
+59420,47.878,-111.004
+59421,47.075,-111.688
+59422,47.834,-112.489
+59424,47.353,-110.108
+59425,48.187,-111.899
+59427,48.741,-112.666
+59430,47.431,-109.78
+59432,48.156,-112.546
+59433,47.884,-111.692
+59434,48.698,-113.507
+59435,48.577,-112.039
+59436,47.616,-112.12
+59440,47.716,-111.159
+59441,46.828,-109.069
+59442,47.929,-110.652
+59443,47.564,-111.829
+59444,48.651,-111.38
+59446,47.651,-110.152
+59447,47.286,-110.45
+59448,48.263,-112.849
+59450,47.552,-110.743
+59451,47.39,-109.39
+59452,46.893,-110.061
+59453,46.649,-109.681
+59454,48.769,-111.985
+59456,48.27,-111.362
+59457,47.14,-109.311
+59460,48.074,-110.507
+59461,48.471,-111.211
+59462,47.105,-109.893
+59463,47.049,-110.867
+59464,46.84,-109.617
+59465,46.938,-110.708
+59466,48.718,-111.775
+59467,48.07,-112.402
+59468,47.728,-111.634
+59469,47.191,-110.684
+59471,47.427,-108.772
+59472,47.339,-111.207
+59474,48.529,-111.691
+59477,47.443,-111.974
+59479,47.033,-110.305
+59480,47.214,-111.075
+59482,48.864,-111.852
+59483,47.465,-111.733
+59484,48.96,-111.539
+59485,47.432,-111.569
+59486,48.34,-112.377
+59487,47.587,-111.639
+59489,47.625,-109.23
+59501,48.69,-109.781
+59520,48.038,-109.932
+59521,48.305,-109.951
+59522,48.557,-110.977
+59523,48.526,-109.199
+59524,48.139,-108.402
+59525,48.642,-110.262
+59526,48.453,-108.701
+59527,48.042,-108.792
+59528,48.617,-110.434
+59529,48.797,-108.679
+59530,48.601,-110.696
+59531,48.777,-110.795
+59532,48.594,-110.081
+59535,47.941,-109.253
+59537,48.843,-107.988
+59538,48.026,-107.84
+59540,48.605,-110.564
+59542,48.822,-108.336
+59544,48.803,-107.555
+59545,48.939,-111.22
+59546,47.899,-108.539
+59547,48.703,-108.986
+59601,46.531,-112.199
+59602,46.727,-111.908
+59623,46.59,-112.041
+59625,46.601,-112.039
+59631,46.291,-112.389
+59632,46.169,-112.004
+59633,46.819,-112.343
+59634,46.445,-112.031
+59635,46.555,-111.814
+59636,46.616,-112.114
+59638,46.358,-112.028
+59639,47.192,-112.747
+59640,46.768,-112.368
+59642,46.265,-110.757
+59643,46.135,-111.58
+59644,46.417,-111.443
+59645,46.688,-111.055
+59647,46.463,-111.654
+59648,47.077,-112.196
+59701,46.033,-112.464
+59710,45.054,-112.081
+59711,46.095,-113.142
+59713,46.659,-112.619
+59714,45.973,-111.134
+59715,45.694,-110.906
+59716,45.287,-111.389
+59718,45.639,-111.171
+59720,44.939,-111.589
+59721,45.852,-111.863
+59722,46.353,-112.753
+59724,44.661,-112.805
+59725,45.074,-112.835
+59727,45.799,-112.831
+59728,46.509,-112.435
+59729,45.325,-111.651
+59730,45.208,-111.129
+59731,46.579,-112.761
+59732,45.5,-112.692
+59733,46.545,-112.958
+59735,45.65,-111.85
+59736,45.344,-113.343
+59739,44.66,-112.2
+59740,45.504,-111.814
+59741,45.77,-111.368
+59743,45.601,-112.765
+59745,45.595,-111.615
+59746,45.385,-113.059
+59747,45.697,-111.962
+59748,46.046,-112.696
+59749,45.454,-112.072
+59750,45.917,-112.685
+59751,45.69,-112.298
+59752,45.916,-111.526
+59754,45.519,-112.357
+59755,45.271,-111.944
+59756,46.174,-112.835
+59758,44.8,-111.19
+59759,45.845,-112.166
+59760,45.756,-111.592
+59761,45.576,-113.556
+59762,45.949,-113.334
+59801,46.855,-114.01
+59802,46.904,-113.919
+59803,46.784,-113.946
+59804,46.879,-114.265
+59808,46.962,-114.092
+59812,46.861,-113.985
+59820,46.897,-114.609
+59821,47.209,-114.022
+59823,46.968,-113.605
+59824,47.413,-114.207
+59825,46.618,-113.651
+59826,47.463,-113.704
+59827,45.893,-114.088
+59828,46.327,-113.959
+59829,45.75,-114.178
+59830,47.435,-115.457
+59831,47.26,-114.368
+59832,46.689,-113.253
+59833,46.648,-114.074
+59834,47.08,-114.222
+59837,46.535,-113.283
+59840,46.167,-114.105
+59841,46.334,-114.223
+59842,47.33,-115.438
+59843,46.854,-113.014
+59844,48,-115.939
+59845,47.69,-114.555
+59846,47.152,-114.513
+59847,46.716,-114.37
+59848,47.71,-114.69
+59851,46.872,-113.877
+59853,48.042,-115.791
+59854,47.276,-113.234
+59855,47.6,-114.118
+59856,47.38,-114.737
+59858,46.286,-113.467
+59859,47.52,-114.795
+59860,47.716,-114.186
+59863,47.3,-114.183
+59864,47.532,-114.12
+59865,47.332,-113.998
+59866,47.343,-115.12
+59867,47.391,-115.563
+59868,47.221,-113.54
+59870,46.516,-114.063
+59871,45.892,-113.817
+59872,47.105,-114.909
+59873,47.663,-115.273
+59874,47.807,-115.6
+59875,46.42,-114.316
+59901,48.231,-114.403
+59910,47.821,-114.236
+59911,47.864,-113.885
+59912,48.437,-114.169
+59913,48.434,-113.959
+59914,47.876,-114.303
+59915,47.82,-114.411
+59916,48.307,-113.657
+59917,48.935,-114.877
+59918,48.781,-114.759
+59919,48.377,-114.056
+59920,48.003,-114.608
+59922,48.003,-114.222
+59923,48.271,-115.313
+59925,48.044,-114.833
+59926,48.352,-113.996
+59927,48.56,-114.713
+59928,48.797,-114.292
+59929,47.916,-114.405
+59930,48.867,-115.133
+59931,47.922,-114.255
+59932,48.052,-114.243
+59933,48.719,-114.768
+59934,48.637,-114.932
+59935,48.65,-115.835
+59936,48.19,-113.474
+59937,48.437,-114.499
+60002,42.467,-88.094
+60004,42.113,-87.98
+60005,42.064,-87.987
+60007,42.024,-88
+60008,42.07,-88.022
+60010,42.146,-88.165
+60012,42.273,-88.312
+60013,42.224,-88.236
+60014,42.23,-88.33
+60015,42.174,-87.878
+60016,42.053,-87.892
+60018,41.979,-87.894
+60020,42.395,-88.174
+60021,42.195,-88.217
+60022,42.136,-87.76
+60025,42.075,-87.812
+60026,42.092,-87.838
+60029,42.059,-87.785
+60030,42.336,-88.047
+60031,42.373,-87.94
+60033,42.423,-88.61
+60034,42.459,-88.427
+60035,42.186,-87.806
+60040,42.207,-87.813
+60041,42.37,-88.154
+60042,42.278,-88.195
+60043,42.089,-87.714
+60044,42.288,-87.86
+60045,42.236,-87.865
+60046,42.416,-88.065
+60047,42.202,-88.046
+60048,42.293,-87.945
+60050,42.33,-88.293
+60051,42.35,-88.221
+60053,42.042,-87.789
+60056,42.065,-87.935
+60060,42.27,-88.039
+60061,42.233,-87.959
+60062,42.126,-87.845
+60064,42.324,-87.862
+60067,42.108,-88.064
+60068,42.014,-87.845
+60069,42.196,-87.923
+60070,42.104,-87.929
+60071,42.468,-88.316
+60072,42.406,-88.306
+60073,42.354,-88.102
+60074,42.131,-88.026
+60075,42.493,-87.909
+60076,42.034,-87.729
+60077,42.036,-87.756
+60081,42.449,-88.227
+60083,42.437,-87.95
+60084,42.269,-88.139
+60085,42.355,-87.861
+60087,42.404,-87.854
+60088,42.31,-87.844
+60089,42.167,-87.964
+60090,42.126,-87.912
+60091,42.078,-87.721
+60093,42.104,-87.754
+60096,42.481,-87.83
+60097,42.397,-88.372
+60098,42.325,-88.456
+60099,42.46,-87.865
+60101,41.932,-88.011
+60102,42.165,-88.309
+60103,41.977,-88.206
+60104,41.883,-87.876
+60106,41.964,-87.944
+60107,42.021,-88.178
+60108,41.95,-88.095
+60109,42.054,-88.541
+60110,42.113,-88.292
+60111,42.01,-88.836
+60112,41.924,-88.69
+60113,41.931,-88.964
+60115,41.901,-88.762
+60118,42.106,-88.304
+60119,41.852,-88.476
+60120,42.033,-88.24
+60123,42.041,-88.311
+60124,42.02,-88.401
+60126,41.897,-87.941
+60129,42.008,-88.975
+60130,41.867,-87.818
+60131,41.938,-87.883
+60133,41.978,-88.143
+60134,41.878,-88.342
+60135,42.113,-88.671
+60136,42.105,-88.38
+60137,41.865,-88.063
+60139,41.919,-88.078
+60140,42.079,-88.513
+60141,41.858,-87.838
+60142,42.174,-88.445
+60143,41.974,-88.021
+60144,41.835,-88.52
+60145,42.085,-88.774
+60146,42.1,-88.874
+60148,41.876,-88.019
+60150,41.914,-88.896
+60151,41.918,-88.577
+60152,42.239,-88.627
+60153,41.88,-87.844
+60154,41.849,-87.89
+60155,41.858,-87.856
+60156,42.203,-88.32
+60157,41.975,-88.056
+60160,41.903,-87.862
+60162,41.868,-87.902
+60163,41.888,-87.909
+60164,41.917,-87.901
+60165,41.903,-87.881
+60169,42.051,-88.117
+60171,41.925,-87.838
+60172,41.98,-88.089
+60173,42.052,-88.056
+60174,41.931,-88.299
+60175,41.948,-88.389
+60176,41.958,-87.87
+60177,41.988,-88.31
+60178,42.008,-88.661
+60180,42.223,-88.52
+60181,41.877,-87.976
+60183,41.94,-88.409
+60184,41.952,-88.253
+60185,41.893,-88.215
+60187,41.873,-88.112
+60188,41.916,-88.129
+60189,41.841,-88.122
+60190,41.874,-88.156
+60191,41.965,-87.981
+60192,42.063,-88.204
+60193,42.009,-88.097
+60194,42.033,-88.114
+60195,42.065,-88.087
+60201,42.055,-87.692
+60202,42.029,-87.685
+60203,42.049,-87.717
+60208,42.054,-87.67
+60301,41.889,-87.797
+60302,41.895,-87.79
+60304,41.872,-87.789
+60305,41.895,-87.819
+60401,41.347,-87.614
+60402,41.833,-87.79
+60403,41.568,-88.119
+60404,41.513,-88.224
+60406,41.655,-87.682
+60407,41.235,-88.261
+60408,41.266,-88.219
+60409,41.614,-87.552
+60410,41.428,-88.213
+60411,41.507,-87.59
+60415,41.703,-87.78
+60416,41.294,-88.283
+60417,41.428,-87.586
+60418,41.646,-87.74
+60419,41.627,-87.598
+60420,41.088,-88.421
+60421,41.414,-88.083
+60422,41.539,-87.684
+60423,41.474,-87.841
+60424,41.164,-88.328
+60425,41.543,-87.611
+60426,41.61,-87.653
+60428,41.6,-87.691
+60429,41.574,-87.684
+60430,41.558,-87.663
+60431,41.51,-88.19
+60432,41.542,-88.034
+60433,41.497,-88.042
+60435,41.549,-88.129
+60436,41.49,-88.124
+60437,41.157,-88.556
+60438,41.566,-87.55
+60439,41.677,-87.977
+60440,41.701,-88.075
+60441,41.593,-88.052
+60442,41.392,-87.961
+60443,41.503,-87.75
+60444,41.243,-88.403
+60445,41.628,-87.735
+60446,41.633,-88.099
+60447,41.487,-88.322
+60448,41.538,-87.893
+60449,41.418,-87.779
+60450,41.37,-88.434
+60451,41.508,-87.961
+60452,41.609,-87.754
+60453,41.714,-87.753
+60455,41.741,-87.807
+60456,41.731,-87.731
+60457,41.724,-87.83
+60458,41.753,-87.827
+60459,41.744,-87.769
+60460,40.999,-88.537
+60461,41.521,-87.687
+60462,41.627,-87.841
+60463,41.662,-87.79
+60464,41.669,-87.864
+60465,41.701,-87.825
+60466,41.479,-87.685
+60467,41.598,-87.886
+60468,41.335,-87.81
+60469,41.629,-87.686
+60470,41.166,-88.639
+60471,41.479,-87.729
+60472,41.643,-87.708
+60473,41.597,-87.601
+60474,41.186,-88.275
+60475,41.472,-87.628
+60476,41.569,-87.602
+60477,41.574,-87.787
+60478,41.554,-87.736
+60479,41.232,-88.526
+60480,41.72,-87.881
+60481,41.286,-88.111
+60482,41.688,-87.793
+60484,41.443,-87.71
+60487,41.564,-87.83
+60490,41.676,-88.141
+60491,41.603,-87.963
+60501,41.779,-87.823
+60502,41.788,-88.26
+60503,41.708,-88.258
+60504,41.745,-88.241
+60505,41.765,-88.296
+60506,41.759,-88.372
+60510,41.843,-88.311
+60511,41.759,-88.552
+60512,41.701,-88.44
+60513,41.825,-87.848
+60514,41.796,-87.962
+60515,41.811,-88.025
+60516,41.761,-88.013
+60517,41.739,-88.043
+60518,41.599,-88.92
+60519,41.778,-88.243
+60520,41.787,-88.668
+60521,41.801,-87.928
+60523,41.836,-87.953
+60525,41.784,-87.866
+60526,41.831,-87.884
+60527,41.743,-87.929
+60530,41.797,-88.952
+60531,41.619,-88.787
+60532,41.789,-88.084
+60534,41.812,-87.82
+60536,41.599,-88.552
+60537,41.56,-88.604
+60538,41.728,-88.337
+60539,41.825,-88.336
+60540,41.765,-88.144
+60541,41.513,-88.532
+60542,41.809,-88.348
+60543,41.668,-88.323
+60544,41.614,-88.219
+60545,41.68,-88.536
+60546,41.838,-87.822
+60548,41.649,-88.635
+60549,41.503,-88.74
+60550,41.782,-88.881
+60551,41.525,-88.688
+60552,41.667,-88.707
+60553,41.826,-89.04
+60554,41.777,-88.457
+60555,41.823,-88.189
+60556,41.763,-88.771
+60557,41.446,-88.768
+60558,41.802,-87.901
+60559,41.794,-87.973
+60560,41.608,-88.432
+60561,41.746,-87.981
+60563,41.79,-88.206
+60564,41.706,-88.195
+60565,41.729,-88.126
+60585,41.657,-88.225
+60586,41.578,-88.234
+60601,41.885,-87.622
+60602,41.883,-87.629
+60603,41.88,-87.627
+60604,41.878,-87.629
+60605,41.868,-87.617
+60606,41.881,-87.637
+60607,41.875,-87.655
+60608,41.847,-87.671
+60609,41.813,-87.657
+60610,41.905,-87.636
+60611,41.895,-87.615
+60612,41.881,-87.688
+60613,41.956,-87.653
+60614,41.923,-87.647
+60615,41.803,-87.598
+60616,41.845,-87.624
+60617,41.714,-87.556
+60618,41.948,-87.703
+60619,41.743,-87.605
+60620,41.74,-87.653
+60621,41.776,-87.64
+60622,41.902,-87.683
+60623,41.847,-87.718
+60624,41.881,-87.724
+60625,41.973,-87.7
+60626,42.009,-87.667
+60628,41.691,-87.619
+60629,41.775,-87.711
+60630,41.972,-87.757
+60631,41.995,-87.813
+60632,41.81,-87.713
+60633,41.664,-87.561
+60634,41.946,-87.806
+60636,41.776,-87.669
+60637,41.783,-87.603
+60638,41.782,-87.771
+60639,41.921,-87.756
+60640,41.973,-87.663
+60641,41.947,-87.747
+60642,41.902,-87.659
+60643,41.7,-87.663
+60644,41.88,-87.756
+60645,42.009,-87.695
+60646,41.994,-87.761
+60647,41.921,-87.702
+60649,41.759,-87.557
+60651,41.902,-87.741
+60652,41.747,-87.714
+60653,41.82,-87.606
+60654,41.892,-87.636
+60655,41.695,-87.704
+60656,41.974,-87.827
+60657,41.939,-87.651
+60659,41.99,-87.707
+60660,41.991,-87.663
+60661,41.883,-87.644
+60706,41.964,-87.817
+60707,41.922,-87.807
+60712,42.005,-87.733
+60714,42.028,-87.811
+60803,41.674,-87.736
+60804,41.84,-87.76
+60805,41.722,-87.702
+60827,41.649,-87.634
+60901,41.109,-87.903
+60910,41.066,-87.8
+60911,40.88,-87.977
+60912,40.974,-87.603
+60913,41.148,-88.062
+60914,41.183,-87.861
+60915,41.146,-87.861
+60917,41.047,-88.197
+60918,40.595,-88.026
+60919,40.988,-88.238
+60920,41.03,-88.304
+60921,40.732,-88.297
+60922,41.011,-87.919
+60924,40.561,-87.886
+60926,40.569,-87.812
+60927,40.938,-87.973
+60928,40.746,-87.851
+60929,40.876,-88.292
+60930,40.832,-88.006
+60931,40.889,-87.588
+60932,40.465,-87.8
+60933,40.463,-88.274
+60934,40.957,-88.345
+60935,41.17,-88.176
+60936,40.465,-88.363
+60938,40.772,-87.984
+60939,40.567,-87.777
+60940,41.25,-87.643
+60941,41.039,-88.086
+60942,40.467,-87.662
+60945,40.835,-87.597
+60946,40.913,-88.201
+60948,40.524,-88.077
+60949,40.378,-88.105
+60950,41.253,-87.884
+60951,40.919,-87.741
+60952,40.563,-88.25
+60953,40.629,-87.69
+60954,41.148,-87.623
+60955,40.708,-87.983
+60956,40.968,-87.716
+60957,40.443,-88.136
+60958,41.065,-87.592
+60959,40.789,-88.183
+60960,40.439,-87.891
+60961,41.11,-88.222
+60962,40.626,-88.187
+60963,40.368,-87.651
+60964,41.028,-87.742
+60966,40.751,-87.583
+60967,40.624,-87.581
+60968,40.675,-88.12
+60969,41.111,-88.15
+60970,40.794,-87.741
+60973,40.537,-87.663
+60974,40.718,-87.736
+61001,42.466,-90.11
+61006,41.862,-89.202
+61007,42.199,-89.591
+61008,42.246,-88.84
+61010,42.135,-89.273
+61011,42.392,-88.897
+61012,42.401,-88.765
+61013,42.375,-89.636
+61014,41.975,-89.886
+61015,41.997,-89.197
+61016,42.197,-88.948
+61018,42.416,-89.556
+61019,42.439,-89.41
+61020,42.11,-89.098
+61021,41.83,-89.477
+61024,42.436,-89.297
+61025,42.471,-90.556
+61027,42.333,-89.756
+61028,42.298,-90.176
+61030,42.12,-89.592
+61031,41.83,-89.321
+61032,42.319,-89.637
+61036,42.414,-90.376
+61037,41.788,-89.76
+61038,42.266,-88.738
+61039,42.208,-89.469
+61041,42.273,-90.311
+61042,41.694,-89.559
+61043,42.067,-89.105
+61044,42.323,-89.91
+61046,42.104,-89.813
+61047,42.153,-89.396
+61048,42.383,-89.841
+61049,42.05,-89.009
+61050,42.439,-89.732
+61051,41.983,-89.762
+61052,42.111,-89
+61053,42.121,-89.983
+61054,42.056,-89.445
+61057,41.834,-89.384
+61059,42.455,-89.941
+61060,42.479,-89.618
+61061,41.998,-89.342
+61062,42.251,-89.836
+61063,42.319,-89.341
+61064,41.989,-89.587
+61065,42.401,-88.837
+61067,42.305,-89.472
+61068,41.95,-89.066
+61070,42.416,-89.472
+61071,41.725,-89.699
+61072,42.442,-89.138
+61073,42.424,-88.994
+61074,42.124,-90.122
+61075,42.465,-90.264
+61077,42.24,-89.348
+61078,42.167,-89.731
+61079,42.453,-89.215
+61080,42.481,-88.984
+61081,41.85,-89.739
+61084,42.124,-89.19
+61085,42.343,-90.031
+61087,42.481,-89.993
+61088,42.268,-89.263
+61089,42.474,-89.823
+61091,41.908,-89.552
+61101,42.346,-89.146
+61102,42.229,-89.163
+61103,42.34,-89.087
+61104,42.252,-89.08
+61107,42.285,-89.002
+61108,42.255,-89.002
+61109,42.191,-89.056
+61111,42.336,-89.003
+61112,42.242,-88.975
+61114,42.307,-88.991
+61115,42.363,-89.024
+61201,41.478,-90.576
+61230,41.734,-90.213
+61231,41.211,-90.718
+61232,41.432,-90.727
+61233,41.295,-90.291
+61234,41.418,-89.914
+61235,41.401,-90.024
+61236,41.514,-90.356
+61237,41.342,-90.862
+61238,41.282,-90.172
+61239,41.495,-90.39
+61240,41.423,-90.437
+61241,41.487,-90.32
+61242,41.708,-90.285
+61243,41.618,-89.678
+61244,41.523,-90.391
+61250,41.656,-90.112
+61251,41.729,-90.073
+61252,41.837,-90.125
+61254,41.467,-90.15
+61256,41.561,-90.401
+61257,41.593,-90.222
+61258,41.522,-89.914
+61259,41.386,-90.924
+61260,41.238,-90.887
+61261,41.736,-89.91
+61262,41.276,-90.348
+61263,41.266,-90.596
+61264,41.403,-90.596
+61265,41.481,-90.487
+61270,41.827,-89.963
+61272,41.251,-91.011
+61273,41.364,-90.399
+61274,41.37,-90.277
+61275,41.606,-90.307
+61276,41.317,-90.576
+61277,41.614,-89.931
+61278,41.579,-90.334
+61279,41.326,-90.729
+61281,41.3,-90.52
+61282,41.497,-90.412
+61283,41.591,-89.789
+61284,41.395,-90.75
+61285,41.994,-90.082
+61301,41.397,-89.084
+61310,41.702,-89.355
+61311,41.04,-88.862
+61312,41.434,-89.225
+61313,41.072,-88.67
+61314,41.3,-89.677
+61315,41.285,-89.367
+61316,41.258,-89.128
+61317,41.432,-89.208
+61318,41.711,-89.078
+61319,41.015,-88.74
+61320,41.355,-89.17
+61321,40.968,-88.976
+61322,41.312,-89.307
+61323,41.435,-89.396
+61324,41.77,-89.414
+61325,41.235,-88.81
+61326,41.246,-89.23
+61327,41.23,-89.299
+61328,41.509,-89.459
+61329,41.377,-89.208
+61330,41.535,-89.277
+61331,41.748,-89.278
+61332,41.189,-88.985
+61333,40.988,-88.889
+61334,41.147,-89.099
+61335,41.159,-89.234
+61336,41.111,-89.212
+61337,41.451,-89.298
+61338,41.47,-89.665
+61340,41.264,-89.251
+61341,41.352,-88.693
+61342,41.544,-89.084
+61344,41.412,-89.834
+61345,41.276,-89.785
+61346,41.507,-89.72
+61348,41.286,-89.035
+61349,41.549,-89.437
+61350,41.372,-88.865
+61353,41.704,-88.991
+61354,41.334,-89.142
+61356,41.389,-89.44
+61358,40.982,-89.043
+61359,41.362,-89.271
+61360,41.333,-88.6
+61361,41.412,-89.774
+61362,41.351,-89.224
+61363,41.254,-89.182
+61364,41.128,-88.85
+61367,41.621,-89.259
+61368,41.262,-89.517
+61369,40.983,-89.154
+61370,41.211,-89.039
+61371,41.499,-89.02
+61372,41.466,-89.082
+61373,41.407,-88.996
+61374,41.547,-89.358
+61375,41.035,-89.243
+61376,41.538,-89.602
+61377,41.065,-89.042
+61378,41.723,-89.155
+61379,41.38,-89.606
+61401,40.945,-90.387
+61402,40.94,-90.406
+61410,40.795,-90.422
+61411,40.401,-90.502
+61412,41.078,-90.58
+61413,41.187,-90.37
+61414,41.126,-90.155
+61415,40.65,-90.419
+61416,40.496,-90.563
+61417,40.772,-90.544
+61418,40.847,-90.869
+61419,41.2,-90.118
+61420,40.549,-90.867
+61421,41.188,-89.648
+61422,40.551,-90.533
+61423,40.885,-90.502
+61424,41.077,-89.635
+61425,40.759,-91.04
+61426,41.12,-89.706
+61427,40.498,-90.194
+61428,40.933,-90.114
+61430,40.944,-90.312
+61431,40.6,-90.289
+61432,40.648,-90.153
+61433,40.554,-90.169
+61434,41.173,-90.036
+61435,40.996,-90.569
+61436,40.86,-90.223
+61437,40.847,-90.992
+61438,40.585,-90.649
+61439,41.029,-90.35
+61440,40.316,-90.593
+61441,40.33,-90.282
+61442,41.103,-90.924
+61443,41.264,-89.945
+61447,40.87,-90.763
+61448,40.934,-90.244
+61449,41.095,-89.975
+61450,40.572,-90.984
+61451,40.939,-89.939
+61452,40.238,-90.66
+61453,41.013,-90.763
+61454,40.682,-91.04
+61455,40.44,-90.638
+61458,40.782,-90.183
+61459,40.51,-90.42
+61460,40.722,-90.828
+61462,40.91,-90.652
+61465,41.211,-90.48
+61466,41.111,-90.482
+61467,41.069,-90.242
+61468,41.257,-90.387
+61469,40.956,-90.908
+61470,40.606,-90.506
+61471,40.696,-90.825
+61472,41.103,-90.383
+61473,40.709,-90.65
+61474,40.742,-90.394
+61475,40.597,-90.753
+61476,41.09,-90.829
+61477,40.496,-90.311
+61478,40.756,-90.76
+61479,41.002,-89.639
+61480,40.727,-90.913
+61482,40.39,-90.404
+61483,41.081,-89.873
+61484,40.298,-90.443
+61485,41.022,-90.071
+61486,41.195,-90.576
+61488,41.03,-90.321
+61489,40.931,-90.033
+61490,41.186,-90.259
+61491,41.054,-89.721
+61501,40.228,-90.312
+61516,40.856,-89.132
+61517,40.819,-89.847
+61519,40.465,-90.093
+61520,40.544,-90.025
+61523,40.912,-89.538
+61524,40.491,-90.035
+61525,40.848,-89.67
+61526,40.923,-89.62
+61528,40.777,-89.718
+61529,40.782,-89.938
+61530,40.709,-89.265
+61531,40.683,-90.037
+61532,40.348,-89.807
+61533,40.586,-89.842
+61534,40.415,-89.665
+61535,40.579,-89.517
+61536,40.691,-89.79
+61537,41.119,-89.471
+61539,40.556,-89.763
+61540,41.015,-89.367
+61541,40.98,-89.235
+61542,40.377,-90.132
+61543,40.418,-89.978
+61544,40.701,-90.234
+61545,40.868,-89.352
+61546,40.448,-89.81
+61547,40.57,-89.722
+61548,40.814,-89.42
+61550,40.611,-89.436
+61552,40.821,-89.565
+61553,40.621,-90.027
+61554,40.544,-89.621
+61559,40.919,-89.779
+61560,41.187,-89.42
+61561,40.806,-89.207
+61562,40.881,-89.501
+61563,40.493,-90.051
+61564,40.499,-89.656
+61565,41.039,-89.505
+61567,40.373,-89.901
+61568,40.51,-89.481
+61569,40.683,-89.901
+61570,40.914,-89.323
+61571,40.705,-89.425
+61572,40.797,-90.04
+61602,40.679,-89.606
+61603,40.71,-89.575
+61604,40.705,-89.653
+61605,40.677,-89.633
+61606,40.7,-89.612
+61607,40.627,-89.685
+61610,40.642,-89.6
+61611,40.713,-89.536
+61614,40.759,-89.604
+61615,40.749,-89.672
+61616,40.747,-89.572
+61625,40.698,-89.615
+61701,40.476,-88.993
+61704,40.47,-88.942
+61705,40.523,-89.072
+61720,40.55,-88.502
+61721,40.351,-89.324
+61722,40.423,-88.626
+61723,40.265,-89.277
+61724,40.334,-88.525
+61725,40.617,-89.122
+61726,40.733,-88.708
+61727,40.147,-88.953
+61728,40.581,-88.622
+61729,40.629,-89.221
+61730,40.533,-88.734
+61731,40.613,-88.484
+61732,40.53,-89.208
+61733,40.624,-89.33
+61734,40.376,-89.526
+61735,40.205,-88.806
+61736,40.402,-88.84
+61737,40.456,-88.733
+61738,40.745,-89.03
+61739,40.728,-88.521
+61740,40.892,-88.863
+61741,40.763,-88.397
+61742,40.635,-89.268
+61743,40.878,-88.781
+61744,40.744,-88.881
+61745,40.321,-88.967
+61747,40.416,-89.435
+61748,40.622,-88.997
+61749,40.093,-89.116
+61750,40.123,-88.856
+61751,40.215,-89.299
+61752,40.337,-88.762
+61753,40.63,-88.788
+61754,40.328,-89.161
+61755,40.526,-89.342
+61756,40.033,-88.964
+61759,40.437,-89.336
+61760,40.886,-89.032
+61761,40.528,-88.948
+61764,40.883,-88.626
+61769,40.885,-88.399
+61770,40.44,-88.511
+61771,40.713,-89.148
+61772,40.386,-89.064
+61773,40.566,-88.374
+61774,40.433,-89.196
+61775,40.654,-88.376
+61776,40.572,-88.87
+61777,40.244,-88.946
+61778,40.226,-89.091
+61801,40.11,-88.211
+61802,40.124,-88.153
+61810,39.91,-87.918
+61811,40.295,-87.622
+61812,40.21,-87.927
+61813,39.911,-88.566
+61814,40.232,-87.57
+61815,40.111,-88.368
+61816,39.924,-88.004
+61817,40.035,-87.716
+61818,39.887,-88.716
+61820,40.112,-88.244
+61821,40.111,-88.276
+61822,40.134,-88.303
+61830,40.011,-88.73
+61831,40.226,-87.797
+61832,40.132,-87.632
+61833,40.099,-87.647
+61834,40.153,-87.673
+61839,40.132,-88.637
+61840,40.299,-88.3
+61841,40.034,-87.818
+61842,40.239,-88.665
+61843,40.317,-88.374
+61844,40.143,-87.869
+61845,40.374,-88.397
+61846,39.977,-87.608
+61847,40.306,-88.01
+61848,40.307,-87.701
+61849,40.014,-87.967
+61850,39.93,-87.743
+61851,39.965,-88.435
+61852,39.899,-88.073
+61853,40.23,-88.421
+61854,40.2,-88.529
+61855,39.924,-88.661
+61856,40.029,-88.584
+61857,40.119,-87.843
+61858,40.134,-87.762
+61859,40.15,-87.963
+61862,40.306,-87.959
+61863,39.905,-88.282
+61864,39.975,-88.153
+61865,40.303,-87.802
+61866,40.312,-88.158
+61870,39.903,-87.616
+61871,40.191,-87.979
+61872,39.93,-88.377
+61873,40.134,-88.039
+61874,40.054,-88.267
+61875,40.103,-88.416
+61876,39.901,-87.836
+61877,39.993,-88.076
+61878,40.243,-88.145
+61880,39.974,-88.249
+61882,40.106,-88.755
+61883,40.035,-87.64
+61884,40.091,-88.491
+61910,39.671,-88.297
+61911,39.701,-88.469
+61912,39.522,-88.041
+61913,39.827,-88.472
+61914,39.63,-88.762
+61917,39.717,-87.894
+61919,39.784,-88.138
+61920,39.512,-88.154
+61924,39.786,-87.663
+61925,39.719,-88.841
+61928,39.456,-88.498
+61929,39.825,-88.626
+61930,39.679,-88.129
+61931,39.586,-88.368
+61932,39.8,-87.875
+61933,39.548,-87.896
+61936,39.803,-88.727
+61937,39.734,-88.657
+61938,39.48,-88.376
+61940,39.804,-87.812
+61941,39.805,-88.075
+61942,39.814,-88.003
+61943,39.662,-88.024
+61944,39.6,-87.702
+61949,39.658,-87.858
+61951,39.596,-88.59
+61953,39.798,-88.291
+61955,39.582,-87.588
+61956,39.858,-88.135
+61957,39.442,-88.612
+62001,38.881,-89.745
+62002,38.939,-90.135
+62006,39.064,-90.679
+62009,39.094,-89.798
+62010,38.919,-90.048
+62011,39.129,-89.218
+62012,39.045,-90.148
+62013,38.956,-90.574
+62014,39.043,-89.95
+62015,39.212,-89.544
+62016,39.297,-90.416
+62017,39.065,-89.369
+62018,38.914,-90.082
+62019,39.019,-89.441
+62021,38.984,-89.977
+62022,39.003,-90.326
+62023,39.109,-89.779
+62024,38.883,-90.09
+62025,38.83,-89.931
+62026,38.789,-90.003
+62027,39.243,-90.557
+62028,38.958,-90.355
+62030,39.155,-90.164
+62031,39.111,-90.537
+62032,39.116,-89.288
+62033,39.137,-89.84
+62034,38.755,-89.972
+62035,38.959,-90.243
+62036,38.918,-90.59
+62037,39.011,-90.465
+62040,38.715,-90.099
+62044,39.366,-90.202
+62045,39.264,-90.69
+62046,38.892,-89.839
+62047,39.123,-90.627
+62048,38.773,-90.137
+62049,39.141,-89.48
+62050,39.442,-90.573
+62051,39.203,-89.403
+62052,39.113,-90.32
+62053,39.319,-90.665
+62054,39.207,-90.351
+62056,39.176,-89.674
+62058,38.968,-89.765
+62059,38.653,-90.173
+62060,38.682,-90.142
+62061,38.791,-89.776
+62062,38.726,-89.963
+62063,39.199,-90.15
+62067,38.929,-89.983
+62069,39.089,-89.739
+62074,38.955,-89.69
+62075,39.302,-89.296
+62076,39.342,-89.234
+62077,39.032,-89.512
+62078,39.48,-90.487
+62079,39.108,-90.132
+62080,39.142,-89.103
+62081,39.265,-90.225
+62082,39.49,-90.318
+62083,39.351,-89.198
+62084,38.841,-90.063
+62085,39.082,-89.805
+62086,38.99,-89.59
+62087,38.815,-90.071
+62088,39.015,-89.799
+62089,39.118,-89.487
+62090,38.667,-90.167
+62091,39.056,-89.611
+62092,39.419,-90.431
+62093,39.065,-89.842
+62094,39.239,-89.35
+62095,38.863,-90.074
+62097,38.937,-89.853
+62098,39.384,-90.299
+62201,38.635,-90.141
+62203,38.602,-90.076
+62204,38.629,-90.096
+62205,38.603,-90.119
+62206,38.568,-90.169
+62207,38.583,-90.125
+62208,38.595,-90.005
+62214,38.376,-89.604
+62215,38.508,-89.601
+62216,38.632,-89.602
+62217,38.174,-89.839
+62218,38.522,-89.474
+62219,38.604,-89.437
+62220,38.478,-89.998
+62221,38.512,-89.902
+62223,38.536,-90.059
+62225,38.543,-89.852
+62226,38.537,-90
+62230,38.635,-89.531
+62231,38.653,-89.327
+62232,38.632,-90.005
+62233,37.942,-89.789
+62234,38.682,-89.981
+62236,38.434,-90.212
+62237,38.198,-89.569
+62238,38.053,-89.544
+62239,38.525,-90.157
+62240,38.502,-90.177
+62241,38.011,-89.894
+62242,38.099,-89.938
+62243,38.419,-89.889
+62244,38.196,-90.199
+62245,38.531,-89.575
+62246,38.89,-89.428
+62248,38.306,-89.993
+62249,38.755,-89.667
+62250,38.54,-89.264
+62253,38.778,-89.3
+62254,38.609,-89.823
+62255,38.313,-89.783
+62256,38.226,-90.231
+62257,38.285,-89.729
+62258,38.461,-89.782
+62260,38.461,-90.099
+62261,38.007,-89.997
+62262,38.939,-89.264
+62263,38.319,-89.401
+62264,38.316,-89.9
+62265,38.506,-89.681
+62266,38.485,-89.657
+62268,38.276,-89.54
+62269,38.6,-89.915
+62271,38.44,-89.52
+62272,37.996,-89.616
+62273,38.787,-89.584
+62274,38.091,-89.4
+62275,38.815,-89.547
+62277,38.097,-90.112
+62278,38.204,-89.991
+62279,38.134,-90.136
+62280,37.847,-89.648
+62281,38.707,-89.779
+62282,38.356,-89.713
+62284,38.864,-89.31
+62285,38.392,-90.008
+62286,38.117,-89.718
+62288,37.993,-89.69
+62289,38.598,-89.751
+62292,38.213,-89.682
+62293,38.616,-89.695
+62294,38.703,-89.867
+62295,38.272,-90.311
+62297,38.052,-89.806
+62298,38.309,-90.149
+62301,39.931,-91.389
+62305,39.928,-91.344
+62311,40.223,-90.935
+62312,39.707,-91.024
+62313,40.318,-91.228
+62314,39.768,-90.892
+62316,40.235,-91.053
+62319,40.153,-90.73
+62320,40.03,-91.083
+62321,40.41,-91.095
+62323,39.8,-90.674
+62324,39.998,-90.966
+62325,40.046,-91.162
+62326,40.423,-90.814
+62330,40.571,-91.126
+62334,40.396,-91.249
+62336,40.468,-91.173
+62338,39.999,-91.237
+62339,40.129,-91.038
+62340,39.735,-90.728
+62341,40.433,-91.301
+62343,39.697,-91.245
+62344,40.18,-90.825
+62345,39.697,-91.113
+62346,40.14,-90.936
+62347,39.87,-91.089
+62348,40.188,-91.371
+62349,40.171,-91.192
+62351,40.114,-91.269
+62352,39.568,-90.655
+62353,39.973,-90.758
+62354,40.517,-91.342
+62355,39.412,-90.779
+62356,39.589,-91.08
+62357,39.686,-90.867
+62358,40.588,-91.263
+62359,40.037,-91.212
+62360,39.817,-91.261
+62361,39.492,-90.622
+62362,39.776,-90.764
+62363,39.59,-90.77
+62365,39.796,-91.165
+62366,39.472,-90.902
+62367,40.3,-90.865
+62370,39.517,-91.007
+62373,40.243,-91.365
+62374,40.408,-90.911
+62375,40.002,-90.857
+62376,40.114,-91.408
+62378,39.906,-90.635
+62379,40.269,-91.403
+62380,40.238,-91.191
+62401,39.119,-88.562
+62410,38.539,-87.733
+62411,39.071,-88.734
+62413,39.139,-87.838
+62414,39.174,-88.826
+62417,38.703,-87.766
+62418,39.022,-88.974
+62419,38.627,-87.98
+62420,39.287,-87.999
+62421,38.752,-87.943
+62422,39.233,-88.889
+62423,39.463,-87.58
+62424,38.988,-88.429
+62425,38.837,-88.099
+62426,38.892,-88.664
+62427,38.873,-87.65
+62428,39.263,-88.137
+62431,39.225,-88.997
+62432,39.134,-88.142
+62433,39.107,-87.716
+62434,38.842,-88.322
+62436,39.182,-88.256
+62438,39.326,-88.87
+62439,38.744,-87.64
+62440,39.394,-88.263
+62441,39.394,-87.699
+62442,39.304,-87.854
+62443,38.956,-88.631
+62444,39.279,-88.735
+62445,39.165,-88.33
+62446,38.49,-88.207
+62447,39.313,-88.445
+62448,38.968,-88.179
+62449,39.004,-87.911
+62450,38.713,-88.089
+62451,38.971,-87.611
+62452,38.59,-88.015
+62454,38.992,-87.765
+62458,39.026,-88.855
+62459,38.93,-88.028
+62460,38.602,-87.727
+62461,39.194,-88.684
+62462,39.239,-88.469
+62463,39.281,-88.591
+62464,38.998,-87.824
+62465,39.346,-88.638
+62466,38.728,-87.853
+62467,39.128,-88.435
+62468,39.277,-88.27
+62469,39.351,-88.334
+62471,38.959,-89.13
+62473,39.021,-88.568
+62474,39.457,-88.036
+62475,38.882,-88.049
+62476,38.532,-88.015
+62477,39.234,-87.643
+62478,39.18,-87.744
+62479,39.037,-88.307
+62480,38.997,-88
+62481,39.127,-88.023
+62501,39.927,-88.814
+62510,39.531,-89.029
+62512,40.143,-89.211
+62513,39.721,-89.15
+62514,39.767,-89.045
+62515,39.86,-89.366
+62517,39.594,-89.433
+62518,40.051,-89.203
+62519,39.929,-89.395
+62520,39.825,-89.456
+62521,39.81,-88.928
+62522,39.828,-89.048
+62523,39.844,-88.953
+62526,39.902,-88.989
+62530,39.56,-89.657
+62531,39.674,-89.378
+62532,39.776,-88.978
+62533,39.446,-89.63
+62534,39.53,-88.801
+62535,39.926,-88.966
+62536,39.629,-89.652
+62537,39.853,-89.093
+62538,39.356,-89.52
+62539,39.867,-89.249
+62540,39.585,-89.42
+62541,39.957,-89.371
+62543,39.971,-89.152
+62544,39.709,-88.974
+62545,39.768,-89.385
+62546,39.431,-89.446
+62547,39.77,-89.242
+62548,39.981,-89.284
+62549,39.771,-88.867
+62550,39.618,-88.99
+62551,39.854,-89.156
+62553,39.272,-89.105
+62554,39.944,-88.882
+62555,39.463,-89.21
+62556,39.475,-89.375
+62557,39.402,-89.106
+62558,39.587,-89.55
+62560,39.299,-89.603
+62561,39.871,-89.507
+62563,39.719,-89.496
+62565,39.417,-88.804
+62567,39.647,-89.191
+62568,39.56,-89.287
+62570,39.579,-89.452
+62571,39.381,-88.96
+62572,39.359,-89.698
+62573,39.946,-89.073
+62601,39.75,-90.039
+62610,39.539,-90.446
+62611,39.884,-90.398
+62612,39.896,-90.063
+62613,39.983,-89.665
+62615,39.586,-89.754
+62617,40.157,-90.17
+62618,40.008,-90.397
+62621,39.727,-90.521
+62622,39.978,-90.343
+62624,40.159,-90.347
+62625,39.901,-89.702
+62626,39.285,-89.884
+62627,40.059,-90.111
+62628,39.779,-90.402
+62629,39.677,-89.717
+62630,39.271,-90.086
+62631,39.827,-90.354
+62633,40.224,-89.871
+62634,40.014,-89.452
+62635,40.297,-89.466
+62638,39.609,-90.081
+62639,40.038,-90.486
+62640,39.428,-89.805
+62642,40.094,-89.725
+62643,40.242,-89.458
+62644,40.285,-90.062
+62649,39.358,-90.06
+62650,39.738,-90.22
+62655,40.17,-89.987
+62656,40.14,-89.366
+62661,39.668,-89.827
+62663,39.541,-90.327
+62664,40.213,-89.724
+62665,39.817,-90.53
+62666,40.082,-89.54
+62667,39.488,-89.992
+62668,39.566,-90.24
+62670,39.743,-89.899
+62671,40.172,-89.549
+62672,39.398,-89.804
+62673,40.097,-89.969
+62674,39.441,-90.023
+62675,40.026,-89.867
+62677,39.853,-89.879
+62681,40.136,-90.543
+62682,40.299,-89.631
+62684,39.909,-89.587
+62685,39.14,-89.992
+62688,39.945,-89.924
+62689,39.534,-89.766
+62690,39.506,-89.766
+62691,39.958,-90.229
+62692,39.584,-89.939
+62693,39.958,-89.516
+62694,39.623,-90.477
+62695,39.619,-90.224
+62701,39.801,-89.649
+62702,39.824,-89.643
+62703,39.763,-89.631
+62704,39.773,-89.684
+62706,39.798,-89.655
+62707,39.856,-89.65
+62711,39.766,-89.733
+62712,39.748,-89.582
+62801,38.511,-89.14
+62803,38.453,-89.295
+62806,38.387,-88.087
+62807,38.752,-88.929
+62808,38.306,-89.189
+62809,38.279,-88.338
+62810,38.206,-88.743
+62811,38.387,-87.904
+62812,38.006,-88.923
+62814,38.378,-88.732
+62815,38.458,-87.966
+62816,38.19,-88.923
+62817,37.954,-88.476
+62818,38.378,-87.968
+62819,37.974,-89.005
+62820,38.249,-88.235
+62821,38.071,-88.13
+62822,37.974,-89.054
+62823,38.518,-88.437
+62824,38.669,-88.342
+62825,37.998,-89.059
+62827,38.171,-88.048
+62828,38.195,-88.602
+62829,38.003,-88.491
+62830,38.443,-88.968
+62831,38.235,-89.223
+62832,38.009,-89.253
+62833,38.34,-88.168
+62835,38.106,-88.322
+62836,38.095,-88.805
+62837,38.365,-88.358
+62838,38.864,-88.745
+62839,38.661,-88.494
+62841,37.859,-88.996
+62842,38.468,-88.389
+62843,38.382,-88.199
+62844,38.251,-88.049
+62846,38.151,-88.855
+62848,38.434,-89.166
+62849,38.585,-88.774
+62850,38.495,-88.595
+62851,38.428,-88.66
+62852,38.35,-87.867
+62853,38.516,-88.912
+62854,38.765,-88.824
+62856,37.952,-88.838
+62858,38.812,-88.493
+62859,38.066,-88.54
+62860,38.041,-88.732
+62861,38.035,-88.045
+62862,38.219,-88.299
+62863,38.416,-87.86
+62864,38.331,-88.902
+62865,37.975,-89.082
+62867,37.912,-88.099
+62868,38.678,-88.228
+62869,37.957,-88.278
+62870,38.635,-89.053
+62871,37.882,-88.269
+62872,38.272,-88.801
+62874,37.918,-88.978
+62875,38.755,-89.121
+62876,38.277,-89.195
+62877,38.392,-89.2
+62878,38.575,-88.497
+62879,38.765,-88.359
+62880,38.868,-88.886
+62881,38.639,-88.927
+62882,38.636,-89.119
+62883,38.168,-89.105
+62884,38.085,-89.042
+62885,38.86,-89.065
+62886,38.379,-88.535
+62887,38.186,-88.369
+62888,38.127,-89.229
+62889,38.457,-88.824
+62890,37.906,-88.738
+62891,38.016,-89.041
+62892,38.809,-89.076
+62893,38.466,-89.03
+62894,38.21,-89.04
+62895,38.306,-88.555
+62896,37.893,-88.912
+62897,38.094,-88.912
+62898,38.35,-89.06
+62899,38.619,-88.642
+62901,37.741,-89.209
+62902,37.674,-89.112
+62903,37.674,-89.276
+62905,37.558,-89.367
+62906,37.463,-89.178
+62907,37.863,-89.496
+62908,37.31,-88.865
+62910,37.153,-88.534
+62912,37.476,-89.032
+62914,37.04,-89.204
+62915,37.784,-89.122
+62916,37.943,-89.579
+62917,37.693,-88.652
+62918,37.786,-89.086
+62919,37.524,-88.138
+62920,37.554,-89.232
+62921,37.799,-89.083
+62922,37.621,-88.815
+62923,37.342,-89.035
+62924,37.815,-89.196
+62926,37.367,-89.131
+62927,37.944,-89.252
+62928,37.475,-88.567
+62930,37.847,-88.442
+62931,37.524,-88.275
+62932,37.893,-89.214
+62933,37.772,-89.02
+62934,37.707,-88.359
+62935,37.845,-88.639
+62938,37.384,-88.546
+62939,37.546,-88.977
+62940,37.732,-89.461
+62941,37.245,-88.97
+62942,37.636,-89.474
+62943,37.356,-88.746
+62946,37.701,-88.52
+62947,37.529,-88.454
+62948,37.82,-89.026
+62949,37.828,-89.145
+62950,37.746,-89.561
+62951,37.826,-88.927
+62952,37.417,-89.343
+62953,37.209,-88.847
+62954,37.696,-88.273
+62956,37.28,-88.931
+62957,37.312,-89.426
+62958,37.611,-89.142
+62959,37.711,-88.915
+62960,37.234,-88.724
+62961,37.341,-89.253
+62962,37.075,-89.336
+62963,37.095,-89.17
+62964,37.13,-89.227
+62965,37.767,-88.518
+62966,37.771,-89.353
+62967,37.584,-88.736
+62969,37.14,-89.334
+62970,37.221,-89.109
+62972,37.541,-88.816
+62974,37.779,-88.797
+62975,37.641,-89.371
+62976,37.22,-89.213
+62977,37.853,-88.542
+62979,37.811,-88.234
+62982,37.425,-88.365
+62983,37.899,-89.105
+62984,37.754,-88.146
+62985,37.468,-88.686
+62987,37.619,-88.66
+62988,37.226,-89.295
+62990,37.229,-89.399
+62992,37.276,-89.142
+62994,37.906,-89.347
+62995,37.419,-88.88
+62996,37.175,-89.156
+62997,37.984,-89.591
+62998,37.512,-89.458
+62999,37.87,-89.056
+63005,38.644,-90.651
+63010,38.43,-90.392
+63011,38.605,-90.558
+63012,38.347,-90.454
+63013,38.405,-91.153
+63014,38.652,-91.313
+63015,38.396,-90.752
+63016,38.357,-90.651
+63017,38.656,-90.542
+63019,38.231,-90.375
+63020,38.107,-90.572
+63021,38.57,-90.546
+63023,38.269,-90.699
+63025,38.491,-90.616
+63026,38.503,-90.458
+63028,38.143,-90.392
+63030,38.143,-90.752
+63031,38.812,-90.354
+63033,38.798,-90.274
+63034,38.845,-90.288
+63036,37.976,-90.372
+63037,38.422,-91.32
+63038,38.577,-90.668
+63039,38.492,-90.844
+63040,38.574,-90.634
+63041,38.286,-90.774
+63042,38.781,-90.379
+63043,38.729,-90.455
+63044,38.773,-90.43
+63045,38.77,-90.464
+63047,38.196,-90.487
+63048,38.26,-90.392
+63049,38.478,-90.529
+63050,38.258,-90.58
+63051,38.378,-90.577
+63052,38.393,-90.433
+63053,38.366,-90.364
+63055,38.53,-90.835
+63056,38.4,-91.215
+63060,38.261,-90.876
+63061,38.273,-90.81
+63068,38.566,-91.244
+63069,38.479,-90.7
+63070,38.288,-90.421
+63071,38.15,-90.821
+63072,38.369,-90.818
+63073,38.585,-90.769
+63074,38.726,-90.389
+63077,38.329,-90.984
+63079,38.266,-91.1
+63080,38.214,-91.078
+63084,38.422,-91.019
+63087,38.005,-90.464
+63088,38.549,-90.502
+63089,38.461,-90.879
+63090,38.535,-91.049
+63091,38.363,-91.387
+63101,38.631,-90.193
+63102,38.634,-90.186
+63103,38.63,-90.217
+63104,38.611,-90.214
+63105,38.644,-90.328
+63106,38.644,-90.208
+63107,38.664,-90.212
+63108,38.645,-90.253
+63109,38.585,-90.294
+63110,38.625,-90.266
+63111,38.558,-90.25
+63112,38.66,-90.283
+63113,38.658,-90.248
+63114,38.702,-90.364
+63115,38.682,-90.24
+63116,38.58,-90.265
+63117,38.631,-90.33
+63118,38.592,-90.225
+63119,38.59,-90.35
+63120,38.691,-90.262
+63121,38.708,-90.301
+63122,38.579,-90.421
+63123,38.547,-90.328
+63124,38.637,-90.375
+63125,38.519,-90.293
+63126,38.55,-90.379
+63127,38.534,-90.417
+63128,38.492,-90.387
+63129,38.458,-90.319
+63130,38.665,-90.325
+63131,38.617,-90.44
+63132,38.676,-90.377
+63133,38.682,-90.307
+63134,38.74,-90.346
+63135,38.751,-90.3
+63136,38.745,-90.26
+63137,38.75,-90.213
+63138,38.801,-90.192
+63139,38.61,-90.292
+63140,38.739,-90.324
+63141,38.658,-90.455
+63143,38.612,-90.321
+63144,38.619,-90.348
+63146,38.701,-90.48
+63147,38.694,-90.215
+63155,38.628,-90.205
+63301,38.858,-90.463
+63303,38.74,-90.544
+63304,38.706,-90.686
+63330,39.26,-90.79
+63332,38.597,-90.894
+63333,39.035,-91.32
+63334,39.308,-91.192
+63336,39.332,-90.934
+63339,39.33,-91.355
+63341,38.661,-90.807
+63343,39.155,-90.828
+63344,39.229,-91.009
+63345,39.277,-91.573
+63347,39.065,-90.769
+63348,38.785,-90.945
+63349,38.984,-91.151
+63350,38.904,-91.351
+63351,38.858,-91.311
+63352,39.248,-91.659
+63353,39.454,-91.113
+63357,38.648,-91.104
+63359,39.16,-91.344
+63361,38.956,-91.56
+63362,38.936,-90.896
+63363,38.885,-91.465
+63365,38.71,-90.873
+63366,38.857,-90.725
+63367,38.774,-90.795
+63368,38.752,-90.728
+63369,38.938,-90.776
+63373,38.93,-90.385
+63376,38.801,-90.612
+63377,39.107,-91.096
+63379,39.001,-90.996
+63380,38.813,-91.122
+63381,38.986,-91.253
+63382,39.311,-91.49
+63383,38.804,-91.194
+63384,39.093,-91.554
+63385,38.797,-90.857
+63386,38.87,-90.22
+63387,39.184,-91.017
+63388,38.875,-91.757
+63389,39.001,-90.773
+63390,38.803,-91.04
+63401,39.69,-91.466
+63430,40.388,-91.529
+63431,39.747,-92.312
+63432,40.497,-91.994
+63433,39.511,-91.117
+63434,39.91,-91.947
+63435,40.199,-91.584
+63436,39.501,-91.54
+63437,39.724,-92.237
+63438,39.969,-91.688
+63439,39.804,-91.86
+63440,39.969,-91.741
+63441,39.483,-91.321
+63443,39.661,-91.869
+63445,40.395,-91.723
+63446,40.14,-92.002
+63447,40.094,-91.909
+63448,40.016,-91.542
+63450,39.669,-92.15
+63451,39.917,-92.206
+63452,40.093,-91.781
+63453,40.494,-91.864
+63454,39.923,-91.65
+63456,39.654,-91.727
+63457,40.166,-91.712
+63458,39.992,-92.02
+63459,39.584,-91.382
+63460,40.005,-92.209
+63461,39.802,-91.556
+63462,39.419,-91.701
+63463,39.851,-91.781
+63465,40.528,-91.68
+63466,40.266,-91.619
+63467,39.648,-91.267
+63468,39.68,-92.019
+63469,39.826,-92.041
+63471,39.926,-91.497
+63472,40.405,-91.577
+63473,40.252,-91.769
+63474,40.35,-91.894
+63501,40.166,-92.591
+63530,39.906,-92.444
+63531,40.3,-92.241
+63532,39.767,-92.572
+63533,40.2,-92.392
+63534,39.737,-92.648
+63535,40.581,-92.675
+63536,40.485,-92.356
+63537,40.144,-92.157
+63538,39.954,-92.68
+63539,39.926,-92.769
+63540,40.098,-92.398
+63541,40.504,-92.627
+63543,40.352,-92.014
+63544,40.243,-92.85
+63545,40.265,-92.968
+63546,40.338,-92.503
+63547,40.136,-92.298
+63548,40.536,-92.489
+63549,40.017,-92.491
+63551,40.499,-92.743
+63552,39.753,-92.45
+63555,40.486,-92.193
+63556,40.176,-93.112
+63557,39.983,-92.878
+63558,39.749,-92.751
+63559,40.243,-92.767
+63560,40.367,-93.115
+63561,40.411,-92.535
+63563,40.305,-92.073
+63565,40.481,-92.947
+63566,40.03,-92.952
+63567,40.413,-92.705
+63601,37.821,-90.544
+63620,37.382,-90.652
+63621,37.475,-90.566
+63622,37.791,-90.907
+63623,37.679,-90.906
+63624,37.756,-90.634
+63625,37.563,-90.998
+63626,38.073,-90.71
+63627,38.038,-90.252
+63628,37.935,-90.534
+63629,37.381,-91.239
+63630,38.028,-90.719
+63631,37.755,-90.788
+63633,37.443,-91.02
+63636,37.294,-90.576
+63637,37.712,-90.518
+63638,37.215,-91.019
+63640,37.755,-90.369
+63645,37.543,-90.326
+63648,37.815,-90.701
+63650,37.611,-90.631
+63653,37.861,-90.588
+63654,37.487,-90.858
+63655,37.389,-90.187
+63656,37.597,-90.793
+63660,37.916,-90.706
+63662,37.538,-90.05
+63663,37.625,-90.648
+63664,37.917,-90.914
+63665,37.293,-90.844
+63670,37.904,-90.165
+63673,37.842,-89.991
+63674,38.037,-90.659
+63675,37.314,-90.695
+63701,37.332,-89.586
+63703,37.275,-89.54
+63730,37.093,-89.922
+63732,37.594,-89.576
+63735,36.979,-89.785
+63736,37.084,-89.52
+63738,37.09,-89.957
+63739,37.359,-89.8
+63740,37.175,-89.681
+63742,37.16,-89.447
+63743,37.519,-89.823
+63744,37.193,-89.718
+63745,37.256,-89.659
+63746,37.708,-89.695
+63747,37.556,-89.817
+63748,37.662,-89.61
+63750,37.15,-90.163
+63751,37.276,-90.128
+63755,37.439,-89.641
+63758,37.192,-89.551
+63760,37.257,-89.899
+63763,37.064,-90.173
+63764,37.329,-89.97
+63766,37.442,-89.85
+63767,37.044,-89.61
+63769,37.528,-89.753
+63770,37.595,-89.7
+63771,37.076,-89.715
+63774,37.094,-89.775
+63775,37.711,-89.877
+63780,37.176,-89.496
+63781,37.528,-89.926
+63782,37.122,-90.035
+63783,37.609,-89.682
+63784,36.995,-89.696
+63785,37.267,-89.822
+63787,37.121,-90.133
+63801,36.905,-89.618
+63820,36.824,-89.326
+63821,36.049,-90.239
+63822,36.66,-89.999
+63823,36.886,-89.445
+63824,37.005,-89.526
+63825,36.931,-89.946
+63826,36.187,-89.849
+63827,36.261,-89.896
+63828,36.75,-89.692
+63829,36.036,-90.309
+63830,36.135,-89.69
+63833,36.65,-89.731
+63834,36.914,-89.274
+63837,36.45,-89.986
+63839,36.048,-89.81
+63840,36.192,-89.884
+63841,36.771,-89.984
+63845,36.712,-89.315
+63846,36.826,-89.799
+63847,36.443,-90.035
+63848,36.437,-89.888
+63849,36.14,-89.991
+63850,36.822,-89.782
+63851,36.259,-89.717
+63852,36.367,-90.015
+63853,36.058,-89.867
+63855,36.069,-90.057
+63857,36.224,-90.046
+63860,36.678,-89.592
+63862,36.59,-89.678
+63863,36.563,-89.977
+63866,36.529,-89.606
+63867,36.75,-89.552
+63868,36.846,-89.69
+63869,36.608,-89.495
+63870,36.621,-89.844
+63873,36.431,-89.662
+63874,36.562,-89.814
+63876,36.132,-90.165
+63877,36.079,-89.849
+63878,36.503,-89.822
+63879,36.36,-89.813
+63880,36.33,-90.026
+63882,36.916,-89.22
+63901,36.771,-90.452
+63932,36.687,-90.245
+63933,36.519,-90.112
+63934,37.199,-90.369
+63935,36.675,-90.921
+63936,36.809,-90.129
+63937,36.954,-90.753
+63939,36.684,-90.689
+63940,36.768,-90.228
+63941,36.881,-91.177
+63942,36.554,-91.074
+63943,36.835,-90.801
+63944,37.113,-90.359
+63945,36.639,-90.549
+63950,37.263,-90.415
+63951,37.115,-90.258
+63952,37.01,-90.643
+63953,36.587,-90.638
+63954,36.567,-90.47
+63955,36.602,-90.679
+63956,37.214,-90.522
+63957,37.142,-90.692
+63960,36.957,-90.131
+63961,36.567,-90.277
+63962,36.844,-90.282
+63964,37.24,-90.403
+63965,36.965,-91.021
+63966,36.971,-90.262
+63967,36.941,-90.485
+64001,39.101,-93.537
+64011,38.96,-94.068
+64012,38.788,-94.552
+64014,39.009,-94.257
+64015,39.021,-94.302
+64016,39.113,-94.215
+64017,39.2,-94.033
+64018,39.455,-94.721
+64019,38.778,-93.865
+64020,38.967,-93.6
+64021,39.113,-93.626
+64022,39.202,-93.672
+64024,39.327,-94.227
+64028,39.285,-94.832
+64029,39.006,-94.216
+64030,38.881,-94.523
+64034,38.859,-94.298
+64035,39.291,-93.812
+64036,39.201,-93.935
+64037,39.047,-93.734
+64040,38.719,-93.988
+64048,39.438,-94.364
+64050,39.116,-94.411
+64052,39.074,-94.451
+64053,39.108,-94.465
+64054,39.118,-94.441
+64055,39.051,-94.398
+64056,39.113,-94.315
+64057,39.072,-94.319
+64058,39.174,-94.314
+64060,39.371,-94.369
+64061,38.787,-94.084
+64062,39.456,-94.178
+64063,38.912,-94.353
+64064,38.983,-94.343
+64065,38.952,-94.404
+64066,39.14,-94.139
+64067,39.154,-93.836
+64068,39.258,-94.39
+64070,38.887,-94.149
+64071,39.028,-93.832
+64072,39.241,-94.3
+64074,39.084,-94.071
+64075,39,-94.145
+64076,38.983,-93.948
+64077,39.225,-94.139
+64078,38.708,-94.472
+64079,39.364,-94.793
+64080,38.764,-94.26
+64081,38.911,-94.411
+64082,38.862,-94.408
+64083,38.802,-94.449
+64084,39.386,-94.069
+64085,39.343,-93.955
+64086,38.899,-94.272
+64088,39.167,-94.183
+64089,39.39,-94.565
+64090,38.76,-94.164
+64092,39.218,-94.811
+64093,38.793,-93.731
+64096,39.197,-93.558
+64097,39.114,-93.99
+64098,39.468,-94.891
+64101,39.103,-94.601
+64102,39.094,-94.603
+64105,39.106,-94.591
+64106,39.105,-94.57
+64108,39.085,-94.586
+64109,39.066,-94.568
+64110,39.034,-94.573
+64111,39.057,-94.594
+64112,39.036,-94.595
+64113,39.014,-94.595
+64114,38.958,-94.599
+64116,39.149,-94.575
+64117,39.164,-94.523
+64118,39.213,-94.574
+64119,39.21,-94.515
+64120,39.135,-94.515
+64123,39.114,-94.522
+64124,39.107,-94.539
+64125,39.106,-94.494
+64126,39.091,-94.496
+64127,39.089,-94.538
+64128,39.065,-94.535
+64129,39.049,-94.497
+64130,39.035,-94.542
+64131,38.96,-94.572
+64132,38.98,-94.542
+64133,39.014,-94.458
+64134,38.931,-94.487
+64136,39.013,-94.406
+64137,38.932,-94.543
+64138,38.967,-94.471
+64139,38.967,-94.405
+64145,38.878,-94.596
+64146,38.883,-94.572
+64147,38.852,-94.555
+64149,38.865,-94.472
+64150,39.172,-94.632
+64151,39.215,-94.63
+64152,39.219,-94.725
+64153,39.275,-94.727
+64154,39.281,-94.627
+64155,39.281,-94.568
+64156,39.274,-94.518
+64157,39.277,-94.471
+64158,39.234,-94.483
+64161,39.159,-94.451
+64163,39.344,-94.688
+64164,39.329,-94.627
+64165,39.321,-94.578
+64166,39.322,-94.523
+64167,39.319,-94.482
+64401,39.633,-94.715
+64402,40.252,-94.323
+64420,40.486,-94.289
+64421,39.908,-94.928
+64422,39.895,-94.494
+64423,40.193,-94.852
+64424,40.265,-94.032
+64426,40.517,-93.861
+64427,40.109,-94.846
+64428,40.423,-95.088
+64429,39.737,-94.226
+64430,39.839,-94.566
+64431,40.528,-94.996
+64432,40.264,-94.661
+64433,40.239,-94.681
+64434,40.258,-94.736
+64436,39.852,-94.691
+64437,40.14,-95.363
+64438,40.159,-94.414
+64439,39.524,-94.753
+64440,39.585,-94.91
+64441,40.393,-94.271
+64442,40.497,-94.006
+64443,39.743,-94.653
+64444,39.485,-94.648
+64445,40.54,-95.149
+64446,40.324,-95.399
+64448,39.604,-94.827
+64449,40.041,-94.978
+64451,39.994,-95.213
+64453,40.345,-94.469
+64454,39.608,-94.594
+64455,40.181,-95.005
+64456,40.493,-94.391
+64457,40.163,-94.682
+64458,40.515,-94.145
+64459,39.929,-94.645
+64461,40.514,-94.807
+64463,40.063,-94.483
+64465,39.55,-94.288
+64466,40.166,-95.106
+64467,40.392,-94.177
+64468,40.343,-94.881
+64469,39.933,-94.357
+64470,40.173,-95.227
+64471,40.266,-94.194
+64473,39.979,-95.076
+64474,39.754,-94.38
+64475,40.436,-94.629
+64476,40.453,-94.831
+64477,39.575,-94.453
+64479,40.338,-94.671
+64480,40.054,-94.705
+64481,40.354,-93.888
+64482,40.447,-95.556
+64483,40.039,-94.839
+64484,39.561,-95.017
+64485,39.954,-94.816
+64486,40.537,-94.613
+64487,40.301,-95.096
+64489,40.234,-94.548
+64490,39.742,-94.515
+64491,40.446,-95.358
+64492,39.482,-94.544
+64493,39.631,-94.304
+64494,39.991,-94.61
+64496,40.498,-95.622
+64497,39.93,-94.22
+64498,40.54,-95.312
+64499,40.397,-94.415
+64501,39.766,-94.844
+64503,39.749,-94.846
+64504,39.691,-94.906
+64505,39.847,-94.824
+64506,39.79,-94.803
+64507,39.737,-94.74
+64601,39.805,-93.579
+64620,39.895,-94.09
+64622,39.493,-93.543
+64623,39.47,-93.333
+64624,39.576,-93.783
+64625,39.744,-93.803
+64628,39.794,-93.048
+64630,40.038,-93.157
+64631,39.837,-92.883
+64632,40.469,-93.767
+64633,39.36,-93.482
+64635,39.953,-93.434
+64636,40.128,-93.983
+64637,39.576,-93.917
+64638,39.618,-93.62
+64639,39.4,-93.216
+64640,39.898,-93.936
+64641,40.164,-93.402
+64642,40.171,-93.836
+64643,39.613,-93.369
+64644,39.739,-93.971
+64645,40.3,-93.322
+64646,40.099,-93.309
+64647,40.026,-93.967
+64648,39.989,-93.79
+64649,39.773,-94.086
+64650,39.638,-94.054
+64651,39.777,-93.182
+64652,40.022,-93.418
+64653,39.895,-93.194
+64654,39.849,-93.776
+64655,40.447,-93.257
+64656,39.677,-93.693
+64657,40.132,-94.208
+64658,39.663,-92.917
+64659,39.782,-93.29
+64660,39.577,-93.097
+64661,40.536,-93.517
+64664,39.75,-93.651
+64667,40.4,-93.345
+64668,39.355,-93.704
+64670,40.053,-94.14
+64671,39.532,-94.051
+64672,40.539,-93.25
+64673,40.374,-93.587
+64674,39.968,-93.157
+64676,39.646,-93.03
+64679,40.237,-93.581
+64681,39.649,-93.213
+64682,39.549,-93.495
+64683,40.074,-93.604
+64686,39.749,-93.624
+64688,39.812,-93.369
+64689,39.875,-94.151
+64701,38.625,-94.329
+64720,38.404,-94.336
+64722,38.276,-94.554
+64723,38.362,-94.56
+64724,38.153,-94.007
+64725,38.491,-94.373
+64726,38.527,-93.922
+64728,37.699,-94.518
+64730,38.256,-94.284
+64733,38.585,-93.827
+64734,38.655,-94.559
+64735,38.372,-93.727
+64738,37.902,-93.652
+64739,38.511,-94.097
+64740,38.228,-93.703
+64741,37.818,-94.562
+64742,38.508,-94.541
+64743,38.664,-94.214
+64744,37.848,-93.979
+64745,38.151,-94.508
+64746,38.602,-94.497
+64747,38.577,-94.171
+64748,37.365,-94.102
+64750,37.921,-94.113
+64752,38.065,-94.563
+64755,37.337,-94.309
+64756,37.619,-94.015
+64759,37.522,-94.267
+64761,38.608,-93.676
+64762,37.547,-94.501
+64763,38.144,-93.712
+64765,37.997,-94.443
+64767,37.737,-94.201
+64769,37.493,-94.548
+64770,38.281,-93.99
+64771,37.773,-94.463
+64772,37.825,-94.333
+64776,38.042,-93.675
+64778,37.919,-94.479
+64779,38.092,-94.396
+64780,38.059,-94.047
+64781,37.977,-93.817
+64783,38,-94.105
+64784,37.665,-94.234
+64788,38.424,-94.02
+64790,37.919,-94.222
+64801,37.107,-94.498
+64804,37.02,-94.511
+64830,37.231,-94.411
+64831,36.659,-94.457
+64832,37.34,-94.574
+64833,37.194,-94.13
+64834,37.186,-94.573
+64835,37.148,-94.438
+64836,37.189,-94.279
+64840,37.02,-94.343
+64841,37.079,-94.411
+64842,36.789,-94.106
+64843,36.733,-94.453
+64844,36.911,-94.24
+64847,36.592,-94.439
+64848,37.185,-93.995
+64849,37.254,-94.445
+64850,36.861,-94.402
+64854,36.55,-94.438
+64855,37.337,-94.513
+64856,36.549,-94.252
+64857,37.246,-94.439
+64858,36.901,-94.531
+64859,37.164,-94.113
+64861,36.695,-94.154
+64862,37.101,-94.12
+64863,36.559,-94.583
+64865,36.843,-94.581
+64866,36.87,-94.156
+64867,36.724,-94.235
+64868,36.688,-94.613
+64870,37.183,-94.478
+64873,37.011,-94.054
+64874,36.752,-94.053
+65001,38.278,-92.005
+65010,38.788,-92.242
+65011,38.402,-92.71
+65013,38.27,-91.752
+65014,38.323,-91.625
+65016,38.561,-91.919
+65017,38.092,-92.495
+65018,38.62,-92.564
+65020,38.006,-92.781
+65023,38.654,-92.396
+65024,38.63,-91.775
+65025,38.667,-92.699
+65026,38.324,-92.565
+65032,38.348,-92.383
+65034,38.56,-92.818
+65035,38.364,-91.947
+65037,38.243,-92.849
+65039,38.711,-92.297
+65040,38.348,-92.285
+65041,38.633,-91.49
+65043,38.623,-92.102
+65046,38.776,-92.478
+65047,38.151,-92.578
+65048,38.373,-92.041
+65049,38.2,-92.675
+65050,38.522,-92.686
+65051,38.463,-91.798
+65052,38.076,-92.705
+65053,38.541,-92.37
+65054,38.484,-91.947
+65058,38.27,-92.131
+65059,38.701,-91.888
+65061,38.594,-91.635
+65062,38.501,-91.66
+65063,38.726,-92.088
+65064,38.403,-92.471
+65065,38.132,-92.67
+65066,38.345,-91.49
+65067,38.745,-91.728
+65068,38.829,-92.598
+65069,38.758,-91.608
+65072,38.267,-92.729
+65074,38.484,-92.468
+65075,38.237,-92.251
+65076,38.379,-92.194
+65077,38.77,-91.819
+65078,38.381,-93.036
+65079,38.156,-92.752
+65080,38.636,-91.979
+65081,38.634,-92.78
+65082,38.219,-92.421
+65083,38.148,-92.444
+65084,38.438,-92.855
+65085,38.406,-92.084
+65101,38.497,-92.133
+65109,38.573,-92.277
+65201,38.901,-92.238
+65202,39.017,-92.298
+65203,38.896,-92.396
+65215,38.952,-92.32
+65216,38.958,-92.326
+65230,39.291,-92.681
+65231,39.018,-91.908
+65232,39.161,-91.756
+65233,38.911,-92.724
+65236,39.448,-93.089
+65237,38.768,-92.795
+65239,39.533,-92.421
+65240,39.22,-92.131
+65243,39.275,-92.351
+65244,39.485,-92.659
+65246,39.37,-92.994
+65247,39.635,-92.471
+65248,39.139,-92.66
+65250,39.03,-92.84
+65251,38.85,-91.979
+65254,39.212,-92.846
+65255,39.102,-92.218
+65256,39.122,-92.456
+65257,39.287,-92.534
+65258,39.526,-92.138
+65259,39.475,-92.564
+65260,39.593,-92.401
+65261,39.462,-92.916
+65262,38.96,-91.955
+65263,39.448,-92.218
+65264,39.088,-91.686
+65265,39.203,-91.885
+65270,39.414,-92.395
+65274,39.015,-92.686
+65275,39.453,-91.995
+65276,38.853,-92.958
+65278,39.342,-92.412
+65279,38.994,-92.545
+65280,39.234,-91.755
+65281,39.466,-92.788
+65282,39.382,-91.84
+65283,39.509,-91.828
+65284,39.187,-92.304
+65285,39.272,-92
+65286,39.508,-93.22
+65287,38.884,-92.522
+65301,38.699,-93.221
+65305,38.733,-93.553
+65320,39.066,-92.946
+65321,39.075,-93.448
+65322,38.97,-92.966
+65323,38.454,-93.616
+65324,38.097,-93.01
+65325,38.44,-93.189
+65326,38.166,-93.139
+65327,38.977,-93.484
+65329,38.602,-92.957
+65330,39.223,-92.951
+65332,38.62,-93.414
+65333,38.901,-93.32
+65334,38.838,-93.246
+65335,38.514,-93.323
+65336,38.785,-93.557
+65337,38.794,-93.431
+65338,38.357,-93.306
+65339,39.189,-93.372
+65340,39.088,-93.176
+65344,39.319,-93.204
+65345,38.538,-93.127
+65347,38.981,-93.046
+65348,38.712,-92.99
+65349,39.234,-93.054
+65350,38.655,-93.103
+65351,38.995,-93.381
+65354,38.644,-92.886
+65355,38.22,-93.367
+65360,38.52,-93.515
+65401,37.899,-91.769
+65409,37.951,-91.78
+65436,37.624,-91.964
+65438,36.931,-91.501
+65439,37.665,-91.094
+65440,37.599,-91.191
+65441,38.096,-91.159
+65443,38.132,-92.095
+65444,37.378,-92.054
+65446,37.811,-91.27
+65449,37.852,-91.495
+65452,37.967,-92.266
+65453,38.107,-91.427
+65456,37.785,-91.19
+65457,37.824,-92.051
+65459,38.03,-92.097
+65461,37.687,-92.024
+65462,37.685,-91.865
+65463,37.848,-92.783
+65464,37.187,-91.9
+65466,37.211,-91.386
+65468,37.254,-91.798
+65470,37.547,-92.402
+65473,37.71,-92.148
+65479,37.342,-91.636
+65483,37.299,-91.955
+65484,37.356,-92.227
+65486,38.103,-92.307
+65501,37.455,-91.542
+65529,37.929,-91.989
+65534,37.701,-92.26
+65535,38.07,-91.274
+65536,37.692,-92.648
+65541,37.644,-91.759
+65542,37.496,-91.884
+65543,37.454,-92.29
+65548,37.006,-91.712
+65550,37.844,-91.944
+65552,37.498,-92.172
+65555,37.362,-91.778
+65556,37.835,-92.404
+65557,37.517,-92.145
+65559,38.017,-91.614
+65560,37.597,-91.504
+65564,37.233,-91.956
+65565,37.896,-91.239
+65566,37.809,-91.161
+65567,37.849,-92.54
+65570,37.453,-92.095
+65571,37.187,-91.645
+65580,38.117,-91.79
+65582,38.204,-91.926
+65583,37.828,-92.258
+65584,37.829,-92.131
+65586,37.865,-91.433
+65588,36.966,-91.294
+65589,37.237,-91.827
+65590,37.637,-92.975
+65591,37.979,-92.591
+65601,37.53,-93.586
+65603,37.533,-93.857
+65604,37.27,-93.598
+65605,36.99,-93.74
+65606,36.697,-91.359
+65608,36.902,-92.667
+65609,36.527,-92.177
+65610,37.042,-93.525
+65611,36.55,-93.372
+65612,37.214,-93.539
+65613,37.641,-93.387
+65614,36.734,-92.897
+65616,36.671,-93.249
+65617,37.438,-93.335
+65618,36.76,-92.367
+65619,37.122,-93.387
+65620,37.017,-92.956
+65622,37.635,-93.11
+65623,36.749,-93.907
+65624,36.732,-93.561
+65625,36.674,-93.816
+65626,36.588,-92.113
+65627,36.567,-93.033
+65629,36.892,-93.001
+65630,36.838,-93.226
+65631,37.001,-93.424
+65632,37.499,-92.816
+65633,36.899,-93.536
+65634,38.015,-93.195
+65635,37.532,-93.717
+65637,36.776,-92.191
+65638,36.833,-92.33
+65640,37.698,-93.567
+65641,36.544,-93.771
+65644,37.511,-93.038
+65646,37.333,-93.703
+65647,36.693,-94.007
+65648,37.409,-93.167
+65649,37.617,-93.623
+65650,37.814,-93.442
+65652,37.133,-92.95
+65653,36.841,-93.14
+65654,37.022,-93.898
+65655,36.603,-92.42
+65656,36.794,-93.468
+65657,36.839,-93.018
+65658,36.547,-93.638
+65660,37.324,-92.271
+65661,37.456,-93.829
+65662,37.419,-92.572
+65663,37.63,-93.246
+65664,37.198,-93.615
+65666,36.575,-92.36
+65667,37.308,-92.514
+65668,37.931,-93.288
+65669,36.916,-93.296
+65672,36.56,-93.219
+65674,37.791,-93.608
+65675,36.931,-93.492
+65676,36.578,-92.599
+65679,36.574,-93.095
+65680,36.642,-92.982
+65681,36.546,-93.469
+65682,37.416,-93.98
+65685,37.754,-93.151
+65686,36.627,-93.444
+65688,36.649,-91.693
+65689,37.136,-92.091
+65690,36.592,-91.264
+65692,36.621,-91.65
+65702,37.053,-92.485
+65704,37.128,-92.586
+65705,37.092,-93.623
+65706,37.323,-92.899
+65707,37.234,-93.843
+65708,36.911,-93.909
+65710,37.486,-93.421
+65711,37.176,-92.276
+65712,37.111,-93.806
+65713,37.406,-92.739
+65714,37.041,-93.321
+65715,36.731,-92.574
+65717,37.06,-92.416
+65720,36.948,-92.963
+65721,36.981,-93.209
+65722,37.589,-92.808
+65723,36.953,-94.048
+65724,37.84,-93.316
+65725,37.43,-93.264
+65726,36.62,-93.243
+65727,37.766,-93.295
+65728,36.877,-93.335
+65729,36.539,-92.564
+65730,36.624,-94.225
+65731,36.653,-93.126
+65732,37.935,-93.177
+65733,36.533,-92.851
+65734,36.797,-93.954
+65735,38.04,-93.487
+65737,36.712,-93.351
+65738,37.137,-93.49
+65739,36.511,-93.274
+65740,36.712,-93.163
+65741,36.796,-92.404
+65742,37.125,-93.089
+65744,36.624,-92.893
+65745,36.523,-93.984
+65746,37.143,-92.788
+65747,36.601,-93.58
+65752,37.332,-93.838
+65753,36.995,-93.056
+65754,36.838,-93.282
+65755,36.802,-92.633
+65756,37.096,-93.96
+65757,37.283,-93.099
+65759,36.768,-93.048
+65760,36.616,-92.277
+65761,36.541,-92.722
+65762,36.681,-92.663
+65764,37.815,-92.949
+65766,36.536,-92.269
+65767,37.852,-93.156
+65768,36.919,-92.27
+65769,36.919,-93.799
+65770,37.423,-93.548
+65771,36.775,-93.204
+65772,36.598,-94.025
+65773,36.751,-92.517
+65774,37.93,-93.489
+65775,36.701,-91.856
+65777,36.517,-91.981
+65778,36.53,-91.271
+65779,37.982,-93.385
+65781,37.356,-93.418
+65783,37.711,-92.903
+65784,36.73,-92.297
+65785,37.708,-93.825
+65786,37.967,-92.963
+65787,38.068,-92.899
+65788,36.807,-91.695
+65789,36.857,-91.89
+65790,36.703,-92.11
+65791,36.579,-91.497
+65793,36.992,-91.98
+65801,37.214,-93.295
+65802,37.211,-93.352
+65803,37.283,-93.29
+65804,37.148,-93.252
+65806,37.206,-93.299
+65807,37.168,-93.325
+65809,37.173,-93.19
+65810,37.12,-93.31
+65897,37.2,-93.281
+66002,39.552,-95.14
+66006,38.789,-95.238
+66007,39.136,-94.945
+66008,39.718,-95.176
+66010,38.092,-94.996
+66012,39.067,-94.921
+66013,38.731,-94.696
+66014,38.229,-94.987
+66015,38.076,-95.4
+66016,39.467,-95.223
+66017,39.704,-95.274
+66018,38.964,-94.974
+66020,39.339,-95.111
+66021,38.757,-95.005
+66023,39.512,-95.392
+66024,39.762,-94.89
+66025,38.892,-95.083
+66026,38.396,-94.866
+66027,39.361,-94.917
+66030,38.815,-94.94
+66031,38.832,-94.89
+66032,38.277,-95.277
+66033,38.359,-95.128
+66035,39.871,-95.254
+66039,38.104,-95.165
+66040,38.357,-94.738
+66041,39.6,-95.308
+66042,38.423,-95.08
+66043,39.248,-94.906
+66044,39.033,-95.209
+66045,38.954,-95.262
+66046,38.905,-95.21
+66047,38.893,-95.346
+66048,39.273,-94.98
+66049,38.979,-95.346
+66050,39.026,-95.43
+66052,39.008,-95.046
+66053,38.581,-94.668
+66054,39.206,-95.198
+66056,38.151,-94.844
+66058,39.541,-95.52
+66060,39.419,-95.332
+66061,38.894,-94.88
+66062,38.838,-94.784
+66064,38.481,-94.989
+66066,39.203,-95.331
+66067,38.62,-95.284
+66070,39.211,-95.453
+66071,38.574,-94.867
+66072,38.318,-94.975
+66073,39.092,-95.381
+66075,38.201,-94.684
+66076,38.632,-95.443
+66078,38.485,-95.258
+66079,38.542,-95.124
+66080,38.413,-95.255
+66083,38.732,-94.83
+66085,38.806,-94.645
+66086,39.115,-95.081
+66087,39.809,-95.14
+66088,39.341,-95.456
+66090,39.788,-94.973
+66091,38.172,-95.328
+66092,38.689,-95.106
+66093,38.208,-95.494
+66094,39.959,-95.342
+66095,38.441,-95.439
+66097,39.329,-95.246
+66101,39.119,-94.626
+66102,39.109,-94.693
+66103,39.06,-94.627
+66104,39.15,-94.69
+66105,39.086,-94.637
+66106,39.069,-94.703
+66109,39.165,-94.829
+66111,39.084,-94.79
+66112,39.115,-94.77
+66115,39.148,-94.605
+66118,39.101,-94.613
+66160,39.056,-94.61
+66202,39.023,-94.669
+66203,39.02,-94.706
+66204,38.99,-94.678
+66205,39.031,-94.631
+66206,38.959,-94.619
+66207,38.956,-94.643
+66208,38.998,-94.628
+66209,38.901,-94.634
+66210,38.927,-94.705
+66211,38.925,-94.636
+66212,38.956,-94.68
+66213,38.899,-94.704
+66214,38.964,-94.714
+66215,38.956,-94.743
+66216,39.014,-94.742
+66217,39.014,-94.775
+66218,39.013,-94.818
+66219,38.953,-94.778
+66220,38.96,-94.819
+66221,38.847,-94.714
+66223,38.862,-94.669
+66224,38.862,-94.624
+66226,39.031,-94.861
+66227,38.973,-94.875
+66251,38.917,-94.659
+66401,38.932,-96.31
+66402,38.914,-95.843
+66403,39.891,-96.27
+66404,39.864,-96.173
+66406,39.894,-96.421
+66407,39.228,-96.186
+66408,39.95,-95.975
+66409,38.919,-95.555
+66411,39.642,-96.644
+66412,39.908,-96.777
+66413,38.769,-95.881
+66414,38.831,-95.685
+66415,39.689,-96.138
+66416,39.526,-95.863
+66417,39.657,-96.037
+66418,39.279,-95.934
+66419,39.361,-95.599
+66422,39.334,-96.084
+66423,38.854,-96.122
+66424,39.675,-95.404
+66425,39.807,-95.721
+66427,39.661,-96.439
+66428,39.676,-95.931
+66429,39.094,-95.534
+66431,38.806,-96.003
+66432,39.491,-96.078
+66434,39.863,-95.555
+66436,39.468,-95.704
+66438,39.835,-96.511
+66439,39.656,-95.54
+66440,39.268,-95.677
+66441,38.974,-96.803
+66442,39.092,-96.79
+66449,39.39,-96.856
+66451,38.603,-95.673
+66501,39.053,-96.237
+66502,39.14,-96.529
+66503,39.265,-96.695
+66506,39.196,-96.581
+66507,39.051,-96.031
+66508,39.859,-96.644
+66509,39.325,-95.785
+66510,38.5,-95.61
+66512,39.208,-95.541
+66514,39.126,-96.876
+66515,39.936,-95.704
+66516,39.617,-95.721
+66517,39.111,-96.702
+66518,39.966,-96.551
+66520,39.412,-96.611
+66521,39.471,-96.229
+66522,39.866,-95.938
+66523,38.616,-95.834
+66524,38.791,-95.506
+66526,39.065,-96.163
+66527,39.747,-95.681
+66528,38.603,-95.538
+66531,39.312,-96.838
+66532,39.821,-95.378
+66533,39.163,-95.947
+66534,39.877,-95.837
+66535,39.267,-96.434
+66536,39.215,-96.07
+66537,38.751,-95.72
+66538,39.851,-96.045
+66539,39.142,-95.84
+66540,39.485,-95.97
+66541,39.979,-96.344
+66542,39.011,-95.545
+66543,38.64,-95.599
+66544,39.689,-96.273
+66546,38.894,-95.73
+66547,39.232,-96.296
+66548,39.671,-96.763
+66549,39.421,-96.436
+66550,39.655,-95.821
+66552,39.588,-95.63
+66554,39.495,-96.791
+66603,39.058,-95.675
+66604,39.039,-95.726
+66605,39.011,-95.639
+66606,39.061,-95.72
+66607,39.041,-95.635
+66608,39.081,-95.664
+66609,38.978,-95.661
+66610,38.977,-95.845
+66611,39.019,-95.696
+66612,39.04,-95.68
+66614,39.01,-95.838
+66615,39.051,-95.898
+66616,39.07,-95.623
+66617,39.135,-95.623
+66618,39.14,-95.748
+66619,38.947,-95.69
+66621,39.033,-95.702
+66622,39.026,-95.722
+66701,37.83,-94.759
+66710,37.552,-95.624
+66711,37.637,-94.685
+66712,37.565,-94.715
+66713,37.04,-94.785
+66714,37.637,-95.699
+66716,37.939,-95.038
+66717,37.699,-95.681
+66720,37.648,-95.457
+66724,37.347,-94.857
+66725,37.157,-94.895
+66732,37.804,-95.193
+66733,37.59,-95.255
+66734,37.614,-94.82
+66735,37.518,-94.715
+66736,37.551,-95.861
+66738,38.014,-94.723
+66739,37.126,-94.655
+66740,37.466,-95.371
+66741,37.72,-94.664
+66742,37.92,-95.349
+66743,37.509,-94.88
+66746,37.668,-94.953
+66748,37.8,-95.436
+66749,37.934,-95.415
+66751,37.93,-95.29
+66753,37.364,-95.016
+66754,38.005,-94.886
+66755,37.912,-95.169
+66756,37.548,-94.641
+66757,37.414,-95.698
+66758,38.016,-95.587
+66760,37.348,-94.624
+66761,37.911,-95.57
+66762,37.394,-94.71
+66763,37.463,-94.698
+66767,38.079,-94.71
+66769,37.857,-94.89
+66770,37.081,-94.715
+66771,37.495,-95.146
+66772,37.74,-95.188
+66773,37.259,-94.805
+66775,37.702,-95.149
+66776,37.468,-95.498
+66777,37.787,-95.976
+66778,37,-94.839
+66779,37.829,-94.966
+66780,37.61,-95.056
+66781,37.289,-94.733
+66782,37.285,-94.926
+66783,37.877,-95.733
+66801,38.412,-96.224
+66830,38.596,-96.091
+66833,38.696,-96.195
+66834,38.862,-96.455
+66835,38.527,-96.266
+66838,38.555,-96.801
+66839,38.217,-95.748
+66840,38.077,-96.877
+66842,38.025,-96.657
+66843,38.222,-96.74
+66845,38.299,-96.508
+66846,38.64,-96.474
+66849,38.878,-96.603
+66850,38.408,-96.713
+66851,38.218,-96.919
+66852,38.072,-95.895
+66853,38.002,-96.235
+66854,38.252,-95.988
+66856,38.398,-95.812
+66857,38.103,-95.633
+66858,38.473,-96.922
+66859,38.557,-96.965
+66860,38.127,-96.166
+66861,38.364,-97.006
+66862,38.155,-96.556
+66863,37.834,-96.076
+66864,38.355,-95.981
+66865,38.209,-96.275
+66866,38.174,-97.103
+66868,38.545,-95.979
+66869,38.469,-96.515
+66870,37.933,-95.976
+66871,38.363,-95.61
+66872,38.799,-96.764
+66873,38.613,-96.666
+66901,39.56,-97.639
+66930,39.705,-97.491
+66932,39.779,-98.931
+66933,39.675,-96.872
+66935,39.826,-97.635
+66936,39.919,-98.302
+66937,39.6,-97.265
+66938,39.59,-97.444
+66939,39.853,-97.904
+66940,39.802,-97.453
+66941,39.831,-98.448
+66942,39.791,-97.998
+66943,39.672,-96.966
+66944,39.84,-97.293
+66945,39.887,-96.878
+66946,39.968,-96.999
+66948,39.598,-97.852
+66949,39.645,-98.205
+66951,39.864,-99.038
+66952,39.836,-98.605
+66953,39.68,-97.118
+66955,39.98,-97.321
+66956,39.797,-98.216
+66958,39.889,-97.177
+66959,39.923,-97.53
+66960,39.936,-97.422
+66961,39.693,-97.776
+66962,39.599,-97.114
+66963,39.642,-98.014
+66964,39.934,-97.794
+66966,39.784,-97.762
+66967,39.82,-98.794
+66968,39.835,-97.063
+66970,39.95,-98.017
+67001,37.757,-97.635
+67002,37.701,-97.107
+67003,37.105,-98.057
+67004,37.282,-97.763
+67005,37.069,-96.996
+67008,37.489,-96.753
+67009,37.225,-98.269
+67010,37.655,-96.976
+67012,37.658,-96.559
+67013,37.382,-97.268
+67016,37.889,-97.518
+67017,37.828,-97.112
+67018,37.071,-97.854
+67019,37.314,-96.784
+67020,38.008,-97.676
+67021,37.776,-98.911
+67022,37.077,-97.627
+67023,37.346,-96.592
+67024,37.113,-96.492
+67025,37.642,-97.785
+67026,37.511,-97.492
+67028,37.476,-98.98
+67029,37.171,-99.28
+67030,37.786,-97.547
+67031,37.41,-97.635
+67035,37.648,-98.395
+67036,37.29,-97.883
+67037,37.572,-97.217
+67038,37.12,-96.68
+67039,37.528,-96.974
+67041,38.054,-97.128
+67042,37.857,-96.781
+67045,37.855,-96.322
+67047,37.64,-96.05
+67049,37.171,-97.846
+67050,37.675,-97.677
+67051,37.089,-97.197
+67052,37.658,-97.574
+67053,38.247,-97.346
+67054,37.575,-99.316
+67055,37.783,-97.203
+67056,38.019,-97.523
+67057,37.071,-98.78
+67058,37.318,-98.061
+67059,37.659,-99.097
+67060,37.543,-97.364
+67061,37.082,-98.377
+67062,38.143,-97.433
+67063,38.341,-97.234
+67065,37.478,-98.529
+67066,37.774,-98.758
+67067,37.795,-97.266
+67068,37.622,-98.12
+67070,37.072,-98.553
+67071,37.209,-98.89
+67072,37.535,-96.628
+67073,38.389,-97.32
+67074,37.67,-96.736
+67101,37.785,-97.464
+67102,37.027,-96.8
+67103,37.266,-97.555
+67104,37.265,-98.664
+67105,37.22,-97.683
+67106,37.463,-97.758
+67107,38.2,-97.543
+67108,37.816,-97.691
+67109,37.561,-99.486
+67110,37.47,-97.224
+67111,37.615,-97.938
+67112,37.453,-98.419
+67114,38.068,-97.292
+67117,38.074,-97.346
+67118,37.482,-97.854
+67119,37.239,-97.177
+67120,37.468,-97.374
+67122,37.619,-96.428
+67123,37.948,-96.996
+67124,37.634,-98.774
+67127,37.165,-99.487
+67131,37.425,-96.947
+67132,37.851,-96.585
+67133,37.578,-97.107
+67134,37.477,-98.672
+67135,37.914,-97.454
+67137,37.632,-96.228
+67138,37.26,-98.42
+67140,37.08,-97.357
+67142,37.453,-98.114
+67143,37.319,-98.975
+67144,37.819,-97.003
+67146,37.384,-97.105
+67147,37.865,-97.305
+67149,37.54,-97.626
+67150,37.028,-98.198
+67151,38.142,-97.257
+67152,37.263,-97.411
+67154,37.964,-97.122
+67155,37.275,-99.138
+67156,37.248,-96.963
+67159,37.428,-98.309
+67202,37.687,-97.335
+67203,37.699,-97.365
+67204,37.762,-97.359
+67205,37.749,-97.424
+67206,37.704,-97.225
+67207,37.666,-97.23
+67208,37.704,-97.279
+67209,37.651,-97.428
+67210,37.643,-97.21
+67211,37.667,-97.317
+67212,37.702,-97.439
+67213,37.667,-97.364
+67214,37.707,-97.318
+67215,37.616,-97.435
+67216,37.611,-97.313
+67217,37.618,-97.362
+67218,37.669,-97.28
+67219,37.769,-97.316
+67220,37.751,-97.278
+67221,37.635,-97.258
+67223,37.742,-97.496
+67226,37.769,-97.22
+67227,37.627,-97.501
+67228,37.778,-97.181
+67230,37.681,-97.168
+67232,37.644,-97.162
+67235,37.689,-97.5
+67260,37.719,-97.293
+67301,37.208,-95.756
+67330,37.158,-95.309
+67332,37.043,-95.237
+67333,37.044,-95.866
+67334,37.024,-96.177
+67335,37.275,-95.527
+67336,37.069,-95.069
+67337,37.054,-95.598
+67340,37.06,-95.712
+67341,37.344,-95.428
+67342,37.06,-95.355
+67344,37.287,-95.954
+67345,37.37,-96.2
+67346,37.321,-96.448
+67347,37.154,-95.952
+67349,37.496,-96.28
+67351,37.144,-95.569
+67352,37.333,-96.091
+67353,37.308,-96.317
+67354,37.206,-95.412
+67355,37.032,-96.006
+67356,37.176,-95.146
+67357,37.338,-95.253
+67360,37.038,-96.107
+67361,37.138,-96.218
+67363,37.333,-95.72
+67364,37.039,-95.824
+67401,38.832,-97.655
+67410,38.956,-97.219
+67416,38.671,-97.565
+67417,39.434,-97.546
+67418,39.185,-98.052
+67420,39.401,-98.085
+67422,39.032,-97.599
+67423,38.966,-97.975
+67425,38.782,-97.908
+67427,38.498,-98.399
+67428,38.38,-97.417
+67430,39.576,-98.442
+67431,38.951,-97.012
+67432,39.331,-97.181
+67436,39.281,-97.73
+67437,39.507,-98.557
+67438,38.502,-97.272
+67439,38.76,-98.221
+67441,38.879,-97.103
+67442,38.646,-97.776
+67443,38.381,-97.526
+67444,38.551,-98.118
+67445,39.371,-97.824
+67446,39.461,-98.325
+67447,39.475,-96.969
+67448,38.664,-97.403
+67449,38.683,-96.897
+67450,38.626,-98.457
+67451,38.701,-97.132
+67452,39.241,-98.368
+67454,38.699,-98.112
+67455,39.029,-98.163
+67456,38.596,-97.68
+67457,38.385,-97.988
+67458,39.168,-97.311
+67459,38.604,-98.346
+67460,38.383,-97.699
+67464,38.559,-97.897
+67466,39.328,-97.472
+67467,39.142,-97.696
+67468,39.459,-97.257
+67470,38.923,-97.508
+67473,39.379,-98.741
+67474,39.596,-98.702
+67475,38.59,-97.055
+67476,38.544,-97.436
+67478,39.386,-97.95
+67480,38.966,-97.401
+67481,39.013,-98.389
+67482,39.027,-97.26
+67483,38.558,-97.198
+67484,38.996,-97.85
+67485,39.316,-98.497
+67487,39.173,-97.064
+67490,38.803,-98.445
+67491,38.383,-97.902
+67492,38.82,-96.96
+67501,37.977,-97.926
+67502,38.127,-97.93
+67505,38.031,-97.946
+67510,37.992,-98.207
+67511,38.434,-99.051
+67512,38.239,-98.335
+67513,38.445,-99.538
+67514,37.862,-98.202
+67515,38.599,-100.065
+67516,38.393,-99.687
+67518,38.404,-100.173
+67519,37.936,-99.103
+67520,38.59,-99.188
+67521,38.628,-99.713
+67522,38.122,-97.748
+67523,38.193,-99.566
+67524,38.384,-98.378
+67525,38.573,-98.563
+67526,38.297,-98.544
+67529,38.076,-99.254
+67530,38.353,-98.798
+67543,37.89,-97.802
+67544,38.57,-98.751
+67545,38.181,-98.648
+67546,38.225,-97.817
+67547,37.938,-99.472
+67548,38.591,-99.334
+67550,38.18,-99.127
+67552,37.861,-99.236
+67553,38.654,-99.32
+67554,38.371,-98.185
+67556,38.605,-99.52
+67557,37.92,-98.958
+67559,38.372,-99.459
+67560,38.399,-99.939
+67561,38.109,-98.097
+67563,37.848,-99.555
+67564,38.529,-98.936
+67565,38.601,-99.044
+67566,37.949,-98.095
+67567,38.265,-98.972
+67568,38.021,-98.317
+67570,37.787,-97.964
+67572,38.689,-99.917
+67573,38.265,-98.412
+67574,38.226,-99.397
+67575,38.402,-99.256
+67576,38.036,-98.795
+67578,37.969,-98.587
+67579,38.189,-98.236
+67581,37.992,-98.408
+67583,37.799,-98.475
+67584,38.682,-100.164
+67601,38.874,-99.341
+67621,39.828,-99.129
+67622,39.904,-99.727
+67623,39.444,-98.954
+67625,39.389,-99.686
+67626,38.882,-98.717
+67627,38.922,-99.213
+67628,39.627,-99.002
+67629,39.7,-100.199
+67631,39.009,-100.081
+67632,39.33,-99.581
+67634,38.823,-98.604
+67635,39.6,-100.451
+67637,38.94,-99.59
+67638,39.633,-98.847
+67639,39.625,-99.318
+67640,38.897,-99.046
+67642,39.369,-99.831
+67643,39.643,-100.289
+67644,39.641,-99.147
+67645,39.602,-99.894
+67646,39.618,-99.594
+67647,39.937,-99.526
+67648,39.087,-98.58
+67649,39.141,-98.689
+67650,39.373,-100.103
+67651,39.206,-99.04
+67653,39.907,-100.208
+67654,39.835,-99.954
+67656,38.981,-99.755
+67657,39.213,-99.61
+67658,39.115,-98.934
+67659,39.323,-100.005
+67660,38.718,-99.148
+67661,39.82,-99.338
+67663,39.212,-99.335
+67664,39.818,-99.583
+67665,38.849,-98.883
+67667,38.713,-99.332
+67669,39.458,-99.344
+67671,38.875,-99.141
+67672,38.994,-99.905
+67673,39.17,-98.814
+67674,38.889,-99.096
+67675,39.41,-99.089
+67701,39.394,-101.05
+67730,39.809,-101.111
+67731,39.766,-101.537
+67732,39.374,-101.352
+67733,39.33,-101.506
+67734,39.543,-100.889
+67735,39.346,-101.774
+67736,38.846,-100.449
+67737,39.089,-100.493
+67738,38.999,-100.651
+67739,39.878,-100.813
+67740,39.356,-100.364
+67741,39.387,-102.005
+67743,39.388,-101.241
+67744,39.861,-100.941
+67745,39.808,-101.345
+67747,39.042,-101.061
+67748,39.07,-100.86
+67749,39.835,-100.563
+67751,39.117,-100.356
+67752,38.995,-100.233
+67753,39.433,-100.748
+67756,39.797,-101.837
+67757,39.553,-100.617
+67758,38.898,-101.779
+67761,38.951,-101.526
+67762,38.841,-102.001
+67764,38.87,-101.158
+67801,37.73,-100.06
+67831,37.186,-99.796
+67834,37.535,-99.62
+67835,37.987,-100.309
+67836,38.04,-101.995
+67837,37.555,-100.675
+67838,38.058,-101.134
+67839,38.471,-100.442
+67840,37.052,-99.952
+67841,37.628,-100.226
+67842,37.548,-99.765
+67843,37.73,-99.937
+67844,37.377,-100.197
+67846,38.026,-100.779
+67849,38.16,-99.729
+67850,38.631,-100.639
+67851,38.089,-101.016
+67853,37.886,-100.528
+67854,38.101,-100.001
+67855,37.541,-101.699
+67857,37.994,-101.548
+67859,37.235,-100.77
+67860,38.022,-101.3
+67861,38.474,-101.39
+67862,37.488,-101.953
+67863,38.565,-101.208
+67864,37.177,-100.317
+67865,37.436,-99.968
+67867,37.566,-100.456
+67868,37.82,-100.71
+67869,37.25,-100.563
+67870,37.529,-101.022
+67871,38.492,-100.917
+67876,37.863,-99.743
+67877,37.555,-100.844
+67878,38.005,-101.81
+67879,38.471,-101.795
+67880,37.598,-101.322
+67882,37.804,-99.88
+67901,37.098,-100.895
+67950,37.063,-101.868
+67951,37.161,-101.329
+67952,37.293,-101.122
+67953,37.222,-101.855
+67954,37.178,-101.619
+68001,41.334,-96.955
+68002,41.499,-96.338
+68003,41.07,-96.381
+68004,42.01,-96.623
+68005,41.141,-95.894
+68007,41.373,-96.184
+68008,41.541,-96.17
+68010,41.257,-96.134
+68014,41.283,-96.963
+68015,41.387,-96.65
+68016,41.022,-96.102
+68017,41.058,-96.662
+68018,41.302,-96.615
+68019,41.781,-96.375
+68020,41.971,-96.264
+68022,41.277,-96.246
+68023,41.47,-96.022
+68025,41.438,-96.491
+68028,41.107,-96.262
+68029,41.657,-96.274
+68030,42.32,-96.462
+68031,41.64,-96.533
+68033,41.129,-96.525
+68034,41.452,-96.228
+68036,41.387,-96.952
+68037,40.984,-96.13
+68038,41.949,-96.435
+68039,42.114,-96.34
+68040,41.287,-96.74
+68041,41.241,-96.493
+68042,41.094,-96.436
+68044,41.548,-96.448
+68045,41.826,-96.492
+68046,41.122,-96.053
+68047,42.111,-96.733
+68048,40.984,-95.942
+68050,41.3,-96.842
+68055,42.054,-96.472
+68056,41.141,-95.904
+68057,41.662,-96.724
+68058,41.004,-96.244
+68059,41.064,-96.159
+68061,41.807,-96.219
+68062,42.199,-96.678
+68063,41.723,-96.497
+68064,41.345,-96.354
+68065,41.078,-96.846
+68066,41.185,-96.619
+68067,42.157,-96.488
+68068,41.398,-96.207
+68069,41.241,-96.316
+68070,41.197,-96.801
+68071,42.238,-96.475
+68072,41.61,-96.505
+68073,41.239,-96.416
+68102,41.262,-95.933
+68104,41.295,-96.002
+68105,41.241,-95.965
+68106,41.239,-96.002
+68107,41.209,-95.952
+68108,41.238,-95.931
+68110,41.302,-95.893
+68111,41.295,-95.965
+68112,41.384,-95.966
+68113,41.118,-95.907
+68114,41.263,-96.052
+68116,41.298,-96.166
+68117,41.207,-96.003
+68118,41.263,-96.178
+68122,41.363,-96.052
+68123,41.102,-95.948
+68124,41.235,-96.052
+68127,41.206,-96.054
+68128,41.178,-96.071
+68130,41.233,-96.198
+68131,41.264,-95.965
+68132,41.265,-96.003
+68133,41.112,-95.998
+68134,41.296,-96.051
+68135,41.206,-96.193
+68136,41.168,-96.185
+68137,41.205,-96.119
+68138,41.157,-96.131
+68142,41.369,-96.102
+68144,41.235,-96.118
+68147,41.177,-95.957
+68152,41.367,-95.997
+68154,41.266,-96.115
+68157,41.179,-95.994
+68164,41.297,-96.106
+68178,41.265,-95.945
+68182,41.258,-96.011
+68183,41.257,-95.94
+68301,40.47,-96.525
+68303,40.262,-97.415
+68304,40.893,-96.38
+68305,40.37,-95.865
+68307,40.792,-96.149
+68309,40.049,-96.573
+68310,40.25,-96.749
+68313,40.784,-97.271
+68314,41.016,-97.022
+68315,40.243,-97.537
+68316,41.013,-97.614
+68317,40.673,-96.505
+68318,40.165,-96.649
+68319,40.938,-97.76
+68320,40.48,-95.947
+68321,40.4,-95.697
+68322,40.33,-97.548
+68323,40.128,-96.373
+68324,40.554,-96.29
+68325,40.011,-97.755
+68326,40.284,-97.684
+68327,40.013,-97.622
+68328,40.474,-96.841
+68329,40.498,-96.169
+68330,40.707,-97.341
+68331,40.473,-96.715
+68332,40.328,-96.41
+68333,40.621,-96.95
+68335,40.297,-97.81
+68336,40.966,-96.691
+68337,40.098,-95.832
+68338,40.314,-97.246
+68339,40.732,-96.87
+68340,40.126,-97.739
+68341,40.387,-96.921
+68342,40.104,-96.947
+68343,40.618,-97.132
+68344,40.567,-96.4
+68345,40.036,-96.019
+68346,40.661,-96.049
+68347,40.806,-96.417
+68348,40.299,-96.116
+68349,40.832,-96.297
+68350,40.03,-97.095
+68351,40.651,-97.435
+68352,40.152,-97.226
+68354,40.639,-97.58
+68355,40.124,-95.568
+68357,40.313,-96.548
+68358,40.532,-96.609
+68359,40.631,-97.285
+68360,40.951,-96.956
+68361,40.501,-97.603
+68362,40.154,-97.421
+68364,40.837,-97.23
+68365,40.619,-97.735
+68366,40.982,-96.435
+68367,41.04,-97.397
+68368,40.554,-96.813
+68370,40.144,-97.556
+68371,40.764,-97.783
+68372,40.603,-96.6
+68375,40.037,-97.493
+68376,40.17,-95.938
+68377,40.217,-97.019
+68378,40.398,-96.021
+68379,40.529,-95.87
+68380,40.243,-96.406
+68381,40.077,-96.481
+68382,40.597,-96.024
+68401,40.751,-97.583
+68402,40.908,-96.857
+68403,40.921,-96.167
+68404,40.622,-96.755
+68405,40.762,-97.073
+68406,40.503,-97.382
+68407,40.923,-96.264
+68409,40.908,-95.954
+68410,40.636,-95.884
+68413,40.846,-96.026
+68414,40.318,-95.698
+68415,40.062,-96.821
+68416,40.41,-97.46
+68417,40.733,-96.094
+68418,40.694,-96.379
+68419,40.603,-96.511
+68420,40.079,-96.189
+68421,40.494,-95.744
+68422,40.389,-96.695
+68423,40.807,-96.957
+68424,40.299,-97.016
+68428,40.966,-96.805
+68429,40.062,-97.373
+68430,40.68,-96.668
+68431,40.068,-95.438
+68433,40.053,-95.738
+68434,40.91,-97.117
+68436,40.434,-97.744
+68437,40.253,-95.638
+68438,40.627,-96.745
+68439,40.996,-97.207
+68440,40.054,-97.013
+68441,40.225,-96.25
+68442,40.239,-95.773
+68443,40.455,-96.361
+68444,40.411,-97.585
+68445,40.401,-97.087
+68446,40.647,-96.167
+68447,40.195,-96.073
+68448,40.545,-96.038
+68450,40.355,-96.226
+68452,40.402,-97.853
+68453,40.402,-97.34
+68454,40.687,-96.287
+68455,40.82,-95.897
+68456,40.909,-97.302
+68457,40.158,-95.712
+68458,40.226,-96.492
+68460,40.896,-97.428
+68461,40.762,-96.511
+68462,40.952,-96.52
+68463,40.876,-96.129
+68464,40.413,-97.19
+68465,40.493,-97.021
+68466,40.067,-96.643
+68467,40.865,-97.598
+68502,40.784,-96.7
+68503,40.824,-96.674
+68504,40.854,-96.66
+68505,40.824,-96.616
+68506,40.784,-96.64
+68507,40.859,-96.612
+68508,40.818,-96.706
+68510,40.807,-96.648
+68512,40.737,-96.706
+68514,40.934,-96.651
+68516,40.735,-96.643
+68517,40.932,-96.603
+68520,40.806,-96.573
+68521,40.862,-96.715
+68522,40.791,-96.762
+68523,40.731,-96.755
+68524,40.907,-96.787
+68526,40.73,-96.582
+68527,40.845,-96.511
+68528,40.825,-96.825
+68531,40.908,-96.71
+68532,40.795,-96.843
+68588,40.825,-96.696
+68601,41.454,-97.399
+68620,41.717,-98.051
+68621,41.492,-96.639
+68622,41.923,-98.521
+68623,41.436,-98.102
+68624,41.346,-97.229
+68626,41.169,-96.992
+68627,41.548,-98.166
+68628,41.216,-97.844
+68629,41.707,-97.131
+68631,41.69,-97.356
+68632,41.243,-97.134
+68633,41.706,-96.896
+68634,41.391,-97.507
+68635,41.085,-97.023
+68636,42.009,-98.153
+68637,41.815,-98.644
+68638,41.378,-98.007
+68640,41.459,-97.766
+68641,41.736,-97.015
+68642,41.689,-97.514
+68643,41.706,-97.263
+68644,41.704,-97.67
+68647,41.519,-97.628
+68648,41.401,-96.78
+68649,41.505,-96.785
+68651,41.228,-97.57
+68652,41.861,-98.09
+68653,41.563,-97.496
+68654,41.067,-97.779
+68655,41.648,-98.261
+68658,41.2,-97.293
+68659,41.546,-96.935
+68660,41.574,-97.868
+68661,41.493,-97.089
+68662,41.211,-97.418
+68663,41.311,-97.701
+68664,41.705,-96.787
+68665,41.714,-98.419
+68666,41.111,-97.611
+68667,41.115,-97.307
+68669,41.079,-97.237
+68701,42.02,-97.443
+68710,42.448,-96.849
+68711,42.195,-99.039
+68713,42.54,-98.973
+68714,42.369,-99.503
+68715,41.971,-97.606
+68716,41.927,-96.823
+68717,42.383,-97.222
+68718,42.67,-97.692
+68719,42.969,-98.56
+68720,42.345,-98.015
+68722,42.93,-98.869
+68723,42.286,-97.219
+68724,42.628,-97.885
+68725,42.197,-98.778
+68726,42.185,-98.21
+68727,42.515,-97.202
+68728,42.387,-96.93
+68729,42.477,-97.907
+68730,42.767,-97.535
+68731,42.408,-96.492
+68732,42.489,-96.972
+68733,42.283,-96.722
+68734,42.429,-98.798
+68735,42.147,-98.447
+68736,42.745,-97.371
+68739,42.628,-97.262
+68740,42.147,-97.302
+68741,42.365,-96.595
+68742,42.35,-98.5
+68743,42.472,-96.625
+68745,42.456,-97.084
+68746,42.81,-98.437
+68747,42.391,-97.496
+68748,41.837,-97.475
+68749,42.46,-97.475
+68751,42.69,-96.981
+68752,42.02,-97.712
+68753,42.854,-99.485
+68755,42.927,-99.13
+68756,42.184,-97.98
+68757,42.653,-96.928
+68758,41.778,-97.783
+68759,42.752,-99.346
+68760,42.709,-97.875
+68761,42.022,-97.956
+68763,42.516,-98.589
+68764,42.405,-98.232
+68765,42.342,-97.614
+68766,42.428,-98.409
+68767,42.197,-97.537
+68768,42,-97.07
+68769,42.309,-97.825
+68770,42.562,-96.765
+68771,42.396,-97.36
+68773,42.362,-98.119
+68774,42.812,-97.275
+68776,42.457,-96.451
+68777,42.861,-98.688
+68778,42.88,-99.807
+68779,41.953,-97.209
+68780,42.633,-99.128
+68781,42.028,-97.84
+68783,42.636,-98.139
+68784,42.257,-96.891
+68785,42.428,-96.722
+68786,42.502,-97.557
+68787,42.214,-97.031
+68788,41.835,-96.725
+68789,42.535,-97.984
+68790,42.168,-97.186
+68791,41.998,-96.94
+68792,42.728,-97.1
+68801,40.95,-98.297
+68803,40.956,-98.415
+68810,40.863,-98.467
+68812,40.909,-99.28
+68813,41.699,-99.857
+68814,41.309,-99.41
+68815,41.429,-99.156
+68816,41.175,-98.134
+68817,41.267,-98.794
+68818,40.822,-98.006
+68820,41.113,-98.701
+68821,42.007,-99.763
+68822,41.388,-99.631
+68823,41.957,-99.156
+68824,41.007,-98.618
+68825,41.264,-99.968
+68826,41.164,-98.016
+68827,41.043,-98.181
+68828,41.558,-99.249
+68831,41.107,-98.544
+68832,40.77,-98.367
+68833,41.786,-100.077
+68834,41.015,-99.658
+68835,41.332,-98.617
+68836,40.705,-99.377
+68837,41.67,-99.073
+68838,41.212,-98.662
+68840,40.76,-98.878
+68841,40.762,-98.158
+68842,41.581,-98.534
+68843,40.906,-97.879
+68844,41.054,-99.063
+68845,40.718,-99.171
+68846,41.063,-97.884
+68847,40.739,-99.021
+68849,40.701,-99.101
+68850,40.826,-99.74
+68852,41.168,-99.144
+68853,41.288,-98.981
+68854,41.01,-98.002
+68855,41.169,-99.325
+68856,41.503,-99.818
+68858,40.966,-99.378
+68859,41.459,-98.822
+68860,41.134,-99.796
+68861,40.699,-99.264
+68862,41.604,-98.938
+68863,40.766,-99.532
+68864,41.255,-98.238
+68865,40.897,-98.179
+68866,40.969,-99.129
+68869,40.996,-98.884
+68870,40.845,-99.158
+68871,41.141,-98.853
+68872,41.093,-98.332
+68873,41.24,-98.454
+68874,41.634,-99.429
+68875,41.523,-98.685
+68876,40.825,-98.75
+68878,40.981,-99.507
+68879,41.903,-99.51
+68881,41.435,-99.36
+68882,41.436,-98.391
+68883,40.821,-98.578
+68901,40.591,-98.366
+68920,40.155,-99.34
+68922,40.336,-99.9
+68923,40.368,-99.473
+68924,40.496,-99.125
+68925,40.429,-98.43
+68926,40.106,-99.84
+68927,40.5,-99.634
+68928,40.284,-98.607
+68929,40.154,-99.094
+68930,40.285,-98.416
+68932,40.304,-98.74
+68933,40.518,-98.041
+68934,40.342,-98.151
+68935,40.378,-97.962
+68936,40.315,-99.775
+68937,40.569,-99.859
+68938,40.416,-98.117
+68939,40.11,-98.962
+68940,40.538,-99.252
+68941,40.469,-98.268
+68942,40.097,-98.321
+68943,40.031,-97.887
+68944,40.638,-98.094
+68945,40.561,-98.773
+68946,40.107,-99.99
+68947,40.301,-99.052
+68948,40.342,-100.028
+68949,40.433,-99.393
+68950,40.456,-98.664
+68952,40.082,-98.679
+68954,40.615,-98.234
+68955,40.592,-98.54
+68956,40.632,-98.688
+68957,40.274,-98.246
+68958,40.53,-99.507
+68959,40.486,-98.923
+68960,40.084,-99.139
+68961,40.209,-98.044
+68964,40.235,-97.903
+68966,40.16,-99.467
+68967,40.254,-99.632
+68970,40.108,-98.53
+68971,40.124,-99.25
+68972,40.102,-98.803
+68973,40.445,-98.563
+68974,40.126,-97.868
+68975,40.619,-97.949
+68976,40.602,-99.709
+68977,40.067,-99.631
+68978,40.067,-98.097
+68979,40.598,-97.854
+68980,40.677,-98.251
+68981,40.286,-98.892
+68982,40.331,-99.195
+69001,40.251,-100.661
+69020,40.154,-100.262
+69021,40.142,-101.54
+69022,40.342,-100.187
+69023,40.482,-101.899
+69024,40.241,-100.864
+69025,40.621,-100.509
+69026,40.025,-100.411
+69027,40.503,-101.524
+69028,40.636,-100.054
+69029,40.678,-100.243
+69030,40.183,-101.916
+69032,40.579,-101.063
+69033,40.552,-101.694
+69034,40.251,-100.434
+69036,40.028,-100.298
+69037,40.185,-101.406
+69038,40.611,-100.739
+69039,40.706,-100.388
+69040,40.355,-101.12
+69041,40.177,-101.72
+69042,40.475,-100.379
+69043,40.129,-101.255
+69044,40.13,-101.016
+69045,40.465,-101.369
+69046,40.068,-100.104
+69101,41.15,-100.805
+69120,41.432,-100.242
+69121,41.544,-101.774
+69122,41.1,-102.087
+69123,41.044,-100.371
+69125,41.593,-102.856
+69127,41.106,-101.919
+69128,41.23,-103.908
+69129,41.135,-102.38
+69130,40.897,-99.962
+69131,41.417,-102.997
+69132,40.815,-101.007
+69133,41.22,-103.472
+69134,40.807,-101.369
+69135,42.145,-100.266
+69138,40.996,-100.177
+69140,40.84,-101.773
+69141,41.304,-102.936
+69142,41.914,-100.305
+69143,41.193,-101.019
+69144,41.342,-101.621
+69145,41.252,-103.683
+69146,41.348,-101.869
+69147,41.574,-102.095
+69148,41.689,-102.611
+69149,41.222,-102.677
+69150,40.822,-101.541
+69151,41.09,-100.495
+69152,42.065,-101.15
+69153,41.076,-101.67
+69154,41.461,-102.353
+69155,41.188,-101.389
+69156,41.277,-103.346
+69157,41.967,-100.158
+69161,42.157,-100.781
+69162,41.129,-103.016
+69163,41.57,-100.542
+69165,41.153,-101.171
+69166,42.031,-100.618
+69167,41.596,-101.006
+69168,40.748,-101.981
+69169,40.821,-101.18
+69170,40.796,-100.744
+69171,40.891,-100.068
+69201,42.692,-100.615
+69210,42.39,-99.857
+69211,42.836,-101.316
+69212,42.98,-100.803
+69214,42.448,-100.1
+69216,42.952,-101.008
+69217,42.266,-99.716
+69218,42.775,-101.613
+69219,42.714,-101.025
+69220,42.919,-100.169
+69221,42.642,-100.31
+69301,42.127,-102.89
+69331,41.898,-102.991
+69333,42.051,-101.967
+69334,41.822,-103.29
+69335,42.021,-102.143
+69336,41.629,-103.167
+69337,42.876,-102.983
+69339,42.583,-103.443
+69340,42.15,-102.197
+69341,41.739,-103.679
+69343,42.666,-101.911
+69345,41.594,-103.71
+69346,42.625,-103.793
+69347,42.595,-102.684
+69348,42.331,-103.208
+69350,41.961,-101.765
+69351,42.115,-102.413
+69352,41.804,-103.974
+69353,41.747,-103.419
+69354,42.381,-103.382
+69355,41.782,-103.517
+69356,41.891,-103.451
+69357,42.111,-103.768
+69358,42.077,-103.98
+69360,42.739,-102.487
+69361,42.102,-103.566
+69365,42.947,-102.461
+69366,42.068,-101.581
+69367,42.814,-103.317
+70001,29.983,-90.169
+70002,30.01,-90.163
+70003,30.001,-90.21
+70005,29.999,-90.134
+70006,30.014,-90.191
+70030,29.819,-90.44
+70031,29.943,-90.296
+70032,29.95,-89.996
+70036,29.685,-90.132
+70037,29.716,-90.035
+70038,29.331,-89.401
+70039,29.877,-90.377
+70040,29.74,-89.923
+70041,29.334,-89.468
+70043,29.956,-89.964
+70047,29.972,-90.354
+70049,30.03,-90.562
+70050,29.383,-89.596
+70051,30.074,-90.643
+70052,30.07,-90.687
+70053,29.917,-90.052
+70056,29.887,-90.027
+70057,29.962,-90.464
+70058,29.869,-90.065
+70062,29.992,-90.258
+70065,30.027,-90.253
+70067,29.711,-90.097
+70068,30.156,-90.437
+70070,29.83,-90.311
+70071,30.052,-90.703
+70072,29.809,-90.138
+70075,29.927,-89.919
+70076,30.054,-90.65
+70079,30.002,-90.412
+70080,29.871,-90.422
+70082,29.572,-89.753
+70083,29.512,-89.844
+70084,30.073,-90.573
+70085,29.818,-89.759
+70086,30.036,-90.865
+70087,29.994,-90.321
+70090,29.969,-90.701
+70091,29.167,-89.216
+70092,29.899,-89.896
+70094,29.916,-90.208
+70112,29.956,-90.077
+70113,29.942,-90.084
+70114,29.937,-90.032
+70115,29.924,-90.102
+70116,29.967,-90.065
+70117,29.968,-90.03
+70118,29.945,-90.126
+70119,29.976,-90.088
+70121,29.962,-90.159
+70122,30.009,-90.065
+70123,29.95,-90.206
+70124,30.007,-90.104
+70125,29.952,-90.103
+70126,30.019,-90.018
+70127,30.028,-89.974
+70128,30.045,-89.951
+70129,30.081,-89.813
+70130,29.936,-90.07
+70131,29.906,-89.958
+70139,29.95,-90.071
+70148,30.027,-90.068
+70163,29.95,-90.075
+70301,29.808,-90.75
+70310,29.791,-90.803
+70339,29.905,-91.185
+70340,29.67,-91.104
+70341,30.026,-91.083
+70342,29.693,-91.238
+70343,29.548,-90.557
+70344,29.401,-90.633
+70345,29.502,-90.238
+70346,30.106,-91.018
+70352,29.684,-90.94
+70353,29.358,-90.7
+70354,29.43,-90.343
+70355,29.687,-90.435
+70356,29.632,-90.971
+70357,29.258,-90.192
+70358,29.215,-90.028
+70359,29.69,-90.778
+70360,29.579,-90.805
+70363,29.507,-90.701
+70364,29.636,-90.68
+70372,29.782,-90.989
+70373,29.598,-90.311
+70374,29.605,-90.502
+70375,29.696,-90.532
+70377,29.459,-90.532
+70380,29.752,-91.104
+70390,29.89,-91.032
+70391,29.995,-91.06
+70392,29.699,-91.318
+70393,29.996,-90.999
+70394,29.693,-90.616
+70395,29.697,-90.862
+70397,29.388,-90.831
+70401,30.534,-90.455
+70402,30.517,-90.469
+70403,30.486,-90.488
+70420,30.499,-89.944
+70422,30.736,-90.492
+70426,30.926,-89.859
+70427,30.744,-89.912
+70431,30.617,-89.967
+70433,30.463,-90.141
+70435,30.557,-90.107
+70436,30.835,-90.533
+70437,30.619,-90.209
+70438,30.844,-90.101
+70441,30.86,-90.749
+70442,30.703,-90.333
+70443,30.631,-90.543
+70444,30.897,-90.489
+70445,30.372,-89.892
+70446,30.635,-90.358
+70447,30.423,-90.206
+70448,30.362,-90.039
+70449,30.274,-90.67
+70450,30.943,-90.262
+70451,30.55,-90.481
+70452,30.417,-89.755
+70453,30.686,-90.782
+70454,30.363,-90.359
+70455,30.53,-90.324
+70456,30.787,-90.505
+70457,30.527,-90.113
+70458,30.262,-89.794
+70460,30.3,-89.836
+70461,30.234,-89.71
+70462,30.376,-90.581
+70463,30.658,-89.904
+70464,30.541,-89.891
+70465,30.876,-90.514
+70466,30.569,-90.501
+70471,30.404,-90.061
+70501,30.239,-91.991
+70503,30.171,-92.055
+70506,30.196,-92.081
+70507,30.278,-92.028
+70508,30.155,-92.028
+70510,29.895,-92.193
+70512,30.416,-91.92
+70513,29.9,-91.903
+70514,29.845,-91.558
+70515,30.452,-92.578
+70516,30.371,-92.304
+70517,30.291,-91.786
+70518,30.135,-91.927
+70519,30.082,-91.907
+70520,30.33,-92.033
+70522,29.748,-91.436
+70523,29.872,-91.53
+70524,30.557,-92.319
+70525,30.408,-92.217
+70526,30.211,-92.379
+70528,29.884,-91.96
+70529,30.202,-92.162
+70531,30.231,-92.501
+70532,30.471,-92.697
+70533,29.901,-92.031
+70534,30.166,-92.455
+70535,30.471,-92.42
+70537,30.252,-92.57
+70538,29.807,-91.488
+70541,30.421,-92.043
+70542,30.01,-92.585
+70543,30.335,-92.501
+70544,29.905,-91.656
+70546,30.266,-92.674
+70548,29.791,-92.421
+70549,30.047,-92.833
+70550,30.516,-92.19
+70551,30.462,-91.983
+70552,30.042,-91.66
+70554,30.629,-92.491
+70555,30.087,-92.143
+70556,30.191,-92.584
+70558,30.101,-92.076
+70559,30.139,-92.508
+70560,29.937,-91.865
+70563,30.029,-91.732
+70570,30.532,-92.107
+70575,29.949,-92.158
+70576,30.781,-92.418
+70577,30.55,-91.919
+70578,30.23,-92.264
+70580,30.675,-92.428
+70581,30.258,-92.737
+70582,30.164,-91.775
+70583,30.261,-92.124
+70584,30.388,-92.113
+70585,30.878,-92.408
+70586,30.727,-92.356
+70589,30.685,-92.044
+70591,30.258,-92.833
+70592,30.077,-92.018
+70601,30.227,-93.215
+70605,30.129,-93.274
+70607,30.038,-93.19
+70609,30.179,-93.215
+70611,30.348,-93.204
+70615,30.254,-93.118
+70629,30.231,-93.219
+70630,30.031,-93.059
+70631,29.853,-93.568
+70632,29.883,-92.877
+70633,30.426,-93.391
+70634,30.8,-93.243
+70637,30.708,-92.974
+70638,30.843,-92.772
+70639,30.983,-93.498
+70640,30.366,-92.917
+70643,29.737,-92.779
+70644,30.792,-92.946
+70645,29.928,-93.474
+70646,30.105,-92.933
+70647,30.247,-93.015
+70648,30.505,-92.889
+70650,30.234,-92.921
+70651,30.572,-92.961
+70652,30.614,-93.247
+70653,30.668,-93.559
+70654,30.692,-92.874
+70655,30.625,-92.717
+70656,30.914,-92.927
+70657,30.5,-93.14
+70658,30.522,-93.036
+70659,30.922,-93.284
+70660,30.573,-93.461
+70661,30.354,-93.654
+70662,30.798,-93.006
+70663,30.278,-93.406
+70665,30.122,-93.451
+70668,30.175,-93.606
+70669,30.242,-93.272
+70706,30.607,-90.907
+70710,30.358,-91.269
+70711,30.525,-90.592
+70712,30.97,-91.597
+70714,30.587,-91.128
+70715,30.815,-91.657
+70719,30.363,-91.3
+70721,30.223,-91.08
+70722,30.855,-90.946
+70723,30.06,-90.84
+70725,30.133,-90.976
+70726,30.433,-90.902
+70729,30.588,-91.345
+70730,30.81,-91.095
+70732,30.636,-91.585
+70733,30.29,-90.8
+70734,30.207,-90.997
+70736,30.634,-91.338
+70737,30.226,-90.925
+70739,30.601,-90.965
+70740,30.31,-91.44
+70743,30.026,-90.77
+70744,30.559,-90.667
+70747,30.874,-91.672
+70748,30.815,-91.206
+70749,30.63,-91.451
+70750,30.464,-91.788
+70752,30.596,-91.417
+70753,30.639,-91.684
+70754,30.407,-90.75
+70755,30.595,-91.53
+70756,30.524,-91.65
+70757,30.369,-91.531
+70759,30.712,-91.586
+70760,30.7,-91.483
+70761,30.975,-91.038
+70762,30.578,-91.465
+70763,30.049,-90.737
+70764,30.235,-91.308
+70767,30.481,-91.331
+70769,30.307,-90.941
+70770,30.651,-90.993
+70772,30.437,-91.465
+70773,30.597,-91.373
+70774,30.215,-90.762
+70775,30.858,-91.369
+70776,30.26,-91.091
+70777,30.74,-91.077
+70778,30.162,-90.818
+70780,30.299,-91.185
+70782,30.952,-91.512
+70783,30.669,-91.417
+70785,30.557,-90.819
+70786,30.582,-90.954
+70787,30.962,-91.441
+70788,30.132,-91.184
+70789,30.941,-91.083
+70791,30.65,-91.158
+70801,30.45,-91.186
+70802,30.445,-91.175
+70803,30.41,-91.174
+70805,30.489,-91.158
+70806,30.449,-91.125
+70807,30.556,-91.208
+70808,30.404,-91.139
+70809,30.394,-91.071
+70810,30.345,-91.094
+70811,30.538,-91.135
+70812,30.5,-91.11
+70813,30.528,-91.198
+70814,30.485,-91.062
+70815,30.455,-91.066
+70816,30.427,-91.028
+70817,30.375,-90.98
+70818,30.542,-91.05
+70819,30.472,-91.008
+70820,30.365,-91.203
+70825,30.452,-91.188
+70836,30.388,-91.084
+71001,32.592,-92.911
+71002,32.12,-93.113
+71003,32.63,-93.031
+71004,32.741,-93.86
+71006,32.729,-93.656
+71007,32.363,-94.007
+71008,32.347,-92.969
+71009,32.578,-93.892
+71016,32.224,-93.116
+71018,32.821,-93.433
+71019,32.038,-93.307
+71021,32.968,-93.447
+71023,32.465,-93.405
+71024,32.489,-93.22
+71027,32.247,-93.687
+71028,32.486,-93.076
+71029,32.836,-93.834
+71030,32.184,-93.794
+71031,32.008,-92.897
+71032,32.095,-93.795
+71033,32.44,-94.004
+71034,32.184,-93.304
+71037,32.475,-93.488
+71038,32.943,-93.073
+71039,32.43,-93.29
+71040,32.784,-92.998
+71043,32.886,-93.888
+71044,32.954,-93.882
+71045,32.336,-93.163
+71046,32.172,-93.935
+71047,32.302,-93.905
+71048,32.836,-92.851
+71049,32.014,-93.971
+71051,32.319,-93.478
+71052,32.015,-93.656
+71055,32.677,-93.293
+71060,32.641,-93.989
+71061,32.754,-93.976
+71063,31.912,-93.515
+71064,32.911,-93.688
+71065,31.803,-93.503
+71066,31.875,-93.198
+71067,32.611,-93.464
+71068,32.277,-93.303
+71069,32.971,-93.988
+71070,32.085,-92.988
+71071,32.918,-93.45
+71072,32.938,-93.312
+71073,32.514,-93.311
+71075,32.991,-93.48
+71078,32.278,-93.798
+71079,32.957,-92.808
+71082,32.842,-93.978
+71101,32.505,-93.749
+71103,32.492,-93.772
+71104,32.484,-93.732
+71105,32.455,-93.71
+71106,32.386,-93.737
+71107,32.589,-93.862
+71108,32.443,-93.788
+71109,32.468,-93.814
+71110,32.5,-93.631
+71111,32.572,-93.696
+71112,32.449,-93.645
+71115,32.264,-93.563
+71118,32.394,-93.804
+71119,32.491,-93.925
+71129,32.393,-93.927
+71201,32.54,-92.107
+71202,32.4,-92.057
+71203,32.582,-92.019
+71209,32.531,-92.071
+71212,32.526,-92.074
+71218,32.351,-91.787
+71219,32.326,-91.693
+71220,32.865,-91.909
+71222,32.829,-92.66
+71223,32.891,-91.679
+71225,32.507,-92.35
+71226,32.251,-92.438
+71227,32.53,-92.474
+71229,32.632,-91.897
+71230,32.24,-91.593
+71232,32.414,-91.497
+71233,32.325,-90.932
+71234,32.645,-92.331
+71235,32.69,-92.674
+71237,32.588,-91.481
+71238,32.363,-92.375
+71241,32.779,-92.352
+71242,32.792,-91.413
+71243,31.952,-91.816
+71245,32.527,-92.716
+71247,32.271,-92.72
+71250,32.958,-91.573
+71251,32.221,-92.677
+71253,32.996,-91.316
+71254,32.808,-91.235
+71256,32.948,-92.709
+71259,32.259,-91.849
+71260,32.908,-92.235
+71261,32.778,-91.694
+71263,32.872,-91.426
+71264,32.601,-91.773
+71266,32.711,-91.477
+71268,32.346,-92.737
+71269,32.441,-91.794
+71270,32.49,-92.644
+71272,32.529,-92.652
+71275,32.512,-92.817
+71276,32.582,-91.16
+71277,32.943,-92.551
+71279,32.487,-91.857
+71280,32.718,-92.101
+71282,32.347,-91.232
+71286,32.647,-91.233
+71291,32.565,-92.173
+71292,32.397,-92.215
+71295,32.145,-91.709
+71301,31.274,-92.467
+71302,31.197,-92.37
+71303,31.281,-92.547
+71316,31.289,-91.755
+71320,31.114,-91.776
+71322,30.871,-92.176
+71323,31.267,-92.21
+71325,31.017,-92.336
+71326,31.772,-91.586
+71327,30.977,-92.035
+71328,31.358,-92.189
+71330,31.11,-92.241
+71331,31.252,-92.066
+71333,30.91,-92.072
+71334,31.669,-91.582
+71336,32.027,-91.592
+71339,31.006,-91.936
+71340,31.76,-91.808
+71341,31.056,-92.164
+71342,31.594,-92.138
+71343,31.521,-91.899
+71345,30.728,-91.975
+71346,31.118,-92.375
+71350,31.067,-92.06
+71351,31.184,-91.961
+71353,30.613,-91.767
+71354,31.404,-91.75
+71355,31.058,-91.841
+71356,30.835,-92.028
+71357,32.119,-91.299
+71358,30.717,-91.848
+71359,31.325,-92.426
+71360,31.324,-92.354
+71362,30.899,-91.961
+71366,31.95,-91.352
+71367,30.876,-92.288
+71368,31.88,-91.682
+71369,30.937,-91.854
+71371,31.674,-92.25
+71373,31.376,-91.585
+71375,31.842,-91.468
+71378,31.942,-91.709
+71401,31.795,-91.945
+71403,31.21,-93.445
+71404,31.752,-92.746
+71405,31.41,-92.402
+71406,31.734,-93.505
+71407,31.517,-92.486
+71409,31.311,-92.689
+71410,31.964,-92.771
+71411,31.905,-93.091
+71414,31.826,-93.025
+71415,32.025,-92.142
+71416,31.54,-92.897
+71417,31.508,-92.65
+71418,32.137,-92.048
+71419,31.798,-93.729
+71422,32.077,-92.658
+71423,31.603,-92.553
+71424,31.18,-92.697
+71425,31.885,-91.871
+71426,31.492,-93.462
+71427,31.385,-92.891
+71428,31.609,-93.089
+71429,31.4,-93.426
+71430,31.068,-92.528
+71432,31.75,-92.468
+71433,31.001,-92.639
+71434,31.442,-92.943
+71435,32.026,-92.152
+71438,31.102,-92.88
+71439,31.34,-93.368
+71441,31.952,-92.153
+71446,31.157,-93.174
+71447,31.412,-92.811
+71449,31.522,-93.54
+71450,31.779,-93.399
+71452,31.583,-92.945
+71454,31.691,-92.858
+71455,31.403,-92.99
+71456,31.619,-92.961
+71457,31.739,-93.091
+71459,31.077,-93.22
+71461,31.121,-93.298
+71462,31.669,-93.736
+71463,30.809,-92.647
+71465,31.872,-92.204
+71466,31.216,-92.749
+71467,31.563,-92.387
+71468,31.476,-93.138
+71469,31.694,-93.271
+71472,31.169,-92.787
+71473,32.069,-92.43
+71474,31.277,-93.014
+71475,31.201,-93.125
+71479,31.858,-92.353
+71480,31.87,-92.279
+71483,31.892,-92.658
+71485,31.174,-92.52
+71486,31.628,-93.659
+71497,31.749,-93.098
+71601,34.179,-91.892
+71602,34.275,-92.132
+71603,34.121,-92.088
+71630,33.612,-91.234
+71631,33.582,-92.264
+71635,33.132,-92.004
+71638,33.521,-91.485
+71639,33.887,-91.537
+71640,33.121,-91.247
+71642,33.389,-91.876
+71643,34.017,-91.576
+71644,34.1,-91.715
+71646,33.207,-91.776
+71647,33.364,-92.114
+71651,33.327,-92.296
+71652,33.893,-92.323
+71653,33.372,-91.284
+71654,33.621,-91.371
+71655,33.628,-91.731
+71658,33.325,-91.573
+71659,34.135,-91.781
+71660,33.761,-92.198
+71661,33.146,-91.512
+71662,33.812,-91.512
+71663,33.226,-91.429
+71665,33.933,-92.135
+71666,33.745,-91.261
+71667,33.936,-91.844
+71670,33.745,-91.401
+71671,33.602,-92.096
+71674,33.826,-91.181
+71675,33.606,-91.942
+71676,33.052,-91.555
+71677,33.762,-91.491
+71678,34.025,-91.827
+71701,33.579,-92.817
+71720,33.775,-92.638
+71721,33.891,-93.206
+71722,33.722,-93.175
+71724,33.335,-92.535
+71725,34.04,-92.535
+71726,33.682,-92.991
+71728,34.009,-93.105
+71730,33.201,-92.634
+71740,33.077,-93.167
+71742,33.828,-92.453
+71743,33.889,-93.098
+71744,33.497,-92.48
+71745,33.5,-92.395
+71747,33.053,-92.226
+71748,33.903,-92.433
+71749,33.072,-92.819
+71751,33.407,-92.771
+71752,33.391,-93.192
+71753,33.226,-93.185
+71758,33.309,-92.915
+71759,33.315,-92.66
+71762,33.343,-92.768
+71763,33.905,-92.804
+71764,33.432,-93.049
+71765,33.142,-92.332
+71766,33.734,-92.496
+71770,33.391,-93.31
+71772,33.834,-93.126
+71801,33.623,-93.612
+71820,33.786,-94.242
+71822,33.67,-94.148
+71823,33.829,-94.123
+71825,33.878,-93.556
+71826,33.093,-93.723
+71827,33.39,-93.41
+71831,33.772,-93.851
+71832,34.041,-94.357
+71833,34.135,-94.023
+71834,33.115,-93.958
+71835,33.675,-93.451
+71836,33.713,-94.394
+71837,33.255,-93.845
+71838,33.654,-93.793
+71839,33.292,-93.743
+71841,34.162,-94.34
+71842,33.893,-94.293
+71845,33.316,-93.644
+71846,33.924,-94.124
+71847,33.922,-93.63
+71851,33.857,-93.943
+71852,33.986,-93.853
+71853,33.594,-93.938
+71854,33.445,-93.895
+71855,33.863,-93.74
+71857,33.801,-93.338
+71858,33.585,-93.264
+71859,33.722,-93.923
+71860,33.309,-93.492
+71861,33.101,-93.5
+71862,33.78,-93.728
+71864,33.508,-93.29
+71865,33.742,-94.146
+71866,33.868,-94.38
+71901,34.526,-92.974
+71909,34.642,-92.99
+71913,34.446,-93.097
+71921,34.251,-93.405
+71922,34.023,-93.413
+71923,34.089,-93.056
+71929,34.304,-93.16
+71933,34.414,-93.356
+71935,34.395,-93.751
+71937,34.399,-94.382
+71940,34.013,-93.503
+71941,34.249,-92.955
+71942,34.221,-92.994
+71943,34.332,-93.586
+71944,34.24,-94.322
+71945,34.5,-94.385
+71949,34.687,-93.213
+71950,34.256,-93.718
+71952,34.277,-93.821
+71953,34.616,-94.211
+71956,34.61,-93.133
+71957,34.564,-93.596
+71958,34.112,-93.656
+71959,34.25,-93.929
+71960,34.473,-93.693
+71961,34.6,-93.838
+71962,34.049,-93.362
+71964,34.424,-93.241
+71965,34.655,-93.737
+71968,34.524,-93.29
+71969,34.669,-93.629
+71970,34.669,-93.489
+71971,34.304,-94.034
+71972,34.389,-94.242
+71973,34.285,-94.303
+71998,34.126,-93.053
+71999,34.127,-93.059
+72001,35.058,-92.886
+72002,34.666,-92.54
+72003,34.38,-91.405
+72004,34.394,-91.862
+72005,35.537,-91.07
+72006,35.244,-91.36
+72007,34.999,-91.979
+72010,35.313,-91.524
+72011,34.501,-92.466
+72012,35.099,-91.93
+72013,35.455,-92.368
+72014,35.43,-91.112
+72015,34.486,-92.585
+72016,34.983,-92.632
+72017,34.887,-91.388
+72019,34.634,-92.699
+72020,35.472,-91.469
+72021,34.856,-91.216
+72022,34.606,-92.494
+72023,34.964,-92.064
+72024,34.752,-91.744
+72025,35.052,-92.999
+72026,34.517,-91.318
+72027,35.37,-92.579
+72028,35.543,-92.431
+72029,34.71,-91.278
+72030,35.427,-92.676
+72031,35.604,-92.521
+72032,35.066,-92.363
+72034,35.054,-92.479
+72035,35.079,-92.458
+72036,35.011,-91.273
+72038,34.453,-91.238
+72039,35.356,-92.397
+72040,34.97,-91.533
+72041,34.734,-91.471
+72042,34.275,-91.323
+72044,35.693,-92.17
+72045,35.093,-92.077
+72046,34.559,-91.941
+72047,35.228,-92.211
+72048,34.225,-91.112
+72051,35.795,-92.315
+72052,35.142,-91.779
+72053,34.701,-92.228
+72055,34.099,-91.354
+72057,34.131,-92.326
+72058,35.246,-92.374
+72059,35.155,-91.342
+72060,35.077,-91.57
+72061,35.324,-92.29
+72063,35.318,-92.79
+72064,34.797,-91.618
+72065,34.535,-92.286
+72066,34.978,-91.717
+72067,35.562,-92.166
+72068,35.144,-91.721
+72069,34.532,-91.138
+72070,35.015,-92.701
+72072,34.517,-91.765
+72073,34.368,-91.654
+72074,35.066,-91.105
+72075,35.641,-91.311
+72076,34.912,-92.138
+72079,34.389,-92.194
+72080,35.427,-92.844
+72081,35.382,-91.67
+72082,35.239,-91.669
+72083,34.606,-92.012
+72084,34.137,-92.689
+72085,35.367,-91.828
+72086,34.807,-91.908
+72087,34.597,-92.826
+72088,35.602,-92.261
+72099,34.901,-92.154
+72101,35.228,-91.151
+72102,35.142,-91.829
+72103,34.591,-92.381
+72104,34.346,-92.815
+72106,34.974,-92.526
+72107,35.142,-92.536
+72108,34.728,-91.104
+72110,35.155,-92.772
+72111,35.239,-92.131
+72112,35.581,-91.23
+72113,34.86,-92.398
+72114,34.765,-92.26
+72116,34.8,-92.245
+72117,34.781,-92.14
+72118,34.84,-92.326
+72119,34.837,-92.295
+72120,34.902,-92.241
+72121,35.456,-91.785
+72122,34.77,-92.78
+72123,35.258,-91.237
+72125,35.066,-92.791
+72126,34.943,-92.909
+72127,35.173,-92.606
+72128,34.313,-92.635
+72129,34.312,-92.554
+72130,35.661,-92.056
+72131,35.404,-92.191
+72132,34.439,-92.188
+72133,34.096,-91.483
+72134,34.618,-91.351
+72135,34.88,-92.589
+72136,35.24,-92.03
+72137,35.336,-92.042
+72139,35.362,-91.51
+72140,34.381,-91.186
+72141,35.522,-92.695
+72142,34.674,-92.074
+72143,35.227,-91.737
+72150,34.31,-92.397
+72152,34.356,-91.979
+72153,35.656,-92.322
+72156,35.287,-92.683
+72157,35.274,-92.566
+72160,34.443,-91.53
+72165,35.577,-91.466
+72166,34.069,-91.222
+72167,34.425,-92.651
+72168,34.435,-91.966
+72169,35.395,-91.227
+72170,34.574,-91.422
+72173,35.1,-92.211
+72175,34.337,-91.757
+72176,34.993,-91.852
+72178,35.204,-91.613
+72179,35.498,-91.866
+72180,34.531,-92.214
+72181,35.162,-92.445
+72182,34.431,-92.092
+72183,34.602,-92.192
+72199,34.828,-92.29
+72201,34.747,-92.281
+72202,34.738,-92.247
+72204,34.718,-92.358
+72205,34.749,-92.351
+72206,34.633,-92.253
+72207,34.776,-92.343
+72209,34.683,-92.342
+72210,34.714,-92.508
+72211,34.746,-92.417
+72212,34.786,-92.415
+72223,34.791,-92.495
+72227,34.777,-92.373
+72301,35.134,-90.179
+72311,34.721,-90.897
+72313,35.531,-90.139
+72315,35.899,-89.899
+72320,34.811,-90.542
+72322,35.069,-90.808
+72324,35.39,-90.787
+72325,35.331,-90.254
+72326,35.116,-90.908
+72327,35.243,-90.334
+72328,34.013,-91.109
+72329,35.624,-89.972
+72330,35.591,-90.202
+72331,35.281,-90.466
+72332,35.101,-90.302
+72333,34.287,-90.881
+72335,34.994,-90.746
+72338,35.432,-90.142
+72339,35.416,-90.265
+72340,34.959,-91.039
+72341,34.878,-90.769
+72342,34.448,-90.675
+72346,35.082,-90.484
+72347,35.382,-90.993
+72348,34.942,-90.418
+72350,35.5,-90.129
+72351,35.676,-90.098
+72352,34.656,-90.734
+72353,34.323,-90.996
+72354,35.642,-90.313
+72355,34.465,-90.852
+72358,35.792,-89.892
+72359,35.019,-90.718
+72360,34.75,-90.781
+72364,35.214,-90.19
+72365,35.563,-90.42
+72366,34.526,-90.952
+72367,34.185,-91.015
+72368,34.81,-91.023
+72369,34.455,-90.79
+72370,35.673,-90.058
+72372,34.968,-90.951
+72373,35.286,-90.607
+72374,34.563,-90.838
+72376,35.088,-90.308
+72377,35.675,-90.34
+72379,34.069,-91.049
+72383,34.491,-91.04
+72384,35.376,-90.219
+72386,35.462,-90.369
+72387,35.316,-90.773
+72389,34.372,-90.884
+72390,34.551,-90.679
+72391,35.677,-90.27
+72392,34.966,-91.101
+72394,35.059,-90.609
+72395,35.592,-90.025
+72396,35.23,-90.832
+72401,35.831,-90.578
+72404,35.775,-90.785
+72405,35.903,-90.65
+72410,35.947,-91.098
+72411,35.745,-90.584
+72412,36.126,-90.692
+72413,36.304,-90.815
+72414,35.835,-90.37
+72415,36.127,-91.175
+72416,35.961,-90.783
+72417,35.916,-90.532
+72419,35.737,-90.353
+72421,35.779,-90.979
+72422,36.425,-90.519
+72424,36.392,-90.729
+72425,36.229,-90.745
+72426,35.856,-90.042
+72427,35.869,-90.949
+72428,35.741,-90.217
+72429,35.493,-90.942
+72430,36.336,-90.174
+72431,35.633,-91.079
+72432,35.553,-90.726
+72433,36.025,-91.038
+72434,36.218,-91.156
+72435,36.313,-90.553
+72436,36.24,-90.48
+72437,35.83,-90.456
+72438,35.942,-90.227
+72440,35.992,-91.265
+72441,36.436,-90.389
+72442,35.826,-90.187
+72443,36.18,-90.403
+72444,36.429,-90.853
+72445,35.978,-91.027
+72447,35.909,-90.328
+72449,36.167,-90.817
+72450,36.08,-90.516
+72453,36.306,-90.667
+72454,36.407,-90.203
+72455,36.321,-91.049
+72456,36.449,-90.325
+72457,36.085,-91.068
+72458,36.068,-91.156
+72459,36.271,-91.297
+72460,36.347,-91.154
+72461,36.266,-90.274
+72462,36.389,-90.759
+72464,36.453,-90.146
+72466,36.042,-91.33
+72467,35.842,-90.678
+72469,35.952,-91.289
+72470,36.475,-90.692
+72471,35.825,-91.121
+72472,35.594,-90.548
+72473,35.738,-91.171
+72476,36.046,-90.917
+72478,36.465,-91.054
+72479,35.632,-90.899
+72482,36.269,-91.359
+72501,35.791,-91.653
+72512,36.222,-91.751
+72513,36.231,-91.648
+72515,36.276,-92.056
+72517,36.146,-91.954
+72519,36.134,-92.18
+72520,36.398,-91.725
+72521,35.95,-91.541
+72522,35.805,-91.467
+72523,35.628,-91.845
+72524,35.84,-91.311
+72526,35.878,-91.766
+72527,35.74,-91.683
+72528,36.238,-92.115
+72529,36.289,-91.568
+72530,35.616,-91.967
+72531,36.314,-92.148
+72532,36.086,-91.589
+72533,35.978,-92.245
+72534,35.59,-91.737
+72536,36.144,-91.768
+72537,36.449,-92.234
+72538,36.446,-92.1
+72539,36.33,-91.723
+72540,35.919,-91.91
+72542,36.3,-91.466
+72543,35.46,-91.998
+72544,36.404,-92.19
+72546,35.577,-91.945
+72550,35.71,-91.784
+72553,35.701,-91.482
+72554,36.444,-91.555
+72555,35.769,-91.872
+72556,36.014,-91.97
+72560,35.841,-92.079
+72561,35.932,-91.813
+72562,35.731,-91.394
+72564,35.607,-91.447
+72565,36.219,-91.908
+72566,36.208,-92.065
+72567,35.817,-91.92
+72568,35.567,-91.621
+72569,36.081,-91.458
+72571,35.642,-91.551
+72572,35.898,-91.292
+72573,36.076,-91.797
+72576,36.349,-91.856
+72577,36.033,-91.712
+72578,36.474,-91.859
+72579,35.843,-91.445
+72581,35.547,-91.967
+72583,36.415,-91.994
+72584,36.148,-91.847
+72585,36.179,-92.015
+72587,36.22,-91.817
+72601,36.238,-93.086
+72611,36.247,-93.317
+72615,36.315,-93.012
+72616,36.348,-93.551
+72617,36.02,-92.387
+72619,36.374,-92.592
+72623,36.459,-92.293
+72624,36.082,-93.364
+72626,36.322,-92.552
+72628,35.84,-93.282
+72629,35.739,-92.567
+72630,36.461,-92.921
+72631,36.469,-93.728
+72632,36.373,-93.744
+72633,36.141,-92.871
+72634,36.233,-92.552
+72635,36.317,-92.484
+72636,35.991,-92.716
+72638,36.328,-93.402
+72639,36.022,-92.497
+72640,36.003,-93.059
+72641,35.997,-93.212
+72642,36.371,-92.544
+72644,36.415,-92.968
+72645,35.804,-92.575
+72648,36.088,-93.162
+72650,35.863,-92.691
+72651,36.388,-92.475
+72653,36.342,-92.385
+72655,35.91,-93.036
+72658,36.15,-92.321
+72660,36.479,-93.378
+72661,36.43,-92.597
+72662,36.426,-93.185
+72663,35.939,-92.333
+72666,35.949,-93.287
+72668,36.418,-92.772
+72669,36.065,-92.874
+72670,35.981,-93.371
+72672,36.288,-92.844
+72675,36,-92.8
+72677,36.264,-92.701
+72679,35.735,-92.801
+72680,35.881,-92.331
+72682,36.136,-92.732
+72683,35.932,-93.115
+72685,36.064,-92.986
+72686,35.599,-92.962
+72687,36.285,-92.654
+72701,35.992,-94.086
+72703,36.118,-94.044
+72704,36.106,-94.296
+72712,36.398,-94.222
+72713,36.298,-94.283
+72714,36.467,-94.222
+72715,36.467,-94.305
+72717,35.835,-94.408
+72718,36.265,-94.221
+72719,36.367,-94.295
+72721,35.781,-93.779
+72722,36.344,-94.47
+72727,35.913,-93.934
+72729,35.788,-94.473
+72730,36.03,-94.269
+72732,36.432,-93.959
+72734,36.27,-94.451
+72736,36.414,-94.465
+72738,36.162,-93.887
+72739,36.427,-94.329
+72740,36.105,-93.655
+72742,35.996,-93.515
+72744,35.963,-94.436
+72745,36.247,-94.103
+72747,36.37,-94.581
+72749,35.868,-94.438
+72751,36.463,-94.12
+72752,35.835,-93.557
+72753,35.934,-94.331
+72756,36.321,-93.99
+72758,36.299,-94.141
+72760,35.841,-93.702
+72761,36.165,-94.456
+72762,36.181,-94.225
+72764,36.176,-94.06
+72768,36.472,-94.49
+72769,36.036,-94.5
+72773,36.022,-93.836
+72774,35.931,-94.145
+72776,35.913,-93.667
+72801,35.281,-93.142
+72802,35.319,-93.082
+72821,35.458,-93.714
+72823,35.253,-92.895
+72824,35.126,-93.415
+72826,35.13,-93.71
+72827,34.872,-93.626
+72828,34.931,-93.535
+72829,35.104,-93.175
+72830,35.518,-93.51
+72832,35.428,-93.669
+72833,35.015,-93.501
+72834,35.171,-93.202
+72835,35.273,-93.348
+72837,35.525,-93.104
+72838,34.888,-93.68
+72839,35.63,-93.244
+72840,35.458,-93.615
+72841,34.865,-93.777
+72842,35.09,-93.585
+72843,35.579,-92.902
+72845,35.362,-93.378
+72846,35.484,-93.327
+72847,35.371,-93.267
+72851,35.255,-93.438
+72852,35.669,-93.554
+72853,35.013,-93.229
+72854,35.697,-93.429
+72855,35.245,-93.668
+72856,35.769,-93.057
+72857,34.862,-93.324
+72858,35.213,-93.044
+72860,34.966,-93.446
+72863,35.369,-93.511
+72865,35.306,-93.551
+72901,35.365,-94.415
+72903,35.355,-94.361
+72904,35.415,-94.383
+72905,35.263,-94.242
+72908,35.309,-94.407
+72916,35.272,-94.372
+72921,35.463,-94.192
+72923,35.309,-94.289
+72926,34.71,-94.025
+72927,35.08,-93.94
+72928,35.291,-93.931
+72930,35.435,-94.127
+72932,35.605,-94.377
+72933,35.329,-94.013
+72934,35.687,-94.284
+72935,35.494,-94.133
+72936,35.19,-94.218
+72937,35.135,-94.391
+72938,35.004,-94.378
+72940,35.122,-94.259
+72941,35.348,-94.165
+72943,35.18,-93.787
+72944,35.042,-94.238
+72945,35.099,-94.363
+72946,35.652,-94.136
+72947,35.553,-94.037
+72948,35.703,-94.393
+72949,35.563,-93.807
+72950,34.793,-93.903
+72951,35.3,-93.889
+72952,35.569,-94.301
+72955,35.615,-94.438
+72956,35.469,-94.348
+72958,34.906,-94.151
+72959,35.779,-94.062
+73001,35.226,-98.417
+73002,34.964,-97.741
+73003,35.669,-97.497
+73004,35.17,-97.797
+73005,35.051,-98.24
+73006,34.906,-98.4
+73007,35.685,-97.327
+73008,35.511,-97.643
+73009,35.286,-98.373
+73010,35.101,-97.673
+73011,34.848,-97.747
+73012,35.674,-97.592
+73013,35.617,-97.501
+73014,35.588,-98.145
+73015,35.071,-98.596
+73016,35.795,-97.689
+73017,34.925,-98.095
+73018,35.048,-97.939
+73019,35.206,-97.443
+73020,35.462,-97.263
+73021,35.324,-98.67
+73022,35.617,-97.992
+73024,35.371,-98.809
+73025,35.73,-97.57
+73026,35.24,-97.276
+73027,35.968,-97.243
+73028,35.978,-97.632
+73029,34.906,-98.208
+73030,34.473,-97.189
+73031,35.034,-97.631
+73032,34.4,-97.051
+73033,35.307,-98.555
+73034,35.703,-97.434
+73036,35.506,-97.959
+73038,35.125,-98.451
+73040,35.646,-98.375
+73041,35.028,-98.876
+73042,35.223,-98.247
+73043,35.734,-98.404
+73044,35.868,-97.434
+73045,35.512,-97.142
+73047,35.457,-98.315
+73048,35.497,-98.546
+73049,35.582,-97.289
+73050,35.938,-97.256
+73051,35.032,-97.246
+73052,34.833,-97.596
+73053,35.356,-98.412
+73054,35.675,-97.204
+73055,34.645,-97.923
+73056,36.169,-97.613
+73057,34.831,-97.429
+73058,35.82,-97.226
+73059,35.329,-98.051
+73061,36.351,-97.022
+73062,35.022,-98.735
+73063,36.061,-97.426
+73064,35.375,-97.754
+73065,35.255,-97.61
+73066,35.502,-97.328
+73067,34.911,-97.907
+73068,35.139,-97.282
+73069,35.253,-97.464
+73070,35.228,-97.427
+73071,35.237,-97.408
+73072,35.212,-97.501
+73073,36.162,-97.395
+73074,34.833,-97.274
+73075,34.749,-97.232
+73077,36.303,-97.268
+73078,35.675,-97.754
+73079,35.211,-98.012
+73080,35.016,-97.45
+73082,34.776,-97.902
+73084,35.526,-97.346
+73086,34.485,-96.972
+73089,35.269,-97.799
+73090,35.398,-97.962
+73092,35.131,-98.074
+73093,35.108,-97.506
+73095,34.908,-97.285
+73096,35.513,-98.722
+73097,35.399,-97.645
+73098,34.627,-97.165
+73099,35.518,-97.766
+73102,35.471,-97.519
+73103,35.489,-97.519
+73104,35.475,-97.504
+73105,35.52,-97.503
+73106,35.482,-97.537
+73107,35.482,-97.574
+73108,35.45,-97.568
+73109,35.433,-97.525
+73110,35.448,-97.395
+73111,35.519,-97.477
+73112,35.518,-97.573
+73114,35.578,-97.518
+73115,35.442,-97.442
+73116,35.547,-97.565
+73117,35.475,-97.463
+73118,35.518,-97.531
+73119,35.421,-97.569
+73120,35.581,-97.574
+73121,35.52,-97.445
+73122,35.52,-97.613
+73127,35.478,-97.649
+73128,35.442,-97.663
+73129,35.432,-97.484
+73130,35.459,-97.346
+73131,35.576,-97.469
+73132,35.544,-97.639
+73134,35.615,-97.569
+73135,35.4,-97.433
+73139,35.386,-97.526
+73141,35.52,-97.394
+73142,35.61,-97.647
+73145,35.424,-97.414
+73149,35.389,-97.489
+73150,35.401,-97.33
+73151,35.572,-97.417
+73159,35.388,-97.579
+73160,35.336,-97.475
+73162,35.582,-97.641
+73165,35.359,-97.373
+73169,35.381,-97.648
+73170,35.325,-97.552
+73173,35.341,-97.627
+73179,35.425,-97.649
+73401,34.208,-97.107
+73425,34.462,-97.57
+73430,33.898,-97.361
+73432,34.252,-96.423
+73433,34.641,-97.42
+73434,34.618,-97.579
+73435,34.358,-97.495
+73436,34.286,-97.041
+73437,34.368,-97.412
+73438,34.282,-97.503
+73439,33.938,-96.744
+73440,33.962,-96.889
+73441,33.867,-97.44
+73442,34.323,-97.689
+73443,34.162,-97.298
+73444,34.474,-97.389
+73446,34.089,-96.778
+73447,34.247,-96.853
+73448,33.948,-97.106
+73449,33.991,-96.544
+73450,34.267,-96.539
+73453,34.031,-97.271
+73455,34.23,-96.76
+73456,34.11,-97.623
+73458,34.35,-97.314
+73459,33.773,-97.139
+73460,34.297,-96.668
+73461,34.356,-96.433
+73463,34.124,-97.435
+73481,34.427,-97.527
+73487,34.47,-97.442
+73488,34.493,-97.555
+73491,34.468,-97.66
+73501,34.558,-98.291
+73503,34.683,-98.492
+73505,34.573,-98.488
+73507,34.728,-98.475
+73520,34.269,-97.977
+73521,34.634,-99.315
+73523,34.655,-99.285
+73526,34.793,-99.266
+73527,34.578,-98.622
+73528,34.399,-98.653
+73529,34.338,-97.953
+73530,34.255,-99.051
+73531,34.195,-98.528
+73532,34.63,-99.589
+73533,34.505,-97.867
+73537,34.468,-99.679
+73538,34.776,-98.384
+73539,34.457,-99.281
+73540,34.467,-98.561
+73541,34.789,-98.181
+73542,34.398,-98.936
+73543,34.471,-98.392
+73544,34.66,-99.754
+73546,34.223,-98.723
+73547,34.974,-99.405
+73548,34.211,-98.132
+73549,34.645,-99.153
+73550,34.703,-99.901
+73551,34.308,-98.881
+73552,34.629,-98.76
+73553,34.33,-98.701
+73554,34.842,-99.608
+73555,34.502,-98.966
+73556,34.726,-99.387
+73557,34.731,-98.501
+73559,34.73,-98.94
+73560,34.547,-99.448
+73562,34.191,-98.397
+73564,34.848,-99
+73565,34.02,-97.894
+73566,34.616,-98.931
+73567,34.747,-98.171
+73568,34.263,-98.219
+73569,33.936,-97.782
+73570,34.515,-99.115
+73571,34.914,-99.928
+73572,34.372,-98.327
+73573,34.144,-97.962
+73601,35.487,-98.951
+73620,35.622,-99.025
+73622,35.4,-98.998
+73624,35.36,-99.172
+73625,35.692,-99.19
+73626,35.439,-99.285
+73627,35.197,-99.453
+73628,35.63,-99.7
+73632,35.269,-98.915
+73638,35.849,-99.796
+73639,35.739,-98.961
+73641,35.27,-99.197
+73642,35.823,-99.91
+73644,35.405,-99.427
+73645,35.172,-99.869
+73646,35.819,-98.623
+73647,35.436,-99.151
+73650,35.645,-99.422
+73651,35.025,-99.07
+73654,35.859,-99.374
+73655,34.98,-99.249
+73658,35.948,-98.719
+73659,35.877,-98.94
+73660,35.632,-99.914
+73661,35.175,-99.021
+73662,35.318,-99.661
+73663,36.103,-98.895
+73664,35.175,-99.236
+73666,35.415,-99.92
+73667,36.006,-99.04
+73668,35.225,-99.976
+73669,35.75,-98.743
+73673,35.052,-99.638
+73701,36.427,-97.792
+73703,36.441,-97.967
+73705,36.339,-97.902
+73716,36.485,-98.551
+73717,36.839,-98.784
+73718,36.21,-98.167
+73719,36.964,-98.264
+73720,36.195,-97.87
+73722,36.912,-98.35
+73724,36.03,-98.691
+73726,36.587,-98.508
+73727,36.482,-98.043
+73728,36.729,-98.404
+73729,36.393,-98.454
+73730,36.312,-97.541
+73731,36.645,-98.603
+73733,36.255,-97.688
+73734,35.983,-97.852
+73735,36.28,-98.063
+73736,36.345,-97.681
+73737,36.296,-98.577
+73738,36.439,-97.558
+73739,36.515,-98.135
+73741,36.554,-98.27
+73742,36.096,-97.922
+73743,36.563,-97.993
+73744,35.95,-98.291
+73746,36.688,-98.662
+73747,36.234,-98.34
+73749,36.703,-98.155
+73750,35.853,-97.944
+73753,36.555,-97.864
+73754,36.383,-98.097
+73755,36.144,-98.598
+73756,35.979,-98.112
+73757,36.28,-97.447
+73758,36.935,-98.086
+73759,36.862,-97.706
+73760,36.383,-98.167
+73761,36.685,-98.031
+73762,35.714,-97.975
+73763,36.103,-98.325
+73764,35.855,-98.202
+73766,36.645,-97.837
+73768,36.369,-98.275
+73770,36.054,-98.498
+73771,36.876,-97.958
+73772,35.865,-98.421
+73773,36.253,-97.92
+73801,36.485,-99.413
+73832,36.049,-99.689
+73834,36.852,-99.571
+73835,35.969,-99.219
+73838,36.239,-98.876
+73840,36.402,-99.643
+73841,36.548,-99.619
+73842,36.822,-99.216
+73843,36.399,-99.83
+73844,36.899,-100.16
+73848,36.634,-100.04
+73851,36.574,-99.782
+73852,36.479,-99.12
+73853,36.239,-99.16
+73855,36.875,-99.853
+73857,36.271,-99.333
+73858,36.168,-99.927
+73859,36.137,-99.286
+73860,36.543,-98.843
+73901,36.755,-101.075
+73931,36.587,-100.801
+73932,36.69,-100.514
+73933,36.741,-102.58
+73937,36.567,-102.76
+73938,36.932,-100.579
+73939,36.777,-101.79
+73942,36.744,-101.496
+73944,36.582,-101.103
+73945,36.827,-101.233
+73946,36.935,-102.804
+73947,36.842,-102.167
+73949,36.597,-101.988
+73950,36.855,-100.895
+73951,36.943,-101.054
+73960,36.492,-101.793
+74001,36.489,-96.062
+74002,36.561,-96.144
+74003,36.728,-96.068
+74006,36.713,-95.895
+74008,35.924,-95.878
+74010,35.808,-96.362
+74011,35.982,-95.809
+74012,36.051,-95.806
+74014,36.053,-95.664
+74015,36.182,-95.719
+74016,36.545,-95.451
+74017,36.391,-95.588
+74019,36.285,-95.603
+74020,36.246,-96.421
+74021,36.379,-95.846
+74022,36.925,-95.978
+74023,35.957,-96.752
+74026,35.717,-96.78
+74027,36.813,-95.607
+74028,35.794,-96.52
+74029,36.823,-95.89
+74030,35.985,-96.565
+74032,36.207,-96.899
+74033,35.947,-96.006
+74034,36.233,-96.563
+74035,36.404,-96.378
+74036,36.158,-95.507
+74037,35.999,-95.98
+74038,36.157,-96.559
+74039,35.902,-96.237
+74041,35.938,-96.059
+74042,36.881,-95.551
+74044,36.083,-96.381
+74045,36.221,-96.7
+74046,35.753,-96.573
+74047,35.851,-96.027
+74048,36.692,-95.651
+74050,36.072,-96.067
+74051,36.614,-95.956
+74052,36.067,-96.57
+74053,36.43,-95.732
+74054,36.28,-96.329
+74055,36.277,-95.819
+74056,36.795,-96.331
+74058,36.363,-96.759
+74059,35.972,-97.068
+74060,36.257,-96.251
+74061,36.533,-95.893
+74062,36.038,-96.901
+74063,36.151,-96.2
+74066,35.994,-96.17
+74068,35.907,-96.578
+74070,36.401,-96.088
+74071,35.779,-96.265
+74072,36.96,-95.616
+74073,36.299,-96.01
+74074,36.079,-97.064
+74075,36.169,-97.083
+74077,36.124,-97.069
+74078,36.125,-97.08
+74079,35.743,-96.656
+74080,36.542,-95.749
+74081,36.182,-96.46
+74082,36.449,-95.881
+74083,36.879,-95.753
+74084,36.528,-96.334
+74085,36.111,-96.723
+74103,36.156,-95.996
+74104,36.146,-95.954
+74105,36.097,-95.961
+74106,36.192,-95.985
+74107,36.115,-96.032
+74108,36.14,-95.79
+74110,36.188,-95.953
+74112,36.147,-95.902
+74114,36.127,-95.947
+74115,36.199,-95.909
+74116,36.189,-95.843
+74117,36.246,-95.902
+74119,36.142,-95.989
+74120,36.151,-95.977
+74126,36.237,-96.018
+74127,36.173,-96.046
+74128,36.147,-95.85
+74129,36.126,-95.872
+74130,36.241,-95.957
+74131,36.051,-96.073
+74132,36.049,-96.017
+74133,36.039,-95.877
+74134,36.11,-95.797
+74135,36.097,-95.923
+74136,36.062,-95.941
+74137,36.022,-95.931
+74145,36.097,-95.89
+74146,36.099,-95.856
+74171,36.051,-95.953
+74301,36.678,-95.243
+74330,36.445,-95.262
+74331,36.648,-94.952
+74332,36.548,-95.316
+74333,36.794,-95.082
+74337,36.141,-95.337
+74338,36.256,-94.713
+74339,36.934,-94.88
+74340,36.474,-95.018
+74342,36.427,-94.945
+74343,36.736,-94.821
+74344,36.595,-94.741
+74346,36.439,-94.754
+74347,36.199,-94.788
+74349,36.513,-95.028
+74350,36.466,-95.048
+74352,36.135,-95.194
+74354,36.889,-94.881
+74358,36.918,-94.881
+74359,36.168,-94.852
+74360,36.98,-94.836
+74361,36.308,-95.307
+74363,36.96,-94.711
+74364,36.196,-94.949
+74365,36.288,-95.059
+74366,36.378,-95.029
+74367,36.416,-95.113
+74368,36.207,-94.848
+74369,36.925,-95.202
+74370,36.75,-94.68
+74401,35.724,-95.458
+74403,35.682,-95.307
+74421,35.763,-96.042
+74422,35.643,-95.69
+74423,35.642,-95.22
+74425,35.171,-95.623
+74426,35.445,-95.529
+74427,35.677,-94.887
+74428,35.549,-95.648
+74429,35.949,-95.633
+74430,35.129,-95.646
+74431,35.458,-95.939
+74432,35.282,-95.651
+74434,35.783,-95.195
+74435,35.593,-95.095
+74436,35.806,-95.705
+74437,35.437,-95.927
+74438,35.513,-95.762
+74441,35.977,-95.145
+74442,35.124,-95.817
+74445,35.631,-95.829
+74446,35.851,-95.322
+74447,35.65,-96.012
+74450,35.6,-95.473
+74451,35.724,-95.011
+74452,36.121,-95.068
+74454,35.843,-95.509
+74455,35.362,-95.269
+74456,35.711,-95.993
+74457,36.006,-94.841
+74458,35.882,-95.588
+74459,35.519,-95.492
+74460,35.505,-95.964
+74462,35.28,-95.147
+74463,35.77,-95.551
+74464,35.944,-94.974
+74467,35.967,-95.393
+74468,35.617,-95.599
+74469,35.512,-95.321
+74470,35.477,-95.167
+74471,35.834,-94.872
+74472,35.25,-95.26
+74477,36.004,-95.267
+74501,34.984,-95.787
+74521,34.662,-95.099
+74522,34.883,-95.677
+74523,34.252,-95.602
+74525,34.333,-96.056
+74528,34.702,-95.728
+74530,34.43,-96.537
+74531,34.881,-96.228
+74533,34.208,-96.197
+74534,34.624,-96.361
+74535,34.484,-96.445
+74536,34.583,-95.423
+74538,34.569,-96.249
+74540,34.571,-95.708
+74543,34.359,-95.381
+74546,34.852,-95.58
+74547,34.81,-95.599
+74549,34.562,-94.894
+74552,35.113,-95.249
+74553,34.713,-95.925
+74554,34.926,-95.72
+74555,34.249,-95.965
+74556,34.458,-96.201
+74557,34.387,-95.698
+74558,34.505,-95.166
+74560,34.649,-95.76
+74561,35.13,-95.415
+74562,34.307,-95.313
+74563,34.97,-95.073
+74565,34.82,-95.823
+74567,34.45,-95.336
+74569,34.477,-95.925
+74570,34.863,-96.101
+74571,34.72,-95.049
+74572,34.626,-96.431
+74574,34.677,-95.262
+74576,34.668,-96.043
+74577,34.733,-94.862
+74578,34.906,-95.342
+74601,36.702,-97.149
+74604,36.702,-96.982
+74630,36.499,-97.435
+74631,36.799,-97.304
+74632,36.941,-97.341
+74633,36.71,-96.777
+74636,36.823,-97.522
+74637,36.603,-96.644
+74640,36.571,-97.649
+74641,36.807,-96.861
+74643,36.655,-97.575
+74644,36.56,-97.096
+74646,36.822,-97.442
+74647,36.918,-96.995
+74650,36.48,-96.72
+74651,36.471,-97.164
+74652,36.859,-96.644
+74653,36.649,-97.341
+74701,34.01,-96.377
+74720,33.831,-96.372
+74721,33.88,-96.162
+74722,34.38,-94.898
+74723,33.993,-96.017
+74724,34.342,-94.862
+74726,33.941,-96.174
+74727,34.019,-95.859
+74728,34.157,-94.82
+74729,34.147,-96.254
+74730,33.912,-96.431
+74731,33.87,-96.577
+74733,33.822,-96.482
+74734,34.091,-94.538
+74735,34.097,-95.262
+74736,33.914,-94.993
+74737,34.031,-94.903
+74738,33.896,-95.443
+74740,33.767,-94.597
+74741,33.795,-96.288
+74743,34.007,-95.511
+74745,33.859,-94.816
+74747,33.758,-96.315
+74748,34.131,-96.493
+74750,33.985,-95.012
+74753,33.908,-96.534
+74754,34.192,-95.12
+74755,34.119,-95.142
+74756,34.085,-95.374
+74759,34.056,-95.72
+74760,34.163,-95.356
+74761,34.005,-95.201
+74764,34.091,-95.057
+74766,34.086,-94.974
+74801,35.315,-96.97
+74804,35.391,-96.921
+74820,34.804,-96.715
+74824,35.889,-96.871
+74825,34.823,-96.392
+74826,35.021,-96.887
+74827,34.94,-96.343
+74829,35.505,-96.466
+74830,35.145,-96.665
+74831,34.894,-97.034
+74832,35.829,-97.007
+74833,35.583,-96.414
+74834,35.697,-96.879
+74836,34.442,-96.63
+74837,35.343,-96.456
+74839,35.241,-96.046
+74840,35.309,-96.77
+74842,34.619,-96.615
+74843,34.657,-96.729
+74844,34.876,-96.589
+74845,35.253,-95.88
+74848,35.08,-96.344
+74849,34.978,-96.736
+74850,35.11,-96.107
+74851,35.426,-97.082
+74852,35.124,-97.009
+74854,35.111,-96.766
+74855,35.514,-96.906
+74856,34.397,-96.816
+74857,35.34,-97.201
+74859,35.456,-96.322
+74860,35.532,-96.57
+74864,35.499,-96.707
+74865,34.613,-96.818
+74866,35.066,-96.847
+74867,34.965,-96.538
+74868,35.279,-96.645
+74869,35.59,-96.751
+74871,34.597,-96.552
+74872,34.772,-96.988
+74873,35.233,-96.977
+74875,35.873,-96.959
+74878,35.005,-97.07
+74880,35.38,-96.121
+74881,35.714,-97.08
+74883,35.22,-96.253
+74884,35.185,-96.515
+74901,35.299,-94.501
+74902,35.252,-94.468
+74930,35.185,-94.775
+74931,35.686,-94.787
+74932,35.146,-94.535
+74935,34.962,-94.911
+74936,35.395,-94.728
+74937,34.818,-94.587
+74939,34.73,-94.632
+74940,34.949,-94.632
+74941,35.268,-94.876
+74942,34.895,-94.978
+74943,35.1,-95.099
+74944,35.131,-95.006
+74945,35.584,-94.817
+74946,35.396,-94.452
+74947,34.991,-94.516
+74948,35.468,-94.569
+74949,34.684,-94.772
+74951,35.172,-94.664
+74953,35.038,-94.571
+74954,35.413,-94.491
+74955,35.501,-94.758
+74956,35.096,-94.774
+74957,34.524,-94.655
+74959,35.271,-94.623
+74960,35.81,-94.651
+74962,35.544,-94.941
+74963,34.412,-94.563
+74964,36.112,-94.659
+74965,35.997,-94.631
+74966,34.894,-94.871
+75001,32.96,-96.837
+75002,33.09,-96.609
+75006,32.962,-96.899
+75007,33.005,-96.897
+75009,33.339,-96.753
+75010,33.041,-96.875
+75013,33.114,-96.694
+75019,32.961,-96.986
+75020,33.773,-96.607
+75021,33.728,-96.478
+75022,33.024,-97.12
+75023,33.057,-96.731
+75024,33.078,-96.811
+75025,33.09,-96.74
+75028,33.033,-97.065
+75032,32.857,-96.431
+75033,33.185,-96.844
+75034,33.121,-96.839
+75035,33.166,-96.776
+75036,33.133,-96.915
+75038,32.872,-96.979
+75039,32.885,-96.937
+75040,32.929,-96.62
+75041,32.88,-96.652
+75042,32.914,-96.675
+75043,32.856,-96.578
+75044,32.965,-96.65
+75048,32.969,-96.58
+75050,32.773,-97.005
+75051,32.726,-96.992
+75052,32.665,-97.029
+75054,32.614,-97.025
+75056,33.076,-96.908
+75057,33.051,-96.975
+75058,33.449,-96.737
+75060,32.798,-96.953
+75061,32.826,-96.967
+75062,32.847,-96.958
+75063,32.911,-97
+75065,33.11,-97.005
+75067,33.016,-96.999
+75068,33.177,-96.952
+75069,33.164,-96.595
+75070,33.155,-96.697
+75071,33.246,-96.631
+75072,33.188,-96.7
+75074,33.033,-96.673
+75075,33.021,-96.742
+75076,33.801,-96.726
+75077,33.081,-97.061
+75078,33.241,-96.812
+75080,32.976,-96.742
+75081,32.95,-96.707
+75082,32.995,-96.667
+75087,32.949,-96.442
+75088,32.892,-96.542
+75089,32.938,-96.544
+75090,33.604,-96.55
+75092,33.652,-96.7
+75093,33.034,-96.812
+75094,33.02,-96.613
+75098,33.014,-96.535
+75101,32.27,-96.702
+75102,32.087,-96.636
+75103,32.517,-95.884
+75104,32.585,-96.972
+75105,32.267,-96.368
+75109,32.043,-96.344
+75110,32.08,-96.52
+75114,32.617,-96.443
+75115,32.599,-96.864
+75116,32.661,-96.912
+75117,32.711,-95.858
+75119,32.324,-96.59
+75124,32.319,-95.97
+75125,32.537,-96.622
+75126,32.743,-96.453
+75127,32.699,-95.791
+75132,32.939,-96.38
+75134,32.623,-96.78
+75135,33.068,-96.224
+75137,32.635,-96.913
+75140,32.635,-95.686
+75141,32.64,-96.693
+75142,32.568,-96.25
+75143,32.365,-96.245
+75144,32.108,-96.208
+75146,32.566,-96.749
+75147,32.426,-96.065
+75148,32.125,-96.026
+75149,32.773,-96.619
+75150,32.814,-96.631
+75152,32.44,-96.678
+75153,32.167,-96.359
+75154,32.524,-96.809
+75155,32.229,-96.476
+75156,32.278,-96.105
+75157,32.463,-96.449
+75158,32.465,-96.401
+75159,32.604,-96.541
+75160,32.764,-96.293
+75161,32.739,-96.164
+75163,32.167,-96.119
+75164,33.076,-96.303
+75165,32.372,-96.803
+75166,33.015,-96.449
+75167,32.361,-96.916
+75169,32.703,-95.995
+75172,32.605,-96.674
+75173,33.062,-96.396
+75180,32.719,-96.619
+75181,32.724,-96.556
+75182,32.801,-96.548
+75189,32.942,-96.312
+75201,32.788,-96.8
+75202,32.778,-96.804
+75203,32.744,-96.802
+75204,32.802,-96.789
+75205,32.837,-96.797
+75206,32.831,-96.771
+75207,32.788,-96.821
+75208,32.755,-96.84
+75209,32.848,-96.825
+75210,32.771,-96.747
+75211,32.737,-96.908
+75212,32.782,-96.879
+75214,32.829,-96.743
+75215,32.753,-96.761
+75216,32.711,-96.781
+75217,32.713,-96.682
+75218,32.84,-96.704
+75219,32.811,-96.813
+75220,32.869,-96.876
+75223,32.793,-96.746
+75224,32.711,-96.839
+75225,32.865,-96.79
+75226,32.783,-96.777
+75227,32.767,-96.687
+75228,32.825,-96.679
+75229,32.894,-96.867
+75230,32.903,-96.793
+75231,32.873,-96.748
+75232,32.659,-96.84
+75233,32.704,-96.872
+75234,32.925,-96.888
+75235,32.833,-96.849
+75236,32.689,-96.936
+75237,32.665,-96.872
+75238,32.879,-96.708
+75240,32.93,-96.793
+75241,32.667,-96.759
+75243,32.913,-96.737
+75244,32.925,-96.836
+75246,32.792,-96.773
+75247,32.814,-96.878
+75248,32.97,-96.797
+75249,32.636,-96.965
+75251,32.919,-96.775
+75252,32.997,-96.788
+75253,32.674,-96.609
+75254,32.944,-96.8
+75261,32.903,-97.053
+75270,32.781,-96.802
+75287,32.999,-96.842
+75390,32.814,-96.843
+75401,33.189,-96.109
+75402,33.068,-96.088
+75407,33.156,-96.48
+75409,33.355,-96.516
+75410,32.792,-95.637
+75411,33.868,-95.638
+75412,33.801,-95.135
+75413,33.436,-96.165
+75414,33.624,-96.428
+75415,33.456,-95.724
+75416,33.598,-95.328
+75417,33.44,-95.14
+75418,33.572,-96.171
+75420,33.065,-95.718
+75421,33.661,-95.731
+75422,33.139,-95.924
+75423,33.292,-96.2
+75424,33.305,-96.389
+75426,33.648,-95.012
+75428,33.275,-95.918
+75429,33.279,-95.892
+75431,33.014,-95.461
+75432,33.386,-95.673
+75433,33.098,-95.803
+75434,33.416,-95.344
+75435,33.501,-95.29
+75436,33.742,-95.256
+75437,33.257,-95.465
+75438,33.616,-96.072
+75439,33.554,-96.283
+75440,32.873,-95.754
+75441,33.428,-95.643
+75442,33.176,-96.346
+75446,33.615,-95.9
+75447,33.772,-96.124
+75448,33.316,-95.789
+75449,33.423,-95.949
+75450,33.398,-95.462
+75451,32.959,-95.125
+75452,33.402,-96.239
+75453,33.01,-95.933
+75454,33.283,-96.561
+75455,33.217,-94.983
+75457,33.176,-95.21
+75459,33.529,-96.682
+75460,33.662,-95.605
+75462,33.624,-95.492
+75468,33.507,-95.404
+75469,33.4,-95.823
+75470,33.587,-95.802
+75471,33.057,-95.374
+75472,32.884,-95.87
+75473,33.816,-95.488
+75474,32.924,-96.109
+75475,33.486,-96.258
+75476,33.708,-96.241
+75477,33.53,-95.738
+75478,33.173,-95.349
+75479,33.63,-96.33
+75480,33.015,-95.196
+75481,33.32,-95.374
+75482,33.168,-95.608
+75486,33.745,-95.744
+75487,33.339,-95.16
+75488,33.779,-95.997
+75489,33.52,-96.485
+75490,33.438,-96.308
+75491,33.486,-96.396
+75492,33.597,-95.992
+75493,33.142,-95.114
+75494,32.917,-95.26
+75495,33.439,-96.547
+75496,33.364,-96.065
+75497,32.922,-95.576
+75501,33.372,-94.14
+75503,33.518,-94.137
+75550,33.498,-94.891
+75551,33.119,-94.22
+75554,33.579,-94.78
+75555,32.939,-94.142
+75556,33.155,-94.062
+75558,33.256,-94.85
+75559,33.504,-94.65
+75560,33.202,-94.366
+75561,33.517,-94.282
+75562,32.936,-94.253
+75563,33.028,-94.393
+75564,32.888,-94.25
+75565,32.95,-94.074
+75566,33.153,-94.49
+75567,33.316,-94.321
+75568,33.193,-94.587
+75569,33.441,-94.123
+75570,33.464,-94.437
+75571,33.207,-94.774
+75572,33.226,-94.128
+75573,33.348,-94.229
+75574,33.325,-94.551
+75601,32.509,-94.724
+75602,32.437,-94.643
+75603,32.403,-94.711
+75604,32.514,-94.828
+75605,32.585,-94.71
+75630,32.853,-94.573
+75631,32.262,-94.45
+75633,32.138,-94.274
+75638,33.02,-94.73
+75639,32.279,-94.169
+75640,32.708,-94.683
+75641,32.385,-94.576
+75642,32.358,-94.178
+75643,32.006,-94.362
+75644,32.791,-95
+75645,32.679,-94.88
+75647,32.517,-94.963
+75650,32.513,-94.549
+75651,32.669,-94.524
+75652,32.239,-94.728
+75654,32.091,-94.834
+75656,33.011,-94.572
+75657,32.795,-94.31
+75658,32.172,-94.899
+75659,32.507,-94.092
+75661,32.638,-94.153
+75662,32.38,-94.874
+75667,31.988,-94.844
+75668,32.907,-94.679
+75669,32.032,-94.555
+75670,32.559,-94.422
+75671,32.489,-94.315
+75672,32.468,-94.299
+75680,32.01,-94.718
+75681,31.954,-94.684
+75682,32.262,-94.954
+75683,32.827,-94.737
+75684,32.277,-94.937
+75686,32.967,-94.944
+75687,32.106,-94.963
+75689,32.187,-94.962
+75691,32.312,-94.552
+75692,32.471,-94.118
+75693,32.534,-94.861
+75694,32.638,-94.344
+75701,32.323,-95.296
+75702,32.364,-95.312
+75703,32.235,-95.321
+75704,32.402,-95.449
+75705,32.375,-95.077
+75706,32.472,-95.294
+75707,32.304,-95.169
+75708,32.413,-95.209
+75709,32.312,-95.386
+75711,32.337,-95.284
+75750,32.268,-95.078
+75751,32.07,-95.921
+75752,32.252,-95.8
+75754,32.413,-95.649
+75755,32.642,-95.076
+75756,32.293,-95.579
+75757,32.11,-95.348
+75758,32.271,-95.521
+75759,32.036,-95.416
+75760,31.81,-94.863
+75762,32.218,-95.413
+75763,32.043,-95.523
+75764,31.895,-95.144
+75765,32.642,-95.235
+75766,31.946,-95.252
+75770,32.159,-95.644
+75771,32.533,-95.427
+75773,32.681,-95.448
+75778,32.301,-95.71
+75779,31.863,-95.485
+75780,31.989,-95.091
+75782,32.069,-95.588
+75783,32.816,-95.425
+75784,31.872,-94.966
+75785,31.758,-95.176
+75788,31.823,-94.916
+75789,32.11,-95.094
+75790,32.527,-95.643
+75791,32.222,-95.221
+75792,32.469,-95.106
+75801,31.742,-95.551
+75803,31.882,-95.679
+75831,31.474,-96.009
+75833,31.269,-95.844
+75835,31.285,-95.491
+75838,31.479,-96.23
+75839,31.618,-95.559
+75840,31.783,-96.094
+75844,31.525,-95.423
+75845,31.088,-95.077
+75846,31.347,-96.179
+75847,31.342,-95.12
+75848,31.773,-96.334
+75849,31.397,-95.476
+75850,31.136,-95.935
+75851,31.092,-95.5
+75852,31,-95.7
+75853,31.947,-95.814
+75855,31.557,-95.864
+75856,31.201,-95.254
+75858,31.381,-95.137
+75859,31.888,-96.254
+75860,31.623,-96.245
+75861,31.852,-95.888
+75862,30.965,-95.326
+75865,31.058,-94.962
+75884,31.789,-95.893
+75886,31.778,-95.916
+75901,31.302,-94.641
+75903,31.374,-94.748
+75904,31.327,-94.84
+75925,31.615,-95.062
+75926,31.244,-94.959
+75928,30.671,-93.711
+75929,31.227,-94.192
+75930,31.34,-94.035
+75931,31.096,-93.995
+75932,31.056,-93.616
+75933,30.554,-93.813
+75934,30.895,-94.759
+75935,31.72,-94.199
+75936,30.951,-94.589
+75937,31.482,-94.396
+75938,30.941,-94.354
+75939,31.017,-94.801
+75941,31.187,-94.759
+75942,30.826,-94.416
+75943,31.658,-94.894
+75944,31.354,-94.388
+75946,31.814,-94.515
+75948,31.275,-93.722
+75949,31.23,-94.509
+75951,30.934,-94.06
+75954,31.904,-94.048
+75956,30.676,-93.983
+75959,31.512,-93.839
+75960,30.911,-94.855
+75961,31.558,-94.505
+75962,31.62,-94.648
+75964,31.63,-94.777
+75965,31.729,-94.627
+75966,30.828,-93.714
+75968,31.252,-93.954
+75969,31.446,-94.888
+75972,31.502,-94.122
+75973,31.711,-93.943
+75974,31.958,-94.24
+75975,31.891,-94.419
+75976,31.519,-94.95
+75977,31.065,-93.787
+75979,30.749,-94.389
+75980,31.094,-94.35
+76001,32.631,-97.156
+76002,32.622,-97.094
+76005,32.801,-97.076
+76006,32.787,-97.103
+76008,32.682,-97.627
+76009,32.416,-97.202
+76010,32.723,-97.081
+76011,32.752,-97.083
+76012,32.755,-97.139
+76013,32.719,-97.155
+76014,32.692,-97.087
+76015,32.692,-97.136
+76016,32.689,-97.189
+76017,32.663,-97.164
+76018,32.662,-97.09
+76020,32.9,-97.561
+76021,32.853,-97.13
+76022,32.831,-97.145
+76023,33.042,-97.597
+76028,32.533,-97.307
+76031,32.346,-97.328
+76033,32.292,-97.517
+76034,32.891,-97.15
+76035,32.566,-97.646
+76036,32.571,-97.421
+76039,32.86,-97.086
+76040,32.82,-97.103
+76041,32.238,-96.842
+76043,32.198,-97.761
+76044,32.426,-97.54
+76048,32.408,-97.801
+76049,32.46,-97.707
+76050,32.268,-97.155
+76051,32.942,-97.08
+76052,32.979,-97.371
+76053,32.816,-97.181
+76054,32.857,-97.179
+76055,32.16,-97.148
+76058,32.472,-97.427
+76059,32.394,-97.331
+76060,32.64,-97.217
+76061,32.503,-97.198
+76063,32.571,-97.145
+76064,32.309,-97.037
+76065,32.469,-96.991
+76066,32.696,-97.999
+76067,32.802,-98.143
+76070,32.217,-97.659
+76071,33.011,-97.474
+76073,33.096,-97.721
+76077,32.282,-97.714
+76078,33.093,-97.463
+76082,32.97,-97.734
+76084,32.426,-97.09
+76085,32.861,-97.692
+76086,32.752,-97.789
+76087,32.668,-97.791
+76088,32.851,-97.903
+76092,32.954,-97.149
+76093,32.21,-97.406
+76102,32.758,-97.329
+76103,32.749,-97.273
+76104,32.728,-97.318
+76105,32.723,-97.27
+76106,32.817,-97.36
+76107,32.742,-97.382
+76108,32.788,-97.523
+76109,32.701,-97.387
+76110,32.708,-97.338
+76111,32.78,-97.301
+76112,32.747,-97.218
+76114,32.775,-97.407
+76115,32.678,-97.331
+76116,32.721,-97.447
+76117,32.803,-97.267
+76118,32.794,-97.194
+76119,32.691,-97.262
+76120,32.767,-97.181
+76123,32.623,-97.403
+76126,32.649,-97.515
+76127,32.777,-97.431
+76129,32.709,-97.363
+76131,32.882,-97.346
+76132,32.668,-97.416
+76133,32.653,-97.38
+76134,32.644,-97.33
+76135,32.836,-97.47
+76137,32.86,-97.292
+76140,32.62,-97.278
+76148,32.868,-97.252
+76155,32.824,-97.049
+76164,32.781,-97.354
+76177,32.967,-97.304
+76179,32.91,-97.434
+76180,32.841,-97.224
+76182,32.886,-97.208
+76201,33.221,-97.146
+76203,33.212,-97.152
+76205,33.193,-97.129
+76207,33.222,-97.176
+76208,33.209,-97.055
+76209,33.231,-97.11
+76210,33.149,-97.096
+76225,33.374,-97.668
+76226,33.105,-97.178
+76227,33.273,-96.99
+76228,33.618,-98.063
+76230,33.524,-97.932
+76233,33.543,-96.895
+76234,33.276,-97.514
+76238,33.479,-97.352
+76239,33.512,-97.577
+76240,33.662,-97.176
+76241,33.645,-97.176
+76244,32.928,-97.277
+76245,33.824,-96.863
+76247,33.101,-97.347
+76248,32.929,-97.226
+76249,33.279,-97.302
+76250,33.63,-97.242
+76251,33.659,-97.685
+76252,33.671,-97.378
+76253,33.625,-97.314
+76255,33.811,-97.719
+76258,33.371,-96.932
+76259,33.199,-97.312
+76261,33.793,-97.964
+76262,33.01,-97.22
+76263,33.504,-97.437
+76264,33.749,-96.837
+76265,33.72,-97.541
+76266,33.373,-97.213
+76267,33.369,-97.397
+76268,33.628,-96.765
+76270,33.461,-97.759
+76271,33.469,-96.914
+76272,33.456,-97.127
+76273,33.744,-96.936
+76301,33.905,-98.48
+76302,33.866,-98.485
+76305,34.006,-98.388
+76306,33.95,-98.527
+76308,33.855,-98.537
+76309,33.896,-98.544
+76310,33.805,-98.528
+76311,33.973,-98.508
+76351,33.558,-98.695
+76354,34.09,-98.625
+76357,34.079,-98.185
+76360,33.883,-98.883
+76363,33.513,-99.524
+76364,34.143,-99.011
+76365,33.757,-98.208
+76366,33.715,-98.775
+76367,33.971,-98.715
+76370,33.456,-98.896
+76371,33.483,-99.655
+76372,33.236,-98.933
+76373,34.159,-99.128
+76374,33.344,-98.763
+76377,34.008,-98.259
+76379,33.668,-98.489
+76380,33.603,-99.214
+76384,34.141,-99.319
+76388,33.323,-99.642
+76389,33.513,-98.481
+76401,32.271,-98.206
+76402,32.217,-98.216
+76424,32.801,-98.887
+76426,33.16,-97.84
+76427,33.131,-98.396
+76429,32.759,-98.666
+76430,32.804,-99.223
+76431,33.303,-97.868
+76432,31.837,-98.784
+76433,32.306,-98.01
+76435,32.225,-98.856
+76436,31.868,-98.218
+76437,32.382,-99.024
+76439,32.618,-97.927
+76442,31.891,-98.613
+76443,32.113,-99.211
+76444,32.124,-98.577
+76445,32.305,-98.542
+76446,32.075,-98.36
+76448,32.393,-98.791
+76449,32.902,-98.316
+76450,33.06,-98.653
+76452,31.76,-98.397
+76453,32.584,-98.336
+76454,32.227,-98.7
+76455,31.821,-98.367
+76457,31.945,-98.028
+76458,33.216,-98.192
+76459,33.275,-98.39
+76460,33.306,-98.5
+76462,32.521,-98.03
+76463,32.455,-98.418
+76464,32.579,-99.156
+76466,32.429,-98.733
+76469,32.336,-99.202
+76470,32.503,-98.675
+76471,32.107,-98.983
+76472,32.608,-98.18
+76474,31.959,-98.775
+76475,32.673,-98.486
+76476,32.363,-97.924
+76481,32.996,-98.698
+76483,33.16,-99.283
+76484,32.74,-98.302
+76486,33.015,-98.053
+76487,32.972,-97.905
+76490,32.962,-98.044
+76491,33.057,-99.039
+76501,31.075,-97.252
+76502,31.104,-97.412
+76504,31.142,-97.375
+76511,30.798,-97.419
+76513,31.057,-97.503
+76518,30.852,-97.138
+76519,30.995,-97.033
+76520,30.873,-96.917
+76522,31.219,-97.968
+76523,30.803,-97.272
+76524,31.269,-97.202
+76525,31.474,-98.182
+76527,30.836,-97.796
+76528,31.441,-97.775
+76530,30.712,-97.425
+76531,31.687,-98.187
+76534,30.884,-97.378
+76537,30.817,-97.603
+76538,31.629,-97.922
+76539,31.091,-97.996
+76541,31.114,-97.729
+76542,30.989,-97.703
+76543,31.125,-97.644
+76544,31.33,-97.69
+76548,31.055,-97.642
+76549,31.017,-97.833
+76550,31.102,-98.26
+76554,30.968,-97.377
+76556,30.697,-96.845
+76557,31.294,-97.4
+76559,31.083,-97.614
+76561,31.429,-97.543
+76565,31.645,-98.349
+76566,31.514,-98
+76567,30.631,-97.028
+76569,30.939,-97.217
+76570,31.082,-96.954
+76571,30.949,-97.604
+76573,30.819,-97.502
+76574,30.579,-97.389
+76577,30.613,-97.184
+76578,30.535,-97.237
+76579,31.197,-97.242
+76596,31.476,-97.727
+76597,31.484,-97.71
+76598,31.475,-97.735
+76599,31.464,-97.738
+76621,31.874,-97.087
+76622,31.816,-97.243
+76623,32.227,-96.8
+76624,31.661,-96.955
+76626,32.123,-96.723
+76627,32.102,-97.389
+76628,32.038,-96.97
+76629,31.15,-96.652
+76630,31.35,-97.223
+76631,31.987,-96.966
+76632,31.307,-97.066
+76633,31.695,-97.329
+76634,31.805,-97.571
+76635,31.716,-96.661
+76636,32.17,-97.29
+76637,31.775,-97.756
+76638,31.558,-97.445
+76639,31.867,-96.656
+76640,31.697,-97.074
+76641,32.045,-96.787
+76642,31.498,-96.525
+76643,31.449,-97.198
+76645,32.012,-97.127
+76648,31.849,-96.807
+76649,32.002,-97.883
+76650,31.98,-96.864
+76651,32.185,-96.868
+76652,32.118,-97.576
+76653,31.295,-96.607
+76654,31.721,-97.016
+76655,31.392,-97.174
+76656,31.178,-97.064
+76657,31.438,-97.4
+76660,31.936,-96.893
+76661,31.307,-96.84
+76664,31.561,-96.803
+76665,31.925,-97.715
+76666,32.04,-96.895
+76667,31.657,-96.465
+76670,32.136,-96.989
+76671,31.988,-97.531
+76673,31.751,-96.892
+76676,31.876,-96.959
+76678,31.651,-96.749
+76679,31.955,-96.577
+76680,31.191,-96.801
+76681,31.916,-96.436
+76682,31.453,-96.913
+76685,31.339,-97.008
+76686,31.743,-96.54
+76687,31.369,-96.486
+76689,31.662,-97.506
+76690,32.104,-97.795
+76691,31.77,-97.098
+76692,31.96,-97.33
+76693,31.812,-96.444
+76701,31.552,-97.138
+76704,31.575,-97.124
+76705,31.627,-97.084
+76706,31.456,-97.084
+76707,31.554,-97.159
+76708,31.627,-97.216
+76710,31.54,-97.195
+76711,31.514,-97.153
+76712,31.527,-97.261
+76798,31.546,-97.121
+76801,31.744,-99.056
+76802,31.716,-98.895
+76820,30.784,-99.041
+76821,31.738,-99.951
+76823,31.687,-99.168
+76824,30.937,-98.467
+76825,31.099,-99.394
+76827,31.527,-99.137
+76828,32.006,-99.292
+76831,30.758,-98.958
+76832,30.963,-98.747
+76834,31.882,-99.48
+76836,31.422,-99.588
+76837,31.207,-99.893
+76841,30.854,-100.137
+76842,30.923,-99.102
+76844,31.451,-98.502
+76845,31.538,-99.488
+76848,30.839,-99.564
+76849,30.472,-99.822
+76852,31.358,-99.457
+76853,31.268,-98.372
+76854,30.556,-99.528
+76856,30.691,-99.273
+76857,31.931,-98.927
+76858,31.207,-99.615
+76859,30.885,-99.859
+76861,31.596,-100.202
+76862,31.415,-99.705
+76864,31.558,-98.749
+76865,31.85,-100.154
+76866,31.44,-99.928
+76869,30.91,-98.976
+76870,31.604,-98.53
+76871,31.27,-98.986
+76872,31.336,-99.148
+76873,31.506,-99.37
+76874,30.477,-100.123
+76875,31.601,-100.016
+76877,31.157,-98.764
+76878,31.658,-99.293
+76880,31.445,-98.315
+76882,31.8,-99.711
+76884,31.691,-99.569
+76885,30.859,-98.861
+76887,31.032,-99.158
+76888,31.61,-99.64
+76890,31.694,-98.766
+76901,31.509,-100.649
+76902,31.544,-100.725
+76903,31.482,-100.438
+76904,31.287,-100.424
+76905,31.5,-100.316
+76908,31.432,-100.403
+76909,31.441,-100.466
+76930,31.111,-101.12
+76932,31.192,-101.564
+76933,31.881,-100.284
+76934,31.615,-100.677
+76935,31.072,-100.425
+76936,30.892,-100.655
+76937,31.391,-100.15
+76939,31.269,-100.59
+76940,31.437,-100.127
+76941,31.245,-100.861
+76943,30.47,-101.322
+76945,31.873,-100.605
+76950,30.436,-100.565
+76951,31.803,-101.056
+76953,31.728,-100.32
+76955,31.299,-100.139
+76957,31.372,-100.305
+76958,31.645,-100.755
+77002,29.757,-95.366
+77003,29.751,-95.346
+77004,29.724,-95.364
+77005,29.718,-95.424
+77006,29.741,-95.391
+77007,29.772,-95.409
+77008,29.798,-95.417
+77009,29.795,-95.368
+77010,29.754,-95.36
+77011,29.743,-95.307
+77012,29.719,-95.274
+77013,29.795,-95.234
+77014,29.986,-95.465
+77015,29.765,-95.171
+77016,29.862,-95.298
+77017,29.692,-95.25
+77018,29.827,-95.426
+77019,29.753,-95.413
+77020,29.768,-95.309
+77021,29.698,-95.357
+77022,29.832,-95.38
+77023,29.722,-95.318
+77024,29.767,-95.506
+77025,29.686,-95.435
+77026,29.8,-95.329
+77027,29.739,-95.446
+77028,29.825,-95.286
+77029,29.759,-95.257
+77030,29.706,-95.402
+77031,29.652,-95.546
+77032,29.986,-95.346
+77033,29.668,-95.339
+77034,29.615,-95.193
+77035,29.656,-95.471
+77036,29.699,-95.537
+77037,29.891,-95.391
+77038,29.919,-95.441
+77039,29.908,-95.35
+77040,29.877,-95.532
+77041,29.858,-95.586
+77042,29.741,-95.56
+77043,29.811,-95.585
+77044,29.906,-95.181
+77045,29.647,-95.431
+77046,29.734,-95.433
+77047,29.611,-95.387
+77048,29.623,-95.328
+77049,29.833,-95.149
+77050,29.903,-95.269
+77051,29.656,-95.379
+77053,29.586,-95.461
+77054,29.68,-95.405
+77055,29.797,-95.493
+77056,29.748,-95.469
+77057,29.744,-95.489
+77058,29.562,-95.1
+77059,29.614,-95.119
+77060,29.936,-95.398
+77061,29.647,-95.276
+77062,29.576,-95.134
+77063,29.736,-95.522
+77064,29.924,-95.542
+77065,29.926,-95.604
+77066,29.957,-95.503
+77067,29.953,-95.447
+77068,30.007,-95.488
+77069,29.988,-95.523
+77070,29.979,-95.573
+77071,29.652,-95.52
+77072,29.7,-95.585
+77073,30,-95.4
+77074,29.688,-95.516
+77075,29.621,-95.269
+77076,29.86,-95.382
+77077,29.754,-95.642
+77078,29.854,-95.245
+77079,29.778,-95.603
+77080,29.818,-95.522
+77081,29.713,-95.479
+77082,29.724,-95.64
+77083,29.694,-95.648
+77084,29.827,-95.66
+77085,29.621,-95.485
+77086,29.919,-95.492
+77087,29.687,-95.304
+77088,29.881,-95.453
+77089,29.587,-95.226
+77090,30.009,-95.44
+77091,29.853,-95.436
+77092,29.832,-95.475
+77093,29.863,-95.342
+77094,29.771,-95.699
+77095,29.91,-95.659
+77096,29.675,-95.479
+77098,29.735,-95.416
+77099,29.671,-95.586
+77204,29.721,-95.344
+77301,30.31,-95.431
+77302,30.222,-95.345
+77303,30.378,-95.377
+77304,30.33,-95.512
+77306,30.286,-95.312
+77316,30.306,-95.686
+77318,30.445,-95.552
+77320,30.808,-95.558
+77326,30.504,-94.818
+77327,30.348,-94.931
+77328,30.405,-95.192
+77331,30.618,-95.184
+77334,30.782,-95.373
+77335,30.592,-94.921
+77336,30.07,-95.107
+77338,30.014,-95.283
+77339,30.047,-95.221
+77340,30.657,-95.531
+77341,30.698,-95.559
+77342,30.739,-95.559
+77345,30.053,-95.158
+77346,29.992,-95.177
+77350,30.808,-94.912
+77351,30.718,-94.817
+77354,30.208,-95.643
+77355,30.156,-95.749
+77356,30.466,-95.73
+77357,30.157,-95.181
+77358,30.543,-95.443
+77359,30.774,-95.3
+77360,30.846,-95.118
+77362,30.157,-95.671
+77363,30.316,-95.85
+77364,30.773,-95.215
+77365,30.113,-95.275
+77367,30.848,-95.39
+77368,30.451,-94.841
+77369,30.422,-94.735
+77371,30.494,-94.981
+77372,30.268,-95.201
+77373,30.062,-95.384
+77374,30.392,-94.644
+77375,30.095,-95.586
+77376,30.444,-94.675
+77377,30.06,-95.672
+77378,30.478,-95.385
+77379,30.039,-95.534
+77380,30.137,-95.468
+77381,30.177,-95.502
+77382,30.195,-95.548
+77384,30.234,-95.496
+77385,30.187,-95.429
+77386,30.1,-95.356
+77388,30.062,-95.466
+77389,30.123,-95.517
+77396,29.943,-95.262
+77401,29.704,-95.461
+77406,29.646,-95.795
+77407,29.67,-95.708
+77412,29.561,-96.458
+77414,28.905,-95.888
+77415,28.937,-95.707
+77417,29.461,-95.956
+77418,29.987,-96.253
+77419,28.872,-96.252
+77420,29.233,-95.919
+77422,28.97,-95.582
+77423,29.833,-95.987
+77426,30.122,-96.258
+77428,28.673,-96.157
+77429,29.996,-95.665
+77430,29.26,-95.668
+77431,29.133,-95.819
+77432,29.036,-96.228
+77433,29.945,-95.741
+77434,29.524,-96.318
+77435,29.516,-96.121
+77436,29.365,-96.253
+77437,29.204,-96.273
+77440,28.89,-96.145
+77441,29.697,-95.91
+77442,29.438,-96.495
+77443,29.359,-96.181
+77444,29.286,-95.778
+77445,30.097,-96.064
+77446,30.087,-95.99
+77447,30.055,-95.825
+77448,29.416,-96.085
+77449,29.838,-95.734
+77450,29.748,-95.736
+77451,29.463,-96.025
+77453,29.232,-96.019
+77454,29.545,-96.239
+77455,29.132,-96.445
+77456,28.927,-96.09
+77457,28.7,-95.945
+77458,28.963,-96.25
+77459,29.526,-95.534
+77460,29.397,-96.385
+77461,29.393,-95.775
+77464,29.621,-95.939
+77465,28.712,-96.226
+77466,29.793,-96.012
+77467,29.234,-96.182
+77468,29.137,-95.851
+77469,29.491,-95.702
+77470,29.534,-96.533
+77471,29.549,-95.862
+77473,29.795,-96.104
+77474,29.774,-96.19
+77475,29.511,-96.673
+77476,29.677,-95.973
+77477,29.624,-95.568
+77478,29.618,-95.608
+77479,29.565,-95.635
+77480,29.091,-95.77
+77481,29.471,-95.571
+77482,29.093,-95.903
+77483,28.781,-95.872
+77484,30.086,-95.927
+77485,29.641,-96.063
+77486,29.16,-95.692
+77488,29.296,-96.095
+77489,29.6,-95.516
+77493,29.853,-95.831
+77494,29.745,-95.816
+77498,29.641,-95.656
+77502,29.68,-95.2
+77503,29.691,-95.157
+77504,29.648,-95.19
+77505,29.648,-95.141
+77506,29.718,-95.191
+77507,29.624,-95.063
+77510,29.349,-95.092
+77511,29.381,-95.245
+77514,29.688,-94.626
+77515,29.173,-95.452
+77517,29.36,-95.141
+77518,29.505,-94.987
+77519,30.218,-94.575
+77520,29.737,-95.001
+77521,29.812,-94.963
+77523,29.766,-94.866
+77530,29.789,-95.114
+77531,29.039,-95.402
+77532,29.933,-95.057
+77533,30.087,-94.6
+77534,29.215,-95.311
+77535,30.055,-94.922
+77536,29.692,-95.117
+77538,29.974,-94.523
+77539,29.453,-95.028
+77541,29.016,-95.326
+77545,29.537,-95.473
+77546,29.511,-95.193
+77547,29.74,-95.239
+77550,29.308,-94.769
+77551,29.279,-94.834
+77554,29.235,-94.924
+77555,29.311,-94.776
+77560,29.867,-94.587
+77561,30.135,-94.736
+77562,29.83,-95.055
+77563,29.304,-95.032
+77564,30.232,-94.656
+77565,29.538,-95.033
+77566,29.053,-95.474
+77568,29.366,-94.988
+77571,29.688,-95.057
+77573,29.504,-95.087
+77575,30.081,-94.753
+77577,29.26,-95.265
+77578,29.485,-95.362
+77580,29.858,-94.874
+77581,29.562,-95.28
+77582,30.014,-94.662
+77583,29.374,-95.454
+77584,29.545,-95.351
+77585,30.331,-94.534
+77586,29.582,-95.039
+77587,29.661,-95.228
+77590,29.379,-94.917
+77591,29.399,-94.999
+77597,29.828,-94.696
+77598,29.539,-95.135
+77611,30.014,-93.828
+77612,30.402,-93.935
+77613,30.028,-94.359
+77614,30.306,-93.748
+77615,30.357,-94.066
+77616,30.567,-94.209
+77617,29.531,-94.47
+77619,29.946,-93.917
+77622,29.862,-94.286
+77623,29.561,-94.414
+77624,30.679,-94.271
+77625,30.368,-94.391
+77627,29.99,-94.007
+77629,29.977,-94.433
+77630,30.066,-93.87
+77632,30.202,-93.805
+77640,29.881,-93.941
+77642,29.958,-93.892
+77650,29.439,-94.664
+77651,29.981,-93.948
+77655,29.711,-93.938
+77656,30.424,-94.169
+77657,30.227,-94.189
+77659,30.171,-94.432
+77660,30.645,-94.14
+77661,29.78,-94.369
+77662,30.178,-94.018
+77663,30.513,-94.407
+77664,30.585,-94.396
+77665,29.79,-94.406
+77701,30.073,-94.105
+77702,30.086,-94.128
+77703,30.114,-94.109
+77705,29.908,-94.175
+77706,30.1,-94.167
+77707,30.053,-94.166
+77708,30.15,-94.153
+77713,30.069,-94.26
+77801,30.639,-96.362
+77802,30.661,-96.322
+77803,30.678,-96.387
+77807,30.678,-96.484
+77808,30.798,-96.312
+77830,30.532,-95.998
+77831,30.732,-95.907
+77833,30.206,-96.41
+77835,30.194,-96.588
+77836,30.542,-96.676
+77837,31.014,-96.678
+77840,30.612,-96.323
+77843,30.615,-96.34
+77845,30.561,-96.275
+77852,30.428,-96.758
+77853,30.355,-96.841
+77855,31.155,-96.103
+77856,31.092,-96.412
+77857,30.791,-96.755
+77859,30.88,-96.516
+77861,30.722,-96.109
+77863,30.391,-96.559
+77864,30.96,-95.894
+77865,31.212,-96.203
+77866,30.495,-96.215
+77867,30.743,-96.571
+77868,30.366,-96.046
+77871,31.057,-96.111
+77872,30.885,-96.09
+77873,30.583,-95.801
+77875,30.579,-95.942
+77876,30.598,-95.857
+77878,30.491,-96.434
+77879,30.417,-96.466
+77880,30.287,-96.189
+77882,30.911,-96.379
+77901,28.806,-96.986
+77904,28.918,-97.012
+77905,28.737,-97.06
+77950,28.246,-96.897
+77951,28.636,-96.911
+77954,29.096,-97.296
+77957,29.036,-96.716
+77960,28.654,-97.252
+77961,28.846,-96.377
+77962,29.031,-96.503
+77963,28.652,-97.406
+77964,29.379,-96.835
+77968,28.916,-96.854
+77969,28.783,-96.654
+77970,28.846,-96.434
+77971,28.833,-96.522
+77973,28.532,-96.964
+77974,28.898,-97.289
+77975,29.576,-97.082
+77976,28.941,-97.134
+77977,28.681,-96.802
+77978,28.69,-96.578
+77979,28.61,-96.619
+77982,28.445,-96.492
+77983,28.376,-96.697
+77984,29.466,-97.194
+77986,29.477,-96.796
+77987,29.346,-97.08
+77988,28.837,-96.885
+77990,28.485,-96.925
+77991,28.785,-96.596
+77993,28.856,-97.42
+77994,29.178,-97.472
+77995,29.2,-97.092
+78001,28.232,-99.222
+78002,29.284,-98.738
+78003,29.708,-99.104
+78004,29.858,-98.538
+78005,28.936,-98.833
+78006,29.859,-98.703
+78007,28.476,-98.408
+78008,28.728,-98.26
+78009,29.368,-98.89
+78010,29.911,-99.047
+78011,28.813,-98.726
+78012,28.772,-98.454
+78013,29.977,-98.905
+78014,28.395,-99.114
+78015,29.743,-98.651
+78016,29.181,-98.952
+78017,28.742,-99.208
+78019,28.024,-99.271
+78021,28.437,-98.831
+78022,28.238,-98.169
+78023,29.622,-98.756
+78024,29.995,-99.486
+78025,30.078,-99.285
+78026,28.747,-98.559
+78027,29.981,-98.529
+78028,30.037,-99.163
+78029,29.9,-99.187
+78039,29.312,-98.835
+78040,27.513,-99.502
+78041,27.56,-99.463
+78043,27.57,-99.304
+78044,27.733,-99.23
+78045,27.834,-99.681
+78046,27.386,-99.389
+78050,29.089,-98.502
+78052,29.21,-98.775
+78055,29.83,-99.331
+78056,29.541,-98.943
+78057,29.043,-99.016
+78058,30.106,-99.601
+78059,29.189,-98.841
+78061,28.902,-99.127
+78062,28.749,-98.203
+78063,29.69,-98.911
+78064,28.925,-98.429
+78065,29.08,-98.642
+78066,29.493,-98.892
+78067,27.104,-99.363
+78069,29.188,-98.672
+78070,29.892,-98.408
+78071,28.474,-98.199
+78072,28.325,-98.586
+78073,29.244,-98.622
+78074,29.942,-98.792
+78075,28.59,-98.271
+78076,26.934,-99.131
+78101,29.354,-98.238
+78102,28.415,-97.714
+78104,28.524,-97.762
+78107,28.568,-97.579
+78108,29.57,-98.218
+78109,29.478,-98.293
+78111,29.035,-97.737
+78112,29.187,-98.393
+78113,28.945,-98.132
+78114,29.127,-98.198
+78116,29.102,-97.744
+78117,28.938,-97.924
+78118,28.875,-97.937
+78119,28.721,-97.914
+78121,29.351,-98.089
+78122,29.457,-97.708
+78123,29.605,-98.039
+78124,29.557,-98.147
+78125,28.532,-97.967
+78130,29.694,-98.069
+78132,29.759,-98.191
+78133,29.884,-98.252
+78140,29.307,-97.763
+78141,28.908,-97.619
+78142,28.536,-97.813
+78143,29.259,-97.851
+78144,28.951,-97.893
+78145,28.645,-97.992
+78146,28.604,-97.84
+78147,29.073,-98.08
+78148,29.543,-98.296
+78150,29.538,-98.282
+78151,28.87,-97.713
+78152,29.429,-98.205
+78154,29.547,-98.263
+78155,29.543,-97.938
+78159,29.226,-97.585
+78160,29.245,-97.909
+78161,29.286,-98.05
+78162,28.578,-97.794
+78163,29.769,-98.441
+78164,28.98,-97.521
+78201,29.468,-98.529
+78202,29.428,-98.461
+78203,29.415,-98.459
+78204,29.404,-98.505
+78205,29.424,-98.486
+78207,29.422,-98.526
+78208,29.44,-98.458
+78209,29.489,-98.456
+78210,29.396,-98.464
+78211,29.343,-98.57
+78212,29.465,-98.494
+78213,29.516,-98.523
+78214,29.35,-98.477
+78215,29.44,-98.48
+78216,29.539,-98.491
+78217,29.54,-98.42
+78218,29.495,-98.397
+78219,29.44,-98.384
+78220,29.412,-98.398
+78221,29.299,-98.483
+78222,29.356,-98.386
+78223,29.31,-98.388
+78224,29.31,-98.546
+78225,29.388,-98.526
+78226,29.384,-98.57
+78227,29.39,-98.639
+78228,29.461,-98.571
+78229,29.506,-98.577
+78230,29.547,-98.557
+78231,29.581,-98.543
+78232,29.59,-98.476
+78233,29.555,-98.364
+78234,29.461,-98.438
+78235,29.344,-98.439
+78236,29.386,-98.623
+78237,29.421,-98.566
+78238,29.472,-98.618
+78239,29.516,-98.362
+78240,29.525,-98.604
+78242,29.35,-98.607
+78243,29.371,-98.593
+78244,29.478,-98.351
+78245,29.393,-98.741
+78247,29.581,-98.409
+78248,29.59,-98.525
+78249,29.568,-98.614
+78250,29.503,-98.665
+78251,29.462,-98.677
+78252,29.336,-98.691
+78253,29.47,-98.788
+78254,29.531,-98.727
+78255,29.649,-98.666
+78256,29.622,-98.626
+78257,29.647,-98.581
+78258,29.634,-98.49
+78259,29.625,-98.422
+78260,29.699,-98.493
+78261,29.69,-98.402
+78263,29.329,-98.313
+78264,29.201,-98.509
+78266,29.65,-98.338
+78330,27.756,-97.926
+78332,27.724,-98.134
+78336,27.928,-97.171
+78338,26.856,-97.732
+78339,27.8,-97.796
+78340,28.121,-97.197
+78341,27.575,-98.471
+78342,27.66,-98.076
+78343,27.626,-97.766
+78344,27.56,-98.855
+78347,27.573,-97.486
+78349,27.373,-98.285
+78351,27.668,-97.753
+78352,27.982,-97.69
+78353,26.883,-98.241
+78355,27.189,-98.206
+78357,27.934,-98.567
+78358,28.068,-97.042
+78359,27.93,-97.301
+78360,26.861,-98.832
+78361,27.053,-98.748
+78362,27.854,-97.196
+78363,27.437,-97.854
+78368,28.114,-97.802
+78369,27.429,-99.086
+78370,27.935,-97.606
+78371,27.513,-99.074
+78372,28.01,-98.099
+78373,27.776,-97.13
+78374,27.885,-97.3
+78375,27.396,-98.171
+78376,27.367,-98.483
+78377,28.322,-97.162
+78379,27.307,-97.78
+78380,27.776,-97.742
+78382,28.113,-97.046
+78383,28.073,-97.944
+78384,27.735,-98.472
+78385,27.122,-97.836
+78387,28.081,-97.549
+78389,28.246,-97.651
+78390,28.008,-97.35
+78391,28.18,-97.708
+78393,28.185,-97.354
+78401,27.797,-97.399
+78402,27.852,-97.439
+78404,27.768,-97.399
+78405,27.774,-97.439
+78406,27.772,-97.515
+78407,27.808,-97.448
+78408,27.8,-97.444
+78409,27.828,-97.51
+78410,27.838,-97.593
+78411,27.729,-97.385
+78412,27.704,-97.345
+78413,27.686,-97.406
+78414,27.662,-97.372
+78415,27.659,-97.495
+78416,27.749,-97.438
+78417,27.738,-97.468
+78418,27.389,-97.329
+78419,27.697,-97.269
+78501,26.216,-98.24
+78503,26.162,-98.249
+78504,26.283,-98.237
+78516,26.145,-98.121
+78520,25.961,-97.549
+78521,25.944,-97.318
+78526,25.996,-97.451
+78535,26.25,-97.731
+78536,26.643,-98.444
+78537,26.173,-98.058
+78538,26.367,-97.974
+78539,26.281,-98.183
+78540,26.549,-97.992
+78541,26.452,-98.277
+78542,26.433,-98.09
+78543,26.301,-98.005
+78545,26.586,-99.135
+78547,26.304,-98.696
+78548,26.277,-98.655
+78549,26.489,-98.03
+78550,26.256,-97.663
+78552,26.194,-97.751
+78557,26.109,-98.253
+78558,26.293,-98.024
+78559,26.146,-97.826
+78560,26.265,-98.486
+78561,26.469,-97.916
+78562,26.284,-97.891
+78563,26.672,-98.255
+78564,26.671,-99.131
+78565,26.244,-98.561
+78566,26.137,-97.389
+78567,26.044,-97.738
+78569,26.379,-97.747
+78570,26.172,-97.911
+78572,26.201,-98.357
+78573,26.296,-98.3
+78574,26.311,-98.373
+78575,26.033,-97.55
+78576,26.317,-98.464
+78577,26.163,-98.194
+78578,26.044,-97.307
+78579,26.089,-97.946
+78580,26.501,-97.748
+78582,26.531,-98.74
+78583,26.286,-97.472
+78584,26.57,-98.992
+78585,26.484,-99.081
+78586,26.11,-97.645
+78588,26.74,-98.399
+78589,26.151,-98.159
+78590,26.502,-97.635
+78591,26.639,-98.552
+78592,26.062,-97.847
+78593,26.276,-97.824
+78594,26.346,-97.806
+78595,26.315,-98.54
+78596,26.097,-98
+78597,26.273,-97.276
+78598,26.542,-97.42
+78599,26.217,-97.988
+78602,30.133,-97.33
+78605,30.773,-98.045
+78606,30.086,-98.458
+78607,30.819,-98.488
+78608,30.931,-97.937
+78609,30.747,-98.451
+78610,30.079,-97.841
+78611,30.801,-98.283
+78612,30.094,-97.495
+78613,30.507,-97.819
+78614,29.41,-97.587
+78615,30.463,-97.393
+78616,29.927,-97.554
+78617,30.147,-97.601
+78618,30.488,-99.174
+78619,30.112,-98.031
+78620,30.226,-98.136
+78621,30.337,-97.36
+78622,29.783,-97.779
+78623,29.955,-98.217
+78624,30.292,-98.871
+78626,30.658,-97.618
+78628,30.665,-97.779
+78629,29.477,-97.449
+78631,30.34,-99.307
+78632,29.686,-97.471
+78633,30.735,-97.755
+78634,30.56,-97.544
+78635,30.202,-98.542
+78636,30.317,-98.425
+78638,29.66,-97.785
+78639,30.656,-98.456
+78640,29.995,-97.821
+78641,30.558,-97.914
+78642,30.696,-97.94
+78643,30.68,-98.715
+78644,29.873,-97.674
+78645,30.45,-97.972
+78648,29.694,-97.638
+78650,30.304,-97.219
+78652,30.135,-97.861
+78653,30.338,-97.521
+78654,30.572,-98.21
+78655,29.816,-97.835
+78656,29.905,-97.807
+78657,30.533,-98.378
+78658,29.596,-97.623
+78659,30.207,-97.125
+78660,30.44,-97.595
+78661,29.722,-97.759
+78662,29.945,-97.444
+78663,30.416,-98.312
+78664,30.505,-97.647
+78665,30.549,-97.636
+78666,29.882,-97.985
+78669,30.442,-98.123
+78670,29.765,-97.849
+78671,30.219,-98.63
+78672,30.882,-98.489
+78674,30.671,-97.598
+78675,30.435,-98.707
+78676,30.039,-98.16
+78677,29.348,-97.59
+78681,30.542,-97.717
+78701,30.271,-97.743
+78702,30.263,-97.714
+78703,30.293,-97.766
+78704,30.243,-97.765
+78705,30.295,-97.739
+78712,30.284,-97.733
+78717,30.49,-97.754
+78719,30.14,-97.673
+78721,30.271,-97.683
+78722,30.29,-97.715
+78723,30.304,-97.686
+78724,30.293,-97.618
+78725,30.23,-97.609
+78726,30.431,-97.84
+78727,30.429,-97.718
+78728,30.453,-97.689
+78729,30.457,-97.756
+78730,30.364,-97.84
+78731,30.348,-97.768
+78732,30.38,-97.892
+78733,30.321,-97.885
+78734,30.38,-97.948
+78735,30.269,-97.869
+78736,30.248,-97.95
+78737,30.177,-97.957
+78738,30.307,-97.989
+78739,30.176,-97.891
+78741,30.23,-97.714
+78742,30.242,-97.659
+78744,30.178,-97.725
+78745,30.207,-97.798
+78746,30.297,-97.81
+78747,30.125,-97.741
+78748,30.16,-97.823
+78749,30.216,-97.856
+78750,30.441,-97.787
+78751,30.311,-97.723
+78752,30.331,-97.704
+78753,30.384,-97.673
+78754,30.357,-97.639
+78756,30.322,-97.74
+78757,30.352,-97.733
+78758,30.388,-97.707
+78759,30.403,-97.761
+78801,29.363,-99.898
+78802,29.146,-99.921
+78827,28.431,-99.724
+78828,29.844,-100.009
+78829,28.891,-99.584
+78830,28.519,-99.477
+78832,29.41,-100.391
+78833,29.695,-99.972
+78834,28.545,-99.868
+78836,28.316,-99.634
+78837,29.931,-101.285
+78838,29.535,-99.707
+78839,28.714,-99.74
+78840,29.73,-100.926
+78841,29.843,-101.474
+78842,29.64,-101.005
+78843,29.344,-100.789
+78850,29.285,-99.329
+78851,30.216,-101.925
+78852,28.944,-100.227
+78860,28.401,-100.231
+78861,29.415,-99.156
+78870,29.274,-99.608
+78871,29.901,-101.62
+78872,28.907,-99.881
+78873,29.815,-99.727
+78877,28.953,-100.607
+78879,29.647,-99.711
+78880,29.951,-100.276
+78881,29.382,-99.496
+78883,29.674,-99.317
+78884,29.637,-99.507
+78885,29.835,-99.558
+78886,29.155,-99.186
+78931,30.038,-96.441
+78932,30.164,-96.718
+78933,29.801,-96.368
+78934,29.703,-96.567
+78935,29.695,-96.424
+78938,29.814,-96.708
+78940,29.94,-96.659
+78941,29.728,-97.158
+78942,30.155,-96.938
+78943,29.699,-96.596
+78944,30.001,-96.487
+78945,29.917,-96.889
+78946,30.188,-96.779
+78947,30.443,-97.064
+78948,30.321,-96.977
+78949,29.848,-97.08
+78950,29.905,-96.483
+78951,29.621,-96.837
+78953,29.844,-97.358
+78954,30.043,-96.699
+78956,29.686,-96.934
+78957,30.014,-97.182
+78959,29.701,-97.301
+78962,29.674,-96.734
+78963,29.917,-97.029
+79001,35.291,-102.805
+79002,35.204,-100.77
+79003,35.64,-100.083
+79005,36.386,-100.516
+79007,35.668,-101.412
+79008,35.698,-101.424
+79009,34.529,-102.883
+79010,35.452,-102.141
+79011,35.635,-100.207
+79012,35.117,-102.107
+79013,36.041,-101.996
+79014,35.924,-100.333
+79015,34.947,-101.901
+79016,34.983,-101.915
+79018,35.706,-102.344
+79019,34.98,-101.389
+79021,33.984,-101.993
+79022,36.098,-102.607
+79024,36.44,-100.369
+79025,34.949,-102.201
+79027,34.498,-102.338
+79029,35.902,-102.026
+79031,34.244,-102.45
+79032,34.288,-101.895
+79033,36.307,-100.977
+79034,36.38,-100.165
+79035,34.682,-102.782
+79036,35.593,-101.544
+79039,35.239,-101.133
+79040,36.296,-101.587
+79041,34.043,-101.932
+79042,34.741,-101.894
+79043,34.368,-102.135
+79044,35.863,-102.367
+79045,34.9,-102.515
+79046,36.139,-100.107
+79051,36.444,-102.224
+79052,34.358,-101.765
+79053,34.408,-102.579
+79054,35.43,-100.784
+79056,36.217,-100.221
+79057,35.198,-100.621
+79058,35.595,-101.951
+79059,35.799,-100.734
+79061,35.524,-100.452
+79062,35.989,-101.53
+79063,34.517,-102.115
+79064,34.181,-102.119
+79065,35.517,-100.9
+79066,35.499,-101.034
+79068,35.328,-101.444
+79070,36.237,-100.787
+79072,34.172,-101.745
+79073,33.956,-101.949
+79078,35.699,-101.55
+79079,35.207,-100.249
+79080,35.702,-101.213
+79081,36.219,-101.205
+79082,34.219,-102.286
+79083,35.87,-101.512
+79084,36.26,-102.027
+79085,34.74,-102.509
+79086,36.125,-101.784
+79087,36.321,-102.917
+79088,34.575,-101.692
+79091,34.871,-102.1
+79092,35.314,-102.51
+79093,36.266,-101.03
+79094,34.84,-101.51
+79095,34.884,-100.196
+79096,35.458,-100.2
+79097,35.431,-101.174
+79098,35.152,-102.216
+79101,35.206,-101.84
+79102,35.201,-101.849
+79103,35.182,-101.8
+79104,35.201,-101.79
+79106,35.203,-101.892
+79107,35.232,-101.794
+79108,35.301,-101.676
+79109,35.166,-101.886
+79110,35.151,-101.87
+79111,35.22,-101.708
+79118,35.106,-101.74
+79119,35.109,-102.018
+79121,35.174,-101.929
+79124,35.259,-102.047
+79201,34.405,-100.341
+79220,33.767,-100.764
+79223,34.232,-100.481
+79225,34.25,-99.507
+79226,34.918,-100.997
+79227,33.872,-99.747
+79229,33.667,-100.744
+79230,34.71,-100.054
+79231,33.942,-101.066
+79233,34.498,-100.494
+79234,34.217,-100.926
+79235,33.942,-101.263
+79236,33.603,-100.3
+79237,34.858,-100.673
+79239,34.656,-100.764
+79240,34.884,-100.761
+79241,34.18,-101.388
+79243,33.768,-101.025
+79244,34.058,-100.793
+79245,34.681,-100.476
+79247,34.397,-99.381
+79248,33.943,-100.224
+79250,33.894,-101.599
+79251,34.943,-100.452
+79252,34.307,-99.797
+79255,34.35,-101.051
+79256,33.882,-100.831
+79257,34.447,-101.299
+79258,34.243,-101.296
+79259,34.358,-100.454
+79261,34.45,-100.873
+79311,33.858,-101.882
+79312,34.023,-102.307
+79313,33.813,-102.161
+79314,33.63,-103.03
+79316,33.134,-102.305
+79322,33.661,-101.209
+79323,32.933,-102.905
+79324,33.888,-102.735
+79325,34.414,-102.934
+79326,34.099,-102.214
+79329,33.716,-101.692
+79330,33.018,-101.262
+79331,32.671,-101.973
+79336,33.6,-102.4
+79339,33.887,-102.355
+79342,32.903,-102.332
+79343,33.646,-101.553
+79344,33.857,-103.014
+79345,33.338,-102.331
+79346,33.645,-102.826
+79347,34.186,-102.798
+79350,33.731,-101.826
+79351,32.938,-101.777
+79353,33.784,-102.591
+79355,33.166,-102.895
+79356,33.285,-101.342
+79357,33.646,-101.406
+79358,33.422,-102.191
+79359,32.924,-102.544
+79360,32.69,-102.724
+79363,33.708,-102.045
+79364,33.445,-101.632
+79366,33.53,-101.685
+79367,33.589,-102.168
+79369,33.943,-102.159
+79370,33.445,-100.93
+79371,33.98,-102.697
+79372,33.425,-102.501
+79373,33.159,-101.839
+79376,33.248,-102.637
+79377,32.93,-102.134
+79378,33.028,-102.447
+79379,33.495,-102.653
+79380,33.739,-102.328
+79381,33.313,-101.771
+79382,33.469,-102.018
+79383,33.324,-101.908
+79401,33.587,-101.852
+79402,33.581,-101.842
+79403,33.644,-101.758
+79404,33.528,-101.794
+79406,33.586,-101.878
+79407,33.561,-102.086
+79410,33.57,-101.891
+79411,33.57,-101.858
+79412,33.546,-101.857
+79413,33.546,-101.89
+79414,33.548,-101.92
+79415,33.701,-101.897
+79416,33.6,-101.983
+79423,33.44,-101.855
+79424,33.465,-101.935
+79501,32.741,-99.89
+79502,33.182,-100.264
+79503,32.887,-99.696
+79504,32.31,-99.354
+79505,33.56,-99.844
+79506,32.117,-100.33
+79508,32.27,-99.83
+79510,32.266,-99.519
+79511,32.434,-101.269
+79512,32.323,-100.932
+79517,32.88,-101.247
+79518,33.308,-100.746
+79519,32.044,-99.7
+79520,32.877,-100.128
+79521,33.12,-99.632
+79525,32.66,-99.827
+79526,32.65,-100.756
+79527,32.595,-101.099
+79528,33.165,-100.578
+79529,33.435,-99.829
+79530,32.104,-99.78
+79532,32.408,-100.714
+79533,32.849,-99.547
+79534,32.753,-100.225
+79535,32.223,-100.48
+79536,32.474,-100.025
+79537,32.276,-100.22
+79538,31.976,-99.702
+79539,33.36,-99.889
+79540,33.151,-100.071
+79541,32.148,-99.81
+79543,32.721,-100.38
+79544,33.293,-99.858
+79545,32.415,-100.574
+79546,32.88,-100.488
+79547,33.198,-99.905
+79548,33.071,-99.913
+79549,32.899,-100.932
+79553,32.941,-99.851
+79556,32.485,-100.392
+79560,32.665,-100.213
+79561,32.513,-100.177
+79562,32.236,-99.866
+79563,32.416,-99.906
+79565,32.379,-101.103
+79566,32.157,-100.112
+79567,31.989,-99.977
+79601,32.573,-99.642
+79602,32.336,-99.667
+79603,32.334,-99.928
+79605,32.435,-99.782
+79606,32.363,-99.817
+79607,32.423,-99.839
+79699,32.462,-99.715
+79701,31.992,-102.081
+79703,31.98,-102.132
+79705,32.104,-102.06
+79706,31.847,-101.969
+79707,32.043,-102.205
+79713,32.496,-101.748
+79714,32.312,-102.64
+79718,30.994,-103.735
+79719,31.461,-103.404
+79720,32.199,-101.505
+79721,32.225,-101.527
+79730,31.193,-103.052
+79731,31.436,-102.582
+79733,32.11,-101.367
+79734,30.682,-103.981
+79735,30.786,-102.851
+79738,32.752,-101.475
+79739,31.769,-101.506
+79741,32.008,-102.648
+79742,31.36,-102.853
+79743,31.237,-102.789
+79744,30.891,-101.913
+79745,31.833,-103.055
+79748,32.39,-101.664
+79749,32.255,-101.834
+79752,31.113,-102.191
+79754,31.82,-103.488
+79755,31.525,-101.998
+79756,31.535,-102.877
+79758,32.013,-102.327
+79759,31.799,-102.633
+79761,31.856,-102.348
+79762,31.925,-102.358
+79763,31.813,-102.455
+79764,31.877,-102.473
+79765,31.897,-102.263
+79766,31.716,-102.376
+79769,31.683,-102.625
+79770,31.855,-103.912
+79772,31.4,-103.584
+79776,31.775,-102.556
+79777,31.485,-103.161
+79778,31.259,-101.974
+79780,31.039,-103.658
+79781,30.615,-101.766
+79782,32.189,-101.883
+79783,32.332,-102.05
+79785,31.321,-103.94
+79788,31.603,-102.984
+79789,31.775,-103.27
+79821,31.977,-106.599
+79830,30.212,-103.627
+79832,30.363,-103.649
+79834,29.183,-103.262
+79835,31.936,-106.596
+79836,31.57,-106.212
+79837,32.095,-105.162
+79838,31.486,-106.161
+79839,31.421,-105.642
+79842,30.013,-103.028
+79843,29.87,-104.412
+79845,29.653,-104.397
+79846,29.388,-103.99
+79847,31.747,-105.175
+79848,30.12,-102.398
+79849,31.567,-106.258
+79851,31.28,-105.258
+79852,29.365,-103.615
+79853,31.434,-106.063
+79854,30.625,-104.61
+79855,30.931,-104.861
+79901,31.759,-106.48
+79902,31.785,-106.497
+79903,31.786,-106.442
+79904,31.849,-106.465
+79905,31.766,-106.426
+79906,31.809,-106.42
+79907,31.707,-106.327
+79908,31.833,-106.365
+79911,31.936,-106.536
+79912,31.849,-106.534
+79915,31.746,-106.371
+79916,31.867,-106.387
+79918,31.847,-106.369
+79920,31.823,-106.46
+79922,31.81,-106.556
+79924,31.902,-106.414
+79925,31.805,-106.369
+79927,31.645,-106.275
+79928,31.679,-106.115
+79930,31.81,-106.469
+79932,31.875,-106.608
+79934,31.951,-106.434
+79935,31.768,-106.33
+79936,31.774,-106.295
+79938,31.846,-106.02
+80002,39.794,-105.108
+80003,39.825,-105.064
+80004,39.814,-105.122
+80005,39.852,-105.131
+80007,39.867,-105.198
+80010,39.739,-104.862
+80011,39.744,-104.79
+80012,39.7,-104.838
+80013,39.661,-104.766
+80014,39.664,-104.838
+80015,39.628,-104.793
+80016,39.593,-104.722
+80017,39.699,-104.775
+80018,39.702,-104.687
+80019,39.779,-104.685
+80020,39.931,-105.074
+80021,39.891,-105.114
+80022,39.861,-104.789
+80023,39.976,-105.009
+80024,39.844,-104.918
+80025,39.926,-105.299
+80026,40.012,-105.1
+80027,39.952,-105.158
+80030,39.831,-105.037
+80031,39.874,-105.039
+80033,39.773,-105.105
+80045,39.747,-104.837
+80101,39.407,-103.944
+80102,39.734,-104.439
+80103,39.791,-104.094
+80104,39.302,-104.82
+80105,39.637,-103.966
+80106,39.186,-104.516
+80107,39.412,-104.572
+80108,39.444,-104.853
+80109,39.372,-104.912
+80110,39.646,-105.011
+80111,39.612,-104.883
+80112,39.573,-104.865
+80113,39.644,-104.965
+80116,39.32,-104.71
+80117,39.396,-104.39
+80118,39.19,-104.882
+80120,39.594,-105.011
+80121,39.61,-104.954
+80122,39.58,-104.955
+80123,39.616,-105.069
+80124,39.533,-104.891
+80125,39.485,-105.063
+80126,39.542,-104.963
+80127,39.531,-105.164
+80128,39.561,-105.08
+80129,39.547,-105.012
+80130,39.528,-104.924
+80131,39.476,-105.009
+80132,39.087,-104.858
+80133,39.113,-104.9
+80134,39.483,-104.78
+80135,39.255,-105.157
+80136,39.792,-104.28
+80137,39.712,-104.594
+80138,39.518,-104.671
+80202,39.752,-104.998
+80203,39.731,-104.983
+80204,39.735,-105.021
+80205,39.759,-104.965
+80206,39.73,-104.953
+80207,39.761,-104.917
+80209,39.707,-104.966
+80210,39.677,-104.962
+80211,39.767,-105.02
+80212,39.772,-105.048
+80214,39.743,-105.069
+80215,39.745,-105.116
+80216,39.788,-104.961
+80218,39.731,-104.971
+80219,39.695,-105.036
+80220,39.734,-104.916
+80221,39.816,-105.012
+80222,39.671,-104.928
+80223,39.696,-105.004
+80224,39.688,-104.912
+80226,39.71,-105.092
+80227,39.665,-105.102
+80228,39.695,-105.173
+80229,39.854,-104.958
+80230,39.72,-104.889
+80231,39.671,-104.888
+80232,39.688,-105.089
+80233,39.898,-104.944
+80234,39.91,-105.003
+80235,39.648,-105.089
+80236,39.652,-105.04
+80237,39.64,-104.902
+80238,39.777,-104.88
+80239,39.789,-104.834
+80241,39.929,-104.954
+80246,39.705,-104.931
+80247,39.698,-104.879
+80249,39.855,-104.696
+80260,39.867,-105.001
+80264,39.742,-104.985
+80266,39.79,-104.9
+80290,39.744,-104.987
+80293,39.746,-104.99
+80294,39.75,-104.99
+80301,40.046,-105.201
+80302,40.025,-105.349
+80303,39.973,-105.209
+80304,40.045,-105.288
+80305,39.977,-105.249
+80310,40.004,-105.261
+80401,39.719,-105.235
+80403,39.829,-105.317
+80419,39.728,-105.202
+80420,39.324,-106.116
+80421,39.461,-105.501
+80422,39.862,-105.54
+80423,39.846,-106.555
+80424,39.473,-106.004
+80425,39.35,-105.206
+80426,39.875,-106.991
+80427,39.794,-105.524
+80428,40.844,-106.925
+80430,40.519,-106.416
+80432,39.23,-105.838
+80433,39.498,-105.303
+80434,40.903,-106.285
+80435,39.574,-105.935
+80436,39.781,-105.64
+80438,39.744,-105.796
+80439,39.634,-105.44
+80440,39.132,-106.055
+80442,39.925,-105.888
+80443,39.503,-106.174
+80444,39.632,-105.735
+80446,40.164,-105.935
+80447,40.296,-105.822
+80448,39.477,-105.834
+80449,38.93,-105.79
+80451,40.04,-106.045
+80452,39.712,-105.597
+80453,39.665,-105.243
+80454,39.63,-105.247
+80455,40.095,-105.398
+80456,39.31,-105.689
+80457,39.651,-105.3
+80459,40.155,-106.414
+80461,39.242,-106.288
+80463,39.982,-106.758
+80465,39.609,-105.206
+80466,39.988,-105.544
+80467,40.208,-106.826
+80468,39.915,-106.111
+80469,40.214,-106.968
+80470,39.38,-105.324
+80471,39.935,-105.421
+80473,40.449,-106.16
+80474,39.923,-105.569
+80475,39.411,-105.608
+80476,39.671,-105.834
+80478,40.022,-105.857
+80479,39.993,-106.847
+80480,40.673,-106.342
+80481,40.101,-105.577
+80482,39.902,-105.786
+80483,40.092,-106.936
+80487,40.581,-106.886
+80498,39.747,-106.271
+80501,40.165,-105.102
+80503,40.169,-105.21
+80504,40.166,-105.029
+80510,40.212,-105.607
+80512,40.631,-105.574
+80513,40.299,-105.119
+80514,40.071,-104.955
+80515,40.462,-105.382
+80516,40.053,-105.021
+80517,40.398,-105.615
+80520,40.114,-104.933
+80521,40.593,-105.127
+80524,40.647,-105.03
+80525,40.527,-105.041
+80526,40.522,-105.129
+80528,40.499,-105.005
+80530,40.102,-104.923
+80532,40.484,-105.466
+80534,40.332,-104.937
+80535,40.736,-105.191
+80536,40.879,-105.381
+80537,40.383,-105.2
+80538,40.545,-105.245
+80540,40.225,-105.4
+80542,40.234,-104.999
+80543,40.35,-104.857
+80544,40.103,-105.171
+80545,40.842,-105.703
+80546,40.527,-104.85
+80547,40.527,-104.965
+80549,40.858,-105.044
+80550,40.489,-104.9
+80601,39.962,-104.808
+80602,39.966,-104.909
+80603,39.951,-104.66
+80610,40.674,-104.591
+80611,40.625,-104.249
+80612,40.879,-104.824
+80615,40.546,-104.646
+80620,40.376,-104.714
+80621,40.107,-104.801
+80622,40.539,-104.442
+80623,40.285,-104.783
+80624,40.435,-104.423
+80631,40.445,-104.68
+80634,40.401,-104.792
+80640,39.888,-104.881
+80642,40.051,-104.612
+80643,40.113,-104.489
+80644,40.335,-104.43
+80645,40.283,-104.649
+80646,40.475,-104.698
+80648,40.763,-104.731
+80649,40.401,-104.186
+80650,40.649,-104.781
+80651,40.242,-104.809
+80652,40.139,-104.275
+80653,40.446,-103.978
+80654,40.136,-104.082
+80701,40.125,-103.818
+80705,40.271,-103.834
+80720,40.073,-103.187
+80721,40.688,-102.153
+80722,40.476,-103.2
+80723,40.194,-103.543
+80726,40.923,-102.777
+80727,40.024,-102.511
+80728,40.64,-102.873
+80729,40.876,-104.227
+80731,40.588,-102.598
+80732,40.988,-104.305
+80733,40.357,-103.475
+80734,40.52,-102.292
+80735,39.71,-102.244
+80736,40.812,-103.027
+80737,40.895,-102.199
+80740,39.744,-103.385
+80741,40.567,-103.477
+80742,40.756,-103.835
+80743,40.215,-102.956
+80744,40.874,-102.392
+80745,40.895,-103.413
+80746,40.607,-102.457
+80747,40.934,-103.181
+80749,40.867,-102.547
+80750,40.415,-103.605
+80751,40.652,-103.241
+80754,40.665,-103.636
+80755,39.897,-102.346
+80757,39.791,-103.583
+80758,40.139,-102.193
+80759,40.111,-102.691
+80801,39.732,-103.101
+80802,38.828,-102.15
+80804,39.347,-103.248
+80805,39.297,-102.437
+80807,39.322,-102.223
+80808,39.008,-104.304
+80809,38.852,-105.009
+80810,38.822,-102.429
+80812,39.633,-102.831
+80813,38.754,-105.12
+80814,38.945,-105.19
+80815,39.389,-103.099
+80816,38.858,-105.316
+80817,38.588,-104.678
+80818,39.422,-103.465
+80819,38.947,-104.998
+80820,38.777,-105.567
+80821,39,-103.447
+80822,39.678,-102.679
+80823,38.663,-103.419
+80824,39.672,-102.5
+80825,38.833,-102.828
+80826,39.219,-103.691
+80827,39.056,-105.467
+80828,39.264,-103.705
+80829,38.829,-104.933
+80830,39.114,-103.913
+80831,38.981,-104.5
+80832,38.897,-103.767
+80833,38.763,-103.965
+80834,39.297,-102.881
+80835,39.219,-104.023
+80836,39.303,-102.582
+80840,39,-104.864
+80860,38.7,-105.097
+80861,39.324,-102.771
+80862,38.922,-103.058
+80863,39.033,-105.054
+80864,38.699,-104.188
+80902,38.684,-104.822
+80903,38.833,-104.814
+80904,38.863,-104.87
+80905,38.819,-104.838
+80906,38.753,-104.878
+80907,38.879,-104.821
+80908,39.048,-104.691
+80909,38.853,-104.774
+80910,38.812,-104.775
+80911,38.753,-104.72
+80913,38.687,-104.749
+80914,38.824,-104.705
+80915,38.85,-104.717
+80916,38.802,-104.709
+80917,38.887,-104.74
+80918,38.91,-104.78
+80919,38.93,-104.879
+80920,38.956,-104.772
+80921,39.061,-104.819
+80922,38.89,-104.701
+80923,38.927,-104.714
+80924,38.967,-104.723
+80925,38.77,-104.644
+80926,38.635,-104.903
+80927,38.928,-104.659
+80928,38.63,-104.402
+80929,38.825,-104.608
+80930,38.805,-104.506
+80938,38.907,-104.657
+80939,38.873,-104.676
+80951,38.879,-104.658
+81001,38.295,-104.537
+81003,38.278,-104.656
+81004,38.044,-104.714
+81005,38.212,-104.832
+81006,38.24,-104.478
+81007,38.386,-104.796
+81008,38.406,-104.579
+81019,37.942,-104.836
+81020,37.465,-104.61
+81021,38.419,-103.376
+81022,38.025,-104.435
+81023,38.066,-104.926
+81024,37.229,-104.712
+81025,38.455,-104.355
+81027,37.247,-103.723
+81029,37.083,-102.509
+81030,38.105,-103.511
+81033,38.196,-103.856
+81036,38.415,-102.793
+81039,37.939,-104.085
+81040,37.783,-105.227
+81041,37.852,-102.398
+81043,38.12,-102.223
+81044,37.86,-102.948
+81045,38.565,-103.154
+81046,37.296,-104.369
+81047,38.01,-102.191
+81049,37.304,-103.39
+81050,37.856,-103.472
+81052,37.974,-102.639
+81054,37.912,-103.19
+81055,37.43,-105.104
+81057,38.123,-102.902
+81058,38.109,-103.887
+81059,37.563,-104.001
+81062,38.297,-103.964
+81063,38.431,-103.771
+81064,37.225,-102.999
+81067,38.016,-103.725
+81069,37.892,-104.889
+81071,38.433,-102.261
+81073,37.425,-102.705
+81076,38.343,-103.602
+81077,38.019,-103.613
+81081,37.065,-104.156
+81082,37.185,-104.414
+81084,37.564,-102.428
+81087,37.392,-102.413
+81089,37.63,-104.675
+81090,37.366,-102.23
+81091,37.149,-104.965
+81092,38.215,-102.908
+81101,37.469,-105.853
+81120,37.195,-106.349
+81121,37.017,-107.42
+81122,37.302,-107.537
+81123,37.411,-105.566
+81124,37.285,-106.107
+81125,37.819,-106.07
+81126,37.161,-105.347
+81128,37.08,-106.621
+81129,37.105,-106.022
+81130,37.702,-107.097
+81131,37.865,-105.679
+81132,37.714,-106.416
+81133,37.45,-105.328
+81136,37.72,-105.813
+81137,37.052,-107.614
+81138,37.023,-105.627
+81140,37.299,-106.161
+81141,37.161,-105.894
+81143,38.158,-105.85
+81144,37.554,-106.139
+81146,37.646,-105.668
+81147,37.287,-107.085
+81148,37.172,-105.985
+81149,38.1,-106.346
+81151,37.239,-105.712
+81152,37.135,-105.396
+81154,37.634,-106.668
+81155,38.286,-106.066
+81201,38.555,-106.107
+81210,38.809,-106.678
+81211,38.973,-106.381
+81212,38.542,-105.423
+81220,38.298,-107.478
+81221,38.362,-105.142
+81222,38.355,-105.816
+81223,38.365,-105.613
+81224,38.88,-106.933
+81225,38.962,-107.016
+81226,38.338,-105.089
+81227,38.549,-106.29
+81228,39.032,-106.277
+81230,38.395,-106.954
+81232,38.275,-105.609
+81233,38.492,-105.814
+81235,37.965,-107.405
+81236,38.676,-106.264
+81237,38.616,-106.621
+81239,38.537,-106.608
+81240,38.5,-105.034
+81241,38.638,-106.491
+81242,38.472,-106.073
+81243,38.266,-107.192
+81244,38.364,-105.165
+81248,38.419,-106.5
+81251,39.143,-106.438
+81252,38.111,-105.428
+81253,38.169,-105.066
+81301,37.529,-107.822
+81303,37.133,-107.844
+81320,37.72,-108.735
+81321,37.313,-108.735
+81323,37.703,-108.127
+81324,37.642,-109.01
+81325,37.919,-108.713
+81326,37.146,-108.117
+81327,37.517,-108.656
+81328,37.271,-108.33
+81330,37.235,-108.478
+81331,37.446,-108.907
+81332,37.7,-107.991
+81334,37.146,-108.613
+81335,37.544,-108.72
+81401,38.515,-107.766
+81403,38.315,-107.928
+81410,38.81,-107.976
+81411,38.252,-108.979
+81413,38.976,-107.899
+81415,38.626,-107.628
+81416,38.64,-108.255
+81418,38.899,-108.058
+81419,38.883,-107.748
+81422,38.32,-108.708
+81423,38.009,-108.427
+81424,38.345,-108.502
+81425,38.458,-108.119
+81426,37.866,-107.821
+81427,38.026,-107.61
+81428,38.963,-107.6
+81429,38.413,-109.002
+81430,38.054,-108.067
+81431,38.144,-108.514
+81432,38.13,-107.745
+81433,37.722,-107.579
+81434,38.982,-107.431
+81435,37.869,-107.925
+81501,39.072,-108.546
+81503,39.034,-108.487
+81504,39.12,-108.489
+81505,39.214,-108.588
+81506,39.125,-108.559
+81507,39.01,-108.652
+81520,39.111,-108.434
+81521,39.157,-108.879
+81522,38.685,-108.921
+81523,38.925,-108.889
+81524,39.291,-108.733
+81525,39.26,-108.967
+81526,39.083,-108.346
+81527,38.798,-108.47
+81601,39.588,-107.339
+81610,40.289,-108.843
+81611,39.158,-106.669
+81612,39.051,-106.845
+81615,39.213,-106.943
+81620,39.613,-106.503
+81621,39.378,-106.876
+81623,39.246,-107.163
+81624,39.159,-107.745
+81625,40.705,-107.736
+81630,39.458,-108.564
+81631,39.626,-106.771
+81632,39.623,-106.607
+81633,40.387,-108.469
+81635,39.535,-108.067
+81637,39.778,-107.106
+81638,40.3,-107.643
+81639,40.565,-107.247
+81640,40.668,-108.514
+81641,40.109,-107.818
+81642,39.313,-106.568
+81643,39.124,-108.149
+81645,39.456,-106.458
+81646,39.104,-108.005
+81647,39.579,-107.533
+81648,39.904,-108.792
+81649,39.484,-106.292
+81650,39.751,-108.114
+81652,39.466,-107.673
+81653,40.896,-107.242
+81654,39.206,-107.046
+81655,39.753,-106.686
+81656,39.279,-106.787
+81657,39.649,-106.326
+82001,41.1,-104.925
+82005,41.146,-104.868
+82007,41.08,-104.692
+82009,41.383,-104.853
+82050,41.447,-104.266
+82051,41.603,-105.649
+82052,41.12,-105.347
+82053,41.241,-104.34
+82054,41.064,-104.361
+82055,41.371,-106.256
+82058,42.153,-105.609
+82059,41.053,-105.179
+82060,41.288,-104.498
+82061,41.492,-105.143
+82063,40.77,-105.971
+82070,41.22,-105.844
+82072,41.427,-105.55
+82073,41.175,-105.438
+82081,41.534,-104.481
+82082,41.265,-104.09
+82083,41.725,-105.991
+82084,41.051,-105.516
+82190,44.52,-110.649
+82201,42.002,-105.13
+82210,41.712,-104.758
+82212,42.261,-104.536
+82213,42.495,-105.004
+82214,42.264,-104.751
+82215,42.467,-104.701
+82217,41.76,-104.14
+82218,41.936,-104.14
+82219,42.478,-104.483
+82221,41.638,-104.328
+82222,43.168,-104.647
+82223,42.124,-104.39
+82224,42.816,-104.92
+82225,42.961,-104.319
+82227,42.718,-104.731
+82229,42.878,-104.986
+82240,42.159,-104.132
+82242,42.647,-104.136
+82243,41.992,-104.41
+82244,41.898,-104.439
+82301,41.983,-107.479
+82310,42.446,-107.878
+82321,41.093,-107.654
+82322,42.246,-107.548
+82323,41.03,-107.521
+82324,41.661,-106.43
+82325,41.152,-106.785
+82327,42.142,-106.63
+82329,42.043,-106.106
+82331,41.4,-106.819
+82332,41.064,-107.302
+82334,41.954,-106.977
+82335,41.762,-106.826
+82336,41.698,-108.208
+82401,44.011,-108.17
+82410,44.352,-108.155
+82411,44.45,-108.477
+82412,44.79,-108.553
+82414,44.404,-109.607
+82420,44.919,-108.465
+82421,44.887,-108.602
+82422,44.498,-108.379
+82423,44.987,-108.588
+82426,44.517,-108.036
+82428,44.299,-107.59
+82430,43.804,-108.179
+82431,44.872,-108.158
+82432,44.215,-107.848
+82433,44.062,-109.105
+82434,44.346,-108.295
+82435,44.82,-109.051
+82440,44.718,-108.868
+82441,44.552,-107.611
+82442,43.914,-107.333
+82443,43.717,-108.475
+82450,44.504,-109.434
+82501,43.028,-108.238
+82510,42.999,-108.609
+82512,43.03,-109.245
+82513,43.628,-109.629
+82514,43.067,-109.023
+82515,42.897,-108.567
+82516,43.213,-108.828
+82520,42.661,-108.638
+82523,43.411,-108.854
+82601,43.07,-106.342
+82604,42.915,-106.707
+82609,42.772,-106.186
+82620,42.539,-107.065
+82630,43.33,-107.307
+82633,43.022,-105.392
+82635,43.422,-106.218
+82636,42.829,-106.158
+82637,42.76,-105.857
+82638,43.059,-107.254
+82639,43.738,-106.696
+82640,43.565,-106.129
+82642,43.279,-107.661
+82643,43.422,-106.279
+82644,42.843,-106.374
+82646,42.978,-106.768
+82648,43.098,-106.916
+82649,43.279,-108.013
+82701,43.694,-104.459
+82710,44.693,-104.307
+82711,44.711,-104.481
+82712,44.526,-104.124
+82714,44.552,-104.68
+82716,44.535,-105.643
+82718,43.922,-105.609
+82720,44.796,-104.671
+82721,44.456,-104.898
+82723,43.992,-104.431
+82725,44.877,-105.703
+82727,44.335,-105.201
+82729,44.371,-104.36
+82730,44.045,-104.714
+82731,44.801,-105.224
+82732,43.724,-105.583
+82801,44.832,-106.896
+82831,44.669,-106.042
+82832,44.606,-106.764
+82833,44.605,-107.163
+82834,44.261,-106.731
+82835,44.756,-106.359
+82836,44.823,-107.609
+82837,44.727,-106.278
+82838,44.918,-107.463
+82839,44.961,-107.171
+82842,44.571,-106.94
+82844,44.806,-107.196
+82845,44.758,-106.731
+82901,41.379,-108.978
+82922,43.142,-110.457
+82923,42.615,-109.407
+82925,43.168,-109.784
+82929,41.549,-109.885
+82930,40.958,-110.607
+82932,42.124,-109.385
+82933,41.269,-110.498
+82934,41.612,-109.996
+82935,41.678,-109.66
+82936,41.054,-110.18
+82937,41.347,-110.265
+82938,41.094,-109.897
+82939,41.219,-110.346
+82941,42.934,-109.691
+82942,41.7,-108.765
+82943,41.702,-109.184
+82944,41.13,-110.496
+82945,41.72,-108.939
+83001,43.395,-110.63
+83011,43.59,-110.532
+83012,43.716,-110.807
+83013,44.049,-110.426
+83014,43.449,-110.967
+83025,43.592,-110.826
+83101,41.976,-110.547
+83110,42.726,-110.849
+83111,42.819,-111.011
+83112,42.875,-110.849
+83113,42.554,-110.268
+83114,42.1,-110.96
+83115,42.912,-110.239
+83116,41.759,-110.549
+83118,43.048,-110.928
+83119,42.644,-110.988
+83120,43.109,-111.139
+83121,41.85,-110.54
+83122,42.822,-110.958
+83123,42.237,-110.268
+83124,41.759,-110.316
+83126,42.581,-110.904
+83127,42.919,-110.998
+83128,43.04,-110.722
+83201,42.906,-112.374
+83202,42.968,-112.365
+83203,43.025,-112.428
+83204,42.805,-112.524
+83209,42.858,-112.426
+83210,43.02,-112.869
+83211,42.655,-113.076
+83212,42.506,-112.548
+83213,43.444,-113.364
+83214,42.54,-112.308
+83215,43.443,-112.812
+83217,42.769,-111.927
+83218,43.318,-112.165
+83220,42.345,-111.383
+83221,43.295,-112.513
+83223,42.183,-111.404
+83226,44.372,-114.009
+83227,44.159,-114.496
+83228,42.234,-112.06
+83232,42.135,-111.971
+83233,42.135,-111.238
+83234,42.423,-112.101
+83235,44.618,-114.053
+83236,43.191,-111.872
+83237,42.027,-111.779
+83238,42.381,-111.1
+83239,42.53,-111.358
+83241,42.515,-111.765
+83243,42.233,-112.665
+83244,43.902,-112.951
+83245,42.873,-112.185
+83246,42.606,-112.031
+83250,42.693,-112.213
+83251,43.945,-113.945
+83252,42.174,-112.407
+83253,44.536,-113.755
+83254,42.355,-111.24
+83255,43.712,-113.459
+83261,42.22,-111.405
+83262,43.217,-112.844
+83263,42.181,-111.753
+83271,42.442,-112.913
+83272,42.095,-111.382
+83274,43.349,-112.098
+83276,42.755,-111.436
+83277,43.075,-112.681
+83278,44.336,-114.814
+83281,42.309,-111.959
+83283,42.358,-111.668
+83285,43.072,-111.303
+83286,42.063,-112.016
+83287,42.022,-111.457
+83301,42.401,-114.525
+83302,42.064,-114.734
+83311,42.408,-113.561
+83312,42.113,-113.636
+83313,43.348,-114.199
+83314,42.972,-114.949
+83316,42.626,-114.883
+83318,42.44,-113.816
+83320,43.404,-113.889
+83321,42.346,-114.847
+83322,43.317,-114.967
+83323,42.475,-113.449
+83324,42.872,-114.262
+83325,42.59,-114.236
+83327,43.503,-114.772
+83328,42.57,-114.616
+83330,42.942,-114.694
+83332,42.798,-114.929
+83333,43.572,-114.241
+83334,42.421,-114.293
+83335,42.583,-114.074
+83336,42.565,-113.825
+83337,43.224,-115.152
+83338,42.729,-114.432
+83340,43.736,-114.582
+83341,42.436,-114.375
+83342,42.145,-113.245
+83344,42.411,-114.133
+83346,42.196,-113.903
+83347,42.655,-113.794
+83348,43.281,-114.121
+83349,43.111,-114.196
+83350,42.711,-113.602
+83352,43.051,-114.413
+83353,43.691,-114.332
+83354,43.67,-114.322
+83355,42.757,-114.722
+83401,43.542,-111.878
+83402,43.526,-112.182
+83404,43.427,-112.016
+83406,43.439,-111.934
+83414,43.861,-110.936
+83420,44.059,-111.325
+83421,44.002,-111.547
+83422,43.689,-111.301
+83423,44.284,-112.302
+83424,43.902,-111.198
+83425,43.932,-112.225
+83427,43.358,-111.754
+83428,43.393,-111.12
+83429,44.482,-111.375
+83431,43.688,-112.033
+83433,44.493,-111.318
+83434,43.756,-112.007
+83435,43.979,-112.586
+83436,43.867,-111.455
+83438,43.96,-111.759
+83440,43.809,-111.809
+83442,43.629,-111.834
+83443,43.531,-111.546
+83444,43.719,-112.302
+83445,44.038,-111.745
+83446,44.365,-112.213
+83448,43.85,-111.712
+83449,43.426,-111.357
+83450,43.845,-112.396
+83451,43.867,-111.633
+83452,43.77,-111.329
+83454,43.595,-111.957
+83455,43.605,-111.135
+83460,43.816,-111.783
+83462,45.301,-113.818
+83463,45.57,-113.975
+83464,44.481,-113.199
+83465,44.793,-113.672
+83466,45.418,-114.036
+83467,45.043,-113.857
+83468,44.922,-113.592
+83469,45.07,-114.408
+83501,46.252,-116.925
+83520,46.544,-116.326
+83522,45.913,-116.474
+83523,46.227,-116.468
+83524,46.352,-116.642
+83525,45.74,-115.393
+83526,46.148,-116.412
+83530,45.918,-116.022
+83533,46.116,-116.241
+83535,46.535,-116.736
+83536,46.213,-116.023
+83537,46.633,-116.529
+83539,46.257,-114.847
+83540,46.345,-116.783
+83541,46.496,-116.501
+83542,45.561,-116.325
+83543,46.273,-116.233
+83544,46.491,-116.151
+83545,46.426,-116.422
+83546,46.573,-115.792
+83547,45.308,-116.345
+83548,46.337,-116.508
+83549,45.362,-116.267
+83552,45.984,-115.923
+83553,46.393,-115.897
+83554,45.688,-116.269
+83555,46.077,-116.716
+83602,44.091,-116.146
+83604,42.747,-115.681
+83605,43.664,-116.652
+83607,43.71,-116.738
+83610,44.743,-116.774
+83611,45.344,-115.052
+83612,44.85,-116.534
+83615,44.706,-116.042
+83616,43.776,-116.395
+83617,43.937,-116.505
+83619,43.969,-116.912
+83622,44.101,-115.885
+83623,43.042,-115.4
+83624,42.925,-116.149
+83626,43.668,-116.825
+83627,42.914,-115.537
+83628,43.578,-116.965
+83629,43.912,-116.13
+83631,43.885,-115.777
+83632,44.527,-116.408
+83633,43.045,-115.199
+83634,43.446,-116.328
+83636,43.907,-116.66
+83637,44.104,-115.155
+83638,45.124,-115.715
+83639,43.4,-116.899
+83641,43.35,-116.636
+83642,43.574,-116.401
+83643,44.629,-116.456
+83644,43.747,-116.584
+83645,44.338,-116.576
+83646,43.65,-116.432
+83647,43.401,-115.523
+83648,43.049,-115.866
+83650,42.896,-116.664
+83651,43.586,-116.627
+83654,45.234,-116.245
+83655,43.951,-116.788
+83656,43.725,-116.795
+83657,44.236,-116.302
+83660,43.802,-116.928
+83661,44.106,-116.705
+83666,43.962,-115.974
+83669,43.725,-116.489
+83670,44.019,-116.313
+83672,44.374,-116.957
+83676,43.656,-116.908
+83677,45.04,-115.258
+83686,43.499,-116.604
+83687,43.61,-116.529
+83702,43.665,-116.144
+83703,43.664,-116.241
+83704,43.627,-116.288
+83705,43.555,-116.221
+83706,43.591,-116.194
+83709,43.548,-116.285
+83712,43.617,-116.093
+83713,43.639,-116.337
+83714,43.707,-116.277
+83716,43.876,-115.16
+83720,43.618,-116.2
+83725,43.605,-116.206
+83801,47.959,-116.646
+83802,47.278,-115.619
+83803,48.021,-116.373
+83804,48.045,-116.971
+83805,48.833,-116.499
+83806,46.878,-116.374
+83808,47.321,-116.064
+83809,48.062,-116.581
+83810,47.542,-116.451
+83811,48.111,-116.159
+83812,47.019,-116.284
+83813,48.115,-116.676
+83814,47.691,-116.655
+83815,47.726,-116.79
+83821,48.523,-116.847
+83822,48.171,-117
+83823,46.821,-116.541
+83824,47.109,-116.943
+83825,48.248,-116.608
+83826,48.984,-116.152
+83827,46.778,-116.174
+83830,47.079,-116.353
+83832,46.552,-116.91
+83833,47.525,-116.744
+83834,47.009,-116.727
+83835,47.797,-116.66
+83836,48.244,-116.192
+83837,47.529,-116.091
+83839,47.623,-116.181
+83840,48.313,-116.515
+83841,48.2,-116.77
+83842,47.445,-116.547
+83843,46.722,-116.94
+83844,46.729,-117.02
+83845,48.743,-116.096
+83846,47.485,-115.735
+83847,48.579,-116.43
+83848,48.723,-116.915
+83849,47.538,-115.992
+83850,47.444,-116.207
+83851,47.296,-116.9
+83852,48.318,-116.534
+83854,47.726,-116.976
+83855,46.995,-116.888
+83856,48.332,-116.899
+83857,46.887,-116.811
+83858,47.855,-116.904
+83860,48.181,-116.536
+83861,47.249,-116.587
+83864,48.435,-116.504
+83866,47.143,-116.44
+83867,47.506,-115.947
+83868,47.516,-116.183
+83869,47.982,-116.892
+83870,47.139,-116.854
+83871,46.742,-116.743
+83872,46.852,-116.973
+83873,47.583,-115.844
+83874,47.643,-115.805
+83876,47.456,-116.949
+84001,40.345,-110.273
+84002,40.431,-110.288
+84003,40.472,-111.681
+84004,40.489,-111.728
+84005,40.323,-111.999
+84006,40.597,-112.124
+84007,40.345,-110.203
+84008,40.033,-109.194
+84009,40.553,-112.018
+84010,40.873,-111.835
+84013,40.296,-112.094
+84014,40.937,-111.833
+84015,41.12,-112.061
+84017,40.956,-111.214
+84018,41.222,-111.448
+84020,40.498,-111.866
+84021,40.108,-110.534
+84022,40.35,-112.64
+84023,40.903,-109.217
+84024,41.008,-111.447
+84025,40.976,-111.899
+84026,40.294,-109.845
+84027,40.155,-110.778
+84028,41.937,-111.39
+84029,40.573,-112.953
+84031,40.65,-110.657
+84032,40.369,-111.187
+84033,40.98,-111.491
+84034,39.992,-113.879
+84035,40.409,-109.292
+84036,40.699,-111.02
+84037,41.022,-111.949
+84038,41.892,-111.264
+84039,40.44,-109.813
+84040,41.092,-111.897
+84041,41.07,-111.981
+84042,40.341,-111.725
+84043,40.412,-111.874
+84044,40.736,-112.121
+84045,40.292,-111.929
+84046,40.953,-109.796
+84047,40.615,-111.892
+84049,40.504,-111.513
+84050,41.024,-111.664
+84051,40.389,-110.427
+84052,40.167,-109.998
+84053,40.435,-109.987
+84054,40.839,-111.918
+84055,40.745,-111.149
+84056,41.129,-111.992
+84057,40.314,-111.709
+84058,40.275,-111.715
+84059,40.304,-111.749
+84060,40.644,-111.507
+84061,40.764,-111.319
+84062,40.384,-111.682
+84063,40.212,-109.694
+84064,41.683,-111.112
+84065,40.494,-111.944
+84066,40.346,-110.067
+84067,41.171,-112.048
+84069,40.365,-112.485
+84070,40.577,-111.889
+84071,40.354,-112.268
+84072,40.364,-110.633
+84073,40.346,-110.416
+84074,40.582,-112.304
+84075,41.057,-112.07
+84076,40.447,-109.84
+84078,40.466,-109.511
+84080,40.033,-112.452
+84081,40.603,-112.038
+84082,40.34,-111.362
+84083,40.818,-113.74
+84084,40.621,-111.966
+84085,40.579,-109.925
+84086,41.418,-111.201
+84087,40.889,-111.928
+84088,40.595,-111.961
+84092,40.552,-111.715
+84093,40.595,-111.829
+84094,40.572,-111.862
+84095,40.559,-111.942
+84096,40.487,-112.1
+84097,40.305,-111.673
+84098,40.747,-111.533
+84101,40.756,-111.9
+84102,40.76,-111.864
+84103,40.803,-111.847
+84104,40.749,-111.982
+84105,40.738,-111.86
+84106,40.707,-111.856
+84107,40.658,-111.885
+84108,40.809,-111.728
+84109,40.706,-111.705
+84111,40.756,-111.884
+84112,40.765,-111.841
+84113,40.763,-111.833
+84114,40.778,-111.888
+84115,40.715,-111.893
+84116,40.866,-112.039
+84117,40.662,-111.836
+84118,40.656,-112.038
+84119,40.7,-111.946
+84120,40.697,-112.002
+84121,40.617,-111.687
+84123,40.658,-111.922
+84124,40.678,-111.798
+84128,40.705,-112.043
+84129,40.654,-111.962
+84138,40.767,-111.887
+84150,40.772,-111.891
+84180,40.77,-111.901
+84301,41.614,-112.127
+84302,41.585,-112.052
+84304,41.822,-111.979
+84305,41.944,-112.064
+84306,41.785,-112.054
+84307,41.48,-112.537
+84308,41.966,-111.968
+84309,41.714,-112.099
+84310,41.335,-111.847
+84311,41.82,-112.111
+84312,41.777,-112.156
+84313,41.368,-113.682
+84314,41.649,-112.093
+84315,41.168,-112.138
+84316,41.779,-112.448
+84317,41.308,-111.62
+84318,41.802,-111.804
+84319,41.593,-111.66
+84320,41.953,-111.852
+84321,41.775,-111.713
+84322,41.758,-111.813
+84324,41.494,-111.941
+84325,41.737,-111.998
+84326,41.672,-111.818
+84327,41.866,-111.997
+84328,41.539,-111.844
+84329,41.804,-113.476
+84330,41.906,-112.17
+84331,41.944,-112.359
+84332,41.703,-111.812
+84333,41.91,-111.799
+84334,41.79,-112.152
+84335,41.824,-111.883
+84336,41.877,-112.858
+84337,41.691,-112.283
+84338,41.914,-111.936
+84339,41.625,-111.939
+84340,41.403,-112.179
+84341,41.771,-111.812
+84401,41.219,-112.033
+84403,41.215,-111.89
+84404,41.27,-112.118
+84405,41.15,-111.957
+84408,41.193,-111.939
+84414,41.327,-111.965
+84501,39.531,-110.811
+84511,37.527,-109.412
+84512,37.17,-109.566
+84513,39.258,-111.008
+84515,38.911,-109.352
+84516,39.128,-111.067
+84518,39.389,-110.877
+84520,39.531,-110.418
+84521,39.417,-110.762
+84522,38.86,-111.223
+84523,39.058,-111.22
+84525,39.073,-110.223
+84526,39.682,-110.965
+84528,39.402,-111.076
+84529,39.712,-110.773
+84530,38.244,-109.404
+84531,37.06,-109.833
+84532,38.518,-109.385
+84533,37.405,-110.537
+84534,37.216,-109.266
+84535,37.85,-109.296
+84536,37.13,-110.219
+84537,39.3,-111.173
+84539,39.576,-110.401
+84540,39.217,-109.52
+84542,39.743,-110.488
+84601,40.227,-111.696
+84602,40.254,-111.65
+84604,40.319,-111.577
+84606,40.215,-111.626
+84620,38.922,-111.924
+84621,39.051,-111.835
+84622,39.098,-111.814
+84623,39.454,-111.588
+84624,39.383,-112.594
+84626,39.936,-111.985
+84627,39.355,-111.586
+84628,39.936,-112.134
+84629,39.766,-111.453
+84630,39.311,-111.834
+84631,38.998,-112.397
+84632,39.645,-111.647
+84633,39.94,-111.891
+84634,39.178,-111.834
+84635,39.391,-112.722
+84636,39.14,-112.339
+84637,38.722,-112.487
+84638,39.502,-112.258
+84639,39.507,-111.9
+84640,39.465,-112.392
+84642,39.257,-111.552
+84643,39.129,-111.685
+84644,38.849,-112.332
+84645,39.861,-111.84
+84646,39.541,-111.609
+84647,39.527,-111.407
+84648,39.687,-111.868
+84649,39.347,-112.33
+84651,39.958,-111.694
+84652,39.017,-111.876
+84653,40.048,-111.668
+84654,38.864,-111.679
+84655,39.971,-111.807
+84656,39.235,-112.109
+84657,38.819,-111.939
+84660,40.041,-111.419
+84662,39.44,-111.486
+84663,40.193,-111.489
+84664,40.126,-111.577
+84665,39.192,-111.616
+84667,39.5,-111.665
+84701,38.591,-111.8
+84710,37.469,-112.511
+84711,38.726,-112.049
+84712,38.136,-111.976
+84713,38.333,-112.517
+84714,37.838,-113.766
+84715,38.332,-111.603
+84716,37.944,-111.442
+84718,37.579,-112.083
+84719,37.661,-112.781
+84720,37.593,-113.292
+84721,37.769,-113.134
+84722,37.485,-113.556
+84723,38.175,-112.25
+84724,38.674,-112.15
+84725,37.54,-113.78
+84726,37.753,-111.58
+84728,39.333,-113.912
+84729,37.383,-112.66
+84730,38.736,-112.019
+84731,38.186,-112.763
+84732,38.445,-111.904
+84733,37.297,-113.806
+84734,38.363,-110.577
+84735,37.645,-112.45
+84736,37.663,-111.788
+84737,37.029,-113.246
+84738,37.216,-113.699
+84739,38.642,-112.223
+84740,38.284,-112.264
+84741,37.188,-112.249
+84742,37.518,-113.159
+84743,38.208,-112.186
+84744,38.626,-111.919
+84745,37.208,-113.263
+84746,37.239,-113.351
+84747,38.446,-111.638
+84749,38.354,-111.499
+84750,38.439,-112.192
+84751,38.37,-112.921
+84752,38.251,-112.887
+84753,37.965,-113.858
+84754,38.611,-112.117
+84755,37.227,-112.785
+84756,37.742,-113.548
+84757,37.465,-113.269
+84758,37.327,-112.781
+84759,37.926,-112.39
+84760,37.95,-112.662
+84761,37.852,-112.866
+84762,37.497,-112.737
+84763,37.147,-113.07
+84764,37.785,-111.932
+84765,37.338,-114.018
+84766,38.599,-112.346
+84767,37.201,-112.986
+84770,37.138,-113.63
+84772,37.793,-112.948
+84773,38.251,-111.47
+84774,37.243,-113.281
+84775,38.29,-111.033
+84776,37.63,-112.082
+84779,37.335,-113.122
+84780,37.133,-113.474
+84781,37.397,-113.475
+84782,37.38,-113.668
+84783,37.264,-113.683
+84784,37.019,-112.969
+84790,37.046,-113.557
+85003,33.451,-112.078
+85004,33.452,-112.07
+85006,33.465,-112.049
+85007,33.447,-112.09
+85008,33.464,-111.988
+85009,33.445,-112.129
+85012,33.508,-112.071
+85013,33.511,-112.085
+85014,33.507,-112.058
+85015,33.509,-112.102
+85016,33.51,-112.032
+85017,33.509,-112.123
+85018,33.52,-111.994
+85019,33.512,-112.143
+85020,33.566,-112.056
+85021,33.561,-112.095
+85022,33.627,-112.049
+85023,33.634,-112.093
+85024,33.69,-112.045
+85026,33.449,-111.974
+85027,33.677,-112.102
+85028,33.582,-112.008
+85029,33.595,-112.11
+85031,33.494,-112.167
+85032,33.626,-112.003
+85033,33.494,-112.214
+85034,33.43,-112.015
+85035,33.472,-112.195
+85037,33.487,-112.268
+85040,33.406,-112.025
+85041,33.387,-112.11
+85042,33.356,-112.052
+85043,33.433,-112.197
+85044,33.34,-112.006
+85045,33.299,-112.106
+85048,33.302,-112.029
+85050,33.687,-111.999
+85051,33.559,-112.132
+85053,33.63,-112.132
+85054,33.681,-111.945
+85083,33.745,-112.175
+85085,33.753,-112.09
+85086,33.823,-112.13
+85087,33.925,-112.149
+85118,33.357,-111.363
+85119,33.387,-111.508
+85120,33.387,-111.562
+85121,33.137,-111.914
+85122,32.917,-111.748
+85123,32.713,-111.678
+85128,32.963,-111.51
+85131,32.654,-111.577
+85132,32.927,-111.214
+85135,32.995,-110.78
+85137,33.136,-111.023
+85138,33.018,-111.991
+85139,32.924,-112.207
+85140,33.248,-111.489
+85141,32.642,-111.435
+85142,33.192,-111.666
+85143,33.156,-111.52
+85145,32.541,-111.391
+85147,33.098,-111.725
+85172,32.905,-111.955
+85173,33.268,-111.136
+85191,32.985,-111.447
+85192,32.963,-110.679
+85193,32.813,-111.84
+85194,32.901,-111.628
+85201,33.434,-111.85
+85202,33.38,-111.875
+85203,33.45,-111.803
+85204,33.396,-111.787
+85205,33.433,-111.714
+85206,33.397,-111.716
+85207,33.453,-111.637
+85208,33.402,-111.632
+85209,33.378,-111.634
+85210,33.39,-111.844
+85212,33.321,-111.631
+85213,33.448,-111.766
+85215,33.512,-111.579
+85224,33.324,-111.876
+85225,33.318,-111.831
+85226,33.275,-111.925
+85233,33.352,-111.813
+85234,33.366,-111.74
+85236,33.323,-111.72
+85248,33.215,-111.866
+85249,33.227,-111.8
+85250,33.527,-111.889
+85251,33.494,-111.921
+85253,33.544,-111.959
+85254,33.615,-111.95
+85255,33.668,-111.823
+85256,33.501,-111.835
+85257,33.463,-111.914
+85258,33.558,-111.893
+85259,33.601,-111.809
+85260,33.608,-111.889
+85262,33.858,-111.805
+85263,33.933,-111.56
+85264,33.688,-111.487
+85266,33.762,-111.919
+85268,33.607,-111.737
+85281,33.427,-111.934
+85282,33.394,-111.933
+85283,33.365,-111.932
+85284,33.338,-111.934
+85286,33.272,-111.834
+85295,33.305,-111.736
+85296,33.332,-111.75
+85297,33.281,-111.734
+85298,33.24,-111.728
+85301,33.534,-112.179
+85302,33.568,-112.178
+85303,33.534,-112.221
+85304,33.595,-112.18
+85305,33.53,-112.256
+85306,33.624,-112.175
+85307,33.53,-112.31
+85308,33.66,-112.185
+85309,33.536,-112.376
+85310,33.701,-112.158
+85320,33.836,-113.232
+85321,32.362,-112.585
+85322,33.159,-112.872
+85323,33.419,-112.327
+85324,34.122,-112.038
+85325,33.963,-113.869
+85326,33.229,-112.583
+85328,33.253,-114.62
+85329,33.432,-112.296
+85331,33.884,-111.94
+85332,34.207,-112.921
+85333,32.976,-113.31
+85334,33.594,-114.363
+85335,33.585,-112.327
+85336,32.509,-114.744
+85337,32.976,-112.866
+85338,33.373,-112.411
+85339,33.241,-112.143
+85340,33.516,-112.424
+85341,31.973,-112.72
+85342,33.945,-112.451
+85343,33.338,-112.691
+85344,33.911,-114.257
+85345,33.572,-112.248
+85346,33.61,-114.158
+85347,32.786,-113.807
+85348,33.699,-113.664
+85349,32.476,-114.684
+85350,32.564,-114.705
+85351,33.606,-112.284
+85352,32.691,-113.896
+85353,33.418,-112.277
+85354,33.409,-113.07
+85355,33.575,-112.453
+85356,32.689,-114.185
+85357,34.021,-113.451
+85360,34.549,-113.574
+85361,33.752,-112.629
+85362,34.285,-112.843
+85363,33.585,-112.305
+85364,32.705,-114.656
+85365,33.018,-114.111
+85367,32.661,-114.394
+85371,33.967,-114.39
+85373,33.669,-112.3
+85374,33.645,-112.395
+85375,33.671,-112.357
+85377,33.823,-111.913
+85378,33.645,-112.32
+85379,33.602,-112.374
+85381,33.609,-112.23
+85382,33.656,-112.248
+85383,33.798,-112.305
+85387,33.709,-112.447
+85388,33.604,-112.432
+85390,33.904,-112.876
+85392,33.477,-112.309
+85395,33.485,-112.406
+85396,33.537,-112.702
+85501,33.559,-110.769
+85530,33.086,-110.267
+85531,32.871,-109.781
+85532,33.41,-110.842
+85533,33.287,-109.38
+85534,32.722,-109.153
+85535,32.986,-109.913
+85536,33.148,-109.989
+85539,33.336,-110.93
+85540,33.003,-109.382
+85541,34.223,-111.347
+85542,33.325,-110.311
+85543,32.954,-109.899
+85544,34.384,-111.477
+85545,33.565,-111.14
+85546,32.7,-109.589
+85550,33.548,-110.509
+85551,32.738,-109.562
+85552,32.819,-109.786
+85553,33.794,-111.223
+85554,33.996,-110.999
+85601,31.584,-111.331
+85602,32.167,-110.412
+85603,31.433,-109.919
+85605,32.308,-109.471
+85606,32.005,-109.93
+85607,31.49,-109.337
+85608,31.457,-109.581
+85609,32.069,-110.097
+85610,31.741,-109.672
+85611,31.644,-110.512
+85613,31.536,-110.414
+85614,31.811,-110.931
+85615,31.398,-110.211
+85616,31.702,-110.323
+85617,31.577,-109.719
+85618,32.776,-110.694
+85619,32.396,-110.737
+85620,31.338,-109.945
+85621,31.388,-110.9
+85622,31.803,-111.091
+85623,32.654,-110.784
+85624,31.52,-110.723
+85625,31.876,-109.664
+85626,31.359,-109.568
+85627,32.008,-110.236
+85629,31.96,-111.109
+85630,31.887,-110.18
+85631,32.581,-110.563
+85632,32.058,-109.184
+85633,31.607,-111.53
+85634,32.012,-112.021
+85635,31.553,-110.171
+85637,31.719,-110.691
+85638,31.666,-110.06
+85639,31.772,-111.682
+85640,31.569,-111.045
+85641,32.021,-110.646
+85643,32.461,-110
+85645,31.698,-111.143
+85646,31.621,-111.05
+85648,31.496,-111.001
+85650,31.499,-110.201
+85653,32.399,-111.386
+85654,32.415,-111.155
+85658,32.516,-111.153
+85701,32.217,-110.971
+85704,32.339,-110.985
+85705,32.271,-110.992
+85706,32.148,-110.935
+85707,32.18,-110.89
+85708,32.176,-110.86
+85709,32.141,-110.99
+85710,32.214,-110.824
+85711,32.215,-110.883
+85712,32.253,-110.887
+85713,32.195,-111.015
+85714,32.17,-110.947
+85715,32.247,-110.836
+85716,32.242,-110.924
+85718,32.313,-110.922
+85719,32.246,-110.949
+85721,32.231,-110.95
+85723,32.182,-110.965
+85724,32.241,-110.946
+85726,32.204,-110.945
+85730,32.19,-110.72
+85734,32.068,-110.867
+85735,32.104,-111.335
+85736,31.871,-111.367
+85737,32.415,-110.947
+85739,32.612,-111.009
+85741,32.335,-111.042
+85742,32.386,-111.055
+85743,32.302,-111.182
+85745,32.249,-111.061
+85746,32.07,-111.09
+85747,32.093,-110.772
+85748,32.219,-110.752
+85749,32.282,-110.732
+85750,32.298,-110.845
+85755,32.468,-110.982
+85756,32.07,-110.906
+85757,32.128,-111.122
+85901,34.315,-110.024
+85902,34.156,-110.159
+85911,34.092,-110.42
+85912,34.415,-109.91
+85920,33.859,-109.178
+85922,33.511,-109.129
+85923,34.323,-110.34
+85924,34.567,-109.672
+85925,34.019,-109.352
+85926,33.769,-109.979
+85927,33.991,-109.479
+85928,34.518,-110.557
+85929,34.171,-109.965
+85930,34.035,-109.771
+85931,34.37,-110.916
+85932,33.969,-109.181
+85933,34.357,-110.509
+85934,34.302,-110.244
+85935,34.159,-109.927
+85936,34.592,-109.29
+85937,34.57,-110.014
+85938,34.163,-109.414
+85939,34.431,-110.085
+85940,34.253,-109.702
+85941,33.892,-110.063
+85942,34.774,-110.034
+86001,35.358,-111.771
+86003,35.243,-111.202
+86004,35.381,-111.373
+86005,35.088,-111.619
+86011,35.19,-111.655
+86015,35.223,-111.814
+86016,35.752,-111.641
+86017,34.941,-111.681
+86018,35.239,-111.97
+86020,35.993,-111.498
+86021,36.94,-113.146
+86022,36.771,-112.558
+86023,36.05,-112.013
+86024,34.671,-111.191
+86025,34.892,-110.066
+86028,35.032,-109.816
+86029,34.971,-110.013
+86030,35.854,-110.799
+86031,35.363,-110.067
+86032,35.08,-110.284
+86033,36.677,-110.256
+86034,35.771,-110.138
+86035,35.405,-111.024
+86036,36.789,-111.815
+86038,34.911,-111.489
+86039,35.972,-110.569
+86040,36.66,-111.386
+86042,35.862,-110.384
+86043,35.81,-110.533
+86044,36.736,-110.803
+86045,36.142,-111.124
+86046,35.437,-112.176
+86047,35.181,-110.621
+86052,36.287,-112.143
+86053,36.758,-111.056
+86054,36.675,-110.618
+86301,34.598,-112.42
+86303,34.497,-112.433
+86305,34.77,-112.757
+86313,34.554,-112.453
+86314,34.598,-112.331
+86315,34.674,-112.289
+86320,35.375,-112.624
+86321,34.554,-113.089
+86322,34.472,-111.808
+86323,34.766,-112.404
+86324,34.82,-112.108
+86325,34.733,-111.899
+86326,34.699,-112.014
+86327,34.557,-112.111
+86329,34.486,-112.277
+86331,34.76,-112.117
+86332,34.304,-112.618
+86333,34.323,-112.082
+86334,34.948,-112.54
+86335,34.648,-111.663
+86336,34.879,-111.858
+86337,35.241,-113.051
+86338,34.573,-112.758
+86343,34.193,-112.32
+86351,34.778,-111.785
+86401,35.114,-113.738
+86403,34.477,-114.344
+86404,34.59,-114.308
+86406,34.382,-114.081
+86409,35.461,-114.018
+86411,35.448,-113.744
+86413,35.17,-114.257
+86426,35.013,-114.55
+86429,35.283,-114.478
+86431,35.425,-114.247
+86432,36.799,-113.724
+86433,34.929,-114.359
+86434,35.656,-113.593
+86435,36.005,-112.945
+86436,34.739,-114.417
+86437,35.395,-113.598
+86438,34.683,-113.988
+86440,34.89,-114.542
+86441,35.565,-114.3
+86442,35.09,-114.561
+86443,35.949,-114.445
+86444,35.905,-114.061
+86445,35.687,-114.556
+86502,35.143,-109.609
+86503,36.217,-109.682
+86504,35.86,-109.139
+86505,35.624,-109.707
+86506,35.354,-109.259
+86507,36.424,-109.283
+86508,35.352,-109.087
+86510,36.227,-110.272
+86511,35.74,-109.369
+86512,35.095,-109.243
+86514,36.906,-109.326
+86515,35.707,-108.984
+86520,36.044,-109.971
+86535,36.823,-109.866
+86538,36.421,-109.634
+86540,35.941,-109.444
+86544,36.544,-109.142
+86545,36.718,-109.541
+86547,36.549,-109.474
+86556,36.228,-109.22
+87001,35.414,-106.383
+87002,34.636,-106.829
+87004,35.369,-106.597
+87005,35.266,-108.003
+87006,34.484,-106.843
+87007,34.965,-107.43
+87008,35.149,-106.402
+87010,35.4,-106.139
+87011,34.082,-105.972
+87012,36.127,-106.652
+87013,35.894,-107.336
+87014,35.173,-107.407
+87015,35.076,-106.183
+87016,34.755,-106.016
+87017,36.31,-106.734
+87018,36.108,-107.531
+87020,35.014,-107.925
+87021,35.192,-107.879
+87022,34.91,-106.695
+87023,34.6,-106.767
+87024,35.674,-106.749
+87025,35.834,-106.617
+87026,34.981,-107.208
+87027,36.127,-106.947
+87028,34.354,-106.783
+87029,36.419,-107.043
+87031,34.779,-106.726
+87032,34.868,-106.042
+87034,34.922,-107.634
+87035,34.952,-105.909
+87036,34.372,-106.239
+87037,36.188,-107.78
+87038,35.088,-107.412
+87040,35.138,-107.413
+87041,35.602,-106.321
+87042,34.828,-106.686
+87043,35.279,-106.431
+87044,35.712,-106.657
+87045,35.397,-108.015
+87046,36.286,-106.915
+87047,35.251,-106.289
+87048,35.24,-106.627
+87049,35.132,-107.629
+87051,35.036,-107.853
+87052,35.528,-106.371
+87053,35.575,-106.883
+87056,35.162,-105.885
+87059,34.997,-106.301
+87060,34.739,-106.737
+87061,34.705,-106.381
+87062,34.462,-106.697
+87063,34.555,-105.891
+87064,36.184,-106.539
+87068,34.892,-106.646
+87070,35.023,-105.74
+87072,35.608,-106.395
+87083,35.645,-106.364
+87101,35.097,-106.643
+87102,35.082,-106.647
+87104,35.103,-106.674
+87105,34.994,-106.685
+87106,35.007,-106.61
+87107,35.138,-106.643
+87108,35.072,-106.578
+87109,35.152,-106.575
+87110,35.108,-106.578
+87111,35.141,-106.515
+87112,35.101,-106.516
+87113,35.196,-106.573
+87114,35.197,-106.682
+87116,35.049,-106.561
+87117,34.998,-106.521
+87120,35.141,-106.761
+87121,35.017,-106.888
+87122,35.189,-106.494
+87123,35.061,-106.471
+87124,35.27,-106.796
+87144,35.33,-106.71
+87151,35.008,-106.86
+87301,35.522,-108.765
+87305,35.403,-108.731
+87310,35.747,-108.596
+87311,35.607,-108.5
+87312,35.429,-108.345
+87313,35.798,-108.221
+87315,34.663,-108.551
+87316,35.489,-108.526
+87317,35.58,-108.752
+87319,35.477,-108.94
+87320,35.808,-108.871
+87321,35.065,-108.405
+87322,35.485,-108.662
+87323,35.457,-108.186
+87325,35.984,-108.572
+87326,35.277,-108.883
+87327,35.072,-108.789
+87328,36.03,-109.032
+87347,35.385,-108.458
+87357,34.829,-108.409
+87364,36.134,-108.712
+87365,35.536,-108.138
+87375,35.671,-108.789
+87401,36.738,-108.183
+87402,36.797,-108.152
+87410,36.858,-107.895
+87412,36.645,-107.547
+87413,36.461,-107.964
+87415,36.827,-108.097
+87416,36.585,-108.452
+87417,36.75,-108.352
+87418,36.951,-108.15
+87419,36.919,-107.64
+87420,36.863,-108.936
+87421,36.777,-108.527
+87455,36.273,-108.714
+87461,36.452,-108.925
+87499,36.316,-108.244
+87501,35.708,-105.851
+87505,35.62,-105.867
+87506,35.825,-105.955
+87507,35.622,-106.109
+87508,35.521,-105.946
+87510,36.362,-106.476
+87511,36.089,-105.975
+87512,36.923,-105.344
+87513,36.584,-105.701
+87514,36.53,-105.601
+87515,36.557,-106.377
+87516,36.178,-106.466
+87517,36.39,-105.793
+87518,36.52,-106.547
+87519,36.765,-105.635
+87520,36.875,-106.627
+87521,36.018,-105.612
+87522,35.964,-105.843
+87523,36.011,-105.863
+87524,36.97,-105.537
+87525,36.598,-105.498
+87527,36.151,-105.838
+87528,36.785,-106.879
+87529,36.446,-105.666
+87530,36.341,-106.202
+87531,36.228,-105.902
+87532,35.99,-106.126
+87535,35.567,-105.747
+87537,36.142,-106.26
+87538,35.493,-105.538
+87539,36.386,-105.98
+87540,35.407,-105.873
+87543,36.104,-105.658
+87544,35.767,-106.295
+87547,35.811,-106.208
+87548,36.176,-106.185
+87549,36.293,-105.965
+87551,36.699,-106.661
+87552,35.67,-105.614
+87553,36.22,-105.734
+87554,36.549,-106.07
+87556,36.812,-105.557
+87557,36.296,-105.635
+87558,36.674,-105.456
+87560,35.237,-105.526
+87562,35.407,-105.655
+87564,36.616,-105.618
+87565,35.516,-105.473
+87566,36.068,-106.077
+87567,35.994,-106.019
+87569,35.35,-105.305
+87571,36.352,-105.437
+87573,35.772,-105.707
+87575,36.643,-106.595
+87577,36.64,-106.003
+87578,36.047,-105.77
+87579,36.086,-105.532
+87580,36.56,-105.575
+87581,36.505,-106.153
+87582,36.179,-105.994
+87583,35.282,-105.352
+87701,35.542,-104.933
+87710,36.382,-105.23
+87711,35.238,-105.139
+87712,35.883,-105.166
+87713,36.171,-105.361
+87714,36.464,-105.059
+87715,36.011,-105.423
+87718,36.598,-105.24
+87722,36.146,-105.276
+87723,36.059,-105.376
+87724,35.172,-104.985
+87728,36.604,-104.595
+87729,36.303,-104.818
+87730,36.109,-104.232
+87731,35.701,-105.399
+87732,35.976,-105.466
+87733,35.753,-103.855
+87734,36.169,-105.091
+87735,36.049,-105.12
+87736,35.978,-105.181
+87740,36.767,-104.364
+87742,35.872,-105.444
+87743,35.974,-104.02
+87745,35.791,-105.267
+87746,35.655,-104.111
+87747,36.354,-104.436
+87749,36.578,-105.127
+87750,35.825,-104.927
+87752,35.994,-104.657
+87753,35.863,-104.954
+87801,33.933,-107.074
+87820,33.938,-108.587
+87821,33.95,-108.072
+87823,34.183,-106.959
+87824,33.829,-108.982
+87825,33.949,-107.655
+87827,34.362,-108.137
+87828,34.206,-106.921
+87829,34.237,-108.658
+87830,33.708,-108.733
+87831,34.283,-106.887
+87832,33.842,-106.835
+87901,33.161,-107.017
+87930,32.827,-107.352
+87931,32.924,-107.344
+87933,32.791,-107.279
+87935,33.255,-107.229
+87936,32.753,-107.26
+87937,32.591,-107.195
+87939,33.373,-107.337
+87940,32.642,-107.007
+87941,32.707,-107.215
+87942,33.061,-107.349
+87943,33.45,-107.691
+88001,32.29,-106.753
+88002,32.382,-106.457
+88003,32.279,-106.746
+88004,32.25,-106.949
+88005,32.223,-106.988
+88007,32.389,-106.975
+88008,31.819,-106.757
+88009,31.913,-108.536
+88011,32.377,-106.576
+88012,32.589,-106.771
+88020,31.781,-108.827
+88021,31.988,-106.804
+88022,32.803,-108.188
+88023,32.723,-108.088
+88024,32.065,-106.618
+88025,33.109,-108.726
+88026,32.752,-108.163
+88027,32.036,-106.681
+88028,32.967,-108.671
+88029,31.845,-107.695
+88030,32.173,-107.727
+88034,32.592,-107.965
+88038,33.126,-108.358
+88039,33.293,-108.575
+88040,31.597,-108.355
+88041,32.81,-107.882
+88042,32.812,-107.566
+88043,32.603,-108.116
+88044,31.981,-107.101
+88045,32.331,-108.7
+88046,32.268,-106.797
+88047,32.214,-106.716
+88048,32.145,-106.655
+88049,33.051,-108.055
+88051,33,-108.92
+88052,32.45,-106.602
+88053,32.896,-108.214
+88055,32.728,-108.741
+88056,31.841,-109.003
+88061,32.629,-108.406
+88063,31.799,-106.55
+88065,32.714,-108.302
+88072,32.138,-106.616
+88081,32.219,-106.294
+88101,34.499,-103.258
+88103,34.382,-103.317
+88112,34.923,-103.134
+88113,33.804,-103.089
+88114,33.488,-103.417
+88115,33.932,-103.345
+88116,33.895,-103.819
+88118,34.229,-103.659
+88119,34.359,-104.369
+88120,34.899,-103.425
+88121,34.68,-103.977
+88124,34.536,-103.652
+88125,33.706,-103.225
+88126,33.811,-103.372
+88130,34.132,-103.327
+88132,33.907,-103.167
+88134,34.372,-104.017
+88135,34.56,-103.078
+88136,34.244,-104.816
+88201,33.669,-104.497
+88203,33.291,-104.067
+88210,32.775,-104.224
+88220,32.315,-104.42
+88230,33.219,-104.398
+88231,32.424,-103.261
+88232,33.058,-104.146
+88240,32.675,-103.447
+88242,32.813,-103.162
+88244,32.764,-103.225
+88250,32.702,-104.956
+88252,32.155,-103.378
+88253,32.984,-104.551
+88254,32.628,-104.405
+88255,32.811,-103.999
+88256,32.193,-103.889
+88260,32.993,-103.383
+88262,33.126,-103.404
+88263,32.107,-104.097
+88264,32.863,-103.71
+88265,32.584,-103.346
+88267,33.297,-103.392
+88268,32.176,-104.379
+88301,33.749,-105.852
+88310,32.735,-106.04
+88311,32.812,-105.991
+88312,33.432,-105.644
+88314,33.11,-105.867
+88316,33.771,-105.371
+88317,32.861,-105.721
+88318,34.229,-105.513
+88321,34.78,-105.446
+88323,33.485,-105.565
+88324,33.423,-105.527
+88325,32.856,-105.853
+88330,32.867,-106.097
+88336,33.331,-105.276
+88337,32.996,-105.884
+88338,33.537,-105.385
+88339,32.958,-105.323
+88340,33.176,-105.583
+88341,33.473,-105.846
+88342,32.389,-106.109
+88343,33.235,-105.068
+88344,32.509,-105.218
+88345,33.352,-105.671
+88346,33.348,-105.541
+88347,32.755,-105.677
+88348,33.415,-105.402
+88349,32.801,-105.81
+88350,32.614,-105.653
+88351,33.472,-105.098
+88352,33.166,-105.994
+88353,34.499,-105.103
+88354,32.739,-105.495
+88355,33.363,-105.669
+88401,35.075,-103.78
+88410,35.896,-103.316
+88411,35.247,-103.176
+88414,36.78,-104.026
+88415,36.363,-103.343
+88416,35.477,-104.209
+88417,34.931,-104.244
+88418,36.751,-103.642
+88419,36.899,-103.542
+88421,35.327,-104.497
+88422,36.345,-103.991
+88424,36.44,-103.664
+88426,35.518,-103.448
+88427,34.782,-103.764
+88430,35.67,-103.209
+88431,35.212,-104.337
+88434,35.12,-103.336
+88435,34.886,-104.825
+88436,36.159,-103.159
+88439,35.494,-104.378
+89001,37.338,-115.302
+89002,35.998,-114.962
+89003,36.946,-116.764
+89004,36.042,-115.413
+89005,36,-114.852
+89007,36.667,-114.227
+89008,37.286,-114.513
+89010,37.825,-118.079
+89011,36.085,-114.963
+89012,36.012,-115.043
+89013,37.369,-117.262
+89014,36.062,-115.058
+89015,36.039,-114.928
+89017,37.702,-115.334
+89018,36.571,-115.668
+89019,35.769,-115.516
+89020,36.563,-116.42
+89021,36.64,-114.471
+89022,38.518,-117.015
+89025,36.683,-114.79
+89026,35.749,-115.285
+89027,36.815,-114.093
+89029,35.13,-114.656
+89030,36.212,-115.123
+89031,36.258,-115.171
+89032,36.222,-115.174
+89034,36.809,-114.15
+89039,35.266,-114.872
+89040,36.349,-114.522
+89042,37.798,-114.359
+89043,38.277,-114.407
+89044,35.94,-115.056
+89045,38.873,-117.098
+89046,35.514,-114.811
+89047,37.758,-117.639
+89048,36.164,-115.987
+89049,38.391,-116.399
+89052,35.98,-115.108
+89054,35.921,-115.191
+89060,36.392,-116.058
+89061,36.07,-115.906
+89070,36.501,-115.64
+89074,36.036,-115.081
+89081,36.258,-115.107
+89084,36.297,-115.157
+89085,36.31,-115.198
+89086,36.284,-115.11
+89101,36.173,-115.122
+89102,36.145,-115.187
+89103,36.112,-115.212
+89104,36.151,-115.109
+89106,36.182,-115.162
+89107,36.171,-115.209
+89108,36.205,-115.224
+89109,36.132,-115.17
+89110,36.174,-115.055
+89113,36.06,-115.262
+89115,36.254,-115.043
+89117,36.141,-115.281
+89118,36.078,-115.213
+89119,36.085,-115.146
+89120,36.081,-115.096
+89121,36.121,-115.091
+89122,36.104,-115.038
+89123,36.035,-115.149
+89124,36.392,-115.683
+89128,36.197,-115.264
+89129,36.233,-115.29
+89130,36.253,-115.227
+89131,36.306,-115.243
+89134,36.203,-115.308
+89135,36.095,-115.372
+89138,36.202,-115.365
+89139,36.034,-115.211
+89141,35.988,-115.207
+89142,36.148,-115.031
+89143,36.322,-115.293
+89144,36.177,-115.319
+89145,36.167,-115.276
+89146,36.143,-115.227
+89147,36.113,-115.28
+89148,36.063,-115.297
+89149,36.271,-115.295
+89156,36.159,-114.982
+89158,36.105,-115.177
+89161,36.037,-115.508
+89166,36.337,-115.469
+89169,36.124,-115.142
+89178,35.988,-115.295
+89179,35.892,-115.328
+89183,35.996,-115.158
+89191,36.247,-115.004
+89301,39.531,-114.767
+89310,39.474,-117.14
+89311,39.236,-114.141
+89314,38.863,-115.642
+89315,39.185,-114.845
+89316,39.671,-116.014
+89317,38.905,-115.016
+89318,39.439,-114.817
+89319,39.279,-114.987
+89402,39.23,-120.002
+89403,39.227,-119.474
+89404,41.842,-118.879
+89405,40.45,-119.469
+89406,39.359,-117.947
+89408,39.671,-119.006
+89409,38.727,-117.95
+89410,38.783,-119.559
+89411,39.018,-119.853
+89412,41.121,-119.705
+89413,39.073,-119.923
+89414,41.061,-117.221
+89415,38.517,-118.789
+89418,40.574,-118.041
+89419,40.343,-118.288
+89420,38.508,-118.181
+89421,42.045,-117.947
+89422,38.43,-118.181
+89423,38.997,-119.735
+89424,40.108,-119.448
+89425,41.658,-117.882
+89426,41.478,-117.617
+89427,38.9,-118.646
+89428,39.257,-119.631
+89429,39.357,-119.27
+89430,38.796,-119.318
+89431,39.538,-119.75
+89433,39.598,-119.778
+89434,39.541,-119.544
+89436,39.617,-119.704
+89437,39.501,-119.469
+89438,40.804,-117.127
+89439,39.523,-119.99
+89440,39.296,-119.662
+89441,39.681,-119.688
+89442,39.693,-119.345
+89444,38.74,-119.383
+89445,41.121,-118.009
+89446,40.879,-117.953
+89447,38.83,-119.115
+89448,38.998,-119.915
+89449,38.955,-119.911
+89450,39.241,-119.938
+89451,39.269,-119.946
+89460,38.902,-119.792
+89496,39.199,-118.571
+89501,39.526,-119.813
+89502,39.494,-119.742
+89503,39.541,-119.84
+89506,39.699,-119.826
+89508,39.781,-119.914
+89509,39.497,-119.827
+89510,39.926,-119.711
+89511,39.425,-119.872
+89512,39.551,-119.801
+89519,39.479,-119.857
+89521,39.372,-119.676
+89523,39.527,-119.916
+89557,39.542,-119.816
+89701,39.129,-119.725
+89703,39.137,-119.87
+89704,39.275,-119.787
+89705,39.09,-119.837
+89706,39.223,-119.702
+89801,41.165,-115.757
+89815,40.565,-115.597
+89820,40.429,-116.961
+89821,40.556,-116.416
+89822,40.492,-116.189
+89823,40.95,-115.161
+89825,41.904,-114.71
+89826,41.931,-115.411
+89828,40.735,-115.343
+89830,41.322,-114.177
+89831,41.716,-116.098
+89832,41.979,-116.192
+89833,40.483,-115.332
+89834,41.408,-116.228
+89835,41.276,-114.874
+89883,40.849,-114.158
+90001,33.974,-118.249
+90002,33.949,-118.247
+90003,33.964,-118.273
+90004,34.076,-118.311
+90005,34.059,-118.309
+90006,34.048,-118.294
+90007,34.028,-118.285
+90008,34.011,-118.343
+90010,34.061,-118.3
+90011,34.007,-118.259
+90012,34.066,-118.239
+90013,34.045,-118.24
+90014,34.043,-118.252
+90015,34.039,-118.266
+90016,34.028,-118.354
+90017,34.053,-118.265
+90018,34.029,-118.317
+90019,34.05,-118.338
+90020,34.066,-118.31
+90021,34.029,-118.238
+90022,34.024,-118.156
+90023,34.023,-118.2
+90024,34.066,-118.435
+90025,34.045,-118.446
+90026,34.079,-118.264
+90027,34.128,-118.296
+90028,34.1,-118.327
+90029,34.09,-118.295
+90031,34.084,-118.209
+90032,34.078,-118.186
+90033,34.05,-118.212
+90034,34.031,-118.4
+90035,34.051,-118.386
+90036,34.07,-118.349
+90037,34.003,-118.288
+90038,34.088,-118.327
+90039,34.112,-118.261
+90040,33.995,-118.15
+90041,34.137,-118.208
+90042,34.115,-118.192
+90043,33.989,-118.336
+90044,33.953,-118.292
+90045,33.942,-118.416
+90046,34.108,-118.362
+90047,33.955,-118.31
+90048,34.073,-118.373
+90049,34.093,-118.491
+90052,33.978,-118.259
+90056,33.994,-118.369
+90057,34.062,-118.277
+90058,34.003,-118.216
+90059,33.927,-118.249
+90061,33.921,-118.274
+90062,34.003,-118.309
+90063,34.045,-118.186
+90064,34.035,-118.426
+90065,34.11,-118.229
+90066,34.002,-118.431
+90067,34.056,-118.414
+90068,34.124,-118.327
+90069,34.094,-118.382
+90071,34.052,-118.255
+90073,34.057,-118.46
+90077,34.108,-118.457
+90079,34.041,-118.255
+90089,34.022,-118.286
+90094,33.975,-118.419
+90095,34.071,-118.443
+90201,33.97,-118.171
+90210,34.101,-118.415
+90211,34.065,-118.383
+90212,34.062,-118.402
+90220,33.88,-118.23
+90221,33.886,-118.206
+90222,33.912,-118.238
+90230,33.998,-118.394
+90232,34.019,-118.392
+90240,33.956,-118.118
+90241,33.941,-118.129
+90242,33.922,-118.141
+90245,33.917,-118.402
+90247,33.892,-118.297
+90248,33.878,-118.284
+90249,33.901,-118.316
+90250,33.914,-118.351
+90254,33.864,-118.399
+90255,33.979,-118.217
+90260,33.889,-118.35
+90262,33.924,-118.201
+90263,34.039,-118.708
+90265,34.07,-118.851
+90266,33.892,-118.403
+90270,33.989,-118.188
+90272,34.093,-118.534
+90274,33.78,-118.372
+90275,33.753,-118.368
+90277,33.83,-118.387
+90278,33.874,-118.37
+90280,33.944,-118.193
+90290,34.108,-118.616
+90291,33.993,-118.465
+90292,33.976,-118.452
+90293,33.947,-118.44
+90301,33.956,-118.359
+90302,33.975,-118.356
+90303,33.936,-118.333
+90304,33.937,-118.359
+90305,33.958,-118.331
+90401,34.016,-118.492
+90402,34.035,-118.504
+90403,34.031,-118.492
+90404,34.027,-118.474
+90405,34.011,-118.472
+90501,33.834,-118.314
+90502,33.833,-118.292
+90503,33.839,-118.354
+90504,33.867,-118.332
+90505,33.808,-118.348
+90506,33.885,-118.33
+90601,34.008,-118.03
+90602,33.974,-118.022
+90603,33.945,-117.992
+90604,33.928,-118.014
+90605,33.952,-118.021
+90606,33.977,-118.066
+90620,33.845,-118.015
+90621,33.874,-117.993
+90623,33.851,-118.04
+90630,33.818,-118.038
+90631,33.943,-117.952
+90638,33.902,-118.009
+90639,33.906,-118.015
+90640,34.015,-118.111
+90650,33.908,-118.082
+90660,33.99,-118.089
+90670,33.934,-118.063
+90680,33.801,-117.995
+90701,33.868,-118.081
+90703,33.868,-118.069
+90704,33.399,-118.435
+90706,33.888,-118.127
+90710,33.799,-118.3
+90712,33.849,-118.148
+90713,33.848,-118.113
+90715,33.841,-118.079
+90716,33.83,-118.073
+90717,33.793,-118.317
+90720,33.795,-118.063
+90723,33.899,-118.167
+90731,33.732,-118.278
+90732,33.737,-118.313
+90740,33.754,-118.073
+90742,33.721,-118.076
+90743,33.73,-118.09
+90744,33.777,-118.26
+90745,33.82,-118.264
+90746,33.859,-118.252
+90747,33.864,-118.251
+90755,33.803,-118.167
+90802,33.751,-118.207
+90803,33.754,-118.132
+90804,33.782,-118.148
+90805,33.865,-118.181
+90806,33.809,-118.178
+90807,33.83,-118.181
+90808,33.824,-118.111
+90810,33.82,-118.222
+90813,33.782,-118.197
+90814,33.772,-118.143
+90815,33.795,-118.116
+90822,33.778,-118.119
+90831,33.768,-118.201
+90840,33.785,-118.121
+91001,34.194,-118.138
+91006,34.135,-118.027
+91007,34.128,-118.048
+91008,34.153,-117.969
+91010,34.141,-117.959
+91011,34.218,-118.202
+91016,34.153,-118
+91020,34.211,-118.231
+91024,34.175,-118.046
+91030,34.109,-118.157
+91040,34.258,-118.338
+91042,34.316,-118.265
+91046,34.212,-118.241
+91101,34.147,-118.139
+91103,34.167,-118.164
+91104,34.165,-118.124
+91105,34.139,-118.167
+91106,34.139,-118.129
+91107,34.159,-118.087
+91108,34.122,-118.114
+91125,34.138,-118.125
+91201,34.171,-118.289
+91202,34.183,-118.264
+91203,34.153,-118.263
+91204,34.136,-118.261
+91205,34.137,-118.246
+91206,34.16,-118.214
+91207,34.168,-118.244
+91208,34.186,-118.239
+91210,34.145,-118.258
+91214,34.236,-118.247
+91301,34.123,-118.759
+91302,34.123,-118.67
+91303,34.198,-118.602
+91304,34.228,-118.645
+91306,34.21,-118.578
+91307,34.2,-118.665
+91311,34.292,-118.602
+91316,34.159,-118.517
+91320,34.173,-118.948
+91321,34.364,-118.487
+91324,34.238,-118.55
+91325,34.238,-118.518
+91326,34.282,-118.556
+91330,34.245,-118.527
+91331,34.255,-118.42
+91335,34.2,-118.541
+91340,34.287,-118.435
+91342,34.327,-118.382
+91343,34.239,-118.482
+91344,34.289,-118.505
+91345,34.266,-118.457
+91350,34.431,-118.503
+91351,34.434,-118.458
+91352,34.231,-118.366
+91354,34.458,-118.554
+91355,34.402,-118.57
+91356,34.155,-118.548
+91360,34.213,-118.874
+91361,34.137,-118.882
+91362,34.192,-118.819
+91364,34.155,-118.595
+91367,34.177,-118.616
+91371,34.185,-118.576
+91377,34.185,-118.767
+91381,34.373,-118.608
+91384,34.52,-118.668
+91387,34.403,-118.363
+91390,34.577,-118.493
+91401,34.178,-118.432
+91402,34.223,-118.445
+91403,34.148,-118.465
+91405,34.202,-118.448
+91406,34.197,-118.489
+91411,34.179,-118.46
+91423,34.149,-118.432
+91436,34.15,-118.49
+91501,34.194,-118.294
+91502,34.177,-118.309
+91504,34.213,-118.318
+91505,34.176,-118.348
+91506,34.17,-118.324
+91601,34.168,-118.372
+91602,34.151,-118.368
+91604,34.14,-118.395
+91605,34.207,-118.401
+91606,34.186,-118.388
+91607,34.166,-118.4
+91608,34.139,-118.351
+91701,34.138,-117.6
+91702,34.282,-117.8
+91706,34.097,-117.968
+91708,33.952,-117.64
+91709,33.943,-117.726
+91710,34.005,-117.682
+91711,34.128,-117.715
+91722,34.097,-117.907
+91723,34.085,-117.887
+91724,34.079,-117.854
+91730,34.1,-117.581
+91731,34.079,-118.043
+91732,34.072,-118.015
+91733,34.046,-118.054
+91737,34.155,-117.578
+91739,34.156,-117.517
+91740,34.119,-117.855
+91741,34.163,-117.834
+91744,34.031,-117.937
+91745,33.999,-117.972
+91746,34.043,-117.987
+91748,33.978,-117.902
+91750,34.148,-117.767
+91752,33.996,-117.531
+91754,34.053,-118.143
+91755,34.051,-118.114
+91759,34.264,-117.7
+91761,34.036,-117.592
+91762,34.059,-117.669
+91763,34.072,-117.698
+91764,34.074,-117.606
+91765,33.985,-117.812
+91766,34.042,-117.756
+91767,34.083,-117.738
+91768,34.064,-117.791
+91770,34.065,-118.083
+91773,34.107,-117.809
+91775,34.115,-118.088
+91776,34.089,-118.094
+91780,34.102,-118.056
+91784,34.141,-117.656
+91786,34.105,-117.662
+91789,34.018,-117.855
+91790,34.067,-117.937
+91791,34.062,-117.892
+91792,34.023,-117.902
+91801,34.091,-118.128
+91803,34.075,-118.146
+91901,32.814,-116.727
+91902,32.673,-117.006
+91905,32.679,-116.307
+91906,32.658,-116.476
+91910,32.637,-117.062
+91911,32.607,-117.05
+91913,32.623,-116.987
+91914,32.666,-116.954
+91915,32.624,-116.95
+91916,32.911,-116.632
+91917,32.642,-116.754
+91931,32.838,-116.58
+91932,32.565,-117.115
+91934,32.649,-116.153
+91935,32.694,-116.776
+91941,32.759,-116.997
+91942,32.777,-117.021
+91945,32.733,-117.034
+91948,32.865,-116.473
+91950,32.669,-117.093
+91962,32.847,-116.52
+91963,32.648,-116.596
+91977,32.726,-116.994
+91978,32.699,-116.931
+91980,32.585,-116.633
+92003,33.285,-117.198
+92004,33.198,-116.167
+92007,33.023,-117.276
+92008,33.142,-117.313
+92009,33.095,-117.246
+92010,33.165,-117.281
+92011,33.107,-117.296
+92014,32.963,-117.25
+92019,32.779,-116.871
+92020,32.796,-116.97
+92021,32.836,-116.875
+92024,33.057,-117.258
+92025,33.078,-117.033
+92026,33.211,-117.125
+92027,33.132,-116.977
+92028,33.386,-117.225
+92029,33.086,-117.124
+92036,33.032,-116.265
+92037,32.855,-117.252
+92040,32.909,-116.892
+92054,33.193,-117.36
+92055,33.411,-117.433
+92056,33.2,-117.299
+92057,33.255,-117.283
+92058,33.264,-117.345
+92059,33.383,-117.052
+92060,33.35,-116.864
+92061,33.3,-116.931
+92064,32.984,-117.014
+92065,33.04,-116.83
+92066,33.215,-116.536
+92067,33.021,-117.19
+92069,33.175,-117.158
+92070,33.189,-116.743
+92071,32.851,-116.995
+92075,32.997,-117.261
+92078,33.117,-117.181
+92081,33.165,-117.241
+92082,33.252,-117.003
+92083,33.198,-117.248
+92084,33.227,-117.2
+92086,33.314,-116.63
+92091,33.052,-117.183
+92092,32.876,-117.236
+92093,32.882,-117.237
+92096,33.128,-117.156
+92101,32.718,-117.172
+92102,32.716,-117.117
+92103,32.748,-117.167
+92104,32.742,-117.128
+92105,32.74,-117.09
+92106,32.71,-117.238
+92107,32.739,-117.245
+92108,32.774,-117.143
+92109,32.787,-117.234
+92110,32.765,-117.2
+92111,32.806,-117.169
+92113,32.695,-117.12
+92114,32.708,-117.055
+92115,32.762,-117.072
+92116,32.765,-117.123
+92117,32.825,-117.2
+92118,32.699,-117.209
+92119,32.818,-117.032
+92120,32.794,-117.074
+92121,32.897,-117.202
+92122,32.857,-117.21
+92123,32.81,-117.134
+92124,32.828,-117.085
+92126,32.912,-117.143
+92127,33.019,-117.124
+92128,32.997,-117.073
+92129,32.964,-117.126
+92130,32.948,-117.206
+92131,32.9,-117.047
+92132,32.714,-117.172
+92134,32.725,-117.145
+92135,32.695,-117.194
+92136,32.683,-117.123
+92139,32.68,-117.049
+92140,32.741,-117.198
+92145,32.868,-117.143
+92147,32.725,-117.219
+92154,32.579,-116.967
+92155,32.658,-117.157
+92161,32.874,-117.232
+92173,32.556,-117.051
+92179,32.584,-116.933
+92182,32.775,-117.074
+92201,33.709,-116.237
+92203,33.752,-116.241
+92210,33.703,-116.326
+92211,33.765,-116.334
+92220,33.94,-116.839
+92222,32.783,-114.55
+92223,33.938,-116.981
+92225,33.717,-114.66
+92227,32.99,-115.337
+92230,33.909,-116.769
+92231,32.688,-115.564
+92233,33.147,-115.5
+92234,33.814,-116.466
+92236,33.703,-116.072
+92239,33.768,-115.217
+92240,33.952,-116.52
+92241,33.846,-116.283
+92242,34.189,-114.306
+92243,32.77,-115.599
+92249,32.726,-115.482
+92250,32.777,-115.128
+92251,32.869,-115.714
+92252,34.148,-116.284
+92253,33.657,-116.292
+92254,33.544,-115.998
+92256,34.072,-116.618
+92257,33.336,-115.526
+92258,33.922,-116.56
+92259,32.735,-115.946
+92260,33.697,-116.406
+92262,33.863,-116.557
+92264,33.713,-116.497
+92266,33.199,-114.915
+92267,34.297,-114.207
+92268,34.161,-116.55
+92270,33.764,-116.43
+92273,32.803,-115.698
+92274,33.47,-116.114
+92275,33.208,-115.881
+92276,33.832,-116.386
+92277,34.128,-115.69
+92278,34.235,-116.058
+92280,34.129,-114.985
+92281,33.05,-115.613
+92282,33.962,-116.658
+92283,32.892,-114.773
+92284,34.16,-116.425
+92285,34.338,-116.514
+92301,34.652,-117.526
+92304,34.549,-115.691
+92305,34.144,-116.868
+92307,34.571,-117.133
+92308,34.42,-117.156
+92309,35.249,-116.156
+92310,35.334,-116.763
+92311,34.966,-117.002
+92313,34.031,-117.315
+92314,34.254,-116.796
+92315,34.217,-116.942
+92316,34.057,-117.391
+92317,34.245,-117.209
+92320,33.987,-117.05
+92321,34.25,-117.147
+92322,34.254,-117.323
+92324,34.026,-117.289
+92325,34.247,-117.276
+92327,34.868,-116.836
+92328,36.372,-116.98
+92332,34.907,-115.364
+92333,34.261,-116.982
+92335,34.087,-117.465
+92336,34.137,-117.46
+92337,34.05,-117.471
+92338,34.788,-116.251
+92339,34.084,-116.837
+92341,34.237,-117.063
+92342,34.76,-117.336
+92344,34.392,-117.407
+92345,34.361,-117.313
+92346,34.124,-117.178
+92347,34.95,-117.258
+92350,34.053,-117.262
+92352,34.268,-117.187
+92354,34.051,-117.25
+92356,34.496,-116.893
+92358,34.246,-117.568
+92359,34.085,-117.076
+92363,34.711,-114.582
+92364,35.36,-115.439
+92365,34.897,-116.56
+92368,34.664,-117.315
+92369,34.139,-117.22
+92371,34.438,-117.543
+92372,34.449,-117.635
+92373,34.012,-117.16
+92374,34.069,-117.175
+92376,34.111,-117.38
+92377,34.152,-117.404
+92378,34.232,-117.225
+92382,34.206,-117.112
+92384,36.043,-116.119
+92385,34.213,-117.231
+92386,34.237,-116.825
+92389,35.825,-116.275
+92391,34.24,-117.237
+92392,34.479,-117.409
+92394,34.563,-117.354
+92395,34.505,-117.299
+92397,34.354,-117.754
+92398,34.983,-116.852
+92399,34.032,-117.011
+92401,34.106,-117.292
+92404,34.179,-117.239
+92405,34.146,-117.302
+92407,34.225,-117.388
+92408,34.084,-117.268
+92410,34.112,-117.264
+92411,34.123,-117.326
+92415,34.105,-117.287
+92501,33.997,-117.374
+92503,33.883,-117.452
+92504,33.908,-117.401
+92505,33.927,-117.493
+92506,33.935,-117.367
+92507,33.991,-117.307
+92508,33.89,-117.328
+92509,34.003,-117.442
+92518,33.896,-117.277
+92521,33.967,-117.326
+92530,33.633,-117.37
+92532,33.691,-117.302
+92536,33.492,-116.817
+92539,33.528,-116.648
+92543,33.699,-116.979
+92544,33.646,-116.882
+92545,33.731,-117.036
+92548,33.764,-117.109
+92549,33.804,-116.679
+92551,33.883,-117.225
+92553,33.923,-117.245
+92555,33.911,-117.114
+92557,33.973,-117.258
+92561,33.63,-116.582
+92562,33.531,-117.344
+92563,33.58,-117.147
+92567,33.826,-117.084
+92570,33.78,-117.323
+92571,33.842,-117.195
+92582,33.808,-117.015
+92583,33.797,-116.931
+92584,33.661,-117.182
+92585,33.742,-117.167
+92586,33.708,-117.2
+92587,33.694,-117.251
+92590,33.483,-117.226
+92591,33.534,-117.109
+92592,33.511,-117.022
+92595,33.616,-117.26
+92596,33.669,-117.047
+92602,33.736,-117.735
+92603,33.629,-117.794
+92604,33.691,-117.789
+92606,33.693,-117.831
+92610,33.683,-117.654
+92612,33.66,-117.824
+92614,33.678,-117.835
+92617,33.642,-117.841
+92618,33.667,-117.734
+92620,33.707,-117.757
+92624,33.457,-117.667
+92625,33.602,-117.864
+92626,33.68,-117.909
+92627,33.648,-117.921
+92629,33.475,-117.706
+92630,33.645,-117.684
+92637,33.608,-117.726
+92646,33.661,-117.968
+92647,33.723,-118.009
+92648,33.679,-118.013
+92649,33.72,-118.045
+92651,33.571,-117.773
+92653,33.594,-117.701
+92655,33.746,-117.988
+92656,33.575,-117.73
+92657,33.595,-117.829
+92660,33.635,-117.875
+92661,33.604,-117.913
+92662,33.605,-117.892
+92663,33.625,-117.929
+92672,33.373,-117.521
+92673,33.467,-117.614
+92675,33.5,-117.654
+92676,33.749,-117.616
+92677,33.529,-117.701
+92678,33.652,-117.507
+92679,33.649,-117.561
+92683,33.752,-117.994
+92688,33.619,-117.611
+92691,33.612,-117.666
+92692,33.612,-117.64
+92694,33.515,-117.581
+92697,33.65,-117.849
+92701,33.749,-117.859
+92703,33.749,-117.906
+92704,33.721,-117.905
+92705,33.766,-117.787
+92706,33.766,-117.882
+92707,33.71,-117.87
+92708,33.711,-117.951
+92780,33.737,-117.82
+92782,33.728,-117.797
+92801,33.845,-117.952
+92802,33.808,-117.924
+92804,33.818,-117.975
+92805,33.83,-117.906
+92806,33.838,-117.87
+92807,33.849,-117.788
+92808,33.856,-117.74
+92821,33.932,-117.855
+92823,33.929,-117.796
+92831,33.88,-117.896
+92832,33.869,-117.929
+92833,33.881,-117.961
+92835,33.901,-117.915
+92840,33.787,-117.932
+92841,33.787,-117.982
+92843,33.764,-117.932
+92844,33.766,-117.97
+92845,33.783,-118.026
+92860,33.926,-117.548
+92861,33.818,-117.811
+92865,33.826,-117.851
+92866,33.785,-117.845
+92867,33.816,-117.799
+92868,33.788,-117.876
+92869,33.795,-117.765
+92870,33.881,-117.855
+92879,33.883,-117.528
+92880,33.925,-117.607
+92881,33.824,-117.57
+92882,33.863,-117.6
+92883,33.758,-117.48
+92886,33.895,-117.801
+92887,33.887,-117.734
+93001,34.362,-119.351
+93003,34.284,-119.223
+93004,34.278,-119.165
+93010,34.228,-119.08
+93012,34.203,-118.991
+93013,34.44,-119.503
+93015,34.409,-118.87
+93021,34.305,-118.884
+93022,34.403,-119.298
+93023,34.509,-119.252
+93030,34.205,-119.175
+93033,34.16,-119.136
+93035,34.186,-119.229
+93036,34.248,-119.153
+93040,34.602,-119.02
+93041,34.163,-119.187
+93042,33.256,-119.504
+93043,34.17,-119.203
+93060,34.372,-119.097
+93063,34.308,-118.687
+93064,34.245,-118.7
+93065,34.262,-118.772
+93066,34.298,-119.015
+93067,34.423,-119.596
+93101,34.419,-119.708
+93103,34.437,-119.679
+93105,34.529,-119.768
+93106,34.417,-119.851
+93108,34.449,-119.605
+93109,34.406,-119.727
+93110,34.44,-119.768
+93111,34.449,-119.805
+93117,34.479,-120.084
+93201,35.857,-119.508
+93202,36.319,-119.708
+93203,35.12,-118.846
+93204,35.913,-120.082
+93205,35.573,-118.486
+93206,35.444,-119.479
+93207,35.895,-118.596
+93208,36.13,-118.64
+93210,36.167,-120.439
+93212,36.014,-119.563
+93215,35.779,-119.192
+93218,35.857,-119.045
+93219,35.888,-119.295
+93220,35.379,-118.782
+93221,36.296,-119.03
+93222,34.886,-119.22
+93223,36.301,-119.208
+93224,35.255,-119.625
+93225,34.787,-119.03
+93226,35.736,-118.738
+93227,36.344,-119.419
+93230,36.292,-119.623
+93234,36.196,-120.085
+93235,36.385,-119.223
+93237,36.474,-118.904
+93238,35.851,-118.498
+93239,36.033,-119.986
+93240,35.618,-118.452
+93241,35.245,-118.905
+93242,36.441,-119.73
+93243,34.84,-118.815
+93244,36.386,-118.99
+93245,36.286,-119.834
+93246,36.318,-119.927
+93247,36.202,-119.083
+93249,35.622,-119.888
+93250,35.669,-119.202
+93251,35.371,-119.697
+93252,34.803,-119.359
+93254,34.946,-119.803
+93255,35.677,-118.101
+93256,35.972,-119.314
+93257,35.981,-118.889
+93258,36.058,-119.152
+93260,35.819,-118.661
+93261,35.811,-119.117
+93262,36.437,-118.672
+93263,35.487,-119.278
+93265,36.218,-118.694
+93266,36.172,-119.856
+93267,36.144,-119.074
+93268,35.168,-119.41
+93270,35.942,-119.058
+93271,36.44,-118.88
+93272,36.047,-119.344
+93274,36.178,-119.38
+93276,35.318,-119.409
+93277,36.301,-119.373
+93280,35.652,-119.446
+93283,35.592,-118.298
+93285,35.749,-118.493
+93286,36.463,-119.093
+93287,35.724,-118.921
+93291,36.392,-119.373
+93292,36.366,-119.212
+93301,35.384,-119.021
+93304,35.339,-119.024
+93305,35.39,-118.985
+93306,35.468,-118.78
+93307,35.245,-118.941
+93308,35.547,-118.947
+93309,35.343,-119.065
+93311,35.154,-119.168
+93312,35.392,-119.12
+93313,35.165,-119.044
+93314,35.394,-119.245
+93401,35.236,-120.616
+93402,35.295,-120.835
+93405,35.3,-120.735
+93407,35.307,-120.669
+93408,35.321,-120.719
+93409,35.324,-120.697
+93410,35.304,-120.657
+93420,35.176,-120.477
+93422,35.465,-120.689
+93424,35.199,-120.786
+93426,35.84,-120.975
+93427,34.643,-120.239
+93428,35.585,-121.041
+93429,34.868,-120.54
+93430,35.485,-120.944
+93432,35.479,-120.481
+93433,35.121,-120.62
+93434,34.94,-120.62
+93436,34.6,-120.377
+93437,34.761,-120.509
+93440,34.769,-120.258
+93441,34.733,-120.095
+93442,35.401,-120.8
+93444,35.036,-120.503
+93445,35.044,-120.621
+93446,35.659,-120.718
+93449,35.161,-120.653
+93450,36.085,-120.819
+93451,35.933,-120.561
+93452,35.746,-121.223
+93453,35.241,-120.219
+93454,34.923,-120.259
+93455,34.848,-120.483
+93458,34.953,-120.492
+93460,34.673,-119.744
+93461,35.633,-120.268
+93463,34.606,-120.135
+93465,35.543,-120.734
+93501,35.066,-118.222
+93505,35.109,-117.956
+93510,34.451,-118.228
+93512,37.892,-118.555
+93513,37.036,-118.336
+93514,37.492,-118.39
+93516,35.008,-117.643
+93517,38.278,-119.275
+93518,35.385,-118.491
+93519,35.314,-117.961
+93522,36.316,-117.592
+93523,34.995,-117.884
+93524,34.908,-117.828
+93526,36.857,-118.258
+93527,35.923,-118.079
+93528,35.372,-117.642
+93529,37.778,-119.188
+93530,36.494,-117.89
+93531,35.232,-118.613
+93532,34.69,-118.534
+93534,34.718,-118.152
+93535,34.698,-117.89
+93536,34.738,-118.387
+93541,38.019,-119.06
+93543,34.475,-117.97
+93544,34.488,-117.757
+93545,36.611,-118.026
+93546,37.549,-118.84
+93549,36.293,-117.865
+93550,34.41,-118.06
+93551,34.59,-118.227
+93552,34.584,-118.027
+93553,34.445,-117.895
+93554,35.369,-117.759
+93555,35.582,-117.684
+93558,35.339,-117.585
+93560,34.879,-118.318
+93561,35.099,-118.517
+93562,35.701,-117.308
+93563,34.371,-117.813
+93581,35.113,-118.571
+93591,34.598,-117.816
+93601,37.391,-119.732
+93602,37.067,-119.389
+93603,36.489,-118.998
+93604,37.348,-119.53
+93605,37.176,-119.25
+93606,36.799,-120.016
+93608,36.505,-120.339
+93609,36.526,-119.864
+93610,37.087,-120.289
+93611,36.827,-119.681
+93612,36.815,-119.712
+93614,37.218,-119.731
+93615,36.504,-119.284
+93616,36.655,-119.594
+93618,36.522,-119.387
+93619,36.914,-119.594
+93620,37.043,-120.621
+93621,36.747,-119.101
+93622,36.786,-120.625
+93623,37.477,-119.674
+93624,36.379,-120.13
+93625,36.624,-119.672
+93626,37.043,-119.691
+93627,36.511,-120.106
+93628,36.771,-118.848
+93630,36.717,-120.127
+93631,36.48,-119.517
+93633,36.729,-118.956
+93634,37.224,-119.001
+93635,37.02,-120.882
+93636,36.985,-119.878
+93637,36.918,-120.186
+93638,37.043,-120.034
+93640,36.673,-120.44
+93641,36.705,-119.04
+93643,37.205,-119.518
+93644,37.418,-119.593
+93645,37.152,-119.62
+93646,36.632,-119.289
+93647,36.601,-119.175
+93648,36.621,-119.521
+93650,36.84,-119.8
+93651,37.002,-119.515
+93652,36.595,-119.905
+93653,37.256,-119.909
+93654,36.659,-119.401
+93656,36.451,-119.937
+93657,36.817,-119.459
+93660,36.609,-120.165
+93662,36.537,-119.639
+93664,37.05,-119.191
+93665,36.963,-120.65
+93666,36.546,-119.336
+93667,36.966,-119.317
+93668,36.658,-120.293
+93669,37.291,-119.548
+93670,36.486,-119.254
+93673,36.452,-119.482
+93675,36.725,-119.193
+93701,36.75,-119.788
+93702,36.739,-119.754
+93703,36.769,-119.762
+93704,36.8,-119.801
+93705,36.787,-119.827
+93706,36.656,-119.92
+93710,36.824,-119.763
+93711,36.837,-119.834
+93720,36.862,-119.761
+93721,36.733,-119.784
+93722,36.8,-119.878
+93723,36.79,-119.953
+93725,36.627,-119.732
+93726,36.794,-119.76
+93727,36.752,-119.695
+93728,36.757,-119.818
+93730,36.904,-119.747
+93737,36.754,-119.646
+93740,36.816,-119.746
+93741,36.767,-119.796
+93901,36.648,-121.63
+93905,36.685,-121.606
+93906,36.723,-121.634
+93907,36.767,-121.667
+93908,36.626,-121.602
+93920,36.052,-121.514
+93921,36.554,-121.922
+93923,36.406,-121.796
+93924,36.416,-121.638
+93925,36.588,-121.399
+93926,36.526,-121.397
+93927,36.276,-121.392
+93928,36.083,-121.471
+93930,36.2,-121.082
+93932,35.99,-121.064
+93933,36.677,-121.781
+93940,36.562,-121.806
+93943,36.598,-121.873
+93944,36.601,-121.919
+93950,36.619,-121.925
+93953,36.587,-121.945
+93954,36.173,-120.903
+93955,36.615,-121.788
+93960,36.406,-121.323
+93962,36.625,-121.646
+94002,37.513,-122.297
+94005,37.689,-122.409
+94010,37.572,-122.375
+94014,37.691,-122.448
+94015,37.681,-122.481
+94018,37.506,-122.473
+94019,37.456,-122.408
+94020,37.269,-122.222
+94021,37.25,-122.25
+94022,37.355,-122.145
+94024,37.35,-122.099
+94025,37.451,-122.182
+94027,37.457,-122.201
+94028,37.375,-122.213
+94030,37.6,-122.403
+94037,37.553,-122.496
+94038,37.53,-122.485
+94040,37.38,-122.085
+94041,37.388,-122.075
+94043,37.412,-122.069
+94044,37.607,-122.477
+94060,37.247,-122.273
+94061,37.461,-122.237
+94062,37.423,-122.286
+94063,37.493,-122.196
+94065,37.533,-122.25
+94066,37.625,-122.432
+94070,37.496,-122.273
+94074,37.332,-122.341
+94080,37.655,-122.418
+94085,37.389,-122.018
+94086,37.372,-122.023
+94087,37.352,-122.037
+94089,37.412,-122.016
+94102,37.78,-122.419
+94103,37.773,-122.411
+94104,37.791,-122.402
+94105,37.792,-122.394
+94107,37.759,-122.4
+94108,37.792,-122.409
+94109,37.794,-122.422
+94110,37.75,-122.415
+94111,37.798,-122.399
+94112,37.721,-122.443
+94114,37.758,-122.436
+94115,37.786,-122.437
+94116,37.745,-122.486
+94117,37.77,-122.444
+94118,37.78,-122.462
+94121,37.779,-122.496
+94122,37.76,-122.484
+94123,37.802,-122.434
+94124,37.729,-122.381
+94127,37.736,-122.457
+94128,37.622,-122.384
+94129,37.797,-122.464
+94130,37.82,-122.369
+94131,37.746,-122.441
+94132,37.722,-122.484
+94133,37.802,-122.411
+94134,37.719,-122.411
+94158,37.773,-122.388
+94188,37.741,-122.381
+94301,37.444,-122.15
+94303,37.458,-122.115
+94304,37.397,-122.167
+94305,37.418,-122.171
+94306,37.416,-122.131
+94401,37.575,-122.32
+94402,37.54,-122.33
+94403,37.538,-122.305
+94404,37.556,-122.268
+94501,37.775,-122.278
+94502,37.738,-122.241
+94503,38.188,-122.224
+94505,37.871,-121.597
+94506,37.806,-121.902
+94507,37.854,-122.007
+94508,38.586,-122.444
+94509,37.992,-121.813
+94510,38.113,-122.12
+94511,38.028,-121.63
+94512,38.131,-121.822
+94513,37.925,-121.687
+94514,37.826,-121.634
+94515,38.635,-122.615
+94516,37.827,-122.166
+94517,37.891,-121.893
+94518,37.951,-122.022
+94519,37.989,-122.013
+94520,37.993,-122.035
+94521,37.953,-121.97
+94523,37.954,-122.076
+94525,38.048,-122.229
+94526,37.815,-121.985
+94528,37.841,-121.958
+94530,37.921,-122.301
+94531,37.957,-121.778
+94533,38.281,-122.006
+94534,38.242,-122.118
+94535,38.271,-121.937
+94536,37.571,-121.981
+94538,37.501,-121.957
+94539,37.516,-121.912
+94541,37.674,-122.088
+94542,37.655,-122.026
+94544,37.634,-122.057
+94545,37.631,-122.125
+94546,37.745,-122.103
+94547,38.007,-122.257
+94548,37.974,-121.651
+94549,37.901,-122.119
+94550,37.52,-121.576
+94551,37.751,-121.749
+94552,37.706,-122.008
+94553,37.978,-122.157
+94555,37.548,-122.098
+94556,37.832,-122.106
+94558,38.389,-122.188
+94559,38.251,-122.296
+94560,37.504,-122.032
+94561,37.993,-121.691
+94562,38.431,-122.409
+94563,37.874,-122.205
+94564,37.991,-122.272
+94565,38.009,-121.928
+94566,37.649,-121.848
+94567,38.667,-122.407
+94568,37.716,-121.901
+94569,38.044,-122.192
+94571,38.152,-121.76
+94572,38.024,-122.233
+94573,38.459,-122.429
+94574,38.542,-122.42
+94575,37.841,-122.11
+94576,38.549,-122.476
+94577,37.717,-122.169
+94578,37.707,-122.126
+94579,37.687,-122.157
+94580,37.678,-122.133
+94582,37.765,-121.915
+94583,37.772,-121.99
+94585,38.192,-121.938
+94586,37.567,-121.852
+94587,37.59,-122.075
+94588,37.793,-121.863
+94589,38.141,-122.247
+94590,38.096,-122.25
+94591,38.127,-122.197
+94592,38.091,-122.285
+94595,37.872,-122.069
+94596,37.889,-122.037
+94597,37.918,-122.072
+94598,37.917,-122.015
+94599,38.399,-122.38
+94601,37.777,-122.218
+94602,37.805,-122.204
+94603,37.739,-122.176
+94605,37.761,-122.15
+94606,37.791,-122.245
+94607,37.809,-122.305
+94608,37.837,-122.289
+94609,37.835,-122.264
+94610,37.812,-122.24
+94611,37.832,-122.216
+94612,37.808,-122.267
+94613,37.781,-122.183
+94618,37.845,-122.239
+94619,37.793,-122.16
+94621,37.751,-122.21
+94702,37.866,-122.286
+94703,37.864,-122.276
+94704,37.866,-122.261
+94705,37.865,-122.238
+94706,37.89,-122.296
+94707,37.898,-122.279
+94708,37.903,-122.262
+94709,37.878,-122.266
+94710,37.864,-122.306
+94720,37.872,-122.252
+94801,37.949,-122.397
+94803,37.957,-122.282
+94804,37.915,-122.338
+94805,37.942,-122.324
+94806,37.978,-122.336
+94901,37.981,-122.501
+94903,38.022,-122.559
+94904,37.947,-122.552
+94920,37.887,-122.463
+94922,38.357,-122.951
+94923,38.339,-123.035
+94924,37.967,-122.739
+94925,37.932,-122.508
+94928,38.346,-122.694
+94929,38.255,-122.962
+94930,37.97,-122.615
+94931,38.325,-122.717
+94933,38.018,-122.688
+94937,38.116,-122.93
+94938,38.03,-122.73
+94939,37.938,-122.536
+94940,38.204,-122.891
+94941,37.925,-122.6
+94945,38.123,-122.553
+94946,38.075,-122.695
+94947,38.106,-122.625
+94949,38.06,-122.506
+94950,38.021,-122.762
+94951,38.323,-122.645
+94952,38.235,-122.76
+94954,38.235,-122.557
+94956,38.021,-122.818
+94957,37.963,-122.562
+94960,37.997,-122.578
+94963,38.008,-122.665
+94964,37.941,-122.491
+94965,37.837,-122.527
+94970,37.926,-122.66
+94971,38.233,-122.897
+94972,38.337,-122.939
+94973,38.013,-122.639
+95002,37.439,-122.012
+95003,37.007,-121.878
+95004,36.875,-121.631
+95005,37.098,-122.089
+95006,37.171,-122.15
+95007,37.11,-122.114
+95008,37.279,-121.956
+95010,36.976,-121.955
+95012,36.789,-121.735
+95013,37.215,-121.74
+95014,37.308,-122.082
+95017,37.095,-122.237
+95018,37.084,-122.06
+95019,36.936,-121.784
+95020,37.016,-121.559
+95023,36.92,-121.322
+95030,37.222,-121.983
+95032,37.18,-121.902
+95033,37.158,-121.974
+95035,37.44,-121.875
+95037,37.132,-121.681
+95039,36.828,-121.765
+95041,37.051,-122.058
+95043,36.518,-120.983
+95045,36.826,-121.519
+95046,37.099,-121.599
+95050,37.35,-121.952
+95051,37.348,-121.984
+95053,37.348,-121.937
+95054,37.393,-121.965
+95060,36.993,-122.098
+95062,36.974,-121.99
+95064,36.992,-122.059
+95065,37.032,-121.984
+95066,37.067,-122.015
+95070,37.255,-122.052
+95073,37.041,-121.932
+95075,36.794,-121.192
+95076,36.946,-121.756
+95110,37.347,-121.91
+95111,37.284,-121.827
+95112,37.345,-121.883
+95113,37.334,-121.89
+95116,37.35,-121.853
+95117,37.31,-121.962
+95118,37.255,-121.892
+95119,37.227,-121.789
+95120,37.186,-121.843
+95121,37.305,-121.81
+95122,37.329,-121.835
+95123,37.244,-121.832
+95124,37.257,-121.923
+95125,37.296,-121.894
+95126,37.327,-121.917
+95127,37.372,-121.787
+95128,37.316,-121.936
+95129,37.306,-122.001
+95130,37.278,-121.986
+95131,37.387,-121.898
+95132,37.418,-121.788
+95133,37.372,-121.861
+95134,37.43,-121.945
+95135,37.223,-121.526
+95136,37.271,-121.853
+95138,37.246,-121.749
+95139,37.225,-121.764
+95140,37.351,-121.641
+95148,37.333,-121.782
+95202,37.96,-121.288
+95203,37.954,-121.329
+95204,37.974,-121.319
+95205,37.965,-121.26
+95206,37.908,-121.395
+95207,38.002,-121.325
+95209,38.047,-121.353
+95210,38.032,-121.298
+95211,37.98,-121.311
+95212,38.05,-121.233
+95215,37.949,-121.157
+95219,38.037,-121.512
+95220,38.2,-121.235
+95221,38.072,-120.548
+95222,38.051,-120.59
+95223,38.446,-119.813
+95224,38.231,-120.323
+95225,38.203,-120.864
+95226,38.237,-120.866
+95227,38.21,-121.051
+95228,37.907,-120.688
+95230,37.998,-120.895
+95231,37.874,-121.29
+95232,38.361,-120.577
+95233,38.186,-120.369
+95236,38.044,-121.039
+95237,38.154,-121.147
+95240,38.124,-121.159
+95242,38.137,-121.385
+95245,38.303,-120.609
+95246,38.25,-120.489
+95247,38.136,-120.444
+95248,38.318,-120.461
+95249,38.19,-120.62
+95251,38.08,-120.454
+95252,38.159,-120.843
+95253,38.147,-121.195
+95254,38.2,-120.964
+95255,38.42,-120.48
+95257,38.38,-120.468
+95258,38.172,-121.309
+95301,37.306,-120.656
+95303,37.47,-120.671
+95304,37.681,-121.382
+95305,37.816,-120.361
+95306,37.363,-120.119
+95307,37.556,-120.954
+95309,37.871,-120.432
+95310,38.086,-120.379
+95311,37.706,-120.091
+95312,37.421,-120.653
+95313,37.418,-121.051
+95315,37.423,-120.774
+95316,37.54,-120.669
+95317,37.127,-120.506
+95318,37.666,-119.808
+95319,37.629,-120.885
+95320,37.819,-121.007
+95321,37.932,-119.836
+95322,37.182,-121.02
+95323,37.605,-120.684
+95324,37.393,-120.899
+95325,37.481,-120.245
+95326,37.589,-120.855
+95327,37.848,-120.487
+95328,37.558,-120.909
+95329,37.678,-120.418
+95330,37.813,-121.317
+95333,37.245,-120.243
+95334,37.35,-120.751
+95335,38.125,-120.093
+95336,37.83,-121.201
+95337,37.743,-121.238
+95338,37.507,-119.984
+95340,37.34,-120.406
+95341,37.231,-120.501
+95345,37.591,-119.963
+95346,38.07,-120.173
+95348,37.421,-120.5
+95350,37.672,-121.007
+95351,37.624,-120.997
+95354,37.639,-120.965
+95355,37.673,-120.947
+95356,37.719,-121.032
+95357,37.671,-120.886
+95358,37.612,-121.108
+95360,37.326,-121.038
+95361,37.792,-120.786
+95363,37.374,-121.251
+95364,38.225,-119.76
+95365,37.301,-120.331
+95366,37.763,-121.125
+95367,37.73,-120.947
+95368,37.713,-121.085
+95369,37.525,-120.404
+95370,37.984,-120.348
+95372,37.991,-120.263
+95374,37.317,-120.856
+95375,38.226,-119.96
+95376,37.737,-121.434
+95377,37.674,-121.517
+95379,37.966,-120.213
+95380,37.474,-120.875
+95382,37.528,-120.851
+95383,38.093,-120.233
+95385,37.61,-121.248
+95386,37.667,-120.622
+95387,37.554,-121.245
+95388,37.421,-120.6
+95389,37.784,-119.428
+95391,37.781,-121.598
+95401,38.449,-122.794
+95403,38.504,-122.754
+95404,38.526,-122.69
+95405,38.438,-122.669
+95407,38.395,-122.746
+95409,38.468,-122.582
+95410,39.235,-123.7
+95412,38.713,-123.314
+95415,39.021,-123.368
+95417,39.688,-123.651
+95419,38.423,-122.958
+95420,39.359,-123.766
+95421,38.584,-123.183
+95422,38.986,-122.643
+95423,39.067,-122.63
+95425,38.823,-123.064
+95426,38.833,-122.734
+95427,39.253,-123.569
+95428,39.825,-123.18
+95429,39.756,-123.359
+95430,38.461,-123.047
+95431,38.349,-122.516
+95432,39.108,-123.645
+95435,39.003,-122.875
+95436,38.487,-122.906
+95437,39.444,-123.686
+95439,38.491,-122.776
+95441,38.722,-123.047
+95442,38.378,-122.516
+95443,39.05,-122.74
+95444,38.433,-122.869
+95445,38.833,-123.473
+95446,38.519,-123.011
+95448,38.623,-122.889
+95449,38.936,-123.119
+95450,38.51,-123.208
+95451,38.922,-122.79
+95452,38.43,-122.536
+95453,39.046,-122.941
+95454,39.784,-123.496
+95456,39.259,-123.759
+95457,38.924,-122.549
+95458,39.109,-122.778
+95459,38.977,-123.605
+95460,39.305,-123.749
+95461,38.754,-122.552
+95462,38.473,-123.022
+95463,39.19,-123.581
+95464,39.126,-122.847
+95465,38.417,-123.046
+95466,39.057,-123.506
+95467,38.813,-122.548
+95468,38.919,-123.606
+95469,39.399,-123.075
+95470,39.299,-123.239
+95471,38.532,-122.974
+95472,38.399,-122.862
+95476,38.256,-122.461
+95480,38.685,-123.368
+95482,39.137,-123.261
+95485,39.208,-122.926
+95486,38.474,-123.024
+95488,39.727,-123.789
+95490,39.479,-123.348
+95492,38.53,-122.812
+95493,39.222,-122.985
+95494,38.896,-123.343
+95497,38.725,-123.458
+95501,40.802,-124.145
+95503,40.738,-124.108
+95511,40.166,-123.584
+95514,40.287,-123.662
+95519,40.963,-124.053
+95521,40.843,-124.045
+95524,40.821,-124.05
+95525,40.954,-123.824
+95526,40.462,-123.676
+95527,40.951,-123.421
+95528,40.497,-123.931
+95531,41.863,-124.131
+95536,40.501,-124.21
+95537,40.727,-124.219
+95538,41.868,-124.154
+95540,40.567,-124.126
+95542,40.093,-123.76
+95543,41.889,-123.803
+95545,40.262,-124.086
+95546,41.186,-123.731
+95547,40.569,-124.078
+95548,41.59,-124.061
+95549,40.667,-123.908
+95550,40.781,-123.836
+95551,40.675,-124.231
+95552,40.344,-123.417
+95553,40.231,-123.869
+95554,40.296,-123.777
+95555,41.303,-123.978
+95556,41.308,-123.587
+95558,40.338,-124.261
+95559,40.19,-123.748
+95560,40.143,-123.839
+95562,40.441,-124.1
+95563,40.894,-123.564
+95564,40.791,-124.205
+95565,40.455,-124.015
+95567,41.951,-124.097
+95568,41.485,-123.491
+95569,40.361,-123.862
+95570,41.114,-124.083
+95571,40.366,-123.944
+95573,40.915,-123.669
+95585,39.859,-123.666
+95587,39.97,-123.755
+95589,40.061,-123.98
+95595,40.088,-123.153
+95601,38.425,-120.83
+95602,38.991,-121.104
+95603,38.911,-121.086
+95604,39.239,-120.071
+95605,38.594,-121.54
+95606,38.756,-122.194
+95607,38.831,-122.126
+95608,38.627,-121.331
+95610,38.695,-121.272
+95612,38.385,-121.579
+95613,38.813,-120.892
+95614,38.886,-120.98
+95615,38.311,-121.542
+95616,38.554,-121.799
+95618,38.543,-121.691
+95619,38.681,-120.814
+95620,38.405,-121.754
+95621,38.695,-121.309
+95623,38.633,-120.844
+95624,38.434,-121.306
+95625,38.357,-121.909
+95626,38.734,-121.489
+95627,38.735,-122.025
+95628,38.652,-121.254
+95629,38.513,-120.688
+95630,38.663,-121.14
+95631,39.055,-120.754
+95632,38.274,-121.259
+95633,38.849,-120.822
+95634,38.901,-120.707
+95635,38.911,-120.909
+95636,38.612,-120.487
+95637,38.853,-122.273
+95638,38.343,-121.07
+95639,38.409,-121.495
+95640,38.342,-120.94
+95641,38.156,-121.605
+95642,38.344,-120.764
+95645,38.894,-121.797
+95646,38.632,-120.015
+95648,38.923,-121.312
+95650,38.809,-121.171
+95651,38.821,-120.935
+95652,38.663,-121.401
+95653,38.697,-121.978
+95655,38.549,-121.279
+95658,38.881,-121.169
+95659,38.859,-121.59
+95660,38.679,-121.38
+95661,38.741,-121.249
+95662,38.689,-121.218
+95663,38.857,-121.183
+95664,38.801,-121.038
+95665,38.395,-120.653
+95666,38.541,-120.329
+95667,38.733,-120.791
+95668,38.828,-121.495
+95669,38.49,-120.892
+95670,38.604,-121.28
+95671,38.694,-121.154
+95672,38.722,-120.993
+95673,38.691,-121.466
+95674,38.954,-121.482
+95675,38.545,-120.743
+95676,38.874,-121.714
+95677,38.793,-121.232
+95678,38.765,-121.288
+95679,38.917,-122.285
+95680,38.241,-121.578
+95681,38.998,-121.354
+95682,38.599,-120.963
+95683,38.512,-121.096
+95684,38.566,-120.501
+95685,38.434,-120.762
+95686,38.158,-121.52
+95687,38.333,-121.92
+95688,38.421,-122.03
+95689,38.471,-120.616
+95690,38.203,-121.626
+95691,38.628,-121.593
+95692,39.043,-121.41
+95693,38.399,-121.22
+95694,38.572,-122.065
+95695,38.694,-121.853
+95697,38.733,-121.807
+95698,38.816,-121.911
+95699,38.437,-120.858
+95701,39.227,-120.767
+95703,38.989,-120.988
+95709,38.749,-120.691
+95713,39.081,-120.932
+95714,39.201,-120.837
+95715,39.277,-120.644
+95717,39.143,-120.843
+95720,38.851,-120.251
+95721,38.816,-120.096
+95722,39.01,-121.035
+95726,38.762,-120.413
+95728,39.295,-120.401
+95735,38.84,-120.15
+95736,39.039,-120.977
+95742,38.562,-121.205
+95746,38.747,-121.166
+95747,38.778,-121.369
+95757,38.332,-121.437
+95758,38.43,-121.445
+95762,38.684,-121.065
+95765,38.82,-121.278
+95776,38.699,-121.699
+95811,38.593,-121.483
+95814,38.581,-121.496
+95815,38.606,-121.445
+95816,38.575,-121.465
+95817,38.551,-121.457
+95818,38.554,-121.497
+95819,38.567,-121.438
+95820,38.535,-121.444
+95821,38.626,-121.385
+95822,38.513,-121.494
+95823,38.475,-121.443
+95824,38.517,-121.441
+95825,38.592,-121.408
+95826,38.544,-121.378
+95827,38.548,-121.327
+95828,38.489,-121.396
+95829,38.49,-121.323
+95830,38.491,-121.284
+95831,38.496,-121.53
+95832,38.447,-121.496
+95833,38.619,-121.518
+95834,38.635,-121.519
+95835,38.668,-121.526
+95837,38.694,-121.599
+95838,38.646,-121.445
+95841,38.66,-121.348
+95842,38.687,-121.349
+95843,38.715,-121.364
+95864,38.584,-121.376
+95901,39.224,-121.494
+95903,39.121,-121.371
+95910,39.463,-120.83
+95912,39,-122.074
+95913,39.629,-122.192
+95914,39.408,-121.379
+95915,39.991,-121.231
+95916,39.651,-121.382
+95917,39.436,-121.764
+95918,39.301,-121.338
+95919,39.434,-121.266
+95920,39.45,-121.936
+95922,39.467,-121.072
+95923,40.184,-121.137
+95925,39.484,-121.193
+95926,39.746,-121.844
+95928,39.681,-121.837
+95929,39.726,-121.85
+95930,39.549,-121.16
+95932,39.247,-122.012
+95934,40.06,-120.908
+95935,39.379,-121.192
+95936,39.581,-120.774
+95937,38.884,-121.998
+95938,39.605,-121.795
+95939,39.562,-122.612
+95941,39.517,-121.274
+95942,39.916,-121.667
+95943,39.575,-122.035
+95944,39.54,-120.851
+95945,39.193,-120.98
+95946,39.209,-121.214
+95947,40.159,-120.844
+95948,39.339,-121.771
+95949,39.103,-121.134
+95950,39.043,-121.918
+95951,39.723,-122.004
+95953,39.26,-121.776
+95954,39.854,-121.578
+95955,39.295,-122.202
+95956,39.884,-121.116
+95957,39.052,-121.825
+95958,39.564,-121.798
+95959,39.352,-120.871
+95960,39.441,-121.017
+95961,39.041,-121.563
+95962,39.323,-121.273
+95963,39.748,-122.303
+95965,39.594,-121.581
+95966,39.475,-121.414
+95968,39.435,-121.552
+95969,39.721,-121.639
+95970,39.41,-122.052
+95971,39.929,-120.924
+95972,39.423,-121.338
+95973,39.877,-121.86
+95974,39.497,-121.756
+95975,39.224,-121.154
+95977,39.177,-121.292
+95978,39.908,-121.53
+95979,39.29,-122.476
+95981,39.653,-121.04
+95982,39.173,-121.806
+95983,40.058,-120.739
+95984,39.983,-121.128
+95986,39.362,-120.765
+95987,39.104,-122.247
+95988,39.497,-122.288
+95991,39.016,-121.611
+95993,39.082,-121.68
+96001,40.577,-122.455
+96002,40.528,-122.319
+96003,40.667,-122.32
+96006,41.134,-120.843
+96007,40.457,-122.308
+96008,40.723,-122.11
+96009,41.056,-121.021
+96010,40.95,-123.235
+96011,41.056,-121.892
+96013,40.974,-121.692
+96014,41.388,-122.781
+96015,41.512,-120.878
+96016,40.894,-121.509
+96017,41.106,-122.313
+96019,40.687,-122.399
+96020,40.307,-121.262
+96021,39.923,-122.27
+96022,40.336,-122.448
+96023,41.909,-121.977
+96024,40.547,-122.881
+96025,41.2,-122.319
+96027,41.39,-123.231
+96028,41.007,-121.457
+96029,39.939,-122.489
+96031,41.176,-123.198
+96032,41.585,-122.98
+96033,40.741,-122.593
+96034,41.444,-122.605
+96035,40.042,-122.185
+96037,41.545,-122.921
+96038,41.607,-122.546
+96039,41.669,-123.376
+96040,40.79,-121.475
+96041,40.513,-123.196
+96044,41.933,-122.675
+96046,40.61,-123.429
+96047,40.479,-122.692
+96048,40.83,-123.023
+96050,41.853,-122.951
+96051,40.916,-122.311
+96052,40.683,-122.786
+96054,41.261,-121.119
+96055,40.099,-121.998
+96056,41.067,-121.318
+96057,41.272,-121.92
+96058,41.727,-121.907
+96059,40.434,-121.829
+96061,40.348,-121.488
+96062,40.556,-122.091
+96063,40.37,-121.606
+96064,41.755,-122.366
+96065,40.89,-121.957
+96067,41.322,-122.321
+96068,41.103,-121.198
+96069,40.685,-122.016
+96071,40.694,-121.457
+96073,40.599,-122.195
+96074,39.862,-122.591
+96075,40.362,-121.876
+96076,40.392,-122.938
+96078,40.082,-122.176
+96080,40.165,-122.442
+96084,40.796,-121.869
+96085,41.741,-123.077
+96086,41.924,-123.261
+96087,40.633,-122.587
+96088,40.511,-121.876
+96090,40.007,-122.119
+96091,41.044,-122.801
+96092,39.971,-121.97
+96093,40.765,-122.941
+96094,41.515,-122.351
+96096,40.636,-121.876
+96097,41.756,-122.659
+96101,41.456,-120.511
+96103,39.78,-120.671
+96104,41.46,-120.13
+96105,39.689,-120.144
+96106,39.735,-120.544
+96107,38.408,-119.548
+96108,41.787,-120.402
+96109,39.994,-120.102
+96110,41.242,-120.125
+96111,39.415,-120.017
+96112,41.892,-120.172
+96113,40.188,-120.146
+96114,40.293,-120.489
+96115,41.691,-120.079
+96116,41.257,-120.446
+96117,40.533,-120.235
+96118,39.64,-120.247
+96119,41.04,-120.554
+96120,38.742,-119.869
+96121,40.164,-120.38
+96122,39.821,-120.476
+96123,40.846,-120.322
+96124,39.639,-120.468
+96125,39.614,-120.602
+96126,39.55,-120.404
+96128,40.349,-120.406
+96129,39.835,-120.36
+96130,40.549,-120.634
+96132,40.9,-120.514
+96133,38.621,-119.505
+96134,41.835,-121.445
+96135,39.813,-120.209
+96136,40.346,-120.081
+96137,40.469,-121.23
+96140,39.232,-120.096
+96141,39.099,-120.205
+96142,38.999,-120.104
+96143,39.261,-120.026
+96145,39.181,-120.151
+96146,39.216,-120.245
+96148,39.25,-120.058
+96150,38.873,-120.068
+96155,38.763,-120.087
+96161,39.348,-120.225
+96701,21.406,-157.885
+96703,22.136,-159.372
+96704,19.294,-155.841
+96705,21.9,-159.569
+96706,21.345,-158.022
+96707,21.363,-158.082
+96708,20.883,-156.232
+96710,19.842,-155.248
+96712,21.652,-157.983
+96713,20.734,-156.107
+96714,22.131,-159.521
+96716,21.91,-159.601
+96717,21.558,-157.905
+96719,20.24,-155.833
+96720,19.66,-155.232
+96722,22.188,-159.461
+96725,19.597,-155.901
+96726,19.421,-155.811
+96727,20.106,-155.486
+96728,19.862,-155.129
+96729,21.178,-157.12
+96730,21.538,-157.844
+96731,21.678,-157.969
+96732,20.877,-156.46
+96734,21.395,-157.758
+96737,19.107,-155.781
+96738,19.872,-155.802
+96740,19.757,-155.92
+96741,21.956,-159.515
+96742,21.177,-156.966
+96743,20.027,-155.784
+96744,21.448,-157.829
+96746,22.093,-159.353
+96747,21.917,-159.632
+96748,21.131,-156.835
+96749,19.621,-154.99
+96750,19.523,-155.917
+96751,22.107,-159.305
+96752,22.117,-159.681
+96753,20.727,-156.441
+96754,22.189,-159.403
+96755,20.191,-155.773
+96756,21.905,-159.453
+96757,21.154,-156.977
+96759,21.46,-158.06
+96760,19.552,-155.055
+96761,20.92,-156.617
+96762,21.619,-157.944
+96763,20.836,-156.927
+96764,19.994,-155.248
+96765,21.926,-159.499
+96766,22.011,-159.405
+96768,20.829,-156.297
+96769,21.959,-159.618
+96770,21.134,-157.211
+96771,19.526,-155.144
+96772,19.066,-155.668
+96773,19.912,-155.277
+96774,19.969,-155.315
+96776,20.002,-155.375
+96777,19.228,-155.467
+96778,19.428,-155.089
+96779,20.91,-156.384
+96780,19.966,-155.225
+96781,19.806,-155.2
+96782,21.451,-157.916
+96783,19.843,-155.106
+96785,19.478,-155.23
+96786,21.538,-158.022
+96789,21.484,-157.934
+96790,20.712,-156.294
+96791,21.564,-158.185
+96792,21.469,-158.167
+96793,20.896,-156.53
+96795,21.335,-157.711
+96796,21.962,-159.668
+96797,21.408,-158.018
+96799,-14.323,-170.752
+96813,21.317,-157.845
+96814,21.291,-157.844
+96815,21.272,-157.822
+96816,21.291,-157.791
+96817,21.356,-157.822
+96818,21.343,-157.94
+96819,21.347,-157.877
+96820,21.336,-157.921
+96821,21.311,-157.75
+96822,21.32,-157.81
+96825,21.293,-157.692
+96826,21.292,-157.827
+96848,21.301,-157.814
+96850,21.304,-157.863
+96853,21.335,-157.94
+96857,21.488,-158.053
+96858,21.345,-157.883
+96859,21.36,-157.89
+96860,21.357,-157.947
+96863,21.437,-157.745
+96910,13.453,144.747
+96913,13.478,144.815
+96915,13.374,144.708
+96916,13.266,144.689
+96917,13.282,144.743
+96928,13.356,144.657
+96929,13.567,144.878
+96950,15.187,145.754
+96951,14.152,145.213
+96952,15.01,145.621
+97001,44.99,-120.604
+97002,45.24,-122.794
+97003,45.504,-122.865
+97004,45.255,-122.449
+97005,45.491,-122.804
+97006,45.526,-122.856
+97007,45.443,-122.871
+97008,45.46,-122.802
+97009,45.423,-122.333
+97011,45.387,-122.037
+97013,45.221,-122.668
+97014,45.643,-121.789
+97015,45.417,-122.533
+97016,46.052,-123.263
+97017,45.173,-122.369
+97018,45.898,-122.812
+97019,45.482,-122.191
+97020,45.223,-122.839
+97021,45.385,-121.121
+97022,45.347,-122.32
+97023,45.204,-122.201
+97024,45.544,-122.44
+97026,45.105,-122.938
+97027,45.386,-122.593
+97028,45.288,-121.807
+97029,45.3,-120.813
+97030,45.51,-122.433
+97031,45.611,-121.601
+97032,45.179,-122.786
+97033,45.2,-120.584
+97034,45.409,-122.686
+97035,45.414,-122.725
+97037,45.067,-121.028
+97038,45.095,-122.559
+97039,45.471,-120.619
+97040,45.617,-121.388
+97041,45.42,-121.596
+97042,45.208,-122.537
+97045,45.32,-122.536
+97048,46.014,-122.975
+97049,45.371,-121.873
+97050,45.674,-120.782
+97051,45.889,-122.921
+97053,45.828,-122.883
+97054,45.961,-122.927
+97055,45.361,-122.158
+97056,45.8,-122.969
+97057,45.004,-120.752
+97058,45.552,-121.152
+97060,45.531,-122.369
+97062,45.365,-122.762
+97063,45.225,-121.301
+97064,45.859,-123.236
+97065,45.608,-120.645
+97067,45.324,-121.99
+97068,45.352,-122.669
+97070,45.308,-122.771
+97071,45.134,-122.826
+97078,45.476,-122.891
+97080,45.478,-122.391
+97086,45.445,-122.528
+97089,45.426,-122.443
+97101,45.09,-123.229
+97102,45.789,-123.942
+97103,46.133,-123.699
+97106,45.654,-123.136
+97107,45.56,-123.887
+97108,45.274,-123.675
+97109,45.738,-123.195
+97110,45.892,-123.951
+97111,45.285,-123.195
+97112,45.275,-123.876
+97113,45.508,-123.043
+97114,45.188,-123.077
+97115,45.277,-123.027
+97116,45.581,-123.166
+97117,45.632,-123.336
+97118,45.558,-123.915
+97119,45.472,-123.221
+97121,46.204,-123.981
+97122,45.161,-123.826
+97123,45.444,-122.976
+97124,45.569,-122.947
+97125,45.663,-123.217
+97127,45.246,-123.112
+97128,45.212,-123.282
+97130,45.707,-123.939
+97131,45.711,-123.824
+97132,45.324,-122.987
+97133,45.689,-123.013
+97134,45.462,-123.971
+97135,45.199,-123.962
+97136,45.631,-123.921
+97137,45.22,-122.948
+97138,45.905,-123.709
+97140,45.353,-122.866
+97141,45.508,-123.737
+97144,45.743,-123.303
+97145,45.844,-123.952
+97146,46.125,-123.911
+97147,45.686,-123.886
+97148,45.361,-123.26
+97149,45.113,-123.939
+97201,45.509,-122.688
+97202,45.482,-122.644
+97203,45.604,-122.738
+97204,45.518,-122.674
+97205,45.52,-122.702
+97206,45.482,-122.598
+97208,45.529,-122.679
+97209,45.531,-122.684
+97210,45.545,-122.737
+97211,45.586,-122.637
+97212,45.544,-122.643
+97213,45.538,-122.6
+97214,45.514,-122.644
+97215,45.515,-122.597
+97216,45.514,-122.559
+97217,45.597,-122.695
+97218,45.576,-122.601
+97219,45.454,-122.699
+97220,45.551,-122.56
+97221,45.497,-122.73
+97222,45.44,-122.616
+97223,45.44,-122.777
+97224,45.406,-122.796
+97225,45.503,-122.77
+97227,45.544,-122.677
+97229,45.549,-122.81
+97230,45.558,-122.505
+97231,45.688,-122.824
+97232,45.529,-122.644
+97233,45.515,-122.502
+97236,45.483,-122.512
+97239,45.49,-122.69
+97258,45.513,-122.675
+97266,45.483,-122.558
+97267,45.408,-122.613
+97301,44.952,-123.006
+97302,44.903,-123.064
+97303,45.03,-123.024
+97304,45.007,-123.112
+97305,45.016,-122.929
+97306,44.843,-123.095
+97310,44.876,-122.975
+97317,44.902,-122.906
+97321,44.653,-123.14
+97322,44.628,-123.018
+97324,44.339,-123.628
+97325,44.834,-122.852
+97326,44.638,-123.666
+97327,44.376,-122.948
+97329,44.371,-122.29
+97330,44.648,-123.26
+97331,44.563,-123.281
+97333,44.468,-123.294
+97335,44.638,-122.88
+97336,44.357,-122.851
+97338,44.935,-123.339
+97341,44.819,-124.043
+97342,44.739,-121.879
+97343,44.575,-123.751
+97344,44.869,-123.466
+97345,44.412,-122.579
+97346,44.769,-122.379
+97347,45.078,-123.659
+97348,44.383,-123.122
+97350,44.658,-121.988
+97351,44.815,-123.129
+97352,44.749,-123.028
+97355,44.532,-122.821
+97357,44.753,-123.826
+97358,44.812,-122.4
+97360,44.75,-122.482
+97361,44.779,-123.326
+97362,45.062,-122.757
+97364,44.999,-123.987
+97365,44.671,-124.031
+97366,44.581,-124.048
+97367,44.915,-123.974
+97368,45.025,-123.903
+97369,44.76,-124.057
+97370,44.565,-123.476
+97371,44.991,-123.191
+97373,45.058,-122.776
+97374,44.693,-122.775
+97375,44.987,-122.598
+97376,44.498,-123.975
+97377,44.465,-123.103
+97378,45.085,-123.423
+97380,44.786,-123.93
+97381,44.939,-122.721
+97383,44.799,-122.723
+97384,44.791,-122.62
+97385,44.866,-122.724
+97386,44.359,-122.727
+97388,44.88,-124.018
+97389,44.533,-123.09
+97390,44.356,-123.863
+97391,44.585,-123.884
+97392,44.796,-122.93
+97394,44.399,-124.016
+97396,45.105,-123.549
+97401,44.068,-123.08
+97402,44.048,-123.231
+97403,44.035,-123.052
+97404,44.105,-123.133
+97405,43.954,-123.156
+97406,42.616,-124.021
+97408,44.143,-123.058
+97410,42.802,-123.119
+97411,43.059,-124.347
+97412,44.205,-123.548
+97413,44.054,-121.946
+97414,42.968,-124.156
+97415,42.138,-124.133
+97416,43.037,-123.695
+97417,42.94,-123.215
+97419,44.181,-123.413
+97420,43.347,-124.106
+97423,43.186,-124.174
+97424,43.747,-123.053
+97426,43.899,-123.03
+97429,42.968,-123.054
+97430,44.155,-123.712
+97431,43.87,-122.841
+97432,43.104,-123.429
+97434,43.621,-122.703
+97435,43.69,-123.328
+97436,43.643,-123.587
+97437,44.099,-123.387
+97438,43.944,-122.682
+97439,44.074,-124.028
+97441,43.752,-124.166
+97442,42.78,-123.425
+97443,43.25,-123.004
+97444,42.44,-124.327
+97446,44.261,-123.055
+97447,43.278,-122.5
+97448,44.211,-123.279
+97449,43.563,-124.041
+97450,42.909,-124.375
+97451,43.853,-123.307
+97452,43.874,-122.75
+97453,43.98,-123.85
+97454,44.218,-122.819
+97455,43.969,-122.92
+97456,44.343,-123.355
+97457,43.065,-123.229
+97458,43.049,-124.009
+97459,43.484,-124.183
+97461,44.098,-123.506
+97462,43.487,-123.418
+97463,43.741,-122.387
+97465,42.764,-124.345
+97466,42.849,-124.085
+97467,43.739,-123.908
+97469,42.923,-123.418
+97470,43.251,-123.242
+97471,43.219,-123.488
+97473,43.694,-123.915
+97476,42.842,-124.403
+97477,44.058,-123.012
+97478,44.089,-122.842
+97479,43.404,-123.196
+97480,44.128,-123.833
+97481,43.115,-123.566
+97484,42.934,-122.846
+97486,43.352,-123.528
+97487,43.989,-123.387
+97488,44.129,-122.417
+97489,44.111,-122.607
+97490,44.008,-123.605
+97492,43.803,-122.516
+97493,43.905,-124.023
+97494,43.331,-123.328
+97495,43.281,-123.314
+97496,43.066,-123.473
+97497,42.666,-123.425
+97498,44.273,-124.009
+97499,43.592,-123.237
+97501,42.286,-122.897
+97502,42.409,-122.946
+97503,42.605,-122.924
+97504,42.328,-122.797
+97520,42.17,-122.512
+97522,42.634,-122.434
+97523,42.104,-123.645
+97524,42.467,-122.648
+97525,42.431,-123.06
+97526,42.536,-123.338
+97527,42.381,-123.387
+97530,42.14,-123.112
+97531,42.21,-123.645
+97532,42.518,-123.656
+97534,42.019,-123.699
+97535,42.268,-122.812
+97536,42.782,-122.495
+97537,42.553,-123.146
+97538,42.314,-123.668
+97539,42.576,-122.786
+97540,42.193,-122.817
+97541,42.776,-122.745
+97543,42.377,-123.56
+97544,42.207,-123.3
+97601,42.443,-122.074
+97603,42.133,-121.665
+97604,42.978,-122.207
+97620,42.276,-119.904
+97621,42.507,-121.285
+97622,42.391,-121.007
+97623,42.199,-121.313
+97624,42.548,-121.85
+97625,42.315,-121.584
+97626,42.725,-122.014
+97627,42.07,-122.072
+97630,42.306,-120.388
+97632,42.036,-121.405
+97633,42.034,-121.563
+97634,42.134,-121.802
+97635,41.93,-120.294
+97636,42.658,-120.578
+97637,42.473,-119.96
+97638,43.15,-121.02
+97639,42.429,-121.492
+97640,42.986,-120.536
+97641,43.288,-120.532
+97701,43.998,-121.034
+97702,43.983,-121.21
+97703,44.176,-121.383
+97707,43.826,-121.492
+97709,43.898,-121.859
+97710,42.143,-118.539
+97711,44.706,-120.668
+97712,43.778,-120.406
+97720,43.587,-118.896
+97721,42.526,-118.446
+97722,43.007,-118.727
+97730,44.523,-121.645
+97731,43.09,-121.855
+97732,43.485,-118.324
+97733,43.42,-121.926
+97734,44.531,-121.335
+97735,43.39,-120.992
+97736,42.674,-118.902
+97737,43.5,-121.761
+97738,43.484,-119.156
+97739,43.672,-121.488
+97741,44.658,-121.039
+97750,44.834,-120.29
+97751,44.132,-119.78
+97752,44.131,-120.201
+97753,44.198,-120.986
+97754,44.129,-120.515
+97756,44.281,-121.192
+97758,43.452,-119.771
+97759,44.49,-121.778
+97760,44.385,-121.246
+97761,44.861,-121.295
+97801,45.671,-118.824
+97810,45.672,-118.396
+97812,45.575,-120.25
+97813,45.853,-118.528
+97814,44.796,-117.783
+97817,44.729,-118.606
+97818,45.764,-119.776
+97819,44.486,-117.763
+97820,44.144,-119.195
+97823,45.251,-120.197
+97824,45.354,-117.756
+97825,44.385,-119.496
+97826,45.664,-119.232
+97827,45.616,-117.858
+97828,45.535,-117.147
+97830,44.967,-120.183
+97833,44.934,-118.073
+97834,45.03,-117.232
+97835,45.899,-118.772
+97836,45.321,-119.475
+97837,44.52,-118.062
+97838,45.851,-119.288
+97839,45.573,-119.607
+97840,44.856,-116.941
+97841,45.468,-117.94
+97842,45.611,-116.8
+97843,45.505,-119.881
+97844,45.884,-119.549
+97845,44.414,-118.904
+97846,45.278,-117.115
+97848,44.722,-119.581
+97850,45.309,-118.156
+97856,44.777,-119.118
+97857,45.359,-117.523
+97859,45.525,-118.432
+97862,45.922,-118.316
+97864,44.805,-119.471
+97865,44.461,-119.18
+97867,45.078,-117.993
+97868,45.409,-118.854
+97869,44.398,-118.634
+97870,44.788,-117.187
+97873,44.128,-118.995
+97874,44.758,-119.848
+97875,45.815,-119.149
+97876,45.522,-118.028
+97877,44.811,-118.396
+97880,45.089,-118.883
+97882,45.907,-119.35
+97883,45.129,-117.652
+97884,44.455,-118.222
+97885,45.65,-117.51
+97886,45.802,-118.272
+97901,43.589,-117.098
+97902,42.913,-117.494
+97903,44.272,-117.598
+97904,43.894,-118.49
+97905,44.582,-117.465
+97906,43.465,-117.812
+97907,44.42,-117.346
+97908,44.24,-117.931
+97909,44.211,-117.379
+97910,42.855,-117.509
+97911,43.876,-118.055
+97913,43.634,-117.278
+97914,44.112,-117.08
+97917,43.549,-118.124
+97918,43.963,-117.39
+97920,44.066,-117.75
+98001,47.31,-122.264
+98002,47.308,-122.215
+98003,47.305,-122.314
+98004,47.618,-122.205
+98005,47.613,-122.168
+98006,47.553,-122.152
+98007,47.614,-122.144
+98008,47.607,-122.111
+98010,47.316,-121.999
+98011,47.757,-122.199
+98012,47.841,-122.199
+98014,47.7,-121.845
+98019,47.737,-121.934
+98020,47.801,-122.374
+98021,47.793,-122.208
+98022,47.169,-121.685
+98023,47.311,-122.363
+98024,47.573,-121.899
+98025,47.434,-121.952
+98026,47.838,-122.334
+98027,47.514,-121.993
+98028,47.75,-122.247
+98029,47.558,-122.012
+98030,47.367,-122.198
+98031,47.406,-122.192
+98032,47.392,-122.257
+98033,47.676,-122.194
+98034,47.716,-122.214
+98036,47.81,-122.28
+98037,47.839,-122.285
+98038,47.419,-121.958
+98039,47.635,-122.24
+98040,47.564,-122.231
+98042,47.364,-122.117
+98043,47.794,-122.303
+98045,47.477,-121.683
+98047,47.26,-122.247
+98050,47.547,-121.94
+98051,47.346,-121.881
+98052,47.682,-122.12
+98053,47.669,-122.015
+98055,47.447,-122.2
+98056,47.513,-122.189
+98057,47.472,-122.219
+98058,47.441,-122.126
+98059,47.494,-122.13
+98065,47.597,-121.78
+98068,47.432,-121.374
+98070,47.407,-122.473
+98072,47.761,-122.131
+98074,47.623,-122.044
+98075,47.586,-122.037
+98077,47.752,-122.06
+98087,47.86,-122.267
+98092,47.29,-122.126
+98101,47.611,-122.336
+98102,47.634,-122.324
+98103,47.683,-122.338
+98104,47.6,-122.332
+98105,47.66,-122.285
+98106,47.544,-122.35
+98107,47.668,-122.378
+98108,47.535,-122.306
+98109,47.631,-122.346
+98110,47.647,-122.535
+98112,47.638,-122.288
+98115,47.686,-122.284
+98116,47.576,-122.397
+98117,47.688,-122.386
+98118,47.542,-122.269
+98119,47.637,-122.37
+98121,47.615,-122.351
+98122,47.61,-122.296
+98125,47.717,-122.301
+98126,47.549,-122.374
+98133,47.74,-122.343
+98134,47.581,-122.338
+98136,47.537,-122.392
+98144,47.586,-122.292
+98146,47.5,-122.361
+98148,47.445,-122.326
+98154,47.606,-122.334
+98155,47.754,-122.3
+98158,47.45,-122.308
+98164,47.606,-122.332
+98166,47.452,-122.353
+98168,47.49,-122.3
+98174,47.605,-122.335
+98177,47.742,-122.371
+98178,47.499,-122.245
+98188,47.447,-122.272
+98195,47.654,-122.308
+98198,47.391,-122.315
+98199,47.651,-122.406
+98201,47.994,-122.186
+98203,47.942,-122.234
+98204,47.903,-122.256
+98207,47.987,-122.224
+98208,47.9,-122.187
+98220,48.685,-122.195
+98221,48.454,-122.604
+98222,48.571,-122.817
+98223,48.217,-121.954
+98224,47.729,-121.564
+98225,48.758,-122.506
+98226,48.797,-122.432
+98229,48.706,-122.398
+98230,48.953,-122.705
+98232,48.564,-122.41
+98233,48.501,-122.346
+98235,48.463,-122.231
+98236,47.948,-122.413
+98237,48.534,-121.711
+98238,48.336,-122.345
+98239,48.198,-122.654
+98240,48.948,-122.621
+98241,48.204,-121.14
+98243,48.614,-123.007
+98244,48.773,-121.91
+98245,48.669,-122.912
+98247,48.897,-122.314
+98248,48.866,-122.623
+98249,48.014,-122.543
+98250,48.554,-123.086
+98251,47.912,-121.606
+98252,48.062,-121.714
+98253,48.084,-122.572
+98255,48.524,-121.992
+98256,47.822,-121.407
+98257,48.406,-122.512
+98258,48.034,-122.081
+98260,48.036,-122.453
+98261,48.482,-122.884
+98262,48.697,-122.681
+98263,48.524,-122.066
+98264,48.95,-122.455
+98266,48.974,-122.035
+98267,48.39,-121.266
+98270,48.057,-122.147
+98271,48.09,-122.238
+98272,47.858,-121.885
+98273,48.403,-122.376
+98274,48.349,-122.145
+98275,47.913,-122.302
+98276,48.928,-122.321
+98277,48.322,-122.627
+98278,48.341,-122.674
+98279,48.636,-122.818
+98280,48.596,-122.878
+98281,48.985,-123.059
+98282,48.213,-122.499
+98283,48.801,-121.304
+98284,48.547,-122.135
+98286,48.569,-122.958
+98288,47.621,-121.326
+98290,47.955,-121.979
+98292,48.226,-122.305
+98294,47.838,-121.766
+98295,48.983,-122.195
+98296,47.841,-122.101
+98297,48.702,-123.027
+98303,47.15,-122.682
+98304,46.885,-121.737
+98305,48.024,-124.236
+98310,47.59,-122.617
+98311,47.627,-122.642
+98312,47.566,-122.762
+98314,47.562,-122.639
+98315,47.725,-122.716
+98320,47.696,-123.056
+98321,47.153,-122.072
+98323,46.98,-121.985
+98325,47.967,-122.76
+98326,48.159,-124.501
+98327,47.106,-122.662
+98328,46.858,-122.164
+98329,47.361,-122.744
+98330,46.757,-122.153
+98331,47.746,-124.181
+98332,47.372,-122.596
+98333,47.258,-122.647
+98335,47.297,-122.624
+98336,46.598,-122.078
+98337,47.561,-122.639
+98338,47.034,-122.277
+98339,48.028,-122.746
+98340,47.91,-122.571
+98342,47.755,-122.511
+98345,47.7,-122.624
+98346,47.826,-122.527
+98349,47.27,-122.758
+98350,47.906,-124.622
+98351,47.2,-122.774
+98353,47.539,-122.493
+98354,47.252,-122.317
+98355,46.704,-122.04
+98356,46.582,-122.271
+98357,48.334,-124.635
+98358,48.045,-122.687
+98359,47.431,-122.575
+98360,47.051,-122.153
+98361,46.538,-121.505
+98362,48.03,-123.329
+98363,48.004,-123.823
+98364,47.854,-122.586
+98365,47.885,-122.701
+98366,47.541,-122.577
+98367,47.462,-122.666
+98368,48.041,-122.827
+98370,47.754,-122.626
+98371,47.199,-122.32
+98372,47.207,-122.263
+98373,47.148,-122.324
+98374,47.129,-122.264
+98375,47.104,-122.327
+98376,47.847,-122.852
+98377,46.509,-121.819
+98380,47.602,-122.879
+98381,48.289,-124.457
+98382,48.023,-123.106
+98383,47.663,-122.719
+98385,47.138,-122.095
+98387,47.061,-122.389
+98388,47.209,-122.684
+98390,47.211,-122.231
+98391,47.177,-122.166
+98392,47.732,-122.566
+98394,47.32,-122.79
+98396,47.11,-122
+98402,47.254,-122.444
+98403,47.266,-122.459
+98404,47.209,-122.412
+98405,47.246,-122.472
+98406,47.264,-122.513
+98407,47.292,-122.518
+98408,47.197,-122.447
+98409,47.213,-122.475
+98416,47.263,-122.482
+98418,47.223,-122.446
+98421,47.261,-122.4
+98422,47.29,-122.392
+98424,47.235,-122.354
+98430,47.117,-122.569
+98433,47.092,-122.608
+98438,47.135,-122.492
+98439,47.131,-122.502
+98443,47.205,-122.373
+98444,47.152,-122.449
+98445,47.137,-122.405
+98446,47.132,-122.376
+98447,47.145,-122.444
+98465,47.251,-122.537
+98466,47.229,-122.538
+98467,47.203,-122.568
+98498,47.16,-122.558
+98499,47.166,-122.506
+98501,46.979,-122.876
+98502,47.081,-123.025
+98503,47.023,-122.794
+98505,47.073,-122.974
+98506,47.108,-122.871
+98512,46.953,-123.048
+98513,46.993,-122.733
+98516,47.099,-122.785
+98520,46.989,-123.829
+98524,47.367,-122.836
+98526,47.474,-123.994
+98527,46.596,-123.912
+98528,47.447,-122.896
+98530,46.81,-122.875
+98531,46.743,-122.902
+98532,46.626,-123.053
+98533,46.661,-122.396
+98535,47.104,-124.117
+98536,47.195,-124.104
+98537,46.807,-123.581
+98538,46.483,-123.146
+98539,46.638,-123.273
+98541,47.061,-123.39
+98542,46.533,-122.725
+98544,46.739,-123.027
+98546,47.321,-122.914
+98547,46.784,-124.038
+98548,47.541,-123.174
+98550,47.113,-123.923
+98552,47.316,-123.947
+98555,47.533,-123.063
+98556,46.886,-123.141
+98557,47.043,-123.27
+98558,46.936,-122.56
+98559,46.959,-123.327
+98560,47.31,-123.423
+98562,47.238,-124.2
+98563,47.211,-123.61
+98564,46.449,-122.42
+98565,46.578,-122.907
+98566,47.407,-123.97
+98568,46.863,-123.301
+98569,46.991,-124.143
+98570,46.631,-122.651
+98571,47.202,-124.198
+98572,46.541,-123.328
+98575,47.454,-123.801
+98576,46.847,-122.648
+98577,46.642,-123.61
+98579,46.788,-123.125
+98580,46.987,-122.51
+98581,46.359,-123.069
+98582,46.524,-122.626
+98583,47.001,-123.487
+98584,47.24,-123.152
+98585,46.573,-122.445
+98586,46.545,-123.84
+98587,47.323,-124.153
+98588,47.447,-123.033
+98589,46.833,-122.795
+98590,46.711,-123.996
+98591,46.442,-122.747
+98592,47.334,-123.076
+98593,46.403,-123.01
+98595,46.897,-124.108
+98596,46.492,-122.953
+98597,46.844,-122.493
+98601,45.938,-122.438
+98602,45.869,-121.28
+98603,46.056,-122.415
+98604,45.806,-122.511
+98605,45.777,-121.664
+98606,45.729,-122.456
+98607,45.642,-122.38
+98609,46.072,-122.866
+98610,45.775,-122.019
+98611,46.305,-122.901
+98612,46.25,-123.287
+98613,45.754,-120.972
+98614,46.283,-123.92
+98616,46.075,-122.183
+98617,45.64,-121.134
+98619,45.972,-121.268
+98620,45.87,-120.779
+98621,46.4,-123.544
+98623,45.8,-121.493
+98624,46.338,-123.965
+98625,46.112,-122.57
+98626,46.172,-122.774
+98628,45.849,-121.067
+98629,45.877,-122.619
+98631,46.388,-124.022
+98632,46.205,-123.063
+98635,45.75,-121.186
+98638,46.394,-123.762
+98639,45.64,-121.966
+98640,46.632,-124.043
+98641,46.571,-124.042
+98642,45.803,-122.702
+98643,46.292,-123.654
+98644,46.319,-124.053
+98645,46.332,-122.76
+98647,46.315,-123.401
+98648,45.706,-121.946
+98649,46.316,-122.532
+98650,45.947,-121.532
+98651,45.74,-121.584
+98660,45.661,-122.719
+98661,45.64,-122.625
+98662,45.689,-122.577
+98663,45.655,-122.662
+98664,45.62,-122.577
+98665,45.682,-122.653
+98670,45.864,-121.146
+98671,45.61,-122.275
+98672,45.82,-121.472
+98673,45.681,-120.952
+98674,45.951,-122.666
+98675,45.874,-122.322
+98682,45.673,-122.483
+98683,45.603,-122.51
+98684,45.631,-122.515
+98685,45.715,-122.693
+98686,45.723,-122.622
+98801,47.432,-120.345
+98802,47.492,-120.164
+98811,47.734,-120.374
+98812,48.131,-119.806
+98813,48.006,-119.617
+98814,48.195,-120.295
+98815,47.529,-120.48
+98816,48.055,-120.332
+98817,47.792,-119.994
+98819,48.584,-119.826
+98821,47.552,-120.564
+98822,47.979,-120.623
+98823,47.338,-119.635
+98824,47.069,-119.867
+98826,47.783,-120.843
+98827,48.856,-119.752
+98828,47.31,-120.178
+98829,48.297,-119.806
+98830,47.881,-119.534
+98831,47.937,-120.136
+98832,47.331,-119.028
+98833,48.769,-120.507
+98834,48.12,-120.066
+98836,47.472,-120.438
+98837,47.147,-119.316
+98840,48.292,-119.514
+98841,48.38,-119.289
+98843,47.74,-120.087
+98844,48.927,-119.228
+98845,47.439,-119.935
+98846,48.015,-119.971
+98847,47.424,-120.618
+98848,47.169,-119.843
+98849,48.541,-119.41
+98850,47.405,-120.039
+98851,47.414,-119.432
+98852,48.365,-120.67
+98853,47.466,-119.282
+98855,48.675,-119.253
+98856,48.343,-120.264
+98857,46.99,-119.025
+98858,47.678,-119.889
+98859,48.798,-118.955
+98860,47.464,-119.115
+98862,48.599,-120.222
+98901,46.665,-120.339
+98902,46.598,-120.535
+98903,46.53,-120.941
+98908,46.64,-120.782
+98921,46.431,-120.317
+98922,47.226,-120.865
+98923,46.666,-120.717
+98925,47.283,-121.278
+98926,46.988,-120.355
+98930,46.269,-119.892
+98932,46.333,-120.156
+98933,46.403,-120.638
+98934,46.981,-120.419
+98935,46.132,-120.074
+98936,46.533,-120.165
+98937,46.793,-121.226
+98938,46.388,-120.097
+98939,46.501,-120.471
+98940,47.362,-121.039
+98941,47.225,-121
+98942,46.801,-120.665
+98943,47.184,-120.965
+98944,46.507,-119.672
+98946,47.068,-120.756
+98947,46.688,-120.809
+98948,46.238,-120.369
+98950,46.815,-119.971
+98951,46.456,-120.514
+98952,46.35,-120.817
+98953,46.442,-120.233
+99001,47.639,-117.586
+99003,47.917,-117.275
+99004,47.419,-117.6
+99005,47.844,-117.363
+99006,47.951,-117.506
+99008,47.503,-117.933
+99009,48.026,-117.252
+99011,47.619,-117.648
+99012,47.381,-117.191
+99013,47.881,-117.835
+99014,47.561,-117.597
+99016,47.597,-117.121
+99017,47.184,-117.887
+99018,47.292,-117.152
+99019,47.637,-117.075
+99020,47.563,-117.497
+99021,47.85,-117.187
+99022,47.6,-117.709
+99023,47.565,-117.145
+99025,47.794,-117.075
+99026,47.801,-117.634
+99027,47.71,-117.128
+99029,47.707,-117.83
+99030,47.478,-117.113
+99031,47.414,-117.33
+99032,47.327,-118.034
+99033,47.231,-117.098
+99034,47.886,-117.762
+99036,47.52,-117.272
+99037,47.637,-117.2
+99039,47.338,-117.231
+99040,47.898,-118.004
+99101,48.316,-117.937
+99102,46.792,-117.25
+99103,47.736,-118.924
+99105,46.957,-118.073
+99109,48.292,-117.699
+99110,48.008,-117.581
+99111,46.856,-117.451
+99113,46.584,-117.196
+99114,48.655,-117.736
+99115,47.674,-119.378
+99116,48.015,-118.936
+99117,47.649,-118.57
+99118,48.897,-118.638
+99119,48.509,-117.315
+99121,48.936,-118.469
+99122,47.688,-118.207
+99123,47.886,-119.055
+99124,48.001,-118.954
+99125,46.961,-117.747
+99126,48.73,-117.972
+99128,47.098,-117.081
+99129,48.011,-118.157
+99130,46.999,-117.186
+99131,48.298,-118.095
+99133,48.01,-119.136
+99134,47.451,-118.297
+99135,47.661,-119.091
+99136,46.675,-117.949
+99137,48.148,-118.116
+99138,48.231,-118.391
+99139,48.717,-117.253
+99140,48.111,-118.646
+99141,48.717,-118.168
+99143,46.766,-117.848
+99144,47.368,-118.49
+99146,48.957,-118.298
+99147,47.859,-118.462
+99148,48.107,-117.571
+99149,47.225,-117.468
+99150,48.806,-118.611
+99151,48.664,-118.061
+99152,48.837,-117.4
+99153,48.911,-117.166
+99154,47.391,-118.356
+99155,48.311,-119.006
+99156,48.161,-117.19
+99157,48.918,-117.796
+99158,47.133,-117.24
+99159,47.327,-118.766
+99160,48.869,-118.301
+99161,46.904,-117.148
+99163,46.73,-117.218
+99166,48.609,-118.667
+99167,48.412,-118.134
+99169,47.12,-118.378
+99170,47.253,-117.397
+99171,47.098,-117.654
+99173,48.041,-117.858
+99174,47.007,-117.357
+99176,47.092,-117.412
+99179,46.495,-117.126
+99180,48.305,-117.306
+99181,48.145,-117.766
+99185,47.727,-118.711
+99201,47.662,-117.437
+99202,47.657,-117.379
+99203,47.63,-117.403
+99204,47.647,-117.427
+99205,47.697,-117.445
+99206,47.628,-117.255
+99207,47.689,-117.389
+99208,47.786,-117.452
+99212,47.665,-117.307
+99216,47.686,-117.217
+99217,47.741,-117.261
+99218,47.759,-117.409
+99223,47.597,-117.318
+99224,47.648,-117.535
+99251,47.754,-117.418
+99258,47.666,-117.402
+99301,46.378,-118.952
+99320,46.325,-119.506
+99321,46.859,-119.893
+99322,45.947,-120.156
+99323,46.19,-118.872
+99324,46.044,-118.385
+99326,46.669,-118.842
+99328,46.276,-117.871
+99329,46.139,-118.147
+99330,46.495,-119.03
+99333,46.697,-118.139
+99335,46.647,-118.44
+99336,46.214,-119.176
+99337,46.052,-119.098
+99338,46.174,-119.274
+99341,46.907,-118.642
+99343,46.597,-119.165
+99344,46.822,-119.172
+99345,45.934,-119.655
+99346,46.031,-119.303
+99347,46.427,-117.579
+99348,46.403,-118.435
+99349,46.731,-119.701
+99350,46.142,-119.737
+99352,46.246,-119.291
+99353,46.314,-119.388
+99354,46.332,-119.299
+99356,45.829,-120.36
+99357,46.891,-119.662
+99359,46.513,-118.162
+99360,46.091,-118.668
+99361,46.237,-118.143
+99362,46.101,-118.314
+99363,46.046,-118.885
+99371,46.785,-118.332
+99401,46.087,-117.25
+99402,46.221,-117.351
+99403,46.376,-117.29
+99501,61.22,-149.858
+99502,61.164,-149.997
+99503,62.044,-158.174
+99504,61.191,-149.607
+99505,61.285,-149.654
+99506,61.272,-149.807
+99507,61.115,-149.616
+99508,61.201,-149.818
+99513,61.215,-149.886
+99515,61.116,-149.89
+99516,61.079,-149.71
+99517,61.19,-149.939
+99518,61.16,-149.885
+99519,70.017,-149.83
+99530,61.185,-149.984
+99540,61.01,-149.318
+99546,51.856,-176.669
+99547,52.223,-174.203
+99548,56.272,-158.789
+99549,56.965,-158.586
+99550,57.867,-152.856
+99551,60.921,-161.402
+99552,60.907,-161.221
+99553,54.117,-165.831
+99554,62.711,-164.65
+99555,59.289,-158.664
+99556,59.834,-151.576
+99557,61.469,-155.215
+99558,62.632,-160.215
+99559,60.773,-161.871
+99561,60.152,-164.252
+99563,61.55,-165.356
+99564,56.295,-158.393
+99565,56.304,-158.5
+99566,61.271,-142.606
+99567,61.299,-149.021
+99568,60.272,-150.605
+99569,58.805,-158.529
+99571,55.266,-162.805
+99572,60.53,-149.953
+99573,61.569,-145.67
+99574,61.118,-147.607
+99575,61.797,-158.081
+99576,59.361,-158.823
+99577,61.174,-149.284
+99578,60.216,-162.042
+99579,58.225,-157.457
+99580,59.346,-157.487
+99581,62.822,-164.708
+99583,54.888,-163.408
+99585,61.872,-162.061
+99586,62.691,-144.238
+99587,60.966,-148.877
+99588,62.708,-146.719
+99589,59.237,-161.579
+99590,62.896,-160.113
+99591,56.601,-169.681
+99602,62.185,-159.859
+99603,59.539,-151.187
+99604,61.509,-166.111
+99605,60.869,-149.472
+99606,59.737,-154.902
+99607,61.54,-160.349
+99608,57.591,-154.363
+99609,60.864,-162.537
+99610,60.281,-151.273
+99611,60.835,-150.724
+99612,55.085,-162.317
+99613,59.071,-155.378
+99614,59.937,-164.062
+99615,57.683,-153.379
+99620,63.029,-163.537
+99621,60.793,-161.431
+99622,59.878,-163.177
+99623,61.439,-149.923
+99624,57.489,-153.853
+99625,59.068,-156.901
+99626,61.517,-160.355
+99627,63.549,-154.576
+99628,58.74,-158.915
+99630,60.37,-166.268
+99631,60.596,-149.638
+99632,62.112,-163.665
+99633,58.785,-156.886
+99634,60.679,-162.015
+99635,61.069,-153.003
+99636,59.485,-157.309
+99637,60.53,-165.107
+99638,53.008,-168.719
+99639,59.985,-151.508
+99640,60.719,-155.572
+99641,60.882,-162.465
+99643,57.219,-153.33
+99644,57.91,-152.382
+99645,61.624,-148.982
+99647,59.879,-154.071
+99648,55.934,-159.156
+99649,57.505,-157.286
+99650,61.943,-162.885
+99651,58.953,-161.747
+99652,61.516,-149.976
+99653,60.157,-154.34
+99654,61.605,-149.423
+99655,59.742,-161.887
+99656,61.865,-157.357
+99657,61.728,-161.678
+99658,62.092,-163.249
+99659,63.458,-162.134
+99660,57.179,-170.323
+99661,55.262,-160.709
+99662,61.842,-165.583
+99663,59.401,-151.625
+99664,60.134,-149.501
+99665,62.667,-159.535
+99666,62.441,-165.146
+99667,61.698,-152.14
+99668,61.654,-157.103
+99669,60.36,-151.018
+99670,58.676,-156.994
+99671,63.473,-162.26
+99672,60.57,-150.761
+99674,61.591,-148.062
+99675,62.983,-156.084
+99676,62.571,-149.606
+99677,60.894,-146.669
+99678,59.263,-160.473
+99679,61.104,-160.937
+99680,60.345,-162.664
+99681,60.607,-165.128
+99682,61.191,-151.184
+99683,62.415,-150.408
+99684,64.073,-160.206
+99685,53.873,-166.484
+99686,61.043,-146.152
+99688,61.887,-149.62
+99689,59.485,-139.419
+99690,60.462,-164.835
+99691,62.729,-153.583
+99692,53.884,-166.545
+99693,60.851,-148.034
+99694,61.62,-149.827
+99695,55.918,-159.493
+99701,67.375,-149.728
+99702,64.651,-147.052
+99703,64.835,-147.623
+99704,64.288,-149.202
+99705,64.774,-147.268
+99706,64.01,-144.682
+99707,65.155,-146.253
+99709,64.877,-148.149
+99712,65.059,-145.926
+99714,64.381,-146.531
+99720,66.564,-152.768
+99721,68.15,-151.697
+99722,68.165,-145.401
+99723,71.254,-156.798
+99724,66.318,-146.795
+99725,64.861,-148.024
+99726,66.755,-151.415
+99727,65.977,-161.139
+99729,63.244,-147.978
+99730,65.649,-145.615
+99732,64.079,-141.972
+99733,65.839,-144.175
+99734,70.423,-149.3
+99736,66.069,-162.765
+99737,63.444,-145.296
+99738,65.15,-142.654
+99739,64.968,-162.827
+99740,67.637,-144.68
+99741,64.741,-156.873
+99742,63.753,-171.688
+99743,63.927,-149.988
+99744,64.331,-149.053
+99745,66.052,-154.233
+99746,65.706,-156.311
+99747,70.118,-143.687
+99748,64.314,-158.779
+99749,66.979,-160.432
+99750,67.743,-164.53
+99751,66.923,-156.904
+99752,67.287,-161.185
+99753,64.941,-161.145
+99754,64.902,-157.694
+99755,63.755,-149.211
+99756,64.701,-151.212
+99757,63.79,-152.462
+99758,65.152,-149.372
+99759,69.737,-162.834
+99760,64.417,-149.15
+99761,67.621,-163.058
+99762,64.739,-164.655
+99763,66.828,-161.035
+99764,62.685,-141.823
+99765,64.731,-158.131
+99766,68.277,-165.986
+99767,65.499,-150.153
+99768,65.26,-153.567
+99769,63.68,-170.483
+99770,66.611,-160.098
+99771,64.356,-161.196
+99772,65.841,-165.901
+99773,66.881,-157.15
+99774,66.024,-149.08
+99775,64.857,-147.835
+99776,63.329,-143.487
+99777,65.184,-152.055
+99778,65.252,-166.352
+99780,63.639,-141.511
+99781,67.469,-146.065
+99782,70.648,-159.939
+99783,65.612,-168.078
+99784,64.683,-163.406
+99785,65.343,-166.509
+99786,67.091,-157.887
+99788,66.647,-143.789
+99789,70.213,-150.99
+99790,65.459,-148.107
+99791,70.481,-157.325
+99801,58.373,-134.178
+99820,57.378,-134.279
+99824,58.265,-134.4
+99825,58.088,-136.288
+99826,58.412,-135.809
+99827,58.821,-136.211
+99829,58.025,-135.308
+99830,56.771,-134.09
+99832,57.966,-136.071
+99833,56.84,-133.187
+99835,56.96,-135.037
+99836,56.248,-134.652
+99840,59.56,-135.338
+99841,57.956,-135.517
+99850,58.488,-135.484
+99901,55.656,-131.332
+99903,55.734,-132.105
+99918,55.917,-132.696
+99919,55.646,-132.496
+99921,55.515,-132.702
+99922,55.308,-133.047
+99923,56.001,-130.037
+99925,55.55,-132.946
+99926,55.138,-131.47
+99927,56.332,-133.606
+99929,56.221,-131.924
+`;
@@ -2,66 +2,55 @@ import dotenv from "dotenv";
 dotenv.config({ override: true });
 import express from "express";
 import cors from "cors";
-import proxy from "express-http-proxy";
 import { handleDemo } from "./routes/demo";
 import { handleAIIntake } from "./routes/ai-intake";
-import { handleTriggerRouting } from "./routes/lead-routing";
-import { handleGetMyProfile, handleUpdateProfile } from "./routes/profiles";
-import { handlePublishProject, handleGetProject, handleGetAvailableProjects, handleGetRoutedLeads, handleGetVendorThreads, handleGetBusinessProjects, handleGetVendorProjects, handleGetUnroutedProjects, handleUpsertRouting, handleGetVendorBids, handleVendorSubmitBid, handleAssignVendor, handleDeleteProject, handleGetMessages, handleSendMessage, handleVendorUpdateStatus } from "./routes/projects";
+import { handleRunBidDeadlines, handleRunRoutingWaves, handleSimulateRouting, handleTriggerRouting } from "./routes/lead-routing";
+import {
+  handleCreateCoverageRequest,
+  handleGetCoverageRequests,
+  handleGetMyProfile,
+  handleUpdateProfile,
+} from "./routes/profiles";
+import { handlePublishProject, handleGetProject, handleGetAvailableProjects, handleGetRoutedLeads, handleGetVendorThreads, handleGetBusinessProjects, handleGetVendorProjects, handleGetUnroutedProjects, handleUpsertRouting, handleGetVendorBids, handleVendorSubmitBid, handleGetBidRevisions, handleAssignVendor, handleDeleteProject, handleGetMessages, handleSendMessage, handleVendorUpdateStatus } from "./routes/projects";
 import { handleCreateProject } from "./routes/create-project";
+import { handleGetServiceCategories } from "./routes/service-categories";
+import { handleCreateUploadUrl, handleCreateDownloadUrl } from "./routes/project-files";
+import { handleGetProjectQuestions, handleAskProjectQuestion, handleAnswerProjectQuestion } from "./routes/project-questions";
+import { handleAmendProject, handleGetProjectAmendments, handleConfirmBid } from "./routes/project-amendments";
 import emailRouter from "./routes/email";
 import adminRouter from "./routes/admin";
 import { isSupabaseConfigured } from "./lib/supabase";
+import { optionalAuth, requireAuth } from "./lib/auth";
+import { enforceUsageLimit, rejectBlockedUsers } from "./lib/usage";
+import { rateLimit } from "./lib/rate-limit";
+import { assignRequestId } from "./lib/request-id";
+import { createSupabaseProxy, guardSupabaseProxy } from "./lib/supabase-proxy";
+import { requirePermission } from "./lib/permissions";
+import { requireMfaSession, requireRecentMfa } from "./lib/mfa";
+import { handleGetMfaStatus, handleStartMfaEnrollment, handleConfirmMfaEnrollment, handleVerifyMfa, handleRegenerateRecoveryCodes, handleDisableMfa } from "./routes/mfa";
+
+// Express "trust proxy" setting from TRUST_PROXY: a hop count, true/false, or addresses/subnets.
+// Defaults to one hop (Netlify's edge, or the load balancer in front of node-build) so req.ip,
+// which rate limiting and the audit log key on, is the client and not the proxy.
+function trustProxySetting(value = process.env.TRUST_PROXY): boolean | number | string {
+  if (!value) return 1;
+  if (value === "true" || value === "false") return value === "true";
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
 
 export function createServer() {
   const app = express();
+  app.set("trust proxy", trustProxySetting());
 
   // Middleware
-  app.use(cors());
+  app.use(assignRequestId);
+  app.use(cors({ exposedHeaders: ["x-request-id"] }));
 
-  // Supabase Proxy
+  // Supabase Proxy (allowlisted endpoints only, see server/lib/supabase-proxy.ts)
   const supabaseUrl = (process.env.VITE_SUPABASE_URL || "https://kpytttekmeoeqskfopqj.supabase.co").replace(/\/$/, "");
   console.log(`[PROXY] Supabase target: ${supabaseUrl}`);
 
-  app.use("/api/v1/supabase", proxy(supabaseUrl, {
-    proxyReqPathResolver: (req) => {
-      return req.url;
-    },
-    proxyReqOptDecorator: (proxyReqOpts, srcReq) => {
-      // Set the target host
-      const targetHost = new URL(supabaseUrl).host;
-      proxyReqOpts.headers!['host'] = targetHost;
-
-      // Fail-safe: If apikey is missing or placeholder, use the one from environment
-      const envAnonKey = process.env.VITE_SUPABASE_ANON_KEY;
-      if (envAnonKey && (!proxyReqOpts.headers!['apikey'] || proxyReqOpts.headers!['apikey'] === 'placeholder' || (proxyReqOpts.headers!['apikey'] as string).includes('your-'))) {
-        proxyReqOpts.headers!['apikey'] = envAnonKey;
-
-        // Only overwrite authorization if it's missing, or if it's the anon key placeholder
-        const auth = proxyReqOpts.headers!['authorization'] as string;
-        if (!auth || auth.includes('placeholder') || auth.includes('your-')) {
-          proxyReqOpts.headers!['authorization'] = `Bearer ${envAnonKey}`;
-        }
-      }
-
-      return proxyReqOpts;
-    },
-    proxyErrorHandler: (err, res, next) => {
-      console.error("[PROXY ERROR] for /api/v1/supabase:", err);
-      res.status(500).json({ error: "Proxy Error", message: err.message });
-    },
-    userResHeaderDecorator: (headers, userReq, userRes, proxyReq, proxyRes) => {
-      // Skip headers that should be handled by Express or might cause issues
-      const skipHeaders = ['content-encoding', 'transfer-encoding', 'content-length', 'connection', 'keep-alive'];
-      const filteredHeaders: Record<string, any> = {};
-      Object.entries(headers).forEach(([key, value]) => {
-        if (!skipHeaders.includes(key.toLowerCase())) {
-          filteredHeaders[key] = value;
-        }
-      });
-      return filteredHeaders;
-    }
-  }));
+  app.use("/api/v1/supabase", guardSupabaseProxy, createSupabaseProxy(supabaseUrl));
 
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
@@ -73,6 +62,7 @@ export function createServer() {
       req.path.startsWith("/api/projects") ||
       req.path.startsWith("/api/profiles") ||
       req.path.startsWith("/api/routing") ||
+      req.path.startsWith("/api/mfa") ||
       req.path.startsWith("/api/admin");
 
     if (needsServiceRole && !isSupabaseConfigured) {
@@ -99,36 +89,68 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
-  // AI Intake route
-  app.post("/api/ai-intake", handleAIIntake);
+  // Service taxonomy for category pickers
+  app.get("/api/service-categories", handleGetServiceCategories);
+
+  // Every profile, project and routing route acts on behalf of the signed-in user;
+  // mutating routes additionally declare the permission they need (see role_permissions)
+  app.use(["/api/profiles", "/api/projects", "/api/routing"], requireAuth, requireMfaSession, rejectBlockedUsers);
+
+  // Two-factor authentication (only needs a signed-in user, so it can be completed at login)
+  app.use("/api/mfa", requireAuth, rejectBlockedUsers);
+  app.get("/api/mfa/status", handleGetMfaStatus);
+  app.post("/api/mfa/enroll", handleStartMfaEnrollment);
+  app.post("/api/mfa/enroll/verify", rateLimit("mfa", { failClosed: true }), handleConfirmMfaEnrollment);
+  app.post("/api/mfa/verify", rateLimit("mfa", { failClosed: true }), handleVerifyMfa);
+  app.post("/api/mfa/recovery-codes", requireRecentMfa, handleRegenerateRecoveryCodes);
+  app.post("/api/mfa/disable", rateLimit("mfa", { failClosed: true }), handleDisableMfa);
+
+  // AI Intake route (open to visitors; signed-in users are counted against their allowance)
+  app.post("/api/ai-intake", optionalAuth, rejectBlockedUsers, rateLimit("ai_intake"), enforceUsageLimit("ai_intake"), handleAIIntake);
 
   // Profile routes
   app.get("/api/profiles/me", handleGetMyProfile);
-  app.post("/api/profiles/update", handleUpdateProfile);
+  app.post("/api/profiles/update", requirePermission("profile:update_own"), handleUpdateProfile);
+  app.get("/api/profiles/coverage-requests", handleGetCoverageRequests);
+  app.post("/api/profiles/coverage-requests", requirePermission("profile:update_own"), handleCreateCoverageRequest);
 
   // Project routes
-  app.post("/api/projects/create", handleCreateProject);
-  app.post("/api/projects/publish", handlePublishProject);
+  app.post("/api/projects/create", requirePermission("project:create"), handleCreateProject);
+  app.post("/api/projects/publish", requirePermission("project:publish"), handlePublishProject);
   app.get("/api/projects/available", handleGetAvailableProjects);
   app.get("/api/projects/unrouted", handleGetUnroutedProjects);
   app.get("/api/projects/routed", handleGetRoutedLeads);
   app.get("/api/projects/vendor-threads", handleGetVendorThreads);
   app.get("/api/projects/business", handleGetBusinessProjects);
   app.get("/api/projects/vendor", handleGetVendorProjects);
-  app.post("/api/projects/upsert-routing", handleUpsertRouting);
+  app.post("/api/projects/upsert-routing", requirePermission("routing:request"), handleUpsertRouting);
   app.get("/api/projects/vendor-bids", handleGetVendorBids);
-  app.post("/api/projects/submit-bid", handleVendorSubmitBid);
-  app.post("/api/projects/assign-vendor", handleAssignVendor);
-  app.post("/api/projects/vendor-update-status", handleVendorUpdateStatus);
-  app.delete("/api/projects/:projectId", handleDeleteProject);
+  app.post("/api/projects/submit-bid", requirePermission("bid:submit"), enforceUsageLimit("bid"), handleVendorSubmitBid);
+  app.post("/api/projects/assign-vendor", requirePermission("project:award"), requireRecentMfa, handleAssignVendor);
+  app.post("/api/projects/vendor-update-status", requirePermission("project:update_status"), handleVendorUpdateStatus);
+  app.delete("/api/projects/:projectId", requirePermission("project:delete"), requireRecentMfa, handleDeleteProject);
+  app.get("/api/projects/:projectId/bids/:bidId/revisions", handleGetBidRevisions);
+  app.post("/api/projects/:projectId/bids/:bidId/confirm", requirePermission("bid:submit"), handleConfirmBid);
+  app.get("/api/projects/:projectId/amendments", handleGetProjectAmendments);
+  app.post("/api/projects/:projectId/amendments", requirePermission("project:publish"), handleAmendProject);
   app.get("/api/projects/:projectId/messages", handleGetMessages);
-  app.post("/api/projects/:projectId/messages", handleSendMessage);
+  app.post("/api/projects/:projectId/messages", requirePermission("message:send"), rateLimit("messages"), enforceUsageLimit("message"), handleSendMessage);
+  app.post("/api/projects/:projectId/files/upload-url", requirePermission("message:send"), handleCreateUploadUrl);
+  app.get("/api/projects/:projectId/files/download-url", handleCreateDownloadUrl);
+  app.get("/api/projects/:projectId/questions", handleGetProjectQuestions);
+  app.post("/api/projects/:projectId/questions", requirePermission("message:send"), rateLimit("messages"), handleAskProjectQuestion);
+  app.post("/api/projects/:projectId/questions/:questionId/answer", requirePermission("message:send"), handleAnswerProjectQuestion);
   app.get("/api/projects/:projectId", handleGetProject);
 
-  // Lead routing (manual trigger for testing)
-  app.post("/api/routing/trigger", handleTriggerRouting);
+  // Lead routing (manual re-run, wave and bid deadline checks, dry runs). Admins only, and like
+  // /api/admin they need a recent second factor
+  app.post("/api/routing/trigger", requirePermission("routing:write"), requireRecentMfa, handleTriggerRouting);
+  app.post("/api/routing/waves/run", requirePermission("routing:write"), requireRecentMfa, handleRunRoutingWaves);
+  app.post("/api/routing/deadlines/run", requirePermission("routing:write"), requireRecentMfa, handleRunBidDeadlines);
+  app.post("/api/routing/simulate", requirePermission("routing:read"), requireRecentMfa, handleSimulateRouting);
 
-  // Email routes
+  // Email routes (sending mail on the platform's behalf needs a signed-in user who may message)
+  app.use("/api/send-email", requireAuth, requireMfaSession, rejectBlockedUsers, requirePermission("message:send"));
   app.use("/api", emailRouter);
 
   // Admin routes (server-side, bypass RLS)
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { auditQuerySchema, diffRecords, MAX_AUDIT_PAGE_SIZE } from "./audit";
+
+describe("diffRecords", () => {
+  it("should list only the fields that changed", () => {
+    const changes = diffRecords(
+      { id: "p1", status: "draft", title: "Roof repair" },
+      { id: "p1", status: "open", title: "Roof repair" },
+    );
+    expect(changes).toEqual({ status: { from: "draft", to: "open" } });
+  });
+
+  it("should treat a missing side as null for creates and deletes", () => {
+    expect(diffRecords(null, { id: "b1", bid_amount: 500 })).toEqual({
+      id: { from: null, to: "b1" },
+      bid_amount: { from: null, to: 500 },
+    });
+    expect(diffRecords({ id: "p1" }, null)).toEqual({ id: { from: "p1", to: null } });
+  });
+
+  it("should ignore updated_at", () => {
+    expect(diffRecords({ status: "open", updated_at: "a" }, { status: "open", updated_at: "b" })).toEqual({});
+  });
+
+  it("should compare nested values by content", () => {
+    expect(diffRecords({ tags: ["a", "b"] }, { tags: ["a", "b"] })).toEqual({});
+    expect(diffRecords({ tags: ["a"] }, { tags: ["a", "b"] })).toEqual({
+      tags: { from: ["a"], to: ["a", "b"] },
+    });
+  });
+
+  it("should not report undefined versus null as a change", () => {
+    expect(diffRecords({ notes: undefined }, { notes: null })).toEqual({});
+  });
+});
+
+describe("auditQuerySchema", () => {
+  it("should default to the first page of 50", () => {
+    const parsed = auditQuerySchema.parse({});
+    expect(parsed.page).toBe(1);
+    expect(parsed.pageSize).toBe(50);
+  });
+
+  it("should coerce paging values from the query string", () => {
+    const parsed = auditQuerySchema.parse({ page: "3", pageSize: "20", action: "project.deleted" });
+    expect(parsed).toMatchObject({ page: 3, pageSize: 20, action: "project.deleted" });
+  });
+
+  it("should reject oversized pages, bad dates and malformed actor IDs", () => {
+    expect(auditQuerySchema.safeParse({ pageSize: String(MAX_AUDIT_PAGE_SIZE + 1) }).success).toBe(false);
+    expect(auditQuerySchema.safeParse({ from: "yesterday" }).success).toBe(false);
+    expect(auditQuerySchema.safeParse({ actorId: "not-a-uuid" }).success).toBe(false);
+  });
+
+  it("should accept ISO timestamps for the date range", () => {
+    const parsed = auditQuerySchema.safeParse({ from: "2024-01-01T00:00:00Z", to: "2024-01-31T23:59:59.000+00:00" });
+    expect(parsed.success).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+import { Request } from "express";
+import { z } from "zod";
+import { isMissingTableError, supabaseAdmin } from "./supabase";
+
+export interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, any>;
+}
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Bookkeeping columns that change on every write and say nothing about what the user did
+const IGNORED_FIELDS = new Set(["updated_at"]);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Field-level diff between two versions of a row. A missing side (create/delete) counts as null.
+export function diffRecords(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (!sameValue(from, to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+// Append an audit entry for a mutating request. Never throws: a failed write is logged so the
+// user's action still completes, but it shows up in the server logs with the request ID.
+export async function recordAudit(req: Request, entry: AuditEntry) {
+  const { error } = await supabaseAdmin.from("audit_logs").insert([
+    {
+      actor_id: req.auth?.userId || null,
+      actor_role: req.auth?.role || null,
+      actor_email: req.auth?.email || null,
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      changes: diffRecords(entry.before, entry.after),
+      metadata: entry.metadata || {},
+      request_id: req.requestId || null,
+      method: req.method,
+      path: req.originalUrl,
+      ip: req.ip || null,
+      user_agent: req.header("user-agent") || null,
+    },
+  ]);
+
+  if (error) {
+    const hint = isMissingTableError(error) ? " (run migrations/add_audit_logs.sql)" : "";
+    console.error(`[AUDIT] Failed to record ${entry.action} for request ${req.requestId}${hint}:`, error.message);
+  }
+}
+
+export const MAX_AUDIT_PAGE_SIZE = 200;
+
+// Query string accepted by GET /api/admin/audit-logs
+export const auditQuerySchema = z.object({
+  actorId: z.string().uuid().optional(),
+  action: z.string().trim().min(1).max(100).optional(),
+  entityType: z.string().trim().min(1).max(50).optional(),
+  entityId: z.string().trim().min(1).max(128).optional(),
+  requestId: z.string().trim().min(1).max(128).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_AUDIT_PAGE_SIZE).default(50),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
+export async function queryAuditLogs(query: AuditQuery) {
+  const offset = (query.page - 1) * query.pageSize;
+
+  let request = supabaseAdmin.from("audit_logs").select("*", { count: "exact" });
+
+  if (query.actorId) request = request.eq("actor_id", query.actorId);
+  if (query.action) request = request.eq("action", query.action);
+  if (query.entityType) request = request.eq("entity_type", query.entityType);
+  if (query.entityId) request = request.eq("entity_id", query.entityId);
+  if (query.requestId) request = request.eq("request_id", query.requestId);
+  if (query.from) request = request.gte("created_at", query.from);
+  if (query.to) request = request.lte("created_at", query.to);
+
+  const { data, count, error } = await request
+    .order("created_at", { ascending: false })
+    .range(offset, offset + query.pageSize - 1);
+
+  if (error) throw error;
+
+  return {
+    entries: data || [],
+    pagination: {
+      page: query.page,
+      pageSize: query.pageSize,
+      total: count || 0,
+      totalPages: Math.ceil((count || 0) / query.pageSize),
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { readBearerToken, signAccessToken, verifyAccessToken } from "./auth";
+
+const SECRET = "test-jwt-secret-with-enough-length";
+const USER_ID = "6f1c2a4e-8d1b-4b7a-9c3e-2f5d7a9b1c0e";
+
+describe("readBearerToken", () => {
+  it("should extract the token from a bearer header", () => {
+    expect(readBearerToken("Bearer abc.def.ghi")).toBe("abc.def.ghi");
+  });
+
+  it("should return null for missing or non-bearer headers", () => {
+    expect(readBearerToken(undefined)).toBeNull();
+    expect(readBearerToken("Basic dXNlcjpwYXNz")).toBeNull();
+    expect(readBearerToken("Bearer ")).toBeNull();
+  });
+});
+
+describe("verifyAccessToken", () => {
+  it("should accept a token signed with the project secret", () => {
+    const token = signAccessToken({ sub: USER_ID, email: "vendor@example.com" }, SECRET);
+    const claims = verifyAccessToken(token, SECRET);
+
+    expect(claims.sub).toBe(USER_ID);
+    expect(claims.email).toBe("vendor@example.com");
+  });
+
+  it("should reject a token signed with a different secret", () => {
+    const token = signAccessToken({ sub: USER_ID }, "some-other-secret-value");
+    expect(() => verifyAccessToken(token, SECRET)).toThrow("Invalid token signature");
+  });
+
+  it("should reject a token whose payload was tampered with", () => {
+    const [header, , signature] = signAccessToken({ sub: USER_ID }, SECRET).split(".");
+    const forgedPayload = Buffer.from(
+      JSON.stringify({ sub: "someone-else", exp: Math.floor(Date.now() / 1000) + 3600 }),
+    ).toString("base64url");
+
+    expect(() => verifyAccessToken(`${header}.${forgedPayload}.${signature}`, SECRET)).toThrow(
+      "Invalid token signature",
+    );
+  });
+
+  it("should reject an expired token", () => {
+    const token = signAccessToken({ sub: USER_ID }, SECRET, -120);
+    expect(() => verifyAccessToken(token, SECRET)).toThrow("Access token has expired");
+  });
+
+  it("should reject keys that are not tied to a user", () => {
+    const anonKey = signAccessToken({ role: "anon" }, SECRET);
+    expect(() => verifyAccessToken(anonKey, SECRET)).toThrow("not associated with a user");
+  });
+
+  it("should reject malformed tokens", () => {
+    expect(() => verifyAccessToken("not-a-jwt", SECRET)).toThrow("Malformed access token");
+  });
+
+  it("should refuse to verify without a configured secret", () => {
+    const token = signAccessToken({ sub: USER_ID }, SECRET);
+    expect(() => verifyAccessToken(token, "")).toThrow("SUPABASE_JWT_SECRET is not configured");
+  });
+});
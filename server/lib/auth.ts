@@ -0,0 +1,195 @@
+import crypto from "crypto";
+import { RequestHandler } from "express";
+import { supabaseAdmin } from "./supabase";
+
+export type UserRole = "admin" | "business" | "vendor";
+
+// Identity attached to every authenticated request by `requireAuth`
+export interface AuthContext {
+  userId: string;
+  role: UserRole | null;
+  email: string | null;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+// Subset of the claims Supabase puts in its access tokens
+export interface AccessTokenClaims {
+  sub?: string;
+  email?: string;
+  role?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  session_id?: string;
+  app_metadata?: Record<string, any>;
+  user_metadata?: Record<string, any>;
+  [claim: string]: unknown;
+}
+
+const CLOCK_SKEW_SECONDS = 30;
+const USER_ROLES: UserRole[] = ["admin", "business", "vendor"];
+
+const getJwtSecret = () => process.env.SUPABASE_JWT_SECRET || "";
+
+const base64UrlJson = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const hmacSha256 = (data: string, secret: string) =>
+  crypto.createHmac("sha256", secret).update(data).digest("base64url");
+
+// Extract the token from an "Authorization: Bearer <token>" header
+export function readBearerToken(header: string | undefined): string | null {
+  if (!header) return null;
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  const token = match?.[1]?.trim();
+  return token || null;
+}
+
+// Verify an HS256 access token signed with the project JWT secret and return its claims.
+// Throws when the token is malformed, tampered with, expired, or not tied to a user.
+export function verifyAccessToken(
+  token: string,
+  secret: string = getJwtSecret(),
+): AccessTokenClaims {
+  if (!secret) {
+    throw new Error("SUPABASE_JWT_SECRET is not configured");
+  }
+
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new Error("Malformed access token");
+  }
+
+  const [encodedHeader, encodedPayload, signature] = parts;
+
+  let header: { alg?: string };
+  let claims: AccessTokenClaims;
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString("utf8"));
+    claims = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Malformed access token");
+  }
+
+  if (header.alg !== "HS256") {
+    throw new Error(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const expected = Buffer.from(hmacSha256(`${encodedHeader}.${encodedPayload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new Error("Invalid token signature");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error("Access token has expired");
+  }
+
+  // The anon and service-role keys are signed with the same secret but carry no user
+  if (!claims.sub) {
+    throw new Error("Access token is not associated with a user");
+  }
+
+  return claims;
+}
+
+// Mint an HS256 access token. Used by tests and local scripts; production tokens come from Supabase.
+export function signAccessToken(
+  claims: AccessTokenClaims,
+  secret: string = getJwtSecret(),
+  expiresInSeconds = 3600,
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    aud: "authenticated",
+    role: "authenticated",
+    iat: now,
+    exp: now + expiresInSeconds,
+    ...claims,
+  };
+
+  const encodedHeader = base64UrlJson({ alg: "HS256", typ: "JWT" });
+  const encodedPayload = base64UrlJson(payload);
+  return `${encodedHeader}.${encodedPayload}.${hmacSha256(`${encodedHeader}.${encodedPayload}`, secret)}`;
+}
+
+function toUserRole(value: unknown): UserRole | null {
+  return USER_ROLES.includes(value as UserRole) ? (value as UserRole) : null;
+}
+
+// The profile row is the source of truth for a user's role. `app_metadata` can only be
+// written with the service role, so it is a safe fallback; `user_metadata` is not.
+async function resolveUserRole(claims: AccessTokenClaims): Promise<UserRole | null> {
+  const { data: profile } = await supabaseAdmin
+    .from("profiles")
+    .select("role")
+    .eq("user_id", claims.sub)
+    .maybeSingle();
+
+  return toUserRole(profile?.role) || toUserRole(claims.app_metadata?.role);
+}
+
+// Middleware: verify the Supabase access token and attach `req.auth`
+export const requireAuth: RequestHandler = async (req, res, next) => {
+  if (!getJwtSecret()) {
+    return res.status(500).json({
+      error: "Configuration Error",
+      message: "Server is missing SUPABASE_JWT_SECRET. Configure it to enable authenticated API routes.",
+      isConfigError: true,
+    });
+  }
+
+  const token = readBearerToken(req.headers.authorization);
+
+  if (!token) {
+    return res.status(401).json({
+      success: false,
+      error: "Unauthorized",
+      message: "Missing bearer token",
+    });
+  }
+
+  let claims: AccessTokenClaims;
+  try {
+    claims = verifyAccessToken(token);
+  } catch (error) {
+    return res.status(401).json({
+      success: false,
+      error: "Unauthorized",
+      message: error instanceof Error ? error.message : "Invalid access token",
+    });
+  }
+
+  try {
+    req.auth = {
+      userId: claims.sub!,
+      role: await resolveUserRole(claims),
+      email: claims.email || null,
+    };
+    next();
+  } catch (error) {
+    console.error("[AUTH] Failed to resolve user role:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Middleware: like `requireAuth`, but lets anonymous requests through without `req.auth`.
+// A token that is present but invalid is still rejected.
+export const optionalAuth: RequestHandler = (req, res, next) => {
+  if (!readBearerToken(req.headers.authorization) || !getJwtSecret()) {
+    return next();
+  }
+  return requireAuth(req, res, next);
+};
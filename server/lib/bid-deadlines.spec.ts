@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { bidSettingsProblem, bidSettingsSchema, biddingClosed, bidsSealed, sealBids } from "./bid-deadlines";
+
+const now = new Date("2026-03-01T12:00:00Z");
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString();
+
+describe("bidSettingsSchema", () => {
+  it("should accept an ISO deadline with an offset and a known mode", () => {
+    const result = bidSettingsSchema.safeParse({ bidsCloseAt: "2026-03-05T17:00:00-05:00", bidMode: "sealed" });
+    expect(result.success).toBe(true);
+  });
+
+  it("should reject an unknown mode and a date without a time", () => {
+    expect(bidSettingsSchema.safeParse({ bidMode: "blind" }).success).toBe(false);
+    expect(bidSettingsSchema.safeParse({ bidsCloseAt: "2026-03-05" }).success).toBe(false);
+  });
+});
+
+describe("bidSettingsProblem", () => {
+  it("should accept open bidding without a deadline", () => {
+    expect(bidSettingsProblem({ bidMode: "open" }, now)).toBeNull();
+  });
+
+  it("should require a deadline at least an hour out", () => {
+    expect(bidSettingsProblem({ bidsCloseAt: hoursFromNow(0.5) }, now)).toEqual({
+      bidsCloseAt: "Bids must close at least an hour from now",
+    });
+    expect(bidSettingsProblem({ bidsCloseAt: hoursFromNow(2) }, now)).toBeNull();
+  });
+
+  it("should require a deadline for sealed bidding", () => {
+    expect(bidSettingsProblem({ bidMode: "sealed", bidsCloseAt: null }, now)).toEqual({
+      bidsCloseAt: "Sealed bidding needs a closing time",
+    });
+  });
+});
+
+describe("biddingClosed / bidsSealed", () => {
+  it("should close bidding once the deadline is reached", () => {
+    expect(biddingClosed({ bids_close_at: hoursFromNow(1) }, now)).toBe(false);
+    expect(biddingClosed({ bids_close_at: now.toISOString() }, now)).toBe(true);
+    expect(biddingClosed({ bids_close_at: null }, now)).toBe(false);
+  });
+
+  it("should only seal sealed-mode bids before the deadline", () => {
+    expect(bidsSealed({ bid_mode: "sealed", bids_close_at: hoursFromNow(1) }, now)).toBe(true);
+    expect(bidsSealed({ bid_mode: "sealed", bids_close_at: hoursFromNow(-1) }, now)).toBe(false);
+    expect(bidsSealed({ bid_mode: "open", bids_close_at: hoursFromNow(1) }, now)).toBe(false);
+  });
+});
+
+describe("sealBids", () => {
+  const bids = [
+    { id: "b1", bid_amount: 5000, contract_total: 5000, line_items: [{ description: "Setup" }], proposed_timeline: "2 weeks" },
+  ];
+
+  it("should hide pricing but keep the rest of the bid while sealed", () => {
+    const [sealed] = sealBids(bids, { bid_mode: "sealed", bids_close_at: hoursFromNow(1) }, now);
+
+    expect(sealed).toMatchObject({ id: "b1", bid_amount: null, contract_total: null, line_items: [], proposed_timeline: "2 weeks", sealed: true });
+    expect("first_year_total" in sealed).toBe(false);
+  });
+
+  it("should return bids untouched once the deadline passes", () => {
+    expect(sealBids(bids, { bid_mode: "sealed", bids_close_at: hoursFromNow(-1) }, now)).toBe(bids);
+  });
+});
@@ -0,0 +1,170 @@
+import { z } from "zod";
+import { isMissingTableError, supabaseAdmin } from "./supabase";
+import { notifyUsers } from "./notifications";
+import { REVOKED_STATUS } from "./routing-overrides";
+
+// Bid deadlines and sealed bidding. A project can set bids_close_at; after it passes, bids are
+// refused and a background job moves the project from open to in_review. In sealed mode the
+// business cannot see bid amounts until the deadline.
+
+export type BidMode = "open" | "sealed";
+
+export interface BidWindow {
+  status?: string;
+  bids_close_at?: string | null;
+  bid_mode?: BidMode | string | null;
+}
+
+// Deadlines closer than this are almost certainly a mistake and leave vendors no time to bid
+const MIN_BIDDING_WINDOW_MS = 60 * 60 * 1000;
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+const BATCH_SIZE = 50;
+
+// Pricing fields the business cannot see while bids are sealed
+const SEALED_FIELDS = ["bid_amount", "line_items", "first_year_total", "contract_total", "optional_total"] as const;
+
+export const bidSettingsSchema = z
+  .object({
+    bidsCloseAt: z.string().datetime({ offset: true, message: "Pick a valid closing date and time" }).nullable().optional(),
+    bidMode: z.enum(["open", "sealed"]).optional(),
+  })
+  .strip();
+
+// Why these settings cannot be used, keyed by field, or null
+export function bidSettingsProblem(
+  settings: { bidsCloseAt?: string | null; bidMode?: BidMode },
+  now = new Date(),
+): Record<string, string> | null {
+  if (settings.bidsCloseAt && new Date(settings.bidsCloseAt).getTime() < now.getTime() + MIN_BIDDING_WINDOW_MS) {
+    return { bidsCloseAt: "Bids must close at least an hour from now" };
+  }
+  if (settings.bidMode === "sealed" && !settings.bidsCloseAt) {
+    return { bidsCloseAt: "Sealed bidding needs a closing time" };
+  }
+  return null;
+}
+
+export function biddingClosed(project: BidWindow, now = new Date()): boolean {
+  return !!project.bids_close_at && new Date(project.bids_close_at).getTime() <= now.getTime();
+}
+
+export function bidsSealed(project: BidWindow, now = new Date()): boolean {
+  return project.bid_mode === "sealed" && !biddingClosed(project, now);
+}
+
+// Hide the pricing on bids (or bid versions) while the project's bids are sealed
+export function sealBids<T extends Record<string, any>>(bids: T[], project: BidWindow, now = new Date()): T[] {
+  if (!bidsSealed(project, now)) return bids;
+  return bids.map((bid) => {
+    const sealed: Record<string, any> = { ...bid, sealed: true };
+    for (const field of SEALED_FIELDS) {
+      if (field in sealed) sealed[field] = field === "line_items" ? [] : null;
+    }
+    return sealed as T;
+  });
+}
+
+export interface DeadlineTickResult {
+  closed: number;
+  notified: number;
+}
+
+// Close bidding on every open project whose deadline has passed and tell the business and the
+// vendors who were sent the lead
+export async function runBidDeadlineTick(now = new Date()): Promise<DeadlineTickResult> {
+  const result: DeadlineTickResult = { closed: 0, notified: 0 };
+
+  const { data: due, error } = await supabaseAdmin
+    .from("projects")
+    .select("id, title, business_id, bid_mode")
+    .eq("status", "open")
+    .lte("bids_close_at", now.toISOString())
+    .order("bids_close_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    // 42703: bids_close_at does not exist yet (migration not applied)
+    if (isMissingTableError(error) || error.code === "42703") return result;
+    throw error;
+  }
+
+  for (const project of due || []) {
+    // Claim the project so two servers never close it twice
+    const { data: claimed } = await supabaseAdmin
+      .from("projects")
+      .update({ status: "in_review", bids_closed_at: now.toISOString(), updated_at: now.toISOString() })
+      .eq("id", project.id)
+      .eq("status", "open")
+      .select("id");
+
+    if (!claimed || claimed.length === 0) continue;
+    result.closed++;
+
+    const [{ data: routings }, { count: bidCount }] = await Promise.all([
+      supabaseAdmin.from("project_routing").select("vendor_id").eq("project_id", project.id).neq("status", REVOKED_STATUS),
+      supabaseAdmin
+        .from("vendor_responses")
+        .select("id", { count: "exact", head: true })
+        .eq("project_id", project.id)
+        .neq("status", "withdrawn"),
+    ]);
+
+    await supabaseAdmin.from("project_activity").insert({
+      project_id: project.id,
+      action: "bidding_closed",
+      details: { bids: bidCount || 0, bid_mode: project.bid_mode || "open" },
+    });
+
+    result.notified += await notifyUsers(
+      (routings || []).map((routing) => routing.vendor_id),
+      {
+        title: "Bidding closed",
+        message: `Bidding on "${project.title}" has closed. The business is now reviewing bids.`,
+        category: "bidding_closed",
+        relatedId: project.id,
+      },
+    );
+    result.notified += await notifyUsers([project.business_id], {
+      title: "Bids are ready to review",
+      message: `Bidding on "${project.title}" closed with ${bidCount || 0} bid(s).`,
+      type: "success",
+      category: "bidding_closed",
+      relatedId: project.id,
+    });
+  }
+
+  return result;
+}
+
+// Runs the deadline check on a timer in long-running servers. BID_DEADLINE_INTERVAL_SECONDS
+// sets the period (default 60); "off" or 0 disables it, e.g. when another instance runs the check.
+// On Netlify the bid-deadlines scheduled function runs it; admins can also run it on demand.
+export function startBidDeadlineScheduler() {
+  const setting = process.env.BID_DEADLINE_INTERVAL_SECONDS;
+  const seconds = setting === "off" ? 0 : Number(setting || DEFAULT_INTERVAL_SECONDS);
+  if (!seconds || seconds <= 0) {
+    console.log("[BIDS] Deadline scheduler disabled");
+    return null;
+  }
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await runBidDeadlineTick();
+      if (result.closed > 0) {
+        console.log("[BIDS] Deadline check:", result);
+      }
+    } catch (error) {
+      console.error("[BIDS] Deadline check failed:", error);
+    } finally {
+      running = false;
+    }
+  }, seconds * 1000);
+
+  timer.unref();
+  console.log(`[BIDS] Deadline scheduler running every ${seconds}s`);
+  return timer;
+}
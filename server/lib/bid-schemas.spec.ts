@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { bidFieldErrors, submitBidSchema } from "./bid-schemas";
+
+const PROJECT_ID = "7f8b5a52-5f7e-4c2a-9a0e-3c1c2f6d9b10";
+const base = { projectId: PROJECT_ID, proposedTimeline: "30 days" };
+
+describe("submitBidSchema", () => {
+  it("should compute totals from the line items", () => {
+    const result = submitBidSchema.parse({
+      ...base,
+      lineItems: [
+        { description: "Retainer", pricing_model: "monthly", unit_price: 4000, quantity: 12 },
+        { description: "Setup", pricing_model: "fixed", unit_price: 2500, quantity: 5 },
+      ],
+    });
+
+    expect(result.lineItems[1].quantity).toBe(1);
+    expect(result.totals).toMatchObject({ first_year_total: 50500, contract_total: 50500 });
+  });
+
+  it("should turn a bare bid amount into a single fixed item", () => {
+    const result = submitBidSchema.parse({ ...base, bidAmount: 30000 });
+
+    expect(result.lineItems).toEqual([{ description: "Project total", pricing_model: "fixed", unit_price: 30000, quantity: 1 }]);
+    expect(result.totals.contract_total).toBe(30000);
+  });
+
+  it("should reject bids made only of optional items", () => {
+    const parsed = submitBidSchema.safeParse({
+      ...base,
+      lineItems: [{ description: "Extra", pricing_model: "fixed", unit_price: 100, optional: true }],
+    });
+
+    expect(parsed.success).toBe(false);
+    expect(bidFieldErrors(parsed.error).lineItems).toBe("Add at least one required line item");
+  });
+
+  it("should name the line item an error belongs to", () => {
+    const parsed = submitBidSchema.safeParse({
+      ...base,
+      lineItems: [
+        { description: "Retainer", pricing_model: "monthly", unit_price: 4000, quantity: 12 },
+        { description: "Retainer", pricing_model: "monthly", unit_price: 4000, quantity: 1.5 },
+      ],
+    });
+
+    expect(parsed.success).toBe(false);
+    expect(bidFieldErrors(parsed.error).lineItems).toBe("Line item 2: Retainers run for 1 to 120 whole months");
+  });
+});
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { BidLineItem, bidTotals } from "@shared/bid-pricing";
+import { FieldErrors, toFieldErrors } from "./profile-schemas";
+
+const MAX_AMOUNT = 100_000_000;
+
+const lineItemSchema = z
+  .object({
+    description: z.string().trim().min(1, "Describe the item").max(200),
+    pricing_model: z.enum(["fixed", "hourly", "monthly", "per_unit"], {
+      errorMap: () => ({ message: "Pick a pricing model" }),
+    }),
+    unit_price: z.coerce.number().min(0, "Price cannot be negative").max(MAX_AMOUNT),
+    quantity: z.coerce.number().positive("Quantity must be more than 0").max(1_000_000).default(1),
+    optional: z.boolean().default(false),
+  })
+  .strict()
+  .superRefine((item, ctx) => {
+    if (item.pricing_model === "monthly" && (!Number.isInteger(item.quantity) || item.quantity > 120)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["quantity"], message: "Retainers run for 1 to 120 whole months" });
+    }
+  })
+  .transform((item) => ({ ...item, quantity: item.pricing_model === "fixed" ? 1 : item.quantity }) as BidLineItem);
+
+// POST /api/projects/submit-bid. Bids are built from line items; a bare bidAmount (older
+// clients) becomes a single fixed-price item.
+export const submitBidSchema = z
+  .object({
+    projectId: z.string().uuid("Unknown project"),
+    bidId: z.string().uuid().optional(),
+    proposedTimeline: z.string().trim().min(1, "Add a timeline").max(255),
+    responseNotes: z.string().max(5000).optional().nullable(),
+    lineItems: z.array(lineItemSchema).max(50, "Bids are limited to 50 line items").optional(),
+    bidAmount: z.coerce.number().positive("Enter an amount").max(MAX_AMOUNT).optional(),
+    // Required when revising an existing bid; kept with the new version
+    changeNote: z.string().trim().max(500).optional(),
+  })
+  .strict()
+  .transform((bid, ctx) => {
+    const lineItems: BidLineItem[] =
+      bid.lineItems ??
+      (bid.bidAmount ? [{ description: "Project total", pricing_model: "fixed", unit_price: bid.bidAmount, quantity: 1 }] : []);
+
+    if (!lineItems.some((item) => !item.optional)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lineItems"], message: "Add at least one required line item" });
+      return z.NEVER;
+    }
+
+    const totals = bidTotals(lineItems);
+    if (totals.contract_total <= 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lineItems"], message: "The bid total must be more than $0" });
+      return z.NEVER;
+    }
+
+    return { ...bid, lineItems, totals };
+  });
+
+// Line item errors name the item they belong to: "Line item 2: Describe the item"
+export function bidFieldErrors(error: z.ZodError): FieldErrors {
+  const itemIssue = error.issues.find((issue) => issue.path[0] === "lineItems" && typeof issue.path[1] === "number");
+  const fieldErrors = toFieldErrors(error);
+
+  if (itemIssue) {
+    fieldErrors.lineItems = `Line item ${Number(itemIssue.path[1]) + 1}: ${itemIssue.message}`;
+  }
+  return fieldErrors;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CONTACT_MODERATION_POLICY,
+  detectContactInfo,
+  maskContactInfo,
+  moderateMessage,
+} from "./contact-moderation";
+
+const VENDOR_ID = "vendor-1";
+const beforeAward = { projectStatus: "open", selectedVendorId: null, threadVendorId: VENDOR_ID };
+
+const types = (text: string) => detectContactInfo(text).map((m) => m.type);
+
+describe("detectContactInfo", () => {
+  it("should find emails, including spelled-out ones", () => {
+    expect(types("Send it to jane.doe@example.com please")).toEqual(["email"]);
+    expect(types("jane at example dot com")).toEqual(["email"]);
+    expect(types("jane [at] example [dot] com")).toEqual(["email"]);
+  });
+
+  it("should find phone numbers in common formats", () => {
+    expect(types("555-123-4567")).toEqual(["phone"]);
+    expect(types("(555) 123 4567")).toEqual(["phone"]);
+    expect(types("+1 555.123.4567")).toEqual(["phone"]);
+    expect(types("5551234567")).toEqual(["phone"]);
+  });
+
+  it("should find links and bare domains", () => {
+    expect(types("see https://example.com/quote")).toEqual(["url"]);
+    expect(types("check www.acme-roofing.net")).toEqual(["url"]);
+    expect(types("visit acmeroofing.com for reviews")).toEqual(["url"]);
+  });
+
+  it("should find requests to move the conversation elsewhere", () => {
+    expect(types("Just call me tomorrow")).toEqual(["solicitation"]);
+    expect(types("Reach me on WhatsApp")).toEqual(["solicitation", "solicitation"]);
+  });
+
+  it("should not report an email's domain as a separate link", () => {
+    expect(detectContactInfo("bob@builder.com")).toHaveLength(1);
+  });
+
+  it("should leave prices, dates and ordinary text alone", () => {
+    expect(types("Budget is $15,000 to $20,000, start 2024-05-01")).toEqual([]);
+    expect(types("We can start within 2 weeks of award")).toEqual([]);
+    expect(types("Total: $1,234,567,890")).toEqual([]);
+  });
+});
+
+describe("maskContactInfo", () => {
+  it("should replace contact details with placeholders", () => {
+    const text = "Email bob@builder.com or call 555-123-4567";
+    expect(maskContactInfo(text, detectContactInfo(text))).toBe("Email [email hidden] or call [phone hidden]");
+  });
+});
+
+describe("moderateMessage", () => {
+  it("should allow messages without contact details", () => {
+    const decision = moderateMessage("Can you start Monday?", beforeAward, DEFAULT_CONTACT_MODERATION_POLICY);
+    expect(decision).toMatchObject({ action: "allow", reason: "no_contact_info" });
+  });
+
+  it("should mask contact details by default before a vendor is selected", () => {
+    const decision = moderateMessage("My cell is 555-123-4567", beforeAward, DEFAULT_CONTACT_MODERATION_POLICY);
+    expect(decision.action).toBe("mask");
+    expect(decision.text).toBe("My cell is [phone hidden]");
+  });
+
+  it("should let the selected vendor's thread through unmasked", () => {
+    const decision = moderateMessage(
+      "Call 555-123-4567",
+      { projectStatus: "selected", selectedVendorId: VENDOR_ID, threadVendorId: VENDOR_ID },
+      DEFAULT_CONTACT_MODERATION_POLICY,
+    );
+    expect(decision).toMatchObject({ action: "allow", reason: "vendor_selected", text: "Call 555-123-4567" });
+  });
+
+  it("should keep moderating other vendors' threads after an award", () => {
+    const decision = moderateMessage(
+      "Call 555-123-4567",
+      { projectStatus: "selected", selectedVendorId: "vendor-2", threadVendorId: VENDOR_ID },
+      DEFAULT_CONTACT_MODERATION_POLICY,
+    );
+    expect(decision.action).toBe("mask");
+  });
+
+  it("should apply the rule for the project's status over the default", () => {
+    const policy = { default: "mask" as const, byStatus: { open: "block" as const } };
+    expect(moderateMessage("bob@builder.com", beforeAward, policy).action).toBe("block");
+    expect(moderateMessage("bob@builder.com", { ...beforeAward, projectStatus: "draft" }, policy).action).toBe("mask");
+  });
+
+  it("should only flag solicitation phrases with nothing to hide", () => {
+    const policy = { default: "block" as const, byStatus: {} };
+    const decision = moderateMessage("Text me when you're free", beforeAward, policy);
+    expect(decision).toMatchObject({ action: "flag", reason: "solicitation_only", text: "Text me when you're free" });
+  });
+});
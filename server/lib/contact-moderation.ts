@@ -0,0 +1,172 @@
+import { z } from "zod";
+import { supabaseAdmin } from "./supabase";
+import { getSetting } from "./settings";
+
+// Keeps businesses and vendors from trading phone numbers, emails and links before an award,
+// which would take the deal off the marketplace
+
+export type ContactType = "email" | "phone" | "url" | "solicitation";
+export type ModerationAction = "allow" | "flag" | "mask" | "block";
+
+export interface ContactMatch {
+  type: ContactType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const MODERATION_ACTIONS = ["allow", "flag", "mask", "block"] as const;
+
+// Checked in order; a later match that overlaps an earlier one is dropped (an email's domain
+// is not also reported as a link)
+const CONTACT_PATTERNS: Array<{ type: ContactType; pattern: RegExp }> = [
+  { type: "email", pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  // "jane at example dot com", "jane [at] example [dot] com"
+  {
+    type: "email",
+    pattern: /\b[A-Z0-9._%+-]+\s*(?:\[at\]|\(at\)|\s+at\s+)\s*[A-Z0-9-]+\s*(?:\[dot\]|\(dot\)|\s+dot\s+)\s*[A-Z]{2,}\b/gi,
+  },
+  { type: "url", pattern: /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi },
+  { type: "url", pattern: /\b[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.(?:com|net|org|io|co|biz|info|us|me)\b(?:\/[^\s<>"']*)?/gi },
+  // 10+ digit numbers with the usual separators; not prices ($1,500,000) or part of a longer number
+  { type: "phone", pattern: /(?<![\d$])(?:\+?\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}(?!\d)/g },
+  {
+    type: "solicitation",
+    pattern:
+      /\b(?:call|text|phone|ring|email|e-mail)\s+me\b|\breach\s+me\s+(?:at|on|via)\b|\bwhats\s?app\b|\bmy\s+(?:cell|number|phone|mobile|email|personal\s+email)\b|\boff\s+(?:the\s+)?(?:platform|site|app)\b/gi,
+  },
+];
+
+export function detectContactInfo(text: string | null | undefined): ContactMatch[] {
+  if (!text) return [];
+  const matches: ContactMatch[] = [];
+
+  for (const { type, pattern } of CONTACT_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const overlaps = matches.some((m) => start < m.end && end > m.start);
+      if (!overlaps) {
+        matches.push({ type, value: match[0], start, end });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+const MASK_LABELS: Record<Exclude<ContactType, "solicitation">, string> = {
+  email: "[email hidden]",
+  phone: "[phone hidden]",
+  url: "[link hidden]",
+};
+
+// Replaces contact details with placeholders; solicitation phrases are left as written
+export function maskContactInfo(text: string, matches: ContactMatch[]): string {
+  let masked = text;
+  for (const match of [...matches].sort((a, b) => b.start - a.start)) {
+    if (match.type === "solicitation") continue;
+    masked = masked.slice(0, match.start) + MASK_LABELS[match.type] + masked.slice(match.end);
+  }
+  return masked;
+}
+
+export const contactModerationPolicySchema = z
+  .object({
+    // What to do before a vendor is selected, unless the project status has its own rule
+    default: z.enum(MODERATION_ACTIONS),
+    byStatus: z.record(z.string().min(1).max(50), z.enum(MODERATION_ACTIONS)).default({}),
+  })
+  .strict();
+
+export type ContactModerationPolicy = z.infer<typeof contactModerationPolicySchema>;
+
+export const CONTACT_MODERATION_SETTING = "contact_moderation_policy";
+
+export const DEFAULT_CONTACT_MODERATION_POLICY: ContactModerationPolicy = {
+  default: "mask",
+  byStatus: {},
+};
+
+export async function getContactModerationPolicy(): Promise<ContactModerationPolicy> {
+  const stored = await getSetting<unknown>(CONTACT_MODERATION_SETTING, null);
+  const parsed = contactModerationPolicySchema.safeParse(stored);
+  return parsed.success ? parsed.data : DEFAULT_CONTACT_MODERATION_POLICY;
+}
+
+export interface ModerationDecision {
+  action: ModerationAction;
+  reason: "no_contact_info" | "vendor_selected" | "policy" | "solicitation_only";
+  matches: ContactMatch[];
+  text: string;
+}
+
+// Decide what happens to a message. Threads with the selected vendor are never moderated;
+// otherwise the project's status picks the rule, falling back to the policy default.
+export function moderateMessage(
+  text: string,
+  context: { projectStatus: string | null; selectedVendorId: string | null; threadVendorId: string | null },
+  policy: ContactModerationPolicy,
+): ModerationDecision {
+  const matches = detectContactInfo(text);
+
+  if (matches.length === 0) {
+    return { action: "allow", reason: "no_contact_info", matches, text };
+  }
+
+  if (context.selectedVendorId && context.threadVendorId === context.selectedVendorId) {
+    return { action: "allow", reason: "vendor_selected", matches, text };
+  }
+
+  const action = policy.byStatus[context.projectStatus || ""] || policy.default;
+
+  // A phrase like "call me" with no number attached is worth a look but nothing to hide
+  if (matches.every((m) => m.type === "solicitation") && (action === "mask" || action === "block")) {
+    return { action: "flag", reason: "solicitation_only", matches, text };
+  }
+
+  return {
+    action,
+    reason: "policy",
+    matches,
+    text: action === "mask" ? maskContactInfo(text, matches) : text,
+  };
+}
+
+// Every decision that found contact details goes to the admin review queue (allowed ones
+// are kept for the record but need no review)
+export async function recordModerationEvent(entry: {
+  projectId: string;
+  messageId: string | null;
+  senderId: string;
+  vendorId: string | null;
+  projectStatus: string | null;
+  decision: ModerationDecision;
+  originalText: string;
+  requestId?: string;
+}) {
+  const { decision } = entry;
+  if (decision.matches.length === 0) return;
+
+  const { error } = await supabaseAdmin.from("message_moderation_events").insert([
+    {
+      project_id: entry.projectId,
+      message_id: entry.messageId,
+      sender_id: entry.senderId,
+      vendor_id: entry.vendorId,
+      project_status: entry.projectStatus,
+      action: decision.action,
+      reason: decision.reason,
+      detected_types: [...new Set(decision.matches.map((m) => m.type))],
+      matches: decision.matches.map(({ type, value }) => ({ type, value })),
+      original_text: entry.originalText,
+      delivered_text: decision.action === "block" ? null : decision.text,
+      review_status: decision.action === "allow" ? "not_required" : "pending",
+      request_id: entry.requestId || null,
+    },
+  ]);
+
+  if (error) {
+    console.error("[MODERATION] Failed to record decision:", error.message);
+  }
+}
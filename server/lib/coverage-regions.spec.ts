@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  CoverageRegion,
+  coverageFromRegions,
+  coverageRegionSchema,
+  coverageRequestReviewSchema,
+  parseCoverageCsv,
+  planCoverageImport,
+} from "./coverage-regions";
+
+function region(id: string, state: string, name: string | null, kind: CoverageRegion["kind"], zip_codes: string[] = []): CoverageRegion {
+  return { id, state, region: name, kind, zip_codes };
+}
+
+describe("coverageFromRegions", () => {
+  it("should only count whole-state regions as covering a state", () => {
+    const coverage = coverageFromRegions([
+      region("a", "MN", null, "state"),
+      region("b", "TX", "Austin Metro", "metro", ["78701", "78702"]),
+    ]);
+
+    expect(coverage.states).toEqual(["MN"]);
+    expect(coverage.zips).toEqual(["78701", "78702"]);
+  });
+
+  it("should treat rows without a kind as whole-state regions", () => {
+    expect(coverageFromRegions([{ state: "wi" }]).states).toEqual(["WI"]);
+  });
+});
+
+describe("coverageRegionSchema", () => {
+  it("should require a name and ZIPs for metro regions", () => {
+    const result = coverageRegionSchema.safeParse({ kind: "metro", state: "TX" });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.path[0])).toEqual(["name", "zipCodes"]);
+  });
+
+  it("should normalize and dedupe ZIPs", () => {
+    const result = coverageRegionSchema.parse({ kind: "custom", state: "tx", name: "North", zipCodes: ["78702", "78701-1234", "78702"] });
+
+    expect(result.state).toBe("TX");
+    expect(result.zipCodes).toEqual(["78701", "78702"]);
+  });
+
+  it("should reject ZIPs on whole-state regions", () => {
+    expect(coverageRegionSchema.safeParse({ kind: "state", state: "TX", zipCodes: ["78701"] }).success).toBe(false);
+  });
+});
+
+describe("coverageRequestReviewSchema", () => {
+  it("should require a note when rejecting", () => {
+    expect(coverageRequestReviewSchema.safeParse({ decision: "reject" }).success).toBe(false);
+    expect(coverageRequestReviewSchema.safeParse({ decision: "reject", note: "Too small" }).success).toBe(true);
+    expect(coverageRequestReviewSchema.safeParse({ decision: "approve" }).success).toBe(true);
+  });
+});
+
+describe("parseCoverageCsv", () => {
+  it("should combine rows for the same region and split multi-ZIP cells", () => {
+    const { regions, errors } = parseCoverageCsv(
+      "State,Region,ZIP,Kind\nMN,Twin Cities,55401,metro\nmn,twin cities,55402; 55403,metro\nMN,North Loop,55401\n",
+    );
+
+    expect(errors).toEqual([]);
+    expect(regions).toEqual([
+      { state: "MN", name: "Twin Cities", kind: "metro", zip_codes: ["55401", "55402", "55403"] },
+      { state: "MN", name: "North Loop", kind: "custom", zip_codes: ["55401"] },
+    ]);
+  });
+
+  it("should report bad rows with their line numbers", () => {
+    const { errors } = parseCoverageCsv("state,region,zip\nZZ,Nowhere,55401\nMN,Twin Cities,5540\nMN,,55401");
+
+    expect(errors).toEqual([
+      { line: 2, message: '"ZZ" is not a US state code' },
+      { line: 3, message: '"5540" is not a valid ZIP' },
+      { line: 4, message: "Region name is missing" },
+    ]);
+  });
+
+  it("should warn about duplicate and unknown ZIPs without failing", () => {
+    const { regions, errors, warnings } = parseCoverageCsv("state,region,zip\nMN,Twin Cities,55401 55401 00000");
+
+    expect(errors).toEqual([]);
+    expect(regions[0].zip_codes).toEqual(["00000", "55401"]);
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      "55401 is listed more than once for Twin Cities",
+      "00000 is not in the ZIP reference table",
+    ]);
+  });
+
+  it("should fail when a required column is missing", () => {
+    const { regions, errors } = parseCoverageCsv("state,zip\nMN,55401");
+
+    expect(regions).toEqual([]);
+    expect(errors[0].message).toMatch(/Missing column\(s\): name/);
+  });
+});
+
+describe("planCoverageImport", () => {
+  const existing = [region("twin", "MN", "Twin Cities", "metro", ["55401", "55402"]), region("mn", "MN", null, "state")];
+  const imported = [
+    { state: "MN", name: "twin cities", kind: "metro" as const, zip_codes: ["55402", "55403"] },
+    { state: "MN", name: "Duluth", kind: "metro" as const, zip_codes: ["55802"] },
+  ];
+
+  it("should add ZIPs to matching regions when merging", () => {
+    const [twin, duluth] = planCoverageImport(imported, existing, "merge");
+
+    expect(twin).toMatchObject({ action: "update", region_id: "twin", name: "Twin Cities", added: ["55403"], removed: [] });
+    expect(twin.zip_codes).toEqual(["55401", "55402", "55403"]);
+    expect(duluth).toMatchObject({ action: "create", region_id: null, added: ["55802"] });
+  });
+
+  it("should drop ZIPs missing from the file when replacing", () => {
+    const [twin] = planCoverageImport(imported, existing, "replace");
+
+    expect(twin).toMatchObject({ action: "update", added: ["55403"], removed: ["55401"] });
+  });
+
+  it("should mark regions with nothing to change as unchanged", () => {
+    const [twin] = planCoverageImport([{ ...imported[0], zip_codes: ["55401"] }], existing, "merge");
+
+    expect(twin.action).toBe("unchanged");
+  });
+});
@@ -0,0 +1,297 @@
+import { z } from "zod";
+import { isKnownZip, normalizeZip } from "./geo";
+
+// Coverage regions vendors pick on their profile. A state region covers the whole state; metro
+// and custom regions cover only their ZIPs. Admins define regions by hand or import ZIP lists from
+// CSV (previewed before anything is written); vendors can request regions that are missing.
+
+export type CoverageKind = "state" | "metro" | "custom";
+
+export interface CoverageRegion {
+  id: string;
+  state: string;
+  // Display name; null for whole-state regions
+  region: string | null;
+  kind: CoverageKind;
+  zip_codes: string[];
+}
+
+export const US_STATE_CODES = [
+  "AL", "AK", "AZ", "AR", "CA", "CO", "CT", "DE", "DC", "FL", "GA", "HI", "ID", "IL", "IN", "IA", "KS",
+  "KY", "LA", "ME", "MD", "MA", "MI", "MN", "MS", "MO", "MT", "NE", "NV", "NH", "NJ", "NM", "NY", "NC",
+  "ND", "OH", "OK", "OR", "PA", "RI", "SC", "SD", "TN", "TX", "UT", "VT", "VA", "WA", "WV", "WI", "WY",
+];
+
+// Legacy rows from before the kind column count as whole-state regions, as they always did
+export const regionKind = (region: { kind?: string | null }): CoverageKind => (region.kind as CoverageKind) || "state";
+
+// What a vendor's selected regions cover, for routing
+export function coverageFromRegions(regions: { state: string; kind?: string | null; zip_codes?: string[] | null }[]) {
+  return {
+    states: [...new Set(regions.filter((r) => regionKind(r) === "state").map((r) => String(r.state).toUpperCase()))],
+    zips: [...new Set(regions.flatMap((r) => r.zip_codes || []))],
+  };
+}
+
+const stateCode = z
+  .string()
+  .trim()
+  .transform((code) => code.toUpperCase())
+  .refine((code) => US_STATE_CODES.includes(code), "Use a two-letter US state code");
+
+const zipList = z
+  .array(z.string())
+  .max(5000, "Regions are limited to 5,000 ZIPs")
+  .transform((zips, ctx) => {
+    const normalized = new Set<string>();
+    for (const zip of zips) {
+      const value = normalizeZip(zip);
+      if (!value) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${zip}" is not a valid ZIP` });
+        return z.NEVER;
+      }
+      normalized.add(value);
+    }
+    return [...normalized].sort();
+  });
+
+const regionName = z.string().trim().min(2, "Name the region").max(255);
+
+export const coverageRegionSchema = z
+  .object({
+    kind: z.enum(["state", "metro", "custom"]),
+    state: stateCode,
+    name: z.string().trim().max(255).optional(),
+    zipCodes: zipList.optional(),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    if (value.kind === "state") {
+      if (value.zipCodes?.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["zipCodes"], message: "State regions cover the whole state; leave ZIPs empty" });
+      }
+      return;
+    }
+    if (!value.name || value.name.length < 2) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["name"], message: "Name the region" });
+    }
+    if (!value.zipCodes?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["zipCodes"], message: "Add at least one ZIP" });
+    }
+  });
+
+export const updateCoverageRegionSchema = z
+  .object({
+    name: regionName.optional(),
+    zipCodes: zipList.refine((zips) => zips.length > 0, "Add at least one ZIP").optional(),
+  })
+  .strict();
+
+export const coverageRequestSchema = z
+  .object({
+    kind: z.enum(["metro", "custom"]),
+    state: stateCode,
+    name: regionName,
+    zipCodes: zipList.refine((zips) => zips.length > 0, "Add at least one ZIP"),
+    note: z.string().trim().max(1000).optional(),
+  })
+  .strict();
+
+export const coverageRequestReviewSchema = z
+  .object({
+    decision: z.enum(["approve", "reject"]),
+    note: z.string().trim().max(1000).optional(),
+  })
+  .strict()
+  .refine((value) => value.decision === "approve" || (value.note && value.note.length >= 3), {
+    path: ["note"],
+    message: "Tell the vendor why the request was rejected",
+  });
+
+export const coverageImportSchema = z
+  .object({
+    csv: z.string().min(1, "Paste or upload a CSV file").max(2_000_000, "CSV files are limited to 2 MB"),
+    mode: z.enum(["merge", "replace"]).default("merge"),
+    apply: z.boolean().default(false),
+  })
+  .strict();
+
+export interface CoverageImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface CoverageImportRegion {
+  state: string;
+  name: string;
+  kind: "metro" | "custom";
+  zip_codes: string[];
+}
+
+// Splits one CSV line, honouring double-quoted cells ("a, b" and "" escapes)
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+const HEADER_ALIASES: Record<string, "state" | "name" | "kind" | "zip"> = {
+  state: "state",
+  region: "name",
+  name: "name",
+  kind: "kind",
+  type: "kind",
+  zip: "zip",
+  zips: "zip",
+  zip_code: "zip",
+  zip_codes: "zip",
+  zipcode: "zip",
+};
+
+// Parse a ZIP list CSV. Columns: state, region (or name), zip (one ZIP, or several separated by
+// spaces, semicolons or pipes) and an optional kind (metro or custom, default custom). Rows for
+// the same state and region are combined. Errors block the import; warnings do not.
+export function parseCoverageCsv(csv: string) {
+  const lines = csv.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const errors: CoverageImportIssue[] = [];
+  const warnings: CoverageImportIssue[] = [];
+  const regions = new Map<string, CoverageImportRegion>();
+
+  const headerIndex = lines.findIndex((line) => line.trim() !== "");
+  if (headerIndex === -1) {
+    return { regions: [] as CoverageImportRegion[], errors: [{ line: 1, message: "The file is empty" }], warnings };
+  }
+
+  const columns = splitCsvLine(lines[headerIndex]).map((cell) => HEADER_ALIASES[cell.toLowerCase().replace(/\s+/g, "_")]);
+  const missing = (["state", "name", "zip"] as const).filter((column) => !columns.includes(column));
+  if (missing.length > 0) {
+    return {
+      regions: [] as CoverageImportRegion[],
+      errors: [{ line: headerIndex + 1, message: `Missing column(s): ${missing.join(", ")}. Expected state, region, zip and optionally kind` }],
+      warnings,
+    };
+  }
+
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    if (lines[index].trim() === "") continue;
+    const line = index + 1;
+    const cells = splitCsvLine(lines[index]);
+    const cell = (column: "state" | "name" | "kind" | "zip") => cells[columns.indexOf(column)] || "";
+
+    const state = cell("state").toUpperCase();
+    const name = cell("name");
+    const kind = (cell("kind").toLowerCase() || "custom") as CoverageImportRegion["kind"];
+
+    if (!US_STATE_CODES.includes(state)) {
+      errors.push({ line, message: `"${cell("state")}" is not a US state code` });
+      continue;
+    }
+    if (name.length < 2) {
+      errors.push({ line, message: "Region name is missing" });
+      continue;
+    }
+    if (kind !== "metro" && kind !== "custom") {
+      errors.push({ line, message: `Kind must be metro or custom, not "${cell("kind")}"` });
+      continue;
+    }
+
+    const rawZips = cell("zip").split(/[\s;|]+/).filter(Boolean);
+    if (rawZips.length === 0) {
+      errors.push({ line, message: "No ZIP on this row" });
+      continue;
+    }
+
+    const key = `${state}|${name.toLowerCase()}`;
+    const region = regions.get(key) || { state, name, kind, zip_codes: [] };
+    if (region.kind !== kind) {
+      errors.push({ line, message: `${name} (${state}) is listed as both ${region.kind} and ${kind}` });
+      continue;
+    }
+
+    for (const raw of rawZips) {
+      const zip = normalizeZip(raw);
+      if (!zip) {
+        errors.push({ line, message: `"${raw}" is not a valid ZIP` });
+      } else if (region.zip_codes.includes(zip)) {
+        warnings.push({ line, message: `${zip} is listed more than once for ${name}` });
+      } else {
+        if (!isKnownZip(zip)) warnings.push({ line, message: `${zip} is not in the ZIP reference table` });
+        region.zip_codes.push(zip);
+      }
+    }
+    regions.set(key, region);
+  }
+
+  return {
+    regions: [...regions.values()].map((region) => ({ ...region, zip_codes: [...region.zip_codes].sort() })),
+    errors,
+    warnings,
+  };
+}
+
+export interface CoverageImportChange extends CoverageImportRegion {
+  action: "create" | "update" | "unchanged";
+  region_id: string | null;
+  added: string[];
+  removed: string[];
+}
+
+// What importing `regions` would change. Regions match existing metro/custom regions by state
+// and name; "merge" adds ZIPs to them, "replace" makes the file the region's full ZIP list.
+export function planCoverageImport(
+  regions: CoverageImportRegion[],
+  existing: CoverageRegion[],
+  mode: "merge" | "replace",
+): CoverageImportChange[] {
+  return regions.map((region) => {
+    const match = existing.find(
+      (candidate) =>
+        regionKind(candidate) !== "state" &&
+        candidate.state === region.state &&
+        (candidate.region || "").toLowerCase() === region.name.toLowerCase(),
+    );
+
+    if (!match) {
+      return { ...region, action: "create", region_id: null, added: region.zip_codes, removed: [] };
+    }
+
+    const current = match.zip_codes || [];
+    const zipCodes = mode === "replace" ? region.zip_codes : [...new Set([...current, ...region.zip_codes])].sort();
+    const added = zipCodes.filter((zip) => !current.includes(zip));
+    const removed = current.filter((zip) => !zipCodes.includes(zip));
+    const changed = added.length > 0 || removed.length > 0 || regionKind(match) !== region.kind;
+
+    return {
+      ...region,
+      name: match.region || region.name,
+      zip_codes: zipCodes,
+      action: changed ? "update" : "unchanged",
+      region_id: match.id,
+      added,
+      removed,
+    };
+  });
+}
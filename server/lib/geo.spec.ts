@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { getZipCentroid, matchServiceRadius, normalizeZip, zipDistanceMiles } from "./geo";
+
+const MINNEAPOLIS = "55401";
+const ST_PAUL = "55101";
+const DULUTH = "55802";
+
+describe("normalizeZip", () => {
+  it("should accept 5-digit and ZIP+4 codes only", () => {
+    expect(normalizeZip(" 55401 ")).toBe("55401");
+    expect(normalizeZip("55401-1234")).toBe("55401");
+    expect(normalizeZip("5540")).toBeNull();
+    expect(normalizeZip("ABCDE")).toBeNull();
+    expect(normalizeZip(null)).toBeNull();
+  });
+});
+
+describe("getZipCentroid", () => {
+  it("should look up ZIPs from the bundled table", () => {
+    const centroid = getZipCentroid(MINNEAPOLIS);
+    expect(centroid.lat).toBeCloseTo(44.98, 1);
+    expect(centroid.lng).toBeCloseTo(-93.27, 1);
+    expect(getZipCentroid("00000")).toBeNull();
+  });
+});
+
+describe("zipDistanceMiles", () => {
+  it("should measure straight-line distance between ZIP centroids", () => {
+    expect(zipDistanceMiles(MINNEAPOLIS, ST_PAUL)).toBeGreaterThan(5);
+    expect(zipDistanceMiles(MINNEAPOLIS, ST_PAUL)).toBeLessThan(15);
+    expect(zipDistanceMiles(MINNEAPOLIS, DULUTH)).toBeGreaterThan(130);
+    expect(zipDistanceMiles(MINNEAPOLIS, DULUTH)).toBeLessThan(145);
+    expect(zipDistanceMiles(MINNEAPOLIS, "00000")).toBeNull();
+  });
+});
+
+describe("matchServiceRadius", () => {
+  it("should match ZIPs inside the radius and report the distance otherwise", () => {
+    const radii = [{ base_zip: MINNEAPOLIS, radius_miles: 30 }];
+
+    expect(matchServiceRadius(ST_PAUL, radii)).toMatchObject({ base_zip: MINNEAPOLIS, within: true });
+    const duluth = matchServiceRadius(DULUTH, radii);
+    expect(duluth.within).toBe(false);
+    expect(duluth.distance_miles).toBeGreaterThan(130);
+  });
+
+  it("should prefer a base ZIP whose radius covers the project", () => {
+    const radii = [
+      { base_zip: MINNEAPOLIS, radius_miles: 30 },
+      { base_zip: DULUTH, radius_miles: 10 },
+    ];
+
+    expect(matchServiceRadius("55811", radii)).toMatchObject({ base_zip: DULUTH, within: true });
+    expect(matchServiceRadius(ST_PAUL, radii)).toMatchObject({ base_zip: MINNEAPOLIS, within: true });
+  });
+
+  it("should return null when nothing can be located", () => {
+    expect(matchServiceRadius("00000", [{ base_zip: MINNEAPOLIS, radius_miles: 30 }])).toBeNull();
+    expect(matchServiceRadius(MINNEAPOLIS, [])).toBeNull();
+  });
+});
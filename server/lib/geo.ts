@@ -0,0 +1,95 @@
+import { ZIP_CENTROIDS_CSV } from "../data/zip-centroids";
+
+// ZIP-to-ZIP distances from the bundled centroid table (server/data/zip-centroids.ts)
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface ServiceRadius {
+  base_zip: string;
+  radius_miles: number;
+}
+
+export const MAX_SERVICE_RADIUS_MILES = 500;
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+let centroids: Map<string, LatLng> | null = null;
+
+// Parsed on first use; the table is ~34k rows
+function loadCentroids(): Map<string, LatLng> {
+  if (!centroids) {
+    centroids = new Map();
+    for (const line of ZIP_CENTROIDS_CSV.split("\n")) {
+      const [zip, lat, lng] = line.split(",");
+      if (zip && lat && lng) {
+        centroids.set(zip, { lat: Number(lat), lng: Number(lng) });
+      }
+    }
+  }
+  return centroids;
+}
+
+// "55401-1234" and " 55401" both normalize to "55401"; anything else is null
+export function normalizeZip(zip: string | null | undefined): string | null {
+  const match = String(zip ?? "").trim().match(/^(\d{5})(?:-\d{4})?$/);
+  return match ? match[1] : null;
+}
+
+export function getZipCentroid(zip: string | null | undefined): LatLng | null {
+  const normalized = normalizeZip(zip);
+  return normalized ? loadCentroids().get(normalized) || null : null;
+}
+
+export function isKnownZip(zip: string | null | undefined): boolean {
+  return getZipCentroid(zip) !== null;
+}
+
+// Great-circle (haversine) distance in miles
+export function distanceMiles(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function zipDistanceMiles(from: string | null | undefined, to: string | null | undefined): number | null {
+  const a = getZipCentroid(from);
+  const b = getZipCentroid(to);
+  return a && b ? distanceMiles(a, b) : null;
+}
+
+export interface RadiusMatch {
+  base_zip: string;
+  radius_miles: number;
+  distance_miles: number;
+  within: boolean;
+}
+
+// The service radius that best covers `zip`: the closest one it falls inside, otherwise the
+// closest base ZIP overall. Null when the ZIP or every base ZIP is unknown.
+export function matchServiceRadius(zip: string | null | undefined, radii: ServiceRadius[]): RadiusMatch | null {
+  let best: RadiusMatch | null = null;
+
+  for (const radius of radii || []) {
+    const distance = zipDistanceMiles(radius.base_zip, zip);
+    if (distance === null) continue;
+
+    const match = {
+      base_zip: radius.base_zip,
+      radius_miles: radius.radius_miles,
+      distance_miles: Math.round(distance * 10) / 10,
+      within: distance <= radius.radius_miles,
+    };
+
+    const closer = match.distance_miles < best?.distance_miles;
+    if (!best || (match.within && !best.within) || (match.within === best.within && closer)) {
+      best = match;
+    }
+  }
+
+  return best;
+}
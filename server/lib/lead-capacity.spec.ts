@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { NO_LEAD_PREFERENCES, leadCapacityHold, leadPreferencesFromProfile } from "./lead-capacity";
+import { VendorCandidate } from "./vendor-scoring";
+
+const CLEANING = "svc-cleaning";
+const project = { id: "project-1", service_category_id: CLEANING, project_state: "MN", project_zip: "55401", budget_max: 5000 };
+const now = new Date("2026-03-10T12:00:00Z");
+
+function vendor(overrides: Partial<VendorCandidate["preferences"]> = {}, leadsThisWeek = 0): VendorCandidate {
+  return {
+    vendor_id: "a",
+    company_name: "a",
+    services: [CLEANING],
+    coverage_states: ["MN"],
+    coverage_zips: [],
+    service_radii: [],
+    rating: null,
+    stats: { leads_routed: 0, bids_submitted: 0, bids_won: 0, open_leads: 0, leads_this_week: leadsThisWeek, last_routed_at: null },
+    preferences: { ...NO_LEAD_PREFERENCES, ...overrides },
+    profile: {},
+  };
+}
+
+describe("leadCapacityHold", () => {
+  it("should let vendors without preferences through", () => {
+    expect(leadCapacityHold(vendor(), project, now)).toBeNull();
+  });
+
+  it("should hold vendors until their pause date", () => {
+    expect(leadCapacityHold(vendor({ paused_until: "2026-03-11" }), project, now)).toBe("Leads paused until 2026-03-11");
+    expect(leadCapacityHold(vendor({ paused_until: "2026-03-10" }), project, now)).toBeNull();
+  });
+
+  it("should hold vendors at their weekly cap", () => {
+    expect(leadCapacityHold(vendor({ weekly_lead_cap: 3 }, 3), project, now)).toBe("Weekly lead cap reached (3/3)");
+    expect(leadCapacityHold(vendor({ weekly_lead_cap: 3 }, 2), project, now)).toBeNull();
+  });
+
+  it("should respect excluded categories and the minimum budget", () => {
+    expect(leadCapacityHold(vendor({ excluded_categories: [CLEANING] }), project, now)).toBe(
+      "Service category excluded by vendor",
+    );
+    expect(
+      leadCapacityHold(
+        vendor({ excluded_categories: [CLEANING] }),
+        { ...project, service_category_id: "svc-office-cleaning", service_category_path: ["svc-office-cleaning", CLEANING] },
+        now,
+      ),
+    ).toBe("Service category excluded by vendor");
+    expect(leadCapacityHold(vendor({ min_budget: 10000 }), project, now)).toBe("Budget below vendor minimum of $10,000");
+    expect(leadCapacityHold(vendor({ min_budget: 10000 }), { ...project, budget_max: null }, now)).toBeNull();
+  });
+});
+
+describe("leadPreferencesFromProfile", () => {
+  it("should read numeric columns and default the rest", () => {
+    expect(leadPreferencesFromProfile({ vendor_weekly_lead_cap: 5, vendor_min_budget: "1500.00" })).toEqual({
+      weekly_lead_cap: 5,
+      min_budget: 1500,
+      excluded_categories: [],
+      paused_until: null,
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { ScoringProject, VendorCandidate } from "./vendor-scoring";
+
+// Vendor-set limits on the leads they receive. A vendor who is paused, at their weekly cap,
+// above the project's budget or excluding its category is held back from routing entirely,
+// whatever their score and whatever the routing mode.
+
+export const LEAD_CAP_WINDOW_DAYS = 7;
+
+export interface LeadPreferences {
+  // Most leads to receive in any rolling 7 days; null = no cap
+  weekly_lead_cap: number | null;
+  // Projects whose budget is known and below this are skipped
+  min_budget: number | null;
+  excluded_categories: string[];
+  // No new leads before this date (YYYY-MM-DD)
+  paused_until: string | null;
+}
+
+export const NO_LEAD_PREFERENCES: LeadPreferences = {
+  weekly_lead_cap: null,
+  min_budget: null,
+  excluded_categories: [],
+  paused_until: null,
+};
+
+export function leadPreferencesFromProfile(profile: Record<string, any>): LeadPreferences {
+  const number = (value: unknown) => (value === null || value === undefined || value === "" ? null : Number(value));
+  return {
+    weekly_lead_cap: number(profile.vendor_weekly_lead_cap),
+    min_budget: number(profile.vendor_min_budget),
+    excluded_categories: profile.vendor_excluded_categories || [],
+    paused_until: profile.vendor_leads_paused_until || null,
+  };
+}
+
+// Why the vendor should not get this lead right now, or null when they can
+export function leadCapacityHold(vendor: VendorCandidate, project: ScoringProject, now = new Date()): string | null {
+  const preferences = vendor.preferences;
+
+  if (preferences.paused_until && now < new Date(`${preferences.paused_until}T00:00:00Z`)) {
+    return `Leads paused until ${preferences.paused_until}`;
+  }
+
+  if (preferences.weekly_lead_cap !== null && vendor.stats.leads_this_week >= preferences.weekly_lead_cap) {
+    return `Weekly lead cap reached (${vendor.stats.leads_this_week}/${preferences.weekly_lead_cap})`;
+  }
+
+  // Excluding a category also excludes its subcategories
+  const categories = project.service_category_path || [project.service_category_id].filter(Boolean);
+  if (categories.some((id) => preferences.excluded_categories.includes(id))) {
+    return "Service category excluded by vendor";
+  }
+
+  const budget = project.budget_max ?? project.budget_min ?? null;
+  if (preferences.min_budget !== null && budget !== null && Number(budget) < preferences.min_budget) {
+    return `Budget below vendor minimum of $${preferences.min_budget.toLocaleString("en-US")}`;
+  }
+
+  return null;
+}
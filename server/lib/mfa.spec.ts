@@ -0,0 +1,138 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+
+// One user_mfa row, with just the filters the MFA routes use to spend a code
+const { mfaRow, fakeSupabase } = vi.hoisted(() => {
+  const mfaRow: Record<string, any> = {};
+
+  function query() {
+    const filters: Array<(row: Record<string, any>) => boolean> = [];
+    let updates: Record<string, any> | null = null;
+    const matches = () => filters.every((filter) => filter(mfaRow));
+    const builder: any = {
+      select: () => builder,
+      update: (values: Record<string, any>) => {
+        updates = values;
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      or: (expression: string) => {
+        const below = Number(expression.match(/last_used_counter\.lt\.(\d+)/)![1]);
+        filters.push((row) => row.last_used_counter === null || row.last_used_counter < below);
+        return builder;
+      },
+      contains: (column: string, values: string[]) => {
+        filters.push((row) => values.every((value) => row[column].includes(value)));
+        return builder;
+      },
+      containedBy: (column: string, values: string[]) => {
+        filters.push((row) => row[column].every((value: string) => values.includes(value)));
+        return builder;
+      },
+      maybeSingle: async () => ({ data: matches() ? { ...mfaRow } : null, error: null }),
+      then: (resolve: (result: any) => unknown) => {
+        const matched = matches();
+        if (matched && updates) Object.assign(mfaRow, updates);
+        return resolve({ data: matched ? [{ user_id: mfaRow.user_id }] : [], error: null });
+      },
+    };
+    return builder;
+  }
+
+  return { mfaRow, fakeSupabase: { from: query } };
+});
+
+vi.mock("./supabase", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./supabase")>()),
+  supabaseAdmin: fakeSupabase,
+}));
+
+import { signAccessToken, verifyAccessToken } from "./auth";
+import { readMfaAuthTime, signMfaToken } from "./mfa";
+import { generateTotp, generateTotpSecret, hashRecoveryCode } from "./totp";
+import { handleVerifyMfa } from "../routes/mfa";
+
+const JWT_SECRET = "test-jwt-secret-with-enough-length";
+const MFA_SECRET = "test-mfa-secret-with-enough-length";
+const USER_ID = "6f1c2a4e-8d1b-4b7a-9c3e-2f5d7a9b1c0e";
+
+describe("MFA tokens", () => {
+  it("should return the auth time for the user the token was issued to", () => {
+    const { token } = signMfaToken(USER_ID, MFA_SECRET);
+    const authTime = readMfaAuthTime(token, USER_ID, MFA_SECRET);
+
+    expect(authTime).toBeGreaterThan(Math.floor(Date.now() / 1000) - 5);
+  });
+
+  it("should ignore tokens issued to another user or signed with another key", () => {
+    const { token } = signMfaToken(USER_ID, MFA_SECRET);
+
+    expect(readMfaAuthTime(token, "someone-else", MFA_SECRET)).toBeNull();
+    expect(readMfaAuthTime(token, USER_ID, JWT_SECRET)).toBeNull();
+    expect(readMfaAuthTime(undefined, USER_ID, MFA_SECRET)).toBeNull();
+  });
+
+  it("should not accept a regular access token as proof of MFA", () => {
+    const accessToken = signAccessToken({ sub: USER_ID }, MFA_SECRET);
+    expect(readMfaAuthTime(accessToken, USER_ID, MFA_SECRET)).toBeNull();
+  });
+
+  it("should not be usable as an access token", () => {
+    const { token } = signMfaToken(USER_ID, MFA_SECRET);
+    expect(() => verifyAccessToken(token, JWT_SECRET)).toThrow("Invalid token signature");
+  });
+});
+
+describe("spending a second factor", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  const verify = (body: Record<string, string>) => {
+    const res: any = {
+      statusCode: 200,
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json() {
+        return this;
+      },
+    };
+    return Promise.resolve(handleVerifyMfa({ auth: { userId: USER_ID }, body } as any, res, () => {})).then(() => res.statusCode);
+  };
+
+  function enroll() {
+    const secret = generateTotpSecret();
+    Object.assign(mfaRow, {
+      user_id: USER_ID,
+      secret,
+      enabled: true,
+      recovery_code_hashes: [hashRecoveryCode("AAAA-BBBB"), hashRecoveryCode("CCCC-DDDD")],
+      last_used_counter: null,
+    });
+    return secret;
+  }
+
+  it("should accept a TOTP code only once when two requests race with it", async () => {
+    vi.stubEnv("SUPABASE_JWT_SECRET", JWT_SECRET);
+    const code = generateTotp(enroll());
+
+    const statuses = await Promise.all([verify({ code }), verify({ code })]);
+    expect(statuses.sort()).toEqual([200, 400]);
+  });
+
+  it("should accept a recovery code only once, and not bring back one spent alongside it", async () => {
+    vi.stubEnv("SUPABASE_JWT_SECRET", JWT_SECRET);
+    enroll();
+
+    const statuses = await Promise.all([
+      verify({ recoveryCode: "AAAA-BBBB" }),
+      verify({ recoveryCode: "AAAA-BBBB" }),
+      verify({ recoveryCode: "CCCC-DDDD" }),
+    ]);
+
+    expect(statuses.filter((status) => status === 200)).toHaveLength(1);
+    expect(mfaRow.recovery_code_hashes).toHaveLength(1);
+  });
+});
@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import { RequestHandler } from "express";
+import { isMissingTableError, supabaseAdmin } from "./supabase";
+import { signAccessToken, verifyAccessToken, UserRole } from "./auth";
+import { sendForbidden } from "./permissions";
+
+// After a successful TOTP check the API issues an MFA token (sent back in `x-mfa-token`).
+// It stays valid for a working day, but sensitive routes also need it to be recent.
+export const MFA_TOKEN_HEADER = "x-mfa-token";
+export const MFA_SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
+export const MFA_STEP_UP_MAX_AGE_SECONDS = 15 * 60;
+
+const MFA_TOKEN_TYPE = "mfa";
+
+// Roles that must enroll before using the API, e.g. MFA_REQUIRED_ROLES=admin
+const getRequiredRoles = (): UserRole[] =>
+  (process.env.MFA_REQUIRED_ROLES || "")
+    .split(",")
+    .map((role) => role.trim())
+    .filter(Boolean) as UserRole[];
+
+// A separate key keeps MFA tokens from ever being accepted as access tokens
+const getMfaSecret = () => {
+  const jwtSecret = process.env.SUPABASE_JWT_SECRET || "";
+  return jwtSecret ? crypto.createHmac("sha256", jwtSecret).update("mfa-token").digest("hex") : "";
+};
+
+export function signMfaToken(userId: string, secret: string = getMfaSecret()) {
+  const token = signAccessToken(
+    { sub: userId, typ: MFA_TOKEN_TYPE, auth_time: Math.floor(Date.now() / 1000) },
+    secret,
+    MFA_SESSION_MAX_AGE_SECONDS,
+  );
+  return { token, expiresAt: new Date(Date.now() + MFA_SESSION_MAX_AGE_SECONDS * 1000).toISOString() };
+}
+
+// Returns when the user last completed an MFA check, or null if the token is missing or not theirs
+export function readMfaAuthTime(
+  token: string | undefined,
+  userId: string,
+  secret: string = getMfaSecret(),
+): number | null {
+  if (!token) return null;
+
+  try {
+    const claims = verifyAccessToken(token, secret);
+    if (claims.typ !== MFA_TOKEN_TYPE || claims.sub !== userId || typeof claims.auth_time !== "number") {
+      return null;
+    }
+    return claims.auth_time;
+  } catch {
+    return null;
+  }
+}
+
+export async function isMfaEnabled(userId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("user_mfa")
+    .select("enabled")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    // Table not created yet (migrations/add_user_mfa.sql): nobody can have enrolled
+    if (isMissingTableError(error)) return false;
+    throw error;
+  }
+
+  return !!data?.enabled;
+}
+
+function mfaMiddleware(maxAgeSeconds: number, level: "session" | "step_up"): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const { userId, role } = req.auth;
+
+      if (!(await isMfaEnabled(userId))) {
+        if (role && getRequiredRoles().includes(role)) {
+          return sendForbidden(res, "Set up two-factor authentication to continue", { mfa: "enrollment" });
+        }
+        return next();
+      }
+
+      const authTime = readMfaAuthTime(req.header(MFA_TOKEN_HEADER), userId);
+      const now = Math.floor(Date.now() / 1000);
+
+      if (authTime === null || now - authTime > maxAgeSeconds) {
+        return sendForbidden(
+          res,
+          level === "step_up"
+            ? "Confirm it's you with your authenticator code to continue"
+            : "Enter your authenticator code to continue",
+          { mfa: level },
+        );
+      }
+
+      next();
+    } catch (error) {
+      console.error("[MFA] Check failed:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+}
+
+// Middleware: users who enrolled in MFA must have passed it this session. Must run after `requireAuth`.
+export const requireMfaSession = mfaMiddleware(MFA_SESSION_MAX_AGE_SECONDS, "session");
+
+// Middleware: sensitive actions need an MFA check from the last few minutes. Must run after `requireAuth`.
+export const requireRecentMfa = mfaMiddleware(MFA_STEP_UP_MAX_AGE_SECONDS, "step_up");
@@ -0,0 +1,36 @@
+import { isMissingTableError, supabaseAdmin } from "./supabase";
+
+// In-app notifications (the bell in the dashboard reads the notifications table). Sending is
+// best effort: a failure is logged and never fails the action that triggered it.
+
+export interface NotificationInput {
+  title: string;
+  message: string;
+  type?: "info" | "success" | "warning" | "error";
+  category: string;
+  relatedId?: string | null;
+}
+
+export async function notifyUsers(userIds: string[], notification: NotificationInput): Promise<number> {
+  const recipients = [...new Set(userIds.filter(Boolean))];
+  if (recipients.length === 0) return 0;
+
+  const { error } = await supabaseAdmin.from("notifications").insert(
+    recipients.map((userId) => ({
+      user_id: userId,
+      title: notification.title,
+      message: notification.message,
+      type: notification.type || "info",
+      category: notification.category,
+      related_id: notification.relatedId || null,
+    })),
+  );
+
+  if (error) {
+    if (!isMissingTableError(error)) {
+      console.warn(`[NOTIFY] Failed to send "${notification.category}" notifications:`, error.message);
+    }
+    return 0;
+  }
+  return recipients.length;
+}
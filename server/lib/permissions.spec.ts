@@ -0,0 +1,33 @@
+import { describe, it, expect, vi } from "vitest";
+
+const { result } = vi.hoisted(() => ({ result: { data: null as any, error: null as any } }));
+
+vi.mock("./supabase", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./supabase")>()),
+  supabaseAdmin: {
+    from: () => ({ select: () => ({ eq: async () => result }) }),
+  },
+}));
+
+import { getRolePermissions } from "./permissions";
+
+// Each test uses a different role, since results are cached per role
+describe("getRolePermissions", () => {
+  it("should use the table's rows when the role has any", async () => {
+    Object.assign(result, { data: [{ permission: "bid:submit" }], error: null });
+    expect([...(await getRolePermissions("vendor"))]).toEqual(["bid:submit"]);
+  });
+
+  it("should fall back to the defaults when the role has no rows yet", async () => {
+    Object.assign(result, { data: [], error: null });
+    const permissions = await getRolePermissions("business");
+    expect(permissions.has("project:create")).toBe(true);
+    expect(permissions.has("project:read_all")).toBe(false);
+  });
+
+  it("should fall back to the defaults when the table can't be read", async () => {
+    Object.assign(result, { data: null, error: { message: 'relation "role_permissions" does not exist' } });
+    const permissions = await getRolePermissions("admin");
+    expect(permissions.has("usage:read")).toBe(true);
+  });
+});
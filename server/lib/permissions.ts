@@ -0,0 +1,157 @@
+import { RequestHandler, Response } from "express";
+import { supabaseAdmin } from "./supabase";
+import { UserRole } from "./auth";
+
+export type Permission =
+  | "admin:stats"
+  | "audit:read"
+  | "bid:submit"
+  | "coverage:manage"
+  | "message:send"
+  | "moderation:manage"
+  | "moderation:review"
+  | "profile:manage_access"
+  | "profile:update_own"
+  | "project:assign"
+  | "project:award"
+  | "project:create"
+  | "project:delete"
+  | "project:publish"
+  | "project:read_all"
+  | "project:update_status"
+  | "routing:read"
+  | "routing:request"
+  | "routing:write"
+  | "taxonomy:manage"
+  | "usage:read";
+
+// Mirrors the seed in migrations/add_role_permissions.sql plus the permissions later feature
+// migrations add (e.g. add_audit_logs.sql). Used when the role_permissions table cannot be read
+// or has no rows for the role (e.g. the migrations have not been applied yet).
+const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    "admin:stats",
+    "audit:read",
+    "coverage:manage",
+    "message:send",
+    "moderation:manage",
+    "moderation:review",
+    "profile:manage_access",
+    "profile:update_own",
+    "project:assign",
+    "project:create",
+    "project:delete",
+    "project:publish",
+    "project:read_all",
+    "project:update_status",
+    "routing:read",
+    "routing:request",
+    "routing:write",
+    "taxonomy:manage",
+    "usage:read",
+  ],
+  business: [
+    "message:send",
+    "profile:update_own",
+    "project:award",
+    "project:create",
+    "project:delete",
+    "project:publish",
+    "project:update_status",
+    "routing:request",
+  ],
+  vendor: [
+    "bid:submit",
+    "message:send",
+    "profile:update_own",
+    "project:update_status",
+    "routing:request",
+  ],
+};
+
+const CACHE_TTL_MS = 60_000;
+const permissionCache = new Map<UserRole, { permissions: Set<string>; expiresAt: number }>();
+
+export async function getRolePermissions(role: UserRole): Promise<Set<string>> {
+  const cached = permissionCache.get(role);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.permissions;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("role_permissions")
+    .select("permission")
+    .eq("role", role);
+
+  if (error) {
+    console.warn(`[PERMISSIONS] Falling back to default permissions for ${role}:`, error.message);
+    return new Set(DEFAULT_ROLE_PERMISSIONS[role] || []);
+  }
+
+  const defaults = DEFAULT_ROLE_PERMISSIONS[role] || [];
+  let permissions: Set<string>;
+
+  if (!data || data.length === 0) {
+    console.warn(`[PERMISSIONS] No role_permissions rows for ${role}; using the default permissions until they are seeded`);
+    permissions = new Set(defaults);
+  } else {
+    permissions = new Set<string>(data.map((row) => row.permission));
+    // Either revoked on purpose or seeded by a feature migration that hasn't been applied
+    const missing = defaults.filter((permission) => !permissions.has(permission));
+    if (missing.length > 0) {
+      console.warn(`[PERMISSIONS] ${role} is not granted ${missing.join(", ")} in role_permissions; requests needing them get 403`);
+    }
+  }
+
+  permissionCache.set(role, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+  return permissions;
+}
+
+export async function hasPermission(role: UserRole | null, permission: Permission): Promise<boolean> {
+  if (!role) return false;
+  const permissions = await getRolePermissions(role);
+  return permissions.has(permission);
+}
+
+// Every 403 from the API uses this shape so clients can handle it in one place
+export function sendForbidden(
+  res: Response,
+  message: string,
+  required?: { roles?: UserRole[]; permission?: Permission; mfa?: "enrollment" | "session" | "step_up" },
+) {
+  return res.status(403).json({
+    success: false,
+    error: message,
+    code: "forbidden",
+    ...(required ? { required } : {}),
+  });
+}
+
+// Middleware: only let through users with one of the given roles. Must run after `requireAuth`.
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.auth?.role || !roles.includes(req.auth.role)) {
+      return sendForbidden(res, `This action requires the ${roles.join(" or ")} role`, { roles });
+    }
+    next();
+  };
+}
+
+// Middleware: only let through users whose role grants the permission. Must run after `requireAuth`.
+export function requirePermission(permission: Permission): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      if (!(await hasPermission(req.auth?.role || null, permission))) {
+        return sendForbidden(res, `Missing permission: ${permission}`, { permission });
+      }
+      next();
+    } catch (error) {
+      console.error("[PERMISSIONS] Permission check failed:", error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { parseProfileUpdate, profileAccessSchema } from "./profile-schemas";
+
+const SERVICE_ID = "3b0c8f7e-2d4a-4f1b-9e6c-5a7d8b9c0e1f";
+
+describe("parseProfileUpdate", () => {
+  it("should accept the fields a vendor may edit", () => {
+    const result = parseProfileUpdate("vendor", {
+      company_name: "Acme Media",
+      years_in_business: 5,
+      vendor_services: [SERVICE_ID],
+      portfolio_url: "",
+    });
+
+    expect(result.fieldErrors).toBeNull();
+    expect(result.data).toMatchObject({ company_name: "Acme Media", vendor_services: [SERVICE_ID] });
+  });
+
+  it("should validate vendor service radii against the ZIP table", () => {
+    const valid = parseProfileUpdate("vendor", {
+      vendor_service_radii: [{ base_zip: "55401-1234", radius_miles: 25 }],
+    });
+    expect(valid.data).toEqual({ vendor_service_radii: [{ base_zip: "55401", radius_miles: 25 }] });
+
+    const unknownZip = parseProfileUpdate("vendor", { vendor_service_radii: [{ base_zip: "00000", radius_miles: 25 }] });
+    expect(unknownZip.fieldErrors).toEqual({ vendor_service_radii: "Enter a valid US ZIP code" });
+
+    const tooFar = parseProfileUpdate("vendor", { vendor_service_radii: [{ base_zip: "55401", radius_miles: 5000 }] });
+    expect(tooFar.fieldErrors).toEqual({ vendor_service_radii: "Radius can be at most 500 miles" });
+  });
+
+  it("should accept vendor lead preferences and clear an empty pause date", () => {
+    const result = parseProfileUpdate("vendor", {
+      vendor_weekly_lead_cap: 10,
+      vendor_min_budget: 2500,
+      vendor_excluded_categories: [SERVICE_ID],
+      vendor_leads_paused_until: "",
+    });
+    expect(result.data).toEqual({
+      vendor_weekly_lead_cap: 10,
+      vendor_min_budget: 2500,
+      vendor_excluded_categories: [SERVICE_ID],
+      vendor_leads_paused_until: null,
+    });
+
+    const invalid = parseProfileUpdate("vendor", { vendor_weekly_lead_cap: 0, vendor_leads_paused_until: "next week" });
+    expect(invalid.fieldErrors).toEqual({
+      vendor_weekly_lead_cap: "Cap must be at least 1 lead",
+      vendor_leads_paused_until: "Enter a date as YYYY-MM-DD",
+    });
+  });
+
+  it("should reject admin-only fields with a field error", () => {
+    const result = parseProfileUpdate("vendor", { company_name: "Acme", is_approved: true, role: "admin" });
+
+    expect(result.fieldErrors).toEqual({
+      is_approved: "Only an administrator can change this field",
+      role: "Only an administrator can change this field",
+    });
+  });
+
+  it("should not let a business set vendor-only fields", () => {
+    const result = parseProfileUpdate("business", { vendor_services: [SERVICE_ID] });
+    expect(result.fieldErrors).toEqual({ vendor_services: "This field cannot be edited" });
+  });
+
+  it("should report invalid values field by field", () => {
+    const result = parseProfileUpdate("business", {
+      company_name: "",
+      contact_email: "not-an-email",
+      headquarters_zip: "ABC",
+    });
+
+    expect(Object.keys(result.fieldErrors || {})).toEqual(["company_name", "contact_email", "headquarters_zip"]);
+    expect(result.fieldErrors?.company_name).toBe("Company name is required");
+  });
+});
+
+describe("profileAccessSchema", () => {
+  it("should require at least one change", () => {
+    expect(profileAccessSchema.safeParse({ reason: "cleanup" }).success).toBe(false);
+    expect(profileAccessSchema.safeParse({ is_approved: true }).success).toBe(true);
+  });
+});
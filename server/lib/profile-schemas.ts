@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { UserRole } from "./auth";
+import { MAX_SERVICE_RADIUS_MILES, isKnownZip, normalizeZip } from "./geo";
+
+// Fields only admins may change, through POST /api/admin/profiles/:userId/access
+export const ADMIN_ONLY_PROFILE_FIELDS = ["is_approved", "role"] as const;
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional();
+
+const optionalUrl = z
+  .union([z.literal(""), z.string().trim().url("Enter a valid URL, including https://").max(500)])
+  .nullable()
+  .optional();
+
+const commonProfileFields = {
+  company_name: z.string().trim().min(1, "Company name is required").max(255),
+  company_description: optionalText(5000),
+  company_website: optionalUrl,
+  contact_phone: z
+    .union([z.literal(""), z.string().trim().regex(/^[0-9+()\-.\s]{7,20}$/, "Enter a valid phone number")])
+    .nullable()
+    .optional(),
+  contact_email: z
+    .union([z.literal(""), z.string().trim().email("Enter a valid email address").max(255)])
+    .nullable()
+    .optional(),
+  avatar_url: optionalUrl,
+};
+
+const businessProfileSchema = z
+  .object({
+    ...commonProfileFields,
+    business_size: z.enum(["5-10", "11-24", "25-49", "50-99", "100+"]).nullable().optional(),
+    headquarters_zip: z
+      .union([z.literal(""), z.string().trim().regex(/^\d{5}(-\d{4})?$/, "Enter a 5-digit ZIP code")])
+      .nullable()
+      .optional(),
+    headquarters_city: optionalText(100),
+    headquarters_state: z
+      .union([z.literal(""), z.string().trim().regex(/^[A-Z]{2}$/, "Use a two-letter state code")])
+      .nullable()
+      .optional(),
+  })
+  .partial()
+  .strict();
+
+const vendorProfileSchema = z
+  .object({
+    ...commonProfileFields,
+    years_in_business: z.number().int().min(0).max(200).nullable().optional(),
+    employee_count: z.number().int().min(0).max(1_000_000).nullable().optional(),
+    certifications: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+    vendor_services: z.array(z.string().uuid("Unknown service category")).optional(),
+    vendor_coverage_areas: z.array(z.string().uuid("Unknown coverage area")).optional(),
+    vendor_service_radii: z
+      .array(
+        z
+          .object({
+            base_zip: z.string().refine(isKnownZip, "Enter a valid US ZIP code").transform(normalizeZip),
+            radius_miles: z.number().int().min(1).max(MAX_SERVICE_RADIUS_MILES, `Radius can be at most ${MAX_SERVICE_RADIUS_MILES} miles`),
+          })
+          .strict(),
+      )
+      .max(10, "Add at most 10 service areas")
+      .optional(),
+    vendor_weekly_lead_cap: z.number().int().min(1, "Cap must be at least 1 lead").max(500).nullable().optional(),
+    vendor_min_budget: z.number().min(0).max(100_000_000).nullable().optional(),
+    vendor_excluded_categories: z.array(z.string().uuid("Unknown service category")).optional(),
+    vendor_leads_paused_until: z
+      .union([z.literal(""), z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Enter a date as YYYY-MM-DD")])
+      .nullable()
+      .optional()
+      .transform((value) => value || null),
+    portfolio_url: optionalUrl,
+    linkedin_url: optionalUrl,
+  })
+  .partial()
+  .strict();
+
+const adminProfileSchema = z.object(commonProfileFields).partial().strict();
+
+export const profileUpdateSchemas: Record<UserRole, z.ZodTypeAny> = {
+  admin: adminProfileSchema,
+  business: businessProfileSchema,
+  vendor: vendorProfileSchema,
+};
+
+export const profileAccessSchema = z
+  .object({
+    is_approved: z.boolean().optional(),
+    role: z.enum(["admin", "business", "vendor"]).optional(),
+    reason: z.string().trim().max(500).optional(),
+  })
+  .strict()
+  .refine((value) => value.is_approved !== undefined || value.role !== undefined, {
+    message: "Provide is_approved or role",
+  });
+
+export type FieldErrors = Record<string, string>;
+
+export type ParseResult<T> =
+  | { data: T; fieldErrors: null }
+  | { data: null; fieldErrors: FieldErrors };
+
+// Flatten zod issues into one message per field. Unknown keys are reported on the key itself
+// so the client can tell "you may not edit is_approved" apart from a bad value.
+export function toFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+
+  for (const issue of error.issues) {
+    if (issue.code === z.ZodIssueCode.unrecognized_keys) {
+      for (const key of issue.keys) {
+        fieldErrors[key] = (ADMIN_ONLY_PROFILE_FIELDS as readonly string[]).includes(key)
+          ? "Only an administrator can change this field"
+          : "This field cannot be edited";
+      }
+      continue;
+    }
+
+    const field = issue.path.length > 0 ? String(issue.path[0]) : "_form";
+    if (!fieldErrors[field]) {
+      fieldErrors[field] = issue.message;
+    }
+  }
+
+  return fieldErrors;
+}
+
+export function parseProfileUpdate(role: UserRole, body: unknown): ParseResult<Record<string, unknown>> {
+  const result = profileUpdateSchemas[role].safeParse(body ?? {});
+  return result.success
+    ? { data: result.data, fieldErrors: null }
+    : { data: null, fieldErrors: toFieldErrors(result.error) };
+}
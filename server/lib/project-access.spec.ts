@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from "vitest";
+
+// A tiny in-memory stand-in for the service-role client: equality filters over fixed rows
+const { tables, fakeSupabase } = vi.hoisted(() => {
+  const tables: Record<string, Record<string, any>[]> = {};
+
+  function query(table: string) {
+    const filters: Array<(row: Record<string, any>) => boolean> = [];
+    const rows = () => (tables[table] || []).filter((row) => filters.every((filter) => filter(row)));
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      neq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] !== value);
+        return builder;
+      },
+      maybeSingle: async () => ({ data: rows()[0] || null, error: null }),
+      single: async () => ({ data: rows()[0] || null, error: null }),
+      then: (resolve: (result: any) => unknown) => resolve({ data: rows(), error: null }),
+    };
+    return builder;
+  }
+
+  return { tables, fakeSupabase: { from: query } };
+});
+
+vi.mock("./supabase", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./supabase")>()),
+  supabaseAdmin: fakeSupabase,
+}));
+
+import { resolveThreadAccess } from "./project-access";
+import { handleGetMessages, handleVendorSubmitBid } from "../routes/projects";
+import { handleGetProjectQuestions } from "../routes/project-questions";
+import { handleConfirmBid } from "../routes/project-amendments";
+
+const PROJECT_ID = "project-1";
+const BUSINESS_ID = "business-1";
+const OTHER_PROJECT_ID = "6f1c2f7e-8d1a-4c3b-9a55-2f0e4b7d9c10";
+const ROUTED_BID_ID = "0b7d3a52-1e4f-4c6a-8f2d-9e5b1c3a7d64";
+
+Object.assign(tables, {
+  projects: [
+    { id: PROJECT_ID, business_id: BUSINESS_ID, selected_vendor_id: null, status: "open" },
+    { id: OTHER_PROJECT_ID, business_id: BUSINESS_ID, selected_vendor_id: null, status: "open" },
+  ],
+  project_routing: [
+    { project_id: PROJECT_ID, vendor_id: "routed", status: "sent" },
+    { project_id: PROJECT_ID, vendor_id: "revoked", status: "revoked" },
+    { project_id: PROJECT_ID, vendor_id: "excluded", status: "sent" },
+  ],
+  routing_exclusions: [{ business_id: BUSINESS_ID, vendor_id: "excluded" }],
+  // Earlier activity must not keep a blocked vendor in
+  vendor_responses: [
+    { id: "bid-1", project_id: PROJECT_ID, vendor_id: "revoked" },
+    { id: ROUTED_BID_ID, project_id: PROJECT_ID, vendor_id: "routed" },
+  ],
+  project_messages: [{ id: "message-1", project_id: PROJECT_ID, vendor_id: "excluded" }],
+  project_questions: [],
+});
+
+const auth = (userId: string) => ({ userId, role: "vendor" }) as any;
+
+function call(
+  handler: (req: any, res: any, next: any) => unknown,
+  userId: string,
+  body: Record<string, unknown> = {},
+  params: Record<string, string> = {},
+) {
+  const res: any = {
+    statusCode: 200,
+    body: null,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  return Promise.resolve(handler({ params: { projectId: PROJECT_ID, ...params }, query: {}, body, auth: auth(userId) }, res, () => {})).then(
+    () => res,
+  );
+}
+
+describe("resolveThreadAccess", () => {
+  it("should let a routed vendor in", async () => {
+    const access = await resolveThreadAccess(PROJECT_ID, auth("routed"));
+    expect(access.allowed).toBe(true);
+  });
+
+  it("should shut out a revoked vendor even if they already bid", async () => {
+    const access = await resolveThreadAccess(PROJECT_ID, auth("revoked"));
+    expect(access).toMatchObject({ allowed: false, blocked: "This lead is no longer available to you" });
+  });
+
+  it("should shut out an excluded vendor even if they already messaged", async () => {
+    const access = await resolveThreadAccess(PROJECT_ID, auth("excluded"));
+    expect(access.allowed).toBe(false);
+    expect(access.blocked).toMatch(/excluded/);
+  });
+});
+
+describe("blocked vendors on project routes", () => {
+  it.each(["revoked", "excluded"])("should answer 403 to a %s vendor", async (vendorId) => {
+    const messages = await call(handleGetMessages, vendorId);
+    const questions = await call(handleGetProjectQuestions, vendorId);
+
+    expect(messages.statusCode).toBe(403);
+    expect(questions.statusCode).toBe(403);
+    expect(questions.body).toMatchObject({ success: false, code: "forbidden" });
+  });
+
+  it("should still serve a routed vendor", async () => {
+    const questions = await call(handleGetProjectQuestions, "routed");
+    expect(questions.statusCode).toBe(200);
+    expect(questions.body).toEqual({ success: true, data: [] });
+  });
+});
+
+describe("bid revisions", () => {
+  it("should not find a bid through a different project than the one it was placed on", async () => {
+    const res = await call(handleVendorSubmitBid, "routed", {
+      projectId: OTHER_PROJECT_ID,
+      bidId: ROUTED_BID_ID,
+      proposedTimeline: "30 days",
+      bidAmount: 1000,
+      changeNote: "Lower price",
+    });
+
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("should not let a revoked vendor confirm their bid", async () => {
+    const res = await call(handleConfirmBid, "revoked", {}, { bidId: "bid-1" });
+
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toMatchObject({ success: false, error: "This lead is no longer available to you" });
+  });
+});
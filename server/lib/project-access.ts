@@ -0,0 +1,80 @@
+import { AuthContext } from "./auth";
+import { supabaseAdmin } from "./supabase";
+import { getVendorLeadBlock } from "./routing-overrides";
+
+export interface ThreadAccess {
+  // null when the project does not exist
+  project: { id: string; business_id: string; selected_vendor_id: string | null; status: string } | null;
+  allowed: boolean;
+  isOwner: boolean;
+  isAdmin: boolean;
+  // The vendor whose business–vendor thread is being accessed. Owners and admins pick one
+  // (admins may leave it empty to see every thread); vendors always get their own.
+  vendorId: string | null;
+  // Why a vendor is shut out even though they worked the lead (revoked or excluded)
+  blocked?: string | null;
+}
+
+// Who may read or write a project's message threads and files: the owner, admins, and vendors
+// who were routed the lead, bid on it, were selected, or are already in a conversation on it.
+// A vendor whose lead an admin revoked, or who is excluded from the business, is shut out
+// whatever they did on the project before.
+export async function resolveThreadAccess(
+  projectId: string,
+  auth: AuthContext,
+  requestedVendorId?: string | null,
+): Promise<ThreadAccess> {
+  const { data: project } = await supabaseAdmin
+    .from("projects")
+    .select("id, business_id, selected_vendor_id, status")
+    .eq("id", projectId)
+    .maybeSingle();
+
+  const isOwner = !!project && project.business_id === auth.userId;
+  const isAdmin = auth.role === "admin";
+
+  if (!project) {
+    return { project: null, allowed: false, isOwner, isAdmin, vendorId: null };
+  }
+
+  if (isOwner || isAdmin) {
+    return { project, allowed: true, isOwner, isAdmin, vendorId: requestedVendorId || null };
+  }
+
+  const blocked = await getVendorLeadBlock(project, auth.userId);
+  if (blocked) {
+    return { project, allowed: false, isOwner, isAdmin, vendorId: auth.userId, blocked };
+  }
+
+  const [{ data: routing }, { data: response }, { data: hasMessages }] = await Promise.all([
+    supabaseAdmin
+      .from("project_routing")
+      .select("id")
+      .eq("project_id", projectId)
+      .eq("vendor_id", auth.userId)
+      .maybeSingle(),
+    supabaseAdmin
+      .from("vendor_responses")
+      .select("id")
+      .eq("project_id", projectId)
+      .eq("vendor_id", auth.userId)
+      .maybeSingle(),
+    supabaseAdmin
+      .from("project_messages")
+      .select("id")
+      .eq("project_id", projectId)
+      .eq("vendor_id", auth.userId)
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const isSelectedVendor = project.selected_vendor_id === auth.userId;
+
+  return {
+    project,
+    allowed: !!(routing || response || isSelectedVendor || hasMessages),
+    isOwner,
+    isAdmin,
+    vendorId: auth.userId,
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { amendProjectSchema, projectAmendmentChanges, projectAmendmentProblem } from "./project-amendments";
+
+const project = {
+  title: "Managed IT for 40 seats",
+  description: "Helpdesk and patching",
+  special_requirements: null,
+  budget_min: 2000,
+  budget_max: 4000,
+  timeline_start: "2026-04-01",
+  timeline_end: "2026-05-01T00:00:00+00:00",
+};
+
+describe("projectAmendmentChanges", () => {
+  it("should list only the fields that changed", () => {
+    const changes = projectAmendmentChanges(project, {
+      title: "Managed IT for 40 seats",
+      budget_max: 5000,
+      timeline_end: "2026-05-01",
+    });
+
+    expect(changes).toEqual([{ field: "budget_max", label: "Maximum budget", before: 4000, after: 5000 }]);
+  });
+
+  it("should ignore fields left out of the amendment", () => {
+    expect(projectAmendmentChanges(project, {})).toEqual([]);
+  });
+
+  it("should treat clearing a field and blank text as changes only when the value differs", () => {
+    expect(projectAmendmentChanges(project, { special_requirements: "" })).toEqual([]);
+    expect(projectAmendmentChanges(project, { budget_min: null })).toEqual([
+      { field: "budget_min", label: "Minimum budget", before: 2000, after: null },
+    ]);
+  });
+
+  it("should compare budgets stored as strings by value", () => {
+    expect(projectAmendmentChanges({ ...project, budget_min: "2000.00" }, { budget_min: 2000 })).toEqual([]);
+  });
+});
+
+describe("projectAmendmentProblem", () => {
+  it("should reject a maximum budget below the minimum, including the current minimum", () => {
+    expect(projectAmendmentProblem(project, { budget_max: 1500 })).toEqual({
+      budget_max: "The maximum budget must be at least the minimum",
+    });
+  });
+
+  it("should reject an end date before the start date", () => {
+    expect(projectAmendmentProblem(project, { timeline_start: "2026-06-01" })).toEqual({
+      timeline_end: "The end date must be on or after the start date",
+    });
+  });
+
+  it("should accept a consistent amendment", () => {
+    expect(projectAmendmentProblem(project, { budget_min: 3000, timeline_end: "2026-06-01" })).toBeNull();
+  });
+});
+
+describe("amendProjectSchema", () => {
+  it("should require a note explaining the amendment", () => {
+    expect(amendProjectSchema.safeParse({ budget_max: 5000 }).success).toBe(false);
+    expect(amendProjectSchema.safeParse({ budget_max: 5000, note: "Budget approved" }).success).toBe(true);
+  });
+
+  it("should reject negative budgets and invalid dates", () => {
+    expect(amendProjectSchema.safeParse({ note: "x", budget_min: -1 }).success).toBe(false);
+    expect(amendProjectSchema.safeParse({ note: "x", timeline_start: "next week" }).success).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import { z } from "zod";
+
+// Amending a published project. Each amendment bumps projects.revision, keeps what changed in
+// project_amendments and marks bids made against an earlier revision as needing confirmation
+// until the vendor re-confirms or revises them.
+
+export type AmendableField =
+  | "title"
+  | "description"
+  | "special_requirements"
+  | "budget_min"
+  | "budget_max"
+  | "timeline_start"
+  | "timeline_end";
+
+export const AMENDABLE_FIELDS: Record<AmendableField, string> = {
+  title: "Title",
+  description: "Scope",
+  special_requirements: "Special requirements",
+  budget_min: "Minimum budget",
+  budget_max: "Maximum budget",
+  timeline_start: "Start date",
+  timeline_end: "End date",
+};
+
+export interface ProjectChange {
+  field: AmendableField;
+  label: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export type AmendableProject = Partial<Record<AmendableField, string | number | null>>;
+
+const budget = z.number({ invalid_type_error: "Enter an amount" }).nonnegative("Budgets cannot be negative").nullable().optional();
+const date = z.string().date("Pick a valid date").nullable().optional();
+
+export const amendProjectSchema = z
+  .object({
+    title: z.string().trim().min(3, "Give the project a title").max(200, "Keep the title under 200 characters").optional(),
+    description: z.string().trim().max(10000, "Keep the scope under 10,000 characters").optional(),
+    special_requirements: z.string().trim().max(5000, "Keep special requirements under 5,000 characters").optional(),
+    budget_min: budget,
+    budget_max: budget,
+    timeline_start: date,
+    timeline_end: date,
+    // Shown to vendors with the amendment
+    note: z.string().trim().min(1, "Tell vendors what changed and why").max(1000, "Keep the note under 1,000 characters"),
+  })
+  .strip();
+
+export type ProjectAmendment = Omit<z.infer<typeof amendProjectSchema>, "note">;
+
+// Dates come back from the database as "2026-03-01" or a timestamp; budgets as numbers or strings
+function normalize(field: AmendableField, value: unknown): string | number | null {
+  if (value === null || value === undefined || value === "") return null;
+  if (field === "budget_min" || field === "budget_max") return Number(value);
+  if (field === "timeline_start" || field === "timeline_end") return String(value).slice(0, 10);
+  return String(value).trim();
+}
+
+// The fields an amendment actually changes. Fields left out of the amendment are unchanged.
+export function projectAmendmentChanges(project: AmendableProject, amendment: ProjectAmendment): ProjectChange[] {
+  const changes: ProjectChange[] = [];
+
+  for (const field of Object.keys(AMENDABLE_FIELDS) as AmendableField[]) {
+    if (!(field in amendment) || amendment[field] === undefined) continue;
+    const before = normalize(field, project[field]);
+    const after = normalize(field, amendment[field]);
+    if (before !== after) {
+      changes.push({ field, label: AMENDABLE_FIELDS[field], before, after });
+    }
+  }
+
+  return changes;
+}
+
+// Why the amended project would not make sense, keyed by field, or null
+export function projectAmendmentProblem(project: AmendableProject, amendment: ProjectAmendment): Record<string, string> | null {
+  const merged = { ...project, ...amendment };
+  const min = normalize("budget_min", merged.budget_min);
+  const max = normalize("budget_max", merged.budget_max);
+  const start = normalize("timeline_start", merged.timeline_start);
+  const end = normalize("timeline_end", merged.timeline_end);
+
+  if (min !== null && max !== null && min > max) {
+    return { budget_max: "The maximum budget must be at least the minimum" };
+  }
+  if (start !== null && end !== null && start > end) {
+    return { timeline_end: "The end date must be on or after the start date" };
+  }
+  return null;
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { buildProjectFilePath, canAccessThread, parseProjectFilePath, SHARED_THREAD } from "./project-files";
+
+const PROJECT_ID = "0b6f1f4e-2c8a-4f0e-9d3b-5a7c9e1b3d5f";
+const VENDOR_ID = "6f1c2a4e-8d1b-4b7a-9c3e-2f5d7a9b1c0e";
+const OTHER_VENDOR_ID = "9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d";
+
+describe("project file paths", () => {
+  it("should place files in the project's thread folder", () => {
+    const path = buildProjectFilePath(PROJECT_ID, VENDOR_ID, "site plan.pdf", "abc");
+    expect(path).toBe(`projects/${PROJECT_ID}/${VENDOR_ID}/abc-site_plan.pdf`);
+    expect(parseProjectFilePath(path)).toEqual({
+      projectId: PROJECT_ID,
+      thread: VENDOR_ID,
+      fileName: "abc-site_plan.pdf",
+    });
+  });
+
+  it("should use the shared folder when no vendor thread is given", () => {
+    const path = buildProjectFilePath(PROJECT_ID, null, "rfp.docx", "abc");
+    expect(parseProjectFilePath(path)?.thread).toBe(SHARED_THREAD);
+  });
+
+  it("should strip path separators and traversal from file names", () => {
+    const path = buildProjectFilePath(PROJECT_ID, VENDOR_ID, "../../etc/passwd", "abc");
+    expect(parseProjectFilePath(path)).not.toBeNull();
+    expect(path.split("/")).toHaveLength(4);
+  });
+
+  it("should reject paths outside the project layout", () => {
+    expect(parseProjectFilePath(`messages/123-photo.png`)).toBeNull();
+    expect(parseProjectFilePath(`projects/${PROJECT_ID}/${VENDOR_ID}/../other/file.png`)).toBeNull();
+    expect(parseProjectFilePath(`projects/${PROJECT_ID}/someone/file.png`)).toBeNull();
+    expect(parseProjectFilePath(`projects/${PROJECT_ID}/${VENDOR_ID}/..`)).toBeNull();
+    expect(parseProjectFilePath(undefined)).toBeNull();
+  });
+});
+
+describe("canAccessThread", () => {
+  const vendor = { isOwner: false, isAdmin: false, vendorId: VENDOR_ID };
+
+  it("should let vendors open their own thread and shared files only", () => {
+    expect(canAccessThread(vendor, VENDOR_ID)).toBe(true);
+    expect(canAccessThread(vendor, SHARED_THREAD)).toBe(true);
+    expect(canAccessThread(vendor, OTHER_VENDOR_ID)).toBe(false);
+  });
+
+  it("should let owners and admins open every thread", () => {
+    expect(canAccessThread({ isOwner: true, isAdmin: false, vendorId: null }, OTHER_VENDOR_ID)).toBe(true);
+    expect(canAccessThread({ isOwner: false, isAdmin: true, vendorId: null }, OTHER_VENDOR_ID)).toBe(true);
+  });
+});
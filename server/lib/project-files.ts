@@ -0,0 +1,79 @@
+import crypto from "crypto";
+import { supabaseAdmin } from "./supabase";
+
+// Private bucket from migrations/add_private_project_files.sql. Objects are only reachable
+// through short-lived signed URLs issued by the API after a project/thread access check.
+export const PROJECT_FILES_BUCKET = "project-files";
+export const SIGNED_DOWNLOAD_TTL_SECONDS = 10 * 60;
+
+export const PROJECT_FILE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+// Files visible to everyone with access to the project (rather than one vendor's thread)
+export const SHARED_THREAD = "shared";
+
+export interface ProjectFilePath {
+  projectId: string;
+  // A vendor's user ID, or SHARED_THREAD
+  thread: string;
+  fileName: string;
+}
+
+const sanitizeFileName = (name: string) =>
+  name.replace(/[^a-zA-Z0-9._-]/g, "_").replace(/^\.+/, "").slice(-100) || "file";
+
+// projects/<projectId>/<vendorId | shared>/<id>-<name>
+export function buildProjectFilePath(
+  projectId: string,
+  thread: string | null,
+  fileName: string,
+  id: string = crypto.randomUUID(),
+): string {
+  return `projects/${projectId}/${thread || SHARED_THREAD}/${id}-${sanitizeFileName(fileName)}`;
+}
+
+export function parseProjectFilePath(path: string | undefined | null): ProjectFilePath | null {
+  const match = path?.match(/^projects\/([0-9a-fA-F-]{36})\/([0-9a-fA-F-]{36}|shared)\/([^/]+)$/);
+  if (!match || match[3].startsWith(".")) return null;
+  return { projectId: match[1], thread: match[2], fileName: match[3] };
+}
+
+// Vendors only see their own thread plus shared files; owners and admins see every thread
+export function canAccessThread(
+  access: { isOwner: boolean; isAdmin: boolean; vendorId: string | null },
+  thread: string,
+): boolean {
+  if (access.isOwner || access.isAdmin) return true;
+  return thread === SHARED_THREAD || thread === access.vendorId;
+}
+
+export async function createSignedDownloadUrls(paths: string[]): Promise<Record<string, string>> {
+  const unique = [...new Set(paths.filter(Boolean))];
+  if (unique.length === 0) return {};
+
+  const { data, error } = await supabaseAdmin.storage
+    .from(PROJECT_FILES_BUCKET)
+    .createSignedUrls(unique, SIGNED_DOWNLOAD_TTL_SECONDS);
+
+  if (error) {
+    console.error("[FILES] Failed to sign download URLs:", error.message);
+    return {};
+  }
+
+  const urls: Record<string, string> = {};
+  for (const entry of data || []) {
+    if (entry.path && entry.signedUrl) urls[entry.path] = entry.signedUrl;
+  }
+  return urls;
+}
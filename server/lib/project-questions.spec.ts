@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { ProjectQuestion, askQuestionSchema, answerQuestionSchema, visibleQuestions } from "./project-questions";
+
+function question(id: string, vendorId: string, overrides: Partial<ProjectQuestion> = {}): ProjectQuestion {
+  return {
+    id,
+    project_id: "p1",
+    vendor_id: vendorId,
+    question: `Question ${id}?`,
+    is_private: false,
+    answer: null,
+    answered_at: null,
+    created_at: `2026-03-0${id.slice(1)}T00:00:00Z`,
+    ...overrides,
+  };
+}
+
+const answered = { answer: "Yes", answered_at: "2026-03-09T00:00:00Z" };
+
+const questions = [
+  question("q1", "vendor-a", answered),
+  question("q2", "vendor-a"),
+  question("q3", "vendor-b", { ...answered, is_private: true }),
+  question("q4", "vendor-b"),
+];
+
+describe("visibleQuestions", () => {
+  it("should show vendors their own questions and answered public ones", () => {
+    const visible = visibleQuestions(questions, { userId: "vendor-a", isOwner: false, isAdmin: false });
+
+    expect(visible.map((q) => q.id)).toEqual(["q1", "q2"]);
+    expect(visibleQuestions(questions, { userId: "vendor-c", isOwner: false, isAdmin: false }).map((q) => q.id)).toEqual(["q1"]);
+  });
+
+  it("should show the business every question without saying who asked", () => {
+    const visible = visibleQuestions(questions, { userId: "business", isOwner: true, isAdmin: false });
+
+    expect(visible).toHaveLength(4);
+    expect(visible.every((q) => !("vendor_id" in q) && !q.asked_by_me)).toBe(true);
+  });
+
+  it("should tell admins who asked", () => {
+    const [first] = visibleQuestions(questions, { userId: "admin", isOwner: false, isAdmin: true });
+    expect(first.vendor_id).toBe("vendor-a");
+  });
+
+  it("should list questions oldest first", () => {
+    const visible = visibleQuestions([questions[3], questions[0]], { userId: "business", isOwner: true, isAdmin: false });
+    expect(visible.map((q) => q.id)).toEqual(["q1", "q4"]);
+  });
+});
+
+describe("askQuestionSchema", () => {
+  it("should trim the question and default to public", () => {
+    const result = askQuestionSchema.safeParse({ question: "  Is the data center on-site?  " });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ question: "Is the data center on-site?", isPrivate: false });
+    }
+  });
+
+  it("should reject contact details that would reveal the asker", () => {
+    const result = askQuestionSchema.safeParse({ question: "Can you email me at sales@acme-it.com about the scope?" });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toMatch(/anonymous/);
+    }
+  });
+
+  it("should reject very short questions", () => {
+    expect(askQuestionSchema.safeParse({ question: "Budget?" }).success).toBe(false);
+  });
+});
+
+describe("answerQuestionSchema", () => {
+  it("should require a non-blank answer", () => {
+    expect(answerQuestionSchema.safeParse({ answer: "   " }).success).toBe(false);
+    expect(answerQuestionSchema.safeParse({ answer: "About 40 seats", isPrivate: true }).success).toBe(true);
+  });
+});
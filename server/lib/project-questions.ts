@@ -0,0 +1,78 @@
+import { z } from "zod";
+import { detectContactInfo } from "./contact-moderation";
+
+// Project clarification Q&A. Vendors ask anonymously; the business answers once and the answer
+// is shared with every routed vendor unless the question is private.
+
+export interface ProjectQuestion {
+  id: string;
+  project_id: string;
+  vendor_id: string;
+  question: string;
+  is_private: boolean;
+  answer: string | null;
+  answered_at: string | null;
+  created_at: string;
+}
+
+// A question as one viewer sees it. Only admins learn who asked.
+export interface VisibleQuestion {
+  id: string;
+  question: string;
+  is_private: boolean;
+  answer: string | null;
+  answered_at: string | null;
+  created_at: string;
+  asked_by_me: boolean;
+  vendor_id?: string;
+}
+
+export interface QuestionViewer {
+  userId: string;
+  isOwner: boolean;
+  isAdmin: boolean;
+}
+
+const ANONYMITY_MESSAGE = "Questions are anonymous; leave out emails, phone numbers and links";
+
+export const askQuestionSchema = z
+  .object({
+    question: z
+      .string()
+      .trim()
+      .min(10, "Ask a complete question (at least 10 characters)")
+      .max(2000, "Keep questions under 2,000 characters")
+      .refine((text) => detectContactInfo(text).every((match) => match.type === "solicitation"), ANONYMITY_MESSAGE),
+    isPrivate: z.boolean().optional().default(false),
+  })
+  .strip();
+
+export const answerQuestionSchema = z
+  .object({
+    answer: z.string().trim().min(1, "Write an answer").max(4000, "Keep answers under 4,000 characters"),
+    // The business can make a question private when the answer reveals proprietary details;
+    // a question the vendor asked privately stays private
+    isPrivate: z.boolean().optional(),
+  })
+  .strip();
+
+// The questions a viewer may see, oldest first. The business and admins see every question;
+// vendors see their own plus answered public ones.
+export function visibleQuestions(questions: ProjectQuestion[], viewer: QuestionViewer): VisibleQuestion[] {
+  return questions
+    .filter((question) => {
+      if (viewer.isOwner || viewer.isAdmin || question.vendor_id === viewer.userId) return true;
+      return !question.is_private && !!question.answer;
+    })
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((question) => ({
+      id: question.id,
+      question: question.question,
+      is_private: question.is_private,
+      answer: question.answer,
+      answered_at: question.answered_at,
+      created_at: question.created_at,
+      asked_by_me: question.vendor_id === viewer.userId,
+      ...(viewer.isAdmin ? { vendor_id: question.vendor_id } : {}),
+    }));
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from "vitest";
+
+// Rejections are logged to activity_logs; keep that off the network
+vi.mock("./supabase", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./supabase")>()),
+  supabaseAdmin: { from: () => ({ insert: async () => ({ error: null }) }) },
+}));
+
+import { MemoryRateLimitStore, parsePolicy, rateLimit, resolvePolicies, takeToken } from "./rate-limit";
+
+const POLICY = { capacity: 3, periodSeconds: 60 };
+
+describe("takeToken", () => {
+  it("should start full and allow a burst up to capacity", () => {
+    let state;
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      const taken = takeToken(state, POLICY, 0);
+      state = taken.state;
+      results.push(taken.result.allowed);
+    }
+
+    expect(results).toEqual([true, true, true, false]);
+  });
+
+  it("should refill over time and report how long to wait", () => {
+    const empty = { tokens: 0, updatedAt: 0 };
+
+    const rejected = takeToken(empty, POLICY, 0).result;
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfterSeconds).toBe(20);
+
+    expect(takeToken(empty, POLICY, 20_000).result.allowed).toBe(true);
+  });
+
+  it("should never refill past capacity", () => {
+    const { state } = takeToken({ tokens: 2, updatedAt: 0 }, POLICY, 3_600_000);
+    expect(state.tokens).toBe(2);
+  });
+});
+
+describe("MemoryRateLimitStore", () => {
+  it("should keep separate buckets per key", async () => {
+    const store = new MemoryRateLimitStore();
+    const policy = { capacity: 1, periodSeconds: 60 };
+
+    expect((await store.take("a", policy, 0)).allowed).toBe(true);
+    expect((await store.take("a", policy, 0)).allowed).toBe(false);
+    expect((await store.take("b", policy, 0)).allowed).toBe(true);
+  });
+
+  it("should drop buckets once they have refilled", async () => {
+    const store = new MemoryRateLimitStore();
+    const policy = { capacity: 2, periodSeconds: 60 };
+
+    await store.take("a", policy, 0);
+    await store.take("b", policy, 0);
+    await store.take("b", policy, 0);
+    expect(store.size).toBe(2);
+
+    // Sweeps run at most once a minute: "a" refilled at 30s and "b" at 60s, "c" not until 75s
+    await store.take("c", policy, 45_000);
+    expect(store.size).toBe(3);
+    await store.take("d", policy, 60_000);
+    expect(store.size).toBe(2);
+  });
+});
+
+describe("rate limit configuration", () => {
+  it("should parse count/seconds policies", () => {
+    expect(parsePolicy("20/60")).toEqual({ capacity: 20, periodSeconds: 60 });
+    expect(parsePolicy("20 per minute")).toBeNull();
+    expect(parsePolicy("0/60")).toBeNull();
+  });
+
+  it("should let environment variables override or disable defaults", () => {
+    const policies = resolvePolicies("ai_intake", {
+      RATE_LIMIT_AI_INTAKE_IP: "5/10",
+      RATE_LIMIT_AI_INTAKE_ROUTE: "off",
+    });
+
+    expect(policies.ip).toEqual({ capacity: 5, periodSeconds: 10 });
+    expect(policies.user).toEqual({ capacity: 20, periodSeconds: 60 });
+    expect(policies.route).toBeUndefined();
+  });
+});
+
+describe("mfa rate limit", () => {
+  function fakeRes() {
+    return {
+      statusCode: 200,
+      headers: {} as Record<string, string>,
+      setHeader(name: string, value: string) {
+        this.headers[name] = value;
+      },
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json() {
+        return this;
+      },
+    };
+  }
+
+  it("should reject the attempt after the user's allowance of bad codes with 429", async () => {
+    const policies = resolvePolicies("mfa", {});
+    const limiter = rateLimit("mfa", { store: new MemoryRateLimitStore(), policies });
+    const req: any = { auth: { userId: "user-1" }, ip: "203.0.113.7", originalUrl: "/api/mfa/verify", method: "POST" };
+
+    const statuses: number[] = [];
+    for (let attempt = 0; attempt <= policies.user!.capacity; attempt++) {
+      const res = fakeRes();
+      // Stands in for the MFA handler turning down a wrong code
+      await limiter(req, res as any, () => res.status(400).json());
+      statuses.push(res.statusCode);
+    }
+
+    expect(policies.user).toEqual({ capacity: 5, periodSeconds: 300 });
+    expect(statuses).toEqual([400, 400, 400, 400, 400, 429]);
+  });
+
+  it("should turn MFA attempts away when the store fails, but let other routes through", async () => {
+    const store = { take: async () => Promise.reject(new Error("connection refused")) };
+    const policies = resolvePolicies("mfa", {});
+    const req: any = { auth: { userId: "user-1" }, ip: "203.0.113.7", originalUrl: "/api/mfa/verify", method: "POST" };
+
+    const closed = fakeRes();
+    const closedNext = vi.fn();
+    await rateLimit("mfa", { store, policies, failClosed: true })(req, closed as any, closedNext);
+
+    const open = fakeRes();
+    const openNext = vi.fn();
+    await rateLimit("messages", { store, policies })(req, open as any, openNext);
+
+    expect(closed.statusCode).toBe(503);
+    expect(closedNext).not.toHaveBeenCalled();
+    expect(openNext).toHaveBeenCalled();
+  });
+});
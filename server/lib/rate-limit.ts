@@ -0,0 +1,255 @@
+import { Request, RequestHandler } from "express";
+import pg from "pg";
+import { supabaseAdmin } from "./supabase";
+import { formatDuration } from "./usage";
+
+// Token bucket: holds up to `capacity` tokens and refills `capacity` tokens every `periodSeconds`.
+// Each request takes one token, so bursts up to `capacity` are allowed and the sustained rate
+// is capacity / periodSeconds.
+export interface TokenBucketPolicy {
+  capacity: number;
+  periodSeconds: number;
+}
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+// Where bucket state lives. The memory store is per-process (dev, tests, single instance);
+// the Postgres store is shared by every instance.
+export interface RateLimitStore {
+  take(key: string, policy: TokenBucketPolicy, now?: number): Promise<TakeResult>;
+}
+
+export type RateLimitScope = "user" | "ip" | "route";
+
+// Pure bucket math shared by both stores
+export function takeToken(
+  state: BucketState | undefined,
+  policy: TokenBucketPolicy,
+  now: number,
+): { state: BucketState; result: TakeResult } {
+  const refillPerMs = policy.capacity / (policy.periodSeconds * 1000);
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const available = state ? Math.min(policy.capacity, state.tokens + elapsed * refillPerMs) : policy.capacity;
+
+  if (available >= 1) {
+    return {
+      state: { tokens: available - 1, updatedAt: now },
+      result: { allowed: true, remaining: Math.floor(available - 1), retryAfterSeconds: 0 },
+    };
+  }
+
+  return {
+    state: { tokens: available, updatedAt: now },
+    result: {
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: Math.max(1, Math.ceil((1 - available) / refillPerMs / 1000)),
+    },
+  };
+}
+
+// How often the memory store drops buckets that have refilled
+const SWEEP_INTERVAL_MS = 60_000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  // `fullAt` is when the bucket will have refilled; from then on it is the same as no bucket
+  private buckets = new Map<string, BucketState & { fullAt: number }>();
+  private nextSweepAt = 0;
+
+  async take(key: string, policy: TokenBucketPolicy, now: number = Date.now()): Promise<TakeResult> {
+    this.sweep(now);
+    const { state, result } = takeToken(this.buckets.get(key), policy, now);
+    const refillPerMs = policy.capacity / (policy.periodSeconds * 1000);
+    this.buckets.set(key, { ...state, fullAt: now + (policy.capacity - state.tokens) / refillPerMs });
+    return result;
+  }
+
+  get size() {
+    return this.buckets.size;
+  }
+
+  reset() {
+    this.buckets.clear();
+    this.nextSweepAt = 0;
+  }
+
+  // One-off keys (every IP that ever called) would otherwise pile up for the life of the process
+  private sweep(now: number) {
+    if (now < this.nextSweepAt) return;
+    this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    }
+  }
+}
+
+// Uses take_rate_limit_token() from migrations/add_rate_limit_buckets.sql, which locks the row
+// so concurrent instances can't both spend the last token.
+export class PostgresRateLimitStore implements RateLimitStore {
+  private pool: pg.Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString, max: 5, connectionTimeoutMillis: 5000 });
+  }
+
+  async take(key: string, policy: TokenBucketPolicy): Promise<TakeResult> {
+    const { rows } = await this.pool.query(
+      "SELECT allowed, remaining, retry_after_seconds FROM take_rate_limit_token($1, $2, $3)",
+      [key, policy.capacity, policy.periodSeconds],
+    );
+    const row = rows[0];
+    return {
+      allowed: row.allowed,
+      remaining: Math.floor(Number(row.remaining)),
+      retryAfterSeconds: Number(row.retry_after_seconds),
+    };
+  }
+}
+
+// "20/60" = 20 requests per 60 seconds
+export function parsePolicy(value: string | undefined): TokenBucketPolicy | null {
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) return null;
+
+  const capacity = Number(match[1]);
+  const periodSeconds = Number(match[2]);
+  return capacity > 0 && periodSeconds > 0 ? { capacity, periodSeconds } : null;
+}
+
+// Defaults per route; override any of them with RATE_LIMIT_<ROUTE>_<SCOPE>, e.g. RATE_LIMIT_AI_INTAKE_IP=10/60
+export const DEFAULT_RATE_LIMITS: Record<string, Partial<Record<RateLimitScope, string>>> = {
+  ai_intake: { user: "20/60", ip: "30/60", route: "300/60" },
+  messages: { user: "30/60", ip: "60/60" },
+  // Every attempt at a 6-digit TOTP or recovery code counts, so the second factor can't be
+  // brute-forced with a stolen password
+  mfa: { user: "5/300", ip: "20/300" },
+};
+
+export function resolvePolicies(
+  route: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Partial<Record<RateLimitScope, TokenBucketPolicy>> {
+  const policies: Partial<Record<RateLimitScope, TokenBucketPolicy>> = {};
+  const defaults = DEFAULT_RATE_LIMITS[route] || {};
+
+  for (const scope of ["user", "ip", "route"] as RateLimitScope[]) {
+    const override = env[`RATE_LIMIT_${route.toUpperCase()}_${scope.toUpperCase()}`];
+    if (override === "off") continue;
+
+    const policy = parsePolicy(override) || parsePolicy(defaults[scope]);
+    if (policy) policies[scope] = policy;
+  }
+
+  return policies;
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE=postgres (with DATABASE_URL) shares buckets across instances
+export function getRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    const usePostgres = process.env.RATE_LIMIT_STORE === "postgres" && !!process.env.DATABASE_URL;
+    defaultStore = usePostgres
+      ? new PostgresRateLimitStore(process.env.DATABASE_URL!)
+      : new MemoryRateLimitStore();
+    console.log(`[RATE LIMIT] Using ${usePostgres ? "Postgres" : "in-memory"} store`);
+    if (!usePostgres && process.env.NODE_ENV === "production") {
+      console.warn(
+        "[RATE LIMIT] Each server or Netlify function instance keeps its own in-memory buckets, so limits " +
+          "(including the MFA code guard) barely hold. Set RATE_LIMIT_STORE=postgres and DATABASE_URL.",
+      );
+    }
+  }
+  return defaultStore;
+}
+
+async function logRejection(req: Request, route: string, scope: RateLimitScope, retryAfterSeconds: number) {
+  const { error } = await supabaseAdmin.from("activity_logs").insert([
+    {
+      user_id: req.auth?.userId || null,
+      action: "rate_limited",
+      entity_type: "api_route",
+      description: `Rate limited on ${route} (${scope})`,
+      metadata: {
+        route,
+        scope,
+        path: req.originalUrl,
+        method: req.method,
+        ip: req.ip,
+        retry_after_seconds: retryAfterSeconds,
+      },
+    },
+  ]);
+
+  if (error) {
+    console.error("[RATE LIMIT] Failed to log rejection:", error.message);
+  }
+}
+
+// Middleware: apply the token-bucket policies configured for `route`. Buckets are checked per
+// signed-in user, per client IP and for the route as a whole; the first empty bucket wins.
+// `failClosed` turns requests away with a 503 when the store fails, for limits that guard
+// against brute force rather than load.
+export function rateLimit(
+  route: string,
+  options: {
+    store?: RateLimitStore;
+    policies?: Partial<Record<RateLimitScope, TokenBucketPolicy>>;
+    failClosed?: boolean;
+  } = {},
+): RequestHandler {
+  const policies = options.policies || resolvePolicies(route);
+
+  return async (req, res, next) => {
+    const store = options.store || getRateLimitStore();
+    const keys: Partial<Record<RateLimitScope, string>> = {
+      user: req.auth?.userId ? `${route}:user:${req.auth.userId}` : undefined,
+      ip: req.ip ? `${route}:ip:${req.ip}` : undefined,
+      route: `${route}:route`,
+    };
+
+    try {
+      for (const scope of ["user", "ip", "route"] as RateLimitScope[]) {
+        const policy = policies[scope];
+        const key = keys[scope];
+        if (!policy || !key) continue;
+
+        const result = await store.take(key, policy);
+        if (!result.allowed) {
+          logRejection(req, route, scope, result.retryAfterSeconds);
+          res.setHeader("Retry-After", String(result.retryAfterSeconds));
+          return res.status(429).json({
+            success: false,
+            error: `Too many requests. Try again in ${formatDuration(result.retryAfterSeconds)}.`,
+            code: "rate_limited",
+            retryAfterSeconds: result.retryAfterSeconds,
+          });
+        }
+      }
+
+      next();
+    } catch (error) {
+      if (options.failClosed) {
+        console.error(`[RATE LIMIT] ${route} check failed, rejecting request:`, error);
+        return res.status(503).json({
+          success: false,
+          error: "This is unavailable right now. Try again in a moment.",
+          code: "rate_limit_unavailable",
+        });
+      }
+
+      // A broken limiter store should not take the API down with it
+      console.error(`[RATE LIMIT] ${route} check failed, allowing request:`, error);
+      next();
+    }
+  };
+}
@@ -0,0 +1,24 @@
+import crypto from "crypto";
+import { RequestHandler } from "express";
+
+export const REQUEST_ID_HEADER = "x-request-id";
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// Accept an upstream ID (load balancer, client retry) only if it looks like one
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{8,128}$/;
+
+// Middleware: tag every request with an ID, echoed back in `x-request-id`, so log lines and
+// audit entries for the same call can be tied together
+export const assignRequestId: RequestHandler = (req, res, next) => {
+  const incoming = req.header(REQUEST_ID_HEADER);
+  req.requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, req.requestId);
+  next();
+};
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { manualRoutingSchema, revokeRoutingSchema, routingExclusionSchema } from "./routing-overrides";
+import { toFieldErrors } from "./profile-schemas";
+
+const PROJECT_ID = "0d7c2f3e-8b1a-4c6d-9e2f-1a2b3c4d5e6f";
+const VENDOR_ID = "3b0c8f7e-2d4a-4f1b-9e6c-5a7d8b9c0e1f";
+
+describe("routing override schemas", () => {
+  it("should require a reason for every override", () => {
+    const missing = manualRoutingSchema.safeParse({ projectId: PROJECT_ID, vendorId: VENDOR_ID, reason: "  " });
+    expect(missing.success).toBe(false);
+    if (!missing.success) {
+      expect(toFieldErrors(missing.error)).toEqual({ reason: "Give a reason for this change" });
+    }
+
+    expect(revokeRoutingSchema.safeParse({}).success).toBe(false);
+    expect(revokeRoutingSchema.safeParse({ reason: "Vendor asked to drop it" }).success).toBe(true);
+  });
+
+  it("should accept a business–vendor exclusion and reject unknown fields", () => {
+    const exclusion = { businessId: PROJECT_ID, vendorId: VENDOR_ID, reason: "Past dispute over payment" };
+    expect(routingExclusionSchema.safeParse(exclusion).success).toBe(true);
+    expect(routingExclusionSchema.safeParse({ ...exclusion, expiresAt: "2027-01-01" }).success).toBe(false);
+  });
+});
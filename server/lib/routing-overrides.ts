@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { isMissingTableError, supabaseAdmin } from "./supabase";
+
+// Admin overrides on automatic routing: routings added or revoked by hand, and exclusions that
+// keep a vendor away from a business's projects. Exclusions are checked by routeProject, by
+// admin force-routes, by vendors asking for a lead themselves, and whenever a vendor opens or
+// bids on a project.
+
+const reason = z.string().trim().min(3, "Give a reason for this change").max(1000);
+
+export const manualRoutingSchema = z
+  .object({
+    projectId: z.string().uuid("Unknown project"),
+    vendorId: z.string().uuid("Unknown vendor"),
+    reason,
+  })
+  .strict();
+
+export const revokeRoutingSchema = z.object({ reason }).strict();
+
+export const routingExclusionSchema = z
+  .object({
+    businessId: z.string().uuid("Unknown business"),
+    vendorId: z.string().uuid("Unknown vendor"),
+    reason,
+  })
+  .strict();
+
+export const REVOKED_STATUS = "revoked";
+
+export const EXCLUDED_MESSAGE = "This vendor is excluded from this business's projects";
+
+async function loadExclusions(column: "business_id" | "vendor_id", id: string, other: "business_id" | "vendor_id") {
+  const { data, error } = await supabaseAdmin.from("routing_exclusions").select(other).eq(column, id);
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      console.warn("[ROUTING] routing_exclusions table missing; run migrations/add_routing_overrides.sql");
+      return new Set<string>();
+    }
+    throw error;
+  }
+  return new Set<string>((data || []).map((row: any) => row[other]));
+}
+
+// Vendors excluded from the business's projects
+export async function loadExcludedVendorIds(businessId: string | null | undefined): Promise<Set<string>> {
+  return businessId ? loadExclusions("business_id", businessId, "vendor_id") : new Set();
+}
+
+// Businesses whose projects the vendor is excluded from
+export async function loadExcludedBusinessIds(vendorId: string): Promise<Set<string>> {
+  return loadExclusions("vendor_id", vendorId, "business_id");
+}
+
+// Why a vendor may not see or bid on a project: excluded from the business, or the lead was
+// revoked by an admin. Null when nothing stands in the way.
+export async function getVendorLeadBlock(
+  project: { id: string; business_id: string | null },
+  vendorId: string,
+): Promise<string | null> {
+  const [excluded, { data: routing }] = await Promise.all([
+    loadExcludedVendorIds(project.business_id),
+    supabaseAdmin
+      .from("project_routing")
+      .select("status")
+      .eq("project_id", project.id)
+      .eq("vendor_id", vendorId)
+      .maybeSingle(),
+  ]);
+
+  if (excluded.has(vendorId)) return EXCLUDED_MESSAGE;
+  if (routing?.status === REVOKED_STATUS) return "This lead is no longer available to you";
+  return null;
+}
@@ -0,0 +1,123 @@
+import { isMissingTableError, supabaseAdmin } from "./supabase";
+import { decideNextWave, getRoutingWaveConfig, WaveDecision } from "./routing-waves";
+import { getRoutingMode, routeProject } from "./routing-service";
+
+// Background job that checks routing waves whose window has passed and either closes them
+// (enough bids, project no longer open, out of waves) or sends the next wave
+
+const DEFAULT_INTERVAL_SECONDS = 300;
+const BATCH_SIZE = 50;
+
+const WAVE_STATUS: Record<Exclude<WaveDecision, "wait">, string> = {
+  satisfied: "satisfied",
+  expand: "expanded",
+  exhausted: "exhausted",
+  closed: "closed",
+};
+
+export interface WaveTickResult {
+  checked: number;
+  expanded: number;
+  closed: number;
+  failed: number;
+}
+
+export async function runRoutingWaveTick(now = new Date()): Promise<WaveTickResult> {
+  const result: WaveTickResult = { checked: 0, expanded: 0, closed: 0, failed: 0 };
+  if ((await getRoutingMode()) !== "waves") return result;
+
+  const waveConfig = await getRoutingWaveConfig();
+  const { data: dueWaves, error } = await supabaseAdmin
+    .from("routing_waves")
+    .select("id, project_id, wave_number, window_ends_at, projects(status)")
+    .eq("status", "active")
+    .lte("window_ends_at", now.toISOString())
+    .order("window_ends_at", { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    if (isMissingTableError(error)) return result;
+    throw error;
+  }
+
+  for (const wave of dueWaves || []) {
+    result.checked++;
+
+    const { count: bidCount } = await supabaseAdmin
+      .from("vendor_responses")
+      .select("id", { count: "exact", head: true })
+      .eq("project_id", wave.project_id)
+      .neq("status", "withdrawn");
+
+    const project = (wave as any).projects || { status: "unknown" };
+    const decision = decideNextWave(wave, project, bidCount || 0, waveConfig, now);
+    if (decision === "wait") continue;
+
+    // Claim the wave so two servers never expand the same project twice
+    const { data: claimed } = await supabaseAdmin
+      .from("routing_waves")
+      .update({ status: WAVE_STATUS[decision], closed_at: now.toISOString(), bids_at_close: bidCount || 0 })
+      .eq("id", wave.id)
+      .eq("status", "active")
+      .select("id");
+
+    if (!claimed || claimed.length === 0) continue;
+
+    if (decision === "expand") {
+      try {
+        await routeProject(wave.project_id, { trigger: "wave" });
+        result.expanded++;
+      } catch (routingError) {
+        console.error(`[ROUTING] Failed to send wave ${wave.wave_number + 1} for ${wave.project_id}:`, routingError);
+        // Put the wave back so the next tick retries
+        await supabaseAdmin
+          .from("routing_waves")
+          .update({ status: "active", closed_at: null, bids_at_close: null })
+          .eq("id", wave.id);
+        result.failed++;
+      }
+      continue;
+    }
+
+    await supabaseAdmin.from("project_activity").insert({
+      project_id: wave.project_id,
+      action: "routing_waves_completed",
+      details: { reason: decision, wave: wave.wave_number, bids: bidCount || 0 },
+    });
+    result.closed++;
+  }
+
+  return result;
+}
+
+// Runs the wave check on a timer in long-running servers. ROUTING_WAVE_INTERVAL_SECONDS sets
+// the period (default 300); "off" or 0 disables it, e.g. when another instance runs the check.
+// On Netlify the routing-waves scheduled function runs it; admins can also run it on demand.
+export function startRoutingWaveScheduler() {
+  const setting = process.env.ROUTING_WAVE_INTERVAL_SECONDS;
+  const seconds = setting === "off" ? 0 : Number(setting || DEFAULT_INTERVAL_SECONDS);
+  if (!seconds || seconds <= 0) {
+    console.log("[ROUTING] Wave scheduler disabled");
+    return null;
+  }
+
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const result = await runRoutingWaveTick();
+      if (result.checked > 0) {
+        console.log("[ROUTING] Wave check:", result);
+      }
+    } catch (error) {
+      console.error("[ROUTING] Wave check failed:", error);
+    } finally {
+      running = false;
+    }
+  }, seconds * 1000);
+
+  timer.unref();
+  console.log(`[ROUTING] Wave scheduler running every ${seconds}s`);
+  return timer;
+}
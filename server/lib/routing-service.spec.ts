@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { planRouting } from "./routing-service";
+import { DEFAULT_SCORING_CONFIG, VendorCandidate } from "./vendor-scoring";
+import { NO_LEAD_PREFERENCES } from "./lead-capacity";
+
+const CLEANING = "svc-cleaning";
+const project = { id: "project-1", service_category_id: CLEANING, project_state: "MN", project_zip: "55401" };
+
+function vendor(vendor_id: string, overrides: Partial<VendorCandidate> = {}): VendorCandidate {
+  return {
+    vendor_id,
+    company_name: vendor_id,
+    services: [CLEANING],
+    coverage_states: ["MN"],
+    coverage_zips: [],
+    service_radii: [],
+    rating: null,
+    stats: { leads_routed: 0, bids_submitted: 0, bids_won: 0, open_leads: 0, leads_this_week: 0, last_routed_at: null },
+    preferences: NO_LEAD_PREFERENCES,
+    profile: {},
+    ...overrides,
+  };
+}
+
+const vendors = [vendor("a"), vendor("b"), vendor("c", { services: ["svc-roofing"] })];
+
+describe("planRouting", () => {
+  it("should route every matching vendor on the first run", () => {
+    const plan = planRouting(project, vendors, new Set(), DEFAULT_SCORING_CONFIG, { routeAll: false });
+
+    expect(plan.toRoute.map((m) => m.vendor_id)).toEqual(["a", "b"]);
+    expect(plan.skipped).toEqual([]);
+  });
+
+  it("should skip vendors that were already routed when re-run", () => {
+    const plan = planRouting(project, vendors, new Set(["a"]), DEFAULT_SCORING_CONFIG, { routeAll: false });
+
+    expect(plan.toRoute.map((m) => m.vendor_id)).toEqual(["b"]);
+    expect(plan.skipped.map((m) => m.vendor_id)).toEqual(["a"]);
+
+    const again = planRouting(project, vendors, new Set(["a", "b"]), DEFAULT_SCORING_CONFIG, { routeAll: false });
+    expect(again.toRoute).toEqual([]);
+    expect(again.matched).toHaveLength(2);
+  });
+
+  it("should route only the best vendors not yet routed when limited to a wave", () => {
+    const wave = [vendor("a", { rating: 5 }), vendor("b", { rating: 4 }), vendor("d", { rating: 3 })];
+
+    const first = planRouting(project, wave, new Set(), DEFAULT_SCORING_CONFIG, { routeAll: false, limit: 2 });
+    expect(first.toRoute.map((m) => m.vendor_id)).toEqual(["a", "b"]);
+
+    const second = planRouting(project, wave, new Set(["a", "b"]), DEFAULT_SCORING_CONFIG, { routeAll: false, limit: 2 });
+    expect(second.toRoute.map((m) => m.vendor_id)).toEqual(["d"]);
+  });
+
+  it("should include non-matching vendors in broadcast mode", () => {
+    const plan = planRouting(project, vendors, new Set(), DEFAULT_SCORING_CONFIG, { routeAll: true });
+    expect(plan.toRoute.map((m) => m.vendor_id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("should hold back vendors whose lead preferences rule the project out, even in broadcast mode", () => {
+    const paused = vendor("b", { preferences: { ...NO_LEAD_PREFERENCES, paused_until: "2999-01-01" } });
+    const plan = planRouting(project, [vendors[0], paused, vendors[2]], new Set(), DEFAULT_SCORING_CONFIG, {
+      routeAll: true,
+    });
+
+    expect(plan.toRoute.map((m) => m.vendor_id)).toEqual(["a", "c"]);
+    expect(plan.held).toEqual([{ vendor_id: "b", reason: "Leads paused until 2999-01-01" }]);
+  });
+
+  it("should never route vendors excluded from the business", () => {
+    const plan = planRouting(project, vendors, new Set(), DEFAULT_SCORING_CONFIG, {
+      routeAll: true,
+      excluded: new Set(["a"]),
+    });
+
+    expect(plan.toRoute.map((m) => m.vendor_id)).toEqual(["b", "c"]);
+    expect(plan.held).toEqual([{ vendor_id: "a", reason: "Excluded from this business's projects" }]);
+  });
+});
@@ -0,0 +1,409 @@
+import { isMissingTableError, isSupabaseConfigured, supabaseAdmin } from "./supabase";
+import { MatchedVendor, ScoringConfig, ScoringProject, VendorCandidate, getScoringConfig, rankVendors } from "./vendor-scoring";
+import { LEAD_CAP_WINDOW_DAYS, leadCapacityHold, leadPreferencesFromProfile } from "./lead-capacity";
+import { loadExcludedVendorIds } from "./routing-overrides";
+import { loadServiceTaxonomy, withCategoryPath } from "./service-taxonomy";
+import { coverageFromRegions } from "./coverage-regions";
+import { RoutingWaveConfig, WaveParameters, getRoutingWaveConfig, waveParameters, widenServiceRadii } from "./routing-waves";
+
+// The one place projects get routed to vendors automatically. Project creation, publishing,
+// the manual trigger and the wave scheduler all call routeProject; re-running it only adds
+// vendors that were not routed before. Admin overrides live in routing-overrides.ts.
+
+export type RoutingTrigger = "create" | "publish" | "manual" | "wave";
+export type RoutingOutcome = "routed" | "already_routed" | "no_match" | "failed";
+export type RoutingMode = "broadcast" | "waves" | "strict";
+
+export interface RoutingPlan {
+  // Vendors left out by their own lead preferences (paused, at their cap, ...)
+  held: { vendor_id: string; reason: string }[];
+  matched: MatchedVendor[];
+  // Matched vendors that get a new routing record
+  toRoute: MatchedVendor[];
+  // Matched vendors that already have one (their status is left alone)
+  skipped: MatchedVendor[];
+}
+
+export interface RoutingRunResult extends RoutingPlan {
+  runId: string | null;
+  outcome: RoutingOutcome;
+  mode: RoutingMode;
+  // Set when this run sent a routing wave
+  wave: number | null;
+}
+
+// ROUTE_ALL_VENDORS=true sends every project to every approved vendor (still ranked). Otherwise
+// projects go out in waves when the wave config is enabled, or to every matching vendor at once.
+export async function getRoutingMode(): Promise<RoutingMode> {
+  return routingModeFor(await getRoutingWaveConfig());
+}
+
+export function routingModeFor(waveConfig: RoutingWaveConfig): RoutingMode {
+  if (process.env.ROUTE_ALL_VENDORS === "true") return "broadcast";
+  return waveConfig.enabled ? "waves" : "strict";
+}
+
+export function planRouting(
+  project: ScoringProject,
+  candidates: VendorCandidate[],
+  alreadyRouted: Set<string>,
+  config: ScoringConfig,
+  options: { routeAll: boolean; limit?: number; now?: Date; excluded?: Set<string> },
+): RoutingPlan {
+  const held: RoutingPlan["held"] = [];
+  const available = candidates.filter((candidate) => {
+    const reason = options.excluded?.has(candidate.vendor_id)
+      ? "Excluded from this business's projects"
+      : leadCapacityHold(candidate, project, options.now);
+    if (reason) held.push({ vendor_id: candidate.vendor_id, reason });
+    return !reason;
+  });
+
+  const matched = rankVendors(available, project, config, { includeIneligible: options.routeAll });
+  const notRouted = matched.filter((m) => !alreadyRouted.has(m.vendor_id));
+  return {
+    held,
+    matched,
+    toRoute: options.limit ? notRouted.slice(0, options.limit) : notRouted,
+    skipped: matched.filter((m) => alreadyRouted.has(m.vendor_id)),
+  };
+}
+
+// Build scoring candidates from vendor profiles, their coverage areas and routing history
+export async function loadVendorCandidates(vendors: any[], now = new Date()): Promise<VendorCandidate[]> {
+  if (vendors.length === 0) return [];
+
+  const weekStart = now.getTime() - LEAD_CAP_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const vendorIds = vendors.map((v) => v.user_id);
+  const coverageIds = [...new Set(vendors.flatMap((v) => v.vendor_coverage_areas || []))];
+
+  const [{ data: coverageAreas }, { data: routings }, { data: bids }] = await Promise.all([
+    coverageIds.length > 0
+      ? supabaseAdmin.from("coverage_areas").select("*").in("id", coverageIds)
+      : Promise.resolve({ data: [] as any[] }),
+    supabaseAdmin
+      .from("project_routing")
+      .select("vendor_id, status, routed_at, projects(status)")
+      .in("vendor_id", vendorIds),
+    supabaseAdmin
+      .from("vendor_responses")
+      .select("vendor_id, is_selected, status")
+      .in("vendor_id", vendorIds),
+  ]);
+
+  const coverageById = new Map((coverageAreas || []).map((c: any) => [c.id, c]));
+
+  return vendors.map((vendor) => {
+    // Whole-state regions cover the state; metro and custom regions only their ZIPs
+    const coverage = coverageFromRegions(
+      (vendor.vendor_coverage_areas || []).map((id: string) => coverageById.get(id)).filter(Boolean),
+    );
+    const vendorRoutings = (routings || []).filter((r: any) => r.vendor_id === vendor.user_id);
+    const vendorBids = (bids || []).filter((b: any) => b.vendor_id === vendor.user_id && b.status !== "withdrawn");
+    const routedTimes = vendorRoutings.map((r: any) => new Date(r.routed_at).getTime()).filter((t) => !Number.isNaN(t));
+
+    return {
+      vendor_id: vendor.user_id,
+      company_name: vendor.company_name,
+      services: vendor.vendor_services || [],
+      coverage_states: coverage.states,
+      coverage_zips: coverage.zips,
+      service_radii: vendor.vendor_service_radii || [],
+      rating: vendor.vendor_rating === null || vendor.vendor_rating === undefined ? null : Number(vendor.vendor_rating),
+      stats: {
+        leads_routed: vendorRoutings.length,
+        bids_submitted: vendorBids.length,
+        bids_won: vendorBids.filter((b: any) => b.is_selected).length,
+        // Leads still waiting on this vendor: routed to an open project and not yet bid on
+        open_leads: vendorRoutings.filter(
+          (r: any) => r.status !== "bid_submitted" && r.status !== "declined" && r.projects?.status === "open",
+        ).length,
+        leads_this_week: routedTimes.filter((t) => t >= weekStart).length,
+        last_routed_at: routedTimes.length > 0 ? new Date(routedTimes.reduce((a, b) => Math.max(a, b))).toISOString() : null,
+      },
+      preferences: leadPreferencesFromProfile(vendor),
+      profile: vendor,
+    };
+  });
+}
+
+export async function loadApprovedVendors(): Promise<any[]> {
+  const { data: vendors, error } = await supabaseAdmin
+    .from("profiles")
+    .select("*")
+    .eq("role", "vendor")
+    .eq("is_approved", true);
+
+  if (error || !vendors) {
+    throw new Error(`Failed to fetch vendors: ${error?.message}`);
+  }
+  return vendors;
+}
+
+async function recordRoutingRun(run: Record<string, unknown>): Promise<string | null> {
+  const { data, error } = await supabaseAdmin.from("routing_runs").insert([run]).select("id").single();
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      console.warn("[ROUTING] routing_runs table missing; run migrations/add_routing_runs.sql");
+    } else {
+      console.error("[ROUTING] Failed to record routing run:", error.message);
+    }
+    return null;
+  }
+  return data.id;
+}
+
+// Number of the project's latest wave (0 if none), or null when waves can't be stored yet
+async function getLatestWave(projectId: string): Promise<number | null> {
+  const { data, error } = await supabaseAdmin
+    .from("routing_waves")
+    .select("wave_number")
+    .eq("project_id", projectId)
+    .order("wave_number", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      console.warn("[ROUTING] routing_waves table missing; routing without waves until migrations/add_routing_waves.sql is applied");
+      return null;
+    }
+    throw error;
+  }
+  return data?.wave_number || 0;
+}
+
+// Take the wave's row before any vendor is routed. UNIQUE(project_id, wave_number) lets only
+// one of two runs racing for the same wave through; the other gets false and sends nothing.
+async function claimWave(projectId: string, params: WaveParameters, windowHours: number): Promise<boolean> {
+  const { error } = await supabaseAdmin.from("routing_waves").insert([
+    {
+      project_id: projectId,
+      wave_number: params.wave,
+      radius_multiplier: params.radiusMultiplier,
+      relaxed: params.relaxed,
+      vendor_ids: [],
+      // Out of the scheduler's reach until the wave is recorded below
+      window_ends_at: new Date(Date.now() + windowHours * 60 * 60 * 1000).toISOString(),
+      status: "active",
+    },
+  ]);
+
+  if (error) {
+    if (error.code === "23505") return false;
+    throw error;
+  }
+  return true;
+}
+
+// A run that failed after claiming its wave gives it back, so the next run can send it
+async function releaseWave(projectId: string, params: WaveParameters) {
+  const { error } = await supabaseAdmin
+    .from("routing_waves")
+    .delete()
+    .eq("project_id", projectId)
+    .eq("wave_number", params.wave);
+
+  if (error) console.error(`[ROUTING] Failed to release wave ${params.wave} for ${projectId}:`, error.message);
+}
+
+async function recordWave(projectId: string, params: WaveParameters, plan: RoutingPlan, windowHours: number) {
+  // An empty wave expires at once so the scheduler moves straight on to the next one
+  const windowMs = plan.toRoute.length > 0 ? windowHours * 60 * 60 * 1000 : 0;
+  const windowEndsAt = new Date(Date.now() + windowMs).toISOString();
+
+  const { error } = await supabaseAdmin
+    .from("routing_waves")
+    .update({ vendor_ids: plan.toRoute.map((m) => m.vendor_id), window_ends_at: windowEndsAt })
+    .eq("project_id", projectId)
+    .eq("wave_number", params.wave);
+
+  if (error) throw error;
+
+  await supabaseAdmin.from("project_activity").insert({
+    project_id: projectId,
+    action: "routing_wave",
+    details: {
+      wave: params.wave,
+      routed_vendor_ids: plan.toRoute.map((m) => m.vendor_id),
+      radius_multiplier: params.radiusMultiplier,
+      relaxed: params.relaxed,
+      window_ends_at: windowEndsAt,
+    },
+  });
+}
+
+export async function routeProject(
+  projectId: string,
+  context: { trigger: RoutingTrigger; triggeredBy?: string | null; requestId?: string | null },
+): Promise<RoutingRunResult> {
+  if (!isSupabaseConfigured) {
+    throw new Error("Supabase admin client not properly configured. Check SUPABASE_SERVICE_ROLE_KEY.");
+  }
+
+  const startedAt = new Date();
+  const runBase = {
+    project_id: projectId,
+    trigger: context.trigger,
+    triggered_by: context.triggeredBy || null,
+    request_id: context.requestId || null,
+    started_at: startedAt.toISOString(),
+  };
+
+  const { data: project, error: projectError } = await supabaseAdmin
+    .from("projects")
+    .select("*")
+    .eq("id", projectId)
+    .maybeSingle();
+
+  if (projectError || !project) {
+    throw new Error(`Project not found: ${projectError?.message || projectId}`);
+  }
+
+  console.log(`[ROUTING] Processing project: ${project.id} (${project.title}) via ${context.trigger}`);
+
+  let inputs: Record<string, unknown> = {};
+  let claimedWave: WaveParameters | null = null;
+
+  try {
+    let mode = await getRoutingMode();
+    const [vendors, scoringConfig, waveConfig, excluded, taxonomy, { data: existing, error: existingError }] = await Promise.all([
+      loadApprovedVendors(),
+      getScoringConfig(),
+      getRoutingWaveConfig(),
+      loadExcludedVendorIds(project.business_id),
+      loadServiceTaxonomy(),
+      // Revoked routings count too, so a lead pulled back by an admin is never re-sent
+      supabaseAdmin.from("project_routing").select("vendor_id").eq("project_id", projectId),
+    ]);
+
+    if (existingError) throw existingError;
+
+    const alreadyRouted = new Set<string>((existing || []).map((r: any) => r.vendor_id));
+    const scoringProject = withCategoryPath(project, taxonomy);
+
+    // In wave mode the first call sends wave 1; later waves only come from the scheduler, so
+    // repeated create/publish/manual calls are no-ops
+    let wave: WaveParameters | null = null;
+    if (mode === "waves") {
+      const latestWave = await getLatestWave(projectId);
+      if (latestWave === null) {
+        mode = "strict";
+      } else if (latestWave === 0 || context.trigger === "wave") {
+        wave = waveParameters(latestWave + 1, waveConfig, scoringConfig);
+        // A concurrent publish or trigger already sent this wave: this run becomes a no-op
+        if (await claimWave(projectId, wave, waveConfig.windowHours)) {
+          claimedWave = wave;
+        } else {
+          wave = null;
+        }
+      }
+    }
+
+    inputs = {
+      mode,
+      scoring_config: wave ? wave.scoringConfig : scoringConfig,
+      wave: wave ? { number: wave.wave, size: wave.size, radius_multiplier: wave.radiusMultiplier, relaxed: wave.relaxed } : null,
+      candidate_count: vendors.length,
+      already_routed_count: alreadyRouted.size,
+      project: {
+        service_category_id: project.service_category_id,
+        service_category_path: scoringProject.service_category_path,
+        project_state: project.project_state,
+        project_zip: project.project_zip,
+      },
+    };
+
+    let candidates = await loadVendorCandidates(vendors);
+    if (wave) {
+      candidates = widenServiceRadii(candidates, wave.radiusMultiplier);
+    }
+
+    const plan =
+      mode === "waves" && !wave
+        ? { ...planRouting(scoringProject, candidates, alreadyRouted, scoringConfig, { routeAll: false, excluded }), toRoute: [] }
+        : planRouting(scoringProject, candidates, alreadyRouted, wave ? wave.scoringConfig : scoringConfig, {
+            routeAll: mode === "broadcast",
+            limit: wave?.size,
+            excluded,
+          });
+
+    if (plan.toRoute.length > 0) {
+      // ignoreDuplicates keeps a concurrent run (or a vendor's own interest) from being reset
+      const { error: routingError } = await supabaseAdmin.from("project_routing").upsert(
+        plan.toRoute.map((matched) => ({
+          project_id: projectId,
+          vendor_id: matched.vendor_id,
+          status: "routed",
+          wave: wave?.wave || null,
+          score: matched.score,
+          reasons: matched.reasons,
+        })),
+        { onConflict: "project_id,vendor_id", ignoreDuplicates: true },
+      );
+
+      if (routingError) throw routingError;
+
+      console.log(`[ROUTING] Routed ${plan.toRoute.length} new vendors (${plan.skipped.length} already routed)`);
+
+      await supabaseAdmin.from("project_activity").insert({
+        project_id: projectId,
+        action: "routed",
+        details: {
+          trigger: context.trigger,
+          mode,
+          wave: wave?.wave || null,
+          matched_vendors: plan.toRoute.length,
+          matched_vendor_ids: plan.toRoute.map((m) => m.vendor_id),
+          scores: Object.fromEntries(plan.toRoute.map((m) => [m.vendor_id, m.score])),
+        },
+      });
+    } else if (plan.matched.length === 0 && !wave) {
+      console.log(`[ROUTING] No matching vendors found for project: ${projectId}`);
+
+      await supabaseAdmin.from("project_activity").insert({
+        project_id: projectId,
+        action: "routing_failed",
+        details: { reason: "No matching vendors found", trigger: context.trigger },
+      });
+    }
+
+    // Waves are recorded even when empty, so the scheduler can widen the search
+    if (wave) {
+      await recordWave(projectId, wave, plan, waveConfig.windowHours);
+    }
+
+    const outcome: RoutingOutcome =
+      plan.toRoute.length > 0 ? "routed" : plan.skipped.length > 0 ? "already_routed" : "no_match";
+
+    const runId = await recordRoutingRun({
+      ...runBase,
+      inputs: { ...inputs, held: plan.held },
+      outcome,
+      matched_count: plan.matched.length,
+      routed_count: plan.toRoute.length,
+      skipped_count: plan.skipped.length,
+      routed_vendor_ids: plan.toRoute.map((m) => m.vendor_id),
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt.getTime(),
+    });
+
+    return { ...plan, runId, outcome, mode, wave: wave?.wave || null };
+  } catch (error) {
+    console.error("[ROUTING] Error routing project:", error);
+
+    if (claimedWave) await releaseWave(projectId, claimedWave);
+
+    await recordRoutingRun({
+      ...runBase,
+      inputs,
+      outcome: "failed",
+      error: error instanceof Error ? error.message : String((error as any)?.message || error),
+      finished_at: new Date().toISOString(),
+      duration_ms: Date.now() - startedAt.getTime(),
+    });
+
+    throw error;
+  }
+}
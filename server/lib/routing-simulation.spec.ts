@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { compareRouting, simulateRanking, simulationRequestSchema, SimulationRules } from "./routing-simulation";
+import { DEFAULT_SCORING_CONFIG, VendorCandidate } from "./vendor-scoring";
+import { DEFAULT_ROUTING_WAVE_CONFIG } from "./routing-waves";
+import { NO_LEAD_PREFERENCES } from "./lead-capacity";
+
+const CLEANING = "svc-cleaning";
+const project = { id: "project-1", service_category_id: CLEANING, project_state: "MN", project_zip: "55401" };
+
+function vendor(vendor_id: string, overrides: Partial<VendorCandidate> = {}): VendorCandidate {
+  return {
+    vendor_id,
+    company_name: `Company ${vendor_id}`,
+    services: [CLEANING],
+    coverage_states: ["MN"],
+    coverage_zips: [],
+    service_radii: [],
+    rating: null,
+    stats: { leads_routed: 0, bids_submitted: 0, bids_won: 0, open_leads: 0, leads_this_week: 0, last_routed_at: null },
+    preferences: NO_LEAD_PREFERENCES,
+    profile: {},
+    ...overrides,
+  };
+}
+
+const vendors = [
+  vendor("a", { rating: 5 }),
+  vendor("b", { rating: 4 }),
+  vendor("c", { rating: 3 }),
+  vendor("d", { services: ["svc-roofing"] }),
+];
+
+function rules(overrides: Partial<SimulationRules> = {}): SimulationRules {
+  return { mode: "strict", scoringConfig: DEFAULT_SCORING_CONFIG, waveConfig: DEFAULT_ROUTING_WAVE_CONFIG, ...overrides };
+}
+
+describe("simulateRanking", () => {
+  it("should rank every candidate with reasons and mark who would be routed", () => {
+    const result = simulateRanking(project, vendors, rules());
+
+    expect(result.vendors.map((v) => v.vendor_id)).toEqual(["a", "b", "c", "d"]);
+    expect(result.vendors.map((v) => v.would_route)).toEqual([true, true, true, false]);
+    expect(result.vendors[3].eligible).toBe(false);
+    expect(result.vendors[0].company_name).toBe("Company a");
+    expect(result.vendors[0].reasons.map((r) => r.signal)).toContain("rating");
+    expect(result).toMatchObject({ candidate_count: 4, eligible_count: 3, would_route_count: 3, wave_size: null });
+  });
+
+  it("should only route the first wave in wave mode", () => {
+    const result = simulateRanking(
+      project,
+      vendors,
+      rules({ mode: "waves", waveConfig: { ...DEFAULT_ROUTING_WAVE_CONFIG, initialSize: 2 } }),
+    );
+
+    expect(result.wave_size).toBe(2);
+    expect(result.vendors.filter((v) => v.would_route).map((v) => v.vendor_id)).toEqual(["a", "b"]);
+  });
+
+  it("should route ineligible vendors too in broadcast mode", () => {
+    const result = simulateRanking(project, vendors, rules({ mode: "broadcast" }));
+
+    expect(result.would_route_count).toBe(4);
+    expect(result.eligible_count).toBe(3);
+  });
+
+  it("should apply an override scoring config", () => {
+    const scoringConfig = { ...DEFAULT_SCORING_CONFIG, minScore: 99 };
+    const result = simulateRanking(project, vendors, rules({ scoringConfig }));
+
+    expect(result.would_route_count).toBe(0);
+  });
+});
+
+describe("compareRouting", () => {
+  it("should split vendors into kept, added and dropped", () => {
+    expect(compareRouting(["a", "b", "c"], ["b", "c", "d"])).toEqual({
+      kept: ["b", "c"],
+      added: ["a"],
+      dropped: ["d"],
+    });
+  });
+});
+
+describe("simulationRequestSchema", () => {
+  it("should require exactly one of projectId or project", () => {
+    expect(simulationRequestSchema.safeParse({}).success).toBe(false);
+    expect(
+      simulationRequestSchema.safeParse({
+        projectId: "0d7c2f3e-8b1a-4c6d-9e2f-1a2b3c4d5e6f",
+        project: { service_category_id: null },
+      }).success,
+    ).toBe(false);
+    expect(simulationRequestSchema.safeParse({ projectId: "0d7c2f3e-8b1a-4c6d-9e2f-1a2b3c4d5e6f" }).success).toBe(true);
+  });
+
+  it("should accept a replay without a project and cap its size", () => {
+    expect(simulationRequestSchema.safeParse({ replay: { limit: 20 } }).success).toBe(true);
+    expect(simulationRequestSchema.safeParse({ replay: { limit: 500 } }).success).toBe(false);
+  });
+});
@@ -0,0 +1,254 @@
+import { z } from "zod";
+import { supabaseAdmin } from "./supabase";
+import {
+  MatchedVendor,
+  ScoringConfig,
+  ScoringProject,
+  VendorCandidate,
+  getScoringConfig,
+  rankVendors,
+  scoringConfigSchema,
+} from "./vendor-scoring";
+import { RoutingWaveConfig, getRoutingWaveConfig, routingWaveConfigSchema } from "./routing-waves";
+import { loadExcludedVendorIds } from "./routing-overrides";
+import { loadServiceTaxonomy, withCategoryPath } from "./service-taxonomy";
+import { RoutingMode, loadApprovedVendors, loadVendorCandidates, planRouting, routingModeFor } from "./routing-service";
+
+// Dry runs of the routing rules: what routeProject would pick for a project, and how the last
+// N projects would have gone under a different configuration. Nothing here writes.
+
+export const simulationRequestSchema = z
+  .object({
+    projectId: z.string().uuid().optional(),
+    project: z
+      .object({
+        service_category_id: z.string().uuid().nullable(),
+        project_state: z.string().trim().max(2).nullable().optional(),
+        project_zip: z.string().trim().max(10).nullable().optional(),
+        budget_max: z.number().min(0).nullable().optional(),
+      })
+      .strict()
+      .optional(),
+    // Rules to try instead of the saved ones
+    mode: z.enum(["broadcast", "waves", "strict"]).optional(),
+    scoringConfig: scoringConfigSchema.optional(),
+    waveConfig: routingWaveConfigSchema.optional(),
+    replay: z
+      .object({ limit: z.number().int().min(1).max(50) })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .refine((body) => Boolean(body.replay) || Boolean(body.projectId) !== Boolean(body.project), {
+    message: "Provide either projectId or project",
+    path: ["projectId"],
+  });
+
+export type SimulationRequest = z.infer<typeof simulationRequestSchema>;
+
+export interface SimulationRules {
+  mode: RoutingMode;
+  scoringConfig: ScoringConfig;
+  waveConfig: RoutingWaveConfig;
+}
+
+export interface SimulatedVendor extends MatchedVendor {
+  company_name: string | null;
+  eligible: boolean;
+  // Set when the vendor's own lead preferences hold them back
+  held_reason: string | null;
+  // Whether the first routing run would send the lead to this vendor
+  would_route: boolean;
+}
+
+export interface SimulationResult {
+  mode: RoutingMode;
+  // Size of the first wave in wave mode, otherwise null
+  wave_size: number | null;
+  candidate_count: number;
+  eligible_count: number;
+  held_count: number;
+  would_route_count: number;
+  vendors: SimulatedVendor[];
+}
+
+export interface RoutingComparison {
+  kept: string[];
+  added: string[];
+  dropped: string[];
+}
+
+// Saved rules with any overrides applied. Without an explicit mode, the mode follows the
+// (possibly overridden) wave config the same way live routing does.
+export async function resolveSimulationRules(overrides: Partial<SimulationRules> = {}): Promise<SimulationRules> {
+  const [scoringConfig, waveConfig] = await Promise.all([
+    overrides.scoringConfig || getScoringConfig(),
+    overrides.waveConfig || getRoutingWaveConfig(),
+  ]);
+
+  return { mode: overrides.mode || routingModeFor(waveConfig), scoringConfig, waveConfig };
+}
+
+// Every candidate ranked with its per-signal reasons, marked with whether the first routing
+// run would pick it. Already-routed vendors are not considered; this is routing from scratch.
+// Vendor history and lead caps are as of `now`; `excluded` vendors are held back like live
+// routing does for the project's business.
+export function simulateRanking(
+  project: ScoringProject,
+  candidates: VendorCandidate[],
+  rules: SimulationRules,
+  options: { now?: Date; excluded?: Set<string> } = {},
+): SimulationResult {
+  const plan = planRouting(project, candidates, new Set(), rules.scoringConfig, { routeAll: false, ...options });
+  const heldReasons = new Map(plan.held.map((h) => [h.vendor_id, h.reason]));
+  const eligibleIds = new Set(plan.matched.map((m) => m.vendor_id));
+  const ranked = rankVendors(candidates, project, rules.scoringConfig, { includeIneligible: true });
+  const names = new Map(candidates.map((c) => [c.vendor_id, c.company_name]));
+  const waveSize = rules.mode === "waves" ? rules.waveConfig.initialSize : null;
+
+  let routed = 0;
+  const vendors = ranked.map((match) => {
+    const eligible = eligibleIds.has(match.vendor_id);
+    const heldReason = heldReasons.get(match.vendor_id) || null;
+    const wouldRoute =
+      !heldReason && (rules.mode === "broadcast" || (eligible && (waveSize === null || routed < waveSize)));
+    if (wouldRoute) routed++;
+    return {
+      ...match,
+      company_name: names.get(match.vendor_id) || null,
+      eligible,
+      held_reason: heldReason,
+      would_route: wouldRoute,
+    };
+  });
+
+  return {
+    mode: rules.mode,
+    wave_size: waveSize,
+    candidate_count: candidates.length,
+    eligible_count: eligibleIds.size,
+    held_count: heldReasons.size,
+    would_route_count: routed,
+    vendors,
+  };
+}
+
+export function compareRouting(simulated: string[], actual: string[]): RoutingComparison {
+  const simulatedSet = new Set(simulated);
+  const actualSet = new Set(actual);
+  return {
+    kept: simulated.filter((id) => actualSet.has(id)),
+    added: simulated.filter((id) => !actualSet.has(id)),
+    dropped: actual.filter((id) => !simulatedSet.has(id)),
+  };
+}
+
+export async function simulateProject(
+  input: { projectId?: string; project?: Partial<Omit<ScoringProject, "id">> },
+  rules: SimulationRules,
+): Promise<(SimulationResult & { project: ScoringProject }) | null> {
+  let project: ScoringProject;
+  let excluded = new Set<string>();
+
+  if (input.projectId) {
+    const { data, error } = await supabaseAdmin
+      .from("projects")
+      .select("id, business_id, service_category_id, project_state, project_zip, budget_min, budget_max")
+      .eq("id", input.projectId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    const { business_id, ...rest } = data;
+    project = rest;
+    excluded = await loadExcludedVendorIds(business_id);
+  } else {
+    project = {
+      id: "simulation",
+      service_category_id: input.project.service_category_id || null,
+      project_state: input.project.project_state || null,
+      project_zip: input.project.project_zip || null,
+      budget_max: input.project.budget_max ?? null,
+    };
+  }
+
+  const [candidates, taxonomy] = await Promise.all([
+    loadApprovedVendors().then((vendors) => loadVendorCandidates(vendors)),
+    loadServiceTaxonomy(),
+  ]);
+  project = withCategoryPath(project, taxonomy);
+  return { project, ...simulateRanking(project, candidates, rules, { excluded }) };
+}
+
+export interface ReplayedProject extends RoutingComparison {
+  project_id: string;
+  title: string;
+  status: string;
+  created_at: string;
+  simulated_count: number;
+  actual_count: number;
+}
+
+// Re-runs the last `limit` published projects under `rules` and compares the vendors each
+// would have gone to with who its first routing (wave 1, or the single pre-wave run) actually
+// reached; routings an admin added by hand are left out. Vendor history (ratings, win rates, open leads) is today's, not what it was when
+// the project was routed, so treat small differences as noise.
+export async function replayRecentProjects(limit: number, rules: SimulationRules) {
+  const { data: projects, error } = await supabaseAdmin
+    .from("projects")
+    .select("id, title, status, business_id, service_category_id, project_state, project_zip, budget_min, budget_max, created_at")
+    .neq("status", "draft")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  if (!projects || projects.length === 0) {
+    return { projects: [] as ReplayedProject[], summary: { projects: 0, changed: 0, kept: 0, added: 0, dropped: 0 } };
+  }
+
+  const businessIds: string[] = [...new Set<string>(projects.map((p: any) => p.business_id).filter(Boolean))];
+  const [candidates, { data: routings, error: routingError }, exclusions, taxonomy] = await Promise.all([
+    loadApprovedVendors().then((vendors) => loadVendorCandidates(vendors)),
+    supabaseAdmin
+      .from("project_routing")
+      .select("project_id, vendor_id, wave, source")
+      .in("project_id", projects.map((p: any) => p.id)),
+    Promise.all(businessIds.map(async (id) => [id, await loadExcludedVendorIds(id)] as const)),
+    loadServiceTaxonomy(),
+  ]);
+  const excludedByBusiness = new Map(exclusions);
+
+  if (routingError) throw routingError;
+
+  const replayed: ReplayedProject[] = projects.map((project: any) => {
+    const actual = (routings || [])
+      .filter((r: any) => r.project_id === project.id && (r.wave === null || r.wave === 1) && r.source !== "manual")
+      .map((r: any) => r.vendor_id);
+    const simulated = simulateRanking(withCategoryPath(project, taxonomy), candidates, rules, {
+      excluded: excludedByBusiness.get(project.business_id),
+    })
+      .vendors.filter((v) => v.would_route)
+      .map((v) => v.vendor_id);
+
+    return {
+      project_id: project.id,
+      title: project.title,
+      status: project.status,
+      created_at: project.created_at,
+      simulated_count: simulated.length,
+      actual_count: actual.length,
+      ...compareRouting(simulated, actual),
+    };
+  });
+
+  return {
+    projects: replayed,
+    summary: {
+      projects: replayed.length,
+      changed: replayed.filter((p) => p.added.length > 0 || p.dropped.length > 0).length,
+      kept: replayed.reduce((sum, p) => sum + p.kept.length, 0),
+      added: replayed.reduce((sum, p) => sum + p.added.length, 0),
+      dropped: replayed.reduce((sum, p) => sum + p.dropped.length, 0),
+    },
+  };
+}
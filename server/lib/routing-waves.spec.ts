@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_ROUTING_WAVE_CONFIG, decideNextWave, waveParameters, widenServiceRadii } from "./routing-waves";
+import { DEFAULT_SCORING_CONFIG, VendorCandidate } from "./vendor-scoring";
+
+const config = DEFAULT_ROUTING_WAVE_CONFIG;
+const now = new Date("2026-03-01T12:00:00Z");
+const past = "2026-03-01T11:00:00Z";
+const future = "2026-03-01T13:00:00Z";
+
+describe("waveParameters", () => {
+  it("should send the first wave at the normal radius with the normal rules", () => {
+    const wave = waveParameters(1, config, DEFAULT_SCORING_CONFIG);
+    expect(wave).toMatchObject({ wave: 1, size: config.initialSize, radiusMultiplier: 1, relaxed: [] });
+    expect(wave.scoringConfig).toBe(DEFAULT_SCORING_CONFIG);
+  });
+
+  it("should widen the radius with each wave", () => {
+    expect(waveParameters(2, config, DEFAULT_SCORING_CONFIG).radiusMultiplier).toBe(1.5);
+    expect(waveParameters(3, config, DEFAULT_SCORING_CONFIG).radiusMultiplier).toBe(2.25);
+  });
+
+  it("should relax proximity and the minimum score from the configured wave", () => {
+    const strictScoring = { ...DEFAULT_SCORING_CONFIG, minScore: 40 };
+
+    expect(waveParameters(2, config, strictScoring).relaxed).toEqual([]);
+    const relaxed = waveParameters(3, config, strictScoring);
+    expect(relaxed.relaxed).toEqual(["proximity_optional", "min_score"]);
+    expect(relaxed.scoringConfig.minScore).toBe(0);
+    expect(relaxed.scoringConfig.signals.proximity.required).toBe(false);
+    expect(relaxed.scoringConfig.signals.service_match.required).toBe(true);
+  });
+});
+
+describe("widenServiceRadii", () => {
+  it("should scale every service radius", () => {
+    const candidate = { vendor_id: "a", service_radii: [{ base_zip: "55401", radius_miles: 20 }] } as VendorCandidate;
+    expect(widenServiceRadii([candidate], 1.5)[0].service_radii).toEqual([{ base_zip: "55401", radius_miles: 30 }]);
+    expect(candidate.service_radii[0].radius_miles).toBe(20);
+  });
+});
+
+describe("decideNextWave", () => {
+  const open = { status: "open" };
+
+  it("should wait until the window has passed", () => {
+    expect(decideNextWave({ wave_number: 1, window_ends_at: future }, open, 0, config, now)).toBe("wait");
+  });
+
+  it("should stop once enough bids have arrived", () => {
+    expect(decideNextWave({ wave_number: 1, window_ends_at: past }, open, config.minBids, config, now)).toBe("satisfied");
+  });
+
+  it("should expand until the last wave, then give up", () => {
+    expect(decideNextWave({ wave_number: 1, window_ends_at: past }, open, 1, config, now)).toBe("expand");
+    expect(decideNextWave({ wave_number: config.maxWaves, window_ends_at: past }, open, 1, config, now)).toBe("exhausted");
+  });
+
+  it("should close waves for projects that are no longer open", () => {
+    expect(decideNextWave({ wave_number: 1, window_ends_at: future }, { status: "selected" }, 0, config, now)).toBe("closed");
+  });
+});
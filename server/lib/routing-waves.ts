@@ -0,0 +1,111 @@
+import { z } from "zod";
+import { getSetting } from "./settings";
+import { ScoringConfig, VendorCandidate } from "./vendor-scoring";
+
+// Staged routing: a project goes to the best few vendors first. When too few bids arrive
+// within the window, the scheduler (routing-scheduler.ts) sends the next wave with a wider
+// radius and, from `relaxFromWave` on, looser matching rules.
+
+export const routingWaveConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    // Vendors in the first wave, and in each wave after it
+    initialSize: z.number().int().min(1).max(100),
+    expansionSize: z.number().int().min(1).max(100),
+    // Bids that count as enough; once reached no further waves are sent
+    minBids: z.number().int().min(1).max(50),
+    windowHours: z.number().min(0.25).max(24 * 14),
+    maxWaves: z.number().int().min(1).max(10),
+    // Service radii are multiplied by this once per wave after the first
+    radiusGrowth: z.number().min(1).max(5),
+    // From this wave on, vendors outside the area may be routed and the minimum score is dropped
+    relaxFromWave: z.number().int().min(2).max(11),
+  })
+  .strict();
+
+export type RoutingWaveConfig = z.infer<typeof routingWaveConfigSchema>;
+
+export const ROUTING_WAVE_SETTING = "routing_wave_config";
+
+export const DEFAULT_ROUTING_WAVE_CONFIG: RoutingWaveConfig = {
+  enabled: true,
+  initialSize: 5,
+  expansionSize: 5,
+  minBids: 3,
+  windowHours: 24,
+  maxWaves: 4,
+  radiusGrowth: 1.5,
+  relaxFromWave: 3,
+};
+
+export async function getRoutingWaveConfig(): Promise<RoutingWaveConfig> {
+  const stored = await getSetting<unknown>(ROUTING_WAVE_SETTING, null);
+  const parsed = routingWaveConfigSchema.safeParse(stored);
+  return parsed.success ? parsed.data : DEFAULT_ROUTING_WAVE_CONFIG;
+}
+
+export interface WaveParameters {
+  wave: number;
+  size: number;
+  radiusMultiplier: number;
+  // Rules loosened for this wave, e.g. ["proximity_optional", "min_score"]
+  relaxed: string[];
+  scoringConfig: ScoringConfig;
+}
+
+// Matching rules for a given wave (1-based)
+export function waveParameters(wave: number, waveConfig: RoutingWaveConfig, scoringConfig: ScoringConfig): WaveParameters {
+  const radiusMultiplier = Math.round(waveConfig.radiusGrowth ** (wave - 1) * 100) / 100;
+
+  if (wave < waveConfig.relaxFromWave) {
+    return {
+      wave,
+      size: wave === 1 ? waveConfig.initialSize : waveConfig.expansionSize,
+      radiusMultiplier,
+      relaxed: [],
+      scoringConfig,
+    };
+  }
+
+  return {
+    wave,
+    size: waveConfig.expansionSize,
+    radiusMultiplier,
+    relaxed: ["proximity_optional", "min_score"],
+    scoringConfig: {
+      ...scoringConfig,
+      minScore: 0,
+      signals: {
+        ...scoringConfig.signals,
+        proximity: { ...scoringConfig.signals.proximity, required: false },
+      },
+    },
+  };
+}
+
+export function widenServiceRadii(candidates: VendorCandidate[], multiplier: number): VendorCandidate[] {
+  if (multiplier === 1) return candidates;
+  return candidates.map((candidate) => ({
+    ...candidate,
+    service_radii: candidate.service_radii.map((radius) => ({
+      ...radius,
+      radius_miles: Math.round(radius.radius_miles * multiplier),
+    })),
+  }));
+}
+
+export type WaveDecision = "wait" | "satisfied" | "expand" | "exhausted" | "closed";
+
+// What the scheduler should do with a project's latest wave
+export function decideNextWave(
+  wave: { wave_number: number; window_ends_at: string },
+  project: { status: string },
+  bidCount: number,
+  waveConfig: RoutingWaveConfig,
+  now = new Date(),
+): WaveDecision {
+  if (project.status !== "open") return "closed";
+  if (bidCount >= waveConfig.minBids) return "satisfied";
+  if (new Date(wave.window_ends_at) > now) return "wait";
+  return wave.wave_number >= waveConfig.maxWaves ? "exhausted" : "expand";
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  ServiceCategory,
+  categoryPath,
+  descendantIds,
+  flattenTaxonomy,
+  matchServiceCategory,
+  parentProblem,
+  replacementProblem,
+  resolveServiceCategory,
+  serviceCategorySchema,
+} from "./service-taxonomy";
+
+function category(id: string, name: string, overrides: Partial<ServiceCategory> = {}): ServiceCategory {
+  return { id, name, description: null, parent_id: null, synonyms: [], retired_at: null, merged_into_id: null, ...overrides };
+}
+
+const taxonomy = [
+  category("it", "IT Services", { synonyms: ["tech support", "network"] }),
+  category("security", "Managed Security", { parent_id: "it", synonyms: ["cybersecurity"] }),
+  category("soc2", "SOC 2 Readiness", { parent_id: "security", synonyms: ["soc 2", "soc2"] }),
+  category("cleaning", "Cleaning Services", { synonyms: ["cleaning", "janitorial"] }),
+  category("janitorial", "Janitorial", { retired_at: "2026-01-01T00:00:00Z", merged_into_id: "cleaning" }),
+];
+
+describe("categoryPath", () => {
+  it("should list the category and its ancestors, most specific first", () => {
+    expect(categoryPath(taxonomy, "soc2")).toEqual(["soc2", "security", "it"]);
+    expect(categoryPath(taxonomy, "it")).toEqual(["it"]);
+    expect(categoryPath(taxonomy, null)).toEqual([]);
+  });
+
+  it("should follow merges and keep unknown ids as they are", () => {
+    expect(categoryPath(taxonomy, "janitorial")).toEqual(["cleaning"]);
+    expect(categoryPath(taxonomy, "missing")).toEqual(["missing"]);
+  });
+});
+
+describe("flattenTaxonomy", () => {
+  it("should order categories depth-first with breadcrumb labels", () => {
+    const entries = flattenTaxonomy(taxonomy.filter((c) => !c.retired_at));
+
+    expect(entries.map((e) => [e.label, e.depth])).toEqual([
+      ["Cleaning Services", 0],
+      ["IT Services", 0],
+      ["IT Services › Managed Security", 1],
+      ["IT Services › Managed Security › SOC 2 Readiness", 2],
+    ]);
+    expect(descendantIds(taxonomy, "it")).toEqual(["security", "soc2"]);
+  });
+});
+
+describe("matchServiceCategory", () => {
+  it("should prefer the most specific category mentioned", () => {
+    expect(matchServiceCategory(taxonomy, "We need tech support and help with SOC 2 for our audit")?.id).toBe("soc2");
+    expect(matchServiceCategory(taxonomy, "Janitorial crew for our office")?.id).toBe("cleaning");
+  });
+
+  it("should only match whole words and skip retired categories", () => {
+    expect(matchServiceCategory(taxonomy, "Our networking event needs catering")).toBeNull();
+    expect(matchServiceCategory([category("old", "Payroll", { retired_at: "2026-01-01T00:00:00Z" })], "payroll help")).toBeNull();
+  });
+});
+
+describe("resolveServiceCategory", () => {
+  it("should resolve names and synonyms, following merges", () => {
+    expect(resolveServiceCategory(taxonomy, "managed security")?.id).toBe("security");
+    expect(resolveServiceCategory(taxonomy, "SOC2")?.id).toBe("soc2");
+    expect(resolveServiceCategory(taxonomy, "Janitorial")?.id).toBe("cleaning");
+    expect(resolveServiceCategory(taxonomy, "Plumbing")).toBeNull();
+  });
+});
+
+describe("parentProblem and replacementProblem", () => {
+  it("should refuse cycles and retired parents", () => {
+    expect(parentProblem(taxonomy, "it", "soc2")).toBe("A category cannot sit under itself or one of its subcategories");
+    expect(parentProblem(taxonomy, null, "janitorial")).toBe("A retired category cannot have subcategories");
+    expect(parentProblem(taxonomy, "cleaning", "it")).toBeNull();
+  });
+
+  it("should refuse merging into itself, a subcategory or a retired category", () => {
+    const byId = (id: string) => taxonomy.find((c) => c.id === id);
+
+    expect(replacementProblem(taxonomy, byId("it"), byId("soc2"))).toBe("Pick a category outside this one's subcategories");
+    expect(replacementProblem(taxonomy, byId("cleaning"), byId("janitorial"))).toBe("Pick an active category");
+    expect(replacementProblem(taxonomy, byId("soc2"), byId("security"))).toBeNull();
+  });
+});
+
+describe("serviceCategorySchema", () => {
+  it("should normalise synonyms", () => {
+    const parsed = serviceCategorySchema.parse({ name: "Payroll", synonyms: ["Payroll ", "payroll", "PEO"] });
+    expect(parsed.synonyms).toEqual(["payroll", "peo"]);
+  });
+});
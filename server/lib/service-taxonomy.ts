@@ -0,0 +1,245 @@
+import { z } from "zod";
+import { supabaseAdmin } from "./supabase";
+import { ScoringProject } from "./vendor-scoring";
+
+// The service taxonomy. Categories nest under a parent (IT Services → Managed Security → SOC 2
+// readiness) and carry synonyms that intake matches against. Retired categories stay in the
+// table so old records keep their label; merged ones point at the category that replaced them.
+
+export interface ServiceCategory {
+  id: string;
+  name: string;
+  description: string | null;
+  parent_id: string | null;
+  synonyms: string[];
+  retired_at: string | null;
+  merged_into_id: string | null;
+}
+
+export interface TaxonomyEntry extends ServiceCategory {
+  depth: number;
+  // "IT Services › Managed Security"
+  label: string;
+}
+
+const synonymsSchema = z
+  .array(z.string().trim().min(2, "Synonyms need at least 2 characters").max(60))
+  .max(50)
+  .transform((synonyms) => [...new Set(synonyms.map((s) => s.toLowerCase()))]);
+
+export const serviceCategorySchema = z
+  .object({
+    name: z.string().trim().min(2, "Name is required").max(255),
+    description: z.string().trim().max(1000).nullable().optional(),
+    parentId: z.string().uuid("Unknown parent category").nullable().optional(),
+    synonyms: synonymsSchema.optional(),
+  })
+  .strict();
+
+export const updateServiceCategorySchema = serviceCategorySchema.partial().strict();
+
+export const mergeServiceCategorySchema = z
+  .object({ targetId: z.string().uuid("Pick the category to merge into") })
+  .strict();
+
+export const retireServiceCategorySchema = z
+  .object({ replacementId: z.string().uuid("Unknown replacement category").nullable().optional() })
+  .strict();
+
+const CACHE_TTL_MS = 60_000;
+let taxonomyCache: { categories: ServiceCategory[]; expiresAt: number } | null = null;
+
+// Every category, retired ones included. Cached briefly; admin edits invalidate the cache and
+// admin screens read with `fresh`.
+export async function loadServiceTaxonomy(options: { fresh?: boolean } = {}): Promise<ServiceCategory[]> {
+  if (!options.fresh && taxonomyCache && taxonomyCache.expiresAt > Date.now()) {
+    return taxonomyCache.categories;
+  }
+
+  let { data, error }: { data: any[] | null; error: { code?: string; message: string } | null } = await supabaseAdmin
+    .from("service_categories")
+    .select("id, name, description, parent_id, synonyms, retired_at, merged_into_id")
+    .order("name");
+
+  // 42703: the taxonomy columns are missing (migration not applied); fall back to the flat list
+  if (error?.code === "42703") {
+    console.warn("[TAXONOMY] service_categories is flat; run migrations/add_service_taxonomy.sql");
+    ({ data, error } = await supabaseAdmin.from("service_categories").select("id, name, description").order("name"));
+  }
+
+  if (error) {
+    console.warn("[TAXONOMY] Failed to load service categories:", error.message);
+    return [];
+  }
+
+  const categories: ServiceCategory[] = (data || []).map((row: any) => ({
+    id: row.id,
+    name: row.name,
+    description: row.description ?? null,
+    parent_id: row.parent_id ?? null,
+    synonyms: row.synonyms || [],
+    retired_at: row.retired_at ?? null,
+    merged_into_id: row.merged_into_id ?? null,
+  }));
+  taxonomyCache = { categories, expiresAt: Date.now() + CACHE_TTL_MS };
+  return categories;
+}
+
+export function invalidateServiceTaxonomy() {
+  taxonomyCache = null;
+}
+
+export function activeCategories(categories: ServiceCategory[]) {
+  return categories.filter((category) => !category.retired_at);
+}
+
+// The category and its ancestors, most specific first. A merged category is replaced by the
+// category it was merged into.
+export function categoryPath(categories: ServiceCategory[], id: string | null | undefined): string[] {
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const seen = new Set<string>();
+  let current = id ? byId.get(id) : undefined;
+
+  while (current?.merged_into_id && !seen.has(current.id)) {
+    seen.add(current.id);
+    current = byId.get(current.merged_into_id) || current;
+  }
+
+  const path: string[] = [];
+  while (current && !path.includes(current.id)) {
+    path.push(current.id);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path.length > 0 || !id ? path : [id];
+}
+
+export function descendantIds(categories: ServiceCategory[], id: string): string[] {
+  const result: string[] = [];
+  let frontier = [id];
+  while (frontier.length > 0) {
+    const children = categories
+      .filter((category) => category.parent_id && frontier.includes(category.parent_id) && !result.includes(category.id))
+      .map((category) => category.id);
+    result.push(...children);
+    frontier = children;
+  }
+  return result.filter((childId) => childId !== id);
+}
+
+// Depth-first, alphabetical within each level, with a breadcrumb label for pickers
+export function flattenTaxonomy(categories: ServiceCategory[]): TaxonomyEntry[] {
+  const ids = new Set(categories.map((category) => category.id));
+  const entries: TaxonomyEntry[] = [];
+
+  const visit = (parentId: string | null, depth: number, prefix: string) => {
+    categories
+      .filter((category) => (parentId ? category.parent_id === parentId : !category.parent_id || !ids.has(category.parent_id)))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach((category) => {
+        if (entries.some((entry) => entry.id === category.id)) return;
+        const label = prefix ? `${prefix} › ${category.name}` : category.name;
+        entries.push({ ...category, depth, label });
+        visit(category.id, depth + 1, label);
+      });
+  };
+
+  visit(null, 0, "");
+  return entries;
+}
+
+// Attach the category path routing uses to match vendors who offer a broader category
+export function withCategoryPath<T extends ScoringProject>(project: T, categories: ServiceCategory[]): T {
+  return { ...project, service_category_path: categoryPath(categories, project.service_category_id) };
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function termIndex(text: string, term: string) {
+  const match = new RegExp(`(^|[^a-z0-9])${escapeRegExp(term.toLowerCase())}(?=$|[^a-z0-9])`).exec(text);
+  return match ? match.index + match[1].length : -1;
+}
+
+// The category a piece of free text asks for, matched on whole words against active names and
+// synonyms. The most specific category wins; ties go to whichever is mentioned first.
+export function matchServiceCategory(categories: ServiceCategory[], text: string): ServiceCategory | null {
+  const haystack = text.toLowerCase();
+  let best: { category: ServiceCategory; depth: number; index: number } | null = null;
+
+  for (const category of activeCategories(categories)) {
+    const positions = [category.name, ...category.synonyms].map((term) => termIndex(haystack, term)).filter((i) => i >= 0);
+    if (positions.length === 0) continue;
+
+    const index = Math.min(...positions);
+    const depth = categoryPath(categories, category.id).length;
+    if (!best || depth > best.depth || (depth === best.depth && index < best.index)) {
+      best = { category, depth, index };
+    }
+  }
+  return best?.category || null;
+}
+
+// Look a category up by name or synonym, following merges to the active replacement
+export function resolveServiceCategory(categories: ServiceCategory[], name: string): ServiceCategory | null {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return null;
+
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const found =
+    categories.find((category) => category.name.toLowerCase() === wanted) ||
+    activeCategories(categories).find((category) => category.synonyms.includes(wanted));
+  if (!found) return null;
+
+  const [resolvedId] = categoryPath(categories, found.id);
+  const resolved = byId.get(resolvedId) || found;
+  return resolved.retired_at ? null : resolved;
+}
+
+// Why `parentId` cannot be the parent of category `id` (null for a new category), or null
+export function parentProblem(categories: ServiceCategory[], id: string | null, parentId: string | null | undefined) {
+  if (!parentId) return null;
+  const parent = categories.find((category) => category.id === parentId);
+  if (!parent) return "Unknown parent category";
+  if (parent.retired_at) return "A retired category cannot have subcategories";
+  if (id && (parentId === id || descendantIds(categories, id).includes(parentId))) {
+    return "A category cannot sit under itself or one of its subcategories";
+  }
+  return null;
+}
+
+// Why `target` cannot take over from `source` in a merge or retire, or null
+export function replacementProblem(categories: ServiceCategory[], source: ServiceCategory, target: ServiceCategory) {
+  if (target.id === source.id) return "Pick a different category";
+  if (target.retired_at) return "Pick an active category";
+  if (descendantIds(categories, source.id).includes(target.id)) {
+    return "Pick a category outside this one's subcategories";
+  }
+  return null;
+}
+
+export interface RepointResult {
+  projects: number;
+  vendors: number;
+  subcategories: number;
+}
+
+// Retire `source`, moving its projects, vendor services and subcategories to `targetId`. With no
+// target, projects keep the retired category, vendors drop it and subcategories move up a level.
+// Merging also records the replacement and carries the source's name and synonyms across so
+// intake keeps recognising them.
+export async function retireServiceCategory(
+  source: ServiceCategory,
+  target: ServiceCategory | null,
+  options: { merge: boolean },
+): Promise<RepointResult> {
+  // One transaction (migrations/add_service_taxonomy.sql); it also re-checks that both
+  // categories are still active
+  const { data, error } = await supabaseAdmin.rpc("retire_service_category", {
+    p_source_id: source.id,
+    p_target_id: target?.id || null,
+    p_merge: options.merge,
+  });
+  if (error) throw error;
+
+  invalidateServiceTaxonomy();
+  return data as RepointResult;
+}
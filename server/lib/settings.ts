@@ -0,0 +1,40 @@
+import { isMissingTableError, supabaseAdmin } from "./supabase";
+
+// Admin-editable platform settings (platform_settings table, one JSON value per key)
+
+const CACHE_TTL_MS = 60_000;
+const settingsCache = new Map<string, { value: unknown; expiresAt: number }>();
+
+// Returns the stored value for `key`, or `fallback` when it is unset or unreadable
+export async function getSetting<T>(key: string, fallback: T): Promise<T> {
+  const cached = settingsCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value as T;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("platform_settings")
+    .select("value")
+    .eq("key", key)
+    .maybeSingle();
+
+  if (error) {
+    if (!isMissingTableError(error)) {
+      console.warn(`[SETTINGS] Falling back to default for ${key}:`, error.message);
+    }
+    return fallback;
+  }
+
+  const value = (data?.value ?? fallback) as T;
+  settingsCache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  return value;
+}
+
+export async function saveSetting<T>(key: string, value: T, updatedBy: string | null) {
+  const { error } = await supabaseAdmin
+    .from("platform_settings")
+    .upsert({ key, value, updated_by: updatedBy, updated_at: new Date() }, { onConflict: "key" });
+
+  if (error) throw error;
+  settingsCache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from "vitest";
+import { findProxyRule, guardSupabaseProxy, sanitizeProxyHeaders } from "./supabase-proxy";
+
+const ANON_KEY = "anon-key-from-env";
+
+function runGuard(method: string, path: string, headers: Record<string, string> = {}) {
+  const req: any = { method, path, requestId: "req-123", header: (name: string) => headers[name.toLowerCase()] };
+  const res: any = {
+    statusCode: 200,
+    status: vi.fn(function (code) {
+      this.statusCode = code;
+      return this;
+    }),
+    json: vi.fn(),
+    on: vi.fn(),
+  };
+  const next = vi.fn();
+  guardSupabaseProxy(req, res, next);
+  return { res, next };
+}
+
+describe("findProxyRule", () => {
+  it("should allow the auth, table and storage calls the browser client makes", () => {
+    expect(findProxyRule("POST", "/auth/v1/token")).not.toBeNull();
+    expect(findProxyRule("GET", "/auth/v1/user")).not.toBeNull();
+    expect(findProxyRule("GET", "/rest/v1/projects")).not.toBeNull();
+    expect(findProxyRule("PATCH", "/rest/v1/profiles")).not.toBeNull();
+    expect(findProxyRule("GET", "/storage/v1/object/public/assets/avatars/me.png")).not.toBeNull();
+    expect(findProxyRule("POST", "/storage/v1/object/assets/uploads/file.pdf")).not.toBeNull();
+  });
+
+  it("should reject admin, RPC and bucket management endpoints", () => {
+    expect(findProxyRule("GET", "/auth/v1/admin/users")).toBeNull();
+    expect(findProxyRule("POST", "/rest/v1/rpc/take_rate_limit_token")).toBeNull();
+    expect(findProxyRule("POST", "/storage/v1/bucket")).toBeNull();
+    expect(findProxyRule("POST", "/functions/v1/anything")).toBeNull();
+    expect(findProxyRule("GET", "/pg-meta/default/tables")).toBeNull();
+  });
+
+  it("should reject methods the rule does not list", () => {
+    expect(findProxyRule("DELETE", "/auth/v1/user")).toBeNull();
+    expect(findProxyRule("POST", "/storage/v1/object/public/assets/file.png")).toBeNull();
+  });
+
+  it("should reject traversal and encoded separators", () => {
+    expect(findProxyRule("GET", "/rest/v1/../auth/v1/admin/users")).toBeNull();
+    expect(findProxyRule("GET", "/storage/v1/object/public/assets/%2e%2e/secret")).toBeNull();
+    expect(findProxyRule("GET", "/storage/v1/object/public/assets/a%2Fb")).toBeNull();
+    expect(findProxyRule("GET", "//rest/v1/projects")).toBeNull();
+  });
+});
+
+describe("sanitizeProxyHeaders", () => {
+  it("should drop hop-by-hop and credential headers and set the target host", () => {
+    const headers = sanitizeProxyHeaders(
+      {
+        Host: "localhost:8080",
+        Connection: "keep-alive, X-Custom-Hop",
+        "X-Custom-Hop": "1",
+        Cookie: "session=abc",
+        "X-MFA-Token": "token",
+        "X-Forwarded-For": "10.0.0.1",
+        "Proxy-Authorization": "Basic abc",
+        apikey: "client-key",
+        Authorization: "Bearer user-jwt",
+        "Content-Type": "application/json",
+      },
+      { targetHost: "project.supabase.co", anonKey: ANON_KEY, requestId: "req-1" },
+    );
+
+    expect(headers).toEqual({
+      host: "project.supabase.co",
+      apikey: "client-key",
+      authorization: "Bearer user-jwt",
+      "content-type": "application/json",
+      "x-request-id": "req-1",
+    });
+  });
+
+  it("should fill in the anon key when the client sent none or a placeholder", () => {
+    expect(sanitizeProxyHeaders({}, { targetHost: "h", anonKey: ANON_KEY })).toMatchObject({
+      apikey: ANON_KEY,
+      authorization: `Bearer ${ANON_KEY}`,
+    });
+    expect(
+      sanitizeProxyHeaders({ apikey: "placeholder", authorization: "Bearer user-jwt" }, { targetHost: "h", anonKey: ANON_KEY }),
+    ).toMatchObject({ apikey: ANON_KEY, authorization: "Bearer user-jwt" });
+  });
+});
+
+describe("guardSupabaseProxy", () => {
+  it("should pass allowlisted calls through", () => {
+    const { res, next } = runGuard("GET", "/rest/v1/projects");
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it("should reject calls outside the allowlist with a clear error", () => {
+    const { res, next } = runGuard("GET", "/auth/v1/admin/users");
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json.mock.calls[0][0]).toMatchObject({ success: false, code: "proxy_path_not_allowed" });
+  });
+
+  it("should reject bodies over the endpoint's limit", () => {
+    const { res, next } = runGuard("POST", "/auth/v1/token", { "content-length": String(1024 * 1024) });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(413);
+  });
+
+  it("should reject chunked bodies, whose size can't be checked against the endpoint's limit", () => {
+    const { res, next } = runGuard("POST", "/auth/v1/token", { "transfer-encoding": "chunked" });
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(411);
+    expect(res.json.mock.calls[0][0]).toMatchObject({ success: false, code: "length_required" });
+  });
+});
@@ -0,0 +1,190 @@
+import { RequestHandler } from "express";
+import proxy from "express-http-proxy";
+
+// /api/v1/supabase forwards a small, explicit set of Supabase endpoints that the browser may
+// call with its own (anon or user) credentials. Everything else is rejected before it leaves
+// the server, so the proxy can't be used to reach admin or RPC endpoints.
+
+export interface ProxyRule {
+  methods: string[];
+  path: RegExp;
+  description: string;
+  maxBodyBytes: number;
+}
+
+const KB = 1024;
+const MB = 1024 * KB;
+
+const TABLE = "[a-z_][a-z0-9_]*";
+
+export const PROXY_ALLOWLIST: ProxyRule[] = [
+  { methods: ["GET"], path: /^\/auth\/v1\/settings$/, description: "Auth settings", maxBodyBytes: 0 },
+  {
+    methods: ["POST"],
+    path: /^\/auth\/v1\/(token|signup|recover|otp|verify|logout)$/,
+    description: "Sign-in, sign-up and password recovery",
+    maxBodyBytes: 16 * KB,
+  },
+  { methods: ["GET"], path: /^\/auth\/v1\/verify$/, description: "Email link verification", maxBodyBytes: 0 },
+  { methods: ["GET", "PUT"], path: /^\/auth\/v1\/user$/, description: "Current user", maxBodyBytes: 16 * KB },
+  // Table access runs under the caller's JWT, so row level security still applies
+  {
+    methods: ["GET", "HEAD", "POST", "PATCH", "DELETE"],
+    path: new RegExp(`^/rest/v1/${TABLE}$`),
+    description: "Table reads and writes (RLS enforced)",
+    maxBodyBytes: 1 * MB,
+  },
+  {
+    methods: ["GET", "HEAD"],
+    path: /^\/storage\/v1\/object\/public\/[a-z0-9_-]+\/[^?#]+$/,
+    description: "Public storage objects",
+    maxBodyBytes: 0,
+  },
+  {
+    methods: ["GET", "POST", "PUT", "DELETE"],
+    path: /^\/storage\/v1\/object\/(?!public\/|sign\/|list\/)[a-z0-9_-]+\/[^?#]+$/,
+    description: "Storage object upload, download and delete (storage policies enforced)",
+    maxBodyBytes: 10 * MB,
+  },
+];
+
+// Headers that describe a single hop, plus credentials that must never reach Supabase from here
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+const SENSITIVE_HEADERS = ["cookie", "x-mfa-token", "x-forwarded-for", "x-forwarded-host", "x-forwarded-proto", "x-real-ip"];
+
+// Response headers Express sets itself
+const SKIPPED_RESPONSE_HEADERS = ["content-encoding", "transfer-encoding", "content-length", "connection", "keep-alive"];
+
+const isPlaceholder = (value: unknown) =>
+  !value || value === "placeholder" || (typeof value === "string" && value.includes("your-"));
+
+// Returns the rule that allows this call, or null. Paths with traversal or encoded dots never match.
+export function findProxyRule(method: string, path: string): ProxyRule | null {
+  if (/(^|\/)\.\.?(\/|$)|%2e|%2f|\/\//i.test(path)) return null;
+  return PROXY_ALLOWLIST.find((rule) => rule.methods.includes(method.toUpperCase()) && rule.path.test(path)) || null;
+}
+
+export function sanitizeProxyHeaders(
+  headers: Record<string, any>,
+  options: { targetHost: string; anonKey?: string; requestId?: string },
+): Record<string, any> {
+  const connectionListed = String(headers.connection || headers.Connection || "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  const dropped = new Set([...HOP_BY_HOP_HEADERS, ...SENSITIVE_HEADERS, ...connectionListed]);
+
+  const sanitized: Record<string, any> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!dropped.has(name.toLowerCase())) {
+      sanitized[name.toLowerCase()] = value;
+    }
+  }
+
+  sanitized.host = options.targetHost;
+  if (options.requestId) sanitized["x-request-id"] = options.requestId;
+
+  // Browsers built without the anon key still work; they never get more than anon access
+  if (options.anonKey && isPlaceholder(sanitized.apikey)) {
+    sanitized.apikey = options.anonKey;
+    const authorization = String(sanitized.authorization || "");
+    if (!authorization || authorization.includes("placeholder") || authorization.includes("your-")) {
+      sanitized.authorization = `Bearer ${options.anonKey}`;
+    }
+  }
+
+  return sanitized;
+}
+
+function logProxy(entry: Record<string, unknown>) {
+  console.log(JSON.stringify({ scope: "supabase-proxy", ...entry }));
+}
+
+// Middleware: reject calls outside the allowlist or over the size limit, and log every call
+export const guardSupabaseProxy: RequestHandler = (req, res, next) => {
+  const startedAt = Date.now();
+  const rule = findProxyRule(req.method, req.path);
+
+  if (!rule) {
+    logProxy({ requestId: req.requestId, method: req.method, path: req.path, status: 403, outcome: "rejected" });
+    return res.status(403).json({
+      success: false,
+      error: `${req.method} ${req.path} is not available through the Supabase proxy`,
+      code: "proxy_path_not_allowed",
+    });
+  }
+
+  // A chunked body has no length to check up front and would only be cut off at the largest
+  // limit of any rule. With a Content-Length, Node never reads more than the declared bytes.
+  if (req.header("transfer-encoding")) {
+    logProxy({ requestId: req.requestId, method: req.method, path: req.path, status: 411, outcome: "length_required" });
+    return res.status(411).json({
+      success: false,
+      error: "Request bodies sent through the Supabase proxy need a Content-Length header",
+      code: "length_required",
+    });
+  }
+
+  const contentLength = Number(req.header("content-length") || 0);
+  if (contentLength > rule.maxBodyBytes) {
+    logProxy({ requestId: req.requestId, method: req.method, path: req.path, status: 413, outcome: "too_large", contentLength });
+    return res.status(413).json({
+      success: false,
+      error: `Request body is larger than the ${Math.round(rule.maxBodyBytes / KB)} KB allowed for this endpoint`,
+      code: "payload_too_large",
+    });
+  }
+
+  res.on("finish", () => {
+    logProxy({
+      requestId: req.requestId,
+      method: req.method,
+      path: req.path,
+      rule: rule.description,
+      status: res.statusCode,
+      durationMs: Date.now() - startedAt,
+    });
+  });
+
+  next();
+};
+
+export function createSupabaseProxy(supabaseUrl: string, anonKey: string | undefined = process.env.VITE_SUPABASE_ANON_KEY) {
+  const targetHost = new URL(supabaseUrl).host;
+
+  return proxy(supabaseUrl, {
+    // A backstop only: the guard has already held the body to its rule's Content-Length limit
+    limit: `${Math.max(...PROXY_ALLOWLIST.map((rule) => rule.maxBodyBytes))}b`,
+    proxyReqPathResolver: (req) => req.url,
+    proxyReqOptDecorator: (proxyReqOpts, srcReq) => {
+      proxyReqOpts.headers = sanitizeProxyHeaders(proxyReqOpts.headers || {}, {
+        targetHost,
+        anonKey,
+        requestId: srcReq.requestId,
+      });
+      return proxyReqOpts;
+    },
+    proxyErrorHandler: (err, res) => {
+      logProxy({ requestId: res.req?.requestId, status: 502, outcome: "upstream_error", message: err.message });
+      res.status(502).json({ success: false, error: "Supabase is unreachable", code: "proxy_upstream_error" });
+    },
+    userResHeaderDecorator: (headers) => {
+      const filteredHeaders: Record<string, any> = {};
+      Object.entries(headers).forEach(([key, value]) => {
+        if (!SKIPPED_RESPONSE_HEADERS.includes(key.toLowerCase())) {
+          filteredHeaders[key] = value;
+        }
+      });
+      return filteredHeaders;
+    },
+  });
+}
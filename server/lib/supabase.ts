@@ -27,4 +27,8 @@ export const supabaseAdmin = createClient(
   serviceRoleKey || "sb_secret_placeholder"
 );
 
+// True when a query failed because the table has not been created yet (migration not applied)
+export const isMissingTableError = (error: { code?: string } | null) =>
+  error?.code === "42P01" || error?.code === "PGRST205";
+
 export default supabaseAdmin;
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateHotp,
+  generateRecoveryCodes,
+  generateTotp,
+  hashRecoveryCode,
+  verifyTotp,
+} from "./totp";
+
+// The RFC 4226 / RFC 6238 reference key "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("base32", () => {
+  it("should round-trip arbitrary bytes", () => {
+    const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it("should reject characters outside the alphabet", () => {
+    expect(() => base32Decode("ABC1")).toThrow("Invalid base32 secret");
+  });
+});
+
+describe("generateHotp", () => {
+  it("should match the RFC 4226 test vectors", () => {
+    expect(generateHotp(RFC_SECRET, 0)).toBe("755224");
+    expect(generateHotp(RFC_SECRET, 1)).toBe("287082");
+    expect(generateHotp(RFC_SECRET, 9)).toBe("520489");
+  });
+});
+
+describe("generateTotp", () => {
+  it("should match the RFC 6238 SHA-1 test vectors (last 6 digits)", () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe("287082");
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe("081804");
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe("005924");
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1_700_000_000_000;
+
+  it("should accept the current code and return its time step", () => {
+    const code = generateTotp(RFC_SECRET, now);
+    expect(verifyTotp(RFC_SECRET, code, { timeMs: now })).toBe(Math.floor(now / 30000));
+  });
+
+  it("should tolerate one step of clock drift but not more", () => {
+    const previous = generateTotp(RFC_SECRET, now - 30_000);
+    const stale = generateTotp(RFC_SECRET, now - 90_000);
+
+    expect(verifyTotp(RFC_SECRET, previous, { timeMs: now })).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, stale, { timeMs: now })).toBeNull();
+  });
+
+  it("should reject malformed codes", () => {
+    expect(verifyTotp(RFC_SECRET, "12345", { timeMs: now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef", { timeMs: now })).toBeNull();
+  });
+});
+
+describe("recovery codes", () => {
+  it("should generate unique codes that hash the same regardless of case and spacing", () => {
+    const codes = generateRecoveryCodes(10);
+
+    expect(new Set(codes).size).toBe(10);
+    expect(hashRecoveryCode(codes[0].toUpperCase() + " ")).toBe(hashRecoveryCode(codes[0]));
+  });
+});
+
+describe("buildOtpauthUri", () => {
+  it("should include the issuer, account and secret", () => {
+    const uri = buildOtpauthUri("JBSWY3DPEHPK3PXP", "vendor@example.com");
+
+    expect(uri.startsWith("otpauth://totp/Sharkbid%3Avendor%40example.com?")).toBe(true);
+    expect(uri).toContain("secret=JBSWY3DPEHPK3PXP");
+    expect(uri).toContain("issuer=Sharkbid");
+  });
+});
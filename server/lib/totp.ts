@@ -0,0 +1,131 @@
+import crypto from "crypto";
+
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30s steps), the profile every
+// authenticator app supports.
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$/, "").replace(/\s+/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// 160-bit secret, as recommended by RFC 4226
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function totpCounter(timeMs: number = Date.now()): number {
+  return Math.floor(timeMs / 1000 / TOTP_STEP_SECONDS);
+}
+
+// HOTP (RFC 4226) for a given counter; TOTP is HOTP over the current time step
+export function generateHotp(secret: string, counter: number, digits: number = TOTP_DIGITS): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, "0");
+}
+
+export function generateTotp(secret: string, timeMs: number = Date.now()): string {
+  return generateHotp(secret, totpCounter(timeMs));
+}
+
+// Check a code against the current step and `window` steps either side to allow for clock drift.
+// Returns the matching counter so callers can reject a code that was already used, or null.
+export function verifyTotp(
+  secret: string,
+  code: string,
+  options: { timeMs?: number; window?: number } = {},
+): number | null {
+  const normalized = code.replace(/\s+/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const current = totpCounter(options.timeMs ?? Date.now());
+  const window = options.window ?? 1;
+
+  for (let step = -window; step <= window; step++) {
+    const candidate = Buffer.from(generateHotp(secret, current + step));
+    if (crypto.timingSafeEqual(candidate, Buffer.from(normalized))) {
+      return current + step;
+    }
+  }
+
+  return null;
+}
+
+// otpauth:// URI understood by authenticator apps (tap-to-add on mobile, or encode as a QR code)
+export function buildOtpauthUri(secret: string, accountName: string, issuer = "Sharkbid"): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Recovery codes look like "a1b2c-d3e4f" and are only ever stored hashed
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(code.trim().toLowerCase().replace(/\s+/g, ""))
+    .digest("hex");
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+
+// usage_limits and usage_events in memory, with the filters the usage middleware uses
+const { tables, fakeSupabase } = vi.hoisted(() => {
+  const tables: Record<string, Record<string, any>[]> = { usage_limits: [], usage_events: [] };
+  let sequence = 0;
+
+  function query(table: string) {
+    const filters: Array<(row: Record<string, any>) => boolean> = [];
+    let action: "select" | "delete" = "select";
+    let inserted: Record<string, any> | null = null;
+    const rows = () => tables[table].filter((row) => filters.every((filter) => filter(row)));
+    const builder: any = {
+      select: () => builder,
+      order: () => builder,
+      limit: () => builder,
+      insert: ([row]: Record<string, any>[]) => {
+        sequence += 1;
+        inserted = { ...row, id: `event-${sequence}`, created_at: new Date(Date.now() + sequence).toISOString() };
+        tables[table].push(inserted);
+        return builder;
+      },
+      delete: () => {
+        action = "delete";
+        return builder;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      gte: (column: string, value: string) => {
+        filters.push((row) => row[column] >= value);
+        return builder;
+      },
+      lte: (column: string, value: string) => {
+        filters.push((row) => row[column] <= value);
+        return builder;
+      },
+      maybeSingle: async () => ({ data: rows()[0] || null, error: null }),
+      single: async () => ({ data: inserted, error: null }),
+      then: (resolve: (result: any) => unknown) => {
+        const matched = rows();
+        if (action === "delete") tables[table] = tables[table].filter((row) => !matched.includes(row));
+        return resolve({ data: matched, count: matched.length, error: null });
+      },
+    };
+    return builder;
+  }
+
+  return { tables, fakeSupabase: { from: query } };
+});
+
+vi.mock("./supabase", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./supabase")>()),
+  supabaseAdmin: fakeSupabase,
+}));
+
+import { enforceUsageLimit } from "./usage";
+
+const USER_ID = "user-1";
+
+function send(status: number) {
+  const listeners: Array<() => void> = [];
+  const res: any = {
+    statusCode: 200,
+    setHeader: () => {},
+    on: (event: string, listener: () => void) => event === "finish" && listeners.push(listener),
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  };
+  const next = () => {
+    res.statusCode = status;
+    listeners.forEach((listener) => listener());
+  };
+  return Promise.resolve(enforceUsageLimit("message")({ auth: { userId: USER_ID } } as any, res, next)).then(() => res.statusCode);
+}
+
+describe("enforceUsageLimit", () => {
+  it("should let only the allowance through when requests arrive together", async () => {
+    tables.usage_limits = [{ user_id: USER_ID, max_messages_per_hour: 2 }];
+    tables.usage_events = [];
+
+    const statuses = await Promise.all([send(200), send(200), send(200)]);
+
+    expect(statuses.sort()).toEqual([200, 200, 429]);
+    expect(tables.usage_events).toHaveLength(2);
+  });
+
+  it("should count the use before the handler runs and give it back when the request fails", async () => {
+    tables.usage_limits = [{ user_id: USER_ID, max_messages_per_hour: 2 }];
+    tables.usage_events = [];
+
+    expect(await send(500)).toBe(500);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(tables.usage_events).toHaveLength(0);
+
+    expect(await send(200)).toBe(200);
+    expect(tables.usage_events).toHaveLength(1);
+  });
+});
@@ -0,0 +1,210 @@
+import { RequestHandler } from "express";
+import { isMissingTableError, supabaseAdmin } from "./supabase";
+import { sendForbidden } from "./permissions";
+
+export type UsageMetric = "bid" | "message" | "ai_intake";
+
+interface UsageRule {
+  label: string;
+  limitColumn: string;
+  windowSeconds: number;
+  defaultLimit: number;
+}
+
+// Per-user allowances. A row in usage_limits overrides the default for that user.
+export const USAGE_RULES: Record<UsageMetric, UsageRule> = {
+  bid: { label: "bids per day", limitColumn: "max_bids_per_day", windowSeconds: 24 * 60 * 60, defaultLimit: 50 },
+  message: { label: "messages per hour", limitColumn: "max_messages_per_hour", windowSeconds: 60 * 60, defaultLimit: 120 },
+  ai_intake: { label: "AI intake requests per day", limitColumn: "max_ai_intake_per_day", windowSeconds: 24 * 60 * 60, defaultLimit: 200 },
+};
+
+const USAGE_METRICS = Object.keys(USAGE_RULES) as UsageMetric[];
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+export interface UsageCounter {
+  metric: UsageMetric;
+  label: string;
+  used: number;
+  limit: number;
+  windowSeconds: number;
+  // Seconds until the oldest counted event leaves the window (0 when nothing is counted)
+  resetsInSeconds: number;
+}
+
+export async function getActiveBlock(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from("user_blocks")
+    .select("id, reason, expires_at")
+    .eq("user_id", userId)
+    .eq("status", "active")
+    .maybeSingle();
+
+  if (error) {
+    if (isMissingTableError(error)) return null;
+    throw error;
+  }
+
+  if (data?.expires_at && new Date(data.expires_at) <= new Date()) {
+    return null;
+  }
+
+  return data;
+}
+
+async function getUserLimits(userId: string): Promise<Record<UsageMetric, number>> {
+  const { data, error } = await supabaseAdmin
+    .from("usage_limits")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error && !isMissingTableError(error)) throw error;
+
+  const limits = {} as Record<UsageMetric, number>;
+  for (const metric of USAGE_METRICS) {
+    const { limitColumn, defaultLimit } = USAGE_RULES[metric];
+    const override = data?.[limitColumn];
+    limits[metric] = typeof override === "number" ? override : defaultLimit;
+  }
+  return limits;
+}
+
+// `upTo` only counts events recorded at or before that time
+async function countUsage(userId: string, metric: UsageMetric, limit: number, upTo?: string): Promise<UsageCounter> {
+  const rule = USAGE_RULES[metric];
+  const windowStart = new Date(Date.now() - rule.windowSeconds * 1000).toISOString();
+
+  let query = supabaseAdmin
+    .from("usage_events")
+    .select("created_at", { count: "exact" })
+    .eq("user_id", userId)
+    .eq("metric", metric)
+    .gte("created_at", windowStart);
+  if (upTo) query = query.lte("created_at", upTo);
+
+  const { data, count, error } = await query.order("created_at", { ascending: true }).limit(1);
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      return { metric, label: rule.label, used: 0, limit, windowSeconds: rule.windowSeconds, resetsInSeconds: 0 };
+    }
+    throw error;
+  }
+
+  const oldest = data?.[0]?.created_at ? new Date(data[0].created_at).getTime() : null;
+  const resetsInSeconds = oldest
+    ? Math.max(1, Math.ceil((oldest + rule.windowSeconds * 1000 - Date.now()) / 1000))
+    : 0;
+
+  return { metric, label: rule.label, used: count || 0, limit, windowSeconds: rule.windowSeconds, resetsInSeconds };
+}
+
+export async function getUsageSummary(userId: string): Promise<UsageCounter[]> {
+  const limits = await getUserLimits(userId);
+  return Promise.all(USAGE_METRICS.map((metric) => countUsage(userId, metric, limits[metric])));
+}
+
+// Record one use up front; null when usage_events does not exist yet
+async function reserveUsage(userId: string, metric: UsageMetric): Promise<{ id: string; created_at: string } | null> {
+  const { data, error } = await supabaseAdmin
+    .from("usage_events")
+    .insert([{ user_id: userId, metric }])
+    .select("id, created_at")
+    .single();
+
+  if (error) {
+    if (isMissingTableError(error)) return null;
+    throw error;
+  }
+  return data;
+}
+
+async function releaseUsage(eventId: string) {
+  const { error } = await supabaseAdmin.from("usage_events").delete().eq("id", eventId);
+  if (error) {
+    console.error(`[USAGE] Failed to release usage event ${eventId}:`, error);
+  }
+}
+
+// Middleware: refuse writes from users with an active block. Runs after `requireAuth`/`optionalAuth`;
+// anonymous requests pass through.
+export const rejectBlockedUsers: RequestHandler = async (req, res, next) => {
+  if (!req.auth || !MUTATING_METHODS.includes(req.method)) {
+    return next();
+  }
+
+  try {
+    const block = await getActiveBlock(req.auth.userId);
+    if (block) {
+      const until = block.expires_at ? ` until ${new Date(block.expires_at).toLocaleDateString()}` : "";
+      return sendForbidden(res, `Your account is suspended${until}${block.reason ? `: ${block.reason}` : ""}`);
+    }
+    next();
+  } catch (error) {
+    console.error("[USAGE] Block check failed:", error);
+    res.status(500).json({
+      success: false,
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Middleware: count the request against the caller's allowance for `metric` and answer 429 with
+// Retry-After once it is used up. The use is recorded before the handler runs, so concurrent
+// requests see each other and a serverless function frozen after responding has still counted
+// it; failed responses give it back.
+export function enforceUsageLimit(metric: UsageMetric): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.auth) return next();
+    const { userId } = req.auth;
+
+    const limitReached = (counter: UsageCounter) => {
+      const retryAfter = counter.resetsInSeconds || USAGE_RULES[metric].windowSeconds;
+      res.setHeader("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        success: false,
+        error: `Limit reached: ${counter.limit} ${counter.label}. Try again in ${formatDuration(retryAfter)}.`,
+        code: "usage_limit",
+        usage: counter,
+        retryAfterSeconds: retryAfter,
+      });
+    };
+
+    try {
+      const limits = await getUserLimits(userId);
+      const counter = await countUsage(userId, metric, limits[metric]);
+      if (counter.used >= counter.limit) return limitReached(counter);
+
+      const reservation = await reserveUsage(userId, metric);
+      if (reservation) {
+        // Requests that reserved first keep their place; this one is over if they fill the allowance
+        const ahead = await countUsage(userId, metric, limits[metric], reservation.created_at);
+        if (ahead.used > ahead.limit) {
+          await releaseUsage(reservation.id);
+          return limitReached({ ...ahead, used: ahead.limit });
+        }
+
+        res.on("finish", () => {
+          if (res.statusCode >= 400) {
+            releaseUsage(reservation.id);
+          }
+        });
+      }
+      next();
+    } catch (error) {
+      console.error(`[USAGE] ${metric} limit check failed:`, error);
+      res.status(500).json({
+        success: false,
+        error: "Internal server error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+}
+
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  return `${Math.ceil(seconds / 3600)} h`;
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SCORING_CONFIG,
+  ScoreContribution,
+  ScoringConfig,
+  VendorCandidate,
+  explainForVendor,
+  rankVendors,
+  scoreVendor,
+  scoringConfigSchema,
+} from "./vendor-scoring";
+import { NO_LEAD_PREFERENCES } from "./lead-capacity";
+
+const CLEANING = "svc-cleaning";
+const ROOFING = "svc-roofing";
+
+const project = { id: "project-1", service_category_id: CLEANING, project_state: "MN", project_zip: "55401" };
+
+function vendor(overrides: Partial<VendorCandidate> & { vendor_id: string }): VendorCandidate {
+  return {
+    company_name: overrides.vendor_id,
+    services: [CLEANING],
+    coverage_states: ["MN"],
+    coverage_zips: [],
+    service_radii: [],
+    rating: null,
+    stats: { leads_routed: 0, bids_submitted: 0, bids_won: 0, open_leads: 0, leads_this_week: 0, last_routed_at: null },
+    preferences: NO_LEAD_PREFERENCES,
+    profile: {},
+    ...overrides,
+  };
+}
+
+function withSignals(signals: Partial<ScoringConfig["signals"]>): ScoringConfig {
+  return { ...DEFAULT_SCORING_CONFIG, signals: { ...DEFAULT_SCORING_CONFIG.signals, ...signals } };
+}
+
+const contribution = (result: { reasons: ScoreContribution[] }, signal: string) =>
+  result.reasons.find((reason) => reason.signal === signal);
+
+describe("scoreVendor", () => {
+  it("should report a contribution for every enabled signal that adds up to the score", () => {
+    const result = scoreVendor(vendor({ vendor_id: "a", rating: 4 }), project);
+
+    expect(result.reasons.map((r) => r.signal)).toEqual([
+      "service_match",
+      "proximity",
+      "rating",
+      "response_rate",
+      "win_rate",
+      "open_leads",
+      "profile_completeness",
+    ]);
+    const total = result.reasons.reduce((sum, r) => sum + r.points, 0);
+    expect(result.score).toBeCloseTo(total, 0);
+    expect(contribution(result, "rating")).toMatchObject({ value: 0.8, detail: "Rated 4.0 of 5" });
+  });
+
+  it("should rank a ZIP match above a state-only match", () => {
+    const inZip = scoreVendor(vendor({ vendor_id: "a", coverage_zips: ["55401"] }), project);
+    const inState = scoreVendor(vendor({ vendor_id: "b" }), project);
+
+    expect(contribution(inZip, "proximity").value).toBe(1);
+    expect(contribution(inState, "proximity").value).toBe(0.6);
+    expect(inZip.score).toBeGreaterThan(inState.score);
+  });
+
+  it("should use the service radius instead of state coverage when one is set", () => {
+    const minneapolisVendor = vendor({ vendor_id: "a", service_radii: [{ base_zip: "55401", radius_miles: 30 }] });
+    const duluthProject = { ...project, project_zip: "55802" };
+
+    const nearby = scoreVendor(minneapolisVendor, { ...project, project_zip: "55101" });
+    expect(contribution(nearby, "proximity").value).toBeGreaterThan(0.5);
+    expect(contribution(nearby, "proximity").detail).toMatch(/mi from 55401 \(within 30 mi\)/);
+
+    const far = scoreVendor(minneapolisVendor, duluthProject);
+    expect(contribution(far, "proximity").value).toBe(0);
+    expect(far.eligible).toBe(false);
+  });
+
+  it("should make vendors ineligible when a required signal scores zero", () => {
+    expect(scoreVendor(vendor({ vendor_id: "a", services: [ROOFING] }), project).eligible).toBe(false);
+    expect(scoreVendor(vendor({ vendor_id: "b", coverage_states: ["WI"] }), project).eligible).toBe(false);
+    expect(scoreVendor(vendor({ vendor_id: "c" }), project).eligible).toBe(true);
+  });
+
+  it("should match vendors who offer a parent of the project's category, below an exact match", () => {
+    const subcategoryProject = { ...project, service_category_id: "svc-office-cleaning", service_category_path: ["svc-office-cleaning", CLEANING] };
+    const broader = scoreVendor(vendor({ vendor_id: "a" }), subcategoryProject);
+    const exact = scoreVendor(vendor({ vendor_id: "b", services: ["svc-office-cleaning"] }), subcategoryProject);
+
+    expect(broader.eligible).toBe(true);
+    expect(contribution(broader, "service_match")).toMatchObject({ value: 0.75, detail: "Offers a broader category that covers the requested service" });
+    expect(exact.score).toBeGreaterThan(broader.score);
+    expect(scoreVendor(vendor({ vendor_id: "c", services: ["svc-office-cleaning"] }), project).eligible).toBe(false);
+  });
+
+  it("should leave out disabled signals and reweight the rest", () => {
+    const config = withSignals({
+      rating: { enabled: false, weight: 15, required: false },
+      response_rate: { enabled: false, weight: 10, required: false },
+      win_rate: { enabled: false, weight: 5, required: false },
+      open_leads: { enabled: false, weight: 10, required: false },
+      profile_completeness: { enabled: false, weight: 5, required: false },
+    });
+    const result = scoreVendor(vendor({ vendor_id: "a", coverage_zips: ["55401"] }), project, config);
+
+    expect(result.reasons.map((r) => r.signal)).toEqual(["service_match", "proximity"]);
+    expect(result.score).toBe(100);
+  });
+
+  it("should treat vendors without enough history as neutral", () => {
+    const newVendor = scoreVendor(
+      vendor({ vendor_id: "a", stats: { leads_routed: 1, bids_submitted: 0, bids_won: 0, open_leads: 0, leads_this_week: 0, last_routed_at: null } }),
+      project,
+    );
+    expect(contribution(newVendor, "response_rate").value).toBe(0.5);
+    expect(contribution(newVendor, "win_rate").value).toBe(0.5);
+
+    const veteran = scoreVendor(
+      vendor({ vendor_id: "b", stats: { leads_routed: 10, bids_submitted: 8, bids_won: 2, open_leads: 5, leads_this_week: 0, last_routed_at: null } }),
+      project,
+    );
+    expect(contribution(veteran, "response_rate").value).toBe(0.8);
+    expect(contribution(veteran, "win_rate").value).toBe(0.25);
+    expect(contribution(veteran, "open_leads").value).toBe(0.75);
+  });
+
+  it("should score profile completeness from the filled-in fields", () => {
+    const result = scoreVendor(
+      vendor({
+        vendor_id: "a",
+        profile: { company_description: "We clean", contact_email: "ops@example.com", certifications: [], avatar_url: "" },
+      }),
+      project,
+    );
+    expect(contribution(result, "profile_completeness").value).toBe(0.25);
+  });
+
+  it("should apply the minimum score", () => {
+    const config = { ...DEFAULT_SCORING_CONFIG, minScore: 99 };
+    expect(scoreVendor(vendor({ vendor_id: "a" }), project, config).eligible).toBe(false);
+  });
+});
+
+describe("rankVendors", () => {
+  const vendors = [
+    vendor({
+      vendor_id: "busy",
+      coverage_zips: ["55401"],
+      stats: { leads_routed: 0, bids_submitted: 0, bids_won: 0, open_leads: 20, leads_this_week: 0, last_routed_at: null },
+    }),
+    vendor({ vendor_id: "top", coverage_zips: ["55401"], rating: 5 }),
+    vendor({ vendor_id: "state-only" }),
+    vendor({ vendor_id: "wrong-service", services: [ROOFING] }),
+  ];
+
+  it("should return eligible vendors best first", () => {
+    expect(rankVendors(vendors, project).map((m) => m.vendor_id)).toEqual(["top", "busy", "state-only"]);
+  });
+
+  it("should include ineligible vendors when asked", () => {
+    const ranked = rankVendors(vendors, project, DEFAULT_SCORING_CONFIG, { includeIneligible: true });
+    expect(ranked).toHaveLength(4);
+    expect(ranked[ranked.length - 1].vendor_id).toBe("wrong-service");
+  });
+
+  it("should rotate equally scored vendors, least recently routed first", () => {
+    const stats = { leads_routed: 0, bids_submitted: 0, bids_won: 0, open_leads: 0, leads_this_week: 1 };
+    const tied = [
+      vendor({ vendor_id: "a", stats: { ...stats, last_routed_at: "2026-03-09T10:00:00Z" } }),
+      vendor({ vendor_id: "b", stats: { ...stats, last_routed_at: "2026-03-01T10:00:00Z" } }),
+      vendor({ vendor_id: "c", stats: { ...stats, leads_this_week: 0, last_routed_at: null } }),
+    ];
+    expect(rankVendors(tied, project).map((m) => m.vendor_id)).toEqual(["c", "b", "a"]);
+  });
+});
+
+describe("explainForVendor", () => {
+  it("should list the strongest positive signals in words", () => {
+    const result = scoreVendor(
+      vendor({
+        vendor_id: "a",
+        coverage_zips: ["55401"],
+        rating: 4.5,
+        stats: { leads_routed: 10, bids_submitted: 2, bids_won: 0, open_leads: 0, leads_this_week: 0, last_routed_at: null },
+      }),
+      project,
+    );
+
+    expect(explainForVendor(result.reasons)).toEqual(["Offers the requested service", "Covers ZIP 55401", "Rated 4.5 of 5"]);
+    expect(explainForVendor(result.reasons, 10)).not.toContain("Bid on 20% of 10 leads");
+  });
+
+  it("should return nothing for routings without reasons", () => {
+    expect(explainForVendor(null)).toEqual([]);
+    expect(explainForVendor([])).toEqual([]);
+  });
+});
+
+describe("scoringConfigSchema", () => {
+  it("should accept the default config and reject unknown signals", () => {
+    expect(scoringConfigSchema.safeParse(DEFAULT_SCORING_CONFIG).success).toBe(true);
+    expect(
+      scoringConfigSchema.safeParse({
+        ...DEFAULT_SCORING_CONFIG,
+        signals: { ...DEFAULT_SCORING_CONFIG.signals, zodiac: { enabled: true, weight: 5 } },
+      }).success,
+    ).toBe(false);
+  });
+});
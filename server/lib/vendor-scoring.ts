@@ -0,0 +1,311 @@
+import { z } from "zod";
+import { getSetting } from "./settings";
+import { ServiceRadius, matchServiceRadius } from "./geo";
+import { LeadPreferences } from "./lead-capacity";
+
+// Ranks vendors for a project. Each signal scores a vendor from 0 to 1; the final score is the
+// weighted average of the enabled signals on a 0–100 scale. Scoring is pure so it can be run
+// against fixtures; routing-service.ts loads the candidates.
+
+export type ScoringSignal =
+  | "service_match"
+  | "proximity"
+  | "rating"
+  | "response_rate"
+  | "win_rate"
+  | "open_leads"
+  | "profile_completeness";
+
+export const SCORING_SIGNALS: ScoringSignal[] = [
+  "service_match",
+  "proximity",
+  "rating",
+  "response_rate",
+  "win_rate",
+  "open_leads",
+  "profile_completeness",
+];
+
+export interface ScoringProject {
+  id: string;
+  service_category_id: string | null;
+  // The category and its ancestors, most specific first (service-taxonomy.ts categoryPath)
+  service_category_path?: string[];
+  project_state: string | null;
+  project_zip: string | null;
+  budget_min?: number | null;
+  budget_max?: number | null;
+}
+
+export interface VendorCandidate {
+  vendor_id: string;
+  company_name: string | null;
+  services: string[];
+  coverage_states: string[];
+  coverage_zips: string[];
+  // Base ZIPs with a service radius; when set they decide proximity instead of state coverage
+  service_radii: ServiceRadius[];
+  // Average review rating out of 5, null when the vendor has none yet
+  rating: number | null;
+  stats: {
+    leads_routed: number;
+    bids_submitted: number;
+    bids_won: number;
+    open_leads: number;
+    // Leads received in the last 7 days, for the weekly cap
+    leads_this_week: number;
+    last_routed_at: string | null;
+  };
+  preferences: LeadPreferences;
+  profile: Record<string, unknown>;
+}
+
+export interface ScoreContribution {
+  signal: ScoringSignal;
+  weight: number;
+  // 0–1 before weighting
+  value: number;
+  // Share of the final 0–100 score this signal contributed
+  points: number;
+  detail: string;
+}
+
+export interface MatchedVendor {
+  vendor_id: string;
+  score: number;
+  reasons: ScoreContribution[];
+}
+
+const signalConfigSchema = z
+  .object({
+    enabled: z.boolean(),
+    weight: z.number().min(0).max(100),
+    // A vendor scoring 0 on a required signal is not routed at all
+    required: z.boolean().default(false),
+  })
+  .strict();
+
+export const scoringConfigSchema = z
+  .object({
+    signals: z
+      .object(
+        Object.fromEntries(SCORING_SIGNALS.map((signal) => [signal, signalConfigSchema])) as Record<
+          ScoringSignal,
+          typeof signalConfigSchema
+        >,
+      )
+      .strict(),
+    // Vendors below this score are not routed
+    minScore: z.number().min(0).max(100).default(0),
+    // Open leads at which the load signal reaches 0
+    maxOpenLeads: z.number().int().min(1).max(1000).default(20),
+    // Vendors with fewer routed leads than this get a neutral response/win rate
+    minHistory: z.number().int().min(0).max(100).default(3),
+  })
+  .strict();
+
+export type ScoringConfig = z.infer<typeof scoringConfigSchema>;
+
+export const SCORING_CONFIG_SETTING = "routing_scoring_config";
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  signals: {
+    service_match: { enabled: true, weight: 30, required: true },
+    proximity: { enabled: true, weight: 25, required: true },
+    rating: { enabled: true, weight: 15, required: false },
+    response_rate: { enabled: true, weight: 10, required: false },
+    win_rate: { enabled: true, weight: 5, required: false },
+    open_leads: { enabled: true, weight: 10, required: false },
+    profile_completeness: { enabled: true, weight: 5, required: false },
+  },
+  minScore: 0,
+  maxOpenLeads: 20,
+  minHistory: 3,
+};
+
+export async function getScoringConfig(): Promise<ScoringConfig> {
+  const stored = await getSetting<unknown>(SCORING_CONFIG_SETTING, null);
+  const parsed = scoringConfigSchema.safeParse(stored);
+  return parsed.success ? parsed.data : DEFAULT_SCORING_CONFIG;
+}
+
+// Profile fields a business looks at before inviting a vendor
+export const PROFILE_COMPLETENESS_FIELDS = [
+  "company_description",
+  "company_website",
+  "contact_phone",
+  "contact_email",
+  "years_in_business",
+  "employee_count",
+  "certifications",
+  "avatar_url",
+];
+
+const NEUTRAL = 0.5;
+
+// Service match for a vendor who offers a parent of the project's category rather than the category itself
+const BROADER_SERVICE_MATCH = 0.75;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+type SignalResult = { value: number; detail: string };
+
+const SIGNALS: Record<
+  ScoringSignal,
+  (vendor: VendorCandidate, project: ScoringProject, config: ScoringConfig) => SignalResult
+> = {
+  service_match: (vendor, project) => {
+    if (project.service_category_id && vendor.services.includes(project.service_category_id)) {
+      return { value: 1, detail: "Offers the requested service" };
+    }
+    // A vendor offering IT Services also covers a project filed under Managed Security
+    return (project.service_category_path || []).slice(1).some((id) => vendor.services.includes(id))
+      ? { value: BROADER_SERVICE_MATCH, detail: "Offers a broader category that covers the requested service" }
+      : { value: 0, detail: "Does not offer the requested service" };
+  },
+
+  proximity: (vendor, project) => {
+    const radius = matchServiceRadius(project.project_zip, vendor.service_radii);
+    if (radius) {
+      const { base_zip, radius_miles, distance_miles } = radius;
+      // Full marks at the base ZIP, half at the edge of the radius
+      return radius.within
+        ? {
+            value: 1 - 0.5 * (radius_miles > 0 ? distance_miles / radius_miles : 0),
+            detail: `${distance_miles} mi from ${base_zip} (within ${radius_miles} mi)`,
+          }
+        : { value: 0, detail: `${distance_miles} mi from ${base_zip}, outside the ${radius_miles} mi radius` };
+    }
+
+    const zip = (project.project_zip || "").trim().slice(0, 5);
+    const state = (project.project_state || "").trim().toUpperCase();
+    if (zip && vendor.coverage_zips.includes(zip)) {
+      return { value: 1, detail: `Covers ZIP ${zip}` };
+    }
+    if (state && vendor.coverage_states.includes(state)) {
+      return { value: 0.6, detail: `Covers ${state}` };
+    }
+    return { value: 0, detail: "Outside coverage area" };
+  },
+
+  rating: (vendor) =>
+    vendor.rating === null || vendor.rating === undefined
+      ? { value: NEUTRAL, detail: "No ratings yet" }
+      : { value: clamp(vendor.rating / 5), detail: `Rated ${vendor.rating.toFixed(1)} of 5` },
+
+  response_rate: (vendor, _project, config) => {
+    const { leads_routed, bids_submitted } = vendor.stats;
+    if (leads_routed < config.minHistory) {
+      return { value: NEUTRAL, detail: "Not enough leads to judge response rate" };
+    }
+    const rate = clamp(bids_submitted / leads_routed);
+    return { value: rate, detail: `Bid on ${percent(rate)} of ${leads_routed} leads` };
+  },
+
+  win_rate: (vendor, _project, config) => {
+    const { bids_submitted, bids_won } = vendor.stats;
+    if (bids_submitted < config.minHistory) {
+      return { value: NEUTRAL, detail: "Not enough bids to judge win rate" };
+    }
+    const rate = clamp(bids_won / bids_submitted);
+    return { value: rate, detail: `Won ${percent(rate)} of ${bids_submitted} bids` };
+  },
+
+  open_leads: (vendor, _project, config) => {
+    const load = vendor.stats.open_leads;
+    return {
+      value: clamp(1 - load / config.maxOpenLeads),
+      detail: `${load} open lead${load === 1 ? "" : "s"}`,
+    };
+  },
+
+  profile_completeness: (vendor) => {
+    const filled = PROFILE_COMPLETENESS_FIELDS.filter((field) => {
+      const value = vendor.profile[field];
+      return Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined && value !== "";
+    }).length;
+    const value = filled / PROFILE_COMPLETENESS_FIELDS.length;
+    return { value, detail: `Profile ${percent(value)} complete` };
+  },
+};
+
+function clamp(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Score a single vendor. `eligible` is false when a required signal scored 0 or the total
+// is under the configured minimum.
+export function scoreVendor(
+  vendor: VendorCandidate,
+  project: ScoringProject,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+): MatchedVendor & { eligible: boolean } {
+  const enabled = SCORING_SIGNALS.filter((signal) => config.signals[signal].enabled);
+  const totalWeight = enabled.reduce((sum, signal) => sum + config.signals[signal].weight, 0);
+
+  let eligible = true;
+  const reasons: ScoreContribution[] = enabled.map((signal) => {
+    const { weight, required } = config.signals[signal];
+    const { value, detail } = SIGNALS[signal](vendor, project, config);
+    if (required && value === 0) eligible = false;
+    return {
+      signal,
+      weight,
+      value: Math.round(value * 100) / 100,
+      points: totalWeight > 0 ? round((weight * value * 100) / totalWeight) : 0,
+      detail,
+    };
+  });
+
+  const score = round(reasons.reduce((sum, reason) => sum + reason.points, 0));
+
+  return {
+    vendor_id: vendor.vendor_id,
+    score,
+    reasons,
+    eligible: eligible && score >= config.minScore,
+  };
+}
+
+// The few signals that did most for a vendor, in words, for "why you got this lead". Weights
+// and points stay internal; signals the vendor scored average or worse on are left out.
+export function explainForVendor(reasons: ScoreContribution[] | null | undefined, limit = 3): string[] {
+  return (reasons || [])
+    .filter((reason) =>
+      reason.signal === "service_match" || reason.signal === "proximity" ? reason.value > 0 : reason.value > NEUTRAL,
+    )
+    .sort((a, b) => b.points - a.points)
+    .slice(0, limit)
+    .map((reason) => reason.detail);
+}
+
+// Vendors with the same score take turns: whoever was routed a lead least recently goes first,
+// so ties don't always favour the same firms
+function compareRotation(a: VendorCandidate, b: VendorCandidate) {
+  const lastA = a.stats.last_routed_at ? new Date(a.stats.last_routed_at).getTime() : 0;
+  const lastB = b.stats.last_routed_at ? new Date(b.stats.last_routed_at).getTime() : 0;
+  return lastA - lastB || a.stats.leads_this_week - b.stats.leads_this_week;
+}
+
+// Rank vendors for a project, best first. Ineligible vendors are left out unless
+// `includeIneligible` is set (broadcast mode still ranks everyone).
+export function rankVendors(
+  vendors: VendorCandidate[],
+  project: ScoringProject,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  options: { includeIneligible?: boolean } = {},
+): MatchedVendor[] {
+  return vendors
+    .map((vendor) => ({ vendor, result: scoreVendor(vendor, project, config) }))
+    .filter(({ result }) => options.includeIneligible || result.eligible)
+    .sort(
+      (a, b) =>
+        b.result.score - a.result.score ||
+        compareRotation(a.vendor, b.vendor) ||
+        (a.vendor.company_name || "").localeCompare(b.vendor.company_name || "") ||
+        a.vendor.vendor_id.localeCompare(b.vendor.vendor_id),
+    )
+    .map(({ result: { vendor_id, score, reasons } }) => ({ vendor_id, score, reasons }));
+}
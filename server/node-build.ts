@@ -1,6 +1,8 @@
 import path from "path";
 import { fileURLToPath } from "url";
 import { createServer } from "./index";
+import { startRoutingWaveScheduler } from "./lib/routing-scheduler";
+import { startBidDeadlineScheduler } from "./lib/bid-deadlines";
 import express from "express";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -33,6 +35,8 @@ app.listen(port, () => {
   console.log(`🚀 Fusion Starter server running on port ${port}`);
   console.log(`📱 Frontend: http://localhost:${port}`);
   console.log(`🔧 API: http://localhost:${port}/api`);
+  startRoutingWaveScheduler();
+  startBidDeadlineScheduler();
 });
 
 // Graceful shutdown
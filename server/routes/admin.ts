@@ -1,30 +1,58 @@
 import { Router, Request, Response } from "express";
-import { supabaseAdmin } from "../lib/supabase";
+import { isMissingTableError, supabaseAdmin } from "../lib/supabase";
+import { requireAuth } from "../lib/auth";
+import { requireRecentMfa } from "../lib/mfa";
+import { getActiveBlock, getUsageSummary, rejectBlockedUsers } from "../lib/usage";
+import { requirePermission, requireRole, sendForbidden } from "../lib/permissions";
+import { profileAccessSchema, toFieldErrors } from "../lib/profile-schemas";
+import { auditQuerySchema, queryAuditLogs, recordAudit } from "../lib/audit";
+import { saveSetting } from "../lib/settings";
+import {
+  CONTACT_MODERATION_SETTING,
+  contactModerationPolicySchema,
+  getContactModerationPolicy,
+} from "../lib/contact-moderation";
+import { SCORING_CONFIG_SETTING, getScoringConfig, scoringConfigSchema } from "../lib/vendor-scoring";
+import { ROUTING_WAVE_SETTING, getRoutingWaveConfig, routingWaveConfigSchema } from "../lib/routing-waves";
+import {
+  flattenTaxonomy,
+  invalidateServiceTaxonomy,
+  loadServiceTaxonomy,
+  mergeServiceCategorySchema,
+  parentProblem,
+  replacementProblem,
+  retireServiceCategory,
+  retireServiceCategorySchema,
+  serviceCategorySchema,
+  updateServiceCategorySchema,
+} from "../lib/service-taxonomy";
+import {
+  coverageImportSchema,
+  coverageRegionSchema,
+  coverageRequestReviewSchema,
+  parseCoverageCsv,
+  planCoverageImport,
+  regionKind,
+  updateCoverageRegionSchema,
+} from "../lib/coverage-regions";
+import {
+  EXCLUDED_MESSAGE,
+  REVOKED_STATUS,
+  loadExcludedVendorIds,
+  manualRoutingSchema,
+  revokeRoutingSchema,
+  routingExclusionSchema,
+} from "../lib/routing-overrides";
 
 const router = Router();
 
-// Middleware to verify admin user (basic check)
-async function verifyAdmin(req: Request, res: Response, next: Function) {
-  try {
-    // In production, verify the JWT token and check if user is admin
-    // For now, we'll require a service role operation (server-side only)
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return res.status(401).json({ error: "Unauthorized" });
-    }
-
-    // In production, decode JWT and verify admin role
-    // For MVP, server-side operations are inherently protected
-    next();
-  } catch (error) {
-    res.status(401).json({ error: "Unauthorized" });
-  }
-}
+// Every admin endpoint needs a verified admin session with a recent MFA check;
+// individual routes add their own permission
+router.use("/admin", requireAuth, requireRole("admin"), requireRecentMfa, rejectBlockedUsers);
 
 // POST /api/admin/assign-creator
 // Body: { projectId, creatorId, role }
-router.post("/admin/assign-creator", async (req: Request, res: Response) => {
+router.post("/admin/assign-creator", requirePermission("project:assign"), async (req: Request, res: Response) => {
   try {
     const { projectId, creatorId, role = "contributor" } = req.body;
 
@@ -65,6 +93,15 @@ router.post("/admin/assign-creator", async (req: Request, res: Response) => {
     }
 
     console.log("[ADMIN] Successfully assigned creator");
+
+    await recordAudit(req, {
+      action: "project.creator_assigned",
+      entityType: "project_assignment",
+      entityId: data?.[0]?.id,
+      after: data?.[0],
+      metadata: { project_id: projectId, creator_id: creatorId },
+    });
+
     return res.status(200).json({
       success: true,
       data: data?.[0] || { project_id: projectId, creator_id: creatorId, role },
@@ -84,6 +121,7 @@ router.post("/admin/assign-creator", async (req: Request, res: Response) => {
 // Body: { projectId, creatorIds: string[], role }
 router.post(
   "/admin/bulk-assign-creators",
+  requirePermission("project:assign"),
   async (req: Request, res: Response) => {
     try {
       const { projectId, creatorIds, role = "contributor" } = req.body;
@@ -116,6 +154,14 @@ router.post(
         });
       }
 
+      await recordAudit(req, {
+        action: "project.creators_assigned",
+        entityType: "project",
+        entityId: projectId,
+        after: { creator_ids: creatorIds, role },
+        metadata: { assignment_ids: (data || []).map((assignment) => assignment.id) },
+      });
+
       return res.json({
         success: true,
         count: data?.length || 0,
@@ -132,7 +178,7 @@ router.post(
 );
 
 // GET /api/admin/project-assignments/:projectId
-router.get("/admin/project-assignments/:projectId", async (req: Request, res: Response) => {
+router.get("/admin/project-assignments/:projectId", requirePermission("project:read_all"), async (req: Request, res: Response) => {
   try {
     const { projectId } = req.params;
 
@@ -169,7 +215,7 @@ router.get("/admin/project-assignments/:projectId", async (req: Request, res: Re
 });
 
 // GET /api/admin/routings
-router.get("/admin/routings", async (req: Request, res: Response) => {
+router.get("/admin/routings", requirePermission("routing:read"), async (req: Request, res: Response) => {
   try {
     console.log("[ADMIN] Fetching all project routings");
 
@@ -182,6 +228,13 @@ router.get("/admin/routings", async (req: Request, res: Response) => {
         vendor_id,
         routed_at,
         status,
+        wave,
+        score,
+        reasons,
+        source,
+        override_reason,
+        revoked_at,
+        revoke_reason,
         projects(id, title, budget_max)
       `)
       .order("routed_at", { ascending: false });
@@ -208,48 +261,1573 @@ router.get("/admin/routings", async (req: Request, res: Response) => {
   }
 });
 
-// GET /api/admin/projects
-router.get("/admin/projects", async (req: Request, res: Response) => {
+// POST /api/admin/routings
+// Body: { projectId, vendorId, reason } — route a project to a vendor by hand
+router.post("/admin/routings", requirePermission("routing:write"), async (req: Request, res: Response) => {
   try {
-    console.log("[ADMIN] Fetching all projects");
+    const parsed = manualRoutingSchema.safeParse(req.body ?? {});
 
-    // Use service role to bypass RLS
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const { projectId, vendorId, reason } = parsed.data;
+
+    const [{ data: project }, { data: vendor }, { data: before }] = await Promise.all([
+      supabaseAdmin.from("projects").select("id, business_id, status").eq("id", projectId).maybeSingle(),
+      supabaseAdmin.from("profiles").select("user_id, role").eq("user_id", vendorId).maybeSingle(),
+      supabaseAdmin.from("project_routing").select("*").eq("project_id", projectId).eq("vendor_id", vendorId).maybeSingle(),
+    ]);
+
+    if (!project) {
+      return res.status(404).json({ error: "Project not found", success: false });
+    }
+    if (vendor?.role !== "vendor") {
+      return res.status(400).json({ error: "Routings can only be added for vendors", success: false });
+    }
+    if ((await loadExcludedVendorIds(project.business_id)).has(vendorId)) {
+      return res.status(409).json({ error: EXCLUDED_MESSAGE, success: false });
+    }
+    if (before && before.status !== REVOKED_STATUS && before.status !== "declined") {
+      return res.status(409).json({ error: "This vendor already has the lead", success: false });
+    }
+
+    // A revoked or declined routing is reopened rather than duplicated
+    const override = {
+      status: "routed",
+      source: "manual",
+      override_reason: reason,
+      overridden_by: req.auth.userId,
+      revoked_at: null,
+      revoked_by: null,
+      revoke_reason: null,
+    };
+    const { data: after, error } = before
+      ? await supabaseAdmin.from("project_routing").update(override).eq("id", before.id).select().single()
+      : await supabaseAdmin
+          .from("project_routing")
+          .insert({ project_id: projectId, vendor_id: vendorId, ...override })
+          .select()
+          .single();
+
+    if (error) throw error;
+
+    await supabaseAdmin.from("project_activity").insert({
+      project_id: projectId,
+      action: "routing_override_added",
+      details: { vendor_id: vendorId, reason, by: req.auth.userId },
+    });
+
+    await recordAudit(req, {
+      action: "routing.override_added",
+      entityType: "project_routing",
+      entityId: after.id,
+      before,
+      after,
+      metadata: { project_id: projectId, vendor_id: vendorId, reason },
+    });
+
+    return res.json({ success: true, data: after });
+  } catch (error) {
+    console.error("[ADMIN] Error in add routing endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// POST /api/admin/routings/:routingId/revoke
+// Body: { reason } — pull a lead back from a vendor. The row stays so routing never re-sends it.
+router.post("/admin/routings/:routingId/revoke", requirePermission("routing:write"), async (req: Request, res: Response) => {
+  try {
+    const { routingId } = req.params;
+    const parsed = revokeRoutingSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const { data: before, error: fetchError } = await supabaseAdmin
+      .from("project_routing")
+      .select("*, projects(selected_vendor_id)")
+      .eq("id", routingId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (!before) {
+      return res.status(404).json({ error: "Routing not found", success: false });
+    }
+    if (before.status === REVOKED_STATUS) {
+      return res.status(409).json({ error: "This routing is already revoked", success: false });
+    }
+    if ((before as any).projects?.selected_vendor_id === before.vendor_id) {
+      return res.status(409).json({ error: "The selected vendor's lead cannot be revoked", success: false });
+    }
+
+    const { reason } = parsed.data;
+    const { data: after, error: updateError } = await supabaseAdmin
+      .from("project_routing")
+      .update({
+        status: REVOKED_STATUS,
+        revoked_at: new Date().toISOString(),
+        revoked_by: req.auth.userId,
+        revoke_reason: reason,
+      })
+      .eq("id", routingId)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    // Any bid the vendor placed goes with the lead
+    await supabaseAdmin
+      .from("vendor_responses")
+      .update({ status: "withdrawn" })
+      .eq("project_id", before.project_id)
+      .eq("vendor_id", before.vendor_id);
+
+    await supabaseAdmin.from("project_activity").insert({
+      project_id: before.project_id,
+      action: "routing_revoked",
+      details: { vendor_id: before.vendor_id, reason, by: req.auth.userId },
+    });
+
+    const { projects: _project, ...beforeRow } = before as any;
+    await recordAudit(req, {
+      action: "routing.revoked",
+      entityType: "project_routing",
+      entityId: routingId,
+      before: beforeRow,
+      after,
+      metadata: { project_id: before.project_id, vendor_id: before.vendor_id, reason },
+    });
+
+    return res.json({ success: true, data: after });
+  } catch (error) {
+    console.error("[ADMIN] Error in revoke routing endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/routing/exclusions
+router.get("/admin/routing/exclusions", requirePermission("routing:read"), async (req: Request, res: Response) => {
+  try {
     const { data, error } = await supabaseAdmin
-      .from("projects")
+      .from("routing_exclusions")
       .select("*")
       .order("created_at", { ascending: false });
 
     if (error) {
-      console.error("[ADMIN] Supabase error fetching projects:", error);
+      if (isMissingTableError(error)) {
+        return res.json({ success: true, data: [] });
+      }
+      throw error;
+    }
+
+    const userIds = [...new Set((data || []).flatMap((row) => [row.business_id, row.vendor_id]))];
+    const { data: profiles } = userIds.length
+      ? await supabaseAdmin.from("profiles").select("user_id, company_name, contact_email").in("user_id", userIds)
+      : { data: [] as any[] };
+    const profileById = new Map((profiles || []).map((profile) => [profile.user_id, profile]));
+
+    return res.json({
+      success: true,
+      data: (data || []).map((row) => ({
+        ...row,
+        business: profileById.get(row.business_id) || null,
+        vendor: profileById.get(row.vendor_id) || null,
+      })),
+    });
+  } catch (error) {
+    console.error("[ADMIN] Error in routing exclusions endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// POST /api/admin/routing/exclusions
+// Body: { businessId, vendorId, reason } — also revokes the vendor's leads on the business's open projects
+router.post("/admin/routing/exclusions", requirePermission("routing:write"), async (req: Request, res: Response) => {
+  try {
+    const parsed = routingExclusionSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
       return res.status(400).json({
-        error: error.message || "Failed to fetch projects",
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
         success: false,
       });
     }
 
-    // Fetch all business profiles to map names
-    const businessIds = [...new Set((data || []).map(p => p.business_id))];
+    const { businessId, vendorId, reason } = parsed.data;
+
     const { data: profiles } = await supabaseAdmin
       .from("profiles")
-      .select("user_id, company_name")
-      .in("user_id", businessIds);
+      .select("user_id, role")
+      .in("user_id", [businessId, vendorId]);
 
-    const profileMap = (profiles || []).reduce((acc: any, p) => {
-      acc[p.user_id] = p.company_name;
-      return acc;
-    }, {});
+    const roleOf = (id: string) => profiles?.find((profile) => profile.user_id === id)?.role;
+    if (roleOf(businessId) !== "business" || roleOf(vendorId) !== "vendor") {
+      return res.status(400).json({ error: "Exclusions pair a business with a vendor", success: false });
+    }
 
-    const enrichedProjects = (data || []).map(p => ({
-      ...p,
-      business_name: profileMap[p.business_id] || "Unknown"
-    }));
+    const { data: exclusion, error } = await supabaseAdmin
+      .from("routing_exclusions")
+      .insert({ business_id: businessId, vendor_id: vendorId, reason, created_by: req.auth.userId })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return res.status(409).json({ error: "This vendor is already excluded from this business", success: false });
+      }
+      throw error;
+    }
+
+    const { data: openProjects } = await supabaseAdmin
+      .from("projects")
+      .select("id")
+      .eq("business_id", businessId)
+      .eq("status", "open");
+
+    const projectIds = (openProjects || []).map((project) => project.id);
+    const { data: revoked } = projectIds.length
+      ? await supabaseAdmin
+          .from("project_routing")
+          .update({
+            status: REVOKED_STATUS,
+            revoked_at: new Date().toISOString(),
+            revoked_by: req.auth.userId,
+            revoke_reason: `Excluded: ${reason}`,
+          })
+          .eq("vendor_id", vendorId)
+          .in("project_id", projectIds)
+          .neq("status", REVOKED_STATUS)
+          .select("id, project_id")
+      : { data: [] as any[] };
+
+    await recordAudit(req, {
+      action: "routing.exclusion_added",
+      entityType: "routing_exclusion",
+      entityId: exclusion.id,
+      after: exclusion,
+      metadata: { business_id: businessId, vendor_id: vendorId, reason, revoked_routing_ids: (revoked || []).map((r) => r.id) },
+    });
+
+    return res.json({ success: true, data: exclusion, revoked: (revoked || []).length });
+  } catch (error) {
+    console.error("[ADMIN] Error in add routing exclusion endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// DELETE /api/admin/routing/exclusions/:exclusionId
+// Body: { reason } — revoked routings stay revoked; add them back by hand if needed
+router.delete("/admin/routing/exclusions/:exclusionId", requirePermission("routing:write"), async (req: Request, res: Response) => {
+  try {
+    const { exclusionId } = req.params;
+    const parsed = revokeRoutingSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const { data: before, error } = await supabaseAdmin
+      .from("routing_exclusions")
+      .delete()
+      .eq("id", exclusionId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!before) {
+      return res.status(404).json({ error: "Exclusion not found", success: false });
+    }
+
+    await recordAudit(req, {
+      action: "routing.exclusion_removed",
+      entityType: "routing_exclusion",
+      entityId: exclusionId,
+      before,
+      metadata: { business_id: before.business_id, vendor_id: before.vendor_id, reason: parsed.data.reason },
+    });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("[ADMIN] Error in remove routing exclusion endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/routing/runs?projectId=&limit=
+router.get("/admin/routing/runs", requirePermission("routing:read"), async (req: Request, res: Response) => {
+  try {
+    const projectId = typeof req.query.projectId === "string" ? req.query.projectId : null;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+
+    let query = supabaseAdmin
+      .from("routing_runs")
+      .select("*")
+      .order("started_at", { ascending: false })
+      .limit(limit);
+
+    if (projectId) {
+      query = query.eq("project_id", projectId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("[ADMIN] Supabase error fetching routing runs:", error);
+      return res.status(400).json({
+        error: error.message || "Failed to fetch routing runs",
+        success: false,
+      });
+    }
+
+    return res.json({ success: true, data: data || [] });
+  } catch (error) {
+    console.error("[ADMIN] Error in routing runs endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/routing/waves?projectId=&status=
+router.get("/admin/routing/waves", requirePermission("routing:read"), async (req: Request, res: Response) => {
+  try {
+    const projectId = typeof req.query.projectId === "string" ? req.query.projectId : null;
+    const status = typeof req.query.status === "string" ? req.query.status : null;
+
+    let query = supabaseAdmin
+      .from("routing_waves")
+      .select("*, projects(id, title, status)")
+      .order("created_at", { ascending: false })
+      .limit(200);
+
+    if (projectId) query = query.eq("project_id", projectId);
+    if (status && status !== "all") query = query.eq("status", status);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("[ADMIN] Supabase error fetching routing waves:", error);
+      return res.status(400).json({
+        error: error.message || "Failed to fetch routing waves",
+        success: false,
+      });
+    }
+
+    return res.json({ success: true, data: data || [] });
+  } catch (error) {
+    console.error("[ADMIN] Error in routing waves endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/routing/waves/config
+router.get("/admin/routing/waves/config", requirePermission("routing:read"), async (req: Request, res: Response) => {
+  try {
+    return res.json({ success: true, data: await getRoutingWaveConfig() });
+  } catch (error) {
+    console.error("[ADMIN] Error in get wave config endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// PUT /api/admin/routing/waves/config
+// Body: { enabled, initialSize, expansionSize, minBids, windowHours, maxWaves, radiusGrowth, relaxFromWave }
+router.put("/admin/routing/waves/config", requirePermission("routing:write"), async (req: Request, res: Response) => {
+  try {
+    const parsed = routingWaveConfigSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const before = await getRoutingWaveConfig();
+    await saveSetting(ROUTING_WAVE_SETTING, parsed.data, req.auth.userId);
+
+    await recordAudit(req, {
+      action: "routing.waves_config_changed",
+      entityType: "platform_setting",
+      entityId: ROUTING_WAVE_SETTING,
+      before,
+      after: parsed.data,
+    });
+
+    return res.json({ success: true, data: parsed.data });
+  } catch (error) {
+    console.error("[ADMIN] Error in update wave config endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/routing/scoring
+router.get("/admin/routing/scoring", requirePermission("routing:read"), async (req: Request, res: Response) => {
+  try {
+    return res.json({ success: true, data: await getScoringConfig() });
+  } catch (error) {
+    console.error("[ADMIN] Error in get scoring config endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// PUT /api/admin/routing/scoring
+// Body: { signals: { [signal]: { enabled, weight, required } }, minScore?, maxOpenLeads?, minHistory? }
+router.put("/admin/routing/scoring", requirePermission("routing:write"), async (req: Request, res: Response) => {
+  try {
+    const parsed = scoringConfigSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const before = await getScoringConfig();
+    await saveSetting(SCORING_CONFIG_SETTING, parsed.data, req.auth.userId);
+
+    await recordAudit(req, {
+      action: "routing.scoring_changed",
+      entityType: "platform_setting",
+      entityId: SCORING_CONFIG_SETTING,
+      before,
+      after: parsed.data,
+    });
+
+    return res.json({ success: true, data: parsed.data });
+  } catch (error) {
+    console.error("[ADMIN] Error in update scoring config endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/service-categories
+// The whole taxonomy, retired categories included, with how many projects and vendors use each
+router.get("/admin/service-categories", requirePermission("taxonomy:manage"), async (req: Request, res: Response) => {
+  try {
+    const [categories, { data: projects, error: projectError }, { data: vendors, error: vendorError }] = await Promise.all([
+      loadServiceTaxonomy({ fresh: true }),
+      supabaseAdmin.from("projects").select("service_category_id"),
+      supabaseAdmin.from("profiles").select("vendor_services").eq("role", "vendor"),
+    ]);
+
+    if (projectError) throw projectError;
+    if (vendorError) throw vendorError;
 
     return res.json({
       success: true,
-      data: enrichedProjects,
+      data: flattenTaxonomy(categories).map((category) => ({
+        ...category,
+        project_count: (projects || []).filter((p) => p.service_category_id === category.id).length,
+        vendor_count: (vendors || []).filter((v) => (v.vendor_services || []).includes(category.id)).length,
+      })),
     });
   } catch (error) {
-    console.error("[ADMIN] Error in get projects endpoint:", error);
+    console.error("[ADMIN] Error in service categories endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// POST /api/admin/service-categories
+// Body: { name, description?, parentId?, synonyms? }
+router.post("/admin/service-categories", requirePermission("taxonomy:manage"), async (req: Request, res: Response) => {
+  try {
+    const parsed = serviceCategorySchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const { name, description, parentId, synonyms } = parsed.data;
+    const problem = parentProblem(await loadServiceTaxonomy({ fresh: true }), null, parentId);
+    if (problem) {
+      return res.status(400).json({ error: problem, fieldErrors: { parentId: problem }, success: false });
+    }
+
+    const { data: category, error } = await supabaseAdmin
+      .from("service_categories")
+      .insert({ name, description: description || null, parent_id: parentId || null, synonyms: synonyms || [] })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return res.status(409).json({ error: "A category with this name already exists", success: false });
+      }
+      throw error;
+    }
+
+    invalidateServiceTaxonomy();
+
+    await recordAudit(req, {
+      action: "taxonomy.category_created",
+      entityType: "service_category",
+      entityId: category.id,
+      after: category,
+    });
+
+    return res.json({ success: true, data: category });
+  } catch (error) {
+    console.error("[ADMIN] Error in create service category endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// PATCH /api/admin/service-categories/:categoryId
+// Body: any of { name, description, parentId, synonyms }
+router.patch("/admin/service-categories/:categoryId", requirePermission("taxonomy:manage"), async (req: Request, res: Response) => {
+  try {
+    const { categoryId } = req.params;
+    const parsed = updateServiceCategorySchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const categories = await loadServiceTaxonomy({ fresh: true });
+    const before = categories.find((category) => category.id === categoryId);
+
+    if (!before) {
+      return res.status(404).json({ error: "Category not found", success: false });
+    }
+    if (before.retired_at) {
+      return res.status(409).json({ error: "Retired categories cannot be edited", success: false });
+    }
+
+    const { name, description, parentId, synonyms } = parsed.data;
+    const problem = parentProblem(categories, categoryId, parentId);
+    if (problem) {
+      return res.status(400).json({ error: problem, fieldErrors: { parentId: problem }, success: false });
+    }
+
+    const { data: category, error } = await supabaseAdmin
+      .from("service_categories")
+      .update({
+        ...(name !== undefined ? { name } : {}),
+        ...(description !== undefined ? { description: description || null } : {}),
+        ...(parentId !== undefined ? { parent_id: parentId } : {}),
+        ...(synonyms !== undefined ? { synonyms } : {}),
+        updated_at: new Date(),
+      })
+      .eq("id", categoryId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return res.status(409).json({ error: "A category with this name already exists", success: false });
+      }
+      throw error;
+    }
+
+    invalidateServiceTaxonomy();
+
+    await recordAudit(req, {
+      action: "taxonomy.category_updated",
+      entityType: "service_category",
+      entityId: categoryId,
+      before,
+      after: category,
+    });
+
+    return res.json({ success: true, data: category });
+  } catch (error) {
+    console.error("[ADMIN] Error in update service category endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// POST /api/admin/service-categories/:categoryId/merge
+// Body: { targetId } — moves projects, vendor services and subcategories to the target and retires this one
+router.post("/admin/service-categories/:categoryId/merge", requirePermission("taxonomy:manage"), async (req: Request, res: Response) => {
+  try {
+    const { categoryId } = req.params;
+    const parsed = mergeServiceCategorySchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const categories = await loadServiceTaxonomy({ fresh: true });
+    const source = categories.find((category) => category.id === categoryId);
+    const target = categories.find((category) => category.id === parsed.data.targetId);
+
+    if (!source || source.retired_at) {
+      return res.status(404).json({ error: "Category not found", success: false });
+    }
+    if (!target) {
+      return res.status(400).json({ error: "Unknown target category", fieldErrors: { targetId: "Unknown target category" }, success: false });
+    }
+
+    const problem = replacementProblem(categories, source, target);
+    if (problem) {
+      return res.status(400).json({ error: problem, fieldErrors: { targetId: problem }, success: false });
+    }
+
+    const moved = await retireServiceCategory(source, target, { merge: true });
+
+    await recordAudit(req, {
+      action: "taxonomy.category_merged",
+      entityType: "service_category",
+      entityId: categoryId,
+      before: source,
+      metadata: { target_id: target.id, target_name: target.name, ...moved },
+    });
+
+    return res.json({ success: true, ...moved });
+  } catch (error) {
+    console.error("[ADMIN] Error in merge service category endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// POST /api/admin/service-categories/:categoryId/retire
+// Body: { replacementId? } — projects and vendor services move to the replacement, or to the parent
+// category when none is given
+router.post("/admin/service-categories/:categoryId/retire", requirePermission("taxonomy:manage"), async (req: Request, res: Response) => {
+  try {
+    const { categoryId } = req.params;
+    const parsed = retireServiceCategorySchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const categories = await loadServiceTaxonomy({ fresh: true });
+    const source = categories.find((category) => category.id === categoryId);
+
+    if (!source || source.retired_at) {
+      return res.status(404).json({ error: "Category not found", success: false });
+    }
+
+    const replacementId = parsed.data.replacementId || source.parent_id;
+    const replacement = replacementId ? categories.find((category) => category.id === replacementId) : null;
+
+    if (replacementId && !replacement) {
+      return res.status(400).json({ error: "Unknown replacement category", fieldErrors: { replacementId: "Unknown replacement category" }, success: false });
+    }
+
+    const problem = replacement ? replacementProblem(categories, source, replacement) : null;
+    if (problem) {
+      return res.status(400).json({ error: problem, fieldErrors: { replacementId: problem }, success: false });
+    }
+
+    if (!replacement) {
+      const { count, error } = await supabaseAdmin
+        .from("projects")
+        .select("id", { count: "exact", head: true })
+        .eq("service_category_id", categoryId);
+
+      if (error) throw error;
+      if (count) {
+        return res.status(409).json({
+          error: `${count} project(s) use this category; pick a replacement to move them to`,
+          success: false,
+        });
+      }
+    }
+
+    const moved = await retireServiceCategory(source, replacement, { merge: false });
+
+    await recordAudit(req, {
+      action: "taxonomy.category_retired",
+      entityType: "service_category",
+      entityId: categoryId,
+      before: source,
+      metadata: { replacement_id: replacement?.id || null, ...moved },
+    });
+
+    return res.json({ success: true, ...moved });
+  } catch (error) {
+    console.error("[ADMIN] Error in retire service category endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/coverage-regions?state=
+// Every region with the vendors that cover it
+router.get("/admin/coverage-regions", requirePermission("coverage:manage"), async (req: Request, res: Response) => {
+  try {
+    const state = typeof req.query.state === "string" ? req.query.state.toUpperCase() : null;
+
+    let query = supabaseAdmin.from("coverage_areas").select("*").order("state").order("region", { nullsFirst: true });
+    if (state) query = query.eq("state", state);
+
+    const [{ data: regions, error }, { data: vendors, error: vendorError }] = await Promise.all([
+      query,
+      supabaseAdmin.from("profiles").select("user_id, company_name, vendor_coverage_areas").eq("role", "vendor"),
+    ]);
+
+    if (error) throw error;
+    if (vendorError) throw vendorError;
+
+    return res.json({
+      success: true,
+      data: (regions || []).map((region) => ({
+        ...region,
+        kind: regionKind(region),
+        zip_codes: region.zip_codes || [],
+        vendors: (vendors || [])
+          .filter((vendor) => (vendor.vendor_coverage_areas || []).includes(region.id))
+          .map(({ user_id, company_name }) => ({ user_id, company_name })),
+      })),
+    });
+  } catch (error) {
+    console.error("[ADMIN] Error in coverage regions endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// POST /api/admin/coverage-regions
+// Body: { kind, state, name?, zipCodes? } — metro and custom regions need a name and ZIPs
+router.post("/admin/coverage-regions", requirePermission("coverage:manage"), async (req: Request, res: Response) => {
+  try {
+    const parsed = coverageRegionSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const { kind, state, name, zipCodes } = parsed.data;
+    const { data: region, error } = await supabaseAdmin
+      .from("coverage_areas")
+      .insert({ kind, state, region: kind === "state" ? null : name, zip_codes: kind === "state" ? [] : zipCodes })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return res.status(409).json({ error: "This region already exists", success: false });
+      }
+      throw error;
+    }
+
+    await recordAudit(req, {
+      action: "coverage.region_created",
+      entityType: "coverage_area",
+      entityId: region.id,
+      after: region,
+    });
+
+    return res.json({ success: true, data: region });
+  } catch (error) {
+    console.error("[ADMIN] Error in create coverage region endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// PATCH /api/admin/coverage-regions/:regionId
+// Body: { name?, zipCodes? } — only metro and custom regions have a name and ZIPs to edit
+router.patch("/admin/coverage-regions/:regionId", requirePermission("coverage:manage"), async (req: Request, res: Response) => {
+  try {
+    const { regionId } = req.params;
+    const parsed = updateCoverageRegionSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const { data: before, error: fetchError } = await supabaseAdmin
+      .from("coverage_areas")
+      .select("*")
+      .eq("id", regionId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (!before) {
+      return res.status(404).json({ error: "Region not found", success: false });
+    }
+    if (regionKind(before) === "state") {
+      return res.status(409).json({ error: "Whole-state regions have no name or ZIPs to edit", success: false });
+    }
+
+    const { name, zipCodes } = parsed.data;
+    const { data: region, error } = await supabaseAdmin
+      .from("coverage_areas")
+      .update({
+        ...(name !== undefined ? { region: name } : {}),
+        ...(zipCodes !== undefined ? { zip_codes: zipCodes } : {}),
+        updated_at: new Date(),
+      })
+      .eq("id", regionId)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return res.status(409).json({ error: "A region with this name already exists in this state", success: false });
+      }
+      throw error;
+    }
+
+    await recordAudit(req, {
+      action: "coverage.region_updated",
+      entityType: "coverage_area",
+      entityId: regionId,
+      before,
+      after: region,
+    });
+
+    return res.json({ success: true, data: region });
+  } catch (error) {
+    console.error("[ADMIN] Error in update coverage region endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// DELETE /api/admin/coverage-regions/:regionId — only regions no vendor covers
+router.delete("/admin/coverage-regions/:regionId", requirePermission("coverage:manage"), async (req: Request, res: Response) => {
+  try {
+    const { regionId } = req.params;
+
+    const { count, error: countError } = await supabaseAdmin
+      .from("profiles")
+      .select("user_id", { count: "exact", head: true })
+      .contains("vendor_coverage_areas", [regionId]);
+
+    if (countError) throw countError;
+    if (count) {
+      return res.status(409).json({ error: `${count} vendor(s) cover this region; it cannot be deleted`, success: false });
+    }
+
+    const { data: before, error } = await supabaseAdmin
+      .from("coverage_areas")
+      .delete()
+      .eq("id", regionId)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!before) {
+      return res.status(404).json({ error: "Region not found", success: false });
+    }
+
+    await recordAudit(req, {
+      action: "coverage.region_deleted",
+      entityType: "coverage_area",
+      entityId: regionId,
+      before,
+    });
+
+    return res.json({ success: true });
+  } catch (error) {
+    console.error("[ADMIN] Error in delete coverage region endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// POST /api/admin/coverage-regions/import
+// Body: { csv, mode: "merge" | "replace", apply } — without apply this only previews the changes;
+// nothing is written while the file has errors
+router.post("/admin/coverage-regions/import", requirePermission("coverage:manage"), async (req: Request, res: Response) => {
+  try {
+    const parsed = coverageImportSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const { csv, mode, apply } = parsed.data;
+    const { regions, errors, warnings } = parseCoverageCsv(csv);
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from("coverage_areas")
+      .select("*")
+      .in("state", [...new Set(regions.map((region) => region.state))]);
+
+    if (existingError) throw existingError;
+
+    const changes = planCoverageImport(regions, existing || [], mode);
+    const summary = {
+      create: changes.filter((change) => change.action === "create").length,
+      update: changes.filter((change) => change.action === "update").length,
+      unchanged: changes.filter((change) => change.action === "unchanged").length,
+      zips_added: changes.reduce((sum, change) => sum + change.added.length, 0),
+      zips_removed: changes.reduce((sum, change) => sum + change.removed.length, 0),
+    };
+    const preview = { mode, changes, errors, warnings, summary };
+
+    if (!apply) {
+      return res.json({ success: true, applied: false, ...preview });
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: "Fix the errors in the file before importing", success: false, applied: false, ...preview });
+    }
+
+    // One transaction (migrations/add_coverage_regions.sql): either every region is written or none
+    const { error: applyError } = await supabaseAdmin.rpc("apply_coverage_import", {
+      p_changes: changes.filter((change) => change.action !== "unchanged"),
+    });
+
+    if (applyError) {
+      // A region was added or deleted since the preview; nothing was written
+      if (applyError.code === "40001" || applyError.code === "23505") {
+        return res.status(409).json({
+          error: "Coverage regions changed since the preview. Preview the file again before importing.",
+          success: false,
+          applied: false,
+        });
+      }
+      throw applyError;
+    }
+
+    await recordAudit(req, {
+      action: "coverage.imported",
+      entityType: "coverage_area",
+      metadata: {
+        mode,
+        ...summary,
+        regions: changes
+          .filter((change) => change.action !== "unchanged")
+          .map(({ state, name, action, added, removed }) => ({ state, name, action, added: added.length, removed: removed.length })),
+      },
+    });
+
+    return res.json({ success: true, applied: true, ...preview });
+  } catch (error) {
+    console.error("[ADMIN] Error in coverage import endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/coverage-requests?status=pending
+router.get("/admin/coverage-requests", requirePermission("coverage:manage"), async (req: Request, res: Response) => {
+  try {
+    const status = typeof req.query.status === "string" ? req.query.status : "pending";
+
+    let query = supabaseAdmin.from("coverage_region_requests").select("*").order("created_at", { ascending: true });
+    if (status !== "all") query = query.eq("status", status);
+
+    const { data, error } = await query;
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        return res.json({ success: true, data: [] });
+      }
+      throw error;
+    }
+
+    const vendorIds = [...new Set((data || []).map((request) => request.vendor_id))];
+    const { data: profiles } = vendorIds.length
+      ? await supabaseAdmin.from("profiles").select("user_id, company_name, contact_email").in("user_id", vendorIds)
+      : { data: [] as any[] };
+    const profileById = new Map((profiles || []).map((profile) => [profile.user_id, profile]));
+
+    return res.json({
+      success: true,
+      data: (data || []).map((request) => ({ ...request, vendor: profileById.get(request.vendor_id) || null })),
+    });
+  } catch (error) {
+    console.error("[ADMIN] Error in coverage requests endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// POST /api/admin/coverage-requests/:requestId/review
+// Body: { decision: "approve" | "reject", note? } — approving creates the region (or reuses one
+// with the same state and name) and adds it to the vendor's coverage
+router.post("/admin/coverage-requests/:requestId/review", requirePermission("coverage:manage"), async (req: Request, res: Response) => {
+  try {
+    const { requestId } = req.params;
+    const parsed = coverageRequestReviewSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const { data: request, error: fetchError } = await supabaseAdmin
+      .from("coverage_region_requests")
+      .select("*")
+      .eq("id", requestId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (!request) {
+      return res.status(404).json({ error: "Request not found", success: false });
+    }
+    if (request.status !== "pending") {
+      return res.status(409).json({ error: `This request was already ${request.status}`, success: false });
+    }
+
+    const { decision, note } = parsed.data;
+    let region: any = null;
+
+    if (decision === "approve") {
+      const { data: existing, error: existingError } = await supabaseAdmin
+        .from("coverage_areas")
+        .select("*")
+        .eq("state", request.state)
+        .ilike("region", request.name)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+
+      if (existing) {
+        region = existing;
+      } else {
+        const { data: created, error } = await supabaseAdmin
+          .from("coverage_areas")
+          .insert({ state: request.state, region: request.name, kind: request.kind, zip_codes: request.zip_codes })
+          .select()
+          .single();
+        if (error) throw error;
+        region = created;
+      }
+
+      const { data: vendor, error: vendorError } = await supabaseAdmin
+        .from("profiles")
+        .select("vendor_coverage_areas")
+        .eq("user_id", request.vendor_id)
+        .maybeSingle();
+
+      if (vendorError) throw vendorError;
+
+      const areas = vendor?.vendor_coverage_areas || [];
+      if (vendor && !areas.includes(region.id)) {
+        const { error } = await supabaseAdmin
+          .from("profiles")
+          .update({ vendor_coverage_areas: [...areas, region.id] })
+          .eq("user_id", request.vendor_id);
+        if (error) throw error;
+      }
+    }
+
+    const { data: reviewed, error } = await supabaseAdmin
+      .from("coverage_region_requests")
+      .update({
+        status: decision === "approve" ? "approved" : "rejected",
+        coverage_area_id: region?.id || null,
+        reviewed_by: req.auth.userId,
+        reviewed_at: new Date().toISOString(),
+        review_note: note || null,
+      })
+      .eq("id", requestId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await recordAudit(req, {
+      action: decision === "approve" ? "coverage.request_approved" : "coverage.request_rejected",
+      entityType: "coverage_region_request",
+      entityId: requestId,
+      before: request,
+      after: reviewed,
+      metadata: { vendor_id: request.vendor_id, coverage_area_id: region?.id || null },
+    });
+
+    return res.json({ success: true, data: reviewed, region });
+  } catch (error) {
+    console.error("[ADMIN] Error in review coverage request endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/projects
+router.get("/admin/projects", requirePermission("project:read_all"), async (req: Request, res: Response) => {
+  try {
+    console.log("[ADMIN] Fetching all projects");
+
+    // Use service role to bypass RLS
+    const { data, error } = await supabaseAdmin
+      .from("projects")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("[ADMIN] Supabase error fetching projects:", error);
+      return res.status(400).json({
+        error: error.message || "Failed to fetch projects",
+        success: false,
+      });
+    }
+
+    // Fetch all business profiles to map names
+    const businessIds = [...new Set((data || []).map(p => p.business_id))];
+    const { data: profiles } = await supabaseAdmin
+      .from("profiles")
+      .select("user_id, company_name")
+      .in("user_id", businessIds);
+
+    const profileMap = (profiles || []).reduce((acc: any, p) => {
+      acc[p.user_id] = p.company_name;
+      return acc;
+    }, {});
+
+    const enrichedProjects = (data || []).map(p => ({
+      ...p,
+      business_name: profileMap[p.business_id] || "Unknown"
+    }));
+
+    return res.json({
+      success: true,
+      data: enrichedProjects,
+    });
+  } catch (error) {
+    console.error("[ADMIN] Error in get projects endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// POST /api/admin/profiles/:userId/access
+// Body: { is_approved?, role?, reason? } — the only way to change approval or role
+router.post("/admin/profiles/:userId/access", requirePermission("profile:manage_access"), async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const parsed = profileAccessSchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const { reason, ...changes } = parsed.data;
+
+    if (changes.role && userId === req.auth.userId) {
+      return sendForbidden(res, "Admins cannot change their own role");
+    }
+
+    const { data: before, error: fetchError } = await supabaseAdmin
+      .from("profiles")
+      .select("id, user_id, role, is_approved")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (!before) {
+      return res.status(404).json({ error: "Profile not found", success: false });
+    }
+
+    const { data: after, error: updateError } = await supabaseAdmin
+      .from("profiles")
+      .update({ ...changes, updated_at: new Date() })
+      .eq("user_id", userId)
+      .select("id, user_id, role, is_approved")
+      .single();
+
+    if (updateError) throw updateError;
+
+    console.log(`[ADMIN] ${req.auth.userId} changed access for ${userId}:`, changes);
+
+    await recordAudit(req, {
+      action: "profile.access_changed",
+      entityType: "profile",
+      entityId: before.id,
+      before,
+      after,
+      metadata: { target_user_id: userId, reason: reason || null },
+    });
+
+    return res.json({ success: true, data: after });
+  } catch (error) {
+    console.error("[ADMIN] Error in profile access endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/usage
+// Live usage counters for every user active in the last day, busiest first
+router.get("/admin/usage", requirePermission("usage:read"), async (req: Request, res: Response) => {
+  try {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const { data: events, error } = await supabaseAdmin
+      .from("usage_events")
+      .select("user_id")
+      .gte("created_at", since)
+      .limit(5000);
+
+    if (error) throw error;
+
+    const userIds = [...new Set((events || []).map((event) => event.user_id))];
+    const [summaries, { data: profiles }, { data: blocks }] = await Promise.all([
+      Promise.all(userIds.map((userId) => getUsageSummary(userId))),
+      supabaseAdmin.from("profiles").select("user_id, company_name, role").in("user_id", userIds),
+      supabaseAdmin.from("user_blocks").select("user_id").eq("status", "active").in("user_id", userIds),
+    ]);
+
+    const blockedIds = new Set((blocks || []).map((block) => block.user_id));
+    const data = userIds
+      .map((userId, index) => ({
+        user_id: userId,
+        profile: profiles?.find((profile) => profile.user_id === userId) || null,
+        blocked: blockedIds.has(userId),
+        counters: summaries[index],
+      }))
+      .sort(
+        (a, b) =>
+          Math.max(...b.counters.map((c) => c.used / (c.limit || 1))) -
+          Math.max(...a.counters.map((c) => c.used / (c.limit || 1))),
+      );
+
+    return res.json({ success: true, data });
+  } catch (error) {
+    console.error("[ADMIN] Error in usage endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/usage/:userId
+router.get("/admin/usage/:userId", requirePermission("usage:read"), async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+    const [counters, block] = await Promise.all([getUsageSummary(userId), getActiveBlock(userId)]);
+
+    return res.json({ success: true, data: { user_id: userId, blocked: !!block, block, counters } });
+  } catch (error) {
+    console.error("[ADMIN] Error in user usage endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/audit-logs
+// Query: actorId, action, entityType, entityId, requestId, from, to (ISO timestamps), page, pageSize
+router.get("/admin/audit-logs", requirePermission("audit:read"), async (req: Request, res: Response) => {
+  try {
+    const parsed = auditQuerySchema.safeParse(req.query);
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Invalid audit log filters",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const { entries, pagination } = await queryAuditLogs(parsed.data);
+
+    // Attach display names for the actors on this page
+    const actorIds = [...new Set(entries.map((entry) => entry.actor_id).filter(Boolean))];
+    const { data: profiles } = actorIds.length
+      ? await supabaseAdmin.from("profiles").select("user_id, company_name").in("user_id", actorIds)
+      : { data: [] };
+
+    const data = entries.map((entry) => ({
+      ...entry,
+      actor_name: profiles?.find((profile) => profile.user_id === entry.actor_id)?.company_name || null,
+    }));
+
+    return res.json({ success: true, data, pagination });
+  } catch (error) {
+    console.error("[ADMIN] Error in audit logs endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/moderation/policy
+router.get("/admin/moderation/policy", requirePermission("moderation:manage"), async (req: Request, res: Response) => {
+  try {
+    return res.json({ success: true, data: await getContactModerationPolicy() });
+  } catch (error) {
+    console.error("[ADMIN] Error in get moderation policy endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// PUT /api/admin/moderation/policy
+// Body: { default: "allow" | "flag" | "mask" | "block", byStatus?: { [projectStatus]: action } }
+router.put("/admin/moderation/policy", requirePermission("moderation:manage"), async (req: Request, res: Response) => {
+  try {
+    const parsed = contactModerationPolicySchema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
+    }
+
+    const before = await getContactModerationPolicy();
+    await saveSetting(CONTACT_MODERATION_SETTING, parsed.data, req.auth.userId);
+
+    await recordAudit(req, {
+      action: "moderation.policy_changed",
+      entityType: "platform_setting",
+      entityId: CONTACT_MODERATION_SETTING,
+      before,
+      after: parsed.data,
+    });
+
+    return res.json({ success: true, data: parsed.data });
+  } catch (error) {
+    console.error("[ADMIN] Error in update moderation policy endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// GET /api/admin/moderation/events
+// Query: reviewStatus (default "pending"), action, projectId, page, pageSize
+router.get("/admin/moderation/events", requirePermission("moderation:review"), async (req: Request, res: Response) => {
+  try {
+    const reviewStatus = (req.query.reviewStatus as string) || "pending";
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const pageSize = Math.min(100, Math.max(1, Number(req.query.pageSize) || 25));
+    const offset = (page - 1) * pageSize;
+
+    let query = supabaseAdmin
+      .from("message_moderation_events")
+      .select("*, projects(id, title)", { count: "exact" });
+
+    if (reviewStatus !== "all") query = query.eq("review_status", reviewStatus);
+    if (req.query.action) query = query.eq("action", req.query.action as string);
+    if (req.query.projectId) query = query.eq("project_id", req.query.projectId as string);
+
+    const { data: events, count, error } = await query
+      .order("created_at", { ascending: false })
+      .range(offset, offset + pageSize - 1);
+
+    if (error) throw error;
+
+    const senderIds = [...new Set((events || []).map((event) => event.sender_id).filter(Boolean))];
+    const { data: profiles } = senderIds.length
+      ? await supabaseAdmin.from("profiles").select("user_id, company_name, role").in("user_id", senderIds)
+      : { data: [] };
+
+    const data = (events || []).map((event) => ({
+      ...event,
+      sender: profiles?.find((profile) => profile.user_id === event.sender_id) || null,
+    }));
+
+    return res.json({
+      success: true,
+      data,
+      pagination: { page, pageSize, total: count || 0, totalPages: Math.ceil((count || 0) / pageSize) },
+    });
+  } catch (error) {
+    console.error("[ADMIN] Error in moderation events endpoint:", error);
+    return res.status(500).json({
+      error: "Internal server error",
+      message: error instanceof Error ? error.message : "Unknown error",
+      success: false,
+    });
+  }
+});
+
+// POST /api/admin/moderation/events/:eventId/review
+// Body: { resolution: "confirmed" | "dismissed", note? }
+router.post("/admin/moderation/events/:eventId/review", requirePermission("moderation:review"), async (req: Request, res: Response) => {
+  try {
+    const { eventId } = req.params;
+    const { resolution, note } = req.body ?? {};
+
+    if (!["confirmed", "dismissed"].includes(resolution)) {
+      return res.status(400).json({ error: "resolution must be 'confirmed' or 'dismissed'", success: false });
+    }
+
+    const { data: before, error: fetchError } = await supabaseAdmin
+      .from("message_moderation_events")
+      .select("*")
+      .eq("id", eventId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!before) {
+      return res.status(404).json({ error: "Moderation event not found", success: false });
+    }
+
+    const { data: after, error: updateError } = await supabaseAdmin
+      .from("message_moderation_events")
+      .update({
+        review_status: resolution,
+        review_note: typeof note === "string" ? note.slice(0, 1000) : null,
+        reviewed_by: req.auth.userId,
+        reviewed_at: new Date(),
+      })
+      .eq("id", eventId)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    await recordAudit(req, {
+      action: "moderation.reviewed",
+      entityType: "moderation_event",
+      entityId: eventId,
+      before,
+      after,
+    });
+
+    return res.json({ success: true, data: after });
+  } catch (error) {
+    console.error("[ADMIN] Error in moderation review endpoint:", error);
     return res.status(500).json({
       error: "Internal server error",
       message: error instanceof Error ? error.message : "Unknown error",
@@ -259,7 +1837,7 @@ router.get("/admin/projects", async (req: Request, res: Response) => {
 });
 
 // GET /api/admin/stats
-router.get("/admin/stats", async (req: Request, res: Response) => {
+router.get("/admin/stats", requirePermission("admin:stats"), async (req: Request, res: Response) => {
   try {
     console.log("[ADMIN] Fetching dashboard stats");
 
@@ -1,4 +1,5 @@
 import { RequestHandler } from "express";
+import { ServiceCategory, loadServiceTaxonomy, matchServiceCategory } from "../lib/service-taxonomy";
 
 interface Message {
   role: "user" | "assistant";
@@ -103,7 +104,8 @@ function generateDemoAssistantResponse(extracted: Record<string, any>): string {
 // Helper to call OpenAI API
 async function callOpenAI(
   systemPrompt: string,
-  messages: Message[]
+  messages: Message[],
+  categories: ServiceCategory[]
 ): Promise<{ response: string; extractedData?: Record<string, any> }> {
   const openaiApiKey = process.env.OPENAI_API_KEY;
 
@@ -152,7 +154,7 @@ async function callOpenAI(
     }
 
     // Extract structured data from the conversation
-    const extractedData = extractProjectData(assistantMessage, messages);
+    const extractedData = extractProjectData(assistantMessage, messages, categories);
 
     return {
       response: assistantMessage,
@@ -170,7 +172,8 @@ async function callOpenAI(
 // Helper to extract structured project data from conversation
 function extractProjectData(
   lastMessage: string,
-  history: Message[]
+  history: Message[],
+  categories: ServiceCategory[]
 ): Record<string, any> {
   const extracted: Record<string, any> = {};
 
@@ -192,24 +195,10 @@ function extractProjectData(
     lastMessage,
   ].join(" ");
 
-  const serviceMatchers: Array<{ name: string; keywords: string[] }> = [
-    { name: "Payroll Services", keywords: ["payroll", "pay roll"] },
-    { name: "Accounting Services", keywords: ["accounting", "bookkeeping", "book keeping"] },
-    { name: "Legal Services", keywords: ["legal", "lawyer", "contract"] },
-    { name: "IT Services", keywords: ["it", "tech support", "network", "cybersecurity", "security"] },
-    { name: "Consulting", keywords: ["consulting", "advisor", "strategy"] },
-    { name: "Marketing Services", keywords: ["marketing", "seo", "ads", "advertising", "social media"] },
-    { name: "Construction", keywords: ["construction", "build", "renovation", "remodel"] },
-    { name: "Cleaning Services", keywords: ["cleaning", "janitorial"] },
-    { name: "HVAC", keywords: ["hvac", "heating", "cooling", "air conditioning"] },
-    { name: "Electrical", keywords: ["electrical", "electrician"] },
-  ];
-
-  for (const service of serviceMatchers) {
-    if (service.keywords.some((k) => conversationText.toLowerCase().includes(k))) {
-      extracted.service_category = service.name;
-      break;
-    }
+  // Names and synonyms come from the service taxonomy; the most specific match wins
+  const service = matchServiceCategory(categories, conversationText);
+  if (service) {
+    extracted.service_category = service.name;
   }
 
   // Extract budget amounts (avoid accidentally reading ZIP codes / dates)
@@ -553,7 +542,7 @@ export const handleAIIntake: RequestHandler = async (req, res) => {
     // (non-AI) demo mode instead of hard-failing.
     const apiKey = process.env.OPENAI_API_KEY;
     if (!apiKey || apiKey === "your-openai-api-key-here") {
-      const extractedData = extractProjectData(userMessage, messages);
+      const extractedData = extractProjectData(userMessage, messages, await loadServiceTaxonomy());
       const response = generateDemoAssistantResponse(extractedData);
       res.setHeader("Content-Type", "application/json");
       return res.status(200).json({
@@ -565,7 +554,7 @@ export const handleAIIntake: RequestHandler = async (req, res) => {
     }
 
     // Call OpenAI
-    const { response, extractedData } = await callOpenAI(systemPrompt, messages);
+    const { response, extractedData } = await callOpenAI(systemPrompt, messages, await loadServiceTaxonomy());
 
     // Return response with proper headers
     res.setHeader("Content-Type", "application/json");
@@ -1,5 +1,10 @@
 import { RequestHandler } from "express";
 import { supabaseAdmin } from "../lib/supabase";
+import { recordAudit } from "../lib/audit";
+import { routeProject } from "../lib/routing-service";
+import { loadServiceTaxonomy, resolveServiceCategory } from "../lib/service-taxonomy";
+import { bidSettingsProblem, bidSettingsSchema } from "../lib/bid-deadlines";
+import { toFieldErrors } from "../lib/profile-schemas";
 
 interface CreateProjectRequest {
   title: string;
@@ -14,23 +19,16 @@ interface CreateProjectRequest {
   project_zip: string;
   business_size?: string;
   special_requirements?: string;
+  // When bidding closes (ISO 8601) and whether bid amounts stay hidden until then
+  bids_close_at?: string | null;
+  bid_mode?: "open" | "sealed";
 }
 
 export const handleCreateProject: RequestHandler = async (req, res) => {
   try {
-    const userId = req.headers["x-user-id"] as string;
+    const userId = req.auth.userId;
     const projectData: CreateProjectRequest = req.body;
 
-    if (!userId) {
-      return res.status(401).json({ error: "User not authenticated" });
-    }
-
-    const uuidRegex =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(userId)) {
-      return res.status(400).json({ error: "Invalid x-user-id header" });
-    }
-
     // Validate required fields
     const missingFields: string[] = [];
     if (!projectData.title) missingFields.push("title");
@@ -43,18 +41,30 @@ export const handleCreateProject: RequestHandler = async (req, res) => {
       });
     }
 
-    // Look up service category ID by name
-    const { data: categoryData, error: categoryError } = await supabaseAdmin
-      .from("service_categories")
-      .select("id")
-      .eq("name", projectData.service_category)
-      .single();
+    const settings = bidSettingsSchema.safeParse({ bidsCloseAt: projectData.bids_close_at || null, bidMode: projectData.bid_mode });
+    if (!settings.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(settings.error),
+      });
+    }
+    const settingsProblem = bidSettingsProblem(settings.data);
+    if (settingsProblem) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: settingsProblem,
+      });
+    }
 
-    if (categoryError || !categoryData) {
-      console.error("Service category lookup error:", categoryError);
+    // Look up service category ID by name (or synonym; merged categories resolve to their replacement)
+    const categoryData = resolveServiceCategory(await loadServiceTaxonomy(), projectData.service_category);
+
+    if (!categoryData) {
+      console.error("Service category lookup failed:", projectData.service_category);
       return res.status(400).json({
         error: "Invalid service category",
-        details: categoryError?.message,
       });
     }
 
@@ -75,6 +85,8 @@ export const handleCreateProject: RequestHandler = async (req, res) => {
         project_zip: projectData.project_zip || "",
         business_size: projectData.business_size || "",
         special_requirements: projectData.special_requirements || "",
+        bids_close_at: settings.data.bidsCloseAt || null,
+        bid_mode: settings.data.bidMode || "open",
         status: "open",
       })
       .select()
@@ -96,73 +108,18 @@ export const handleCreateProject: RequestHandler = async (req, res) => {
       details: { source: "api_create" },
     });
 
-    // Trigger lead routing
-    try {
-      const routeAllVendors = process.env.ROUTE_ALL_VENDORS !== "false";
-
-      // Route project to matching vendors
-      const { data: vendors, error: vendorError } = await supabaseAdmin
-        .from("profiles")
-        .select("user_id, vendor_services, vendor_coverage_areas, company_name")
-        .eq("role", "vendor")
-        .eq("is_approved", true);
-
-      if (!vendorError && vendors && vendors.length > 0) {
-        const matchedVendors: Array<{ project_id: string; vendor_id: string; status: string }> = [];
-
-        if (routeAllVendors) {
-          for (const vendor of vendors) {
-            matchedVendors.push({
-              project_id: project.id,
-              vendor_id: vendor.user_id,
-              status: "routed",
-            });
-          }
-        } else {
-          for (const vendor of vendors) {
-            // Check if vendor offers this service category
-            const vendorServices = vendor.vendor_services || [];
-            if (vendorServices.includes(categoryData.id)) {
-              // Check if vendor covers this state
-              const vendorStates = vendor.vendor_coverage_areas || [];
-              const { data: coverageData } = await supabaseAdmin
-                .from("coverage_areas")
-                .select("state")
-                .in("id", vendorStates);
-
-              const vendorCoversState = coverageData?.some(
-                (c) => c.state === projectData.project_state.toUpperCase()
-              );
-
-              if (vendorCoversState) {
-                matchedVendors.push({
-                  project_id: project.id,
-                  vendor_id: vendor.user_id,
-                  status: "routed",
-                });
-              }
-            }
-          }
-        }
-
-        // Create routing records
-        if (matchedVendors.length > 0) {
-          await supabaseAdmin.from("project_routing").insert(matchedVendors);
+    await recordAudit(req, {
+      action: "project.created",
+      entityType: "project",
+      entityId: project.id,
+      after: project,
+    });
 
-          // Log activity
-          await supabaseAdmin.from("project_activity").insert({
-            project_id: project.id,
-            action: "routed",
-            details: {
-              matched_vendors: matchedVendors.length,
-              route_all_vendors: routeAllVendors,
-            },
-          });
-        }
-      }
+    // Trigger lead routing; the project is created even if routing fails
+    try {
+      await routeProject(project.id, { trigger: "create", triggeredBy: userId, requestId: req.requestId });
     } catch (routingError) {
       console.warn("Lead routing failed:", routingError);
-      // Don't fail the entire operation if routing fails
     }
 
     res.json({
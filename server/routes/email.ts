@@ -100,7 +100,7 @@ function replaceVariables(
 }
 
 // POST /api/send-email
-// Requires: SENDGRID_API_KEY environment variable
+// Requires: SENDGRID_API_KEY environment variable; a signed-in user with message:send (see server/index.ts)
 // Body: { to: string, templateName: string, variables: Record<string, any> }
 router.post("/send-email", async (req: Request, res: Response) => {
   try {
@@ -1,214 +1,142 @@
 import { RequestHandler } from "express";
-import { supabaseAdmin, isSupabaseConfigured } from "../lib/supabase";
-
-interface MatchedVendor {
-  vendor_id: string;
-  score: number; // Matching score
-  reasons: string[];
-}
-
-// Helper: Check if vendor's coverage areas include the project location
-async function checkGeographicMatch(
-  projectZip: string,
-  projectState: string,
-  vendorCoverageAreas: string[]
-): Promise<boolean> {
-  if (!vendorCoverageAreas || vendorCoverageAreas.length === 0) {
-    return false;
-  }
-
+import { recordAudit } from "../lib/audit";
+import { routeProject } from "../lib/routing-service";
+import { runRoutingWaveTick } from "../lib/routing-scheduler";
+import { runBidDeadlineTick } from "../lib/bid-deadlines";
+import {
+  replayRecentProjects,
+  resolveSimulationRules,
+  simulateProject,
+  simulationRequestSchema,
+} from "../lib/routing-simulation";
+import { toFieldErrors } from "../lib/profile-schemas";
+
+// API Endpoint to manually trigger routing (for testing/admin). Safe to repeat: vendors
+// who already have the lead are skipped.
+export const handleTriggerRouting: RequestHandler = async (req, res) => {
   try {
-    // Get coverage area details
-    const { data: coverageDetails } = await supabaseAdmin
-      .from("coverage_areas")
-      .select("state")
-      .in("id", vendorCoverageAreas);
+    const { projectId } = req.body;
 
-    if (!coverageDetails) return false;
+    if (!projectId) {
+      return res.status(400).json({ error: "Missing projectId" });
+    }
 
-    // Check if any coverage area includes the project state
-    return coverageDetails.some((c: any) => c.state === projectState.toUpperCase());
-  } catch (error) {
-    console.error("Error checking geographic match:", error);
-    return false;
-  }
-}
-
-// Helper: Check if vendor offers the required service
-async function checkServiceMatch(
-  projectServiceCategoryId: string,
-  vendorServices: string[]
-): Promise<boolean> {
-  if (!vendorServices || vendorServices.length === 0) {
-    return false;
-  }
+    const run = await routeProject(projectId, {
+      trigger: "manual",
+      triggeredBy: req.auth.userId,
+      requestId: req.requestId,
+    });
 
-  return vendorServices.includes(projectServiceCategoryId);
-}
+    await recordAudit(req, {
+      action: "routing.triggered",
+      entityType: "project",
+      entityId: projectId,
+      metadata: {
+        run_id: run.runId,
+        outcome: run.outcome,
+        routed_vendor_ids: run.toRoute.map((m) => m.vendor_id),
+      },
+    });
 
-// Main routing function
-async function routeProjectToVendors(projectId: string): Promise<MatchedVendor[]> {
-  if (!isSupabaseConfigured) {
-    throw new Error("Supabase admin client not properly configured. Check SUPABASE_SERVICE_ROLE_KEY.");
+    res.json({
+      success: true,
+      projectId,
+      runId: run.runId,
+      outcome: run.outcome,
+      mode: run.mode,
+      wave: run.wave,
+      matched_vendors: run.matched.length,
+      routed_vendors: run.toRoute.length,
+      skipped_vendors: run.skipped.length,
+      matched: run.matched,
+    });
+  } catch (error) {
+    console.error("Trigger routing error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({
+      error: message,
+      details: process.env.NODE_ENV === "development" ? error : undefined,
+    });
   }
+};
+
+// Run the routing wave check once. Long-running servers do this on a timer; serverless
+// deployments can call this from a scheduled job instead.
+export const handleRunRoutingWaves: RequestHandler = async (req, res) => {
   try {
-    // 1. Fetch project details
-    const { data: project, error: projectError } = await supabaseAdmin
-      .from("projects")
-      .select("*")
-      .eq("id", projectId)
-      .single();
-
-    if (projectError || !project) {
-      throw new Error(`Project not found: ${projectError?.message}`);
-    }
+    const result = await runRoutingWaveTick();
 
-    console.log(`[ROUTING] Processing project: ${project.id} (${project.title})`);
+    if (result.expanded > 0 || result.closed > 0) {
+      await recordAudit(req, {
+        action: "routing.waves_checked",
+        entityType: "routing_wave",
+        metadata: { ...result },
+      });
+    }
 
-    // 2. Fetch all approved vendors
-    const { data: vendors, error: vendorError } = await supabaseAdmin
-      .from("profiles")
-      .select("user_id, vendor_services, vendor_coverage_areas, company_name")
-      .eq("role", "vendor")
-      .eq("is_approved", true);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error("Run routing waves error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
 
-    if (vendorError || !vendors) {
-      throw new Error(`Failed to fetch vendors: ${vendorError?.message}`);
+// Dry run of the routing rules for one project (saved or ad hoc), or with `replay` for the most
+// recent projects compared against what actually happened. Writes nothing.
+export const handleSimulateRouting: RequestHandler = async (req, res) => {
+  try {
+    const parsed = simulationRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+        success: false,
+      });
     }
 
-    // 3. Find matching vendors
-    const matchedVendors: MatchedVendor[] = [];
-
-    const routeAllVendors = process.env.ROUTE_ALL_VENDORS !== "false";
-
-    if (routeAllVendors) {
-      for (const vendor of vendors) {
-        matchedVendors.push({
-          vendor_id: vendor.user_id,
-          score: 0,
-          reasons: ["Launch mode: broadcast to all approved vendors"],
-        });
-      }
-    } else {
-      for (const vendor of vendors) {
-        const reasons: string[] = [];
-        let score = 0;
-
-        // Check service match
-        const hasService = await checkServiceMatch(
-          project.service_category_id,
-          vendor.vendor_services || []
-        );
-
-        if (hasService) {
-          score += 50;
-          reasons.push("Service match");
-        } else {
-          continue; // Skip if service doesn't match
-        }
-
-        // Check geographic match
-        const hasLocation = await checkGeographicMatch(
-          project.project_zip,
-          project.project_state,
-          vendor.vendor_coverage_areas || []
-        );
-
-        if (hasLocation) {
-          score += 50;
-          reasons.push("Location match");
-        } else {
-          continue; // Skip if location doesn't match
-        }
-
-        matchedVendors.push({
-          vendor_id: vendor.user_id,
-          score,
-          reasons,
-        });
-
-        console.log(
-          `[ROUTING] Matched vendor: ${vendor.company_name} (score: ${score})`
-        );
-      }
+    const { projectId, project, mode, scoringConfig, waveConfig, replay } = parsed.data;
+    const rules = await resolveSimulationRules({ mode, scoringConfig, waveConfig });
+
+    if (replay) {
+      const result = await replayRecentProjects(replay.limit, rules);
+      return res.json({ success: true, rules, ...result });
     }
 
-    // 4. Create routing records for matched vendors
-    if (matchedVendors.length > 0) {
-      const routingRecords = matchedVendors.map((matched) => ({
-        project_id: projectId,
-        vendor_id: matched.vendor_id,
-        status: "routed",
-      }));
-
-      const { error: routingError } = await supabaseAdmin
-        .from("project_routing")
-        .insert(routingRecords);
-
-      if (routingError) {
-        console.warn(`[ROUTING] Error creating routing records:`, routingError);
-      } else {
-        console.log(
-          `[ROUTING] Created ${routingRecords.length} routing records`
-        );
-
-        // 5. Log activity
-        await supabaseAdmin.from("project_activity").insert({
-          project_id: projectId,
-          action: "routed",
-          details: {
-            matched_vendors: matchedVendors.length,
-            matched_vendor_ids: matchedVendors.map((m) => m.vendor_id),
-            route_all_vendors: process.env.ROUTE_ALL_VENDORS !== "false",
-          },
-        });
-      }
-    } else {
-      console.log(
-        `[ROUTING] No matching vendors found for project: ${projectId}`
-      );
-
-      // Log no match
-      await supabaseAdmin.from("project_activity").insert({
-        project_id: projectId,
-        action: "routing_failed",
-        details: { reason: "No matching vendors found" },
-      });
+    const result = await simulateProject({ projectId, project }, rules);
+    if (!result) {
+      return res.status(404).json({ error: "Project not found" });
     }
 
-    return matchedVendors;
+    res.json({ success: true, rules, ...result });
   } catch (error) {
-    console.error("[ROUTING] Error in routeProjectToVendors:", error);
-    throw error;
+    console.error("Simulate routing error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
   }
-}
+};
 
-// API Endpoint to manually trigger routing (for testing/admin)
-export const handleTriggerRouting: RequestHandler = async (req, res) => {
+// Close bidding on projects whose deadline has passed. Long-running servers do this on a
+// timer; serverless deployments can call this from a scheduled job instead.
+export const handleRunBidDeadlines: RequestHandler = async (req, res) => {
   try {
-    const { projectId } = req.body;
+    const result = await runBidDeadlineTick();
 
-    if (!projectId) {
-      return res.status(400).json({ error: "Missing projectId" });
+    if (result.closed > 0) {
+      await recordAudit(req, {
+        action: "bids.deadlines_checked",
+        entityType: "project",
+        metadata: { ...result },
+      });
     }
 
-    const matched = await routeProjectToVendors(projectId);
-
-    res.json({
-      success: true,
-      projectId,
-      matched_vendors: matched.length,
-      matched: matched,
-    });
+    res.json({ success: true, ...result });
   } catch (error) {
-    console.error("Trigger routing error:", error);
-    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error("Run bid deadlines error:", error);
     res.status(500).json({
-      error: message,
-      details: process.env.NODE_ENV === "development" ? error : undefined,
+      error: error instanceof Error ? error.message : "Unknown error",
     });
   }
 };
-
-// Export routing function for use in other routes
-export { routeProjectToVendors };
@@ -0,0 +1,299 @@
+import { RequestHandler, Response } from "express";
+import { supabaseAdmin } from "../lib/supabase";
+import { signMfaToken } from "../lib/mfa";
+import { recordAudit } from "../lib/audit";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from "../lib/totp";
+
+interface UserMfaRow {
+  user_id: string;
+  secret: string;
+  enabled: boolean;
+  recovery_code_hashes: string[] | null;
+  last_used_counter: number | null;
+}
+
+async function getMfaRow(userId: string): Promise<UserMfaRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("user_mfa")
+    .select("user_id, secret, enabled, recovery_code_hashes, last_used_counter")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+interface SecondFactorUse {
+  // Column updates that consume the code
+  updates: Partial<UserMfaRow>;
+  // Filters that only match while the code is still unused
+  guard: (query: any) => any;
+}
+
+// Check a TOTP or recovery code. On success returns how to consume it (the TOTP step or the
+// recovery code can't be used twice).
+function checkSecondFactor(row: UserMfaRow, body: { code?: string; recoveryCode?: string }): SecondFactorUse | null {
+  if (body.code) {
+    const counter = verifyTotp(row.secret, String(body.code));
+    if (counter === null || (row.last_used_counter !== null && counter <= row.last_used_counter)) {
+      return null;
+    }
+    return {
+      updates: { last_used_counter: counter },
+      guard: (query) => query.or(`last_used_counter.is.null,last_used_counter.lt.${counter}`),
+    };
+  }
+
+  if (body.recoveryCode) {
+    const hashes = row.recovery_code_hashes || [];
+    const hash = hashRecoveryCode(String(body.recoveryCode));
+    if (!hashes.includes(hash)) return null;
+    return {
+      updates: { recovery_code_hashes: hashes.filter((h) => h !== hash) },
+      // Only while the list is still the one read (so it holds this code); otherwise a code spent
+      // meanwhile would be written back
+      guard: (query) => query.contains("recovery_code_hashes", hashes).containedBy("recovery_code_hashes", hashes),
+    };
+  }
+
+  return null;
+}
+
+// Consume the code along with `changes`. Of two requests racing with the same code only one
+// updates the row; the other gets false and must be treated as an invalid code.
+async function consumeSecondFactor(userId: string, use: SecondFactorUse, changes: Record<string, unknown> = {}) {
+  const { data, error } = await use.guard(
+    supabaseAdmin
+      .from("user_mfa")
+      .update({ ...use.updates, ...changes, updated_at: new Date() })
+      .eq("user_id", userId),
+  ).select("user_id");
+
+  if (error) throw error;
+  return !!data && data.length > 0;
+}
+
+const invalidCode = (res: Response) =>
+  res.status(400).json({
+    success: false,
+    error: "That code is not valid. Check your authenticator app and try again.",
+    fieldErrors: { code: "Invalid or already used code" },
+  });
+
+const sendError = (res: Response, context: string, error: unknown) => {
+  console.error(`${context} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: error instanceof Error ? error.message : "Unknown error",
+  });
+};
+
+// GET /api/mfa/status
+export const handleGetMfaStatus: RequestHandler = async (req, res) => {
+  try {
+    const row = await getMfaRow(req.auth.userId);
+
+    res.json({
+      success: true,
+      data: {
+        enabled: !!row?.enabled,
+        recoveryCodesRemaining: row?.enabled ? (row.recovery_code_hashes || []).length : 0,
+      },
+    });
+  } catch (error) {
+    sendError(res, "MFA status", error);
+  }
+};
+
+// POST /api/mfa/enroll — create (or replace) a pending secret for the authenticator app
+export const handleStartMfaEnrollment: RequestHandler = async (req, res) => {
+  try {
+    const { userId, email } = req.auth;
+    const existing = await getMfaRow(userId);
+
+    if (existing?.enabled) {
+      return res.status(409).json({
+        success: false,
+        error: "Two-factor authentication is already enabled",
+      });
+    }
+
+    const secret = generateTotpSecret();
+    const { error } = await supabaseAdmin.from("user_mfa").upsert(
+      {
+        user_id: userId,
+        secret,
+        enabled: false,
+        recovery_code_hashes: [],
+        last_used_counter: null,
+        updated_at: new Date(),
+      },
+      { onConflict: "user_id" },
+    );
+
+    if (error) throw error;
+
+    res.json({
+      success: true,
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, email || userId),
+      },
+    });
+  } catch (error) {
+    sendError(res, "MFA enroll", error);
+  }
+};
+
+// POST /api/mfa/enroll/verify — Body: { code }. Turns MFA on and returns the recovery codes once.
+export const handleConfirmMfaEnrollment: RequestHandler = async (req, res) => {
+  try {
+    const { userId } = req.auth;
+    const row = await getMfaRow(userId);
+
+    if (!row || row.enabled) {
+      return res.status(400).json({
+        success: false,
+        error: row?.enabled ? "Two-factor authentication is already enabled" : "Start enrollment first",
+      });
+    }
+
+    const use = checkSecondFactor(row, { code: req.body?.code });
+    if (!use) return invalidCode(res);
+
+    const recoveryCodes = generateRecoveryCodes();
+    const consumed = await consumeSecondFactor(userId, use, {
+      enabled: true,
+      enabled_at: new Date(),
+      recovery_code_hashes: recoveryCodes.map(hashRecoveryCode),
+    });
+    if (!consumed) return invalidCode(res);
+
+    // Secrets and code hashes stay out of the audit log; only the state change is recorded
+    await recordAudit(req, {
+      action: "mfa.enabled",
+      entityType: "user_mfa",
+      entityId: userId,
+      before: { enabled: false },
+      after: { enabled: true },
+      metadata: { recovery_codes_issued: recoveryCodes.length },
+    });
+
+    const { token, expiresAt } = signMfaToken(userId);
+    res.json({
+      success: true,
+      data: { recoveryCodes, mfaToken: token, expiresAt },
+    });
+  } catch (error) {
+    sendError(res, "MFA enroll verify", error);
+  }
+};
+
+// POST /api/mfa/verify — Body: { code } or { recoveryCode }. Used at login and for step-up.
+export const handleVerifyMfa: RequestHandler = async (req, res) => {
+  try {
+    const { userId } = req.auth;
+    const row = await getMfaRow(userId);
+
+    if (!row?.enabled) {
+      return res.status(400).json({
+        success: false,
+        error: "Two-factor authentication is not enabled",
+      });
+    }
+
+    const use = checkSecondFactor(row, req.body || {});
+    if (!use || !(await consumeSecondFactor(userId, use))) return invalidCode(res);
+
+    const { token, expiresAt } = signMfaToken(userId);
+    res.json({
+      success: true,
+      data: {
+        mfaToken: token,
+        expiresAt,
+        recoveryCodesRemaining: (use.updates.recovery_code_hashes || row.recovery_code_hashes || []).length,
+      },
+    });
+  } catch (error) {
+    sendError(res, "MFA verify", error);
+  }
+};
+
+// POST /api/mfa/recovery-codes — replaces every recovery code (route requires a recent MFA check)
+export const handleRegenerateRecoveryCodes: RequestHandler = async (req, res) => {
+  try {
+    const { userId } = req.auth;
+    const recoveryCodes = generateRecoveryCodes();
+
+    const { data, error } = await supabaseAdmin
+      .from("user_mfa")
+      .update({ recovery_code_hashes: recoveryCodes.map(hashRecoveryCode), updated_at: new Date() })
+      .eq("user_id", userId)
+      .eq("enabled", true)
+      .select("user_id");
+
+    if (error) throw error;
+
+    if (!data || data.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Two-factor authentication is not enabled",
+      });
+    }
+
+    await recordAudit(req, {
+      action: "mfa.recovery_codes_regenerated",
+      entityType: "user_mfa",
+      entityId: userId,
+      metadata: { recovery_codes_issued: recoveryCodes.length },
+    });
+
+    res.json({ success: true, data: { recoveryCodes } });
+  } catch (error) {
+    sendError(res, "MFA recovery codes", error);
+  }
+};
+
+// POST /api/mfa/disable — Body: { code } or { recoveryCode }
+export const handleDisableMfa: RequestHandler = async (req, res) => {
+  try {
+    const { userId } = req.auth;
+    const row = await getMfaRow(userId);
+
+    if (!row?.enabled) {
+      return res.status(400).json({
+        success: false,
+        error: "Two-factor authentication is not enabled",
+      });
+    }
+
+    const use = checkSecondFactor(row, req.body || {});
+    if (!use) return invalidCode(res);
+
+    // Deleting the row spends the code, so the same guard applies
+    const { data: deleted, error } = await use
+      .guard(supabaseAdmin.from("user_mfa").delete().eq("user_id", userId))
+      .select("user_id");
+    if (error) throw error;
+    if (!deleted || deleted.length === 0) return invalidCode(res);
+
+    await recordAudit(req, {
+      action: "mfa.disabled",
+      entityType: "user_mfa",
+      entityId: userId,
+      before: { enabled: true },
+      after: { enabled: false },
+      metadata: { method: req.body?.recoveryCode ? "recovery_code" : "totp" },
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, "MFA disable", error);
+  }
+};
@@ -1,13 +1,13 @@
 import { RequestHandler } from "express";
-import { supabaseAdmin } from "../lib/supabase";
+import { isMissingTableError, supabaseAdmin } from "../lib/supabase";
+import { sendForbidden } from "../lib/permissions";
+import { parseProfileUpdate, toFieldErrors } from "../lib/profile-schemas";
+import { recordAudit } from "../lib/audit";
+import { coverageRequestSchema } from "../lib/coverage-regions";
 
 export const handleGetMyProfile: RequestHandler = async (req, res) => {
   try {
-    const userId = req.headers["x-user-id"] as string;
-
-    if (!userId) {
-      return res.status(400).json({ error: "Missing x-user-id header" });
-    }
+    const userId = req.auth.userId;
 
     const { data, error } = await supabaseAdmin
       .from("profiles")
@@ -31,21 +31,46 @@ export const handleGetMyProfile: RequestHandler = async (req, res) => {
 
 export const handleUpdateProfile: RequestHandler = async (req, res) => {
   try {
-    const userId = req.headers["x-user-id"] as string;
-    const profileUpdates = req.body;
+    const userId = req.auth.userId;
+    const role = req.auth.role;
 
-    if (!userId) {
-      return res.status(400).json({ error: "Missing x-user-id header" });
+    if (!role) {
+      return sendForbidden(res, "Your account does not have a role yet");
     }
 
-    // Ensure we don't change the user_id
-    delete profileUpdates.user_id;
+    // Only the columns this role may edit get through; is_approved and role are admin-only
+    const parsed = parseProfileUpdate(role, req.body);
+    if (parsed.fieldErrors) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: parsed.fieldErrors,
+      });
+    }
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from("profiles")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+
+    if (!existing && !parsed.data.company_name) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: { company_name: "Company name is required" },
+      });
+    }
 
     const { data, error } = await supabaseAdmin
       .from("profiles")
       .upsert({
-        ...profileUpdates,
+        ...parsed.data,
         user_id: userId,
+        // New rows take the verified role; existing rows keep theirs
+        ...(existing ? {} : { role }),
         updated_at: new Date(),
       }, { onConflict: 'user_id' })
       .select()
@@ -61,6 +86,14 @@ export const handleUpdateProfile: RequestHandler = async (req, res) => {
       throw error;
     }
 
+    await recordAudit(req, {
+      action: existing ? "profile.updated" : "profile.created",
+      entityType: "profile",
+      entityId: data.id,
+      before: existing,
+      after: data,
+    });
+
     res.json({
       success: true,
       data: data,
@@ -72,3 +105,76 @@ export const handleUpdateProfile: RequestHandler = async (req, res) => {
     });
   }
 };
+
+// The vendor's own requests for new coverage regions, newest first
+export const handleGetCoverageRequests: RequestHandler = async (req, res) => {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("coverage_region_requests")
+      .select("*")
+      .eq("vendor_id", req.auth.userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        return res.json({ success: true, data: [] });
+      }
+      throw error;
+    }
+
+    res.json({ success: true, data: data || [] });
+  } catch (error) {
+    console.error("Get coverage requests error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Ask admins to add a metro or custom region that is not in the list yet
+export const handleCreateCoverageRequest: RequestHandler = async (req, res) => {
+  try {
+    if (req.auth.role !== "vendor") {
+      return sendForbidden(res, "Only vendors can request coverage regions");
+    }
+
+    const parsed = coverageRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+      });
+    }
+
+    const { kind, state, name, zipCodes, note } = parsed.data;
+    const { data, error } = await supabaseAdmin
+      .from("coverage_region_requests")
+      .insert({
+        vendor_id: req.auth.userId,
+        kind,
+        state,
+        name,
+        zip_codes: zipCodes,
+        note: note || null,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await recordAudit(req, {
+      action: "coverage.region_requested",
+      entityType: "coverage_region_request",
+      entityId: data.id,
+      after: data,
+    });
+
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error("Create coverage request error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
@@ -0,0 +1,216 @@
+import { RequestHandler } from "express";
+import { isMissingTableError, supabaseAdmin } from "../lib/supabase";
+import { sendForbidden } from "../lib/permissions";
+import { recordAudit } from "../lib/audit";
+import { notifyUsers } from "../lib/notifications";
+import { resolveThreadAccess } from "../lib/project-access";
+import { toFieldErrors } from "../lib/profile-schemas";
+import { biddingClosed } from "../lib/bid-deadlines";
+import { REVOKED_STATUS, getVendorLeadBlock } from "../lib/routing-overrides";
+import { amendProjectSchema, projectAmendmentChanges, projectAmendmentProblem } from "../lib/project-amendments";
+
+// Amend a published project. Body: { note, title?, description?, special_requirements?,
+// budget_min?, budget_max?, timeline_start?, timeline_end? }. Bumps the project's revision,
+// flags existing bids for confirmation and notifies every routed vendor.
+export const handleAmendProject: RequestHandler = async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { userId, role } = req.auth;
+
+    const parsed = amendProjectSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+      });
+    }
+
+    const { data: project, error: fetchError } = await supabaseAdmin
+      .from("projects")
+      .select("*")
+      .eq("id", projectId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!project) return res.status(404).json({ error: "Project not found" });
+    if (project.business_id !== userId && role !== "admin") {
+      return sendForbidden(res, "Not authorized to amend this project");
+    }
+    if (project.status !== "open" || biddingClosed(project)) {
+      return res.status(409).json({ success: false, error: "Only projects that are open for bidding can be amended" });
+    }
+
+    const { note, ...amendment } = parsed.data;
+    const problem = projectAmendmentProblem(project, amendment);
+    if (problem) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: problem,
+      });
+    }
+
+    const changes = projectAmendmentChanges(project, amendment);
+    if (changes.length === 0) {
+      return res.status(400).json({ success: false, error: "This amendment does not change the project" });
+    }
+
+    const revision = (project.revision || 1) + 1;
+
+    // One transaction (migrations/add_project_amendments.sql). It locks the project and re-checks
+    // the revision, so an amendment racing this one fails instead of being overwritten.
+    const updates = Object.fromEntries(changes.map((change) => [change.field, change.after]));
+    const { data: amended, error: amendError } = await supabaseAdmin.rpc("amend_project", {
+      p_project_id: projectId,
+      p_revision: revision,
+      p_updates: updates,
+      p_changes: changes,
+      p_note: note,
+      p_amended_by: userId,
+    });
+
+    if (amendError) {
+      if (amendError.code === "40001" || amendError.code === "23505") {
+        return res.status(409).json({ success: false, error: "This project was just amended. Reload it and try again." });
+      }
+      throw amendError;
+    }
+
+    const { project: updated, amendment: record, bids_flagged: bidsFlagged } = amended as {
+      project: Record<string, any>;
+      amendment: Record<string, any>;
+      bids_flagged: number;
+    };
+
+    await supabaseAdmin.from("project_activity").insert({
+      project_id: projectId,
+      action: "project_amended",
+      details: { revision, fields: changes.map((change) => change.field), bids_flagged: bidsFlagged },
+    });
+
+    const { data: routings } = await supabaseAdmin
+      .from("project_routing")
+      .select("vendor_id")
+      .eq("project_id", projectId)
+      .neq("status", REVOKED_STATUS);
+
+    await notifyUsers(
+      (routings || []).map((routing) => routing.vendor_id),
+      {
+        title: "Project amended",
+        message: `"${updated.title}" was updated (${changes.map((change) => change.label.toLowerCase()).join(", ")}): ${note}. If you have bid, confirm or revise your bid.`,
+        type: "warning",
+        category: "project_amended",
+        relatedId: projectId,
+      },
+    );
+
+    await recordAudit(req, {
+      action: "project.amended",
+      entityType: "project",
+      entityId: projectId,
+      before: project,
+      after: updated,
+      metadata: { revision, note, bids_flagged: bidsFlagged },
+    });
+
+    res.json({ success: true, data: { project: updated, amendment: record } });
+  } catch (error) {
+    console.error("Amend project error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// A project's amendments, oldest first (owner, admins and vendors with access to the lead)
+export const handleGetProjectAmendments: RequestHandler = async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const access = await resolveThreadAccess(projectId, req.auth);
+
+    if (!access.project) return res.status(404).json({ error: "Project not found" });
+    if (!access.allowed) return sendForbidden(res, access.blocked || "Not authorized to view this project");
+
+    const { data, error } = await supabaseAdmin
+      .from("project_amendments")
+      .select("id, revision, changes, note, created_at")
+      .eq("project_id", projectId)
+      .order("revision", { ascending: true });
+
+    if (error) {
+      if (isMissingTableError(error)) return res.json({ success: true, data: [] });
+      throw error;
+    }
+
+    res.json({ success: true, data: data || [] });
+  } catch (error) {
+    console.error("Get project amendments error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// The vendor stands by their bid as-is after the project was amended
+export const handleConfirmBid: RequestHandler = async (req, res) => {
+  try {
+    const { projectId, bidId } = req.params;
+    const vendorId = req.auth.userId;
+
+    const [{ data: bid, error: bidError }, { data: project, error: projectError }] = await Promise.all([
+      supabaseAdmin.from("vendor_responses").select("*").eq("id", bidId).eq("project_id", projectId).maybeSingle(),
+      supabaseAdmin.from("projects").select("*").eq("id", projectId).maybeSingle(),
+    ]);
+
+    if (bidError) throw bidError;
+    if (projectError) throw projectError;
+    if (!bid || !project) return res.status(404).json({ error: "Bid not found" });
+    if (bid.vendor_id !== vendorId) return sendForbidden(res, "Not authorized to confirm this bid");
+
+    const block = await getVendorLeadBlock(project, vendorId);
+    if (block) return sendForbidden(res, block);
+
+    if (biddingClosed(project)) {
+      return res.status(409).json({
+        success: false,
+        error: `Bidding closed at ${new Date(project.bids_close_at).toISOString()}; bids can no longer be confirmed`,
+      });
+    }
+
+    if (!bid.needs_confirmation) {
+      return res.json({ success: true, data: bid });
+    }
+
+    const { data: confirmed, error: updateError } = await supabaseAdmin
+      .from("vendor_responses")
+      .update({
+        needs_confirmation: false,
+        project_revision: project.revision || 1,
+        confirmed_at: new Date().toISOString(),
+      })
+      .eq("id", bidId)
+      .eq("vendor_id", vendorId)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    await recordAudit(req, {
+      action: "bid.confirmed",
+      entityType: "bid",
+      entityId: bidId,
+      before: bid,
+      after: confirmed,
+      metadata: { project_id: projectId, project_revision: project.revision || 1 },
+    });
+
+    res.json({ success: true, data: confirmed });
+  } catch (error) {
+    console.error("Confirm bid error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
@@ -0,0 +1,97 @@
+import { RequestHandler } from "express";
+import { supabaseAdmin } from "../lib/supabase";
+import { sendForbidden } from "../lib/permissions";
+import { resolveThreadAccess } from "../lib/project-access";
+import {
+  buildProjectFilePath,
+  canAccessThread,
+  createSignedDownloadUrls,
+  parseProjectFilePath,
+  PROJECT_FILE_TYPES,
+  PROJECT_FILES_BUCKET,
+  SIGNED_DOWNLOAD_TTL_SECONDS,
+} from "../lib/project-files";
+
+// Issue a signed upload URL for a file in a project thread (or the project's shared folder).
+// Body: { fileName, contentType, vendorId? } — vendorId picks the thread for owners and admins
+export const handleCreateUploadUrl: RequestHandler = async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const { fileName, contentType, vendorId } = req.body;
+
+    if (!fileName || !contentType) {
+      return res.status(400).json({ error: "Missing fileName or contentType" });
+    }
+
+    if (!PROJECT_FILE_TYPES.includes(contentType)) {
+      return res.status(400).json({ error: "This file type is not allowed" });
+    }
+
+    const access = await resolveThreadAccess(projectId, req.auth, vendorId);
+
+    if (!access.project) return res.status(404).json({ error: "Project not found" });
+    if (!access.allowed) return sendForbidden(res, access.blocked || "Not authorized to upload files to this project");
+
+    const path = buildProjectFilePath(projectId, access.vendorId, fileName);
+    const { data, error } = await supabaseAdmin.storage
+      .from(PROJECT_FILES_BUCKET)
+      .createSignedUploadUrl(path);
+
+    if (error) throw error;
+
+    res.json({
+      success: true,
+      data: {
+        bucket: PROJECT_FILES_BUCKET,
+        path: data.path,
+        token: data.token,
+        signedUrl: data.signedUrl,
+      },
+    });
+  } catch (error) {
+    console.error("Create upload URL error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Issue a short-lived download URL for a file in a project the caller can access
+// Query: path
+export const handleCreateDownloadUrl: RequestHandler = async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const file = parseProjectFilePath(req.query.path as string);
+
+    if (!file || file.projectId !== projectId) {
+      return res.status(400).json({ error: "Invalid file path" });
+    }
+
+    const access = await resolveThreadAccess(projectId, req.auth);
+
+    if (!access.project) return res.status(404).json({ error: "Project not found" });
+    if (!access.allowed || !canAccessThread(access, file.thread)) {
+      return sendForbidden(res, access.blocked || "Not authorized to view this file");
+    }
+
+    const path = req.query.path as string;
+    const urls = await createSignedDownloadUrls([path]);
+
+    if (!urls[path]) {
+      return res.status(404).json({ error: "File not found" });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        url: urls[path],
+        expiresAt: new Date(Date.now() + SIGNED_DOWNLOAD_TTL_SECONDS * 1000).toISOString(),
+      },
+    });
+  } catch (error) {
+    console.error("Create download URL error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
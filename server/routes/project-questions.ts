@@ -0,0 +1,210 @@
+import { RequestHandler } from "express";
+import { isMissingTableError, supabaseAdmin } from "../lib/supabase";
+import { sendForbidden } from "../lib/permissions";
+import { recordAudit } from "../lib/audit";
+import { notifyUsers } from "../lib/notifications";
+import { resolveThreadAccess } from "../lib/project-access";
+import { toFieldErrors } from "../lib/profile-schemas";
+import { REVOKED_STATUS } from "../lib/routing-overrides";
+import { answerQuestionSchema, askQuestionSchema, ProjectQuestion, visibleQuestions } from "../lib/project-questions";
+
+// Projects vendors can still ask about
+const QUESTION_STATUSES = ["open", "in_review"];
+
+// List a project's Q&A for the caller (owner, admin, or a vendor with access to the lead)
+export const handleGetProjectQuestions: RequestHandler = async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const access = await resolveThreadAccess(projectId, req.auth);
+
+    if (!access.project) return res.status(404).json({ error: "Project not found" });
+    if (!access.allowed) return sendForbidden(res, access.blocked || "Not authorized to view this project's questions");
+
+    const { data, error } = await supabaseAdmin
+      .from("project_questions")
+      .select("*")
+      .eq("project_id", projectId);
+
+    if (error) {
+      if (isMissingTableError(error)) return res.json({ success: true, data: [] });
+      throw error;
+    }
+
+    res.json({
+      success: true,
+      data: visibleQuestions((data || []) as ProjectQuestion[], {
+        userId: req.auth.userId,
+        isOwner: access.isOwner,
+        isAdmin: access.isAdmin,
+      }),
+    });
+  } catch (error) {
+    console.error("Get project questions error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Ask a question about a project. Body: { question, isPrivate? }. Vendors only; the business
+// is told there is a new question but not who asked.
+export const handleAskProjectQuestion: RequestHandler = async (req, res) => {
+  try {
+    const { projectId } = req.params;
+    const access = await resolveThreadAccess(projectId, req.auth);
+
+    if (!access.project) return res.status(404).json({ error: "Project not found" });
+    if (access.isOwner || access.isAdmin || !access.allowed) {
+      return sendForbidden(res, access.blocked || "Only vendors working this lead can ask questions");
+    }
+    if (!QUESTION_STATUSES.includes(access.project.status)) {
+      return res.status(409).json({ success: false, error: "This project is no longer taking questions" });
+    }
+
+    const parsed = askQuestionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+      });
+    }
+
+    const { data: question, error } = await supabaseAdmin
+      .from("project_questions")
+      .insert({
+        project_id: projectId,
+        vendor_id: req.auth.userId,
+        question: parsed.data.question,
+        is_private: parsed.data.isPrivate,
+      })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+
+    await recordAudit(req, {
+      action: "question.asked",
+      entityType: "project_question",
+      entityId: question.id,
+      after: question,
+      metadata: { project_id: projectId },
+    });
+
+    await notifyUsers([access.project.business_id], {
+      title: "New question on your project",
+      message: question.is_private ? "A vendor asked a private question." : "A vendor asked a question. Your answer will be shared with every vendor.",
+      category: "project_question",
+      relatedId: projectId,
+    });
+
+    const [visible] = visibleQuestions([question as ProjectQuestion], {
+      userId: req.auth.userId,
+      isOwner: false,
+      isAdmin: false,
+    });
+
+    res.json({ success: true, data: visible });
+  } catch (error) {
+    console.error("Ask project question error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
+// Answer a question once. Body: { answer, isPrivate? }. Public answers go to every vendor the
+// lead was routed to; private ones only to the vendor who asked.
+export const handleAnswerProjectQuestion: RequestHandler = async (req, res) => {
+  try {
+    const { projectId, questionId } = req.params;
+    const access = await resolveThreadAccess(projectId, req.auth);
+
+    if (!access.project) return res.status(404).json({ error: "Project not found" });
+    if (!access.isOwner && !access.isAdmin) {
+      return sendForbidden(res, "Only the project owner can answer questions");
+    }
+
+    const parsed = answerQuestionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(parsed.error),
+      });
+    }
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from("project_questions")
+      .select("*")
+      .eq("id", questionId)
+      .eq("project_id", projectId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!existing) return res.status(404).json({ error: "Question not found" });
+
+    const isPrivate = existing.is_private || !!parsed.data.isPrivate;
+    const answeredAt = new Date().toISOString();
+
+    // Only an unanswered question can be answered, so two answers cannot race
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from("project_questions")
+      .update({
+        answer: parsed.data.answer,
+        answered_by: req.auth.userId,
+        answered_at: answeredAt,
+        is_private: isPrivate,
+      })
+      .eq("id", questionId)
+      .is("answered_at", null)
+      .select("*");
+
+    if (updateError) throw updateError;
+    if (!updated || updated.length === 0) {
+      return res.status(409).json({ success: false, error: "This question has already been answered" });
+    }
+
+    const question = updated[0] as ProjectQuestion;
+
+    await recordAudit(req, {
+      action: "question.answered",
+      entityType: "project_question",
+      entityId: question.id,
+      before: existing,
+      after: question,
+      metadata: { project_id: projectId, private: isPrivate },
+    });
+
+    let recipients = [question.vendor_id];
+    if (!isPrivate) {
+      const { data: routings } = await supabaseAdmin
+        .from("project_routing")
+        .select("vendor_id")
+        .eq("project_id", projectId)
+        .neq("status", REVOKED_STATUS);
+      recipients = recipients.concat((routings || []).map((routing) => routing.vendor_id));
+    }
+
+    const { data: project } = await supabaseAdmin.from("projects").select("title").eq("id", projectId).maybeSingle();
+    await notifyUsers(recipients, {
+      title: isPrivate ? "Your question was answered" : "New answer on the project Q&A",
+      message: `The business answered a question on "${project?.title || "a project"}": ${question.question.slice(0, 120)}`,
+      category: "project_question",
+      relatedId: projectId,
+    });
+
+    const [visible] = visibleQuestions([question], {
+      userId: req.auth.userId,
+      isOwner: access.isOwner,
+      isAdmin: access.isAdmin,
+    });
+
+    res.json({ success: true, data: visible });
+  } catch (error) {
+    console.error("Answer project question error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
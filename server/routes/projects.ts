@@ -1,17 +1,48 @@
 import { RequestHandler } from "express";
-import { supabaseAdmin } from "../lib/supabase";
-import { routeProjectToVendors } from "./lead-routing";
-
-// Publish a project (change status from draft to open and route to vendors)
+import { isMissingTableError, supabaseAdmin } from "../lib/supabase";
+import { sendForbidden } from "../lib/permissions";
+import { recordAudit } from "../lib/audit";
+import { bidFieldErrors, submitBidSchema } from "../lib/bid-schemas";
+import { toFieldErrors } from "../lib/profile-schemas";
+import { diffBidVersions } from "@shared/bid-revisions";
+import { bidSettingsProblem, bidSettingsSchema, biddingClosed, bidsSealed, sealBids } from "../lib/bid-deadlines";
+import { resolveThreadAccess } from "../lib/project-access";
+import { getContactModerationPolicy, moderateMessage, recordModerationEvent } from "../lib/contact-moderation";
+import {
+  createSignedDownloadUrls,
+  parseProjectFilePath,
+  SHARED_THREAD,
+  SIGNED_DOWNLOAD_TTL_SECONDS,
+} from "../lib/project-files";
+import { matchServiceRadius } from "../lib/geo";
+import { routeProject } from "../lib/routing-service";
+import { explainForVendor } from "../lib/vendor-scoring";
+import {
+  EXCLUDED_MESSAGE,
+  REVOKED_STATUS,
+  getVendorLeadBlock,
+  loadExcludedBusinessIds,
+  loadExcludedVendorIds,
+} from "../lib/routing-overrides";
+
+// Publish a project (change status from draft to open and route to vendors). The body may
+// set or change the bid deadline and mode: { projectId, bidsCloseAt?, bidMode? }
 export const handlePublishProject: RequestHandler = async (req, res) => {
   try {
     const { projectId } = req.body;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = req.auth.userId;
 
-    if (!projectId || !userId) {
-      return res
-        .status(400)
-        .json({ error: "Missing projectId or userId" });
+    if (!projectId) {
+      return res.status(400).json({ error: "Missing projectId" });
+    }
+
+    const settings = bidSettingsSchema.safeParse(req.body);
+    if (!settings.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: toFieldErrors(settings.error),
+      });
     }
 
     // Verify ownership
@@ -23,9 +54,7 @@ export const handlePublishProject: RequestHandler = async (req, res) => {
       .single();
 
     if (fetchError || !project) {
-      return res.status(403).json({
-        error: "Project not found or you don't have permission to modify it",
-      });
+      return sendForbidden(res, "Project not found or you don't have permission to modify it");
     }
 
     if (project.status !== "draft") {
@@ -34,14 +63,29 @@ export const handlePublishProject: RequestHandler = async (req, res) => {
         .json({ error: "Only draft projects can be published" });
     }
 
+    const bidsCloseAt = settings.data.bidsCloseAt !== undefined ? settings.data.bidsCloseAt : project.bids_close_at ?? null;
+    const bidMode = settings.data.bidMode || project.bid_mode || "open";
+    const settingsProblem = bidSettingsProblem({ bidsCloseAt, bidMode });
+    if (settingsProblem) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: settingsProblem,
+      });
+    }
+
     // Update project status to open
-    const { error: updateError } = await supabaseAdmin
+    const { data: published, error: updateError } = await supabaseAdmin
       .from("projects")
       .update({
         status: "open",
         published_at: new Date(),
+        bids_close_at: bidsCloseAt,
+        bid_mode: bidMode,
       })
-      .eq("id", projectId);
+      .eq("id", projectId)
+      .select()
+      .single();
 
     if (updateError) {
       throw updateError;
@@ -55,13 +99,22 @@ export const handlePublishProject: RequestHandler = async (req, res) => {
     });
 
     // Trigger lead routing
-    const matched = await routeProjectToVendors(projectId);
+    const run = await routeProject(projectId, { trigger: "publish", triggeredBy: userId, requestId: req.requestId });
+
+    await recordAudit(req, {
+      action: "project.published",
+      entityType: "project",
+      entityId: projectId,
+      before: project,
+      after: published,
+      metadata: { matched_vendors: run.matched.length, routing_run_id: run.runId },
+    });
 
     res.json({
       success: true,
       projectId,
       status: "open",
-      matched_vendors: matched.length,
+      matched_vendors: run.matched.length,
     });
   } catch (error) {
     console.error("Publish project error:", error);
@@ -77,7 +130,7 @@ export const handlePublishProject: RequestHandler = async (req, res) => {
 export const handleGetProject: RequestHandler = async (req, res) => {
   try {
     const { projectId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = req.auth.userId;
 
     if (!projectId) {
       return res.status(400).json({ error: "Missing projectId" });
@@ -102,21 +155,14 @@ export const handleGetProject: RequestHandler = async (req, res) => {
     // 2. Authorization check: business owner, routed vendor, or admin
     let isAuthorized = false;
 
-    // Fetch user profile to check role
-    const { data: userProfile } = await supabaseAdmin
-      .from("profiles")
-      .select("role")
-      .eq("user_id", userId)
-      .maybeSingle();
-
-    const isAdmin = userProfile?.role === "admin";
-    let isOwner = userId && project.business_id === userId;
-    let isSelectedVendor = userId && project.selected_vendor_id === userId;
+    const isAdmin = req.auth.role === "admin";
+    let isOwner = project.business_id === userId;
+    let isSelectedVendor = project.selected_vendor_id === userId;
     let isRouted = false;
 
     if (isAdmin || isOwner || isSelectedVendor) {
       isAuthorized = true;
-    } else if (userId) {
+    } else {
       // Check if this user is a routed vendor for this project
       const { data: routing, error: routingError } = await supabaseAdmin
         .from("project_routing")
@@ -136,8 +182,28 @@ export const handleGetProject: RequestHandler = async (req, res) => {
       isAuthorized = true;
     }
 
+    // Vendors excluded from the business, or whose lead was revoked, lose access
+    if (isAuthorized && !isAdmin && !isOwner && !isSelectedVendor) {
+      const block = await getVendorLeadBlock(project, userId);
+      if (block) {
+        return sendForbidden(res, block);
+      }
+    }
+
     if (!isAuthorized) {
-      return res.status(403).json({ error: "Not authorized to view this project" });
+      return sendForbidden(res, "Not authorized to view this project");
+    }
+
+    // A vendor sees the main reasons the lead was routed to them (empty if it wasn't)
+    if (req.auth.role === "vendor") {
+      const { data: routing } = await supabaseAdmin
+        .from("project_routing")
+        .select("reasons")
+        .eq("project_id", projectId)
+        .eq("vendor_id", userId)
+        .maybeSingle();
+
+      project.routing_explanation = explainForVendor(routing?.reasons);
     }
 
     // 3. Enrich project with service category
@@ -172,14 +238,16 @@ export const handleGetProject: RequestHandler = async (req, res) => {
           return acc;
         }, {});
 
-        project.vendor_responses = responses.map(r => ({
+        // Sealed bids keep their pricing hidden from the business until the deadline
+        const visible = isAdmin ? responses : sealBids(responses, project);
+        project.vendor_responses = visible.map(r => ({
           ...r,
           vendor_profile: profileMap[r.vendor_id]
         }));
       } else {
         project.vendor_responses = [];
       }
-    } else if (userId) {
+    } else {
       // Vendor only sees their own bid
       const { data: responses } = await supabaseAdmin
         .from("vendor_responses")
@@ -201,7 +269,7 @@ export const handleGetProject: RequestHandler = async (req, res) => {
 };
 
 // Get available projects for vendors (bypass RLS)
-export const handleGetAvailableProjects: RequestHandler = async (_req, res) => {
+export const handleGetAvailableProjects: RequestHandler = async (req, res) => {
   try {
     const { data, error } = await supabaseAdmin
       .from("projects")
@@ -213,9 +281,12 @@ export const handleGetAvailableProjects: RequestHandler = async (_req, res) => {
       throw error;
     }
 
+    const excludedBusinesses =
+      req.auth.role === "vendor" ? await loadExcludedBusinessIds(req.auth.userId) : new Set<string>();
+
     res.json({
       success: true,
-      data: data || [],
+      data: (data || []).filter((project) => !excludedBusinesses.has(project.business_id)),
     });
   } catch (error) {
     console.error("Get available projects error:", error);
@@ -228,11 +299,7 @@ export const handleGetAvailableProjects: RequestHandler = async (_req, res) => {
 // Get all message threads for a vendor (Inbox)
 export const handleGetVendorThreads: RequestHandler = async (req, res) => {
   try {
-    const userId = req.headers["x-user-id"] as string;
-
-    if (!userId) {
-      return res.status(400).json({ error: "Missing x-user-id header" });
-    }
+    const userId = req.auth.userId;
 
     // We want to find all unique project IDs where:
     // 1. Vendor is routed
@@ -309,11 +376,7 @@ export const handleGetVendorThreads: RequestHandler = async (req, res) => {
 // Get routed leads for a specific vendor (bypass RLS)
 export const handleGetRoutedLeads: RequestHandler = async (req, res) => {
   try {
-    const userId = req.headers["x-user-id"] as string;
-
-    if (!userId) {
-      return res.status(400).json({ error: "Missing x-user-id header" });
-    }
+    const userId = req.auth.userId;
 
     const { data: routedLeads, error: routeError } = await supabaseAdmin
       .from("project_routing")
@@ -335,13 +398,31 @@ export const handleGetRoutedLeads: RequestHandler = async (req, res) => {
         )
       `)
       .eq("vendor_id", userId)
+      .neq("status", REVOKED_STATUS)
       .order("routed_at", { ascending: false });
 
     if (routeError) throw routeError;
 
+    const { data: vendorProfile } = await supabaseAdmin
+      .from("profiles")
+      .select("vendor_service_radii")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    // Distance from the vendor's nearest base ZIP, when both ends can be located
+    const serviceRadii = vendorProfile?.vendor_service_radii || [];
+    const leads = (routedLeads || []).map((lead: any) => {
+      const radius = matchServiceRadius(lead.projects?.project_zip, serviceRadii);
+      return {
+        ...lead,
+        distance_miles: radius ? radius.distance_miles : null,
+        within_service_radius: radius ? radius.within : null,
+      };
+    });
+
     res.json({
       success: true,
-      data: routedLeads || [],
+      data: leads,
     });
   } catch (error) {
     console.error("Get routed leads error:", error);
@@ -354,26 +435,9 @@ export const handleGetRoutedLeads: RequestHandler = async (req, res) => {
 // Get projects for a specific business (bypass RLS)
 export const handleGetBusinessProjects: RequestHandler = async (req, res) => {
   try {
-    const userId = req.headers["x-user-id"] as string;
-
-    if (!userId) {
-      return res.status(400).json({ error: "Missing x-user-id header" });
-    }
-
-    const uuidRegex =
-      /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    if (!uuidRegex.test(userId)) {
-      return res.status(400).json({ error: "Invalid x-user-id header" });
-    }
+    const userId = req.auth.userId;
 
-    // Check if user is an admin
-    const { data: userProfile } = await supabaseAdmin
-      .from("profiles")
-      .select("role")
-      .eq("user_id", userId)
-      .maybeSingle();
-
-    const isAdmin = userProfile?.role === "admin";
+    const isAdmin = req.auth.role === "admin";
 
     let query = supabaseAdmin
       .from("projects")
@@ -406,11 +470,7 @@ export const handleGetBusinessProjects: RequestHandler = async (req, res) => {
 // Get projects where a vendor is assigned (bypass RLS)
 export const handleGetVendorProjects: RequestHandler = async (req, res) => {
   try {
-    const userId = req.headers["x-user-id"] as string;
-
-    if (!userId) {
-      return res.status(400).json({ error: "Missing x-user-id header" });
-    }
+    const userId = req.auth.userId;
 
     const { data, error } = await supabaseAdmin
       .from("projects")
@@ -437,11 +497,7 @@ export const handleGetVendorProjects: RequestHandler = async (req, res) => {
 // Get unrouted open projects for a specific vendor (bypass RLS)
 export const handleGetUnroutedProjects: RequestHandler = async (req, res) => {
   try {
-    const vendorId = req.headers["x-vendor-id"] as string;
-
-    if (!vendorId) {
-      return res.status(400).json({ error: "Missing x-vendor-id header" });
-    }
+    const vendorId = req.auth.userId;
 
     // 1. Fetch all open projects
     const { data: openProjects, error: projectError } = await supabaseAdmin
@@ -461,9 +517,12 @@ export const handleGetUnroutedProjects: RequestHandler = async (req, res) => {
     if (routeError) throw routeError;
 
     const routedIds = new Set(routedData?.map(r => r.project_id) || []);
+    const excludedBusinesses = await loadExcludedBusinessIds(vendorId);
 
-    // 3. Filter projects
-    const availableProjects = (openProjects || []).filter(p => !routedIds.has(p.id));
+    // 3. Filter projects (revoked leads stay routed, so they don't come back here)
+    const availableProjects = (openProjects || []).filter(
+      p => !routedIds.has(p.id) && !excludedBusinesses.has(p.business_id),
+    );
 
     res.json({
       success: true,
@@ -481,11 +540,43 @@ export const handleGetUnroutedProjects: RequestHandler = async (req, res) => {
 export const handleUpsertRouting: RequestHandler = async (req, res) => {
   try {
     const { projectId, vendorId, status = 'interested' } = req.body;
+    const userId = req.auth.userId;
 
     if (!projectId || !vendorId) {
       return res.status(400).json({ error: "Missing projectId or vendorId" });
     }
 
+    const { data: project } = await supabaseAdmin
+      .from("projects")
+      .select("business_id")
+      .eq("id", projectId)
+      .maybeSingle();
+
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    // Vendors may only express their own interest; invitations must come from the project owner
+    if (vendorId !== userId && req.auth.role !== "admin" && project.business_id !== userId) {
+      return sendForbidden(res, "Not authorized to route this project");
+    }
+
+    if ((await loadExcludedVendorIds(project.business_id)).has(vendorId)) {
+      return res.status(409).json({ error: EXCLUDED_MESSAGE });
+    }
+
+    const { data: before } = await supabaseAdmin
+      .from("project_routing")
+      .select("*")
+      .eq("project_id", projectId)
+      .eq("vendor_id", vendorId)
+      .maybeSingle();
+
+    // Revoked leads come back only through the admin override, which requires a reason
+    if (before?.status === REVOKED_STATUS) {
+      return res.status(409).json({ error: "This lead was revoked by an admin" });
+    }
+
     const { data, error } = await supabaseAdmin
       .from("project_routing")
       .upsert([
@@ -499,6 +590,15 @@ export const handleUpsertRouting: RequestHandler = async (req, res) => {
 
     if (error) throw error;
 
+    await recordAudit(req, {
+      action: before ? "routing.updated" : "routing.created",
+      entityType: "project_routing",
+      entityId: data?.[0]?.id,
+      before,
+      after: data?.[0],
+      metadata: { project_id: projectId, vendor_id: vendorId },
+    });
+
     res.json({
       success: true,
       data: data?.[0],
@@ -514,11 +614,7 @@ export const handleUpsertRouting: RequestHandler = async (req, res) => {
 // Get all bids submitted by a specific vendor (bypass RLS)
 export const handleGetVendorBids: RequestHandler = async (req, res) => {
   try {
-    const vendorId = req.headers["x-vendor-id"] as string;
-
-    if (!vendorId) {
-      return res.status(400).json({ error: "Missing x-vendor-id header" });
-    }
+    const vendorId = req.auth.userId;
 
     const { data, error } = await supabaseAdmin
       .from("vendor_responses")
@@ -539,27 +635,132 @@ export const handleGetVendorBids: RequestHandler = async (req, res) => {
   }
 };
 
-// Submit or update a bid (bypass RLS)
+// Keep a version of the bid in its revision history. Versions are never edited; the unique
+// (bid_id, version) key turns two revisions racing each other into a 23505.
+async function recordBidRevision(bid: any, version: number, changeNote: string | null) {
+  const { error } = await supabaseAdmin.from("bid_revisions").insert({
+    bid_id: bid.id,
+    project_id: bid.project_id,
+    vendor_id: bid.vendor_id,
+    version,
+    line_items: bid.line_items,
+    bid_amount: bid.bid_amount,
+    first_year_total: bid.first_year_total,
+    contract_total: bid.contract_total,
+    optional_total: bid.optional_total,
+    proposed_timeline: bid.proposed_timeline,
+    response_notes: bid.response_notes,
+    change_note: changeNote,
+  });
+  return error;
+}
+
+// Submit or revise a bid (bypass RLS). Totals are computed here from the line items;
+// bid_amount keeps the full-contract total for lists and sorting. A revision needs a change
+// note and becomes a new version in bid_revisions; earlier versions stay as they were.
 export const handleVendorSubmitBid: RequestHandler = async (req, res) => {
   try {
-    const { projectId, vendorId, bidAmount, proposedTimeline, responseNotes, bidId } = req.body;
+    const parsed = submitBidSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({
+        success: false,
+        error: "Please correct the highlighted fields",
+        fieldErrors: bidFieldErrors(parsed.error),
+      });
+    }
 
-    if (!projectId || !vendorId || !bidAmount || !proposedTimeline) {
-      return res.status(400).json({ error: "Missing required fields" });
+    const { projectId, proposedTimeline, responseNotes, bidId, lineItems, totals, changeNote } = parsed.data;
+    const vendorId = req.auth.userId;
+    const pricing = {
+      line_items: lineItems,
+      bid_amount: totals.contract_total,
+      first_year_total: totals.first_year_total,
+      contract_total: totals.contract_total,
+      optional_total: totals.optional_total,
+    };
+
+    const { data: project } = await supabaseAdmin
+      .from("projects")
+      .select("*")
+      .eq("id", projectId)
+      .maybeSingle();
+
+    if (!project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    if (biddingClosed(project)) {
+      return res.status(409).json({
+        success: false,
+        error: `Bidding closed at ${new Date(project.bids_close_at).toISOString()}; late bids and revisions are not accepted`,
+      });
+    }
+
+    const block = await getVendorLeadBlock(project, vendorId);
+    if (block) {
+      return sendForbidden(res, block);
     }
 
     let result;
+    let previous = null;
     if (bidId) {
-      // Update existing bid
+      // The bid must be on the project the deadline and access checks above ran against
+      const { data: existing, error: existingError } = await supabaseAdmin
+        .from("vendor_responses")
+        .select("*")
+        .eq("id", bidId)
+        .eq("project_id", projectId)
+        .eq("vendor_id", vendorId)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (!existing) {
+        return res.status(404).json({ error: "Bid not found" });
+      }
+      previous = existing;
+
+      const revised = { ...existing, ...pricing, proposed_timeline: proposedTimeline, response_notes: responseNotes ?? null };
+      const version = (existing.revision_count || 1) + 1;
+
+      if (diffBidVersions({ ...existing, version: version - 1 }, { ...revised, version }).length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: "Please correct the highlighted fields",
+          fieldErrors: { lineItems: "This revision does not change the bid" },
+        });
+      }
+      if (!changeNote) {
+        return res.status(400).json({
+          success: false,
+          error: "Please correct the highlighted fields",
+          fieldErrors: { changeNote: "Tell the business what changed in this revision" },
+        });
+      }
+
+      const revisionError = await recordBidRevision(revised, version, changeNote);
+      if (revisionError) {
+        if (revisionError.code === "23505") {
+          return res.status(409).json({ success: false, error: "This bid was just revised. Reload it and try again." });
+        }
+        throw revisionError;
+      }
+
       const { data, error } = await supabaseAdmin
         .from("vendor_responses")
         .update({
-          bid_amount: bidAmount,
+          ...pricing,
           proposed_timeline: proposedTimeline,
           response_notes: responseNotes,
+          revision_count: version,
+          revised_at: new Date(),
           updated_at: new Date(),
+          // Revising answers any amendment made since the bid was placed
+          project_revision: project.revision || 1,
+          needs_confirmation: false,
         })
         .eq("id", bidId)
+        .eq("project_id", projectId)
+        .eq("vendor_id", vendorId)
         .select()
         .single();
 
@@ -572,10 +773,11 @@ export const handleVendorSubmitBid: RequestHandler = async (req, res) => {
         .insert({
           project_id: projectId,
           vendor_id: vendorId,
-          bid_amount: bidAmount,
+          ...pricing,
           proposed_timeline: proposedTimeline,
           response_notes: responseNotes,
           status: 'submitted',
+          project_revision: project.revision || 1,
         })
         .select()
         .single();
@@ -583,6 +785,9 @@ export const handleVendorSubmitBid: RequestHandler = async (req, res) => {
       if (error) throw error;
       result = data;
 
+      const revisionError = await recordBidRevision(result, 1, null);
+      if (revisionError) throw revisionError;
+
       // Update routing status (upsert in case it doesn't exist yet)
       await supabaseAdmin
         .from("project_routing")
@@ -594,6 +799,36 @@ export const handleVendorSubmitBid: RequestHandler = async (req, res) => {
         }, { onConflict: 'project_id, vendor_id' });
     }
 
+    // An amendment that landed after the project was read above missed this bid when it flagged
+    // the older ones, so compare against the revision as it is now
+    const { data: current, error: currentError } = await supabaseAdmin
+      .from("projects")
+      .select("revision")
+      .eq("id", projectId)
+      .maybeSingle();
+
+    if (currentError) throw currentError;
+    if (current && (current.revision || 1) > (result.project_revision || 1)) {
+      const { data: flagged, error: flagError } = await supabaseAdmin
+        .from("vendor_responses")
+        .update({ needs_confirmation: true })
+        .eq("id", result.id)
+        .select()
+        .single();
+
+      if (flagError) throw flagError;
+      result = flagged;
+    }
+
+    await recordAudit(req, {
+      action: bidId ? "bid.revised" : "bid.submitted",
+      entityType: "bid",
+      entityId: result?.id,
+      before: previous,
+      after: result,
+      metadata: { project_id: projectId, version: result?.revision_count || 1, change_note: changeNote || null },
+    });
+
     res.json({
       success: true,
       data: result,
@@ -606,35 +841,101 @@ export const handleVendorSubmitBid: RequestHandler = async (req, res) => {
   }
 };
 
+// Every version of a bid, oldest first. The vendor who made it, the project's business and
+// admins (for disputes) can read it.
+export const handleGetBidRevisions: RequestHandler = async (req, res) => {
+  try {
+    const { projectId, bidId } = req.params;
+    const { userId, role } = req.auth;
+
+    const [{ data: bid, error: bidError }, { data: project, error: projectError }] = await Promise.all([
+      supabaseAdmin.from("vendor_responses").select("id, vendor_id, project_id").eq("id", bidId).eq("project_id", projectId).maybeSingle(),
+      supabaseAdmin.from("projects").select("*").eq("id", projectId).maybeSingle(),
+    ]);
+
+    if (bidError) throw bidError;
+    if (projectError) throw projectError;
+
+    if (!bid || !project) {
+      return res.status(404).json({ error: "Bid not found" });
+    }
+    if (role !== "admin" && bid.vendor_id !== userId && project.business_id !== userId) {
+      return sendForbidden(res, "Not authorized to view this bid's history");
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("bid_revisions")
+      .select("*")
+      .eq("bid_id", bidId)
+      .order("version", { ascending: true });
+
+    if (error) {
+      if (isMissingTableError(error)) {
+        return res.json({ success: true, data: [] });
+      }
+      throw error;
+    }
+
+    // The business sees sealed versions without pricing until the deadline, like the bid itself
+    const versions = role === "admin" || bid.vendor_id === userId ? data || [] : sealBids(data || [], project);
+
+    res.json({ success: true, data: versions });
+  } catch (error) {
+    console.error("Get bid revisions error:", error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+};
+
 // Assign a vendor to a project (bypass RLS)
 export const handleAssignVendor: RequestHandler = async (req, res) => {
   try {
     const { projectId, vendorId, bidId } = req.body;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = req.auth.userId;
 
-    if (!projectId || !vendorId || !userId) {
+    if (!projectId || !vendorId) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
     // Verify ownership via admin client
     const { data: project, error: fetchError } = await supabaseAdmin
       .from("projects")
-      .select("business_id")
+      .select("*")
       .eq("id", projectId)
       .single();
 
     if (fetchError || !project || project.business_id !== userId) {
-      return res.status(403).json({ error: "Not authorized to modify this project" });
+      return sendForbidden(res, "Not authorized to modify this project");
+    }
+
+    if (bidsSealed(project)) {
+      return res.status(409).json({ error: "Bids are sealed until bidding closes; choose a vendor after the deadline" });
+    }
+
+    const { data: bid } = await supabaseAdmin
+      .from("vendor_responses")
+      .select("needs_confirmation")
+      .eq("project_id", projectId)
+      .eq("vendor_id", vendorId)
+      .maybeSingle();
+
+    if (bid?.needs_confirmation) {
+      return res.status(409).json({
+        error: "This bid was made before the project was amended; the vendor must confirm or revise it first",
+      });
     }
 
     // Update project
-    const { error: updateError } = await supabaseAdmin
+    const { data: updated, error: updateError } = await supabaseAdmin
       .from("projects")
       .update({
         selected_vendor_id: vendorId,
         status: 'selected'
       })
-      .eq("id", projectId);
+      .eq("id", projectId)
+      .select()
+      .single();
 
     if (updateError) throw updateError;
 
@@ -646,6 +947,15 @@ export const handleAssignVendor: RequestHandler = async (req, res) => {
         .eq("id", bidId);
     }
 
+    await recordAudit(req, {
+      action: "project.vendor_assigned",
+      entityType: "project",
+      entityId: projectId,
+      before: project,
+      after: updated,
+      metadata: { vendor_id: vendorId, bid_id: bidId || null },
+    });
+
     res.json({
       success: true,
       message: "Vendor assigned successfully"
@@ -662,21 +972,21 @@ export const handleAssignVendor: RequestHandler = async (req, res) => {
 export const handleDeleteProject: RequestHandler = async (req, res) => {
   try {
     const { projectId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = req.auth.userId;
 
-    if (!projectId || !userId) {
-      return res.status(400).json({ error: "Missing projectId or userId" });
+    if (!projectId) {
+      return res.status(400).json({ error: "Missing projectId" });
     }
 
     // Verify ownership
     const { data: project, error: fetchError } = await supabaseAdmin
       .from("projects")
-      .select("business_id")
+      .select("*")
       .eq("id", projectId)
       .single();
 
     if (fetchError || !project || project.business_id !== userId) {
-      return res.status(403).json({ error: "Not authorized to delete this project" });
+      return sendForbidden(res, "Not authorized to delete this project");
     }
 
     // Delete project-related data first (if cascade delete is not set)
@@ -693,6 +1003,14 @@ export const handleDeleteProject: RequestHandler = async (req, res) => {
 
     if (deleteError) throw deleteError;
 
+    await recordAudit(req, {
+      action: "project.deleted",
+      entityType: "project",
+      entityId: projectId,
+      before: project,
+      after: null,
+    });
+
     res.json({
       success: true,
       message: "Project deleted successfully"
@@ -709,75 +1027,29 @@ export const handleDeleteProject: RequestHandler = async (req, res) => {
 export const handleGetMessages: RequestHandler = async (req, res) => {
   try {
     const { projectId } = req.params;
-    const userId = req.headers["x-user-id"] as string;
     const targetVendorId = req.query.vendorId as string;
 
-    if (!projectId || !userId) {
-      return res.status(400).json({ error: "Missing projectId or userId" });
-    }
-
-    const { data: project, error: projectError } = await supabaseAdmin
-      .from("projects")
-      .select("business_id, selected_vendor_id")
-      .eq("id", projectId)
-      .single();
-
-    if (projectError || !project) {
-      return res.status(404).json({ error: "Project not found" });
+    if (!projectId) {
+      return res.status(400).json({ error: "Missing projectId" });
     }
 
-    const isOwner = project.business_id === userId;
-
-    // Fetch user profile to check role
-    const { data: userProfile } = await supabaseAdmin
-      .from("profiles")
-      .select("role")
-      .eq("user_id", userId)
-      .maybeSingle();
-
-    const isAdmin = userProfile?.role === "admin";
-
     // effectiveVendorId is the vendor whose conversation we are looking at.
     // 1. If owner: must provide targetVendorId.
     // 2. If vendor: is their own userId.
     // 3. If admin: can provide targetVendorId or leave empty to see all.
-    let effectiveVendorId = targetVendorId;
-    if (!isOwner && !isAdmin) {
-      effectiveVendorId = userId;
-    }
-
-    if (!isOwner && !isAdmin) {
-      // If not owner or admin, verify this user is a vendor for this project
-      // Check routing, responses, selection, or existing messages
-      const [{ data: routing }, { data: response }, { data: hasMessages }] = await Promise.all([
-        supabaseAdmin
-          .from("project_routing")
-          .select("id")
-          .eq("project_id", projectId)
-          .eq("vendor_id", userId)
-          .maybeSingle(),
-        supabaseAdmin
-          .from("vendor_responses")
-          .select("id")
-          .eq("project_id", projectId)
-          .eq("vendor_id", userId)
-          .maybeSingle(),
-        supabaseAdmin
-          .from("project_messages")
-          .select("id")
-          .eq("project_id", projectId)
-          .eq("vendor_id", userId)
-          .limit(1)
-          .maybeSingle()
-      ]);
+    const access = await resolveThreadAccess(projectId, req.auth, targetVendorId);
 
-      const isSelectedVendor = project.selected_vendor_id === userId;
+    if (!access.project) {
+      return res.status(404).json({ error: "Project not found" });
+    }
 
-      if (!routing && !response && !isSelectedVendor && !hasMessages) {
-        return res.status(403).json({ error: "Not authorized to view messages" });
-      }
+    if (!access.allowed) {
+      return sendForbidden(res, access.blocked || "Not authorized to view messages");
     }
 
+    const { project, isAdmin } = access;
+    const effectiveVendorId = access.vendorId;
+
     // Filter messages:
     // 1. Project ID must match
     // 2. Either (sender is owner/admin and recipient/context is effectiveVendorId) OR (sender is effectiveVendorId)
@@ -850,8 +1122,21 @@ export const handleGetMessages: RequestHandler = async (req, res) => {
 };
 
 // Helper function to enrich messages with profiles
+// Private attachments are served through short-lived signed URLs; rows from before the
+// private bucket still carry a plain image_url until scripts/migrate-message-images.ts runs
+function withSignedImageUrl(message: any, imageUrls: Record<string, string>) {
+  if (!message?.image_path) return message;
+  return {
+    ...message,
+    image_url: imageUrls[message.image_path] || null,
+    image_url_expires_at: new Date(Date.now() + SIGNED_DOWNLOAD_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
 async function respondWithEnrichedMessages(res: any, messages: any[] | null, supabaseAdmin: any) {
   if (messages && messages.length > 0) {
+    const imageUrls = await createSignedDownloadUrls(messages.map((m) => m.image_path));
+
     const senderIds = Array.from(new Set(messages.map(m => m.sender_id)));
     const { data: profiles } = await supabaseAdmin
       .from("profiles")
@@ -864,7 +1149,7 @@ async function respondWithEnrichedMessages(res: any, messages: any[] | null, sup
     }, {});
 
     const enrichedMessages = messages.map(m => ({
-      ...m,
+      ...withSignedImageUrl(m, imageUrls),
       profiles: profileMap[m.sender_id]
     }));
 
@@ -884,9 +1169,9 @@ async function respondWithEnrichedMessages(res: any, messages: any[] | null, sup
 export const handleVendorUpdateStatus: RequestHandler = async (req, res) => {
   try {
     const { projectId, action } = req.body;
-    const userId = req.headers["x-user-id"] as string;
+    const userId = req.auth.userId;
 
-    if (!projectId || !action || !userId) {
+    if (!projectId || !action) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
@@ -901,12 +1186,21 @@ export const handleVendorUpdateStatus: RequestHandler = async (req, res) => {
     }
 
     if (action === 'decline') {
+      const { data: routingBefore } = await supabaseAdmin
+        .from("project_routing")
+        .select("*")
+        .eq("project_id", projectId)
+        .eq("vendor_id", userId)
+        .maybeSingle();
+
       // Vendor declining a lead/routing
-      const { error: updateError } = await supabaseAdmin
+      const { data: routingAfter, error: updateError } = await supabaseAdmin
         .from("project_routing")
         .update({ status: 'declined', updated_at: new Date() })
         .eq("project_id", projectId)
-        .eq("vendor_id", userId);
+        .eq("vendor_id", userId)
+        .select()
+        .maybeSingle();
 
       if (updateError) throw updateError;
 
@@ -917,6 +1211,15 @@ export const handleVendorUpdateStatus: RequestHandler = async (req, res) => {
         .eq("project_id", projectId)
         .eq("vendor_id", userId);
 
+      await recordAudit(req, {
+        action: "routing.declined",
+        entityType: "project_routing",
+        entityId: routingBefore?.id,
+        before: routingBefore,
+        after: routingAfter,
+        metadata: { project_id: projectId },
+      });
+
       return res.json({ success: true, message: "Lead declined successfully" });
     }
 
@@ -924,13 +1227,15 @@ export const handleVendorUpdateStatus: RequestHandler = async (req, res) => {
       // Vendor marking project as completed
       // Must be the selected vendor
       if (project.selected_vendor_id !== userId) {
-        return res.status(403).json({ error: "Only the assigned vendor can mark a project as completed" });
+        return sendForbidden(res, "Only the assigned vendor can mark a project as completed");
       }
 
-      const { error: updateError } = await supabaseAdmin
+      const { data: completed, error: updateError } = await supabaseAdmin
         .from("projects")
         .update({ status: 'completed', updated_at: new Date() })
-        .eq("id", projectId);
+        .eq("id", projectId)
+        .select()
+        .single();
 
       if (updateError) throw updateError;
 
@@ -941,29 +1246,33 @@ export const handleVendorUpdateStatus: RequestHandler = async (req, res) => {
         action: "completed_by_vendor",
       });
 
+      await recordAudit(req, {
+        action: "project.completed_by_vendor",
+        entityType: "project",
+        entityId: projectId,
+        before: project,
+        after: completed,
+      });
+
       return res.json({ success: true, message: "Project marked as completed" });
     }
 
     if (action === 'approve') {
       // Business owner approving project
       // Must be the owner or admin
-      const { data: userProfile } = await supabaseAdmin
-        .from("profiles")
-        .select("role")
-        .eq("user_id", userId)
-        .maybeSingle();
-
-      const isAdmin = userProfile?.role === "admin";
+      const isAdmin = req.auth.role === "admin";
       const isOwner = project.business_id === userId;
 
       if (!isOwner && !isAdmin) {
-        return res.status(403).json({ error: "Only the project owner can approve the project" });
+        return sendForbidden(res, "Only the project owner can approve the project");
       }
 
-      const { error: updateError } = await supabaseAdmin
+      const { data: completed, error: updateError } = await supabaseAdmin
         .from("projects")
         .update({ status: 'completed', updated_at: new Date() })
-        .eq("id", projectId);
+        .eq("id", projectId)
+        .select()
+        .single();
 
       if (updateError) throw updateError;
 
@@ -974,6 +1283,14 @@ export const handleVendorUpdateStatus: RequestHandler = async (req, res) => {
         action: "approved_by_business",
       });
 
+      await recordAudit(req, {
+        action: "project.approved",
+        entityType: "project",
+        entityId: projectId,
+        before: project,
+        after: completed,
+      });
+
       return res.json({ success: true, message: "Project approved and completed" });
     }
 
@@ -989,62 +1306,60 @@ export const handleVendorUpdateStatus: RequestHandler = async (req, res) => {
 // Send a message
 export const handleSendMessage: RequestHandler = async (req, res) => {
   try {
-    const { projectId, messageText, vendorId: targetVendorId, imageUrl } = req.body;
-    const userId = req.headers["x-user-id"] as string;
+    const { projectId, messageText, vendorId: targetVendorId, imagePath } = req.body;
+    const userId = req.auth.userId;
 
-    if (!projectId || (!messageText && !imageUrl) || !userId) {
+    if (!projectId || (!messageText && !imagePath)) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
-    const { data: project } = await supabaseAdmin
-      .from("projects")
-      .select("business_id, selected_vendor_id")
-      .eq("id", projectId)
-      .single();
-
-    if (!project) return res.status(404).json({ error: "Project not found" });
+    const access = await resolveThreadAccess(projectId, req.auth, targetVendorId);
 
-    const isOwner = project.business_id === userId;
-
-    // Fetch user profile to check role
-    const { data: userProfile } = await supabaseAdmin
-      .from("profiles")
-      .select("role")
-      .eq("user_id", userId)
-      .maybeSingle();
+    if (!access.project) return res.status(404).json({ error: "Project not found" });
+    if (!access.allowed) return sendForbidden(res, access.blocked || "Not authorized");
 
-    const isAdmin = userProfile?.role === "admin";
-    const vendorId = isOwner ? targetVendorId : (isAdmin ? targetVendorId : userId);
+    const vendorId = access.vendorId;
 
-    if (!isOwner && !isAdmin) {
-      // Verify vendor authorization
-      const [{ data: routing }, { data: response }, { data: hasMessages }] = await Promise.all([
-        supabaseAdmin
-          .from("project_routing")
-          .select("id")
-          .eq("project_id", projectId)
-          .eq("vendor_id", userId)
-          .maybeSingle(),
-        supabaseAdmin
-          .from("vendor_responses")
-          .select("id")
-          .eq("project_id", projectId)
-          .eq("vendor_id", userId)
-          .maybeSingle(),
-        supabaseAdmin
-          .from("project_messages")
-          .select("id")
-          .eq("project_id", projectId)
-          .eq("vendor_id", userId)
-          .limit(1)
-          .maybeSingle()
-      ]);
+    // Attachments must already be uploaded to this thread's folder in the private bucket
+    if (imagePath) {
+      const file = parseProjectFilePath(imagePath);
+      if (!file || file.projectId !== projectId || file.thread !== (vendorId || SHARED_THREAD)) {
+        return res.status(400).json({ error: "Invalid attachment" });
+      }
+    }
 
-      const isSelectedVendor = project.selected_vendor_id === userId;
+    // Until a vendor is selected, contact details are masked, flagged or blocked per admin policy.
+    // Admins are not moderated.
+    const originalText = messageText || "";
+    const moderation = access.isAdmin
+      ? null
+      : moderateMessage(
+          originalText,
+          {
+            projectStatus: access.project.status,
+            selectedVendorId: access.project.selected_vendor_id,
+            threadVendorId: vendorId || null,
+          },
+          await getContactModerationPolicy(),
+        );
+
+    const moderationEvent = {
+      projectId,
+      senderId: userId,
+      vendorId: vendorId || null,
+      projectStatus: access.project.status,
+      decision: moderation,
+      originalText,
+      requestId: req.requestId,
+    };
 
-      if (!routing && !response && !isSelectedVendor && !hasMessages) {
-        return res.status(403).json({ error: "Not authorized" });
-      }
+    if (moderation?.action === "block") {
+      await recordModerationEvent({ ...moderationEvent, messageId: null });
+      return res.status(400).json({
+        success: false,
+        error: "Phone numbers, emails and links can't be shared until a vendor is selected",
+        code: "contact_info_blocked",
+      });
     }
 
     // Find vendor_response_id to link the message (optional)
@@ -1059,9 +1374,10 @@ export const handleSendMessage: RequestHandler = async (req, res) => {
     const insertData: any = {
       project_id: projectId,
       sender_id: userId,
-      message_text: messageText || "",
+      message_text: moderation ? moderation.text : originalText,
       vendor_response_id: response?.id || null,
-      image_url: imageUrl || null
+      image_path: imagePath || null,
+      ...(moderation && moderation.action !== "allow" ? { moderation_action: moderation.action } : {})
     };
 
     // Only add vendor_id if we have reason to believe the column exists
@@ -1075,10 +1391,12 @@ export const handleSendMessage: RequestHandler = async (req, res) => {
       .single();
 
     if (error && ['42703', 'PGRST204'].includes(error.code)) {
-      // Column doesn't exist yet, retry without vendor_id
+      // Column doesn't exist yet, retry without the newer vendor_id and moderation_action columns
+      // (the moderation event below still records the action)
+      const { moderation_action, ...legacyInsertData } = insertData;
       const { data: retryMessage, error: retryError } = await supabaseAdmin
         .from("project_messages")
-        .insert(insertData)
+        .insert(legacyInsertData)
         .select("*")
         .single();
 
@@ -1088,6 +1406,18 @@ export const handleSendMessage: RequestHandler = async (req, res) => {
 
     if (error) throw error;
 
+    if (moderation) {
+      await recordModerationEvent({ ...moderationEvent, messageId: message.id });
+    }
+
+    await recordAudit(req, {
+      action: "message.sent",
+      entityType: "project_message",
+      entityId: message?.id,
+      after: message,
+      metadata: { project_id: projectId, vendor_id: vendorId || null, moderation: moderation?.action || null },
+    });
+
     // Fetch sender profile
     const { data: profile } = await supabaseAdmin
       .from("profiles")
@@ -1095,10 +1425,12 @@ export const handleSendMessage: RequestHandler = async (req, res) => {
       .eq("user_id", userId)
       .maybeSingle();
 
+    const imageUrls = await createSignedDownloadUrls([message.image_path]);
+
     res.json({
       success: true,
       data: {
-        ...message,
+        ...withSignedImageUrl(message, imageUrls),
         profiles: profile
       },
     });
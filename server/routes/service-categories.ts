@@ -0,0 +1,16 @@
+import { RequestHandler } from "express";
+import { activeCategories, flattenTaxonomy, loadServiceTaxonomy } from "../lib/service-taxonomy";
+
+// The active service taxonomy for pickers: depth-first, with a breadcrumb label per category.
+// Public reference data, like the service_categories table itself.
+export const handleGetServiceCategories: RequestHandler = async (_req, res) => {
+  try {
+    const categories = flattenTaxonomy(activeCategories(await loadServiceTaxonomy())).map(
+      ({ id, name, description, parent_id, depth, label }) => ({ id, name, description, parent_id, depth, label }),
+    );
+    res.json({ success: true, data: categories });
+  } catch (error) {
+    console.error("Service categories error:", error);
+    res.status(500).json({ error: error instanceof Error ? error.message : "Unknown error" });
+  }
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { BidLineItem, bidLineItems, bidTotals, describeLineItem, lineItemFirstYear, lineItemTotal } from "./bid-pricing";
+
+const retainer: BidLineItem = { description: "Managed services", pricing_model: "monthly", unit_price: 4000, quantity: 24 };
+const setup: BidLineItem = { description: "Onboarding", pricing_model: "hourly", unit_price: 150, quantity: 40 };
+const licenses: BidLineItem = { description: "Licenses", pricing_model: "per_unit", unit_price: 12.5, quantity: 30, optional: true };
+
+describe("lineItemTotal", () => {
+  it("should multiply the price by the quantity", () => {
+    expect(lineItemTotal(retainer)).toBe(96000);
+    expect(lineItemTotal(setup)).toBe(6000);
+    expect(lineItemTotal(licenses)).toBe(375);
+  });
+
+  it("should ignore the quantity on fixed items", () => {
+    expect(lineItemTotal({ description: "Audit", pricing_model: "fixed", unit_price: 30000, quantity: 3 })).toBe(30000);
+  });
+});
+
+describe("lineItemFirstYear", () => {
+  it("should only count the first twelve months of a retainer", () => {
+    expect(lineItemFirstYear(retainer)).toBe(48000);
+    expect(lineItemFirstYear({ ...retainer, quantity: 6 })).toBe(24000);
+  });
+
+  it("should count one-off items in full", () => {
+    expect(lineItemFirstYear(setup)).toBe(6000);
+  });
+});
+
+describe("bidTotals", () => {
+  it("should total required items and report optional ones separately", () => {
+    expect(bidTotals([retainer, setup, licenses])).toEqual({
+      first_year_total: 54000,
+      contract_total: 102000,
+      monthly_total: 4000,
+      optional_total: 375,
+    });
+  });
+
+  it("should round to cents", () => {
+    const item: BidLineItem = { description: "Support", pricing_model: "hourly", unit_price: 33.333, quantity: 3 };
+    expect(bidTotals([item]).contract_total).toBe(100);
+  });
+});
+
+describe("describeLineItem", () => {
+  it("should show the price and quantity for each pricing model", () => {
+    expect(describeLineItem(retainer)).toBe("$4,000/month × 24 months");
+    expect(describeLineItem(setup)).toBe("$150/hr × 40 hours");
+    expect(describeLineItem(licenses)).toBe("$12.50 × 30 units");
+  });
+});
+
+describe("bidLineItems", () => {
+  it("should show bids without line items as one fixed item", () => {
+    expect(bidLineItems({ bid_amount: 30000, line_items: [] })).toEqual([
+      { description: "Project total", pricing_model: "fixed", unit_price: 30000, quantity: 1 },
+    ]);
+  });
+});
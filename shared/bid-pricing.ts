@@ -0,0 +1,96 @@
+/**
+ * Bid pricing shared by the bid form, the bid list and the server, so the totals a vendor sees
+ * while pricing are the totals that get stored and compared.
+ *
+ * A bid is a list of line items, each with a pricing model:
+ * - fixed: one price
+ * - hourly: rate × estimated hours
+ * - monthly: retainer × number of months
+ * - per_unit: unit price × quantity
+ *
+ * Optional items are offered but not counted in the bid's totals.
+ */
+
+export type PricingModel = "fixed" | "hourly" | "monthly" | "per_unit";
+
+export interface BidLineItem {
+  description: string;
+  pricing_model: PricingModel;
+  unit_price: number;
+  // Hours, months or units; always 1 for fixed items
+  quantity: number;
+  optional?: boolean;
+}
+
+export interface BidTotals {
+  first_year_total: number;
+  contract_total: number;
+  // Recurring monthly cost of the required items
+  monthly_total: number;
+  // Full-contract cost of the optional items, if the business adds them all
+  optional_total: number;
+}
+
+export const PRICING_MODELS: { value: PricingModel; label: string; unit: string | null }[] = [
+  { value: "fixed", label: "Fixed price", unit: null },
+  { value: "hourly", label: "Hourly", unit: "hours" },
+  { value: "monthly", label: "Monthly retainer", unit: "months" },
+  { value: "per_unit", label: "Per unit", unit: "units" },
+];
+
+const MONTHS_PER_YEAR = 12;
+
+export const roundCurrency = (amount: number) => Math.round((Number(amount) || 0) * 100) / 100;
+
+// What the item costs over the whole contract
+export function lineItemTotal(item: BidLineItem): number {
+  const quantity = item.pricing_model === "fixed" ? 1 : Number(item.quantity) || 0;
+  return roundCurrency((Number(item.unit_price) || 0) * quantity);
+}
+
+// What the item costs in the first twelve months. Retainers only count the months that fall in
+// the first year; everything else is billed up front.
+export function lineItemFirstYear(item: BidLineItem): number {
+  if (item.pricing_model !== "monthly") return lineItemTotal(item);
+  return roundCurrency((Number(item.unit_price) || 0) * Math.min(Number(item.quantity) || 0, MONTHS_PER_YEAR));
+}
+
+export function bidTotals(items: BidLineItem[]): BidTotals {
+  const required = items.filter((item) => !item.optional);
+  const sum = (values: number[]) => roundCurrency(values.reduce((total, value) => total + value, 0));
+
+  return {
+    first_year_total: sum(required.map(lineItemFirstYear)),
+    contract_total: sum(required.map(lineItemTotal)),
+    monthly_total: sum(required.filter((item) => item.pricing_model === "monthly").map((item) => Number(item.unit_price) || 0)),
+    optional_total: sum(items.filter((item) => item.optional).map(lineItemTotal)),
+  };
+}
+
+// "$4,000", "$12.50"
+export function formatCurrency(amount: number): string {
+  const rounded = roundCurrency(amount);
+  const digits = Number.isInteger(rounded) ? 0 : 2;
+  return `$${rounded.toLocaleString("en-US", { minimumFractionDigits: digits, maximumFractionDigits: digits })}`;
+}
+
+// "$4,000/month × 12 months", "$150/hr × 40 hours", "$30,000"
+export function describeLineItem(item: BidLineItem): string {
+  const price = formatCurrency(item.unit_price);
+  switch (item.pricing_model) {
+    case "hourly":
+      return `${price}/hr × ${item.quantity} hours`;
+    case "monthly":
+      return `${price}/month × ${item.quantity} months`;
+    case "per_unit":
+      return `${price} × ${item.quantity} units`;
+    default:
+      return price;
+  }
+}
+
+// Bids from before line items only have bid_amount; show them as one fixed item
+export function bidLineItems(bid: { line_items?: BidLineItem[] | null; bid_amount?: number | null }): BidLineItem[] {
+  if (bid.line_items && bid.line_items.length > 0) return bid.line_items;
+  return [{ description: "Project total", pricing_model: "fixed", unit_price: Number(bid.bid_amount) || 0, quantity: 1 }];
+}
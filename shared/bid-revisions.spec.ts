@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { BidVersion, diffBidVersions } from "./bid-revisions";
+
+const original: BidVersion = {
+  version: 1,
+  line_items: [
+    { description: "Retainer", pricing_model: "monthly", unit_price: 4000, quantity: 12 },
+    { description: "Onboarding", pricing_model: "fixed", unit_price: 2000, quantity: 1 },
+  ],
+  bid_amount: 50000,
+  proposed_timeline: "30 days",
+  response_notes: "Happy to help",
+};
+
+describe("diffBidVersions", () => {
+  it("should report nothing for identical versions", () => {
+    expect(diffBidVersions(original, { ...original, version: 2, response_notes: " Happy to help " })).toEqual([]);
+  });
+
+  it("should report total, timeline and line item changes", () => {
+    const revised: BidVersion = {
+      ...original,
+      version: 2,
+      proposed_timeline: "45 days",
+      line_items: [
+        { description: "Retainer", pricing_model: "monthly", unit_price: 3500, quantity: 12 },
+        { description: "Training", pricing_model: "hourly", unit_price: 100, quantity: 10, optional: true },
+      ],
+    };
+
+    expect(diffBidVersions(original, revised)).toEqual([
+      { field: "contract_total", label: "Full contract", before: "$50,000", after: "$42,000" },
+      { field: "first_year_total", label: "First year", before: "$50,000", after: "$42,000" },
+      { field: "proposed_timeline", label: "Timeline", before: "30 days", after: "45 days" },
+      { field: "line_item", label: "Retainer", before: "$4,000/month × 12 months", after: "$3,500/month × 12 months" },
+      { field: "line_item", label: "Onboarding", before: "$2,000", after: null },
+      { field: "line_item", label: "Training", before: null, after: "$100/hr × 10 hours (optional)" },
+    ]);
+  });
+
+  it("should compare a bid from before line items by its amount", () => {
+    const legacy: BidVersion = { version: 1, line_items: [], bid_amount: 30000, proposed_timeline: "30 days", response_notes: null };
+    const changes = diffBidVersions(legacy, { ...legacy, version: 2, bid_amount: 28000 });
+
+    expect(changes.map((change) => change.field)).toEqual(["contract_total", "first_year_total", "line_item"]);
+  });
+});
@@ -0,0 +1,77 @@
+import { BidLineItem, bidLineItems, bidTotals, describeLineItem, formatCurrency } from "./bid-pricing";
+
+/**
+ * Bid revision history. Every submitted version of a bid is kept as-is; the business, the vendor
+ * and admins compare consecutive versions with diffBidVersions.
+ */
+
+export interface BidVersion {
+  version: number;
+  line_items: BidLineItem[] | null;
+  bid_amount: number | null;
+  proposed_timeline: string | null;
+  response_notes: string | null;
+  change_note?: string | null;
+  created_at?: string;
+}
+
+export interface BidChange {
+  field: "contract_total" | "first_year_total" | "proposed_timeline" | "response_notes" | "line_item";
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+const lineItemText = (item: BidLineItem) => `${describeLineItem(item)}${item.optional ? " (optional)" : ""}`;
+
+const text = (value: string | null | undefined) => (value || "").trim() || null;
+
+// What changed from `previous` to `next`, totals first, then timeline, notes and line items.
+// Line items are matched by description.
+export function diffBidVersions(previous: BidVersion, next: BidVersion): BidChange[] {
+  const changes: BidChange[] = [];
+  const beforeItems = bidLineItems(previous);
+  const afterItems = bidLineItems(next);
+  const beforeTotals = bidTotals(beforeItems);
+  const afterTotals = bidTotals(afterItems);
+
+  if (beforeTotals.contract_total !== afterTotals.contract_total) {
+    changes.push({
+      field: "contract_total",
+      label: "Full contract",
+      before: formatCurrency(beforeTotals.contract_total),
+      after: formatCurrency(afterTotals.contract_total),
+    });
+  }
+  if (beforeTotals.first_year_total !== afterTotals.first_year_total) {
+    changes.push({
+      field: "first_year_total",
+      label: "First year",
+      before: formatCurrency(beforeTotals.first_year_total),
+      after: formatCurrency(afterTotals.first_year_total),
+    });
+  }
+  if (text(previous.proposed_timeline) !== text(next.proposed_timeline)) {
+    changes.push({ field: "proposed_timeline", label: "Timeline", before: text(previous.proposed_timeline), after: text(next.proposed_timeline) });
+  }
+  if (text(previous.response_notes) !== text(next.response_notes)) {
+    changes.push({ field: "response_notes", label: "Notes", before: text(previous.response_notes), after: text(next.response_notes) });
+  }
+
+  const key = (item: BidLineItem) => item.description.trim().toLowerCase();
+  for (const item of beforeItems) {
+    const match = afterItems.find((candidate) => key(candidate) === key(item));
+    if (!match) {
+      changes.push({ field: "line_item", label: item.description, before: lineItemText(item), after: null });
+    } else if (lineItemText(match) !== lineItemText(item)) {
+      changes.push({ field: "line_item", label: item.description, before: lineItemText(item), after: lineItemText(match) });
+    }
+  }
+  for (const item of afterItems) {
+    if (!beforeItems.some((candidate) => key(candidate) === key(item))) {
+      changes.push({ field: "line_item", label: item.description, before: null, after: lineItemText(item) });
+    }
+  }
+
+  return changes;
+}